@@ -0,0 +1,128 @@
+// Run with: node --test scripts/adjustment-tests/
+//
+// Covers manual billing adjustments: how calculateBilledHours applies a
+// write-down or write-up after MIN/MAX (floored at zero, no carryover), the
+// adjustment's display, and the form helpers in src/utils/billingAdjustments.ts.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  DEFAULT_BILLING_LIMITS,
+  calculateBilledHours,
+  formatBillingAdjustment,
+} from '../../src/utils/billing.ts';
+import {
+  adjustmentReasonsByProject,
+  formatAdjustmentValue,
+  parseAdjustmentValue,
+  signedAdjustmentValue,
+  toAdjustmentInsert,
+} from '../../src/utils/billingAdjustments.ts';
+import type { BillingAdjustmentRow } from '../../src/types/index.ts';
+
+function row(overrides: Partial<BillingAdjustmentRow> = {}): BillingAdjustmentRow {
+  return {
+    id: 'a1',
+    project_id: 'p-uuid',
+    external_project_id: 'ext-portal',
+    project_name: 'Portal',
+    company_name: 'Acme',
+    adjustment_month: '2026-03-01',
+    adjustment_type: 'hours',
+    hours: -5,
+    amount_cents: null,
+    reason: 'Courtesy discount',
+    created_by_email: 'am@example.com',
+    created_at: '2026-03-31T12:00:00Z',
+    can_edit: true,
+    ...overrides,
+  };
+}
+
+test('no manual adjustment leaves the result unchanged', () => {
+  const result = calculateBilledHours(600, DEFAULT_BILLING_LIMITS, 0, 100, true, { hours: 0, amount: 0 });
+  assert.equal(result.billedHours, 10);
+  assert.equal(result.revenue, 1000);
+  assert.equal(result.manualAdjustmentHours, 0);
+  assert.equal(result.manualAdjustmentRevenue, 0);
+  assert.deepEqual(result.adjustment, { type: 'none' });
+});
+
+test('write-down in hours is billed at the rate and reported', () => {
+  const result = calculateBilledHours(600, DEFAULT_BILLING_LIMITS, 0, 100, true, { hours: -2.5, amount: 0 });
+  assert.equal(result.billedHours, 7.5);
+  assert.equal(result.revenue, 750);
+  assert.deepEqual(result.adjustment, { type: 'manual_adjustment', hours: -2.5, revenue: -250 });
+  assert.equal(formatBillingAdjustment(result.adjustment), 'Manual adjustment (-2.50h, -$250.00)');
+});
+
+test('write-up amount changes revenue but not hours', () => {
+  const result = calculateBilledHours(600, DEFAULT_BILLING_LIMITS, 0, 100, true, { hours: 0, amount: 150 });
+  assert.equal(result.billedHours, 10);
+  assert.equal(result.revenue, 1150);
+  assert.equal(result.manualAdjustmentHours, 0);
+  assert.equal(result.manualAdjustmentRevenue, 150);
+  assert.equal(formatBillingAdjustment(result.adjustment), 'Manual adjustment (0h, +$150.00)');
+});
+
+test('adjustments apply after the maximum and never create carryover', () => {
+  const limits = { ...DEFAULT_BILLING_LIMITS, maximumHours: 8, carryoverEnabled: true };
+  const result = calculateBilledHours(600, limits, 0, 100, true, { hours: -3, amount: 0 });
+  assert.equal(result.maximumApplied, true);
+  assert.equal(result.carryoverOut, 2);
+  assert.equal(result.billedHours, 5);
+  assert.equal(result.revenue, 500);
+});
+
+test('write-downs larger than the month floor billed hours and revenue at zero', () => {
+  const result = calculateBilledHours(120, DEFAULT_BILLING_LIMITS, 0, 100, true, { hours: -5, amount: -50 });
+  assert.equal(result.billedHours, 0);
+  assert.equal(result.revenue, 0);
+  assert.equal(result.manualAdjustmentHours, -2);
+  assert.equal(result.manualAdjustmentRevenue, -200);
+});
+
+test('form values must be positive and are signed by direction', () => {
+  assert.equal(parseAdjustmentValue(' 2.5 '), 2.5);
+  assert.equal(parseAdjustmentValue('1.256'), 1.26);
+  assert.equal(parseAdjustmentValue('0'), null);
+  assert.equal(parseAdjustmentValue('-3'), null);
+  assert.equal(parseAdjustmentValue('abc'), null);
+  assert.equal(parseAdjustmentValue(''), null);
+  assert.equal(signedAdjustmentValue(5, 'down'), -5);
+  assert.equal(signedAdjustmentValue(5, 'up'), 5);
+});
+
+test('insert rows carry hours or cents for their type', () => {
+  const form = { externalProjectId: 'ext-portal', month: '2026-03-01', reason: ' Courtesy ' };
+  assert.deepEqual(toAdjustmentInsert({ ...form, adjustmentType: 'hours', value: -5 }, 'p-uuid'), {
+    project_id: 'p-uuid',
+    adjustment_month: '2026-03-01',
+    adjustment_type: 'hours',
+    hours: -5,
+    amount_cents: null,
+    reason: 'Courtesy',
+  });
+  assert.deepEqual(toAdjustmentInsert({ ...form, adjustmentType: 'amount', value: 199.99 }, 'p-uuid'), {
+    project_id: 'p-uuid',
+    adjustment_month: '2026-03-01',
+    adjustment_type: 'amount',
+    hours: null,
+    amount_cents: 19999,
+    reason: 'Courtesy',
+  });
+});
+
+test('display: signed values and reasons grouped per project', () => {
+  assert.equal(formatAdjustmentValue(row()), '-5h');
+  assert.equal(formatAdjustmentValue(row({ hours: 2.5 })), '+2.50h');
+  assert.equal(formatAdjustmentValue(row({ adjustment_type: 'amount', hours: null, amount_cents: -20000 })), '-$200.00');
+
+  const reasons = adjustmentReasonsByProject([
+    row(),
+    row({ id: 'a2', reason: 'Premium weekend work' }),
+    row({ id: 'a3', external_project_id: 'ext-apps', reason: 'Rework' }),
+  ]);
+  assert.equal(reasons.get('ext-portal'), 'Courtesy discount; Premium weekend work');
+  assert.equal(reasons.get('ext-apps'), 'Rework');
+});
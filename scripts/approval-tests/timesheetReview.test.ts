@@ -0,0 +1,96 @@
+// Run with: node --test scripts/approval-tests/
+//
+// Covers the hours approval rules in src/utils/timesheetReview.ts: line
+// states (including time logged after approval), month totals of logged vs
+// billable minutes, and parsing written-down hours.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  lineKey,
+  lineReviewState,
+  needsReview,
+  parseApprovedMinutes,
+  summarizeReview,
+  toLineRef,
+} from '../../src/utils/timesheetReview.ts';
+import type { TimesheetReviewLine } from '../../src/types/index.ts';
+
+function line(overrides: Partial<TimesheetReviewLine> = {}): TimesheetReviewLine {
+  return {
+    user_id: 'u1',
+    user_name: 'Ana',
+    task_name: 'Build',
+    client_id: 'c1',
+    client_name: 'Acme',
+    actual_minutes: 600,
+    entry_count: 4,
+    requires_approval: true,
+    review_status: null,
+    reviewed_minutes: null,
+    approved_minutes: null,
+    review_reason: null,
+    reviewer_email: null,
+    reviewed_at: null,
+    billable_minutes: 0,
+    ...overrides,
+  };
+}
+
+test('unreviewed lines are pending only when the project requires approval', () => {
+  assert.equal(lineReviewState(line()), 'pending');
+  assert.equal(lineReviewState(line({ requires_approval: false, billable_minutes: 600 })), 'not_required');
+  assert.equal(needsReview(line({ requires_approval: false })), false);
+});
+
+test('an approved line with time logged since approval needs another review', () => {
+  const approved = line({ review_status: 'approved', reviewed_minutes: 600, billable_minutes: 600 });
+  assert.equal(lineReviewState(approved), 'approved');
+  assert.equal(needsReview(approved), false);
+
+  const grown = { ...approved, actual_minutes: 720 };
+  assert.equal(lineReviewState(grown), 'changed');
+  assert.equal(needsReview(grown), true);
+
+  // Less time than at approval (an entry was deleted) stays approved
+  assert.equal(lineReviewState({ ...approved, actual_minutes: 540 }), 'approved');
+});
+
+test('adjusted and flagged lines keep their status', () => {
+  assert.equal(lineReviewState(line({ review_status: 'adjusted', reviewed_minutes: 600, approved_minutes: 480 })), 'adjusted');
+  assert.equal(lineReviewState(line({ review_status: 'flagged', reviewed_minutes: 600 })), 'flagged');
+});
+
+test('summarizeReview totals logged, billable and held-back minutes', () => {
+  const totals = summarizeReview([
+    line({ review_status: 'approved', reviewed_minutes: 600, billable_minutes: 600 }),
+    line({ user_id: 'u2', review_status: 'adjusted', reviewed_minutes: 600, approved_minutes: 480, billable_minutes: 480 }),
+    line({ user_id: 'u3', review_status: 'flagged', reviewed_minutes: 600, review_reason: 'Duplicate' }),
+    line({ user_id: 'u4' }),
+  ]);
+
+  assert.deepEqual(totals, {
+    loggedMinutes: 2400,
+    billableMinutes: 1080,
+    heldBackMinutes: 1320,
+    toReviewCount: 1,
+    flaggedCount: 1,
+  });
+});
+
+test('parseApprovedMinutes accepts hours between zero and the logged time', () => {
+  assert.equal(parseApprovedMinutes('7.5', 600), 450);
+  assert.equal(parseApprovedMinutes('0', 600), 0);
+  assert.equal(parseApprovedMinutes('10', 600), 600);
+  assert.equal(parseApprovedMinutes('10.5', 600), null);
+  assert.equal(parseApprovedMinutes('-1', 600), null);
+  assert.equal(parseApprovedMinutes('', 600), null);
+  assert.equal(parseApprovedMinutes('abc', 600), null);
+});
+
+test('line refs identify the line, with written-down minutes when given', () => {
+  const l = line();
+  assert.deepEqual(toLineRef(l), { user_id: 'u1', task_name: 'Build', client_id: 'c1' });
+  assert.deepEqual(toLineRef(l, 450), { user_id: 'u1', task_name: 'Build', client_id: 'c1', approved_minutes: 450 });
+  assert.notEqual(lineKey(l), lineKey({ ...l, task_name: 'Build2' }));
+});
@@ -0,0 +1,116 @@
+// Run with: node --test scripts/audit-tests/
+//
+// Presentation of get_audit_log() rows: summaries, record names (including
+// membership rows resolved by the RPC) and the field-level before / after
+// lists for updates, inserts and deletes.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  AUDIT_ENTITY_OPTIONS,
+  auditFieldChanges,
+  auditRecordLabel,
+  auditSummary,
+  fieldLabel,
+  formatAuditValue,
+} from '../../src/utils/auditTrail.ts';
+import type { AuditLogEntry } from '../../src/types/index.ts';
+
+function entry(overrides: Partial<AuditLogEntry>): AuditLogEntry {
+  return {
+    id: 'a1',
+    source: 'entity',
+    table_name: 'resources',
+    record_id: 'r1',
+    action: 'UPDATE',
+    entity_type: 'employee',
+    entity_id: 'r1',
+    entity_label: 'Ivan Petrov',
+    related_label: null,
+    old_data: null,
+    new_data: null,
+    changed_fields: null,
+    changed_by: 'u1',
+    changed_by_name: 'Dana',
+    changed_at: '2026-10-01T09:30:00Z',
+    ...overrides,
+  };
+}
+
+test('summaries name the action and what kind of row changed', () => {
+  assert.equal(auditSummary({ action: 'UPDATE', table_name: 'resources' }), 'Updated employee');
+  assert.equal(auditSummary({ action: 'INSERT', table_name: 'company_group_members' }), 'Added group member');
+  assert.equal(auditSummary({ action: 'DELETE', table_name: 'project_managers' }), 'Removed project manager');
+  assert.equal(auditSummary({ action: 'UPDATE', table_name: 'project_monthly_rates' }), 'Updated monthly rate');
+  assert.equal(auditSummary({ action: 'INSERT', table_name: 'calendar_holidays' }), 'Added holiday');
+  assert.equal(auditSummary({ action: 'UPDATE', table_name: 'some_new_table' }), 'Updated some new table');
+});
+
+test('an update lists only the changed fields, bookkeeping columns hidden', () => {
+  const changes = auditFieldChanges(entry({
+    old_data: { id: 'r1', first_name: 'Ivan', monthly_cost: 4000, is_active: true, updated_at: '2026-09-01' },
+    new_data: { id: 'r1', first_name: 'Ivan', monthly_cost: 4500, is_active: false, updated_at: '2026-10-01' },
+    changed_fields: ['is_active', 'monthly_cost', 'updated_at'],
+  }));
+
+  assert.deepEqual(changes, [
+    { field: 'is_active', label: 'Is active', before: 'Yes', after: 'No' },
+    { field: 'monthly_cost', label: 'Monthly cost', before: '4000', after: '4500' },
+  ]);
+});
+
+test('changed fields are derived when the row did not record them', () => {
+  const changes = auditFieldChanges(entry({
+    source: 'billing',
+    table_name: 'project_monthly_billing_limits',
+    old_data: { minimum_hours: 10, maximum_hours: null, carryover_enabled: false },
+    new_data: { minimum_hours: 10, maximum_hours: 40, carryover_enabled: false },
+  }));
+
+  assert.deepEqual(changes.map((c) => [c.field, c.before, c.after]), [['maximum_hours', '—', '40']]);
+});
+
+test('inserts and deletes list the non-empty columns of the row', () => {
+  const added = auditFieldChanges(entry({
+    action: 'INSERT',
+    table_name: 'project_managers',
+    new_data: { id: 'pm1', project_id: 'p1', resource_id: 'r2', created_at: '2026-10-01', note: null },
+  }));
+  assert.deepEqual(added.map((c) => [c.field, c.before, c.after]), [
+    ['project_id', '—', 'p1'],
+    ['resource_id', '—', 'r2'],
+  ]);
+
+  const removed = auditFieldChanges(entry({
+    action: 'DELETE',
+    table_name: 'release_notes',
+    old_data: { title: 'October', highlights: ['Audit trail'] },
+  }));
+  assert.deepEqual(removed.map((c) => [c.field, c.before, c.after]), [
+    ['title', 'October', '—'],
+    ['highlights', '["Audit trail"]', '—'],
+  ]);
+});
+
+test('record labels prefer the resolved member, then names, then months', () => {
+  assert.equal(
+    auditRecordLabel(entry({ table_name: 'physical_person_group_members', related_label: 'Иван Петров', new_data: { member_resource_id: 'r2' } })),
+    'Иван Петров',
+  );
+  assert.equal(auditRecordLabel(entry({ new_data: { first_name: 'Ivan', last_name: 'Petrov', display_name: 'IP' } })), 'Ivan Petrov');
+  assert.equal(auditRecordLabel(entry({ table_name: 'companies', old_data: { display_name: null, client_name: 'Acme' } })), 'Acme');
+  assert.equal(auditRecordLabel(entry({ table_name: 'resource_monthly_costs', new_data: { cost_month: '2026-10-01' } })), '2026-10-01');
+  assert.equal(auditRecordLabel(entry({ new_data: { resource_id: 'r2' } })), null);
+});
+
+test('values and labels format for display', () => {
+  assert.equal(fieldLabel('member_resource_id'), 'Member resource id');
+  assert.equal(formatAuditValue(null), '—');
+  assert.equal(formatAuditValue(''), '—');
+  assert.equal(formatAuditValue(0), '0');
+  assert.equal(formatAuditValue({ a: 1 }), '{"a":1}');
+  assert.equal(formatAuditValue('x'.repeat(200)).length, 120);
+  assert.deepEqual(AUDIT_ENTITY_OPTIONS.map((o) => o.value), [
+    'employee', 'company', 'project', 'holiday', 'holiday_calendar', 'expense', 'release_note',
+  ]);
+});
@@ -29,7 +29,9 @@ const supabase = createClient(supabaseUrl, supabaseKey);
 const tables = [
   'resources',
   'employment_types',
-  'bulgarian_holidays',
+  'holiday_calendars',
+  'holiday_calendar_rules',
+  'calendar_holidays',
   'projects',
   'user_profiles',
   'timesheet_daily_rollups',
@@ -0,0 +1,93 @@
+// Run with: node --test scripts/budget-tests/
+//
+// Covers the project budget forecast and burn-down in src/utils/projectBudget.ts:
+// run rate with the current month prorated, forecast at completion, the month
+// the budget runs out, and the ideal/actual/forecast burn-down series.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  budgetAmount,
+  budgetMonthCount,
+  buildBurnDown,
+  forecastBudget,
+  monthsElapsedAt,
+} from '../../src/utils/projectBudget.ts';
+import type { ProjectBudgetBurnMonth } from '../../src/types/index.ts';
+
+const hoursBudget = {
+  budget_type: 'hours' as const,
+  budget_hours: 400,
+  budget_cents: null,
+  start_month: '2026-01-01',
+  end_month: '2026-08-01',
+};
+
+function burnRows(monthlyHours: number[]): ProjectBudgetBurnMonth[] {
+  let cumulative = 0;
+  return monthlyHours.map((hours, i) => {
+    cumulative += hours;
+    return {
+      summary_month: `2026-${String(i + 1).padStart(2, '0')}-01`,
+      burn_hours: hours,
+      burn_cents: hours * 10000,
+      cumulative_hours: cumulative,
+      cumulative_cents: cumulative * 10000,
+    };
+  });
+}
+
+test('budgetAmount / budgetMonthCount: unit and inclusive month span', () => {
+  assert.equal(budgetAmount(hoursBudget), 400);
+  assert.equal(
+    budgetAmount({ ...hoursBudget, budget_type: 'dollars', budget_hours: null, budget_cents: 2500000 }),
+    25000
+  );
+  assert.equal(budgetMonthCount(hoursBudget), 8);
+  assert.equal(budgetMonthCount({ ...hoursBudget, end_month: '2026-01-01' }), 1);
+});
+
+test('monthsElapsedAt: prorates the current month, clamps to the period', () => {
+  assert.equal(monthsElapsedAt(hoursBudget, new Date(2025, 11, 20)), 0);
+  assert.equal(monthsElapsedAt(hoursBudget, new Date(2026, 3, 15)), 3.5); // Apr 15 of 30 days
+  assert.equal(monthsElapsedAt(hoursBudget, new Date(2026, 10, 1)), 8);
+});
+
+test('forecastBudget: run rate projects an overrun and the month it runs out', () => {
+  // 60h/month through March, 30h so far in half of April => 210h over 3.5 months
+  const forecast = forecastBudget(hoursBudget, burnRows([60, 60, 60, 30]), new Date(2026, 3, 15));
+  assert.equal(forecast.burned, 210);
+  assert.equal(forecast.remaining, 190);
+  assert.equal(forecast.runRate, 60);
+  assert.equal(forecast.monthsRemaining, 4.5);
+  assert.equal(forecast.forecastToComplete, 270);
+  assert.equal(forecast.forecastAtCompletion, 480);
+  assert.equal(forecast.forecastPct, 120);
+  // 190h left at 60h/month => 3.17 more months from 3.5 => index 6 (July)
+  assert.equal(forecast.exhaustionMonth, '2026-07-01');
+});
+
+test('forecastBudget: under-run has no exhaustion month; actual exhaustion wins', () => {
+  const under = forecastBudget(hoursBudget, burnRows([20, 20]), new Date(2026, 1, 28));
+  assert.equal(under.forecastAtCompletion, 160);
+  assert.equal(under.exhaustionMonth, null);
+
+  const over = forecastBudget(hoursBudget, burnRows([150, 150, 150]), new Date(2026, 2, 31));
+  assert.equal(over.remaining, -50);
+  assert.equal(over.exhaustionMonth, '2026-03-01');
+
+  const notStarted = forecastBudget(hoursBudget, [], new Date(2025, 11, 1));
+  assert.equal(notStarted.burned, 0);
+  assert.equal(notStarted.runRate, 0);
+  assert.equal(notStarted.forecastAtCompletion, 0);
+});
+
+test('buildBurnDown: ideal line, actuals, forecast from the last actual month', () => {
+  const points = buildBurnDown(hoursBudget, burnRows([60, 60, 60, 30]), new Date(2026, 3, 15));
+  assert.equal(points.length, 8);
+  assert.deepEqual(points.map((p) => p.month), ['Jan 26', 'Feb 26', 'Mar 26', 'Apr 26', 'May 26', 'Jun 26', 'Jul 26', 'Aug 26']);
+  assert.equal(points[0].ideal, 350);
+  assert.equal(points[7].ideal, 0);
+  assert.deepEqual(points.map((p) => p.actual), [340, 280, 220, 190, null, null, null, null]);
+  assert.deepEqual(points.map((p) => p.forecast), [null, null, null, 190, 100, 40, -20, -80]);
+});
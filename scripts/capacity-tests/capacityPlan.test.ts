@@ -0,0 +1,138 @@
+// Run with: node --test scripts/capacity-tests/
+//
+// Covers the capacity planner in src/utils/capacityPlan.ts: Monday week keys,
+// weekly capacity less holidays and time off, over/under status per person,
+// and per-project planned revenue with plan vs actual over completed weeks.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  allocationStatus,
+  buildPersonPlans,
+  buildProjectPlans,
+  isWeekComplete,
+  listWeekStarts,
+  weekStartOf,
+  weeklyCapacityHours,
+} from '../../src/utils/capacityPlan.ts';
+import { buildHolidaySchedule } from '../../src/utils/holidays.ts';
+import type { CapacityPlanRow } from '../../src/types/index.ts';
+
+const NO_HOLIDAYS: ReadonlySet<string> = new Set();
+
+const schedule = buildHolidaySchedule(
+  [
+    { id: 'us', is_default: true },
+    { id: 'bg', is_default: false },
+  ],
+  [{ calendar_id: 'bg', holiday_date: '2026-03-03' }],
+);
+
+const resources = [
+  { id: 'r1', first_name: 'Ana', last_name: 'Petrova', external_label: 'ana', holiday_calendar_id: 'bg', employment_type: { name: 'Full-time' } },
+  { id: 'r2', first_name: 'Ben', last_name: null, external_label: 'ben', holiday_calendar_id: null, employment_type: { name: 'Part-time' } },
+  { id: 'r3', first_name: null, last_name: null, external_label: 'vendor-co', holiday_calendar_id: null, employment_type: { name: 'Vendor' } },
+  { id: 'r4', first_name: 'Cy', last_name: null, external_label: 'cy', holiday_calendar_id: null, employment_type: { name: 'Contractor' } },
+];
+
+function row(overrides: Partial<CapacityPlanRow>): CapacityPlanRow {
+  return {
+    resource_id: 'r1',
+    project_id: 'p1',
+    project_name: 'Alpha',
+    company_name: 'Acme',
+    week_start: '2026-03-02',
+    planned_hours: 0,
+    actual_hours: 0,
+    rate: 100,
+    planned_revenue_cents: 0,
+    ...overrides,
+  };
+}
+
+test('week starts are Mondays', () => {
+  assert.equal(weekStartOf(new Date(2026, 2, 8)), '2026-03-02'); // Sunday
+  assert.equal(weekStartOf(new Date(2026, 2, 2)), '2026-03-02');
+  assert.deepEqual(listWeekStarts(new Date(2026, 1, 26), 3), ['2026-02-23', '2026-03-02', '2026-03-09']);
+  assert.equal(isWeekComplete('2026-03-02', new Date(2026, 2, 8)), false);
+  assert.equal(isWeekComplete('2026-03-02', new Date(2026, 2, 9)), true);
+});
+
+test('weekly capacity drops holidays and working days on time off, once each', () => {
+  assert.equal(weeklyCapacityHours('2026-03-02', 8, NO_HOLIDAYS, []), 40);
+  assert.equal(weeklyCapacityHours('2026-03-02', 8, new Set(['2026-03-03']), []), 32);
+  // Overlapping requests spanning a holiday and the weekend: Wed-Fri off
+  const timeOff = [
+    { start_date: '2026-03-03', end_date: '2026-03-06' },
+    { start_date: '2026-03-05', end_date: '2026-03-10' },
+  ];
+  assert.equal(weeklyCapacityHours('2026-03-02', 4, new Set(['2026-03-03']), timeOff), 4);
+});
+
+test('allocation status compares plan to capacity', () => {
+  assert.equal(allocationStatus(44, 40), 'over');
+  assert.equal(allocationStatus(20, 40), 'under');
+  assert.equal(allocationStatus(40.001, 40), 'full');
+  assert.equal(allocationStatus(10, null), 'unset');
+  assert.equal(allocationStatus(4, 0), 'over');
+});
+
+test('person plans use each resource\'s calendar, time off and employment type', () => {
+  const weeks = ['2026-03-02', '2026-03-09'];
+  const rows = [
+    row({ planned_hours: 24, actual_hours: 20 }),
+    row({ project_id: 'p2', project_name: 'Beta', planned_hours: 16 }),
+    row({ resource_id: 'r2', week_start: '2026-03-09', planned_hours: 10 }),
+    row({ resource_id: 'r4', planned_hours: 12 }),
+    row({ week_start: '2026-02-23', planned_hours: 99 }), // outside the range
+  ];
+  const timeOff = [
+    { resource_id: null, employee_name: 'Ben', start_date: '2026-03-09', end_date: '2026-03-10' },
+    { resource_id: 'r9', employee_name: 'Ana Petrova', start_date: '2026-03-09', end_date: '2026-03-13' },
+  ];
+
+  const plans = buildPersonPlans(resources, rows, weeks, schedule, timeOff);
+  assert.deepEqual(plans.map((p) => p.name), ['Ana Petrova', 'Ben', 'Cy']);
+
+  const [ana, ben, cy] = plans;
+  // Bulgarian holiday on Tue 3 Mar; r9's request is not Ana's
+  assert.deepEqual(ana.weeks.map((w) => [w.capacity, w.planned, w.actual, w.status]), [
+    [32, 40, 20, 'over'],
+    [40, 0, 0, 'under'],
+  ]);
+  assert.deepEqual(ana.projects.map((l) => [l.projectName, l.weeks[0].planned]), [['Alpha', 24], ['Beta', 16]]);
+  assert.equal(ana.totalCapacity, 72);
+  assert.equal(ana.totalPlanned, 40);
+
+  // Part-time, two days off matched by name
+  assert.deepEqual(ben.weeks.map((w) => [w.capacity, w.status]), [[20, 'under'], [12, 'under']]);
+
+  // Contractors only appear when planned, and have no set capacity
+  assert.equal(cy.totalCapacity, null);
+  assert.equal(cy.weeks[0].status, 'unset');
+});
+
+test('project plans total planned revenue and compare plan to actual over completed weeks', () => {
+  const weeks = ['2026-03-02', '2026-03-09'];
+  const rows = [
+    row({ planned_hours: 20, actual_hours: 18, planned_revenue_cents: 200000 }),
+    row({ resource_id: 'r2', planned_hours: 10, actual_hours: 12, planned_revenue_cents: 100000 }),
+    row({ week_start: '2026-03-09', planned_hours: 20, actual_hours: 6, planned_revenue_cents: 200000 }),
+    row({ project_id: 'p0', project_name: 'Aardvark', resource_id: 'r2', actual_hours: 3 }),
+  ];
+
+  const plans = buildProjectPlans(rows, weeks, new Date(2026, 2, 11));
+  assert.deepEqual(plans.map((p) => p.projectName), ['Aardvark', 'Alpha']);
+
+  const alpha = plans[1];
+  assert.equal(alpha.totalPlanned, 50);
+  assert.equal(alpha.plannedRevenueCents, 500000);
+  assert.deepEqual(alpha.weeks.map((w) => [w.planned, w.actual]), [[30, 30], [20, 6]]);
+  assert.equal(alpha.completedPlanned, 30);
+  assert.equal(alpha.completedActual, 30);
+  assert.deepEqual(alpha.resourceIds.sort(), ['r1', 'r2']);
+
+  // Unplanned work still shows up
+  assert.equal(plans[0].totalPlanned, 0);
+  assert.equal(plans[0].completedActual, 3);
+});
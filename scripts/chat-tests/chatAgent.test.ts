@@ -0,0 +1,269 @@
+// Run with: node --test scripts/chat-tests/
+//
+// Runs the chat assistant's agent loop against a stubbed model client and an
+// in-memory data source: tool dispatch and display blocks, input validation,
+// the tool-call limit, conversation titles, and the byte-identical _lib copy
+// the chat edge function imports.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+import {
+  conversationTitle,
+  EMPTY_ANSWER,
+  MAX_TOOL_ITERATIONS,
+  runChatTurn,
+  SUMMARY_PROMPT,
+} from '../../src/lib/chat/agent.ts';
+import { CHAT_TOOLS, invokeChatTool, MAX_MODEL_ROWS } from '../../src/lib/chat/tools.ts';
+import type {
+  ChatDataSource,
+  ModelClient,
+  ModelRequest,
+  ModelResponse,
+  ModelToolResultBlock,
+} from '../../src/lib/chat/types.ts';
+
+function stubModel(responses: ModelResponse[]): { model: ModelClient; requests: ModelRequest[] } {
+  const requests: ModelRequest[] = [];
+  return {
+    requests,
+    model: {
+      async createMessage(request) {
+        // Snapshot: the loop keeps appending to the same array
+        requests.push({ ...request, messages: [...request.messages] });
+        const next = responses.shift();
+        if (!next) throw new Error('stub model: no scripted response left');
+        return next;
+      },
+    },
+  };
+}
+
+function toolUse(id: string, name: string, input: Record<string, unknown>): ModelResponse {
+  return { stop_reason: 'tool_use', content: [{ type: 'tool_use', id, name, input }] };
+}
+
+function answer(text: string): ModelResponse {
+  return { stop_reason: 'end_turn', content: [{ type: 'text', text }] };
+}
+
+const data: ChatDataSource = {
+  async revenueByCompanyMonth(startMonth, endMonth) {
+    return [
+      { summary_month: '2026-01-01', company_id: 'c1', company_name: 'Acme', timesheet_revenue_cents: 1_000_000, effective_revenue_cents: 1_000_000, fixed_billing_cents: 250_000, combined_revenue_cents: 1_250_000, total_billed_hours: 80, total_actual_hours: 78.5 },
+      { summary_month: '2026-01-01', company_id: 'c2', company_name: 'Globex', timesheet_revenue_cents: 400_000, effective_revenue_cents: 500_000, fixed_billing_cents: 0, combined_revenue_cents: 500_000, total_billed_hours: 40, total_actual_hours: 40 },
+      { summary_month: '2026-02-01', company_id: 'c1', company_name: 'Acme', timesheet_revenue_cents: 900_050, effective_revenue_cents: 900_050, fixed_billing_cents: 250_000, combined_revenue_cents: 1_150_050, total_billed_hours: 72, total_actual_hours: 70 },
+    ].filter((row) => row.summary_month >= startMonth && row.summary_month <= endMonth);
+  },
+  async projectBilling() {
+    return [
+      { project_id: 'p1', project_name: 'Portal', company_name: 'Acme', actual_hours: 41.25, billed_hours: 42, rate_used: 125, billed_revenue_cents: 525_000, milestone_override_cents: null },
+      { project_id: 'p2', project_name: 'Launch', company_name: 'Globex', actual_hours: 10, billed_hours: 10, rate_used: 100, billed_revenue_cents: 100_000, milestone_override_cents: 800_000 },
+    ];
+  },
+  async projectRates() {
+    throw new Error('permission denied for function get_all_project_rates_for_month');
+  },
+  async employeeHours() {
+    return [
+      { user_name: 'Dana', project_name: 'Portal', client_name: 'Acme', work_date: '2026-02-02', actual_hours: 7.5, rounded_hours: 7.5 },
+      { user_name: 'Dana', project_name: 'Launch', client_name: 'Globex', work_date: '2026-02-03', actual_hours: 2.2, rounded_hours: 2.25 },
+      { user_name: 'Sam', project_name: 'Portal', client_name: 'Acme', work_date: '2026-02-02', actual_hours: 4, rounded_hours: 4 },
+    ];
+  },
+  async timeOff() {
+    return [];
+  },
+};
+
+test('a tool call feeds its data back to the model and its blocks to the user', async () => {
+  const { model, requests } = stubModel([
+    toolUse('t1', 'get_revenue_by_month', { start_month: '2026-01-01', end_month: '2026-02-01' }),
+    answer('Revenue was **$29,000.50** over January and February.'),
+  ]);
+
+  const turn = await runChatTurn({
+    model,
+    data,
+    history: [{ role: 'user', content: 'Revenue Jan to Feb?' }],
+    today: '2026-03-10',
+  });
+
+  assert.equal(turn.content, 'Revenue was **$29,000.50** over January and February.');
+  assert.deepEqual(turn.toolCalls, [
+    { toolName: 'get_revenue_by_month', input: { start_month: '2026-01-01', end_month: '2026-02-01' }, ok: true },
+  ]);
+  assert.deepEqual(turn.blocks.map((b) => b.type), ['chart', 'table']);
+  const chart = turn.blocks[0];
+  assert.ok(chart.type === 'chart');
+  assert.deepEqual(chart.points, [{ label: '2026-01', value: 17_500 }, { label: '2026-02', value: 11_500.5 }]);
+
+  // First call carries the tools and today's date; second carries the result
+  assert.equal(requests.length, 2);
+  assert.deepEqual(requests[0].tools?.map((t) => t.name), CHAT_TOOLS.map((t) => t.name));
+  assert.match(requests[0].system, /Today is 2026-03-10/);
+  const results = requests[1].messages.at(-1)?.content as ModelToolResultBlock[];
+  assert.equal(results[0].tool_use_id, 't1');
+  const payload = JSON.parse(results[0].content);
+  assert.equal(payload.total_revenue, 29_000.5);
+  assert.deepEqual(payload.companies.rows.map((c: { company: string }) => c.company), ['Acme', 'Globex']);
+});
+
+test('project billing reports milestone overrides as the revenue', async () => {
+  const result = await invokeChatTool('get_project_billing', { month: '2026-02-01' }, data);
+  assert.ok(result.ok);
+  const { total_revenue, projects } = result.data as { total_revenue: number; projects: { rows: Array<{ project: string; revenue: number; milestone: boolean }> } };
+  assert.equal(total_revenue, 13_250);
+  assert.deepEqual(projects.rows.map((p) => [p.project, p.revenue, p.milestone]), [
+    ['Launch', 8_000, true],
+    ['Portal', 5_250, false],
+  ]);
+});
+
+test('employee hours group by employee or project and honour name filters', async () => {
+  const byEmployee = await invokeChatTool('get_employee_hours', { start_date: '2026-02-01', end_date: '2026-02-28' }, data);
+  assert.ok(byEmployee.ok);
+  assert.deepEqual((byEmployee.data as { groups: { rows: unknown[] } }).groups.rows, [
+    { employee: 'Dana', actual_hours: 9.7, rounded_hours: 9.75 },
+    { employee: 'Sam', actual_hours: 4, rounded_hours: 4 },
+  ]);
+
+  const byProject = await invokeChatTool(
+    'get_employee_hours',
+    { start_date: '2026-02-01', end_date: '2026-02-28', group_by: 'project', employee: 'dana' },
+    data,
+  );
+  assert.ok(byProject.ok);
+  assert.deepEqual((byProject.data as { groups: { rows: unknown[] } }).groups.rows, [
+    { project: 'Portal', company: 'Acme', actual_hours: 7.5, rounded_hours: 7.5 },
+    { project: 'Launch', company: 'Globex', actual_hours: 2.2, rounded_hours: 2.25 },
+  ]);
+});
+
+test('bad input, unknown tools and query errors come back as error results', async () => {
+  assert.deepEqual(await invokeChatTool('get_project_billing', { month: '2026-02' }, data), {
+    ok: false,
+    error: { code: 'invalid_input', message: 'month must match ^\\d{4}-\\d{2}-01$' },
+  });
+  assert.deepEqual(await invokeChatTool('get_time_off', { start_date: '2026-03-01', end_date: '2026-02-01' }, data), {
+    ok: false,
+    error: { code: 'invalid_input', message: 'start_date must not be after end_date' },
+  });
+  assert.deepEqual(await invokeChatTool('get_time_off', { start_date: '2026-03-01', end_date: '2026-03-31', sql: 'x' }, data), {
+    ok: false,
+    error: { code: 'invalid_input', message: 'Unknown parameter: sql' },
+  });
+  assert.deepEqual(await invokeChatTool('execute_sql', { query: 'SELECT 1' }, data), {
+    ok: false,
+    error: { code: 'unknown_tool', message: 'Unknown tool: execute_sql' },
+  });
+  assert.deepEqual(await invokeChatTool('get_project_rates', { month: '2026-02-01' }, data), {
+    ok: false,
+    error: { code: 'query_failed', message: 'permission denied for function get_all_project_rates_for_month' },
+  });
+});
+
+test('failed tool calls are reported to the model, not the user', async () => {
+  const { model, requests } = stubModel([
+    toolUse('t1', 'get_project_rates', { month: '2026-02-01' }),
+    answer('I could not read the rates.'),
+  ]);
+  const turn = await runChatTurn({ model, data, history: [{ role: 'user', content: 'Rates?' }], today: '2026-03-10' });
+
+  assert.deepEqual(turn.blocks, []);
+  assert.equal(turn.toolCalls[0].ok, false);
+  const results = requests[1].messages.at(-1)?.content as ModelToolResultBlock[];
+  assert.equal(results[0].is_error, true);
+});
+
+test('the tool-call limit answers pending calls and forces a text summary', async () => {
+  const loops = Array.from({ length: MAX_TOOL_ITERATIONS + 1 }, (_, i) =>
+    toolUse(`t${i}`, 'get_time_off', { start_date: '2026-03-01', end_date: '2026-03-31' }));
+  const { model, requests } = stubModel([...loops, { stop_reason: 'end_turn', content: [] }]);
+
+  const turn = await runChatTurn({
+    model,
+    data,
+    history: [{ role: 'user', content: 'Who is off?' }],
+    today: '2026-03-10',
+  });
+
+  assert.equal(requests.length, MAX_TOOL_ITERATIONS + 2);
+  assert.ok(requests.slice(0, -1).every((r) => r.tool_choice === undefined));
+
+  // The history holds tool_use blocks, so the last call keeps the tools and
+  // forbids using them
+  const last = requests[MAX_TOOL_ITERATIONS + 1];
+  assert.deepEqual(last.tools?.map((t) => t.name), CHAT_TOOLS.map((t) => t.name));
+  assert.deepEqual(last.tool_choice, { type: 'none' });
+  const pending = last.messages.at(-2)?.content as Array<{ type: string; id?: string }>;
+  assert.deepEqual(pending.map((b) => [b.type, b.id]), [['tool_use', `t${MAX_TOOL_ITERATIONS}`]]);
+  const closing = last.messages.at(-1)?.content as Array<{ type: string; text?: string; tool_use_id?: string }>;
+  assert.deepEqual(closing.map((b) => b.type), ['tool_result', 'text']);
+  assert.equal(closing[0].tool_use_id, `t${MAX_TOOL_ITERATIONS}`);
+  assert.equal(closing[1].text, SUMMARY_PROMPT);
+  assert.equal(turn.toolCalls.length, MAX_TOOL_ITERATIONS);
+  assert.equal(turn.content, EMPTY_ANSWER);
+  assert.equal(MAX_TOOL_ITERATIONS, 8);
+});
+
+test('a lower maxIterations ends the loop sooner', async () => {
+  const loops = Array.from({ length: 3 }, (_, i) =>
+    toolUse(`t${i}`, 'get_time_off', { start_date: '2026-03-01', end_date: '2026-03-31' }));
+  const { model, requests } = stubModel([...loops, answer('Nobody is off.')]);
+
+  const turn = await runChatTurn({
+    model,
+    data,
+    history: [{ role: 'user', content: 'Who is off?' }],
+    today: '2026-03-10',
+    maxIterations: 2,
+  });
+
+  assert.equal(requests.length, 4);
+  assert.deepEqual(requests[3].tool_choice, { type: 'none' });
+  assert.equal(turn.toolCalls.length, 2);
+  assert.equal(turn.content, 'Nobody is off.');
+});
+
+test('model data is capped while the display table keeps every row', async () => {
+  const many: ChatDataSource = {
+    ...data,
+    async timeOff() {
+      return Array.from({ length: MAX_MODEL_ROWS + 5 }, (_, i) => ({
+        employee_name: `Person ${String(i).padStart(2, '0')}`,
+        time_off_type: 'Vacation',
+        start_date: '2026-03-02',
+        end_date: '2026-03-06',
+        total_days: 5,
+      }));
+    },
+  };
+  const result = await invokeChatTool('get_time_off', { start_date: '2026-03-01', end_date: '2026-03-31' }, many);
+  assert.ok(result.ok);
+  const modelData = result.data as { rows: unknown[]; row_count: number; truncated: boolean };
+  assert.equal(modelData.rows.length, MAX_MODEL_ROWS);
+  assert.equal(modelData.row_count, MAX_MODEL_ROWS + 5);
+  assert.equal(modelData.truncated, true);
+  const tableBlock = result.blocks[0];
+  assert.ok(tableBlock.type === 'table');
+  assert.equal(tableBlock.rows.length, MAX_MODEL_ROWS + 5);
+});
+
+test('conversation titles collapse whitespace and truncate', () => {
+  assert.equal(conversationTitle('  What was\nrevenue   last month? '), 'What was revenue last month?');
+  assert.equal(conversationTitle('x'.repeat(80)), `${'x'.repeat(59)}…`);
+  assert.equal(conversationTitle('   '), 'New conversation');
+});
+
+test('chat/_lib copies are byte-identical to src/lib/chat', () => {
+  const root = join(dirname(fileURLToPath(import.meta.url)), '../..');
+  for (const file of ['agent.ts', 'tools.ts', 'types.ts']) {
+    const canonical = readFileSync(join(root, 'src/lib/chat', file), 'utf8');
+    const copy = readFileSync(join(root, 'supabase/functions/chat/_lib', file), 'utf8');
+    assert.equal(copy, canonical, `chat/_lib/${file} has drifted from src/lib/chat`);
+  }
+});
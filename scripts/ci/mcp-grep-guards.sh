@@ -175,7 +175,8 @@ guard_search_path_and_definer() {
                     (saw_sp == 0 ? "search_path" : ""))
             }
         }
-    ' supabase/migrations/106_create_api_functions.sql 2>/dev/null || true)"
+    ' supabase/migrations/106_create_api_functions.sql \
+      supabase/migrations/148_mcp_scoped_keys_and_write_tools.sql 2>/dev/null || true)"
     echo "${awk_out}"
 }
 
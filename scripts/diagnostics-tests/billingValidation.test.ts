@@ -0,0 +1,261 @@
+// Run with: node --test scripts/diagnostics-tests/
+//
+// Covers the Diagnostics billing validator: raw export parsing as the sync
+// adapters normalize it, validation against project_monthly_summary (minutes,
+// task / entry rounding, limits, manual adjustments, revenue), project
+// groups, entry-level drill-down and the CSV report.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { parseClickUp, parseClockify } from '../../src/utils/diagnostics/parseRawSources.ts';
+import { validateAgainstExpected } from '../../src/utils/diagnostics/validateBilling.ts';
+import {
+  buildSummaryLookup,
+  type SummaryLookupInput,
+  type SummaryValidationRow,
+} from '../../src/utils/diagnostics/summaryLookup.ts';
+import { validationReportToCSV } from '../../src/utils/diagnostics/exportReport.ts';
+import type { NormalizedEntry, StoredEntry } from '../../src/utils/diagnostics/types.ts';
+import type { ProjectRatesForMonthResultWithBilling } from '../../src/types/index.ts';
+
+function entry(overrides: Partial<NormalizedEntry> = {}): NormalizedEntry {
+  return {
+    source: 'clockify',
+    entryId: 'e1',
+    projectId: 'ext-portal',
+    projectName: 'Portal',
+    clientId: 'cl-acme',
+    clientName: 'Acme',
+    taskName: 'Build',
+    userName: 'Dana',
+    minutes: 50,
+    date: '2026-03-02',
+    ...overrides,
+  };
+}
+
+function stored(e: NormalizedEntry, overrides: Partial<StoredEntry> = {}): StoredEntry {
+  return {
+    entryId: e.entryId,
+    projectId: e.projectId,
+    taskName: e.taskName,
+    userName: e.userName,
+    minutes: e.minutes,
+    date: e.date,
+    ...overrides,
+  };
+}
+
+function summary(overrides: Partial<SummaryValidationRow> = {}): SummaryValidationRow {
+  return {
+    project_id: 'uuid-portal',
+    actual_minutes: 0,
+    rounded_hours: 0,
+    carryover_in_hours: 0,
+    billed_hours: 0,
+    base_revenue_cents: 0,
+    billed_revenue_cents: 0,
+    manual_adjustment_hours: 0,
+    manual_adjustment_cents: 0,
+    rate_used: 100,
+    rounding_used: 15,
+    minimum_hours_config: null,
+    maximum_hours_config: null,
+    carryover_enabled_config: false,
+    is_active_used: true,
+    projects: { project_id: 'ext-portal', project_name: 'Portal' },
+    ...overrides,
+  };
+}
+
+function rate(overrides: Partial<ProjectRatesForMonthResultWithBilling> = {}): ProjectRatesForMonthResultWithBilling {
+  return {
+    project_id: 'uuid-portal',
+    external_project_id: 'ext-portal',
+    project_name: 'Portal',
+    client_id: 'cl-acme',
+    client_name: 'Acme',
+    canonical_client_id: 'cl-acme',
+    canonical_client_name: 'Acme Corp',
+    first_seen_month: '2025-01-01',
+    effective_rate: 100,
+    source: 'explicit',
+    source_month: '2026-03-01',
+    existed_in_month: true,
+    effective_rounding: 15,
+    effective_rounding_mode: 'task',
+    rounding_source: 'default',
+    rounding_source_month: null,
+    native_rate: 100,
+    rate_currency: 'USD',
+    billing_currency: 'USD',
+    billing_fx_rate: 1,
+    minimum_hours: null,
+    maximum_hours: null,
+    carryover_enabled: false,
+    carryover_max_hours: null,
+    carryover_expiry_months: null,
+    limits_source: 'default',
+    limits_source_month: null,
+    is_active: true,
+    active_source: 'default',
+    active_source_month: null,
+    carryover_hours_in: 0,
+    ...overrides,
+  };
+}
+
+function validate(entries: NormalizedEntry[], input: Partial<SummaryLookupInput>) {
+  const lookup = buildSummaryLookup({
+    summaries: [],
+    rates: [rate()],
+    projects: [{ id: 'uuid-portal', project_id: 'ext-portal' }],
+    canonical: [],
+    storedEntries: entries.map((e) => stored(e)),
+    ...input,
+  });
+  return validateAgainstExpected(entries, lookup.expectedResults, lookup.options);
+}
+
+// Two tasks: 50 + 20 min on Build, 10 min on Review
+const ENTRIES = [
+  entry({ entryId: 'e1', minutes: 50 }),
+  entry({ entryId: 'e2', minutes: 20, date: '2026-03-03' }),
+  entry({ entryId: 'e3', minutes: 10, taskName: 'Review' }),
+];
+
+test('ClickUp exports normalize like the sync: folder is the project, space the client', () => {
+  const content = JSON.stringify([{
+    timeentries: [
+      { id: 'c1', task_location: { space_id: 's1', folder_id: 'f1', list_id: 'l1' }, task: null, description: ' Standup ', user: { id: 1, username: 'Dana', email: 'd@x' }, duration: '90000', start: '1772409600000' },
+      { id: 'c2', task_location: { space_id: 's1', folder_id: 'f1', list_id: 'l1' }, task: { id: 't', name: 'Build' }, user: { id: 1, username: 'Dana', email: 'd@x' }, duration: '0', start: '1772409600000' },
+    ],
+    spaceLookup: { s1: 'Acme' },
+    folderLookup: { f1: 'Portal' },
+  }]);
+  const [parsed, ...rest] = parseClickUp(content);
+  assert.equal(rest.length, 0, 'zero-duration entries are never synced');
+  assert.equal(parsed.projectId, 'f1');
+  assert.equal(parsed.projectName, 'Portal');
+  assert.equal(parsed.clientId, 's1');
+  assert.equal(parsed.clientName, 'Acme');
+  assert.equal(parsed.taskName, 'Standup');
+  assert.equal(parsed.minutes, 2);
+
+  const clockify = parseClockify(JSON.stringify([{
+    timeentries: [
+      { _id: 'k1', projectId: 'p', projectName: 'P', clientId: 'c', clientName: 'C', description: 'x', userName: 'u', timeInterval: { start: '2026-03-02T10:00:00Z', end: '', duration: 61 } },
+      { _id: 'k2', projectId: 'p', projectName: 'P', clientId: 'c', clientName: 'C', description: 'x', userName: 'u', timeInterval: { start: '2026-03-02T10:00:00Z', end: '', duration: 0 } },
+    ],
+  }]));
+  assert.deepEqual(clockify.map((e) => [e.entryId, e.minutes]), [['k1', 2]]);
+});
+
+test('a month matching its summary passes, with task or entry rounding', () => {
+  // Task rounding: Build 70 -> 75, Review 10 -> 15 = 1.5h
+  const report = validate(ENTRIES, {
+    summaries: [summary({ actual_minutes: 80, rounded_hours: 1.5, billed_hours: 1.5, base_revenue_cents: 15000, billed_revenue_cents: 15000 })],
+  });
+  const [project] = report.projects;
+  assert.equal(project.status, 'pass');
+  assert.equal(project.clientName, 'Acme Corp');
+  assert.equal(project.entryMismatches.length, 0);
+  assert.equal(report.summary.passedProjects, 1);
+
+  // Entry rounding: 60 + 30 + 15 = 1.75h
+  const byEntry = validate(ENTRIES, {
+    rates: [rate({ effective_rounding_mode: 'entry' })],
+    summaries: [summary({ actual_minutes: 80, rounded_hours: 1.75, billed_hours: 1.75, base_revenue_cents: 17500, billed_revenue_cents: 17500 })],
+  });
+  assert.equal(byEntry.projects[0].roundingMode, 'entry');
+  assert.equal(byEntry.projects[0].status, 'pass');
+});
+
+test('limits and manual adjustments come from the summary snapshot', () => {
+  // 1.5h rounded + 0.5h carried in, capped at 1.75h, then a 0.25h write-down and a $10 credit
+  const report = validate(ENTRIES, {
+    summaries: [summary({
+      actual_minutes: 80,
+      rounded_hours: 1.5,
+      carryover_in_hours: 0.5,
+      maximum_hours_config: 1.75,
+      billed_hours: 1.5,
+      base_revenue_cents: 15000,
+      billed_revenue_cents: 14000,
+      manual_adjustment_hours: -0.25,
+      manual_adjustment_cents: -3500,
+    })],
+  });
+  assert.equal(report.projects[0].status, 'pass');
+  assert.equal(report.projects[0].billedHours, 1.5);
+  assert.equal(report.projects[0].billedRevenue, 140);
+});
+
+test('a synced total that differs fails and the entries show why', () => {
+  const [e1, e2, e3] = ENTRIES;
+  const report = validate(ENTRIES, {
+    summaries: [summary({ actual_minutes: 75, rounded_hours: 1.5, billed_hours: 1.5, base_revenue_cents: 15000, billed_revenue_cents: 15000 })],
+    storedEntries: [
+      stored(e1, { minutes: 45 }),
+      stored(e2, { date: '2026-03-04' }),
+      // e3 synced under another project; e4 synced but deleted upstream
+      stored(e3, { projectId: 'ext-other' }),
+      stored(entry({ entryId: 'e4', minutes: 5 })),
+    ],
+  });
+  const [project] = report.projects;
+  assert.equal(project.status, 'fail');
+  assert.equal(project.checks.actualMinutes.status, 'fail');
+  assert.equal(project.checks.roundedHours.status, 'pass');
+  assert.deepEqual(
+    project.entryMismatches.map((m) => [m.kind, m.entryId]),
+    [['minutes', 'e1'], ['project', 'e3'], ['extra', 'e4'], ['date', 'e2']],
+  );
+  assert.equal(project.entryMismatches[1].storedProjectId, 'ext-other');
+  assert.equal(report.summary.failedProjects, 1);
+});
+
+test('entry differences that cancel out still warn', () => {
+  const [e1, e2, e3] = ENTRIES;
+  const report = validate(ENTRIES, {
+    summaries: [summary({ actual_minutes: 80, rounded_hours: 1.5, billed_hours: 1.5, base_revenue_cents: 15000, billed_revenue_cents: 15000 })],
+    storedEntries: [stored(e1), stored(e2, { date: '2026-03-10' }), stored(e3)],
+  });
+  assert.equal(report.projects[0].status, 'warning');
+  assert.equal(report.summary.warningProjects, 1);
+});
+
+test('member projects are validated against their primary, unknown projects against nothing', () => {
+  const member = entry({ entryId: 'm1', projectId: 'ext-portal-b', projectName: 'Portal B', taskName: 'Review', minutes: 10 });
+  const stray = entry({ entryId: 's1', projectId: 'ext-new', projectName: 'New Thing', clientId: 'cl-new', clientName: 'Newco' });
+  const report = validate([entry({ minutes: 70 }), member, stray], {
+    projects: [
+      { id: 'uuid-portal', project_id: 'ext-portal' },
+      { id: 'uuid-portal-b', project_id: 'ext-portal-b' },
+    ],
+    canonical: [{ project_id: 'uuid-portal-b', canonical_project_id: 'uuid-portal' }],
+    summaries: [summary({ actual_minutes: 80, rounded_hours: 1.5, billed_hours: 1.5, base_revenue_cents: 15000, billed_revenue_cents: 15000 })],
+  });
+  const portal = report.projects.find((p) => p.sourceProjectId === 'ext-portal')!;
+  assert.equal(portal.rawMinutes, 80);
+  assert.equal(portal.status, 'pass');
+
+  const unknown = report.projects.find((p) => p.sourceProjectId === 'ext-new')!;
+  assert.equal(unknown.matchedInSystem, false);
+  assert.equal(unknown.clientName, 'Newco');
+  assert.equal(unknown.checks.actualMinutes.expected, 0);
+  assert.equal(unknown.status, 'fail');
+});
+
+test('the CSV lists projects, then the mismatching entries', () => {
+  const [e1, e2, e3] = ENTRIES;
+  const report = validate(ENTRIES, {
+    summaries: [summary({ actual_minutes: 75, rounded_hours: 1.5, billed_hours: 1.5, base_revenue_cents: 15000, billed_revenue_cents: 15000 })],
+    storedEntries: [stored(e1, { minutes: 45 }), stored(e2), stored(e3)],
+  });
+  const lines = validationReportToCSV(report).replace(/^\uFEFF/, '').split('\r\n');
+  assert.match(lines[0], /^Client,Project,Project ID,Source,In System,Status,Summary Minutes,Export Minutes/);
+  assert.match(lines[1], /^Acme Corp,Portal,ext-portal,clockify,true,fail,75,80,1\.5,1\.5,/);
+  assert.equal(lines[2], '');
+  assert.equal(lines[4], 'Acme Corp,Portal,e1,Minutes differ,2026-03-02,Dana,Build,50,45,');
+});
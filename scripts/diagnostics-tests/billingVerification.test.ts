@@ -0,0 +1,104 @@
+// Run with: node --test scripts/diagnostics-tests/
+//
+// Covers the billing sign-off tab: month states and totals, the months that
+// can be signed off, and grouping field-level drift by project.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  formatSignedCents,
+  formatVerificationValue,
+  groupDiffsByProject,
+  monthVerificationState,
+  signOffMonthOptions,
+  summarizeVerification,
+} from '../../src/utils/billingVerification.ts';
+import type { BillingVerificationDiff, BillingVerificationMonth } from '../../src/types/index.ts';
+
+function month(overrides: Partial<BillingVerificationMonth> = {}): BillingVerificationMonth {
+  return {
+    summary_month: '2026-03-01',
+    snapshot_projects: 12,
+    snapshot_effective_cents: 4_500_000,
+    verified_by: 'finance@example.com',
+    verified_at: '2026-04-03T10:00:00Z',
+    is_signed_off: true,
+    signoff_notes: 'Matches invoices',
+    signed_off_at: '2026-04-03T10:00:00Z',
+    signed_off_by_email: 'finance@example.com',
+    last_verified_at: '2026-04-10T03:45:00Z',
+    drifted_projects: 0,
+    discrepancy_count: 0,
+    drift_cents: 0,
+    ...overrides,
+  };
+}
+
+function diff(overrides: Partial<BillingVerificationDiff> = {}): BillingVerificationDiff {
+  return {
+    project_id: 'p1',
+    project_name: 'Portal',
+    company_name: 'Acme',
+    field_name: 'billed_revenue_cents',
+    snapshot_value: 100_000,
+    current_value: 112_500,
+    difference: 12_500,
+    diff_cents: 12_500,
+    effective_diff_cents: 12_500,
+    ...overrides,
+  };
+}
+
+test('a signed-off month is drifted once any field differs', () => {
+  assert.equal(monthVerificationState(month()), 'signed_off');
+  assert.equal(monthVerificationState(month({ discrepancy_count: 2, drifted_projects: 1 })), 'drifted');
+  assert.equal(monthVerificationState(month({ is_signed_off: false, discrepancy_count: 3 })), 'not_signed_off');
+});
+
+test('totals count drift in signed-off months only', () => {
+  const totals = summarizeVerification([
+    month({ summary_month: '2026-03-01', discrepancy_count: 2, drift_cents: 12_500 }),
+    month({ summary_month: '2026-02-01' }),
+    // Snapshot without sign-off: drift is shown but not alerted on
+    month({ summary_month: '2026-01-01', is_signed_off: false, discrepancy_count: 5, drift_cents: 99_900 }),
+  ]);
+  assert.deepEqual(totals, { signedOffMonths: 2, driftedMonths: 1, driftCents: 12_500 });
+});
+
+test('only past months can be signed off, newest first', () => {
+  const options = signOffMonthOptions(new Date(2026, 0, 15), 3);
+  assert.deepEqual(options, ['2025-12-01', '2025-11-01', '2025-10-01']);
+});
+
+test('drift groups by project, largest effective change first', () => {
+  const projects = groupDiffsByProject([
+    diff({ project_id: 'p1', field_name: 'actual_minutes', snapshot_value: 600, current_value: 675, difference: 75, diff_cents: null }),
+    diff({ project_id: 'p1' }),
+    diff({
+      project_id: 'p2',
+      project_name: 'Intranet',
+      field_name: 'project_missing',
+      snapshot_value: null,
+      current_value: null,
+      difference: null,
+      diff_cents: -40_000,
+      effective_diff_cents: -40_000,
+    }),
+    diff({ project_id: 'p3', project_name: 'App', field_name: 'rate_used', snapshot_value: 100, current_value: 100.5, difference: 0.5, diff_cents: null, effective_diff_cents: 0 }),
+  ]);
+  assert.deepEqual(projects.map((p) => [p.projectId, p.effectiveDiffCents, p.fields.length]), [
+    ['p2', -40_000, 1],
+    ['p1', 12_500, 2],
+    ['p3', 0, 1],
+  ]);
+});
+
+test('values are shown in the field unit, changes in signed currency', () => {
+  assert.equal(formatVerificationValue('billed_revenue_cents', 112_500), '$1,125.00');
+  assert.equal(formatVerificationValue('billed_hours', 7.5), '7.50h');
+  assert.equal(formatVerificationValue('rate_used', 100), '$100.00/hr');
+  assert.equal(formatVerificationValue('milestone_override_cents', null), '—');
+  assert.equal(formatSignedCents(-40_000), '-$400.00');
+  assert.equal(formatSignedCents(12_500), '+$125.00');
+  assert.equal(formatSignedCents(0), '$0.00');
+});
@@ -0,0 +1,82 @@
+// Run with: node --test scripts/employee-cost-tests/
+//
+// Covers the effective-dated cost lookup in src/utils/employeeCost.ts, which
+// mirrors get_resource_cost_for_month() (migration 143): the record in force
+// for a month, backfill before the first record, fallback to the resource's
+// current cost, and the display-name lookup the Employees page uses.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  buildEmployeeCostRateLookup,
+  costRateForMonth,
+  costRecordForMonth,
+  isCostChanged,
+} from '../../src/utils/employeeCost.ts';
+import type { ResourceMonthlyCost } from '../../src/types/index.ts';
+
+function record(costMonth: string, monthlyCost: number, id = costMonth): ResourceMonthlyCost {
+  return {
+    id,
+    resource_id: 'r-1',
+    cost_month: costMonth,
+    billing_mode: 'monthly',
+    hourly_rate: null,
+    monthly_cost: monthlyCost,
+    expected_hours: 160,
+    created_by: null,
+    created_at: '',
+    updated_at: '',
+  };
+}
+
+const current = { billing_mode: 'monthly' as const, hourly_rate: null, monthly_cost: 8000, expected_hours: 160 };
+
+// Unordered on purpose: callers pass newest-first, the lookup must not care
+const history = [record('2026-01-01', 4800), record('2025-06-01', 3200), record('2026-04-01', 8000)];
+
+test('costRecordForMonth: latest record at or before the month', () => {
+  assert.equal(costRecordForMonth(history, '2025-09-01')?.cost_month, '2025-06-01');
+  assert.equal(costRecordForMonth(history, '2026-01-01')?.cost_month, '2026-01-01');
+  assert.equal(costRecordForMonth(history, '2026-03-17')?.cost_month, '2026-01-01');
+  assert.equal(costRecordForMonth(history, '2026-10-01')?.cost_month, '2026-04-01');
+});
+
+test('costRecordForMonth: months before the first record use the first record', () => {
+  assert.equal(costRecordForMonth(history, '2024-12-01')?.cost_month, '2025-06-01');
+  assert.equal(costRecordForMonth([], '2026-01-01'), null);
+});
+
+test('costRateForMonth: a raise does not restate earlier months', () => {
+  assert.equal(costRateForMonth(history, current, '2025-12-01'), 20);
+  assert.equal(costRateForMonth(history, current, '2026-02-01'), 30);
+  assert.equal(costRateForMonth(history, current, '2026-05-01'), 50);
+});
+
+test('costRateForMonth: no records falls back to the current cost', () => {
+  assert.equal(costRateForMonth([], current, '2020-01-01'), 50);
+  assert.equal(
+    costRateForMonth([], { billing_mode: 'hourly', hourly_rate: 42, monthly_cost: null, expected_hours: null }, '2026-01-01'),
+    42
+  );
+  assert.equal(costRateForMonth([], { ...current, monthly_cost: null }, '2026-01-01'), null);
+});
+
+test('buildEmployeeCostRateLookup: resolves by display name and work date', () => {
+  const employees = [
+    { id: 'r-1', first_name: 'Kalin', last_name: 'Tomanov', external_label: 'kalin', ...current },
+    { id: 'r-2', first_name: null, last_name: null, external_label: 'contractor-7', billing_mode: 'hourly' as const, hourly_rate: 60, monthly_cost: null, expected_hours: null },
+  ];
+  const lookup = buildEmployeeCostRateLookup(employees, new Map([['r-1', history]]));
+
+  assert.equal(lookup('Kalin Tomanov', '2025-12-31'), 20);
+  assert.equal(lookup('Kalin Tomanov', '2026-04-02'), 50);
+  assert.equal(lookup('contractor-7', '2026-04-02'), 60);
+  assert.equal(lookup('Nobody', '2026-04-02'), null);
+});
+
+test('isCostChanged', () => {
+  assert.equal(isCostChanged(current, { ...current }), false);
+  assert.equal(isCostChanged(current, { ...current, monthly_cost: 8500 }), true);
+  assert.equal(isCostChanged(current, { ...current, billing_mode: 'hourly' }), true);
+});
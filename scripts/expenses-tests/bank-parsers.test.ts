@@ -0,0 +1,147 @@
+// Run with: node --test scripts/expenses-tests/
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+import { BANK_EXPORT_PARSERS, parseBankExport } from '../../src/lib/xls/parseBankExport.ts';
+import { sniffFormat } from '../../src/lib/xls/sniffFormat.ts';
+import { parseMt940 } from '../../src/lib/xls/parseMt940.ts';
+import { parseBankCsv } from '../../src/lib/xls/parseBankCsv.ts';
+import { rowHash } from '../../src/lib/expenses/rowHash.ts';
+import type { RawBankRow } from '../../src/lib/expenses/types.ts';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const fixture = (name: string) => readFileSync(join(here, 'fixtures', name));
+
+const camt = fixture('sample-camt053.xml');
+const mt940 = fixture('sample-mt940.sta');
+const csv = fixture('sample-statement.csv');
+
+function byRef(rows: RawBankRow[], ref: string): RawBankRow {
+  const row = rows.find((r) => r.reference === ref);
+  assert.ok(row, `row ${ref} not found`);
+  return row!;
+}
+
+function hashOf(row: RawBankRow): Promise<string> {
+  return rowHash({
+    account: row.account,
+    txnDatetime: row.txnDatetime,
+    valueDate: row.valueDate,
+    originalAmount: row.originalAmount,
+    reference: row.reference,
+    descriptionOriginal: row.descriptionOriginal,
+  });
+}
+
+test('sniffFormat: text statements by content; the UniCredit HTML export stays html_xls', () => {
+  assert.equal(sniffFormat(camt), 'camt053');
+  assert.equal(sniffFormat(mt940), 'mt940');
+  assert.equal(sniffFormat(csv), 'csv');
+  assert.equal(sniffFormat(fixture('sample-bank-html.xls')), 'html_xls');
+  assert.equal(sniffFormat(camt.toString('utf8')), 'camt053');
+  // Binary bytes with no recognizable structure still fall through to SheetJS.
+  assert.equal(sniffFormat(new Uint8Array([0x01, 0x00, 0x02, 0x03])), 'binary_xls');
+  // Every sniffable format has a registered parser.
+  for (const format of ['html_xls', 'binary_xls', 'xlsx', 'camt053', 'mt940', 'csv'] as const) {
+    assert.ok(BANK_EXPORT_PARSERS[format], `no parser for ${format}`);
+  }
+});
+
+test('parseCamt053: booked entries only; parties, remittance, FX and booking datetime', () => {
+  const { sourceFormat, rows } = parseBankExport(camt);
+  assert.equal(sourceFormat, 'camt053');
+  assert.equal(rows.length, 2); // the PDNG entry is skipped
+
+  const debit = byRef(rows, 'BANKREF001');
+  assert.equal(debit.account, 'BG80BNBG96611020345678');
+  assert.equal(debit.accountCurrency, 'EUR');
+  assert.equal(debit.entryType, 'Debit');
+  assert.equal(debit.originalAmount, 120.5);
+  assert.equal(debit.beneficiary, 'HOSTING PROVIDER GMBH');
+  assert.equal(debit.descriptionOriginal, 'INVOICE 31 HOSTING SEPA CREDIT TRANSFER');
+  assert.equal(debit.txnDatetime, null);
+
+  const credit = byRef(rows, 'BANKREF002');
+  assert.equal(credit.entryType, 'Credit');
+  assert.equal(credit.payer, 'CLIENT & PARTNERS INC');
+  assert.equal(credit.operationCurrency, 'USD');
+  assert.equal(credit.operationAmount, 2990.63);
+  assert.equal(credit.exchangeRateRaw, '0.919540 USD / EUR');
+  assert.equal(credit.paymentReason, 'PAYMENT FOR INVOICE 2026-0042');
+  assert.equal(credit.txnDatetime, '2026-03-05T10:15:30');
+});
+
+test('parseMt940: statement lines, ?NN and /CODE/ details, reversals, NONREF', () => {
+  const { sourceFormat, rows } = parseBankExport(mt940);
+  assert.equal(sourceFormat, 'mt940');
+  assert.equal(rows.length, 3);
+
+  const debit = byRef(rows, 'BANKREF001');
+  assert.equal(debit.accountCurrency, 'EUR');
+  assert.equal(debit.valueDate, '2026-03-02');
+  assert.equal(debit.bookingDate, '2026-03-02');
+  assert.equal(debit.beneficiary, 'HOSTING PROVIDER GMBH');
+  assert.equal(debit.operationDescription, 'SEPA CREDIT TRANSFER');
+
+  const credit = byRef(rows, 'BANKREF003');
+  assert.equal(credit.payer, 'CLIENT AND PARTNERS INC');
+  assert.equal(credit.paymentReason, 'PAYMENT FOR INVOICE 2026-0042');
+
+  // RD = reversal of a debit, i.e. money back in; NONREF is not a reference.
+  const reversal = rows[2];
+  assert.equal(reversal.entryType, 'Credit');
+  assert.equal(reversal.reference, null);
+  assert.equal(reversal.originalAmount, 45);
+  assert.equal(reversal.descriptionOriginal, 'Refund of card fee CARD FEE REVERSAL');
+
+  // Entry date in January for a December value date rolls the year.
+  const [row] = parseMt940(':25:ACC\n:60F:C251231BGN0,00\n:61:2512310102D1,00NMSCREF\n');
+  assert.equal(row.bookingDate, '2026-01-02');
+  assert.equal(row.accountCurrency, 'BGN'); // value date still pre-euro
+});
+
+test('parseBankCsv: preamble skipped, quoted fields, sign direction, currency', () => {
+  const { sourceFormat, rows } = parseBankExport(csv);
+  assert.equal(sourceFormat, 'csv');
+  assert.equal(rows.length, 3);
+
+  const debit = byRef(rows, 'BANKREF001');
+  assert.equal(debit.entryType, 'Debit');
+  assert.equal(debit.originalAmount, 120.5);
+  assert.equal(debit.beneficiary, 'HOSTING PROVIDER GMBH');
+  assert.equal(debit.descriptionOriginal, 'INVOICE 31; HOSTING');
+
+  const credit = byRef(rows, 'BANKREF004');
+  assert.equal(credit.entryType, 'Credit');
+  assert.equal(credit.originalAmount, 1250);
+  assert.equal(credit.payer, 'CLIENT "A" LTD');
+
+  // A USD account cannot be valued — rejected at ingest as unresolved_currency.
+  assert.equal(byRef(rows, 'BANKREF005').accountCurrency, null);
+
+  // Debit / credit column pair, comma-delimited, ISO dates; BGN after the euro
+  // adoption date resolves EUR.
+  const [pair] = parseBankCsv('Value Date,Debit,Credit,Currency,Payee\n2026-02-01,,15.00,BGN,Someone\n');
+  assert.equal(pair.entryType, 'Credit');
+  assert.equal(pair.originalAmount, 15);
+  assert.equal(pair.accountCurrency, 'EUR');
+  assert.equal(pair.beneficiary, 'Someone');
+  assert.deepEqual(parseBankCsv('Foo;Bar;Baz\n1;2;3\n'), []);
+});
+
+test('rowHash dedupe: the same transaction hashes identically across CAMT.053 and MT940', async () => {
+  const fromCamt = byRef(parseBankExport(camt).rows, 'BANKREF001');
+  const fromMt940 = byRef(parseBankExport(mt940).rows, 'BANKREF001');
+  assert.equal(await hashOf(fromCamt), await hashOf(fromMt940));
+
+  // Distinct transactions in one file never collide, and re-parsing is stable.
+  for (const file of [camt, mt940, csv]) {
+    const first = await Promise.all(parseBankExport(file).rows.map(hashOf));
+    const second = await Promise.all(parseBankExport(file).rows.map(hashOf));
+    assert.deepEqual(first, second);
+    assert.equal(new Set(first).size, first.length);
+  }
+});
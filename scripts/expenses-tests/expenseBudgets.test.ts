@@ -0,0 +1,185 @@
+// Run with: node --test scripts/expenses-tests/expenseBudgets.test.ts
+//
+// Covers category budgets folded into the expense tree: budgets roll up like
+// spend, budget-only categories appear up to the as-of month, the year carries
+// a full-year target plus year-to-date figures, and copy-forward turns one
+// year's actuals into the next year's starting budget.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { buildExpenseTree } from '../../src/components/expenses/expenseTree.ts';
+import { budgetStatus, copyForwardFromActuals } from '../../src/components/expenses/expenseBudgets.ts';
+import type {
+  ExpenseCategoryBudget,
+  ExpenseCategoryRecord,
+  ExpenseRecord,
+} from '../../src/components/expenses/expenseTypes.ts';
+
+const categories: ExpenseCategoryRecord[] = [
+  { id: 1, name: 'Cloud', overhead_type: 'Variable', sort_order: 1, is_fallback: false },
+  { id: 2, name: 'Rent', overhead_type: 'Fixed', sort_order: 2, is_fallback: false },
+];
+
+let seq = 0;
+function makeExpense(overrides: Partial<ExpenseRecord>): ExpenseRecord {
+  seq += 1;
+  return {
+    id: `row-${seq}`,
+    account: null,
+    row_hash: `hash-${seq}`,
+    account_currency: 'EUR',
+    original_amount: 0,
+    operation_currency: null,
+    operation_amount: null,
+    eur_amount: 0,
+    conversion_rate: 1,
+    rate_source: 'identity',
+    rate_date: null,
+    usd_amount: null,
+    usd_rate: null,
+    usd_rate_source: null,
+    entry_type: 'Debit',
+    description_original: null,
+    description_translated: null,
+    translation_source: null,
+    vendor: null,
+    beneficiary: null,
+    reference: null,
+    category_id: 1,
+    category_source: null,
+    value_date: '2026-03-15',
+    booking_date: null,
+    txn_datetime: null,
+    assigned_month: '2026-03',
+    needs_review: false,
+    source_file_name: null,
+    ...overrides,
+  };
+}
+
+function makeBudget(overrides: Partial<ExpenseCategoryBudget>): ExpenseCategoryBudget {
+  seq += 1;
+  return {
+    id: `budget-${seq}`,
+    category_id: 1,
+    budget_month: '2026-03',
+    budget_eur: 0,
+    budget_usd: null,
+    notes: null,
+    ...overrides,
+  };
+}
+
+test('without budget options the tree carries empty budgets and no as-of month', () => {
+  const tree = buildExpenseTree([makeExpense({ eur_amount: 10 })], categories);
+  assert.equal(tree.budgetAsOfMonth, null);
+  const [year] = tree.years;
+  assert.equal(year.hasBudget, false);
+  assert.equal(year.budgetCents, 0);
+  assert.equal(year.ytdTotalCents, 1000);
+  assert.equal(year.months[0].categories[0].hasBudget, false);
+});
+
+test('budgets roll up category > month > year and variance is actual minus budget', () => {
+  const tree = buildExpenseTree(
+    [
+      makeExpense({ eur_amount: 120.4, usd_amount: 130, category_id: 1 }),
+      makeExpense({ eur_amount: 800, usd_amount: 870, category_id: 2 }),
+    ],
+    categories,
+    {
+      asOfMonth: '2026-03',
+      budgets: [
+        makeBudget({ category_id: 1, budget_eur: 100, budget_usd: 110 }),
+        makeBudget({ category_id: 2, budget_eur: 900.1, budget_usd: null }),
+      ],
+    },
+  );
+
+  const [month] = tree.years[0].months;
+  const [cloud, rent] = month.categories;
+  assert.equal(cloud.budgetCents, 10000);
+  assert.equal(cloud.budgetUsdCents, 11000);
+  assert.equal(budgetStatus(cloud.totalCents, cloud.budgetCents), 'over');
+  assert.equal(rent.budgetCents, 90010);
+  assert.equal(rent.usdBudgetMissingCount, 1);
+  assert.equal(budgetStatus(rent.totalCents, rent.budgetCents), 'under');
+
+  assert.equal(month.budgetCents, cloud.budgetCents + rent.budgetCents);
+  assert.equal(month.budgetUsdCents, 11000);
+  assert.equal(month.usdBudgetMissingCount, 1);
+  assert.equal(tree.years[0].budgetCents, month.budgetCents);
+  assert.equal(budgetStatus(500, 500), 'on');
+});
+
+test('budget-only categories and months appear up to the as-of month; later months only add to the full year', () => {
+  const tree = buildExpenseTree(
+    [makeExpense({ eur_amount: 50, assigned_month: '2026-02', category_id: 1 })],
+    categories,
+    {
+      asOfMonth: '2026-03',
+      budgets: [
+        makeBudget({ category_id: 1, budget_month: '2026-02', budget_eur: 40 }),
+        makeBudget({ category_id: 2, budget_month: '2026-02', budget_eur: 1000 }),
+        makeBudget({ category_id: 2, budget_month: '2026-03', budget_eur: 1000 }),
+        makeBudget({ category_id: 2, budget_month: '2026-04', budget_eur: 1000 }),
+        // Next year's plan: no year node until one of its months is reached.
+        makeBudget({ category_id: 2, budget_month: '2027-01', budget_eur: 1000 }),
+      ],
+    },
+  );
+
+  assert.deepEqual(tree.years.map((y) => y.year), [2026]);
+  const [year] = tree.years;
+  assert.deepEqual(year.months.map((m) => m.key), ['2026-03', '2026-02']);
+
+  const [march, february] = year.months;
+  assert.equal(march.totalCents, 0);
+  assert.equal(march.categories.length, 1);
+  assert.equal(march.categories[0].name, 'Rent');
+  assert.equal(march.categories[0].expenses.length, 0);
+  assert.equal(february.categories.length, 2);
+
+  assert.equal(year.budgetCents, 304000); // Feb + Mar + Apr
+  assert.equal(year.ytdBudgetCents, 204000); // Feb + Mar
+  assert.equal(year.ytdTotalCents, 5000);
+  assert.equal(year.totalCents, 5000);
+});
+
+test('year-to-date actuals stop at the as-of month', () => {
+  const tree = buildExpenseTree(
+    [
+      makeExpense({ eur_amount: 10, usd_amount: 11, assigned_month: '2026-03' }),
+      makeExpense({ eur_amount: 20, usd_amount: 22, assigned_month: '2026-05' }),
+    ],
+    categories,
+    { asOfMonth: '2026-03', budgets: [makeBudget({ budget_month: '2026-01', budget_eur: 5 })] },
+  );
+  const [year] = tree.years;
+  assert.equal(year.totalCents, 3000);
+  assert.equal(year.ytdTotalCents, 1000);
+  assert.equal(year.ytdUsdTotalCents, 1100);
+  assert.equal(tree.budgetAsOfMonth, '2026-03');
+});
+
+test('copyForwardFromActuals shifts each category-month one year and keeps USD only when complete', () => {
+  const tree = buildExpenseTree(
+    [
+      makeExpense({ eur_amount: 100.25, usd_amount: 110, assigned_month: '2025-01', category_id: 1 }),
+      makeExpense({ eur_amount: 50, usd_amount: null, assigned_month: '2025-01', category_id: 2 }),
+      makeExpense({ eur_amount: 75, usd_amount: 80, assigned_month: '2025-12', category_id: 1 }),
+      makeExpense({ eur_amount: 500, entry_type: 'Credit', assigned_month: '2025-06', category_id: 1 }),
+      makeExpense({ eur_amount: 9, usd_amount: 10, assigned_month: '2026-01', category_id: 1 }),
+    ],
+    categories,
+    // A budget-only node (no spend) in the source year is not copied.
+    { asOfMonth: '2026-03', budgets: [makeBudget({ category_id: 2, budget_month: '2025-12', budget_eur: 60 })] },
+  );
+
+  assert.deepEqual(copyForwardFromActuals(tree, 2025), [
+    { category_id: 1, budget_month: '2026-01', budget_eur: 100.25, budget_usd: 110 },
+    { category_id: 2, budget_month: '2026-01', budget_eur: 50, budget_usd: null },
+    { category_id: 1, budget_month: '2026-12', budget_eur: 75, budget_usd: 80 },
+  ]);
+  assert.deepEqual(copyForwardFromActuals(tree, 2019), []);
+});
@@ -0,0 +1,81 @@
+// Run with: node --test scripts/expenses-tests/
+// Node >= 22.6 strips TypeScript types natively (default on 23.6+).
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  LEARNED_RULE_PRIORITY,
+  isRuleCandidate,
+  previewRule,
+  proposeKeyword,
+  proposeRule,
+  type LearnableExpense,
+} from '../../src/lib/expenses/learnRule.ts';
+import type { KeywordRule, VendorRule } from '../../src/lib/expenses/types.ts';
+
+function expense(overrides: Partial<LearnableExpense>): LearnableExpense {
+  return {
+    id: 'e1',
+    vendor: null,
+    description_original: null,
+    translation_source: 'dictionary',
+    category_id: 15,
+    category_source: 'fallback',
+    needs_review: true,
+    ...overrides,
+  };
+}
+
+test('proposeRule: vendor exact rule on the upper-cased counterparty', () => {
+  const draft = proposeRule(expense({ vendor: '  Акме Оод ', description_original: 'ф-ра 123' }), 7);
+  assert.deepEqual(draft, {
+    kind: 'vendor',
+    rule: { match_type: 'exact', pattern: 'АКМЕ ООД', category_id: 7, priority: LEARNED_RULE_PRIORITY },
+  });
+});
+
+test('proposeRule: keyword rule from the longest digit-free run without a vendor', () => {
+  assert.equal(proposeKeyword('Такса 12.50 за обслужване на сметка 0000526'), 'ЗА ОБСЛУЖВАНЕ НА СМЕТКА');
+  assert.equal(proposeKeyword('12 ab 34'), null);
+  assert.deepEqual(proposeRule(expense({ description_original: 'POS 1300,00 NETFLIX.COM' }), 3), {
+    kind: 'keyword',
+    rule: { keyword: 'NETFLIX.COM', category_id: 3, priority: LEARNED_RULE_PRIORITY },
+  });
+  assert.equal(proposeRule(expense({ vendor: ' ', description_original: '1234' }), 3), null);
+});
+
+test('isRuleCandidate: manual rows are never candidates; fallback or in-review rows are', () => {
+  assert.equal(isRuleCandidate(expense({ category_source: 'manual' })), false);
+  assert.equal(isRuleCandidate(expense({ category_source: 'fallback', needs_review: false })), true);
+  assert.equal(isRuleCandidate(expense({ category_id: 4, category_source: 'vendor_rule', needs_review: false })), false);
+  assert.equal(isRuleCandidate(expense({ category_id: 4, category_source: 'keyword_rule', needs_review: true })), true);
+});
+
+test('previewRule: reclassifies only candidates the draft wins on, keeping untranslated rows in review', () => {
+  const rows = [
+    expense({ id: 'a', vendor: 'ACME OOD' }),
+    expense({ id: 'b', vendor: 'acme ood', translation_source: 'none' }),
+    expense({ id: 'c', vendor: 'ACME OOD', category_id: 9, category_source: 'manual', needs_review: false }),
+    expense({ id: 'd', vendor: 'OTHER' }),
+  ];
+  const draft = proposeRule(rows[0], 7)!;
+  assert.deepEqual(previewRule(draft, rows, [], []), [
+    { id: 'a', categoryId: 7, categorySource: 'vendor_rule', needsReview: false },
+    { id: 'b', categoryId: 7, categorySource: 'vendor_rule', needsReview: true },
+  ]);
+});
+
+test('previewRule: an existing higher-priority rule still wins; the draft replaces a same-key rule', () => {
+  const row = expense({ id: 'a', vendor: 'ACME OOD', description_original: 'HOSTING FEE', category_id: 2, category_source: 'vendor_rule' });
+  const existing: VendorRule[] = [{ match_type: 'contains', pattern: 'ACME', category_id: 2, priority: 10 }];
+  assert.deepEqual(previewRule(proposeRule(row, 7)!, [row], existing, []), []);
+
+  const keywordRules: KeywordRule[] = [{ keyword: 'HOSTING', category_id: 15, priority: 100 }];
+  const keywordRow = expense({ id: 'k', description_original: 'HOSTING FEE', category_source: 'keyword_rule' });
+  const draft = { kind: 'keyword' as const, rule: { keyword: 'hosting', category_id: 5, priority: 100 } };
+  assert.deepEqual(previewRule(draft, [keywordRow], [], keywordRules), [
+    { id: 'k', categoryId: 5, categorySource: 'keyword_rule', needsReview: false },
+  ]);
+
+  assert.deepEqual(previewRule({ ...draft, rule: { ...draft.rule, keyword: '  ' } }, [keywordRow], [], []), []);
+});
@@ -0,0 +1,78 @@
+// Run with: node --test scripts/holiday-tests/
+//
+// Covers the per-calendar working-day helpers in src/utils/holidays.ts:
+// grouping holidays by calendar, default-calendar fallback for unassigned
+// resources, and working-day counts against a calendar's dates.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  buildHolidaySchedule,
+  countWeekdayHolidays,
+  countWorkingDays,
+  getHolidayDates,
+  getWorkingDaysInMonth,
+  isWorkingDay,
+  mergeHolidaySchedules,
+} from '../../src/utils/holidays.ts';
+
+const schedule = buildHolidaySchedule(
+  [
+    { id: 'bg', is_default: true },
+    { id: 'us', is_default: false },
+    { id: 'empty', is_default: false },
+  ],
+  [
+    { calendar_id: 'bg', holiday_date: '2026-03-03' },
+    { calendar_id: 'bg', holiday_date: '2026-05-01' },
+    { calendar_id: 'us', holiday_date: '2026-05-25' },
+  ]
+);
+
+test('getHolidayDates: unassigned resources fall back to the default calendar', () => {
+  assert.deepEqual([...getHolidayDates(schedule, null)], ['2026-03-03', '2026-05-01']);
+  assert.deepEqual([...getHolidayDates(schedule)], ['2026-03-03', '2026-05-01']);
+  assert.deepEqual([...getHolidayDates(schedule, 'us')], ['2026-05-25']);
+  assert.equal(getHolidayDates(schedule, 'empty').size, 0);
+  assert.equal(getHolidayDates(schedule, 'unknown').size, 0);
+});
+
+test('isWorkingDay: weekends and calendar holidays are excluded', () => {
+  const bg = getHolidayDates(schedule, 'bg');
+  assert.equal(isWorkingDay(new Date(2026, 4, 1), bg), false);
+  assert.equal(isWorkingDay(new Date(2026, 4, 1), getHolidayDates(schedule, 'us')), true);
+  assert.equal(isWorkingDay(new Date(2026, 4, 2), bg), false); // Saturday
+  assert.equal(isWorkingDay(new Date(2026, 4, 4), bg), true);
+});
+
+test('countWorkingDays: same range differs per calendar', () => {
+  const start = new Date(2026, 4, 1);
+  const end = new Date(2026, 4, 31);
+  // May 2026 has 21 weekdays
+  assert.equal(countWorkingDays(start, end, getHolidayDates(schedule, 'bg')), 20);
+  assert.equal(countWorkingDays(start, end, getHolidayDates(schedule, 'us')), 20);
+  assert.equal(countWorkingDays(start, end, getHolidayDates(schedule, 'empty')), 21);
+  assert.equal(countWorkingDays(end, start, getHolidayDates(schedule, 'bg')), 0);
+});
+
+test('getWorkingDaysInMonth: total and elapsed respect the calendar', () => {
+  const bg = getHolidayDates(schedule, 'bg');
+  assert.deepEqual(getWorkingDaysInMonth(new Date(2026, 2, 4), bg), { total: 21, elapsed: 2 });
+});
+
+test('countWeekdayHolidays: only weekday holidays inside the range count', () => {
+  const dates = new Set(['2026-03-03', '2026-03-07', '2026-04-01']);
+  assert.equal(countWeekdayHolidays(new Date(2026, 2, 1), new Date(2026, 2, 31), dates), 1);
+});
+
+test('mergeHolidaySchedules: combines years per calendar', () => {
+  const next = buildHolidaySchedule(
+    [{ id: 'bg', is_default: false }, { id: 'us', is_default: true }],
+    [{ calendar_id: 'bg', holiday_date: '2027-01-01' }],
+  );
+  const merged = mergeHolidaySchedules(schedule, next);
+  assert.equal(merged.defaultCalendarId, 'bg');
+  assert.ok(getHolidayDates(merged, 'bg').has('2026-05-01'));
+  assert.ok(getHolidayDates(merged, 'bg').has('2027-01-01'));
+  assert.equal(mergeHolidaySchedules().defaultCalendarId, null);
+});
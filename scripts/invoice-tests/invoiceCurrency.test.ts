@@ -0,0 +1,108 @@
+// Run with: node --test scripts/invoice-tests/
+//
+// Covers invoice currency conversion shared by the EOM CSV / invoice PDF
+// (generate-eom-report) and qbo-create-invoice: USD pass-through, rates kept
+// as entered, manual adjustments and the zero floor, and EUR formatting; plus
+// the Rates page's rate in the billing currency (src/utils/billingCurrency.ts).
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  convertHourlyAmounts,
+  currencySymbol,
+  invoiceRate,
+  parseInvoiceCurrency,
+  toInvoiceCents,
+  type HourlyAmountsInput,
+  type InvoiceCurrencyContext,
+} from '../../src/lib/invoice/invoiceCurrency.ts';
+import { buildInvoiceLines, formatInvoiceAmount } from '../../src/lib/invoice/invoiceModel.ts';
+import { formatMoney, rateInBillingCurrency } from '../../src/utils/billingCurrency.ts';
+
+// 1 EUR = 1.10 USD
+const EUR: InvoiceCurrencyContext = { currency: 'EUR', fxRate: 1.1 };
+const USD: InvoiceCurrencyContext = { currency: 'USD', fxRate: 1 };
+
+// 10h at €90/hr, billed in USD at 90 x 1.10 = $99/hr
+function hourly(overrides: Partial<HourlyAmountsInput> = {}): HourlyAmountsInput {
+  return {
+    billedHours: 10,
+    adjustmentHours: 0,
+    usdRate: 99,
+    nativeRate: 90,
+    rateCurrency: 'EUR',
+    billedRevenueCents: 99000,
+    adjustmentCents: 0,
+    ...overrides,
+  };
+}
+
+test('USD invoices pass amounts through unchanged', () => {
+  assert.deepEqual(convertHourlyAmounts(hourly({ adjustmentCents: -500 }), USD), {
+    rate: 99,
+    billedRevenueCents: 99000,
+    adjustmentCents: -500,
+  });
+  assert.equal(toInvoiceCents(12345, USD), 12345);
+});
+
+test('a rate entered in the invoice currency is used as entered', () => {
+  assert.deepEqual(convertHourlyAmounts(hourly(), EUR), {
+    rate: 90,
+    billedRevenueCents: 90000,
+    adjustmentCents: 0,
+  });
+});
+
+test('USD rates, or rates edited after billing, are converted from the billed rate', () => {
+  assert.equal(invoiceRate({ usdRate: 110, nativeRate: 110, rateCurrency: 'USD' }, EUR), 100);
+  // Billed at $99/hr, since changed to €95/hr
+  assert.equal(invoiceRate({ usdRate: 99, nativeRate: 95, rateCurrency: 'EUR' }, EUR), 90);
+});
+
+test('hours adjustments are re-priced, amount adjustments converted', () => {
+  // 2.5h courtesy write-down: 7.5h billed
+  assert.deepEqual(
+    convertHourlyAmounts(hourly({ billedHours: 7.5, adjustmentHours: -2.5, billedRevenueCents: 74250, adjustmentCents: -24750 }), EUR),
+    { rate: 90, billedRevenueCents: 67500, adjustmentCents: -22500 },
+  );
+  // $110 premium on top of the hours
+  assert.deepEqual(
+    convertHourlyAmounts(hourly({ billedRevenueCents: 110000, adjustmentCents: 11000 }), EUR),
+    { rate: 90, billedRevenueCents: 100000, adjustmentCents: 10000 },
+  );
+});
+
+test('a write-down larger than the month keeps revenue at zero', () => {
+  assert.deepEqual(
+    convertHourlyAmounts(hourly({ billedHours: 0, adjustmentHours: -2, billedRevenueCents: 0, adjustmentCents: -19800 }), EUR),
+    { rate: 90, billedRevenueCents: 0, adjustmentCents: -18000 },
+  );
+});
+
+test('cents, symbols and invoice wording in EUR', () => {
+  assert.equal(toInvoiceCents(11000, EUR), 10000);
+  assert.equal(parseInvoiceCurrency('EUR'), 'EUR');
+  assert.equal(parseInvoiceCurrency(null), 'USD');
+  assert.equal(currencySymbol('EUR'), '€');
+  assert.equal(formatInvoiceAmount(123450, 'EUR'), '€1,234.50');
+
+  const lines = buildInvoiceLines({
+    monthLabel: 'March 2026',
+    projects: [{ projectName: 'Portal', externalId: 'ext-portal', billedHours: 10, rate: 90, billedRevenueCents: 90000, tasks: [] }],
+    billings: [],
+    milestoneByExternalProjectId: new Map(),
+    currency: 'EUR',
+  });
+  assert.equal(lines[0].description, 'Portal - March 2026 - 10 hrs @ €90/hr');
+});
+
+test('Rates page: the rate in the company billing currency', () => {
+  const rate = { effectiveRate: 99, nativeRate: 90, rateCurrency: 'EUR', billingCurrency: 'EUR', billingFxRate: 1.1 } as const;
+  assert.equal(rateInBillingCurrency(rate), 90);
+  // Still entered in USD after the company moved to EUR
+  assert.equal(rateInBillingCurrency({ ...rate, nativeRate: 110, effectiveRate: 110, rateCurrency: 'USD' }), 100);
+  // Entered in EUR, company back on USD
+  assert.equal(rateInBillingCurrency({ ...rate, billingCurrency: 'USD', billingFxRate: 1 }), 99);
+  assert.equal(formatMoney(90, 'EUR'), '€90.00');
+});
@@ -0,0 +1,144 @@
+// Run with: node --test scripts/invoice-tests/
+//
+// Covers the invoice line model shared by the EOM invoice PDF
+// (generate-eom-report) and the task breakdown shared with qbo-create-invoice:
+// QBO-identical line wording, milestone overrides, manual adjustments, skipped
+// zero lines, budget-truncated breakdowns, formatting, and the byte-identical
+// _lib copies.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+import { buildTaskBreakdownText } from '../../src/lib/invoice/taskBreakdown.ts';
+import {
+  buildInvoiceLines,
+  formatInvoiceAmount,
+  formatInvoiceDate,
+  formatInvoiceQuantity,
+  invoiceTotalCents,
+  type InvoiceProjectInput,
+} from '../../src/lib/invoice/invoiceModel.ts';
+
+function project(overrides: Partial<InvoiceProjectInput> = {}): InvoiceProjectInput {
+  return {
+    projectName: 'Portal',
+    externalId: 'ext-portal',
+    billedHours: 12.5,
+    rate: 80,
+    billedRevenueCents: 100000,
+    tasks: [['Review', 150], ['Build', 600]],
+    ...overrides,
+  };
+}
+
+test('breakdown: lines in order, truncated with a reconciling footer', () => {
+  const tasks: [string, number][] = [['Build', 600], ['Review', 90], ['QA', 30]];
+  assert.equal(buildTaskBreakdownText(tasks, 1000), '\nBuild: 10 hrs\nReview: 1.5 hrs\nQA: 0.5 hrs');
+
+  const truncated = buildTaskBreakdownText(tasks, 40);
+  assert.equal(truncated, '\nBuild: 10 hrs\n…(+2 more tasks, 2.0 hrs)');
+  assert.ok(truncated.length <= 40);
+});
+
+test('lines: hourly and fixed-bid projects use the QBO wording', () => {
+  const lines = buildInvoiceLines({
+    monthLabel: 'March 2026',
+    projects: [
+      project(),
+      project({ projectName: 'Apps', externalId: 'ext-apps', billedHours: 3, rate: 100, billedRevenueCents: 30000, tasks: [] }),
+    ],
+    billings: [],
+    milestoneByExternalProjectId: new Map([['ext-apps', 250000]]),
+  });
+
+  assert.deepEqual(lines.map((l) => l.kind), ['fixed_bid', 'hourly']);
+  assert.deepEqual(lines[0], {
+    kind: 'fixed_bid',
+    description: 'Apps - March 2026 (Fixed Bid)',
+    details: [],
+    quantity: 1,
+    unitPrice: 2500,
+    amountCents: 250000,
+  });
+  assert.equal(lines[1].description, 'Portal - March 2026 - 12.5 hrs @ $80/hr');
+  assert.deepEqual(lines[1].details, ['Build: 10 hrs', 'Review: 2.5 hrs']);
+  assert.equal(lines[1].quantity, 12.5);
+  assert.equal(lines[1].unitPrice, 80);
+  assert.equal(invoiceTotalCents(lines), 350000);
+});
+
+test('lines: zero-revenue projects and non-positive billings are skipped', () => {
+  const lines = buildInvoiceLines({
+    monthLabel: 'March 2026',
+    projects: [
+      project({ billedRevenueCents: 0 }),
+      // A zero milestone suppresses the line even when hours were billed
+      project({ projectName: 'Ops', externalId: 'ext-ops' }),
+    ],
+    billings: [
+      { name: 'Hosting', typeLabel: 'Subscription', totalCents: 4999 },
+      { name: 'Credit', typeLabel: 'Service Fee', totalCents: -1000 },
+      { name: 'Empty', typeLabel: 'License', totalCents: 0 },
+    ],
+    milestoneByExternalProjectId: new Map([['ext-ops', 0]]),
+  });
+
+  assert.deepEqual(lines, [{
+    kind: 'fixed_billing',
+    description: 'Hosting - March 2026 (Subscription)',
+    details: [],
+    quantity: 1,
+    unitPrice: 49.99,
+    amountCents: 4999,
+  }]);
+  assert.equal(invoiceTotalCents([]), 0);
+});
+
+test('lines: a manual adjustment is split out of the hourly line', () => {
+  const lines = buildInvoiceLines({
+    monthLabel: 'March 2026',
+    projects: [
+      // 12.5h billed after a 2.5h courtesy write-down at $80/hr
+      project({ adjustmentHours: -2.5, adjustmentCents: -20000, adjustmentReason: 'Courtesy discount' }),
+    ],
+    billings: [],
+    milestoneByExternalProjectId: new Map(),
+  });
+
+  assert.deepEqual(lines.map((l) => l.kind), ['hourly', 'adjustment']);
+  assert.equal(lines[0].description, 'Portal - March 2026 - 15 hrs @ $80/hr');
+  assert.equal(lines[0].amountCents, 120000);
+  assert.deepEqual(lines[1], {
+    kind: 'adjustment',
+    description: 'Portal - March 2026 - Adjustment (Courtesy discount)',
+    details: [],
+    quantity: 1,
+    unitPrice: -200,
+    amountCents: -20000,
+  });
+  assert.equal(invoiceTotalCents(lines), 100000);
+});
+
+test('format: amounts, quantities and date-only values', () => {
+  assert.equal(formatInvoiceAmount(123450), '$1,234.50');
+  assert.equal(formatInvoiceQuantity(1), '1');
+  assert.equal(formatInvoiceQuantity(12.5), '12.50');
+  assert.equal(formatInvoiceDate('2026-04-01'), 'Apr 1, 2026');
+});
+
+test('edge function _lib copies are byte-identical to src/lib/invoice', () => {
+  const root = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+  const copies: Record<string, string[]> = {
+    'qbo-create-invoice': ['taskBreakdown.ts', 'invoiceCurrency.ts'],
+    'generate-eom-report': ['taskBreakdown.ts', 'invoiceModel.ts', 'invoiceCurrency.ts'],
+  };
+  for (const [fn, files] of Object.entries(copies)) {
+    for (const file of files) {
+      const canonical = readFileSync(join(root, 'src/lib/invoice', file), 'utf8');
+      const copy = readFileSync(join(root, 'supabase/functions', fn, '_lib', file), 'utf8');
+      assert.equal(copy, canonical, `${fn}/_lib/${file} has drifted from src/lib/invoice/${file}`);
+    }
+  }
+});
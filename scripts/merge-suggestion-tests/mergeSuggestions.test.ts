@@ -0,0 +1,118 @@
+// Run with: node --test scripts/merge-suggestion-tests/
+//
+// Scores merge candidates the way the group editors do: name similarity with
+// Cyrillic transliteration and company suffixes, email, work overlap, and the
+// rule that activity alone never makes a suggestion.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  HIGH_CONFIDENCE_SCORE,
+  nameSimilarity,
+  rankMergeSuggestions,
+  transliterate,
+} from '../../src/utils/mergeSuggestions.ts';
+import type { MergeSignalRow } from '../../src/types/index.ts';
+
+function row(overrides: Partial<MergeSignalRow> & { entity_id: string; entity_name: string }): MergeSignalRow {
+  return {
+    external_id: null,
+    is_target: false,
+    alt_name: null,
+    email: null,
+    work_days: 0,
+    overlap_days: 0,
+    shared_clients: null,
+    shared_users: null,
+    same_company: null,
+    ...overrides,
+  };
+}
+
+const target = row({
+  entity_id: 'r1',
+  is_target: true,
+  entity_name: 'Ivan Petrov',
+  email: 'ivan.petrov@acme.com',
+  work_days: 40,
+});
+
+test('Cyrillic names transliterate to their Latin spelling', () => {
+  assert.equal(transliterate('Иван Петров'), 'ivan petrov');
+  assert.equal(transliterate('Щерев'), 'shterev');
+  assert.equal(nameSimilarity('Иван Петров', 'Ivan Petrov', 'employee'), 1);
+});
+
+test('initials, reordered and joined names still match', () => {
+  assert.ok(nameSimilarity('Ivan P.', 'Ivan Petrov', 'employee') >= 0.8);
+  assert.equal(nameSimilarity('Petrov, Ivan', 'Ivan Petrov', 'employee'), 1);
+  assert.ok(nameSimilarity('IvanPetrov', 'Ivan Petrov', 'employee') >= 0.9);
+  assert.ok(nameSimilarity('Maria Ivanova', 'Ivan Petrov', 'employee') < 0.5);
+});
+
+test('company legal-form suffixes are ignored', () => {
+  assert.equal(nameSimilarity('Acme Inc.', 'ACME, LLC', 'company'), 1);
+  assert.equal(nameSimilarity('Акме ООД', 'Akme', 'company'), 1);
+  // Only for companies: "Co" may be a real word in a person's name
+  assert.ok(nameSimilarity('Acme Inc.', 'ACME, LLC', 'employee') < 1);
+});
+
+test('a transliterated name with shared work ranks as probably the same', () => {
+  const [suggestion] = rankMergeSuggestions([
+    target,
+    row({ entity_id: 'r2', entity_name: 'Иван Петров', external_id: 'u2', work_days: 20, overlap_days: 18, shared_clients: 2 }),
+  ], 'employee');
+
+  assert.equal(suggestion.entityId, 'r2');
+  assert.equal(suggestion.externalId, 'u2');
+  assert.ok(suggestion.score >= HIGH_CONFIDENCE_SCORE);
+  assert.equal(suggestion.confidence, 'high');
+  assert.deepEqual(suggestion.reasons, ['Same name', '18 shared work days', '2 shared clients']);
+});
+
+test('the same email is enough even when the name differs', () => {
+  const [suggestion] = rankMergeSuggestions([
+    target,
+    row({ entity_id: 'r3', entity_name: 'ipetrov', email: 'Ivan.Petrov@acme.com ' }),
+  ], 'employee');
+
+  assert.equal(suggestion.entityId, 'r3');
+  assert.ok(suggestion.reasons.includes('Same email'));
+});
+
+test('a coworker with overlapping days and clients is not suggested', () => {
+  const suggestions = rankMergeSuggestions([
+    target,
+    row({ entity_id: 'r4', entity_name: 'Maria Ivanova', work_days: 40, overlap_days: 40, shared_clients: 3 }),
+  ], 'employee');
+
+  assert.deepEqual(suggestions, []);
+});
+
+test('candidates rank by score, honour exclusions and the limit', () => {
+  const rows = [
+    target,
+    row({ entity_id: 'weak', entity_name: 'Ivan P.' }),
+    row({ entity_id: 'strong', entity_name: 'Ivan Petrov', email: 'ivan.petrov@acme.com' }),
+    row({ entity_id: 'staged', entity_name: 'Ivan Petrov' }),
+  ];
+
+  assert.deepEqual(
+    rankMergeSuggestions(rows, 'employee', new Set(['staged'])).map((s) => s.entityId),
+    ['strong', 'weak'],
+  );
+  assert.deepEqual(rankMergeSuggestions(rows, 'employee', new Set(), 1).map((s) => s.entityId), ['strong']);
+  assert.deepEqual(rankMergeSuggestions(rows.slice(1), 'employee'), []);
+});
+
+test('projects compare project names, not their company', () => {
+  const projectTarget = row({ entity_id: 'p1', is_target: true, entity_name: 'Website Redesign', alt_name: 'Acme' });
+  const suggestions = rankMergeSuggestions([
+    projectTarget,
+    row({ entity_id: 'p2', entity_name: 'Mobile App', alt_name: 'Acme', same_company: true }),
+    row({ entity_id: 'p3', entity_name: 'Website redesign 2026', alt_name: 'Acme', same_company: true, shared_users: 3 }),
+  ], 'project');
+
+  assert.deepEqual(suggestions.map((s) => s.entityId), ['p3']);
+  assert.ok(suggestions[0].reasons.includes('Same company'));
+});
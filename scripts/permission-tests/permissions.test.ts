@@ -0,0 +1,67 @@
+// Run with: node --test scripts/permission-tests/
+//
+// Covers the role rules in src/utils/permissions.ts: role normalization, which
+// pages each role is offered, and where each role lands after sign-in.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  canAccessRoute,
+  canAdjustBilling,
+  canManageExpenses,
+  canPlanAllocations,
+  defaultRouteFor,
+  normalizeRole,
+  roleLabel,
+} from '../../src/utils/permissions.ts';
+
+test('normalizeRole: known roles pass through, anything else is a member', () => {
+  assert.equal(normalizeRole('finance'), 'finance');
+  assert.equal(normalizeRole('project_manager'), 'project_manager');
+  assert.equal(normalizeRole(undefined), 'user');
+  assert.equal(normalizeRole('owner'), 'user');
+  assert.equal(normalizeRole(42), 'user');
+  assert.equal(roleLabel('user'), 'Member');
+});
+
+test('canAccessRoute: admin pages are admin only', () => {
+  for (const route of ['users', 'api-keys', 'webhooks', 'diagnostics', 'audit'] as const) {
+    assert.equal(canAccessRoute('admin', route), true);
+    assert.equal(canAccessRoute('finance', route), false);
+    assert.equal(canAccessRoute('user', route), false);
+  }
+  assert.equal(canAccessRoute('finance', 'expenses'), true);
+  assert.equal(canAccessRoute('finance', 'pnl'), true);
+});
+
+test('canAccessRoute: project managers get operational pages only', () => {
+  assert.equal(canAccessRoute('project_manager', 'revenue'), true);
+  assert.equal(canAccessRoute('project_manager', 'eom-reports'), true);
+  assert.equal(canAccessRoute('project_manager', 'capacity'), true);
+  assert.equal(canAccessRoute('project_manager', 'approvals'), true);
+  assert.equal(canAccessRoute('project_manager', 'expenses'), false);
+  assert.equal(canAccessRoute('project_manager', 'pnl'), false);
+  assert.equal(canAccessRoute('project_manager', 'investor-dashboard'), false);
+  assert.equal(canAccessRoute('project_manager', 'legal'), true);
+});
+
+test('canAccessRoute: investors get the Investor Dashboard and common pages', () => {
+  assert.equal(canAccessRoute('investor', 'investor-dashboard'), true);
+  assert.equal(canAccessRoute('investor', 'release-notes'), true);
+  assert.equal(canAccessRoute('investor', 'home'), false);
+  assert.equal(canAccessRoute('investor', defaultRouteFor('investor')), true);
+});
+
+test('canManageExpenses and defaultRouteFor', () => {
+  assert.equal(canManageExpenses('admin'), true);
+  assert.equal(canManageExpenses('finance'), true);
+  assert.equal(canManageExpenses('user'), false);
+  assert.equal(canManageExpenses('project_manager'), false);
+  assert.equal(canPlanAllocations('project_manager'), true);
+  assert.equal(canPlanAllocations('finance'), false);
+  assert.equal(canAdjustBilling('project_manager'), true);
+  assert.equal(canAdjustBilling('finance'), true);
+  assert.equal(canAdjustBilling('user'), false);
+  assert.equal(defaultRouteFor('investor'), 'investor-dashboard');
+  assert.equal(defaultRouteFor('project_manager'), 'home');
+});
@@ -0,0 +1,97 @@
+// Run with: node --test scripts/pnl-tests/
+//
+// Covers the company P&L statement in src/utils/companyPnl.ts: lines land in
+// their month column, sections sum their lines, gross margin and net income
+// reconcile to the cent, pending counts carry up, and the CSV / XLSX grid.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  buildPnlStatement,
+  formatPnlMonth,
+  marginPct,
+  pnlToCsv,
+  pnlToGrid,
+  statementMonths,
+} from '../../src/utils/companyPnl.ts';
+import type { PnlLineRow } from '../../src/types/index.ts';
+
+function row(overrides: Partial<PnlLineRow>): PnlLineRow {
+  return {
+    summary_month: '2026-01-01',
+    section: 'revenue',
+    line_id: 'acme',
+    line_label: 'Acme',
+    amount_cents: 0,
+    pending_count: 0,
+    ...overrides,
+  };
+}
+
+const rows: PnlLineRow[] = [
+  row({ summary_month: '2026-01-01', line_id: 'acme', line_label: 'Acme', amount_cents: 1_000_000 }),
+  row({ summary_month: '2026-02-01', line_id: 'acme', line_label: 'Acme', amount_cents: 1_200_000 }),
+  row({ summary_month: '2026-02-01', line_id: 'globex', line_label: 'Globex', amount_cents: 300_050 }),
+  row({ summary_month: '2026-01-01', section: 'labor', line_id: 'acme', line_label: 'Acme', amount_cents: 600_000, pending_count: 2 }),
+  row({ summary_month: '2026-02-01', section: 'labor', line_id: 'acme', line_label: 'Acme', amount_cents: 650_000 }),
+  row({ summary_month: '2026-01-01', section: 'overhead', line_id: '3', line_label: 'Rent', amount_cents: 200_000 }),
+  row({ summary_month: '2026-02-01', section: 'overhead', line_id: '3', line_label: 'Rent', amount_cents: 200_000 }),
+  row({ summary_month: '2026-02-01', section: 'overhead', line_id: '7', line_label: 'Cloud', amount_cents: 45_025, pending_count: 1 }),
+  // Outside the statement months: ignored.
+  row({ summary_month: '2025-12-01', line_id: 'acme', line_label: 'Acme', amount_cents: 999_999 }),
+];
+
+test('statementMonths stops at the through month; formatPnlMonth and marginPct', () => {
+  assert.deepEqual(statementMonths(2026, '2026-03'), ['2026-01', '2026-02', '2026-03']);
+  assert.equal(statementMonths(2025, '2025-12').length, 12);
+  assert.equal(formatPnlMonth('2026-02'), 'Feb 2026');
+  assert.equal(marginPct(25, 100), 25);
+  assert.equal(marginPct(25, 0), null);
+});
+
+test('buildPnlStatement: sections sum their lines per month; subtotals reconcile to the cent', () => {
+  const statement = buildPnlStatement(rows, ['2026-01', '2026-02']);
+  const [revenue, labor, gross, overhead, net] = statement.lines;
+
+  assert.deepEqual(statement.lines.map((l) => l.key), ['revenue', 'labor', 'gross_margin', 'overhead', 'net']);
+  assert.deepEqual(revenue.monthCents, [1_000_000, 1_500_050]);
+  assert.equal(revenue.totalCents, 2_500_050);
+  // Lines sorted by total, largest first.
+  assert.deepEqual(revenue.children.map((c) => c.label), ['Acme', 'Globex']);
+  assert.deepEqual(revenue.children[1].monthCents, [0, 300_050]);
+
+  assert.deepEqual(gross.monthCents, [400_000, 850_050]);
+  assert.equal(gross.totalCents, revenue.totalCents - labor.totalCents);
+  assert.deepEqual(overhead.monthCents, [200_000, 245_025]);
+  assert.deepEqual(net.monthCents, [200_000, 605_025]);
+  assert.equal(net.totalCents, gross.totalCents - overhead.totalCents);
+
+  assert.equal(labor.pendingCount, 2);
+  assert.equal(overhead.pendingCount, 1);
+  assert.equal(net.pendingCount, 3);
+});
+
+test('buildPnlStatement: no rows gives a zero statement with every line present', () => {
+  const statement = buildPnlStatement([], ['2026-01']);
+  assert.equal(statement.lines.length, 5);
+  for (const line of statement.lines) {
+    assert.deepEqual(line.monthCents, [0]);
+    assert.equal(line.children.length, 0);
+  }
+});
+
+test('pnlToGrid / pnlToCsv: header, indented lines, margin rows, plain numbers', () => {
+  const statement = buildPnlStatement(rows, ['2026-01', '2026-02']);
+  const grid = pnlToGrid(statement, 'YTD');
+
+  assert.deepEqual(grid[0], ['Line', 'Jan 2026', 'Feb 2026', 'YTD']);
+  assert.deepEqual(grid[1], ['Revenue', 10_000, 15_000.5, 25_000.5]);
+  assert.deepEqual(grid[2], ['  Acme', 10_000, 12_000, 22_000]);
+  const grossPct = grid.find((cells) => cells[0] === 'Gross Margin %');
+  assert.deepEqual(grossPct, ['Gross Margin %', 40, 56.7, 50]);
+  assert.equal(grid[grid.length - 2][0], 'Net Income');
+
+  const csv = pnlToCsv(statement, 'YTD');
+  assert.ok(csv.startsWith('\uFEFF"Line","Jan 2026","Feb 2026","YTD"'));
+  assert.ok(csv.includes('"Revenue","10000.00","15000.50","25000.50"'));
+});
@@ -0,0 +1,98 @@
+// Run with: node --test scripts/receivables-tests/
+//
+// Covers the QuickBooks receivables parsing used by qbo-sync-receivables:
+// invoice balance/due date/linked payments, per-invoice payment amounts when
+// one Payment settles several invoices, the upsert/delete plan, and the
+// byte-identical _lib copy.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+import {
+  parseQboInvoice,
+  paymentAppliedToInvoice,
+  planPaymentSync,
+  toCents,
+  type QboPaymentEntity,
+} from '../../src/lib/receivables/qboReceivables.ts';
+
+test('toCents: rounds QBO decimals, tolerates missing amounts', () => {
+  assert.equal(toCents(1234.56), 123456);
+  assert.equal(toCents(0.1 + 0.2), 30);
+  assert.equal(toCents(undefined), 0);
+  assert.equal(toCents(Number.NaN), 0);
+});
+
+test('parseQboInvoice: balance, due date and distinct payment links', () => {
+  const parsed = parseQboInvoice({
+    Id: '145',
+    DocNumber: '1042',
+    DueDate: '2026-05-31',
+    TotalAmt: 5000,
+    Balance: 1250.5,
+    LinkedTxn: [
+      { TxnId: '301', TxnType: 'Payment' },
+      { TxnId: '77', TxnType: 'CreditMemo' },
+      { TxnId: '301', TxnType: 'Payment' },
+      { TxnId: '302', TxnType: 'Payment' },
+    ],
+  });
+  assert.deepEqual(parsed, {
+    qboInvoiceId: '145',
+    docNumber: '1042',
+    dueOn: '2026-05-31',
+    totalCents: 500000,
+    balanceCents: 125050,
+    paymentIds: ['301', '302'],
+  });
+
+  assert.equal(parseQboInvoice({ Id: '9', Balance: 0, DueDate: '31/05/2026' }).dueOn, null);
+  assert.throws(() => parseQboInvoice({ Id: '9' }), /no Balance/);
+  assert.throws(() => parseQboInvoice({ Balance: 0 }), /no Id/);
+});
+
+test('paymentAppliedToInvoice: only lines linked to this invoice count', () => {
+  const payment: QboPaymentEntity = {
+    Id: '301',
+    TxnDate: '2026-05-10',
+    TotalAmt: 3000,
+    Line: [
+      { Amount: 1000, LinkedTxn: [{ TxnId: '145', TxnType: 'Invoice' }] },
+      { Amount: 1500, LinkedTxn: [{ TxnId: '146', TxnType: 'Invoice' }] },
+      { Amount: 500, LinkedTxn: [{ TxnId: '145', TxnType: 'Invoice' }] },
+      { Amount: 999, LinkedTxn: [{ TxnId: '145', TxnType: 'CreditMemo' }] },
+    ],
+  };
+  assert.equal(paymentAppliedToInvoice(payment, '145'), 150000);
+  assert.equal(paymentAppliedToInvoice(payment, '146'), 150000);
+  assert.equal(paymentAppliedToInvoice(payment, '147'), 0);
+});
+
+test('planPaymentSync: upserts applied payments, deletes unlinked ones', () => {
+  const payments: QboPaymentEntity[] = [
+    {
+      Id: '301',
+      TxnDate: '2026-05-10',
+      PaymentRefNum: ' WIRE-88 ',
+      Line: [{ Amount: 1000, LinkedTxn: [{ TxnId: '145', TxnType: 'Invoice' }] }],
+    },
+    // Unapplied from this invoice in QBO — treated as gone
+    { Id: '302', TxnDate: '2026-05-12', Line: [] },
+  ];
+  const plan = planPaymentSync('145', payments, ['301', '302', '250']);
+  assert.deepEqual(plan.upserts, [
+    { qboPaymentId: '301', amountCents: 100000, paidOn: '2026-05-10', reference: 'WIRE-88' },
+  ]);
+  assert.deepEqual(plan.deleteQboPaymentIds, ['302', '250']);
+
+  assert.deepEqual(planPaymentSync('145', [], []), { upserts: [], deleteQboPaymentIds: [] });
+});
+
+test('edge function _lib copy is byte-identical to src/lib/receivables', () => {
+  const root = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+  const canonical = readFileSync(join(root, 'src/lib/receivables/qboReceivables.ts'), 'utf8');
+  const copy = readFileSync(join(root, 'supabase/functions/qbo-sync-receivables/_lib/qboReceivables.ts'), 'utf8');
+  assert.equal(copy, canonical, 'qbo-sync-receivables/_lib/qboReceivables.ts has drifted from src/lib/receivables');
+});
@@ -0,0 +1,138 @@
+// Run with: node --test scripts/report-delivery-tests/
+//
+// Covers the scheduled report delivery helpers used by deliver-reports and
+// report-delivery-events: schedule due/period computation, template rendering,
+// to/cc recipient splitting, retry backoff, SendGrid bounce parsing, and the
+// byte-identical _lib copies.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+import {
+  buildTemplateVars,
+  nextRetryAt,
+  parseSendGridEvents,
+  renderTemplate,
+  scheduledPeriod,
+  splitRecipients,
+  unknownPlaceholders,
+  type ReportScheduleTiming,
+} from '../../src/lib/reportDelivery/reportDelivery.ts';
+
+const WEEKLY: ReportScheduleTiming = {
+  report_type: 'weekly',
+  is_enabled: true,
+  day_of_week: 1, // Monday
+  day_of_month: 2,
+  send_hour_utc: 13,
+};
+
+const EOM: ReportScheduleTiming = { ...WEEKLY, report_type: 'eom', day_of_month: 2, send_hour_utc: 9 };
+
+test('scheduledPeriod: weekly delivers the prior Mon-Sun week once the send time passes', () => {
+  // Monday 2026-03-30 12:59 UTC — not yet
+  assert.equal(scheduledPeriod(WEEKLY, new Date('2026-03-30T12:59:00Z')), null);
+  const expected = { periodKey: '2026-03-23', periodStart: '2026-03-23', periodEnd: '2026-03-29' };
+  assert.deepEqual(scheduledPeriod(WEEKLY, new Date('2026-03-30T13:00:00Z')), expected);
+  // Still the same period later in the week (idempotency is the schedule_key)
+  assert.deepEqual(scheduledPeriod(WEEKLY, new Date('2026-04-05T23:00:00Z')), expected);
+  // Sunday send day: the cycle's send time is the end of the week
+  assert.equal(scheduledPeriod({ ...WEEKLY, day_of_week: 0 }, new Date('2026-04-04T13:00:00Z')), null);
+  assert.deepEqual(scheduledPeriod({ ...WEEKLY, day_of_week: 0 }, new Date('2026-04-05T13:00:00Z')), expected);
+  assert.equal(scheduledPeriod({ ...WEEKLY, is_enabled: false }, new Date('2026-03-30T14:00:00Z')), null);
+});
+
+test('scheduledPeriod: EOM delivers the prior month, across the year boundary', () => {
+  assert.equal(scheduledPeriod(EOM, new Date('2026-04-02T08:00:00Z')), null);
+  assert.deepEqual(scheduledPeriod(EOM, new Date('2026-04-02T09:00:00Z')), {
+    periodKey: '2026-03',
+    periodStart: '2026-03-01',
+    periodEnd: '2026-03-31',
+  });
+  assert.deepEqual(scheduledPeriod(EOM, new Date('2026-01-15T00:00:00Z')), {
+    periodKey: '2025-12',
+    periodStart: '2025-12-01',
+    periodEnd: '2025-12-31',
+  });
+});
+
+test('renderTemplate: substitutes known placeholders, keeps unknown ones visible', () => {
+  const vars = buildTemplateVars({
+    reportType: 'eom',
+    companyName: 'Acme',
+    periodStart: '2026-03-01',
+    periodEnd: '2026-03-31',
+    totalHours: 12.5,
+    totalRevenueCents: 123456,
+    invoiceNumber: null,
+  });
+  assert.equal(
+    renderTemplate('{{company}} {{ report_name }} - {{period}}: {{total_hours}}h, {{total_revenue}}{{invoice_number}}', vars),
+    'Acme End of Month Report - March 2026: 12.50h, $1,234.56',
+  );
+  assert.equal(renderTemplate('Hi {{first_name}}', vars), 'Hi {{first_name}}');
+  assert.deepEqual(unknownPlaceholders('{{company}} {{first_name}} {{first_name}}'), ['first_name']);
+
+  const weekly = buildTemplateVars({
+    reportType: 'weekly',
+    companyName: 'Acme',
+    periodStart: '2026-03-23',
+    periodEnd: '2026-03-29',
+    totalHours: 0,
+    totalRevenueCents: 0,
+    invoiceNumber: null,
+  });
+  assert.equal(weekly.period, 'Mar 23, 2026');
+  assert.equal(weekly.report_name, 'Weekly Revenue Report');
+});
+
+test('splitRecipients: active valid addresses, de-duplicated, to wins over cc', () => {
+  assert.deepEqual(splitRecipients([
+    { email: 'PM@Acme.com ', recipient_kind: 'to', is_active: true },
+    { email: 'pm@acme.com', recipient_kind: 'cc', is_active: true },
+    { email: 'finance@acme.com', recipient_kind: 'cc', is_active: true },
+    { email: 'Finance@acme.com', recipient_kind: 'cc', is_active: true },
+    { email: 'old@acme.com', recipient_kind: 'to', is_active: false },
+    { email: 'not-an-email', recipient_kind: 'to', is_active: true },
+  ]), { to: ['pm@acme.com'], cc: ['finance@acme.com'] });
+});
+
+test('nextRetryAt: exponential backoff capped at 6h, stops at the attempt limit', () => {
+  const failedAt = new Date('2026-03-30T13:00:00Z');
+  assert.equal(nextRetryAt(1, failedAt)?.toISOString(), '2026-03-30T13:15:00.000Z');
+  assert.equal(nextRetryAt(2, failedAt)?.toISOString(), '2026-03-30T13:30:00.000Z');
+  assert.equal(nextRetryAt(3, failedAt)?.toISOString(), '2026-03-30T14:00:00.000Z');
+  assert.equal(nextRetryAt(4, failedAt), null);
+  assert.equal(nextRetryAt(9, failedAt, 20)?.toISOString(), '2026-03-30T19:00:00.000Z');
+});
+
+test('parseSendGridEvents: keeps bounce-type events with a delivery reference', () => {
+  const events = parseSendGridEvents([
+    { event: 'delivered', delivery_id: 'd-1', sg_message_id: 'abc.filter1' },
+    { event: 'bounce', delivery_id: 'd-2', sg_message_id: 'def.filter1', reason: '550 mailbox unavailable', timestamp: 1774875600 },
+    { event: 'dropped', sg_message_id: 'ghi.filter2', reason: 'Bounced Address' },
+    { event: 'blocked', response: '' },
+    'garbage',
+  ]);
+  assert.equal(events.length, 2);
+  assert.deepEqual(events[0], {
+    deliveryId: 'd-2',
+    providerMessageId: 'def',
+    reason: '550 mailbox unavailable',
+    occurredAt: '2026-03-30T13:00:00.000Z',
+  });
+  assert.equal(events[1].deliveryId, null);
+  assert.equal(events[1].providerMessageId, 'ghi');
+  assert.deepEqual(parseSendGridEvents({ event: 'bounce' }), []);
+});
+
+test('edge function _lib copies are byte-identical to src/lib/reportDelivery', () => {
+  const root = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+  const canonical = readFileSync(join(root, 'src/lib/reportDelivery/reportDelivery.ts'), 'utf8');
+  for (const fn of ['deliver-reports', 'report-delivery-events']) {
+    const copy = readFileSync(join(root, `supabase/functions/${fn}/_lib/reportDelivery.ts`), 'utf8');
+    assert.equal(copy, canonical, `${fn}/_lib/reportDelivery.ts has drifted from src/lib/reportDelivery`);
+  }
+});
@@ -0,0 +1,114 @@
+-- =====================================================================
+-- pm_view_scope.sql
+-- Checks that a project-manager session only sees its scoped projects
+-- through the views the Projects, Billings and Employees pages read
+-- (migration 142 switched them to security_invoker).
+--
+-- Read-only; everything runs in a transaction that is rolled back.
+-- Pass the auth user id of a project manager whose profile has a
+-- resource_id:
+--
+--    psql -v ON_ERROR_STOP=1 -v pm_user_id=<uuid> -f pm_view_scope.sql
+--
+-- Any '!!!! VALIDATION FAILED: ...' row means a view leaks rows outside
+-- the manager's scope.
+-- =====================================================================
+
+BEGIN;
+
+SELECT set_config(
+    'request.jwt.claims',
+    json_build_object('sub', :'pm_user_id', 'role', 'authenticated')::text,
+    true
+);
+SET LOCAL ROLE authenticated;
+
+-- ---------------------------------------------------------------------
+SELECT 'SECTION 0: SESSION' AS section;
+-- The checks below are meaningless for a company-wide role.
+-- ---------------------------------------------------------------------
+SELECT
+    CASE
+        WHEN public.app_role() <> 'project_manager'
+            THEN '!!!! VALIDATION FAILED: ' || :'pm_user_id'
+                 || ' has role ' || public.app_role() || ', not project_manager'
+        WHEN NOT EXISTS (SELECT 1 FROM public.scoped_project_ids())
+            THEN '!!!! VALIDATION FAILED: ' || :'pm_user_id'
+                 || ' manages no projects (user_profiles.resource_id unset?)'
+        ELSE 'OK: project manager with '
+             || (SELECT COUNT(*) FROM public.scoped_project_ids())::text
+             || ' scoped project(s)'
+    END AS session_status;
+
+-- ---------------------------------------------------------------------
+SELECT 'SECTION 1: v_project_table_entities' AS section;
+-- ---------------------------------------------------------------------
+SELECT
+    CASE
+        WHEN COUNT(*) FILTER (WHERE pte.id NOT IN (SELECT public.scoped_project_ids())) = 0
+            THEN 'OK: ' || COUNT(*)::text || ' project row(s), all in scope'
+        ELSE '!!!! VALIDATION FAILED: v_project_table_entities returned '
+             || (COUNT(*) FILTER (WHERE pte.id NOT IN (SELECT public.scoped_project_ids())))::text
+             || ' project(s) outside scope'
+    END AS project_table_entities_status
+FROM public.v_project_table_entities pte;
+
+-- ---------------------------------------------------------------------
+SELECT 'SECTION 2: v_employee_project_profit' AS section;
+-- ---------------------------------------------------------------------
+SELECT
+    CASE
+        WHEN COUNT(*) FILTER (WHERE epp.canonical_project_id NOT IN (SELECT public.scoped_project_ids())) = 0
+            THEN 'OK: ' || COUNT(*)::text || ' employee-project row(s), all in scope'
+        ELSE '!!!! VALIDATION FAILED: v_employee_project_profit returned '
+             || (COUNT(*) FILTER (WHERE epp.canonical_project_id NOT IN (SELECT public.scoped_project_ids())))::text
+             || ' row(s) for projects outside scope'
+    END AS employee_project_profit_status
+FROM public.v_employee_project_profit epp;
+
+-- ---------------------------------------------------------------------
+SELECT 'SECTION 3: v_monthly_summary_by_company' AS section;
+-- ---------------------------------------------------------------------
+SELECT
+    CASE
+        WHEN COUNT(*) FILTER (WHERE msc.company_id NOT IN (SELECT public.scoped_company_ids())) = 0
+            THEN 'OK: ' || COUNT(*)::text || ' company-month row(s), all in scope'
+        ELSE '!!!! VALIDATION FAILED: v_monthly_summary_by_company returned '
+             || (COUNT(*) FILTER (WHERE msc.company_id NOT IN (SELECT public.scoped_company_ids())))::text
+             || ' row(s) for companies outside scope'
+    END AS monthly_summary_by_company_status
+FROM public.v_monthly_summary_by_company msc;
+
+-- ---------------------------------------------------------------------
+SELECT 'SECTION 4: v_monthly_summary_totals' AS section;
+-- Each month's totals must equal the sum over the scoped, non-member
+-- project_monthly_summary rows (same filter as the view).
+-- ---------------------------------------------------------------------
+WITH expected AS (
+    SELECT
+        pms.summary_month,
+        SUM(pms.billed_revenue_cents) AS billed_revenue_cents,
+        COUNT(DISTINCT pms.project_id) AS project_count
+    FROM public.project_monthly_summary pms
+    LEFT JOIN public.project_group_members pgm ON pgm.member_project_id = pms.project_id
+    WHERE pgm.member_project_id IS NULL
+      AND pms.project_id IN (SELECT public.scoped_project_ids())
+    GROUP BY pms.summary_month
+),
+mismatches AS (
+    SELECT mst.summary_month
+    FROM public.v_monthly_summary_totals mst
+    LEFT JOIN expected e ON e.summary_month = mst.summary_month
+    WHERE mst.project_count <> COALESCE(e.project_count, 0)
+       OR COALESCE(mst.total_billed_revenue_cents, 0) <> COALESCE(e.billed_revenue_cents, 0)
+)
+SELECT
+    CASE
+        WHEN NOT EXISTS (SELECT 1 FROM mismatches)
+            THEN 'OK: monthly totals cover scoped projects only'
+        ELSE '!!!! VALIDATION FAILED: v_monthly_summary_totals includes projects outside scope in '
+             || (SELECT COUNT(*) FROM mismatches)::text || ' month(s), first '
+             || (SELECT MIN(summary_month) FROM mismatches)::text
+    END AS monthly_summary_totals_status;
+
+ROLLBACK;
@@ -0,0 +1,238 @@
+// Run with: node --test scripts/time-sync-tests/
+//
+// Exercises the Clockify and ClickUp time-source adapters against a local
+// fake HTTP server (no network, no Supabase), plus the default sync range and
+// the byte-identical _lib copies the edge functions import.
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { dirname, join } from 'node:path';
+
+import { createClockifyAdapter } from '../../src/lib/timeSync/clockifyAdapter.ts';
+import { createClickUpAdapter } from '../../src/lib/timeSync/clickupAdapter.ts';
+import { computeSyncRange } from '../../src/lib/timeSync/syncRange.ts';
+
+type Handler = (req: IncomingMessage, body: string) => { status?: number; json: unknown };
+
+let handler: Handler = () => ({ status: 404, json: {} });
+const requests: Array<{ method: string; url: string; body: string }> = [];
+
+const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => {
+    requests.push({ method: req.method ?? '', url: req.url ?? '', body });
+    const { status = 200, json } = handler(req, body);
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(json));
+  });
+});
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+after(() => server.close());
+
+function reset(next: Handler) {
+  handler = next;
+  requests.length = 0;
+}
+
+const range = computeSyncRange({
+  rangeStartDate: '2026-03-01T00:00:00.000Z',
+  rangeEndDate: '2026-03-31T23:59:59.999Z',
+});
+
+function clockifyEntry(i: number, overrides: Record<string, unknown> = {}) {
+  return {
+    _id: `te-${i}`,
+    description: '  Build feature  ',
+    projectId: 'p1',
+    projectName: 'Portal',
+    clientId: 'c1',
+    clientName: 'Acme',
+    userId: 'u1',
+    userName: 'Dana',
+    timeInterval: { start: '2026-03-02T23:30:00Z', duration: 61 },
+    ...overrides,
+  };
+}
+
+test('computeSyncRange: default window is 14 days before the 1st through month end', () => {
+  const r = computeSyncRange({}, new Date('2026-03-18T10:00:00Z'));
+  assert.equal(r.startISO, '2026-02-15T00:00:00.000Z');
+  assert.equal(r.endISO, '2026-03-31T23:59:59.999Z');
+  assert.equal(r.startDate, '2026-02-15');
+  assert.equal(r.endDate, '2026-03-31');
+  assert.equal(r.isManual, false);
+  assert.equal(range.isManual, true);
+  assert.equal(range.startDate, '2026-03-01');
+});
+
+test('clockify: paginates until a short page and sends the range + api key', async () => {
+  reset((req, body) => {
+    const { detailedFilter } = JSON.parse(body);
+    assert.equal(req.headers['x-api-key'], 'key-1');
+    const count = detailedFilter.page === 1 ? 1000 : 3;
+    const offset = (detailedFilter.page - 1) * 1000;
+    return { json: { timeentries: Array.from({ length: count }, (_, i) => clockifyEntry(offset + i)) } };
+  });
+
+  const adapter = createClockifyAdapter({ apiKey: 'key-1', workspaceId: 'ws-1', reportsBaseUrl: baseUrl });
+  const result = await adapter.fetchEntries(range);
+
+  assert.equal(adapter.replacesRange, true);
+  assert.equal(result.complete, true);
+  assert.equal(result.entries.length, 1003);
+  assert.equal(result.stats.pages_fetched, 2);
+  assert.equal(requests.length, 2);
+  assert.equal(requests[0].url, '/workspaces/ws-1/reports/detailed');
+  assert.equal(JSON.parse(requests[0].body).dateRangeStart, range.startISO);
+});
+
+test('clockify: an API error stops pagination and marks the fetch incomplete', async () => {
+  reset(() => ({ status: 503, json: {} }));
+
+  const adapter = createClockifyAdapter({ apiKey: 'k', workspaceId: 'ws-1', reportsBaseUrl: baseUrl });
+  const result = await adapter.fetchEntries(range);
+
+  assert.equal(result.complete, false);
+  assert.equal(result.entries.length, 0);
+  assert.equal(result.errors[0].type, 'api_error');
+  assert.equal(result.errors[0].page, 1);
+});
+
+test('clockify: normalize builds rollup rows, counts skips, totals raw minutes per user', () => {
+  const adapter = createClockifyAdapter({ apiKey: 'k', workspaceId: 'ws-1' });
+  const { rows, skipped, userTotals } = adapter.normalize([
+    clockifyEntry(1),
+    clockifyEntry(2, { _id: undefined }),
+    clockifyEntry(3, { timeInterval: { duration: 120 } }),
+    clockifyEntry(4, { timeInterval: { start: '2026-03-03T10:00:00Z', duration: 0 } }),
+    clockifyEntry(5, { clientName: undefined, description: '' }),
+  ]);
+
+  assert.deepEqual(skipped, { skipped_no_task_id: 1, skipped_no_work_date: 1, skipped_zero_duration: 1 });
+  assert.equal(rows.length, 2);
+  assert.deepEqual(rows[0], {
+    task_id: 'te-1',
+    work_date: '2026-03-02',
+    project_id: 'p1',
+    project_name: 'Portal',
+    user_id: 'u1',
+    user_name: 'Dana',
+    task_name: 'Build feature',
+    client_id: 'c1',
+    client_name: 'Acme',
+    total_minutes: 2,
+  });
+  assert.equal(rows[1].client_name, 'Unknown Client');
+  assert.equal(rows[1].task_name, '(no description)');
+  // Entries 1, 2, 3, 5 have positive durations: 2 + 2 + 2 + 2 minutes
+  assert.deepEqual(userTotals, { u1: { minutes: 8, name: 'Dana' } });
+});
+
+test('clockify: listProjects reads the workspace collection', async () => {
+  reset(() => ({ json: [{ id: 'p1', name: 'Portal', clientId: 'c1' }] }));
+
+  const adapter = createClockifyAdapter({ apiKey: 'k', workspaceId: 'ws-1', apiBaseUrl: baseUrl });
+  const projects = await adapter.listProjects();
+
+  assert.deepEqual(projects, [{ id: 'p1', name: 'Portal', clientId: 'c1' }]);
+  assert.equal(requests[0].url, '/workspaces/ws-1/projects?page=1&page-size=500');
+});
+
+test('clickup: fetches per member, tolerates one failure, resolves space/folder names', async () => {
+  const startMs = String(Date.parse('2026-03-05T09:00:00Z'));
+  reset((req) => {
+    const url = new URL(req.url ?? '', baseUrl);
+    assert.equal(req.headers.authorization, 'tok');
+    if (url.pathname === '/team') {
+      return { json: { teams: [{ id: 'team-1', members: [{ user: { id: 11 } }, { user: { id: 12 } }] }] } };
+    }
+    if (url.pathname === '/team/team-1/time_entries') {
+      if (url.searchParams.get('assignee') === '12') return { status: 500, json: {} };
+      return {
+        json: {
+          data: [{
+            id: 'e1',
+            start: startMs,
+            duration: '90500',
+            user: { id: 11, username: 'Lee' },
+            task: { name: 'Design review' },
+            task_location: { space_id: 's1', folder_id: 'f1' },
+          }],
+        },
+      };
+    }
+    if (url.pathname === '/space/s1') return { json: { name: 'Globex' } };
+    if (url.pathname === '/space/s1/folder') return { json: { folders: [{ id: 'f1', name: 'Mobile App' }] } };
+    return { status: 404, json: {} };
+  });
+
+  const adapter = createClickUpAdapter({ apiToken: 'tok', teamId: 'team-1', apiBaseUrl: baseUrl });
+  const fetched = await adapter.fetchEntries(range);
+
+  assert.equal(fetched.complete, true);
+  assert.equal(fetched.entries.length, 1);
+  assert.equal(fetched.errors.length, 1);
+  assert.equal(fetched.errors[0].step, 'time_entries_user_12');
+  assert.equal(fetched.stats.team_members, 2);
+
+  const { rows, userTotals } = adapter.normalize(fetched.entries);
+  assert.deepEqual(rows, [{
+    task_id: 'e1',
+    work_date: '2026-03-05',
+    project_id: 'f1',
+    project_name: 'Mobile App',
+    user_id: '11',
+    user_name: 'Lee',
+    task_name: 'Design review',
+    client_id: 's1',
+    client_name: 'Globex',
+    total_minutes: 2,
+  }]);
+  assert.deepEqual(userTotals, { '11': { minutes: 2, name: 'Lee' } });
+});
+
+test('clickup: every member fetch failing marks the fetch incomplete', async () => {
+  reset((req) => {
+    if (req.url === '/team') {
+      return { json: { teams: [{ id: 'team-1', members: [{ user: { id: 11 } }] }] } };
+    }
+    return { status: 500, json: {} };
+  });
+
+  const adapter = createClickUpAdapter({ apiToken: 'tok', teamId: 'team-1', apiBaseUrl: baseUrl });
+  const fetched = await adapter.fetchEntries(range);
+
+  assert.equal(fetched.complete, false);
+  assert.deepEqual(fetched.alertMetadata, { members_checked: 1 });
+});
+
+test('clickup: unknown team id is an incomplete fetch with no_members', async () => {
+  reset(() => ({ json: { teams: [{ id: 'other', members: [{ user: { id: 1 } }] }] } }));
+
+  const adapter = createClickUpAdapter({ apiToken: 'tok', teamId: 'team-1', apiBaseUrl: baseUrl });
+  const fetched = await adapter.fetchEntries(range);
+
+  assert.equal(fetched.complete, false);
+  assert.equal(fetched.errors[0].type, 'no_members');
+});
+
+test('edge function _lib copies are byte-identical to src/lib/timeSync', () => {
+  const root = join(dirname(fileURLToPath(import.meta.url)), '..', '..');
+  const copies: Record<string, string[]> = {
+    'sync-clockify-timesheets': ['types.ts', 'syncRange.ts', 'pipeline.ts', 'clockifyAdapter.ts'],
+    'sync-clickup-timesheets': ['types.ts', 'syncRange.ts', 'pipeline.ts', 'clickupAdapter.ts'],
+    'import-manual-timesheets': ['types.ts', 'syncRange.ts', 'pipeline.ts', 'manualImport.ts'],
+  };
+  for (const [fn, files] of Object.entries(copies)) {
+    for (const file of files) {
+      const canonical = readFileSync(join(root, 'src/lib/timeSync', file), 'utf8');
+      const copy = readFileSync(join(root, 'supabase/functions', fn, '_lib', file), 'utf8');
+      assert.equal(copy, canonical, `${fn}/_lib/${file} has drifted from src/lib/timeSync/${file}`);
+    }
+  }
+});
@@ -0,0 +1,202 @@
+// Run with: node --test scripts/time-sync-tests/
+//
+// Covers the manual timesheet import: file parsing + column mapping
+// (parseTimesheetImport), resolution of users/projects against the directory
+// (canonical project mapping, ambiguity, in-file duplicates), the preview
+// classification against existing rollups, and the manual adapter contract.
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+
+import {
+  applyColumnMapping,
+  guessColumnMapping,
+  parseHoursToMinutes,
+  parseImportDate,
+  parseTimesheetImport,
+} from '../../src/lib/xls/parseTimesheetImport.ts';
+import {
+  classifyManualRows,
+  createManualAdapter,
+  manualTaskId,
+  resolveManualRows,
+  type ManualImportDirectory,
+  type ManualTimesheetRow,
+} from '../../src/lib/timeSync/manualImport.ts';
+
+const directory: ManualImportDirectory = {
+  resources: [
+    { id: 'r1', user_id: 'cf-dana', external_label: 'Dana', first_name: 'Dana', last_name: 'Petrova', email: 'dana@example.com' },
+    { id: 'r2', user_id: null, external_label: 'Lee', first_name: 'Lee', last_name: 'Chan', email: 'lee@example.com' },
+    { id: 'r3', user_id: 'cf-sam-1', external_label: 'Sam', first_name: null, last_name: null, email: null },
+    { id: 'r4', user_id: 'cf-sam-2', external_label: 'Sam', first_name: null, last_name: null, email: null },
+  ],
+  associations: [
+    { resource_id: 'r1', user_id: 'cf-dana', user_name: 'Dana P' },
+    { resource_id: 'r2', user_id: 'cu-11', user_name: 'lee.chan' },
+  ],
+  projects: [
+    { id: 'p-portal', project_id: 'ext-portal', project_name: 'Portal', client_id: 'c1', client_name: 'Acme' },
+    { id: 'p-portal-cu', project_id: 'ext-portal-cu', project_name: 'Portal (ClickUp)', client_id: 's1', client_name: 'Acme' },
+    { id: 'p-other', project_id: 'ext-other', project_name: 'Other', client_id: null, client_name: null },
+  ],
+  canonical: [
+    { project_id: 'p-portal', canonical_project_id: 'p-portal' },
+    { project_id: 'p-portal-cu', canonical_project_id: 'p-portal' },
+    { project_id: 'p-other', canonical_project_id: 'p-other' },
+  ],
+};
+
+function row(rowNumber: number, overrides: Partial<ManualTimesheetRow> = {}): ManualTimesheetRow {
+  return { rowNumber, user: 'dana@example.com', project: 'Portal', task: 'Build', date: '2026-03-02', minutes: 90, ...overrides };
+}
+
+test('parse: CSV headers are guessed and hours convert to minutes', () => {
+  const csv = 'Employee,Project,Description,Date,Hours\nDana,Portal,Build,02.03.2026,1:30\n,,,,\nLee,Other, QA ,2026-03-03,"0,25"\n';
+  const table = parseTimesheetImport(new TextEncoder().encode(csv), 'march.csv');
+
+  assert.equal(table.format, 'csv');
+  assert.deepEqual(table.headers, ['Employee', 'Project', 'Description', 'Date', 'Hours']);
+
+  const mapping = guessColumnMapping(table.headers);
+  assert.deepEqual(mapping, { user: 'Employee', project: 'Project', task: 'Description', date: 'Date', minutes: null, hours: 'Hours' });
+
+  const { rows, errors } = applyColumnMapping(table, mapping);
+  assert.deepEqual(errors, []);
+  assert.deepEqual(rows, [
+    { rowNumber: 2, user: 'Dana', project: 'Portal', task: 'Build', date: '2026-03-02', minutes: 90 },
+    { rowNumber: 4, user: 'Lee', project: 'Other', task: 'QA', date: '2026-03-03', minutes: 15 },
+  ]);
+});
+
+test('parse: XLSX date cells and a minutes column; JSON arrays', () => {
+  // 46086 is the spreadsheet serial of 2026-03-05. SheetJS (cellDates) turns it
+  // into local midnight, which is the previous day in UTC east of Greenwich.
+  const previousTz = process.env.TZ;
+  process.env.TZ = 'Europe/Sofia';
+  try {
+    const ws = XLSX.utils.aoa_to_sheet([
+      ['User', 'Project', 'Task', 'Work Date', 'Minutes'],
+      ['Dana', 'Portal', 'Build', null, 45],
+    ]);
+    ws.D2 = { t: 'n', v: 46086, z: 'yyyy-mm-dd' };
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, 'Sheet1');
+    const bytes = XLSX.write(wb, { type: 'array', bookType: 'xlsx' }) as ArrayBuffer;
+
+    const cell = XLSX.read(bytes, { type: 'array', cellDates: true }).Sheets.Sheet1.D2;
+    assert.ok(cell.v instanceof Date);
+    assert.equal(parseImportDate(cell.v), '2026-03-05');
+
+    const table = parseTimesheetImport(bytes, 'march.xlsx');
+    assert.equal(table.format, 'xlsx');
+    const { rows } = applyColumnMapping(table, guessColumnMapping(table.headers));
+    assert.equal(rows[0].date, '2026-03-05');
+    assert.equal(rows[0].minutes, 45);
+  } finally {
+    if (previousTz === undefined) delete process.env.TZ;
+    else process.env.TZ = previousTz;
+  }
+
+  const json = JSON.stringify([{ user: 'Dana', project: 'Portal', date: '2026-03-06', minutes: '30' }]);
+  const jsonTable = parseTimesheetImport(new TextEncoder().encode(json), 'march.json');
+  assert.equal(jsonTable.format, 'json');
+  assert.equal(applyColumnMapping(jsonTable, guessColumnMapping(jsonTable.headers)).rows[0].minutes, 30);
+
+  assert.throws(() => parseTimesheetImport(new TextEncoder().encode('{"a":1}'), 'bad.json'), /array of objects/);
+});
+
+test('parse: mapping without a duration column is rejected up front', () => {
+  const table = parseTimesheetImport(new TextEncoder().encode('User,Project,Date\nDana,Portal,2026-03-02\n'), 'x.csv');
+  const { rows, errors } = applyColumnMapping(table, guessColumnMapping(table.headers));
+  assert.deepEqual(rows, []);
+  assert.deepEqual(errors, ['Map a column to Minutes or Hours']);
+  assert.equal(parseImportDate('2026-03-02T10:00:00Z'), '2026-03-02');
+  assert.ok(Number.isNaN(parseHoursToMinutes('abc')));
+});
+
+test('resolve: users by email/name/association, projects through the canonical group', async () => {
+  const resolved = await resolveManualRows([
+    row(2),
+    row(3, { user: 'LEE.CHAN', project: 'portal (clickup)', task: 'Review' }),
+    row(4, { user: 'Dana Petrova', project: 'ext-other', minutes: 12.2 }),
+  ], directory);
+
+  assert.deepEqual(resolved.map((r) => r.errors), [[], [], []]);
+
+  const [dana, lee, danaOther] = resolved.map((r) => r.rollup!);
+  assert.equal(dana.user_id, 'cf-dana');
+  assert.equal(dana.user_name, 'Dana Petrova');
+  assert.equal(dana.project_id, 'ext-portal');
+  assert.equal(dana.client_name, 'Acme');
+  // Lee has no resource user_id — falls back to the association's
+  assert.equal(lee.user_id, 'cu-11');
+  // A group member name resolves to the canonical (primary) project
+  assert.equal(lee.project_id, 'ext-portal');
+  assert.equal(lee.project_name, 'Portal');
+  assert.equal(danaOther.total_minutes, 13);
+  assert.equal(resolved[1].canonicalProjectId, 'p-portal');
+  assert.equal(dana.task_id, await manualTaskId('cf-dana', 'ext-portal', 'Build', '2026-03-02'));
+  assert.match(dana.task_id, /^manual-[0-9a-f]{32}$/);
+});
+
+test('resolve: unknown, ambiguous, invalid and duplicate rows carry errors', async () => {
+  const resolved = await resolveManualRows([
+    row(2, { user: 'nobody' }),
+    row(3, { user: 'Sam' }),
+    row(4, { date: '2026-02-30' }),
+    row(5, { minutes: 0 }),
+    row(6),
+    row(7, { task: '  build ' }),
+  ], directory);
+
+  assert.deepEqual(resolved.map((r) => r.errors), [
+    ['Unknown user "nobody"'],
+    ['User "Sam" matches 2 employees'],
+    ['Invalid date "2026-02-30"'],
+    ['Minutes must be greater than 0'],
+    [],
+    ['Duplicates row 6 (same user, project, task and date)'],
+  ]);
+  assert.equal(resolved[5].rollup, null);
+});
+
+test('classify: update, unchanged, overlap with synced time, new', async () => {
+  const resolved = await resolveManualRows([
+    row(2),
+    row(3, { task: 'Docs' }),
+    row(4, { user: 'lee@example.com', date: '2026-03-03' }),
+    row(5, { date: '2026-03-04' }),
+    row(6, { user: 'nobody' }),
+  ], directory);
+
+  const preview = classifyManualRows(resolved, [
+    { clockify_workspace_id: 'manual', task_id: resolved[0].rollup!.task_id, user_id: 'cf-dana', project_id: 'ext-portal', work_date: '2026-03-02', total_minutes: 60 },
+    { clockify_workspace_id: 'manual', task_id: resolved[1].rollup!.task_id, user_id: 'cf-dana', project_id: 'ext-portal', work_date: '2026-03-02', total_minutes: 90 },
+    // ClickUp entry for Lee on a member project of the same canonical group
+    { clockify_workspace_id: 'team-1', task_id: 'e1', user_id: 'cu-11', project_id: 'ext-portal-cu', work_date: '2026-03-03', total_minutes: 30 },
+    // Synced time on another project does not overlap
+    { clockify_workspace_id: 'ws-1', task_id: 't1', user_id: 'cf-dana', project_id: 'ext-other', work_date: '2026-03-04', total_minutes: 30 },
+  ], directory);
+
+  assert.deepEqual(
+    preview.map((p) => [p.status, p.existingMinutes, p.overlapMinutes]),
+    [['update', 60, null], ['unchanged', 90, null], ['overlap', null, 30], ['new', null, null], ['error', null, null]],
+  );
+});
+
+test('manual adapter: additive source over the given rows', async () => {
+  const [resolved] = await resolveManualRows([row(2)], directory);
+  const adapter = createManualAdapter([resolved.rollup!]);
+
+  assert.equal(adapter.id, 'manual');
+  assert.equal(adapter.workspaceId, 'manual');
+  assert.equal(adapter.syncType, 'manual_timesheets');
+  assert.equal(adapter.replacesRange, false);
+
+  const fetched = await adapter.fetchEntries({ startISO: '', endISO: '', startDate: '', endDate: '', isManual: true });
+  assert.equal(fetched.complete, true);
+  const { rows, userTotals } = adapter.normalize(fetched.entries);
+  assert.equal(rows.length, 1);
+  assert.deepEqual(userTotals, { 'cf-dana': { minutes: 90, name: 'Dana Petrova' } });
+});
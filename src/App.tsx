@@ -1,11 +1,13 @@
 import { lazy, Suspense, useState } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { DateFilterProvider } from './contexts/DateFilterContext';
+import { PermissionsProvider, usePermissions } from './contexts/PermissionsContext';
 import { MainHeader, type NavRoute } from './components/MainHeader';
 import { Footer } from './components/Footer';
 import { Dashboard } from './components/Dashboard';
 import { Spinner } from './components/Spinner';
 import { useSyncAlerts } from './hooks/useSyncAlerts';
+import { useOverdueReceivables } from './hooks/useOverdueReceivables';
 import { HolidaysPage } from './components/pages/HolidaysPage';
 import { EmployeesPage } from './components/pages/EmployeesPage';
 import { EmployeeManagementPage } from './components/pages/EmployeeManagementPage';
@@ -16,22 +18,29 @@ import { CompaniesPage } from './components/pages/CompaniesPage';
 import { RevenuePage } from './components/pages/RevenuePage';
 import { BillingsPage } from './components/pages/BillingsPage';
 import { EOMReportsPage } from './components/pages/EOMReportsPage';
+import { CompanyPnlPage } from './components/pages/CompanyPnlPage';
+import { ReceivablesPage } from './components/pages/ReceivablesPage';
 import { UsersPage } from './components/pages/UsersPage';
 import { ApiKeysPage } from './components/pages/ApiKeysPage';
+import { WebhooksPage } from './components/pages/WebhooksPage';
 import { DiagnosticsPage } from './components/pages/DiagnosticsPage';
+import { AuditPage } from './components/pages/AuditPage';
 import { FormulasPage } from './components/pages/FormulasPage';
 import { InvestorDashboardPage } from './components/pages/InvestorDashboardPage';
 import { LegalPage } from './components/pages/LegalPage';
 import { ReleaseNotesPage } from './components/pages/ReleaseNotesPage';
 import { ReleaseNotesAdminPage } from './components/pages/ReleaseNotesAdminPage';
 import { BurnPage } from './components/pages/BurnPage';
+import { CapacityPlanningPage } from './components/pages/CapacityPlanningPage';
+import { TimesheetApprovalsPage } from './components/pages/TimesheetApprovalsPage';
 import { LoginPage } from './components/pages/LoginPage';
 import { ForgotPasswordPage } from './components/pages/ForgotPasswordPage';
 import { ResetPasswordPage } from './components/pages/ResetPasswordPage';
 import { StyleReviewPage } from './design-system/style-review/StyleReviewPage';
 
-// Lazy-loaded so the SheetJS-backed upload path stays out of the main bundle.
+// Lazy-loaded so the SheetJS-backed upload paths stay out of the main bundle.
 const ExpensesPage = lazy(() => import('./components/pages/ExpensesPage'));
+const TimesheetImportPage = lazy(() => import('./components/pages/TimesheetImportPage'));
 
 type AuthView = 'login' | 'forgot-password' | 'reset-password';
 
@@ -55,6 +64,12 @@ function AuthenticatedApp() {
   const [activeRoute, setActiveRoute] = useState<NavRoute>('home');
   const [styleReviewState, setStyleReviewState] = useState(getInitialStyleReviewState);
   const { alerts: syncAlerts, activeCount: syncAlertCount, dismissAlert: dismissSyncAlert, loading: syncAlertsLoading } = useSyncAlerts();
+  const { overdueCompanies } = useOverdueReceivables();
+  const { canAccess, defaultRoute } = usePermissions();
+
+  // Routes the role cannot open (e.g. after a role change) fall back to its landing page
+  const route = canAccess(activeRoute) ? activeRoute : defaultRoute;
+  const visibleOverdueCompanies = canAccess('receivables') ? overdueCompanies : [];
 
   const handleOpenDocs = (section: DocsSection) => {
     setStyleReviewState({ show: true, section });
@@ -74,15 +89,27 @@ function AuthenticatedApp() {
   }
 
   const renderPage = () => {
-    switch (activeRoute) {
+    switch (route) {
       case 'home':
-        return <Dashboard syncAlerts={syncAlerts} syncAlertsLoading={syncAlertsLoading} onDismissAlert={dismissSyncAlert} />;
+        return (
+          <Dashboard
+            syncAlerts={syncAlerts}
+            syncAlertsLoading={syncAlertsLoading}
+            onDismissAlert={dismissSyncAlert}
+            overdueCompanies={visibleOverdueCompanies}
+            onViewReceivables={() => setActiveRoute('receivables')}
+          />
+        );
       case 'holidays':
         return <HolidaysPage />;
       case 'employees':
         return <EmployeesPage />;
       case 'burn':
         return <BurnPage />;
+      case 'capacity':
+        return <CapacityPlanningPage />;
+      case 'approvals':
+        return <TimesheetApprovalsPage />;
       case 'projects':
         return <ProjectsPage />;
       case 'companies':
@@ -106,18 +133,39 @@ function AuthenticatedApp() {
             <ExpensesPage />
           </Suspense>
         );
+      case 'pnl':
+        return <CompanyPnlPage />;
       case 'eom-reports':
         return <EOMReportsPage />;
+      case 'receivables':
+        return <ReceivablesPage />;
       case 'users':
         return <UsersPage />;
       case 'api-keys':
         return <ApiKeysPage />;
+      case 'webhooks':
+        return <WebhooksPage />;
       case 'employee-management':
         return <EmployeeManagementPage />;
       case 'project-management':
         return <ProjectManagementPage />;
       case 'diagnostics':
         return <DiagnosticsPage />;
+      case 'audit':
+        return <AuditPage />;
+      case 'timesheet-import':
+        return (
+          <Suspense
+            fallback={
+              <div className="max-w-7xl mx-auto px-6 py-8 flex items-center justify-center">
+                <Spinner size="md" />
+                <span className="ml-3 text-xs text-vercel-gray-400">Loading timesheet import...</span>
+              </div>
+            }
+          >
+            <TimesheetImportPage />
+          </Suspense>
+        );
       case 'formulas':
         return <FormulasPage />;
       case 'investor-dashboard':
@@ -129,7 +177,15 @@ function AuthenticatedApp() {
       case 'release-notes-admin':
         return <ReleaseNotesAdminPage />;
       default:
-        return <Dashboard syncAlerts={syncAlerts} syncAlertsLoading={syncAlertsLoading} onDismissAlert={dismissSyncAlert} />;
+        return (
+          <Dashboard
+            syncAlerts={syncAlerts}
+            syncAlertsLoading={syncAlertsLoading}
+            onDismissAlert={dismissSyncAlert}
+            overdueCompanies={visibleOverdueCompanies}
+            onViewReceivables={() => setActiveRoute('receivables')}
+          />
+        );
     }
   };
 
@@ -137,7 +193,7 @@ function AuthenticatedApp() {
     <DateFilterProvider>
       <div className="min-h-screen bg-vercel-gray-50 flex flex-col">
         <MainHeader
-          activeRoute={activeRoute}
+          activeRoute={route}
           onRouteChange={setActiveRoute}
           onOpenDocs={handleOpenDocs}
           alertCount={syncAlertCount}
@@ -217,7 +273,11 @@ function AppContent() {
     return <UnauthenticatedApp />;
   }
 
-  return <AuthenticatedApp />;
+  return (
+    <PermissionsProvider>
+      <AuthenticatedApp />
+    </PermissionsProvider>
+  );
 }
 
 function App() {
@@ -0,0 +1,189 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Input } from './Input';
+import { DatePicker } from './DatePicker';
+import { Spinner } from './Spinner';
+import { formatMoney } from '../utils/billingCurrency';
+import type { ARInvoice } from '../types';
+import type { RecordPaymentInput } from '../hooks/useReceivables';
+
+interface ARPaymentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  invoice: ARInvoice | null;
+  onSave: (input: RecordPaymentInput) => Promise<boolean>;
+  isSaving: boolean;
+  apiError?: string | null;
+  onClearApiError?: () => void;
+}
+
+interface FormData {
+  amount: string;
+  paidOn: string;
+  reference: string;
+  note: string;
+}
+
+type FormErrors = Partial<Record<keyof FormData, string>>;
+
+function toFormData(invoice: ARInvoice | null): FormData {
+  return {
+    amount: invoice ? (invoice.balance_cents / 100).toFixed(2) : '',
+    paidOn: format(new Date(), 'yyyy-MM-dd'),
+    reference: '',
+    note: '',
+  };
+}
+
+/**
+ * Record a manual payment against a non-QBO receivable. Amount defaults to the
+ * open balance; partial payments leave the invoice in 'partial' status.
+ */
+export function ARPaymentModal({
+  isOpen,
+  onClose,
+  invoice,
+  onSave,
+  isSaving,
+  apiError,
+  onClearApiError,
+}: ARPaymentModalProps) {
+  const [formData, setFormData] = useState<FormData>(() => toFormData(invoice));
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [lastResetKey, setLastResetKey] = useState<string>('');
+
+  // Reset form when modal opens (React-recommended pattern, mirrors ApiKeyEditorModal)
+  const resetKey = `${isOpen}-${invoice?.id ?? 'none'}`;
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setFormData(toFormData(invoice));
+    setErrors({});
+    onClearApiError?.();
+  }
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+    const cents = Math.round(Number(formData.amount) * 100);
+    if (!Number.isFinite(cents) || cents <= 0) {
+      newErrors.amount = 'Enter an amount greater than zero';
+    } else if (invoice && cents > invoice.balance_cents) {
+      newErrors.amount = `Cannot exceed the open balance of ${formatMoney(invoice.balance_cents / 100, invoice.currency)}`;
+    }
+    if (!formData.paidOn) {
+      newErrors.paidOn = 'Payment date is required';
+    } else if (formData.paidOn > format(new Date(), 'yyyy-MM-dd')) {
+      newErrors.paidOn = 'Payment date cannot be in the future';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!invoice || !validateForm()) return;
+
+    const success = await onSave({
+      arInvoiceId: invoice.id,
+      amountCents: Math.round(Number(formData.amount) * 100),
+      paidOn: formData.paidOn,
+      reference: formData.reference.trim() || undefined,
+      note: formData.note.trim() || undefined,
+    });
+    if (success) onClose();
+  };
+
+  const handleInputChange = (field: keyof FormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+    onClearApiError?.();
+  };
+
+  const footerContent = (
+    <>
+      <Button type="button" variant="secondary" onClick={onClose}>
+        Cancel
+      </Button>
+      <Button
+        type="button"
+        variant="primary"
+        onClick={() => handleSubmit()}
+        disabled={isSaving || !invoice}
+      >
+        {isSaving ? (
+          <span className="flex items-center gap-2">
+            <Spinner size="sm" color="white" />
+            Saving...
+          </span>
+        ) : (
+          'Record Payment'
+        )}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Record Payment"
+      maxWidth="md"
+      footer={footerContent}
+    >
+      <form onSubmit={handleSubmit} className="space-y-5">
+        {invoice && (
+          <p className="text-sm text-vercel-gray-400">
+            {invoice.company_name} · {invoice.invoice_number ?? 'No number'} · open balance{' '}
+            <span className="font-mono text-vercel-gray-600">{formatMoney(invoice.balance_cents / 100, invoice.currency)}</span>
+          </p>
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label={`Amount (${invoice?.currency ?? 'USD'})`}
+            type="number"
+            min={0}
+            step="0.01"
+            value={formData.amount}
+            onChange={(e) => handleInputChange('amount', e.target.value)}
+            error={errors.amount}
+            required
+          />
+          <div>
+            <label className="block text-sm font-medium text-vercel-gray-600 mb-1">
+              Paid on
+            </label>
+            <DatePicker
+              value={formData.paidOn}
+              onChange={(date) => handleInputChange('paidOn', date)}
+              error={!!errors.paidOn}
+            />
+            {errors.paidOn && (
+              <p className="mt-1 text-xs text-error" role="alert">{errors.paidOn}</p>
+            )}
+          </div>
+        </div>
+
+        <Input
+          label="Reference"
+          value={formData.reference}
+          onChange={(e) => handleInputChange('reference', e.target.value)}
+          placeholder="e.g. bank transfer ID"
+        />
+
+        <Input
+          label="Note"
+          value={formData.note}
+          onChange={(e) => handleInputChange('note', e.target.value)}
+        />
+
+        {apiError && (
+          <div className="p-3 bg-error-light border border-error rounded-md">
+            <p className="text-sm text-error">{apiError}</p>
+          </div>
+        )}
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState } from 'react';
+import { addWeeks, format, parseISO } from 'date-fns';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Select } from './Select';
+import { Spinner } from './Spinner';
+import { DatePicker } from './DatePicker';
+import { weekStartOf } from '../utils/capacityPlan';
+import type { AllocationFormData } from '../types';
+
+/** Cell being edited; projectId / resourceId are empty for a new allocation */
+export interface AllocationTarget {
+  resourceId: string;
+  projectId: string;
+  weekStart: string;
+  /** Hours currently planned in the cell (0 when none) */
+  plannedHours: number;
+}
+
+interface AllocationEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  target: AllocationTarget | null;
+  resourceOptions: { value: string; label: string }[];
+  projectOptions: { value: string; label: string }[];
+  onSave: (data: AllocationFormData) => Promise<boolean>;
+  onRemove: (resourceId: string, projectId: string, weekStarts: string[]) => Promise<boolean>;
+  isSaving: boolean;
+  apiError?: string | null;
+  onClearApiError?: () => void;
+}
+
+interface FormData {
+  resourceId: string;
+  projectId: string;
+  firstWeek: string;
+  weekCount: string;
+  hours: string;
+  notes: string;
+}
+
+type FormErrors = Partial<Record<'resourceId' | 'projectId' | 'firstWeek' | 'weekCount' | 'hours', string>>;
+
+const MAX_WEEKS = 26;
+
+function toFormData(target: AllocationTarget | null): FormData {
+  return {
+    resourceId: target?.resourceId ?? '',
+    projectId: target?.projectId ?? '',
+    firstWeek: target?.weekStart ?? weekStartOf(new Date()),
+    weekCount: '1',
+    hours: target && target.plannedHours > 0 ? String(target.plannedHours) : '',
+    notes: '',
+  };
+}
+
+/**
+ * Plan a resource's hours on a project: the same hours per week over one or
+ * more consecutive weeks. Saving replaces whatever was planned in those
+ * weeks; Remove clears them.
+ */
+export function AllocationEditorModal({
+  isOpen,
+  onClose,
+  target,
+  resourceOptions,
+  projectOptions,
+  onSave,
+  onRemove,
+  isSaving,
+  apiError,
+  onClearApiError,
+}: AllocationEditorModalProps) {
+  const [formData, setFormData] = useState<FormData>(() => toFormData(target));
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [lastResetKey, setLastResetKey] = useState<string>('');
+
+  const isEditing = !!target && target.plannedHours > 0;
+
+  // Reset form when modal opens (React-recommended pattern)
+  const resetKey = `${isOpen}-${target?.resourceId ?? ''}-${target?.projectId ?? ''}-${target?.weekStart ?? 'new'}`;
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setFormData(toFormData(target));
+    setErrors({});
+    onClearApiError?.();
+  }
+
+  const weekCount = Number(formData.weekCount);
+  const firstWeek = formData.firstWeek ? weekStartOf(parseISO(formData.firstWeek)) : '';
+
+  const selectedWeeks = (): string[] =>
+    Array.from({ length: weekCount }, (_, i) => format(addWeeks(parseISO(firstWeek), i), 'yyyy-MM-dd'));
+
+  const validateForm = (requireHours: boolean): boolean => {
+    const newErrors: FormErrors = {};
+    if (!formData.resourceId) {
+      newErrors.resourceId = 'Resource is required';
+    }
+    if (!formData.projectId) {
+      newErrors.projectId = 'Project is required';
+    }
+    if (!firstWeek) {
+      newErrors.firstWeek = 'First week is required';
+    }
+    if (!Number.isInteger(weekCount) || weekCount < 1 || weekCount > MAX_WEEKS) {
+      newErrors.weekCount = `Enter 1 to ${MAX_WEEKS} weeks`;
+    }
+    const hours = Number(formData.hours);
+    if (requireHours && (!formData.hours || !Number.isFinite(hours) || hours <= 0 || hours > 80)) {
+      newErrors.hours = 'Enter hours per week between 0 and 80';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!validateForm(true)) return;
+
+    const success = await onSave({
+      resource_id: formData.resourceId,
+      project_id: formData.projectId,
+      week_starts: selectedWeeks(),
+      planned_hours: Math.round(Number(formData.hours) * 100) / 100,
+      notes: formData.notes.trim() || null,
+    });
+    if (success) onClose();
+  };
+
+  const handleRemove = async () => {
+    if (!validateForm(false)) return;
+    const success = await onRemove(formData.resourceId, formData.projectId, selectedWeeks());
+    if (success) onClose();
+  };
+
+  const updateField = <K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+    onClearApiError?.();
+  };
+
+  const footerContent = (
+    <>
+      {isEditing && (
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={handleRemove}
+          disabled={isSaving}
+          className="mr-auto text-error hover:text-error-hover"
+        >
+          Remove
+        </Button>
+      )}
+      <Button type="button" variant="secondary" onClick={onClose}>
+        Cancel
+      </Button>
+      <Button
+        type="button"
+        variant="primary"
+        onClick={() => handleSubmit()}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <span className="flex items-center gap-2">
+            <Spinner size="sm" color="white" />
+            Saving...
+          </span>
+        ) : (
+          isEditing ? 'Save Changes' : 'Add Allocation'
+        )}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? 'Edit Allocation' : 'Add Allocation'}
+      maxWidth="md"
+      footer={footerContent}
+    >
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div>
+          <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+            Resource
+          </label>
+          <Select
+            value={formData.resourceId}
+            onChange={(value) => updateField('resourceId', value)}
+            options={resourceOptions}
+            placeholder="Select resource"
+            className="w-full"
+            disabled={!!target?.resourceId}
+          />
+          {errors.resourceId && (
+            <p className="mt-1 text-xs text-error" role="alert">{errors.resourceId}</p>
+          )}
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+            Project
+          </label>
+          <Select
+            value={formData.projectId}
+            onChange={(value) => updateField('projectId', value)}
+            options={projectOptions}
+            placeholder="Select project"
+            className="w-full"
+            disabled={!!target?.projectId}
+          />
+          {errors.projectId && (
+            <p className="mt-1 text-xs text-error" role="alert">{errors.projectId}</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+              First Week
+            </label>
+            <DatePicker
+              value={formData.firstWeek}
+              onChange={(date) => updateField('firstWeek', date)}
+              error={!!errors.firstWeek}
+            />
+            {firstWeek ? (
+              <p className="mt-1 text-xs text-vercel-gray-400">
+                Week of {format(parseISO(firstWeek), 'MMM d, yyyy')}
+              </p>
+            ) : errors.firstWeek && (
+              <p className="mt-1 text-xs text-error" role="alert">{errors.firstWeek}</p>
+            )}
+          </div>
+          <Input
+            label="Weeks"
+            type="number"
+            min={1}
+            max={MAX_WEEKS}
+            step="1"
+            value={formData.weekCount}
+            onChange={(e) => updateField('weekCount', e.target.value)}
+            error={errors.weekCount}
+            required
+          />
+        </div>
+
+        <Input
+          label="Hours per week"
+          type="number"
+          min={0}
+          max={80}
+          step="0.5"
+          value={formData.hours}
+          onChange={(e) => updateField('hours', e.target.value)}
+          error={errors.hours}
+          required
+        />
+
+        <Input
+          label="Notes"
+          value={formData.notes}
+          onChange={(e) => updateField('notes', e.target.value)}
+          placeholder="e.g. Phase 2 build"
+        />
+
+        {apiError && (
+          <div className="p-3 bg-error-light border border-error rounded-md">
+            <p className="text-sm text-error">{apiError}</p>
+          </div>
+        )}
+      </form>
+    </Modal>
+  );
+}
@@ -3,11 +3,40 @@ import { Modal } from './Modal';
 import { Button } from './Button';
 import { Input } from './Input';
 import { Spinner } from './Spinner';
-import type { CreateApiKeyParams } from '../types';
+import { Checkbox } from './Checkbox';
+import type { ApiKey, ApiKeyScope, CreateApiKeyParams } from '../types';
+
+/** MCP tool scopes an admin can grant, in display order (migration 148). */
+const SCOPE_OPTIONS: { scope: ApiKeyScope; label: string; description: string }[] = [
+  {
+    scope: 'hours:read',
+    label: 'Hours (read)',
+    description: 'Employees, projects, companies, hours and approved time off.',
+  },
+  {
+    scope: 'finance:read',
+    label: 'Revenue (read)',
+    description: 'Billed revenue per company and month. No rates or costs.',
+  },
+  {
+    scope: 'timesheets:write',
+    label: 'Timesheets (write)',
+    description: 'Log manual time entries. Closed billing months are refused.',
+  },
+  {
+    scope: 'time_off:write',
+    label: 'Time-off notes (write)',
+    description: 'Add time-off notes. Approved time off still comes from BambooHR.',
+  },
+];
+
+const WRITE_SCOPES: ApiKeyScope[] = ['timesheets:write', 'time_off:write'];
 
 interface ApiKeyEditorModalProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Existing key to edit scopes for; omit to create a new key */
+  apiKey?: ApiKey | null;
   onSave: (params: CreateApiKeyParams) => Promise<void>;
   isSaving: boolean;
   apiError?: string | null;
@@ -17,36 +46,46 @@ interface ApiKeyEditorModalProps {
 interface FormData {
   name: string;
   description: string;
+  scopes: ApiKeyScope[];
 }
 
-const EMPTY_FORM: FormData = { name: '', description: '' };
+const EMPTY_FORM: FormData = { name: '', description: '', scopes: ['hours:read'] };
 
 export function ApiKeyEditorModal({
   isOpen,
   onClose,
+  apiKey,
   onSave,
   isSaving,
   apiError,
   onClearApiError,
 }: ApiKeyEditorModalProps) {
   const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
-  const [errors, setErrors] = useState<{ name?: string }>({});
+  const [errors, setErrors] = useState<{ name?: string; scopes?: string }>({});
   const [lastResetKey, setLastResetKey] = useState<string>('');
+  const isEditing = !!apiKey;
 
   // Reset form when modal opens (React-recommended pattern, mirrors UserEditorModal)
-  const resetKey = `new-${isOpen}`;
+  const resetKey = `${apiKey?.id ?? 'new'}-${isOpen}`;
   if (resetKey !== lastResetKey) {
     setLastResetKey(resetKey);
-    setFormData(EMPTY_FORM);
+    setFormData(
+      apiKey
+        ? { name: apiKey.name, description: apiKey.description ?? '', scopes: apiKey.scopes ?? ['hours:read'] }
+        : EMPTY_FORM
+    );
     setErrors({});
     onClearApiError?.();
   }
 
   const validateForm = (): boolean => {
-    const newErrors: { name?: string } = {};
+    const newErrors: { name?: string; scopes?: string } = {};
     if (!formData.name.trim()) {
       newErrors.name = 'Name is required';
     }
+    if (formData.scopes.length === 0) {
+      newErrors.scopes = 'Select at least one scope';
+    }
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -59,6 +98,7 @@ export function ApiKeyEditorModal({
       await onSave({
         name: formData.name.trim(),
         description: formData.description.trim() || null,
+        scopes: SCOPE_OPTIONS.map((o) => o.scope).filter((scope) => formData.scopes.includes(scope)),
       });
       onClose();
     } catch {
@@ -66,7 +106,18 @@ export function ApiKeyEditorModal({
     }
   };
 
-  const handleInputChange = (field: keyof FormData, value: string) => {
+  const handleScopeChange = (scope: ApiKeyScope, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      scopes: checked ? [...prev.scopes, scope] : prev.scopes.filter((s) => s !== scope),
+    }));
+    setErrors((prev) => ({ ...prev, scopes: undefined }));
+    onClearApiError?.();
+  };
+
+  const grantsWrite = formData.scopes.some((scope) => WRITE_SCOPES.includes(scope));
+
+  const handleInputChange = (field: 'name' | 'description', value: string) => {
     setFormData((prev) => ({ ...prev, [field]: value }));
     if (field === 'name') {
       setErrors((prev) => ({ ...prev, name: undefined }));
@@ -88,8 +139,10 @@ export function ApiKeyEditorModal({
         {isSaving ? (
           <span className="flex items-center gap-2">
             <Spinner size="sm" color="white" />
-            Creating...
+            {isEditing ? 'Saving...' : 'Creating...'}
           </span>
+        ) : isEditing ? (
+          'Save Scopes'
         ) : (
           'Create Key'
         )}
@@ -101,7 +154,7 @@ export function ApiKeyEditorModal({
     <Modal
       isOpen={isOpen}
       onClose={onClose}
-      title="Create API Key"
+      title={isEditing ? 'Edit API Key Scopes' : 'Create API Key'}
       maxWidth="md"
       footer={footerContent}
     >
@@ -113,6 +166,7 @@ export function ApiKeyEditorModal({
           onChange={(e) => handleInputChange('name', e.target.value)}
           placeholder="e.g. Butler – production"
           error={errors.name}
+          disabled={isEditing}
           required
         />
 
@@ -129,10 +183,33 @@ export function ApiKeyEditorModal({
             onChange={(e) => handleInputChange('description', e.target.value)}
             placeholder="What is this key used for? (optional)"
             rows={3}
+            disabled={isEditing}
             className="w-full !bg-white rounded-md border border-vercel-gray-200 focus:border-vercel-gray-400 focus:ring-1 focus:ring-vercel-gray-400 focus:outline-none transition-colors text-sm text-vercel-gray-600 placeholder:text-vercel-gray-200 px-3 py-2 resize-none"
           />
         </div>
 
+        <div>
+          <span className="block text-sm font-medium text-vercel-gray-600 mb-2">Scopes</span>
+          <div className="space-y-3">
+            {SCOPE_OPTIONS.map((option) => (
+              <Checkbox
+                key={option.scope}
+                label={option.label}
+                description={option.description}
+                checked={formData.scopes.includes(option.scope)}
+                onChange={(checked) => handleScopeChange(option.scope, checked)}
+                disabled={isSaving}
+              />
+            ))}
+          </div>
+          {errors.scopes && <p className="mt-2 text-xs text-error">{errors.scopes}</p>}
+          {grantsWrite && (
+            <p className="mt-3 text-xs text-vercel-gray-400">
+              Write scopes let this key change data. Every write is recorded with the key that made it.
+            </p>
+          )}
+        </div>
+
         {apiError && (
           <div className="p-3 bg-error-light border border-error rounded-md">
             <p className="text-sm text-error">{apiError}</p>
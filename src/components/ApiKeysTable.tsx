@@ -8,6 +8,7 @@ interface ApiKeysTableProps {
   apiKeys: ApiKey[];
   loading: boolean;
   onRevoke: (apiKey: ApiKey) => void;
+  onEditScopes: (apiKey: ApiKey) => void;
 }
 
 function formatDate(value: string | null): string {
@@ -20,7 +21,7 @@ function formatDateTime(value: string | null): string {
   return format(new Date(value), 'MMM d, yyyy h:mm a');
 }
 
-export function ApiKeysTable({ apiKeys, loading, onRevoke }: ApiKeysTableProps) {
+export function ApiKeysTable({ apiKeys, loading, onRevoke, onEditScopes }: ApiKeysTableProps) {
   if (loading) {
     return (
       <div className="bg-white rounded-lg border border-vercel-gray-100">
@@ -72,6 +73,9 @@ export function ApiKeysTable({ apiKeys, loading, onRevoke }: ApiKeysTableProps)
               <th className="px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
                 Prefix
               </th>
+              <th className="px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
+                Scopes
+              </th>
               <th className="px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
                 Last Used
               </th>
@@ -111,6 +115,19 @@ export function ApiKeysTable({ apiKeys, loading, onRevoke }: ApiKeysTableProps)
                       {apiKey.prefix}…
                     </code>
                   </td>
+                  <td className="px-4 py-3">
+                    <div className="flex flex-wrap gap-1">
+                      {(apiKey.scopes ?? ['hours:read']).map((scope) => (
+                        <Badge
+                          key={scope}
+                          variant={scope.endsWith(':write') ? 'warning' : 'default'}
+                          size="sm"
+                        >
+                          {scope}
+                        </Badge>
+                      ))}
+                    </div>
+                  </td>
                   <td className="px-4 py-3">
                     <span className="text-sm text-vercel-gray-400">
                       {formatDateTime(apiKey.last_used_at)}
@@ -129,7 +146,12 @@ export function ApiKeysTable({ apiKeys, loading, onRevoke }: ApiKeysTableProps)
                     )}
                   </td>
                   <td className="px-4 py-3 text-right">
-                    <div className="flex justify-end">
+                    <div className="flex justify-end gap-1">
+                      {!isRevoked && (
+                        <Button variant="ghost" size="sm" onClick={() => onEditScopes(apiKey)}>
+                          Scopes
+                        </Button>
+                      )}
                       {!isRevoked && (
                         <Button
                           variant="ghost"
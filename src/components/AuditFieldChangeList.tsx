@@ -0,0 +1,43 @@
+import { auditFieldChanges } from '../utils/auditTrail';
+import type { AuditLogEntry } from '../types';
+
+interface AuditFieldChangeListProps {
+  entry: AuditLogEntry;
+}
+
+/**
+ * AuditFieldChangeList - Before / after values of one audit entry
+ *
+ * Changed columns for an update; every non-empty column of the added or
+ * removed row otherwise.
+ */
+export function AuditFieldChangeList({ entry }: AuditFieldChangeListProps) {
+  const changes = auditFieldChanges(entry);
+
+  if (changes.length === 0) {
+    return <p className="text-xs text-vercel-gray-300 italic">No field details recorded</p>;
+  }
+
+  return (
+    <dl className="grid grid-cols-[minmax(0,10rem)_1fr] gap-x-4 gap-y-1 text-xs">
+      {changes.map((change) => (
+        <div key={change.field} className="contents">
+          <dt className="text-vercel-gray-400 truncate">{change.label}</dt>
+          <dd className="min-w-0 font-mono text-vercel-gray-600 break-words">
+            {entry.action === 'UPDATE' ? (
+              <>
+                <span className="text-vercel-gray-300 line-through">{change.before}</span>
+                <span className="mx-1.5 text-vercel-gray-300">→</span>
+                <span>{change.after}</span>
+              </>
+            ) : entry.action === 'INSERT' ? (
+              change.after
+            ) : (
+              <span className="text-vercel-gray-300">{change.before}</span>
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
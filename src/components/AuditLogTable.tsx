@@ -0,0 +1,126 @@
+import { Fragment, useState } from 'react';
+import { format } from 'date-fns';
+import { Spinner } from './Spinner';
+import { Badge } from './Badge';
+import { AuditFieldChangeList } from './AuditFieldChangeList';
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_ACTION_VARIANTS,
+  AUDIT_ENTITY_LABELS,
+  auditRecordLabel,
+  auditSummary,
+} from '../utils/auditTrail';
+import type { AuditLogEntry } from '../types';
+
+interface AuditLogTableProps {
+  entries: AuditLogEntry[];
+  loading: boolean;
+}
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+/**
+ * AuditLogTable - Audit page change list; a row expands to its before / after values
+ */
+export function AuditLogTable({ entries, loading }: AuditLogTableProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <div className="inline-flex items-center gap-2 text-vercel-gray-400">
+            <Spinner size="md" />
+            <span className="text-sm">Loading audit trail...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <p className="text-sm text-vercel-gray-400">No changes match these filters</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+              <th className={TH_CLASS}>When</th>
+              <th className={TH_CLASS}>User</th>
+              <th className={TH_CLASS}>Entity</th>
+              <th className={TH_CLASS}>Change</th>
+              <th className={TH_CLASS}>Record</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-vercel-gray-100">
+            {entries.map((entry) => {
+              const isExpanded = expandedId === entry.id;
+              return (
+                <Fragment key={entry.id}>
+                  <tr
+                    onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                    aria-expanded={isExpanded}
+                    className="cursor-pointer hover:bg-vercel-gray-50 transition-colors duration-200 ease-out"
+                  >
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <span className="text-sm text-vercel-gray-400">
+                        {format(new Date(entry.changed_at), 'MMM d, yyyy h:mm a')}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className="text-sm text-vercel-gray-600">{entry.changed_by_name ?? 'Unknown user'}</span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="text-sm text-vercel-gray-600">
+                        {entry.entity_label ?? AUDIT_ENTITY_LABELS[entry.entity_type]}
+                      </div>
+                      {entry.entity_label && (
+                        <div className="text-xs text-vercel-gray-400 mt-0.5">
+                          {AUDIT_ENTITY_LABELS[entry.entity_type]}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <Badge variant={AUDIT_ACTION_VARIANTS[entry.action]} size="sm">
+                          {AUDIT_ACTION_LABELS[entry.action]}
+                        </Badge>
+                        <span className="text-sm text-vercel-gray-600">{auditSummary(entry)}</span>
+                      </div>
+                      {entry.action === 'UPDATE' && entry.changed_fields && (
+                        <div className="text-xs text-vercel-gray-400 mt-0.5 truncate max-w-xs">
+                          {entry.changed_fields.join(', ')}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 max-w-xs">
+                      <span className="text-sm text-vercel-gray-400 truncate block">
+                        {auditRecordLabel(entry) ?? '—'}
+                      </span>
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="bg-vercel-gray-50">
+                      <td colSpan={5} className="px-4 py-3">
+                        <AuditFieldChangeList entry={entry} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
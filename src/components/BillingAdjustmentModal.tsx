@@ -0,0 +1,218 @@
+import { useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Select } from './Select';
+import { Spinner } from './Spinner';
+import { parseAdjustmentValue, signedAdjustmentValue, type AdjustmentDirection } from '../utils/billingAdjustments';
+import type { BillingAdjustmentFormData, BillingAdjustmentType } from '../types';
+
+interface BillingAdjustmentModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** 'YYYY-MM-01' of the month being adjusted */
+  month: string;
+  /** e.g. "March 2026" */
+  monthLabel: string;
+  /** External project id -> "Company · Project" */
+  projectOptions: { value: string; label: string }[];
+  onSave: (data: BillingAdjustmentFormData) => Promise<boolean>;
+  isSaving: boolean;
+  apiError?: string | null;
+  onClearApiError?: () => void;
+}
+
+interface FormData {
+  externalProjectId: string;
+  adjustmentType: BillingAdjustmentType;
+  direction: AdjustmentDirection;
+  value: string;
+  reason: string;
+}
+
+type FormErrors = Partial<Record<'externalProjectId' | 'value' | 'reason', string>>;
+
+const TYPE_OPTIONS = [
+  { value: 'hours', label: 'Hours (billed at the project rate)' },
+  { value: 'amount', label: 'Amount' },
+];
+
+const DIRECTION_OPTIONS = [
+  { value: 'down', label: 'Write down' },
+  { value: 'up', label: 'Write up' },
+];
+
+const EMPTY_FORM: FormData = {
+  externalProjectId: '',
+  adjustmentType: 'hours',
+  direction: 'down',
+  value: '',
+  reason: '',
+};
+
+/**
+ * Write a project's month down (e.g. courtesy hours off) or up (a premium).
+ * The adjustment is applied after minimum/maximum limits and appears on the
+ * revenue page, EOM reports and invoices with its reason.
+ */
+export function BillingAdjustmentModal({
+  isOpen,
+  onClose,
+  month,
+  monthLabel,
+  projectOptions,
+  onSave,
+  isSaving,
+  apiError,
+  onClearApiError,
+}: BillingAdjustmentModalProps) {
+  const [formData, setFormData] = useState<FormData>(EMPTY_FORM);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [lastResetKey, setLastResetKey] = useState<string>('');
+
+  const isHours = formData.adjustmentType === 'hours';
+
+  // Reset form when modal opens (React-recommended pattern)
+  const resetKey = `${isOpen}-${month}`;
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setFormData(EMPTY_FORM);
+    setErrors({});
+    onClearApiError?.();
+  }
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+
+    const newErrors: FormErrors = {};
+    const value = parseAdjustmentValue(formData.value);
+    if (!formData.externalProjectId) {
+      newErrors.externalProjectId = 'Project is required';
+    }
+    if (value === null) {
+      newErrors.value = isHours ? 'Enter hours greater than 0' : 'Enter an amount greater than 0';
+    }
+    if (!formData.reason.trim()) {
+      newErrors.reason = 'Reason is required';
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0 || value === null) return;
+
+    const success = await onSave({
+      externalProjectId: formData.externalProjectId,
+      month,
+      adjustmentType: formData.adjustmentType,
+      value: signedAdjustmentValue(value, formData.direction),
+      reason: formData.reason.trim(),
+    });
+    if (success) onClose();
+  };
+
+  const updateField = <K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+    onClearApiError?.();
+  };
+
+  const footerContent = (
+    <>
+      <Button type="button" variant="secondary" onClick={onClose}>
+        Cancel
+      </Button>
+      <Button
+        type="button"
+        variant="primary"
+        onClick={() => handleSubmit()}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <span className="flex items-center gap-2">
+            <Spinner size="sm" color="white" />
+            Saving...
+          </span>
+        ) : (
+          'Add Adjustment'
+        )}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Billing Adjustment · ${monthLabel}`}
+      maxWidth="md"
+      footer={footerContent}
+    >
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div>
+          <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+            Project
+          </label>
+          <Select
+            value={formData.externalProjectId}
+            onChange={(value) => updateField('externalProjectId', value)}
+            options={projectOptions}
+            placeholder="Select project"
+            className="w-full"
+          />
+          {errors.externalProjectId && (
+            <p className="mt-1 text-xs text-error" role="alert">{errors.externalProjectId}</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+              Direction
+            </label>
+            <Select
+              value={formData.direction}
+              onChange={(value) => updateField('direction', value as AdjustmentDirection)}
+              options={DIRECTION_OPTIONS}
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+              Adjust by
+            </label>
+            <Select
+              value={formData.adjustmentType}
+              onChange={(value) => updateField('adjustmentType', value as BillingAdjustmentType)}
+              options={TYPE_OPTIONS}
+              className="w-full"
+            />
+          </div>
+        </div>
+
+        <Input
+          label={isHours ? 'Hours' : 'Amount ($)'}
+          type="number"
+          min={0}
+          step={isHours ? '0.25' : '0.01'}
+          value={formData.value}
+          onChange={(e) => updateField('value', e.target.value)}
+          error={errors.value}
+          required
+        />
+
+        <Input
+          label="Reason"
+          value={formData.reason}
+          onChange={(e) => updateField('reason', e.target.value)}
+          placeholder={formData.direction === 'down' ? 'e.g. Courtesy 5h off for onboarding' : 'e.g. Weekend release premium'}
+          error={errors.reason}
+          required
+        />
+
+        {apiError && (
+          <div className="p-3 bg-error-light border border-error rounded-md">
+            <p className="text-sm text-error">{apiError}</p>
+          </div>
+        )}
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,101 @@
+import { format, parseISO } from 'date-fns';
+import { Spinner } from './Spinner';
+import { Badge } from './Badge';
+import { DropdownMenu } from './DropdownMenu';
+import { formatAdjustmentValue } from '../utils/billingAdjustments';
+import type { BillingAdjustmentRow } from '../types';
+
+interface BillingAdjustmentsTableProps {
+  adjustments: BillingAdjustmentRow[];
+  loading: boolean;
+  onRemove: (adjustment: BillingAdjustmentRow) => void;
+}
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+const TH_RIGHT_CLASS = 'px-4 py-3 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+function isWriteDown(adjustment: BillingAdjustmentRow): boolean {
+  return adjustment.adjustment_type === 'hours'
+    ? Number(adjustment.hours ?? 0) < 0
+    : Number(adjustment.amount_cents ?? 0) < 0;
+}
+
+/**
+ * Manual write-downs and write-ups of the month, with who added them and
+ * why. Rows the viewer may change can be removed from their menu.
+ */
+export function BillingAdjustmentsTable({ adjustments, loading, onRemove }: BillingAdjustmentsTableProps) {
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <div className="inline-flex items-center gap-2 text-vercel-gray-400">
+            <Spinner size="md" />
+            <span className="text-sm">Loading adjustments...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (adjustments.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <p className="text-sm text-vercel-gray-400">No billing adjustments this month</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+              <th className={TH_CLASS}>Project</th>
+              <th className={TH_CLASS}>Type</th>
+              <th className={TH_RIGHT_CLASS}>Adjustment</th>
+              <th className={TH_CLASS}>Reason</th>
+              <th className={TH_CLASS}>Added by</th>
+              <th className="px-4 py-3 w-12" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-vercel-gray-100">
+            {adjustments.map((adjustment) => (
+              <tr key={adjustment.id} className="hover:bg-vercel-gray-50 transition-colors duration-200 ease-out">
+                <td className="px-4 py-3 whitespace-nowrap">
+                  <div className="text-sm font-medium text-vercel-gray-600">{adjustment.project_name}</div>
+                  <div className="text-xs text-vercel-gray-400">{adjustment.company_name ?? '—'}</div>
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  <Badge variant={isWriteDown(adjustment) ? 'warning' : 'info'}>
+                    {isWriteDown(adjustment) ? 'Write down' : 'Write up'}
+                  </Badge>
+                </td>
+                <td className="px-4 py-3 text-right whitespace-nowrap">
+                  <span className="text-sm font-mono text-vercel-gray-600">{formatAdjustmentValue(adjustment)}</span>
+                </td>
+                <td className="px-4 py-3">
+                  <span className="text-sm text-vercel-gray-400">{adjustment.reason}</span>
+                </td>
+                <td className="px-4 py-3 whitespace-nowrap">
+                  <div className="text-sm text-vercel-gray-600">{adjustment.created_by_email ?? 'Unknown'}</div>
+                  <div className="text-xs text-vercel-gray-400">{format(parseISO(adjustment.created_at), 'MMM d, yyyy')}</div>
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {adjustment.can_edit && (
+                    <DropdownMenu
+                      items={[{ label: 'Remove', onClick: () => onRemove(adjustment), variant: 'danger' }]}
+                    />
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
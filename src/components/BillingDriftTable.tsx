@@ -0,0 +1,91 @@
+import { Fragment } from 'react';
+import {
+  VERIFICATION_FIELD_LABELS,
+  formatSignedCents,
+  formatVerificationValue,
+  type DriftedProject,
+} from '../utils/billingVerification';
+
+interface BillingDriftTableProps {
+  projects: DriftedProject[];
+}
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+const TH_RIGHT_CLASS = 'px-4 py-3 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+function centsClass(cents: number | null): string {
+  if (cents === null || cents === 0) return 'text-vercel-gray-400';
+  return cents < 0 ? 'text-error' : 'text-success';
+}
+
+/**
+ * Projects whose billing differs from the month's snapshot: one header row
+ * per project with its effective revenue change, then one row per field with
+ * the snapshot and current values. Revenue fields show the change in cents
+ * as currency.
+ */
+export function BillingDriftTable({ projects }: BillingDriftTableProps) {
+  if (projects.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <p className="text-sm text-vercel-gray-400">Every project matches the snapshot</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+              <th className={TH_CLASS}>Project / Field</th>
+              <th className={TH_RIGHT_CLASS}>Snapshot</th>
+              <th className={TH_RIGHT_CLASS}>Current</th>
+              <th className={TH_RIGHT_CLASS}>Change</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-vercel-gray-100">
+            {projects.map((project) => (
+              <Fragment key={project.projectId}>
+                <tr className="bg-vercel-gray-50">
+                  <td className="px-4 py-3" colSpan={3}>
+                    <div className="text-sm font-medium text-vercel-gray-600">{project.projectName}</div>
+                    {project.companyName && (
+                      <div className="text-xs text-vercel-gray-400">{project.companyName}</div>
+                    )}
+                  </td>
+                  <td className={`px-4 py-3 text-right whitespace-nowrap text-sm font-mono font-medium ${centsClass(project.effectiveDiffCents)}`}>
+                    {formatSignedCents(project.effectiveDiffCents)}
+                  </td>
+                </tr>
+                {project.fields.map((field) => (
+                  <tr key={`${project.projectId}:${field.field_name}`}>
+                    <td className="px-4 py-2 pl-8 text-sm text-vercel-gray-600">
+                      {VERIFICATION_FIELD_LABELS[field.field_name] ?? field.field_name}
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap text-sm font-mono text-vercel-gray-400">
+                      {formatVerificationValue(field.field_name, field.snapshot_value)}
+                    </td>
+                    <td className="px-4 py-2 text-right whitespace-nowrap text-sm font-mono text-vercel-gray-600">
+                      {formatVerificationValue(field.field_name, field.current_value)}
+                    </td>
+                    <td className={`px-4 py-2 text-right whitespace-nowrap text-sm font-mono ${centsClass(field.diff_cents)}`}>
+                      {field.diff_cents !== null
+                        ? formatSignedCents(field.diff_cents)
+                        : field.difference !== null
+                          ? `${field.difference > 0 ? '+' : ''}${field.difference}`
+                          : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
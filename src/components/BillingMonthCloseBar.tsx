@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Badge } from './Badge';
+import { Button } from './Button';
+import { Alert } from './Alert';
+import { ReopenBillingMonthModal } from './ReopenBillingMonthModal';
+import { useBillingMonthStatus } from '../hooks/useBillingMonthStatus';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { formatMonthDisplay, isFutureMonth, getCurrentMonth } from '../hooks/useMonthlyRates';
+import { formatCurrency } from '../utils/billing';
+import type { MonthSelection } from '../types';
+
+interface BillingMonthCloseBarProps {
+  selectedMonth: MonthSelection;
+  /** Called after a successful close or reopen so the page can refetch figures */
+  onStatusChange?: () => void;
+}
+
+/**
+ * Month-close status strip for the Rates and Revenue pages.
+ * Shows whether the selected month is open/closed and lets an admin close it
+ * (freezing revenue) or reopen it with a reason.
+ */
+export function BillingMonthCloseBar({ selectedMonth, onStatusChange }: BillingMonthCloseBarProps) {
+  const {
+    monthStatus,
+    isClosed,
+    isLoading,
+    isOperating,
+    error,
+    closeMonth,
+    reopenMonth,
+  } = useBillingMonthStatus({ selectedMonth });
+  const { isAdmin } = usePermissions();
+  const [isReopenOpen, setIsReopenOpen] = useState(false);
+
+  const current = getCurrentMonth();
+  const isPastMonth = !isFutureMonth(selectedMonth)
+    && !(selectedMonth.year === current.year && selectedMonth.month === current.month);
+  const monthLabel = formatMonthDisplay(selectedMonth);
+
+  const handleClose = async () => {
+    if (await closeMonth()) {
+      onStatusChange?.();
+    }
+  };
+
+  const handleReopen = async (reason: string) => {
+    const success = await reopenMonth(reason);
+    if (success) {
+      setIsReopenOpen(false);
+      onStatusChange?.();
+    }
+    return success;
+  };
+
+  if (isLoading && !monthStatus) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between bg-white border border-vercel-gray-100 rounded-lg px-4 py-3">
+        <div className="flex items-center gap-3">
+          {isClosed ? (
+            <Badge variant="success" size="md">Closed</Badge>
+          ) : monthStatus?.status === 'reopened' ? (
+            <Badge variant="warning" size="md">Reopened</Badge>
+          ) : (
+            <Badge size="md">Open</Badge>
+          )}
+          <div className="text-sm text-vercel-gray-600">
+            {isClosed && monthStatus ? (
+              <>
+                Locked at <span className="font-medium">{formatCurrency(monthStatus.lockedRevenueCents / 100)}</span>
+                {monthStatus.closedAt && (
+                  <span className="text-vercel-gray-400">
+                    {' '}on {format(new Date(monthStatus.closedAt), 'MMM d, yyyy')}
+                    {monthStatus.closedByEmail && ` by ${monthStatus.closedByEmail}`}
+                  </span>
+                )}
+              </>
+            ) : monthStatus?.status === 'reopened' ? (
+              <span className="text-vercel-gray-400">
+                Reopened{monthStatus.reopenedByEmail && ` by ${monthStatus.reopenedByEmail}`}
+                {monthStatus.reopenReason && ` — ${monthStatus.reopenReason}`}
+              </span>
+            ) : (
+              <span className="text-vercel-gray-400">Figures for {monthLabel} may still change with syncs and rate edits.</span>
+            )}
+          </div>
+          {isClosed && monthStatus && monthStatus.pendingRecalcCount > 0 && (
+            <span className="text-xs text-vercel-gray-400">
+              {monthStatus.pendingRecalcCount} queued change{monthStatus.pendingRecalcCount === 1 ? '' : 's'} held until reopen
+            </span>
+          )}
+        </div>
+
+        {!isAdmin ? null : isClosed ? (
+          <Button variant="secondary" size="sm" onClick={() => setIsReopenOpen(true)} disabled={isOperating}>
+            Reopen Month
+          </Button>
+        ) : isPastMonth ? (
+          <Button variant="primary" size="sm" onClick={handleClose} disabled={isOperating}>
+            {isOperating ? 'Closing...' : 'Close Month'}
+          </Button>
+        ) : null}
+      </div>
+
+      {error && <Alert message={error} icon="error" variant="error" />}
+
+      <ReopenBillingMonthModal
+        isOpen={isReopenOpen}
+        onClose={() => setIsReopenOpen(false)}
+        monthLabel={monthLabel}
+        onConfirm={handleReopen}
+        isOperating={isOperating}
+      />
+    </div>
+  );
+}
@@ -4,13 +4,14 @@ import { RateEditModal } from './RateEditModal';
 import { DropdownMenu } from './DropdownMenu';
 import { Badge } from './Badge';
 import { useCanonicalCompanyMapping } from '../hooks/useCanonicalCompanyMapping';
+import { formatMoney, rateInBillingCurrency } from '../utils/billingCurrency';
 import type { AccordionFlatColumn, AccordionFlatRow, AccordionFlatGroup } from './AccordionFlat';
-import type { ProjectRateDisplayWithBilling, MonthSelection, RoundingIncrement, RoundingMode, ProjectBillingLimits } from '../types';
+import type { BillingCurrency, ProjectRateDisplayWithBilling, MonthSelection, RoundingIncrement, RoundingMode, ProjectBillingLimits } from '../types';
 
 interface BillingRatesTableProps {
   projectsWithRates: ProjectRateDisplayWithBilling[];
   selectedMonth: MonthSelection;
-  onUpdateRate: (projectId: string, month: MonthSelection, rate: number) => Promise<boolean>;
+  onUpdateRate: (projectId: string, month: MonthSelection, rate: number, currency?: BillingCurrency) => Promise<boolean>;
   onUpdateRounding: (projectId: string, month: MonthSelection, increment: RoundingIncrement, roundingMode?: RoundingMode) => Promise<boolean>;
   onUpdateBillingLimits: (projectId: string, month: MonthSelection, limits: Partial<ProjectBillingLimits>) => Promise<boolean>;
   onUpdateActiveStatus: (projectId: string, month: MonthSelection, isActive: boolean) => Promise<boolean>;
@@ -44,10 +45,10 @@ export function BillingRatesTable({
     setSelectedProject(null);
   };
 
-  const handleSaveRate = async (projectId: string, month: MonthSelection, rate: number) => {
+  const handleSaveRate = async (projectId: string, month: MonthSelection, rate: number, currency: BillingCurrency) => {
     setIsSaving(true);
     try {
-      const success = await onUpdateRate(projectId, month, rate);
+      const success = await onUpdateRate(projectId, month, rate, currency);
       if (success) {
         onRatesChange();
       }
@@ -179,7 +180,9 @@ export function BillingRatesTable({
           </Badge>
         )}
         <span className="text-sm text-vercel-gray-600">
-          ${project.effectiveRate.toFixed(2)}
+          {project.billingCurrency === 'USD'
+            ? `$${project.effectiveRate.toFixed(2)}`
+            : formatMoney(rateInBillingCurrency(project), project.billingCurrency)}
         </span>
       </div>
     );
@@ -0,0 +1,286 @@
+/**
+ * BillingValidationPanel - validate a raw Clockify / ClickUp export
+ *
+ * The admin drops in one or more JSON exports (parsed in the browser with
+ * parseRawSource — nothing is uploaded). For the chosen month every project
+ * in the export is recalculated from its raw entries with the config the
+ * monthly summary used, and compared with project_monthly_summary: minutes,
+ * rounding, limits and revenue. Expanding a project lists the entries that
+ * differ from timesheet_daily_rollups. The report downloads as CSV or JSON.
+ */
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { Button } from './Button';
+import { Spinner } from './Spinner';
+import { Alert } from './Alert';
+import { Select } from './Select';
+import { Checkbox } from './Checkbox';
+import { MetricCard } from './MetricCard';
+import { BillingValidationTable } from './BillingValidationTable';
+import { useBillingValidation } from '../hooks/useBillingValidation';
+import {
+  formatCurrencyDisplay,
+  getUniqueMonths,
+  parseRawSource,
+  validationReportToCSV,
+  type DiagnosticSource,
+  type NormalizedEntry,
+} from '../utils/diagnostics';
+import { downloadCSV } from '../utils/generateRevenueCSV';
+
+const ACCEPT_ATTR = '.json,.txt';
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const SOURCE_LABELS: Record<string, string> = {
+  clockify: 'Clockify',
+  clickup: 'ClickUp',
+};
+
+interface LoadedExport {
+  fileName: string;
+  source: DiagnosticSource;
+  entryCount: number;
+}
+
+function downloadJSON(value: unknown, filename: string): void {
+  const blob = new Blob([JSON.stringify(value, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  setTimeout(() => {
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, 100);
+}
+
+export function BillingValidationPanel() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [exports, setExports] = useState<LoadedExport[]>([]);
+  const [entries, setEntries] = useState<NormalizedEntry[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [selectedMonth, setSelectedMonth] = useState<string | null>(null);
+  const [issuesOnly, setIssuesOnly] = useState(false);
+
+  const monthOptions = useMemo(
+    () =>
+      getUniqueMonths(entries)
+        .reverse()
+        .map(({ year, month }) => ({
+          value: `${year}-${String(month).padStart(2, '0')}-01`,
+          label: `${MONTH_NAMES[month - 1]} ${year}`,
+        })),
+    [entries],
+  );
+
+  // Latest month in the export until another one is picked
+  const month = monthOptions.some((o) => o.value === selectedMonth)
+    ? selectedMonth
+    : monthOptions[0]?.value ?? null;
+
+  const { validate, isLoading, error, refetch } = useBillingValidation({ month });
+
+  const report = useMemo(() => (entries.length > 0 ? validate(entries) : null), [entries, validate]);
+
+  const visibleProjects = useMemo(() => {
+    if (!report) return [];
+    return issuesOnly ? report.projects.filter((p) => p.status !== 'pass') : report.projects;
+  }, [report, issuesOnly]);
+
+  const handleFiles = useCallback(async (files: File[]) => {
+    if (files.length === 0) return;
+    setParseError(null);
+    setIsParsing(true);
+
+    try {
+      const loaded: LoadedExport[] = [];
+      const parsed: NormalizedEntry[] = [];
+      for (const file of files) {
+        let fileEntries: NormalizedEntry[];
+        try {
+          fileEntries = parseRawSource(await file.text());
+        } catch (err) {
+          throw new Error(`${file.name}: ${err instanceof Error ? err.message : 'could not be read'}`);
+        }
+        if (fileEntries.length === 0) {
+          throw new Error(`${file.name}: no time entries found`);
+        }
+        loaded.push({ fileName: file.name, source: fileEntries[0].source, entryCount: fileEntries.length });
+        parsed.push(...fileEntries);
+      }
+
+      // Adding a file keeps what is already loaded; the same entry twice counts once
+      setExports((prev) => [...prev, ...loaded]);
+      setEntries((prev) => {
+        const seen = new Set(prev.map((e) => `${e.source}:${e.entryId}`));
+        const next = [...prev];
+        for (const entry of parsed) {
+          const key = `${entry.source}:${entry.entryId}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          next.push(entry);
+        }
+        return next;
+      });
+    } catch (err) {
+      console.error('BillingValidationPanel: parse failed', err);
+      setParseError(err instanceof Error ? err.message : 'Could not read this file.');
+    } finally {
+      setIsParsing(false);
+    }
+  }, []);
+
+  const handleFileSelect = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from(event.target.files ?? []);
+      // Allow re-selecting the same file on a later attempt.
+      event.target.value = '';
+      handleFiles(files);
+    },
+    [handleFiles],
+  );
+
+  const handleDrop = useCallback(
+    (event: React.DragEvent<HTMLDivElement>) => {
+      event.preventDefault();
+      setIsDragging(false);
+      handleFiles(Array.from(event.dataTransfer.files));
+    },
+    [handleFiles],
+  );
+
+  const handleClear = () => {
+    setExports([]);
+    setEntries([]);
+    setParseError(null);
+    setSelectedMonth(null);
+  };
+
+  const handleDownloadCSV = () => {
+    if (!report || !month) return;
+    downloadCSV(validationReportToCSV(report), `billing_validation_${month.slice(0, 7)}.csv`);
+  };
+
+  const handleDownloadJSON = () => {
+    if (!report || !month) return;
+    downloadJSON({ month, exports, ...report }, `billing_validation_${month.slice(0, 7)}.json`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ACCEPT_ATTR}
+        multiple
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+
+      {/* Drop zone */}
+      <div
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        className={`rounded-lg border-2 border-dashed p-8 text-center transition-colors ${
+          isDragging ? 'border-vercel-gray-400 bg-vercel-gray-50' : 'border-vercel-gray-200 bg-white'
+        }`}
+      >
+        <p className="text-sm text-vercel-gray-600">
+          Drop a Clockify or ClickUp JSON export here
+        </p>
+        <p className="text-xs text-vercel-gray-400 mt-1">
+          Files are read in the browser. Add both sources to check grouped projects across them.
+        </p>
+        <div className="mt-4 flex items-center justify-center gap-2">
+          <Button variant="secondary" size="sm" onClick={() => fileInputRef.current?.click()} disabled={isParsing}>
+            {isParsing ? 'Reading...' : 'Choose Files'}
+          </Button>
+          {exports.length > 0 && (
+            <Button variant="secondary" size="sm" onClick={handleClear} disabled={isParsing}>
+              Clear
+            </Button>
+          )}
+        </div>
+        {exports.length > 0 && (
+          <p className="text-xs text-vercel-gray-400 mt-3">
+            {exports.map((e) => `${e.fileName} (${SOURCE_LABELS[e.source] ?? e.source}, ${e.entryCount} entries)`).join(' · ')}
+          </p>
+        )}
+      </div>
+
+      {parseError && (
+        <Alert message={parseError} icon="error" variant="error" onClose={() => setParseError(null)} />
+      )}
+      {error && <Alert message={error} icon="error" variant="error" />}
+
+      {entries.length > 0 && (
+        <>
+          {/* Controls */}
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-4">
+              <Select
+                value={month ?? ''}
+                onChange={setSelectedMonth}
+                options={monthOptions}
+                className="w-48"
+              />
+              <Checkbox checked={issuesOnly} onChange={setIssuesOnly} label="Only projects with issues" />
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="secondary" size="sm" onClick={refetch} disabled={isLoading}>
+                Reload Billing
+              </Button>
+              <Button variant="secondary" size="sm" onClick={handleDownloadCSV} disabled={!report}>
+                Download CSV
+              </Button>
+              <Button variant="secondary" size="sm" onClick={handleDownloadJSON} disabled={!report}>
+                Download JSON
+              </Button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Spinner size="md" />
+              <span className="ml-3 text-sm text-vercel-gray-400">Loading billing for the month...</span>
+            </div>
+          ) : report && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <MetricCard title="Projects" value={report.summary.totalProjects} />
+                <MetricCard title="Passed" value={report.summary.passedProjects} />
+                <MetricCard title="Warnings" value={report.summary.warningProjects} isWarning={report.summary.warningProjects > 0} />
+                <MetricCard title="Failed" value={report.summary.failedProjects} isAlert={report.summary.failedProjects > 0} />
+                <MetricCard
+                  title="Billed Revenue"
+                  value={formatCurrencyDisplay(report.summary.totalExpectedRevenue)}
+                  secondaryLabel="From export"
+                  secondaryValue={formatCurrencyDisplay(report.summary.totalBilledRevenue)}
+                />
+              </div>
+
+              <p className="text-xs text-vercel-gray-400">
+                Figures are the stored monthly summary; the export's figure is shown underneath when it differs.
+                Projects that require hours approval bill only reviewed time, so their minutes can differ by design.
+              </p>
+
+              <BillingValidationTable projects={visibleProjects} />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+import { Fragment, useState } from 'react';
+import { Badge } from './Badge';
+import { ChevronIcon } from './ChevronIcon';
+import {
+  ENTRY_MISMATCH_LABELS,
+  formatCurrencyDisplay,
+  formatHoursDisplay,
+  formatMinutesDisplay,
+  getStatusColorClass,
+  type EntryMismatchKind,
+  type ProjectValidationResult,
+  type ValidationCheck,
+  type ValidationStatus,
+} from '../utils/diagnostics';
+
+interface BillingValidationTableProps {
+  projects: ProjectValidationResult[];
+}
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+const TH_RIGHT_CLASS = 'px-4 py-3 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+const SUB_TH_CLASS = 'px-3 py-2 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+const STATUS_BADGE: Record<ValidationStatus, { variant: 'success' | 'warning' | 'error'; label: string }> = {
+  pass: { variant: 'success', label: 'Pass' },
+  warning: { variant: 'warning', label: 'Warning' },
+  fail: { variant: 'error', label: 'Fail' },
+};
+
+const MISMATCH_BADGE: Record<EntryMismatchKind, 'warning' | 'error' | 'info'> = {
+  missing: 'error',
+  extra: 'error',
+  minutes: 'warning',
+  date: 'info',
+  project: 'warning',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  clockify: 'Clockify',
+  clickup: 'ClickUp',
+};
+
+/** "Summary / export" cell; the export figure is colored when it differs */
+function CheckCell({ check, format }: { check: ValidationCheck; format: (value: number) => string }) {
+  return (
+    <td className="px-4 py-3 text-right whitespace-nowrap font-mono text-sm">
+      <span className="text-vercel-gray-600">{format(check.expected)}</span>
+      {check.status !== 'pass' && (
+        <span className={`block text-xs ${getStatusColorClass(check.status)}`}>
+          export {format(check.actual)}
+        </span>
+      )}
+    </td>
+  );
+}
+
+function formatLimits(project: ProjectValidationResult): string {
+  const parts = [
+    `${project.rounding === 0 ? 'Actual' : `${project.rounding} min`} / ${project.roundingMode}`,
+    `${formatCurrencyDisplay(project.rate)}/hr`,
+  ];
+  if (project.minimumHours !== null) parts.push(`min ${project.minimumHours}h`);
+  if (project.maximumHours !== null) parts.push(`max ${project.maximumHours}h`);
+  if (project.carryoverIn > 0) parts.push(`${project.carryoverIn}h carried in`);
+  if (!project.isActive) parts.push('inactive');
+  return parts.join(' · ');
+}
+
+/**
+ * Per-project result of validating a raw export against the stored monthly
+ * summary. Each figure shows the summary value, with the export's value
+ * underneath when they differ. Expanding a project shows its config and the
+ * entries that differ from what was synced.
+ */
+export function BillingValidationTable({ projects }: BillingValidationTableProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (projectId: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(projectId)) next.delete(projectId);
+      else next.add(projectId);
+      return next;
+    });
+  };
+
+  if (projects.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <p className="text-sm text-vercel-gray-400">No projects to show</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+              <th className={TH_CLASS}>Project</th>
+              <th className={TH_CLASS}>Status</th>
+              <th className={TH_RIGHT_CLASS}>Minutes</th>
+              <th className={TH_RIGHT_CLASS}>Rounded Hrs</th>
+              <th className={TH_RIGHT_CLASS}>Billed Hrs</th>
+              <th className={TH_RIGHT_CLASS}>Billed Revenue</th>
+              <th className={TH_RIGHT_CLASS}>Entries</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-vercel-gray-100">
+            {projects.map((project) => {
+              const isExpanded = expanded.has(project.sourceProjectId);
+              const badge = STATUS_BADGE[project.status];
+              return (
+                <Fragment key={project.sourceProjectId}>
+                  <tr
+                    className="hover:bg-vercel-gray-50 transition-colors duration-200 ease-out cursor-pointer"
+                    onClick={() => toggle(project.sourceProjectId)}
+                  >
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-2">
+                        <ChevronIcon expanded={isExpanded} size="sm" className="text-vercel-gray-400" />
+                        <div>
+                          <div className="text-sm font-medium text-vercel-gray-600">{project.projectName}</div>
+                          <div className="text-xs text-vercel-gray-400">
+                            {project.clientName} · {SOURCE_LABELS[project.source] ?? project.source}
+                            {!project.matchedInSystem && ' · not in system'}
+                          </div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <Badge variant={badge.variant}>{badge.label}</Badge>
+                    </td>
+                    <CheckCell check={project.checks.actualMinutes} format={formatMinutesDisplay} />
+                    <CheckCell check={project.checks.roundedHours} format={formatHoursDisplay} />
+                    <CheckCell check={project.checks.billedHours} format={formatHoursDisplay} />
+                    <CheckCell check={project.checks.billedRevenue} format={formatCurrencyDisplay} />
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <span className={`text-sm font-mono ${project.entryMismatches.length > 0 ? 'text-warning-text' : 'text-vercel-gray-400'}`}>
+                        {project.entryMismatches.length > 0 ? `${project.entryMismatches.length} differ` : 'match'}
+                      </span>
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <tr className="bg-vercel-gray-50">
+                      <td colSpan={7} className="px-4 py-4">
+                        <div className="space-y-3 pl-6">
+                          <p className="text-xs text-vercel-gray-400">
+                            {formatLimits(project)} · project id <span className="font-mono">{project.sourceProjectId}</span>
+                          </p>
+                          {project.entryMismatches.length === 0 ? (
+                            <p className="text-sm text-vercel-gray-400">
+                              Every entry in the export is synced with the same minutes and date.
+                            </p>
+                          ) : (
+                            <div className="bg-white rounded-md border border-vercel-gray-100 overflow-x-auto">
+                              <table className="w-full">
+                                <thead>
+                                  <tr className="border-b border-vercel-gray-100">
+                                    <th className={SUB_TH_CLASS}>Issue</th>
+                                    <th className={SUB_TH_CLASS}>Date</th>
+                                    <th className={SUB_TH_CLASS}>User</th>
+                                    <th className={SUB_TH_CLASS}>Task</th>
+                                    <th className={SUB_TH_CLASS}>Export Min</th>
+                                    <th className={SUB_TH_CLASS}>Synced Min</th>
+                                    <th className={SUB_TH_CLASS}>Entry ID</th>
+                                  </tr>
+                                </thead>
+                                <tbody className="divide-y divide-vercel-gray-100">
+                                  {project.entryMismatches.map((m) => (
+                                    <tr key={`${m.kind}:${m.entryId}`}>
+                                      <td className="px-3 py-2 whitespace-nowrap">
+                                        <Badge variant={MISMATCH_BADGE[m.kind]}>{ENTRY_MISMATCH_LABELS[m.kind]}</Badge>
+                                      </td>
+                                      <td className="px-3 py-2 text-sm font-mono text-vercel-gray-600 whitespace-nowrap">{m.date}</td>
+                                      <td className="px-3 py-2 text-sm text-vercel-gray-600 whitespace-nowrap">{m.userName}</td>
+                                      <td className="px-3 py-2 text-sm text-vercel-gray-400 max-w-[280px] truncate">{m.taskName}</td>
+                                      <td className="px-3 py-2 text-sm font-mono text-vercel-gray-600">{m.exportMinutes ?? '—'}</td>
+                                      <td className="px-3 py-2 text-sm font-mono text-vercel-gray-600">
+                                        {m.storedMinutes ?? '—'}
+                                        {m.kind === 'project' && m.storedProjectId && (
+                                          <span className="block text-xs text-vercel-gray-400">under {m.storedProjectId}</span>
+                                        )}
+                                      </td>
+                                      <td className="px-3 py-2 text-xs font-mono text-vercel-gray-400 whitespace-nowrap">{m.entryId}</td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            </div>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
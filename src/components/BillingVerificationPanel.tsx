@@ -0,0 +1,252 @@
+/**
+ * BillingVerificationPanel - finance sign-off of billing months
+ *
+ * Lists every month with a verification snapshot (migration 048) and whether
+ * it is signed off. Signing off a past month snapshots its current
+ * project_monthly_summary figures with a note; from then on the nightly
+ * verification raises a dashboard alert if the month's figures change.
+ * Selecting a month lists the drifted projects with field-level differences.
+ */
+
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from './Button';
+import { Badge } from './Badge';
+import { Spinner } from './Spinner';
+import { Alert } from './Alert';
+import { MetricCard } from './MetricCard';
+import { BillingDriftTable } from './BillingDriftTable';
+import { SignOffBillingMonthModal } from './SignOffBillingMonthModal';
+import { useBillingVerification } from '../hooks/useBillingVerification';
+import { useBillingVerificationDiffs } from '../hooks/useBillingVerificationDiffs';
+import { formatCurrency } from '../utils/billing';
+import {
+  formatSignedCents,
+  groupDiffsByProject,
+  monthVerificationState,
+  summarizeVerification,
+  type VerificationState,
+} from '../utils/billingVerification';
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+const TH_RIGHT_CLASS = 'px-4 py-3 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+const STATE_BADGE: Record<VerificationState, { variant: 'success' | 'error' | 'default'; label: string }> = {
+  signed_off: { variant: 'success', label: 'Signed off' },
+  drifted: { variant: 'error', label: 'Drifted' },
+  not_signed_off: { variant: 'default', label: 'Snapshot only' },
+};
+
+function formatMonthLabel(month: string): string {
+  return format(parseISO(month), 'MMMM yyyy');
+}
+
+export function BillingVerificationPanel() {
+  const { months, isLoading, isOperating, error, signOffMonth, runVerification } = useBillingVerification();
+  const [selectedMonth, setSelectedMonth] = useState<string | null>(null);
+  const [signOffTarget, setSignOffTarget] = useState<string | null>(null);
+  const [isSignOffOpen, setIsSignOffOpen] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+
+  const { diffs, loading: diffsLoading, error: diffsError } = useBillingVerificationDiffs(selectedMonth, refreshKey);
+  const driftedProjects = useMemo(() => groupDiffsByProject(diffs), [diffs]);
+
+  const totals = useMemo(() => summarizeVerification(months), [months]);
+  const signedOffMonths = useMemo(
+    () => new Set(months.filter((m) => m.is_signed_off).map((m) => m.summary_month)),
+    [months],
+  );
+
+  const openSignOff = (month: string | null) => {
+    setSignOffTarget(month);
+    setIsSignOffOpen(true);
+  };
+
+  const handleSignOff = async (month: string, notes: string) => {
+    const success = await signOffMonth(month, notes);
+    if (success) {
+      setIsSignOffOpen(false);
+      setSelectedMonth(month);
+      setRefreshKey((k) => k + 1);
+    }
+    return success;
+  };
+
+  const handleRun = async () => {
+    if (await runVerification()) {
+      setRefreshKey((k) => k + 1);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-vercel-gray-400">
+          Verification runs nightly for signed-off months; drift raises an alert on the dashboard.
+        </p>
+        <div className="flex items-center gap-2">
+          <Button variant="secondary" size="sm" onClick={handleRun} disabled={isOperating || isLoading}>
+            {isOperating ? 'Working...' : 'Run Verification'}
+          </Button>
+          <Button variant="primary" size="sm" onClick={() => openSignOff(null)} disabled={isOperating}>
+            Sign Off Month
+          </Button>
+        </div>
+      </div>
+
+      {error && <Alert message={error} icon="error" variant="error" />}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <MetricCard title="Signed-off Months" value={totals.signedOffMonths} loading={isLoading} />
+        <MetricCard
+          title="Drifted Months"
+          value={totals.driftedMonths}
+          isAlert={totals.driftedMonths > 0}
+          loading={isLoading}
+        />
+        <MetricCard
+          title="Revenue Drift"
+          value={formatCurrency(totals.driftCents / 100)}
+          isAlert={totals.driftCents > 0}
+          loading={isLoading}
+        />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-12">
+          <Spinner size="md" />
+          <span className="ml-3 text-sm text-vercel-gray-400">Loading snapshots...</span>
+        </div>
+      ) : months.length === 0 ? (
+        <div className="bg-white rounded-lg border border-vercel-gray-100">
+          <div className="p-8 text-center">
+            <p className="text-sm text-vercel-gray-400">No billing month has been snapshotted yet</p>
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+                  <th className={TH_CLASS}>Month</th>
+                  <th className={TH_CLASS}>Status</th>
+                  <th className={TH_RIGHT_CLASS}>Projects</th>
+                  <th className={TH_RIGHT_CLASS}>Snapshot Revenue</th>
+                  <th className={TH_RIGHT_CLASS}>Drift</th>
+                  <th className={TH_CLASS}>Sign-off</th>
+                  <th className={TH_CLASS}>Last Verified</th>
+                  <th className={TH_CLASS}></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-vercel-gray-100">
+                {months.map((month) => {
+                  const badge = STATE_BADGE[monthVerificationState(month)];
+                  const isSelected = selectedMonth === month.summary_month;
+                  return (
+                    <tr
+                      key={month.summary_month}
+                      className={`transition-colors duration-200 ease-out cursor-pointer ${
+                        isSelected ? 'bg-vercel-gray-50' : 'hover:bg-vercel-gray-50'
+                      }`}
+                      onClick={() => setSelectedMonth(isSelected ? null : month.summary_month)}
+                    >
+                      <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-vercel-gray-600">
+                        {formatMonthLabel(month.summary_month)}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                      </td>
+                      <td className="px-4 py-3 text-right text-sm font-mono text-vercel-gray-600">
+                        {month.snapshot_projects}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap text-sm font-mono text-vercel-gray-600">
+                        {formatCurrency(month.snapshot_effective_cents / 100)}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap text-sm font-mono">
+                        {month.discrepancy_count === 0 ? (
+                          <span className="text-vercel-gray-400">none</span>
+                        ) : (
+                          <span className="text-error">
+                            {month.drifted_projects} {month.drifted_projects === 1 ? 'project' : 'projects'} · {formatCurrency(month.drift_cents / 100)}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-sm text-vercel-gray-600 max-w-[320px]">
+                        {month.is_signed_off && month.signed_off_at ? (
+                          <>
+                            <div className="whitespace-nowrap">
+                              {format(new Date(month.signed_off_at), 'MMM d, yyyy')}
+                              {month.signed_off_by_email && (
+                                <span className="text-vercel-gray-400"> by {month.signed_off_by_email}</span>
+                              )}
+                            </div>
+                            {month.signoff_notes && (
+                              <div className="text-xs text-vercel-gray-400 truncate">{month.signoff_notes}</div>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-vercel-gray-400">
+                            Snapshot by {month.verified_by}, {format(new Date(month.verified_at), 'MMM d, yyyy')}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-sm text-vercel-gray-400">
+                        {month.last_verified_at ? format(new Date(month.last_verified_at), 'MMM d, HH:mm') : '—'}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <Button
+                          variant="secondary"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openSignOff(month.summary_month);
+                          }}
+                          disabled={isOperating}
+                        >
+                          {month.is_signed_off ? 'Re-sign' : 'Sign Off'}
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {selectedMonth && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-vercel-gray-600">
+              Drift in {formatMonthLabel(selectedMonth)}
+            </h3>
+            {driftedProjects.length > 0 && (
+              <span className="text-xs text-vercel-gray-400">
+                Net effective change {formatSignedCents(driftedProjects.reduce((sum, p) => sum + p.effectiveDiffCents, 0))}
+              </span>
+            )}
+          </div>
+          {diffsError && <Alert message={diffsError} icon="error" variant="error" />}
+          {diffsLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Spinner size="md" />
+            </div>
+          ) : (
+            <BillingDriftTable projects={driftedProjects} />
+          )}
+        </div>
+      )}
+
+      <SignOffBillingMonthModal
+        isOpen={isSignOffOpen}
+        onClose={() => setIsSignOffOpen(false)}
+        initialMonth={signOffTarget}
+        signedOffMonths={signedOffMonths}
+        onConfirm={handleSignOff}
+        isOperating={isOperating}
+      />
+    </div>
+  );
+}
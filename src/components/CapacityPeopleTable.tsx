@@ -0,0 +1,203 @@
+import { Fragment, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Spinner } from './Spinner';
+import { Button } from './Button';
+import { formatHours } from '../utils/billing';
+import type { AllocationStatus, PersonPlan } from '../utils/capacityPlan';
+import type { AllocationTarget } from './AllocationEditorModal';
+
+interface CapacityPeopleTableProps {
+  plans: PersonPlan[];
+  weekStarts: string[];
+  /** Week starts that are complete, for the actual-hours overlay */
+  completedWeeks: Set<string>;
+  currentWeek: string;
+  loading: boolean;
+  /** Whether the viewer may change allocations on the project (null = adding a new one) */
+  canEdit: (projectId: string | null) => boolean;
+  onEditCell: (target: AllocationTarget) => void;
+}
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+const TH_RIGHT_CLASS = 'px-4 py-3 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+const STATUS_CLASS: Record<AllocationStatus, string> = {
+  over: 'bg-error-light text-error-text',
+  under: 'bg-warning-light text-warning-text',
+  full: 'bg-success-light text-success-text',
+  unset: 'text-vercel-gray-600',
+};
+
+function hours(value: number): string {
+  return `${formatHours(Math.round(value * 100) / 100)}h`;
+}
+
+/**
+ * People x weeks grid: planned hours against capacity per week, coloured
+ * over (red), under (amber) or fully allocated (green). Expanding a person
+ * lists their projects; a project cell opens the allocation editor.
+ */
+export function CapacityPeopleTable({
+  plans,
+  weekStarts,
+  completedWeeks,
+  currentWeek,
+  loading,
+  canEdit,
+  onEditCell,
+}: CapacityPeopleTableProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const toggle = (resourceId: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(resourceId)) next.delete(resourceId);
+      else next.add(resourceId);
+      return next;
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <div className="inline-flex items-center gap-2 text-vercel-gray-400">
+            <Spinner size="md" />
+            <span className="text-sm">Loading capacity...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (plans.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <p className="text-sm text-vercel-gray-400">No employees to plan</p>
+        </div>
+      </div>
+    );
+  }
+
+  const weekClass = (weekStart: string) => (weekStart === currentWeek ? 'bg-vercel-gray-50' : '');
+
+  return (
+    <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+              <th className={TH_CLASS}>Person</th>
+              {weekStarts.map((weekStart) => (
+                <th key={weekStart} className={`${TH_RIGHT_CLASS} whitespace-nowrap`}>
+                  {format(parseISO(weekStart), 'MMM d')}
+                </th>
+              ))}
+              <th className={TH_RIGHT_CLASS}>Planned / Capacity</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-vercel-gray-100">
+            {plans.map((plan) => {
+              const isExpanded = expanded.has(plan.resourceId);
+              return (
+                <Fragment key={plan.resourceId}>
+                  <tr
+                    className="hover:bg-vercel-gray-50 transition-colors duration-200 ease-out cursor-pointer"
+                    onClick={() => toggle(plan.resourceId)}
+                  >
+                    <td className="px-4 py-3 whitespace-nowrap">
+                      <div className="flex items-center gap-2">
+                        <svg
+                          className={`w-3 h-3 text-vercel-gray-400 transition-transform ${isExpanded ? 'rotate-90' : ''}`}
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                        </svg>
+                        <div>
+                          <div className="text-sm font-medium text-vercel-gray-600">{plan.name}</div>
+                          <div className="text-xs text-vercel-gray-400">{plan.employmentType ?? '—'}</div>
+                        </div>
+                      </div>
+                    </td>
+                    {plan.weeks.map((week) => (
+                      <td key={week.weekStart} className={`px-4 py-3 text-right whitespace-nowrap ${weekClass(week.weekStart)}`}>
+                        <span className={`inline-block rounded px-1.5 py-0.5 text-xs font-mono ${STATUS_CLASS[week.status]}`}>
+                          {week.capacity === null ? hours(week.planned) : `${hours(week.planned)} / ${hours(week.capacity)}`}
+                        </span>
+                        {completedWeeks.has(week.weekStart) && (
+                          <div className="text-xs text-vercel-gray-400 mt-0.5">Actual {hours(week.actual)}</div>
+                        )}
+                      </td>
+                    ))}
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <span className="text-sm text-vercel-gray-600">
+                        {hours(plan.totalPlanned)}
+                        {plan.totalCapacity !== null && ` / ${hours(plan.totalCapacity)}`}
+                      </span>
+                    </td>
+                  </tr>
+                  {isExpanded && (
+                    <>
+                      {plan.projects.map((line) => (
+                        <tr key={line.projectId} className="bg-vercel-gray-50">
+                          <td className="pl-10 pr-4 py-2">
+                            <div className="text-sm text-vercel-gray-600">{line.projectName}</div>
+                            {line.companyName && (
+                              <div className="text-xs text-vercel-gray-400">{line.companyName}</div>
+                            )}
+                          </td>
+                          {line.weeks.map((week) => (
+                            <td key={week.weekStart} className="px-4 py-2 text-right whitespace-nowrap">
+                              <button
+                                type="button"
+                                onClick={() => onEditCell({
+                                  resourceId: plan.resourceId,
+                                  projectId: line.projectId,
+                                  weekStart: week.weekStart,
+                                  plannedHours: week.planned,
+                                })}
+                                disabled={!canEdit(line.projectId)}
+                                className="text-sm font-mono text-vercel-gray-600 hover:text-bteam-brand disabled:hover:text-vercel-gray-600 disabled:cursor-default"
+                              >
+                                {week.planned > 0 ? hours(week.planned) : '—'}
+                              </button>
+                              {completedWeeks.has(week.weekStart) && week.actual > 0 && (
+                                <div className="text-xs text-vercel-gray-400">Actual {hours(week.actual)}</div>
+                              )}
+                            </td>
+                          ))}
+                          <td className="px-4 py-2" />
+                        </tr>
+                      ))}
+                      {canEdit(null) && (
+                        <tr className="bg-vercel-gray-50">
+                          <td className="pl-10 pr-4 py-2" colSpan={weekStarts.length + 2}>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => onEditCell({
+                                resourceId: plan.resourceId,
+                                projectId: '',
+                                weekStart: weekStarts[0],
+                                plannedHours: 0,
+                              })}
+                            >
+                              Allocate to project
+                            </Button>
+                          </td>
+                        </tr>
+                      )}
+                    </>
+                  )}
+                </Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
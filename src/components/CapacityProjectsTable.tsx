@@ -0,0 +1,128 @@
+import { format, parseISO } from 'date-fns';
+import { Spinner } from './Spinner';
+import { formatCurrency, formatHours } from '../utils/billing';
+import type { ProjectPlan } from '../utils/capacityPlan';
+
+interface CapacityProjectsTableProps {
+  plans: ProjectPlan[];
+  weekStarts: string[];
+  /** Week starts that are complete, for the actual-hours overlay */
+  completedWeeks: Set<string>;
+  currentWeek: string;
+  loading: boolean;
+}
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+const TH_RIGHT_CLASS = 'px-4 py-3 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+function hours(value: number): string {
+  return `${formatHours(Math.round(value * 100) / 100)}h`;
+}
+
+/** Actual hours against plan: over plan in amber, under in grey. */
+function actualClass(actual: number, planned: number): string {
+  return actual > planned ? 'text-warning-text' : 'text-vercel-gray-400';
+}
+
+/**
+ * Projects x weeks grid: planned hours per week with actual hours overlaid
+ * on completed weeks, planned revenue at the current project rate, and plan
+ * vs actual to date.
+ */
+export function CapacityProjectsTable({
+  plans,
+  weekStarts,
+  completedWeeks,
+  currentWeek,
+  loading,
+}: CapacityProjectsTableProps) {
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <div className="inline-flex items-center gap-2 text-vercel-gray-400">
+            <Spinner size="md" />
+            <span className="text-sm">Loading projects...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (plans.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <p className="text-sm text-vercel-gray-400">No allocations or logged hours in these weeks</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+              <th className={TH_CLASS}>Project</th>
+              {weekStarts.map((weekStart) => (
+                <th key={weekStart} className={`${TH_RIGHT_CLASS} whitespace-nowrap`}>
+                  {format(parseISO(weekStart), 'MMM d')}
+                </th>
+              ))}
+              <th className={TH_RIGHT_CLASS}>Planned</th>
+              <th className={TH_RIGHT_CLASS}>Expected Revenue</th>
+              <th className={TH_RIGHT_CLASS}>Actual / Plan to Date</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-vercel-gray-100">
+            {plans.map((plan) => (
+              <tr
+                key={plan.projectId}
+                className="hover:bg-vercel-gray-50 transition-colors duration-200 ease-out"
+              >
+                <td className="px-4 py-3">
+                  <div className="text-sm font-medium text-vercel-gray-600">{plan.projectName}</div>
+                  <div className="text-xs text-vercel-gray-400">
+                    {plan.companyName ?? '—'} · {plan.resourceIds.length} {plan.resourceIds.length === 1 ? 'person' : 'people'}
+                  </div>
+                </td>
+                {plan.weeks.map((week) => (
+                  <td
+                    key={week.weekStart}
+                    className={`px-4 py-3 text-right whitespace-nowrap ${week.weekStart === currentWeek ? 'bg-vercel-gray-50' : ''}`}
+                  >
+                    <span className="text-sm font-mono text-vercel-gray-600">
+                      {week.planned > 0 ? hours(week.planned) : '—'}
+                    </span>
+                    {completedWeeks.has(week.weekStart) && (
+                      <div className={`text-xs mt-0.5 ${actualClass(week.actual, week.planned)}`}>
+                        Actual {hours(week.actual)}
+                      </div>
+                    )}
+                  </td>
+                ))}
+                <td className="px-4 py-3 text-right whitespace-nowrap">
+                  <span className="text-sm text-vercel-gray-600">{hours(plan.totalPlanned)}</span>
+                </td>
+                <td className="px-4 py-3 text-right whitespace-nowrap">
+                  <span className="text-sm text-vercel-gray-600">{formatCurrency(plan.plannedRevenueCents / 100)}</span>
+                </td>
+                <td className="px-4 py-3 text-right whitespace-nowrap">
+                  {plan.completedPlanned > 0 || plan.completedActual > 0 ? (
+                    <span className={`text-sm ${actualClass(plan.completedActual, plan.completedPlanned)}`}>
+                      {hours(plan.completedActual)} / {hours(plan.completedPlanned)}
+                    </span>
+                  ) : (
+                    <span className="text-sm text-vercel-gray-400">—</span>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -6,11 +6,13 @@ import { Select } from './Select';
 import type { SelectOption } from './Select';
 import { Spinner } from './Spinner';
 import { CompanyGroupSection } from './CompanyGroupSection';
+import { EntityHistoryPanel } from './EntityHistoryPanel';
 import { useCompanyGroup } from '../hooks/useCompanyGroup';
 import { useCompanyGroupMutations } from '../hooks/useCompanyGroupMutations';
 import { useQBOConnection } from '../hooks/useQBOConnection';
 import { useQBOCustomerMappings } from '../hooks/useQBOCustomerMappings';
 import type {
+  BillingCurrency,
   Company,
   CompanyFormData,
   StagedCompanyGroupChanges,
@@ -30,9 +32,15 @@ interface CompanyEditorModalProps {
 function getFormDataFromCompany(company: Company | null): CompanyFormData {
   return {
     display_name: company?.display_name || company?.client_name || '',
+    billing_currency: company?.billing_currency ?? 'USD',
   };
 }
 
+const BILLING_CURRENCY_OPTIONS: SelectOption[] = [
+  { value: 'USD', label: 'USD ($)' },
+  { value: 'EUR', label: 'EUR (€)' },
+];
+
 // Initial empty staged changes
 const EMPTY_STAGED_CHANGES: StagedCompanyGroupChanges = {
   additions: [],
@@ -205,6 +213,23 @@ export function CompanyEditorModal({
             disabled={isLoading}
           />
 
+          {/* Billing Currency */}
+          <div>
+            <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-1">
+              Billing Currency
+            </label>
+            <Select
+              value={formData.billing_currency}
+              onChange={(value) => handleInputChange('billing_currency', value as BillingCurrency)}
+              options={BILLING_CURRENCY_OPTIONS}
+              disabled={isLoading}
+              className="w-full"
+            />
+            <p className="mt-1 text-xs text-vercel-gray-400">
+              EOM reports, invoice PDFs and QuickBooks invoices use this currency. New rates are entered in it; revenue is still reported in USD.
+            </p>
+          </div>
+
           {/* QuickBooks Customer Mapping */}
           {isConnected && (
             <div>
@@ -249,6 +274,9 @@ export function CompanyEditorModal({
           />
         )}
 
+        {/* Change history */}
+        <EntityHistoryPanel entityType="company" entityId={company.id} />
+
         {/* Error display */}
         {(groupSaveError || qboMappingError) && (
           <div className="p-3 bg-error-light border border-error rounded-md">
@@ -3,7 +3,10 @@ import { Button } from './Button';
 import { Select } from './Select';
 import { Spinner } from './Spinner';
 import { Badge } from './Badge';
+import { MergeSuggestionList } from './MergeSuggestionList';
 import { useUnassociatedCompanies } from '../hooks/useCompanyGroup';
+import { useMergeSuggestions } from '../hooks/useMergeSuggestions';
+import type { MergeSuggestion } from '../utils/mergeSuggestions';
 import type {
   CompanyGroupMemberDisplay,
   StagedCompanyGroupChanges,
@@ -92,8 +95,11 @@ export function CompanyGroupSection({
     return members;
   }, [persistedMembers, stagedChanges]);
 
-  // Filter dropdown options
-  const dropdownOptions = useMemo(() => {
+  // Entities that can't be added:
+  // - The primary entity
+  // - Already persisted members
+  // - Staged additions
+  const excludeIds = useMemo(() => {
     const excludeIds = new Set<string>();
     excludeIds.add(companyId); // Exclude primary
 
@@ -109,13 +115,23 @@ export function CompanyGroupSection({
       excludeIds.add(add.company_id);
     }
 
+    return excludeIds;
+  }, [companyId, persistedMembers, stagedChanges]);
+
+  const dropdownOptions = useMemo(() => {
     return unassociatedCompanies
       .filter(c => !excludeIds.has(c.company_id))
       .map(c => ({
         value: c.company_id,
         label: c.display_name || c.client_name,
       }));
-  }, [unassociatedCompanies, companyId, persistedMembers, stagedChanges]);
+  }, [unassociatedCompanies, excludeIds]);
+
+  const {
+    suggestions,
+    isLoading: loadingSuggestions,
+    error: suggestionsError,
+  } = useMergeSuggestions('company', companyId, excludeIds);
 
   // Handle adding a member (staging, not persisting)
   const handleAddMember = () => {
@@ -140,6 +156,21 @@ export function CompanyGroupSection({
     setIsAddingNew(false);
   };
 
+  // Handle staging a suggested match
+  const handleStageSuggestion = (suggestion: MergeSuggestion) => {
+    const newAddition: StagedCompanyMemberAdd = {
+      company_id: suggestion.entityId,
+      display_name: suggestion.name,
+      client_id: suggestion.externalId ?? '',
+      client_name: suggestion.altName ?? suggestion.name,
+    };
+
+    onStagedChangesUpdate({
+      ...stagedChanges,
+      additions: [...stagedChanges.additions, newAddition],
+    });
+  };
+
   // Handle removing a member (staging, not persisting)
   const handleRemoveMember = (memberId: string) => {
     const isStaged = stagedChanges.additions.some(a => a.company_id === memberId);
@@ -246,6 +277,15 @@ export function CompanyGroupSection({
         )}
       </div>
 
+      {/* Suggested matches */}
+      <MergeSuggestionList
+        suggestions={suggestions}
+        loading={loadingSuggestions}
+        error={suggestionsError}
+        onStage={handleStageSuggestion}
+        disabled={disabled}
+      />
+
       {/* Add new member UI */}
       {isAddingNew ? (
         <div className="space-y-3 p-3 border border-vercel-gray-100 rounded-md bg-white">
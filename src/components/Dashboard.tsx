@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback, useEffect } from 'react';
+import { useState, useMemo, useCallback } from 'react';
 import { format } from 'date-fns';
 import { useEmployeeTotals } from '../hooks/useEmployeeTotals';
 import { useEmployeeDailyTotals } from '../hooks/useEmployeeDailyTotals';
@@ -11,13 +11,15 @@ import { useCanonicalCompanyMapping } from '../hooks/useCanonicalCompanyMapping'
 import { useEmployeeTableEntities } from '../hooks/useEmployeeTableEntities';
 import { useTimeOff } from '../hooks/useTimeOff';
 import { useUtilizationMetrics } from '../hooks/useUtilizationMetrics';
+import { useHolidaySchedule } from '../hooks/useHolidaySchedule';
 import { useAuth } from '../contexts/AuthContext';
+import { usePermissions } from '../contexts/PermissionsContext';
 import { useDateFilter } from '../contexts/DateFilterContext';
-import { supabase } from '../lib/supabase';
-import type { BulgarianHoliday } from '../types';
 import type { PieChartDataPoint } from '../types/charts';
 import { getProratedExpectedHours, getWorkingDaysInfo } from '../utils/calculations';
 import type { UnderHoursResource } from '../utils/calculations';
+import { getHolidayDates } from '../utils/holidays';
+import { isScopedRole } from '../utils/permissions';
 import { RangeSelector } from './RangeSelector';
 import { DashboardChartsRow } from './DashboardChartsRow';
 import { StatsOverview } from './StatsOverview';
@@ -30,6 +32,8 @@ import { Badge } from './Badge';
 import { DailyHoursChart } from './atoms/charts/DailyHoursChart';
 import type { MonthSelection } from '../types';
 import type { SyncAlert } from '../hooks/useSyncAlerts';
+import type { OverdueCompany } from '../hooks/useOverdueReceivables';
+import { formatCurrency } from '../utils/billing';
 import { useProjectedAnnualRevenue } from '../hooks/useProjectedAnnualRevenue';
 import { HISTORICAL_MONTHS } from '../config/chartConfig';
 
@@ -47,10 +51,16 @@ interface DashboardProps {
   syncAlertsLoading?: boolean;
   /** Callback to dismiss an alert */
   onDismissAlert?: (alertId: string) => Promise<void>;
+  /** Companies with invoices past their due date (v_ar_aging) */
+  overdueCompanies?: OverdueCompany[];
+  /** Navigate to the Receivables page */
+  onViewReceivables?: () => void;
 }
 
-export function Dashboard({ syncAlerts = [], onDismissAlert }: DashboardProps) {
+export function Dashboard({ syncAlerts = [], onDismissAlert, overdueCompanies = [], onViewReceivables }: DashboardProps) {
   const { user } = useAuth();
+  // Scoped roles (project managers) only receive their companies' revenue via RLS
+  const { role } = usePermissions();
   const { dateRange, mode, selectedMonth: filterSelectedMonth, setDateRange, setFilter } = useDateFilter();
 
   // Modal state for under hours
@@ -89,19 +99,8 @@ export function Dashboard({ syncAlerts = [], onDismissAlert }: DashboardProps) {
     approvedOnly: true,
   });
 
-  // Fetch holidays for the selected month
-  const [holidays, setHolidays] = useState<BulgarianHoliday[]>([]);
-  useEffect(() => {
-    async function fetchHolidays() {
-      const year = dateRange.start.getFullYear();
-      const { data } = await supabase
-        .from('bulgarian_holidays')
-        .select('*')
-        .eq('year', year);
-      setHolidays(data || []);
-    }
-    fetchHolidays();
-  }, [dateRange.start]);
+  // Fetch every holiday calendar for the selected year (per-employee working days)
+  const { schedule: holidaySchedule } = useHolidaySchedule(dateRange.start.getFullYear());
 
   // Convert dateRange to MonthSelection for the rates hook
   const selectedMonth = useMemo<MonthSelection>(() => ({
@@ -137,20 +136,23 @@ export function Dashboard({ syncAlerts = [], onDismissAlert }: DashboardProps) {
     effectiveToday.setDate(effectiveToday.getDate() - 1);
   }
   const effectiveEndDate = dateRange.end > effectiveToday ? effectiveToday : dateRange.end;
-  const expectedHours = getProratedExpectedHours(effectiveEndDate);
-  const workingDays = getWorkingDaysInfo(effectiveEndDate);
-
-  // Build set of billable employee names (Full-time/Part-time only, excludes vendors/contractors)
-  const billableEmployeeNames = useMemo(() => {
-    const names = new Set<string>();
+  // Headline figures use the default calendar; per-employee rows use their own
+  const defaultHolidayDates = getHolidayDates(holidaySchedule);
+  const expectedHours = getProratedExpectedHours(effectiveEndDate, defaultHolidayDates);
+  const workingDays = getWorkingDaysInfo(effectiveEndDate, defaultHolidayDates);
+
+  // Map billable employee names (Full-time/Part-time only, excludes vendors/contractors)
+  // to their holiday calendar
+  const billableEmployeeCalendars = useMemo(() => {
+    const names = new Map<string, string | null>();
     for (const emp of employees) {
       const empType = emp.employment_type?.name;
       if (empType === 'Full-time' || empType === 'Part-time') {
         const empDisplayName = [emp.first_name, emp.last_name].filter(Boolean).join(' ') || emp.external_label;
-        names.add(empDisplayName);
+        names.set(empDisplayName, emp.holiday_calendar_id);
         // Also add external_label in case that's used for matching
         if (emp.external_label) {
-          names.add(emp.external_label);
+          names.set(emp.external_label, emp.holiday_calendar_id);
         }
       }
     }
@@ -193,17 +195,19 @@ export function Dashboard({ syncAlerts = [], onDismissAlert }: DashboardProps) {
       }
     }
 
-    // Calculate prorated expected using same approach as getUnderHoursResources
-    const proratedHours = getProratedExpectedHours(effectiveEndDate);
-    const proratedMinutes = proratedHours * 60;
-
     const items: UnderHoursResource[] = [];
     for (const [, emp] of employeeMinutes) {
       // Only include billable employees (Full-time/Part-time)
-      if (!billableEmployeeNames.has(emp.displayName) && !billableEmployeeNames.has(emp.userName)) {
+      const nameKey = billableEmployeeCalendars.has(emp.displayName) ? emp.displayName : emp.userName;
+      if (!billableEmployeeCalendars.has(nameKey)) {
         continue;
       }
-      if (emp.totalMinutes < proratedMinutes) {
+      // Prorate the target by working days on the employee's own holiday calendar
+      const proratedHours = getProratedExpectedHours(
+        effectiveEndDate,
+        getHolidayDates(holidaySchedule, billableEmployeeCalendars.get(nameKey)),
+      );
+      if (emp.totalMinutes < proratedHours * 60) {
         const actualHours = emp.totalMinutes / 60;
         items.push({
           userName: emp.userName,
@@ -221,7 +225,10 @@ export function Dashboard({ syncAlerts = [], onDismissAlert }: DashboardProps) {
       if (empType !== 'Full-time' && empType !== 'Part-time') continue;
       const empDisplayName = [emp.first_name, emp.last_name].filter(Boolean).join(' ') || emp.external_label;
       if (!employeeMinutes.has(empDisplayName)) {
-        const proratedHrs = getProratedExpectedHours(effectiveEndDate);
+        const proratedHrs = getProratedExpectedHours(
+          effectiveEndDate,
+          getHolidayDates(holidaySchedule, emp.holiday_calendar_id),
+        );
         if (proratedHrs > 0) {
           items.push({
             userName: emp.external_label,
@@ -236,7 +243,7 @@ export function Dashboard({ syncAlerts = [], onDismissAlert }: DashboardProps) {
 
     // Sort by deficit descending
     return items.sort((a, b) => b.deficit - a.deficit);
-  }, [layer2Rows, userIdToDisplayNameLookup, effectiveEndDate, billableEmployeeNames, employees]);
+  }, [layer2Rows, userIdToDisplayNameLookup, effectiveEndDate, billableEmployeeCalendars, employees, holidaySchedule]);
 
   // Synthetic entries for useUtilizationMetrics (same pattern as EmployeesPage lines 97-109)
   const syntheticEntries = useMemo(() => {
@@ -427,8 +434,9 @@ export function Dashboard({ syncAlerts = [], onDismissAlert }: DashboardProps) {
   // This matches the exact calculation in RevenuePage
   const combinedTotalRevenue = totalRevenue + (filteredBillingCents / 100) + milestoneAdjustment;
 
-  // Projected annual revenue — client-side shared hook (single source of truth for chart bands)
-  const { projectedAnnualRevenue } = useProjectedAnnualRevenue();
+  // Projected annual revenue — client-side shared hook (single source of truth for chart bands).
+  // Firm-wide, so not projected for scoped roles.
+  const { projectedAnnualRevenue } = useProjectedAnnualRevenue({ enabled: !isScopedRole(role) });
 
   // Loading state for utilization inputs (employees, timeOff, holidays, rates)
   const utilizationLoading = employeesLoading || timeOffLoading || ratesLoading;
@@ -441,7 +449,7 @@ export function Dashboard({ syncAlerts = [], onDismissAlert }: DashboardProps) {
   // Uses synthetic entries from Layer 2 (rounded_minutes) for consistency
   const utilizationMetrics = useUtilizationMetrics({
     dateRange,
-    holidays,
+    holidaySchedule,
     employees,
     timeOff,
     entries: syntheticEntries as any,
@@ -500,6 +508,9 @@ export function Dashboard({ syncAlerts = [], onDismissAlert }: DashboardProps) {
                       BambooHR: {String(alert.metadata.bamboo_days)} days | Manifest: {String(alert.metadata.manifest_days)} days
                     </p>
                   )}
+                  {alert.alert_type === 'project_budget_threshold' && alert.detail && (
+                    <p className="text-xs mt-1">{alert.detail}</p>
+                  )}
                   {alert.metadata && typeof alert.metadata === 'object' && 'clockify_minutes' in alert.metadata && (
                     <p className="text-xs mt-1">
                       Clockify: {String(alert.metadata.clockify_minutes)} min | Manifest: {String(alert.metadata.manifest_minutes)} min
@@ -512,6 +523,42 @@ export function Dashboard({ syncAlerts = [], onDismissAlert }: DashboardProps) {
         </div>
       )}
 
+      {/* Overdue Receivables — shown under the sync alerts, not dismissible (clears when paid) */}
+      {overdueCompanies.length > 0 && (
+        <div className="bg-warning-light border-b-2 border-warning">
+          <div className="max-w-7xl mx-auto px-6 py-4">
+            <div className="flex items-center gap-3 mb-3">
+              <h2 className="text-lg font-bold text-warning-text">
+                Overdue Receivables
+              </h2>
+              <Badge variant="warning" size="md">
+                {overdueCompanies.length} {overdueCompanies.length === 1 ? 'company' : 'companies'}
+              </Badge>
+              {onViewReceivables && (
+                <Button variant="ghost" size="sm" onClick={onViewReceivables} className="ml-auto">
+                  View receivables
+                </Button>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              {overdueCompanies.map((company) => (
+                <Alert
+                  key={company.canonical_company_id}
+                  message={`${company.company_name}: ${formatCurrency((company.overdue_cents ?? 0) / 100)} overdue`}
+                  icon="warning"
+                  variant="warning"
+                >
+                  <p className="text-xs mt-1">
+                    {company.overdue_invoice_count} {company.overdue_invoice_count === 1 ? 'invoice' : 'invoices'}, oldest {company.max_days_past_due} days past due
+                  </p>
+                </Alert>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       <main className="max-w-7xl mx-auto px-6 py-8 space-y-8">
         {/* Greeting Section */}
         <section>
@@ -582,7 +629,7 @@ export function Dashboard({ syncAlerts = [], onDismissAlert }: DashboardProps) {
               dailyHoursByDate={dailyHoursByDate}
               startDate={dateRange.start}
               endDate={dateRange.end}
-              holidays={holidays}
+              holidaySchedule={holidaySchedule}
               resources={employees}
               timeOff={timeOff}
             />
@@ -4,18 +4,26 @@ import { Select } from './Select';
 import { Button } from './Button';
 import { Input } from './Input';
 import { Spinner } from './Spinner';
+import { MonthPicker } from './MonthPicker';
 import { PhysicalPersonGroupSection } from './PhysicalPersonGroupSection';
+import { EntityHistoryPanel } from './EntityHistoryPanel';
 import { usePhysicalPersonGroup } from '../hooks/usePhysicalPersonGroup';
 import { useGroupMutations } from '../hooks/useGroupMutations';
 import { useBambooEmployees } from '../hooks/useBambooEmployees';
+import { useHolidayCalendars } from '../hooks/useHolidayCalendars';
+import { useResourceCosts } from '../hooks/useResourceCosts';
+import { formatMonthDisplay, getCurrentMonth, isFutureMonth } from '../hooks/useMonthlyRates';
 import type {
   Resource,
   ResourceFormData,
   EmploymentType,
   BillingMode,
+  MonthSelection,
+  ResourceCostFormData,
   StagedGroupChanges,
 } from '../types';
-import { DEFAULT_EXPECTED_HOURS } from '../utils/billing';
+import { DEFAULT_EXPECTED_HOURS, formatCurrency } from '../utils/billing';
+import { costRecordForMonth, isCostChanged } from '../utils/employeeCost';
 
 interface EmployeeEditorModalProps {
   isOpen: boolean;
@@ -26,6 +34,8 @@ interface EmployeeEditorModalProps {
   employmentTypes: EmploymentType[];
   /** Callback when group changes are saved (to trigger refetch) */
   onGroupChange?: () => void;
+  /** Callback when the cost history changes (to refetch current cost) */
+  onCostChange?: () => void;
 }
 
 interface FormErrors {
@@ -33,6 +43,7 @@ interface FormErrors {
   expected_hours?: string;
   monthly_cost?: string;
   hourly_rate?: string;
+  cost_month?: string;
 }
 
 const billingModeOptions = [
@@ -65,9 +76,28 @@ function getFormDataFromResource(resource: Resource | null): ResourceFormData {
     hourly_rate: resource?.hourly_rate ?? null,
     monthly_cost: resource?.monthly_cost ?? null,
     bamboo_employee_id: resource?.bamboo_employee_id ?? null,
+    holiday_calendar_id: resource?.holiday_calendar_id ?? null,
   };
 }
 
+function getCostFromResource(resource: Resource): ResourceCostFormData {
+  return {
+    billing_mode: resource.billing_mode,
+    hourly_rate: resource.hourly_rate,
+    monthly_cost: resource.monthly_cost,
+    expected_hours: resource.expected_hours,
+  };
+}
+
+function toMonthIso(month: MonthSelection): string {
+  return `${month.year}-${String(month.month).padStart(2, '0')}-01`;
+}
+
+function toMonthSelection(iso: string): MonthSelection {
+  const [year, month] = iso.split('-').map(Number);
+  return { year, month };
+}
+
 // Initial empty staged changes
 const EMPTY_STAGED_CHANGES: StagedGroupChanges = {
   additions: [],
@@ -82,12 +112,15 @@ export function EmployeeEditorModal({
   isSaving,
   employmentTypes,
   onGroupChange,
+  onCostChange,
 }: EmployeeEditorModalProps) {
   const [formData, setFormData] = useState<ResourceFormData>(() => getFormDataFromResource(resource));
   const [errors, setErrors] = useState<FormErrors>({});
   const [touched, setTouched] = useState<Record<string, boolean>>({});
   const [lastResourceId, setLastResourceId] = useState<string | null>(resource?.id ?? null);
   const [stagedGroupChanges, setStagedGroupChanges] = useState<StagedGroupChanges>(EMPTY_STAGED_CHANGES);
+  const [costMonth, setCostMonth] = useState<MonthSelection>(getCurrentMonth);
+  const [lastCostKey, setLastCostKey] = useState<string>('');
 
   // Fetch physical person group data for this resource
   const {
@@ -102,6 +135,19 @@ export function EmployeeEditorModal({
   // Fetch BambooHR employees for linking
   const { employees: bambooEmployees, availableEmployees, loading: loadingBamboo } = useBambooEmployees();
 
+  // Holiday calendars for the working-day calendar assignment
+  const { calendars: holidayCalendars, defaultCalendar } = useHolidayCalendars();
+
+  // Effective-dated cost records (newest first)
+  const {
+    costs: costHistory,
+    isSaving: isSavingCost,
+    error: costError,
+    saveCost,
+    deleteCost,
+    clearError: clearCostError,
+  } = useResourceCosts(resource?.id ?? null);
+
   // Reset form when resource changes (React-recommended pattern)
   const currentResourceId = resource?.id ?? null;
   if (currentResourceId !== lastResourceId) {
@@ -110,6 +156,18 @@ export function EmployeeEditorModal({
     setErrors({});
     setTouched({});
     setStagedGroupChanges(EMPTY_STAGED_CHANGES);
+    setCostMonth(getCurrentMonth());
+    clearCostError();
+  }
+
+  // Reload cost fields when the current cost changes underneath the form
+  // (a history record was deleted or saved for an earlier month)
+  const costKey = resource ? JSON.stringify(getCostFromResource(resource)) : '';
+  if (costKey !== lastCostKey) {
+    setLastCostKey(costKey);
+    if (resource) {
+      setFormData(prev => ({ ...prev, ...getCostFromResource(resource) }));
+    }
   }
 
   // Handle staged changes update
@@ -151,6 +209,10 @@ export function EmployeeEditorModal({
       }
     }
 
+    if (isFutureMonth(costMonth)) {
+      newErrors.cost_month = 'Cost changes cannot take effect in a future month';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -199,7 +261,7 @@ export function EmployeeEditorModal({
 
   const isMonthlyBilling = formData.billing_mode === 'monthly';
   const isHourlyBilling = formData.billing_mode === 'hourly';
-  const isAnySaving = isSaving || isSavingGroup;
+  const isAnySaving = isSaving || isSavingGroup || isSavingCost;
 
   // Live-calculate hourly_rate for monthly billing (FT/PT)
   const calculatedHourlyRate = useMemo(() => {
@@ -210,6 +272,19 @@ export function EmployeeEditorModal({
     return Math.round((formData.monthly_cost / formData.expected_hours) * 100) / 100;
   }, [isMonthlyBilling, formData.monthly_cost, formData.expected_hours]);
 
+  // Cost as it will be saved (monthly billing persists the calculated hourly_rate)
+  const costToSave: ResourceCostFormData = {
+    billing_mode: formData.billing_mode,
+    hourly_rate: isMonthlyBilling ? calculatedHourlyRate : formData.hourly_rate,
+    monthly_cost: formData.monthly_cost,
+    expected_hours: formData.expected_hours,
+  };
+  const hasCostChanges = !!resource && isCostChanged(costToSave, getCostFromResource(resource));
+
+  // The record the new cost replaces, for the "Effective From" hint
+  const costInForce = costRecordForMonth(costHistory, toMonthIso(costMonth));
+  const currentCost = costRecordForMonth(costHistory, toMonthIso(getCurrentMonth()));
+
   // Check if there are pending group changes
   const hasGroupChanges = stagedGroupChanges.additions.length > 0 || stagedGroupChanges.removals.size > 0;
 
@@ -223,11 +298,19 @@ export function EmployeeEditorModal({
       ? { ...formData, hourly_rate: calculatedHourlyRate }
       : formData;
 
-    // 1. Save resource form data
+    // 1. Record the cost change from the chosen month (also updates the
+    //    resource's current cost when that month is the latest)
+    if (hasCostChanges) {
+      const costSuccess = await saveCost(resource.id, toMonthIso(costMonth), costToSave);
+      if (!costSuccess) return;
+      onCostChange?.();
+    }
+
+    // 2. Save resource form data
     const formSuccess = await onSave(resource.id, dataToSave);
     if (!formSuccess) return;
 
-    // 2. Save staged group changes (if any)
+    // 3. Save staged group changes (if any)
     if (hasGroupChanges) {
       const hasExistingGroup = entityRole === 'primary';
       const result = await saveGroupChanges({
@@ -250,11 +333,22 @@ export function EmployeeEditorModal({
     onClose();
   };
 
+  const handleDeleteCost = async (id: string) => {
+    const success = await deleteCost(id);
+    if (success) onCostChange?.();
+  };
+
   const employmentTypeOptions = useMemo(() =>
     employmentTypes.map(et => ({ value: et.id, label: et.name })),
     [employmentTypes]
   );
 
+  // Holiday calendar options: empty value follows the default calendar
+  const holidayCalendarOptions = useMemo(() => [
+    { value: '', label: defaultCalendar ? `Default (${defaultCalendar.name})` : 'Default' },
+    ...holidayCalendars.map(c => ({ value: c.id, label: c.name })),
+  ], [holidayCalendars, defaultCalendar]);
+
   // Bamboo user options: available employees + currently assigned (if any)
   const bambooUserOptions = useMemo(() => {
     const options: { value: string; label: string }[] = [
@@ -468,6 +562,22 @@ export function EmployeeEditorModal({
           />
         </div>
 
+        {/* Holiday Calendar */}
+        <div>
+          <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+            Holiday Calendar
+          </label>
+          <Select
+            value={formData.holiday_calendar_id || ''}
+            onChange={(value) => setFormData(prev => ({
+              ...prev,
+              holiday_calendar_id: value === '' ? null : value
+            }))}
+            options={holidayCalendarOptions}
+            className="w-full"
+          />
+        </div>
+
         {/* Billing Mode */}
         <div>
           <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
@@ -585,6 +695,77 @@ export function EmployeeEditorModal({
             </p>
           )}
         </div>
+
+        {/* Effective From (only when the cost changes) */}
+        {hasCostChanges && (
+          <div>
+            <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+              Cost Effective From
+            </label>
+            <MonthPicker
+              selectedMonth={costMonth}
+              onChange={(month) => {
+                setCostMonth(month);
+                setErrors(prev => ({ ...prev, cost_month: undefined }));
+              }}
+            />
+            {errors.cost_month ? (
+              <p className="mt-1 text-xs font-mono text-bteam-brand" role="alert">
+                {errors.cost_month}
+              </p>
+            ) : (
+              <p className="mt-1 text-xs text-vercel-gray-400">
+                {costInForce
+                  ? `Replaces the cost in force since ${formatMonthDisplay(toMonthSelection(costInForce.cost_month))} from this month on. Earlier months keep their cost.`
+                  : 'Applies to every month until the next change.'}
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Cost History */}
+        {costHistory.length > 0 && (
+          <div>
+            <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+              Cost History
+            </label>
+            <div className="border border-vercel-gray-100 rounded-md divide-y divide-vercel-gray-100">
+              {costHistory.map((cost) => (
+                <div key={cost.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <span className="w-32 text-vercel-gray-600">
+                    {formatMonthDisplay(toMonthSelection(cost.cost_month))}
+                  </span>
+                  <span className="flex-1 text-vercel-gray-400">
+                    {cost.billing_mode === 'hourly'
+                      ? `${formatCurrency(cost.hourly_rate)}/hr`
+                      : `${formatCurrency(cost.monthly_cost)}/mo · ${cost.expected_hours ?? DEFAULT_EXPECTED_HOURS}h`}
+                  </span>
+                  {cost.id === currentCost?.id && (
+                    <span className="text-xs text-vercel-gray-400">Current</span>
+                  )}
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteCost(cost.id)}
+                    disabled={isAnySaving || costHistory.length <= 1}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {costError && (
+          <div className="p-3 bg-error-light border border-error-border rounded-md">
+            <p className="text-sm text-error-text">{costError}</p>
+          </div>
+        )}
+
+        {/* Change history */}
+        <EntityHistoryPanel entityType="employee" entityId={resource.id} />
       </form>
     </Modal>
   );
@@ -8,15 +8,17 @@
  * - Tier 4: Task (Hours, Profit, Revenue)
  *
  * Revenue = rounded_hours x project_rate (from Rates page)
- * Profit = revenue - (rounded_hours x employee_hourly_rate) (from Employee Management page)
+ * Profit = revenue - (rounded_hours x employee_hourly_rate), with the employee cost
+ *          in force for each work date's month (Employee Management cost history)
  * All hours are rounded hours from Layer 2 data (employee_totals).
  *
  * @category Component
  */
 
 import { useState, useMemo, useEffect, Fragment } from 'react';
-import type { EmployeeTotal, ProjectRateDisplayWithBilling, EmployeeTimeOff, ResourceWithGrouping } from '../types';
+import type { EmployeeTotal, ProjectRateDisplayWithBilling, EmployeeTimeOff, ResourceWithGrouping, ResourceMonthlyCost } from '../types';
 import { formatCurrency, formatHours } from '../utils/billing';
+import { buildEmployeeCostRateLookup } from '../utils/employeeCost';
 import { minutesToHours } from '../utils/calculations';
 import { ChevronIcon } from './ChevronIcon';
 import { Card } from './Card';
@@ -28,6 +30,8 @@ interface EmployeePerformanceProps {
   projectsWithRates: ProjectRateDisplayWithBilling[];
   /** Employee entities (for employee hourly rate) */
   employees: ResourceWithGrouping[];
+  /** Cost history by resource id; employees without records use their current cost */
+  employeeCosts?: Map<string, ResourceMonthlyCost[]>;
   /** Employee time-off records for the period */
   timeOff?: EmployeeTimeOff[];
   /** Function to get canonical company name from client_id (ID-only lookup) */
@@ -38,6 +42,14 @@ interface EmployeePerformanceProps {
   projectCanonicalIdLookup?: Map<string, string>;
 }
 
+interface TaskTotals {
+  roundedMinutes: number;
+  /** Employee cost in dollars; null when any month's cost is unknown */
+  cost: number | null;
+}
+
+const NO_COSTS = new Map<string, ResourceMonthlyCost[]>();
+
 interface TaskData {
   taskName: string;
   roundedMinutes: number;
@@ -76,6 +88,7 @@ export function EmployeePerformance({
   rows,
   projectsWithRates,
   employees,
+  employeeCosts = NO_COSTS,
   timeOff = [],
   getCanonicalCompanyName,
   userIdToDisplayNameLookup,
@@ -96,19 +109,11 @@ export function EmployeePerformance({
     return map;
   }, [projectsWithRates]);
 
-  // Build lookup map: canonical display name -> hourly_rate
-  const employeeHourlyRateLookup = useMemo(() => {
-    const map = new Map<string, number>();
-    for (const emp of employees) {
-      const displayName = emp.first_name || emp.last_name
-        ? [emp.first_name, emp.last_name].filter(Boolean).join(' ')
-        : emp.external_label;
-      if (emp.hourly_rate != null) {
-        map.set(displayName, emp.hourly_rate);
-      }
-    }
-    return map;
-  }, [employees]);
+  // Lookup: canonical display name + work date -> hourly cost in force that month
+  const employeeCostRate = useMemo(
+    () => buildEmployeeCostRateLookup(employees, employeeCosts),
+    [employees, employeeCosts]
+  );
 
   // Build PTO lookup: display name -> total days
   const ptoByEmployee = useMemo(() => {
@@ -125,7 +130,7 @@ export function EmployeePerformance({
   const employeeData = useMemo(() => {
     // First pass: group rows by user -> company -> project -> task
     // Key is CANONICAL display name (for proper grouping of employees across systems)
-    const userMap = new Map<string, Map<string, Map<string, Map<string, number>>>>();
+    const userMap = new Map<string, Map<string, Map<string, Map<string, TaskTotals>>>>();
     // Track companyId to companyName mapping for each user
     const userCompanyNames = new Map<string, Map<string, string>>();
 
@@ -161,9 +166,15 @@ export function EmployeePerformance({
       }
       const taskMap = projectMap.get(projectKey)!;
 
-      // Sum rounded_minutes from Layer 2 data
-      const currentMinutes = taskMap.get(taskName) || 0;
-      taskMap.set(taskName, currentMinutes + row.rounded_minutes);
+      // Sum rounded_minutes from Layer 2 data, costed at the rate of the row's month
+      const current = taskMap.get(taskName) ?? { roundedMinutes: 0, cost: 0 };
+      const hourlyRate = employeeCostRate(userName, row.work_date);
+      taskMap.set(taskName, {
+        roundedMinutes: current.roundedMinutes + row.rounded_minutes,
+        cost: current.cost !== null && hourlyRate !== null
+          ? current.cost + (row.rounded_minutes / 60) * hourlyRate
+          : null,
+      });
     }
 
     // Second pass: calculate revenue and profit from rounded hours
@@ -176,9 +187,6 @@ export function EmployeePerformance({
       let employeeTotalRevenue = 0;
       let employeeTotalProfit: number | null = null;
 
-      // Look up employee hourly rate
-      const employeeHourlyRate = employeeHourlyRateLookup.get(userName) ?? null;
-
       for (const [companyId, projectMap] of companyMap) {
         const projects: ProjectData[] = [];
         let companyTotalRoundedMinutes = 0;
@@ -196,17 +204,14 @@ export function EmployeePerformance({
           const tasks: TaskData[] = [];
           let projectTotalRoundedMinutes = 0;
 
-          for (const [taskName, roundedMinutes] of taskMap) {
+          for (const [taskName, { roundedMinutes, cost }] of taskMap) {
             const roundedHours = roundedMinutes / 60;
 
             // Revenue = rounded_hours x project_rate
             const taskRevenue = roundedHours * projectRate;
 
             // Profit = revenue - (rounded_hours x employee_hourly_rate)
-            let taskProfit: number | null = null;
-            if (employeeHourlyRate !== null) {
-              taskProfit = taskRevenue - (roundedHours * employeeHourlyRate);
-            }
+            const taskProfit = cost !== null ? taskRevenue - cost : null;
 
             tasks.push({
               taskName,
@@ -221,7 +226,7 @@ export function EmployeePerformance({
           // Sum project revenue and profit from tasks
           const projectRevenue = tasks.reduce((sum, t) => sum + t.revenue, 0);
           let projectProfit: number | null = null;
-          if (employeeHourlyRate !== null) {
+          if (tasks.some(t => t.profit !== null)) {
             projectProfit = tasks.reduce((sum, t) => sum + (t.profit ?? 0), 0);
           }
 
@@ -278,7 +283,7 @@ export function EmployeePerformance({
 
     // Sort employees by profit generated (highest first)
     return employeesList.sort((a, b) => (b.profit ?? -Infinity) - (a.profit ?? -Infinity));
-  }, [rows, projectRateLookup, employeeHourlyRateLookup, ptoByEmployee, userIdToDisplayNameLookup, getCanonicalCompanyName, projectCanonicalIdLookup]);
+  }, [rows, projectRateLookup, employeeCostRate, ptoByEmployee, userIdToDisplayNameLookup, getCanonicalCompanyName, projectCanonicalIdLookup]);
 
   // Calculate footer totals from employee rows (NOT from billingResult)
   const totalRoundedMinutes = employeeData.reduce((sum, emp) => sum + emp.roundedMinutes, 0);
@@ -0,0 +1,107 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Spinner } from './Spinner';
+import { Badge } from './Badge';
+import { AuditFieldChangeList } from './AuditFieldChangeList';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { useAuditLog } from '../hooks/useAuditLog';
+import { AUDIT_ACTION_LABELS, AUDIT_ACTION_VARIANTS, auditRecordLabel, auditSummary } from '../utils/auditTrail';
+import type { AuditEntityType } from '../types';
+
+interface EntityHistoryPanelProps {
+  entityType: AuditEntityType;
+  /** The employee / company / project being edited */
+  entityId: string;
+}
+
+/** Most recent changes shown in an editor; the Audit page has the rest */
+const HISTORY_LIMIT = 50;
+
+/**
+ * EntityHistoryPanel - Collapsible change history inside an editor modal
+ *
+ * Lists who changed what on the entity, including its grouping, project
+ * managers and billing rules. Loads the first time it is expanded. Admins
+ * only (get_audit_log is admin-only); renders nothing for other roles.
+ */
+export function EntityHistoryPanel({ entityType, entityId }: EntityHistoryPanelProps) {
+  const { isAdmin } = usePermissions();
+  const [isOpen, setIsOpen] = useState(false);
+  const { entries, isLoading, error, isTruncated } = useAuditLog(
+    { entityType, entityId },
+    { enabled: isOpen && isAdmin, limit: HISTORY_LIMIT },
+  );
+
+  if (!isAdmin) return null;
+
+  return (
+    <div className="space-y-3">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        className="flex items-center gap-2 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider hover:text-vercel-gray-600 transition-colors"
+      >
+        <svg
+          className={`w-3.5 h-3.5 transition-transform ${isOpen ? 'rotate-90' : ''}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        History
+      </button>
+
+      {isOpen && (
+        isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Spinner size="sm" />
+            <span className="ml-2 text-sm text-vercel-gray-400">Loading history...</span>
+          </div>
+        ) : error ? (
+          <p className="text-xs text-error">{error}</p>
+        ) : entries.length === 0 ? (
+          <div className="text-sm text-vercel-gray-300 italic py-2">
+            No recorded changes
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-80 overflow-y-auto scrollbar-thin">
+            {entries.map((entry) => {
+              const recordLabel = auditRecordLabel(entry);
+              return (
+                <div key={entry.id} className="px-3 py-2 border border-vercel-gray-100 rounded-md bg-vercel-gray-50 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      <Badge variant={AUDIT_ACTION_VARIANTS[entry.action]} size="sm">
+                        {AUDIT_ACTION_LABELS[entry.action]}
+                      </Badge>
+                      <span className="text-sm text-vercel-gray-600 truncate">
+                        {auditSummary(entry)}
+                        {recordLabel && recordLabel !== entry.entity_label && (
+                          <span className="text-vercel-gray-400"> · {recordLabel}</span>
+                        )}
+                      </span>
+                    </div>
+                    <span className="text-xs text-vercel-gray-400 whitespace-nowrap">
+                      {format(new Date(entry.changed_at), 'MMM d, yyyy h:mm a')}
+                    </span>
+                  </div>
+                  <p className="text-xs text-vercel-gray-400">
+                    by {entry.changed_by_name ?? 'Unknown user'}
+                  </p>
+                  <AuditFieldChangeList entry={entry} />
+                </div>
+              );
+            })}
+            {isTruncated && (
+              <p className="text-xs text-vercel-gray-300 italic">
+                Showing the latest {HISTORY_LIMIT} changes. See the Audit page for older ones.
+              </p>
+            )}
+          </div>
+        )
+      )}
+    </div>
+  );
+}
@@ -11,13 +11,13 @@ import {
   addMonths,
   subMonths,
 } from 'date-fns';
-import type { BulgarianHoliday, EmployeeTimeOff } from '../types';
+import type { CalendarHoliday, EmployeeTimeOff } from '../types';
 
 interface HolidayCalendarProps {
-  holidays: BulgarianHoliday[];
+  holidays: CalendarHoliday[];
   timeOff?: EmployeeTimeOff[];
   year: number;
-  onDateClick?: (date: Date, holiday?: BulgarianHoliday) => void;
+  onDateClick?: (date: Date, holiday?: CalendarHoliday) => void;
 }
 
 export function HolidayCalendar({ holidays, timeOff = [], year, onDateClick }: HolidayCalendarProps) {
@@ -41,7 +41,7 @@ export function HolidayCalendar({ holidays, timeOff = [], year, onDateClick }: H
   }
 
   const holidayMap = useMemo(() => {
-    const map = new Map<string, BulgarianHoliday>();
+    const map = new Map<string, CalendarHoliday>();
     holidays.forEach((h) => {
       map.set(h.holiday_date, h);
     });
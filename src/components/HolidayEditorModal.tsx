@@ -4,19 +4,19 @@ import { Button } from './Button';
 import { Spinner } from './Spinner';
 import { Input } from './Input';
 import { DatePicker } from './DatePicker';
-import type { BulgarianHoliday, HolidayFormData } from '../types';
+import type { CalendarHoliday, HolidayFormData } from '../types';
 
 interface HolidayEditorModalProps {
   isOpen: boolean;
   onClose: () => void;
-  holiday: BulgarianHoliday | null;
+  holiday: CalendarHoliday | null;
   onSave: (data: HolidayFormData) => Promise<boolean>;
   onUpdate: (id: string, data: HolidayFormData) => Promise<boolean>;
   isSaving: boolean;
   defaultYear: number;
 }
 
-function getFormDataFromHoliday(holiday: BulgarianHoliday | null, defaultYear: number): HolidayFormData {
+function getFormDataFromHoliday(holiday: CalendarHoliday | null, defaultYear: number): HolidayFormData {
   if (holiday) {
     return {
       holiday_name: holiday.holiday_name,
@@ -2,14 +2,14 @@ import { format } from 'date-fns';
 import { DropdownMenu } from './DropdownMenu';
 import { Spinner } from './Spinner';
 import { Badge } from './Badge';
-import type { BulgarianHoliday } from '../types';
+import type { CalendarHoliday } from '../types';
 
 interface HolidayTableProps {
-  holidays: BulgarianHoliday[];
+  holidays: CalendarHoliday[];
   loading: boolean;
   year: number;
-  onEdit: (holiday: BulgarianHoliday) => void;
-  onDelete: (holiday: BulgarianHoliday) => void;
+  onEdit: (holiday: CalendarHoliday) => void;
+  onDelete: (holiday: CalendarHoliday) => void;
 }
 
 export function HolidayTable({ holidays, loading, year, onEdit, onDelete }: HolidayTableProps) {
@@ -40,7 +40,7 @@ export function HolidayTable({ holidays, loading, year, onEdit, onDelete }: Holi
     );
   }
 
-  const getMenuItems = (holiday: BulgarianHoliday) => [
+  const getMenuItems = (holiday: CalendarHoliday) => [
     {
       label: 'Edit',
       onClick: () => onEdit(holiday),
@@ -0,0 +1,246 @@
+import { useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Spinner } from './Spinner';
+import type { InvoiceSettings } from '../hooks/useInvoiceSettings';
+
+interface InvoiceSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: InvoiceSettings | null;
+  onSave: (next: InvoiceSettings) => Promise<boolean>;
+  isSaving: boolean;
+  apiError?: string | null;
+  onClearApiError?: () => void;
+}
+
+interface FormData {
+  issuerName: string;
+  issuerAddress: string;
+  issuerTaxId: string;
+  issuerEmail: string;
+  paymentDetails: string;
+  footerNote: string;
+  brandColor: string;
+  invoicePrefix: string;
+  paymentTermsDays: string;
+}
+
+type FormErrors = Partial<Record<keyof FormData, string>>;
+
+function toFormData(settings: InvoiceSettings | null): FormData {
+  return {
+    issuerName: settings?.issuer_name ?? '',
+    issuerAddress: settings?.issuer_address ?? '',
+    issuerTaxId: settings?.issuer_tax_id ?? '',
+    issuerEmail: settings?.issuer_email ?? '',
+    paymentDetails: settings?.payment_details ?? '',
+    footerNote: settings?.footer_note ?? '',
+    brandColor: settings?.brand_color ?? '#111111',
+    invoicePrefix: settings?.invoice_prefix ?? 'INV',
+    paymentTermsDays: String(settings?.payment_terms_days ?? 30),
+  };
+}
+
+const TEXTAREA_CLASS =
+  'w-full !bg-white rounded-md border border-vercel-gray-200 focus:border-vercel-gray-400 focus:ring-1 focus:ring-vercel-gray-400 focus:outline-none transition-colors text-sm text-vercel-gray-600 placeholder:text-vercel-gray-200 px-3 py-2 resize-none';
+
+export function InvoiceSettingsModal({
+  isOpen,
+  onClose,
+  settings,
+  onSave,
+  isSaving,
+  apiError,
+  onClearApiError,
+}: InvoiceSettingsModalProps) {
+  const [formData, setFormData] = useState<FormData>(() => toFormData(settings));
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [lastResetKey, setLastResetKey] = useState<string>('');
+
+  // Reset form when modal opens (React-recommended pattern, mirrors ApiKeyEditorModal)
+  const resetKey = `${isOpen}-${settings ? 'loaded' : 'empty'}`;
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setFormData(toFormData(settings));
+    setErrors({});
+    onClearApiError?.();
+  }
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+    if (!formData.issuerName.trim()) {
+      newErrors.issuerName = 'Company name is required';
+    }
+    if (!/^#[0-9A-Fa-f]{6}$/.test(formData.brandColor.trim())) {
+      newErrors.brandColor = 'Use a hex color like #1F4E79';
+    }
+    if (!/^[A-Za-z0-9]{1,10}$/.test(formData.invoicePrefix.trim())) {
+      newErrors.invoicePrefix = '1-10 letters or digits';
+    }
+    const terms = Number(formData.paymentTermsDays);
+    if (!Number.isInteger(terms) || terms < 0 || terms > 365) {
+      newErrors.paymentTermsDays = 'Whole days between 0 and 365';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!validateForm()) return;
+
+    const success = await onSave({
+      issuer_name: formData.issuerName.trim(),
+      issuer_address: formData.issuerAddress.trim() || null,
+      issuer_tax_id: formData.issuerTaxId.trim() || null,
+      issuer_email: formData.issuerEmail.trim() || null,
+      payment_details: formData.paymentDetails.trim() || null,
+      footer_note: formData.footerNote.trim() || null,
+      brand_color: formData.brandColor.trim(),
+      invoice_prefix: formData.invoicePrefix.trim().toUpperCase(),
+      payment_terms_days: Number(formData.paymentTermsDays),
+    });
+    if (success) onClose();
+  };
+
+  const handleInputChange = (field: keyof FormData, value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+    onClearApiError?.();
+  };
+
+  const footerContent = (
+    <>
+      <Button type="button" variant="secondary" onClick={onClose}>
+        Cancel
+      </Button>
+      <Button
+        type="button"
+        variant="primary"
+        onClick={() => handleSubmit()}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <span className="flex items-center gap-2">
+            <Spinner size="sm" color="white" />
+            Saving...
+          </span>
+        ) : (
+          'Save Settings'
+        )}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Invoice Settings"
+      maxWidth="lg"
+      footer={footerContent}
+    >
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <p className="text-sm text-vercel-gray-400">
+          Shown on every invoice PDF generated with the end-of-month reports. Changes apply to
+          PDFs generated afterwards; existing invoice numbers are kept.
+        </p>
+
+        <Input
+          label="Company name"
+          value={formData.issuerName}
+          onChange={(e) => handleInputChange('issuerName', e.target.value)}
+          error={errors.issuerName}
+          required
+        />
+
+        <div>
+          <label htmlFor="invoice-issuer-address" className="block text-sm font-medium text-vercel-gray-600 mb-1">
+            Address
+          </label>
+          <textarea
+            id="invoice-issuer-address"
+            value={formData.issuerAddress}
+            onChange={(e) => handleInputChange('issuerAddress', e.target.value)}
+            rows={3}
+            className={TEXTAREA_CLASS}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Input
+            label="Tax / VAT ID"
+            value={formData.issuerTaxId}
+            onChange={(e) => handleInputChange('issuerTaxId', e.target.value)}
+          />
+          <Input
+            label="Billing email"
+            type="email"
+            value={formData.issuerEmail}
+            onChange={(e) => handleInputChange('issuerEmail', e.target.value)}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="invoice-payment-details" className="block text-sm font-medium text-vercel-gray-600 mb-1">
+            Payment details
+          </label>
+          <textarea
+            id="invoice-payment-details"
+            value={formData.paymentDetails}
+            onChange={(e) => handleInputChange('paymentDetails', e.target.value)}
+            placeholder="Bank, IBAN, SWIFT..."
+            rows={3}
+            className={TEXTAREA_CLASS}
+          />
+        </div>
+
+        <Input
+          label="Footer note"
+          value={formData.footerNote}
+          onChange={(e) => handleInputChange('footerNote', e.target.value)}
+          placeholder="e.g. Thank you for your business"
+        />
+
+        <div className="grid grid-cols-3 gap-4">
+          <Input
+            label="Brand color"
+            value={formData.brandColor}
+            onChange={(e) => handleInputChange('brandColor', e.target.value)}
+            error={errors.brandColor}
+            endAddon={
+              <span
+                className="block w-3.5 h-3.5 rounded-sm border border-vercel-gray-200"
+                style={{ backgroundColor: /^#[0-9A-Fa-f]{6}$/.test(formData.brandColor) ? formData.brandColor : 'transparent' }}
+              />
+            }
+          />
+          <Input
+            label="Number prefix"
+            value={formData.invoicePrefix}
+            onChange={(e) => handleInputChange('invoicePrefix', e.target.value)}
+            error={errors.invoicePrefix}
+            helperText={`${formData.invoicePrefix.trim().toUpperCase() || 'INV'}-${new Date().getFullYear()}-0001`}
+          />
+          <Input
+            label="Payment terms (days)"
+            type="number"
+            min={0}
+            max={365}
+            value={formData.paymentTermsDays}
+            onChange={(e) => handleInputChange('paymentTermsDays', e.target.value)}
+            error={errors.paymentTermsDays}
+          />
+        </div>
+
+        {apiError && (
+          <div className="p-3 bg-error-light border border-error rounded-md">
+            <p className="text-sm text-error">{apiError}</p>
+          </div>
+        )}
+      </form>
+    </Modal>
+  );
+}
@@ -1,5 +1,7 @@
 import { useState, useRef, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
+import { usePermissions } from '../contexts/PermissionsContext';
+import { roleLabel } from '../utils/permissions';
 import { Avatar } from './Avatar';
 import { ProfileEditorModal } from './ProfileEditorModal';
 import { NavItem } from './NavItem';
@@ -7,7 +9,7 @@ import { AIChatWindow } from './chat';
 
 type DocsSection = 'tokens' | 'typography' | 'atoms' | 'molecules' | 'patterns';
 
-export type NavRoute = 'home' | 'holidays' | 'employees' | 'burn' | 'projects' | 'companies' | 'rates' | 'revenue' | 'billings' | 'expenses' | 'eom-reports' | 'users' | 'api-keys' | 'employee-management' | 'project-management' | 'investor-dashboard' | 'diagnostics' | 'formulas' | 'legal' | 'release-notes' | 'release-notes-admin';
+export type NavRoute = 'home' | 'holidays' | 'employees' | 'burn' | 'capacity' | 'approvals' | 'projects' | 'companies' | 'rates' | 'revenue' | 'billings' | 'expenses' | 'pnl' | 'eom-reports' | 'receivables' | 'users' | 'api-keys' | 'webhooks' | 'employee-management' | 'project-management' | 'investor-dashboard' | 'diagnostics' | 'timesheet-import' | 'formulas' | 'legal' | 'release-notes' | 'release-notes-admin' | 'audit';
 
 interface NavItemConfig {
   id: NavRoute;
@@ -19,12 +21,16 @@ const navItems: NavItemConfig[] = [
   { id: 'holidays', label: 'Holidays' },
   { id: 'employees', label: 'Employees' },
   { id: 'burn', label: 'Burn' },
+  { id: 'capacity', label: 'Capacity' },
+  { id: 'approvals', label: 'Approvals' },
   { id: 'projects', label: 'Projects' },
   { id: 'rates', label: 'Rates' },
   { id: 'revenue', label: 'Revenue' },
   { id: 'billings', label: 'Fixed Billing' },
   { id: 'expenses', label: 'Expenses' },
+  { id: 'pnl', label: 'P&L' },
   { id: 'eom-reports', label: 'Reports' },
+  { id: 'receivables', label: 'Receivables' },
 ];
 
 interface MainHeaderProps {
@@ -37,6 +43,7 @@ interface MainHeaderProps {
 
 export function MainHeader({ activeRoute, onRouteChange, onOpenDocs, alertCount = 0 }: MainHeaderProps) {
   const { user, signOut } = useAuth();
+  const { role, isAdmin, canAccess } = usePermissions();
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
   const [isChatOpen, setIsChatOpen] = useState(false);
@@ -90,7 +97,7 @@ export function MainHeader({ activeRoute, onRouteChange, onOpenDocs, alertCount
       <div className="max-w-7xl mx-auto px-6 h-full flex items-center justify-between">
         {/* Left: Navigation Items */}
         <nav className="flex items-center gap-1">
-          {navItems.map((item) => (
+          {navItems.filter((item) => canAccess(item.id)).map((item) => (
             <div key={item.id} className="relative flex items-center">
               <NavItem
                 label={item.label}
@@ -108,29 +115,33 @@ export function MainHeader({ activeRoute, onRouteChange, onOpenDocs, alertCount
 
         {/* Right: Links and Avatar */}
         <div className="flex items-center gap-4">
-          {/* Ask the Accountant - AI Chat */}
-          <button
-            onClick={() => setIsChatOpen(true)}
-            className="text-sm text-vercel-gray-400 hover:text-vercel-gray-600 transition-colors focus:outline-none focus:ring-1 focus:ring-black rounded px-2 py-1 flex items-center gap-1.5"
-          >
-            <svg
-              className="w-4 h-4"
-              fill="none"
-              stroke="currentColor"
-              viewBox="0 0 24 24"
-            >
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"
-              />
-            </svg>
-            Ask the Accountant
-          </button>
+          {/* Ask the Accountant - AI Chat (the chat function is admin-only) */}
+          {isAdmin && (
+            <>
+              <button
+                onClick={() => setIsChatOpen(true)}
+                className="text-sm text-vercel-gray-400 hover:text-vercel-gray-600 transition-colors focus:outline-none focus:ring-1 focus:ring-black rounded px-2 py-1 flex items-center gap-1.5"
+              >
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"
+                  />
+                </svg>
+                Ask the Accountant
+              </button>
 
-          {/* Separator */}
-          <div className="w-px h-6 bg-vercel-gray-100" />
+              {/* Separator */}
+              <div className="w-px h-6 bg-vercel-gray-100" />
+            </>
+          )}
 
           {/* User Avatar with Dropdown */}
           <div className="relative" ref={menuRef}>
@@ -149,6 +160,7 @@ export function MainHeader({ activeRoute, onRouteChange, onOpenDocs, alertCount
                 <div className="px-4 py-3 border-b border-vercel-gray-100">
                   <p className="text-sm font-medium text-vercel-gray-600">{formattedName}</p>
                   <p className="text-xs text-vercel-gray-400 truncate">{user?.email}</p>
+                  <p className="text-xs text-vercel-gray-400 mt-0.5">{roleLabel(role)}</p>
                 </div>
 
                 {/* Menu Items */}
@@ -162,78 +174,104 @@ export function MainHeader({ activeRoute, onRouteChange, onOpenDocs, alertCount
                     </svg>
                     Profile
                   </button>
-                  <button
-                    onClick={() => {
-                      setIsMenuOpen(false);
-                      onRouteChange('users');
-                    }}
-                    className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
-                    </svg>
-                    User Management
-                  </button>
-                  <button
-                    onClick={() => {
-                      setIsMenuOpen(false);
-                      onRouteChange('api-keys');
-                    }}
-                    className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
-                    </svg>
-                    API Keys
-                  </button>
-                  <button
-                    onClick={() => {
-                      setIsMenuOpen(false);
-                      onRouteChange('employee-management');
-                    }}
-                    className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
-                    </svg>
-                    Employee Management
-                  </button>
-                  <button
-                    onClick={() => {
-                      setIsMenuOpen(false);
-                      onRouteChange('project-management');
-                    }}
-                    className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
-                    </svg>
-                    Project Management
-                  </button>
-                  <button
-                    onClick={() => {
-                      setIsMenuOpen(false);
-                      onRouteChange('companies');
-                    }}
-                    className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
-                    </svg>
-                    Company Management
-                  </button>
-                  <button
-                    onClick={() => {
-                      setIsMenuOpen(false);
-                      onRouteChange('investor-dashboard');
-                    }}
-                    className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-                    </svg>
-                    Investor Dashboard
-                  </button>
+                  {canAccess('users') && (
+                    <button
+                      onClick={() => {
+                        setIsMenuOpen(false);
+                        onRouteChange('users');
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4.354a4 4 0 110 5.292M15 21H3v-1a6 6 0 0112 0v1zm0 0h6v-1a6 6 0 00-9-5.197M13 7a4 4 0 11-8 0 4 4 0 018 0z" />
+                      </svg>
+                      User Management
+                    </button>
+                  )}
+                  {canAccess('api-keys') && (
+                    <button
+                      onClick={() => {
+                        setIsMenuOpen(false);
+                        onRouteChange('api-keys');
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+                      </svg>
+                      API Keys
+                    </button>
+                  )}
+                  {canAccess('webhooks') && (
+                    <button
+                      onClick={() => {
+                        setIsMenuOpen(false);
+                        onRouteChange('webhooks');
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                      </svg>
+                      Webhooks
+                    </button>
+                  )}
+                  {canAccess('employee-management') && (
+                    <button
+                      onClick={() => {
+                        setIsMenuOpen(false);
+                        onRouteChange('employee-management');
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                      </svg>
+                      Employee Management
+                    </button>
+                  )}
+                  {canAccess('project-management') && (
+                    <button
+                      onClick={() => {
+                        setIsMenuOpen(false);
+                        onRouteChange('project-management');
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+                      </svg>
+                      Project Management
+                    </button>
+                  )}
+                  {canAccess('companies') && (
+                    <button
+                      onClick={() => {
+                        setIsMenuOpen(false);
+                        onRouteChange('companies');
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 21V5a2 2 0 00-2-2H7a2 2 0 00-2 2v16m14 0h2m-2 0h-5m-9 0H3m2 0h5M9 7h1m-1 4h1m4-4h1m-1 4h1m-5 10v-5a1 1 0 011-1h2a1 1 0 011 1v5m-4 0h4" />
+                      </svg>
+                      Company Management
+                    </button>
+                  )}
+                  {canAccess('investor-dashboard') && (
+                    <button
+                      onClick={() => {
+                        setIsMenuOpen(false);
+                        onRouteChange('investor-dashboard');
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                      </svg>
+                      Investor Dashboard
+                    </button>
+                  )}
                   <button
                     onClick={() => {
                       setIsMenuOpen(false);
@@ -246,30 +284,62 @@ export function MainHeader({ activeRoute, onRouteChange, onOpenDocs, alertCount
                     </svg>
                     Site Style
                   </button>
-                  <button
-                    onClick={() => {
-                      setIsMenuOpen(false);
-                      onRouteChange('diagnostics');
-                    }}
-                    className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
-                    </svg>
-                    Diagnostics
-                  </button>
-                  <button
-                    onClick={() => {
-                      setIsMenuOpen(false);
-                      onRouteChange('formulas');
-                    }}
-                    className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
-                    </svg>
-                    Formulas
-                  </button>
+                  {canAccess('diagnostics') && (
+                    <button
+                      onClick={() => {
+                        setIsMenuOpen(false);
+                        onRouteChange('diagnostics');
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                      </svg>
+                      Diagnostics
+                    </button>
+                  )}
+                  {canAccess('audit') && (
+                    <button
+                      onClick={() => {
+                        setIsMenuOpen(false);
+                        onRouteChange('audit');
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+                      </svg>
+                      Audit Trail
+                    </button>
+                  )}
+                  {canAccess('timesheet-import') && (
+                    <button
+                      onClick={() => {
+                        setIsMenuOpen(false);
+                        onRouteChange('timesheet-import');
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                      </svg>
+                      Timesheet Import
+                    </button>
+                  )}
+                  {canAccess('formulas') && (
+                    <button
+                      onClick={() => {
+                        setIsMenuOpen(false);
+                        onRouteChange('formulas');
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                      </svg>
+                      Formulas
+                    </button>
+                  )}
                   <button
                     onClick={() => {
                       setIsMenuOpen(false);
@@ -294,18 +364,20 @@ export function MainHeader({ activeRoute, onRouteChange, onOpenDocs, alertCount
                     </svg>
                     Release Notes
                   </button>
-                  <button
-                    onClick={() => {
-                      setIsMenuOpen(false);
-                      onRouteChange('release-notes-admin');
-                    }}
-                    className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
-                  >
-                    <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
-                    </svg>
-                    Manage Release Notes
-                  </button>
+                  {canAccess('release-notes-admin') && (
+                    <button
+                      onClick={() => {
+                        setIsMenuOpen(false);
+                        onRouteChange('release-notes-admin');
+                      }}
+                      className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
+                    >
+                      <svg className="w-4 h-4 text-vercel-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+                      </svg>
+                      Manage Release Notes
+                    </button>
+                  )}
                   <button
                     onClick={handleSignOut}
                     className="w-full px-4 py-2 text-left text-sm text-vercel-gray-600 hover:bg-vercel-gray-50 transition-colors flex items-center gap-2"
@@ -330,7 +402,7 @@ export function MainHeader({ activeRoute, onRouteChange, onOpenDocs, alertCount
 
       {/* AI Chat Window */}
       <AIChatWindow
-        isOpen={isChatOpen}
+        isOpen={isAdmin && isChatOpen}
         onClose={() => setIsChatOpen(false)}
       />
     </header>
@@ -0,0 +1,94 @@
+import { Badge } from './Badge';
+import { Button } from './Button';
+import { Spinner } from './Spinner';
+import type { MergeSuggestion } from '../utils/mergeSuggestions';
+
+interface MergeSuggestionListProps {
+  /** Ranked candidates, best first */
+  suggestions: MergeSuggestion[];
+  /** Whether signals are still loading */
+  loading?: boolean;
+  /** Error message from the signal fetch */
+  error?: string | null;
+  /** Stage a candidate as a group addition */
+  onStage: (suggestion: MergeSuggestion) => void;
+  /** Whether staging is disabled (during save) */
+  disabled?: boolean;
+}
+
+/**
+ * MergeSuggestionList - "Probably the same" candidates in the group editors
+ *
+ * Shows unassociated entities ranked by rankMergeSuggestions with the signals
+ * behind each score. Staging only adds to the editor's staged changes; nothing
+ * is persisted until the parent saves. Renders nothing when there are no
+ * candidates.
+ */
+export function MergeSuggestionList({
+  suggestions,
+  loading = false,
+  error = null,
+  onStage,
+  disabled = false,
+}: MergeSuggestionListProps) {
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 py-1 text-xs text-vercel-gray-400">
+        <Spinner size="sm" />
+        Looking for possible matches...
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="text-xs text-vercel-gray-300 italic">
+        Suggestions unavailable: {error}
+      </p>
+    );
+  }
+
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs font-medium text-vercel-gray-400">
+        Suggested Matches
+      </div>
+      {suggestions.map((suggestion) => (
+        <div
+          key={suggestion.entityId}
+          className="flex items-center justify-between gap-3 px-3 py-2 border border-dashed border-vercel-gray-200 rounded-md bg-white"
+        >
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-vercel-gray-600 truncate">
+                {suggestion.name}
+              </span>
+              {suggestion.altName && suggestion.altName !== suggestion.name && (
+                <span className="text-xs text-vercel-gray-300 truncate">
+                  ({suggestion.altName})
+                </span>
+              )}
+              <Badge variant={suggestion.confidence === 'high' ? 'success' : 'warning'} size="sm">
+                {suggestion.confidence === 'high' ? 'Probably the same' : 'Possible match'} · {suggestion.score}
+              </Badge>
+            </div>
+            <p className="mt-0.5 text-xs text-vercel-gray-300 truncate">
+              {suggestion.reasons.join(' · ')}
+            </p>
+          </div>
+          <Button
+            type="button"
+            variant="secondary"
+            size="sm"
+            onClick={() => onStage(suggestion)}
+            disabled={disabled}
+          >
+            Stage
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -3,7 +3,10 @@ import { Button } from './Button';
 import { Select } from './Select';
 import { Spinner } from './Spinner';
 import { Badge } from './Badge';
+import { MergeSuggestionList } from './MergeSuggestionList';
 import { useUnassociatedEntities } from '../hooks/usePhysicalPersonGroup';
+import { useMergeSuggestions } from '../hooks/useMergeSuggestions';
+import type { MergeSuggestion } from '../utils/mergeSuggestions';
 import type {
   GroupMemberDisplay,
   StagedGroupChanges,
@@ -42,6 +45,7 @@ interface DisplayMember {
  * Features:
  * - Displays current group members
  * - Add new members from unassociated entities dropdown
+ * - Ranked "probably the same" suggestions (name, email, work overlap)
  * - Remove members from group
  * - Staging behavior: changes are not persisted until parent saves
  */
@@ -98,11 +102,11 @@ export function PhysicalPersonGroupSection({
     return members;
   }, [persistedMembers, stagedChanges]);
 
-  // Filter dropdown options:
-  // - Exclude the primary entity
-  // - Exclude already persisted members
-  // - Exclude staged additions
-  const dropdownOptions = useMemo(() => {
+  // Entities that can't be added:
+  // - The primary entity
+  // - Already persisted members
+  // - Staged additions
+  const excludeIds = useMemo(() => {
     const excludeIds = new Set<string>();
     excludeIds.add(resourceId); // Exclude primary
 
@@ -118,13 +122,23 @@ export function PhysicalPersonGroupSection({
       excludeIds.add(add.resource_id);
     }
 
+    return excludeIds;
+  }, [resourceId, persistedMembers, stagedChanges]);
+
+  const dropdownOptions = useMemo(() => {
     return unassociatedEntities
       .filter(e => !excludeIds.has(e.resource_id))
       .map(e => ({
         value: e.resource_id,
         label: e.display_name || e.external_label,
       }));
-  }, [unassociatedEntities, resourceId, persistedMembers, stagedChanges]);
+  }, [unassociatedEntities, excludeIds]);
+
+  const {
+    suggestions,
+    isLoading: loadingSuggestions,
+    error: suggestionsError,
+  } = useMergeSuggestions('employee', resourceId, excludeIds);
 
   // Handle adding a member (staging, not persisting)
   const handleAddMember = () => {
@@ -149,6 +163,21 @@ export function PhysicalPersonGroupSection({
     setIsAddingNew(false);
   };
 
+  // Handle staging a suggested match
+  const handleStageSuggestion = (suggestion: MergeSuggestion) => {
+    const newAddition: StagedMemberAdd = {
+      resource_id: suggestion.entityId,
+      display_name: suggestion.name,
+      external_label: suggestion.altName ?? suggestion.name,
+      user_id: suggestion.externalId,
+    };
+
+    onStagedChangesUpdate({
+      ...stagedChanges,
+      additions: [...stagedChanges.additions, newAddition],
+    });
+  };
+
   // Handle removing a member (staging, not persisting)
   const handleRemoveMember = (memberId: string) => {
     // Check if this is a staged addition or a persisted member
@@ -269,6 +298,15 @@ export function PhysicalPersonGroupSection({
         )}
       </div>
 
+      {/* Suggested matches */}
+      <MergeSuggestionList
+        suggestions={suggestions}
+        loading={loadingSuggestions}
+        error={suggestionsError}
+        onStage={handleStageSuggestion}
+        disabled={disabled}
+      />
+
       {/* Add new member UI */}
       {isAddingNew ? (
         <div className="space-y-3 p-3 border border-vercel-gray-100 rounded-md bg-white">
@@ -0,0 +1,270 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Select } from './Select';
+import { Spinner } from './Spinner';
+import { MonthPicker } from './MonthPicker';
+import type {
+  MonthSelection,
+  Project,
+  ProjectBudgetFormData,
+  ProjectBudgetStatus,
+  ProjectBudgetType,
+} from '../types';
+
+interface ProjectBudgetEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Budget being edited, or null to create one */
+  budget: ProjectBudgetStatus | null;
+  projects: Project[];
+  /** Internal project ids that already have a budget */
+  budgetedProjectIds: Set<string>;
+  onSave: (data: ProjectBudgetFormData, id?: string) => Promise<boolean>;
+  isSaving: boolean;
+  apiError?: string | null;
+  onClearApiError?: () => void;
+}
+
+interface FormData {
+  projectId: string;
+  budgetType: ProjectBudgetType;
+  amount: string;
+  startMonth: MonthSelection;
+  endMonth: MonthSelection;
+  notes: string;
+}
+
+type FormErrors = Partial<Record<'projectId' | 'amount' | 'endMonth', string>>;
+
+const BUDGET_TYPE_OPTIONS = [
+  { value: 'hours', label: 'Hours' },
+  { value: 'dollars', label: 'Dollars (USD)' },
+];
+
+function toMonthSelection(iso: string): MonthSelection {
+  const [year, month] = iso.split('-').map(Number);
+  return { year, month };
+}
+
+function toMonthIso(month: MonthSelection): string {
+  return `${month.year}-${String(month.month).padStart(2, '0')}-01`;
+}
+
+function toFormData(budget: ProjectBudgetStatus | null): FormData {
+  if (budget) {
+    return {
+      projectId: budget.project_id,
+      budgetType: budget.budget_type,
+      amount: budget.budget_type === 'hours'
+        ? String(budget.budget_hours ?? '')
+        : ((budget.budget_cents ?? 0) / 100).toFixed(2),
+      startMonth: toMonthSelection(budget.start_month),
+      endMonth: toMonthSelection(budget.end_month),
+      notes: budget.notes ?? '',
+    };
+  }
+  const current = toMonthSelection(format(new Date(), 'yyyy-MM-01'));
+  return {
+    projectId: '',
+    budgetType: 'hours',
+    amount: '',
+    startMonth: current,
+    endMonth: current,
+    notes: '',
+  };
+}
+
+/**
+ * Create or edit a project budget: hours or dollars over an inclusive month
+ * range. Projects that already have a budget are not offered when creating.
+ */
+export function ProjectBudgetEditorModal({
+  isOpen,
+  onClose,
+  budget,
+  projects,
+  budgetedProjectIds,
+  onSave,
+  isSaving,
+  apiError,
+  onClearApiError,
+}: ProjectBudgetEditorModalProps) {
+  const [formData, setFormData] = useState<FormData>(() => toFormData(budget));
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [lastResetKey, setLastResetKey] = useState<string>('');
+
+  const isEditing = !!budget;
+
+  // Reset form when modal opens (React-recommended pattern)
+  const resetKey = `${isOpen}-${budget?.id ?? 'new'}`;
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setFormData(toFormData(budget));
+    setErrors({});
+    onClearApiError?.();
+  }
+
+  const projectOptions = useMemo(() =>
+    projects
+      .filter((p) => p.id === budget?.project_id || !budgetedProjectIds.has(p.id))
+      .map((p) => ({ value: p.id, label: p.project_name }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    [projects, budget?.project_id, budgetedProjectIds]
+  );
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+    if (!formData.projectId) {
+      newErrors.projectId = 'Project is required';
+    }
+    const amount = Number(formData.amount);
+    if (!formData.amount || !Number.isFinite(amount) || amount <= 0) {
+      newErrors.amount = 'Enter a budget greater than zero';
+    }
+    if (toMonthIso(formData.endMonth) < toMonthIso(formData.startMonth)) {
+      newErrors.endMonth = 'End month cannot be before the start month';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!validateForm()) return;
+
+    const amount = Number(formData.amount);
+    const success = await onSave({
+      project_id: formData.projectId,
+      budget_type: formData.budgetType,
+      budget_hours: formData.budgetType === 'hours' ? Math.round(amount * 100) / 100 : null,
+      budget_cents: formData.budgetType === 'dollars' ? Math.round(amount * 100) : null,
+      start_month: toMonthIso(formData.startMonth),
+      end_month: toMonthIso(formData.endMonth),
+      notes: formData.notes.trim() || null,
+    }, budget?.id);
+    if (success) onClose();
+  };
+
+  const updateField = <K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+    onClearApiError?.();
+  };
+
+  const footerContent = (
+    <>
+      <Button type="button" variant="secondary" onClick={onClose}>
+        Cancel
+      </Button>
+      <Button
+        type="button"
+        variant="primary"
+        onClick={() => handleSubmit()}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <span className="flex items-center gap-2">
+            <Spinner size="sm" color="white" />
+            Saving...
+          </span>
+        ) : (
+          isEditing ? 'Save Changes' : 'Add Budget'
+        )}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? 'Edit Budget' : 'Add Budget'}
+      maxWidth="md"
+      footer={footerContent}
+    >
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div>
+          <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+            Project
+          </label>
+          <Select
+            value={formData.projectId}
+            onChange={(value) => updateField('projectId', value)}
+            options={projectOptions}
+            placeholder="Select project"
+            className="w-full"
+            disabled={isEditing}
+          />
+          {errors.projectId && (
+            <p className="mt-1 text-xs text-error" role="alert">{errors.projectId}</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+              Budget Type
+            </label>
+            <Select
+              value={formData.budgetType}
+              onChange={(value) => updateField('budgetType', value as ProjectBudgetType)}
+              options={BUDGET_TYPE_OPTIONS}
+              className="w-full"
+            />
+          </div>
+          <Input
+            label={formData.budgetType === 'hours' ? 'Budget (hours)' : 'Budget (USD)'}
+            type="number"
+            min={0}
+            step={formData.budgetType === 'hours' ? '0.25' : '0.01'}
+            value={formData.amount}
+            onChange={(e) => updateField('amount', e.target.value)}
+            error={errors.amount}
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+            Start Month
+          </label>
+          <MonthPicker
+            selectedMonth={formData.startMonth}
+            onChange={(month) => updateField('startMonth', month)}
+            showTodayButton={false}
+          />
+        </div>
+
+        <div>
+          <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+            End Month
+          </label>
+          <MonthPicker
+            selectedMonth={formData.endMonth}
+            onChange={(month) => updateField('endMonth', month)}
+            showTodayButton={false}
+          />
+          {errors.endMonth && (
+            <p className="mt-1 text-xs text-error" role="alert">{errors.endMonth}</p>
+          )}
+        </div>
+
+        <Input
+          label="Notes"
+          value={formData.notes}
+          onChange={(e) => updateField('notes', e.target.value)}
+          placeholder="e.g. SOW #12, fixed bid"
+        />
+
+        {apiError && (
+          <div className="p-3 bg-error-light border border-error rounded-md">
+            <p className="text-sm text-error">{apiError}</p>
+          </div>
+        )}
+      </form>
+    </Modal>
+  );
+}
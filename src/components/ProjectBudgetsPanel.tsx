@@ -0,0 +1,302 @@
+/**
+ * ProjectBudgetsPanel - Project budgets, burn-down chart and forecast
+ *
+ * Lists every project budget with its burn to date. Selecting a budget shows
+ * its monthly burn-down (ideal vs actual vs run-rate forecast) and the
+ * forecast to complete. Threshold alerts (75/90/100%) are raised by the
+ * database into sync_alerts and appear in the Dashboard banner.
+ *
+ * @category Component
+ */
+
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useProjectBudgets } from '../hooks/useProjectBudgets';
+import { useProjectBudgetBurn } from '../hooks/useProjectBudgetBurn';
+import { ProjectBudgetEditorModal } from './ProjectBudgetEditorModal';
+import { TrendLineAtom, chartColors } from './atoms/charts';
+import type { TrendLineSeries } from './atoms/charts';
+import { MetricCard } from './MetricCard';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Badge } from './Badge';
+import { Spinner } from './Spinner';
+import { Alert } from './Alert';
+import { budgetAmount, buildBurnDown, forecastBudget } from '../utils/projectBudget';
+import { formatCurrency, formatHours } from '../utils/billing';
+import type { Project, ProjectBudgetStatus } from '../types';
+
+interface ProjectBudgetsPanelProps {
+  /** All projects, for the budget editor */
+  projects: Project[];
+}
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+const TH_RIGHT_CLASS = 'px-4 py-3 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+const BURN_DOWN_SERIES: TrendLineSeries[] = [
+  { dataKey: 'actual', name: 'Remaining', color: chartColors.bteamBrand },
+  { dataKey: 'forecast', name: 'Forecast', color: chartColors.warning, strokeDasharray: '5 5' },
+  { dataKey: 'ideal', name: 'Ideal', color: chartColors.axisText, strokeDasharray: '3 3' },
+];
+
+function formatAmount(budget: Pick<ProjectBudgetStatus, 'budget_type'>, value: number): string {
+  return budget.budget_type === 'hours' ? `${formatHours(Math.round(value * 100) / 100)}h` : formatCurrency(value);
+}
+
+function formatMonth(iso: string): string {
+  return format(parseISO(iso), 'MMM yyyy');
+}
+
+function burnBadge(burnPct: number) {
+  if (burnPct >= 100) return <Badge variant="error">{burnPct.toFixed(1)}%</Badge>;
+  if (burnPct >= 75) return <Badge variant="warning">{burnPct.toFixed(1)}%</Badge>;
+  return <Badge variant="default">{burnPct.toFixed(1)}%</Badge>;
+}
+
+function burnBarClass(burnPct: number): string {
+  if (burnPct >= 100) return 'bg-error';
+  if (burnPct >= 75) return 'bg-warning';
+  return 'bg-success';
+}
+
+export function ProjectBudgetsPanel({ projects }: ProjectBudgetsPanelProps) {
+  const {
+    budgets,
+    isLoading,
+    isSaving,
+    error,
+    saveBudget,
+    deleteBudget,
+    clearError,
+  } = useProjectBudgets();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingBudget, setEditingBudget] = useState<ProjectBudgetStatus | null>(null);
+  const [budgetToDelete, setBudgetToDelete] = useState<ProjectBudgetStatus | null>(null);
+
+  const selected = budgets.find((b) => b.id === selectedId) ?? budgets[0] ?? null;
+  const { burn, loading: burnLoading } = useProjectBudgetBurn(selected?.id ?? null, selected?.updated_at);
+
+  const budgetedProjectIds = useMemo(() => new Set(budgets.map((b) => b.project_id)), [budgets]);
+
+  const { forecast, burnDown } = useMemo(() => {
+    if (!selected) return { forecast: null, burnDown: [] };
+    const today = new Date();
+    return {
+      forecast: forecastBudget(selected, burn, today),
+      burnDown: buildBurnDown(selected, burn, today),
+    };
+  }, [selected, burn]);
+
+  const handleAdd = () => {
+    setEditingBudget(null);
+    setIsEditorOpen(true);
+  };
+
+  const handleEdit = (budget: ProjectBudgetStatus) => {
+    setEditingBudget(budget);
+    setIsEditorOpen(true);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!budgetToDelete) return;
+    const success = await deleteBudget(budgetToDelete.id);
+    if (success) setBudgetToDelete(null);
+  };
+
+  const formatValue = (value: number) => (selected ? formatAmount(selected, value) : String(value));
+
+  return (
+    <section className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-vercel-gray-600">Project Budgets</h2>
+          <p className="text-sm text-vercel-gray-400 mt-1">
+            Burn against multi-month budgets, all months to date
+          </p>
+        </div>
+        <Button variant="primary" onClick={handleAdd}>
+          Add Budget
+        </Button>
+      </div>
+
+      {error && !isEditorOpen && <Alert message={error} icon="error" variant="error" />}
+
+      <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+              <th className={TH_CLASS}>Project</th>
+              <th className={TH_CLASS}>Period</th>
+              <th className={TH_RIGHT_CLASS}>Budget</th>
+              <th className={TH_RIGHT_CLASS}>Burned</th>
+              <th className={TH_CLASS}>Progress</th>
+              <th className={TH_RIGHT_CLASS}>Actions</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-vercel-gray-100">
+            {isLoading ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center">
+                  <Spinner size="md" />
+                </td>
+              </tr>
+            ) : budgets.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-sm text-vercel-gray-400">
+                  No project budgets yet.
+                </td>
+              </tr>
+            ) : (
+              budgets.map((budget) => (
+                <tr
+                  key={budget.id}
+                  onClick={() => setSelectedId(budget.id)}
+                  className={`cursor-pointer hover:bg-vercel-gray-50 ${budget.id === selected?.id ? 'bg-vercel-gray-50' : ''}`}
+                >
+                  <td className="px-4 py-3">
+                    <div className="text-sm font-medium text-vercel-gray-600">{budget.project_name}</div>
+                    {budget.company_name && (
+                      <div className="text-xs text-vercel-gray-400">{budget.company_name}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-sm text-vercel-gray-400">
+                    {formatMonth(budget.start_month)} – {formatMonth(budget.end_month)}
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm font-mono text-vercel-gray-600">
+                    {formatAmount(budget, budgetAmount(budget))}
+                  </td>
+                  <td className="px-4 py-3 text-right text-sm font-mono text-vercel-gray-600">
+                    {formatAmount(budget, budget.budget_type === 'hours' ? budget.burned_hours : budget.burned_cents / 100)}
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-3">
+                      <div className="flex-1 h-2 bg-vercel-gray-100 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full ${burnBarClass(budget.burn_pct)}`}
+                          style={{ width: `${Math.min(budget.burn_pct, 100)}%` }}
+                        />
+                      </div>
+                      {burnBadge(budget.burn_pct)}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => { e.stopPropagation(); handleEdit(budget); }}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => { e.stopPropagation(); setBudgetToDelete(budget); }}
+                    >
+                      Delete
+                    </Button>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Burn-down + forecast for the selected budget */}
+      {selected && forecast && (
+        <div className="bg-white rounded-lg border border-vercel-gray-100 p-6 space-y-6">
+          <div>
+            <h3 className="text-sm font-semibold text-vercel-gray-600">{selected.project_name} — Burn-down</h3>
+            {selected.notes && <p className="text-xs text-vercel-gray-400 mt-1">{selected.notes}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <MetricCard
+              title="Remaining"
+              value={formatValue(forecast.remaining)}
+              statusColor={forecast.remaining < 0 ? 'red' : 'default'}
+              loading={burnLoading}
+            />
+            <MetricCard
+              title="Run Rate / Month"
+              value={formatValue(forecast.runRate)}
+              loading={burnLoading}
+            />
+            <MetricCard
+              title="Forecast to Complete"
+              value={formatValue(forecast.forecastToComplete)}
+              secondaryLabel="At completion"
+              secondaryValue={`${formatValue(forecast.forecastAtCompletion)} (${forecast.forecastPct.toFixed(0)}%)`}
+              statusColor={forecast.forecastPct > 100 ? 'orange' : 'green'}
+              loading={burnLoading}
+            />
+            <MetricCard
+              title="Budget Runs Out"
+              value={forecast.exhaustionMonth ? formatMonth(forecast.exhaustionMonth) : 'Within budget'}
+              statusColor={forecast.exhaustionMonth ? 'red' : 'green'}
+              loading={burnLoading}
+            />
+          </div>
+
+          {burnLoading ? (
+            <div className="flex items-center justify-center py-12">
+              <Spinner size="md" />
+            </div>
+          ) : (
+            <TrendLineAtom
+              data={burnDown.map((p) => ({
+                month: p.month,
+                ideal: p.ideal,
+                actual: p.actual,
+                forecast: p.forecast,
+              }))}
+              series={BURN_DOWN_SERIES}
+              leftFormatter={formatValue}
+            />
+          )}
+        </div>
+      )}
+
+      <ProjectBudgetEditorModal
+        isOpen={isEditorOpen}
+        onClose={() => setIsEditorOpen(false)}
+        budget={editingBudget}
+        projects={projects}
+        budgetedProjectIds={budgetedProjectIds}
+        onSave={saveBudget}
+        isSaving={isSaving}
+        apiError={error}
+        onClearApiError={clearError}
+      />
+
+      <Modal
+        isOpen={!!budgetToDelete}
+        onClose={() => setBudgetToDelete(null)}
+        title="Delete Budget"
+        maxWidth="sm"
+        centerTitle
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setBudgetToDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="danger" onClick={handleConfirmDelete} disabled={isSaving}>
+              {isSaving ? 'Deleting...' : 'Delete'}
+            </Button>
+          </>
+        }
+      >
+        <div className="text-center py-4">
+          <p className="text-sm text-vercel-gray-600">
+            Delete the budget for{' '}
+            <span className="font-semibold">{budgetToDelete?.project_name}</span>?
+          </p>
+          <p className="text-xs text-vercel-gray-400 mt-2">Any open budget alert for it will be resolved.</p>
+        </div>
+      </Modal>
+    </section>
+  );
+}
@@ -5,6 +5,7 @@ import { Spinner } from './Spinner';
 import { Toggle } from './Toggle';
 import { ProjectGroupSection } from './ProjectGroupSection';
 import { ProjectManagerSection } from './ProjectManagerSection';
+import { EntityHistoryPanel } from './EntityHistoryPanel';
 import { useProjectGroup } from '../hooks/useProjectGroup';
 import { useProjectGroupMutations } from '../hooks/useProjectGroupMutations';
 import { useProjectUpdate } from '../hooks/useProjectUpdate';
@@ -271,6 +272,9 @@ export function ProjectEditorModal({
           />
         )}
 
+        {/* Change history */}
+        <EntityHistoryPanel entityType="project" entityId={project.id} />
+
         {/* Error display */}
         {(groupSaveError || projectUpdateError || managerSaveError) && (
           <div className="p-3 bg-error-light border border-error rounded-md">
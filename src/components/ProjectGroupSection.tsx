@@ -3,7 +3,10 @@ import { Button } from './Button';
 import { Select } from './Select';
 import { Spinner } from './Spinner';
 import { Badge } from './Badge';
+import { MergeSuggestionList } from './MergeSuggestionList';
 import { useUnassociatedProjects } from '../hooks/useProjectGroup';
+import { useMergeSuggestions } from '../hooks/useMergeSuggestions';
+import type { MergeSuggestion } from '../utils/mergeSuggestions';
 import type {
   ProjectGroupMemberDisplay,
   StagedProjectGroupChanges,
@@ -89,8 +92,11 @@ export function ProjectGroupSection({
     return members;
   }, [persistedMembers, stagedChanges]);
 
-  // Filter dropdown options
-  const dropdownOptions = useMemo(() => {
+  // Entities that can't be added:
+  // - The primary entity
+  // - Already persisted members
+  // - Staged additions
+  const excludeIds = useMemo(() => {
     const excludeIds = new Set<string>();
     excludeIds.add(projectId); // Exclude primary
 
@@ -106,13 +112,23 @@ export function ProjectGroupSection({
       excludeIds.add(add.id);
     }
 
+    return excludeIds;
+  }, [projectId, persistedMembers, stagedChanges]);
+
+  const dropdownOptions = useMemo(() => {
     return unassociatedProjects
       .filter(p => !excludeIds.has(p.id))
       .map(p => ({
         value: p.id,
         label: p.project_name,
       }));
-  }, [unassociatedProjects, projectId, persistedMembers, stagedChanges]);
+  }, [unassociatedProjects, excludeIds]);
+
+  const {
+    suggestions,
+    isLoading: loadingSuggestions,
+    error: suggestionsError,
+  } = useMergeSuggestions('project', projectId, excludeIds);
 
   // Handle adding a member (staging, not persisting)
   const handleAddMember = () => {
@@ -136,6 +152,20 @@ export function ProjectGroupSection({
     setIsAddingNew(false);
   };
 
+  // Handle staging a suggested match
+  const handleStageSuggestion = (suggestion: MergeSuggestion) => {
+    const newAddition: StagedProjectMemberAdd = {
+      id: suggestion.entityId,
+      project_id: suggestion.externalId ?? '',
+      project_name: suggestion.name,
+    };
+
+    onStagedChangesUpdate({
+      ...stagedChanges,
+      additions: [...stagedChanges.additions, newAddition],
+    });
+  };
+
   // Handle removing a member (staging, not persisting)
   const handleRemoveMember = (memberId: string) => {
     const isStaged = stagedChanges.additions.some(a => a.id === memberId);
@@ -242,6 +272,15 @@ export function ProjectGroupSection({
         )}
       </div>
 
+      {/* Suggested matches */}
+      <MergeSuggestionList
+        suggestions={suggestions}
+        loading={loadingSuggestions}
+        error={suggestionsError}
+        onStage={handleStageSuggestion}
+        disabled={disabled}
+      />
+
       {/* Add new member UI */}
       {isAddingNew ? (
         <div className="space-y-3 p-3 border border-vercel-gray-100 rounded-md bg-white">
@@ -3,7 +3,7 @@
  *
  * Features:
  * - Month navigation via DateCycle to view/edit different months
- * - Rate input field
+ * - Rate input field (in the company's billing currency)
  * - Rounding increment select
  * - Billing limits (minimum/maximum hours, carryover)
  * - Active status toggle (controls minimum billing)
@@ -23,7 +23,8 @@ import { Alert } from './Alert';
 import { Checkbox } from './Checkbox';
 import { DateCycle } from './molecules/DateCycle';
 import { useSingleProjectRate } from '../hooks/useSingleProjectRate';
-import type { MonthSelection, ProjectRateDisplayWithBilling, RoundingIncrement, RoundingMode, ProjectBillingLimits } from '../types';
+import { currencySymbol, formatMoney, rateInBillingCurrency } from '../utils/billingCurrency';
+import type { BillingCurrency, MonthSelection, ProjectRateDisplayWithBilling, RoundingIncrement, RoundingMode, ProjectBillingLimits } from '../types';
 
 interface RateEditModalProps {
   isOpen: boolean;
@@ -32,7 +33,7 @@ interface RateEditModalProps {
   project: ProjectRateDisplayWithBilling | null;
   /** Initial month from the Rates page selection */
   initialMonth: MonthSelection;
-  onSave: (projectId: string, month: MonthSelection, rate: number) => Promise<boolean>;
+  onSave: (projectId: string, month: MonthSelection, rate: number, currency: BillingCurrency) => Promise<boolean>;
   onSaveRounding: (projectId: string, month: MonthSelection, increment: RoundingIncrement, roundingMode?: RoundingMode) => Promise<boolean>;
   onSaveBillingLimits: (projectId: string, month: MonthSelection, limits: Partial<ProjectBillingLimits>) => Promise<boolean>;
   onSaveActiveStatus: (projectId: string, month: MonthSelection, isActive: boolean) => Promise<boolean>;
@@ -104,6 +105,10 @@ export function RateEditModal({
     return fetchedProjectRate;
   }, [isInitialMonth, project, fetchedProjectRate]);
 
+  // The rate is edited in the company's billing currency (migration 153)
+  const rateCurrency: BillingCurrency = displayProject?.billingCurrency ?? 'USD';
+  const currentRate = displayProject ? rateInBillingCurrency(displayProject) : 0;
+
   // Rate and rounding state
   const [rateValue, setRateValue] = useState<string>('');
   const [roundingValue, setRoundingValue] = useState<RoundingIncrement>(15);
@@ -139,7 +144,7 @@ export function RateEditModal({
     if (resetKey !== lastResetKey && !isLoadingRate) {
       setLastResetKey(resetKey);
       // Rate and rounding
-      setRateValue(displayProject?.effectiveRate?.toString() || '');
+      setRateValue(displayProject ? rateInBillingCurrency(displayProject).toString() : '');
       setRoundingValue(displayProject?.effectiveRounding ?? 15);
       setRoundingModeValue(displayProject?.effectiveRoundingMode ?? 'task');
       // Billing limits
@@ -165,11 +170,11 @@ export function RateEditModal({
     const changes: PendingChange[] = [];
     const rate = parseFloat(rateValue);
 
-    if (!isNaN(rate) && rate !== displayProject.effectiveRate) {
+    if (!isNaN(rate) && rate !== currentRate) {
       changes.push({
         field: 'Hourly Rate',
-        oldValue: `$${displayProject.effectiveRate.toFixed(2)}`,
-        newValue: `$${rate.toFixed(2)}`,
+        oldValue: formatMoney(currentRate, rateCurrency),
+        newValue: formatMoney(rate, rateCurrency),
       });
     }
 
@@ -227,7 +232,7 @@ export function RateEditModal({
     }
 
     return changes;
-  }, [displayProject, rateValue, roundingValue, roundingModeValue, minHoursValue, maxHoursValue, carryoverEnabled, isActiveValue]);
+  }, [displayProject, currentRate, rateCurrency, rateValue, roundingValue, roundingModeValue, minHoursValue, maxHoursValue, carryoverEnabled, isActiveValue]);
 
   const isZeroRate = parseFloat(rateValue) === 0;
   const hasChanges = pendingChanges.length > 0;
@@ -270,7 +275,7 @@ export function RateEditModal({
     const minHours = minHoursValue === '' ? null : parseFloat(minHoursValue);
     const maxHours = maxHoursValue === '' ? null : parseFloat(maxHoursValue);
 
-    const rateChanged = rate !== displayProject.effectiveRate;
+    const rateChanged = rate !== currentRate;
     const roundingChanged = roundingValue !== displayProject.effectiveRounding || roundingModeValue !== displayProject.effectiveRoundingMode;
     const limitsChanged = minHours !== displayProject.minimumHours ||
       maxHours !== displayProject.maximumHours ||
@@ -280,7 +285,7 @@ export function RateEditModal({
     let success = true;
 
     if (rateChanged) {
-      success = await onSave(project.projectId, currentMonth, rate);
+      success = await onSave(project.projectId, currentMonth, rate, rateCurrency);
     }
 
     if (success && roundingChanged) {
@@ -303,7 +308,7 @@ export function RateEditModal({
       setShowConfirmation(false);
       onClose();
     }
-  }, [project, displayProject, rateValue, roundingValue, roundingModeValue, minHoursValue, maxHoursValue, carryoverEnabled, isActiveValue, isZeroRate, zeroRateAcknowledged, currentMonth, onSave, onSaveRounding, onSaveBillingLimits, onSaveActiveStatus, onClose]);
+  }, [project, displayProject, currentRate, rateCurrency, rateValue, roundingValue, roundingModeValue, minHoursValue, maxHoursValue, carryoverEnabled, isActiveValue, isZeroRate, zeroRateAcknowledged, currentMonth, onSave, onSaveRounding, onSaveBillingLimits, onSaveActiveStatus, onClose]);
 
   const handleRateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
@@ -485,13 +490,16 @@ export function RateEditModal({
           <div className={`space-y-6 ${isLoadingRate ? 'pointer-events-none' : ''}`}>
             {/* Rate Input */}
             <Input
-              label="Hourly Rate (USD)"
+              label={`Hourly Rate (${rateCurrency})`}
               type="text"
               inputMode="decimal"
               value={rateValue}
               onChange={handleRateChange}
               placeholder="45.00"
-              startAddon="$"
+              startAddon={currencySymbol(rateCurrency)}
+              helperText={rateCurrency !== 'USD' && displayProject
+                ? `Reported as ${formatMoney(displayProject.effectiveRate, 'USD')}/hr at this month's EUR/USD rate`
+                : undefined}
               disabled={isLoadingRate}
             />
 
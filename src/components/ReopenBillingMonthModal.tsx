@@ -0,0 +1,74 @@
+import { useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Input } from './Input';
+
+interface ReopenBillingMonthModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Display label for the month, e.g. "March 2026" */
+  monthLabel: string;
+  onConfirm: (reason: string) => Promise<boolean> | boolean;
+  isOperating: boolean;
+}
+
+export function ReopenBillingMonthModal({
+  isOpen,
+  onClose,
+  monthLabel,
+  onConfirm,
+  isOperating,
+}: ReopenBillingMonthModalProps) {
+  const [reason, setReason] = useState('');
+
+  const handleClose = () => {
+    setReason('');
+    onClose();
+  };
+
+  const handleConfirm = async () => {
+    const success = await onConfirm(reason.trim());
+    if (success) {
+      setReason('');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Reopen Billing Month"
+      maxWidth="md"
+      centerTitle
+      footer={
+        <>
+          <Button variant="secondary" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            onClick={handleConfirm}
+            disabled={isOperating || reason.trim().length === 0}
+          >
+            {isOperating ? 'Reopening...' : 'Reopen Month'}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4 py-2">
+        <p className="text-sm text-vercel-gray-600">
+          Reopening <span className="font-semibold">{monthLabel}</span> releases the locked revenue.
+          Queued syncs and rate changes will be applied and figures may change.
+        </p>
+        <Input
+          label="Reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="e.g. Client disputed hours on invoice #1042"
+          helperText="Recorded in the billing audit log."
+          autoFocus
+        />
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,303 @@
+import { useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Select } from './Select';
+import { Spinner } from './Spinner';
+import { Toggle } from './Toggle';
+import { Checkbox } from './Checkbox';
+import {
+  TEMPLATE_PLACEHOLDERS,
+  buildTemplateVars,
+  renderTemplate,
+  unknownPlaceholders,
+} from '../lib/reportDelivery/reportDelivery';
+import type { ReportSchedule, ReportScheduleFormData, ReportType } from '../types';
+
+interface ReportDeliverySettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  schedules: ReportSchedule[];
+  onSave: (reportType: ReportType, data: ReportScheduleFormData) => Promise<boolean>;
+  isSaving: boolean;
+  apiError?: string | null;
+  onClearApiError?: () => void;
+}
+
+interface FormData {
+  isEnabled: boolean;
+  dayOfWeek: string;
+  dayOfMonth: string;
+  sendHourUtc: string;
+  subjectTemplate: string;
+  bodyTemplate: string;
+  attachCsv: boolean;
+  attachInvoicePdf: boolean;
+}
+
+type FormErrors = Partial<Record<'dayOfMonth' | 'subjectTemplate' | 'bodyTemplate', string>>;
+
+const REPORT_TYPE_OPTIONS = [
+  { value: 'eom', label: 'End of Month' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+const WEEKDAY_OPTIONS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+  .map((label, i) => ({ value: String(i), label }));
+
+const HOUR_OPTIONS = Array.from({ length: 24 }, (_, h) => ({
+  value: String(h),
+  label: `${String(h).padStart(2, '0')}:00 UTC`,
+}));
+
+const LABEL_CLASS = 'block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2';
+
+const TEXTAREA_CLASS =
+  'w-full !bg-white rounded-md border border-vercel-gray-200 focus:border-vercel-gray-400 focus:ring-1 focus:ring-vercel-gray-400 focus:outline-none transition-colors text-sm text-vercel-gray-600 placeholder:text-vercel-gray-200 px-3 py-2 resize-none font-mono';
+
+/** Sample values for the subject preview */
+const PREVIEW_VARS = {
+  eom: buildTemplateVars({
+    reportType: 'eom',
+    companyName: 'Acme Corp',
+    periodStart: '2026-03-01',
+    periodEnd: '2026-03-31',
+    totalHours: 164.5,
+    totalRevenueCents: 2467500,
+    invoiceNumber: 'INV-2026-0042',
+  }),
+  weekly: buildTemplateVars({
+    reportType: 'weekly',
+    companyName: 'Acme Corp',
+    periodStart: '2026-03-23',
+    periodEnd: '2026-03-29',
+    totalHours: 38.25,
+    totalRevenueCents: 573750,
+    invoiceNumber: null,
+  }),
+};
+
+function toFormData(schedule: ReportSchedule | undefined): FormData {
+  return {
+    isEnabled: schedule?.is_enabled ?? false,
+    dayOfWeek: String(schedule?.day_of_week ?? 1),
+    dayOfMonth: String(schedule?.day_of_month ?? 2),
+    sendHourUtc: String(schedule?.send_hour_utc ?? 13),
+    subjectTemplate: schedule?.subject_template ?? '',
+    bodyTemplate: schedule?.body_template ?? '',
+    attachCsv: schedule?.attach_csv ?? true,
+    attachInvoicePdf: schedule?.attach_invoice_pdf ?? false,
+  };
+}
+
+/**
+ * Edit the delivery schedule and email templates of one report type. Weekly
+ * reports deliver the prior Mon–Sun week, EOM reports the prior month.
+ */
+export function ReportDeliverySettingsModal({
+  isOpen,
+  onClose,
+  schedules,
+  onSave,
+  isSaving,
+  apiError,
+  onClearApiError,
+}: ReportDeliverySettingsModalProps) {
+  const [reportType, setReportType] = useState<ReportType>('eom');
+  const [formData, setFormData] = useState<FormData>(() => toFormData(undefined));
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [lastResetKey, setLastResetKey] = useState<string>('');
+
+  const schedule = schedules.find((s) => s.report_type === reportType);
+
+  // Reset form when modal opens or the report type changes (React-recommended pattern)
+  const resetKey = `${isOpen}-${reportType}-${schedule?.updated_at ?? 'none'}`;
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setFormData(toFormData(schedule));
+    setErrors({});
+    onClearApiError?.();
+  }
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+    const day = Number(formData.dayOfMonth);
+    if (reportType === 'eom' && (!Number.isInteger(day) || day < 1 || day > 28)) {
+      newErrors.dayOfMonth = 'Day 1 to 28';
+    }
+    if (!formData.subjectTemplate.trim()) {
+      newErrors.subjectTemplate = 'Subject is required';
+    }
+    if (!formData.bodyTemplate.trim()) {
+      newErrors.bodyTemplate = 'Body is required';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!validateForm()) return;
+
+    const success = await onSave(reportType, {
+      is_enabled: formData.isEnabled,
+      day_of_week: Number(formData.dayOfWeek),
+      day_of_month: Number(formData.dayOfMonth),
+      send_hour_utc: Number(formData.sendHourUtc),
+      subject_template: formData.subjectTemplate.trim(),
+      body_template: formData.bodyTemplate,
+      attach_csv: formData.attachCsv,
+      attach_invoice_pdf: reportType === 'eom' && formData.attachInvoicePdf,
+    });
+    if (success) onClose();
+  };
+
+  const updateField = <K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    setErrors((prev) => ({ ...prev, [field]: undefined }));
+    onClearApiError?.();
+  };
+
+  const unknown = unknownPlaceholders(`${formData.subjectTemplate}\n${formData.bodyTemplate}`);
+
+  const footerContent = (
+    <>
+      <Button type="button" variant="secondary" onClick={onClose}>
+        Cancel
+      </Button>
+      <Button
+        type="button"
+        variant="primary"
+        onClick={() => handleSubmit()}
+        disabled={isSaving || !schedule}
+      >
+        {isSaving ? (
+          <span className="flex items-center gap-2">
+            <Spinner size="sm" color="white" />
+            Saving...
+          </span>
+        ) : (
+          'Save Settings'
+        )}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Delivery Settings"
+      maxWidth="lg"
+      footer={footerContent}
+    >
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div>
+          <label className={LABEL_CLASS}>Report</label>
+          <Select
+            value={reportType}
+            onChange={(value) => setReportType(value as ReportType)}
+            options={REPORT_TYPE_OPTIONS}
+            className="w-full"
+          />
+        </div>
+
+        <Toggle
+          label="Scheduled delivery"
+          description={reportType === 'eom'
+            ? 'Email the prior month\'s report to each company\'s recipients'
+            : 'Email the prior week\'s report to each company\'s recipients'}
+          checked={formData.isEnabled}
+          onChange={(checked) => updateField('isEnabled', checked)}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          {reportType === 'weekly' ? (
+            <div>
+              <label className={LABEL_CLASS}>Send on</label>
+              <Select
+                value={formData.dayOfWeek}
+                onChange={(value) => updateField('dayOfWeek', value)}
+                options={WEEKDAY_OPTIONS}
+                className="w-full"
+              />
+            </div>
+          ) : (
+            <Input
+              label="Day of month"
+              type="number"
+              min={1}
+              max={28}
+              value={formData.dayOfMonth}
+              onChange={(e) => updateField('dayOfMonth', e.target.value)}
+              error={errors.dayOfMonth}
+            />
+          )}
+          <div>
+            <label className={LABEL_CLASS}>Send at</label>
+            <Select
+              value={formData.sendHourUtc}
+              onChange={(value) => updateField('sendHourUtc', value)}
+              options={HOUR_OPTIONS}
+              className="w-full"
+            />
+          </div>
+        </div>
+
+        <Input
+          label="Subject"
+          value={formData.subjectTemplate}
+          onChange={(e) => updateField('subjectTemplate', e.target.value)}
+          error={errors.subjectTemplate}
+          helperText={renderTemplate(formData.subjectTemplate, PREVIEW_VARS[reportType])}
+        />
+
+        <div>
+          <label htmlFor="report-delivery-body" className="block text-sm font-medium text-vercel-gray-600 mb-1">
+            Body
+          </label>
+          <textarea
+            id="report-delivery-body"
+            value={formData.bodyTemplate}
+            onChange={(e) => updateField('bodyTemplate', e.target.value)}
+            rows={8}
+            className={TEXTAREA_CLASS}
+          />
+          {errors.bodyTemplate && (
+            <p className="mt-1 text-xs text-error" role="alert">{errors.bodyTemplate}</p>
+          )}
+          <p className="mt-1 text-xs text-vercel-gray-400">
+            Placeholders: {TEMPLATE_PLACEHOLDERS.map((p) => `{{${p}}}`).join(' ')}
+          </p>
+          {unknown.length > 0 && (
+            <p className="mt-1 text-xs text-warning-text">
+              Unknown placeholders are sent as written: {unknown.map((p) => `{{${p}}}`).join(' ')}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Checkbox
+            label="Attach report CSV"
+            checked={formData.attachCsv}
+            onChange={(checked) => updateField('attachCsv', checked)}
+          />
+          {reportType === 'eom' && (
+            <Checkbox
+              label="Attach invoice PDF"
+              description="When the report has one"
+              checked={formData.attachInvoicePdf}
+              onChange={(checked) => updateField('attachInvoicePdf', checked)}
+            />
+          )}
+        </div>
+
+        {apiError && (
+          <div className="p-3 bg-error-light border border-error rounded-md">
+            <p className="text-sm text-error">{apiError}</p>
+          </div>
+        )}
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,239 @@
+import { useMemo, useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Select } from './Select';
+import { Spinner } from './Spinner';
+import { Checkbox } from './Checkbox';
+import { isValidEmail } from '../lib/reportDelivery/reportDelivery';
+import type {
+  ReportRecipient,
+  ReportRecipientFormData,
+  ReportRecipientKind,
+  ReportType,
+} from '../types';
+
+interface ReportRecipientsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Companies that have reports, by name */
+  companies: { id: string; name: string }[];
+  recipients: ReportRecipient[];
+  /** Company and report type selected when the modal opens */
+  initialCompanyId?: string | null;
+  initialReportType?: ReportType;
+  onAdd: (data: ReportRecipientFormData) => Promise<boolean>;
+  onUpdate: (id: string, patch: Partial<Pick<ReportRecipient, 'recipient_kind' | 'is_active'>>) => Promise<boolean>;
+  onDelete: (id: string) => Promise<boolean>;
+  isSaving: boolean;
+  apiError?: string | null;
+  onClearApiError?: () => void;
+}
+
+const REPORT_TYPE_OPTIONS = [
+  { value: 'eom', label: 'End of Month' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+const KIND_OPTIONS = [
+  { value: 'to', label: 'To' },
+  { value: 'cc', label: 'Cc' },
+];
+
+const LABEL_CLASS = 'block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2';
+
+/**
+ * Manage who receives a company's EOM or weekly report emails. Changes are
+ * saved immediately; the next delivery uses the active recipients.
+ */
+export function ReportRecipientsModal({
+  isOpen,
+  onClose,
+  companies,
+  recipients,
+  initialCompanyId,
+  initialReportType = 'eom',
+  onAdd,
+  onUpdate,
+  onDelete,
+  isSaving,
+  apiError,
+  onClearApiError,
+}: ReportRecipientsModalProps) {
+  const [companyId, setCompanyId] = useState('');
+  const [reportType, setReportType] = useState<ReportType>(initialReportType);
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<ReportRecipientKind>('to');
+  const [emailError, setEmailError] = useState<string | undefined>();
+  const [lastResetKey, setLastResetKey] = useState<string>('');
+
+  // Reset selection when modal opens (React-recommended pattern)
+  const resetKey = `${isOpen}-${initialCompanyId ?? ''}-${initialReportType}`;
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setCompanyId(initialCompanyId ?? companies[0]?.id ?? '');
+    setReportType(initialReportType);
+    setEmail('');
+    setName('');
+    setKind('to');
+    setEmailError(undefined);
+    onClearApiError?.();
+  }
+
+  const companyOptions = useMemo(
+    () => companies.map((c) => ({ value: c.id, label: c.name })),
+    [companies]
+  );
+
+  const listed = useMemo(
+    () => recipients.filter((r) => r.company_id === companyId && r.report_type === reportType),
+    [recipients, companyId, reportType]
+  );
+
+  const handleAdd = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!isValidEmail(email)) {
+      setEmailError('Enter a valid email address');
+      return;
+    }
+    const success = await onAdd({
+      company_id: companyId,
+      report_type: reportType,
+      email,
+      name: name.trim() || null,
+      recipient_kind: kind,
+    });
+    if (success) {
+      setEmail('');
+      setName('');
+    }
+  };
+
+  const hasActiveTo = listed.some((r) => r.is_active && r.recipient_kind === 'to');
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Report Recipients"
+      maxWidth="lg"
+      footer={
+        <Button type="button" variant="secondary" onClick={onClose}>
+          Done
+        </Button>
+      }
+    >
+      <div className="space-y-5">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={LABEL_CLASS}>Company</label>
+            <Select
+              value={companyId}
+              onChange={(value) => { setCompanyId(value); onClearApiError?.(); }}
+              options={companyOptions}
+              placeholder="Select company"
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label className={LABEL_CLASS}>Report</label>
+            <Select
+              value={reportType}
+              onChange={(value) => { setReportType(value as ReportType); onClearApiError?.(); }}
+              options={REPORT_TYPE_OPTIONS}
+              className="w-full"
+            />
+          </div>
+        </div>
+
+        {reportType === 'weekly' && (
+          <p className="text-xs text-vercel-gray-400">
+            Companies with weekly recipients no longer get the project-manager weekly email.
+          </p>
+        )}
+
+        <div className="border border-vercel-gray-100 rounded-lg divide-y divide-vercel-gray-100">
+          {listed.length === 0 ? (
+            <p className="px-4 py-6 text-center text-sm text-vercel-gray-400">
+              No recipients — this report is not emailed.
+            </p>
+          ) : (
+            listed.map((recipient) => (
+              <div key={recipient.id} className="flex items-center gap-3 px-4 py-2.5">
+                <div className="flex-1 min-w-0">
+                  <div className={`text-sm truncate ${recipient.is_active ? 'text-vercel-gray-600' : 'text-vercel-gray-300 line-through'}`}>
+                    {recipient.email}
+                  </div>
+                  {recipient.name && (
+                    <div className="text-xs text-vercel-gray-400 truncate">{recipient.name}</div>
+                  )}
+                </div>
+                <Select
+                  value={recipient.recipient_kind}
+                  onChange={(value) => onUpdate(recipient.id, { recipient_kind: value as ReportRecipientKind })}
+                  options={KIND_OPTIONS}
+                  className="w-20"
+                  disabled={isSaving}
+                />
+                <Checkbox
+                  label="Active"
+                  checked={recipient.is_active}
+                  onChange={(checked) => onUpdate(recipient.id, { is_active: checked })}
+                  disabled={isSaving}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onDelete(recipient.id)}
+                  disabled={isSaving}
+                >
+                  Remove
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {listed.length > 0 && !hasActiveTo && (
+          <p className="text-xs text-warning-text">Add an active "To" recipient — deliveries fail without one.</p>
+        )}
+
+        <form onSubmit={handleAdd} className="grid grid-cols-[2fr_2fr_1fr_auto] gap-3 items-end">
+          <Input
+            label="Email"
+            type="email"
+            value={email}
+            onChange={(e) => { setEmail(e.target.value); setEmailError(undefined); onClearApiError?.(); }}
+            error={emailError}
+            placeholder="finance@client.com"
+          />
+          <Input
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Optional"
+          />
+          <div>
+            <label className={LABEL_CLASS}>Send as</label>
+            <Select
+              value={kind}
+              onChange={(value) => setKind(value as ReportRecipientKind)}
+              options={KIND_OPTIONS}
+              className="w-full"
+            />
+          </div>
+          <Button type="submit" variant="primary" disabled={isSaving || !companyId}>
+            {isSaving ? <Spinner size="sm" color="white" /> : 'Add'}
+          </Button>
+        </form>
+
+        {apiError && (
+          <div className="p-3 bg-error-light border border-error rounded-md">
+            <p className="text-sm text-error">{apiError}</p>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Select } from './Select';
+import { signOffMonthOptions } from '../utils/billingVerification';
+
+interface SignOffBillingMonthModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Month to preselect ('YYYY-MM-01'), e.g. the month being re-signed */
+  initialMonth: string | null;
+  /** Months that are already signed off ('YYYY-MM-01') */
+  signedOffMonths: Set<string>;
+  onConfirm: (month: string, notes: string) => Promise<boolean> | boolean;
+  isOperating: boolean;
+}
+
+export function SignOffBillingMonthModal({
+  isOpen,
+  onClose,
+  initialMonth,
+  signedOffMonths,
+  onConfirm,
+  isOperating,
+}: SignOffBillingMonthModalProps) {
+  const monthValues = signOffMonthOptions(new Date());
+  // Re-signing a month older than the options list
+  if (initialMonth && !monthValues.includes(initialMonth)) monthValues.push(initialMonth);
+  const [month, setMonth] = useState(initialMonth ?? monthValues[0]);
+  const [notes, setNotes] = useState('');
+  const [lastResetKey, setLastResetKey] = useState('');
+
+  // Reset form when modal opens (React-recommended pattern)
+  const resetKey = `${isOpen}-${initialMonth}`;
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setMonth(initialMonth ?? monthValues[0]);
+    setNotes('');
+  }
+
+  const options = monthValues.map((value) => ({
+    value,
+    label: `${format(parseISO(value), 'MMMM yyyy')}${signedOffMonths.has(value) ? ' (signed off)' : ''}`,
+  }));
+  const isResign = signedOffMonths.has(month);
+
+  const handleConfirm = async () => {
+    const success = await onConfirm(month, notes.trim());
+    if (success) {
+      setNotes('');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Sign Off Billing Month"
+      maxWidth="md"
+      centerTitle
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleConfirm}
+            disabled={isOperating || notes.trim().length === 0}
+          >
+            {isOperating ? 'Signing off...' : 'Sign Off'}
+          </Button>
+        </>
+      }
+    >
+      <div className="space-y-4 py-2">
+        <div>
+          <label className="block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2">
+            Month
+          </label>
+          <Select value={month} onChange={setMonth} options={options} className="w-full" />
+        </div>
+        <p className="text-sm text-vercel-gray-600">
+          {isResign
+            ? 'This month is already signed off. Signing off again replaces its snapshot with the current figures and clears any drift.'
+            : 'The month\'s current billing figures are snapshotted. Any later change to them raises an alert on the dashboard.'}
+        </p>
+        <Input
+          label="Note"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="e.g. Matches invoices sent Apr 3, reviewed with finance"
+          helperText="Stored with the sign-off and the snapshot."
+          autoFocus
+        />
+      </div>
+    </Modal>
+  );
+}
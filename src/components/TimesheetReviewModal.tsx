@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Spinner } from './Spinner';
+import { formatHours } from '../utils/billing';
+import { parseApprovedMinutes, toLineRef } from '../utils/timesheetReview';
+import type { TimesheetLineRef, TimesheetReviewLine } from '../types';
+
+/** Lines being written down (one line) or flagged (one or more) */
+export interface TimesheetReviewAction {
+  status: 'adjusted' | 'flagged';
+  lines: TimesheetReviewLine[];
+}
+
+interface TimesheetReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  action: TimesheetReviewAction | null;
+  onSubmit: (
+    status: 'adjusted' | 'flagged',
+    lines: TimesheetLineRef[],
+    reason: string,
+  ) => Promise<boolean>;
+  isSaving: boolean;
+  apiError?: string | null;
+  onClearApiError?: () => void;
+}
+
+interface FormErrors {
+  hours?: string;
+  reason?: string;
+}
+
+function initialHours(action: TimesheetReviewAction | null): string {
+  const line = action?.lines[0];
+  if (!line || action.status !== 'adjusted') return '';
+  const minutes = line.approved_minutes ?? line.actual_minutes;
+  return String(Math.round((minutes / 60) * 100) / 100);
+}
+
+/**
+ * Write a line down to fewer hours, or flag lines to hold them back from
+ * billing. Both need a reason, which is shown to everyone reviewing the
+ * project's hours.
+ */
+export function TimesheetReviewModal({
+  isOpen,
+  onClose,
+  action,
+  onSubmit,
+  isSaving,
+  apiError,
+  onClearApiError,
+}: TimesheetReviewModalProps) {
+  const [hours, setHours] = useState(() => initialHours(action));
+  const [reason, setReason] = useState('');
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [lastResetKey, setLastResetKey] = useState<string>('');
+
+  const isWriteDown = action?.status === 'adjusted';
+  const firstLine = action?.lines[0];
+
+  // Reset form when modal opens (React-recommended pattern)
+  const resetKey = `${isOpen}-${action?.status ?? ''}-${action?.lines.length ?? 0}-${firstLine?.user_id ?? ''}-${firstLine?.task_name ?? ''}`;
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setHours(initialHours(action));
+    setReason(firstLine?.review_status === action?.status ? firstLine?.review_reason ?? '' : '');
+    setErrors({});
+    onClearApiError?.();
+  }
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!action || !firstLine) return;
+
+    const newErrors: FormErrors = {};
+    const approvedMinutes = isWriteDown ? parseApprovedMinutes(hours, firstLine.actual_minutes) : null;
+    if (isWriteDown && approvedMinutes === null) {
+      newErrors.hours = `Enter hours between 0 and ${formatHours(firstLine.actual_minutes / 60)}`;
+    }
+    if (!reason.trim()) {
+      newErrors.reason = 'Reason is required';
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) return;
+
+    const refs = isWriteDown
+      ? [toLineRef(firstLine, approvedMinutes ?? 0)]
+      : action.lines.map((line) => toLineRef(line));
+    const success = await onSubmit(action.status, refs, reason.trim());
+    if (success) onClose();
+  };
+
+  const footerContent = (
+    <>
+      <Button type="button" variant="secondary" onClick={onClose}>
+        Cancel
+      </Button>
+      <Button
+        type="button"
+        variant="primary"
+        onClick={() => handleSubmit()}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <span className="flex items-center gap-2">
+            <Spinner size="sm" color="white" />
+            Saving...
+          </span>
+        ) : (
+          isWriteDown ? 'Write Down' : 'Flag'
+        )}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isWriteDown ? 'Write Down Hours' : 'Flag Hours'}
+      maxWidth="md"
+      footer={footerContent}
+    >
+      <form onSubmit={handleSubmit} className="space-y-5">
+        {firstLine && (
+          <p className="text-sm text-vercel-gray-400">
+            {action && action.lines.length > 1
+              ? `${action.lines.length} lines will not be billed until they are approved.`
+              : isWriteDown
+                ? `${firstLine.user_name ?? firstLine.user_id} logged ${formatHours(firstLine.actual_minutes / 60)}h on ${firstLine.task_name}. Only the hours you enter will be billed.`
+                : `${firstLine.user_name ?? firstLine.user_id}'s ${formatHours(firstLine.actual_minutes / 60)}h on ${firstLine.task_name} will not be billed until approved.`}
+          </p>
+        )}
+
+        {isWriteDown && (
+          <Input
+            label="Billable hours"
+            type="number"
+            min={0}
+            step="0.25"
+            value={hours}
+            onChange={(e) => {
+              setHours(e.target.value);
+              setErrors((prev) => ({ ...prev, hours: undefined }));
+              onClearApiError?.();
+            }}
+            error={errors.hours}
+            required
+          />
+        )}
+
+        <Input
+          label="Reason"
+          value={reason}
+          onChange={(e) => {
+            setReason(e.target.value);
+            setErrors((prev) => ({ ...prev, reason: undefined }));
+            onClearApiError?.();
+          }}
+          placeholder={isWriteDown ? 'e.g. Ramp-up time not billable' : 'e.g. Logged to the wrong project'}
+          error={errors.reason}
+          required
+        />
+
+        {apiError && (
+          <div className="p-3 bg-error-light border border-error rounded-md">
+            <p className="text-sm text-error">{apiError}</p>
+          </div>
+        )}
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,188 @@
+import { format, parseISO } from 'date-fns';
+import { Spinner } from './Spinner';
+import { Badge } from './Badge';
+import { Checkbox } from './Checkbox';
+import { DropdownMenu, type DropdownMenuItem } from './DropdownMenu';
+import { formatHours } from '../utils/billing';
+import { lineKey, lineReviewState, type LineReviewState } from '../utils/timesheetReview';
+import type { TimesheetReviewLine } from '../types';
+
+interface TimesheetReviewTableProps {
+  lines: TimesheetReviewLine[];
+  loading: boolean;
+  /** Whether the viewer may review these lines */
+  canReview: boolean;
+  /** Keys (lineKey) of selected lines */
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+  onApprove: (lines: TimesheetReviewLine[]) => void;
+  onWriteDown: (line: TimesheetReviewLine) => void;
+  onFlag: (lines: TimesheetReviewLine[]) => void;
+  onReset: (lines: TimesheetReviewLine[]) => void;
+}
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+const TH_RIGHT_CLASS = 'px-4 py-3 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+const STATE_BADGE: Record<LineReviewState, { label: string; variant: 'default' | 'success' | 'warning' | 'error' | 'info' }> = {
+  not_required: { label: 'Not required', variant: 'default' },
+  pending: { label: 'Pending', variant: 'warning' },
+  changed: { label: 'Changed', variant: 'warning' },
+  approved: { label: 'Approved', variant: 'success' },
+  adjusted: { label: 'Written down', variant: 'info' },
+  flagged: { label: 'Flagged', variant: 'error' },
+};
+
+function hours(minutes: number): string {
+  return `${formatHours(Math.round((minutes / 60) * 100) / 100)}h`;
+}
+
+/**
+ * Hours of one project-month per person and task, with each line's review
+ * and the hours that will be billed. Reviewers can select lines for bulk
+ * approval or flagging, or act on a single line from its menu.
+ */
+export function TimesheetReviewTable({
+  lines,
+  loading,
+  canReview,
+  selected,
+  onSelectedChange,
+  onApprove,
+  onWriteDown,
+  onFlag,
+  onReset,
+}: TimesheetReviewTableProps) {
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <div className="inline-flex items-center gap-2 text-vercel-gray-400">
+            <Spinner size="md" />
+            <span className="text-sm">Loading hours...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (lines.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <p className="text-sm text-vercel-gray-400">No hours logged on this project in the month</p>
+        </div>
+      </div>
+    );
+  }
+
+  const allSelected = lines.every((line) => selected.has(lineKey(line)));
+  const someSelected = !allSelected && lines.some((line) => selected.has(lineKey(line)));
+
+  const toggleAll = (checked: boolean) => {
+    onSelectedChange(checked ? new Set(lines.map(lineKey)) : new Set());
+  };
+
+  const toggle = (line: TimesheetReviewLine, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(lineKey(line));
+    else next.delete(lineKey(line));
+    onSelectedChange(next);
+  };
+
+  const menuItems = (line: TimesheetReviewLine): DropdownMenuItem[] => {
+    const items: DropdownMenuItem[] = [
+      { label: 'Approve', onClick: () => onApprove([line]) },
+      { label: 'Write down', onClick: () => onWriteDown(line) },
+      { label: 'Flag', onClick: () => onFlag([line]), variant: 'danger' },
+    ];
+    if (line.review_status !== null) {
+      items.push({ label: 'Reset', onClick: () => onReset([line]) });
+    }
+    return items;
+  };
+
+  return (
+    <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+              {canReview && (
+                <th className="pl-4 py-3 w-8">
+                  <Checkbox checked={allSelected} indeterminate={someSelected} onChange={toggleAll} />
+                </th>
+              )}
+              <th className={TH_CLASS}>Person</th>
+              <th className={TH_CLASS}>Task</th>
+              <th className={TH_RIGHT_CLASS}>Logged</th>
+              <th className={TH_RIGHT_CLASS}>Billable</th>
+              <th className={TH_CLASS}>Status</th>
+              <th className={TH_CLASS}>Reason</th>
+              {canReview && <th className="px-4 py-3 w-12" />}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-vercel-gray-100">
+            {lines.map((line) => {
+              const key = lineKey(line);
+              const state = lineReviewState(line);
+              const badge = STATE_BADGE[state];
+              return (
+                <tr key={key} className="hover:bg-vercel-gray-50 transition-colors duration-200 ease-out">
+                  {canReview && (
+                    <td className="pl-4 py-3">
+                      <Checkbox checked={selected.has(key)} onChange={(checked) => toggle(line, checked)} />
+                    </td>
+                  )}
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div className="text-sm font-medium text-vercel-gray-600">{line.user_name ?? line.user_id}</div>
+                    <div className="text-xs text-vercel-gray-400">{line.client_name}</div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="text-sm text-vercel-gray-600">{line.task_name}</div>
+                    <div className="text-xs text-vercel-gray-400">
+                      {line.entry_count} {line.entry_count === 1 ? 'day' : 'days'}
+                    </div>
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <span className="text-sm font-mono text-vercel-gray-600">{hours(line.actual_minutes)}</span>
+                    {state === 'changed' && line.reviewed_minutes !== null && (
+                      <div className="text-xs text-warning-text">
+                        +{hours(line.actual_minutes - line.reviewed_minutes)} since approval
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap">
+                    <span
+                      className={`text-sm font-mono ${
+                        line.billable_minutes < line.actual_minutes ? 'text-warning-text' : 'text-vercel-gray-600'
+                      }`}
+                    >
+                      {hours(line.billable_minutes)}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                    {line.reviewed_at && (
+                      <div className="text-xs text-vercel-gray-400 mt-0.5">
+                        {line.reviewer_email ?? 'Unknown'} · {format(parseISO(line.reviewed_at), 'MMM d')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className="text-sm text-vercel-gray-400">{line.review_reason ?? '—'}</span>
+                  </td>
+                  {canReview && (
+                    <td className="px-4 py-3 text-right">
+                      <DropdownMenu items={menuItems(line)} />
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -6,12 +6,11 @@ import { Select } from './Select';
 import { Toggle } from './Toggle';
 import { Alert } from './Alert';
 import { Spinner } from './Spinner';
+import { ROLE_OPTIONS, isScopedRole, normalizeRole } from '../utils/permissions';
+import type { SelectOption } from './Select';
 import type { AppUser, CreateUserParams, UserRole } from '../types';
 
-const roleOptions = [
-  { value: 'admin', label: 'Admin' },
-  { value: 'user', label: 'User' },
-];
+const roleOptions = ROLE_OPTIONS.map(({ value, label }) => ({ value, label }));
 
 interface UserEditorModalProps {
   isOpen: boolean;
@@ -19,6 +18,11 @@ interface UserEditorModalProps {
   user: AppUser | null;
   onSave: (params: CreateUserParams) => Promise<void>;
   onUpdateRole: (userId: string, role: UserRole) => Promise<void>;
+  onUpdateResource: (userId: string, resourceId: string | null) => Promise<void>;
+  /** Employees a user can be linked to */
+  resourceOptions: SelectOption[];
+  /** Project names managed by each resource (project_managers) */
+  projectsByResource: Map<string, string[]>;
   isSaving: boolean;
   adminCount: number;
   apiError?: string | null;
@@ -31,6 +35,8 @@ interface FormData {
   display_name: string;
   role: UserRole;
   send_invite: boolean;
+  /** Linked employee resource id ('' = none) */
+  resource_id: string;
 }
 
 function getFormDataFromUser(user: AppUser | null): FormData {
@@ -39,8 +45,9 @@ function getFormDataFromUser(user: AppUser | null): FormData {
       email: user.email,
       password: '',
       display_name: user.display_name || '',
-      role: user.role,
+      role: normalizeRole(user.role),
       send_invite: false,
+      resource_id: user.resource_id ?? '',
     };
   }
   return {
@@ -49,6 +56,7 @@ function getFormDataFromUser(user: AppUser | null): FormData {
     display_name: '',
     role: 'admin',
     send_invite: true,
+    resource_id: '',
   };
 }
 
@@ -58,6 +66,9 @@ export function UserEditorModal({
   user,
   onSave,
   onUpdateRole,
+  onUpdateResource,
+  resourceOptions,
+  projectsByResource,
   isSaving,
   adminCount,
   apiError,
@@ -68,6 +79,9 @@ export function UserEditorModal({
   const [lastResetKey, setLastResetKey] = useState<string>('');
 
   const isEditing = !!user;
+  const managedProjects = formData.resource_id
+    ? projectsByResource.get(formData.resource_id) ?? []
+    : [];
   const isLastAdmin = user?.role === 'admin' && adminCount === 1;
 
   // Reset form when user/isOpen changes (React-recommended pattern)
@@ -108,10 +122,13 @@ export function UserEditorModal({
 
     try {
       if (isEditing && user) {
-        // Only update role if it changed
+        // Only update role / linked employee if they changed
         if (formData.role !== user.role) {
           await onUpdateRole(user.id, formData.role);
         }
+        if (formData.resource_id !== (user.resource_id ?? '')) {
+          await onUpdateResource(user.id, formData.resource_id || null);
+        }
       } else {
         await onSave({
           email: formData.email,
@@ -119,6 +136,7 @@ export function UserEditorModal({
           display_name: formData.display_name || null,
           role: formData.role,
           send_invite: formData.send_invite,
+          resource_id: formData.resource_id || null,
         });
       }
       onClose();
@@ -206,10 +224,36 @@ export function UserEditorModal({
             disabled={isLastAdmin}
             className="w-full"
           />
-          {isLastAdmin && (
+          {isLastAdmin ? (
             <p className="mt-1 text-xs text-vercel-gray-400">
               Cannot change role of the last admin user
             </p>
+          ) : (
+            <p className="mt-1 text-xs text-vercel-gray-400">
+              {ROLE_OPTIONS.find((o) => o.value === formData.role)?.description}
+            </p>
+          )}
+        </div>
+
+        {/* Linked employee (scope) */}
+        <div>
+          <label className="block text-sm font-medium text-vercel-gray-600 mb-1">
+            Linked Employee{isScopedRole(formData.role) ? '' : ' (optional)'}
+          </label>
+          <Select
+            value={formData.resource_id}
+            onChange={(value) => handleInputChange('resource_id', value)}
+            options={[{ value: '', label: 'None' }, ...resourceOptions]}
+            className="w-full"
+          />
+          {isScopedRole(formData.role) && (
+            <p className="mt-1 text-xs text-vercel-gray-400">
+              {managedProjects.length > 0
+                ? `Sees ${managedProjects.length} managed project${managedProjects.length === 1 ? '' : 's'} and their companies: ${managedProjects.join(', ')}`
+                : formData.resource_id
+                  ? 'This employee manages no projects yet — assign them on the Projects page.'
+                  : 'Link the employee whose managed projects this user should see.'}
+            </p>
           )}
         </div>
 
@@ -2,6 +2,7 @@ import { format } from 'date-fns';
 import { DropdownMenu, type DropdownMenuItem } from './DropdownMenu';
 import { Spinner } from './Spinner';
 import { Badge } from './Badge';
+import { normalizeRole, roleLabel } from '../utils/permissions';
 import type { AppUser } from '../types';
 
 interface UserTableProps {
@@ -11,6 +12,8 @@ interface UserTableProps {
   onEdit: (user: AppUser) => void;
   onDelete: (user: AppUser) => void;
   onResetPassword: (user: AppUser) => void;
+  /** Secondary line under the role badge, e.g. a project manager's scope */
+  getScopeLabel?: (user: AppUser) => string | null;
 }
 
 export function UserTable({
@@ -20,6 +23,7 @@ export function UserTable({
   onEdit,
   onDelete,
   onResetPassword,
+  getScopeLabel,
 }: UserTableProps) {
   if (loading) {
     return (
@@ -135,10 +139,11 @@ export function UserTable({
                   </div>
                 </td>
                 <td className="px-4 py-3">
-                  {user.role === 'admin' ? (
-                    <Badge variant="info">Admin</Badge>
-                  ) : (
-                    <Badge variant="default">User</Badge>
+                  <Badge variant={user.role === 'admin' ? 'info' : 'default'}>
+                    {roleLabel(normalizeRole(user.role))}
+                  </Badge>
+                  {getScopeLabel?.(user) && (
+                    <div className="text-xs text-vercel-gray-400 mt-1">{getScopeLabel(user)}</div>
                   )}
                 </td>
                 <td className="px-4 py-3">
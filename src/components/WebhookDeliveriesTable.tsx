@@ -0,0 +1,146 @@
+import { format } from 'date-fns';
+import { Spinner } from './Spinner';
+import { Badge } from './Badge';
+import { Button } from './Button';
+import { WEBHOOK_EVENT_INFO, WEBHOOK_TEST_EVENT, type WebhookEventType } from '../lib/webhooks/webhooks';
+import type { WebhookDelivery, WebhookDeliveryStatus } from '../types';
+
+interface WebhookDeliveriesTableProps {
+  deliveries: WebhookDelivery[];
+  loading: boolean;
+  /** Delivery ids with a redelivery in flight */
+  sendingIds: Map<string, boolean>;
+  onRedeliver: (delivery: WebhookDelivery) => void;
+}
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+const STATUS_BADGE: Record<WebhookDeliveryStatus, { variant: 'default' | 'success' | 'error'; label: string }> = {
+  queued: { variant: 'default', label: 'Queued' },
+  delivered: { variant: 'success', label: 'Delivered' },
+  failed: { variant: 'error', label: 'Failed' },
+};
+
+function eventLabel(eventType: string): string {
+  if (eventType === WEBHOOK_TEST_EVENT) return 'Test event';
+  return WEBHOOK_EVENT_INFO[eventType as WebhookEventType]?.label ?? eventType;
+}
+
+export function WebhookDeliveriesTable({
+  deliveries,
+  loading,
+  sendingIds,
+  onRedeliver,
+}: WebhookDeliveriesTableProps) {
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <div className="inline-flex items-center gap-2 text-vercel-gray-400">
+            <Spinner size="md" />
+            <span className="text-sm">Loading deliveries...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (deliveries.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <p className="text-sm text-vercel-gray-400">No deliveries yet</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+              <th className={TH_CLASS}>Created</th>
+              <th className={TH_CLASS}>Endpoint</th>
+              <th className={TH_CLASS}>Event</th>
+              <th className={TH_CLASS}>Status</th>
+              <th className={TH_CLASS}>Response</th>
+              <th className={TH_CLASS}>Attempts</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-vercel-gray-100">
+            {deliveries.map((delivery) => {
+              const badge = STATUS_BADGE[delivery.status];
+              return (
+                <tr
+                  key={delivery.id}
+                  className="hover:bg-vercel-gray-50 transition-colors duration-200 ease-out"
+                >
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span className="text-sm text-vercel-gray-400">
+                      {format(new Date(delivery.created_at), 'MMM d, h:mm:ss a')}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className="text-sm text-vercel-gray-600">{delivery.endpoint?.name ?? '—'}</span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="text-sm text-vercel-gray-600">{eventLabel(delivery.event_type)}</div>
+                    {delivery.trigger !== 'event' && (
+                      <div className="text-xs text-vercel-gray-400 mt-0.5">
+                        {delivery.trigger === 'redeliver' ? 'Redelivery' : 'Sent from this page'}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <Badge variant={badge.variant}>{badge.label}</Badge>
+                    {delivery.status === 'failed' && delivery.next_retry_at && (
+                      <div className="text-xs text-vercel-gray-400 mt-1 whitespace-nowrap">
+                        Retry {format(new Date(delivery.next_retry_at), 'h:mm a')}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 max-w-xs">
+                    {delivery.response_status !== null && (
+                      <code className="text-xs font-mono text-vercel-gray-600">
+                        HTTP {delivery.response_status}
+                        {delivery.duration_ms !== null && ` · ${delivery.duration_ms} ms`}
+                      </code>
+                    )}
+                    {delivery.last_error && (
+                      <div className="text-xs text-error mt-0.5 truncate" title={delivery.last_error}>
+                        {delivery.last_error}
+                      </div>
+                    )}
+                    {delivery.response_body && (
+                      <div className="text-xs text-vercel-gray-400 mt-0.5 truncate" title={delivery.response_body}>
+                        {delivery.response_body}
+                      </div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className="text-sm text-vercel-gray-400">{delivery.attempt_count}</span>
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onRedeliver(delivery)}
+                      disabled={delivery.status === 'queued' || sendingIds.has(delivery.id)}
+                    >
+                      {sendingIds.has(delivery.id) ? 'Sending...' : 'Redeliver'}
+                    </Button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import { Modal } from './Modal';
+import { Button } from './Button';
+import type { WebhookEndpoint } from '../types';
+
+export type WebhookEndpointConfirmAction = 'delete' | 'rotate';
+
+interface WebhookEndpointConfirmModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  endpoint: WebhookEndpoint | null;
+  action: WebhookEndpointConfirmAction;
+  onConfirm: () => Promise<void> | void;
+  isOperating: boolean;
+}
+
+const COPY: Record<WebhookEndpointConfirmAction, {
+  title: string;
+  question: string;
+  detail: string;
+  confirm: string;
+  busy: string;
+}> = {
+  delete: {
+    title: 'Delete Webhook Endpoint',
+    question: 'Are you sure you want to delete',
+    detail: 'This action cannot be undone. Its delivery history is deleted with it.',
+    confirm: 'Delete Endpoint',
+    busy: 'Deleting...',
+  },
+  rotate: {
+    title: 'Rotate Signing Secret',
+    question: 'Issue a new signing secret for',
+    detail: 'The current secret stops working immediately. Update the receiver before the next event.',
+    confirm: 'Rotate Secret',
+    busy: 'Rotating...',
+  },
+};
+
+export function WebhookEndpointConfirmModal({
+  isOpen,
+  onClose,
+  endpoint,
+  action,
+  onConfirm,
+  isOperating,
+}: WebhookEndpointConfirmModalProps) {
+  const copy = COPY[action];
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={copy.title}
+      maxWidth="sm"
+      centerTitle
+      footer={
+        <>
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={() => onConfirm()} disabled={isOperating}>
+            {isOperating ? copy.busy : copy.confirm}
+          </Button>
+        </>
+      }
+    >
+      <div className="text-center py-4">
+        <svg
+          className="mx-auto h-12 w-12 text-error mb-4"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={1.5}
+            d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+          />
+        </svg>
+        <p className="text-sm text-vercel-gray-600">
+          {copy.question}{' '}
+          <span className="font-semibold">'{endpoint?.name ?? ''}'</span>?
+        </p>
+        <p className="text-xs text-vercel-gray-400 mt-2">{copy.detail}</p>
+      </div>
+    </Modal>
+  );
+}
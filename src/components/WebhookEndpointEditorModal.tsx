@@ -0,0 +1,229 @@
+import { useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Spinner } from './Spinner';
+import { Checkbox } from './Checkbox';
+import { Toggle } from './Toggle';
+import {
+  isValidWebhookUrl,
+  WEBHOOK_EVENT_INFO,
+  WEBHOOK_EVENT_TYPES,
+} from '../lib/webhooks/webhooks';
+import type { WebhookEndpoint, WebhookEndpointFormData, WebhookEventType } from '../types';
+
+interface WebhookEndpointEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Endpoint to edit; omit to register a new one */
+  endpoint?: WebhookEndpoint | null;
+  onSave: (form: WebhookEndpointFormData) => Promise<void>;
+  isSaving: boolean;
+  apiError?: string | null;
+  onClearApiError?: () => void;
+}
+
+interface FormErrors {
+  name?: string;
+  url?: string;
+  event_types?: string;
+}
+
+const EMPTY_FORM: WebhookEndpointFormData = {
+  name: '',
+  url: '',
+  description: null,
+  event_types: [],
+  is_active: true,
+};
+
+export function WebhookEndpointEditorModal({
+  isOpen,
+  onClose,
+  endpoint,
+  onSave,
+  isSaving,
+  apiError,
+  onClearApiError,
+}: WebhookEndpointEditorModalProps) {
+  const [formData, setFormData] = useState<WebhookEndpointFormData>(EMPTY_FORM);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [lastResetKey, setLastResetKey] = useState<string>('');
+  const isEditing = !!endpoint;
+
+  // Reset form when modal opens (React-recommended pattern, mirrors ApiKeyEditorModal)
+  const resetKey = `${endpoint?.id ?? 'new'}-${isOpen}`;
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setFormData(
+      endpoint
+        ? {
+            name: endpoint.name,
+            url: endpoint.url,
+            description: endpoint.description,
+            event_types: endpoint.event_types,
+            is_active: endpoint.is_active,
+          }
+        : EMPTY_FORM
+    );
+    setErrors({});
+    onClearApiError?.();
+  }
+
+  const validateForm = (): boolean => {
+    const newErrors: FormErrors = {};
+    if (!formData.name.trim()) {
+      newErrors.name = 'Name is required';
+    }
+    if (!isValidWebhookUrl(formData.url)) {
+      newErrors.url = 'Enter an https:// URL';
+    }
+    if (formData.event_types.length === 0) {
+      newErrors.event_types = 'Select at least one event';
+    }
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleSubmit = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!validateForm()) return;
+
+    try {
+      await onSave({
+        name: formData.name.trim(),
+        url: formData.url.trim(),
+        description: formData.description?.trim() || null,
+        event_types: WEBHOOK_EVENT_TYPES.filter((type) => formData.event_types.includes(type)),
+        is_active: formData.is_active,
+      });
+      onClose();
+    } catch {
+      // Error surfaced through apiError
+    }
+  };
+
+  const handleInputChange = (field: 'name' | 'url' | 'description', value: string) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    if (field !== 'description') {
+      setErrors((prev) => ({ ...prev, [field]: undefined }));
+    }
+    onClearApiError?.();
+  };
+
+  const handleEventChange = (type: WebhookEventType, checked: boolean) => {
+    setFormData((prev) => ({
+      ...prev,
+      event_types: checked ? [...prev.event_types, type] : prev.event_types.filter((t) => t !== type),
+    }));
+    setErrors((prev) => ({ ...prev, event_types: undefined }));
+    onClearApiError?.();
+  };
+
+  const footerContent = (
+    <>
+      <Button type="button" variant="secondary" onClick={onClose}>
+        Cancel
+      </Button>
+      <Button
+        type="button"
+        variant="primary"
+        onClick={() => handleSubmit()}
+        disabled={isSaving}
+      >
+        {isSaving ? (
+          <span className="flex items-center gap-2">
+            <Spinner size="sm" color="white" />
+            Saving...
+          </span>
+        ) : isEditing ? (
+          'Save Endpoint'
+        ) : (
+          'Add Endpoint'
+        )}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={isEditing ? 'Edit Webhook Endpoint' : 'Add Webhook Endpoint'}
+      maxWidth="md"
+      footer={footerContent}
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <Input
+          label="Name"
+          type="text"
+          value={formData.name}
+          onChange={(e) => handleInputChange('name', e.target.value)}
+          placeholder="e.g. Finance data warehouse"
+          error={errors.name}
+          required
+        />
+
+        <Input
+          label="URL"
+          type="url"
+          value={formData.url}
+          onChange={(e) => handleInputChange('url', e.target.value)}
+          placeholder="https://hooks.example.com/manifest"
+          error={errors.url}
+          required
+        />
+
+        <div>
+          <label
+            htmlFor="webhook-description"
+            className="block text-sm font-medium text-vercel-gray-600 mb-1"
+          >
+            Description
+          </label>
+          <textarea
+            id="webhook-description"
+            value={formData.description ?? ''}
+            onChange={(e) => handleInputChange('description', e.target.value)}
+            placeholder="Who consumes this endpoint? (optional)"
+            rows={2}
+            className="w-full !bg-white rounded-md border border-vercel-gray-200 focus:border-vercel-gray-400 focus:ring-1 focus:ring-vercel-gray-400 focus:outline-none transition-colors text-sm text-vercel-gray-600 placeholder:text-vercel-gray-200 px-3 py-2 resize-none"
+          />
+        </div>
+
+        <div>
+          <span className="block text-sm font-medium text-vercel-gray-600 mb-2">Events</span>
+          <div className="space-y-3">
+            {WEBHOOK_EVENT_TYPES.map((type) => (
+              <Checkbox
+                key={type}
+                label={WEBHOOK_EVENT_INFO[type].label}
+                description={WEBHOOK_EVENT_INFO[type].description}
+                checked={formData.event_types.includes(type)}
+                onChange={(checked) => handleEventChange(type, checked)}
+                disabled={isSaving}
+              />
+            ))}
+          </div>
+          {errors.event_types && <p className="mt-2 text-xs text-error">{errors.event_types}</p>}
+        </div>
+
+        {isEditing && (
+          <Toggle
+            label="Active"
+            description="Inactive endpoints receive no new events; pending retries to them fail."
+            checked={formData.is_active}
+            onChange={(checked) => setFormData((prev) => ({ ...prev, is_active: checked }))}
+            disabled={isSaving}
+          />
+        )}
+
+        {apiError && (
+          <div className="p-3 bg-error-light border border-error rounded-md">
+            <p className="text-sm text-error">{apiError}</p>
+          </div>
+        )}
+      </form>
+    </Modal>
+  );
+}
@@ -0,0 +1,140 @@
+import { format } from 'date-fns';
+import { Spinner } from './Spinner';
+import { Badge } from './Badge';
+import { Button } from './Button';
+import { WEBHOOK_EVENT_INFO } from '../lib/webhooks/webhooks';
+import type { WebhookEndpoint } from '../types';
+
+interface WebhookEndpointsTableProps {
+  endpoints: WebhookEndpoint[];
+  loading: boolean;
+  /** Endpoint ids with a test delivery in flight */
+  sendingIds: Map<string, boolean>;
+  onEdit: (endpoint: WebhookEndpoint) => void;
+  onSendTest: (endpoint: WebhookEndpoint) => void;
+  onRotateSecret: (endpoint: WebhookEndpoint) => void;
+  onDelete: (endpoint: WebhookEndpoint) => void;
+}
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+export function WebhookEndpointsTable({
+  endpoints,
+  loading,
+  sendingIds,
+  onEdit,
+  onSendTest,
+  onRotateSecret,
+  onDelete,
+}: WebhookEndpointsTableProps) {
+  if (loading) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <div className="inline-flex items-center gap-2 text-vercel-gray-400">
+            <Spinner size="md" />
+            <span className="text-sm">Loading webhook endpoints...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (endpoints.length === 0) {
+    return (
+      <div className="bg-white rounded-lg border border-vercel-gray-100">
+        <div className="p-8 text-center">
+          <p className="text-sm text-vercel-gray-400">No webhook endpoints yet</p>
+          <p className="mt-1 text-xs text-vercel-gray-300">
+            Click "Add Endpoint" to notify another service when syncs, reports or invoices happen
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+              <th className={TH_CLASS}>Endpoint</th>
+              <th className={TH_CLASS}>Events</th>
+              <th className={TH_CLASS}>Created</th>
+              <th className={TH_CLASS}>Status</th>
+              <th className="px-4 py-3 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-vercel-gray-100">
+            {endpoints.map((endpoint) => (
+              <tr
+                key={endpoint.id}
+                className="hover:bg-vercel-gray-50 transition-colors duration-200 ease-out"
+              >
+                <td className="px-4 py-3">
+                  <div className="text-sm font-medium text-vercel-gray-600">{endpoint.name}</div>
+                  <code className="block text-xs font-mono text-vercel-gray-400 mt-0.5 break-all">
+                    {endpoint.url}
+                  </code>
+                  {endpoint.description && (
+                    <div className="text-xs text-vercel-gray-400 mt-0.5">{endpoint.description}</div>
+                  )}
+                </td>
+                <td className="px-4 py-3">
+                  <div className="flex flex-wrap gap-1">
+                    {endpoint.event_types.map((type) => (
+                      <Badge key={type} variant="default" size="sm">
+                        {WEBHOOK_EVENT_INFO[type]?.label ?? type}
+                      </Badge>
+                    ))}
+                  </div>
+                </td>
+                <td className="px-4 py-3">
+                  <span className="text-sm text-vercel-gray-400">
+                    {format(new Date(endpoint.created_at), 'MMM d, yyyy')}
+                  </span>
+                </td>
+                <td className="px-4 py-3">
+                  {endpoint.is_active ? (
+                    <Badge variant="success">Active</Badge>
+                  ) : (
+                    <Badge variant="default">Inactive</Badge>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  <div className="flex justify-end gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onSendTest(endpoint)}
+                      disabled={!endpoint.is_active || sendingIds.has(endpoint.id)}
+                    >
+                      {sendingIds.has(endpoint.id) ? 'Sending...' : 'Send Test'}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => onEdit(endpoint)}>
+                      Edit
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => onRotateSecret(endpoint)}>
+                      Rotate Secret
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onDelete(endpoint)}
+                      className="text-error hover:text-error-hover"
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import { useState } from 'react';
+import { Modal } from './Modal';
+import { Button } from './Button';
+import { Input } from './Input';
+
+interface WebhookSecretModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  secret: string;
+}
+
+/**
+ * One-shot modal that displays a webhook endpoint's signing secret after it
+ * is created or rotated. Mirrors ApiKeyCreatedModal: "Done" stays disabled
+ * until the secret has been copied.
+ */
+export function WebhookSecretModal({ isOpen, onClose, secret }: WebhookSecretModalProps) {
+  const [hasCopied, setHasCopied] = useState<boolean>(false);
+  const [lastResetKey, setLastResetKey] = useState<string>('');
+
+  // Reset hasCopied each time the modal is opened (React-recommended pattern)
+  const resetKey = `${isOpen}-${secret}`;
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setHasCopied(false);
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      setHasCopied(true);
+    } catch (e) {
+      // Clipboard API can fail in insecure contexts — log but keep modal open
+      console.error('Failed to copy signing secret to clipboard:', e);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Signing Secret"
+      maxWidth="md"
+      centerTitle
+      footer={
+        <Button type="button" variant="primary" onClick={onClose} disabled={!hasCopied}>
+          Done
+        </Button>
+      }
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-vercel-gray-600">
+          Copy this secret into the receiving service. For security, it will not be shown again.
+        </p>
+
+        <div>
+          <div className="flex gap-2 items-stretch">
+            <Input readOnly size="sm" value={secret} />
+            <Button size="sm" variant="secondary" onClick={handleCopy} className="shrink-0">
+              {hasCopied ? 'Copied' : 'Copy'}
+            </Button>
+          </div>
+          <p className="text-xs text-vercel-gray-400 mt-2">
+            Verify each request by computing HMAC-SHA256 of{' '}
+            <code className="font-mono">{'<t>.<body>'}</code> with this secret and comparing it to the{' '}
+            <code className="font-mono">v1</code> value of the X-Manifest-Signature header.
+          </p>
+        </div>
+      </div>
+    </Modal>
+  );
+}
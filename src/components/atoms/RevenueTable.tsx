@@ -293,6 +293,14 @@ export function RevenueTable({ billingResult, companyBillings = [], totalBilling
                                 +C/O
                               </Badge>
                             )}
+                            {(project.manualAdjustmentHours !== 0 || project.manualAdjustmentRevenue !== 0) && (
+                              <Badge
+                                variant="info"
+                                title={`Manual adjustment: ${project.manualAdjustmentHours > 0 ? '+' : ''}${formatHours(project.manualAdjustmentHours)}h, ${project.manualAdjustmentRevenue > 0 ? '+' : ''}${formatCurrency(project.manualAdjustmentRevenue)}`}
+                              >
+                                ADJ
+                              </Badge>
+                            )}
                           </div>
                         </td>
                         <td className="px-6 py-3 text-right">
@@ -9,7 +9,7 @@
  * - Part-time employees: 4 hours per working day
  * - Contractors/Vendors/Extended Leave: excluded (0 hours)
  * - Weekends: 0 hours
- * - Holidays: 0 hours
+ * - Holidays: 0 hours for employees on that holiday's calendar
  *
  * @official 2026-01-25
  * @category Atom
@@ -39,7 +39,9 @@ import {
   chartColors,
   chartFontFamily,
 } from './chartTheme';
-import type { TimesheetEntry, BulgarianHoliday, Resource, EmployeeTimeOff } from '../../../types';
+import { getHolidayDates, isWorkingDay, EMPTY_HOLIDAY_SCHEDULE } from '../../../utils/holidays';
+import type { HolidaySchedule } from '../../../utils/holidays';
+import type { TimesheetEntry, Resource, EmployeeTimeOff } from '../../../types';
 
 /** Hours per day by employment type */
 const FULL_TIME_HOURS = 8;
@@ -54,8 +56,8 @@ export interface DailyHoursChartProps {
   startDate: Date;
   /** End date of the selected period */
   endDate: Date;
-  /** Holidays for the selected period */
-  holidays?: BulgarianHoliday[];
+  /** Holidays per calendar; each resource's expected hours follow their own calendar */
+  holidaySchedule?: HolidaySchedule;
   /** Resources/employees for expected hours calculation */
   resources?: Resource[];
   /** Employee time-off records for reducing expected hours */
@@ -84,90 +86,42 @@ function formatDateLocal(date: Date): string {
 // Chart margin configuration
 const chartMargin = { top: 5, right: 30, left: 20, bottom: 5 };
 
-/**
- * Check if a date is a weekend (Saturday or Sunday)
- */
-function isWeekend(date: Date): boolean {
-  const day = date.getDay();
-  return day === 0 || day === 6;
-}
-
-/**
- * Check if a date is a holiday
- */
-function isHoliday(dateStr: string, holidayDates: Set<string>): boolean {
-  return holidayDates.has(dateStr);
-}
-
-/**
- * Calculate expected hours per working day based on employee headcount.
- * - Full-time: 8 hours
- * - Part-time: 4 hours
- * - Contractors/Vendors/Extended Leave: excluded
- */
-function calculateExpectedHoursPerDay(resources: Resource[]): number {
-  let totalExpected = 0;
-
-  for (const resource of resources) {
-    const typeName = resource.employment_type?.name?.toLowerCase() || '';
-
-    // Exclude contractors, vendors, and extended leave
-    if (typeName === 'contractor' || typeName === 'vendor' || typeName === 'extended leave') {
-      continue;
-    }
-
-    // Part-time: 4 hours, Full-time: 8 hours
-    if (typeName === 'part-time') {
-      totalExpected += PART_TIME_HOURS;
-    } else if (typeName === 'full-time') {
-      totalExpected += FULL_TIME_HOURS;
-    }
-  }
-
-  return totalExpected;
-}
-
 export function DailyHoursChart({
   entries = [],
   dailyHoursByDate,
   startDate,
   endDate,
-  holidays = [],
+  holidaySchedule = EMPTY_HOLIDAY_SCHEDULE,
   resources = [],
   timeOff = [],
   height = CHART_HEIGHT,
 }: DailyHoursChartProps) {
-  // Calculate expected hours per working day based on employee headcount
-  const expectedPerDay = useMemo(
-    () => calculateExpectedHoursPerDay(resources),
-    [resources]
-  );
-
-  // Build a map of resource_id -> expected hours per day
+  // Build a map of resource_id -> expected hours per working day and holiday calendar
+  // - Full-time: 8 hours, Part-time: 4 hours
+  // - Contractors/Vendors/Extended Leave: excluded
   const resourceExpectedHours = useMemo(() => {
-    const map = new Map<string, number>();
+    const map = new Map<string, { hours: number; holidayDates: ReadonlySet<string> }>();
     for (const resource of resources) {
       const typeName = resource.employment_type?.name?.toLowerCase() || '';
       if (typeName === 'contractor' || typeName === 'vendor' || typeName === 'extended leave') continue;
+      const holidayDates = getHolidayDates(holidaySchedule, resource.holiday_calendar_id);
       if (typeName === 'part-time') {
-        map.set(resource.id, PART_TIME_HOURS);
+        map.set(resource.id, { hours: PART_TIME_HOURS, holidayDates });
       } else if (typeName === 'full-time') {
-        map.set(resource.id, FULL_TIME_HOURS);
+        map.set(resource.id, { hours: FULL_TIME_HOURS, holidayDates });
       }
     }
     return map;
-  }, [resources]);
+  }, [resources, holidaySchedule]);
 
-  // Build a map of date -> hours off due to time-off
+  // Build a map of date -> resources on time-off that day
   const timeOffByDate = useMemo(() => {
-    const map = new Map<string, number>();
+    const map = new Map<string, Set<string>>();
 
     for (const to of timeOff) {
       // Only count if we have a linked resource
       if (!to.resource_id) continue;
-
-      const resourceHours = resourceExpectedHours.get(to.resource_id);
-      if (!resourceHours) continue; // Not a tracked employee type
+      if (!resourceExpectedHours.has(to.resource_id)) continue; // Not a tracked employee type
 
       // Iterate through each day of the time-off period
       const toStart = new Date(to.start_date);
@@ -176,8 +130,12 @@ export function DailyHoursChart({
 
       while (current <= toEnd) {
         const dateStr = formatDateLocal(current);
-        const existing = map.get(dateStr) || 0;
-        map.set(dateStr, existing + resourceHours);
+        let offResources = map.get(dateStr);
+        if (!offResources) {
+          offResources = new Set();
+          map.set(dateStr, offResources);
+        }
+        offResources.add(to.resource_id);
         current.setDate(current.getDate() + 1);
       }
     }
@@ -207,15 +165,6 @@ export function DailyHoursChart({
       }
     }
 
-    // Build a set of holiday dates for fast lookup (normalize format)
-    const holidayDates = new Set(
-      holidays.map(h => {
-        // Ensure consistent YYYY-MM-DD format
-        const d = new Date(h.holiday_date);
-        return formatDateLocal(d);
-      })
-    );
-
     // Generate all days in the range
     const data: DailyDataPoint[] = [];
     const current = new Date(startDate);
@@ -226,14 +175,14 @@ export function DailyHoursChart({
       const dayNum = current.getDate();
       const hours = dateHoursMap.get(dateStr) || 0;
 
-      // Expected hours: 0 for weekends and holidays, calculated from headcount for working days
-      const isWorkingDay = !isWeekend(current) && !isHoliday(dateStr, holidayDates);
-
-      // Start with base expected, then subtract time-off hours
-      let expected = isWorkingDay ? expectedPerDay : 0;
-      if (isWorkingDay) {
-        const hoursOff = timeOffByDate.get(dateStr) || 0;
-        expected = Math.max(0, expected - hoursOff);
+      // Expected hours: sum of each resource's hours on their own working days,
+      // skipping resources on time-off
+      const offResources = timeOffByDate.get(dateStr);
+      let expected = 0;
+      for (const [resourceId, { hours: resourceHours, holidayDates }] of resourceExpectedHours) {
+        if (!isWorkingDay(current, holidayDates)) continue;
+        if (offResources?.has(resourceId)) continue;
+        expected += resourceHours;
       }
 
       data.push({
@@ -247,7 +196,7 @@ export function DailyHoursChart({
     }
 
     return data;
-  }, [entries, dailyHoursByDate, startDate, endDate, holidays, expectedPerDay, timeOffByDate]);
+  }, [entries, dailyHoursByDate, startDate, endDate, resourceExpectedHours, timeOffByDate]);
 
   // Custom tooltip formatter
   const tooltipFormatter = (value: number | undefined, name: string | undefined) => {
@@ -2,6 +2,9 @@ import { useEffect, useRef } from 'react';
 import { Modal } from '../Modal';
 import { Alert } from '../Alert';
 import { Icon } from '../Icon';
+import { Button } from '../Button';
+import { Select } from '../Select';
+import { Spinner } from '../Spinner';
 import { TypingIndicator } from '../TypingIndicator';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
@@ -13,10 +16,22 @@ interface AIChatWindowProps {
 }
 
 /**
- * AI Chat window using the standard Modal component
+ * AI Chat window using the standard Modal component. Conversations are
+ * stored per user; the most recent one reopens after a reload.
  */
 export function AIChatWindow({ isOpen, onClose }: AIChatWindowProps) {
-  const { messages, isLoading, error, sendMessage, clearChat } = useChat();
+  const {
+    conversations,
+    conversationId,
+    messages,
+    isLoading,
+    isLoadingConversation,
+    error,
+    sendMessage,
+    selectConversation,
+    newConversation,
+    deleteConversation,
+  } = useChat();
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Scroll to bottom when messages change
@@ -26,6 +41,11 @@ export function AIChatWindow({ isOpen, onClose }: AIChatWindowProps) {
 
   const titleIconElement = <Icon type="chat" size="sm" variant="brand" />;
 
+  const conversationOptions = [
+    ...(conversationId ? [] : [{ value: '', label: 'New conversation' }]),
+    ...conversations.map((c) => ({ value: c.id, label: c.title })),
+  ];
+
   return (
     <Modal
       isOpen={isOpen}
@@ -35,9 +55,32 @@ export function AIChatWindow({ isOpen, onClose }: AIChatWindowProps) {
       maxWidth="xl"
     >
       <div className="flex flex-col h-[400px]">
+        {/* Conversation picker */}
+        <div className="flex items-center gap-2 pb-3 mb-3 border-b border-vercel-gray-100">
+          <Select
+            value={conversationId ?? ''}
+            onChange={(id) => { if (id) selectConversation(id); }}
+            options={conversationOptions}
+            disabled={isLoading || conversations.length === 0}
+            className="flex-1 min-w-0"
+          />
+          <Button
+            variant="secondary"
+            size="sm"
+            onClick={newConversation}
+            disabled={isLoading || !conversationId}
+          >
+            New
+          </Button>
+        </div>
+
         {/* Messages area */}
         <div className="flex-1 overflow-y-auto space-y-3 scrollbar-thin">
-          {messages.length === 0 ? (
+          {isLoadingConversation ? (
+            <div className="h-full flex items-center justify-center">
+              <Spinner size="md" />
+            </div>
+          ) : messages.length === 0 ? (
             <div className="h-full flex flex-col items-center justify-center text-center px-4">
               <div className="mb-3">
                 <Icon type="chat" size="lg" variant="default" />
@@ -83,7 +126,7 @@ export function AIChatWindow({ isOpen, onClose }: AIChatWindowProps) {
         <div className="mt-4 pt-4 border-t border-vercel-gray-100">
           <ChatInput
             onSend={sendMessage}
-            onClear={clearChat}
+            onClear={deleteConversation}
             disabled={isLoading}
             showClear={messages.length > 0}
           />
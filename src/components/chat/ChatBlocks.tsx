@@ -0,0 +1,122 @@
+import { format, parseISO } from 'date-fns';
+import { BarChartAtom } from '../atoms/charts/BarChartAtom';
+import { chartColors } from '../atoms/charts/chartTheme';
+import { formatCurrency, formatHours } from '../../utils/billing';
+import type { ChatBlock, ChatChartBlock, ChatTableBlock, ChatValueFormat } from '../../types/chat';
+
+interface ChatBlocksProps {
+  blocks: ChatBlock[];
+}
+
+const TH_CLASS = 'px-3 py-2 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider whitespace-nowrap';
+const TH_RIGHT_CLASS = 'px-3 py-2 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider whitespace-nowrap';
+
+const NUMERIC_FORMATS: ChatValueFormat[] = ['currency', 'hours', 'number'];
+
+const MONTH_LABEL = /^\d{4}-\d{2}$/;
+
+function formatValue(valueFormat: ChatValueFormat, value: string | number | boolean | null): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  switch (valueFormat) {
+    case 'currency':
+      return formatCurrency(Number(value));
+    case 'hours':
+      return `${formatHours(Number(value))}h`;
+    case 'number':
+      return Number(value).toLocaleString('en-US');
+    case 'date':
+      return format(parseISO(String(value)), 'MMM d, yyyy');
+    case 'month':
+      return format(parseISO(String(value)), 'MMM yyyy');
+    default:
+      return String(value);
+  }
+}
+
+function ChatTable({ block }: { block: ChatTableBlock }) {
+  return (
+    <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+      <div className="px-3 py-2 text-xs font-medium text-vercel-gray-600 border-b border-vercel-gray-100">
+        {block.title}
+      </div>
+      <div className="overflow-x-auto max-h-64 overflow-y-auto scrollbar-thin">
+        <table className="w-full">
+          <thead>
+            <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+              {block.columns.map((column) => (
+                <th
+                  key={column.key}
+                  className={NUMERIC_FORMATS.includes(column.format) ? TH_RIGHT_CLASS : TH_CLASS}
+                >
+                  {column.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-vercel-gray-100">
+            {block.rows.map((row, index) => (
+              <tr key={index}>
+                {block.columns.map((column) => (
+                  <td
+                    key={column.key}
+                    className={`px-3 py-1.5 whitespace-nowrap text-xs text-vercel-gray-600 ${
+                      NUMERIC_FORMATS.includes(column.format) ? 'text-right font-mono' : ''
+                    }`}
+                  >
+                    {formatValue(column.format, row[column.key] ?? null)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+function ChatChart({ block }: { block: ChatChartBlock }) {
+  // Months read left to right; names (employees, projects) rank top to bottom
+  const isTimeline = block.points.every((point) => MONTH_LABEL.test(point.label));
+  const formatter = (value: number) => formatValue(block.format, value);
+
+  return (
+    <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+      <div className="px-3 py-2 text-xs font-medium text-vercel-gray-600 border-b border-vercel-gray-100">
+        {block.title}
+      </div>
+      <div className="p-2">
+        <BarChartAtom
+          data={block.points}
+          categoryKey="label"
+          layout={isTimeline ? 'vertical' : 'horizontal'}
+          height={isTimeline ? 200 : Math.max(120, block.points.length * 28)}
+          fillColor={chartColors.brandIndigo}
+          valueFormatter={formatter}
+          yAxisFormatter={formatter}
+          valueLabel={block.format === 'hours' ? 'Hours' : 'Amount'}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Tables and charts returned by the assistant's tools, shown under its answer
+ */
+export function ChatBlocks({ blocks }: ChatBlocksProps) {
+  if (blocks.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {blocks.map((block, index) =>
+        block.type === 'table' ? (
+          <ChatTable key={index} block={block} />
+        ) : (
+          <ChatChart key={index} block={block} />
+        ),
+      )}
+    </div>
+  );
+}
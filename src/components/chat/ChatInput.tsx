@@ -93,7 +93,7 @@ export function ChatInput({
           iconOnly
           onClick={onClear}
           disabled={disabled}
-          aria-label="Clear conversation"
+          aria-label="Delete conversation"
         >
           <svg
             className="w-5 h-5"
@@ -1,20 +1,23 @@
 import type { ChatMessage as ChatMessageType } from '../../types/chat';
 import { Markdown } from '../Markdown';
+import { ChatBlocks } from './ChatBlocks';
 
 interface ChatMessageProps {
   message: ChatMessageType;
 }
 
 /**
- * Individual chat message bubble with support for tool call display
+ * Individual chat message bubble. Assistant answers show the tables and
+ * charts returned by the tools below the text.
  */
 export function ChatMessage({ message }: ChatMessageProps) {
   const isUser = message.role === 'user';
+  const blocks = message.blocks ?? [];
 
   return (
     <div className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
       <div
-        className={`max-w-[85%] rounded-lg px-3 py-2 ${
+        className={`${blocks.length > 0 ? 'w-full' : 'max-w-[85%]'} rounded-lg px-3 py-2 ${
           isUser
             ? 'bg-vercel-gray-600 text-white'
             : 'bg-vercel-gray-50 text-vercel-gray-600'
@@ -29,7 +32,8 @@ export function ChatMessage({ message }: ChatMessageProps) {
           )}
         </div>
 
-{/* Tool calls hidden - user doesn't need to see data retrieval details */}
+        {/* Tool results; the calls themselves stay hidden */}
+        {!isUser && <ChatBlocks blocks={blocks} />}
 
         {/* Timestamp */}
         <div
@@ -6,5 +6,6 @@
 export { AIChatButton } from './AIChatButton';
 export { AIChatWindow } from './AIChatWindow';
 export { ChatMessage } from './ChatMessage';
+export { ChatBlocks } from './ChatBlocks';
 export { ChatInput } from './ChatInput';
 export { useChat } from './useChat';
@@ -1,21 +1,118 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { supabase } from '../../lib/supabase';
-import type { ChatMessage, ChatState, ChatResponse } from '../../types/chat';
+import type {
+  ChatConversation,
+  ChatMessage,
+  ChatMessageRow,
+  ChatRequest,
+  ChatResponse,
+  ChatState,
+} from '../../types/chat';
+
+/** Conversations listed in the picker (most recently active first) */
+const CONVERSATION_LIMIT = 50;
+
+/**
+ * Generate a unique message ID for messages not yet stored
+ */
+const generateId = () => `msg_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+
+function toChatMessage(row: ChatMessageRow): ChatMessage {
+  return {
+    id: row.id,
+    role: row.role,
+    content: row.content,
+    timestamp: new Date(row.created_at),
+    blocks: row.blocks ?? [],
+    toolCalls: row.tool_calls ?? [],
+  };
+}
 
 /**
- * Hook for managing chat state and communication with the AI Edge Function
+ * Hook for managing chat state and communication with the AI Edge Function.
+ *
+ * Conversations are stored per user (chat_conversations / chat_messages,
+ * migration 155) by the chat edge function; this hook lists them, loads one,
+ * and reopens the most recent conversation after a page reload.
  */
 export function useChat() {
   const [state, setState] = useState<ChatState>({
+    conversations: [],
+    conversationId: null,
     messages: [],
     isLoading: false,
+    isLoadingConversation: true,
     error: null,
   });
 
+  const fetchConversations = useCallback(async (): Promise<ChatConversation[]> => {
+    const { data, error } = await supabase
+      .from('chat_conversations')
+      .select('id, title, created_at, updated_at')
+      .order('updated_at', { ascending: false })
+      .limit(CONVERSATION_LIMIT);
+    if (error) throw new Error(error.message);
+    return (data as ChatConversation[]) || [];
+  }, []);
+
+  const fetchMessages = useCallback(async (conversationId: string): Promise<ChatMessage[]> => {
+    const { data, error } = await supabase
+      .from('chat_messages')
+      .select('id, role, content, blocks, tool_calls, created_at')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+    if (error) throw new Error(error.message);
+    return ((data as ChatMessageRow[]) || []).map(toChatMessage);
+  }, []);
+
   /**
-   * Generate a unique message ID
+   * Open a stored conversation
    */
-  const generateId = () => `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  const selectConversation = useCallback(async (conversationId: string) => {
+    setState((prev) => ({ ...prev, conversationId, isLoadingConversation: true, error: null }));
+    try {
+      const messages = await fetchMessages(conversationId);
+      setState((prev) => ({ ...prev, messages, isLoadingConversation: false }));
+    } catch (err) {
+      setState((prev) => ({
+        ...prev,
+        messages: [],
+        isLoadingConversation: false,
+        error: err instanceof Error ? err.message : 'Failed to load conversation',
+      }));
+    }
+  }, [fetchMessages]);
+
+  // Reopen the most recent conversation on mount
+  useEffect(() => {
+    let cancelled = false;
+    async function loadInitial() {
+      try {
+        const conversations = await fetchConversations();
+        const latest = conversations[0];
+        const messages = latest ? await fetchMessages(latest.id) : [];
+        if (!cancelled) {
+          setState((prev) => ({
+            ...prev,
+            conversations,
+            conversationId: latest?.id ?? null,
+            messages,
+            isLoadingConversation: false,
+          }));
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setState((prev) => ({
+            ...prev,
+            isLoadingConversation: false,
+            error: err instanceof Error ? err.message : 'Failed to load conversations',
+          }));
+        }
+      }
+    }
+    loadInitial();
+    return () => { cancelled = true; };
+  }, [fetchConversations, fetchMessages]);
 
   /**
    * Send a message to the AI and get a response
@@ -23,7 +120,7 @@ export function useChat() {
   const sendMessage = useCallback(async (content: string) => {
     if (!content.trim()) return;
 
-    // Create user message
+    // Shown immediately; the function stores it together with the answer
     const userMessage: ChatMessage = {
       id: generateId(),
       role: 'user',
@@ -31,7 +128,6 @@ export function useChat() {
       timestamp: new Date(),
     };
 
-    // Add user message and set loading
     setState((prev) => ({
       ...prev,
       messages: [...prev.messages, userMessage],
@@ -40,16 +136,8 @@ export function useChat() {
     }));
 
     try {
-      // Prepare message history for the API (exclude IDs and timestamps)
-      const messageHistory = [...state.messages, userMessage].map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      }));
-
-      // Call the Edge Function using Supabase client (handles auth automatically)
-      const { data, error: fnError } = await supabase.functions.invoke('chat', {
-        body: { messages: messageHistory },
-      });
+      const body: ChatRequest = { conversationId: state.conversationId, message: userMessage.content };
+      const { data, error: fnError } = await supabase.functions.invoke('chat', { body });
 
       if (fnError) {
         throw new Error(fnError.message || 'Failed to call chat function');
@@ -59,41 +147,69 @@ export function useChat() {
         throw new Error(data.error);
       }
 
-      // Create assistant message
       const responseData = data as ChatResponse;
-      const assistantMessage: ChatMessage = {
-        id: generateId(),
-        role: 'assistant',
-        content: responseData.content,
-        timestamp: new Date(),
-        toolCalls: responseData.toolCalls,
-      };
+      const conversations = await fetchConversations().catch(() => null);
 
       setState((prev) => ({
         ...prev,
-        messages: [...prev.messages, assistantMessage],
+        conversationId: responseData.conversationId,
+        conversations: conversations ?? prev.conversations,
+        messages: [...prev.messages, toChatMessage(responseData.message)],
         isLoading: false,
       }));
     } catch (err) {
+      // Nothing was stored: drop the unanswered message so a retry doesn't duplicate it
       setState((prev) => ({
         ...prev,
+        messages: prev.messages.filter((m) => m.id !== userMessage.id),
         isLoading: false,
         error: err instanceof Error ? err.message : 'Failed to send message',
       }));
     }
-  }, [state.messages]);
+  }, [state.conversationId, fetchConversations]);
 
   /**
-   * Clear all messages and reset the chat
+   * Start a new conversation (stored once its first message is answered)
    */
-  const clearChat = useCallback(() => {
-    setState({
+  const newConversation = useCallback(() => {
+    setState((prev) => ({
+      ...prev,
+      conversationId: null,
       messages: [],
       isLoading: false,
       error: null,
-    });
+    }));
   }, []);
 
+  /**
+   * Delete the current conversation and its messages
+   */
+  const deleteConversation = useCallback(async () => {
+    const conversationId = state.conversationId;
+    if (!conversationId) {
+      newConversation();
+      return;
+    }
+
+    const { error } = await supabase
+      .from('chat_conversations')
+      .delete()
+      .eq('id', conversationId);
+
+    if (error) {
+      setState((prev) => ({ ...prev, error: error.message }));
+      return;
+    }
+
+    setState((prev) => ({
+      ...prev,
+      conversations: prev.conversations.filter((c) => c.id !== conversationId),
+      conversationId: null,
+      messages: [],
+      error: null,
+    }));
+  }, [state.conversationId, newConversation]);
+
   /**
    * Dismiss any error
    */
@@ -102,11 +218,16 @@ export function useChat() {
   }, []);
 
   return {
+    conversations: state.conversations,
+    conversationId: state.conversationId,
     messages: state.messages,
     isLoading: state.isLoading,
+    isLoadingConversation: state.isLoadingConversation,
     error: state.error,
     sendMessage,
-    clearChat,
+    selectConversation,
+    newConversation,
+    deleteConversation,
     dismissError,
   };
 }
@@ -4,7 +4,9 @@
  * Composes the official Accordion atom at every level (its `headerRight` slot
  * is purpose-built for a totals value, and it owns its own expand state). Every
  * level renders its EUR total; the numbers come straight from the pre-computed
- * cents tree (see expenseTree.ts), so no summing happens in the view.
+ * cents tree (see expenseTree.ts), so no summing happens in the view. Levels
+ * with a category budget also show the target and an over / under badge; the
+ * year compares year-to-date spend with year-to-date budget.
  *
  * @category Expenses (page-local)
  */
@@ -12,6 +14,7 @@
 import { Accordion } from '../Accordion';
 import { Badge } from '../Badge';
 import { ExpenseRow } from './ExpenseRow';
+import { budgetStatus } from './expenseBudgets';
 import {
   formatEurCents,
   formatUsdCents,
@@ -20,6 +23,60 @@ import {
   type ExpenseYearNode,
 } from './expenseTree';
 
+/** Actual vs. budget for one level, in the cents the tree already computed. */
+interface LevelBudget {
+  /** Prefix for the budget figure, e.g. "Budget" or "YTD budget". */
+  label: string;
+  actualCents: number;
+  actualUsdCents: number;
+  budgetCents: number;
+  budgetUsdCents: number;
+  /** False when a USD actual is pending or a budget row has no USD target. */
+  usdComplete: boolean;
+  /** Extra tooltip line (the year's full-year target). */
+  note?: string;
+}
+
+/** Budget figures for a month or category node (actuals = the whole node). */
+function nodeBudget(node: ExpenseMonthNode | ExpenseCategoryNode): LevelBudget | undefined {
+  if (!node.hasBudget) return undefined;
+  return {
+    label: 'Budget',
+    actualCents: node.totalCents,
+    actualUsdCents: node.usdTotalCents,
+    budgetCents: node.budgetCents,
+    budgetUsdCents: node.budgetUsdCents,
+    usdComplete: node.usdPendingCount === 0 && node.usdBudgetMissingCount === 0,
+  };
+}
+
+/**
+ * The budget target (USD target and variance in the tooltip, only when both
+ * sides are complete) and an over / under badge on the EUR variance.
+ */
+function BudgetVariance({ budget }: { budget: LevelBudget }) {
+  const varianceCents = budget.actualCents - budget.budgetCents;
+  const status = budgetStatus(budget.actualCents, budget.budgetCents);
+  const usdVarianceCents = budget.actualUsdCents - budget.budgetUsdCents;
+  const title = [
+    budget.usdComplete
+      ? `USD budget ${formatUsdCents(budget.budgetUsdCents)} · ${formatUsdCents(Math.abs(usdVarianceCents))} ${usdVarianceCents > 0 ? 'over' : 'under'}`
+      : 'USD budget incomplete',
+    budget.note,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <>
+      <span className="text-xs text-vercel-gray-400" title={title}>
+        {budget.label} {formatEurCents(budget.budgetCents)}
+      </span>
+      <Badge variant={status === 'over' ? 'error' : status === 'under' ? 'success' : 'default'} size="sm">
+        {status === 'on' ? 'On budget' : `${formatEurCents(Math.abs(varianceCents))} ${status}`}
+      </Badge>
+    </>
+  );
+}
+
 /**
  * Right-aligned header content shared by every accordion level: the EUR total,
  * the USD reporting total (muted), and honesty flags. When a level has rows whose
@@ -32,11 +89,13 @@ function LevelTotal({
   needsReviewCount,
   usdTotalCents,
   usdPendingCount,
+  budget,
 }: {
   totalCents: number;
   needsReviewCount: number;
   usdTotalCents: number;
   usdPendingCount: number;
+  budget?: LevelBudget;
 }) {
   return (
     <div className="flex items-center gap-2">
@@ -50,6 +109,7 @@ function LevelTotal({
           {usdPendingCount} pending USD
         </Badge>
       )}
+      {budget && <BudgetVariance budget={budget} />}
       <span className="text-sm font-mono text-vercel-gray-400">
         {formatUsdCents(usdTotalCents)}
       </span>
@@ -79,6 +139,7 @@ function CategoryAccordion({ category }: { category: ExpenseCategoryNode }) {
           needsReviewCount={category.needsReviewCount}
           usdTotalCents={category.usdTotalCents}
           usdPendingCount={category.usdPendingCount}
+          budget={nodeBudget(category)}
         />
       }
     >
@@ -101,6 +162,7 @@ function MonthAccordion({ month }: { month: ExpenseMonthNode }) {
           needsReviewCount={month.needsReviewCount}
           usdTotalCents={month.usdTotalCents}
           usdPendingCount={month.usdPendingCount}
+          budget={nodeBudget(month)}
         />
       }
     >
@@ -113,6 +175,20 @@ function MonthAccordion({ month }: { month: ExpenseMonthNode }) {
   );
 }
 
+/** The year compares spend and budget year-to-date; the full-year target is in the tooltip. */
+function yearBudget(year: ExpenseYearNode): LevelBudget | undefined {
+  if (!year.hasBudget) return undefined;
+  return {
+    label: 'YTD budget',
+    actualCents: year.ytdTotalCents,
+    actualUsdCents: year.ytdUsdTotalCents,
+    budgetCents: year.ytdBudgetCents,
+    budgetUsdCents: year.ytdBudgetUsdCents,
+    usdComplete: year.usdPendingCount === 0 && year.usdBudgetMissingCount === 0,
+    note: `Full-year budget ${formatEurCents(year.budgetCents)}`,
+  };
+}
+
 function YearAccordion({
   year,
   defaultExpanded,
@@ -130,6 +206,7 @@ function YearAccordion({
           needsReviewCount={year.needsReviewCount}
           usdTotalCents={year.usdTotalCents}
           usdPendingCount={year.usdPendingCount}
+          budget={yearBudget(year)}
         />
       }
     >
@@ -0,0 +1,306 @@
+/**
+ * ExpenseBudgetsModal — edit monthly category budgets for the Expenses page.
+ *
+ * One month at a time: every category gets a EUR target and an optional USD
+ * target, next to the category's actual spend in the same month last year
+ * for reference. Clearing the EUR field removes the month's target. The copy
+ * section seeds a whole year from the previous year's actuals
+ * (expenseBudgets.copyForwardFromActuals); existing targets are kept unless
+ * the operator ticks overwrite.
+ *
+ * @category Expenses (page-local)
+ */
+
+import { useMemo, useState } from 'react';
+import { Modal } from '../Modal';
+import { Button } from '../Button';
+import { Checkbox } from '../Checkbox';
+import { Input } from '../Input';
+import { MonthPicker } from '../MonthPicker';
+import { Spinner } from '../Spinner';
+import { copyForwardFromActuals, type ExpenseBudgetDraft } from './expenseBudgets';
+import { formatEurCents, type ExpenseTree } from './expenseTree';
+import type { ExpenseCategoryBudget, ExpenseCategoryRecord } from './expenseTypes';
+import type { MonthSelection } from '../../types';
+
+interface ExpenseBudgetsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  categories: ExpenseCategoryRecord[];
+  budgets: ExpenseCategoryBudget[];
+  /** The page's expense tree; source of last year's actuals. */
+  tree: ExpenseTree;
+  /** Month the editor opens on ('YYYY-MM'). */
+  initialMonth: string;
+  onSave: (drafts: ExpenseBudgetDraft[], deleteIds: string[]) => Promise<boolean>;
+  onCopy: (drafts: ExpenseBudgetDraft[], overwrite: boolean) => Promise<boolean>;
+  isSaving: boolean;
+  apiError?: string | null;
+  onClearApiError?: () => void;
+}
+
+interface BudgetField {
+  eur: string;
+  usd: string;
+}
+
+const LABEL_FORM = 'block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2';
+
+function toMonthSelection(monthKey: string): MonthSelection {
+  return { year: Number(monthKey.slice(0, 4)), month: Number(monthKey.slice(5, 7)) };
+}
+
+function toMonthKey(month: MonthSelection): string {
+  return `${month.year}-${String(month.month).padStart(2, '0')}`;
+}
+
+function toFields(monthBudgets: ExpenseCategoryBudget[]): Record<number, BudgetField> {
+  const fields: Record<number, BudgetField> = {};
+  for (const budget of monthBudgets) {
+    fields[budget.category_id] = {
+      eur: String(budget.budget_eur),
+      usd: budget.budget_usd != null ? String(budget.budget_usd) : '',
+    };
+  }
+  return fields;
+}
+
+/** A non-negative amount, null for an empty field, NaN when invalid. */
+function parseTarget(value: string): number | null {
+  const trimmed = value.trim();
+  if (trimmed === '') return null;
+  const n = Number(trimmed);
+  return Number.isFinite(n) && n >= 0 ? Math.round(n * 100) / 100 : Number.NaN;
+}
+
+export function ExpenseBudgetsModal({
+  isOpen,
+  onClose,
+  categories,
+  budgets,
+  tree,
+  initialMonth,
+  onSave,
+  onCopy,
+  isSaving,
+  apiError,
+  onClearApiError,
+}: ExpenseBudgetsModalProps) {
+  const [month, setMonth] = useState<MonthSelection>(() => toMonthSelection(initialMonth));
+  const [fields, setFields] = useState<Record<number, BudgetField>>({});
+  const [overwrite, setOverwrite] = useState(false);
+  const [copySummary, setCopySummary] = useState<string | null>(null);
+  const [lastOpenKey, setLastOpenKey] = useState<string>('');
+  const [lastResetKey, setLastResetKey] = useState<string>('');
+
+  const monthKey = toMonthKey(month);
+  const monthBudgets = useMemo(
+    () => budgets.filter((budget) => budget.budget_month === monthKey),
+    [budgets, monthKey],
+  );
+
+  // Reset to the initial month when the modal opens (React-recommended pattern)
+  const openKey = `${isOpen}-${initialMonth}`;
+  if (openKey !== lastOpenKey) {
+    setLastOpenKey(openKey);
+    setMonth(toMonthSelection(initialMonth));
+    setOverwrite(false);
+    setCopySummary(null);
+    onClearApiError?.();
+  }
+
+  // Reload the fields whenever the month or its saved targets change
+  const resetKey = `${openKey}-${monthKey}-${monthBudgets
+    .map((budget) => `${budget.id}:${budget.budget_eur}:${budget.budget_usd}`)
+    .join(',')}`;
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setFields(toFields(monthBudgets));
+  }
+
+  const sortedCategories = useMemo(
+    () => [...categories].sort((a, b) => a.sort_order - b.sort_order || a.name.localeCompare(b.name)),
+    [categories],
+  );
+
+  // Same month last year, straight from the tree the accordion renders
+  const lastYearCents = useMemo(() => {
+    const key = `${month.year - 1}-${String(month.month).padStart(2, '0')}`;
+    const node = tree.years
+      .find((year) => year.year === month.year - 1)
+      ?.months.find((m) => m.key === key);
+    return new Map(node?.categories.map((category) => [category.categoryId, category.totalCents]) ?? []);
+  }, [tree, month]);
+
+  const copyDrafts = useMemo(() => copyForwardFromActuals(tree, month.year - 1), [tree, month.year]);
+
+  const { drafts, deleteIds, invalidIds } = useMemo(() => {
+    const result = { drafts: [] as ExpenseBudgetDraft[], deleteIds: [] as string[], invalidIds: new Set<number>() };
+    for (const category of sortedCategories) {
+      const field = fields[category.id] ?? { eur: '', usd: '' };
+      const eur = parseTarget(field.eur);
+      const usd = parseTarget(field.usd);
+      const existing = monthBudgets.find((budget) => budget.category_id === category.id);
+
+      if (Number.isNaN(eur) || Number.isNaN(usd) || (eur === null && usd !== null)) {
+        result.invalidIds.add(category.id);
+      } else if (eur === null) {
+        if (existing) result.deleteIds.push(existing.id);
+      } else {
+        result.drafts.push({ category_id: category.id, budget_month: monthKey, budget_eur: eur, budget_usd: usd });
+      }
+    }
+    return result;
+  }, [sortedCategories, fields, monthBudgets, monthKey]);
+
+  const updateField = (categoryId: number, key: keyof BudgetField, value: string) => {
+    setFields((prev) => ({
+      ...prev,
+      [categoryId]: { ...(prev[categoryId] ?? { eur: '', usd: '' }), [key]: value },
+    }));
+    onClearApiError?.();
+  };
+
+  const handleSave = async () => {
+    if (invalidIds.size > 0) return;
+    const success = await onSave(drafts, deleteIds);
+    if (success) onClose();
+  };
+
+  const handleCopy = async () => {
+    setCopySummary(null);
+    const success = await onCopy(copyDrafts, overwrite);
+    if (success) {
+      setCopySummary(
+        `Copied ${copyDrafts.length} category-month ${copyDrafts.length === 1 ? 'target' : 'targets'} `
+        + `from ${month.year - 1} actuals${overwrite ? '' : '; existing targets were kept'}.`,
+      );
+    }
+  };
+
+  const footerContent = (
+    <>
+      <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>
+        Cancel
+      </Button>
+      <Button
+        type="button"
+        variant="primary"
+        onClick={handleSave}
+        disabled={isSaving || invalidIds.size > 0}
+      >
+        {isSaving ? (
+          <span className="flex items-center gap-2">
+            <Spinner size="sm" color="white" />
+            Saving...
+          </span>
+        ) : (
+          'Save Budgets'
+        )}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Expense Budgets"
+      maxWidth="2xl"
+      footer={footerContent}
+    >
+      <div className="space-y-5">
+        <div>
+          <label className={LABEL_FORM}>Month</label>
+          <MonthPicker selectedMonth={month} onChange={setMonth} showTodayButton={false} />
+        </div>
+
+        <div>
+          <div className="grid grid-cols-[1fr_7rem_8rem_8rem] gap-3 pb-2 border-b border-vercel-gray-100">
+            <span className={LABEL_FORM}>Category</span>
+            <span className={`${LABEL_FORM} text-right`}>{month.year - 1} Actual</span>
+            <span className={`${LABEL_FORM} text-right`}>Budget (EUR)</span>
+            <span className={`${LABEL_FORM} text-right`}>Budget (USD)</span>
+          </div>
+          <div className="divide-y divide-vercel-gray-100">
+            {sortedCategories.map((category) => {
+              const field = fields[category.id] ?? { eur: '', usd: '' };
+              const lastYear = lastYearCents.get(category.id);
+              return (
+                <div key={category.id} className="grid grid-cols-[1fr_7rem_8rem_8rem] gap-3 py-2 items-center">
+                  <span className="text-sm text-vercel-gray-600">{category.name}</span>
+                  <span className="text-sm font-mono text-right text-vercel-gray-400">
+                    {lastYear !== undefined ? formatEurCents(lastYear) : '—'}
+                  </span>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    size="sm"
+                    startAddon="€"
+                    aria-label={`${category.name} budget in EUR`}
+                    value={field.eur}
+                    onChange={(e) => updateField(category.id, 'eur', e.target.value)}
+                    className="text-right font-mono"
+                    disabled={isSaving}
+                  />
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    size="sm"
+                    startAddon="$"
+                    aria-label={`${category.name} budget in USD`}
+                    value={field.usd}
+                    onChange={(e) => updateField(category.id, 'usd', e.target.value)}
+                    className="text-right font-mono"
+                    disabled={isSaving}
+                  />
+                </div>
+              );
+            })}
+          </div>
+          {invalidIds.size > 0 && (
+            <p className="mt-2 text-xs text-error" role="alert">
+              Targets must be zero or more, and a USD target needs a EUR target.
+            </p>
+          )}
+        </div>
+
+        <div className="p-3 bg-vercel-gray-50 rounded-md space-y-3">
+          <p className="text-sm text-vercel-gray-600">
+            Start {month.year} from {month.year - 1}: copy each category&apos;s monthly actuals into the
+            same month of {month.year}.
+            {copyDrafts.length === 0 && ` There are no ${month.year - 1} expenses to copy.`}
+          </p>
+          <div className="flex items-center justify-between gap-3">
+            <Checkbox
+              checked={overwrite}
+              onChange={setOverwrite}
+              label="Overwrite existing targets"
+              disabled={isSaving}
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              size="sm"
+              onClick={handleCopy}
+              disabled={isSaving || copyDrafts.length === 0}
+            >
+              Copy {month.year - 1} Actuals
+            </Button>
+          </div>
+          {copySummary && <p className="text-xs text-vercel-gray-400">{copySummary}</p>}
+        </div>
+
+        {apiError && (
+          <div className="p-3 bg-error-light border border-error rounded-md">
+            <p className="text-sm text-error">{apiError}</p>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+export default ExpenseBudgetsModal;
@@ -10,6 +10,10 @@
  *   - translation_source becomes 'manual' ONLY when the text was actually edited.
  *   - needs_review is always cleared on save (the operator has reviewed the row).
  *
+ * A saved category change opens ExpenseRuleProposalModal so the correction can
+ * become a vendor/keyword rule; the page refetch waits until that modal closes
+ * so the preview runs against the rows as they were.
+ *
  * Design-system compliant: existing table markup (label-form headers, body-sm
  * cells), Select / Input / Button / Badge / Alert / Spinner atoms, tokens only.
  */
@@ -21,16 +25,27 @@ import { Input } from '../Input';
 import { Badge } from '../Badge';
 import { Alert } from '../Alert';
 import { ExpenseDetailsModal } from './ExpenseDetailsModal';
+import { ExpenseRuleProposalModal } from './ExpenseRuleProposalModal';
 import { supabase } from '../../lib/supabase';
+import { useExpenseRuleLearning } from '../../hooks/useExpenseRuleLearning';
+import { proposeRule } from '../../lib/expenses/learnRule';
 import type { ExpenseCategoryRecord, ExpenseRecord } from './expenseTypes';
 
 interface ExpenseReviewQueueProps {
   expenses: ExpenseRecord[];
+  /** Every loaded expense — the rows a learned rule may reclassify. */
+  allExpenses: ExpenseRecord[];
   categories: ExpenseCategoryRecord[];
   /** Fired after a successful per-row save so the page can refetch. */
   onUpdated: () => void;
 }
 
+/** A saved category change awaiting the rule proposal. */
+interface CategoryCorrection {
+  expense: ExpenseRecord;
+  categoryId: number;
+}
+
 const LABEL_FORM = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
 
 /** Currency formatter cache — one Intl instance per currency code. */
@@ -44,10 +59,12 @@ function formatCurrency(amount: number, currency: string): string {
   return formatter.format(amount);
 }
 
-export function ExpenseReviewQueue({ expenses, categories, onUpdated }: ExpenseReviewQueueProps) {
+export function ExpenseReviewQueue({ expenses, allExpenses, categories, onUpdated }: ExpenseReviewQueueProps) {
   // Self-contained: only ever render rows that still need review, regardless of
   // whether the parent pre-filtered.
   const reviewRows = useMemo(() => expenses.filter((row) => row.needs_review), [expenses]);
+  const [correction, setCorrection] = useState<CategoryCorrection | null>(null);
+  const { vendorRules, keywordRules, isSaving, error: ruleError, applyRule, clearError } = useExpenseRuleLearning();
 
   const categoryOptions = useMemo<SelectOption[]>(
     () =>
@@ -57,6 +74,41 @@ export function ExpenseReviewQueue({ expenses, categories, onUpdated }: ExpenseR
     [categories],
   );
 
+  // Rows with neither a counterparty nor a usable description have nothing to
+  // learn from, so the refetch happens straight away.
+  const handleCategoryCorrected = useCallback((expense: ExpenseRecord, categoryId: number) => {
+    if (proposeRule(expense, categoryId)) {
+      setCorrection({ expense, categoryId });
+    } else {
+      onUpdated();
+    }
+  }, [onUpdated]);
+
+  const handleProposalClose = useCallback(() => {
+    setCorrection(null);
+    onUpdated();
+  }, [onUpdated]);
+
+  const proposalModal = correction && (
+    <ExpenseRuleProposalModal
+      isOpen
+      onClose={handleProposalClose}
+      expense={correction.expense}
+      categoryId={correction.categoryId}
+      categoryName={
+        categoryOptions.find((option) => option.value === String(correction.categoryId))?.label ??
+        `Category ${correction.categoryId}`
+      }
+      expenses={allExpenses}
+      vendorRules={vendorRules}
+      keywordRules={keywordRules}
+      onApply={applyRule}
+      isSaving={isSaving}
+      apiError={ruleError}
+      onClearApiError={clearError}
+    />
+  );
+
   if (reviewRows.length === 0) {
     return (
       <div className="bg-white rounded-lg border border-vercel-gray-100">
@@ -74,6 +126,7 @@ export function ExpenseReviewQueue({ expenses, categories, onUpdated }: ExpenseR
             Every expense has a confirmed category and translation.
           </p>
         </div>
+        {proposalModal}
       </div>
     );
   }
@@ -100,11 +153,13 @@ export function ExpenseReviewQueue({ expenses, categories, onUpdated }: ExpenseR
                 row={row}
                 categoryOptions={categoryOptions}
                 onUpdated={onUpdated}
+                onCategoryCorrected={handleCategoryCorrected}
               />
             ))}
           </tbody>
         </table>
       </div>
+      {proposalModal}
     </div>
   );
 }
@@ -113,9 +168,11 @@ interface ExpenseReviewRowProps {
   row: ExpenseRecord;
   categoryOptions: SelectOption[];
   onUpdated: () => void;
+  /** Fired instead of onUpdated when the saved patch changed the category. */
+  onCategoryCorrected: (row: ExpenseRecord, categoryId: number) => void;
 }
 
-function ExpenseReviewRow({ row, categoryOptions, onUpdated }: ExpenseReviewRowProps) {
+function ExpenseReviewRow({ row, categoryOptions, onUpdated, onCategoryCorrected }: ExpenseReviewRowProps) {
   const originalTranslation = row.description_translated ?? '';
   const [categoryValue, setCategoryValue] = useState(String(row.category_id));
   const [translation, setTranslation] = useState(originalTranslation);
@@ -171,8 +228,12 @@ function ExpenseReviewRow({ row, categoryOptions, onUpdated }: ExpenseReviewRowP
       return;
     }
 
-    onUpdated();
-  }, [categoryChanged, translationChanged, categoryValue, translation, row.id, onUpdated]);
+    if (categoryChanged) {
+      onCategoryCorrected(row, Number(categoryValue));
+    } else {
+      onUpdated();
+    }
+  }, [categoryChanged, translationChanged, categoryValue, translation, row, onUpdated, onCategoryCorrected]);
 
   return (
     <>
@@ -0,0 +1,266 @@
+/**
+ * ExpenseRuleProposalModal — offer a categorization rule after a manual fix.
+ *
+ * Opened by the review queue once an operator has saved a changed category.
+ * It proposes a vendor rule (exact counterparty) or, without a counterparty, a
+ * keyword rule (see lib/expenses/learnRule), lets the operator switch the rule
+ * kind, edit the pattern and priority, and previews how many rows still in
+ * review or in the fallback category the rule would reclassify. Accepting
+ * saves the rule and applies it to exactly the previewed rows; skipping leaves
+ * the single manual correction as the only change.
+ *
+ * @category Expenses (page-local)
+ */
+
+import { useMemo, useState } from 'react';
+import { Modal } from '../Modal';
+import { Button } from '../Button';
+import { Input } from '../Input';
+import { Select } from '../Select';
+import { Spinner } from '../Spinner';
+import {
+  isRuleDraftValid,
+  previewRule,
+  proposeKeyword,
+  proposeRule,
+  LEARNED_RULE_PRIORITY,
+  type RuleDraft,
+  type RuleReclassification,
+} from '../../lib/expenses/learnRule';
+import type { KeywordRule, VendorRule } from '../../lib/expenses/types';
+import type { ExpenseRecord } from './expenseTypes';
+
+interface ExpenseRuleProposalModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** The expense whose category was just corrected. */
+  expense: ExpenseRecord;
+  /** The category the operator chose. */
+  categoryId: number;
+  categoryName: string;
+  /** Every loaded expense; the preview only considers rule candidates. */
+  expenses: ExpenseRecord[];
+  vendorRules: VendorRule[];
+  keywordRules: KeywordRule[];
+  onApply: (draft: RuleDraft, expenseId: string, reclassifications: RuleReclassification[]) => Promise<boolean>;
+  isSaving: boolean;
+  apiError?: string | null;
+  onClearApiError?: () => void;
+}
+
+type RuleKind = RuleDraft['kind'];
+
+interface FormData {
+  kind: RuleKind;
+  matchType: VendorRule['match_type'];
+  pattern: string;
+  keyword: string;
+  priority: string;
+}
+
+const LABEL_FORM = 'block text-xs font-medium text-vercel-gray-400 uppercase tracking-wider mb-2';
+
+/** Rows listed under the preview count. */
+const PREVIEW_SAMPLE_SIZE = 5;
+
+const MATCH_TYPE_OPTIONS = [
+  { value: 'exact', label: 'Exact counterparty' },
+  { value: 'contains', label: 'Counterparty contains' },
+];
+
+function toFormData(expense: ExpenseRecord, categoryId: number): FormData {
+  const proposal = proposeRule(expense, categoryId);
+  return {
+    kind: proposal?.kind ?? 'keyword',
+    matchType: 'exact',
+    pattern: (expense.vendor ?? '').trim().toUpperCase(),
+    keyword: proposeKeyword(expense.description_original) ?? '',
+    priority: String(proposal?.rule.priority ?? LEARNED_RULE_PRIORITY),
+  };
+}
+
+function toDraft(form: FormData, categoryId: number): RuleDraft {
+  const priority = form.priority.trim() === '' ? Number.NaN : Number(form.priority);
+  return form.kind === 'vendor'
+    ? { kind: 'vendor', rule: { match_type: form.matchType, pattern: form.pattern, category_id: categoryId, priority } }
+    : { kind: 'keyword', rule: { keyword: form.keyword, category_id: categoryId, priority } };
+}
+
+export function ExpenseRuleProposalModal({
+  isOpen,
+  onClose,
+  expense,
+  categoryId,
+  categoryName,
+  expenses,
+  vendorRules,
+  keywordRules,
+  onApply,
+  isSaving,
+  apiError,
+  onClearApiError,
+}: ExpenseRuleProposalModalProps) {
+  const [formData, setFormData] = useState<FormData>(() => toFormData(expense, categoryId));
+  const [lastResetKey, setLastResetKey] = useState<string>('');
+
+  // Reset form when modal opens (React-recommended pattern)
+  const resetKey = `${isOpen}-${expense.id}-${categoryId}`;
+  if (resetKey !== lastResetKey) {
+    setLastResetKey(resetKey);
+    setFormData(toFormData(expense, categoryId));
+    onClearApiError?.();
+  }
+
+  const hasVendor = (expense.vendor ?? '').trim().length > 0;
+  const kindOptions = useMemo(() => [
+    ...(hasVendor ? [{ value: 'vendor', label: 'Vendor rule' }] : []),
+    { value: 'keyword', label: 'Keyword rule' },
+  ], [hasVendor]);
+
+  const draft = useMemo(() => toDraft(formData, categoryId), [formData, categoryId]);
+  const isValid = isRuleDraftValid(draft);
+
+  // The corrected row is already manual; the loaded copy may not know yet.
+  const reclassifications = useMemo(
+    () => previewRule(draft, expenses.filter((row) => row.id !== expense.id), vendorRules, keywordRules),
+    [draft, expenses, expense.id, vendorRules, keywordRules],
+  );
+
+  const sampleRows = useMemo(() => {
+    const byId = new Map(expenses.map((row) => [row.id, row]));
+    return reclassifications
+      .slice(0, PREVIEW_SAMPLE_SIZE)
+      .map((change) => byId.get(change.id))
+      .filter((row): row is ExpenseRecord => !!row);
+  }, [reclassifications, expenses]);
+
+  const updateField = <K extends keyof FormData>(field: K, value: FormData[K]) => {
+    setFormData((prev) => ({ ...prev, [field]: value }));
+    onClearApiError?.();
+  };
+
+  const handleAccept = async () => {
+    if (!isValid) return;
+    const success = await onApply(draft, expense.id, reclassifications);
+    if (success) onClose();
+  };
+
+  const footerContent = (
+    <>
+      <Button type="button" variant="secondary" onClick={onClose} disabled={isSaving}>
+        Skip
+      </Button>
+      <Button
+        type="button"
+        variant="primary"
+        onClick={handleAccept}
+        disabled={isSaving || !isValid}
+      >
+        {isSaving ? (
+          <span className="flex items-center gap-2">
+            <Spinner size="sm" color="white" />
+            Saving...
+          </span>
+        ) : (
+          'Save Rule'
+        )}
+      </Button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Learn a Rule"
+      maxWidth="lg"
+      footer={footerContent}
+    >
+      <div className="space-y-5">
+        <p className="text-sm text-vercel-gray-600">
+          Categorize similar expenses as <span className="font-medium">{categoryName}</span> from now on?
+          The rule applies to future uploads and to matching rows that are still in review
+          or uncategorized. Manually categorized rows are never changed.
+        </p>
+
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className={LABEL_FORM}>Rule Type</label>
+            <Select
+              value={formData.kind}
+              onChange={(value) => updateField('kind', value as RuleKind)}
+              options={kindOptions}
+              className="w-full"
+              disabled={isSaving}
+            />
+          </div>
+          <Input
+            label="Priority"
+            type="number"
+            step="1"
+            value={formData.priority}
+            onChange={(e) => updateField('priority', e.target.value)}
+            helperText="Lower runs first; seeded rules use 100"
+            disabled={isSaving}
+          />
+        </div>
+
+        {formData.kind === 'vendor' ? (
+          <div className="space-y-4">
+            <div>
+              <label className={LABEL_FORM}>Match</label>
+              <Select
+                value={formData.matchType}
+                onChange={(value) => updateField('matchType', value as VendorRule['match_type'])}
+                options={MATCH_TYPE_OPTIONS}
+                className="w-full"
+                disabled={isSaving}
+              />
+            </div>
+            <Input
+              label="Counterparty"
+              value={formData.pattern}
+              onChange={(e) => updateField('pattern', e.target.value)}
+              disabled={isSaving}
+            />
+          </div>
+        ) : (
+          <Input
+            label="Description Keyword"
+            value={formData.keyword}
+            onChange={(e) => updateField('keyword', e.target.value)}
+            helperText="Matched case-insensitively anywhere in the original bank description"
+            disabled={isSaving}
+          />
+        )}
+
+        <div className="p-3 bg-vercel-gray-50 rounded-md">
+          <p className="text-sm text-vercel-gray-600">
+            {!isValid
+              ? 'Enter a pattern and priority to preview.'
+              : reclassifications.length === 0
+                ? 'No other rows would be reclassified.'
+                : `${reclassifications.length} other ${reclassifications.length === 1 ? 'row' : 'rows'} would be reclassified.`}
+          </p>
+          {isValid && sampleRows.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {sampleRows.map((row) => (
+                <li key={row.id} className="text-xs text-vercel-gray-400 truncate">
+                  {row.value_date} · {row.description_translated || row.description_original || '—'}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {apiError && (
+          <div className="p-3 bg-error-light border border-error rounded-md">
+            <p className="text-sm text-error">{apiError}</p>
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+}
+
+export default ExpenseRuleProposalModal;
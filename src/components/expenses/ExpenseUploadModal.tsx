@@ -1,8 +1,9 @@
 /**
  * ExpenseUploadModal — Expenses upload + ingest audit view.
  *
- * Reads a UniCredit Bulbank bank export (.xls / .xlsx / .xlsm), parses it
- * client-side (parseBankExport — pure, no network), fingerprints the raw bytes
+ * Reads a bank statement — the UniCredit Bulbank export (.xls / .xlsx / .xlsm),
+ * CAMT.053 XML, MT940 or CSV — parses it client-side (parseBankExport sniffs
+ * the format from the bytes; pure, no network), fingerprints the raw bytes
  * with SHA-256 for server-side idempotency, and POSTs the normalized rows to the
  * deployed `ingest-expenses` edge function. The result is rendered as a plain,
  * auditable report: inserted / duplicate / rejected counts, translation
@@ -18,7 +19,7 @@ import { Button } from '../Button';
 import { Spinner } from '../Spinner';
 import { Alert } from '../Alert';
 import { Card } from '../Card';
-import { parseBankExport } from '../../lib/xls/parseBankExport';
+import { BANK_EXPORT_PARSERS, parseBankExport } from '../../lib/xls/parseBankExport';
 import { supabase } from '../../lib/supabase';
 
 interface ExpenseUploadModalProps {
@@ -56,7 +57,7 @@ interface IngestResult {
 
 type Phase = 'idle' | 'parsing' | 'uploading' | 'done';
 
-const ACCEPTED_EXTENSIONS = ['.xls', '.xlsx', '.xlsm'];
+const ACCEPTED_EXTENSIONS = ['.xls', '.xlsx', '.xlsm', '.xml', '.sta', '.mt940', '.940', '.txt', '.csv'];
 const ACCEPT_ATTR = ACCEPTED_EXTENSIONS.join(',');
 
 // Shared type-style tokens (STYLEGUIDE named styles).
@@ -137,7 +138,8 @@ export function ExpenseUploadModal({ isOpen, onClose, onIngested }: ExpenseUploa
 
         if (rows.length === 0) {
           setError(
-            'No transaction rows were found in this file. Confirm it is an unmodified bank export.',
+            `No transaction rows were found in this ${BANK_EXPORT_PARSERS[sourceFormat].label} file. ` +
+              'Confirm it is an unmodified bank export.',
           );
           setPhase('idle');
           return;
@@ -190,8 +192,9 @@ export function ExpenseUploadModal({ isOpen, onClose, onIngested }: ExpenseUploa
     <Modal isOpen={isOpen} onClose={handleClose} title="Upload Bank Export" maxWidth="2xl" footer={footer}>
       <div className="space-y-4">
         <p className={BODY_SM}>
-          Upload a UniCredit Bulbank export ({ACCEPTED_EXTENSIONS.join(', ')}). Rows are parsed in your
-          browser, then de-duplicated on the server — re-uploading overlapping files is safe.
+          Upload a UniCredit Bulbank export (.xls, .xlsx, .xlsm) or a CAMT.053, MT940 or CSV statement.
+          Rows are parsed in your browser, then de-duplicated on the server — re-uploading overlapping
+          files is safe.
         </p>
 
         <div className="flex items-center gap-3">
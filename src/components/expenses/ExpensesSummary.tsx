@@ -7,6 +7,8 @@
  * backlog. Tokens only; the needs-review card flips to the warning treatment when
  * there is a backlog. The USD total EXCLUDES rows whose rate is still pending — so
  * when any exist we surface the count as a secondary line, never a silent partial.
+ * When the current year has category budgets, a fifth card shows the
+ * year-to-date budget with the EUR over / under amount, warning when over.
  */
 
 import { MetricCard } from '../MetricCard';
@@ -18,6 +20,8 @@ interface ExpensesSummaryProps {
   needsReviewCount: number;
   /** Included rows whose USD is pending (rate not yet known); excluded from totalUsd. */
   usdPendingCount: number;
+  /** Current year's year-to-date budget vs. actual (EUR); omitted when unbudgeted. */
+  budgetYtd?: { year: number; budgetEur: number; actualEur: number };
 }
 
 const eurFormatter = new Intl.NumberFormat('en-IE', {
@@ -38,9 +42,11 @@ export function ExpensesSummary({
   expenseCount,
   needsReviewCount,
   usdPendingCount,
+  budgetYtd,
 }: ExpensesSummaryProps) {
   const hasReviewBacklog = needsReviewCount > 0;
   const hasUsdPending = usdPendingCount > 0;
+  const budgetVarianceEur = budgetYtd ? budgetYtd.actualEur - budgetYtd.budgetEur : 0;
 
   return (
     <div className="flex gap-4">
@@ -72,6 +78,18 @@ export function ExpensesSummary({
           isWarning={hasReviewBacklog}
         />
       </div>
+
+      {budgetYtd && (
+        <div className="flex-1">
+          <MetricCard
+            title={`Budget YTD ${budgetYtd.year} (EUR)`}
+            value={eurFormatter.format(budgetYtd.budgetEur)}
+            secondaryLabel={budgetVarianceEur > 0 ? 'Over' : 'Under'}
+            secondaryValue={eurFormatter.format(Math.abs(budgetVarianceEur))}
+            isWarning={budgetVarianceEur > 0}
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,63 @@
+/**
+ * expenseBudgets - Pure helpers for expense category budgets.
+ *
+ * Variance is always actual − budget in integer cents (positive = over
+ * budget), read straight off the BudgetRollup fields the tree builder
+ * accumulates. Copy-forward turns one year's actuals, taken from the same
+ * tree, into next year's starting budget so the numbers a user sees in the
+ * accordion are exactly the numbers that get copied.
+ *
+ * @category Expenses (page-local helper)
+ */
+
+import type { ExpenseTree } from './expenseTree';
+
+/** A budget row to upsert (expense_category_budgets minus server columns). */
+export interface ExpenseBudgetDraft {
+  category_id: number;
+  budget_month: string;
+  budget_eur: number;
+  budget_usd: number | null;
+}
+
+export type BudgetStatus = 'over' | 'under' | 'on';
+
+/** Over / under / on budget for a level's actual and budget cents. */
+export function budgetStatus(actualCents: number, budgetCents: number): BudgetStatus {
+  if (actualCents > budgetCents) return 'over';
+  if (actualCents < budgetCents) return 'under';
+  return 'on';
+}
+
+/** Current month as 'YYYY-MM' in local time (the tree's year-to-date cutoff). */
+export function currentMonthKey(now: Date = new Date()): string {
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Next year's starting budget from sourceYear's actuals: one draft per
+ * category per month that had spend, same month one year later. The USD
+ * target is only copied when the month's USD actual is complete (no pending
+ * rates) — a partial USD total would understate the target.
+ */
+export function copyForwardFromActuals(tree: ExpenseTree, sourceYear: number): ExpenseBudgetDraft[] {
+  const year = tree.years.find((node) => node.year === sourceYear);
+  if (!year) return [];
+
+  const drafts: ExpenseBudgetDraft[] = [];
+  for (const month of year.months) {
+    const targetMonth = `${sourceYear + 1}${month.key.slice(4)}`;
+    for (const category of month.categories) {
+      if (category.totalCents <= 0) continue;
+      drafts.push({
+        category_id: category.categoryId,
+        budget_month: targetMonth,
+        budget_eur: category.totalCents / 100,
+        budget_usd: category.usdPendingCount === 0 ? category.usdTotalCents / 100 : null,
+      });
+    }
+  }
+  return drafts.sort((a, b) =>
+    a.budget_month < b.budget_month ? -1 : a.budget_month > b.budget_month ? 1 : a.category_id - b.category_id,
+  );
+}
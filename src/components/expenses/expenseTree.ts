@@ -8,10 +8,15 @@
  * queries and no floating-point drift. Formatting to a euro string happens once
  * at display time.
  *
+ * Category budgets (expense_category_budgets) are folded in by the same
+ * builder: each level carries its budget in cents next to its actuals, so
+ * variance is a plain subtraction at display time and budgets roll up exactly
+ * like spend.
+ *
  * @category Expenses (page-local helper)
  */
 
-import type { ExpenseCategoryRecord, ExpenseRecord } from './expenseTypes';
+import type { ExpenseCategoryBudget, ExpenseCategoryRecord, ExpenseRecord } from './expenseTypes';
 
 // ============================================================================
 // CENTS + FORMATTING (the single money path)
@@ -71,8 +76,22 @@ export interface UsdRollup {
   usdPendingCount: number;
 }
 
+/**
+ * BUDGET accumulators carried at every level. `budgetCents` is the EUR target of
+ * the level; `budgetUsdCents` sums only budget rows that set a USD target, and
+ * `usdBudgetMissingCount` counts those that did not — same honesty rule as
+ * usdPendingCount: a USD variance is only meaningful when the count is 0.
+ * `hasBudget` distinguishes "no budget" from a budget of zero.
+ */
+export interface BudgetRollup {
+  hasBudget: boolean;
+  budgetCents: number;
+  budgetUsdCents: number;
+  usdBudgetMissingCount: number;
+}
+
 /** Leaf grouping: a single category within a single month. */
-export interface ExpenseCategoryNode extends UsdRollup {
+export interface ExpenseCategoryNode extends UsdRollup, BudgetRollup {
   /** Stable key: `${monthKey}-${categoryId}`. */
   key: string;
   categoryId: number;
@@ -86,7 +105,7 @@ export interface ExpenseCategoryNode extends UsdRollup {
 }
 
 /** A single month (YYYY-MM) containing its categories. */
-export interface ExpenseMonthNode extends UsdRollup {
+export interface ExpenseMonthNode extends UsdRollup, BudgetRollup {
   /** Stable key: `YYYY-MM`. */
   key: string;
   label: string;
@@ -95,13 +114,21 @@ export interface ExpenseMonthNode extends UsdRollup {
   categories: ExpenseCategoryNode[];
 }
 
-/** A single year containing its months. */
-export interface ExpenseYearNode extends UsdRollup {
+/**
+ * A single year containing its months. The year's BudgetRollup is the
+ * FULL-YEAR budget (later months included); the ytd* fields cover only months
+ * up to the tree's budgetAsOfMonth and drive the over/under indicator.
+ */
+export interface ExpenseYearNode extends UsdRollup, BudgetRollup {
   /** Stable key: the numeric year. */
   key: number;
   year: number;
   totalCents: number;
   needsReviewCount: number;
+  ytdTotalCents: number;
+  ytdUsdTotalCents: number;
+  ytdBudgetCents: number;
+  ytdBudgetUsdCents: number;
   months: ExpenseMonthNode[];
 }
 
@@ -117,6 +144,18 @@ export interface ExpenseTree {
    * excluded). Summary tiles derive from this so they match the accordion.
    */
   expenseCount: number;
+  /** Last month counted as year-to-date; null when built without budgets. */
+  budgetAsOfMonth: string | null;
+}
+
+export interface ExpenseTreeBudgetOptions {
+  budgets: ExpenseCategoryBudget[];
+  /**
+   * Current month ('YYYY-MM'). Budget-only categories (a target but no spend
+   * yet) appear in months up to and including it; later months only count
+   * towards their year's full-year budget.
+   */
+  asOfMonth: string;
 }
 
 // ============================================================================
@@ -136,6 +175,29 @@ interface MonthAcc extends Omit<ExpenseMonthNode, 'categories'> {
   catMap: Map<number, ExpenseCategoryNode>;
 }
 
+const EMPTY_BUDGET: BudgetRollup = {
+  hasBudget: false,
+  budgetCents: 0,
+  budgetUsdCents: 0,
+  usdBudgetMissingCount: 0,
+};
+
+function addBudget(target: BudgetRollup, cents: number, usdCents: number | null): void {
+  target.hasBudget = true;
+  target.budgetCents += cents;
+  if (usdCents === null) {
+    target.usdBudgetMissingCount += 1;
+  } else {
+    target.budgetUsdCents += usdCents;
+  }
+}
+
+function monthLabel(monthKey: string): string {
+  const year = Number(monthKey.slice(0, 4));
+  const monthIndex = Number(monthKey.slice(5, 7)) - 1;
+  return monthIndex >= 0 && monthIndex < 12 ? `${MONTH_NAMES[monthIndex]} ${year}` : monthKey;
+}
+
 /**
  * Derive the `YYYY-MM` bucket for an expense. `assigned_month` is the canonical
  * bucketing field; `value_date` is the fallback if it is ever missing. Both are
@@ -149,11 +211,13 @@ function monthKeyOf(expense: ExpenseRecord): string {
 /**
  * Build the full Year > Month > Category > Expense tree in a single pass.
  * Sorting: years desc, months desc, categories by sort_order (then name),
- * expenses preserve the incoming (value_date desc) order.
+ * expenses preserve the incoming (value_date desc) order. With budget options,
+ * every level also carries its budget (see BudgetRollup / ExpenseYearNode).
  */
 export function buildExpenseTree(
   expenses: ExpenseRecord[],
   categories: ExpenseCategoryRecord[],
+  budgetOptions?: ExpenseTreeBudgetOptions,
 ): ExpenseTree {
   const categoryById = new Map<number, ExpenseCategoryRecord>();
   for (const category of categories) {
@@ -165,31 +229,9 @@ export function buildExpenseTree(
   let grandUsdTotalCents = 0;
   let grandUsdPendingCount = 0;
   let expenseCount = 0;
+  const asOfMonth = budgetOptions?.asOfMonth ?? null;
 
-  for (const expense of expenses) {
-    // Single exclusion point (preserves the single-computation-path property):
-    // Credits are money IN, never spending, so they are dropped here — once —
-    // which keeps them out of every level total AND the row listings. Rows with
-    // entry_type null are unmapped and treated as debits (kept visible).
-    if (expense.entry_type === 'Credit') continue;
-    expenseCount += 1;
-
-    const cents = toCents(expense.eur_amount);
-    const flagged = expense.needs_review ? 1 : 0;
-    // USD reporting: pending rows (usd_amount null) contribute 0 to the total and
-    // 1 to the pending count at every level — the same one pass as EUR, so USD
-    // totals and pending counts always reconcile with the tree by construction.
-    const usdCents = expense.usd_amount != null ? toCents(expense.usd_amount) : 0;
-    const usdPending = expense.usd_amount == null ? 1 : 0;
-    grandTotalCents += cents;
-    grandUsdTotalCents += usdCents;
-    grandUsdPendingCount += usdPending;
-
-    const monthKey = monthKeyOf(expense);
-    const year = Number(monthKey.slice(0, 4));
-    const monthIndex = Number(monthKey.slice(5, 7)) - 1;
-
-    // ---- Year ----
+  const getYear = (year: number): YearAcc => {
     let yearAcc = yearMap.get(year);
     if (!yearAcc) {
       yearAcc = {
@@ -199,55 +241,99 @@ export function buildExpenseTree(
         needsReviewCount: 0,
         usdTotalCents: 0,
         usdPendingCount: 0,
+        ...EMPTY_BUDGET,
+        ytdTotalCents: 0,
+        ytdUsdTotalCents: 0,
+        ytdBudgetCents: 0,
+        ytdBudgetUsdCents: 0,
         monthMap: new Map(),
       };
       yearMap.set(year, yearAcc);
     }
-    yearAcc.totalCents += cents;
-    yearAcc.needsReviewCount += flagged;
-    yearAcc.usdTotalCents += usdCents;
-    yearAcc.usdPendingCount += usdPending;
+    return yearAcc;
+  };
 
-    // ---- Month ----
+  const getMonth = (yearAcc: YearAcc, monthKey: string): MonthAcc => {
     let monthAcc = yearAcc.monthMap.get(monthKey);
     if (!monthAcc) {
-      const label = monthIndex >= 0 && monthIndex < 12
-        ? `${MONTH_NAMES[monthIndex]} ${year}`
-        : monthKey;
       monthAcc = {
         key: monthKey,
-        label,
+        label: monthLabel(monthKey),
         totalCents: 0,
         needsReviewCount: 0,
         usdTotalCents: 0,
         usdPendingCount: 0,
+        ...EMPTY_BUDGET,
         catMap: new Map(),
       };
       yearAcc.monthMap.set(monthKey, monthAcc);
     }
-    monthAcc.totalCents += cents;
-    monthAcc.needsReviewCount += flagged;
-    monthAcc.usdTotalCents += usdCents;
-    monthAcc.usdPendingCount += usdPending;
+    return monthAcc;
+  };
 
-    // ---- Category (within this month) ----
-    let categoryNode = monthAcc.catMap.get(expense.category_id);
+  const getCategory = (monthAcc: MonthAcc, categoryId: number): ExpenseCategoryNode => {
+    let categoryNode = monthAcc.catMap.get(categoryId);
     if (!categoryNode) {
-      const record = categoryById.get(expense.category_id);
+      const record = categoryById.get(categoryId);
       categoryNode = {
-        key: `${monthKey}-${expense.category_id}`,
-        categoryId: expense.category_id,
-        name: record?.name ?? `Category ${expense.category_id}`,
+        key: `${monthAcc.key}-${categoryId}`,
+        categoryId,
+        name: record?.name ?? `Category ${categoryId}`,
         overheadType: (record?.overhead_type ?? null) as OverheadType | null,
         sortOrder: record?.sort_order ?? Number.MAX_SAFE_INTEGER,
         totalCents: 0,
         needsReviewCount: 0,
         usdTotalCents: 0,
         usdPendingCount: 0,
+        ...EMPTY_BUDGET,
         expenses: [],
       };
-      monthAcc.catMap.set(expense.category_id, categoryNode);
+      monthAcc.catMap.set(categoryId, categoryNode);
+    }
+    return categoryNode;
+  };
+
+  for (const expense of expenses) {
+    // Single exclusion point (preserves the single-computation-path property):
+    // Credits are money IN, never spending, so they are dropped here — once —
+    // which keeps them out of every level total AND the row listings. Rows with
+    // entry_type null are unmapped and treated as debits (kept visible).
+    if (expense.entry_type === 'Credit') continue;
+    expenseCount += 1;
+
+    const cents = toCents(expense.eur_amount);
+    const flagged = expense.needs_review ? 1 : 0;
+    // USD reporting: pending rows (usd_amount null) contribute 0 to the total and
+    // 1 to the pending count at every level — the same one pass as EUR, so USD
+    // totals and pending counts always reconcile with the tree by construction.
+    const usdCents = expense.usd_amount != null ? toCents(expense.usd_amount) : 0;
+    const usdPending = expense.usd_amount == null ? 1 : 0;
+    grandTotalCents += cents;
+    grandUsdTotalCents += usdCents;
+    grandUsdPendingCount += usdPending;
+
+    const monthKey = monthKeyOf(expense);
+
+    // ---- Year ----
+    const yearAcc = getYear(Number(monthKey.slice(0, 4)));
+    yearAcc.totalCents += cents;
+    yearAcc.needsReviewCount += flagged;
+    yearAcc.usdTotalCents += usdCents;
+    yearAcc.usdPendingCount += usdPending;
+    if (asOfMonth === null || monthKey <= asOfMonth) {
+      yearAcc.ytdTotalCents += cents;
+      yearAcc.ytdUsdTotalCents += usdCents;
     }
+
+    // ---- Month ----
+    const monthAcc = getMonth(yearAcc, monthKey);
+    monthAcc.totalCents += cents;
+    monthAcc.needsReviewCount += flagged;
+    monthAcc.usdTotalCents += usdCents;
+    monthAcc.usdPendingCount += usdPending;
+
+    // ---- Category (within this month) ----
+    const categoryNode = getCategory(monthAcc, expense.category_id);
     categoryNode.totalCents += cents;
     categoryNode.needsReviewCount += flagged;
     categoryNode.usdTotalCents += usdCents;
@@ -255,6 +341,34 @@ export function buildExpenseTree(
     categoryNode.expenses.push(expense);
   }
 
+  // ---- Budgets ----
+  // Months up to asOfMonth first, so a year that has only budgets so far
+  // exists before its later months' targets are added to the full-year total.
+  // A year with nothing up to asOfMonth (next year's plan) gets no node.
+  if (budgetOptions) {
+    const ordered = [...budgetOptions.budgets].sort((a, b) =>
+      a.budget_month < b.budget_month ? -1 : a.budget_month > b.budget_month ? 1 : 0,
+    );
+    for (const budget of ordered) {
+      const cents = toCents(budget.budget_eur);
+      const usdCents = budget.budget_usd != null ? toCents(budget.budget_usd) : null;
+      const year = Number(budget.budget_month.slice(0, 4));
+
+      if (budget.budget_month <= budgetOptions.asOfMonth) {
+        const yearAcc = getYear(year);
+        const monthAcc = getMonth(yearAcc, budget.budget_month);
+        addBudget(getCategory(monthAcc, budget.category_id), cents, usdCents);
+        addBudget(monthAcc, cents, usdCents);
+        addBudget(yearAcc, cents, usdCents);
+        yearAcc.ytdBudgetCents += cents;
+        yearAcc.ytdBudgetUsdCents += usdCents ?? 0;
+      } else {
+        const yearAcc = yearMap.get(year);
+        if (yearAcc) addBudget(yearAcc, cents, usdCents);
+      }
+    }
+  }
+
   // ---- Freeze into sorted, immutable node arrays ----
   const years: ExpenseYearNode[] = [...yearMap.values()]
     .sort((a, b) => b.year - a.year)
@@ -272,6 +386,10 @@ export function buildExpenseTree(
             needsReviewCount: monthAcc.needsReviewCount,
             usdTotalCents: monthAcc.usdTotalCents,
             usdPendingCount: monthAcc.usdPendingCount,
+            hasBudget: monthAcc.hasBudget,
+            budgetCents: monthAcc.budgetCents,
+            budgetUsdCents: monthAcc.budgetUsdCents,
+            usdBudgetMissingCount: monthAcc.usdBudgetMissingCount,
             categories,
           };
         });
@@ -282,6 +400,14 @@ export function buildExpenseTree(
         needsReviewCount: yearAcc.needsReviewCount,
         usdTotalCents: yearAcc.usdTotalCents,
         usdPendingCount: yearAcc.usdPendingCount,
+        hasBudget: yearAcc.hasBudget,
+        budgetCents: yearAcc.budgetCents,
+        budgetUsdCents: yearAcc.budgetUsdCents,
+        usdBudgetMissingCount: yearAcc.usdBudgetMissingCount,
+        ytdTotalCents: yearAcc.ytdTotalCents,
+        ytdUsdTotalCents: yearAcc.ytdUsdTotalCents,
+        ytdBudgetCents: yearAcc.ytdBudgetCents,
+        ytdBudgetUsdCents: yearAcc.ytdBudgetUsdCents,
         months,
       };
     });
@@ -292,5 +418,6 @@ export function buildExpenseTree(
     grandUsdTotalCents,
     grandUsdPendingCount,
     expenseCount,
+    budgetAsOfMonth: asOfMonth,
   };
 }
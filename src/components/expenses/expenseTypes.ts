@@ -54,3 +54,17 @@ export interface ExpenseRecord {
    */
   source_file_name: string | null;
 }
+
+/**
+ * Monthly spend target for one category (expense_category_budgets, migration
+ * 146). budget_month uses the same 'YYYY-MM' key as ExpenseRecord.assigned_month.
+ */
+export interface ExpenseCategoryBudget {
+  id: string;
+  category_id: number;
+  budget_month: string;
+  budget_eur: number;
+  /** Optional USD reporting target; null = no USD target for the month. */
+  budget_usd: number | null;
+  notes: string | null;
+}
@@ -17,11 +17,13 @@ export function ApiKeysPage() {
     revokedCount,
     createApiKey,
     revokeApiKey,
+    updateApiKeyScopes,
     clearError,
     isOperating,
   } = useAdminApiKeys();
 
   const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingKey, setEditingKey] = useState<ApiKey | null>(null);
   const [createdPlaintext, setCreatedPlaintext] = useState<string | null>(null);
   const [isRevokeConfirmOpen, setIsRevokeConfirmOpen] = useState(false);
   const [keyToRevoke, setKeyToRevoke] = useState<ApiKey | null>(null);
@@ -29,10 +31,23 @@ export function ApiKeysPage() {
 
   const handleAddClick = () => {
     clearError();
+    setEditingKey(null);
+    setIsEditorOpen(true);
+  };
+
+  const handleEditScopesClick = (apiKey: ApiKey) => {
+    clearError();
+    setEditingKey(apiKey);
     setIsEditorOpen(true);
   };
 
   const handleSaveApiKey = async (params: CreateApiKeyParams) => {
+    if (editingKey) {
+      await updateApiKeyScopes(editingKey.id, params.scopes ?? ['hours:read']);
+      setSuccessMessage(`Scopes for "${editingKey.name}" have been updated`);
+      setTimeout(() => setSuccessMessage(null), 3000);
+      return;
+    }
     const result = await createApiKey(params);
     setCreatedPlaintext(result.plaintext);
     setSuccessMessage(`API key "${params.name}" has been created`);
@@ -125,12 +140,17 @@ export function ApiKeysPage() {
         apiKeys={apiKeys}
         loading={loading}
         onRevoke={handleRevokeClick}
+        onEditScopes={handleEditScopesClick}
       />
 
-      {/* Editor Modal (Create) */}
+      {/* Editor Modal (Create / Edit Scopes) */}
       <ApiKeyEditorModal
         isOpen={isEditorOpen}
-        onClose={() => setIsEditorOpen(false)}
+        onClose={() => {
+          setIsEditorOpen(false);
+          setEditingKey(null);
+        }}
+        apiKey={editingKey}
         onSave={handleSaveApiKey}
         isSaving={isOperating}
         apiError={error}
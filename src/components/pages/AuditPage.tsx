@@ -0,0 +1,108 @@
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useDateFilter } from '../../contexts/DateFilterContext';
+import { useAuditLog, AUDIT_LOG_LIMIT } from '../../hooks/useAuditLog';
+import { useAdminUsers } from '../../hooks/useAdminUsers';
+import { RangeSelector } from '../RangeSelector';
+import { AuditLogTable } from '../AuditLogTable';
+import { Select } from '../Select';
+import { Button } from '../Button';
+import { AUDIT_ENTITY_OPTIONS } from '../../utils/auditTrail';
+import type { AuditEntityType } from '../../types';
+
+export function AuditPage() {
+  const { dateRange, mode, selectedMonth, setDateRange, setFilter } = useDateFilter();
+  const [entityType, setEntityType] = useState<AuditEntityType | ''>('');
+  const [changedBy, setChangedBy] = useState('');
+  const { users } = useAdminUsers();
+
+  const { entries, isLoading, error, isTruncated, refetch } = useAuditLog({
+    entityType: entityType || null,
+    changedBy: changedBy || null,
+    from: format(dateRange.start, 'yyyy-MM-dd'),
+    to: format(dateRange.end, 'yyyy-MM-dd'),
+  });
+
+  const entityOptions = useMemo(
+    () => [{ value: '', label: 'All entities' }, ...AUDIT_ENTITY_OPTIONS],
+    [],
+  );
+
+  const userOptions = useMemo(
+    () => [
+      { value: '', label: 'All users' },
+      ...users
+        .map((u) => ({ value: u.id, label: u.display_name || u.email }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    ],
+    [users],
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-vercel-gray-600">Audit Trail</h1>
+          <p className="text-sm text-vercel-gray-400 mt-1">
+            Who changed employees, companies, projects, groupings, holidays, expenses, release notes and billing rules
+          </p>
+        </div>
+        <Button variant="secondary" onClick={refetch}>
+          Refresh
+        </Button>
+      </div>
+
+      {/* Range Selector */}
+      <RangeSelector
+        variant="dateRange"
+        dateRange={dateRange}
+        onChange={setDateRange}
+        controlledMode={mode}
+        controlledSelectedMonth={selectedMonth}
+        onFilterChange={setFilter}
+      />
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <Select
+          value={entityType}
+          onChange={(value) => setEntityType(value as AuditEntityType | '')}
+          options={entityOptions}
+          className="w-48"
+        />
+        <Select
+          value={changedBy}
+          onChange={setChangedBy}
+          options={userOptions}
+          className="w-56"
+        />
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="p-4 bg-error-light border border-error rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-5 h-5 text-error" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="text-sm text-error">{error}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Changes */}
+      <section className="space-y-3">
+        <AuditLogTable entries={entries} loading={isLoading} />
+        {isTruncated && (
+          <p className="text-xs text-vercel-gray-400">
+            Showing the latest {AUDIT_LOG_LIMIT} changes. Narrow the date range or filters to see older ones.
+          </p>
+        )}
+        <p className="text-xs text-vercel-gray-400">
+          Changes made by signed-in users. Sync runs are logged under Diagnostics.
+        </p>
+      </section>
+    </div>
+  );
+}
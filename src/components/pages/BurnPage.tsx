@@ -1,15 +1,15 @@
-import { useState, useMemo, useEffect } from 'react';
+import { useMemo } from 'react';
 import { useEmployeeDailyTotals } from '../../hooks/useEmployeeDailyTotals';
 import { useTimeOff } from '../../hooks/useTimeOff';
 import { useEmployeeTableEntities } from '../../hooks/useEmployeeTableEntities';
-import { supabase } from '../../lib/supabase';
+import { useHolidaySchedule } from '../../hooks/useHolidaySchedule';
 import { useDateFilter } from '../../contexts/DateFilterContext';
 import { RangeSelector } from '../RangeSelector';
 import { Card } from '../Card';
 import { Spinner } from '../Spinner';
 import { DailyHoursChart } from '../atoms/charts/DailyHoursChart';
 import { BurnGrid } from '../atoms/BurnGrid';
-import type { BulgarianHoliday } from '../../types';
+import { getHolidayDates } from '../../utils/holidays';
 
 export function BurnPage() {
   const { dateRange, mode, selectedMonth: filterSelectedMonth, setDateRange, setFilter } = useDateFilter();
@@ -26,19 +26,8 @@ export function BurnPage() {
   // Fetch employee entities (excludes grouped members to avoid double-counting)
   const { entities: employees } = useEmployeeTableEntities();
 
-  // Fetch holidays for the selected month
-  const [holidays, setHolidays] = useState<BulgarianHoliday[]>([]);
-  useEffect(() => {
-    async function fetchHolidays() {
-      const year = dateRange.start.getFullYear();
-      const { data } = await supabase
-        .from('bulgarian_holidays')
-        .select('*')
-        .eq('year', year);
-      setHolidays(data || []);
-    }
-    fetchHolidays();
-  }, [dateRange.start]);
+  // Fetch every holiday calendar for the selected year (per-employee working days)
+  const { schedule: holidaySchedule } = useHolidaySchedule(dateRange.start.getFullYear());
 
   // Aggregate employee_daily_totals by canonical employee and date for the BurnGrid
   const burnGridData = useMemo(() => {
@@ -74,8 +63,9 @@ export function BurnPage() {
   const underHoursCells = useMemo(() => {
     if (burnGridData.length === 0 || employees.length === 0) return new Set<string>();
 
-    // Map display name → employment type name
+    // Map display name → employment type name and holiday calendar
     const employeeNameToType = new Map<string, string>();
+    const employeeNameToCalendar = new Map<string, string | null>();
     for (const entity of employees) {
       const typeName = entity.employment_type?.name;
       if (!typeName) continue;
@@ -83,6 +73,7 @@ export function BurnPage() {
         const displayName = userIdToDisplayNameLookup.get(uid);
         if (displayName && !employeeNameToType.has(displayName)) {
           employeeNameToType.set(displayName, typeName);
+          employeeNameToCalendar.set(displayName, entity.holiday_calendar_id);
         }
       }
     }
@@ -99,9 +90,6 @@ export function BurnPage() {
       }
     }
 
-    // Holiday date set
-    const holidayDates = new Set(holidays.map(h => h.holiday_date));
-
     // Employee time-off dates: display name → Set of YYYY-MM-DD
     const employeeTimeOffDates = new Map<string, Set<string>>();
     for (const to of timeOff) {
@@ -131,6 +119,7 @@ export function BurnPage() {
       if (empType !== 'Full-time' && empType !== 'Part-time') continue;
       const threshold = empType === 'Full-time' ? 7 : 4;
       const offDates = employeeTimeOffDates.get(emp.name);
+      const holidayDates = getHolidayDates(holidaySchedule, employeeNameToCalendar.get(emp.name));
 
       const current = new Date(dateRange.start);
       const endDt = new Date(dateRange.end);
@@ -152,7 +141,7 @@ export function BurnPage() {
     }
 
     return cells;
-  }, [burnGridData, employees, userIdToDisplayNameLookup, holidays, timeOff, dateRange]);
+  }, [burnGridData, employees, userIdToDisplayNameLookup, holidaySchedule, timeOff, dateRange]);
 
   // Pre-aggregate daily rounded hours for DailyHoursChart
   const dailyHoursByDate = useMemo(() => {
@@ -210,7 +199,7 @@ export function BurnPage() {
               dailyHoursByDate={dailyHoursByDate}
               startDate={dateRange.start}
               endDate={dateRange.end}
-              holidays={holidays}
+              holidaySchedule={holidaySchedule}
               resources={employees}
               timeOff={timeOff}
             />
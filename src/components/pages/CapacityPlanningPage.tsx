@@ -0,0 +1,278 @@
+import { useMemo, useState } from 'react';
+import { addDays, addWeeks, format, parseISO } from 'date-fns';
+import { usePermissions } from '../../contexts/PermissionsContext';
+import { useCapacityPlan } from '../../hooks/useCapacityPlan';
+import { useResources } from '../../hooks/useResources';
+import { useProjects } from '../../hooks/useProjects';
+import { useTimeOff } from '../../hooks/useTimeOff';
+import { useHolidaySchedule } from '../../hooks/useHolidaySchedule';
+import { mergeHolidaySchedules } from '../../utils/holidays';
+import {
+  buildPersonPlans,
+  buildProjectPlans,
+  isWeekComplete,
+  listWeekStarts,
+  resourceDisplayName,
+  weekStartOf,
+} from '../../utils/capacityPlan';
+import { formatCurrency, formatHours } from '../../utils/billing';
+import { CapacityPeopleTable } from '../CapacityPeopleTable';
+import { CapacityProjectsTable } from '../CapacityProjectsTable';
+import { AllocationEditorModal, type AllocationTarget } from '../AllocationEditorModal';
+import { MetricCard } from '../MetricCard';
+import { Button } from '../Button';
+
+/** Weeks shown at once, and how many of them are before the current week */
+const WEEKS_IN_VIEW = 8;
+const PAST_WEEKS_IN_VIEW = 2;
+
+function hours(value: number): string {
+  return `${formatHours(Math.round(value))}h`;
+}
+
+export function CapacityPlanningPage() {
+  const { isAdmin, projectIds, canPlanAllocations } = usePermissions();
+  const [firstWeek, setFirstWeek] = useState(() =>
+    weekStartOf(addWeeks(new Date(), -PAST_WEEKS_IN_VIEW))
+  );
+  const [target, setTarget] = useState<AllocationTarget | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  const today = new Date();
+  const currentWeek = weekStartOf(today);
+  const weekStarts = useMemo(() => listWeekStarts(parseISO(firstWeek), WEEKS_IN_VIEW), [firstWeek]);
+  const lastWeek = weekStarts[weekStarts.length - 1];
+  const rangeStart = useMemo(() => parseISO(firstWeek), [firstWeek]);
+  const rangeEnd = useMemo(() => addDays(parseISO(lastWeek), 6), [lastWeek]);
+
+  const {
+    rows,
+    canonicalProjectIds,
+    isLoading,
+    isSaving,
+    error,
+    saveAllocation,
+    removeAllocation,
+    clearError,
+    refetch,
+  } = useCapacityPlan({ firstWeek, lastWeek });
+  const { resources, loading: resourcesLoading } = useResources();
+  const { projects } = useProjects();
+  const { timeOff, loading: timeOffLoading } = useTimeOff({ startDate: rangeStart, endDate: rangeEnd });
+  const { schedule: startSchedule, loading: startHolidaysLoading } = useHolidaySchedule(rangeStart.getFullYear());
+  const { schedule: endSchedule, loading: endHolidaysLoading } = useHolidaySchedule(rangeEnd.getFullYear());
+
+  const loading = isLoading || resourcesLoading || timeOffLoading || startHolidaysLoading || endHolidaysLoading;
+
+  const completedWeeks = useMemo(
+    () => new Set(weekStarts.filter((w) => isWeekComplete(w, new Date()))),
+    [weekStarts]
+  );
+
+  const personPlans = useMemo(
+    () => buildPersonPlans(
+      resources,
+      rows,
+      weekStarts,
+      mergeHolidaySchedules(startSchedule, endSchedule),
+      timeOff,
+    ),
+    [resources, rows, weekStarts, startSchedule, endSchedule, timeOff]
+  );
+
+  const projectPlans = useMemo(
+    () => buildProjectPlans(rows, weekStarts, new Date()),
+    [rows, weekStarts]
+  );
+
+  // Allocations are saved against canonical projects the viewer may plan
+  const canEdit = (projectId: string | null): boolean => {
+    if (!canPlanAllocations) return false;
+    if (isAdmin || projectId === null) return true;
+    return projectIds?.has(projectId) ?? false;
+  };
+
+  const projectOptions = useMemo(() =>
+    projects
+      .filter((p) => canonicalProjectIds.has(p.id) && (isAdmin || (projectIds?.has(p.id) ?? false)))
+      .map((p) => ({ value: p.id, label: p.project_name }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    [projects, canonicalProjectIds, isAdmin, projectIds]
+  );
+
+  const resourceOptions = useMemo(() =>
+    resources
+      .map((r) => ({ value: r.id, label: resourceDisplayName(r) }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    [resources]
+  );
+
+  const totalCapacity = personPlans.reduce((sum, p) => sum + (p.totalCapacity ?? 0), 0);
+  const totalPlanned = personPlans.reduce((sum, p) => sum + p.totalPlanned, 0);
+  const overAllocatedCount = personPlans.filter((p) => p.weeks.some((w) => w.status === 'over')).length;
+  const plannedRevenueCents = projectPlans.reduce((sum, p) => sum + p.plannedRevenueCents, 0);
+
+  const openEditor = (next: AllocationTarget | null) => {
+    clearError();
+    setTarget(next);
+    setIsEditorOpen(true);
+  };
+
+  const shiftWeeks = (weeks: number) => {
+    setFirstWeek((prev) => format(addWeeks(parseISO(prev), weeks), 'yyyy-MM-dd'));
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-vercel-gray-600">Capacity Planning</h1>
+          <p className="text-sm text-vercel-gray-400 mt-1">
+            Planned hours per person and project by week, with actual hours on completed weeks
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1">
+            <Button variant="ghost" size="sm" onClick={() => shiftWeeks(-4)} aria-label="Previous weeks">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Button>
+            <span className="text-sm font-medium text-vercel-gray-600 min-w-[180px] text-center">
+              {format(rangeStart, 'MMM d')} – {format(rangeEnd, 'MMM d, yyyy')}
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => shiftWeeks(4)} aria-label="Next weeks">
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </Button>
+          </div>
+          <Button
+            variant="secondary"
+            onClick={() => setFirstWeek(weekStartOf(addWeeks(today, -PAST_WEEKS_IN_VIEW)))}
+          >
+            This Week
+          </Button>
+          <Button variant="secondary" onClick={refetch}>
+            Refresh
+          </Button>
+          {canPlanAllocations && (
+            <Button
+              variant="primary"
+              onClick={() => openEditor({ resourceId: '', projectId: '', weekStart: currentWeek, plannedHours: 0 })}
+            >
+              Add Allocation
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Error State */}
+      {error && !isEditorOpen && (
+        <div className="p-4 bg-error-light border border-error rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <svg className="w-5 h-5 text-error" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <span className="text-sm text-error">{error}</span>
+            </div>
+            <button
+              onClick={clearError}
+              aria-label="Dismiss error"
+              className="text-error hover:opacity-80 transition-opacity"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <MetricCard
+          title="Capacity"
+          value={hours(totalCapacity)}
+          secondaryLabel="After holidays and time off"
+          loading={loading}
+        />
+        <MetricCard
+          title="Planned"
+          value={hours(totalPlanned)}
+          secondaryLabel="Of capacity"
+          secondaryValue={totalCapacity > 0 ? `${Math.round((totalPlanned / totalCapacity) * 100)}%` : '—'}
+          loading={loading}
+        />
+        <MetricCard
+          title="Over-allocated"
+          value={overAllocatedCount}
+          secondaryLabel="People planned beyond capacity in a week"
+          isWarning={overAllocatedCount > 0}
+          loading={loading}
+        />
+        <MetricCard
+          title="Expected Revenue"
+          value={formatCurrency(plannedRevenueCents / 100)}
+          secondaryLabel="Planned hours at current rates"
+          loading={loading}
+        />
+      </div>
+
+      {/* People */}
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold text-vercel-gray-600">People</h2>
+          <p className="text-xs text-vercel-gray-400 mt-1">
+            Planned / available hours. Full-time is 8h and part-time 4h per working day on the person's holiday calendar, less approved time off.
+          </p>
+        </div>
+        <CapacityPeopleTable
+          plans={personPlans}
+          weekStarts={weekStarts}
+          completedWeeks={completedWeeks}
+          currentWeek={currentWeek}
+          loading={loading}
+          canEdit={canEdit}
+          onEditCell={openEditor}
+        />
+      </section>
+
+      {/* Projects */}
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold text-vercel-gray-600">Projects</h2>
+          <p className="text-xs text-vercel-gray-400 mt-1">
+            Grouped projects roll up to their primary project. Expected revenue uses each month's project rate.
+          </p>
+        </div>
+        <CapacityProjectsTable
+          plans={projectPlans}
+          weekStarts={weekStarts}
+          completedWeeks={completedWeeks}
+          currentWeek={currentWeek}
+          loading={isLoading}
+        />
+      </section>
+
+      {/* Allocation Editor */}
+      <AllocationEditorModal
+        isOpen={isEditorOpen}
+        onClose={() => {
+          setIsEditorOpen(false);
+          setTarget(null);
+        }}
+        target={target}
+        resourceOptions={resourceOptions}
+        projectOptions={projectOptions}
+        onSave={saveAllocation}
+        onRemove={removeAllocation}
+        isSaving={isSaving}
+        apiError={error}
+        onClearApiError={clearError}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,305 @@
+/**
+ * CompanyPnlPage - Company profit & loss by month with year-to-date.
+ *
+ * Revenue and direct labor per canonical company, overhead per expense
+ * category (USD reporting layer), arranged by utils/companyPnl into
+ * revenue → direct labor → gross margin → overhead → net income. Every month
+ * of the selected year up to the current month is a column, plus a YTD (or
+ * full-year) total. Section rows expand into their companies / categories.
+ *
+ * Amounts the database could not value yet — labor without a cost rate,
+ * expenses whose USD rate is pending — are excluded, never counted as $0, and
+ * flagged on the affected line. Exports (CSV / XLSX) carry the same grid.
+ *
+ * @category Page
+ */
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { useCompanyPnl } from '../../hooks/useCompanyPnl';
+import {
+  buildPnlStatement,
+  formatPnlMonth,
+  marginPct,
+  pnlToCsv,
+  pnlToGrid,
+  statementMonths,
+  type PnlDetailLine,
+  type PnlStatementLine,
+} from '../../utils/companyPnl';
+import { downloadCSV } from '../../utils/generateRevenueCSV';
+import { formatCurrency } from '../../utils/billing';
+import { MetricCard } from '../MetricCard';
+import { Card } from '../Card';
+import { Select } from '../Select';
+import { Button } from '../Button';
+import { Badge } from '../Badge';
+import { ChevronIcon } from '../ChevronIcon';
+import { Spinner } from '../Spinner';
+import { Alert } from '../Alert';
+
+/** Years offered in the selector, counting back from the current year. */
+const YEARS_BACK = 5;
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+const TH_RIGHT_CLASS = 'px-4 py-3 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider whitespace-nowrap';
+const TD_AMOUNT_CLASS = 'px-4 py-2 text-right text-sm font-mono whitespace-nowrap';
+
+function formatCents(cents: number): string {
+  return formatCurrency(cents / 100);
+}
+
+function formatPct(value: number | null): string {
+  return value === null ? '—' : `${value.toFixed(1)}%`;
+}
+
+/** What a line's pending count means, by section. */
+function pendingLabel(line: PnlStatementLine): string | null {
+  if (line.pendingCount === 0 || line.kind !== 'section') return null;
+  return line.section === 'labor'
+    ? `${line.pendingCount} without cost rate`
+    : line.section === 'overhead'
+      ? `${line.pendingCount} pending USD`
+      : `${line.pendingCount} pending`;
+}
+
+function AmountCells({ line, muted }: { line: PnlDetailLine; muted?: boolean }) {
+  const color = muted ? 'text-vercel-gray-400' : 'text-vercel-gray-600';
+  return (
+    <>
+      {line.monthCents.map((cents, i) => (
+        <td key={i} className={`${TD_AMOUNT_CLASS} ${color}`}>
+          {formatCents(cents)}
+        </td>
+      ))}
+      <td className={`${TD_AMOUNT_CLASS} ${color} font-medium`}>{formatCents(line.totalCents)}</td>
+    </>
+  );
+}
+
+export function CompanyPnlPage() {
+  const currentMonth = format(new Date(), 'yyyy-MM');
+  const currentYear = Number(currentMonth.slice(0, 4));
+  const [year, setYear] = useState(currentYear);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const throughMonth = year === currentYear ? currentMonth : `${year}-12`;
+  const { rows, loading, error } = useCompanyPnl(year, throughMonth);
+
+  const statement = useMemo(
+    () => buildPnlStatement(rows, statementMonths(year, throughMonth)),
+    [rows, year, throughMonth],
+  );
+  const totalLabel = year === currentYear ? 'YTD' : 'Full Year';
+
+  const yearOptions = useMemo(
+    () => Array.from({ length: YEARS_BACK + 1 }, (_, i) => {
+      const value = String(currentYear - i);
+      return { value, label: value };
+    }),
+    [currentYear],
+  );
+
+  const [revenue, labor, grossMargin, overhead, net] = statement.lines;
+
+  const toggle = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const handleExportCsv = () => {
+    downloadCSV(pnlToCsv(statement, totalLabel), `profit-and-loss-${year}.csv`);
+  };
+
+  const handleExportXlsx = async () => {
+    setExportError(null);
+    try {
+      // SheetJS is loaded on demand to keep it out of the main bundle
+      const XLSX = await import('xlsx');
+      const sheet = XLSX.utils.aoa_to_sheet(pnlToGrid(statement, totalLabel));
+      sheet['!cols'] = [{ wch: 36 }, ...statement.months.map(() => ({ wch: 14 })), { wch: 14 }];
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, sheet, `P&L ${year}`);
+      XLSX.writeFile(workbook, `profit-and-loss-${year}.xlsx`);
+    } catch (err) {
+      console.error('CompanyPnlPage: XLSX export failed', err);
+      setExportError('The XLSX export could not be created. Please try again or export CSV.');
+    }
+  };
+
+  const renderSubtotal = (line: PnlStatementLine) => (
+    <>
+      <tr key={line.key} className="bg-vercel-gray-50 border-t border-vercel-gray-100">
+        <td className="px-4 py-2 text-sm font-semibold text-vercel-gray-600 whitespace-nowrap">{line.label}</td>
+        {line.monthCents.map((cents, i) => (
+          <td
+            key={i}
+            className={`${TD_AMOUNT_CLASS} font-semibold ${cents < 0 ? 'text-error' : 'text-vercel-gray-600'}`}
+          >
+            {formatCents(cents)}
+          </td>
+        ))}
+        <td className={`${TD_AMOUNT_CLASS} font-semibold ${line.totalCents < 0 ? 'text-error' : 'text-vercel-gray-600'}`}>
+          {formatCents(line.totalCents)}
+        </td>
+      </tr>
+      <tr key={`${line.key}-pct`}>
+        <td className="px-4 py-1 text-xs text-vercel-gray-400">Margin</td>
+        {line.monthCents.map((cents, i) => (
+          <td key={i} className="px-4 py-1 text-right text-xs font-mono text-vercel-gray-400">
+            {formatPct(marginPct(cents, revenue.monthCents[i]))}
+          </td>
+        ))}
+        <td className="px-4 py-1 text-right text-xs font-mono text-vercel-gray-400">
+          {formatPct(marginPct(line.totalCents, revenue.totalCents))}
+        </td>
+      </tr>
+    </>
+  );
+
+  const renderSection = (line: PnlStatementLine) => {
+    const isExpanded = expanded.has(line.key);
+    const pending = pendingLabel(line);
+    return (
+      <>
+        <tr key={line.key} className="border-t border-vercel-gray-100">
+          <td className="px-4 py-2 whitespace-nowrap">
+            <button
+              type="button"
+              onClick={() => toggle(line.key)}
+              className="flex items-center gap-2 text-sm font-medium text-vercel-gray-600 focus:outline-none focus:ring-1 focus:ring-black rounded"
+              aria-expanded={isExpanded}
+              disabled={line.children.length === 0}
+            >
+              <ChevronIcon expanded={isExpanded} size="sm" />
+              {line.label}
+              {pending && (
+                <Badge variant="warning" size="sm">
+                  {pending}
+                </Badge>
+              )}
+            </button>
+          </td>
+          <AmountCells line={line} />
+        </tr>
+        {isExpanded && line.children.map((child) => (
+          <tr key={child.key}>
+            <td className="pl-12 pr-4 py-1.5 text-sm text-vercel-gray-400 whitespace-nowrap">{child.label}</td>
+            <AmountCells line={child} muted />
+          </tr>
+        ))}
+      </>
+    );
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+      {/* Page header */}
+      <section className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-vercel-gray-600">Profit &amp; Loss</h1>
+          <p className="text-xs text-vercel-gray-400 mt-1">
+            Revenue, direct labor and overhead in USD, by month.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={String(year)}
+            onChange={(value) => setYear(Number(value))}
+            options={yearOptions}
+            className="w-28"
+          />
+          <Button variant="secondary" size="md" onClick={handleExportCsv} disabled={loading}>
+            Export CSV
+          </Button>
+          <Button variant="secondary" size="md" onClick={handleExportXlsx} disabled={loading}>
+            Export XLSX
+          </Button>
+        </div>
+      </section>
+
+      {error && <Alert message={error} icon="error" variant="error" />}
+      {exportError && (
+        <Alert message={exportError} icon="error" variant="error" onClose={() => setExportError(null)} />
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <Spinner size="md" />
+          <span className="ml-3 text-xs text-vercel-gray-400">Loading profit &amp; loss...</span>
+        </div>
+      ) : (
+        <>
+          <div className="flex gap-4">
+            <div className="flex-1">
+              <MetricCard title={`Revenue ${totalLabel}`} value={formatCents(revenue.totalCents)} />
+            </div>
+            <div className="flex-1">
+              <MetricCard
+                title={`Gross Margin ${totalLabel}`}
+                value={formatCents(grossMargin.totalCents)}
+                secondaryLabel="Margin"
+                secondaryValue={formatPct(marginPct(grossMargin.totalCents, revenue.totalCents))}
+              />
+            </div>
+            <div className="flex-1">
+              <MetricCard
+                title={`Overhead ${totalLabel}`}
+                value={formatCents(overhead.totalCents)}
+                secondaryLabel={overhead.pendingCount > 0 ? 'Pending USD' : undefined}
+                secondaryValue={overhead.pendingCount > 0 ? `${overhead.pendingCount} rows` : undefined}
+              />
+            </div>
+            <div className="flex-1">
+              <MetricCard
+                title={`Net Income ${totalLabel}`}
+                value={formatCents(net.totalCents)}
+                secondaryLabel="Margin"
+                secondaryValue={formatPct(marginPct(net.totalCents, revenue.totalCents))}
+                isWarning={net.totalCents < 0}
+              />
+            </div>
+          </div>
+
+          <Card padding="none">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+                    <th className={TH_CLASS}>Line</th>
+                    {statement.months.map((month) => (
+                      <th key={month} className={TH_RIGHT_CLASS}>
+                        {formatPnlMonth(month)}
+                        {month === currentMonth && (
+                          <span className="block normal-case tracking-normal text-vercel-gray-300">in progress</span>
+                        )}
+                      </th>
+                    ))}
+                    <th className={TH_RIGHT_CLASS}>{totalLabel}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {renderSection(revenue)}
+                  {renderSection(labor)}
+                  {renderSubtotal(grossMargin)}
+                  {renderSection(overhead)}
+                  {renderSubtotal(net)}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default CompanyPnlPage;
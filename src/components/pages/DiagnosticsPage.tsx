@@ -3,9 +3,13 @@ import { Card } from '../Card';
 import { Badge } from '../Badge';
 import { Button } from '../Button';
 import { Spinner } from '../Spinner';
+import { BillingValidationPanel } from '../BillingValidationPanel';
+import { BillingVerificationPanel } from '../BillingVerificationPanel';
 import { useSyncRuns } from '../../hooks/useSyncRuns';
 import { supabase } from '../../lib/supabase';
 
+type DiagnosticsTab = 'sync_runs' | 'billing_validation' | 'billing_signoff';
+
 /** Map sync_type DB values to human-readable labels */
 const SYNC_TYPE_LABELS: Record<string, string> = {
   clockify_timesheets: 'Clockify',
@@ -47,12 +51,16 @@ function formatShortDatetime(iso: string): string {
 }
 
 /**
- * Diagnostics page — Sync Run Log
+ * Diagnostics page — Sync Run Log, Billing Validation and Billing Sign-off
  *
  * Displays the last 60 sync runs in a table with status, counts, and errors.
+ * The Billing Validation tab checks a raw Clockify/ClickUp export against the
+ * stored monthly billing (BillingValidationPanel). The Billing Sign-off tab
+ * snapshots verified months and shows drift from them (BillingVerificationPanel).
  */
 export function DiagnosticsPage() {
   const { syncRuns, loading, error } = useSyncRuns();
+  const [activeTab, setActiveTab] = useState<DiagnosticsTab>('sync_runs');
   const [exportingTimesheets, setExportingTimesheets] = useState(false);
   const [exportingBilling, setExportingBilling] = useState(false);
   const [exportingTaskTotals, setExportingTaskTotals] = useState(false);
@@ -134,7 +142,11 @@ export function DiagnosticsPage() {
         <div>
           <h1 className="text-xl font-semibold text-vercel-gray-600">Diagnostics</h1>
           <p className="text-sm text-vercel-gray-400 mt-1">
-            Sync Run Log — last 60 runs
+            {activeTab === 'sync_runs'
+              ? 'Sync Run Log — last 60 runs'
+              : activeTab === 'billing_validation'
+                ? 'Billing Validation — raw export vs. monthly billing'
+                : 'Billing Sign-off — verified snapshots and drift'}
           </p>
         </div>
         <div className="flex items-center gap-2">
@@ -225,114 +237,156 @@ export function DiagnosticsPage() {
         </div>
       </div>
 
-      {/* Error State */}
-      {error && (
-        <Card variant="bordered" padding="md">
-          <p className="text-sm text-error-text">{error}</p>
-        </Card>
-      )}
+      {/* Tabs */}
+      <div className="flex gap-2 border-b border-vercel-gray-100">
+        <button
+          onClick={() => setActiveTab('sync_runs')}
+          className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+            activeTab === 'sync_runs'
+              ? 'text-bteam-brand border-bteam-brand'
+              : 'text-vercel-gray-400 border-transparent hover:text-vercel-gray-600'
+          }`}
+        >
+          Sync Runs
+        </button>
+        <button
+          onClick={() => setActiveTab('billing_validation')}
+          className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+            activeTab === 'billing_validation'
+              ? 'text-bteam-brand border-bteam-brand'
+              : 'text-vercel-gray-400 border-transparent hover:text-vercel-gray-600'
+          }`}
+        >
+          Billing Validation
+        </button>
+        <button
+          onClick={() => setActiveTab('billing_signoff')}
+          className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+            activeTab === 'billing_signoff'
+              ? 'text-bteam-brand border-bteam-brand'
+              : 'text-vercel-gray-400 border-transparent hover:text-vercel-gray-600'
+          }`}
+        >
+          Billing Sign-off
+        </button>
+      </div>
 
-      {/* Loading State */}
-      {loading ? (
-        <div className="flex items-center justify-center py-12">
-          <Spinner size="md" />
-          <span className="ml-3 text-sm text-vercel-gray-400">Loading sync runs...</span>
-        </div>
+      {activeTab === 'billing_validation' ? (
+        <BillingValidationPanel />
+      ) : activeTab === 'billing_signoff' ? (
+        <BillingVerificationPanel />
       ) : (
-        <Card variant="default" padding="none">
-          <div className="overflow-x-auto">
-            <table className="w-full text-sm">
-              <thead>
-                <tr className="border-b border-vercel-gray-100">
-                  <th className="text-left py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
-                    Completed At
-                  </th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
-                    Sync Type
-                  </th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
-                    Status
-                  </th>
-                  <th className="text-right py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
-                    Source
-                  </th>
-                  <th className="text-right py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
-                    Manifest
-                  </th>
-                  <th className="text-right py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
-                    Source Hrs
-                  </th>
-                  <th className="text-right py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
-                    Manifest Hrs
-                  </th>
-                  <th className="text-right py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
-                    Deleted
-                  </th>
-                  <th className="text-left py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
-                    Error
-                  </th>
-                </tr>
-              </thead>
-              <tbody>
-                {syncRuns.length === 0 ? (
-                  <tr>
-                    <td colSpan={9} className="py-12 text-center text-sm text-vercel-gray-400">
-                      No sync runs recorded yet.
-                    </td>
+        <>
+        {/* Error State */}
+        {error && (
+          <Card variant="bordered" padding="md">
+            <p className="text-sm text-error-text">{error}</p>
+          </Card>
+        )}
+
+        {/* Loading State */}
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner size="md" />
+            <span className="ml-3 text-sm text-vercel-gray-400">Loading sync runs...</span>
+          </div>
+        ) : (
+          <Card variant="default" padding="none">
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b border-vercel-gray-100">
+                    <th className="text-left py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
+                      Completed At
+                    </th>
+                    <th className="text-left py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
+                      Sync Type
+                    </th>
+                    <th className="text-left py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
+                      Status
+                    </th>
+                    <th className="text-right py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
+                      Source
+                    </th>
+                    <th className="text-right py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
+                      Manifest
+                    </th>
+                    <th className="text-right py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
+                      Source Hrs
+                    </th>
+                    <th className="text-right py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
+                      Manifest Hrs
+                    </th>
+                    <th className="text-right py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
+                      Deleted
+                    </th>
+                    <th className="text-left py-3 px-4 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider">
+                      Error
+                    </th>
                   </tr>
-                ) : (
-                  syncRuns.map((run) => {
-                    const hoursMismatch = isHoursMismatch(run.source_hours, run.manifest_hours);
-                    return (
-                    <tr
-                      key={run.id}
-                      className={`border-b border-vercel-gray-100 last:border-b-0 transition-colors ${
-                        hoursMismatch
-                          ? 'bg-warning-light hover:bg-warning-light'
-                          : 'hover:bg-vercel-gray-50'
-                      }`}
-                    >
-                      <td className="py-2.5 px-4 text-sm text-vercel-gray-600 font-mono whitespace-nowrap">
-                        {formatShortDatetime(run.completed_at)}
-                      </td>
-                      <td className="py-2.5 px-4 text-sm text-vercel-gray-600">
-                        {SYNC_TYPE_LABELS[run.sync_type] || run.sync_type}
-                      </td>
-                      <td className="py-2.5 px-4">
-                        <Badge variant={run.success ? 'success' : 'error'} size="sm">
-                          {run.success ? 'Pass' : 'Fail'}
-                        </Badge>
-                      </td>
-                      <td className="py-2.5 px-4 text-sm text-vercel-gray-600 font-mono text-right">
-                        {run.source_total}
-                      </td>
-                      <td className="py-2.5 px-4 text-sm text-vercel-gray-600 font-mono text-right">
-                        {run.manifest_total}
-                      </td>
-                      <td className={`py-2.5 px-4 text-sm font-mono text-right ${
-                        hoursMismatch ? 'text-warning-text font-semibold' : 'text-vercel-gray-600'
-                      }`}>
-                        {formatHoursValue(run.source_hours, run.sync_type)}
-                      </td>
-                      <td className={`py-2.5 px-4 text-sm font-mono text-right ${
-                        hoursMismatch ? 'text-warning-text font-semibold' : 'text-vercel-gray-600'
-                      }`}>
-                        {formatHoursValue(run.manifest_hours, run.sync_type)}
-                      </td>
-                      <td className="py-2.5 px-4 text-sm text-vercel-gray-600 font-mono text-right">
-                        {run.deleted_count}
-                      </td>
-                      <td className="py-2.5 px-4 text-sm text-vercel-gray-400 max-w-[300px] truncate">
-                        {run.error_message || '\u2014'}
+                </thead>
+                <tbody>
+                  {syncRuns.length === 0 ? (
+                    <tr>
+                      <td colSpan={9} className="py-12 text-center text-sm text-vercel-gray-400">
+                        No sync runs recorded yet.
                       </td>
                     </tr>
-                    );
-                  })
-                )}
-              </tbody>
-            </table>
-          </div>
-        </Card>
+                  ) : (
+                    syncRuns.map((run) => {
+                      const hoursMismatch = isHoursMismatch(run.source_hours, run.manifest_hours);
+                      return (
+                      <tr
+                        key={run.id}
+                        className={`border-b border-vercel-gray-100 last:border-b-0 transition-colors ${
+                          hoursMismatch
+                            ? 'bg-warning-light hover:bg-warning-light'
+                            : 'hover:bg-vercel-gray-50'
+                        }`}
+                      >
+                        <td className="py-2.5 px-4 text-sm text-vercel-gray-600 font-mono whitespace-nowrap">
+                          {formatShortDatetime(run.completed_at)}
+                        </td>
+                        <td className="py-2.5 px-4 text-sm text-vercel-gray-600">
+                          {SYNC_TYPE_LABELS[run.sync_type] || run.sync_type}
+                        </td>
+                        <td className="py-2.5 px-4">
+                          <Badge variant={run.success ? 'success' : 'error'} size="sm">
+                            {run.success ? 'Pass' : 'Fail'}
+                          </Badge>
+                        </td>
+                        <td className="py-2.5 px-4 text-sm text-vercel-gray-600 font-mono text-right">
+                          {run.source_total}
+                        </td>
+                        <td className="py-2.5 px-4 text-sm text-vercel-gray-600 font-mono text-right">
+                          {run.manifest_total}
+                        </td>
+                        <td className={`py-2.5 px-4 text-sm font-mono text-right ${
+                          hoursMismatch ? 'text-warning-text font-semibold' : 'text-vercel-gray-600'
+                        }`}>
+                          {formatHoursValue(run.source_hours, run.sync_type)}
+                        </td>
+                        <td className={`py-2.5 px-4 text-sm font-mono text-right ${
+                          hoursMismatch ? 'text-warning-text font-semibold' : 'text-vercel-gray-600'
+                        }`}>
+                          {formatHoursValue(run.manifest_hours, run.sync_type)}
+                        </td>
+                        <td className="py-2.5 px-4 text-sm text-vercel-gray-600 font-mono text-right">
+                          {run.deleted_count}
+                        </td>
+                        <td className="py-2.5 px-4 text-sm text-vercel-gray-400 max-w-[300px] truncate">
+                          {run.error_message || '\u2014'}
+                        </td>
+                      </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
+        </>
       )}
     </div>
   );
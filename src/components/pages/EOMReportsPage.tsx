@@ -3,7 +3,9 @@
  *
  * Drill-down page displaying generated CSV reports organized by
  * Year > Month > Customer (EOM) and Year > Month > Week > Company (Weekly),
- * with download, regenerate, resend, and backfill actions.
+ * with download (CSV and invoice PDF), regenerate, resend, and backfill actions.
+ * Reports are emailed to per-company recipients on a schedule (migration 141);
+ * each row shows its latest delivery and offers send now / resend.
  *
  * Uses custom inline accordions with ChevronIcon for hierarchy.
  *
@@ -11,7 +13,7 @@
  * @category Page
  */
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, type ReactNode } from 'react';
 import { format } from 'date-fns';
 import { useEOMReports, MONTH_NAMES } from '../../hooks/useEOMReports';
 import { useWeeklyReports } from '../../hooks/useWeeklyReports';
@@ -19,8 +21,12 @@ import type { WeeklyCompanyReport, WeekGroup, WeeklyMonthGroup } from '../../hoo
 import { useQBOConnection } from '../../hooks/useQBOConnection';
 import { useQBOCustomerMappings } from '../../hooks/useQBOCustomerMappings';
 import { useQBOInvoices } from '../../hooks/useQBOInvoices';
+import { useInvoiceSettings } from '../../hooks/useInvoiceSettings';
+import { useReportDeliveries, deliveryKey } from '../../hooks/useReportDeliveries';
+import { useReportRecipients } from '../../hooks/useReportRecipients';
+import { useReportSchedules } from '../../hooks/useReportSchedules';
 import type { EOMCustomerReport, EOMMonthGroup } from '../../hooks/useEOMReports';
-import type { QBOInvoiceLogEntry } from '../../types';
+import type { QBOInvoiceLogEntry, ReportDeliveryLatest, ReportType } from '../../types';
 import { Card } from '../Card';
 import { Button } from '../Button';
 import { Badge } from '../Badge';
@@ -28,6 +34,9 @@ import { Spinner } from '../Spinner';
 import { Alert } from '../Alert';
 import { Modal } from '../Modal';
 import { Tooltip } from '../Tooltip';
+import { InvoiceSettingsModal } from '../InvoiceSettingsModal';
+import { ReportRecipientsModal } from '../ReportRecipientsModal';
+import { ReportDeliverySettingsModal } from '../ReportDeliverySettingsModal';
 
 // ============================================================================
 // ICONS (inline SVGs using design system token classes)
@@ -70,6 +79,121 @@ function ChevronIcon({ expanded }: { expanded: boolean }) {
   );
 }
 
+// ============================================================================
+// DELIVERY SUB-COMPONENTS
+// ============================================================================
+
+/** A report to email now, as confirmed in the send modal */
+interface DeliveryRequest {
+  reportType: ReportType;
+  reportId: string;
+  companyId: string;
+  companyName: string;
+  periodLabel: string;
+  isResend: boolean;
+}
+
+/** Delivery state and actions passed down the accordions */
+interface DeliveryControls {
+  latestByReport: Map<string, ReportDeliveryLatest>;
+  /** `${reportType}:${companyId}` for companies with active recipients */
+  recipientKeys: Set<string>;
+  sendingReports: Map<string, boolean>;
+  onOpenSendModal: (request: DeliveryRequest) => void;
+}
+
+function formatTimestamp(iso: string): string {
+  return format(new Date(iso), 'MMM d, yyyy h:mm a');
+}
+
+interface DeliveryControlProps {
+  reportType: ReportType;
+  companyId: string;
+  companyName: string;
+  reportId: string | null;
+  periodKey: string;
+  periodLabel: string;
+  delivery: DeliveryControls;
+}
+
+function DeliveryControl({
+  reportType,
+  companyId,
+  companyName,
+  reportId,
+  periodKey,
+  periodLabel,
+  delivery,
+}: DeliveryControlProps) {
+  const latest = delivery.latestByReport.get(deliveryKey(reportType, companyId, periodKey));
+  const hasRecipients = delivery.recipientKeys.has(`${reportType}:${companyId}`);
+  const isSending = reportId ? delivery.sendingReports.get(reportId) || false : false;
+
+  const statusBadge = (() => {
+    if (!latest) return null;
+    const recipients = [...latest.to_emails, ...latest.cc_emails].join(', ');
+    switch (latest.status) {
+      case 'sent':
+        return (
+          <Tooltip content={`Emailed ${latest.sent_at ? formatTimestamp(latest.sent_at) : ''} to ${recipients}${latest.delivery_count > 1 ? ` (${latest.delivery_count} deliveries)` : ''}`}>
+            <Badge variant="success" size="sm">Emailed</Badge>
+          </Tooltip>
+        );
+      case 'bounced':
+        return (
+          <Tooltip content={`Bounced${latest.bounced_at ? ` ${formatTimestamp(latest.bounced_at)}` : ''}: ${latest.last_error ?? 'unknown reason'}`}>
+            <Badge variant="error" size="sm">Bounced</Badge>
+          </Tooltip>
+        );
+      case 'failed':
+        return (
+          <Tooltip
+            content={`${latest.last_error ?? 'Delivery failed'} — ${latest.next_retry_at
+              ? `retrying ${formatTimestamp(latest.next_retry_at)}`
+              : `gave up after ${latest.attempt_count} attempts`}`}
+          >
+            <Badge variant="error" size="sm">Email failed</Badge>
+          </Tooltip>
+        );
+      case 'queued':
+        return <Badge variant="warning" size="sm">Queued</Badge>;
+    }
+  })();
+
+  const tooltip = !hasRecipients
+    ? 'No recipients — add them under Recipients'
+    : !reportId
+      ? 'Generate the report first'
+      : latest ? 'Email the report again to its recipients' : 'Email the report to its recipients';
+
+  return (
+    <div className="flex items-center gap-1.5">
+      {statusBadge}
+      <Tooltip content={tooltip}>
+        <Button
+          variant="secondary"
+          size="sm"
+          disabled={!hasRecipients || !reportId || isSending}
+          onClick={() => {
+            if (!reportId) return;
+            delivery.onOpenSendModal({
+              reportType,
+              reportId,
+              companyId,
+              companyName,
+              periodLabel,
+              isResend: !!latest,
+            });
+          }}
+        >
+          {isSending ? <Spinner size="sm" /> : <MailIcon />}
+          <span className="ml-1.5">{latest ? 'Resend' : 'Email'}</span>
+        </Button>
+      </Tooltip>
+    </div>
+  );
+}
+
 // ============================================================================
 // EOM SUB-COMPONENTS
 // ============================================================================
@@ -77,12 +201,15 @@ function ChevronIcon({ expanded }: { expanded: boolean }) {
 interface CustomerRowProps {
   customer: EOMCustomerReport;
   isDownloading: boolean;
+  isDownloadingInvoice: boolean;
   isRegenerating: boolean;
   isMappedToQBO: boolean;
   qboConnected: boolean;
   invoiceStatus: QBOInvoiceLogEntry | undefined;
   isSendingInvoice: boolean;
+  deliveryControl: ReactNode;
   onDownload: () => void;
+  onDownloadInvoice: () => void;
   onRegenerate: () => void;
   onSendInvoice: () => void;
 }
@@ -90,12 +217,15 @@ interface CustomerRowProps {
 function CustomerRow({
   customer,
   isDownloading,
+  isDownloadingInvoice,
   isRegenerating,
   isMappedToQBO,
   qboConnected,
   invoiceStatus,
   isSendingInvoice,
+  deliveryControl,
   onDownload,
+  onDownloadInvoice,
   onRegenerate,
   onSendInvoice,
 }: CustomerRowProps) {
@@ -136,6 +266,24 @@ function CustomerRow({
             <span className="ml-1.5">Download</span>
           </Button>
         </Tooltip>
+        <Tooltip
+          content={!customer.invoiceStoragePath
+            ? 'No invoice PDF — regenerate the report to create one'
+            : customer.invoiceNumber
+              ? `Download invoice ${customer.invoiceNumber} (PDF)`
+              : 'Download invoice PDF'}
+        >
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={!customer.invoiceStoragePath || isDownloadingInvoice}
+            onClick={onDownloadInvoice}
+          >
+            {isDownloadingInvoice ? <Spinner size="sm" /> : <DownloadIcon />}
+            <span className="ml-1.5">Invoice</span>
+          </Button>
+        </Tooltip>
+        {deliveryControl}
         {qboConnected && isMappedToQBO && (() => {
           if (invoiceStatus?.status === 'sent') {
             return (
@@ -237,8 +385,10 @@ interface MonthAccordionProps {
   qboConnected: boolean;
   sendingCompanies: Map<string, boolean>;
   sendAllProgress: { current: number; total: number } | null;
+  delivery: DeliveryControls;
   getInvoiceStatus: (companyId: string, year: number, month: number) => QBOInvoiceLogEntry | undefined;
   onDownload: (storagePath: string, companyName: string, year: number, month: number) => void;
+  onDownloadInvoice: (invoiceStoragePath: string, companyName: string, year: number, month: number) => void;
   onGenerateMonth: (year: number, month: number) => void;
   onOpenConfirmModal: (customer: EOMCustomerReport, year: number, month: number) => void;
   onOpenSendInvoiceModal: (customer: EOMCustomerReport, year: number, month: number) => void;
@@ -255,8 +405,10 @@ function MonthAccordion({
   qboConnected,
   sendingCompanies,
   sendAllProgress,
+  delivery,
   getInvoiceStatus,
   onDownload,
+  onDownloadInvoice,
   onOpenConfirmModal,
   onGenerateMonth,
   onOpenSendInvoiceModal,
@@ -349,6 +501,7 @@ function MonthAccordion({
           {monthGroup.customers.map(customer => {
             const rKey = `${customer.companyId}-${monthGroup.year}-${monthGroup.month}`;
             const dKey = `${customer.storagePath}-${monthGroup.year}-${monthGroup.month}`;
+            const pdfKey = `${customer.invoiceStoragePath}-${monthGroup.year}-${monthGroup.month}`;
             const iKey = `${customer.companyId}-${monthGroup.year}-${monthGroup.month}`;
 
             return (
@@ -356,16 +509,33 @@ function MonthAccordion({
                 key={customer.companyId}
                 customer={customer}
                 isDownloading={downloadingReports.get(dKey) || false}
+                isDownloadingInvoice={downloadingReports.get(pdfKey) || false}
                 isRegenerating={regeneratingReports.get(rKey) || false}
                 isMappedToQBO={mappedCompanyIds.has(customer.companyId)}
                 qboConnected={qboConnected}
                 invoiceStatus={getInvoiceStatus(customer.companyId, monthGroup.year, monthGroup.month)}
                 isSendingInvoice={sendingCompanies.get(iKey) || false}
+                deliveryControl={
+                  <DeliveryControl
+                    reportType="eom"
+                    companyId={customer.companyId}
+                    companyName={customer.companyName}
+                    reportId={customer.reportId}
+                    periodKey={`${monthGroup.year}-${String(monthGroup.month).padStart(2, '0')}`}
+                    periodLabel={monthGroup.label}
+                    delivery={delivery}
+                  />
+                }
                 onDownload={() => {
                   if (customer.storagePath) {
                     onDownload(customer.storagePath, customer.companyName, monthGroup.year, monthGroup.month);
                   }
                 }}
+                onDownloadInvoice={() => {
+                  if (customer.invoiceStoragePath) {
+                    onDownloadInvoice(customer.invoiceStoragePath, customer.companyName, monthGroup.year, monthGroup.month);
+                  }
+                }}
                 onRegenerate={() => {
                   onOpenConfirmModal(customer, monthGroup.year, monthGroup.month);
                 }}
@@ -392,8 +562,10 @@ interface EOMYearAccordionProps {
   qboConnected: boolean;
   sendingCompanies: Map<string, boolean>;
   sendAllProgress: { year: number; month: number; current: number; total: number } | null;
+  delivery: DeliveryControls;
   getInvoiceStatus: (companyId: string, year: number, month: number) => QBOInvoiceLogEntry | undefined;
   onDownload: (storagePath: string, companyName: string, year: number, month: number) => void;
+  onDownloadInvoice: (invoiceStoragePath: string, companyName: string, year: number, month: number) => void;
   onGenerateMonth: (year: number, month: number) => void;
   onOpenConfirmModal: (customer: EOMCustomerReport, year: number, month: number) => void;
   onOpenSendInvoiceModal: (customer: EOMCustomerReport, year: number, month: number) => void;
@@ -411,8 +583,10 @@ function EOMYearAccordion({
   qboConnected,
   sendingCompanies,
   sendAllProgress,
+  delivery,
   getInvoiceStatus,
   onDownload,
+  onDownloadInvoice,
   onGenerateMonth,
   onOpenConfirmModal,
   onOpenSendInvoiceModal,
@@ -459,8 +633,10 @@ function EOMYearAccordion({
                     ? { current: sendAllProgress.current, total: sendAllProgress.total }
                     : null
                 }
+                delivery={delivery}
                 getInvoiceStatus={getInvoiceStatus}
                 onDownload={onDownload}
+                onDownloadInvoice={onDownloadInvoice}
                 onGenerateMonth={onGenerateMonth}
                 onOpenConfirmModal={onOpenConfirmModal}
                 onOpenSendInvoiceModal={onOpenSendInvoiceModal}
@@ -482,6 +658,8 @@ interface WeeklyCompanyRowProps {
   company: WeeklyCompanyReport;
   isDownloading: boolean;
   isResending: boolean;
+  /** Recipient delivery control; replaces the project-manager resend when set */
+  deliveryControl: ReactNode | null;
   onDownload: () => void;
   onResend: () => void;
 }
@@ -490,6 +668,7 @@ function WeeklyCompanyRow({
   company,
   isDownloading,
   isResending,
+  deliveryControl,
   onDownload,
   onResend,
 }: WeeklyCompanyRowProps) {
@@ -523,17 +702,19 @@ function WeeklyCompanyRow({
             <span className="ml-1.5">Download</span>
           </Button>
         </Tooltip>
-        <Tooltip content="Resend weekly report email to project managers">
-          <Button
-            variant="secondary"
-            size="sm"
-            disabled={isResending}
-            onClick={onResend}
-          >
-            {isResending ? <Spinner size="sm" /> : <MailIcon />}
-            <span className="ml-1.5">Resend Report</span>
-          </Button>
-        </Tooltip>
+        {deliveryControl ?? (
+          <Tooltip content="Resend weekly report email to project managers">
+            <Button
+              variant="secondary"
+              size="sm"
+              disabled={isResending}
+              onClick={onResend}
+            >
+              {isResending ? <Spinner size="sm" /> : <MailIcon />}
+              <span className="ml-1.5">Resend Report</span>
+            </Button>
+          </Tooltip>
+        )}
       </div>
     </div>
   );
@@ -544,6 +725,7 @@ interface WeekAccordionProps {
   defaultExpanded: boolean;
   downloadingReports: Map<string, boolean>;
   resendingReports: Map<string, boolean>;
+  delivery: DeliveryControls;
   onDownload: (storagePath: string | null, companyId: string, companyName: string, weekStart: string, weekEnd: string) => void;
   onOpenResendModal: (company: WeeklyCompanyReport, weekStart: string, weekEnd: string, weekLabel: string) => void;
 }
@@ -553,6 +735,7 @@ function WeekAccordion({
   defaultExpanded,
   downloadingReports,
   resendingReports,
+  delivery,
   onDownload,
   onOpenResendModal,
 }: WeekAccordionProps) {
@@ -586,6 +769,17 @@ function WeekAccordion({
                 company={company}
                 isDownloading={downloadingReports.get(dKey) || false}
                 isResending={resendingReports.get(rKey) || false}
+                deliveryControl={delivery.recipientKeys.has(`weekly:${company.companyId}`) ? (
+                  <DeliveryControl
+                    reportType="weekly"
+                    companyId={company.companyId}
+                    companyName={company.companyName}
+                    reportId={company.reportId}
+                    periodKey={week.weekStart}
+                    periodLabel={`week of ${week.weekLabel}`}
+                    delivery={delivery}
+                  />
+                ) : null}
                 onDownload={() => {
                   onDownload(company.storagePath, company.companyId, company.companyName, week.weekStart, week.weekEnd);
                 }}
@@ -607,6 +801,7 @@ interface WeeklyMonthAccordionProps {
   mostRecentWeekStart: string | null;
   downloadingReports: Map<string, boolean>;
   resendingReports: Map<string, boolean>;
+  delivery: DeliveryControls;
   onDownload: (storagePath: string | null, companyId: string, companyName: string, weekStart: string, weekEnd: string) => void;
   onOpenResendModal: (company: WeeklyCompanyReport, weekStart: string, weekEnd: string, weekLabel: string) => void;
 }
@@ -617,6 +812,7 @@ function WeeklyMonthAccordion({
   mostRecentWeekStart,
   downloadingReports,
   resendingReports,
+  delivery,
   onDownload,
   onOpenResendModal,
 }: WeeklyMonthAccordionProps) {
@@ -654,6 +850,7 @@ function WeeklyMonthAccordion({
                 defaultExpanded={isMostRecent}
                 downloadingReports={downloadingReports}
                 resendingReports={resendingReports}
+                delivery={delivery}
                 onDownload={onDownload}
                 onOpenResendModal={onOpenResendModal}
               />
@@ -672,6 +869,7 @@ interface WeeklyYearAccordionProps {
   mostRecentWeekStart: string | null;
   downloadingReports: Map<string, boolean>;
   resendingReports: Map<string, boolean>;
+  delivery: DeliveryControls;
   onDownload: (storagePath: string | null, companyId: string, companyName: string, weekStart: string, weekEnd: string) => void;
   onOpenResendModal: (company: WeeklyCompanyReport, weekStart: string, weekEnd: string, weekLabel: string) => void;
 }
@@ -683,6 +881,7 @@ function WeeklyYearAccordion({
   mostRecentWeekStart,
   downloadingReports,
   resendingReports,
+  delivery,
   onDownload,
   onOpenResendModal,
 }: WeeklyYearAccordionProps) {
@@ -720,6 +919,7 @@ function WeeklyYearAccordion({
                 mostRecentWeekStart={isMostRecentMonth ? mostRecentWeekStart : null}
                 downloadingReports={downloadingReports}
                 resendingReports={resendingReports}
+                delivery={delivery}
                 onDownload={onDownload}
                 onOpenResendModal={onOpenResendModal}
               />
@@ -748,6 +948,7 @@ export function EOMReportsPage() {
     generatingMonths,
     backfilling,
     downloadReport: eomDownloadReport,
+    downloadInvoice: eomDownloadInvoice,
     regenerateReport,
     generateMonth,
     backfillAll,
@@ -792,6 +993,118 @@ export function EOMReportsPage() {
     return new Set(qboMappings.map(m => m.company_id));
   }, [qboMappings]);
 
+  // ---- Invoice PDF settings ----
+  const {
+    settings: invoiceSettings,
+    isSaving: invoiceSettingsSaving,
+    error: invoiceSettingsError,
+    saveSettings: saveInvoiceSettings,
+    clearError: clearInvoiceSettingsError,
+  } = useInvoiceSettings();
+  const [showInvoiceSettings, setShowInvoiceSettings] = useState(false);
+
+  // ---- Report delivery (recipients, schedules, send now / resend) ----
+  const {
+    latestByReport,
+    error: deliveryError,
+    sendingReports,
+    sendReport,
+  } = useReportDeliveries();
+
+  const {
+    recipients,
+    isSaving: recipientsSaving,
+    error: recipientsError,
+    addRecipient,
+    updateRecipient,
+    deleteRecipient,
+    clearError: clearRecipientsError,
+  } = useReportRecipients();
+
+  const {
+    schedules,
+    isSaving: schedulesSaving,
+    error: schedulesError,
+    saveSchedule,
+    clearError: clearSchedulesError,
+  } = useReportSchedules();
+
+  const [showRecipients, setShowRecipients] = useState(false);
+  const [showDeliverySettings, setShowDeliverySettings] = useState(false);
+  const [sendModal, setSendModal] = useState<DeliveryRequest | null>(null);
+  const [deliveryAlert, setDeliveryAlert] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+
+  const recipientKeys = useMemo(() => new Set(
+    recipients
+      .filter(r => r.is_active)
+      .map(r => `${r.report_type}:${r.company_id}`)
+  ), [recipients]);
+
+  const deliveryControls = useMemo<DeliveryControls>(() => ({
+    latestByReport,
+    recipientKeys,
+    sendingReports,
+    onOpenSendModal: (request) => {
+      setDeliveryAlert(null);
+      setSendModal(request);
+    },
+  }), [latestByReport, recipientKeys, sendingReports]);
+
+  // Companies for the recipients modal: every company with an EOM or weekly report
+  const reportCompanies = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const year of eomYears) {
+      for (const month of year.months) {
+        for (const c of month.customers) byId.set(c.companyId, c.companyName);
+      }
+    }
+    for (const year of weeklyYears) {
+      for (const month of year.months) {
+        for (const week of month.weeks) {
+          for (const c of week.companies) if (!byId.has(c.companyId)) byId.set(c.companyId, c.companyName);
+        }
+      }
+    }
+    return [...byId]
+      .map(([id, name]) => ({ id, name }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [eomYears, weeklyYears]);
+
+  const sendModalRecipients = useMemo(() => {
+    if (!sendModal) return { to: [] as string[], cc: [] as string[] };
+    const active = recipients.filter(r =>
+      r.is_active && r.company_id === sendModal.companyId && r.report_type === sendModal.reportType
+    );
+    return {
+      to: active.filter(r => r.recipient_kind === 'to').map(r => r.email),
+      cc: active.filter(r => r.recipient_kind === 'cc').map(r => r.email),
+    };
+  }, [sendModal, recipients]);
+
+  const handleConfirmSend = useCallback(async () => {
+    if (!sendModal) return;
+    const { reportType, reportId, companyName, periodLabel } = sendModal;
+    setSendModal(null);
+
+    try {
+      const result = await sendReport(reportType, reportId);
+      setDeliveryAlert(result.status === 'sent'
+        ? {
+          type: 'success',
+          message: `Report for ${companyName} (${periodLabel}) emailed to ${[...result.to, ...result.cc].join(', ')}.`,
+        }
+        : {
+          type: 'error',
+          message: `Report for ${companyName} (${periodLabel}) could not be emailed: ${result.error}. It will be retried automatically.`,
+        });
+    } catch (err) {
+      setDeliveryAlert({
+        type: 'error',
+        message: err instanceof Error ? err.message : 'Failed to email report',
+      });
+    }
+  }, [sendModal, sendReport]);
+
   // ---- QBO disconnect confirmation modal state ----
   const [showDisconnectModal, setShowDisconnectModal] = useState(false);
 
@@ -959,6 +1272,20 @@ export function EOMReportsPage() {
             </p>
           </div>
           <div className="flex items-center gap-3">
+            <Button
+              variant="ghost"
+              size="md"
+              onClick={() => setShowRecipients(true)}
+            >
+              Recipients
+            </Button>
+            <Button
+              variant="ghost"
+              size="md"
+              onClick={() => setShowDeliverySettings(true)}
+            >
+              Delivery Settings
+            </Button>
             {/* QBO Connection Status / Button */}
             {qboLoading ? (
               <Spinner size="sm" />
@@ -984,6 +1311,15 @@ export function EOMReportsPage() {
                 Connect to QuickBooks
               </Button>
             )}
+            {activeView === 'eom' && (
+              <Button
+                variant="ghost"
+                size="md"
+                onClick={() => setShowInvoiceSettings(true)}
+              >
+                Invoice Settings
+              </Button>
+            )}
             {activeView === 'eom' && (
               <Button
                 variant="secondary"
@@ -1038,6 +1374,17 @@ export function EOMReportsPage() {
       {qboError && <Alert message={qboError} icon="error" variant="error" />}
       {qboMappingError && <Alert message={qboMappingError} icon="error" variant="error" />}
       {qboInvoiceError && <Alert message={qboInvoiceError} icon="error" variant="error" onClose={clearQboInvoiceError} />}
+      {deliveryError && <Alert message={deliveryError} icon="error" variant="error" />}
+
+      {/* Report email delivery alert */}
+      {deliveryAlert && (
+        <Alert
+          message={deliveryAlert.message}
+          icon={deliveryAlert.type === 'success' ? 'info' : 'error'}
+          variant={deliveryAlert.type === 'success' ? 'default' : 'error'}
+          onClose={() => setDeliveryAlert(null)}
+        />
+      )}
 
       {/* Invoice success alert */}
       {activeView === 'eom' && invoiceAlert && (
@@ -1114,8 +1461,10 @@ export function EOMReportsPage() {
                   qboConnected={qboConnected}
                   sendingCompanies={sendingCompanies}
                   sendAllProgress={sendAllProgress}
+                  delivery={deliveryControls}
                   getInvoiceStatus={getInvoiceStatus}
                   onDownload={eomDownloadReport}
+                  onDownloadInvoice={eomDownloadInvoice}
                   onGenerateMonth={generateMonth}
                   onOpenConfirmModal={handleOpenConfirmModal}
                   onOpenSendInvoiceModal={handleOpenSendInvoiceModal}
@@ -1156,6 +1505,7 @@ export function EOMReportsPage() {
                   mostRecentWeekStart={yearGroup.year === weeklyMostRecent.year ? weeklyMostRecent.weekStart : null}
                   downloadingReports={weeklyDownloadingReports}
                   resendingReports={weeklyResendingReports}
+                  delivery={deliveryControls}
                   onDownload={weeklyDownloadReport}
                   onOpenResendModal={handleOpenWeeklyResendModal}
                 />
@@ -1223,6 +1573,83 @@ export function EOMReportsPage() {
         )}
       </Modal>
 
+      {/* Report Email Send Confirmation Modal */}
+      <Modal
+        isOpen={sendModal !== null}
+        onClose={() => setSendModal(null)}
+        title={sendModal?.isResend ? 'Resend Report Email' : 'Email Report'}
+        maxWidth="sm"
+        footer={
+          <>
+            <Button variant="secondary" onClick={() => setSendModal(null)}>
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={handleConfirmSend}>
+              Send
+            </Button>
+          </>
+        }
+      >
+        {sendModal && (
+          <div className="space-y-3">
+            <p className="text-sm text-vercel-gray-400">
+              Email the {sendModal.reportType === 'eom' ? 'end-of-month' : 'weekly'} report for{' '}
+              <span className="font-medium text-vercel-gray-600">{sendModal.companyName}</span>
+              {' '}({sendModal.periodLabel}) using the delivery template.
+            </p>
+            <div className="text-sm text-vercel-gray-400">
+              <div>
+                To:{' '}
+                <span className="text-vercel-gray-600">{sendModalRecipients.to.join(', ') || '—'}</span>
+              </div>
+              {sendModalRecipients.cc.length > 0 && (
+                <div>
+                  Cc:{' '}
+                  <span className="text-vercel-gray-600">{sendModalRecipients.cc.join(', ')}</span>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </Modal>
+
+      {/* Report Recipients Modal */}
+      <ReportRecipientsModal
+        isOpen={showRecipients}
+        onClose={() => setShowRecipients(false)}
+        companies={reportCompanies}
+        recipients={recipients}
+        initialReportType={activeView}
+        onAdd={addRecipient}
+        onUpdate={updateRecipient}
+        onDelete={deleteRecipient}
+        isSaving={recipientsSaving}
+        apiError={recipientsError}
+        onClearApiError={clearRecipientsError}
+      />
+
+      {/* Report Delivery Settings Modal */}
+      <ReportDeliverySettingsModal
+        isOpen={showDeliverySettings}
+        onClose={() => setShowDeliverySettings(false)}
+        schedules={schedules}
+        onSave={saveSchedule}
+        isSaving={schedulesSaving}
+        apiError={schedulesError}
+        onClearApiError={clearSchedulesError}
+      />
+
+      {/* Invoice PDF Settings Modal */}
+      <InvoiceSettingsModal
+        isOpen={showInvoiceSettings}
+        onClose={() => setShowInvoiceSettings(false)}
+        settings={invoiceSettings}
+        onSave={saveInvoiceSettings}
+        isSaving={invoiceSettingsSaving}
+        apiError={invoiceSettingsError}
+        onClearApiError={clearInvoiceSettingsError}
+      />
+
       {/* QBO Disconnect Confirmation Modal */}
       <Modal
         isOpen={showDisconnectModal}
@@ -45,6 +45,12 @@ export function EmployeeManagementPage() {
     refetch();
   }, [refetch]);
 
+  // Keep the editor on the refetched row so a cost change shows the new current cost
+  const editingResource = useMemo(() => {
+    if (!selectedResource) return null;
+    return entities.find(e => e.id === selectedResource.id) ?? selectedResource;
+  }, [entities, selectedResource]);
+
   const incompleteCount = sortedEntities.filter(r => !r.email || !r.first_name).length;
 
   return (
@@ -121,11 +127,12 @@ export function EmployeeManagementPage() {
       <EmployeeEditorModal
         isOpen={isModalOpen}
         onClose={handleCloseModal}
-        resource={selectedResource}
+        resource={editingResource}
         onSave={handleSaveResource}
         isSaving={isUpdating}
         employmentTypes={employmentTypes}
         onGroupChange={handleGroupChange}
+        onCostChange={refetch}
       />
     </div>
   );
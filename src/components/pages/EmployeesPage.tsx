@@ -1,11 +1,12 @@
-import { useState, useMemo, useCallback, useEffect } from 'react';
+import { useMemo, useCallback } from 'react';
 import { format } from 'date-fns';
 import { useEmployeeTotals } from '../../hooks/useEmployeeTotals';
 import { useMonthlyRates } from '../../hooks/useMonthlyRates';
 import { useCanonicalCompanyMapping } from '../../hooks/useCanonicalCompanyMapping';
 import { useTimeOff } from '../../hooks/useTimeOff';
 import { useEmployeeTableEntities } from '../../hooks/useEmployeeTableEntities';
-import { supabase } from '../../lib/supabase';
+import { useResourceCosts } from '../../hooks/useResourceCosts';
+import { useHolidaySchedule } from '../../hooks/useHolidaySchedule';
 import { useDateFilter } from '../../contexts/DateFilterContext';
 import { RangeSelector } from '../RangeSelector';
 import { EmployeePerformance } from '../EmployeePerformance';
@@ -13,8 +14,9 @@ import { MetricCard } from '../MetricCard';
 import { Spinner } from '../Spinner';
 import { formatCurrency } from '../../utils/billing';
 import { minutesToHours } from '../../utils/calculations';
+import { buildEmployeeCostRateLookup } from '../../utils/employeeCost';
 import { useUtilizationMetrics } from '../../hooks/useUtilizationMetrics';
-import type { MonthSelection, BulgarianHoliday } from '../../types';
+import type { MonthSelection } from '../../types';
 
 export function EmployeesPage() {
   const { dateRange, mode, selectedMonth: filterSelectedMonth, setDateRange, setFilter } = useDateFilter();
@@ -44,19 +46,11 @@ export function EmployeesPage() {
   // Fetch employee entities (excludes grouped members to avoid double-counting)
   const { entities: employees, loading: employeesLoading } = useEmployeeTableEntities();
 
-  // Fetch holidays for the selected month
-  const [holidays, setHolidays] = useState<BulgarianHoliday[]>([]);
-  useEffect(() => {
-    async function fetchHolidays() {
-      const year = dateRange.start.getFullYear();
-      const { data } = await supabase
-        .from('bulgarian_holidays')
-        .select('*')
-        .eq('year', year);
-      setHolidays(data || []);
-    }
-    fetchHolidays();
-  }, [dateRange.start]);
+  // Employee cost history (each month is costed at the rate in force)
+  const { costsByResource, isLoading: costsLoading } = useResourceCosts();
+
+  // Fetch every holiday calendar for the selected year (per-employee working days)
+  const { schedule: holidaySchedule } = useHolidaySchedule(dateRange.start.getFullYear());
 
   // Helper to get canonical company name (ID-only lookup, no name fallbacks)
   const getCanonicalCompanyName = useCallback((clientId: string): string => {
@@ -75,22 +69,14 @@ export function EmployeesPage() {
     return map;
   }, [projectsWithRates]);
 
-  // Build employee hourly rate lookup: canonical display name -> hourly_rate
-  const employeeHourlyRateLookup = useMemo(() => {
-    const map = new Map<string, number>();
-    for (const emp of employees) {
-      const displayName = emp.first_name || emp.last_name
-        ? [emp.first_name, emp.last_name].filter(Boolean).join(' ')
-        : emp.external_label;
-      if (emp.hourly_rate != null) {
-        map.set(displayName, emp.hourly_rate);
-      }
-    }
-    return map;
-  }, [employees]);
+  // Build employee cost lookup: canonical display name + work date -> hourly cost
+  const employeeCostRate = useMemo(
+    () => buildEmployeeCostRateLookup(employees, costsByResource),
+    [employees, costsByResource]
+  );
 
   // Combined loading state for utilization metrics
-  const metricsLoading = loading || ratesLoading || timeOffLoading || employeesLoading;
+  const metricsLoading = loading || ratesLoading || timeOffLoading || employeesLoading || costsLoading;
 
   // Build synthetic entries for utilization metrics from Layer 2 rows
   // useUtilizationMetrics needs entries with user_id, total_minutes, work_date
@@ -112,7 +98,7 @@ export function EmployeesPage() {
   // Calculate utilization metrics (shared hook)
   const utilizationMetrics = useUtilizationMetrics({
     dateRange,
-    holidays,
+    holidaySchedule,
     employees,
     timeOff,
     entries: syntheticEntries as any,
@@ -130,7 +116,7 @@ export function EmployeesPage() {
     csvRows.push(['Employee', 'Company', 'Project', 'Task', 'Hours', 'Profit', 'Revenue']);
 
     // Build employee data from Layer 2 rows
-    const userMap = new Map<string, Map<string, Map<string, Map<string, number>>>>();
+    const userMap = new Map<string, Map<string, Map<string, Map<string, { roundedMinutes: number; cost: number | null }>>>>();
     const userCompanyNames = new Map<string, Map<string, string>>();
 
     for (const row of rows) {
@@ -160,9 +146,15 @@ export function EmployeesPage() {
       }
       const taskMap = projectMap.get(projectKey)!;
 
-      // Sum rounded_minutes
-      const currentMinutes = taskMap.get(taskName) || 0;
-      taskMap.set(taskName, currentMinutes + row.rounded_minutes);
+      // Sum rounded_minutes, costed at the rate of the row's month
+      const current = taskMap.get(taskName) ?? { roundedMinutes: 0, cost: 0 };
+      const hourlyRate = employeeCostRate(userName, row.work_date);
+      taskMap.set(taskName, {
+        roundedMinutes: current.roundedMinutes + row.rounded_minutes,
+        cost: current.cost !== null && hourlyRate !== null
+          ? current.cost + (row.rounded_minutes / 60) * hourlyRate
+          : null,
+      });
     }
 
     // Convert to CSV rows with revenue/profit calculations
@@ -171,7 +163,6 @@ export function EmployeesPage() {
     for (const userName of sortedUsers) {
       const companyMap = userMap.get(userName)!;
       const companyNameMap = userCompanyNames.get(userName)!;
-      const employeeHourlyRate = employeeHourlyRateLookup.get(userName) ?? null;
 
       for (const [companyId, projectMap] of companyMap) {
         const companyName = companyNameMap.get(companyId) || companyId;
@@ -182,17 +173,14 @@ export function EmployeesPage() {
           const canonicalProjectId = projectCanonicalIdLookup?.get(projectId) || projectId;
           const projectRate = projectRateLookup.get(canonicalProjectId) ?? 0;
 
-          for (const [taskName, roundedMinutes] of taskMap) {
+          for (const [taskName, { roundedMinutes, cost }] of taskMap) {
             const roundedHours = roundedMinutes / 60;
 
             // Revenue = rounded_hours x project_rate
             const taskRevenue = roundedHours * projectRate;
 
             // Profit = revenue - (rounded_hours x employee_hourly_rate)
-            let taskProfit: number | null = null;
-            if (employeeHourlyRate !== null) {
-              taskProfit = taskRevenue - (roundedHours * employeeHourlyRate);
-            }
+            const taskProfit = cost !== null ? taskRevenue - cost : null;
 
             csvRows.push([
               userName,
@@ -223,7 +211,7 @@ export function EmployeesPage() {
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
-  }, [rows, dateRange, userIdToDisplayNameLookup, getCanonicalCompanyName, projectCanonicalIdLookup, projectRateLookup, employeeHourlyRateLookup]);
+  }, [rows, dateRange, userIdToDisplayNameLookup, getCanonicalCompanyName, projectCanonicalIdLookup, projectRateLookup, employeeCostRate]);
 
   return (
     <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
@@ -295,6 +283,7 @@ export function EmployeesPage() {
           rows={rows}
           projectsWithRates={projectsWithRates}
           employees={employees}
+          employeeCosts={costsByResource}
           timeOff={timeOff}
           getCanonicalCompanyName={getCanonicalCompanyName}
           userIdToDisplayNameLookup={userIdToDisplayNameLookup}
@@ -5,7 +5,9 @@
  * Year > Month > Category drill-down from that single array through the
  * cents-based tree builder (expenseTree.ts). Summary metrics, the needs-review
  * queue, and the accordion all read from the same computed source, so no two
- * surfaces can disagree.
+ * surfaces can disagree. Category budgets (useExpenseBudgets) are folded into
+ * the same tree, so the accordion's variance badges and the summary's
+ * year-to-date budget card read the same numbers.
  *
  * Credits (entry_type === 'Credit') are receivables, not expenses. They are
  * already excluded from the accordion/totals; here we derive a SINGLE
@@ -19,8 +21,12 @@
 
 import { useCallback, useMemo, useState } from 'react';
 import { useExpenses } from '../../hooks/useExpenses';
+import { useExpenseBudgets } from '../../hooks/useExpenseBudgets';
+import { usePermissions } from '../../contexts/PermissionsContext';
 import { supabase } from '../../lib/supabase';
 import { buildExpenseTree } from '../expenses/expenseTree';
+import { currentMonthKey } from '../expenses/expenseBudgets';
+import { ExpenseBudgetsModal } from '../expenses/ExpenseBudgetsModal';
 import { ExpenseAccordion } from '../expenses/ExpenseAccordion';
 import { ExpensesSummary } from '../expenses/ExpensesSummary';
 import { ExpenseUploadModal } from '../expenses/ExpenseUploadModal';
@@ -44,14 +50,29 @@ const MAX_TRANSLATE_ITERATIONS = 30;
 
 export function ExpensesPage() {
   const { expenses, categories, loading, error, refetch } = useExpenses();
+  // Upload, translation and review are admin/finance actions; other roles read only
+  const { canManageExpenses } = usePermissions();
+  const {
+    budgets,
+    isSaving: isSavingBudgets,
+    error: budgetsError,
+    saveBudgets,
+    copyBudgets,
+    clearError: clearBudgetsError,
+  } = useExpenseBudgets();
   const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [isBudgetsOpen, setIsBudgetsOpen] = useState(false);
   const [isTranslating, setIsTranslating] = useState(false);
   const [translateError, setTranslateError] = useState<string | null>(null);
   const [translateSummary, setTranslateSummary] = useState<string | null>(null);
 
   // Single computation path: the tree, the grand total, and the review subset
   // are all derived from the one `expenses` array.
-  const tree = useMemo(() => buildExpenseTree(expenses, categories), [expenses, categories]);
+  const asOfMonth = currentMonthKey();
+  const tree = useMemo(
+    () => buildExpenseTree(expenses, categories, { budgets, asOfMonth }),
+    [expenses, categories, budgets, asOfMonth],
+  );
 
   // Credits are receivables, not expenses — exclude them from every review
   // surface. This ONE filtered array is the single basis for both the review
@@ -76,6 +97,15 @@ export function ExpensesPage() {
   const totalEur = tree.grandTotalCents / 100;
   const totalUsd = tree.grandUsdTotalCents / 100;
 
+  const currentYear = tree.years.find((year) => year.year === Number(asOfMonth.slice(0, 4)));
+  const budgetYtd = currentYear?.hasBudget
+    ? {
+        year: currentYear.year,
+        budgetEur: currentYear.ytdBudgetCents / 100,
+        actualEur: currentYear.ytdTotalCents / 100,
+      }
+    : undefined;
+
   const handleTranslatePending = useCallback(async () => {
     setIsTranslating(true);
     setTranslateError(null);
@@ -94,7 +124,7 @@ export function ExpensesPage() {
           const status = context?.status;
           setTranslateError(
             status === 403
-              ? 'You need admin access to translate expenses.'
+              ? 'You need admin or finance access to translate expenses.'
               : status === 401
                 ? 'Your session has expired. Please sign in again and retry.'
                 : 'Translation could not be completed. Please try again.',
@@ -133,12 +163,22 @@ export function ExpensesPage() {
             Bank-export expenses converted to EUR, categorized and bucketed by month.
           </p>
         </div>
-        <Button variant="primary" size="md" onClick={() => setIsUploadOpen(true)}>
-          Upload
-        </Button>
+        {canManageExpenses && (
+          <div className="flex items-center gap-2">
+            <Button variant="secondary" size="md" onClick={() => setIsBudgetsOpen(true)}>
+              Budgets
+            </Button>
+            <Button variant="primary" size="md" onClick={() => setIsUploadOpen(true)}>
+              Upload
+            </Button>
+          </div>
+        )}
       </section>
 
       {error && <Alert message={error} icon="error" variant="error" />}
+      {budgetsError && !isBudgetsOpen && (
+        <Alert message={budgetsError} icon="error" variant="error" onClose={clearBudgetsError} />
+      )}
 
       {loading ? (
         <div className="flex items-center justify-center py-12">
@@ -153,9 +193,10 @@ export function ExpensesPage() {
             expenseCount={tree.expenseCount}
             needsReviewCount={needsReviewExpenses.length}
             usdPendingCount={tree.grandUsdPendingCount}
+            budgetYtd={budgetYtd}
           />
 
-          {(pendingTranslationCount > 0 || translateError || translateSummary) && (
+          {canManageExpenses && (pendingTranslationCount > 0 || translateError || translateSummary) && (
             <section className="flex items-center gap-3">
               {pendingTranslationCount > 0 && (
                 <Button
@@ -192,9 +233,10 @@ export function ExpensesPage() {
             </section>
           )}
 
-          {needsReviewExpenses.length > 0 && (
+          {canManageExpenses && needsReviewExpenses.length > 0 && (
             <ExpenseReviewQueue
               expenses={needsReviewExpenses}
+              allExpenses={expenses}
               categories={categories}
               onUpdated={refetch}
             />
@@ -204,7 +246,9 @@ export function ExpensesPage() {
             <Card padding="lg">
               <div className="text-center py-8">
                 <p className="text-sm text-vercel-gray-400">
-                  No expenses yet. Upload a bank export to get started.
+                  {canManageExpenses
+                    ? 'No expenses yet. Upload a bank export to get started.'
+                    : 'No expenses yet.'}
                 </p>
               </div>
             </Card>
@@ -222,6 +266,22 @@ export function ExpensesPage() {
           refetch();
         }}
       />
+
+      {canManageExpenses && (
+        <ExpenseBudgetsModal
+          isOpen={isBudgetsOpen}
+          onClose={() => setIsBudgetsOpen(false)}
+          categories={categories}
+          budgets={budgets}
+          tree={tree}
+          initialMonth={asOfMonth}
+          onSave={saveBudgets}
+          onCopy={copyBudgets}
+          isSaving={isSavingBudgets}
+          apiError={budgetsError}
+          onClearApiError={clearBudgetsError}
+        />
+      )}
     </div>
   );
 }
@@ -1,5 +1,6 @@
 import { useState, useMemo } from 'react';
 import { useHolidays } from '../../hooks/useHolidays';
+import { useHolidayCalendars } from '../../hooks/useHolidayCalendars';
 import { useTimeOff } from '../../hooks/useTimeOff';
 import { HolidayCalendar } from '../HolidayCalendar';
 import { HolidayTable } from '../HolidayTable';
@@ -10,9 +11,13 @@ import { Modal } from '../Modal';
 import { Select } from '../Select';
 import { Button } from '../Button';
 import { Spinner } from '../Spinner';
-import type { BulgarianHoliday } from '../../types';
+import type { CalendarHoliday } from '../../types';
 
 export function HolidaysPage() {
+  const { calendars, defaultCalendar } = useHolidayCalendars();
+  const [selectedCalendarId, setSelectedCalendarId] = useState<string | null>(null);
+  const calendarId = selectedCalendarId ?? defaultCalendar?.id ?? null;
+
   const {
     holidays,
     loading,
@@ -24,12 +29,12 @@ export function HolidaysPage() {
     deleteHoliday,
     syncYear,
     isOperating,
-  } = useHolidays();
+  } = useHolidays(calendarId);
 
   const [isEditorOpen, setIsEditorOpen] = useState(false);
-  const [selectedHoliday, setSelectedHoliday] = useState<BulgarianHoliday | null>(null);
+  const [selectedHoliday, setSelectedHoliday] = useState<CalendarHoliday | null>(null);
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
-  const [holidayToDelete, setHolidayToDelete] = useState<BulgarianHoliday | null>(null);
+  const [holidayToDelete, setHolidayToDelete] = useState<CalendarHoliday | null>(null);
   const [syncMessage, setSyncMessage] = useState<string | null>(null);
 
   // Fetch employee time-off for the selected year
@@ -48,17 +53,22 @@ export function HolidaysPage() {
     { value: String(currentYear + 2), label: String(currentYear + 2) },
   ], [currentYear]);
 
+  const calendarOptions = useMemo(
+    () => calendars.map((c) => ({ value: c.id, label: c.name })),
+    [calendars]
+  );
+
   const handleAddClick = () => {
     setSelectedHoliday(null);
     setIsEditorOpen(true);
   };
 
-  const handleEditClick = (holiday: BulgarianHoliday) => {
+  const handleEditClick = (holiday: CalendarHoliday) => {
     setSelectedHoliday(holiday);
     setIsEditorOpen(true);
   };
 
-  const handleDeleteClick = (holiday: BulgarianHoliday) => {
+  const handleDeleteClick = (holiday: CalendarHoliday) => {
     setHolidayToDelete(holiday);
     setIsDeleteConfirmOpen(true);
   };
@@ -70,7 +80,7 @@ export function HolidaysPage() {
     setHolidayToDelete(null);
   };
 
-  const handleCalendarDateClick = (_date: Date, holiday?: BulgarianHoliday) => {
+  const handleCalendarDateClick = (_date: Date, holiday?: CalendarHoliday) => {
     if (holiday) {
       handleEditClick(holiday);
     }
@@ -100,12 +110,21 @@ export function HolidaysPage() {
       {/* Page Header */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-xl font-semibold text-vercel-gray-600">Bulgarian Holidays</h1>
+          <h1 className="text-xl font-semibold text-vercel-gray-600">Public Holidays</h1>
           <p className="text-sm text-vercel-gray-400 mt-1">
-            Manage public holidays excluded from working day calculations
+            Manage public holidays per calendar, excluded from working day calculations
           </p>
         </div>
         <div className="flex items-center gap-3">
+          {/* Calendar Selector */}
+          <Select
+            value={calendarId ?? ''}
+            onChange={setSelectedCalendarId}
+            options={calendarOptions}
+            placeholder="Calendar"
+            className="w-48"
+          />
+
           {/* Year Selector */}
           <Select
             value={String(selectedYear)}
@@ -131,7 +150,7 @@ export function HolidaysPage() {
           </Button>
 
           {/* Add Holiday Button */}
-          <Button variant="primary" onClick={handleAddClick}>
+          <Button variant="primary" onClick={handleAddClick} disabled={!calendarId}>
             Add Holiday
           </Button>
         </div>
@@ -1,5 +1,5 @@
-import { useState, useMemo, useEffect } from 'react';
-import { format, eachDayOfInterval, isWeekend, isSameDay, min } from 'date-fns';
+import { useState, useMemo } from 'react';
+import { format, min } from 'date-fns';
 import { useTimesheetData } from '../../hooks/useTimesheetData';
 import { useProjectTableEntities } from '../../hooks/useProjectTableEntities';
 import { useMonthlyRates } from '../../hooks/useMonthlyRates';
@@ -14,7 +14,8 @@ import { useInvestorConcentration } from '../../hooks/useInvestorConcentration';
 import { useInvestorRevenueMix } from '../../hooks/useInvestorRevenueMix';
 import { useInvestorUtilization } from '../../hooks/useInvestorUtilization';
 import { useInvestorRealization } from '../../hooks/useInvestorRealization';
-import { supabase } from '../../lib/supabase';
+import { useHolidaySchedule } from '../../hooks/useHolidaySchedule';
+import { countWorkingDays, getHolidayDates } from '../../utils/holidays';
 import { formatCurrency } from '../../utils/billing';
 import {
   transformToLineChartData,
@@ -54,7 +55,7 @@ import { CAGRChartAtom } from '../atoms/charts/CAGRChartAtom';
 import { TrendLineAtom } from '../atoms/charts/TrendLineAtom';
 import { CompositionBarAtom } from '../atoms/charts/CompositionBarAtom';
 import { useDateFilter } from '../../contexts/DateFilterContext';
-import type { MonthSelection, BulgarianHoliday } from '../../types';
+import type { MonthSelection } from '../../types';
 import { HISTORICAL_MONTHS, CHART_HEIGHT } from '../../config/chartConfig';
 
 export function InvestorDashboardPage() {
@@ -132,36 +133,23 @@ export function InvestorDashboardPage() {
     approvedOnly: true,
   });
 
-  const [holidays, setHolidays] = useState<BulgarianHoliday[]>([]);
-  useEffect(() => {
-    async function fetchHolidays() {
-      const year = dateRange.start.getFullYear();
-      const { data } = await supabase
-        .from('bulgarian_holidays')
-        .select('*')
-        .eq('year', year);
-      setHolidays(data || []);
+  // Every holiday calendar for the selected year; per-employee math uses each
+  // employee's own calendar, company-level workdays the default calendar
+  const { schedule: holidaySchedule } = useHolidaySchedule(dateRange.start.getFullYear());
+
+  // Holiday calendar per resource id (time-off rows only carry resource_id)
+  const calendarByResource = useMemo(() => {
+    const map = new Map<string, string | null>();
+    for (const employee of employees) {
+      map.set(employee.id, employee.holiday_calendar_id);
     }
-    fetchHolidays();
-  }, [dateRange.start]);
+    return map;
+  }, [employees]);
 
   const utilizationPercent = useMemo(() => {
     const today = new Date();
     const effectiveEndDate = min([dateRange.end, today]);
 
-    const daysInPeriod = eachDayOfInterval({
-      start: dateRange.start,
-      end: effectiveEndDate,
-    });
-
-    const holidayDates = holidays.map(h => new Date(h.holiday_date));
-
-    const workingDays = daysInPeriod.filter(day => {
-      if (isWeekend(day)) return false;
-      if (holidayDates.some(h => isSameDay(h, day))) return false;
-      return true;
-    }).length;
-
     const billableEmployees = employees.filter(e => {
       const empType = e.employment_type?.name;
       return empType === 'Full-time' || empType === 'Part-time';
@@ -172,6 +160,8 @@ export function InvestorDashboardPage() {
     for (const employee of billableEmployees) {
       const hoursPerDay = employee.employment_type?.name === 'Full-time' ? 8 : 4;
       const displayName = [employee.first_name, employee.last_name].filter(Boolean).join(' ') || employee.external_label;
+      const holidayDates = getHolidayDates(holidaySchedule, employee.holiday_calendar_id);
+      const workingDays = countWorkingDays(dateRange.start, effectiveEndDate, holidayDates);
 
       let ptoDays = 0;
       for (const to of timeOff) {
@@ -181,14 +171,7 @@ export function InvestorDashboardPage() {
           const overlapStart = ptoStart < dateRange.start ? dateRange.start : ptoStart;
           const overlapEnd = ptoEnd > effectiveEndDate ? effectiveEndDate : ptoEnd;
 
-          if (overlapStart <= overlapEnd) {
-            const ptoDaysInRange = eachDayOfInterval({ start: overlapStart, end: overlapEnd });
-            for (const day of ptoDaysInRange) {
-              if (!isWeekend(day) && !holidayDates.some(h => isSameDay(h, day))) {
-                ptoDays++;
-              }
-            }
-          }
+          ptoDays += countWorkingDays(overlapStart, overlapEnd, holidayDates);
         }
       }
 
@@ -201,7 +184,7 @@ export function InvestorDashboardPage() {
     return totalAvailableHours > 0
       ? (totalWorkedHours / totalAvailableHours) * 100
       : 0;
-  }, [dateRange, holidays, employees, timeOff, billingResult]);
+  }, [dateRange, holidaySchedule, employees, timeOff, billingResult]);
 
   // ========== RATES METRICS (from RatesPage) ==========
   const rateMetrics = useMemo(() => {
@@ -259,24 +242,20 @@ export function InvestorDashboardPage() {
 
   // ========== RESOURCE ABSENCES (working days, current month) ==========
   const resourceAbsenceDays = useMemo(() => {
-    const holidayDates = holidays.map(h => new Date(h.holiday_date));
     let totalDays = 0;
     for (const to of timeOff) {
+      const holidayDates = getHolidayDates(
+        holidaySchedule,
+        to.resource_id ? calendarByResource.get(to.resource_id) : null,
+      );
       const ptoStart = new Date(to.start_date);
       const ptoEnd = new Date(to.end_date);
       const overlapStart = ptoStart < dateRange.start ? dateRange.start : ptoStart;
       const overlapEnd = ptoEnd > dateRange.end ? dateRange.end : ptoEnd;
-      if (overlapStart <= overlapEnd) {
-        const daysInRange = eachDayOfInterval({ start: overlapStart, end: overlapEnd });
-        for (const day of daysInRange) {
-          if (!isWeekend(day) && !holidayDates.some(h => isSameDay(h, day))) {
-            totalDays++;
-          }
-        }
-      }
+      totalDays += countWorkingDays(overlapStart, overlapEnd, holidayDates);
     }
     return totalDays;
-  }, [timeOff, dateRange, holidays]);
+  }, [timeOff, dateRange, holidaySchedule, calendarByResource]);
 
   // ========== PROJECT RATES MAP (for daily revenue chart) ==========
   const projectRatesMap = useMemo(() => {
@@ -394,18 +373,13 @@ export function InvestorDashboardPage() {
     return new Date(currentYear, endMonth, 0); // last day of that month
   }, [currentYear, currentQuarter]);
 
-  const remainingQuarterWorkdays = useMemo(() => {
-    const holidayDates = holidays.map(h => new Date(h.holiday_date));
-    const days = eachDayOfInterval({ start: yearStart, end: quarterEnd });
-    return days.filter(day => {
-      if (isWeekend(day)) return false;
-      if (holidayDates.some(h => isSameDay(h, day))) return false;
-      return true;
-    }).length;
-  }, [holidays, yearStart, quarterEnd]);
+  // Company-level pace: default calendar
+  const remainingQuarterWorkdays = useMemo(
+    () => countWorkingDays(yearStart, quarterEnd, getHolidayDates(holidaySchedule)),
+    [holidaySchedule, yearStart, quarterEnd]
+  );
 
   const { ftQuarterVacDays, ptQuarterVacDays } = useMemo(() => {
-    const holidayDates = holidays.map(h => new Date(h.holiday_date));
     let ftDays = 0;
     let ptDays = 0;
 
@@ -414,6 +388,7 @@ export function InvestorDashboardPage() {
       if (empType !== 'Full-time' && empType !== 'Part-time') continue;
 
       const displayName = [employee.first_name, employee.last_name].filter(Boolean).join(' ') || employee.external_label;
+      const holidayDates = getHolidayDates(holidaySchedule, employee.holiday_calendar_id);
 
       for (const to of yearRemainingTimeOff) {
         if (to.employee_name !== displayName && to.resource_id !== employee.id) continue;
@@ -423,20 +398,14 @@ export function InvestorDashboardPage() {
         const overlapStart = ptoStart < yearStart ? yearStart : ptoStart;
         const overlapEnd = ptoEnd > quarterEnd ? quarterEnd : ptoEnd;
 
-        if (overlapStart <= overlapEnd) {
-          const ptoDays = eachDayOfInterval({ start: overlapStart, end: overlapEnd });
-          for (const day of ptoDays) {
-            if (!isWeekend(day) && !holidayDates.some(h => isSameDay(h, day))) {
-              if (empType === 'Full-time') ftDays++;
-              else ptDays++;
-            }
-          }
-        }
+        const ptoDays = countWorkingDays(overlapStart, overlapEnd, holidayDates);
+        if (empType === 'Full-time') ftDays += ptoDays;
+        else ptDays += ptoDays;
       }
     }
 
     return { ftQuarterVacDays: ftDays, ptQuarterVacDays: ptDays };
-  }, [employees, yearRemainingTimeOff, holidays, yearStart, quarterEnd]);
+  }, [employees, yearRemainingTimeOff, holidaySchedule, yearStart, quarterEnd]);
 
   const projectedQuarterlyRevenue = useMemo(() => {
     const avgRate = rateMetrics.averageRate;
@@ -1051,7 +1020,7 @@ export function InvestorDashboardPage() {
                   Realization &amp; Effective Rate
                 </h3>
                 <p className="text-xs text-vercel-gray-400 font-mono mt-0.5">
-                  &gt;100% = minimum-floor padding; &lt;100% = carryover / unbillable hours.
+                  &gt;100% = minimum-floor padding / write-ups; &lt;100% = carryover / unbillable hours / write-downs.
                 </p>
               </div>
             </div>
@@ -1063,7 +1032,7 @@ export function InvestorDashboardPage() {
               </div>
             ) : realizationTrendData.length > 0 ? (
               <>
-                <div className="grid grid-cols-2 gap-4 mb-6">
+                <div className="grid grid-cols-3 gap-4 mb-6">
                   <MetricCard
                     title="Realization (latest)"
                     value={latestRealization ? formatPct(latestRealization.realization_pct) : '—'}
@@ -1072,6 +1041,10 @@ export function InvestorDashboardPage() {
                     title="Effective Rate (latest)"
                     value={latestRealization ? `$${centsToNum(latestRealization.effective_rate_cents).toFixed(2)}` : '—'}
                   />
+                  <MetricCard
+                    title="Manual Adjustments (latest)"
+                    value={latestRealization ? formatCurrency(centsToNum(latestRealization.manual_adjustment_cents)) : '—'}
+                  />
                 </div>
                 <TrendLineAtom
                   data={realizationTrendData}
@@ -9,6 +9,7 @@ import { formatCurrency, formatHours } from '../../utils/billing';
 import { useDateFilter } from '../../contexts/DateFilterContext';
 import { RangeSelector } from '../RangeSelector';
 import { ProjectHierarchyTable } from '../atoms/ProjectHierarchyTable';
+import { ProjectBudgetsPanel } from '../ProjectBudgetsPanel';
 import { Spinner } from '../Spinner';
 import { Alert } from '../Alert';
 import type { MonthSelection, ProjectManagerLookup } from '../../types';
@@ -196,6 +197,9 @@ export function ProjectsPage() {
       ) : (
         <ProjectHierarchyTable hierarchyResult={hierarchyResult} managerLookup={managerLookup} />
       )}
+
+      {/* Budgets span months, so they sit outside the month filter */}
+      <ProjectBudgetsPanel projects={allProjects} />
     </div>
   );
 }
@@ -5,6 +5,7 @@ import { BillingRatesTable } from '../BillingRatesTable';
 import { MetricCard } from '../MetricCard';
 import { Spinner } from '../Spinner';
 import { Alert } from '../Alert';
+import { BillingMonthCloseBar } from '../BillingMonthCloseBar';
 import type { MonthSelection } from '../../types';
 import {
   useMonthlyRates,
@@ -162,6 +163,9 @@ export function RatesPage() {
         onFilterChange={setFilter}
       />
 
+      {/* Month Close Status */}
+      <BillingMonthCloseBar selectedMonth={selectedMonth} onStatusChange={refetch} />
+
       {/* Metrics Row */}
       <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         <MetricCard
@@ -0,0 +1,385 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { useReceivables } from '../../hooks/useReceivables';
+import { MetricCard } from '../MetricCard';
+import { Button } from '../Button';
+import { Badge } from '../Badge';
+import { Spinner } from '../Spinner';
+import { Toggle } from '../Toggle';
+import { ARPaymentModal } from '../ARPaymentModal';
+import { formatCurrency } from '../../utils/billing';
+import { formatMoney } from '../../utils/billingCurrency';
+import type { ARAgingBucket, ARInvoice, ARPayment, BillingCurrency } from '../../types';
+
+const MONTH_SHORT = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const BUCKET_LABELS: Record<ARAgingBucket, string> = {
+  paid: 'Paid',
+  current: 'Current',
+  days_1_30: '1-30 days',
+  days_31_60: '31-60 days',
+  days_61_90: '61-90 days',
+  days_90_plus: '90+ days',
+};
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+const TH_RIGHT_CLASS = 'px-4 py-3 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+/** Aging totals are USD; invoice and payment amounts are in the invoice currency. */
+function formatCents(cents: number | null | undefined, currency: BillingCurrency = 'USD'): string {
+  return cents ? formatMoney(cents / 100, currency) : '—';
+}
+
+function formatDay(iso: string | null): string {
+  return iso ? format(parseISO(iso), 'MMM d, yyyy') : '—';
+}
+
+function statusBadge(invoice: ARInvoice) {
+  if (invoice.status === 'paid') return <Badge variant="success">Paid</Badge>;
+  if (invoice.days_past_due > 0) {
+    return <Badge variant={invoice.days_past_due > 60 ? 'error' : 'warning'}>{invoice.days_past_due}d overdue</Badge>;
+  }
+  return <Badge variant="default">{invoice.status === 'partial' ? 'Partial' : 'Open'}</Badge>;
+}
+
+export function ReceivablesPage() {
+  const {
+    aging,
+    invoices,
+    paymentsByInvoice,
+    isLoading,
+    isSaving,
+    isSyncing,
+    error,
+    recordPayment,
+    markPaid,
+    deletePayment,
+    syncFromQbo,
+    clearError,
+  } = useReceivables();
+
+  const [showPaid, setShowPaid] = useState(false);
+  const [paymentInvoice, setPaymentInvoice] = useState<ARInvoice | null>(null);
+  const [expandedInvoiceId, setExpandedInvoiceId] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+
+  const totals = useMemo(() => {
+    let open = 0;
+    let overdue = 0;
+    let over90 = 0;
+    for (const row of aging) {
+      open += row.open_cents;
+      overdue += row.overdue_cents ?? 0;
+      over90 += row.days_90_plus_cents ?? 0;
+    }
+    return {
+      open,
+      overdue,
+      over90,
+      overdueCompanies: aging.filter((row) => row.overdue_invoice_count > 0).length,
+    };
+  }, [aging]);
+
+  const visibleInvoices = useMemo(
+    () => (showPaid ? invoices : invoices.filter((inv) => inv.status !== 'paid')),
+    [invoices, showPaid],
+  );
+
+  const lastSyncedAt = useMemo(() => {
+    let latest: string | null = null;
+    for (const inv of invoices) {
+      if (inv.qbo_synced_at && (!latest || inv.qbo_synced_at > latest)) latest = inv.qbo_synced_at;
+    }
+    return latest;
+  }, [invoices]);
+
+  const flashSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const handleSync = async () => {
+    const summary = await syncFromQbo();
+    if (summary) {
+      flashSuccess(
+        summary.errors.length > 0
+          ? `Synced ${summary.updated} of ${summary.checked} invoices; ${summary.errors.length} failed`
+          : `Synced ${summary.checked} QuickBooks ${summary.checked === 1 ? 'invoice' : 'invoices'}`,
+      );
+    }
+  };
+
+  const handleMarkPaid = async (invoice: ARInvoice) => {
+    const ok = await markPaid(invoice.id, format(new Date(), 'yyyy-MM-dd'));
+    if (ok) flashSuccess(`${invoice.invoice_number ?? invoice.company_name} marked paid`);
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-vercel-gray-600">Receivables</h1>
+          <p className="text-sm text-vercel-gray-400 mt-1">
+            Invoice payments and aging. QuickBooks invoices sync daily
+            {lastSyncedAt ? ` (last ${format(new Date(lastSyncedAt), 'MMM d, HH:mm')})` : ''}; other clients are marked paid here.
+          </p>
+        </div>
+        <Button variant="secondary" onClick={handleSync} disabled={isSyncing}>
+          {isSyncing ? (
+            <span className="flex items-center gap-2">
+              <Spinner size="sm" />
+              Syncing...
+            </span>
+          ) : (
+            'Sync from QuickBooks'
+          )}
+        </Button>
+      </div>
+
+      {/* Success Message */}
+      {successMessage && (
+        <div className="p-3 bg-success-light border border-success rounded-lg">
+          <span className="text-sm text-success">{successMessage}</span>
+        </div>
+      )}
+
+      {/* Error State */}
+      {error && !paymentInvoice && (
+        <div className="p-4 bg-error-light border border-error rounded-lg">
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-error">{error}</span>
+            <button
+              onClick={clearError}
+              aria-label="Dismiss error"
+              className="text-error hover:opacity-80 transition-opacity"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <MetricCard title="Open" value={formatCurrency(totals.open / 100)} loading={isLoading} />
+        <MetricCard
+          title="Overdue"
+          value={formatCurrency(totals.overdue / 100)}
+          isWarning={totals.overdue > 0}
+          loading={isLoading}
+        />
+        <MetricCard
+          title="90+ Days"
+          value={formatCurrency(totals.over90 / 100)}
+          statusColor={totals.over90 > 0 ? 'red' : 'default'}
+          loading={isLoading}
+        />
+        <MetricCard title="Companies Overdue" value={totals.overdueCompanies} loading={isLoading} />
+      </div>
+
+      {/* Aging by Company */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold text-vercel-gray-600">Aging by Company</h2>
+        <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+                  <th className={TH_CLASS}>Company</th>
+                  <th className={TH_RIGHT_CLASS}>Current</th>
+                  <th className={TH_RIGHT_CLASS}>1-30</th>
+                  <th className={TH_RIGHT_CLASS}>31-60</th>
+                  <th className={TH_RIGHT_CLASS}>61-90</th>
+                  <th className={TH_RIGHT_CLASS}>90+</th>
+                  <th className={TH_RIGHT_CLASS}>Total Open</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-vercel-gray-100">
+                {aging.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-sm text-vercel-gray-400">
+                      {isLoading ? 'Loading...' : 'No open receivables'}
+                    </td>
+                  </tr>
+                ) : (
+                  aging.map((row) => (
+                    <tr key={row.canonical_company_id} className="hover:bg-vercel-gray-50 transition-colors duration-200 ease-out">
+                      <td className="px-4 py-3 text-sm font-medium text-vercel-gray-600">{row.company_name}</td>
+                      <td className="px-4 py-3 text-right text-sm font-mono text-vercel-gray-400">{formatCents(row.current_cents)}</td>
+                      <td className="px-4 py-3 text-right text-sm font-mono text-vercel-gray-600">{formatCents(row.days_1_30_cents)}</td>
+                      <td className="px-4 py-3 text-right text-sm font-mono text-warning-text">{formatCents(row.days_31_60_cents)}</td>
+                      <td className="px-4 py-3 text-right text-sm font-mono text-warning-text">{formatCents(row.days_61_90_cents)}</td>
+                      <td className="px-4 py-3 text-right text-sm font-mono text-error">{formatCents(row.days_90_plus_cents)}</td>
+                      <td className="px-4 py-3 text-right text-sm font-mono font-medium text-vercel-gray-600">{formatCents(row.open_cents)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </section>
+
+      {/* Invoices */}
+      <section className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-vercel-gray-600">Invoices</h2>
+          <div className="w-56">
+            <Toggle label="Show paid" checked={showPaid} onChange={setShowPaid} />
+          </div>
+        </div>
+        <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+                  <th className={TH_CLASS}>Company</th>
+                  <th className={TH_CLASS}>Invoice</th>
+                  <th className={TH_CLASS}>Due</th>
+                  <th className={TH_RIGHT_CLASS}>Amount</th>
+                  <th className={TH_RIGHT_CLASS}>Balance</th>
+                  <th className={TH_CLASS}>Status</th>
+                  <th className={TH_RIGHT_CLASS}>Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-vercel-gray-100">
+                {visibleInvoices.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-sm text-vercel-gray-400">
+                      {isLoading ? 'Loading...' : showPaid ? 'No invoices yet' : 'Everything is paid'}
+                    </td>
+                  </tr>
+                ) : (
+                  visibleInvoices.map((invoice) => {
+                    const payments = paymentsByInvoice.get(invoice.id) ?? [];
+                    const isExpanded = expandedInvoiceId === invoice.id;
+                    const isManual = invoice.source === 'eom_pdf';
+                    return (
+                      <InvoiceRows
+                        key={invoice.id}
+                        invoice={invoice}
+                        payments={payments}
+                        isExpanded={isExpanded}
+                        onToggle={() => setExpandedInvoiceId(isExpanded ? null : invoice.id)}
+                        actions={
+                          isManual && invoice.status !== 'paid' ? (
+                            <div className="flex justify-end gap-2">
+                              <Button variant="ghost" size="sm" onClick={() => setPaymentInvoice(invoice)} disabled={isSaving}>
+                                Record payment
+                              </Button>
+                              <Button variant="secondary" size="sm" onClick={() => handleMarkPaid(invoice)} disabled={isSaving}>
+                                Mark paid
+                              </Button>
+                            </div>
+                          ) : null
+                        }
+                        onDeletePayment={isManual ? deletePayment : undefined}
+                        isSaving={isSaving}
+                      />
+                    );
+                  })
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </section>
+
+      <ARPaymentModal
+        isOpen={paymentInvoice !== null}
+        onClose={() => setPaymentInvoice(null)}
+        invoice={paymentInvoice}
+        onSave={recordPayment}
+        isSaving={isSaving}
+        apiError={error}
+        onClearApiError={clearError}
+      />
+    </div>
+  );
+}
+
+interface InvoiceRowsProps {
+  invoice: ARInvoice;
+  payments: ARPayment[];
+  isExpanded: boolean;
+  onToggle: () => void;
+  actions: React.ReactNode;
+  onDeletePayment?: (paymentId: string) => Promise<boolean>;
+  isSaving: boolean;
+}
+
+function InvoiceRows({ invoice, payments, isExpanded, onToggle, actions, onDeletePayment, isSaving }: InvoiceRowsProps) {
+  return (
+    <>
+      <tr className="hover:bg-vercel-gray-50 transition-colors duration-200 ease-out">
+        <td className="px-4 py-3">
+          <div className="text-sm font-medium text-vercel-gray-600">{invoice.company_name}</div>
+          <div className="text-xs text-vercel-gray-400 mt-0.5">
+            {MONTH_SHORT[invoice.report_month - 1]} {invoice.report_year} · {invoice.source === 'qbo' ? 'QuickBooks' : 'PDF invoice'}
+          </div>
+        </td>
+        <td className="px-4 py-3">
+          <button
+            type="button"
+            onClick={onToggle}
+            className="text-sm font-mono text-vercel-gray-600 hover:underline"
+            aria-expanded={isExpanded}
+          >
+            {invoice.invoice_number ?? '—'}
+          </button>
+          {invoice.sync_error && (
+            <div className="text-xs text-error mt-0.5" title={invoice.sync_error}>Sync failed</div>
+          )}
+        </td>
+        <td className="px-4 py-3 text-sm text-vercel-gray-400">
+          {formatDay(invoice.due_on)}
+          {invoice.status !== 'paid' && invoice.days_past_due > 0 && (
+            <div className="text-xs text-vercel-gray-300 mt-0.5">{BUCKET_LABELS[invoice.aging_bucket]}</div>
+          )}
+        </td>
+        <td className="px-4 py-3 text-right text-sm font-mono text-vercel-gray-400">{formatCents(invoice.amount_cents, invoice.currency)}</td>
+        <td className="px-4 py-3 text-right text-sm font-mono font-medium text-vercel-gray-600">{formatCents(invoice.balance_cents, invoice.currency)}</td>
+        <td className="px-4 py-3">{statusBadge(invoice)}</td>
+        <td className="px-4 py-3 text-right">{actions}</td>
+      </tr>
+      {isExpanded && (
+        <tr className="bg-vercel-gray-50">
+          <td colSpan={7} className="px-4 py-3">
+            {payments.length === 0 ? (
+              <p className="text-xs text-vercel-gray-400">No payments recorded.</p>
+            ) : (
+              <ul className="space-y-1">
+                {payments.map((payment) => (
+                  <li key={payment.id} className="flex items-center gap-3 text-xs text-vercel-gray-400">
+                    <span className="w-24">{formatDay(payment.paid_on)}</span>
+                    <span className="w-24 font-mono text-vercel-gray-600">{formatCents(payment.amount_cents, invoice.currency)}</span>
+                    <Badge variant={payment.source === 'qbo' ? 'info' : 'default'}>
+                      {payment.source === 'qbo' ? 'QuickBooks' : 'Manual'}
+                    </Badge>
+                    <span className="flex-1 truncate">
+                      {[payment.reference, payment.note].filter(Boolean).join(' · ')}
+                    </span>
+                    {onDeletePayment && payment.source === 'manual' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onDeletePayment(payment.id)}
+                        disabled={isSaving}
+                        className="text-error hover:text-error-hover"
+                      >
+                        Remove
+                      </Button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
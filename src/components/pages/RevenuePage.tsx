@@ -7,22 +7,30 @@ import { useCanonicalProjectExternalIds } from '../../hooks/useCanonicalProjectE
 import { formatCurrency, roundCurrency } from '../../utils/billing';
 import { generateRevenueCSV, downloadCSV } from '../../utils/generateRevenueCSV';
 import { useTaskBreakdown } from '../../hooks/useTaskBreakdown';
+import { useBillingAdjustments } from '../../hooks/useBillingAdjustments';
+import { adjustmentReasonsByProject } from '../../utils/billingAdjustments';
 import { getWeekOptionsForMonth } from '../../utils/calculations';
 import { useDateFilter } from '../../contexts/DateFilterContext';
+import { usePermissions } from '../../contexts/PermissionsContext';
 import { RangeSelector } from '../RangeSelector';
 import { RevenueTable } from '../atoms/RevenueTable';
 import { Spinner } from '../Spinner';
 import { Alert } from '../Alert';
+import { BillingMonthCloseBar } from '../BillingMonthCloseBar';
+import { BillingAdjustmentModal } from '../BillingAdjustmentModal';
+import { BillingAdjustmentsTable } from '../BillingAdjustmentsTable';
 import { Modal } from '../Modal';
 import { Button } from '../Button';
 import { Select } from '../Select';
 import { Checkbox } from '../Checkbox';
 import { MultiSelect } from '../MultiSelect';
 import type { SelectOption } from '../Select';
-import type { MonthSelection } from '../../types';
+import type { BillingAdjustmentFormData, BillingAdjustmentRow, MonthSelection } from '../../types';
 
 export function RevenuePage() {
   const { dateRange, mode, selectedMonth: filterSelectedMonth, setDateRange, setFilter } = useDateFilter();
+  // Scoped roles (project managers) only receive their companies' rows via RLS
+  const { companyIds, canAdjustBilling } = usePermissions();
 
   const { entries, loading, error } = useTimesheetData(dateRange);
 
@@ -33,10 +41,24 @@ export function RevenuePage() {
   }), [dateRange.start]);
 
   // Use billing from summary table
-  const { totalRevenue, billingResult } = useBilling({
+  const { totalRevenue, billingResult, refetch: refetchBilling } = useBilling({
     selectedMonth,
   });
 
+  // Manual write-downs / write-ups of the month (migration 152)
+  const {
+    adjustments,
+    isLoading: adjustmentsLoading,
+    isSaving: adjustmentSaving,
+    error: adjustmentError,
+    addAdjustment,
+    removeAdjustment,
+    clearError: clearAdjustmentError,
+  } = useBillingAdjustments({ month: format(dateRange.start, 'yyyy-MM-01') });
+  const [showAdjustmentModal, setShowAdjustmentModal] = useState(false);
+
+  const adjustmentReasons = useMemo(() => adjustmentReasonsByProject(adjustments), [adjustments]);
+
   // Fetch fixed billings for the date range
   const {
     companyBillings,
@@ -426,10 +448,33 @@ export function RevenuePage() {
       milestoneByExternalProjectId,
       monthLabel: format(dateRange.start, 'MMMM yyyy'),
       companyIds: selectedCompanyIds,
+      adjustmentReasons,
     });
     downloadCSV(csvContent, `revenue-${format(dateRange.start, 'yyyy-MM')}.csv`);
     setShowExportModal(false);
-  }, [hydratedBillingResult, filteredCompanyBillings, milestoneByExternalProjectId, dateRange.start, selectedCompanyIds]);
+  }, [hydratedBillingResult, filteredCompanyBillings, milestoneByExternalProjectId, dateRange.start, selectedCompanyIds, adjustmentReasons]);
+
+  // --- Billing adjustment handlers ---
+  const adjustmentProjectOptions = useMemo<SelectOption[]>(() => {
+    const options: SelectOption[] = [];
+    for (const company of hydratedBillingResult.companies) {
+      for (const project of company.projects) {
+        if (!project.projectId) continue;
+        options.push({ value: project.projectId, label: `${company.companyName} · ${project.projectName}` });
+      }
+    }
+    return options.sort((a, b) => a.label.localeCompare(b.label));
+  }, [hydratedBillingResult.companies]);
+
+  const handleAddAdjustment = useCallback(async (data: BillingAdjustmentFormData) => {
+    const success = await addAdjustment(data);
+    if (success) refetchBilling();
+    return success;
+  }, [addAdjustment, refetchBilling]);
+
+  const handleRemoveAdjustment = useCallback(async (adjustment: BillingAdjustmentRow) => {
+    if (await removeAdjustment(adjustment.id)) refetchBilling();
+  }, [removeAdjustment, refetchBilling]);
 
   // --- Customer Revenue Report modal handlers ---
   const handleOpenCustomerReportModal = useCallback(() => {
@@ -698,6 +743,17 @@ export function RevenuePage() {
         onFilterChange={setFilter}
       />
 
+      {/* Month Close Status (firm-wide locked totals, hidden from scoped roles) */}
+      {companyIds ? (
+        <Alert
+          message={`Showing the ${companyIds.size} ${companyIds.size === 1 ? 'company' : 'companies'} you manage.`}
+          icon="info"
+          variant="default"
+        />
+      ) : (
+        <BillingMonthCloseBar selectedMonth={selectedMonth} />
+      )}
+
       {/* Error State */}
       {error && <Alert message={error} icon="error" variant="error" />}
 
@@ -721,6 +777,41 @@ export function RevenuePage() {
         />
       )}
 
+      {/* Billing Adjustments */}
+      <section className="space-y-3">
+        <div className="flex items-end justify-between gap-4">
+          <div>
+            <h2 className="text-sm font-semibold text-vercel-gray-600">Billing Adjustments</h2>
+            <p className="text-xs text-vercel-gray-400 mt-1">
+              Write-downs and write-ups apply after minimum/maximum limits and appear on EOM reports and invoices with their reason.
+            </p>
+          </div>
+          {canAdjustBilling && (
+            <Button variant="secondary" size="sm" onClick={() => setShowAdjustmentModal(true)}>
+              Add Adjustment
+            </Button>
+          )}
+        </div>
+        {adjustmentError && !showAdjustmentModal && <Alert message={adjustmentError} icon="error" variant="error" />}
+        <BillingAdjustmentsTable
+          adjustments={adjustments}
+          loading={adjustmentsLoading}
+          onRemove={handleRemoveAdjustment}
+        />
+      </section>
+
+      <BillingAdjustmentModal
+        isOpen={showAdjustmentModal}
+        onClose={() => setShowAdjustmentModal(false)}
+        month={format(dateRange.start, 'yyyy-MM-01')}
+        monthLabel={format(dateRange.start, 'MMMM yyyy')}
+        projectOptions={adjustmentProjectOptions}
+        onSave={handleAddAdjustment}
+        isSaving={adjustmentSaving}
+        apiError={adjustmentError}
+        onClearApiError={clearAdjustmentError}
+      />
+
       {/* Customer Revenue Report Modal */}
       <Modal
         isOpen={showCustomerReportModal}
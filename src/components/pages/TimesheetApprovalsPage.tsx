@@ -0,0 +1,339 @@
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { usePermissions } from '../../contexts/PermissionsContext';
+import { useTimesheetReview } from '../../hooks/useTimesheetReview';
+import { getCurrentMonth } from '../../hooks/useMonthlyRates';
+import { formatHours } from '../../utils/billing';
+import { lineKey, needsReview, summarizeReview, toLineRef } from '../../utils/timesheetReview';
+import { TimesheetReviewTable } from '../TimesheetReviewTable';
+import { TimesheetReviewModal, type TimesheetReviewAction } from '../TimesheetReviewModal';
+import { MonthPicker } from '../MonthPicker';
+import { MetricCard } from '../MetricCard';
+import { Button } from '../Button';
+import { Badge } from '../Badge';
+import { Spinner } from '../Spinner';
+import type { MonthSelection, TimesheetLineRef, TimesheetReviewLine, TimesheetReviewSummaryRow } from '../../types';
+
+const TH_CLASS = 'px-4 py-3 text-left text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+const TH_RIGHT_CLASS = 'px-4 py-3 text-right text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+function toMonthStart(month: MonthSelection): string {
+  return `${month.year}-${String(month.month).padStart(2, '0')}-01`;
+}
+
+function hours(minutes: number): string {
+  return `${formatHours(Math.round(minutes / 60))}h`;
+}
+
+function approvalLabel(project: TimesheetReviewSummaryRow): string {
+  if (!project.approval_start_month) return 'Billed as logged';
+  const since = format(parseISO(project.approval_start_month), 'MMM yyyy');
+  return project.requires_approval ? `Approval required since ${since}` : `Approval required from ${since}`;
+}
+
+export function TimesheetApprovalsPage() {
+  const { isAdmin } = usePermissions();
+  const [month, setMonth] = useState<MonthSelection>(getCurrentMonth);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [action, setAction] = useState<TimesheetReviewAction | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const monthStart = toMonthStart(month);
+  const {
+    projects,
+    lines,
+    isLoading,
+    isLoadingLines,
+    isSaving,
+    error,
+    reviewLines,
+    setApprovalStart,
+    clearError,
+    refetch,
+  } = useTimesheetReview({ month: monthStart, projectId });
+
+  const project = projects.find((p) => p.project_id === projectId) ?? null;
+  const canReview = !!project && project.can_review && project.requires_approval;
+  const selectedLines = lines.filter((line) => selected.has(lineKey(line)));
+  const pendingLines = lines.filter(needsReview);
+  const lineTotals = useMemo(() => summarizeReview(lines), [lines]);
+
+  const monthTotals = useMemo(() => projects.reduce(
+    (acc, p) => ({
+      logged: acc.logged + p.logged_minutes,
+      billable: acc.billable + p.billable_minutes,
+      pending: acc.pending + p.pending_count,
+      flagged: acc.flagged + p.flagged_count,
+    }),
+    { logged: 0, billable: 0, pending: 0, flagged: 0 },
+  ), [projects]);
+
+  const changeMonth = (next: MonthSelection) => {
+    setMonth(next);
+    setSelected(new Set());
+  };
+
+  const selectProject = (id: string) => {
+    clearError();
+    setProjectId(id);
+    setSelected(new Set());
+  };
+
+  const submit = async (
+    status: 'approved' | 'adjusted' | 'flagged' | 'pending',
+    refs: TimesheetLineRef[],
+    reason?: string,
+  ): Promise<boolean> => {
+    const success = await reviewLines(status, refs, reason);
+    if (success) setSelected(new Set());
+    return success;
+  };
+
+  const openModal = (next: TimesheetReviewAction) => {
+    clearError();
+    setAction(next);
+    setIsModalOpen(true);
+  };
+
+  const approve = (target: TimesheetReviewLine[]) => submit('approved', target.map((line) => toLineRef(line)));
+  const reset = (target: TimesheetReviewLine[]) => submit('pending', target.map((line) => toLineRef(line)));
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-vercel-gray-600">Hours Approval</h1>
+          <p className="text-sm text-vercel-gray-400 mt-1">
+            Review each project's hours by person and task before they are billed
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <MonthPicker selectedMonth={month} onChange={changeMonth} />
+          <Button variant="secondary" onClick={refetch}>
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      {/* Error State */}
+      {error && !isModalOpen && (
+        <div className="p-4 bg-error-light border border-error rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <svg className="w-5 h-5 text-error" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <span className="text-sm text-error">{error}</span>
+            </div>
+            <button
+              onClick={clearError}
+              aria-label="Dismiss error"
+              className="text-error hover:opacity-80 transition-opacity"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <MetricCard title="Logged" value={hours(monthTotals.logged)} loading={isLoading} />
+        <MetricCard
+          title="Billable"
+          value={hours(monthTotals.billable)}
+          secondaryLabel="Held back"
+          secondaryValue={hours(monthTotals.logged - monthTotals.billable)}
+          loading={isLoading}
+        />
+        <MetricCard
+          title="To Review"
+          value={monthTotals.pending}
+          secondaryLabel="Lines on projects requiring approval"
+          isWarning={monthTotals.pending > 0}
+          loading={isLoading}
+        />
+        <MetricCard
+          title="Flagged"
+          value={monthTotals.flagged}
+          secondaryLabel="Lines held back from billing"
+          isWarning={monthTotals.flagged > 0}
+          loading={isLoading}
+        />
+      </div>
+
+      {/* Projects */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold text-vercel-gray-600">Projects</h2>
+        {isLoading ? (
+          <div className="bg-white rounded-lg border border-vercel-gray-100">
+            <div className="p-8 text-center">
+              <div className="inline-flex items-center gap-2 text-vercel-gray-400">
+                <Spinner size="md" />
+                <span className="text-sm">Loading projects...</span>
+              </div>
+            </div>
+          </div>
+        ) : projects.length === 0 ? (
+          <div className="bg-white rounded-lg border border-vercel-gray-100">
+            <div className="p-8 text-center">
+              <p className="text-sm text-vercel-gray-400">No hours logged in this month</p>
+            </div>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="bg-vercel-gray-50 border-b border-vercel-gray-100">
+                    <th className={TH_CLASS}>Project</th>
+                    <th className={TH_CLASS}>Approval</th>
+                    <th className={TH_RIGHT_CLASS}>To Review</th>
+                    <th className={TH_RIGHT_CLASS}>Flagged</th>
+                    <th className={TH_RIGHT_CLASS}>Logged</th>
+                    <th className={TH_RIGHT_CLASS}>Billable</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-vercel-gray-100">
+                  {projects.map((p) => (
+                    <tr
+                      key={p.project_id}
+                      onClick={() => selectProject(p.project_id)}
+                      className={`cursor-pointer transition-colors duration-200 ease-out ${
+                        p.project_id === projectId ? 'bg-vercel-gray-50' : 'hover:bg-vercel-gray-50'
+                      }`}
+                    >
+                      <td className="px-4 py-3">
+                        <div className="text-sm font-medium text-vercel-gray-600">{p.project_name}</div>
+                        <div className="text-xs text-vercel-gray-400">{p.company_name ?? '—'}</div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap">
+                        <span className="text-sm text-vercel-gray-400">{approvalLabel(p)}</span>
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {p.requires_approval && p.pending_count > 0 ? (
+                          <Badge variant="warning">{p.pending_count}</Badge>
+                        ) : (
+                          <span className="text-sm text-vercel-gray-400">—</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        {p.flagged_count > 0 ? (
+                          <Badge variant="error">{p.flagged_count}</Badge>
+                        ) : (
+                          <span className="text-sm text-vercel-gray-400">—</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <span className="text-sm font-mono text-vercel-gray-600">{hours(p.logged_minutes)}</span>
+                      </td>
+                      <td className="px-4 py-3 text-right whitespace-nowrap">
+                        <span className="text-sm font-mono text-vercel-gray-600">{hours(p.billable_minutes)}</span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+      </section>
+
+      {/* Selected project */}
+      {project && (
+        <section className="space-y-3">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-sm font-semibold text-vercel-gray-600">{project.project_name}</h2>
+              <p className="text-xs text-vercel-gray-400 mt-1">
+                {approvalLabel(project)} · {hours(lineTotals.loggedMinutes)} logged, {hours(lineTotals.billableMinutes)} billable
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              {isAdmin && (
+                project.approval_start_month ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setApprovalStart(project.project_id, null)}
+                    disabled={isSaving}
+                  >
+                    Stop requiring approval
+                  </Button>
+                ) : (
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => setApprovalStart(project.project_id, monthStart)}
+                    disabled={isSaving}
+                  >
+                    Require approval from {format(parseISO(monthStart), 'MMM yyyy')}
+                  </Button>
+                )
+              )}
+              {canReview && selectedLines.length > 0 && (
+                <>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={() => openModal({ status: 'flagged', lines: selectedLines })}
+                    disabled={isSaving}
+                  >
+                    Flag {selectedLines.length}
+                  </Button>
+                  <Button
+                    variant="primary"
+                    size="sm"
+                    onClick={() => approve(selectedLines)}
+                    disabled={isSaving}
+                  >
+                    Approve {selectedLines.length}
+                  </Button>
+                </>
+              )}
+              {canReview && selectedLines.length === 0 && pendingLines.length > 0 && (
+                <Button
+                  variant="primary"
+                  size="sm"
+                  onClick={() => approve(pendingLines)}
+                  disabled={isSaving}
+                >
+                  Approve all pending ({pendingLines.length})
+                </Button>
+              )}
+            </div>
+          </div>
+          <TimesheetReviewTable
+            lines={lines}
+            loading={isLoadingLines}
+            canReview={canReview}
+            selected={selected}
+            onSelectedChange={setSelected}
+            onApprove={approve}
+            onWriteDown={(line) => openModal({ status: 'adjusted', lines: [line] })}
+            onFlag={(target) => openModal({ status: 'flagged', lines: target })}
+            onReset={reset}
+          />
+        </section>
+      )}
+
+      {/* Write down / flag */}
+      <TimesheetReviewModal
+        isOpen={isModalOpen}
+        onClose={() => {
+          setIsModalOpen(false);
+          setAction(null);
+        }}
+        action={action}
+        onSubmit={submit}
+        isSaving={isSaving}
+        apiError={error}
+        onClearApiError={clearError}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+/**
+ * TimesheetImportPage - manual timesheet import (CSV / XLSX / JSON).
+ *
+ * For time worked outside Clockify/ClickUp. The file is parsed in the browser
+ * (parseTimesheetImport — pure, no network), the user maps its columns to
+ * user / project / task / date / minutes (or hours), and the mapped rows are
+ * sent to the `import-manual-timesheets` edge function twice: once to preview
+ * (resolution + new / update / unchanged / overlap / error per row, nothing
+ * written) and once to import. Imported rows land in timesheet_daily_rollups
+ * under the 'manual' source and flow into task_monthly_totals and billing like
+ * any synced entry. Re-importing the same rows updates them, never doubles.
+ *
+ * Lazy-loaded from App.tsx so SheetJS stays out of the main bundle.
+ */
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import { Button } from '../Button';
+import { Spinner } from '../Spinner';
+import { Alert } from '../Alert';
+import { Card } from '../Card';
+import { Badge } from '../Badge';
+import { Select } from '../Select';
+import { MetricCard } from '../MetricCard';
+import {
+  applyColumnMapping,
+  guessColumnMapping,
+  parseTimesheetImportFromFile,
+  TIMESHEET_IMPORT_FIELDS,
+  type TimesheetColumnMapping,
+  type TimesheetImportField,
+  type TimesheetImportTable,
+} from '../../lib/xls/parseTimesheetImport';
+import type { ManualPreviewStatus, ManualTimesheetRow } from '../../lib/timeSync/manualImport';
+import { useManualTimesheetImport } from '../../hooks/useManualTimesheetImport';
+
+const ACCEPTED_EXTENSIONS = ['.csv', '.xlsx', '.xls', '.json'];
+const ACCEPT_ATTR = ACCEPTED_EXTENSIONS.join(',');
+
+const FIELD_LABELS: Record<TimesheetImportField, string> = {
+  user: 'User',
+  project: 'Project',
+  task: 'Task',
+  date: 'Date',
+  minutes: 'Minutes',
+  hours: 'Hours',
+};
+
+const STATUS_BADGES: Record<ManualPreviewStatus, { label: string; variant: 'success' | 'info' | 'default' | 'warning' | 'error' }> = {
+  new: { label: 'New', variant: 'success' },
+  update: { label: 'Update', variant: 'info' },
+  unchanged: { label: 'Unchanged', variant: 'default' },
+  overlap: { label: 'Overlap', variant: 'warning' },
+  error: { label: 'Error', variant: 'error' },
+};
+
+const NOT_MAPPED = '';
+
+// Shared type-style tokens (STYLEGUIDE named styles).
+const LABEL_FORM = 'text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+const BODY_SM = 'text-sm text-vercel-gray-600';
+const TH = 'px-4 py-3 text-xs font-medium text-vercel-gray-400 uppercase tracking-wider';
+
+function hasAcceptedExtension(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return ACCEPTED_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+export function TimesheetImportPage() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<TimesheetImportTable | null>(null);
+  const [mapping, setMapping] = useState<TimesheetColumnMapping | null>(null);
+  const [mappedRows, setMappedRows] = useState<ManualTimesheetRow[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+
+  const { preview, result, error, isOperating, runPreview, runCommit, clearError, reset } =
+    useManualTimesheetImport();
+
+  const busy = isParsing || isOperating;
+
+  const headerOptions = useMemo(
+    () => [
+      { value: NOT_MAPPED, label: 'Not mapped' },
+      ...(table?.headers ?? []).map((h) => ({ value: h, label: h })),
+    ],
+    [table],
+  );
+
+  const uploadedByRow = useMemo(
+    () => new Map(mappedRows.map((row) => [row.rowNumber, row])),
+    [mappedRows],
+  );
+
+  const importableCount = preview
+    ? preview.summary.new + preview.summary.update + preview.summary.overlap
+    : 0;
+
+  const handleChoose = useCallback(() => {
+    if (busy) return;
+    fileInputRef.current?.click();
+  }, [busy]);
+
+  const handleFileSelect = useCallback(
+    async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      // Allow re-selecting the same file on a later attempt.
+      event.target.value = '';
+      if (!file) return;
+
+      reset();
+      setParseError(null);
+      setTable(null);
+      setMapping(null);
+      setMappedRows([]);
+      setFileName(file.name);
+
+      if (!hasAcceptedExtension(file.name)) {
+        setParseError(`Unsupported file type. Choose a ${ACCEPTED_EXTENSIONS.join(', ')} file.`);
+        return;
+      }
+
+      try {
+        setIsParsing(true);
+        const parsed = await parseTimesheetImportFromFile(file);
+        if (parsed.headers.length === 0 || parsed.records.length === 0) {
+          setParseError('No rows were found in this file. The first row must be a header row.');
+          return;
+        }
+        setTable(parsed);
+        setMapping(guessColumnMapping(parsed.headers));
+      } catch (err) {
+        console.error('TimesheetImportPage: parse failed', err);
+        setParseError(err instanceof Error ? err.message : 'Could not read this file.');
+      } finally {
+        setIsParsing(false);
+      }
+    },
+    [reset],
+  );
+
+  const handleMappingChange = useCallback(
+    (field: TimesheetImportField, value: string) => {
+      reset();
+      setMapping((prev) => (prev ? { ...prev, [field]: value === NOT_MAPPED ? null : value } : prev));
+    },
+    [reset],
+  );
+
+  const handlePreview = useCallback(async () => {
+    if (!table || !mapping || !fileName) return;
+    const mapped = applyColumnMapping(table, mapping);
+    if (mapped.errors.length > 0) {
+      setParseError(mapped.errors.join('. '));
+      return;
+    }
+    if (mapped.rows.length === 0) {
+      setParseError('Every row in this file is empty for the mapped columns.');
+      return;
+    }
+    setParseError(null);
+    setMappedRows(mapped.rows);
+    await runPreview(fileName, mapped.rows);
+  }, [table, mapping, fileName, runPreview]);
+
+  const handleImport = useCallback(async () => {
+    if (!fileName || mappedRows.length === 0) return;
+    await runCommit(fileName, mappedRows);
+  }, [fileName, mappedRows, runCommit]);
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-vercel-gray-600">Timesheet Import</h1>
+          <p className="text-sm text-vercel-gray-400 mt-1">
+            Import time tracked outside Clockify and ClickUp from a CSV, Excel or JSON file
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {fileName && <span className="text-xs text-vercel-gray-400 truncate">{fileName}</span>}
+          <Button variant="primary" onClick={handleChoose} disabled={busy}>
+            Choose File
+          </Button>
+        </div>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ACCEPT_ATTR}
+        onChange={handleFileSelect}
+        className="hidden"
+      />
+
+      {parseError && (
+        <Alert message={parseError} icon="error" variant="error" onClose={() => setParseError(null)} />
+      )}
+      {error && <Alert message={error} icon="error" variant="error" onClose={clearError} />}
+
+      {result && (
+        result.success ? (
+          <Alert
+            icon="info"
+            message={`Imported ${result.imported} ${result.imported === 1 ? 'row' : 'rows'} from ${result.file_name ?? 'the file'}. Monthly totals and billing have been recalculated.`}
+          />
+        ) : (
+          <Alert
+            icon="warning"
+            variant="warning"
+            message={result.upsert?.error ?? result.message ?? 'The import finished with errors. Check Diagnostics for the sync run.'}
+          />
+        )
+      )}
+
+      {isParsing && (
+        <div className="flex items-center gap-2 text-vercel-gray-400">
+          <Spinner size="sm" />
+          <span className={BODY_SM}>Parsing file…</span>
+        </div>
+      )}
+
+      {/* Column mapping */}
+      {table && mapping && (
+        <Card padding="lg">
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h2 className="text-sm font-semibold text-vercel-gray-600">Column Mapping</h2>
+                <p className="text-xs text-vercel-gray-400 mt-1">
+                  {table.records.length} {table.records.length === 1 ? 'row' : 'rows'} found. Users match by
+                  name, email or time-tracking id; projects by name or id. Map Minutes or Hours.
+                </p>
+              </div>
+              <Button variant="secondary" onClick={handlePreview} disabled={busy}>
+                {isOperating && !preview ? 'Checking…' : 'Preview'}
+              </Button>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              {TIMESHEET_IMPORT_FIELDS.map((field) => (
+                <div key={field} className="space-y-1">
+                  <label className={LABEL_FORM}>{FIELD_LABELS[field]}</label>
+                  <Select
+                    value={mapping[field] ?? NOT_MAPPED}
+                    onChange={(value) => handleMappingChange(field, value)}
+                    options={headerOptions}
+                    disabled={busy}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {/* Preview */}
+      {preview && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <MetricCard title="Rows" value={preview.summary.total} />
+            <MetricCard title="New" value={preview.summary.new} />
+            <MetricCard title="Updates" value={preview.summary.update} />
+            <MetricCard title="Overlaps" value={preview.summary.overlap} isWarning={preview.summary.overlap > 0} />
+            <MetricCard title="Errors" value={preview.summary.error} isAlert={preview.summary.error > 0} />
+          </div>
+
+          {preview.summary.overlap > 0 && (
+            <Alert
+              icon="warning"
+              variant="warning"
+              message="Overlap rows already have synced time for the same employee, project and day. They will be imported in addition to it."
+            />
+          )}
+
+          <div className="flex items-center justify-between">
+            <p className={BODY_SM}>
+              {importableCount > 0
+                ? `${importableCount} ${importableCount === 1 ? 'row' : 'rows'} will be imported. Error and unchanged rows are skipped.`
+                : 'Nothing to import.'}
+            </p>
+            <Button variant="primary" onClick={handleImport} disabled={busy || importableCount === 0}>
+              {isOperating ? 'Importing…' : `Import ${importableCount} ${importableCount === 1 ? 'Row' : 'Rows'}`}
+            </Button>
+          </div>
+
+          <div className="bg-white rounded-lg border border-vercel-gray-100 overflow-hidden">
+            <table className="w-full">
+              <thead className="bg-vercel-gray-50">
+                <tr>
+                  <th className={`${TH} text-left w-16`}>Row</th>
+                  <th className={`${TH} text-left w-28`}>Status</th>
+                  <th className={`${TH} text-left`}>User</th>
+                  <th className={`${TH} text-left`}>Project</th>
+                  <th className={`${TH} text-left`}>Task</th>
+                  <th className={`${TH} text-left w-28`}>Date</th>
+                  <th className={`${TH} text-right w-24`}>Minutes</th>
+                  <th className={`${TH} text-left`}>Notes</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-vercel-gray-100">
+                {preview.rows.map((row) => {
+                  const uploaded = uploadedByRow.get(row.rowNumber);
+                  const badge = STATUS_BADGES[row.status];
+                  const note = row.errors.length > 0
+                    ? row.errors.join('; ')
+                    : row.status === 'update'
+                      ? `Replaces ${row.existingMinutes} min`
+                      : row.status === 'overlap'
+                        ? `${row.overlapMinutes} min already synced`
+                        : '';
+                  return (
+                    <tr key={row.rowNumber} className="hover:bg-vercel-gray-50 transition-colors">
+                      <td className="px-4 py-3 text-sm text-vercel-gray-400 font-mono">{row.rowNumber}</td>
+                      <td className="px-4 py-3">
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                      </td>
+                      <td className={`px-4 py-3 ${BODY_SM}`}>{row.rollup?.user_name ?? uploaded?.user}</td>
+                      <td className={`px-4 py-3 ${BODY_SM}`}>{row.rollup?.project_name ?? uploaded?.project}</td>
+                      <td className={`px-4 py-3 ${BODY_SM}`}>{row.rollup?.task_name ?? uploaded?.task}</td>
+                      <td className={`px-4 py-3 ${BODY_SM} font-mono`}>{row.rollup?.work_date ?? uploaded?.date}</td>
+                      <td className={`px-4 py-3 ${BODY_SM} text-right font-mono`}>
+                        {row.rollup?.total_minutes ?? uploaded?.minutes}
+                      </td>
+                      <td className={`px-4 py-3 text-xs ${row.errors.length > 0 ? 'text-error' : 'text-vercel-gray-400'}`}>
+                        {note}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default TimesheetImportPage;
@@ -1,5 +1,8 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useAdminUsers } from '../../hooks/useAdminUsers';
+import { useResources } from '../../hooks/useResources';
+import { useManagedProjectsByResource } from '../../hooks/useProjectManagers';
+import { isScopedRole, normalizeRole } from '../../utils/permissions';
 import { UserTable } from '../UserTable';
 import { UserEditorModal } from '../UserEditorModal';
 import { MetricCard } from '../MetricCard';
@@ -15,11 +18,14 @@ export function UsersPage() {
     adminCount,
     createUser,
     updateUserRole,
+    updateUserResource,
     deleteUser,
     sendPasswordResetEmail,
     clearError,
     isOperating,
   } = useAdminUsers();
+  const { resources } = useResources();
+  const { projectsByResource } = useManagedProjectsByResource();
 
   const [isEditorOpen, setIsEditorOpen] = useState(false);
   const [selectedUser, setSelectedUser] = useState<AppUser | null>(null);
@@ -92,6 +98,34 @@ export function UsersPage() {
     setTimeout(() => setSuccessMessage(null), 3000);
   };
 
+  const handleUpdateResource = async (userId: string, resourceId: string | null) => {
+    await updateUserResource(userId, resourceId);
+    setSuccessMessage('Linked employee has been updated');
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const resourceNames = useMemo(() => {
+    const map = new Map<string, string>();
+    for (const r of resources) {
+      const name = [r.first_name, r.last_name].filter(Boolean).join(' ');
+      map.set(r.id, name || r.external_label);
+    }
+    return map;
+  }, [resources]);
+
+  const resourceOptions = useMemo(
+    () => Array.from(resourceNames, ([value, label]) => ({ value, label }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    [resourceNames]
+  );
+
+  const getScopeLabel = (user: AppUser): string | null => {
+    if (!isScopedRole(normalizeRole(user.role))) return null;
+    if (!user.resource_id) return 'No employee linked';
+    const count = projectsByResource.get(user.resource_id)?.length ?? 0;
+    return `${resourceNames.get(user.resource_id) ?? 'Employee'} · ${count} project${count === 1 ? '' : 's'}`;
+  };
+
   return (
     <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
       {/* Page Header */}
@@ -99,7 +133,7 @@ export function UsersPage() {
         <div>
           <h1 className="text-xl font-semibold text-vercel-gray-600">User Management</h1>
           <p className="text-sm text-vercel-gray-400 mt-1">
-            Manage admin users with access to the application
+            Manage users, their roles and which projects project managers see
           </p>
         </div>
         <div className="flex items-center gap-3">
@@ -160,6 +194,7 @@ export function UsersPage() {
         onEdit={handleEditClick}
         onDelete={handleDeleteClick}
         onResetPassword={handleResetPasswordClick}
+        getScopeLabel={getScopeLabel}
       />
 
       {/* Editor Modal */}
@@ -169,6 +204,9 @@ export function UsersPage() {
         user={selectedUser}
         onSave={handleSaveUser}
         onUpdateRole={handleUpdateRole}
+        onUpdateResource={handleUpdateResource}
+        resourceOptions={resourceOptions}
+        projectsByResource={projectsByResource}
         isSaving={isOperating}
         adminCount={adminCount}
         apiError={error}
@@ -0,0 +1,243 @@
+import { useState } from 'react';
+import { useWebhooks } from '../../hooks/useWebhooks';
+import { WebhookEndpointsTable } from '../WebhookEndpointsTable';
+import { WebhookDeliveriesTable } from '../WebhookDeliveriesTable';
+import { WebhookEndpointEditorModal } from '../WebhookEndpointEditorModal';
+import { WebhookSecretModal } from '../WebhookSecretModal';
+import {
+  WebhookEndpointConfirmModal,
+  type WebhookEndpointConfirmAction,
+} from '../WebhookEndpointConfirmModal';
+import { MetricCard } from '../MetricCard';
+import { Button } from '../Button';
+import type {
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointFormData,
+  WebhookSendResult,
+} from '../../types';
+
+function describeResult(result: WebhookSendResult): string {
+  return result.status === 'delivered'
+    ? `Delivered (HTTP ${result.response_status})`
+    : `Delivery failed: ${result.error ?? 'unknown error'}`;
+}
+
+export function WebhooksPage() {
+  const {
+    endpoints,
+    deliveries,
+    loading,
+    error,
+    isOperating,
+    sendingIds,
+    createEndpoint,
+    updateEndpoint,
+    deleteEndpoint,
+    rotateSecret,
+    redeliver,
+    sendTest,
+    clearError,
+    refetch,
+  } = useWebhooks();
+
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [editingEndpoint, setEditingEndpoint] = useState<WebhookEndpoint | null>(null);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [confirmTarget, setConfirmTarget] = useState<WebhookEndpoint | null>(null);
+  const [confirmAction, setConfirmAction] = useState<WebhookEndpointConfirmAction>('delete');
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [sendError, setSendError] = useState<string | null>(null);
+
+  const activeCount = endpoints.filter((e) => e.is_active).length;
+  const deliveredCount = deliveries.filter((d) => d.status === 'delivered').length;
+  const failedCount = deliveries.filter((d) => d.status === 'failed').length;
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const handleAddClick = () => {
+    clearError();
+    setEditingEndpoint(null);
+    setIsEditorOpen(true);
+  };
+
+  const handleEditClick = (endpoint: WebhookEndpoint) => {
+    clearError();
+    setEditingEndpoint(endpoint);
+    setIsEditorOpen(true);
+  };
+
+  const handleSaveEndpoint = async (form: WebhookEndpointFormData) => {
+    if (editingEndpoint) {
+      await updateEndpoint(editingEndpoint.id, form);
+      showSuccess(`Endpoint "${form.name}" has been updated`);
+      return;
+    }
+    setSecret(await createEndpoint(form));
+    showSuccess(`Endpoint "${form.name}" has been added`);
+  };
+
+  const handleConfirmClick = (endpoint: WebhookEndpoint, action: WebhookEndpointConfirmAction) => {
+    setConfirmTarget(endpoint);
+    setConfirmAction(action);
+  };
+
+  const handleConfirm = async () => {
+    if (!confirmTarget) return;
+    try {
+      if (confirmAction === 'delete') {
+        await deleteEndpoint(confirmTarget.id);
+        showSuccess(`Endpoint "${confirmTarget.name}" has been deleted`);
+      } else {
+        setSecret(await rotateSecret(confirmTarget.id));
+      }
+    } catch {
+      // Error handled by hook
+    }
+    setConfirmTarget(null);
+  };
+
+  const runSend = async (send: () => Promise<WebhookSendResult>) => {
+    setSendError(null);
+    try {
+      const result = await send();
+      if (result.status === 'delivered') showSuccess(describeResult(result));
+      else setSendError(describeResult(result));
+    } catch (err) {
+      setSendError(err instanceof Error ? err.message : 'The delivery could not be sent');
+    }
+  };
+
+  const errorMessage = error ?? sendError;
+
+  return (
+    <div className="max-w-7xl mx-auto px-6 py-8 space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-xl font-semibold text-vercel-gray-600">Webhooks</h1>
+          <p className="text-sm text-vercel-gray-400 mt-1">
+            Signed HTTP notifications for syncs, sync alerts, EOM reports and QBO invoices
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button variant="secondary" onClick={refetch}>
+            Refresh
+          </Button>
+          <Button variant="primary" onClick={handleAddClick}>
+            Add Endpoint
+          </Button>
+        </div>
+      </div>
+
+      {/* Success Message */}
+      {successMessage && (
+        <div className="p-3 bg-success-light border border-success rounded-lg">
+          <div className="flex items-center gap-2">
+            <svg className="w-4 h-4 text-success" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+            </svg>
+            <span className="text-sm text-success">{successMessage}</span>
+          </div>
+        </div>
+      )}
+
+      {/* Error State */}
+      {errorMessage && !isEditorOpen && (
+        <div className="p-4 bg-error-light border border-error rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <svg className="w-5 h-5 text-error" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              <span className="text-sm text-error">{errorMessage}</span>
+            </div>
+            <button
+              onClick={() => {
+                clearError();
+                setSendError(null);
+              }}
+              aria-label="Dismiss error"
+              className="text-error hover:opacity-80 transition-opacity"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <MetricCard title="Active Endpoints" value={activeCount} loading={loading} />
+        <MetricCard title="Delivered (recent)" value={deliveredCount} loading={loading} />
+        <MetricCard title="Failed (recent)" value={failedCount} loading={loading} isWarning={failedCount > 0} />
+      </div>
+
+      {/* Endpoints */}
+      <section className="space-y-3">
+        <h2 className="text-sm font-semibold text-vercel-gray-600">Endpoints</h2>
+        <WebhookEndpointsTable
+          endpoints={endpoints}
+          loading={loading}
+          sendingIds={sendingIds}
+          onEdit={handleEditClick}
+          onSendTest={(endpoint) => runSend(() => sendTest(endpoint.id))}
+          onRotateSecret={(endpoint) => handleConfirmClick(endpoint, 'rotate')}
+          onDelete={(endpoint) => handleConfirmClick(endpoint, 'delete')}
+        />
+      </section>
+
+      {/* Recent deliveries */}
+      <section className="space-y-3">
+        <div>
+          <h2 className="text-sm font-semibold text-vercel-gray-600">Recent Deliveries</h2>
+          <p className="text-xs text-vercel-gray-400 mt-1">
+            Failed deliveries are retried with backoff for up to six attempts. Redeliver posts the same event again now.
+          </p>
+        </div>
+        <WebhookDeliveriesTable
+          deliveries={deliveries}
+          loading={loading}
+          sendingIds={sendingIds}
+          onRedeliver={(delivery: WebhookDelivery) => runSend(() => redeliver(delivery.id))}
+        />
+      </section>
+
+      {/* Editor Modal (Add / Edit) */}
+      <WebhookEndpointEditorModal
+        isOpen={isEditorOpen}
+        onClose={() => {
+          setIsEditorOpen(false);
+          setEditingEndpoint(null);
+        }}
+        endpoint={editingEndpoint}
+        onSave={handleSaveEndpoint}
+        isSaving={isOperating}
+        apiError={error}
+        onClearApiError={clearError}
+      />
+
+      {/* Signing secret (one-shot, after create / rotate) */}
+      <WebhookSecretModal
+        isOpen={secret !== null}
+        onClose={() => setSecret(null)}
+        secret={secret ?? ''}
+      />
+
+      {/* Delete / Rotate Confirmation */}
+      <WebhookEndpointConfirmModal
+        isOpen={confirmTarget !== null}
+        onClose={() => setConfirmTarget(null)}
+        endpoint={confirmTarget}
+        action={confirmAction}
+        onConfirm={handleConfirm}
+        isOperating={isOperating}
+      />
+    </div>
+  );
+}
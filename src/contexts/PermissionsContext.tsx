@@ -0,0 +1,95 @@
+import { createContext, useContext, useEffect, useState, useCallback, useMemo, type ReactNode } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from './AuthContext';
+import type { NavRoute } from '../components/MainHeader';
+import type { AccessScope, UserRole } from '../types';
+import { canAccessRoute, canAdjustBilling, canManageExpenses, canPlanAllocations, defaultRouteFor, normalizeRole } from '../utils/permissions';
+
+interface PermissionsContextValue {
+  role: UserRole;
+  isAdmin: boolean;
+  /** True until get_my_access() has answered */
+  loading: boolean;
+  /** Companies a scoped role can see; null when company-wide */
+  companyIds: Set<string> | null;
+  /** Projects a scoped role can see; null when company-wide */
+  projectIds: Set<string> | null;
+  canAccess: (route: NavRoute) => boolean;
+  canManageExpenses: boolean;
+  /** Allocate resources on the capacity planner (scoped roles: own projects only) */
+  canPlanAllocations: boolean;
+  /** Add billing write-downs and write-ups (scoped roles: own projects only) */
+  canAdjustBilling: boolean;
+  defaultRoute: NavRoute;
+  refetch: () => void;
+}
+
+const PermissionsContext = createContext<PermissionsContextValue | null>(null);
+
+/**
+ * Resolves the signed-in user's role and company/project scope.
+ *
+ * The JWT's app_metadata.role is used until get_my_access() (migration 142)
+ * answers, so navigation renders immediately; the RPC reads the live role, so
+ * a role change applies without signing out.
+ */
+export function PermissionsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [scope, setScope] = useState<AccessScope | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refetchTrigger, setRefetchTrigger] = useState(0);
+
+  const userId = user?.id ?? null;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    supabase.rpc('get_my_access').then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) {
+        console.error('Error fetching access scope:', error);
+        setScope(null);
+      } else {
+        setScope(data as AccessScope);
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, refetchTrigger]);
+
+  const refetch = useCallback(() => {
+    setRefetchTrigger((n) => n + 1);
+  }, []);
+
+  const value = useMemo<PermissionsContextValue>(() => {
+    const role = normalizeRole(scope?.role ?? user?.app_metadata?.role);
+    return {
+      role,
+      isAdmin: role === 'admin',
+      loading,
+      companyIds: scope?.company_ids ? new Set(scope.company_ids) : null,
+      projectIds: scope?.project_ids ? new Set(scope.project_ids) : null,
+      canAccess: (route) => canAccessRoute(role, route),
+      canManageExpenses: canManageExpenses(role),
+      canPlanAllocations: canPlanAllocations(role),
+      canAdjustBilling: canAdjustBilling(role),
+      defaultRoute: defaultRouteFor(role),
+      refetch,
+    };
+  }, [scope, user?.app_metadata?.role, loading, refetch]);
+
+  return <PermissionsContext.Provider value={value}>{children}</PermissionsContext.Provider>;
+}
+
+// eslint-disable-next-line react-refresh/only-export-components -- Context + hook pattern is intentional
+export function usePermissions() {
+  const context = useContext(PermissionsContext);
+  if (!context) {
+    throw new Error('usePermissions must be used within a PermissionsProvider');
+  }
+  return context;
+}
@@ -200,7 +200,7 @@ export const atoms: DesignSystemEntry[] = [
     description: 'Horizontal bar chart for resource hours distribution using Recharts.',
     tier: 'atom',
     filePath: 'src/components/atoms/charts/BarChartAtom.tsx',
-    usedIn: ['DashboardChartsRow'],
+    usedIn: ['DashboardChartsRow', 'ChatBlocks'],
   },
   {
     name: 'CAGRChartAtom',
@@ -158,7 +158,7 @@ export const molecules: DesignSystemEntry[] = [
     description: 'Section for managing company group membership with add/remove controls.',
     tier: 'molecule',
     filePath: 'src/components/CompanyGroupSection.tsx',
-    composedOf: ['Select', 'Button', 'Spinner'],
+    composedOf: ['Select', 'Button', 'Spinner', 'MergeSuggestionList'],
     usedIn: ['CompanyEditorModal'],
   },
   {
@@ -166,7 +166,7 @@ export const molecules: DesignSystemEntry[] = [
     description: 'Section for managing project group membership.',
     tier: 'molecule',
     filePath: 'src/components/ProjectGroupSection.tsx',
-    composedOf: ['Select', 'Button', 'Spinner'],
+    composedOf: ['Select', 'Button', 'Spinner', 'MergeSuggestionList'],
     usedIn: ['ProjectEditorModal'],
   },
   {
@@ -174,9 +174,25 @@ export const molecules: DesignSystemEntry[] = [
     description: 'Section for managing physical person (employee) group membership.',
     tier: 'molecule',
     filePath: 'src/components/PhysicalPersonGroupSection.tsx',
-    composedOf: ['Select', 'Button', 'Spinner'],
+    composedOf: ['Select', 'Button', 'Spinner', 'MergeSuggestionList'],
     usedIn: ['EmployeeEditorModal'],
   },
+  {
+    name: 'MergeSuggestionList',
+    description: 'Ranked "probably the same" candidates with match signals and a stage action, shown in the group editors.',
+    tier: 'molecule',
+    filePath: 'src/components/MergeSuggestionList.tsx',
+    composedOf: ['Badge', 'Button', 'Spinner'],
+    usedIn: ['CompanyGroupSection', 'ProjectGroupSection', 'PhysicalPersonGroupSection'],
+  },
+  {
+    name: 'EntityHistoryPanel',
+    description: 'Collapsible audit history (who changed what, before / after) inside an editor modal. Admin only.',
+    tier: 'molecule',
+    filePath: 'src/components/EntityHistoryPanel.tsx',
+    composedOf: ['Badge', 'Spinner'],
+    usedIn: ['EmployeeEditorModal', 'CompanyEditorModal', 'ProjectEditorModal'],
+  },
   {
     name: 'UserAssociationsSection',
     description: 'Section showing resource associations linked to a user account.',
@@ -194,9 +210,17 @@ export const molecules: DesignSystemEntry[] = [
     description: 'Single chat message bubble with user/AI styling and Markdown rendering.',
     tier: 'molecule',
     filePath: 'src/components/chat/ChatMessage.tsx',
-    composedOf: ['Markdown', 'Avatar'],
+    composedOf: ['Markdown', 'Avatar', 'ChatBlocks'],
     usedIn: ['AIChatWindow'],
   },
+  {
+    name: 'ChatBlocks',
+    description: 'Tables and bar charts returned by the assistant\'s tools, shown under an answer.',
+    tier: 'molecule',
+    filePath: 'src/components/chat/ChatBlocks.tsx',
+    composedOf: ['BarChartAtom'],
+    usedIn: ['ChatMessage'],
+  },
   {
     name: 'ChatInput',
     description: 'Text input area with send button for composing chat messages.',
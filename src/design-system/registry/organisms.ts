@@ -203,7 +203,7 @@ export const organisms: DesignSystemEntry[] = [
     description: 'Full-screen modal for editing employee details including personal info, employment type, and group associations.',
     tier: 'organism',
     filePath: 'src/components/EmployeeEditorModal.tsx',
-    composedOf: ['Modal', 'Input', 'Select', 'Button', 'Spinner', 'PhysicalPersonGroupSection'],
+    composedOf: ['Modal', 'Input', 'Select', 'Button', 'Spinner', 'PhysicalPersonGroupSection', 'EntityHistoryPanel'],
     usedIn: ['EmployeeManagementPage'],
   },
   {
@@ -235,7 +235,7 @@ export const organisms: DesignSystemEntry[] = [
     description: 'Modal for editing company details and managing company group membership.',
     tier: 'organism',
     filePath: 'src/components/CompanyEditorModal.tsx',
-    composedOf: ['Modal', 'Input', 'Button', 'Spinner', 'CompanyGroupSection'],
+    composedOf: ['Modal', 'Input', 'Button', 'Spinner', 'CompanyGroupSection', 'EntityHistoryPanel'],
     usedIn: ['CompanyManagementPage'],
   },
   {
@@ -243,7 +243,7 @@ export const organisms: DesignSystemEntry[] = [
     description: 'Modal for editing project settings including target hours and project group membership.',
     tier: 'organism',
     filePath: 'src/components/ProjectEditorModal.tsx',
-    composedOf: ['Modal', 'Button', 'Spinner', 'ProjectGroupSection'],
+    composedOf: ['Modal', 'Button', 'Spinner', 'ProjectGroupSection', 'EntityHistoryPanel'],
     usedIn: ['ProjectManagementPage'],
   },
   {
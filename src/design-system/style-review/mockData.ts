@@ -11,13 +11,14 @@ import type {
   ResourceSummary,
   ProjectSummary,
   Resource,
-  BulgarianHoliday,
+  CalendarHoliday,
   AppUser,
   EmployeeTimeOff,
 } from '../../types';
 import type { BarChartDataPoint } from '../../components/atoms/charts/BarChartAtom';
 import type { CAGRProjectionDataPoint } from '../../types/charts';
 import type { UnderHoursResource } from '../../utils/calculations';
+import { buildHolidaySchedule } from '../../utils/holidays';
 
 // ============================================================================
 // Chart Data
@@ -98,21 +99,21 @@ export const mockResources: Resource[] = [
     first_name: 'Kalin', last_name: 'Tomanov', email: 'kalin@example.com',
     teams_account: null, employment_type_id: 'et-1', billing_mode: 'hourly',
     expected_hours: 160, hourly_rate: 60, monthly_cost: null,
-    bamboo_employee_id: null, created_at: now, updated_at: now,
+    bamboo_employee_id: null, holiday_calendar_id: null, created_at: now, updated_at: now,
   },
   {
     id: 'r-2', user_id: 'u-2', external_label: 'Milen Anastasov',
     first_name: 'Milen', last_name: 'Anastasov', email: 'milen@example.com',
     teams_account: null, employment_type_id: 'et-1', billing_mode: 'hourly',
     expected_hours: 160, hourly_rate: 53, monthly_cost: null,
-    bamboo_employee_id: null, created_at: now, updated_at: now,
+    bamboo_employee_id: null, holiday_calendar_id: null, created_at: now, updated_at: now,
   },
   {
     id: 'r-3', user_id: 'u-3', external_label: 'Matthew Maday',
     first_name: 'Matthew', last_name: 'Maday', email: 'matt@example.com',
     teams_account: null, employment_type_id: 'et-2', billing_mode: 'monthly',
     expected_hours: 40, hourly_rate: null, monthly_cost: 8000,
-    bamboo_employee_id: null, created_at: now, updated_at: now,
+    bamboo_employee_id: null, holiday_calendar_id: null, created_at: now, updated_at: now,
   },
 ];
 
@@ -167,14 +168,16 @@ export const mockProjectSummary: ProjectSummary = {
 // Organism Data
 // ============================================================================
 
-export const mockHolidays: BulgarianHoliday[] = [
-  { id: 'h-1', holiday_name: 'New Year\'s Day', holiday_date: `${currentYear}-01-01`, is_system_generated: true, year: currentYear, created_at: now, updated_at: now },
-  { id: 'h-2', holiday_name: 'Liberation Day', holiday_date: `${currentYear}-03-03`, is_system_generated: true, year: currentYear, created_at: now, updated_at: now },
-  { id: 'h-3', holiday_name: 'Labour Day', holiday_date: `${currentYear}-05-01`, is_system_generated: true, year: currentYear, created_at: now, updated_at: now },
-  { id: 'h-4', holiday_name: 'St. George\'s Day', holiday_date: `${currentYear}-05-06`, is_system_generated: true, year: currentYear, created_at: now, updated_at: now },
-  { id: 'h-5', holiday_name: 'Christmas', holiday_date: `${currentYear}-12-25`, is_system_generated: true, year: currentYear, created_at: now, updated_at: now },
+export const mockHolidays: CalendarHoliday[] = [
+  { id: 'h-1', calendar_id: 'cal-bg', holiday_name: 'New Year\'s Day', holiday_date: `${currentYear}-01-01`, is_system_generated: true, year: currentYear, created_at: now, updated_at: now },
+  { id: 'h-2', calendar_id: 'cal-bg', holiday_name: 'Liberation Day', holiday_date: `${currentYear}-03-03`, is_system_generated: true, year: currentYear, created_at: now, updated_at: now },
+  { id: 'h-3', calendar_id: 'cal-bg', holiday_name: 'Labour Day', holiday_date: `${currentYear}-05-01`, is_system_generated: true, year: currentYear, created_at: now, updated_at: now },
+  { id: 'h-4', calendar_id: 'cal-bg', holiday_name: 'St. George\'s Day', holiday_date: `${currentYear}-05-06`, is_system_generated: true, year: currentYear, created_at: now, updated_at: now },
+  { id: 'h-5', calendar_id: 'cal-bg', holiday_name: 'Christmas', holiday_date: `${currentYear}-12-25`, is_system_generated: true, year: currentYear, created_at: now, updated_at: now },
 ];
 
+export const mockHolidaySchedule = buildHolidaySchedule([{ id: 'cal-bg', is_default: true }], mockHolidays);
+
 export const mockTimeOff: EmployeeTimeOff[] = [
   {
     id: 'to-1', bamboo_request_id: 'br-1', bamboo_employee_id: 'be-1',
@@ -193,9 +196,10 @@ export const mockTimeOff: EmployeeTimeOff[] = [
 ];
 
 export const mockAppUsers: AppUser[] = [
-  { id: 'au-1', email: 'admin@thebteam.com', display_name: 'Admin User', role: 'admin', is_verified: true, created_at: now, last_sign_in_at: now },
-  { id: 'au-2', email: 'matt@thebteam.com', display_name: 'Matthew Maday', role: 'admin', is_verified: true, created_at: now, last_sign_in_at: now },
-  { id: 'au-3', email: 'viewer@thebteam.com', display_name: 'View Only', role: 'user', is_verified: false, created_at: now, last_sign_in_at: null },
+  { id: 'au-1', email: 'admin@thebteam.com', display_name: 'Admin User', role: 'admin', is_verified: true, created_at: now, last_sign_in_at: now, resource_id: null },
+  { id: 'au-2', email: 'matt@thebteam.com', display_name: 'Matthew Maday', role: 'admin', is_verified: true, created_at: now, last_sign_in_at: now, resource_id: null },
+  { id: 'au-3', email: 'viewer@thebteam.com', display_name: 'View Only', role: 'user', is_verified: false, created_at: now, last_sign_in_at: null, resource_id: null },
+  { id: 'au-4', email: 'pm@thebteam.com', display_name: 'Project Lead', role: 'project_manager', is_verified: true, created_at: now, last_sign_in_at: now, resource_id: 'r-1' },
 ];
 
 export const mockProjectSummaries: ProjectSummary[] = [
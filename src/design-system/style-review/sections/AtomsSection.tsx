@@ -32,7 +32,7 @@ import {
   mockCAGRData,
   mockTimesheetEntries,
   mockResources,
-  mockHolidays,
+  mockHolidaySchedule,
 } from '../mockData';
 
 export function AtomsSection() {
@@ -563,7 +563,7 @@ Inline \`code\` in a sentence.`} />
               entries={mockTimesheetEntries}
               startDate={dailyChartStart}
               endDate={dailyChartEnd}
-              holidays={mockHolidays}
+              holidaySchedule={mockHolidaySchedule}
               resources={mockResources}
             />
           </div>
@@ -24,8 +24,10 @@ import { ProjectCard } from '../../../components/ProjectCard';
 import { TaskList as TaskListComponent } from '../../../components/TaskList';
 import { ChatMessage } from '../../../components/chat/ChatMessage';
 import { ChatInput } from '../../../components/chat/ChatInput';
+import { MergeSuggestionList } from '../../../components/MergeSuggestionList';
 import type { DateRange, MonthSelection } from '../../../types';
 import type { ChatMessage as ChatMessageType } from '../../../types/chat';
+import type { MergeSuggestion } from '../../../utils/mergeSuggestions';
 import { molecules } from '../../registry/molecules';
 import {
   mockTaskSummaries,
@@ -102,13 +104,49 @@ export function MoleculesSection() {
   const sampleAssistantMessage: ChatMessageType = {
     id: 'msg-2',
     role: 'assistant',
-    content: 'Kalin Tomanov logged **168.5 hours** last month across 2 projects:\n\n- **FoodCycleScience**: 120.0h\n- **Neocurrency**: 48.5h',
+    content: 'Kalin Tomanov logged **168.5 hours** last month across 2 projects.',
     timestamp: new Date(),
+    blocks: [
+      {
+        type: 'table',
+        title: 'Hours by project',
+        columns: [
+          { key: 'project', label: 'Project', format: 'text' },
+          { key: 'actual_hours', label: 'Actual', format: 'hours' },
+          { key: 'rounded_hours', label: 'Rounded', format: 'hours' },
+        ],
+        rows: [
+          { project: 'FoodCycleScience', actual_hours: 120, rounded_hours: 121.5 },
+          { project: 'Neocurrency', actual_hours: 48.5, rounded_hours: 49 },
+        ],
+      },
+    ],
   };
 
+  const sampleMergeSuggestions: MergeSuggestion[] = [
+    {
+      entityId: 'res-2',
+      externalId: 'clickup-481',
+      name: 'Иван Петров',
+      altName: 'ivan.p',
+      score: 92,
+      confidence: 'high',
+      reasons: ['Same name', 'Same email', '38 shared work days', '2 shared clients'],
+    },
+    {
+      entityId: 'res-3',
+      externalId: 'clockify-77',
+      name: 'Ivan P.',
+      altName: null,
+      score: 58,
+      confidence: 'medium',
+      reasons: ['Name 80% similar', '4 shared work days'],
+    },
+  ];
+
   // Info card helper for molecules that need live data
   const infoCardMolecules = molecules.filter((m) =>
-    ['CompanyGroupSection', 'ProjectGroupSection', 'PhysicalPersonGroupSection', 'UserAssociationsSection'].includes(m.name)
+    ['CompanyGroupSection', 'ProjectGroupSection', 'PhysicalPersonGroupSection', 'UserAssociationsSection', 'EntityHistoryPanel'].includes(m.name)
   );
 
   return (
@@ -435,6 +473,22 @@ export function MoleculesSection() {
           </div>
         </div>
 
+        {/* MergeSuggestionList (NEW) */}
+        <div className="mb-8 p-6 border border-vercel-gray-100 rounded-lg">
+          <div className="mb-4">
+            <h3 className="text-sm font-medium text-vercel-gray-600">MergeSuggestionList</h3>
+            <p className="text-xs text-vercel-gray-400">Component: src/components/MergeSuggestionList.tsx</p>
+          </div>
+          <div className="max-w-md">
+            <MergeSuggestionList suggestions={sampleMergeSuggestions} onStage={() => {}} />
+          </div>
+          <div className="mt-4 p-3 bg-vercel-gray-50 rounded-lg">
+            <p className="text-xs text-vercel-gray-400">
+              <span className="font-medium">Features:</span> Ranked candidates with confidence badge, score and match signals. Stage adds the candidate to the editor's pending group changes.
+            </p>
+          </div>
+        </div>
+
         {/* Group management sections - info cards (API hooks fire on mount) */}
         {infoCardMolecules.map((mol) => (
           <div key={mol.name} className="mb-8 p-6 border border-vercel-gray-100 rounded-lg">
@@ -54,7 +54,7 @@ const INFO_CARD_NAMES = new Set([
 // Hook names for info card descriptions
 const HOOK_NAMES: Record<string, string> = {
   BillingRatesTable: 'useMonthlyRates, useBillingLimits',
-  MainHeader: 'useAuth, useNavigate',
+  MainHeader: 'useAuth, usePermissions',
   Footer: 'useLegalDocuments',
   EmployeeEditorModal: 'useEmploymentTypes, useUnassociatedPhysicalPersons',
   CompanyEditorModal: 'useUnassociatedCompanies',
@@ -402,6 +402,9 @@ export function OrganismsSection() {
             user={null}
             onSave={async () => { setUserEditorOpen(false); }}
             onUpdateRole={async () => {}}
+            onUpdateResource={async () => {}}
+            resourceOptions={[{ value: 'r-1', label: 'Kalin Tomanov' }]}
+            projectsByResource={new Map([['r-1', ['Website Redesign']]])}
             isSaving={false}
             adminCount={2}
           />
@@ -2,9 +2,11 @@ import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
 import type {
   ApiKey,
+  ApiKeyScope,
   CreateApiKeyParams,
   CreateApiKeyResult,
   RevokeApiKeyResult,
+  SetApiKeyScopesResult,
 } from '../types';
 
 function getErrorMessage(e: unknown, fallback: string): string {
@@ -29,6 +31,7 @@ interface UseAdminApiKeysReturn {
   fetchApiKeys: () => Promise<void>;
   createApiKey: (params: CreateApiKeyParams) => Promise<CreateApiKeyResult>;
   revokeApiKey: (keyId: string) => Promise<RevokeApiKeyResult>;
+  updateApiKeyScopes: (keyId: string, scopes: ApiKeyScope[]) => Promise<SetApiKeyScopesResult>;
   clearError: () => void;
   isOperating: boolean;
 }
@@ -106,6 +109,7 @@ export function useAdminApiKeys(): UseAdminApiKeysReturn {
             action: 'create',
             name: params.name,
             description: params.description ?? null,
+            scopes: params.scopes ?? ['hours:read'],
           },
         }
       );
@@ -174,6 +178,36 @@ export function useAdminApiKeys(): UseAdminApiKeysReturn {
     }
   };
 
+  const updateApiKeyScopes = async (
+    keyId: string,
+    scopes: ApiKeyScope[]
+  ): Promise<SetApiKeyScopesResult> => {
+    setIsOperating(true);
+    setError(null);
+    try {
+      const { data, error: rpcError } = await supabase
+        .schema('mcp_api')
+        .rpc('admin_set_api_key_scopes', { p_key_id: keyId, p_scopes: scopes });
+
+      if (rpcError) throw rpcError;
+
+      const result = data as SetApiKeyScopesResult;
+      if (!result?.success) {
+        throw new Error(result?.error || 'Failed to update API key scopes');
+      }
+
+      await fetchApiKeys();
+
+      return result;
+    } catch (e) {
+      const message = getErrorMessage(e, 'Failed to update API key scopes');
+      setError(message);
+      throw new Error(message);
+    } finally {
+      setIsOperating(false);
+    }
+  };
+
   return {
     apiKeys,
     loading,
@@ -183,6 +217,7 @@ export function useAdminApiKeys(): UseAdminApiKeysReturn {
     fetchApiKeys,
     createApiKey,
     revokeApiKey,
+    updateApiKeyScopes,
     clearError,
     isOperating,
   };
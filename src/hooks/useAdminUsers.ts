@@ -25,6 +25,8 @@ interface UseAdminUsersReturn {
   fetchUsers: () => Promise<void>;
   createUser: (params: CreateUserParams) => Promise<CreateUserResult>;
   updateUserRole: (userId: string, role: UserRole) => Promise<UpdateRoleResult>;
+  /** Link a user to their employee resource (null unlinks) */
+  updateUserResource: (userId: string, resourceId: string | null) => Promise<void>;
   deleteUser: (userId: string) => Promise<DeleteUserResult>;
   sendPasswordResetEmail: (email: string) => Promise<boolean>;
   clearError: () => void;
@@ -103,10 +105,23 @@ export function useAdminUsers(): UseAdminUsersReturn {
         throw new Error(message);
       }
 
+      // Link the employee resource (scopes project managers, migration 142)
+      const result = data as CreateUserResult;
+      if (params.resource_id) {
+        const { error: linkError } = await supabase.rpc('admin_set_user_resource', {
+          p_user_id: result.user_id,
+          p_resource_id: params.resource_id,
+        });
+        if (linkError) {
+          await fetchUsers();
+          throw new Error(`User created, but linking the employee failed: ${linkError.message}`);
+        }
+      }
+
       // Refresh the user list
       await fetchUsers();
 
-      return data as CreateUserResult;
+      return result;
     } catch (e) {
       const message = getErrorMessage(e, 'Failed to create user');
       setError(message);
@@ -143,6 +158,31 @@ export function useAdminUsers(): UseAdminUsersReturn {
     }
   };
 
+  const updateUserResource = async (
+    userId: string,
+    resourceId: string | null
+  ): Promise<void> => {
+    setIsOperating(true);
+    setError(null);
+    try {
+      const { error: rpcError } = await supabase.rpc('admin_set_user_resource', {
+        p_user_id: userId,
+        p_resource_id: resourceId,
+      });
+
+      if (rpcError) throw rpcError;
+
+      // Refresh the user list
+      await fetchUsers();
+    } catch (e) {
+      const message = getErrorMessage(e, 'Failed to link employee');
+      setError(message);
+      throw new Error(message);
+    } finally {
+      setIsOperating(false);
+    }
+  };
+
   const deleteUser = async (userId: string): Promise<DeleteUserResult> => {
     setIsOperating(true);
     setError(null);
@@ -194,6 +234,7 @@ export function useAdminUsers(): UseAdminUsersReturn {
     fetchUsers,
     createUser,
     updateUserRole,
+    updateUserResource,
     deleteUser,
     sendPasswordResetEmail,
     clearError,
@@ -0,0 +1,91 @@
+/**
+ * useAuditLog - Change history of admin-edited entities
+ *
+ * Reads get_audit_log (migration 157): audit_log merged with
+ * billing_audit_log, newest first, with actor and entity names resolved.
+ * Used by the Audit page (filters by entity type, user and date) and the
+ * editor history panels (one entity). Admin-only.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import type { AuditLogEntry, AuditLogFilters } from '../types';
+
+/** Newest entries returned per query */
+export const AUDIT_LOG_LIMIT = 500;
+
+interface UseAuditLogOptions {
+  /** Skip fetching (e.g. a collapsed history panel) */
+  enabled?: boolean;
+  limit?: number;
+}
+
+interface UseAuditLogReturn {
+  /** Newest first */
+  entries: AuditLogEntry[];
+  isLoading: boolean;
+  error: string | null;
+  /** Whether the limit cut off older entries */
+  isTruncated: boolean;
+  refetch: () => void;
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+export function useAuditLog(
+  filters: AuditLogFilters,
+  { enabled = true, limit = AUDIT_LOG_LIMIT }: UseAuditLogOptions = {},
+): UseAuditLogReturn {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(enabled);
+  const [error, setError] = useState<string | null>(null);
+
+  const { entityType, entityId, changedBy, from, to } = filters;
+
+  const fetchEntries = useCallback(async () => {
+    if (!enabled) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: rpcError } = await supabase.rpc('get_audit_log', {
+        p_entity_type: entityType ?? null,
+        p_entity_id: entityId ?? null,
+        p_changed_by: changedBy ?? null,
+        p_from: from ?? null,
+        p_to: to ?? null,
+        p_limit: limit,
+      });
+      if (rpcError) throw rpcError;
+      setEntries((data as AuditLogEntry[]) || []);
+    } catch (err) {
+      console.error('Error fetching audit log:', err);
+      setError(extractErrorMessage(err, 'Failed to fetch audit log'));
+      setEntries([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [enabled, entityType, entityId, changedBy, from, to, limit]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return {
+    entries,
+    isLoading,
+    error,
+    isTruncated: entries.length >= limit,
+    refetch: fetchEntries,
+  };
+}
@@ -31,6 +31,8 @@ interface UseBillingResult {
   totalActualHours: number;
   /** Whether the data is still loading */
   isLoading: boolean;
+  /** Re-read the summary table (e.g. after a billing adjustment) */
+  refetch: () => void;
 }
 
 // ============================================================================
@@ -65,5 +67,6 @@ export function useBilling({
     totalBilledHours: summary.totalBilledHours,
     totalActualHours: summary.totalActualHours,
     isLoading: summary.isLoading,
+    refetch: summary.refetch,
   };
 }
@@ -0,0 +1,133 @@
+/**
+ * useBillingAdjustments - Manual billing write-downs and write-ups
+ *
+ * Reads get_billing_adjustments() for the month (migration 152), which only
+ * returns the caller's projects. Rows are written to billing_adjustments,
+ * where RLS lets admins, finance and the project's managers write; the
+ * change is queued for recalculation and drained right away so billing
+ * follows at once.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { toAdjustmentInsert } from '../utils/billingAdjustments';
+import type { BillingAdjustmentFormData, BillingAdjustmentRow } from '../types';
+
+interface UseBillingAdjustmentsParams {
+  /** First day of the month ('YYYY-MM-01') */
+  month: string;
+}
+
+interface UseBillingAdjustmentsReturn {
+  adjustments: BillingAdjustmentRow[];
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  addAdjustment: (data: BillingAdjustmentFormData) => Promise<boolean>;
+  removeAdjustment: (id: string) => Promise<boolean>;
+  clearError: () => void;
+  refetch: () => void;
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+/** Drain the recalculation queue so billing summaries update immediately */
+async function drainRecalculationQueue(): Promise<void> {
+  await supabase.rpc('drain_recalculation_queue_authenticated');
+}
+
+export function useBillingAdjustments({ month }: UseBillingAdjustmentsParams): UseBillingAdjustmentsReturn {
+  const [adjustments, setAdjustments] = useState<BillingAdjustmentRow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refetchTrigger, setRefetchTrigger] = useState(0);
+
+  const fetchAdjustments = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase.rpc('get_billing_adjustments', { p_month: month });
+      if (fetchError) throw fetchError;
+      setAdjustments((data as BillingAdjustmentRow[]) || []);
+    } catch (err) {
+      console.error('Error fetching billing adjustments:', err);
+      setError(extractErrorMessage(err, 'Failed to load adjustments'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    fetchAdjustments();
+  }, [fetchAdjustments, refetchTrigger]);
+
+  const runMutation = useCallback(async (
+    action: () => Promise<{ error: unknown }>,
+    fallback: string,
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { error: mutationError } = await action();
+      if (mutationError) throw mutationError;
+      await drainRecalculationQueue();
+      await fetchAdjustments();
+      return true;
+    } catch (err) {
+      console.error(`${fallback}:`, err);
+      setError(extractErrorMessage(err, fallback));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [fetchAdjustments]);
+
+  const addAdjustment = useCallback((data: BillingAdjustmentFormData) =>
+    runMutation(async () => {
+      const { data: project, error: projectError } = await supabase
+        .from('projects')
+        .select('id')
+        .eq('project_id', data.externalProjectId)
+        .single();
+      if (projectError) return { error: projectError };
+
+      return supabase
+        .from('billing_adjustments')
+        .insert(toAdjustmentInsert(data, project.id));
+    }, 'Failed to add adjustment'), [runMutation]);
+
+  const removeAdjustment = useCallback((id: string) =>
+    runMutation(async () => supabase
+      .from('billing_adjustments')
+      .delete()
+      .eq('id', id), 'Failed to remove adjustment'), [runMutation]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const refetch = useCallback(() => {
+    setRefetchTrigger((n) => n + 1);
+  }, []);
+
+  return {
+    adjustments,
+    isLoading,
+    isSaving,
+    error,
+    addAdjustment,
+    removeAdjustment,
+    clearError,
+    refetch,
+  };
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import type {
+  BillingMonthCloseStatus,
+  BillingMonthStatusType,
+  MonthSelection,
+} from '../types';
+
+/** Raw row shape returned by get_billing_month_close_status */
+interface BillingMonthCloseStatusRow {
+  billing_month: string;
+  status: BillingMonthStatusType;
+  project_count: number;
+  locked_revenue_cents: number;
+  pending_recalc_count: number;
+  closed_at: string | null;
+  closed_by_email: string | null;
+  reopened_at: string | null;
+  reopened_by_email: string | null;
+  reopen_reason: string | null;
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+function formatMonthAsISO(month: MonthSelection): string {
+  return `${month.year}-${String(month.month).padStart(2, '0')}-01`;
+}
+
+interface UseBillingMonthStatusOptions {
+  selectedMonth: MonthSelection;
+}
+
+interface UseBillingMonthStatusReturn {
+  monthStatus: BillingMonthCloseStatus | null;
+  /** True while the month is closed — config edits are rejected server-side */
+  isClosed: boolean;
+  isLoading: boolean;
+  isOperating: boolean;
+  error: string | null;
+  closeMonth: () => Promise<boolean>;
+  reopenMonth: (reason: string) => Promise<boolean>;
+  refetch: () => void;
+}
+
+/**
+ * Hook to read and drive the month-close workflow (migration 134).
+ * Closing freezes the month's canonical revenue; reopening requires a reason
+ * and is recorded in billing_audit_log.
+ */
+export function useBillingMonthStatus({ selectedMonth }: UseBillingMonthStatusOptions): UseBillingMonthStatusReturn {
+  const [monthStatus, setMonthStatus] = useState<BillingMonthCloseStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isOperating, setIsOperating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: rpcError } = await supabase.rpc(
+        'get_billing_month_close_status',
+        { p_month: formatMonthAsISO(selectedMonth) }
+      );
+
+      if (rpcError) throw rpcError;
+
+      const row = ((data as BillingMonthCloseStatusRow[]) || [])[0];
+      setMonthStatus(row ? {
+        billingMonth: row.billing_month,
+        status: row.status,
+        projectCount: row.project_count,
+        lockedRevenueCents: Number(row.locked_revenue_cents),
+        pendingRecalcCount: row.pending_recalc_count,
+        closedAt: row.closed_at,
+        closedByEmail: row.closed_by_email,
+        reopenedAt: row.reopened_at,
+        reopenedByEmail: row.reopened_by_email,
+        reopenReason: row.reopen_reason,
+      } : null);
+    } catch (err) {
+      console.error('Error fetching billing month status:', err);
+      setError(extractErrorMessage(err, 'Failed to fetch billing month status'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedMonth]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const closeMonth = useCallback(async (): Promise<boolean> => {
+    setIsOperating(true);
+    setError(null);
+    try {
+      const { error: rpcError } = await supabase.rpc('close_billing_month', {
+        p_month: formatMonthAsISO(selectedMonth),
+      });
+
+      if (rpcError) throw rpcError;
+
+      await fetchStatus();
+      return true;
+    } catch (err) {
+      console.error('Error closing billing month:', err);
+      setError(extractErrorMessage(err, 'Failed to close billing month'));
+      return false;
+    } finally {
+      setIsOperating(false);
+    }
+  }, [selectedMonth, fetchStatus]);
+
+  const reopenMonth = useCallback(async (reason: string): Promise<boolean> => {
+    setIsOperating(true);
+    setError(null);
+    try {
+      const { error: rpcError } = await supabase.rpc('reopen_billing_month', {
+        p_month: formatMonthAsISO(selectedMonth),
+        p_reason: reason,
+      });
+
+      if (rpcError) throw rpcError;
+
+      await fetchStatus();
+      return true;
+    } catch (err) {
+      console.error('Error reopening billing month:', err);
+      setError(extractErrorMessage(err, 'Failed to reopen billing month'));
+      return false;
+    } finally {
+      setIsOperating(false);
+    }
+  }, [selectedMonth, fetchStatus]);
+
+  return {
+    monthStatus,
+    isClosed: monthStatus?.status === 'closed',
+    isLoading,
+    isOperating,
+    error,
+    closeMonth,
+    reopenMonth,
+    refetch: fetchStatus,
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * useBillingValidation - Stored billing data for validating a raw export
+ *
+ * Loads what a month was billed on: v_canonical_project_monthly_summary
+ * (canonical rows only, so grouped projects aren't counted twice), the
+ * month's project rates (rounding mode, config for projects without a
+ * summary row), the project group mapping and the month's synced entries
+ * from timesheet_daily_rollups. Manual imports are left out — they are
+ * never in a Clockify / ClickUp export.
+ *
+ * `validate` runs validateAgainstExpected on a parsed export against it.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { fetchAllRows } from '../lib/fetchAllRows';
+import { MANUAL_WORKSPACE_ID } from '../lib/timeSync/manualImport';
+import {
+  buildSummaryLookup,
+  filterEntriesByMonth,
+  validateAgainstExpected,
+  type NormalizedEntry,
+  type StoredEntry,
+  type SummaryLookupInput,
+  type SummaryValidationRow,
+  type ValidationReport,
+} from '../utils/diagnostics';
+import type { ProjectRatesForMonthResultWithBilling } from '../types';
+
+interface UseBillingValidationParams {
+  /** First day of the month ('YYYY-MM-01'); null until an export is loaded */
+  month: string | null;
+}
+
+interface UseBillingValidationReturn {
+  /** Validate export entries against the month (entries of other months are ignored) */
+  validate: (entries: NormalizedEntry[]) => ValidationReport | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+interface RollupRow {
+  task_id: string;
+  project_id: string | null;
+  work_date: string;
+  total_minutes: number;
+  task_name: string | null;
+  user_name: string | null;
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+/** Last day of a 'YYYY-MM-01' month */
+function monthEnd(month: string): string {
+  const [year, mm] = month.split('-').map(Number);
+  const lastDay = new Date(year, mm, 0).getDate();
+  return `${month.slice(0, 8)}${String(lastDay).padStart(2, '0')}`;
+}
+
+export function useBillingValidation({ month }: UseBillingValidationParams): UseBillingValidationReturn {
+  const [input, setInput] = useState<SummaryLookupInput | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    if (!month) {
+      setInput(null);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const rollupsQuery = supabase
+        .from('timesheet_daily_rollups')
+        .select('task_id, project_id, work_date, total_minutes, task_name, user_name')
+        .gte('work_date', month)
+        .lte('work_date', monthEnd(month))
+        .gt('total_minutes', 0)
+        .neq('clockify_workspace_id', MANUAL_WORKSPACE_ID);
+
+      const [summaryResult, ratesResult, projectsResult, canonicalResult, rollupsResult] = await Promise.all([
+        supabase
+          .from('v_canonical_project_monthly_summary')
+          .select(`
+            project_id, actual_minutes, rounded_hours, carryover_in_hours, billed_hours,
+            base_revenue_cents, billed_revenue_cents, manual_adjustment_hours, manual_adjustment_cents,
+            rate_used, rounding_used, minimum_hours_config, maximum_hours_config,
+            carryover_enabled_config, is_active_used,
+            projects!inner (project_id, project_name)
+          `)
+          .eq('summary_month', month),
+        supabase.rpc('get_all_project_rates_for_month', { p_month: month }),
+        supabase.from('projects').select('id, project_id'),
+        supabase.from('v_project_canonical').select('project_id, canonical_project_id'),
+        fetchAllRows<RollupRow>(rollupsQuery),
+      ]);
+
+      if (summaryResult.error) throw summaryResult.error;
+      if (ratesResult.error) throw ratesResult.error;
+      if (projectsResult.error) throw projectsResult.error;
+      if (canonicalResult.error) throw canonicalResult.error;
+      if (rollupsResult.error) throw rollupsResult.error;
+
+      const storedEntries: StoredEntry[] = (rollupsResult.data || [])
+        .filter((row) => row.project_id)
+        .map((row) => ({
+          entryId: row.task_id,
+          projectId: row.project_id!,
+          taskName: row.task_name || 'No Task',
+          userName: row.user_name || 'Unknown User',
+          minutes: row.total_minutes,
+          date: row.work_date,
+        }));
+
+      setInput({
+        summaries: (summaryResult.data as unknown as SummaryValidationRow[]) || [],
+        rates: (ratesResult.data as ProjectRatesForMonthResultWithBilling[]) || [],
+        projects: projectsResult.data || [],
+        canonical: canonicalResult.data || [],
+        storedEntries,
+      });
+    } catch (err) {
+      console.error('Error fetching billing validation data:', err);
+      setError(extractErrorMessage(err, 'Failed to load billing data for validation'));
+      setInput(null);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [month]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const lookup = useMemo(() => (input ? buildSummaryLookup(input) : null), [input]);
+
+  const validate = useCallback(
+    (entries: NormalizedEntry[]): ValidationReport | null => {
+      if (!lookup || !month) return null;
+      const [year, mm] = month.split('-').map(Number);
+      return validateAgainstExpected(filterEntriesByMonth(entries, year, mm), lookup.expectedResults, lookup.options);
+    },
+    [lookup, month],
+  );
+
+  return { validate, isLoading, error, refetch: fetchData };
+}
@@ -0,0 +1,121 @@
+/**
+ * useBillingVerification - Billing snapshots, finance sign-off and drift
+ *
+ * Reads get_billing_verification_status (migration 154): one row per month
+ * with a verification snapshot, its sign-off and the live drift. Signing off
+ * re-snapshots the month with a note; running verification records the
+ * result on every signed-off month and raises or resolves its
+ * billing_snapshot_drift alert, as the nightly job does. Both are admin-only.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import type { BillingVerificationMonth } from '../types';
+
+interface UseBillingVerificationReturn {
+  /** Snapshotted months, newest first */
+  months: BillingVerificationMonth[];
+  isLoading: boolean;
+  isOperating: boolean;
+  error: string | null;
+  /** Snapshot and sign off a past month ('YYYY-MM-01') */
+  signOffMonth: (month: string, notes: string) => Promise<boolean>;
+  /** Verify every signed-off month now */
+  runVerification: () => Promise<boolean>;
+  refetch: () => void;
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+function toMonth(row: BillingVerificationMonth): BillingVerificationMonth {
+  return {
+    ...row,
+    snapshot_effective_cents: Number(row.snapshot_effective_cents),
+    drift_cents: Number(row.drift_cents),
+  };
+}
+
+export function useBillingVerification(): UseBillingVerificationReturn {
+  const [months, setMonths] = useState<BillingVerificationMonth[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isOperating, setIsOperating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: rpcError } = await supabase.rpc('get_billing_verification_status');
+      if (rpcError) throw rpcError;
+      setMonths(((data as BillingVerificationMonth[]) || []).map(toMonth));
+    } catch (err) {
+      console.error('Error fetching billing verification status:', err);
+      setError(extractErrorMessage(err, 'Failed to fetch billing verification status'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const signOffMonth = useCallback(async (month: string, notes: string): Promise<boolean> => {
+    setIsOperating(true);
+    setError(null);
+    try {
+      const { error: rpcError } = await supabase.rpc('sign_off_billing_month', {
+        p_month: month,
+        p_notes: notes,
+      });
+
+      if (rpcError) throw rpcError;
+
+      await fetchStatus();
+      return true;
+    } catch (err) {
+      console.error('Error signing off billing month:', err);
+      setError(extractErrorMessage(err, 'Failed to sign off billing month'));
+      return false;
+    } finally {
+      setIsOperating(false);
+    }
+  }, [fetchStatus]);
+
+  const runVerification = useCallback(async (): Promise<boolean> => {
+    setIsOperating(true);
+    setError(null);
+    try {
+      const { data, error: rpcError } = await supabase.rpc('run_billing_verification');
+      if (rpcError) throw rpcError;
+      setMonths(((data as BillingVerificationMonth[]) || []).map(toMonth));
+      return true;
+    } catch (err) {
+      console.error('Error running billing verification:', err);
+      setError(extractErrorMessage(err, 'Failed to run billing verification'));
+      return false;
+    } finally {
+      setIsOperating(false);
+    }
+  }, []);
+
+  return {
+    months,
+    isLoading,
+    isOperating,
+    error,
+    signOffMonth,
+    runVerification,
+    refetch: fetchStatus,
+  };
+}
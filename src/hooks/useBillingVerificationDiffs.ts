@@ -0,0 +1,70 @@
+/**
+ * useBillingVerificationDiffs - Field-level drift of one month
+ *
+ * Calls get_billing_verification_diffs (migration 154). Change refreshKey
+ * to refetch, e.g. after a verification run or sign-off.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { BillingVerificationDiff } from '../types';
+
+interface UseBillingVerificationDiffsReturn {
+  diffs: BillingVerificationDiff[];
+  loading: boolean;
+  error: string | null;
+}
+
+/** NUMERIC columns arrive as strings */
+function toNumberOrNull(value: number | string | null): number | null {
+  return value === null ? null : Number(value);
+}
+
+export function useBillingVerificationDiffs(month: string | null, refreshKey?: number): UseBillingVerificationDiffsReturn {
+  const [diffs, setDiffs] = useState<BillingVerificationDiff[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!month) {
+      setDiffs([]);
+      return;
+    }
+
+    let cancelled = false;
+    async function fetchDiffs() {
+      setLoading(true);
+      setError(null);
+      try {
+        const { data, error: rpcError } = await supabase
+          .rpc('get_billing_verification_diffs', { p_month: month });
+
+        if (rpcError) throw new Error(rpcError.message);
+        if (!cancelled) {
+          setDiffs(((data as BillingVerificationDiff[]) || []).map((row) => ({
+            ...row,
+            snapshot_value: toNumberOrNull(row.snapshot_value),
+            current_value: toNumberOrNull(row.current_value),
+            difference: toNumberOrNull(row.difference),
+            diff_cents: toNumberOrNull(row.diff_cents),
+            effective_diff_cents: Number(row.effective_diff_cents),
+          })));
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load billing drift');
+          setDiffs([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchDiffs();
+    return () => { cancelled = true; };
+  }, [month, refreshKey]);
+
+  return { diffs, loading, error };
+}
@@ -0,0 +1,169 @@
+/**
+ * useCapacityPlan - Weekly resource allocations with actuals
+ *
+ * Reads get_capacity_plan() (migration 150) for the weeks in view and writes
+ * resource_allocations directly. RLS lets admins write any allocation and
+ * project managers write allocations on their own projects.
+ *
+ * Plans are reported per canonical project, so allocations are saved against
+ * the canonical project. Saving or removing a week also clears allocations on
+ * the group's member projects, so a cell's value is exactly what was entered.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import type { AllocationFormData, CapacityPlanRow } from '../types';
+
+interface UseCapacityPlanParams {
+  /** First week in view (Monday, 'YYYY-MM-DD') */
+  firstWeek: string;
+  /** Last week in view (Monday, 'YYYY-MM-DD') */
+  lastWeek: string;
+}
+
+interface UseCapacityPlanReturn {
+  rows: CapacityPlanRow[];
+  /** Internal ids of canonical (primary or standalone) projects */
+  canonicalProjectIds: Set<string>;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  /** Set planned hours for a resource on a project in each of the given weeks */
+  saveAllocation: (data: AllocationFormData) => Promise<boolean>;
+  /** Remove a resource's allocations on a project in the given weeks */
+  removeAllocation: (resourceId: string, projectId: string, weekStarts: string[]) => Promise<boolean>;
+  clearError: () => void;
+  refetch: () => void;
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+export function useCapacityPlan({ firstWeek, lastWeek }: UseCapacityPlanParams): UseCapacityPlanReturn {
+  const { user } = useAuth();
+  const [rows, setRows] = useState<CapacityPlanRow[]>([]);
+  const [groupMembers, setGroupMembers] = useState<Map<string, string[]>>(new Map());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refetchTrigger, setRefetchTrigger] = useState(0);
+
+  const fetchPlan = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [planResult, canonicalResult] = await Promise.all([
+        supabase.rpc('get_capacity_plan', { p_start: firstWeek, p_end: lastWeek }),
+        supabase.from('v_project_canonical').select('project_id, canonical_project_id'),
+      ]);
+
+      if (planResult.error) throw planResult.error;
+      if (canonicalResult.error) throw canonicalResult.error;
+
+      // Canonical project -> every project in its group (itself included)
+      const members = new Map<string, string[]>();
+      for (const row of (canonicalResult.data as { project_id: string; canonical_project_id: string }[]) || []) {
+        const list = members.get(row.canonical_project_id) ?? [];
+        list.push(row.project_id);
+        members.set(row.canonical_project_id, list);
+      }
+
+      setRows((planResult.data as CapacityPlanRow[]) || []);
+      setGroupMembers(members);
+    } catch (err) {
+      console.error('Error fetching capacity plan:', err);
+      setError(extractErrorMessage(err, 'Failed to load capacity plan'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [firstWeek, lastWeek]);
+
+  useEffect(() => {
+    fetchPlan();
+  }, [fetchPlan, refetchTrigger]);
+
+  const runMutation = useCallback(async (
+    action: () => Promise<{ error: unknown }>,
+    fallback: string,
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { error: mutationError } = await action();
+      if (mutationError) throw mutationError;
+      await fetchPlan();
+      return true;
+    } catch (err) {
+      console.error(`${fallback}:`, err);
+      setError(extractErrorMessage(err, fallback));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [fetchPlan]);
+
+  const deleteWeeks = useCallback((resourceId: string, projectIds: string[], weekStarts: string[]) =>
+    supabase
+      .from('resource_allocations')
+      .delete()
+      .eq('resource_id', resourceId)
+      .in('project_id', projectIds)
+      .in('week_start', weekStarts),
+  []);
+
+  const saveAllocation = useCallback((data: AllocationFormData) => runMutation(async () => {
+    const others = (groupMembers.get(data.project_id) ?? []).filter((id) => id !== data.project_id);
+    if (others.length > 0) {
+      const { error: deleteError } = await deleteWeeks(data.resource_id, others, data.week_starts);
+      if (deleteError) return { error: deleteError };
+    }
+    return supabase.from('resource_allocations').upsert(
+      data.week_starts.map((weekStart) => ({
+        resource_id: data.resource_id,
+        project_id: data.project_id,
+        week_start: weekStart,
+        planned_hours: data.planned_hours,
+        notes: data.notes,
+        created_by: user?.id ?? null,
+      })),
+      { onConflict: 'resource_id,project_id,week_start' },
+    );
+  }, 'Failed to save allocation'), [runMutation, deleteWeeks, groupMembers, user?.id]);
+
+  const removeAllocation = useCallback((resourceId: string, projectId: string, weekStarts: string[]) =>
+    runMutation(
+      async () => deleteWeeks(resourceId, groupMembers.get(projectId) ?? [projectId], weekStarts),
+      'Failed to remove allocation',
+    ), [runMutation, deleteWeeks, groupMembers]);
+
+  const canonicalProjectIds = useMemo(() => new Set(groupMembers.keys()), [groupMembers]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const refetch = useCallback(() => {
+    setRefetchTrigger((n) => n + 1);
+  }, []);
+
+  return {
+    rows,
+    canonicalProjectIds,
+    isLoading,
+    isSaving,
+    error,
+    saveAllocation,
+    removeAllocation,
+    clearError,
+    refetch,
+  };
+}
@@ -75,6 +75,7 @@ export function useCompanies(): UseCompaniesResult {
           display_name: row.display_name,
           created_at: row.created_at,
           updated_at: row.updated_at,
+          billing_currency: row.billing_currency ?? 'USD',
         };
 
         companyList.push(company);
@@ -135,6 +136,7 @@ export function useCompanies(): UseCompaniesResult {
           ? {
               ...c,
               display_name: data.display_name || null,
+              billing_currency: data.billing_currency,
               updated_at: new Date().toISOString(),
             }
           : c
@@ -146,6 +148,7 @@ export function useCompanies(): UseCompaniesResult {
         .from('companies')
         .update({
           display_name: data.display_name || null,
+          billing_currency: data.billing_currency,
           updated_at: new Date().toISOString(),
         })
         .eq('id', id);
@@ -202,6 +205,7 @@ export function useCompanies(): UseCompaniesResult {
         created_at: data.created_at,
         updated_at: data.updated_at,
         manual_origin: data.manual_origin,
+        billing_currency: data.billing_currency,
       };
 
       setCompanies(prev => [...prev, created]);
@@ -0,0 +1,78 @@
+/**
+ * useCompanyPnl - Profit & loss lines for one year
+ *
+ * Calls get_company_pnl_lines (migration 147) for January through `throughMonth`
+ * of the year and maps Postgres bigint/numeric strings to numbers. Arranging
+ * the statement is left to utils/companyPnl so the page and the exports read
+ * the same structure.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { PnlLineRow } from '../types';
+
+interface UseCompanyPnlReturn {
+  rows: PnlLineRow[];
+  loading: boolean;
+  error: string | null;
+}
+
+interface PnlRpcRow {
+  summary_month: string;
+  section: PnlLineRow['section'];
+  line_id: string;
+  line_label: string | null;
+  amount_cents: number | string | null;
+  pending_count: number | string | null;
+}
+
+/** Coerce a possibly-string numeric (Postgres bigint/numeric) to a number. */
+function num(value: unknown): number {
+  if (value === null || value === undefined) return 0;
+  const n = typeof value === 'number' ? value : Number(value);
+  return Number.isNaN(n) ? 0 : n;
+}
+
+/**
+ * @param year         statement year
+ * @param throughMonth last month to load ('YYYY-MM'), usually the current month
+ */
+export function useCompanyPnl(year: number, throughMonth: string): UseCompanyPnlReturn {
+  const [rows, setRows] = useState<PnlLineRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    (async () => {
+      setLoading(true);
+      setError(null);
+      const { data, error: rpcError } = await supabase.rpc('get_company_pnl_lines', {
+        p_start: `${year}-01-01`,
+        p_end: `${throughMonth}-01`,
+      });
+      if (!active) return;
+      if (rpcError) {
+        setError(rpcError.message);
+        setRows([]);
+      } else {
+        setRows(((data as PnlRpcRow[]) || []).map((row) => ({
+          summary_month: row.summary_month,
+          section: row.section,
+          line_id: row.line_id,
+          line_label: row.line_label ?? row.line_id,
+          amount_cents: num(row.amount_cents),
+          pending_count: num(row.pending_count),
+        })));
+      }
+      setLoading(false);
+    })();
+    return () => {
+      active = false;
+    };
+  }, [year, throughMonth]);
+
+  return { rows, loading, error };
+}
@@ -2,8 +2,8 @@
  * useEOMReports - End of Month Reports data hook
  *
  * Fetches report metadata from eom_reports + v_eom_report_availability,
- * groups into Year > Month > Customer hierarchy, and exposes download,
- * regenerate, generateMonth, and backfillAll actions.
+ * groups into Year > Month > Customer hierarchy, and exposes download
+ * (CSV and invoice PDF), regenerate, generateMonth, and backfillAll actions.
  *
  * @official 2026-03-27
  */
@@ -32,6 +32,11 @@ export interface EOMAvailabilityRow {
   project_count: number | null;
   source_data_hash: string | null;
   has_report: boolean;
+  invoice_number: string | null;
+  invoice_issued_on: string | null;
+  invoice_due_on: string | null;
+  invoice_storage_path: string | null;
+  invoice_file_size_bytes: number | null;
 }
 
 /** Status of a single company-month report */
@@ -51,6 +56,10 @@ export interface EOMCustomerReport {
   totalHours: number | null;
   totalRevenueCents: number | null;
   projectCount: number | null;
+  invoiceNumber: string | null;
+  invoiceIssuedOn: string | null;
+  invoiceDueOn: string | null;
+  invoiceStoragePath: string | null;
 }
 
 /** A month grouping containing customer reports */
@@ -87,6 +96,8 @@ export interface UseEOMReportsResult {
   backfilling: boolean;
   /** Download a report CSV from Supabase Storage */
   downloadReport: (storagePath: string, companyName: string, year: number, month: number) => Promise<void>;
+  /** Download a client invoice PDF from Supabase Storage */
+  downloadInvoice: (invoiceStoragePath: string, companyName: string, year: number, month: number) => Promise<void>;
   /** Regenerate a single company-month report */
   regenerateReport: (year: number, month: number, companyId: string) => Promise<void>;
   /** Generate all reports for a given month */
@@ -126,6 +137,12 @@ function buildFilename(companyName: string, year: number, month: number): string
   return `${safeName}_Revenue_Report_${monthName}_${year}.csv`;
 }
 
+function buildInvoiceFilename(companyName: string, year: number, month: number): string {
+  const safeName = companyName.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+  const monthName = MONTH_NAMES[month - 1];
+  return `${safeName}_Invoice_${monthName}_${year}.pdf`;
+}
+
 // ============================================================================
 // HOOK
 // ============================================================================
@@ -203,6 +220,10 @@ export function useEOMReports(): UseEOMReportsResult {
         totalHours: row.total_hours,
         totalRevenueCents: row.total_revenue_cents,
         projectCount: row.project_count,
+        invoiceNumber: row.invoice_number,
+        invoiceIssuedOn: row.invoice_issued_on,
+        invoiceDueOn: row.invoice_due_on,
+        invoiceStoragePath: row.invoice_storage_path,
       };
 
       monthMap.get(row.report_month)!.push(customer);
@@ -257,10 +278,11 @@ export function useEOMReports(): UseEOMReportsResult {
     return fnError.message || 'Unknown error';
   };
 
-  // ---- Download report ----
-  const downloadReport = useCallback(async (
+  // ---- Download a stored file (CSV report or invoice PDF) ----
+  // Keyed by storage path so the CSV and PDF buttons spin independently.
+  const downloadStoredFile = useCallback(async (
     storagePath: string,
-    companyName: string,
+    filename: string,
     year: number,
     month: number,
   ) => {
@@ -281,7 +303,7 @@ export function useEOMReports(): UseEOMReportsResult {
       const url = URL.createObjectURL(data);
       const link = document.createElement('a');
       link.href = url;
-      link.download = buildFilename(companyName, year, month);
+      link.download = filename;
       document.body.appendChild(link);
       link.click();
       setTimeout(() => {
@@ -300,6 +322,20 @@ export function useEOMReports(): UseEOMReportsResult {
     }
   }, []);
 
+  const downloadReport = useCallback((
+    storagePath: string,
+    companyName: string,
+    year: number,
+    month: number,
+  ) => downloadStoredFile(storagePath, buildFilename(companyName, year, month), year, month), [downloadStoredFile]);
+
+  const downloadInvoice = useCallback((
+    invoiceStoragePath: string,
+    companyName: string,
+    year: number,
+    month: number,
+  ) => downloadStoredFile(invoiceStoragePath, buildInvoiceFilename(companyName, year, month), year, month), [downloadStoredFile]);
+
   // ---- Regenerate single report ----
   const regenerateReport = useCallback(async (
     year: number,
@@ -388,6 +424,7 @@ export function useEOMReports(): UseEOMReportsResult {
     generatingMonths,
     backfilling,
     downloadReport,
+    downloadInvoice,
     regenerateReport,
     generateMonth,
     backfillAll,
@@ -57,6 +57,20 @@ export function useEmployeeTableEntities(): UseEmployeeTableEntitiesResult {
         throw new Error(viewError.message);
       }
 
+      // holiday_calendar_id is not in the view (its r.* was resolved when the
+      // view was created, see migration 052), so read assignments separately
+      const { data: calendarData, error: calendarError } = await supabase
+        .from('resources')
+        .select('id, holiday_calendar_id');
+
+      if (calendarError) {
+        throw new Error(calendarError.message);
+      }
+
+      const calendarByResource = new Map<string, string | null>(
+        (calendarData || []).map(r => [r.id, r.holiday_calendar_id])
+      );
+
       // Parse the view data
       const resourceList: Resource[] = [];
       const groupingMap = new Map<string, {
@@ -81,6 +95,7 @@ export function useEmployeeTableEntities(): UseEmployeeTableEntitiesResult {
           hourly_rate: row.hourly_rate,
           monthly_cost: row.monthly_cost,
           bamboo_employee_id: row.bamboo_employee_id,
+          holiday_calendar_id: calendarByResource.get(row.id) ?? null,
           created_at: row.created_at,
           updated_at: row.updated_at,
           // Include employment type if present
@@ -232,7 +247,8 @@ export function useEmployeeTableEntities(): UseEmployeeTableEntitiesResult {
     const newEmploymentType = employmentTypes?.find(et => et.id === data.employment_type_id);
     const previousResources = [...resources];
 
-    // Optimistic update
+    // Optimistic update. Cost fields are written by set_resource_cost()
+    // (migration 143), not here.
     setResources(prev =>
       prev.map(r =>
         r.id === id
@@ -244,11 +260,8 @@ export function useEmployeeTableEntities(): UseEmployeeTableEntitiesResult {
               teams_account: data.teams_account || null,
               employment_type_id: data.employment_type_id,
               employment_type: newEmploymentType || r.employment_type,
-              billing_mode: data.billing_mode,
-              expected_hours: data.expected_hours,
-              hourly_rate: data.hourly_rate,
-              monthly_cost: data.monthly_cost,
               bamboo_employee_id: data.bamboo_employee_id,
+              holiday_calendar_id: data.holiday_calendar_id,
               updated_at: new Date().toISOString(),
             }
           : r
@@ -264,11 +277,8 @@ export function useEmployeeTableEntities(): UseEmployeeTableEntitiesResult {
           email: data.email || null,
           teams_account: data.teams_account || null,
           employment_type_id: data.employment_type_id,
-          billing_mode: data.billing_mode,
-          expected_hours: data.expected_hours,
-          hourly_rate: data.hourly_rate,
-          monthly_cost: data.monthly_cost,
           bamboo_employee_id: data.bamboo_employee_id,
+          holiday_calendar_id: data.holiday_calendar_id,
           updated_at: new Date().toISOString(),
         })
         .eq('id', id);
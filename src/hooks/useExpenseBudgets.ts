@@ -0,0 +1,154 @@
+/**
+ * useExpenseBudgets - Monthly expense category budgets
+ *
+ * Fetches every row of `expense_category_budgets` (migration 146; NUMERIC
+ * columns coerced to numbers) for the Expenses tree to compare against.
+ * saveBudgets() upserts on (category_id, budget_month) and deletes cleared
+ * targets; copyBudgets() writes copied-forward drafts and, unless told to
+ * overwrite, leaves months that already have a target untouched.
+ * Writes are finance/admin-only via RLS (can_manage_expenses()).
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import type { ExpenseCategoryBudget } from '../components/expenses/expenseTypes';
+import type { ExpenseBudgetDraft } from '../components/expenses/expenseBudgets';
+
+interface UseExpenseBudgetsReturn {
+  budgets: ExpenseCategoryBudget[];
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  /** Upsert drafts and delete the given budget ids in one save. */
+  saveBudgets: (drafts: ExpenseBudgetDraft[], deleteIds: string[]) => Promise<boolean>;
+  /** Insert copied-forward drafts; existing targets are kept unless overwrite. */
+  copyBudgets: (drafts: ExpenseBudgetDraft[], overwrite: boolean) => Promise<boolean>;
+  clearError: () => void;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type RawRow = Record<string, any>;
+
+function toNumberOrNull(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+function normalizeBudget(raw: RawRow): ExpenseCategoryBudget {
+  return {
+    id: raw.id,
+    category_id: Number(raw.category_id),
+    budget_month: raw.budget_month,
+    budget_eur: toNumberOrNull(raw.budget_eur) ?? 0,
+    budget_usd: toNumberOrNull(raw.budget_usd),
+    notes: raw.notes ?? null,
+  };
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+export function useExpenseBudgets(): UseExpenseBudgetsReturn {
+  const { user } = useAuth();
+  const [budgets, setBudgets] = useState<ExpenseCategoryBudget[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refetchTrigger, setRefetchTrigger] = useState(0);
+
+  const fetchBudgets = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('expense_category_budgets')
+        .select('id, category_id, budget_month, budget_eur, budget_usd, notes')
+        .order('budget_month', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setBudgets(((data as RawRow[]) || []).map(normalizeBudget));
+    } catch (err) {
+      console.error('Error fetching expense budgets:', err);
+      setError(extractErrorMessage(err, 'Failed to load expense budgets'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBudgets();
+  }, [fetchBudgets, refetchTrigger]);
+
+  const runMutation = useCallback(async (
+    label: string,
+    mutation: () => Promise<void>,
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await mutation();
+      setRefetchTrigger((n) => n + 1);
+      return true;
+    } catch (err) {
+      console.error(`Failed to ${label}:`, err);
+      setError(extractErrorMessage(err, `Failed to ${label}`));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  const toRows = useCallback(
+    (drafts: ExpenseBudgetDraft[]) => drafts.map((draft) => ({ ...draft, created_by: user?.id ?? null })),
+    [user?.id],
+  );
+
+  const saveBudgets = useCallback((drafts: ExpenseBudgetDraft[], deleteIds: string[]) =>
+    runMutation('save expense budgets', async () => {
+      if (drafts.length > 0) {
+        const { error: upsertError } = await supabase
+          .from('expense_category_budgets')
+          .upsert(toRows(drafts), { onConflict: 'category_id,budget_month' });
+        if (upsertError) throw upsertError;
+      }
+      if (deleteIds.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('expense_category_budgets')
+          .delete()
+          .in('id', deleteIds);
+        if (deleteError) throw deleteError;
+      }
+    }), [runMutation, toRows]);
+
+  const copyBudgets = useCallback((drafts: ExpenseBudgetDraft[], overwrite: boolean) =>
+    runMutation('copy expense budgets', async () => {
+      if (drafts.length === 0) return;
+      const { error: upsertError } = await supabase
+        .from('expense_category_budgets')
+        .upsert(toRows(drafts), { onConflict: 'category_id,budget_month', ignoreDuplicates: !overwrite });
+      if (upsertError) throw upsertError;
+    }), [runMutation, toRows]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    budgets,
+    isLoading,
+    isSaving,
+    error,
+    saveBudgets,
+    copyBudgets,
+    clearError,
+  };
+}
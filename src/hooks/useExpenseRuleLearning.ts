@@ -0,0 +1,168 @@
+/**
+ * useExpenseRuleLearning - Learn categorization rules from review corrections
+ *
+ * Reads the existing vendor / keyword rules so a proposed rule can be
+ * previewed with learnRule.previewRule(). applyRule() upserts the rule as
+ * source = 'learned' (migration 144) on the table's unique key, then writes
+ * the previewed reclassifications to `expenses`. Rows keep the engine's
+ * provenance (vendor_rule / keyword_rule) and a guard on category_source
+ * keeps manual rows untouched even if one was corrected in the meantime.
+ * Writes are finance/admin-only via RLS (can_manage_expenses()).
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import type { KeywordRule, VendorRule } from '../lib/expenses/types';
+import type { RuleDraft, RuleReclassification } from '../lib/expenses/learnRule';
+
+interface UseExpenseRuleLearningReturn {
+  vendorRules: VendorRule[];
+  keywordRules: KeywordRule[];
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  /**
+   * Save the rule learned from expenseId and apply it to the previewed rows.
+   * Returns false (with error set) when the rule could not be saved.
+   */
+  applyRule: (draft: RuleDraft, expenseId: string, reclassifications: RuleReclassification[]) => Promise<boolean>;
+  clearError: () => void;
+}
+
+/** Ids per UPDATE ... WHERE id IN (...) — keeps the request URL short. */
+const UPDATE_CHUNK_SIZE = 100;
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+export function useExpenseRuleLearning(): UseExpenseRuleLearningReturn {
+  const { user } = useAuth();
+  const [vendorRules, setVendorRules] = useState<VendorRule[]>([]);
+  const [keywordRules, setKeywordRules] = useState<KeywordRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [vendorRes, keywordRes] = await Promise.all([
+        supabase.from('expense_vendor_rules').select('match_type, pattern, category_id, priority'),
+        supabase.from('expense_keyword_rules').select('keyword, category_id, priority, force_review'),
+      ]);
+      if (vendorRes.error) throw vendorRes.error;
+      if (keywordRes.error) throw keywordRes.error;
+
+      setVendorRules((vendorRes.data as VendorRule[]) || []);
+      setKeywordRules((keywordRes.data as KeywordRule[]) || []);
+    } catch (err) {
+      console.error('Error fetching expense rules:', err);
+      setError(extractErrorMessage(err, 'Failed to load categorization rules'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const applyRule = useCallback(async (
+    draft: RuleDraft,
+    expenseId: string,
+    reclassifications: RuleReclassification[],
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const provenance = {
+        source: 'learned',
+        learned_from_expense_id: expenseId,
+        created_by: user?.id ?? null,
+      };
+      const { error: ruleError } = draft.kind === 'vendor'
+        ? await supabase.from('expense_vendor_rules').upsert(
+            {
+              match_type: draft.rule.match_type,
+              pattern: draft.rule.pattern.trim(),
+              category_id: draft.rule.category_id,
+              priority: draft.rule.priority,
+              ...provenance,
+            },
+            { onConflict: 'match_type,pattern' },
+          )
+        : await supabase.from('expense_keyword_rules').upsert(
+            {
+              keyword: draft.rule.keyword.trim(),
+              category_id: draft.rule.category_id,
+              priority: draft.rule.priority,
+              force_review: false,
+              ...provenance,
+            },
+            { onConflict: 'keyword' },
+          );
+      if (ruleError) throw ruleError;
+
+      // One UPDATE per distinct outcome (a rule yields at most two: with and
+      // without the untranslated-description review flag).
+      const groups = new Map<string, { outcome: Omit<RuleReclassification, 'id'>; ids: string[] }>();
+      for (const { id, ...outcome } of reclassifications) {
+        const key = `${outcome.categoryId}|${outcome.categorySource}|${outcome.needsReview}`;
+        const group = groups.get(key);
+        if (group) {
+          group.ids.push(id);
+        } else {
+          groups.set(key, { outcome, ids: [id] });
+        }
+      }
+
+      for (const { outcome, ids } of groups.values()) {
+        for (let i = 0; i < ids.length; i += UPDATE_CHUNK_SIZE) {
+          const { error: updateError } = await supabase
+            .from('expenses')
+            .update({
+              category_id: outcome.categoryId,
+              category_source: outcome.categorySource,
+              needs_review: outcome.needsReview,
+            })
+            .in('id', ids.slice(i, i + UPDATE_CHUNK_SIZE))
+            .or('category_source.is.null,category_source.neq.manual');
+          if (updateError) throw updateError;
+        }
+      }
+
+      await fetchRules();
+      return true;
+    } catch (err) {
+      console.error('Failed to apply learned rule:', err);
+      setError(extractErrorMessage(err, 'Failed to apply learned rule'));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [fetchRules, user?.id]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    vendorRules,
+    keywordRules,
+    isLoading,
+    isSaving,
+    error,
+    applyRule,
+    clearError,
+  };
+}
@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { HolidayCalendar } from '../types';
+
+interface UseHolidayCalendarsResult {
+  /** Calendars, default first then by name */
+  calendars: HolidayCalendar[];
+  /** The calendar used for resources without an assignment */
+  defaultCalendar: HolidayCalendar | undefined;
+  loading: boolean;
+  error: string | null;
+}
+
+export function useHolidayCalendars(): UseHolidayCalendarsResult {
+  const [calendars, setCalendars] = useState<HolidayCalendar[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function fetchCalendars() {
+      try {
+        const { data, error: queryError } = await supabase
+          .from('holiday_calendars')
+          .select('*')
+          .order('is_default', { ascending: false })
+          .order('name');
+
+        if (queryError) throw new Error(queryError.message);
+        setCalendars(data || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to fetch holiday calendars');
+      } finally {
+        setLoading(false);
+      }
+    }
+
+    fetchCalendars();
+  }, []);
+
+  return {
+    calendars,
+    defaultCalendar: calendars.find(c => c.is_default),
+    loading,
+    error,
+  };
+}
@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import { buildHolidaySchedule, EMPTY_HOLIDAY_SCHEDULE } from '../utils/holidays';
+import type { HolidaySchedule } from '../utils/holidays';
+
+interface UseHolidayScheduleResult {
+  /** Holiday dates per calendar for the year; resolve with getHolidayDates */
+  schedule: HolidaySchedule;
+  loading: boolean;
+}
+
+/**
+ * Hook to fetch every holiday calendar's holidays for a year, for working-day
+ * math that must follow each resource's own calendar.
+ */
+export function useHolidaySchedule(year: number): UseHolidayScheduleResult {
+  const [schedule, setSchedule] = useState<HolidaySchedule>(EMPTY_HOLIDAY_SCHEDULE);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchSchedule() {
+      setLoading(true);
+      const [calendarResult, holidayResult] = await Promise.all([
+        supabase.from('holiday_calendars').select('id, is_default'),
+        supabase.from('calendar_holidays').select('calendar_id, holiday_date').eq('year', year),
+      ]);
+
+      if (calendarResult.error || holidayResult.error) {
+        console.error('Error fetching holiday schedule:', calendarResult.error || holidayResult.error);
+      }
+      if (!cancelled) {
+        setSchedule(buildHolidaySchedule(calendarResult.data || [], holidayResult.data || []));
+        setLoading(false);
+      }
+    }
+
+    fetchSchedule();
+    return () => { cancelled = true; };
+  }, [year]);
+
+  return { schedule, loading };
+}
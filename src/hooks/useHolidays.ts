@@ -1,9 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../lib/supabase';
-import type { BulgarianHoliday, HolidayFormData } from '../types';
+import type { CalendarHoliday, HolidayFormData } from '../types';
 
 interface UseHolidaysResult {
-  holidays: BulgarianHoliday[];
+  holidays: CalendarHoliday[];
   loading: boolean;
   error: string | null;
   selectedYear: number;
@@ -16,21 +16,28 @@ interface UseHolidaysResult {
   isOperating: boolean;
 }
 
-export function useHolidays(): UseHolidaysResult {
-  const [holidays, setHolidays] = useState<BulgarianHoliday[]>([]);
+/**
+ * Holidays for one calendar and the selected year. Nothing is fetched until
+ * a calendar id is known (the page resolves the default calendar first).
+ */
+export function useHolidays(calendarId: string | null): UseHolidaysResult {
+  const [holidays, setHolidays] = useState<CalendarHoliday[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [isOperating, setIsOperating] = useState(false);
 
   const fetchHolidays = useCallback(async () => {
+    if (!calendarId) return;
+
     setLoading(true);
     setError(null);
 
     try {
       const { data, error: queryError } = await supabase
-        .from('bulgarian_holidays')
+        .from('calendar_holidays')
         .select('*')
+        .eq('calendar_id', calendarId)
         .eq('year', selectedYear)
         .order('holiday_date', { ascending: true });
 
@@ -44,13 +51,15 @@ export function useHolidays(): UseHolidaysResult {
     } finally {
       setLoading(false);
     }
-  }, [selectedYear]);
+  }, [calendarId, selectedYear]);
 
   useEffect(() => {
     fetchHolidays();
   }, [fetchHolidays]);
 
   const addHoliday = useCallback(async (data: HolidayFormData): Promise<boolean> => {
+    if (!calendarId) return false;
+
     setIsOperating(true);
     setError(null);
 
@@ -59,8 +68,9 @@ export function useHolidays(): UseHolidaysResult {
       const year = holidayDate.getFullYear();
 
       const { error: insertError } = await supabase
-        .from('bulgarian_holidays')
+        .from('calendar_holidays')
         .insert({
+          calendar_id: calendarId,
           holiday_name: data.holiday_name,
           holiday_date: data.holiday_date,
           is_system_generated: false,
@@ -79,7 +89,7 @@ export function useHolidays(): UseHolidaysResult {
     } finally {
       setIsOperating(false);
     }
-  }, [fetchHolidays]);
+  }, [calendarId, fetchHolidays]);
 
   const updateHoliday = useCallback(async (id: string, data: HolidayFormData): Promise<boolean> => {
     setIsOperating(true);
@@ -90,7 +100,7 @@ export function useHolidays(): UseHolidaysResult {
       const year = holidayDate.getFullYear();
 
       const { error: updateError } = await supabase
-        .from('bulgarian_holidays')
+        .from('calendar_holidays')
         .update({
           holiday_name: data.holiday_name,
           holiday_date: data.holiday_date,
@@ -120,7 +130,7 @@ export function useHolidays(): UseHolidaysResult {
 
     try {
       const { error: deleteError } = await supabase
-        .from('bulgarian_holidays')
+        .from('calendar_holidays')
         .delete()
         .eq('id', id);
 
@@ -139,12 +149,14 @@ export function useHolidays(): UseHolidaysResult {
   }, [fetchHolidays]);
 
   const syncYear = useCallback(async (year: number): Promise<{ success: boolean; added: number }> => {
+    if (!calendarId) return { success: false, added: 0 };
+
     setIsOperating(true);
     setError(null);
 
     try {
       const { data, error: rpcError } = await supabase
-        .rpc('sync_bulgarian_holidays', { target_year: year });
+        .rpc('sync_holiday_calendar', { p_calendar_id: calendarId, p_year: year });
 
       if (rpcError) {
         throw new Error(rpcError.message);
@@ -158,7 +170,7 @@ export function useHolidays(): UseHolidaysResult {
     } finally {
       setIsOperating(false);
     }
-  }, [fetchHolidays]);
+  }, [calendarId, fetchHolidays]);
 
   return {
     holidays,
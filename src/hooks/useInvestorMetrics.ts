@@ -31,6 +31,11 @@ export interface InvestorMetricsData {
   fixed_lump_revenue_cents: number;
 }
 
+interface UseInvestorMetricsOptions {
+  /** Skip fetching (roles without company-wide access are refused by the RPC) */
+  enabled?: boolean;
+}
+
 interface UseInvestorMetricsReturn {
   /** Metrics data from the RPC (null while loading or on error) */
   data: InvestorMetricsData | null;
@@ -54,12 +59,21 @@ function formatMonthAsISO(month: MonthSelection): string {
 // HOOK
 // ============================================================================
 
-export function useInvestorMetrics(selectedMonth: MonthSelection): UseInvestorMetricsReturn {
+export function useInvestorMetrics(
+  selectedMonth: MonthSelection,
+  { enabled = true }: UseInvestorMetricsOptions = {},
+): UseInvestorMetricsReturn {
   const [data, setData] = useState<InvestorMetricsData | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(enabled);
   const [error, setError] = useState<string | null>(null);
 
   const fetchMetrics = useCallback(async () => {
+    if (!enabled) {
+      setData(null);
+      setLoading(false);
+      return;
+    }
+
     setLoading(true);
     setError(null);
 
@@ -99,7 +113,7 @@ export function useInvestorMetrics(selectedMonth: MonthSelection): UseInvestorMe
     } finally {
       setLoading(false);
     }
-  }, [selectedMonth]);
+  }, [selectedMonth, enabled]);
 
   useEffect(() => {
     fetchMetrics();
@@ -9,6 +9,8 @@
  * shorter field names.
  *
  * Return shape is the agreed FRONTEND/BACKEND CONTRACT and must not change.
+ * Manual billing adjustments (migration 152) were added as extra fields;
+ * billed_hours and the realization/effective rate already include them.
  *
  * @official 2026-06-04
  */
@@ -25,6 +27,10 @@ export interface InvestorRealizationRow {
   carryover_out_hours: number;
   actual_hours: number;
   billed_hours: number;
+  /** Net hours written down (negative) or up by manual adjustments */
+  manual_adjustment_hours: number;
+  /** Net revenue of manual adjustments, in cents */
+  manual_adjustment_cents: number;
 }
 
 export interface UseInvestorRealizationReturn {
@@ -68,6 +74,8 @@ export function useInvestorRealization(): UseInvestorRealizationReturn {
           carryover_out_hours: num(r.total_carryover_out_hours),
           actual_hours: num(r.total_actual_hours),
           billed_hours: num(r.total_billed_hours),
+          manual_adjustment_hours: num(r.total_manual_adjustment_hours),
+          manual_adjustment_cents: num(r.total_manual_adjustment_cents),
         }));
         setRows(mapped);
       }
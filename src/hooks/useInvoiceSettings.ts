@@ -0,0 +1,100 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+
+/** Row shape of invoice_settings (migration 137) */
+export interface InvoiceSettings {
+  issuer_name: string;
+  issuer_address: string | null;
+  issuer_tax_id: string | null;
+  issuer_email: string | null;
+  payment_details: string | null;
+  footer_note: string | null;
+  brand_color: string;
+  invoice_prefix: string;
+  payment_terms_days: number;
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+interface UseInvoiceSettingsReturn {
+  settings: InvoiceSettings | null;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  saveSettings: (next: InvoiceSettings) => Promise<boolean>;
+  clearError: () => void;
+}
+
+/**
+ * Issuer branding and numbering used by generate-eom-report for invoice PDFs.
+ * Single-row table; updates are admin-only (RLS). Changes apply to PDFs
+ * rendered afterwards — existing invoice numbers are never renumbered.
+ */
+export function useInvoiceSettings(): UseInvoiceSettingsReturn {
+  const [settings, setSettings] = useState<InvoiceSettings | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSettings = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: queryError } = await supabase
+        .from('invoice_settings')
+        .select('issuer_name, issuer_address, issuer_tax_id, issuer_email, payment_details, footer_note, brand_color, invoice_prefix, payment_terms_days')
+        .maybeSingle();
+
+      if (queryError) throw queryError;
+      setSettings((data as InvoiceSettings | null) ?? null);
+    } catch (err) {
+      console.error('Error fetching invoice settings:', err);
+      setError(extractErrorMessage(err, 'Failed to load invoice settings'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+  }, [fetchSettings]);
+
+  const saveSettings = useCallback(async (next: InvoiceSettings): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { data, error: updateError } = await supabase
+        .from('invoice_settings')
+        .update(next)
+        .eq('id', true)
+        .select('issuer_name, issuer_address, issuer_tax_id, issuer_email, payment_details, footer_note, brand_color, invoice_prefix, payment_terms_days')
+        .maybeSingle();
+
+      if (updateError) throw updateError;
+      // RLS filters the update to zero rows for non-admins instead of erroring
+      if (!data) throw new Error('You need admin access to change invoice settings.');
+
+      setSettings(data as InvoiceSettings);
+      return true;
+    } catch (err) {
+      console.error('Error saving invoice settings:', err);
+      setError(extractErrorMessage(err, 'Failed to save invoice settings'));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return { settings, isLoading, isSaving, error, saveSettings, clearError };
+}
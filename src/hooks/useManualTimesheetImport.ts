@@ -0,0 +1,131 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import type { ManualPreviewRow, ManualTimesheetRow } from '../lib/timeSync/manualImport';
+
+export interface ManualImportSummary {
+  total: number;
+  new: number;
+  update: number;
+  unchanged: number;
+  overlap: number;
+  error: number;
+}
+
+/** `import-manual-timesheets` response in preview mode. */
+export interface ManualImportPreview {
+  file_name: string | null;
+  summary: ManualImportSummary;
+  rows: ManualPreviewRow[];
+}
+
+/** `import-manual-timesheets` response in commit mode (pipeline summary + counts). */
+export interface ManualImportCommitResult {
+  success: boolean;
+  file_name: string | null;
+  summary: ManualImportSummary;
+  imported: number;
+  sync_run_id?: string;
+  reason?: string;
+  message?: string;
+  upsert?: { rows_upserted: number; error: string | null };
+}
+
+interface UseManualTimesheetImportReturn {
+  preview: ManualImportPreview | null;
+  result: ManualImportCommitResult | null;
+  error: string | null;
+  isOperating: boolean;
+  runPreview: (fileName: string, rows: ManualTimesheetRow[]) => Promise<void>;
+  runCommit: (fileName: string, rows: ManualTimesheetRow[]) => Promise<void>;
+  clearError: () => void;
+  reset: () => void;
+}
+
+/** Best-effort friendly message for an edge-function invocation error. */
+async function describeInvokeError(invokeError: unknown): Promise<string> {
+  const context = (invokeError as { context?: Response }).context;
+  if (context && typeof context.status === 'number') {
+    if (context.status === 403) return 'You need admin access to import timesheets.';
+    if (context.status === 401) return 'Your session has expired. Please sign in again and retry.';
+    try {
+      const body = (await context.json()) as { error?: string; reason?: string };
+      if (body?.error) return body.error;
+      if (body?.reason === 'reconciliation_failed') {
+        return 'Rows were saved but monthly totals failed reconciliation. Billing was not recalculated — check Diagnostics.';
+      }
+    } catch {
+      /* response body already consumed or not JSON — fall through */
+    }
+  }
+  return 'The import could not be completed. Please try again.';
+}
+
+/**
+ * Preview and commit a column-mapped manual timesheet upload through the
+ * `import-manual-timesheets` edge function. Both calls send the same rows;
+ * the function re-resolves them server-side each time.
+ */
+export function useManualTimesheetImport(): UseManualTimesheetImportReturn {
+  const [preview, setPreview] = useState<ManualImportPreview | null>(null);
+  const [result, setResult] = useState<ManualImportCommitResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isOperating, setIsOperating] = useState(false);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const reset = useCallback(() => {
+    setPreview(null);
+    setResult(null);
+    setError(null);
+  }, []);
+
+  const runPreview = useCallback(async (fileName: string, rows: ManualTimesheetRow[]) => {
+    setIsOperating(true);
+    setError(null);
+    setResult(null);
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke<ManualImportPreview>(
+        'import-manual-timesheets',
+        { body: { mode: 'preview', file_name: fileName, rows } },
+      );
+      if (invokeError) {
+        setError(await describeInvokeError(invokeError));
+        return;
+      }
+      setPreview(data ?? null);
+    } catch (err) {
+      console.error('useManualTimesheetImport: preview failed', err);
+      setError('The preview could not be loaded. Please try again.');
+    } finally {
+      setIsOperating(false);
+    }
+  }, []);
+
+  const runCommit = useCallback(async (fileName: string, rows: ManualTimesheetRow[]) => {
+    setIsOperating(true);
+    setError(null);
+    try {
+      const { data, error: invokeError } = await supabase.functions.invoke<ManualImportCommitResult>(
+        'import-manual-timesheets',
+        { body: { mode: 'commit', file_name: fileName, rows } },
+      );
+      if (invokeError) {
+        setError(await describeInvokeError(invokeError));
+        return;
+      }
+      if (!data) {
+        setError('The import completed but returned no summary. Please refresh and verify.');
+        return;
+      }
+      setResult(data);
+      setPreview(null);
+    } catch (err) {
+      console.error('useManualTimesheetImport: commit failed', err);
+      setError('The import could not be completed. Please try again.');
+    } finally {
+      setIsOperating(false);
+    }
+  }, []);
+
+  return { preview, result, error, isOperating, runPreview, runCommit, clearError, reset };
+}
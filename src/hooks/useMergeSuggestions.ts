@@ -0,0 +1,99 @@
+/**
+ * useMergeSuggestions - Ranked "probably the same" candidates for a group editor
+ *
+ * Reads get_entity_merge_signals (migration 156): the entity being edited and
+ * every unassociated entity of the same type, with email and timesheet
+ * overlap signals. Ranking (name similarity incl. Cyrillic transliteration)
+ * happens in rankMergeSuggestions so staged additions can be excluded without
+ * a refetch. Admin-only.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { rankMergeSuggestions, type MergeSuggestion } from '../utils/mergeSuggestions';
+import type { MergeEntityType, MergeSignalRow } from '../types';
+
+interface UseMergeSuggestionsReturn {
+  /** Best first; excludes the ids passed in */
+  suggestions: MergeSuggestion[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => void;
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+function toSignalRow(row: MergeSignalRow): MergeSignalRow {
+  return {
+    ...row,
+    work_days: Number(row.work_days ?? 0),
+    overlap_days: Number(row.overlap_days ?? 0),
+    shared_clients: row.shared_clients === null ? null : Number(row.shared_clients),
+    shared_users: row.shared_users === null ? null : Number(row.shared_users),
+  };
+}
+
+/**
+ * @param entityType - Which grouping the editor manages
+ * @param entityId - The resource / company / project being edited
+ * @param excludeIds - Entities already in (or staged into) the group
+ */
+export function useMergeSuggestions(
+  entityType: MergeEntityType,
+  entityId: string | null,
+  excludeIds: ReadonlySet<string>,
+): UseMergeSuggestionsReturn {
+  const [rows, setRows] = useState<MergeSignalRow[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSignals = useCallback(async () => {
+    if (!entityId) {
+      setRows([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: rpcError } = await supabase.rpc('get_entity_merge_signals', {
+        p_entity_type: entityType,
+        p_entity_id: entityId,
+      });
+      if (rpcError) throw rpcError;
+      setRows(((data as MergeSignalRow[]) || []).map(toSignalRow));
+    } catch (err) {
+      console.error('Error fetching merge signals:', err);
+      setError(extractErrorMessage(err, 'Failed to fetch merge suggestions'));
+      setRows([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entityType, entityId]);
+
+  useEffect(() => {
+    fetchSignals();
+  }, [fetchSignals]);
+
+  const suggestions = useMemo(
+    () => rankMergeSuggestions(rows, entityType, excludeIds),
+    [rows, entityType, excludeIds],
+  );
+
+  return {
+    suggestions,
+    isLoading,
+    error,
+    refetch: fetchSignals,
+  };
+}
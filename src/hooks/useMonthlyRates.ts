@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '../lib/supabase';
 import type {
+  BillingCurrency,
   MonthSelection,
   ProjectRateDisplayWithBilling,
   ProjectRatesForMonthResultWithBilling,
@@ -98,7 +99,7 @@ interface UseMonthlyRatesReturn {
   projectsWithRates: ProjectRateDisplayWithBilling[];
   isLoading: boolean;
   error: string | null;
-  updateRate: (projectId: string, month: MonthSelection, rate: number) => Promise<boolean>;
+  updateRate: (projectId: string, month: MonthSelection, rate: number, currency?: BillingCurrency) => Promise<boolean>;
   updateRounding: (projectId: string, month: MonthSelection, increment: RoundingIncrement, roundingMode?: RoundingMode) => Promise<boolean>;
   updateBillingLimits: (
     projectId: string,
@@ -174,6 +175,10 @@ export function useMonthlyRates({ selectedMonth }: UseMonthlyRatesOptions): UseM
         canonicalClientName: row.canonical_client_name,
         firstSeenMonth: row.first_seen_month,
         effectiveRate: row.effective_rate,
+        nativeRate: row.native_rate ?? row.effective_rate,
+        rateCurrency: row.rate_currency ?? 'USD',
+        billingCurrency: row.billing_currency ?? 'USD',
+        billingFxRate: Number(row.billing_fx_rate ?? 1),
         source: row.source as RateSource,
         sourceMonth: row.source_month,
         existedInSelectedMonth: row.existed_in_month,
@@ -210,7 +215,7 @@ export function useMonthlyRates({ selectedMonth }: UseMonthlyRatesOptions): UseM
 
   // Update rate for a project in a specific month
   const updateRate = useCallback(
-    async (projectId: string, month: MonthSelection, rate: number): Promise<boolean> => {
+    async (projectId: string, month: MonthSelection, rate: number, currency?: BillingCurrency): Promise<boolean> => {
       try {
         const monthStr = formatMonthAsISO(month);
 
@@ -220,6 +225,8 @@ export function useMonthlyRates({ selectedMonth }: UseMonthlyRatesOptions): UseM
             p_project_id: projectId,
             p_month: monthStr,
             p_rate: rate,
+            // null: the company's billing currency (migration 153)
+            p_currency: currency ?? null,
           }
         );
 
@@ -0,0 +1,60 @@
+/**
+ * useOverdueReceivables - Companies with invoices past their due date
+ *
+ * Lightweight read of v_ar_aging for the Dashboard, which shows overdue
+ * clients next to the sync alerts. The full ledger lives in useReceivables.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { ARAgingRow } from '../types';
+
+export type OverdueCompany = Pick<
+  ARAgingRow,
+  'canonical_company_id' | 'company_name' | 'overdue_cents' | 'overdue_invoice_count' | 'max_days_past_due'
+>;
+
+interface UseOverdueReceivablesReturn {
+  /** Overdue companies, longest overdue first */
+  overdueCompanies: OverdueCompany[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useOverdueReceivables(): UseOverdueReceivablesReturn {
+  const [overdueCompanies, setOverdueCompanies] = useState<OverdueCompany[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchOverdue() {
+      try {
+        const { data, error: fetchError } = await supabase
+          .from('v_ar_aging')
+          .select('canonical_company_id, company_name, overdue_cents, overdue_invoice_count, max_days_past_due')
+          .gt('overdue_invoice_count', 0)
+          .order('max_days_past_due', { ascending: false });
+
+        if (fetchError) throw fetchError;
+        if (!cancelled) setOverdueCompanies((data as OverdueCompany[]) || []);
+      } catch (err) {
+        console.error('Error fetching overdue receivables:', err);
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to fetch overdue receivables');
+          setOverdueCompanies([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchOverdue();
+    return () => { cancelled = true; };
+  }, []);
+
+  return { overdueCompanies, loading, error };
+}
@@ -0,0 +1,57 @@
+/**
+ * useProjectBudgetBurn - Monthly burn for one project budget
+ *
+ * Calls get_project_budget_burn (migration 140). Pass updatedAt so the burn
+ * is refetched after the budget is edited.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabase';
+import type { ProjectBudgetBurnMonth } from '../types';
+
+interface UseProjectBudgetBurnReturn {
+  /** Burn per month from start_month to the current month, oldest first */
+  burn: ProjectBudgetBurnMonth[];
+  loading: boolean;
+  error: string | null;
+}
+
+export function useProjectBudgetBurn(budgetId: string | null, updatedAt?: string): UseProjectBudgetBurnReturn {
+  const [burn, setBurn] = useState<ProjectBudgetBurnMonth[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!budgetId) {
+      setBurn([]);
+      return;
+    }
+
+    let cancelled = false;
+    async function fetchBurn() {
+      setLoading(true);
+      setError(null);
+      try {
+        const { data, error: rpcError } = await supabase
+          .rpc('get_project_budget_burn', { p_budget_id: budgetId });
+
+        if (rpcError) throw new Error(rpcError.message);
+        if (!cancelled) setBurn((data as ProjectBudgetBurnMonth[]) || []);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load budget burn');
+          setBurn([]);
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }
+
+    fetchBurn();
+    return () => { cancelled = true; };
+  }, [budgetId, updatedAt]);
+
+  return { burn, loading, error };
+}
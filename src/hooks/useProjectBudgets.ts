@@ -0,0 +1,120 @@
+/**
+ * useProjectBudgets - Project budgets with burn to date
+ *
+ * Reads v_project_budget_status (migration 140) and writes project_budgets
+ * directly (admin-only via RLS). Threshold alerts in sync_alerts are raised
+ * by the database after every change, so callers only refetch.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import type { ProjectBudgetFormData, ProjectBudgetStatus } from '../types';
+
+interface UseProjectBudgetsReturn {
+  /** Budgets, most burned first */
+  budgets: ProjectBudgetStatus[];
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  /** Create a budget, or update it when id is given */
+  saveBudget: (data: ProjectBudgetFormData, id?: string) => Promise<boolean>;
+  deleteBudget: (id: string) => Promise<boolean>;
+  clearError: () => void;
+  refetch: () => void;
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+export function useProjectBudgets(): UseProjectBudgetsReturn {
+  const { user } = useAuth();
+  const [budgets, setBudgets] = useState<ProjectBudgetStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refetchTrigger, setRefetchTrigger] = useState(0);
+
+  const fetchBudgets = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('v_project_budget_status')
+        .select('*')
+        .order('burn_pct', { ascending: false })
+        .order('project_name', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setBudgets((data as ProjectBudgetStatus[]) || []);
+    } catch (err) {
+      console.error('Error fetching project budgets:', err);
+      setError(extractErrorMessage(err, 'Failed to load project budgets'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchBudgets();
+  }, [fetchBudgets, refetchTrigger]);
+
+  const runMutation = useCallback(async (
+    action: () => PromiseLike<{ error: unknown }>,
+    fallback: string,
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { error: mutationError } = await action();
+      if (mutationError) throw mutationError;
+      await fetchBudgets();
+      return true;
+    } catch (err) {
+      console.error(`${fallback}:`, err);
+      setError(extractErrorMessage(err, fallback));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [fetchBudgets]);
+
+  const saveBudget = useCallback((data: ProjectBudgetFormData, id?: string) => runMutation(
+    () => id
+      ? supabase.from('project_budgets').update(data).eq('id', id)
+      : supabase.from('project_budgets').insert({ ...data, created_by: user?.id ?? null }),
+    'Failed to save budget',
+  ), [runMutation, user?.id]);
+
+  const deleteBudget = useCallback((id: string) => runMutation(
+    () => supabase.from('project_budgets').delete().eq('id', id),
+    'Failed to delete budget',
+  ), [runMutation]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const refetch = useCallback(() => {
+    setRefetchTrigger((n) => n + 1);
+  }, []);
+
+  return {
+    budgets,
+    isLoading,
+    isSaving,
+    error,
+    saveBudget,
+    deleteBudget,
+    clearError,
+    refetch,
+  };
+}
@@ -227,3 +227,70 @@ export function useAllProjectManagers(): UseAllProjectManagersResult {
 
   return { managerLookup, loading, error, refetch: fetchAll };
 }
+
+// ============================================================================
+// useManagedProjectsByResource
+// ============================================================================
+
+interface UseManagedProjectsByResourceResult {
+  /** Map from resource UUID to the names of the projects it manages */
+  projectsByResource: Map<string, string[]>;
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * Fetches the projects each resource manages, for the User Management page:
+ * a project manager user linked to a resource is scoped to these projects.
+ */
+export function useManagedProjectsByResource(): UseManagedProjectsByResourceResult {
+  const [projectsByResource, setProjectsByResource] = useState<Map<string, string[]>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAll = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: queryError } = await supabase
+        .from('project_managers')
+        .select(`
+          resource_id,
+          projects!inner (
+            project_name
+          )
+        `);
+
+      if (queryError) {
+        throw new Error(queryError.message);
+      }
+
+      const lookup = new Map<string, string[]>();
+
+      for (const row of (data || [])) {
+        const resourceId = (row as Record<string, unknown>).resource_id as string;
+        const p = (row as Record<string, unknown>).projects as Record<string, unknown>;
+        const existing = lookup.get(resourceId) || [];
+        existing.push((p.project_name as string) || 'Unknown');
+        lookup.set(resourceId, existing);
+      }
+
+      for (const names of lookup.values()) {
+        names.sort((a, b) => a.localeCompare(b));
+      }
+
+      setProjectsByResource(lookup);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch managed projects');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchAll();
+  }, [fetchAll]);
+
+  return { projectsByResource, loading, error };
+}
@@ -14,8 +14,7 @@
  * @official 2026-04-04
  */
 
-import { useState, useEffect, useMemo } from 'react';
-import { eachDayOfInterval, isWeekend, isSameDay } from 'date-fns';
+import { useState, useMemo } from 'react';
 import { useCombinedRevenue } from './useCombinedRevenue';
 import { useMonthlyRates } from './useMonthlyRates';
 import { useEmployeeTableEntities } from './useEmployeeTableEntities';
@@ -23,17 +22,23 @@ import { useTimeOff } from './useTimeOff';
 import { useTimesheetData } from './useTimesheetData';
 import { useInvestorMetrics } from './useInvestorMetrics';
 import { useBilling } from './useBilling';
+import { useHolidaySchedule } from './useHolidaySchedule';
 import { useDateFilter } from '../contexts/DateFilterContext';
 import { aggregateDailyRevenue } from '../utils/chartTransforms';
 import { calculateProjectedAnnualRevenue } from '../utils/projectedRevenue';
-import { supabase } from '../lib/supabase';
-import type { MonthSelection, BulgarianHoliday } from '../types';
+import { countWorkingDays, getHolidayDates } from '../utils/holidays';
+import type { MonthSelection } from '../types';
 import { HISTORICAL_MONTHS } from '../config/chartConfig';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
+interface UseProjectedAnnualRevenueOptions {
+  /** Skip the firm-wide metrics RPC; the projection stays null */
+  enabled?: boolean;
+}
+
 export interface UseProjectedAnnualRevenueReturn {
   /** Projected annual revenue in dollars (null while loading or insufficient data) */
   projectedAnnualRevenue: number | null;
@@ -47,7 +52,9 @@ export interface UseProjectedAnnualRevenueReturn {
 // HOOK
 // ============================================================================
 
-export function useProjectedAnnualRevenue(): UseProjectedAnnualRevenueReturn {
+export function useProjectedAnnualRevenue(
+  { enabled = true }: UseProjectedAnnualRevenueOptions = {},
+): UseProjectedAnnualRevenueReturn {
   const { dateRange } = useDateFilter();
 
   // ---- Current month selection (for hooks that need MonthSelection) ----
@@ -87,7 +94,7 @@ export function useProjectedAnnualRevenue(): UseProjectedAnnualRevenueReturn {
   const { billingResult } = useBilling({ selectedMonth });
 
   // Investor metrics (for completedWorkdays from DB)
-  const { data: investorMetrics, loading: investorMetricsLoading } = useInvestorMetrics(selectedMonth);
+  const { data: investorMetrics, loading: investorMetricsLoading } = useInvestorMetrics(selectedMonth, { enabled });
   const completedWorkdays = investorMetrics?.completed_workdays ?? 0;
 
   // ---- Rest-of-year time off ----
@@ -100,27 +107,10 @@ export function useProjectedAnnualRevenue(): UseProjectedAnnualRevenueReturn {
     approvedOnly: true,
   });
 
-  // ---- Bulgarian holidays ----
-  const [holidays, setHolidays] = useState<BulgarianHoliday[]>([]);
-  const [holidaysLoading, setHolidaysLoading] = useState(true);
-
-  useEffect(() => {
-    let cancelled = false;
-    async function fetchHolidays() {
-      setHolidaysLoading(true);
-      const year = dateRange.start.getFullYear();
-      const { data } = await supabase
-        .from('bulgarian_holidays')
-        .select('*')
-        .eq('year', year);
-      if (!cancelled) {
-        setHolidays(data || []);
-        setHolidaysLoading(false);
-      }
-    }
-    fetchHolidays();
-    return () => { cancelled = true; };
-  }, [dateRange.start]);
+  // ---- Holiday calendars ----
+  const { schedule: holidaySchedule, loading: holidaysLoading } = useHolidaySchedule(
+    dateRange.start.getFullYear()
+  );
 
   // ---- Derived: project rates map (for daily revenue chart) ----
   const projectRatesMap = useMemo(() => {
@@ -194,18 +184,12 @@ export function useProjectedAnnualRevenue(): UseProjectedAnnualRevenueReturn {
 
   // ---- Derived: remaining year workdays ----
   const remainingYearWorkdays = useMemo(() => {
-    const holidayDates = holidays.map(h => new Date(h.holiday_date));
-    const days = eachDayOfInterval({ start: yearStart, end: yearEnd });
-    return days.filter(day => {
-      if (isWeekend(day)) return false;
-      if (holidayDates.some(h => isSameDay(h, day))) return false;
-      return true;
-    }).length;
-  }, [holidays, yearStart, yearEnd]);
+    // Company-level pace: default calendar
+    return countWorkingDays(yearStart, yearEnd, getHolidayDates(holidaySchedule));
+  }, [holidaySchedule, yearStart, yearEnd]);
 
   // ---- Derived: remaining vacation days by employment type ----
   const { ftVacationDays, ptVacationDays } = useMemo(() => {
-    const holidayDates = holidays.map(h => new Date(h.holiday_date));
     let ftDays = 0;
     let ptDays = 0;
 
@@ -214,6 +198,7 @@ export function useProjectedAnnualRevenue(): UseProjectedAnnualRevenueReturn {
       if (empType !== 'Full-time' && empType !== 'Part-time') continue;
 
       const displayName = [employee.first_name, employee.last_name].filter(Boolean).join(' ') || employee.external_label;
+      const holidayDates = getHolidayDates(holidaySchedule, employee.holiday_calendar_id);
 
       for (const to of yearRemainingTimeOff) {
         if (to.employee_name !== displayName && to.resource_id !== employee.id) continue;
@@ -223,20 +208,14 @@ export function useProjectedAnnualRevenue(): UseProjectedAnnualRevenueReturn {
         const overlapStart = ptoStart < yearStart ? yearStart : ptoStart;
         const overlapEnd = ptoEnd > yearEnd ? yearEnd : ptoEnd;
 
-        if (overlapStart <= overlapEnd) {
-          const ptoDays = eachDayOfInterval({ start: overlapStart, end: overlapEnd });
-          for (const day of ptoDays) {
-            if (!isWeekend(day) && !holidayDates.some(h => isSameDay(h, day))) {
-              if (empType === 'Full-time') ftDays++;
-              else ptDays++;
-            }
-          }
-        }
+        const ptoDays = countWorkingDays(overlapStart, overlapEnd, holidayDates);
+        if (empType === 'Full-time') ftDays += ptoDays;
+        else ptDays += ptoDays;
       }
     }
 
     return { ftVacationDays: ftDays, ptVacationDays: ptDays };
-  }, [employees, yearRemainingTimeOff, holidays, yearStart, yearEnd]);
+  }, [employees, yearRemainingTimeOff, holidaySchedule, yearStart, yearEnd]);
 
   // ---- Aggregate loading state ----
   const loading =
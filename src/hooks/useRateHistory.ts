@@ -30,7 +30,7 @@ export function useRateHistory(projectId: string | null): UseRateHistoryReturn {
     try {
       const { data, error: fetchError } = await supabase
         .from('project_monthly_rates')
-        .select('rate_month, rate, created_at, updated_at')
+        .select('rate_month, rate, currency, created_at, updated_at')
         .eq('project_id', projectId)
         .order('rate_month', { ascending: false });
 
@@ -39,6 +39,7 @@ export function useRateHistory(projectId: string | null): UseRateHistoryReturn {
       const mapped: RateHistoryEntry[] = (data || []).map((row) => ({
         rateMonth: row.rate_month,
         rate: row.rate,
+        currency: row.currency,
         createdAt: row.created_at,
         updatedAt: row.updated_at,
       }));
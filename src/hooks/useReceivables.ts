@@ -0,0 +1,240 @@
+/**
+ * useReceivables - Accounts receivable ledger, aging and payments
+ *
+ * Reads the per-company aging report (v_ar_aging) and every receivable
+ * (v_ar_invoice_status) with its payments. Manual payments for non-QBO
+ * invoices go through the record_ar_payment / mark_ar_invoice_paid RPCs;
+ * QuickBooks invoices are refreshed via the qbo-sync-receivables Edge
+ * Function (also run daily by pg_cron).
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import { fetchAllRows } from '../lib/fetchAllRows';
+import type { ARAgingRow, ARInvoice, ARPayment } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ReceivablesSyncSummary {
+  checked: number;
+  updated: number;
+  paymentsUpserted: number;
+  paymentsRemoved: number;
+  errors: Array<{ arInvoiceId: string; invoiceNumber: string | null; error: string }>;
+}
+
+export interface RecordPaymentInput {
+  arInvoiceId: string;
+  amountCents: number;
+  paidOn: string;
+  reference?: string;
+  note?: string;
+}
+
+interface UseReceivablesReturn {
+  /** Open balances per canonical company, largest first */
+  aging: ARAgingRow[];
+  /** All receivables, most recently due first */
+  invoices: ARInvoice[];
+  /** Payments keyed by ar_invoice_id, oldest first */
+  paymentsByInvoice: Map<string, ARPayment[]>;
+  isLoading: boolean;
+  isSaving: boolean;
+  isSyncing: boolean;
+  error: string | null;
+  recordPayment: (input: RecordPaymentInput) => Promise<boolean>;
+  markPaid: (arInvoiceId: string, paidOn: string, reference?: string) => Promise<boolean>;
+  deletePayment: (paymentId: string) => Promise<boolean>;
+  syncFromQbo: () => Promise<ReceivablesSyncSummary | null>;
+  clearError: () => void;
+  refetch: () => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+/** Mirrors the Edge Function error extraction in useQBOInvoices. */
+async function extractFnError(fnError: { message?: string; context?: Response }): Promise<string> {
+  if (fnError.context && typeof fnError.context.json === 'function') {
+    try {
+      const body = await fnError.context.json();
+      return body?.error || body?.message || fnError.message || 'Unknown error';
+    } catch { /* fall through */ }
+  }
+  return fnError.message || 'Unknown error';
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export function useReceivables(): UseReceivablesReturn {
+  const [aging, setAging] = useState<ARAgingRow[]>([]);
+  const [invoices, setInvoices] = useState<ARInvoice[]>([]);
+  const [payments, setPayments] = useState<ARPayment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refetchTrigger, setRefetchTrigger] = useState(0);
+
+  const fetchReceivables = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const [agingResult, invoiceResult, paymentResult] = await Promise.all([
+        supabase
+          .from('v_ar_aging')
+          .select('*')
+          .order('open_cents', { ascending: false }),
+        fetchAllRows<ARInvoice>(
+          supabase
+            .from('v_ar_invoice_status')
+            .select('*')
+            .order('due_on', { ascending: false })
+            .order('id', { ascending: true }),
+        ),
+        fetchAllRows<ARPayment>(
+          supabase
+            .from('ar_payments')
+            .select('*')
+            .order('paid_on', { ascending: true })
+            .order('id', { ascending: true }),
+        ),
+      ]);
+
+      if (agingResult.error) throw agingResult.error;
+      if (invoiceResult.error) throw invoiceResult.error;
+      if (paymentResult.error) throw paymentResult.error;
+
+      setAging((agingResult.data as ARAgingRow[]) || []);
+      setInvoices(invoiceResult.data);
+      setPayments(paymentResult.data);
+    } catch (err) {
+      console.error('Error fetching receivables:', err);
+      setError(extractErrorMessage(err, 'Failed to load receivables'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReceivables();
+  }, [fetchReceivables, refetchTrigger]);
+
+  const paymentsByInvoice = useMemo(() => {
+    const map = new Map<string, ARPayment[]>();
+    for (const payment of payments) {
+      const list = map.get(payment.ar_invoice_id);
+      if (list) list.push(payment);
+      else map.set(payment.ar_invoice_id, [payment]);
+    }
+    return map;
+  }, [payments]);
+
+  const runMutation = useCallback(async (
+    action: () => PromiseLike<{ error: unknown }>,
+    fallback: string,
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { error: rpcError } = await action();
+      if (rpcError) throw rpcError;
+      await fetchReceivables();
+      return true;
+    } catch (err) {
+      console.error(`${fallback}:`, err);
+      setError(extractErrorMessage(err, fallback));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [fetchReceivables]);
+
+  const recordPayment = useCallback((input: RecordPaymentInput) => runMutation(
+    () => supabase.rpc('record_ar_payment', {
+      p_ar_invoice_id: input.arInvoiceId,
+      p_amount_cents: input.amountCents,
+      p_paid_on: input.paidOn,
+      p_reference: input.reference ?? null,
+      p_note: input.note ?? null,
+    }),
+    'Failed to record payment',
+  ), [runMutation]);
+
+  const markPaid = useCallback((arInvoiceId: string, paidOn: string, reference?: string) => runMutation(
+    () => supabase.rpc('mark_ar_invoice_paid', {
+      p_ar_invoice_id: arInvoiceId,
+      p_paid_on: paidOn,
+      p_reference: reference ?? null,
+    }),
+    'Failed to mark invoice paid',
+  ), [runMutation]);
+
+  const deletePayment = useCallback((paymentId: string) => runMutation(
+    () => supabase.rpc('delete_ar_payment', { p_payment_id: paymentId }),
+    'Failed to delete payment',
+  ), [runMutation]);
+
+  const syncFromQbo = useCallback(async (): Promise<ReceivablesSyncSummary | null> => {
+    setIsSyncing(true);
+    setError(null);
+
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('qbo-sync-receivables', {
+        body: {},
+      });
+
+      if (fnError) throw new Error(await extractFnError(fnError));
+      if (data?.error) throw new Error(data.error);
+
+      await fetchReceivables();
+      return data as ReceivablesSyncSummary;
+    } catch (err) {
+      console.error('Error syncing receivables from QuickBooks:', err);
+      setError(extractErrorMessage(err, 'Failed to sync from QuickBooks'));
+      return null;
+    } finally {
+      setIsSyncing(false);
+    }
+  }, [fetchReceivables]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const refetch = useCallback(() => {
+    setRefetchTrigger((n) => n + 1);
+  }, []);
+
+  return {
+    aging,
+    invoices,
+    paymentsByInvoice,
+    isLoading,
+    isSaving,
+    isSyncing,
+    error,
+    recordPayment,
+    markPaid,
+    deletePayment,
+    syncFromQbo,
+    clearError,
+    refetch,
+  };
+}
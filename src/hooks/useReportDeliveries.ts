@@ -0,0 +1,123 @@
+/**
+ * useReportDeliveries - Report email delivery status and send now / resend
+ *
+ * Reads the latest delivery per report from v_report_delivery_latest
+ * (migration 141) and sends a single report through the deliver-reports
+ * edge function. Scheduled deliveries and retries happen server-side.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import type { ReportDeliveryLatest, ReportDeliveryStatus, ReportType } from '../types';
+
+/** Outcome of a send now / resend, as returned by deliver-reports */
+export interface ReportSendResult {
+  status: Extract<ReportDeliveryStatus, 'sent' | 'failed'>;
+  to: string[];
+  cc: string[];
+  error: string | null;
+}
+
+interface UseReportDeliveriesReturn {
+  /** Latest delivery keyed by deliveryKey(reportType, companyId, periodKey) */
+  latestByReport: Map<string, ReportDeliveryLatest>;
+  loading: boolean;
+  error: string | null;
+  /** In-flight sends keyed by report id */
+  sendingReports: Map<string, boolean>;
+  /** Send a report now; throws when the edge function rejects the request */
+  sendReport: (reportType: ReportType, reportId: string) => Promise<ReportSendResult>;
+  refetch: () => void;
+}
+
+/** Key for latestByReport. periodKey is 'YYYY-MM' (EOM) or the week start (weekly). */
+export function deliveryKey(reportType: ReportType, companyId: string, periodKey: string): string {
+  return `${reportType}:${companyId}:${periodKey}`;
+}
+
+export function useReportDeliveries(): UseReportDeliveriesReturn {
+  const [rows, setRows] = useState<ReportDeliveryLatest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [sendingReports, setSendingReports] = useState<Map<string, boolean>>(new Map());
+  const [refetchTrigger, setRefetchTrigger] = useState(0);
+
+  const fetchData = useCallback(async () => {
+    setError(null);
+
+    try {
+      const { data, error: queryError } = await supabase
+        .from('v_report_delivery_latest')
+        .select('*');
+
+      if (queryError) throw queryError;
+      setRows((data as ReportDeliveryLatest[]) || []);
+    } catch (err) {
+      console.error('Error fetching report deliveries:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch report deliveries');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData, refetchTrigger]);
+
+  const latestByReport = useMemo(() => {
+    const map = new Map<string, ReportDeliveryLatest>();
+    for (const row of rows) {
+      map.set(deliveryKey(row.report_type, row.company_id, row.period_key), row);
+    }
+    return map;
+  }, [rows]);
+
+  // supabase.functions.invoke wraps non-2xx as a generic message; the JSON
+  // error body is in fnError.context.
+  const extractFnError = async (fnError: { message?: string; context?: Response }) => {
+    if (fnError.context && typeof fnError.context.json === 'function') {
+      try {
+        const body = await fnError.context.json();
+        return body?.error || body?.message || fnError.message || 'Unknown error';
+      } catch { /* fall through */ }
+    }
+    return fnError.message || 'Unknown error';
+  };
+
+  const sendReport = useCallback(async (reportType: ReportType, reportId: string) => {
+    setSendingReports(prev => new Map(prev).set(reportId, true));
+
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('deliver-reports', {
+        body: { reportType, reportId },
+      });
+
+      if (fnError) throw new Error(await extractFnError(fnError));
+      if (!data?.delivery) throw new Error('No delivery result returned');
+
+      await fetchData();
+      return data.delivery as ReportSendResult;
+    } finally {
+      setSendingReports(prev => {
+        const next = new Map(prev);
+        next.delete(reportId);
+        return next;
+      });
+    }
+  }, [fetchData]);
+
+  const refetch = useCallback(() => {
+    setRefetchTrigger((n) => n + 1);
+  }, []);
+
+  return {
+    latestByReport,
+    loading,
+    error,
+    sendingReports,
+    sendReport,
+    refetch,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * useReportRecipients - Report email recipients per company and report type
+ *
+ * Reads and writes report_recipients (migration 141) directly; writes are
+ * admin-only via RLS. deliver-reports emails the active "to" / "cc"
+ * recipients of a company; a company with active weekly recipients no longer
+ * gets the project-manager weekly email.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { normalizeEmail } from '../lib/reportDelivery/reportDelivery';
+import type { ReportRecipient, ReportRecipientFormData } from '../types';
+
+type RecipientPatch = Partial<Pick<ReportRecipient, 'name' | 'recipient_kind' | 'is_active'>>;
+
+interface UseReportRecipientsReturn {
+  /** All recipients, by email */
+  recipients: ReportRecipient[];
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  addRecipient: (data: ReportRecipientFormData) => Promise<boolean>;
+  updateRecipient: (id: string, patch: RecipientPatch) => Promise<boolean>;
+  deleteRecipient: (id: string) => Promise<boolean>;
+  clearError: () => void;
+  refetch: () => void;
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (typeof err === 'object' && err !== null && (err as { code?: string }).code === '23505') {
+    return 'That address is already a recipient of this report';
+  }
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+export function useReportRecipients(): UseReportRecipientsReturn {
+  const { user } = useAuth();
+  const [recipients, setRecipients] = useState<ReportRecipient[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refetchTrigger, setRefetchTrigger] = useState(0);
+
+  const fetchRecipients = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('report_recipients')
+        .select('*')
+        .order('email', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setRecipients((data as ReportRecipient[]) || []);
+    } catch (err) {
+      console.error('Error fetching report recipients:', err);
+      setError(extractErrorMessage(err, 'Failed to load report recipients'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRecipients();
+  }, [fetchRecipients, refetchTrigger]);
+
+  const runMutation = useCallback(async (
+    action: () => PromiseLike<{ error: unknown }>,
+    fallback: string,
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { error: mutationError } = await action();
+      if (mutationError) throw mutationError;
+      await fetchRecipients();
+      return true;
+    } catch (err) {
+      console.error(`${fallback}:`, err);
+      setError(extractErrorMessage(err, fallback));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [fetchRecipients]);
+
+  const addRecipient = useCallback((data: ReportRecipientFormData) => runMutation(
+    () => supabase.from('report_recipients').insert({
+      ...data,
+      email: normalizeEmail(data.email),
+      created_by: user?.id ?? null,
+    }),
+    'Failed to add recipient',
+  ), [runMutation, user?.id]);
+
+  const updateRecipient = useCallback((id: string, patch: RecipientPatch) => runMutation(
+    () => supabase.from('report_recipients').update(patch).eq('id', id),
+    'Failed to update recipient',
+  ), [runMutation]);
+
+  const deleteRecipient = useCallback((id: string) => runMutation(
+    () => supabase.from('report_recipients').delete().eq('id', id),
+    'Failed to remove recipient',
+  ), [runMutation]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const refetch = useCallback(() => {
+    setRefetchTrigger((n) => n + 1);
+  }, []);
+
+  return {
+    recipients,
+    isLoading,
+    isSaving,
+    error,
+    addRecipient,
+    updateRecipient,
+    deleteRecipient,
+    clearError,
+    refetch,
+  };
+}
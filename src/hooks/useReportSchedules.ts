@@ -0,0 +1,100 @@
+/**
+ * useReportSchedules - Delivery schedule and email templates per report type
+ *
+ * Reads and updates report_schedules (migration 141), one seeded row each for
+ * 'eom' and 'weekly'. Updates are admin-only via RLS; the hourly
+ * deliver-reports run picks up changes on its next pass.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import type { ReportSchedule, ReportScheduleFormData, ReportType } from '../types';
+
+interface UseReportSchedulesReturn {
+  schedules: ReportSchedule[];
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  saveSchedule: (reportType: ReportType, data: ReportScheduleFormData) => Promise<boolean>;
+  clearError: () => void;
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+export function useReportSchedules(): UseReportSchedulesReturn {
+  const { user } = useAuth();
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSchedules = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase
+        .from('report_schedules')
+        .select('*')
+        .order('report_type', { ascending: true });
+
+      if (fetchError) throw fetchError;
+      setSchedules((data as ReportSchedule[]) || []);
+    } catch (err) {
+      console.error('Error fetching report schedules:', err);
+      setError(extractErrorMessage(err, 'Failed to load report schedules'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const saveSchedule = useCallback(async (
+    reportType: ReportType,
+    data: ReportScheduleFormData,
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { error: updateError } = await supabase
+        .from('report_schedules')
+        .update({ ...data, updated_by: user?.id ?? null })
+        .eq('report_type', reportType);
+
+      if (updateError) throw updateError;
+      await fetchSchedules();
+      return true;
+    } catch (err) {
+      console.error('Failed to save report schedule:', err);
+      setError(extractErrorMessage(err, 'Failed to save report schedule'));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [fetchSchedules, user?.id]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  return {
+    schedules,
+    isLoading,
+    isSaving,
+    error,
+    saveSchedule,
+    clearError,
+  };
+}
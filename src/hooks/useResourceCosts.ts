@@ -0,0 +1,150 @@
+/**
+ * useResourceCosts - Effective-dated employee cost records
+ *
+ * Reads resource_monthly_costs (migration 143) for one resource, or for all
+ * resources when no id is given. Writes go through set_resource_cost() /
+ * delete_resource_cost(), which also refresh the resource's current cost
+ * columns — callers holding resources should refetch them after a change.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '../lib/supabase';
+import type { ResourceCostFormData, ResourceMonthlyCost } from '../types';
+
+interface UseResourceCostsReturn {
+  /** Records, newest cost_month first */
+  costs: ResourceMonthlyCost[];
+  /** Records grouped by resource_id, newest cost_month first */
+  costsByResource: Map<string, ResourceMonthlyCost[]>;
+  isLoading: boolean;
+  isSaving: boolean;
+  error: string | null;
+  /** Record a cost in force from month (YYYY-MM-01); replaces that month's record */
+  saveCost: (resourceId: string, month: string, data: ResourceCostFormData) => Promise<boolean>;
+  deleteCost: (id: string) => Promise<boolean>;
+  clearError: () => void;
+  refetch: () => void;
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+export function useResourceCosts(resourceId?: string | null): UseResourceCostsReturn {
+  const [costs, setCosts] = useState<ResourceMonthlyCost[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refetchTrigger, setRefetchTrigger] = useState(0);
+
+  const fetchCosts = useCallback(async () => {
+    // null = no resource selected yet (an editor with nothing open)
+    if (resourceId === null) {
+      setCosts([]);
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      let query = supabase
+        .from('resource_monthly_costs')
+        .select('*')
+        .order('cost_month', { ascending: false });
+      if (resourceId) {
+        query = query.eq('resource_id', resourceId);
+      }
+
+      const { data, error: fetchError } = await query;
+      if (fetchError) throw fetchError;
+      setCosts((data as ResourceMonthlyCost[]) || []);
+    } catch (err) {
+      console.error('Error fetching employee cost history:', err);
+      setError(extractErrorMessage(err, 'Failed to load cost history'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [resourceId]);
+
+  useEffect(() => {
+    fetchCosts();
+  }, [fetchCosts, refetchTrigger]);
+
+  const costsByResource = useMemo(() => {
+    const map = new Map<string, ResourceMonthlyCost[]>();
+    for (const cost of costs) {
+      const list = map.get(cost.resource_id);
+      if (list) {
+        list.push(cost);
+      } else {
+        map.set(cost.resource_id, [cost]);
+      }
+    }
+    return map;
+  }, [costs]);
+
+  const runMutation = useCallback(async (
+    action: () => PromiseLike<{ error: unknown }>,
+    fallback: string,
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { error: mutationError } = await action();
+      if (mutationError) throw mutationError;
+      await fetchCosts();
+      return true;
+    } catch (err) {
+      console.error(`${fallback}:`, err);
+      setError(extractErrorMessage(err, fallback));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [fetchCosts]);
+
+  const saveCost = useCallback((id: string, month: string, data: ResourceCostFormData) => runMutation(
+    () => supabase.rpc('set_resource_cost', {
+      p_resource_id: id,
+      p_month: month,
+      p_billing_mode: data.billing_mode,
+      p_hourly_rate: data.hourly_rate,
+      p_monthly_cost: data.monthly_cost,
+      p_expected_hours: data.expected_hours,
+    }),
+    'Failed to save cost',
+  ), [runMutation]);
+
+  const deleteCost = useCallback((id: string) => runMutation(
+    () => supabase.rpc('delete_resource_cost', { p_id: id }),
+    'Failed to delete cost record',
+  ), [runMutation]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const refetch = useCallback(() => {
+    setRefetchTrigger((n) => n + 1);
+  }, []);
+
+  return {
+    costs,
+    costsByResource,
+    isLoading,
+    isSaving,
+    error,
+    saveCost,
+    deleteCost,
+    clearError,
+    refetch,
+  };
+}
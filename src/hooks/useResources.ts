@@ -53,7 +53,8 @@ export function useResources(): UseResourcesResult {
     // Find the employment type object for the optimistic update
     const newEmploymentType = employmentTypes?.find(et => et.id === data.employment_type_id);
 
-    // Optimistic update - update local state immediately
+    // Optimistic update - update local state immediately. Cost fields are
+    // written by set_resource_cost() (migration 143), not here.
     const previousResources = [...resources];
     setResources(prev =>
       prev.map(r =>
@@ -66,11 +67,8 @@ export function useResources(): UseResourcesResult {
               teams_account: data.teams_account || null,
               employment_type_id: data.employment_type_id,
               employment_type: newEmploymentType || r.employment_type,
-              billing_mode: data.billing_mode,
-              expected_hours: data.expected_hours,
-              hourly_rate: data.hourly_rate,
-              monthly_cost: data.monthly_cost,
               bamboo_employee_id: data.bamboo_employee_id,
+              holiday_calendar_id: data.holiday_calendar_id,
               updated_at: new Date().toISOString(),
             }
           : r
@@ -86,11 +84,8 @@ export function useResources(): UseResourcesResult {
           email: data.email || null,
           teams_account: data.teams_account || null,
           employment_type_id: data.employment_type_id,
-          billing_mode: data.billing_mode,
-          expected_hours: data.expected_hours,
-          hourly_rate: data.hourly_rate,
-          monthly_cost: data.monthly_cost,
           bamboo_employee_id: data.bamboo_employee_id,
+          holiday_calendar_id: data.holiday_calendar_id,
           updated_at: new Date().toISOString(),
         })
         .eq('id', id);
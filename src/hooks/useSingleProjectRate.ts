@@ -101,6 +101,10 @@ export function useSingleProjectRate({
           canonicalClientName: matchingRow.canonical_client_name,
           firstSeenMonth: matchingRow.first_seen_month,
           effectiveRate: matchingRow.effective_rate,
+          nativeRate: matchingRow.native_rate ?? matchingRow.effective_rate,
+          rateCurrency: matchingRow.rate_currency ?? 'USD',
+          billingCurrency: matchingRow.billing_currency ?? 'USD',
+          billingFxRate: Number(matchingRow.billing_fx_rate ?? 1),
           source: matchingRow.source as RateSource,
           sourceMonth: matchingRow.source_month,
           existedInSelectedMonth: matchingRow.existed_in_month,
@@ -43,6 +43,7 @@ interface SummaryRow {
   unbillable_hours: number;
   carryover_out_hours: number;
   minimum_padding_hours: number;
+  manual_adjustment_hours: number;
 
   // Flags
   minimum_applied: boolean;
@@ -53,6 +54,7 @@ interface SummaryRow {
   // Revenue (cents)
   base_revenue_cents: number;
   billed_revenue_cents: number;
+  manual_adjustment_cents: number;
 
   // Config snapshot
   rate_used: number;
@@ -134,6 +136,8 @@ function rowToProjectResult(row: SummaryRow): ProjectBillingResult {
     unbillableHours: Number(row.unbillable_hours),
     carryoverOut: Number(row.carryover_out_hours),
     minimumPadding: Number(row.minimum_padding_hours),
+    manualAdjustmentHours: Number(row.manual_adjustment_hours),
+    manualAdjustmentRevenue: roundCurrency(Number(row.manual_adjustment_cents) / 100),
 
     minimumApplied: row.minimum_applied,
     maximumApplied: row.maximum_applied,
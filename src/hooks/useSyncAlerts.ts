@@ -3,7 +3,8 @@
  *
  * Provides active (unresolved, undismissed) alerts for dashboard display
  * and a dismiss function that records the dismissal with the current user.
- * Covers alerts from all sync sources: BambooHR and Clockify.
+ * Covers alerts from all sync sources (BambooHR and Clockify), project
+ * budget thresholds and drift in signed-off billing months.
  *
  * @official 2026-04-04
  * @category Hook
@@ -19,7 +20,7 @@ import { useAuth } from '../contexts/AuthContext';
 
 export interface SyncAlert {
   id: string;
-  alert_type: 'timeoff_days_mismatch' | 'unmatched_resource' | 'clockify_sync_incomplete' | 'clockify_zero_entries' | 'clockify_high_deletion_count' | 'clockify_hours_mismatch';
+  alert_type: 'timeoff_days_mismatch' | 'unmatched_resource' | 'clockify_sync_incomplete' | 'clockify_zero_entries' | 'clockify_high_deletion_count' | 'clockify_hours_mismatch' | 'project_budget_threshold' | 'billing_snapshot_drift';
   severity: 'warning' | 'error';
   title: string;
   detail: string | null;
@@ -0,0 +1,172 @@
+/**
+ * useTimesheetReview - Monthly hours approval per project
+ *
+ * Reads get_timesheet_review_summary() for the month and, for the selected
+ * project, get_timesheet_review() (migration 151). Reviews are written with
+ * review_timesheet_lines(), which admins and the project's managers may
+ * call; the RPC rebuilds the month's task totals so billing follows at once.
+ * Admins opt projects in with set_project_hours_approval().
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import type {
+  TimesheetLineRef,
+  TimesheetReviewLine,
+  TimesheetReviewStatus,
+  TimesheetReviewSummaryRow,
+} from '../types';
+
+interface UseTimesheetReviewParams {
+  /** First day of the month ('YYYY-MM-01') */
+  month: string;
+  /** Canonical project whose lines are loaded, null for none */
+  projectId: string | null;
+}
+
+interface UseTimesheetReviewReturn {
+  projects: TimesheetReviewSummaryRow[];
+  lines: TimesheetReviewLine[];
+  isLoading: boolean;
+  isLoadingLines: boolean;
+  isSaving: boolean;
+  error: string | null;
+  /** Approve, write down, flag or reset ('pending') lines of the selected project */
+  reviewLines: (
+    status: TimesheetReviewStatus | 'pending',
+    lines: TimesheetLineRef[],
+    reason?: string | null,
+  ) => Promise<boolean>;
+  /** Require approval from a month on (null turns it off). Admin only. */
+  setApprovalStart: (projectId: string, startMonth: string | null) => Promise<boolean>;
+  clearError: () => void;
+  refetch: () => void;
+}
+
+/** Extract message from Error instances or Supabase PostgrestError objects */
+function extractErrorMessage(err: unknown, fallback: string): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === 'object' && err !== null && 'message' in err) {
+    return (err as { message: string }).message;
+  }
+  return fallback;
+}
+
+export function useTimesheetReview({ month, projectId }: UseTimesheetReviewParams): UseTimesheetReviewReturn {
+  const [projects, setProjects] = useState<TimesheetReviewSummaryRow[]>([]);
+  const [lines, setLines] = useState<TimesheetReviewLine[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingLines, setIsLoadingLines] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refetchTrigger, setRefetchTrigger] = useState(0);
+
+  const fetchSummary = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const { data, error: fetchError } = await supabase.rpc('get_timesheet_review_summary', { p_month: month });
+      if (fetchError) throw fetchError;
+      setProjects((data as TimesheetReviewSummaryRow[]) || []);
+    } catch (err) {
+      console.error('Error fetching timesheet review summary:', err);
+      setError(extractErrorMessage(err, 'Failed to load projects'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [month]);
+
+  const fetchLines = useCallback(async () => {
+    if (!projectId) {
+      setLines([]);
+      return;
+    }
+
+    setIsLoadingLines(true);
+    try {
+      const { data, error: fetchError } = await supabase.rpc('get_timesheet_review', {
+        p_project_id: projectId,
+        p_month: month,
+      });
+      if (fetchError) throw fetchError;
+      setLines((data as TimesheetReviewLine[]) || []);
+    } catch (err) {
+      console.error('Error fetching timesheet review lines:', err);
+      setError(extractErrorMessage(err, 'Failed to load hours'));
+    } finally {
+      setIsLoadingLines(false);
+    }
+  }, [projectId, month]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary, refetchTrigger]);
+
+  useEffect(() => {
+    fetchLines();
+  }, [fetchLines, refetchTrigger]);
+
+  const runMutation = useCallback(async (
+    action: () => Promise<{ error: unknown }>,
+    fallback: string,
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const { error: mutationError } = await action();
+      if (mutationError) throw mutationError;
+      await Promise.all([fetchSummary(), fetchLines()]);
+      return true;
+    } catch (err) {
+      console.error(`${fallback}:`, err);
+      setError(extractErrorMessage(err, fallback));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, [fetchSummary, fetchLines]);
+
+  const reviewLines = useCallback((
+    status: TimesheetReviewStatus | 'pending',
+    refs: TimesheetLineRef[],
+    reason?: string | null,
+  ) => {
+    if (!projectId) return Promise.resolve(false);
+    return runMutation(async () => supabase.rpc('review_timesheet_lines', {
+      p_project_id: projectId,
+      p_month: month,
+      p_status: status,
+      p_lines: refs,
+      p_reason: reason ?? null,
+    }), 'Failed to save review');
+  }, [runMutation, projectId, month]);
+
+  const setApprovalStart = useCallback((targetProjectId: string, startMonth: string | null) =>
+    runMutation(async () => supabase.rpc('set_project_hours_approval', {
+      p_project_id: targetProjectId,
+      p_start_month: startMonth,
+    }), 'Failed to update hours approval'), [runMutation]);
+
+  const clearError = useCallback(() => setError(null), []);
+
+  const refetch = useCallback(() => {
+    setRefetchTrigger((n) => n + 1);
+  }, []);
+
+  return {
+    projects,
+    lines,
+    isLoading,
+    isLoadingLines,
+    isSaving,
+    error,
+    reviewLines,
+    setApprovalStart,
+    clearError,
+    refetch,
+  };
+}
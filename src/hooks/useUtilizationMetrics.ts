@@ -1,10 +1,13 @@
 import { useMemo } from 'react';
-import { eachDayOfInterval, isWeekend, isSameDay, min, format } from 'date-fns';
-import type { DateRange, BulgarianHoliday, Resource, EmployeeTimeOff, ProjectRateDisplay, TimesheetEntry } from '../types';
+import { eachDayOfInterval, isWeekend, min, format } from 'date-fns';
+import { countWeekdayHolidays, countWorkingDays, getHolidayDates } from '../utils/holidays';
+import type { HolidaySchedule } from '../utils/holidays';
+import type { DateRange, Resource, EmployeeTimeOff, ProjectRateDisplay, TimesheetEntry } from '../types';
 
 interface UseUtilizationMetricsParams {
   dateRange: DateRange;
-  holidays: BulgarianHoliday[];
+  /** Holidays per calendar; each employee's working days follow their own calendar */
+  holidaySchedule: HolidaySchedule;
   employees: Resource[];
   timeOff: EmployeeTimeOff[];
   entries: TimesheetEntry[];
@@ -20,7 +23,7 @@ export interface UtilizationMetrics {
 
 export function useUtilizationMetrics({
   dateRange,
-  holidays,
+  holidaySchedule,
   employees,
   timeOff,
   entries,
@@ -41,27 +44,8 @@ export function useUtilizationMetrics({
     const effectiveEndDate = min([dateRange.end, effectiveToday]);
     const effectiveEndDateStr = format(effectiveEndDate, 'yyyy-MM-dd');
 
-    // Get all days from start of month to effective end date
-    const daysInPeriod = eachDayOfInterval({
-      start: dateRange.start,
-      end: effectiveEndDate,
-    });
-
-    // Get holiday dates for quick lookup
-    const holidayDates = holidays.map(h => new Date(h.holiday_date));
-
-    // Count holidays that fall on weekdays MTD
-    const holidaysMTD = holidayDates.filter(hDate => {
-      const isInRange = hDate >= dateRange.start && hDate <= effectiveEndDate;
-      return isInRange && !isWeekend(hDate);
-    }).length;
-
-    // Count working days (excludes weekends and holidays)
-    const workingDays = daysInPeriod.filter(day => {
-      if (isWeekend(day)) return false;
-      if (holidayDates.some(h => isSameDay(h, day))) return false;
-      return true;
-    }).length;
+    // Count company (default calendar) holidays that fall on weekdays MTD
+    const holidaysMTD = countWeekdayHolidays(dateRange.start, effectiveEndDate, getHolidayDates(holidaySchedule));
 
     // Filter to billable employees (Full-time and Part-time only)
     const billableEmployees = employees.filter(e => {
@@ -76,24 +60,21 @@ export function useUtilizationMetrics({
       const hoursPerDay = employee.employment_type?.name === 'Full-time' ? 8 : 4;
       const displayName = [employee.first_name, employee.last_name].filter(Boolean).join(' ') || employee.external_label;
 
-      // Calculate PTO days for this employee (only weekdays within the period)
+      // Working days on this employee's own holiday calendar (excludes weekends and holidays)
+      const holidayDates = getHolidayDates(holidaySchedule, employee.holiday_calendar_id);
+      const workingDays = countWorkingDays(dateRange.start, effectiveEndDate, holidayDates);
+
+      // Calculate PTO days for this employee (only working days within the period)
       let ptoDays = 0;
       for (const to of timeOff) {
         if (to.employee_name === displayName || to.resource_id === employee.id) {
-          // Count only weekday PTO days within our period
+          // Count only working-day PTO days within our period
           const ptoStart = new Date(to.start_date);
           const ptoEnd = new Date(to.end_date);
           const overlapStart = ptoStart < dateRange.start ? dateRange.start : ptoStart;
           const overlapEnd = ptoEnd > effectiveEndDate ? effectiveEndDate : ptoEnd;
 
-          if (overlapStart <= overlapEnd) {
-            const ptoDaysInRange = eachDayOfInterval({ start: overlapStart, end: overlapEnd });
-            for (const day of ptoDaysInRange) {
-              if (!isWeekend(day) && !holidayDates.some(h => isSameDay(h, day))) {
-                ptoDays++;
-              }
-            }
-          }
+          ptoDays += countWorkingDays(overlapStart, overlapEnd, holidayDates);
         }
       }
 
@@ -153,5 +134,5 @@ export function useUtilizationMetrics({
       utilizationPercent,
       timeOffDays: totalTimeOffDays,
     };
-  }, [dateRange, holidays, employees, timeOff, entries, projectsWithRates]);
+  }, [dateRange, holidaySchedule, employees, timeOff, entries, projectsWithRates]);
 }
@@ -0,0 +1,209 @@
+/**
+ * useWebhooks - Outbound webhook endpoints and their delivery log
+ *
+ * Endpoints are read and edited through webhook_endpoints (admin RLS,
+ * migration 149); creating one or rotating its secret goes through RPCs that
+ * return the signing secret once. Redeliver and send test post through the
+ * deliver-webhooks edge function. Event fan-out and retries are server-side.
+ *
+ * @category Hook
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import type {
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointFormData,
+  WebhookSendResult,
+} from '../types';
+
+/** Most recent deliveries shown on the page */
+const DELIVERY_LIMIT = 100;
+
+interface UseWebhooksReturn {
+  endpoints: WebhookEndpoint[];
+  deliveries: WebhookDelivery[];
+  loading: boolean;
+  error: string | null;
+  isOperating: boolean;
+  /** In-flight redeliveries / tests keyed by delivery or endpoint id */
+  sendingIds: Map<string, boolean>;
+  /** Returns the new endpoint's signing secret (shown once) */
+  createEndpoint: (form: WebhookEndpointFormData) => Promise<string>;
+  updateEndpoint: (id: string, form: WebhookEndpointFormData) => Promise<void>;
+  deleteEndpoint: (id: string) => Promise<void>;
+  /** Returns the new signing secret (shown once) */
+  rotateSecret: (id: string) => Promise<string>;
+  redeliver: (deliveryId: string) => Promise<WebhookSendResult>;
+  sendTest: (endpointId: string) => Promise<WebhookSendResult>;
+  clearError: () => void;
+  refetch: () => void;
+}
+
+// supabase.functions.invoke wraps non-2xx as a generic message; the JSON
+// error body is in fnError.context.
+async function extractFnError(fnError: { message?: string; context?: Response }): Promise<string> {
+  if (fnError.context && typeof fnError.context.json === 'function') {
+    try {
+      const body = await fnError.context.json();
+      return body?.error || body?.message || fnError.message || 'Unknown error';
+    } catch { /* fall through */ }
+  }
+  return fnError.message || 'Unknown error';
+}
+
+export function useWebhooks(): UseWebhooksReturn {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isOperating, setIsOperating] = useState(false);
+  const [sendingIds, setSendingIds] = useState<Map<string, boolean>>(new Map());
+  const [refetchTrigger, setRefetchTrigger] = useState(0);
+
+  const fetchData = useCallback(async () => {
+    setError(null);
+
+    try {
+      const [endpointsResult, deliveriesResult] = await Promise.all([
+        supabase
+          .from('webhook_endpoints')
+          .select('*')
+          .order('created_at'),
+        supabase
+          .from('webhook_deliveries')
+          .select('id, endpoint_id, event_id, event_type, trigger, status, attempt_count, next_retry_at, response_status, response_body, last_error, duration_ms, delivered_at, created_at, endpoint:webhook_endpoints(name)')
+          .order('created_at', { ascending: false })
+          .limit(DELIVERY_LIMIT),
+      ]);
+
+      if (endpointsResult.error) throw endpointsResult.error;
+      if (deliveriesResult.error) throw deliveriesResult.error;
+      setEndpoints((endpointsResult.data as WebhookEndpoint[]) || []);
+      setDeliveries((deliveriesResult.data as unknown as WebhookDelivery[]) || []);
+    } catch (err) {
+      console.error('Error fetching webhooks:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch webhooks');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData, refetchTrigger]);
+
+  /** Run an endpoint write, surfacing failures through `error` before rethrowing. */
+  const runOperation = useCallback(async <T,>(fallback: string, operation: () => Promise<T>): Promise<T> => {
+    setIsOperating(true);
+    setError(null);
+    try {
+      const result = await operation();
+      await fetchData();
+      return result;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : fallback;
+      setError(message);
+      throw new Error(message);
+    } finally {
+      setIsOperating(false);
+    }
+  }, [fetchData]);
+
+  const createEndpoint = useCallback((form: WebhookEndpointFormData) =>
+    runOperation('Failed to create webhook endpoint', async () => {
+      const { data, error: rpcError } = await supabase.rpc('create_webhook_endpoint', {
+        p_name: form.name,
+        p_url: form.url,
+        p_description: form.description,
+        p_event_types: form.event_types,
+      });
+      if (rpcError) throw new Error(rpcError.message);
+      return data.secret as string;
+    }), [runOperation]);
+
+  const updateEndpoint = useCallback((id: string, form: WebhookEndpointFormData) =>
+    runOperation('Failed to update webhook endpoint', async () => {
+      const { error: updateError } = await supabase
+        .from('webhook_endpoints')
+        .update({
+          name: form.name,
+          url: form.url,
+          description: form.description,
+          event_types: form.event_types,
+          is_active: form.is_active,
+        })
+        .eq('id', id);
+      if (updateError) throw new Error(updateError.message);
+    }), [runOperation]);
+
+  const deleteEndpoint = useCallback((id: string) =>
+    runOperation('Failed to delete webhook endpoint', async () => {
+      const { error: deleteError } = await supabase
+        .from('webhook_endpoints')
+        .delete()
+        .eq('id', id);
+      if (deleteError) throw new Error(deleteError.message);
+    }), [runOperation]);
+
+  const rotateSecret = useCallback((id: string) =>
+    runOperation('Failed to rotate signing secret', async () => {
+      const { data, error: rpcError } = await supabase.rpc('rotate_webhook_endpoint_secret', {
+        p_endpoint_id: id,
+      });
+      if (rpcError) throw new Error(rpcError.message);
+      return data.secret as string;
+    }), [runOperation]);
+
+  const invokeDelivery = useCallback(async (key: string, body: Record<string, string>) => {
+    setSendingIds(prev => new Map(prev).set(key, true));
+
+    try {
+      const { data, error: fnError } = await supabase.functions.invoke('deliver-webhooks', { body });
+
+      if (fnError) throw new Error(await extractFnError(fnError));
+      if (!data?.delivery) throw new Error('No delivery result returned');
+
+      await fetchData();
+      return data.delivery as WebhookSendResult;
+    } finally {
+      setSendingIds(prev => {
+        const next = new Map(prev);
+        next.delete(key);
+        return next;
+      });
+    }
+  }, [fetchData]);
+
+  const redeliver = useCallback((deliveryId: string) =>
+    invokeDelivery(deliveryId, { action: 'redeliver', deliveryId }), [invokeDelivery]);
+
+  const sendTest = useCallback((endpointId: string) =>
+    invokeDelivery(endpointId, { action: 'test', endpointId }), [invokeDelivery]);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  const refetch = useCallback(() => {
+    setRefetchTrigger((n) => n + 1);
+  }, []);
+
+  return {
+    endpoints,
+    deliveries,
+    loading,
+    error,
+    isOperating,
+    sendingIds,
+    createEndpoint,
+    updateEndpoint,
+    deleteEndpoint,
+    rotateSecret,
+    redeliver,
+    sendTest,
+    clearError,
+    refetch,
+  };
+}
@@ -42,6 +42,7 @@ export interface WeeklyAvailabilityRow {
 export interface WeeklyCompanyReport {
   companyId: string;
   companyName: string;
+  reportId: string | null;
   hasReport: boolean;
   generatedAt: string | null;
   storagePath: string | null;
@@ -201,6 +202,7 @@ export function useWeeklyReports(): UseWeeklyReportsResult {
       const company: WeeklyCompanyReport = {
         companyId: row.company_id,
         companyName: row.company_name,
+        reportId: row.report_id,
         hasReport: row.has_report,
         generatedAt: row.generated_at,
         storagePath: row.storage_path,
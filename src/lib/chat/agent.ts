@@ -0,0 +1,146 @@
+// =============================================================================
+// Chat assistant — agent loop
+// =============================================================================
+// One assistant turn: send the conversation to the model with the tool list,
+// run every tool_use block it returns through invokeChatTool, feed the
+// results back, and repeat until the model answers in text. After
+// MAX_TOOL_ITERATIONS rounds one last call with tool_choice 'none' forces a
+// summary.
+//
+// Display blocks from every successful tool call are collected in call order
+// and returned with the text; the chat edge function persists both.
+//
+// Shared BY COPY with supabase/functions/chat/_lib. Keep byte-identical.
+// =============================================================================
+
+import { chatToolSpecs, invokeChatTool } from './tools.ts';
+import type {
+  ChatBlock,
+  ChatDataSource,
+  ChatToolCall,
+  ModelClient,
+  ModelContentBlock,
+  ModelMessage,
+  ModelTextBlock,
+  ModelToolUseBlock,
+} from './types.ts';
+
+export const MAX_TOOL_ITERATIONS = 8;
+
+/** Stored messages replayed to the model per turn (most recent) */
+export const HISTORY_LIMIT = 20;
+
+const TITLE_MAX_LENGTH = 60;
+
+export const SUMMARY_PROMPT = 'Please summarize what you found based on the tool results so far.';
+
+export const EMPTY_ANSWER = 'I was unable to generate a response.';
+
+export function buildSystemPrompt(today: string): string {
+  return `You are the accountant assistant for a consulting business's timesheet and billing system.
+Today is ${today}. Resolve relative periods ("last month", "this quarter", "YTD") against today before calling a tool.
+
+Answer with the tools. They return the same figures as the app's Revenue, Billing, Rates, Employees and Time Off pages:
+- Revenue questions: get_revenue_by_month (company totals, milestone overrides and fixed billings included) or get_project_billing (one month, per project).
+- Rates, rounding, minimum/maximum hours: get_project_rates.
+- Who worked how much: get_employee_hours. Time off: get_time_off.
+Never estimate or recompute revenue from hours and rates; report what the tools return. If a tool returns an error, fix the input or explain what is missing.
+
+Tables and charts from tool results are shown to the user below your answer, so do not repeat them row by row.
+Keep answers short: lead with the number, then one or two sentences of context. Amounts are USD; format as $1,234.56. Months are YYYY-MM-01 in tool inputs.`;
+}
+
+/** Conversation title: the first user message, whitespace collapsed, truncated. */
+export function conversationTitle(message: string): string {
+  const text = message.replace(/\s+/g, ' ').trim();
+  if (text.length <= TITLE_MAX_LENGTH) return text || 'New conversation';
+  return `${text.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…`;
+}
+
+export interface ChatTurnOptions {
+  model: ModelClient;
+  data: ChatDataSource;
+  /** Prior messages (text only, oldest first) ending with the new user message */
+  history: Array<{ role: 'user' | 'assistant'; content: string }>;
+  /** 'YYYY-MM-DD' */
+  today: string;
+  maxIterations?: number;
+}
+
+export interface ChatTurnResult {
+  content: string;
+  blocks: ChatBlock[];
+  toolCalls: ChatToolCall[];
+}
+
+function textOf(content: Array<ModelTextBlock | ModelToolUseBlock>): string {
+  return content
+    .filter((block): block is ModelTextBlock => block.type === 'text')
+    .map((block) => block.text)
+    .join('\n\n')
+    .trim();
+}
+
+export async function runChatTurn({
+  model,
+  data,
+  history,
+  today,
+  maxIterations = MAX_TOOL_ITERATIONS,
+}: ChatTurnOptions): Promise<ChatTurnResult> {
+  const system = buildSystemPrompt(today);
+  const tools = chatToolSpecs();
+  const messages: ModelMessage[] = history.map((m) => ({ role: m.role, content: m.content }));
+  const blocks: ChatBlock[] = [];
+  const toolCalls: ChatToolCall[] = [];
+
+  let response = await model.createMessage({ system, messages, tools });
+  let iterations = 0;
+
+  while (response.stop_reason === 'tool_use' && iterations < maxIterations) {
+    iterations++;
+    const results: ModelContentBlock[] = [];
+
+    for (const block of response.content) {
+      if (block.type !== 'tool_use') continue;
+      const result = await invokeChatTool(block.name, block.input, data);
+      if (result.ok) {
+        blocks.push(...result.blocks);
+        toolCalls.push({ toolName: block.name, input: block.input, ok: true });
+        results.push({ type: 'tool_result', tool_use_id: block.id, content: JSON.stringify(result.data) });
+      } else {
+        toolCalls.push({ toolName: block.name, input: block.input, ok: false, error: result.error.message });
+        results.push({
+          type: 'tool_result',
+          tool_use_id: block.id,
+          content: JSON.stringify({ error: result.error }),
+          is_error: true,
+        });
+      }
+    }
+
+    messages.push({ role: 'assistant', content: response.content }, { role: 'user', content: results });
+    response = await model.createMessage({ system, messages, tools });
+  }
+
+  // Still asking for tools at the limit: every tool_use needs a tool_result,
+  // so answer them with an error, then one call with tool_choice 'none' forces
+  // text. The tools stay listed because the history holds tool_use blocks
+  if (response.stop_reason === 'tool_use') {
+    const refused: ModelContentBlock[] = response.content
+      .filter((block): block is ModelToolUseBlock => block.type === 'tool_use')
+      .map((block) => ({
+        type: 'tool_result',
+        tool_use_id: block.id,
+        content: JSON.stringify({ error: { code: 'tool_limit', message: 'Tool call limit reached' } }),
+        is_error: true,
+      }));
+    messages.push(
+      { role: 'assistant', content: response.content },
+      { role: 'user', content: [...refused, { type: 'text', text: SUMMARY_PROMPT }] },
+    );
+    response = await model.createMessage({ system, messages, tools, tool_choice: { type: 'none' } });
+  }
+
+  return { content: textOf(response.content) || EMPTY_ANSWER, blocks, toolCalls };
+}
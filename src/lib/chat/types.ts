@@ -0,0 +1,193 @@
+// =============================================================================
+// Chat assistant — shared pure types
+// =============================================================================
+// Framework-free. Shared BY COPY with the chat edge function
+// (supabase/functions/chat/_lib). Keep the copies byte-identical. Nothing here
+// imports React, Supabase, or the Anthropic SDK — safe in browser, Deno, and
+// Node.
+//
+// The assistant answers through typed tools (tools.ts) that read the same
+// canonical views and functions as the app. Each tool returns data for the
+// model and display blocks (tables, charts) for the ChatMessage component.
+// The model and the database are both injected — ModelClient and
+// ChatDataSource — so the agent loop (agent.ts) runs against stubs in tests.
+// =============================================================================
+
+// -----------------------------------------------------------------------------
+// Display blocks — persisted in chat_messages.blocks (migration 155)
+// -----------------------------------------------------------------------------
+
+/** How a cell or chart value is formatted. Currency values are in dollars. */
+export type ChatValueFormat = 'text' | 'currency' | 'hours' | 'number' | 'date' | 'month';
+
+export type ChatCell = string | number | boolean | null;
+
+export interface ChatTableColumn {
+  key: string;
+  label: string;
+  format: ChatValueFormat;
+}
+
+export interface ChatTableBlock {
+  type: 'table';
+  title: string;
+  columns: ChatTableColumn[];
+  rows: Array<Record<string, ChatCell>>;
+}
+
+export interface ChatChartPoint {
+  label: string;
+  value: number;
+}
+
+export interface ChatChartBlock {
+  type: 'chart';
+  title: string;
+  /** Format of the values (axis and tooltip) */
+  format: ChatValueFormat;
+  points: ChatChartPoint[];
+}
+
+export type ChatBlock = ChatTableBlock | ChatChartBlock;
+
+/** What the assistant called while answering. Persisted in chat_messages.tool_calls. */
+export interface ChatToolCall {
+  toolName: string;
+  input: Record<string, unknown>;
+  ok: boolean;
+  error?: string;
+}
+
+// -----------------------------------------------------------------------------
+// Model client — the subset of the Anthropic Messages API the loop uses
+// -----------------------------------------------------------------------------
+
+export interface ModelTextBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface ModelToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+}
+
+export interface ModelToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+export type ModelContentBlock = ModelTextBlock | ModelToolUseBlock | ModelToolResultBlock;
+
+export interface ModelMessage {
+  role: 'user' | 'assistant';
+  content: string | ModelContentBlock[];
+}
+
+export interface ModelToolSpec {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+}
+
+export interface ModelRequest {
+  system: string;
+  messages: ModelMessage[];
+  tools?: ModelToolSpec[];
+  /** 'none' on the final call that forces a text answer */
+  tool_choice?: { type: 'auto' | 'none' };
+}
+
+export interface ModelResponse {
+  stop_reason: string | null;
+  content: Array<ModelTextBlock | ModelToolUseBlock>;
+}
+
+export interface ModelClient {
+  createMessage(request: ModelRequest): Promise<ModelResponse>;
+}
+
+// -----------------------------------------------------------------------------
+// Data source — one method per canonical view / function the tools read
+// -----------------------------------------------------------------------------
+
+/** v_combined_revenue_by_company_month */
+export interface RevenueMonthRow {
+  summary_month: string;
+  company_id: string;
+  company_name: string;
+  timesheet_revenue_cents: number;
+  effective_revenue_cents: number;
+  fixed_billing_cents: number;
+  combined_revenue_cents: number;
+  total_billed_hours: number;
+  total_actual_hours: number;
+}
+
+/** v_canonical_project_monthly_summary joined to projects / companies */
+export interface ProjectBillingRow {
+  project_id: string;
+  project_name: string;
+  company_name: string;
+  actual_hours: number;
+  billed_hours: number;
+  rate_used: number;
+  billed_revenue_cents: number;
+  milestone_override_cents: number | null;
+}
+
+/** get_all_project_rates_for_month */
+export interface ProjectRateRow {
+  project_id: string;
+  project_name: string;
+  company_name: string;
+  effective_rate: number;
+  effective_rounding: number;
+  minimum_hours: number | null;
+  maximum_hours: number | null;
+  is_active: boolean;
+  carryover_hours_in: number | null;
+}
+
+/** employee_totals (Layer 2, one row per user / project / day) */
+export interface EmployeeHoursRow {
+  user_name: string;
+  project_name: string;
+  client_name: string;
+  work_date: string;
+  actual_hours: number;
+  rounded_hours: number;
+}
+
+/** employee_time_off, approved requests only */
+export interface TimeOffRow {
+  employee_name: string;
+  time_off_type: string;
+  start_date: string;
+  end_date: string;
+  total_days: number;
+}
+
+/**
+ * Reads run as the calling user (RLS applies). Implementations throw on
+ * query errors; the tool turns them into an error envelope.
+ */
+export interface ChatDataSource {
+  revenueByCompanyMonth(startMonth: string, endMonth: string): Promise<RevenueMonthRow[]>;
+  projectBilling(month: string): Promise<ProjectBillingRow[]>;
+  projectRates(month: string): Promise<ProjectRateRow[]>;
+  employeeHours(startDate: string, endDate: string): Promise<EmployeeHoursRow[]>;
+  timeOff(startDate: string, endDate: string): Promise<TimeOffRow[]>;
+}
+
+// -----------------------------------------------------------------------------
+// Tool results
+// -----------------------------------------------------------------------------
+
+export type ChatToolResult =
+  | { ok: true; data: unknown; blocks: ChatBlock[] }
+  | { ok: false; error: { code: string; message: string } };
@@ -0,0 +1,153 @@
+// =============================================================================
+// learnRule — turn a manual recategorization into a proposed rule.
+// =============================================================================
+// Browser-only (the review queue); NOT copied into the ingest edge function.
+// A correction in the review queue proposes:
+//   - a vendor 'exact' rule on the row's counterparty when it has one, else
+//   - a keyword rule on the longest digit-free run of its original description.
+// The preview re-runs categorize() with and without the draft rule over the
+// rows a rule may still decide: not 'manual' (manual rows are never
+// recategorized) and either flagged for review or sitting in the fallback
+// category. A row is affected when the draft wins AND its stored category,
+// source or review flag would change. needs_review is recomputed exactly as at
+// ingest: the category result OR an untranslated description.
+// =============================================================================
+
+import { categorize } from './categorize.ts';
+import {
+  FALLBACK_CATEGORY_ID,
+  type CategorySource,
+  type KeywordRule,
+  type VendorRule,
+} from './types.ts';
+
+/**
+ * Priority of learned rules. Seeded rules default to 100 and the engine takes
+ * the lowest priority first, so a learned rule wins over them unless adjusted.
+ */
+export const LEARNED_RULE_PRIORITY = 50;
+
+/** Shortest keyword worth proposing; shorter runs match far too broadly. */
+const MIN_KEYWORD_LENGTH = 3;
+
+/** A proposed rule, before it is saved to expense_vendor_rules / expense_keyword_rules. */
+export type RuleDraft =
+  | { kind: 'vendor'; rule: VendorRule }
+  | { kind: 'keyword'; rule: KeywordRule };
+
+/** The expense fields rule learning reads. */
+export interface LearnableExpense {
+  id: string;
+  vendor: string | null;
+  description_original: string | null;
+  translation_source: string | null;
+  category_id: number;
+  category_source: string | null;
+  needs_review: boolean;
+}
+
+/** A row the draft rule would reclassify, with its new engine result. */
+export interface RuleReclassification {
+  id: string;
+  categoryId: number;
+  categorySource: CategorySource;
+  needsReview: boolean;
+}
+
+/**
+ * Longest run of the upper-cased description between digit runs, trimmed, or
+ * null when no run reaches MIN_KEYWORD_LENGTH. Digits are excluded because
+ * invoice numbers and amounts change every month (cf. normalizeDescription).
+ */
+export function proposeKeyword(description: string | null): string | null {
+  let best = '';
+  for (const part of (description ?? '').toUpperCase().split(/\d+/)) {
+    const run = part.replace(/\s+/g, ' ').trim();
+    if (run.length > best.length) best = run;
+  }
+  return best.length >= MIN_KEYWORD_LENGTH ? best : null;
+}
+
+/**
+ * Propose a rule assigning categoryId to rows like this one, or null when the
+ * row has neither a vendor nor a usable description.
+ */
+export function proposeRule(expense: LearnableExpense, categoryId: number): RuleDraft | null {
+  const vendor = (expense.vendor ?? '').trim().toUpperCase();
+  if (vendor) {
+    return {
+      kind: 'vendor',
+      rule: { match_type: 'exact', pattern: vendor, category_id: categoryId, priority: LEARNED_RULE_PRIORITY },
+    };
+  }
+
+  const keyword = proposeKeyword(expense.description_original);
+  if (keyword) {
+    return {
+      kind: 'keyword',
+      rule: { keyword, category_id: categoryId, priority: LEARNED_RULE_PRIORITY },
+    };
+  }
+
+  return null;
+}
+
+/** Whether a draft has a non-empty pattern / keyword (categorize() skips empty ones). */
+export function isRuleDraftValid(draft: RuleDraft): boolean {
+  const text = draft.kind === 'vendor' ? draft.rule.pattern : draft.rule.keyword;
+  return text.trim().length > 0 && Number.isFinite(draft.rule.priority);
+}
+
+function sameVendorKey(a: VendorRule, b: VendorRule): boolean {
+  return a.match_type === b.match_type && a.pattern.trim().toUpperCase() === b.pattern.trim().toUpperCase();
+}
+
+/** Whether a learned rule may still recategorize this row. */
+export function isRuleCandidate(expense: LearnableExpense): boolean {
+  return expense.category_source !== 'manual'
+    && (expense.needs_review || expense.category_id === FALLBACK_CATEGORY_ID);
+}
+
+/**
+ * Rows the draft would reclassify. `vendorRules` / `keywordRules` are the
+ * existing rules; the draft is evaluated alongside them, so a higher-priority
+ * existing rule still wins.
+ */
+export function previewRule(
+  draft: RuleDraft,
+  expenses: readonly LearnableExpense[],
+  vendorRules: readonly VendorRule[],
+  keywordRules: readonly KeywordRule[],
+): RuleReclassification[] {
+  if (!isRuleDraftValid(draft)) return [];
+
+  // Saving upserts on the tables' unique keys, so the draft replaces any
+  // existing rule with the same (match_type, pattern) / keyword.
+  const withVendor = draft.kind === 'vendor'
+    ? [...vendorRules.filter((rule) => !sameVendorKey(rule, draft.rule)), draft.rule]
+    : vendorRules;
+  const withKeyword = draft.kind === 'keyword'
+    ? [...keywordRules.filter((rule) => rule.keyword.trim().toUpperCase() !== draft.rule.keyword.trim().toUpperCase()), draft.rule]
+    : keywordRules;
+
+  const affected: RuleReclassification[] = [];
+  for (const expense of expenses) {
+    if (!isRuleCandidate(expense)) continue;
+
+    const before = categorize(expense.vendor, expense.description_original, vendorRules, keywordRules);
+    const after = categorize(expense.vendor, expense.description_original, withVendor, withKeyword);
+    if (before.categoryId === after.categoryId && before.categorySource === after.categorySource) continue;
+
+    const needsReview = after.needsReview || expense.translation_source === 'none';
+    if (
+      after.categoryId === expense.category_id
+      && after.categorySource === expense.category_source
+      && needsReview === expense.needs_review
+    ) {
+      continue;
+    }
+
+    affected.push({ id: expense.id, categoryId: after.categoryId, categorySource: after.categorySource, needsReview });
+  }
+  return affected;
+}
@@ -0,0 +1,126 @@
+// =============================================================================
+// Invoice currency — client-facing amounts in the company's billing currency
+// =============================================================================
+// Billing is computed in USD (project_monthly_summary, migration 153 keeps it
+// the reporting currency). A company billed in EUR gets its CSV, invoice PDF
+// and QuickBooks invoice in EUR:
+//
+//   - fxRate is USD per one unit of the invoice currency for the month
+//     (get_billing_fx_rate); USD amounts are divided by it.
+//   - hourly lines use the rate as entered when it is already in the invoice
+//     currency and still converts to the USD rate billed, so 10 hrs @ €90/hr
+//     is exactly €900.00 — not the round trip through USD.
+//   - USD invoices pass everything through unchanged.
+//
+// Byte-identical copies live in supabase/functions/qbo-create-invoice/_lib and
+// supabase/functions/generate-eom-report/_lib (Deno cannot import from src/).
+// =============================================================================
+
+export type InvoiceCurrency = 'USD' | 'EUR';
+
+export interface InvoiceCurrencyContext {
+  currency: InvoiceCurrency;
+  /** USD per one unit of currency for the invoiced month (1 for USD) */
+  fxRate: number;
+}
+
+export interface HourlyAmountsInput {
+  billedHours: number;
+  /** Net manual hours adjustment already included in billedHours */
+  adjustmentHours: number;
+  /** Effective rate in USD (rate_used of the summary) */
+  usdRate: number;
+  /** Rate as entered, in rateCurrency */
+  nativeRate: number;
+  rateCurrency: InvoiceCurrency;
+  /** USD revenue, adjustments included */
+  billedRevenueCents: number;
+  /** USD net manual adjustment included in billedRevenueCents */
+  adjustmentCents: number;
+}
+
+export interface HourlyAmounts {
+  rate: number;
+  billedRevenueCents: number;
+  adjustmentCents: number;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Narrow a DB value to a supported currency (anything else bills in USD). */
+export function parseInvoiceCurrency(value: unknown): InvoiceCurrency {
+  return value === 'EUR' ? 'EUR' : 'USD';
+}
+
+/** "$" / "€" */
+export function currencySymbol(currency: InvoiceCurrency): string {
+  return currency === 'EUR' ? '€' : '$';
+}
+
+/** USD cents -> invoice-currency cents. */
+export function toInvoiceCents(usdCents: number, ctx: InvoiceCurrencyContext): number {
+  if (ctx.currency === 'USD') return usdCents;
+  return Math.round(usdCents / ctx.fxRate);
+}
+
+/**
+ * Hourly rate in the invoice currency. The rate as entered is only used while
+ * it still converts to the billed USD rate (a closed month keeps the rate it
+ * was billed at even if the rate is edited later).
+ */
+export function invoiceRate(
+  rate: { usdRate: number; nativeRate: number; rateCurrency: InvoiceCurrency },
+  ctx: InvoiceCurrencyContext,
+): number {
+  if (ctx.currency === 'USD') return rate.usdRate;
+  if (rate.rateCurrency === ctx.currency && round2(rate.nativeRate * ctx.fxRate) === rate.usdRate) {
+    return rate.nativeRate;
+  }
+  return round2(rate.usdRate / ctx.fxRate);
+}
+
+/**
+ * Convert an hourly project's rate, revenue and manual adjustment. Hours are
+ * re-priced at the invoice-currency rate; only the amount part of a manual
+ * adjustment is converted. Revenue stays floored at zero like the USD
+ * calculation, with the adjustment absorbing the difference.
+ */
+export function convertHourlyAmounts(input: HourlyAmountsInput, ctx: InvoiceCurrencyContext): HourlyAmounts {
+  if (ctx.currency === 'USD') {
+    return {
+      rate: input.usdRate,
+      billedRevenueCents: input.billedRevenueCents,
+      adjustmentCents: input.adjustmentCents,
+    };
+  }
+
+  const rate = invoiceRate(input, ctx);
+  const hourlyHours = round2(input.billedHours - input.adjustmentHours);
+  const hourlyCents = input.billedRevenueCents - input.adjustmentCents > 0
+    ? Math.round(hourlyHours * rate * 100)
+    : 0;
+
+  if (input.billedRevenueCents <= 0) {
+    return { rate, billedRevenueCents: 0, adjustmentCents: -hourlyCents };
+  }
+
+  const adjustmentHoursCents = Math.round(input.adjustmentHours * rate * 100);
+  const adjustmentAmountUsdCents = input.adjustmentCents - Math.round(input.adjustmentHours * input.usdRate * 100);
+  const billedRevenueCents = Math.max(
+    hourlyCents + adjustmentHoursCents + toInvoiceCents(adjustmentAmountUsdCents, ctx),
+    0,
+  );
+  return { rate, billedRevenueCents, adjustmentCents: billedRevenueCents - hourlyCents };
+}
+
+/** "$1,234.50" / "€1,234.50" */
+export function formatInvoiceCurrency(cents: number, currency: InvoiceCurrency): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(cents / 100);
+}
@@ -0,0 +1,186 @@
+// =============================================================================
+// Client invoice model — line items for the EOM invoice PDF
+// =============================================================================
+// Builds the same lines qbo-create-invoice sends to QuickBooks, from the same
+// inputs generate-eom-report already computes for the CSV:
+//
+//   - one line per project with effective revenue > 0. A linked revenue
+//     milestone replaces billed revenue ("(Fixed Bid)", qty 1); otherwise
+//     qty = billed hours and unit price = rate.
+//   - the task breakdown under each project line (buildTaskBreakdownText,
+//     highest minutes first, budget-truncated with a reconciling footer).
+//   - a manual billing adjustment (migration 152) on an hourly project is
+//     split out: the hourly line shows the hours before the adjustment and
+//     an "Adjustment" line (qty 1) carries the write-down or write-up.
+//   - one line per non-milestone fixed billing with a positive total.
+//
+// Line descriptions match the QBO wording so the PDF and the QuickBooks
+// invoice for a company-month read the same. Amounts are in the input's
+// currency (already converted with invoiceCurrency.ts, migration 153).
+//
+// Invoice numbers and issue/due dates are allocated in SQL
+// (allocate_eom_invoice_number, migration 137) so they stay stable across
+// regeneration; this module only formats.
+//
+// Byte-identical copy in supabase/functions/generate-eom-report/_lib.
+// =============================================================================
+
+import { buildTaskBreakdownText } from './taskBreakdown.ts';
+import { currencySymbol, formatInvoiceCurrency, type InvoiceCurrency } from './invoiceCurrency.ts';
+
+/** Character budget for one project's task breakdown on the PDF. */
+export const INVOICE_TASK_BREAKDOWN_BUDGET = 1200;
+
+export interface InvoiceProjectInput {
+  projectName: string;
+  /** External project_id — the key of milestoneByExternalProjectId */
+  externalId: string;
+  billedHours: number;
+  rate: number;
+  billedRevenueCents: number;
+  /** [task name, mode-resolved rounded minutes] in any order */
+  tasks: Array<[string, number]>;
+  /** Net manual adjustment already included in billedHours (may be negative) */
+  adjustmentHours?: number;
+  /** Net manual adjustment already included in billedRevenueCents (may be negative) */
+  adjustmentCents?: number;
+  /** Reasons of the month's adjustments, shown on the adjustment line */
+  adjustmentReason?: string;
+}
+
+export interface InvoiceBillingInput {
+  name: string;
+  /** Display label for the transaction type, e.g. "Service Fee" */
+  typeLabel: string;
+  totalCents: number;
+}
+
+export interface InvoiceModelInput {
+  /** e.g. "March 2026" */
+  monthLabel: string;
+  projects: InvoiceProjectInput[];
+  /** Non-milestone company billings (linked milestones already removed) */
+  billings: InvoiceBillingInput[];
+  /** External project_id -> milestone amount in cents */
+  milestoneByExternalProjectId: Map<string, number>;
+  /** Currency of every amount above (default USD) */
+  currency?: InvoiceCurrency;
+}
+
+export type InvoiceLineKind = 'hourly' | 'adjustment' | 'fixed_bid' | 'fixed_billing';
+
+export interface InvoiceLine {
+  kind: InvoiceLineKind;
+  description: string;
+  /** Task breakdown lines shown under the description (may be empty) */
+  details: string[];
+  quantity: number;
+  unitPrice: number;
+  amountCents: number;
+}
+
+function roundCurrency(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Build invoice lines in display order: projects alphabetically (same order
+ * as the EOM CSV), then fixed billings in the order given.
+ */
+export function buildInvoiceLines(input: InvoiceModelInput): InvoiceLine[] {
+  const lines: InvoiceLine[] = [];
+  const symbol = currencySymbol(input.currency ?? 'USD');
+
+  const projects = [...input.projects].sort((a, b) => a.projectName.localeCompare(b.projectName));
+
+  for (const project of projects) {
+    const milestoneCents = input.milestoneByExternalProjectId.get(project.externalId);
+    const amountCents = milestoneCents ?? project.billedRevenueCents;
+    if (amountCents <= 0) continue;
+
+    const sortedTasks = [...project.tasks]
+      .filter(([, minutes]) => minutes > 0)
+      .sort((a, b) => b[1] - a[1]);
+    const details = buildTaskBreakdownText(sortedTasks, INVOICE_TASK_BREAKDOWN_BUDGET)
+      .split('\n')
+      .filter((line) => line.length > 0);
+
+    if (milestoneCents !== undefined) {
+      lines.push({
+        kind: 'fixed_bid',
+        description: `${project.projectName} - ${input.monthLabel} (Fixed Bid)`,
+        details,
+        quantity: 1,
+        unitPrice: roundCurrency(amountCents / 100),
+        amountCents,
+      });
+    } else {
+      const adjustmentCents = project.adjustmentCents ?? 0;
+      const hourlyCents = amountCents - adjustmentCents;
+      const hours = Math.round((project.billedHours - (project.adjustmentHours ?? 0)) * 100) / 100;
+      if (hourlyCents > 0) {
+        lines.push({
+          kind: 'hourly',
+          description: `${project.projectName} - ${input.monthLabel} - ${hours} hrs @ ${symbol}${project.rate}/hr`,
+          details,
+          quantity: hours,
+          unitPrice: project.rate,
+          amountCents: hourlyCents,
+        });
+      }
+      if (adjustmentCents !== 0) {
+        const reason = project.adjustmentReason ? ` (${project.adjustmentReason})` : '';
+        lines.push({
+          kind: 'adjustment',
+          description: `${project.projectName} - ${input.monthLabel} - Adjustment${reason}`,
+          details: hourlyCents > 0 ? [] : details,
+          quantity: 1,
+          unitPrice: roundCurrency(adjustmentCents / 100),
+          amountCents: adjustmentCents,
+        });
+      }
+    }
+  }
+
+  for (const billing of input.billings) {
+    if (billing.totalCents <= 0) continue;
+    lines.push({
+      kind: 'fixed_billing',
+      description: `${billing.name} - ${input.monthLabel} (${billing.typeLabel})`,
+      details: [],
+      quantity: 1,
+      unitPrice: roundCurrency(billing.totalCents / 100),
+      amountCents: billing.totalCents,
+    });
+  }
+
+  return lines;
+}
+
+/** Invoice total — the sum of its lines, exactly as QuickBooks would total them. */
+export function invoiceTotalCents(lines: InvoiceLine[]): number {
+  return lines.reduce((sum, line) => sum + line.amountCents, 0);
+}
+
+/** "$1,234.50" / "€1,234.50" */
+export function formatInvoiceAmount(cents: number, currency: InvoiceCurrency = 'USD'): string {
+  return formatInvoiceCurrency(cents, currency);
+}
+
+/** Quantity column: whole numbers as-is, hours to at most 2 decimals. */
+export function formatInvoiceQuantity(quantity: number): string {
+  return Number.isInteger(quantity)
+    ? quantity.toLocaleString('en-US')
+    : quantity.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/** "2026-04-01" -> "Apr 1, 2026" (date-only, no timezone shift) */
+export function formatInvoiceDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+    timeZone: 'UTC',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
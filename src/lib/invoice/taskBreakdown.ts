@@ -0,0 +1,62 @@
+// =============================================================================
+// Invoice task breakdown — shared by QBO invoices and EOM invoice PDFs
+// =============================================================================
+// Byte-identical copies live in supabase/functions/qbo-create-invoice/_lib and
+// supabase/functions/generate-eom-report/_lib (Deno cannot import from src/).
+// =============================================================================
+
+/**
+ * Build the task-breakdown string for a QBO line Description under a character
+ * budget. QBO enforces a hard 4,000-char limit on Line.Description; an unbounded
+ * one-line-per-task concatenation can overflow it (e.g. Neocurrency at 4,968).
+ *
+ * Emits `\n{name}: {hrs} hrs` lines in the supplied (already-sorted, highest
+ * minutes first) order, using the same rounding as the rest of the function
+ * (`Math.round((mins/60)*100)/100`). Stops before exceeding `charBudget`; if any
+ * tasks are omitted, appends `\n…(+{N} more tasks, {X.X} hrs)` so the disclosed
+ * hours plus omitted hours still reconcile to the line Qty.
+ *
+ * Pure: does NOT compute the rounding-integrity sum — that is summed over the
+ * FULL task set independently of this (possibly truncated) display string.
+ */
+export function buildTaskBreakdownText(
+  sortedTasks: [string, number][],
+  charBudget: number,
+): string {
+  let text = '';
+  let omittedCount = 0;
+  let omittedMinutes = 0;
+
+  for (let i = 0; i < sortedTasks.length; i++) {
+    const [name, mins] = sortedTasks[i];
+    const hrs = Math.round((mins / 60) * 100) / 100;
+    const line = `\n${name}: ${hrs} hrs`;
+
+    if (omittedCount > 0) {
+      // Once we've started omitting, omit the rest (preserve sorted priority).
+      omittedCount += 1;
+      omittedMinutes += mins;
+      continue;
+    }
+
+    const remaining = sortedTasks.length - 1 - i;
+    // Reserve room for a potential overflow footer if more tasks remain.
+    const footerReserve = remaining > 0
+      ? `\n…(+${remaining} more tasks, ${(omittedMinutes / 60).toFixed(1)} hrs)`.length
+      : 0;
+
+    if (text.length + line.length + footerReserve <= charBudget) {
+      text += line;
+    } else {
+      omittedCount += 1;
+      omittedMinutes += mins;
+    }
+  }
+
+  if (omittedCount > 0) {
+    const omittedHrs = Math.round((omittedMinutes / 60) * 10) / 10;
+    text += `\n…(+${omittedCount} more tasks, ${omittedHrs.toFixed(1)} hrs)`;
+  }
+
+  return text;
+}
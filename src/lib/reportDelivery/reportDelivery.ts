@@ -0,0 +1,292 @@
+// =============================================================================
+// Report delivery — schedules, templates, recipients and retry policy
+// =============================================================================
+// Pure helpers shared by the deliver-reports / report-delivery-events edge
+// functions and the Reports page (migration 141):
+//
+//   - scheduledPeriod: whether a report_schedules row is due at `now`, and
+//     which period (prior month for EOM, prior Mon–Sun week for weekly) it
+//     delivers. Once the send time of the current cycle has passed the
+//     schedule stays due until the next cycle; the deliver-reports run skips
+//     companies that already have a scheduled delivery for the period.
+//   - buildTemplateVars / renderTemplate: {{placeholder}} substitution for
+//     subject/body templates.
+//   - splitRecipients: active report_recipients into de-duplicated to/cc
+//     lists (an address on both lists is only sent as "to").
+//   - nextRetryAt: exponential backoff for failed deliveries.
+//   - parseSendGridEvents: bounce/drop events from the SendGrid Event Webhook.
+//
+// All dates are UTC — pg_cron and the edge functions run in UTC.
+//
+// Byte-identical copy in supabase/functions/deliver-reports/_lib and
+// supabase/functions/report-delivery-events/_lib.
+// =============================================================================
+
+export type ReportType = 'eom' | 'weekly';
+
+export type RecipientKind = 'to' | 'cc';
+
+export interface ReportScheduleTiming {
+  report_type: ReportType;
+  is_enabled: boolean;
+  /** Weekly: 0 = Sunday … 6 = Saturday */
+  day_of_week: number;
+  /** EOM: day of the month after the reported month (1–28) */
+  day_of_month: number;
+  send_hour_utc: number;
+}
+
+export interface RecipientInput {
+  email: string;
+  recipient_kind: RecipientKind;
+  is_active: boolean;
+}
+
+/** The reporting period a scheduled delivery covers. */
+export interface DeliveryPeriod {
+  /** 'YYYY-MM' for EOM, week start 'YYYY-MM-DD' for weekly */
+  periodKey: string;
+  /** First day of the period, 'YYYY-MM-DD' */
+  periodStart: string;
+  /** Last day of the period, 'YYYY-MM-DD' */
+  periodEnd: string;
+}
+
+export interface DeliveryEvent {
+  /** report_deliveries.id from the custom_args we send, when present */
+  deliveryId: string | null;
+  /** X-Message-Id portion of sg_message_id */
+  providerMessageId: string | null;
+  reason: string;
+  occurredAt: string;
+}
+
+/** Placeholders available in subject and body templates. */
+export const TEMPLATE_PLACEHOLDERS = [
+  'company',
+  'report_name',
+  'period',
+  'period_start',
+  'period_end',
+  'total_hours',
+  'total_revenue',
+  'invoice_number',
+] as const;
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+/** Attempts (first send included) before a failed delivery stops retrying. */
+export const MAX_DELIVERY_ATTEMPTS = 4;
+
+const RETRY_BASE_MINUTES = 15;
+const RETRY_MAX_MINUTES = 6 * 60;
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/** SendGrid events that mean the message did not reach the recipient. */
+const BOUNCE_EVENTS = new Set(['bounce', 'dropped', 'blocked']);
+
+// =============================================================================
+// Dates
+// =============================================================================
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function utcDate(year: number, monthIndex: number, day: number, hour = 0): Date {
+  return new Date(Date.UTC(year, monthIndex, day, hour));
+}
+
+/**
+ * Period a schedule delivers at `now`, or null when the schedule is disabled
+ * or this cycle's send time has not been reached yet.
+ */
+export function scheduledPeriod(schedule: ReportScheduleTiming, now: Date): DeliveryPeriod | null {
+  if (!schedule.is_enabled) return null;
+
+  const year = now.getUTCFullYear();
+  const month = now.getUTCMonth();
+
+  if (schedule.report_type === 'eom') {
+    const sendAt = utcDate(year, month, schedule.day_of_month, schedule.send_hour_utc);
+    if (now < sendAt) return null;
+    const start = utcDate(year, month - 1, 1);
+    const end = utcDate(year, month, 0);
+    return {
+      periodKey: isoDate(start).slice(0, 7),
+      periodStart: isoDate(start),
+      periodEnd: isoDate(end),
+    };
+  }
+
+  // Weekly cycles run Monday..Sunday; the report covers the prior week.
+  const daysSinceMonday = (now.getUTCDay() + 6) % 7;
+  const monday = utcDate(year, month, now.getUTCDate() - daysSinceMonday);
+  const sendOffset = (schedule.day_of_week + 6) % 7;
+  const sendAt = utcDate(
+    monday.getUTCFullYear(),
+    monday.getUTCMonth(),
+    monday.getUTCDate() + sendOffset,
+    schedule.send_hour_utc,
+  );
+  if (now < sendAt) return null;
+  const start = utcDate(monday.getUTCFullYear(), monday.getUTCMonth(), monday.getUTCDate() - 7);
+  const end = utcDate(monday.getUTCFullYear(), monday.getUTCMonth(), monday.getUTCDate() - 1);
+  return {
+    periodKey: isoDate(start),
+    periodStart: isoDate(start),
+    periodEnd: isoDate(end),
+  };
+}
+
+// =============================================================================
+// Templates
+// =============================================================================
+
+export interface TemplateReportInput {
+  reportType: ReportType;
+  companyName: string;
+  periodStart: string;
+  periodEnd: string;
+  totalHours: number;
+  totalRevenueCents: number;
+  invoiceNumber: string | null;
+}
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/** "March 2026" for EOM, "Mar 23, 2026" (week start) for weekly. */
+export function formatPeriodLabel(reportType: ReportType, periodStart: string): string {
+  const [year, month, day] = periodStart.split('-').map(Number);
+  const monthName = MONTH_NAMES[month - 1];
+  return reportType === 'eom'
+    ? `${monthName} ${year}`
+    : `${monthName.slice(0, 3)} ${day}, ${year}`;
+}
+
+/** Template values for a report. */
+export function buildTemplateVars(report: TemplateReportInput): Record<TemplatePlaceholder, string> {
+  return {
+    company: report.companyName,
+    report_name: report.reportType === 'eom' ? 'End of Month Report' : 'Weekly Revenue Report',
+    period: formatPeriodLabel(report.reportType, report.periodStart),
+    period_start: report.periodStart,
+    period_end: report.periodEnd,
+    total_hours: report.totalHours.toFixed(2),
+    total_revenue: new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+      .format(report.totalRevenueCents / 100),
+    invoice_number: report.invoiceNumber ?? '',
+  };
+}
+
+/**
+ * Replace {{placeholder}} tokens (whitespace inside the braces allowed).
+ * Unknown placeholders are left as written so template typos stay visible.
+ */
+export function renderTemplate(
+  template: string,
+  vars: Partial<Record<TemplatePlaceholder, string>>,
+): string {
+  return template.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (match, key: string) => {
+    const value = vars[key as TemplatePlaceholder];
+    return value === undefined ? match : value;
+  });
+}
+
+/** Placeholders used in a template that renderTemplate does not know. */
+export function unknownPlaceholders(template: string): string[] {
+  const known = new Set<string>(TEMPLATE_PLACEHOLDERS);
+  const unknown = new Set<string>();
+  for (const match of template.matchAll(/\{\{\s*([a-z_]+)\s*\}\}/g)) {
+    if (!known.has(match[1])) unknown.add(match[1]);
+  }
+  return [...unknown];
+}
+
+// =============================================================================
+// Recipients
+// =============================================================================
+
+export function isValidEmail(email: string): boolean {
+  return EMAIL_RE.test(email.trim());
+}
+
+/** Normalise an address for comparison and storage. */
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+/**
+ * Active, valid recipients as de-duplicated to/cc lists, in input order.
+ * An address listed as both "to" and "cc" is only sent as "to".
+ */
+export function splitRecipients(recipients: RecipientInput[]): { to: string[]; cc: string[] } {
+  const active = recipients.filter((r) => r.is_active && isValidEmail(r.email));
+  const to: string[] = [];
+  for (const r of active) {
+    const email = normalizeEmail(r.email);
+    if (r.recipient_kind === 'to' && !to.includes(email)) to.push(email);
+  }
+  const cc: string[] = [];
+  for (const r of active) {
+    const email = normalizeEmail(r.email);
+    if (r.recipient_kind === 'cc' && !to.includes(email) && !cc.includes(email)) cc.push(email);
+  }
+  return { to, cc };
+}
+
+// =============================================================================
+// Retry policy
+// =============================================================================
+
+/**
+ * When to retry a delivery after its `attempts`-th failed attempt:
+ * 15 min, 30 min, 1 h, … capped at 6 h. Null once the attempt limit is hit.
+ */
+export function nextRetryAt(
+  attempts: number,
+  failedAt: Date,
+  maxAttempts = MAX_DELIVERY_ATTEMPTS,
+): Date | null {
+  if (attempts >= maxAttempts) return null;
+  const minutes = Math.min(RETRY_BASE_MINUTES * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MINUTES);
+  return new Date(failedAt.getTime() + minutes * 60_000);
+}
+
+// =============================================================================
+// SendGrid Event Webhook
+// =============================================================================
+
+/**
+ * Bounce-type events from a SendGrid Event Webhook payload. Other events
+ * (processed, delivered, open, …) are ignored.
+ */
+export function parseSendGridEvents(payload: unknown): DeliveryEvent[] {
+  if (!Array.isArray(payload)) return [];
+  const events: DeliveryEvent[] = [];
+  for (const raw of payload) {
+    if (!raw || typeof raw !== 'object') continue;
+    const event = raw as Record<string, unknown>;
+    if (typeof event.event !== 'string' || !BOUNCE_EVENTS.has(event.event)) continue;
+
+    const deliveryId = typeof event.delivery_id === 'string' ? event.delivery_id : null;
+    // sg_message_id is "<X-Message-Id>.<filter suffix>"
+    const providerMessageId = typeof event.sg_message_id === 'string'
+      ? event.sg_message_id.split('.')[0] || null
+      : null;
+    if (!deliveryId && !providerMessageId) continue;
+
+    const reason = [event.reason, event.response, event.event]
+      .find((v): v is string => typeof v === 'string' && v.length > 0)!;
+    const occurredAt = typeof event.timestamp === 'number'
+      ? new Date(event.timestamp * 1000).toISOString()
+      : new Date().toISOString();
+
+    events.push({ deliveryId, providerMessageId, reason, occurredAt });
+  }
+  return events;
+}
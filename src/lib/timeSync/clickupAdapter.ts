@@ -0,0 +1,345 @@
+// =============================================================================
+// ClickUp time-source adapter
+// =============================================================================
+// Fetch:
+//   1. GET /team -> member ids of our team
+//   2. For each member: GET /team/{id}/time_entries?start_date&end_date&assignee
+//      (individual member failures are logged and skipped; the fetch is only
+//      incomplete when EVERY member fetch fails)
+//   3. Space/folder name lookups for entries whose task_location lacks names
+//
+// Normalize (one row per time entry):
+//   - task_id       = ClickUp time entry id
+//   - work_date     = UTC date of `start` (Unix ms, string)
+//   - total_minutes = Math.ceil(floor(duration ms / 1000) / 60)
+//   - Space = company (client_id/client_name), Folder = project
+// =============================================================================
+
+import { toUtcWorkDate } from './syncRange.ts';
+import type {
+  FetchLike,
+  SourceClient,
+  SourceFetchError,
+  SourceFetchResult,
+  SourceNormalizeResult,
+  SourceProject,
+  SourceRollupRow,
+  SourceUser,
+  SyncRange,
+  TimeSourceAdapter,
+} from './types.ts';
+
+export const CLICKUP_API_BASE_URL = 'https://api.clickup.com/api/v2';
+
+export interface ClickUpAdapterOptions {
+  apiToken: string;
+  teamId: string;
+  apiBaseUrl?: string;
+  fetchImpl?: FetchLike;
+}
+
+type ClickUpEntry = Record<string, unknown>;
+
+/** Duration in whole seconds (ClickUp returns milliseconds as a string). */
+function entrySeconds(entry: ClickUpEntry): number {
+  const durationMs = parseInt((entry?.duration as string) || '0', 10);
+  return Math.floor(durationMs / 1000);
+}
+
+function entryUser(entry: ClickUpEntry): { id: string | null; name: string } {
+  const user = entry?.user as Record<string, unknown> | null;
+  return {
+    id: user?.id != null ? String(user.id) : null,
+    name: (user?.username as string) || 'Unknown',
+  };
+}
+
+export function createClickUpAdapter(options: ClickUpAdapterOptions): TimeSourceAdapter<ClickUpEntry> {
+  const {
+    apiToken,
+    teamId,
+    apiBaseUrl = CLICKUP_API_BASE_URL,
+    fetchImpl = (input, init) => fetch(input, init),
+  } = options;
+
+  const headers = { 'Authorization': apiToken };
+
+  // Populated by fetchEntries(), read by normalize()
+  const spaceLookup: Record<string, string> = {};
+  const folderLookup: Record<string, string> = {};
+
+  async function getJson(path: string): Promise<Record<string, unknown>> {
+    const response = await fetchImpl(`${apiBaseUrl}${path}`, { method: 'GET', headers });
+    if (!response.ok) {
+      throw new Error(`ClickUp ${path} API returned ${response.status}: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  async function getTeamMembers(): Promise<Array<Record<string, unknown>>> {
+    const teamData = await getJson('/team');
+    const teams = (teamData.teams as Array<Record<string, unknown>>) || [];
+    const team = teams.find((t) => t.id === teamId);
+    return ((team?.members as Array<Record<string, unknown>>) || [])
+      .map((m) => m.user as Record<string, unknown>)
+      .filter((u) => u?.id != null);
+  }
+
+  async function buildLookups(entries: ClickUpEntry[]): Promise<void> {
+    const spaceIdsNeedingLookup = new Set<string>();
+    const spaceIdsWithFolders = new Set<string>();
+
+    for (const entry of entries) {
+      const taskLocation = entry.task_location as Record<string, unknown> | undefined;
+      if (!taskLocation) continue;
+
+      const spaceId = taskLocation.space_id as string;
+      const spaceName = taskLocation.space_name as string;
+      const folderId = taskLocation.folder_id as string;
+      const folderName = taskLocation.folder_name as string;
+
+      // Cache names we already have from the entry itself
+      if (spaceId && spaceName) {
+        spaceLookup[spaceId] = spaceName;
+      } else if (spaceId && !spaceLookup[spaceId]) {
+        spaceIdsNeedingLookup.add(spaceId);
+      }
+
+      if (folderId && folderName) {
+        folderLookup[folderId] = folderName;
+      } else if (folderId && spaceId && !folderLookup[folderId]) {
+        spaceIdsWithFolders.add(spaceId);
+      }
+    }
+
+    for (const spaceId of spaceIdsNeedingLookup) {
+      try {
+        const spaceData = await getJson(`/space/${spaceId}`);
+        spaceLookup[spaceId] = (spaceData.name as string) || `Space ${spaceId}`;
+      } catch {
+        // Non-blocking -- will use fallback name
+      }
+    }
+
+    for (const spaceId of spaceIdsWithFolders) {
+      try {
+        const folderData = await getJson(`/space/${spaceId}/folder`);
+        for (const folder of ((folderData.folders as Array<Record<string, unknown>>) || [])) {
+          if (folder.id && folder.name) {
+            folderLookup[folder.id as string] = folder.name as string;
+          }
+        }
+      } catch {
+        // Non-blocking -- will use fallback name
+      }
+    }
+  }
+
+  async function fetchEntries(range: SyncRange): Promise<SourceFetchResult<ClickUpEntry>> {
+    const rangeStartMs = new Date(range.startISO).getTime();
+    const rangeEndMs = new Date(range.endISO).getTime();
+
+    let entries: ClickUpEntry[] = [];
+    let complete = true;
+    const errors: SourceFetchError[] = [];
+    let memberIds: string[] = [];
+
+    try {
+      memberIds = (await getTeamMembers()).map((u) => String(u.id));
+      console.log(`[sync-clickup] Found ${memberIds.length} team members`);
+
+      if (memberIds.length === 0) {
+        complete = false;
+        errors.push({
+          type: 'no_members',
+          step: 'team_fetch',
+          message: `No team members found for team ${teamId}. Check CLICKUP_TEAM_ID.`,
+        });
+      }
+    } catch (teamErr) {
+      complete = false;
+      errors.push({
+        type: 'api_error',
+        step: 'team_fetch',
+        message: teamErr instanceof Error ? teamErr.message : 'Unknown error fetching team',
+      });
+    }
+
+    if (complete && memberIds.length > 0) {
+      for (const userId of memberIds) {
+        try {
+          const url = `${apiBaseUrl}/team/${teamId}/time_entries` +
+            `?start_date=${rangeStartMs}&end_date=${rangeEndMs}&assignee=${userId}`;
+
+          const response = await fetchImpl(url, { method: 'GET', headers });
+
+          if (!response.ok) {
+            // Individual member failure -- log but continue
+            errors.push({
+              type: 'member_fetch_error',
+              step: `time_entries_user_${userId}`,
+              message: `ClickUp time entries API returned ${response.status} for user ${userId}`,
+            });
+            continue;
+          }
+
+          const data = await response.json();
+          const batch = (data.data as ClickUpEntry[]) || [];
+          entries = entries.concat(batch);
+
+          console.log(`[sync-clickup] User ${userId}: fetched ${batch.length} entries`);
+        } catch (entryErr) {
+          errors.push({
+            type: 'member_fetch_error',
+            step: `time_entries_user_${userId}`,
+            message: entryErr instanceof Error ? entryErr.message : `Unknown error for user ${userId}`,
+          });
+        }
+      }
+
+      // If ALL member fetches failed, mark as incomplete
+      if (entries.length === 0) {
+        const memberFetchErrors = errors.filter((e) => e.type === 'member_fetch_error');
+        if (memberFetchErrors.length === memberIds.length) {
+          complete = false;
+        }
+      }
+    }
+
+    if (complete && entries.length > 0) {
+      await buildLookups(entries);
+      console.log(
+        `[sync-clickup] Lookups built: ${Object.keys(spaceLookup).length} spaces, ` +
+        `${Object.keys(folderLookup).length} folders`,
+      );
+    }
+
+    return {
+      entries,
+      complete,
+      errors,
+      stats: {
+        team_members: memberIds.length,
+        spaces_resolved: Object.keys(spaceLookup).length,
+        folders_resolved: Object.keys(folderLookup).length,
+      },
+      alertMetadata: { members_checked: memberIds.length },
+    };
+  }
+
+  function normalize(entries: ClickUpEntry[]): SourceNormalizeResult {
+    const rows: SourceRollupRow[] = [];
+    const userTotals: SourceNormalizeResult['userTotals'] = {};
+    let skippedNoEntryId = 0;
+    let skippedNoWorkDate = 0;
+    let skippedZeroDuration = 0;
+
+    for (const entry of entries) {
+      const durationSeconds = entrySeconds(entry);
+      const hasDuration = Number.isFinite(durationSeconds) && durationSeconds > 0;
+      const user = entryUser(entry);
+
+      if (user.id && hasDuration) {
+        if (!userTotals[user.id]) {
+          userTotals[user.id] = { minutes: 0, name: user.name };
+        }
+        userTotals[user.id].minutes += Math.ceil(durationSeconds / 60);
+      }
+
+      const entryId = (entry?.id as string) || null;
+      if (!entryId) {
+        skippedNoEntryId++;
+        continue;
+      }
+
+      const startMs = entry?.start ? parseInt(entry.start as string, 10) : null;
+      const workDate = startMs && !Number.isNaN(startMs) ? toUtcWorkDate(new Date(startMs)) : null;
+      if (!workDate) {
+        skippedNoWorkDate++;
+        continue;
+      }
+
+      if (!hasDuration) {
+        skippedZeroDuration++;
+        continue;
+      }
+
+      const taskLocation = entry?.task_location as Record<string, unknown> | undefined;
+      const spaceId = (taskLocation?.space_id as string) || null;
+      const folderId = (taskLocation?.folder_id as string) || null;
+
+      const task = entry?.task as Record<string, unknown> | null;
+
+      rows.push({
+        task_id: entryId,
+        work_date: workDate,
+        project_id: folderId,
+        project_name: folderLookup[folderId || ''] || (taskLocation?.folder_name as string) || 'No Project',
+        user_id: user.id,
+        user_name: user.name,
+        task_name: (task?.name as string)
+          || ((entry?.description as string) || '').trim()
+          || '(no description)',
+        client_id: spaceId,
+        client_name: spaceLookup[spaceId || ''] || (taskLocation?.space_name as string) || null,
+        total_minutes: Math.ceil(durationSeconds / 60),
+      });
+    }
+
+    return {
+      rows,
+      skipped: {
+        skipped_no_entry_id: skippedNoEntryId,
+        skipped_no_work_date: skippedNoWorkDate,
+        skipped_zero_duration: skippedZeroDuration,
+      },
+      userTotals,
+    };
+  }
+
+  async function listUsers(): Promise<SourceUser[]> {
+    const members = await getTeamMembers();
+    return members.map((u) => ({
+      id: String(u.id),
+      name: (u.username as string) || (u.email as string) || 'Unknown',
+      email: (u.email as string) ?? null,
+    }));
+  }
+
+  async function listClients(): Promise<SourceClient[]> {
+    const spaceData = await getJson(`/team/${teamId}/space`);
+    return ((spaceData.spaces as Array<Record<string, unknown>>) || []).map((s) => ({
+      id: String(s.id),
+      name: (s.name as string) || `Space ${s.id}`,
+    }));
+  }
+
+  async function listProjects(): Promise<SourceProject[]> {
+    const projects: SourceProject[] = [];
+    for (const space of await listClients()) {
+      const folderData = await getJson(`/space/${space.id}/folder`);
+      for (const folder of ((folderData.folders as Array<Record<string, unknown>>) || [])) {
+        projects.push({
+          id: String(folder.id),
+          name: (folder.name as string) || 'No Project',
+          clientId: space.id,
+        });
+      }
+    }
+    return projects;
+  }
+
+  return {
+    id: 'clickup',
+    label: 'ClickUp',
+    workspaceId: teamId,
+    syncType: 'clickup_timesheets',
+    replacesRange: true,
+    alertEntity: { type: 'team', name: 'ClickUp Team' },
+    fetchEntries,
+    normalize,
+    listUsers,
+    listProjects,
+    listClients,
+  };
+}
@@ -0,0 +1,263 @@
+// =============================================================================
+// Clockify time-source adapter
+// =============================================================================
+// Fetch: POST {reports}/workspaces/{id}/reports/detailed, 1000 entries per
+// page, 50-page safety limit. Pagination stops at the first short page; any
+// API error stops pagination and marks the fetch incomplete.
+//
+// Normalize (one row per time entry):
+//   - task_id     = entry _id (or id)
+//   - work_date   = UTC date of timeInterval.start
+//   - total_minutes = Math.ceil(timeInterval.duration seconds / 60)
+//   - entries with no id, no start, or zero/negative duration are skipped
+// =============================================================================
+
+import { toUtcWorkDate } from './syncRange.ts';
+import type {
+  FetchLike,
+  SourceClient,
+  SourceFetchError,
+  SourceFetchResult,
+  SourceNormalizeResult,
+  SourceProject,
+  SourceRollupRow,
+  SourceUser,
+  SyncRange,
+  TimeSourceAdapter,
+} from './types.ts';
+
+export const CLOCKIFY_REPORTS_BASE_URL = 'https://reports.api.clockify.me/v1';
+export const CLOCKIFY_API_BASE_URL = 'https://api.clockify.me/api/v1';
+
+const PAGE_SIZE = 1000;
+const MAX_PAGES = 50;
+const LIST_PAGE_SIZE = 500;
+
+export interface ClockifyAdapterOptions {
+  apiKey: string;
+  workspaceId: string;
+  reportsBaseUrl?: string;
+  apiBaseUrl?: string;
+  fetchImpl?: FetchLike;
+}
+
+type ClockifyEntry = Record<string, unknown>;
+
+/** Duration in whole seconds, or 0 when missing/invalid. */
+function entrySeconds(entry: ClockifyEntry): number {
+  const timeInterval = entry?.timeInterval as Record<string, unknown> | undefined;
+  return typeof timeInterval?.duration === 'number' ? timeInterval.duration : 0;
+}
+
+export function createClockifyAdapter(options: ClockifyAdapterOptions): TimeSourceAdapter<ClockifyEntry> {
+  const {
+    apiKey,
+    workspaceId,
+    reportsBaseUrl = CLOCKIFY_REPORTS_BASE_URL,
+    apiBaseUrl = CLOCKIFY_API_BASE_URL,
+    fetchImpl = (input, init) => fetch(input, init),
+  } = options;
+
+  const headers = { 'X-Api-Key': apiKey, 'Content-Type': 'application/json' };
+
+  /** GET a workspace collection, following page/page-size until a short page. */
+  async function listAll(resource: string): Promise<Array<Record<string, unknown>>> {
+    let all: Array<Record<string, unknown>> = [];
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      const url = `${apiBaseUrl}/workspaces/${workspaceId}/${resource}?page=${page}&page-size=${LIST_PAGE_SIZE}`;
+      const response = await fetchImpl(url, { method: 'GET', headers });
+      if (!response.ok) {
+        throw new Error(`Clockify ${resource} API returned ${response.status}: ${response.statusText}`);
+      }
+      const batch = ((await response.json()) as Array<Record<string, unknown>>) || [];
+      all = all.concat(batch);
+      if (batch.length < LIST_PAGE_SIZE) break;
+    }
+    return all;
+  }
+
+  async function fetchEntries(range: SyncRange): Promise<SourceFetchResult<ClockifyEntry>> {
+    const url = `${reportsBaseUrl}/workspaces/${workspaceId}/reports/detailed`;
+
+    let entries: ClockifyEntry[] = [];
+    let page = 1;
+    let complete = true;
+    let hitSafetyLimit = false;
+    const errors: SourceFetchError[] = [];
+
+    try {
+      while (true) {
+        let res: Record<string, unknown>;
+        try {
+          const response = await fetchImpl(url, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+              dateRangeStart: range.startISO,
+              dateRangeEnd: range.endISO,
+              exportType: 'JSON',
+              detailedFilter: { page, pageSize: PAGE_SIZE },
+            }),
+          });
+
+          if (!response.ok) {
+            throw new Error(`Clockify API returned ${response.status}: ${response.statusText}`);
+          }
+
+          res = await response.json();
+        } catch (apiErr) {
+          complete = false;
+          errors.push({
+            type: 'api_error',
+            page,
+            message: apiErr instanceof Error ? apiErr.message : 'Unknown API error',
+          });
+          break;
+        }
+
+        const batch = (res?.timeentries as ClockifyEntry[]) || [];
+        entries = entries.concat(batch);
+
+        console.log(`[sync-clockify] Page ${page}: fetched ${batch.length} entries (total: ${entries.length})`);
+
+        // Natural end: a page shorter than PAGE_SIZE
+        if (batch.length < PAGE_SIZE) break;
+
+        page += 1;
+
+        // Safety break (prevents infinite loops if API acts weird)
+        if (page > MAX_PAGES) {
+          hitSafetyLimit = true;
+          complete = false;
+          errors.push({
+            type: 'safety_limit',
+            page,
+            message: `Hit ${MAX_PAGES}-page safety limit — possible infinite loop or unusually large dataset`,
+          });
+          break;
+        }
+      }
+    } catch (outerErr) {
+      complete = false;
+      errors.push({
+        type: 'unexpected_error',
+        page,
+        message: outerErr instanceof Error ? outerErr.message : 'Unexpected error during fetch',
+      });
+    }
+
+    return {
+      entries,
+      complete,
+      errors,
+      stats: { pages_fetched: page, page_size: PAGE_SIZE, hit_safety_limit: hitSafetyLimit },
+      alertMetadata: { pages_fetched: page, hit_safety_limit: hitSafetyLimit },
+    };
+  }
+
+  function normalize(entries: ClockifyEntry[]): SourceNormalizeResult {
+    const rows: SourceRollupRow[] = [];
+    const userTotals: SourceNormalizeResult['userTotals'] = {};
+    let skippedNoTaskId = 0;
+    let skippedNoWorkDate = 0;
+    let skippedZeroDuration = 0;
+
+    for (const entry of entries) {
+      const durationSeconds = entrySeconds(entry);
+      const hasDuration = Number.isFinite(durationSeconds) && durationSeconds > 0;
+
+      const userId = (entry?.userId as string) || null;
+      if (userId && hasDuration) {
+        if (!userTotals[userId]) {
+          userTotals[userId] = { minutes: 0, name: (entry?.userName as string) || 'Unknown' };
+        }
+        userTotals[userId].minutes += Math.ceil(durationSeconds / 60);
+      }
+
+      const taskId = (entry?._id as string) || (entry?.id as string) || null;
+      if (!taskId) {
+        skippedNoTaskId++;
+        continue;
+      }
+
+      const timeInterval = entry?.timeInterval as Record<string, unknown> | undefined;
+      const startStr = (timeInterval?.start as string) || null;
+      const workDate = startStr ? toUtcWorkDate(new Date(startStr)) : null;
+      if (!workDate) {
+        skippedNoWorkDate++;
+        continue;
+      }
+
+      if (!hasDuration) {
+        skippedZeroDuration++;
+        continue;
+      }
+
+      const totalMinutes = Math.ceil(durationSeconds / 60);
+      const clientId = (entry?.clientId as string) ?? null;
+
+      rows.push({
+        task_id: taskId,
+        work_date: workDate,
+        project_id: (entry?.projectId as string) ?? null,
+        project_name: (entry?.projectName as string) || 'No Project',
+        user_id: (entry?.userId as string) ?? null,
+        user_name: (entry?.userName as string) || 'Unknown',
+        task_name: ((entry?.description as string) ?? '').trim() || '(no description)',
+        client_id: clientId,
+        client_name: (entry?.clientName as string) || (clientId ? 'Unknown Client' : null),
+        total_minutes: totalMinutes,
+      });
+    }
+
+    return {
+      rows,
+      skipped: {
+        skipped_no_task_id: skippedNoTaskId,
+        skipped_no_work_date: skippedNoWorkDate,
+        skipped_zero_duration: skippedZeroDuration,
+      },
+      userTotals,
+    };
+  }
+
+  async function listUsers(): Promise<SourceUser[]> {
+    const users = await listAll('users');
+    return users.map((u) => ({
+      id: String(u.id),
+      name: (u.name as string) || (u.email as string) || 'Unknown',
+      email: (u.email as string) ?? null,
+    }));
+  }
+
+  async function listProjects(): Promise<SourceProject[]> {
+    const projects = await listAll('projects');
+    return projects.map((p) => ({
+      id: String(p.id),
+      name: (p.name as string) || 'No Project',
+      clientId: (p.clientId as string) || null,
+    }));
+  }
+
+  async function listClients(): Promise<SourceClient[]> {
+    const clients = await listAll('clients');
+    return clients.map((c) => ({
+      id: String(c.id),
+      name: (c.name as string) || 'Unknown Client',
+    }));
+  }
+
+  return {
+    id: 'clockify',
+    label: 'Clockify',
+    workspaceId,
+    syncType: 'clockify_timesheets',
+    replacesRange: true,
+    alertEntity: { type: 'workspace', name: 'Clockify Workspace' },
+    fetchEntries,
+    normalize,
+    listUsers,
+    listProjects,
+    listClients,
+  };
+}
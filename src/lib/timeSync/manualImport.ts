@@ -0,0 +1,415 @@
+// =============================================================================
+// Manual timesheet import — resolution, dedupe key, preview, adapter
+// =============================================================================
+// Rows from a CSV/XLSX upload (already column-mapped client-side) become
+// timesheet_daily_rollups rows under the 'manual' time source:
+//
+//   - clockify_workspace_id = 'manual' (MANUAL_WORKSPACE_ID)
+//   - user_id    = the resolved resource's user_id (or its first association),
+//                  so the auto-create resource trigger finds the existing
+//                  resource instead of minting a new one
+//   - project_id = the external project_id of the CANONICAL project the
+//                  uploaded name/id maps to (v_project_canonical), with its
+//                  exact project_name/client so the auto-create project
+//                  trigger is a no-op
+//   - task_id    = 'manual-' + sha256(user_id|project_id|task|work_date)
+//
+// The task_id is the dedupe key: re-importing the same user/project/task/date
+// UPSERTS (minutes replaced, never doubled), and two rows of one file sharing
+// it are rejected. Manual rows are additive — the adapter sets
+// replacesRange=false so the pipeline never deletes synced rows around them.
+//
+// Resolution is case-insensitive and whitespace-normalized:
+//   user    — association user_id / user_name, resource email,
+//             external_label, or "first last"
+//   project — projects.project_id or project_name
+// A value matching more than one resource/project is an error, never a guess.
+//
+// SHA-256 via WebCrypto (crypto.subtle) — browser, Deno, Node 20+.
+// =============================================================================
+
+import type {
+  SourceFetchResult,
+  SourceNormalizeResult,
+  SourceRollupRow,
+  TimeSourceAdapter,
+} from './types.ts';
+
+export const MANUAL_WORKSPACE_ID = 'manual';
+export const MANUAL_TASK_ID_PREFIX = 'manual-';
+
+/** Upper bound for one row — a single day's entry can't exceed 24h. */
+export const MAX_MINUTES_PER_ROW = 24 * 60;
+
+/** One uploaded row after column mapping. */
+export interface ManualTimesheetRow {
+  /** 1-based row number in the source file (for error messages) */
+  rowNumber: number;
+  user: string;
+  project: string;
+  task: string;
+  /** 'YYYY-MM-DD' */
+  date: string;
+  minutes: number;
+}
+
+export interface ManualDirectoryResource {
+  id: string;
+  user_id: string | null;
+  external_label: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  email: string | null;
+}
+
+export interface ManualDirectoryAssociation {
+  resource_id: string;
+  user_id: string;
+  user_name: string | null;
+}
+
+export interface ManualDirectoryProject {
+  /** projects.id (uuid) */
+  id: string;
+  /** External (Clockify/ClickUp) project id */
+  project_id: string;
+  project_name: string;
+  client_id: string | null;
+  client_name: string | null;
+}
+
+/** v_project_canonical rows: projects.id -> canonical projects.id */
+export interface ManualDirectoryCanonical {
+  project_id: string;
+  canonical_project_id: string;
+}
+
+/** Everything resolution needs, loaded by the edge function in one pass. */
+export interface ManualImportDirectory {
+  resources: ManualDirectoryResource[];
+  associations: ManualDirectoryAssociation[];
+  projects: ManualDirectoryProject[];
+  canonical: ManualDirectoryCanonical[];
+}
+
+export interface ResolvedManualRow {
+  rowNumber: number;
+  errors: string[];
+  resourceId: string | null;
+  /** Canonical projects.id (uuid) */
+  canonicalProjectId: string | null;
+  rollup: SourceRollupRow | null;
+}
+
+export type ManualPreviewStatus = 'new' | 'update' | 'unchanged' | 'overlap' | 'error';
+
+export interface ManualPreviewRow extends ResolvedManualRow {
+  status: ManualPreviewStatus;
+  /** Minutes currently stored for this task_id (update/unchanged) */
+  existingMinutes: number | null;
+  /** Synced (non-manual) minutes for the same resource/project/day (overlap) */
+  overlapMinutes: number | null;
+}
+
+/** Existing timesheet_daily_rollups rows in the import's date range. */
+export interface ExistingRollup {
+  clockify_workspace_id: string;
+  task_id: string;
+  user_id: string | null;
+  project_id: string | null;
+  work_date: string;
+  total_minutes: number | null;
+}
+
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function matchKey(value: string | null | undefined): string {
+  return (value ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function isValidIsoDate(value: string): boolean {
+  if (!ISO_DATE_RE.test(value)) return false;
+  const d = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === value;
+}
+
+/** Build the exact canonical string that gets hashed (exposed for testing). */
+export function buildManualTaskCanonical(userId: string, projectId: string, task: string, workDate: string): string {
+  return [userId, projectId, matchKey(task), workDate].join('|');
+}
+
+export async function manualTaskId(userId: string, projectId: string, task: string, workDate: string): Promise<string> {
+  const bytes = new TextEncoder().encode(buildManualTaskCanonical(userId, projectId, task, workDate));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  const hex = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+  return `${MANUAL_TASK_ID_PREFIX}${hex.slice(0, 32)}`;
+}
+
+/**
+ * Lookup tables over the directory. Also used to map synced rollups
+ * (user_id, project_id) onto resources and canonical projects for the
+ * overlap check.
+ */
+export function indexDirectory(directory: ManualImportDirectory) {
+  const resourcesById = new Map(directory.resources.map((r) => [r.id, r]));
+  const projectsByUuid = new Map(directory.projects.map((p) => [p.id, p]));
+  const projectsByExternalId = new Map(directory.projects.map((p) => [p.project_id, p]));
+  const canonicalByUuid = new Map(directory.canonical.map((c) => [c.project_id, c.canonical_project_id]));
+
+  const resourceByUserId = new Map<string, string>();
+  for (const r of directory.resources) {
+    if (r.user_id) resourceByUserId.set(r.user_id, r.id);
+  }
+  for (const a of directory.associations) {
+    resourceByUserId.set(a.user_id, a.resource_id);
+  }
+
+  // match key -> set of resource ids
+  const resourceKeys = new Map<string, Set<string>>();
+  const addResourceKey = (key: string, resourceId: string) => {
+    if (!key) return;
+    if (!resourceKeys.has(key)) resourceKeys.set(key, new Set());
+    resourceKeys.get(key)!.add(resourceId);
+  };
+  for (const r of directory.resources) {
+    addResourceKey(matchKey(r.user_id), r.id);
+    addResourceKey(matchKey(r.email), r.id);
+    addResourceKey(matchKey(r.external_label), r.id);
+    addResourceKey(matchKey(`${r.first_name ?? ''} ${r.last_name ?? ''}`), r.id);
+  }
+  for (const a of directory.associations) {
+    addResourceKey(matchKey(a.user_id), a.resource_id);
+    addResourceKey(matchKey(a.user_name), a.resource_id);
+  }
+
+  // match key -> set of projects.id
+  const projectKeys = new Map<string, Set<string>>();
+  const addProjectKey = (key: string, projectUuid: string) => {
+    if (!key) return;
+    if (!projectKeys.has(key)) projectKeys.set(key, new Set());
+    projectKeys.get(key)!.add(projectUuid);
+  };
+  for (const p of directory.projects) {
+    addProjectKey(matchKey(p.project_id), p.id);
+    addProjectKey(matchKey(p.project_name), p.id);
+  }
+
+  /** user_id written on manual rows: the resource's own, else its first association's. */
+  const userIdForResource = (resourceId: string): string | null => {
+    const own = resourcesById.get(resourceId)?.user_id;
+    if (own) return own;
+    return directory.associations.find((a) => a.resource_id === resourceId)?.user_id ?? null;
+  };
+
+  const canonicalFor = (projectUuid: string): string => canonicalByUuid.get(projectUuid) ?? projectUuid;
+
+  return {
+    resourcesById,
+    projectsByUuid,
+    resourceByUserId,
+    userIdForResource,
+    canonicalFor,
+    /** Resource ids matching an uploaded user value */
+    matchResources: (value: string): string[] => [...(resourceKeys.get(matchKey(value)) ?? [])],
+    /** Distinct canonical project ids matching an uploaded project value */
+    matchCanonicalProjects: (value: string): string[] =>
+      [...new Set([...(projectKeys.get(matchKey(value)) ?? [])].map(canonicalFor))],
+    /** Canonical projects.id for an external project_id (synced rollups) */
+    canonicalForExternalId: (projectId: string | null): string | null => {
+      const p = projectId ? projectsByExternalId.get(projectId) : undefined;
+      return p ? canonicalFor(p.id) : null;
+    },
+  };
+}
+
+function resourceLabel(r: ManualDirectoryResource | undefined): string {
+  if (!r) return 'Unknown';
+  const full = `${r.first_name ?? ''} ${r.last_name ?? ''}`.trim();
+  return full || r.external_label || r.email || 'Unknown';
+}
+
+/**
+ * Resolve uploaded rows against the directory. Every row comes back — rows
+ * that cannot be imported carry `errors` and a null `rollup`.
+ */
+export async function resolveManualRows(
+  rows: ManualTimesheetRow[],
+  directory: ManualImportDirectory,
+): Promise<ResolvedManualRow[]> {
+  const index = indexDirectory(directory);
+  const firstRowByTaskId = new Map<string, number>();
+  const resolved: ResolvedManualRow[] = [];
+
+  for (const row of rows) {
+    const errors: string[] = [];
+    let resourceId: string | null = null;
+    let canonicalProjectId: string | null = null;
+
+    const userValue = (row.user ?? '').trim();
+    const resourceMatches = userValue ? index.matchResources(userValue) : [];
+    if (!userValue) {
+      errors.push('User is empty');
+    } else if (resourceMatches.length === 0) {
+      errors.push(`Unknown user "${userValue}"`);
+    } else if (resourceMatches.length > 1) {
+      errors.push(`User "${userValue}" matches ${resourceMatches.length} employees`);
+    } else {
+      resourceId = resourceMatches[0];
+    }
+
+    const projectValue = (row.project ?? '').trim();
+    const projectMatches = projectValue ? index.matchCanonicalProjects(projectValue) : [];
+    if (!projectValue) {
+      errors.push('Project is empty');
+    } else if (projectMatches.length === 0) {
+      errors.push(`Unknown project "${projectValue}"`);
+    } else if (projectMatches.length > 1) {
+      errors.push(`Project "${projectValue}" matches ${projectMatches.length} projects`);
+    } else {
+      canonicalProjectId = projectMatches[0];
+    }
+
+    if (!isValidIsoDate(row.date ?? '')) {
+      errors.push(`Invalid date "${row.date ?? ''}"`);
+    }
+
+    const minutes = Math.ceil(row.minutes);
+    if (!Number.isFinite(row.minutes) || minutes <= 0) {
+      errors.push('Minutes must be greater than 0');
+    } else if (minutes > MAX_MINUTES_PER_ROW) {
+      errors.push(`Minutes exceed ${MAX_MINUTES_PER_ROW} for one day`);
+    }
+
+    const userId = resourceId ? index.userIdForResource(resourceId) : null;
+    if (resourceId && !userId) {
+      errors.push(`Employee "${resourceLabel(index.resourcesById.get(resourceId))}" has no time-tracking user id`);
+    }
+
+    let rollup: SourceRollupRow | null = null;
+    const project = canonicalProjectId ? index.projectsByUuid.get(canonicalProjectId) : undefined;
+
+    if (errors.length === 0 && userId && project) {
+      const task = (row.task ?? '').replace(/\s+/g, ' ').trim();
+      const taskId = await manualTaskId(userId, project.project_id, task, row.date);
+      const firstRow = firstRowByTaskId.get(taskId);
+
+      if (firstRow !== undefined) {
+        errors.push(`Duplicates row ${firstRow} (same user, project, task and date)`);
+      } else {
+        firstRowByTaskId.set(taskId, row.rowNumber);
+        rollup = {
+          task_id: taskId,
+          work_date: row.date,
+          project_id: project.project_id,
+          project_name: project.project_name,
+          user_id: userId,
+          user_name: resourceLabel(index.resourcesById.get(resourceId!)),
+          task_name: task || '(no description)',
+          client_id: project.client_id,
+          client_name: project.client_name,
+          total_minutes: minutes,
+        };
+      }
+    }
+
+    resolved.push({ rowNumber: row.rowNumber, errors, resourceId, canonicalProjectId, rollup });
+  }
+
+  return resolved;
+}
+
+/**
+ * Compare resolved rows with what is already stored:
+ *   update/unchanged — a manual row with the same task_id exists
+ *   overlap          — synced rows exist for the same employee, canonical
+ *                      project and day (importable, but likely double-counted)
+ *   new              — otherwise
+ */
+export function classifyManualRows(
+  resolved: ResolvedManualRow[],
+  existing: ExistingRollup[],
+  directory: ManualImportDirectory,
+): ManualPreviewRow[] {
+  const index = indexDirectory(directory);
+  const manualMinutes = new Map<string, number>();
+  const syncedMinutes = new Map<string, number>();
+
+  for (const row of existing) {
+    if (row.clockify_workspace_id === MANUAL_WORKSPACE_ID) {
+      manualMinutes.set(row.task_id, row.total_minutes ?? 0);
+      continue;
+    }
+    const resourceId = row.user_id ? index.resourceByUserId.get(row.user_id) : undefined;
+    const canonicalId = index.canonicalForExternalId(row.project_id);
+    if (!resourceId || !canonicalId) continue;
+    const key = `${resourceId}|${canonicalId}|${row.work_date}`;
+    syncedMinutes.set(key, (syncedMinutes.get(key) ?? 0) + (row.total_minutes ?? 0));
+  }
+
+  return resolved.map((row) => {
+    if (!row.rollup) {
+      return { ...row, status: 'error', existingMinutes: null, overlapMinutes: null };
+    }
+    const existingMinutes = manualMinutes.get(row.rollup.task_id);
+    if (existingMinutes !== undefined) {
+      return {
+        ...row,
+        status: existingMinutes === row.rollup.total_minutes ? 'unchanged' : 'update',
+        existingMinutes,
+        overlapMinutes: null,
+      };
+    }
+    const overlapMinutes = syncedMinutes.get(`${row.resourceId}|${row.canonicalProjectId}|${row.rollup.work_date}`);
+    if (overlapMinutes !== undefined) {
+      return { ...row, status: 'overlap', existingMinutes: null, overlapMinutes };
+    }
+    return { ...row, status: 'new', existingMinutes: null, overlapMinutes: null };
+  });
+}
+
+/**
+ * Adapter over already-resolved rollup rows so a manual import runs through
+ * the same pipeline (upsert, rounding, Layer 2, task_monthly_totals,
+ * reconciliation, queue drain, sync_runs) as a scheduled sync. There is no
+ * remote system: fetch returns the rows as given and the list methods are
+ * empty.
+ */
+export function createManualAdapter(rows: SourceRollupRow[]): TimeSourceAdapter<SourceRollupRow> {
+  async function fetchEntries(): Promise<SourceFetchResult<SourceRollupRow>> {
+    return {
+      entries: rows,
+      complete: true,
+      errors: [],
+      stats: { rows_submitted: rows.length },
+      alertMetadata: { rows_submitted: rows.length },
+    };
+  }
+
+  function normalize(entries: SourceRollupRow[]): SourceNormalizeResult {
+    const userTotals: SourceNormalizeResult['userTotals'] = {};
+    for (const row of entries) {
+      if (!row.user_id) continue;
+      if (!userTotals[row.user_id]) {
+        userTotals[row.user_id] = { minutes: 0, name: row.user_name };
+      }
+      userTotals[row.user_id].minutes += row.total_minutes;
+    }
+    return { rows: entries, skipped: {}, userTotals };
+  }
+
+  return {
+    id: 'manual',
+    label: 'Manual Import',
+    workspaceId: MANUAL_WORKSPACE_ID,
+    syncType: 'manual_timesheets',
+    replacesRange: false,
+    alertEntity: { type: 'workspace', name: 'Manual Import' },
+    fetchEntries,
+    normalize,
+    listUsers: async () => [],
+    listProjects: async () => [],
+    listClients: async () => [],
+  };
+}
@@ -0,0 +1,52 @@
+// =============================================================================
+// syncRange — the date window a timesheet sync covers.
+// =============================================================================
+// Default (cron): 14 days before the 1st of the current month through the
+// last millisecond of the current month, so late edits to the prior month
+// are still picked up. Override: POST body { rangeStartDate, rangeEndDate }
+// as ISO strings, used verbatim.
+// =============================================================================
+
+import type { SyncRange } from './types.ts';
+
+const LOOKBACK_DAYS = 14;
+
+/** UTC calendar date 'YYYY-MM-DD' for a Date, or null when it is invalid. */
+export function toUtcWorkDate(dt: Date): string | null {
+  if (Number.isNaN(dt.getTime())) return null;
+  const y = dt.getUTCFullYear();
+  const m = String(dt.getUTCMonth() + 1).padStart(2, '0');
+  const d = String(dt.getUTCDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+export function computeSyncRange(body: Record<string, unknown>, now: Date = new Date()): SyncRange {
+  let startISO: string;
+  let endISO: string;
+  const isManual = Boolean(body.rangeStartDate && body.rangeEndDate);
+
+  if (isManual) {
+    startISO = body.rangeStartDate as string;
+    endISO = body.rangeEndDate as string;
+  } else {
+    // 1st of the current month at 00:00:00.000Z
+    const firstOfMonth = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1, 0, 0, 0, 0);
+
+    // 14 days before 1st of month (~10 days into prior month)
+    const rangeStart = new Date(firstOfMonth - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+    // Last millisecond of the current month: 1st of next month minus 1 ms
+    const rangeEnd = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1, 0, 0, 0, 0) - 1);
+
+    startISO = rangeStart.toISOString();
+    endISO = rangeEnd.toISOString();
+  }
+
+  return {
+    startISO,
+    endISO,
+    startDate: startISO.split('T')[0],
+    endDate: endISO.split('T')[0],
+    isManual,
+  };
+}
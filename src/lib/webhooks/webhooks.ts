@@ -0,0 +1,186 @@
+// =============================================================================
+// Outbound webhooks — event types, payloads, signing and retry policy
+// =============================================================================
+// Pure helpers shared by the deliver-webhooks edge function and the Webhooks
+// admin page (migration 149):
+//
+//   - WEBHOOK_EVENT_TYPES / WEBHOOK_EVENT_INFO: the subscribable events and
+//     their labels. Must match the CHECK on webhook_endpoints.event_types.
+//   - buildWebhookBody: the JSON envelope posted for an event
+//     ({ id, type, created_at, data }).
+//   - signWebhook / verifyWebhookSignature: HMAC-SHA256 over
+//     "<timestamp>.<body>", sent as "t=<unix seconds>,v1=<hex>" in the
+//     X-Manifest-Signature header (the Stripe scheme, so receivers can reuse
+//     existing verification code). verify is what a receiver runs.
+//   - nextWebhookRetryAt: exponential backoff for failed deliveries.
+//   - isValidWebhookUrl / truncateResponseBody: endpoint and log hygiene.
+//
+// Uses Web Crypto (crypto.subtle), available in Deno, browsers and Node 20+.
+//
+// Byte-identical copy in supabase/functions/deliver-webhooks/_lib.
+// =============================================================================
+
+export const WEBHOOK_EVENT_TYPES = [
+  'sync.completed',
+  'sync_alert.raised',
+  'eom_report.generated',
+  'qbo_invoice.created',
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+/** Sent by "Send test"; endpoints receive it regardless of subscriptions. */
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+export const WEBHOOK_EVENT_INFO: Record<WebhookEventType, { label: string; description: string }> = {
+  'sync.completed': {
+    label: 'Sync completed',
+    description: 'A Clockify, ClickUp or BambooHR sync run finished (successfully or not).',
+  },
+  'sync_alert.raised': {
+    label: 'Sync alert raised',
+    description: 'A new sync alert was recorded, e.g. an unmatched entity or a failed run.',
+  },
+  'eom_report.generated': {
+    label: 'EOM report generated',
+    description: 'An end-of-month report was generated or regenerated for a company.',
+  },
+  'qbo_invoice.created': {
+    label: 'QBO invoice created',
+    description: 'An invoice was created in QuickBooks Online for a company-month.',
+  },
+};
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Manifest-Signature';
+export const WEBHOOK_EVENT_HEADER = 'X-Manifest-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Manifest-Delivery';
+
+/** Attempts (first post included) before a failed delivery stops retrying. */
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+
+/** Receivers should reject signatures older than this. */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/** Characters of an endpoint response kept in webhook_deliveries. */
+export const RESPONSE_BODY_LIMIT = 2000;
+
+const RETRY_BASE_MINUTES = 1;
+const RETRY_MAX_MINUTES = 60;
+
+// =============================================================================
+// Payloads
+// =============================================================================
+
+export interface WebhookEventRow {
+  id: string;
+  event_type: string;
+  data: Record<string, unknown>;
+  created_at: string;
+}
+
+/** The JSON body posted for an event. Redeliveries post the same body. */
+export function buildWebhookBody(event: WebhookEventRow): string {
+  return JSON.stringify({
+    id: event.id,
+    type: event.event_type,
+    created_at: event.created_at,
+    data: event.data,
+  });
+}
+
+// =============================================================================
+// Signing
+// =============================================================================
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+}
+
+/** X-Manifest-Signature value for `body` sent at `timestamp` (unix seconds). */
+export async function signWebhook(secret: string, timestamp: number, body: string): Promise<string> {
+  return `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${body}`)}`;
+}
+
+/** Constant-time comparison of two hex strings. */
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+/**
+ * Whether `header` is a valid signature of `body` under `secret`, made within
+ * `toleranceSeconds` of `now`. Any v1 entry in the header may match.
+ */
+export async function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  now: Date,
+  toleranceSeconds = SIGNATURE_TOLERANCE_SECONDS,
+): Promise<boolean> {
+  const parts = header.split(',').map((part) => part.trim().split('='));
+  const timestamp = Number(parts.find(([k]) => k === 't')?.[1]);
+  const signatures = parts.filter(([k, v]) => k === 'v1' && v).map(([, v]) => v);
+  if (!Number.isInteger(timestamp) || signatures.length === 0) return false;
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = await hmacHex(secret, `${timestamp}.${body}`);
+  return signatures.some((signature) => safeEqual(signature, expected));
+}
+
+// =============================================================================
+// Retry policy
+// =============================================================================
+
+/**
+ * When to retry a delivery after its `attempts`-th failed attempt:
+ * 1 min, 2 min, 4 min, … capped at 1 h. Null once the attempt limit is hit.
+ */
+export function nextWebhookRetryAt(
+  attempts: number,
+  failedAt: Date,
+  maxAttempts = MAX_WEBHOOK_ATTEMPTS,
+): Date | null {
+  if (attempts >= maxAttempts) return null;
+  const minutes = Math.min(RETRY_BASE_MINUTES * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MINUTES);
+  return new Date(failedAt.getTime() + minutes * 60_000);
+}
+
+/** 2xx responses are delivered; anything else is retried. */
+export function isDeliveredStatus(status: number): boolean {
+  return status >= 200 && status < 300;
+}
+
+// =============================================================================
+// Endpoints and logging
+// =============================================================================
+
+/** HTTPS URL with a host and no embedded credentials. */
+export function isValidWebhookUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return false;
+  }
+  return url.protocol === 'https:' && url.hostname.length > 0 && !url.username && !url.password;
+}
+
+/** Keep the start of a response body for the delivery log. */
+export function truncateResponseBody(text: string, limit = RESPONSE_BODY_LIMIT): string {
+  return text.length > limit ? `${text.slice(0, limit)}…` : text;
+}
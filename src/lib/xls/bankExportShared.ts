@@ -0,0 +1,157 @@
+// =============================================================================
+// bankExportShared — cell/text helpers shared by every bank statement parser.
+// =============================================================================
+// Pure: no network, no Supabase, no DOM. Used by the UniCredit Bulbank parser
+// (parseBankExport) and the CAMT.053 / MT940 / CSV parsers it dispatches to,
+// so amounts, dates and account currencies resolve identically whichever
+// format a transaction arrives in — the precondition for rowHash dedupe across
+// exports.
+// =============================================================================
+
+import type { AccountCurrency } from '../expenses/types.ts';
+
+/** Parse a bank amount handling space thousands separators and comma decimals. */
+export function parseAmount(raw: unknown): number {
+  if (raw === null || raw === undefined) return NaN;
+  if (typeof raw === 'number') return raw;
+  let s = String(raw).trim();
+  if (!s) return NaN;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(s)) {
+    negative = true;
+    s = s.slice(1, -1);
+  }
+  // Strip everything except digits, separators and a leading sign.
+  s = s.replace(/[\s ]/g, '').replace(/[^0-9.,-]/g, '');
+  if (s.startsWith('-')) {
+    negative = true;
+    s = s.slice(1);
+  }
+  s = s.replace(/-/g, '');
+
+  const lastDot = s.lastIndexOf('.');
+  const lastComma = s.lastIndexOf(',');
+  if (lastDot >= 0 && lastComma >= 0) {
+    const decPos = Math.max(lastDot, lastComma);
+    const intPart = s.slice(0, decPos).replace(/[.,]/g, '');
+    const fracPart = s.slice(decPos + 1).replace(/[.,]/g, '');
+    s = `${intPart}.${fracPart}`;
+  } else if (lastComma >= 0) {
+    s = s.replace(/,/g, '.');
+  }
+
+  const n = Number(s);
+  if (Number.isNaN(n)) return NaN;
+  return negative ? -n : n;
+}
+
+/**
+ * Split a bank date cell into ISO date and time. Day-first: dd.mm.yyyy (also
+ * / and - separators) or ISO yyyy-mm-dd, each with an optional hh:mm[:ss].
+ */
+export function parseDateParts(raw: unknown): { date: string | null; time: string | null } {
+  const s = raw === null || raw === undefined ? '' : String(raw).replace(/\s+/g, ' ').trim();
+  if (!s) return { date: null, time: null };
+
+  // dd.mm.yyyy [hh:mm[:ss]]  (also tolerates / and - day-first separators)
+  const dmy = s.match(/(\d{1,2})[./-](\d{1,2})[./-](\d{4})(?:\D+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (dmy) {
+    const [, dd, mm, yyyy, hh, mi, ss] = dmy;
+    const date = `${yyyy}-${mm.padStart(2, '0')}-${dd.padStart(2, '0')}`;
+    const time =
+      hh !== undefined ? `${hh.padStart(2, '0')}:${mi.padStart(2, '0')}:${(ss ?? '00').padStart(2, '0')}` : null;
+    return { date, time };
+  }
+
+  // yyyy-mm-dd[Thh:mm[:ss]]
+  const iso = s.match(/(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (iso) {
+    const [, yyyy, mm, dd, hh, mi, ss] = iso;
+    const date = `${yyyy}-${mm}-${dd}`;
+    const time =
+      hh !== undefined ? `${hh.padStart(2, '0')}:${mi.padStart(2, '0')}:${(ss ?? '00').padStart(2, '0')}` : null;
+    return { date, time };
+  }
+
+  return { date: null, time: null };
+}
+
+export function parseDateOnly(raw: unknown): string | null {
+  return parseDateParts(raw).date;
+}
+
+/** ISO datetime to seconds, or null when the cell carries no time component. */
+export function parseDatetimeIso(raw: unknown): string | null {
+  const { date, time } = parseDateParts(raw);
+  if (!date) return null;
+  return time ? `${date}T${time}` : null;
+}
+
+export function decodeEntities(s: string): string {
+  return s
+    .replace(/&nbsp;/gi, ' ')
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>')
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, h: string) => String.fromCodePoint(parseInt(h, 16)))
+    .replace(/&#(\d+);/g, (_, d: string) => String.fromCodePoint(Number(d)))
+    .replace(/&amp;/gi, '&');
+}
+
+/** Whitespace runs → single space, trimmed. */
+export function collapseWhitespace(s: string | null | undefined): string {
+  return (s ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Decode a text statement (CAMT XML, MT940, CSV). UTF-8 (BOM stripped) when
+ * the bytes are valid UTF-8, else Windows-1251 — the legacy code page
+ * Bulgarian banks still use for MT940 and CSV exports.
+ */
+export function decodeStatementText(input: ArrayBuffer | Uint8Array | string): string {
+  if (typeof input === 'string') return input.replace(/^\uFEFF/, '');
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('windows-1251').decode(bytes);
+  }
+}
+
+export function suffixCurrency(account: string): AccountCurrency | null {
+  const m = account.trim().match(/(EUR|BGN)\s*$/i);
+  if (!m) return null;
+  return m[1].toUpperCase() as AccountCurrency;
+}
+
+// Bulgaria adopted the euro on 2026-01-01; BGN ceased to be a currency. Any BGN
+// suffix or same-currency "BGN / BGN" rate label on a row dated ON/AFTER this
+// boundary is legacy naming (e.g. an account redenominated to EUR that kept a
+// 'BGN' nickname), so currency resolution must NEVER yield BGN post-boundary —
+// it resolves EUR identity (no peg). Rows dated BEFORE the boundary keep the
+// existing BGN handling (rate 2nd-token + peg), required for 2025-history
+// backfills. Boundary verified from the data (report(3) 2025 + the 2026 upload):
+// the last BGN-labeled row is 2025-12-30 and 100% of 2026 rows are EUR-labeled
+// across both accounts, so a 2026-01-01 cutover is provably regression-free.
+// Provenance: user instruction ("BGN is no longer a currency. Bulgaria switched
+// to the EURO."). Keyed on value_date — the month-bucketing authority.
+// NOTE for historical backfill: if pre-2026 BGN history of a redenominated
+// account is ever loaded, this stays correct (pre-boundary rows keep BGN), but a
+// future account-specific redenomination date may need to replace the flat 2026
+// boundary — see project notes.
+export const EURO_ADOPTION_DATE = '2026-01-01';
+
+/**
+ * Account currency from an explicit ISO code (CAMT Ccy, MT940 opening balance,
+ * CSV currency column). Only EUR / BGN accounts can be valued; anything else
+ * resolves null and is rejected at ingest as unresolved_currency. BGN on or
+ * after EURO_ADOPTION_DATE resolves EUR.
+ */
+export function resolveStatementCurrency(code: string | null | undefined, valueDate: string): AccountCurrency | null {
+  const upper = (code ?? '').trim().toUpperCase();
+  if (upper === 'EUR') return 'EUR';
+  if (upper === 'BGN') return valueDate >= EURO_ADOPTION_DATE ? 'EUR' : 'BGN';
+  return null;
+}
@@ -0,0 +1,215 @@
+// =============================================================================
+// parseBankCsv — header-mapped delimited bank statement -> RawBankRow[].
+// =============================================================================
+// CSV statements differ per bank, so columns are found by HEADER NAME, never
+// by position: the first row (within the first few) that names a date column
+// and an amount (or debit/credit pair) is the header, and every later row is
+// mapped through it. Delimiter ; , or tab is whichever splits that header
+// row into the most fields; quoted fields follow RFC 4180 ("" escapes a quote).
+//
+// Amount direction, first match wins:
+//   1. separate debit / credit columns (whichever is non-zero)
+//   2. a direction column (D/C, DR/CR, ДТ/КТ, Debit/Credit)
+//   3. the sign of a single amount column (negative = Debit)
+// originalAmount is always positive, as in every other format.
+//
+// Dates are read day-first (dd.mm.yyyy) or ISO, like the UniCredit export;
+// month-first US dates are not supported. Account currency comes from a
+// currency column, else the account-number suffix (…EUR / …BGN).
+// =============================================================================
+
+import {
+  collapseWhitespace,
+  parseAmount,
+  parseDateOnly,
+  parseDatetimeIso,
+  resolveStatementCurrency,
+  suffixCurrency,
+} from './bankExportShared.ts';
+import type { EntryType, RawBankRow } from '../expenses/types.ts';
+
+type Column =
+  | 'valueDate'
+  | 'bookingDate'
+  | 'time'
+  | 'amount'
+  | 'debit'
+  | 'credit'
+  | 'direction'
+  | 'currency'
+  | 'account'
+  | 'reference'
+  | 'beneficiary'
+  | 'payer'
+  | 'counterparty'
+  | 'description'
+  | 'details';
+
+// Header aliases per column, compared after lower-casing and collapsing
+// whitespace / underscores. Earlier aliases win when several columns match.
+const COLUMN_ALIASES: Record<Column, readonly string[]> = {
+  valueDate: ['value date', 'valuedate', 'вальор', 'date', 'дата', 'transaction date', 'booking date'],
+  bookingDate: ['booking date', 'posting date', 'entry date', 'дата на плащане', 'дата на осчетоводяване'],
+  time: ['time', 'transaction time', 'час'],
+  amount: ['amount', 'сума', 'transaction amount', 'amount (eur)'],
+  debit: ['debit', 'debit amount', 'money out', 'withdrawal', 'дебит'],
+  credit: ['credit', 'credit amount', 'money in', 'deposit', 'кредит'],
+  direction: ['type', 'dr/cr', 'd/c', 'debit/credit', 'тип'],
+  currency: ['currency', 'ccy', 'валута'],
+  account: ['account', 'iban', 'account number', 'сметка'],
+  reference: ['reference', 'ref', 'transaction id', 'bank reference', 'референция'],
+  beneficiary: ['beneficiary', 'payee', 'бенефициент'],
+  payer: ['payer', 'ordering party', 'наредител'],
+  counterparty: ['counterparty', 'counterparty name', 'name', 'merchant'],
+  description: ['description', 'payment details', 'purpose', 'narrative', 'memo', 'основание', 'основание за плащане'],
+  details: ['details', 'additional information', 'описание', 'описание на операцията'],
+};
+
+const DEBIT_MARKS = new Set(['D', 'DR', 'DBIT', 'DEBIT', 'ДТ']);
+const CREDIT_MARKS = new Set(['C', 'CR', 'CRDT', 'CREDIT', 'КТ']);
+
+/** Rows inspected when looking for the header (banks prepend account info). */
+const HEADER_SEARCH_ROWS = 10;
+
+function normalizeHeader(cell: string): string {
+  return cell.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+}
+
+/** Split delimited text into rows of cells (RFC 4180 quoting). */
+export function splitDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (ch === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      if (row.some((c) => c !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  row.push(cell.trim());
+  if (row.some((c) => c !== '')) rows.push(row);
+  return rows;
+}
+
+function mapHeader(cells: string[]): Partial<Record<Column, number>> {
+  const normalized = cells.map(normalizeHeader);
+  const used = new Set<number>();
+  const map: Partial<Record<Column, number>> = {};
+  for (const column of Object.keys(COLUMN_ALIASES) as Column[]) {
+    for (const alias of COLUMN_ALIASES[column]) {
+      const index = normalized.findIndex((cell, i) => cell === alias && !used.has(i));
+      if (index >= 0) {
+        map[column] = index;
+        used.add(index);
+        break;
+      }
+    }
+  }
+  return map;
+}
+
+function isHeader(map: Partial<Record<Column, number>>): boolean {
+  const hasAmount = map.amount !== undefined || (map.debit !== undefined && map.credit !== undefined);
+  return map.valueDate !== undefined && hasAmount;
+}
+
+/** Pick the delimiter and header row; null when no row names the required columns. */
+function findHeader(text: string): { grid: string[][]; headerIdx: number; map: Partial<Record<Column, number>> } | null {
+  let best: { grid: string[][]; headerIdx: number; map: Partial<Record<Column, number>> } | null = null;
+  for (const delimiter of [';', ',', '\t']) {
+    const grid = splitDelimited(text, delimiter);
+    const headerIdx = grid.slice(0, HEADER_SEARCH_ROWS).findIndex((cells) => isHeader(mapHeader(cells)));
+    if (headerIdx < 0) continue;
+    if (!best || grid[headerIdx].length > best.grid[best.headerIdx].length) {
+      best = { grid, headerIdx, map: mapHeader(grid[headerIdx]) };
+    }
+  }
+  return best;
+}
+
+function signedAmount(cells: string[], map: Partial<Record<Column, number>>): { amount: number; entryType: EntryType | null } {
+  const cell = (column: Column) => (map[column] !== undefined ? cells[map[column]!] ?? '' : '');
+
+  if (map.debit !== undefined && map.credit !== undefined) {
+    const debit = Math.abs(parseAmount(cell('debit')));
+    const credit = Math.abs(parseAmount(cell('credit')));
+    if (debit > 0) return { amount: debit, entryType: 'Debit' };
+    if (credit > 0) return { amount: credit, entryType: 'Credit' };
+  }
+
+  const amount = parseAmount(cell('amount'));
+  if (Number.isNaN(amount)) return { amount: NaN, entryType: null };
+
+  const mark = cell('direction').trim().toUpperCase();
+  if (DEBIT_MARKS.has(mark)) return { amount: Math.abs(amount), entryType: 'Debit' };
+  if (CREDIT_MARKS.has(mark)) return { amount: Math.abs(amount), entryType: 'Credit' };
+
+  return { amount: Math.abs(amount), entryType: amount < 0 ? 'Debit' : 'Credit' };
+}
+
+/** Every dated, valued data row below the detected header. */
+export function parseBankCsv(text: string): RawBankRow[] {
+  const header = findHeader(text);
+  if (!header) return [];
+  const { grid, headerIdx, map } = header;
+  const cell = (cells: string[], column: Column): string =>
+    map[column] !== undefined ? collapseWhitespace(cells[map[column]!]) : '';
+
+  const rows: RawBankRow[] = [];
+  for (const cells of grid.slice(headerIdx + 1)) {
+    const valueDate = parseDateOnly(cell(cells, 'valueDate'));
+    if (!valueDate) continue;
+    const { amount, entryType } = signedAmount(cells, map);
+    if (Number.isNaN(amount)) continue;
+
+    const account = cell(cells, 'account');
+    const currencyCode = cell(cells, 'currency') || suffixCurrency(account);
+    const counterparty = cell(cells, 'counterparty');
+    const paymentReason = cell(cells, 'description');
+    const operationDescription = cell(cells, 'details');
+    const timeCell = cell(cells, 'time');
+
+    rows.push({
+      account,
+      accountCurrency: resolveStatementCurrency(currencyCode, valueDate),
+      operationCurrency: cell(cells, 'currency').toUpperCase() || null,
+      originalAmount: amount,
+      operationAmount: null,
+      exchangeRateRaw: null,
+      entryType,
+      reference: cell(cells, 'reference') || null,
+      beneficiary: cell(cells, 'beneficiary') || (entryType === 'Debit' ? counterparty : '') || null,
+      payer: cell(cells, 'payer') || (entryType === 'Credit' ? counterparty : '') || null,
+      paymentReason: paymentReason || null,
+      operationDescription: operationDescription || null,
+      descriptionOriginal: collapseWhitespace([paymentReason, operationDescription].filter(Boolean).join(' ')),
+      valueDate,
+      bookingDate: parseDateOnly(cell(cells, 'bookingDate')),
+      txnDatetime: parseDatetimeIso(timeCell ? `${cell(cells, 'valueDate')} ${timeCell}` : cell(cells, 'valueDate')),
+    });
+  }
+  return rows;
+}
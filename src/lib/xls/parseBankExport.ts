@@ -1,12 +1,19 @@
 // =============================================================================
 // parseBankExport — File/ArrayBuffer -> { sourceFormat, rows: RawBankRow[] }.
 // =============================================================================
-// Pure: no network, no Supabase. Handles all three container formats:
+// Pure: no network, no Supabase. sniffFormat() picks the container and the
+// BANK_EXPORT_PARSERS registry maps it to a parser; every parser yields the
+// same RawBankRow shape, so ingest-expenses (currency, translation, rowHash
+// dedupe) is format-agnostic:
 //   - html_xls   : UniCredit Bulbank HTML <table> misnamed .xls (own parser)
 //   - binary_xls : legacy BIFF .xls  (SheetJS)
 //   - xlsx       : OOXML             (SheetJS)
+//   - camt053    : ISO 20022 bank-to-customer statement XML (parseCamt053)
+//   - mt940      : SWIFT MT940 customer statement           (parseMt940)
+//   - csv        : header-mapped delimited statement        (parseBankCsv)
 //
-// All formats are reduced to a 2-D array of string cells and mapped with a
+// The rest of this file is the UniCredit Bulbank parser (the first three
+// formats). All three containers are reduced to a 2-D array of string cells and mapped with a
 // single ТИП-anchored column mapper, because the HTML export DROPS empty cells
 // (a fee row can be missing the operation-amount and exchange-rate cells
 // entirely), which makes fixed positional mapping unsafe. The mapper anchors on
@@ -22,13 +29,36 @@
 
 import * as XLSX from 'xlsx';
 import { sniffFormat, type SourceFormat } from './sniffFormat.ts';
+import {
+  decodeEntities,
+  decodeStatementText,
+  EURO_ADOPTION_DATE,
+  parseAmount,
+  parseDateOnly,
+  parseDatetimeIso,
+  suffixCurrency,
+} from './bankExportShared.ts';
+import { parseCamt053 } from './parseCamt053.ts';
+import { parseMt940 } from './parseMt940.ts';
+import { parseBankCsv } from './parseBankCsv.ts';
 import type { AccountCurrency, EntryType, RawBankRow } from '../expenses/types.ts';
 
+export { parseAmount } from './bankExportShared.ts';
+
 export interface ParseResult {
   sourceFormat: SourceFormat;
   rows: RawBankRow[];
 }
 
+/** Input accepted by every bank export parser. */
+export type BankExportInput = ArrayBuffer | Uint8Array | string;
+
+/** One statement format: a display label and a parser to RawBankRow[]. */
+export interface BankExportParser {
+  label: string;
+  parse: (input: BankExportInput) => RawBankRow[];
+}
+
 // ---------------------------------------------------------------------------
 // Cell value helpers
 // ---------------------------------------------------------------------------
@@ -45,79 +75,6 @@ function cellToString(value: unknown): string {
   return String(value).replace(/\s+/g, ' ').trim();
 }
 
-/** Parse a bank amount handling space thousands separators and comma decimals. */
-export function parseAmount(raw: unknown): number {
-  if (raw === null || raw === undefined) return NaN;
-  if (typeof raw === 'number') return raw;
-  let s = String(raw).trim();
-  if (!s) return NaN;
-
-  let negative = false;
-  if (/^\(.*\)$/.test(s)) {
-    negative = true;
-    s = s.slice(1, -1);
-  }
-  // Strip everything except digits, separators and a leading sign.
-  s = s.replace(/[\s ]/g, '').replace(/[^0-9.,-]/g, '');
-  if (s.startsWith('-')) {
-    negative = true;
-    s = s.slice(1);
-  }
-  s = s.replace(/-/g, '');
-
-  const lastDot = s.lastIndexOf('.');
-  const lastComma = s.lastIndexOf(',');
-  if (lastDot >= 0 && lastComma >= 0) {
-    const decPos = Math.max(lastDot, lastComma);
-    const intPart = s.slice(0, decPos).replace(/[.,]/g, '');
-    const fracPart = s.slice(decPos + 1).replace(/[.,]/g, '');
-    s = `${intPart}.${fracPart}`;
-  } else if (lastComma >= 0) {
-    s = s.replace(/,/g, '.');
-  }
-
-  const n = Number(s);
-  if (Number.isNaN(n)) return NaN;
-  return negative ? -n : n;
-}
-
-function parseDateParts(raw: unknown): { date: string | null; time: string | null } {
-  const s = cellToString(raw);
-  if (!s) return { date: null, time: null };
-
-  // dd.mm.yyyy [hh:mm[:ss]]  (also tolerates / and - day-first separators)
-  const dmy = s.match(/(\d{1,2})[.\/-](\d{1,2})[.\/-](\d{4})(?:\D+(\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
-  if (dmy) {
-    const [, dd, mm, yyyy, hh, mi, ss] = dmy;
-    const date = `${yyyy}-${mm.padStart(2, '0')}-${dd.padStart(2, '0')}`;
-    const time =
-      hh !== undefined ? `${hh.padStart(2, '0')}:${mi.padStart(2, '0')}:${(ss ?? '00').padStart(2, '0')}` : null;
-    return { date, time };
-  }
-
-  // yyyy-mm-dd[Thh:mm[:ss]]
-  const iso = s.match(/(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
-  if (iso) {
-    const [, yyyy, mm, dd, hh, mi, ss] = iso;
-    const date = `${yyyy}-${mm}-${dd}`;
-    const time =
-      hh !== undefined ? `${hh.padStart(2, '0')}:${mi.padStart(2, '0')}:${(ss ?? '00').padStart(2, '0')}` : null;
-    return { date, time };
-  }
-
-  return { date: null, time: null };
-}
-
-function parseDateOnly(raw: unknown): string | null {
-  return parseDateParts(raw).date;
-}
-
-function parseDatetimeIso(raw: unknown): string | null {
-  const { date, time } = parseDateParts(raw);
-  if (!date) return null;
-  return time ? `${date}T${time}` : null;
-}
-
 /**
  * Parse "<rate> <OPERATION_CUR> / <ACCOUNT_CUR>" (e.g. "0.510638 BGN / EUR").
  * The bank prints the OPERATION currency first and the ACCOUNT currency second.
@@ -133,44 +90,10 @@ function parseExchangeRate(raw: string): { accountCur: string | null; operationC
   return { operationCur: m[1].toUpperCase(), accountCur: m[2].toUpperCase() };
 }
 
-function suffixCurrency(account: string): AccountCurrency | null {
-  const m = account.trim().match(/(EUR|BGN)\s*$/i);
-  if (!m) return null;
-  return m[1].toUpperCase() as AccountCurrency;
-}
-
-// Bulgaria adopted the euro on 2026-01-01; BGN ceased to be a currency. Any BGN
-// suffix or same-currency "BGN / BGN" rate label on a row dated ON/AFTER this
-// boundary is legacy naming (e.g. an account redenominated to EUR that kept a
-// 'BGN' nickname), so currency resolution must NEVER yield BGN post-boundary —
-// it resolves EUR identity (no peg). Rows dated BEFORE the boundary keep the
-// existing BGN handling (rate 2nd-token + peg), required for 2025-history
-// backfills. Boundary verified from the data (report(3) 2025 + the 2026 upload):
-// the last BGN-labeled row is 2025-12-30 and 100% of 2026 rows are EUR-labeled
-// across both accounts, so a 2026-01-01 cutover is provably regression-free.
-// Provenance: user instruction ("BGN is no longer a currency. Bulgaria switched
-// to the EURO."). Keyed on value_date — the month-bucketing authority.
-// NOTE for historical backfill: if pre-2026 BGN history of a redenominated
-// account is ever loaded, this stays correct (pre-boundary rows keep BGN), but a
-// future account-specific redenomination date may need to replace the flat 2026
-// boundary — see project notes.
-const EURO_ADOPTION_DATE = '2026-01-01';
-
 // ---------------------------------------------------------------------------
 // HTML <table> extraction
 // ---------------------------------------------------------------------------
 
-function decodeEntities(s: string): string {
-  return s
-    .replace(/&nbsp;/gi, ' ')
-    .replace(/&lt;/gi, '<')
-    .replace(/&gt;/gi, '>')
-    .replace(/&quot;/gi, '"')
-    .replace(/&#x([0-9a-f]+);/gi, (_, h: string) => String.fromCodePoint(parseInt(h, 16)))
-    .replace(/&#(\d+);/g, (_, d: string) => String.fromCodePoint(Number(d)))
-    .replace(/&amp;/gi, '&');
-}
-
 function htmlToRows(html: string): string[][] {
   const rows: string[][] = [];
   const trRe = /<tr[^>]*>([\s\S]*?)<\/tr>/gi;
@@ -336,13 +259,8 @@ function mapRow(cells: string[]): MappedRow | null {
 // Public entry points
 // ---------------------------------------------------------------------------
 
-/**
- * Parse an already-loaded bank export.
- * @param input Raw bytes (ArrayBuffer/Uint8Array) or a decoded HTML string.
- */
-export function parseBankExport(input: ArrayBuffer | Uint8Array | string): ParseResult {
-  const sourceFormat = sniffFormat(input);
-
+/** The UniCredit Bulbank export in any of its three containers. */
+function parseUnicreditExport(input: BankExportInput, sourceFormat: SourceFormat): RawBankRow[] {
   let grid: string[][];
   if (sourceFormat === 'html_xls') {
     const html = typeof input === 'string' ? input : new TextDecoder('utf-8').decode(input);
@@ -366,7 +284,7 @@ export function parseBankExport(input: ArrayBuffer | Uint8Array | string): Parse
   // same-currency rows. There is deliberately NO per-file account→currency map:
   // the same account number is proven to book in BOTH currencies, so any such
   // map propagates wrong currencies onto rate-less rows.
-  const rows: RawBankRow[] = mapped.map((row) => {
+  return mapped.map((row) => {
     // Pre-boundary: rate 2nd-token, else account-number suffix. Post-euro-
     // boundary (value_date >= 2026-01-01): never BGN — resolve EUR identity.
     const rawAccountCurrency: AccountCurrency | null = row.rateAccountCur ?? suffixCurrency(row.account);
@@ -391,8 +309,29 @@ export function parseBankExport(input: ArrayBuffer | Uint8Array | string): Parse
       txnDatetime: row.txnDatetime,
     };
   });
+}
+
+/**
+ * Parser per sniffed format. A new bank format = a SourceFormat value, a
+ * sniffFormat() rule, and an entry here (plus the ingest-expenses /
+ * expense_source_files allow-lists).
+ */
+export const BANK_EXPORT_PARSERS: Record<SourceFormat, BankExportParser> = {
+  html_xls: { label: 'UniCredit Bulbank (HTML .xls)', parse: (input) => parseUnicreditExport(input, 'html_xls') },
+  binary_xls: { label: 'UniCredit Bulbank (.xls)', parse: (input) => parseUnicreditExport(input, 'binary_xls') },
+  xlsx: { label: 'UniCredit Bulbank (.xlsx)', parse: (input) => parseUnicreditExport(input, 'xlsx') },
+  camt053: { label: 'ISO 20022 CAMT.053', parse: (input) => parseCamt053(decodeStatementText(input)) },
+  mt940: { label: 'SWIFT MT940', parse: (input) => parseMt940(decodeStatementText(input)) },
+  csv: { label: 'CSV statement', parse: (input) => parseBankCsv(decodeStatementText(input)) },
+};
 
-  return { sourceFormat, rows };
+/**
+ * Parse an already-loaded bank export.
+ * @param input Raw bytes (ArrayBuffer/Uint8Array) or decoded text.
+ */
+export function parseBankExport(input: BankExportInput): ParseResult {
+  const sourceFormat = sniffFormat(input);
+  return { sourceFormat, rows: BANK_EXPORT_PARSERS[sourceFormat].parse(input) };
 }
 
 /**
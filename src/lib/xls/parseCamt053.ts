@@ -0,0 +1,154 @@
+// =============================================================================
+// parseCamt053 — ISO 20022 camt.053 statement XML -> RawBankRow[].
+// =============================================================================
+// Pure and DOM-free (runs in the browser and under node:test), so the XML is
+// read with the same regex extraction the HTML-.xls parser uses. camt.053 is a
+// fixed schema: Stmt → Acct + Ntry*, and entries never nest, which is all the
+// extraction relies on. Namespace prefixes (<ns:Ntry>) are tolerated.
+//
+// One RawBankRow per BOOKED entry (Sts BOOK, or no status) — a batch booking
+// with several TxDtls is one bank-side transaction, as in the UniCredit export.
+// Pending / info entries are skipped: they can still change, and a changed
+// amount or reference would hash as a second row.
+//
+// Field mapping (camt.053.001.02 – .08):
+//   account               Stmt/Acct/Id/IBAN (else Id/Othr/Id)
+//   accountCurrency       Stmt/Acct/Ccy, else the entry Amt@Ccy
+//   originalAmount        Ntry/Amt (always positive; direction = CdtDbtInd)
+//   operationAmount/Cur   TxDtls/AmtDtls/InstdAmt/Amt when present
+//   exchangeRateRaw       "<XchgRate> <SrcCcy> / <TrgtCcy>" (UniCredit order:
+//                         operation currency first, account currency second)
+//   reference             AcctSvcrRef → EndToEndId → NtryRef
+//   beneficiary / payer   RltdPties Cdtr / Dbtr names
+//   paymentReason         RmtInf/Ustrd lines
+//   operationDescription  AddtlNtryInf, else AddtlTxInf
+//   valueDate / booking   ValDt / BookgDt (Dt or DtTm)
+//   txnDatetime           BookgDt/DtTm to seconds, when given
+// =============================================================================
+
+import {
+  collapseWhitespace,
+  decodeEntities,
+  parseAmount,
+  resolveStatementCurrency,
+} from './bankExportShared.ts';
+import type { EntryType, RawBankRow } from '../expenses/types.ts';
+
+/** Inner XML of every <tag>…</tag> (any namespace prefix), in document order. */
+function xmlBlocks(xml: string, tag: string): string[] {
+  const re = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  const blocks: string[] = [];
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(xml)) !== null) blocks.push(m[1]);
+  return blocks;
+}
+
+/** Text of the first element reached by descending through `path`, or null. */
+function xmlText(xml: string | null, ...path: string[]): string | null {
+  let scope: string | null = xml;
+  for (const tag of path) {
+    if (scope === null) return null;
+    scope = xmlBlocks(scope, tag)[0] ?? null;
+  }
+  if (scope === null) return null;
+  const text = collapseWhitespace(decodeEntities(scope.replace(/<[^>]+>/g, ' ')));
+  return text || null;
+}
+
+/** Ccy attribute of the first <Amt> directly in `xml`. */
+function amountCurrency(xml: string | null): string | null {
+  const m = xml?.match(/<(?:\w+:)?Amt\s[^>]*Ccy="([A-Za-z]{3})"/);
+  return m ? m[1].toUpperCase() : null;
+}
+
+/** 'YYYY-MM-DD' from a <Dt> or <DtTm> inside a date block. */
+function blockDate(block: string | null): string | null {
+  const value = xmlText(block, 'Dt') ?? xmlText(block, 'DtTm');
+  const m = value?.match(/^(\d{4}-\d{2}-\d{2})/);
+  return m ? m[1] : null;
+}
+
+/** 'YYYY-MM-DDTHH:MM:SS' from a <DtTm>, dropping any offset / fraction. */
+function blockDatetime(block: string | null): string | null {
+  const m = xmlText(block, 'DtTm')?.match(/^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})/);
+  return m ? m[1] : null;
+}
+
+/** A party name: <Nm> directly or under <Pty> (camt.053.001.08+). */
+function partyName(parties: string | null, role: 'Cdtr' | 'Dbtr'): string | null {
+  const party = parties ? xmlBlocks(parties, role)[0] ?? null : null;
+  return xmlText(party, 'Pty', 'Nm') ?? xmlText(party, 'Nm');
+}
+
+/** Drop the "NOTPROVIDED" placeholder banks put in mandatory reference fields. */
+function usableRef(value: string | null): string | null {
+  return value && value.toUpperCase() !== 'NOTPROVIDED' ? value : null;
+}
+
+function parseEntry(entry: string, account: string, accountCcy: string | null): RawBankRow | null {
+  const status = xmlText(entry, 'Sts');
+  if (status && status.toUpperCase() !== 'BOOK') return null;
+
+  const bookingBlock = xmlBlocks(entry, 'BookgDt')[0] ?? null;
+  const valueBlock = xmlBlocks(entry, 'ValDt')[0] ?? null;
+  const bookingDate = blockDate(bookingBlock);
+  const valueDate = blockDate(valueBlock) ?? bookingDate;
+  if (!valueDate) return null;
+
+  const direction = xmlText(entry, 'CdtDbtInd');
+  const entryType: EntryType | null = direction === 'DBIT' ? 'Debit' : direction === 'CRDT' ? 'Credit' : null;
+  const amount = parseAmount(xmlText(entry, 'Amt'));
+
+  const tx = xmlBlocks(entry, 'TxDtls')[0] ?? null;
+  const instructed = tx ? xmlBlocks(tx, 'InstdAmt')[0] ?? null : null;
+  const instructedAmount = instructed ? parseAmount(xmlText(instructed, 'Amt')) : NaN;
+  const exchange = tx ? xmlBlocks(tx, 'CcyXchg')[0] ?? null : null;
+  const rate = xmlText(exchange, 'XchgRate');
+  const source = xmlText(exchange, 'SrcCcy');
+  const target = xmlText(exchange, 'TrgtCcy') ?? accountCcy;
+
+  const parties = tx ? xmlBlocks(tx, 'RltdPties')[0] ?? null : null;
+  const paymentReason = collapseWhitespace(
+    (tx ? xmlBlocks(tx, 'Ustrd') : []).map((line) => decodeEntities(line)).join(' '),
+  );
+  const operationDescription = xmlText(entry, 'AddtlNtryInf') ?? xmlText(tx, 'AddtlTxInf');
+
+  return {
+    account,
+    accountCurrency: resolveStatementCurrency(accountCcy ?? amountCurrency(entry), valueDate),
+    operationCurrency: amountCurrency(instructed) ?? amountCurrency(entry),
+    originalAmount: Number.isNaN(amount) ? 0 : Math.abs(amount),
+    operationAmount: Number.isNaN(instructedAmount) ? null : Math.abs(instructedAmount),
+    exchangeRateRaw: rate && source && target ? `${rate} ${source} / ${target}` : null,
+    entryType,
+    reference:
+      xmlText(entry, 'AcctSvcrRef')
+      ?? usableRef(xmlText(tx, 'Refs', 'EndToEndId'))
+      ?? xmlText(entry, 'NtryRef'),
+    beneficiary: partyName(parties, 'Cdtr'),
+    payer: partyName(parties, 'Dbtr'),
+    paymentReason: paymentReason || null,
+    operationDescription,
+    descriptionOriginal: collapseWhitespace([paymentReason, operationDescription].filter(Boolean).join(' ')),
+    valueDate,
+    bookingDate,
+    txnDatetime: blockDatetime(bookingBlock),
+  };
+}
+
+/** Every booked entry of every statement in a camt.053 document. */
+export function parseCamt053(xml: string): RawBankRow[] {
+  const rows: RawBankRow[] = [];
+  for (const statement of xmlBlocks(xml, 'Stmt')) {
+    const acct = xmlBlocks(statement, 'Acct')[0] ?? null;
+    // Acct/Id/Othr/Id nests <Id>, so descend from <Othr> rather than <Id>.
+    const account = xmlText(acct, 'IBAN') ?? xmlText(acct, 'Othr', 'Id') ?? '';
+    const accountCcy = xmlText(acct, 'Ccy');
+
+    for (const entry of xmlBlocks(statement, 'Ntry')) {
+      const row = parseEntry(entry, account, accountCcy);
+      if (row) rows.push(row);
+    }
+  }
+  return rows;
+}
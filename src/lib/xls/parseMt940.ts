@@ -0,0 +1,160 @@
+// =============================================================================
+// parseMt940 — SWIFT MT940 customer statement -> RawBankRow[].
+// =============================================================================
+// A file may hold several statements (one per account / period), each:
+//   :20: ref  :25: account  :28C: number  :60F:/:60M: opening balance
+//   (:61: statement line [:86: information to account owner])*
+//   :62F:/:62M: closing balance
+// Lines that do not start a ":NN[A]:" tag continue the previous field. SWIFT
+// envelope blocks ({1:…}{2:…}{4: … -}) are ignored.
+//
+// :61: = YYMMDD value date, optional MMDD entry date, D/C mark (RD/RC =
+// reversal: RD is a credit, RC a debit), optional funds-code letter, amount
+// with decimal comma, N/F/S + 3-char type, customer reference, optional
+// "//" bank reference, optional second line of supplementary details.
+//
+// :86: has no single standard. Two common structures are read:
+//   - "?NN" sub-fields (?00 posting text, ?20–?29/?60–?63 remittance,
+//     ?32/?33 counterparty name)
+//   - "/CODE/value" pairs (/REMI/ remittance, /NAME/ counterparty)
+// and anything else is kept whole as the payment reason.
+//
+// Account currency comes from the opening balance (:60F:/:60M:).
+// reference = bank reference (after "//"), else the customer reference
+// unless it is the NONREF placeholder.
+// =============================================================================
+
+import { collapseWhitespace, parseAmount, resolveStatementCurrency } from './bankExportShared.ts';
+import type { EntryType, RawBankRow } from '../expenses/types.ts';
+
+interface Field {
+  tag: string;
+  value: string;
+}
+
+interface Details {
+  postingText: string | null;
+  remittance: string | null;
+  counterparty: string | null;
+}
+
+const STATEMENT_LINE =
+  /^(\d{2})(\d{2})(\d{2})(\d{4})?(RD|RC|D|C)[A-Z]?(\d+,\d*)[NFS][A-Z0-9]{3}([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/;
+
+/** Tag/value pairs in file order; continuation lines stay in their field. */
+function toFields(text: string): Field[] {
+  const fields: Field[] = [];
+  for (const rawLine of text.replace(/\r\n?/g, '\n').split('\n')) {
+    // Envelope headers and the trailer are not statement content.
+    const line = rawLine.replace(/^(\{\d:[^}]*\})+/, '').replace(/^\{4:/, '');
+    if (line.trim() === '-}' || line.trim() === '-') continue;
+
+    const tag = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+    if (tag) {
+      fields.push({ tag: tag[1], value: tag[2] });
+    } else if (fields.length > 0 && line.trim()) {
+      fields[fields.length - 1].value += `\n${line}`;
+    }
+  }
+  return fields;
+}
+
+function subfieldDetails(text: string): Details {
+  const parts = new Map<string, string[]>();
+  for (const m of text.replace(/\n/g, '').matchAll(/\?(\d{2})([^?]*)/g)) {
+    const list = parts.get(m[1]) ?? [];
+    list.push(m[2]);
+    parts.set(m[1], list);
+  }
+  const join = (codes: string[]) =>
+    collapseWhitespace(codes.flatMap((code) => parts.get(code) ?? []).join(' ')) || null;
+  const remittanceCodes = [...Array(10).keys()].map((n) => `2${n}`).concat(['60', '61', '62', '63']);
+  return { postingText: join(['00']), remittance: join(remittanceCodes), counterparty: join(['32', '33']) };
+}
+
+function slashDetails(text: string): Details {
+  const values = new Map<string, string>();
+  for (const m of text.replace(/\n/g, '').matchAll(/\/([A-Z]{2,4})\/([^/]*)/g)) {
+    if (!values.has(m[1])) values.set(m[1], collapseWhitespace(m[2]));
+  }
+  return {
+    postingText: values.get('TRCD') ?? null,
+    remittance: values.get('REMI') ?? null,
+    counterparty: values.get('NAME') ?? null,
+  };
+}
+
+function parseDetails(text: string): Details {
+  if (/\?\d{2}/.test(text)) return subfieldDetails(text);
+  if (/\/(REMI|NAME)\//.test(text)) return slashDetails(text);
+  return { postingText: null, remittance: collapseWhitespace(text) || null, counterparty: null };
+}
+
+/** Booking date from the :61: MMDD entry date, rolling the year at New Year. */
+function entryDate(valueDate: string, mmdd: string | undefined): string | null {
+  if (!mmdd) return null;
+  const valueYear = Number(valueDate.slice(0, 4));
+  const valueMonth = Number(valueDate.slice(5, 7));
+  const month = Number(mmdd.slice(0, 2));
+  let year = valueYear;
+  if (valueMonth === 12 && month === 1) year += 1;
+  if (valueMonth === 1 && month === 12) year -= 1;
+  return `${year}-${mmdd.slice(0, 2)}-${mmdd.slice(2, 4)}`;
+}
+
+function toRow(line: string, info: string | null, account: string, currency: string | null): RawBankRow | null {
+  const m = line.match(STATEMENT_LINE);
+  if (!m) return null;
+  const [, yy, mm, dd, mmdd, mark, amountRaw, customerRef, bankRef, supplementary] = m;
+
+  const valueDate = `20${yy}-${mm}-${dd}`;
+  const entryType: EntryType = mark === 'D' || mark === 'RC' ? 'Debit' : 'Credit';
+  const amount = parseAmount(amountRaw);
+  const details = info ? parseDetails(info) : { postingText: null, remittance: null, counterparty: null };
+  const operationDescription = details.postingText ?? (collapseWhitespace(supplementary) || null);
+
+  const customer = collapseWhitespace(customerRef);
+  const reference = collapseWhitespace(bankRef) || (customer && customer.toUpperCase() !== 'NONREF' ? customer : null);
+
+  return {
+    account,
+    accountCurrency: resolveStatementCurrency(currency, valueDate),
+    operationCurrency: currency,
+    originalAmount: Number.isNaN(amount) ? 0 : amount,
+    operationAmount: null,
+    exchangeRateRaw: null,
+    entryType,
+    reference,
+    beneficiary: entryType === 'Debit' ? details.counterparty : null,
+    payer: entryType === 'Credit' ? details.counterparty : null,
+    paymentReason: details.remittance,
+    operationDescription,
+    descriptionOriginal: collapseWhitespace([details.remittance, operationDescription].filter(Boolean).join(' ')),
+    valueDate,
+    bookingDate: entryDate(valueDate, mmdd),
+    txnDatetime: null,
+  };
+}
+
+/** Every :61: statement line of every statement in the file. */
+export function parseMt940(text: string): RawBankRow[] {
+  const rows: RawBankRow[] = [];
+  const fields = toFields(text);
+  let account = '';
+  let currency: string | null = null;
+
+  for (let i = 0; i < fields.length; i++) {
+    const { tag, value } = fields[i];
+    if (tag === '25') {
+      account = collapseWhitespace(value);
+    } else if (tag === '60F' || tag === '60M') {
+      // [C|D] YYMMDD CCY amount
+      currency = value.trim().match(/^[CD]\d{6}([A-Z]{3})/)?.[1] ?? null;
+    } else if (tag === '61') {
+      const next = fields[i + 1];
+      const row = toRow(value.trim(), next?.tag === '86' ? next.value : null, account, currency);
+      if (row) rows.push(row);
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,249 @@
+// =============================================================================
+// parseTimesheetImport — manual timesheet upload -> header + records, then
+// column-mapped ManualTimesheetRow[].
+// =============================================================================
+// Pure: no network, no Supabase. Accepted files:
+//   - .json : an array of flat objects (keys become headers)
+//   - .csv  : SheetJS string parse, cells kept raw (no date/number guessing)
+//   - .xlsx / .xls : sniffed by content (sniffFormat), first sheet, SheetJS
+//     with cellDates so date cells arrive as Date
+//
+// Column mapping is chosen by the user in the import page; guessColumnMapping
+// pre-selects by header name. Minutes come from a minutes column, or from an
+// hours column (decimal "1.5" / "1,5", or "H:MM"). Dates accept ISO
+// (YYYY-MM-DD, optionally with a time), DD.MM.YYYY and spreadsheet Date cells;
+// anything else is passed through verbatim so resolution reports it.
+// =============================================================================
+
+import * as XLSX from 'xlsx';
+import { sniffFormat, type SourceFormat } from './sniffFormat.ts';
+import type { ManualTimesheetRow } from '../timeSync/manualImport.ts';
+
+export type TimesheetImportFormat = 'csv' | 'json' | SourceFormat;
+
+export type TimesheetImportField = 'user' | 'project' | 'task' | 'date' | 'minutes' | 'hours';
+
+/** Source header chosen for each field (null = not mapped). */
+export type TimesheetColumnMapping = Record<TimesheetImportField, string | null>;
+
+export interface TimesheetImportTable {
+  format: TimesheetImportFormat;
+  headers: string[];
+  /** One object per data row, keyed by header */
+  records: Array<Record<string, unknown>>;
+  /** Row number of the first record in the source file (for messages) */
+  firstRowNumber: number;
+}
+
+export interface MappedTimesheetImport {
+  rows: ManualTimesheetRow[];
+  /** Mapping problems that make every row unusable (e.g. no minutes column) */
+  errors: string[];
+}
+
+// Lower-cased header aliases, most specific first.
+const FIELD_ALIASES: Record<TimesheetImportField, readonly string[]> = {
+  user: ['user', 'user name', 'username', 'employee', 'email', 'resource', 'person', 'name'],
+  project: ['project', 'project name', 'project id'],
+  task: ['task', 'task name', 'description', 'activity', 'notes'],
+  date: ['date', 'work date', 'day', 'start date'],
+  minutes: ['minutes', 'mins', 'duration (minutes)', 'total minutes'],
+  hours: ['hours', 'hrs', 'duration (hours)', 'duration', 'time'],
+};
+
+export const TIMESHEET_IMPORT_FIELDS = Object.keys(FIELD_ALIASES) as TimesheetImportField[];
+
+// ---------------------------------------------------------------------------
+// Cell value helpers
+// ---------------------------------------------------------------------------
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * 'YYYY-MM-DD' of a Date cell. SheetJS (cellDates) builds local-time Dates, so
+ * the local components are the spreadsheet's; UTC would shift a day east of UTC.
+ */
+function localDate(value: Date): string {
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+}
+
+function cellToString(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) return '';
+    const time = `${pad(value.getHours())}:${pad(value.getMinutes())}:${pad(value.getSeconds())}`;
+    return time === '00:00:00' ? localDate(value) : `${localDate(value)} ${time}`;
+  }
+  return String(value).replace(/\s+/g, ' ').trim();
+}
+
+/** 'YYYY-MM-DD' from a Date cell, ISO string or DD.MM.YYYY; else the raw text. */
+export function parseImportDate(raw: unknown): string {
+  if (raw instanceof Date) {
+    return Number.isNaN(raw.getTime()) ? '' : localDate(raw);
+  }
+  const s = cellToString(raw);
+  const iso = /^(\d{4})-(\d{2})-(\d{2})(?:[T ].*)?$/.exec(s);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  const dotted = /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/.exec(s);
+  if (dotted) return `${dotted[3]}-${dotted[2].padStart(2, '0')}-${dotted[1].padStart(2, '0')}`;
+  return s;
+}
+
+/** Decimal number accepting a comma decimal separator; NaN when unparseable. */
+function parseDecimal(raw: unknown): number {
+  if (typeof raw === 'number') return raw;
+  const s = cellToString(raw).replace(',', '.');
+  return s && /^-?\d+(\.\d+)?$/.test(s) ? Number(s) : NaN;
+}
+
+/** Hours cell -> minutes. "1.5" / "1,5" / "1:30" all give 90. */
+export function parseHoursToMinutes(raw: unknown): number {
+  const s = cellToString(raw);
+  const hm = /^(\d+):([0-5]\d)$/.exec(s);
+  if (hm) return Number(hm[1]) * 60 + Number(hm[2]);
+  const hours = parseDecimal(raw);
+  return Number.isNaN(hours) ? NaN : Math.round(hours * 60 * 100) / 100;
+}
+
+// ---------------------------------------------------------------------------
+// File -> table
+// ---------------------------------------------------------------------------
+
+function uniqueHeaders(cells: unknown[]): string[] {
+  const seen = new Map<string, number>();
+  return cells.map((cell, i) => {
+    const base = cellToString(cell) || `Column ${i + 1}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+}
+
+function gridToTable(format: TimesheetImportFormat, grid: unknown[][]): TimesheetImportTable {
+  const isBlank = (row: unknown[]) => row.every((cell) => cellToString(cell) === '');
+  const headerIdx = grid.findIndex((row) => !isBlank(row));
+  if (headerIdx < 0) return { format, headers: [], records: [], firstRowNumber: 1 };
+
+  const headers = uniqueHeaders(grid[headerIdx]);
+  const records = grid.slice(headerIdx + 1).map((row) => {
+    const record: Record<string, unknown> = {};
+    headers.forEach((header, i) => { record[header] = row[i] ?? ''; });
+    return record;
+  });
+  return { format, headers, records, firstRowNumber: headerIdx + 2 };
+}
+
+function jsonToTable(text: string): TimesheetImportTable {
+  const parsed: unknown = JSON.parse(text);
+  const list = Array.isArray(parsed) ? parsed : null;
+  if (!list || list.some((item) => item === null || typeof item !== 'object' || Array.isArray(item))) {
+    throw new Error('JSON import must be an array of objects');
+  }
+  const headers: string[] = [];
+  for (const item of list as Array<Record<string, unknown>>) {
+    for (const key of Object.keys(item)) {
+      if (!headers.includes(key)) headers.push(key);
+    }
+  }
+  return { format: 'json', headers, records: list as Array<Record<string, unknown>>, firstRowNumber: 1 };
+}
+
+/**
+ * Parse an already-loaded import file. The extension only decides between
+ * JSON, CSV and spreadsheet; spreadsheet containers are sniffed by content.
+ */
+export function parseTimesheetImport(input: ArrayBuffer | Uint8Array, fileName: string): TimesheetImportTable {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const ext = fileName.toLowerCase().split('.').pop() ?? '';
+
+  if (ext === 'json') {
+    return jsonToTable(new TextDecoder('utf-8').decode(bytes));
+  }
+
+  if (ext === 'csv' || ext === 'txt') {
+    const text = new TextDecoder('utf-8').decode(bytes).replace(/^\uFEFF/, '');
+    const wb = XLSX.read(text, { type: 'string', raw: true });
+    const sheet = wb.Sheets[wb.SheetNames[0]];
+    const grid = sheet ? XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' }) : [];
+    return gridToTable('csv', grid);
+  }
+
+  const format = sniffFormat(bytes);
+  const wb = XLSX.read(bytes, { type: 'array', cellDates: true });
+  const sheet = wb.Sheets[wb.SheetNames[0]];
+  const grid = sheet ? XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '' }) : [];
+  return gridToTable(format, grid);
+}
+
+/**
+ * Convenience wrapper for a browser File (structurally typed to avoid a DOM lib
+ * dependency). Reads the file into an ArrayBuffer then delegates.
+ */
+export async function parseTimesheetImportFromFile(file: {
+  name: string;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}): Promise<TimesheetImportTable> {
+  const buffer = await file.arrayBuffer();
+  return parseTimesheetImport(buffer, file.name);
+}
+
+// ---------------------------------------------------------------------------
+// Column mapping
+// ---------------------------------------------------------------------------
+
+/** Pre-select a header per field by alias; each header is used at most once. */
+export function guessColumnMapping(headers: string[]): TimesheetColumnMapping {
+  const used = new Set<string>();
+  const mapping = {} as TimesheetColumnMapping;
+  for (const field of TIMESHEET_IMPORT_FIELDS) {
+    mapping[field] = null;
+    for (const alias of FIELD_ALIASES[field]) {
+      const header = headers.find((h) => !used.has(h) && h.trim().toLowerCase() === alias);
+      if (header) {
+        mapping[field] = header;
+        used.add(header);
+        break;
+      }
+    }
+  }
+  // Minutes wins when both are present; hours is only the fallback.
+  if (mapping.minutes) mapping.hours = null;
+  return mapping;
+}
+
+export function applyColumnMapping(
+  table: TimesheetImportTable,
+  mapping: TimesheetColumnMapping,
+): MappedTimesheetImport {
+  const errors: string[] = [];
+  if (!mapping.user) errors.push('Map a column to User');
+  if (!mapping.project) errors.push('Map a column to Project');
+  if (!mapping.date) errors.push('Map a column to Date');
+  if (!mapping.minutes && !mapping.hours) errors.push('Map a column to Minutes or Hours');
+  if (errors.length > 0) return { rows: [], errors };
+
+  const cell = (record: Record<string, unknown>, field: TimesheetImportField) => {
+    const header = mapping[field];
+    return header ? record[header] : undefined;
+  };
+
+  const rows: ManualTimesheetRow[] = [];
+  table.records.forEach((record, i) => {
+    const mappedCells = TIMESHEET_IMPORT_FIELDS.map((field) => cellToString(cell(record, field)));
+    if (mappedCells.every((value) => value === '')) return; // blank line
+
+    rows.push({
+      rowNumber: table.firstRowNumber + i,
+      user: cellToString(cell(record, 'user')),
+      project: cellToString(cell(record, 'project')),
+      task: cellToString(cell(record, 'task')),
+      date: parseImportDate(cell(record, 'date')),
+      minutes: mapping.minutes
+        ? parseDecimal(cell(record, 'minutes'))
+        : parseHoursToMinutes(cell(record, 'hours')),
+    });
+  });
+
+  return { rows, errors };
+}
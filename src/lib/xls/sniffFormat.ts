@@ -2,22 +2,56 @@
 // sniffFormat — detect the real container of an uploaded "bank export" file.
 // =============================================================================
 // The UniCredit Bulbank eBank export "report(N).xls" is an HTML <table> file
-// misnamed .xls. Other uploads may be genuine BIFF .xls (OLE2 compound) or real
-// OOXML .xlsx (a zip). NEVER trust the file extension — sniff the bytes.
-//   - zip magic  "PK\x03\x04"      → xlsx
-//   - OLE2 magic  D0 CF 11 E0      → binary_xls
-//   - leading '<' (after BOM/ws)   → html_xls
+// misnamed .xls. Other uploads may be genuine BIFF .xls (OLE2 compound), real
+// OOXML .xlsx (a zip), or a text statement from another bank. NEVER trust the
+// file extension — sniff the bytes.
+//   - zip magic  "PK\x03\x04"                     → xlsx
+//   - OLE2 magic  D0 CF 11 E0                     → binary_xls
+//   - leading '<' with a camt.053 / BkToCstmrStmt → camt053
+//   - any other leading '<' (after BOM/ws)        → html_xls
+//   - ":20:" and ":61:" / ":60F:" field tags       → mt940
+//   - a delimited line (; , or tab) near the top  → csv
 // =============================================================================
 
-export type SourceFormat = 'html_xls' | 'binary_xls' | 'xlsx';
+export type SourceFormat = 'html_xls' | 'binary_xls' | 'xlsx' | 'camt053' | 'mt940' | 'csv';
+
+/** Bytes inspected when classifying a text statement. */
+const SNIFF_WINDOW = 4096;
+
+/** Leading lines searched for a delimited CSV header. */
+const CSV_PREAMBLE_LINES = 10;
 
 function toBytes(input: ArrayBuffer | Uint8Array): Uint8Array {
   return input instanceof Uint8Array ? input : new Uint8Array(input);
 }
 
+/** A MT940 block: ":20:" transaction reference plus a statement line or balance. */
+function isMt940(text: string): boolean {
+  return /(^|\n)\s*:20:/.test(text) && /(^|\n):(61|60F|60M):/.test(text);
+}
+
+/**
+ * One of the first lines splits into 3+ fields on one delimiter (banks often
+ * put an account / period preamble above the CSV header).
+ */
+function isDelimited(text: string): boolean {
+  const lines = text.split(/\r?\n/).slice(0, CSV_PREAMBLE_LINES);
+  return lines.some((line) => [';', ',', '\t'].some((delimiter) => line.split(delimiter).length >= 3));
+}
+
+function sniffText(text: string): SourceFormat | null {
+  const trimmed = text.replace(/^\uFEFF/, '').trimStart();
+  if (trimmed.startsWith('<')) {
+    return /camt\.053|<(\w+:)?BkToCstmrStmt[\s>]/.test(trimmed) ? 'camt053' : 'html_xls';
+  }
+  if (isMt940(trimmed)) return 'mt940';
+  if (isDelimited(trimmed)) return 'csv';
+  return null;
+}
+
 export function sniffFormat(input: ArrayBuffer | Uint8Array | string): SourceFormat {
   if (typeof input === 'string') {
-    return input.trimStart().startsWith('<') ? 'html_xls' : 'binary_xls';
+    return sniffText(input) ?? 'binary_xls';
   }
 
   const bytes = toBytes(input);
@@ -39,7 +73,18 @@ export function sniffFormat(input: ArrayBuffer | Uint8Array | string): SourceFor
   ) {
     i++;
   }
-  if (bytes[i] === 0x3c /* '<' */) return 'html_xls';
+  if (bytes[i] === 0x3c /* '<' */) {
+    // The statement root sits within the first few KB (after the XML prolog).
+    const head = new TextDecoder('utf-8').decode(bytes.subarray(0, SNIFF_WINDOW));
+    return sniffText(head) ?? 'html_xls';
+  }
+
+  // Text statements never contain NUL bytes; binary spreadsheets always do.
+  const window = bytes.subarray(0, SNIFF_WINDOW);
+  if (window.length > 0 && !window.includes(0x00)) {
+    const text = sniffText(new TextDecoder('utf-8').decode(window));
+    if (text) return text;
+  }
 
   // Unknown — let SheetJS attempt a binary parse as a last resort.
   return 'binary_xls';
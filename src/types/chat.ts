@@ -3,14 +3,16 @@
  * Types for the conversational AI assistant feature
  */
 
-/**
- * A tool call result showing what the AI executed
- */
-export interface ToolCallResult {
-  toolName: string;
-  input: Record<string, unknown>;
-  output: unknown;
-}
+import type { ChatBlock, ChatToolCall } from '../lib/chat/types';
+
+export type {
+  ChatBlock,
+  ChatChartBlock,
+  ChatTableBlock,
+  ChatTableColumn,
+  ChatToolCall,
+  ChatValueFormat,
+} from '../lib/chat/types';
 
 /**
  * A single message in the chat conversation
@@ -20,16 +22,44 @@ export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
-  toolCalls?: ToolCallResult[];
+  /** Tables and charts shown under an assistant answer */
+  blocks?: ChatBlock[];
+  toolCalls?: ChatToolCall[];
   isStreaming?: boolean;
 }
 
+/**
+ * A stored conversation (chat_conversations, migration 155)
+ */
+export interface ChatConversation {
+  id: string;
+  title: string;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * A stored message (chat_messages, migration 155)
+ */
+export interface ChatMessageRow {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  blocks: ChatBlock[];
+  tool_calls: ChatToolCall[];
+  created_at: string;
+}
+
 /**
  * Chat state for the useChat hook
  */
 export interface ChatState {
+  conversations: ChatConversation[];
+  /** null until the first message of a new conversation is answered */
+  conversationId: string | null;
   messages: ChatMessage[];
   isLoading: boolean;
+  isLoadingConversation: boolean;
   error: string | null;
 }
 
@@ -37,26 +67,16 @@ export interface ChatState {
  * Request body sent to the chat Edge Function
  */
 export interface ChatRequest {
-  messages: Array<{
-    role: 'user' | 'assistant';
-    content: string;
-  }>;
+  /** Omit to start a new conversation */
+  conversationId?: string | null;
+  message: string;
 }
 
 /**
  * Response from the chat Edge Function
  */
 export interface ChatResponse {
-  content: string;
-  toolCalls?: ToolCallResult[];
+  conversationId: string;
+  message: ChatMessageRow;
   error?: string;
 }
-
-/**
- * Tool parameter schemas (for documentation/reference)
- */
-export interface ToolDefinition {
-  name: string;
-  description: string;
-  parameters: Record<string, unknown>;
-}
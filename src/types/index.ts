@@ -1,3 +1,6 @@
+import type { TimeSourceId } from '../lib/timeSync/types';
+import type { WebhookEventType } from '../lib/webhooks/webhooks';
+
 export interface TimesheetEntry {
   id: string;
   clockify_workspace_id: string;
@@ -58,7 +61,8 @@ export interface EmploymentType {
 export type BillingMode = 'monthly' | 'hourly';
 
 // User Association Types (for multi-system time tracking)
-export type AssociationSource = 'clockify' | 'clickup';
+/** Any time source with a sync adapter (see lib/timeSync and the time_sources table) */
+export type AssociationSource = TimeSourceId;
 
 export interface ResourceUserAssociation {
   id: string;
@@ -85,6 +89,8 @@ export interface Resource {
   hourly_rate: number | null;
   monthly_cost: number | null;
   bamboo_employee_id: string | null;
+  /** Holiday calendar this resource works to (null = default calendar) */
+  holiday_calendar_id: string | null;
   created_at: string;
   updated_at: string;
   // Multi-system user associations (Clockify, ClickUp, etc.)
@@ -102,11 +108,49 @@ export interface ResourceFormData {
   hourly_rate: number | null;
   monthly_cost: number | null;
   bamboo_employee_id: string | null;
+  holiday_calendar_id: string | null;
+}
+
+// Employee Cost History Types (Migration 143)
+
+/** An employee cost in force from cost_month until the resource's next record */
+export interface ResourceMonthlyCost {
+  id: string;
+  resource_id: string;
+  /** First month the cost applies to (YYYY-MM-01) */
+  cost_month: string;
+  billing_mode: BillingMode;
+  hourly_rate: number | null;
+  monthly_cost: number | null;
+  expected_hours: number | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ResourceCostFormData = Pick<
+  ResourceMonthlyCost,
+  'billing_mode' | 'hourly_rate' | 'monthly_cost' | 'expected_hours'
+>;
+
+// Holiday Calendar Types
+export type EasterRule = 'orthodox' | 'western' | 'none';
+
+export interface HolidayCalendar {
+  id: string;
+  code: string;
+  name: string;
+  country_code: string;
+  region_code: string | null;
+  easter_rule: EasterRule;
+  is_default: boolean;
+  created_at: string;
+  updated_at: string;
 }
 
-// Bulgarian Holidays Types
-export interface BulgarianHoliday {
+export interface CalendarHoliday {
   id: string;
+  calendar_id: string;
   holiday_name: string;
   holiday_date: string;
   is_system_generated: boolean;
@@ -141,6 +185,12 @@ export interface ProjectFormData {
 // Monthly Project Rates Types (Task 027)
 // ============================================================================
 
+/**
+ * Currency a company is invoiced in and rates are entered in (migration 153).
+ * Reporting stays in USD, converted with the month's EUR/USD rate.
+ */
+export type BillingCurrency = 'USD' | 'EUR';
+
 /**
  * A monthly rate record from the project_monthly_rates table.
  */
@@ -149,6 +199,7 @@ export interface ProjectMonthlyRate {
   project_id: string;
   rate_month: string;  // ISO date string, always 1st of month (YYYY-MM-DD)
   rate: number;
+  currency: BillingCurrency;
   created_at: string;
   updated_at: string;
 }
@@ -228,9 +279,15 @@ export interface ProjectRateDisplay {
   canonicalClientName: string | null;
   firstSeenMonth: string | null;
 
-  // What: the effective rate for the selected month
+  // What: the effective rate for the selected month (USD)
   effectiveRate: number;
 
+  // Currency: the rate as entered and the company's invoice currency
+  nativeRate: number;
+  rateCurrency: BillingCurrency;
+  billingCurrency: BillingCurrency;
+  billingFxRate: number;  // USD per unit of billingCurrency for the month
+
   // Why: where the rate came from
   source: RateSource;
   sourceMonth: string | null;  // The month the rate was set (null for 'default')
@@ -255,6 +312,7 @@ export interface ProjectRateDisplay {
 export interface RateHistoryEntry {
   rateMonth: string;
   rate: number;
+  currency: BillingCurrency;
   createdAt: string;
   updatedAt: string;
 }
@@ -281,6 +339,11 @@ export interface ProjectRatesForMonthResult {
   effective_rounding_mode: RoundingMode;
   rounding_source: RateSource;
   rounding_source_month: string | null;
+  // Currency fields (migration 153); effective_rate is USD
+  native_rate: number;
+  rate_currency: BillingCurrency;
+  billing_currency: BillingCurrency;
+  billing_fx_rate: number;
 }
 
 /**
@@ -295,7 +358,12 @@ export interface EffectiveRatesForRangeResult {
 }
 
 // User Management Types
-export type UserRole = 'admin' | 'user';
+
+/**
+ * Application role (migration 142). 'user' is the legacy read-only member
+ * role; project_manager is scoped to the projects its linked resource manages.
+ */
+export type UserRole = 'admin' | 'finance' | 'project_manager' | 'investor' | 'user';
 
 export interface AppUser {
   id: string;
@@ -305,6 +373,20 @@ export interface AppUser {
   is_verified: boolean;
   created_at: string;
   last_sign_in_at: string | null;
+  /** Linked employee resource (scopes project managers) */
+  resource_id: string | null;
+}
+
+/**
+ * The signed-in user's access, from get_my_access().
+ * company_ids / project_ids are null for company-wide roles.
+ */
+export interface AccessScope {
+  role: UserRole;
+  resource_id: string | null;
+  company_wide: boolean;
+  company_ids: string[] | null;
+  project_ids: string[] | null;
 }
 
 export interface CreateUserParams {
@@ -313,6 +395,8 @@ export interface CreateUserParams {
   display_name?: string | null;
   role?: UserRole;
   send_invite?: boolean;
+  /** Employee resource to link after the user is created */
+  resource_id?: string | null;
 }
 
 export interface CreateUserResult {
@@ -484,6 +568,7 @@ export interface Company {
   created_at: string;
   updated_at: string;
   manual_origin?: boolean;
+  billing_currency: BillingCurrency;
 }
 
 /**
@@ -491,6 +576,7 @@ export interface Company {
  */
 export interface CompanyFormData {
   display_name: string;
+  billing_currency: BillingCurrency;
 }
 
 /**
@@ -653,6 +739,88 @@ export interface StagedProjectGroupChanges {
   removals: Set<string>;
 }
 
+// ============================================================================
+// Entity Merge Suggestion Types (migration 156)
+// ============================================================================
+
+/** Entity types with a grouping editor */
+export type MergeEntityType = 'employee' | 'company' | 'project';
+
+/**
+ * One row of get_entity_merge_signals(): the entity being edited
+ * (is_target) or an unassociated candidate of the same type. Signals that
+ * do not apply to the entity type are null.
+ */
+export interface MergeSignalRow {
+  entity_id: string;
+  /** Source system ID: timesheet user_id / client_id / project_id */
+  external_id: string | null;
+  is_target: boolean;
+  entity_name: string;
+  /** external_label (employee), client_name (company), company name (project) */
+  alt_name: string | null;
+  email: string | null;
+  /** Days with logged time in the last 365 days */
+  work_days: number;
+  /** Of those, days the target also has logged time */
+  overlap_days: number;
+  /** Employee: clients both worked for */
+  shared_clients: number | null;
+  /** Company / project: users who logged time for both */
+  shared_users: number | null;
+  /** Project: same canonical company as the target */
+  same_company: boolean | null;
+}
+
+// ============================================================================
+// Audit Trail Types (migration 157)
+// ============================================================================
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+/** What an audited change belongs to; group rows belong to the primary */
+export type AuditEntityType =
+  | 'employee'
+  | 'company'
+  | 'project'
+  | 'holiday'
+  | 'holiday_calendar'
+  | 'expense'
+  | 'release_note';
+
+/** One row of get_audit_log() */
+export interface AuditLogEntry {
+  id: string;
+  /** 'entity' = audit_log, 'billing' = billing_audit_log */
+  source: 'entity' | 'billing';
+  table_name: string;
+  record_id: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  /** Current name of the entity; null once it is deleted */
+  entity_label: string | null;
+  /** Name of the employee / company / project a membership row points at */
+  related_label: string | null;
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+  /** UPDATE only */
+  changed_fields: string[] | null;
+  changed_by: string | null;
+  changed_by_name: string | null;
+  changed_at: string;
+}
+
+/** get_audit_log() filters; all optional */
+export interface AuditLogFilters {
+  entityType?: AuditEntityType | null;
+  entityId?: string | null;
+  changedBy?: string | null;
+  /** 'YYYY-MM-DD', inclusive */
+  from?: string | null;
+  to?: string | null;
+}
+
 // ============================================================================
 // Monthly Billing Rules Types (Task 028)
 // ============================================================================
@@ -690,6 +858,23 @@ export interface BillingMonthStatus {
   reopenReason: string | null;
 }
 
+/**
+ * Month-level close state from get_billing_month_close_status RPC.
+ * A month is 'closed' while any project row is closed; figures are then frozen.
+ */
+export interface BillingMonthCloseStatus {
+  billingMonth: string;
+  status: BillingMonthStatusType;
+  projectCount: number;
+  lockedRevenueCents: number;
+  pendingRecalcCount: number;
+  closedAt: string | null;
+  closedByEmail: string | null;
+  reopenedAt: string | null;
+  reopenedByEmail: string | null;
+  reopenReason: string | null;
+}
+
 /**
  * Source of carryover hours (for audit trail).
  */
@@ -707,7 +892,18 @@ export type BillingAdjustment =
   | { type: 'none' }
   | { type: 'minimum_applied'; minimumHours: number; paddingHours: number }
   | { type: 'maximum_applied'; maximumHours: number; carryoverOut: number }
-  | { type: 'maximum_applied_unbillable'; maximumHours: number; unbillableHours: number };
+  | { type: 'maximum_applied_unbillable'; maximumHours: number; unbillableHours: number }
+  | { type: 'manual_adjustment'; hours: number; revenue: number };
+
+/**
+ * Net manual write-down / write-up of a project-month (billing_adjustments,
+ * migration 152). Hours are billed at the project's rate; amount is added
+ * to revenue as-is. Negative values write down.
+ */
+export interface ManualBillingAdjustment {
+  hours: number;
+  amount: number;
+}
 
 /**
  * Complete result from billing hours calculation.
@@ -728,6 +924,8 @@ export interface BilledHoursResult {
   unbillableHours: number;      // Hours that won't be billed (when max exceeded without carryover)
   carryoverConsumed: number;    // How much of carryoverIn was used (FIFO consumption)
   minimumPadding: number;       // Hours added due to minimum (billedHours - adjustedHours when min applied)
+  manualAdjustmentHours: number;   // Net change to billedHours from manual adjustments
+  manualAdjustmentRevenue: number; // Net change to revenue from manual adjustments
 
   // Flags for display indicators
   minimumApplied: boolean;
@@ -1078,6 +1276,7 @@ export interface QBOInvoiceLogEntry {
   qbo_invoice_id: string | null;
   invoice_number: string | null;
   total_amount_cents: number;
+  currency: BillingCurrency;
   line_item_count: number;
   status: 'pending' | 'sent' | 'error';
   error_message: string | null;
@@ -1087,6 +1286,484 @@ export interface QBOInvoiceLogEntry {
   updated_at: string;
 }
 
+// ============================================================================
+// Accounts Receivable Types (migration 138)
+// ============================================================================
+
+export type ARAgingBucket = 'paid' | 'current' | 'days_1_30' | 'days_31_60' | 'days_61_90' | 'days_90_plus';
+
+/**
+ * Receivable from v_ar_invoice_status: one invoice per company-month, from
+ * QuickBooks (source 'qbo') or an EOM invoice PDF (source 'eom_pdf').
+ */
+export interface ARInvoice {
+  id: string;
+  company_id: string;
+  canonical_company_id: string;
+  company_name: string;
+  report_year: number;
+  report_month: number;
+  source: 'qbo' | 'eom_pdf';
+  invoice_number: string | null;
+  qbo_invoice_id: string | null;
+  issued_on: string;
+  due_on: string;
+  amount_cents: number;
+  paid_cents: number;
+  balance_cents: number;
+  status: 'open' | 'partial' | 'paid';
+  last_payment_on: string | null;
+  qbo_synced_at: string | null;
+  sync_error: string | null;
+  eom_report_id: string | null;
+  days_past_due: number;
+  aging_bucket: ARAgingBucket;
+  /** Currency of amount/paid/balance (migration 153) */
+  currency: BillingCurrency;
+  balance_usd_cents: number;
+}
+
+/**
+ * Per-canonical-company aging row from v_ar_aging (open balances only, in
+ * USD). Bucket amounts are null when the company has nothing in that bucket.
+ */
+export interface ARAgingRow {
+  canonical_company_id: string;
+  company_name: string;
+  open_cents: number;
+  current_cents: number | null;
+  days_1_30_cents: number | null;
+  days_31_60_cents: number | null;
+  days_61_90_cents: number | null;
+  days_90_plus_cents: number | null;
+  overdue_cents: number | null;
+  open_invoice_count: number;
+  overdue_invoice_count: number;
+  max_days_past_due: number;
+  oldest_due_on: string;
+}
+
+/** Payment applied to a receivable (ar_payments). */
+export interface ARPayment {
+  id: string;
+  ar_invoice_id: string;
+  amount_cents: number;
+  paid_on: string;
+  source: 'qbo' | 'manual';
+  qbo_payment_id: string | null;
+  reference: string | null;
+  note: string | null;
+  recorded_by: string | null;
+  created_at: string;
+}
+
+// ============================================================================
+// Project Budget Types (migration 140)
+// ============================================================================
+
+export type ProjectBudgetType = 'hours' | 'dollars';
+
+/**
+ * Budget with burn to date from v_project_budget_status. budget_hours is set
+ * for hours budgets, budget_cents for dollar budgets. Months are 'YYYY-MM-01'.
+ */
+export interface ProjectBudgetStatus {
+  id: string;
+  project_id: string;
+  external_project_id: string;
+  project_name: string;
+  company_id: string | null;
+  company_name: string | null;
+  budget_type: ProjectBudgetType;
+  budget_hours: number | null;
+  budget_cents: number | null;
+  start_month: string;
+  end_month: string;
+  notes: string | null;
+  burned_hours: number;
+  burned_cents: number;
+  burn_pct: number;
+  months_elapsed: number;
+  months_total: number;
+  created_at: string;
+  updated_at: string;
+}
+
+/** One month of get_project_budget_burn(). */
+export interface ProjectBudgetBurnMonth {
+  summary_month: string;
+  burn_hours: number;
+  burn_cents: number;
+  cumulative_hours: number;
+  cumulative_cents: number;
+}
+
+export interface ProjectBudgetFormData {
+  project_id: string;
+  budget_type: ProjectBudgetType;
+  budget_hours: number | null;
+  budget_cents: number | null;
+  start_month: string;
+  end_month: string;
+  notes: string | null;
+}
+
+// ============================================================================
+// Report Delivery Types (migration 141)
+// ============================================================================
+
+export type ReportType = 'eom' | 'weekly';
+
+export type ReportRecipientKind = 'to' | 'cc';
+
+export type ReportDeliveryStatus = 'queued' | 'sent' | 'failed' | 'bounced';
+
+/** Row from report_recipients. Emails are stored lower-cased. */
+export interface ReportRecipient {
+  id: string;
+  company_id: string;
+  report_type: ReportType;
+  email: string;
+  name: string | null;
+  recipient_kind: ReportRecipientKind;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReportRecipientFormData {
+  company_id: string;
+  report_type: ReportType;
+  email: string;
+  name: string | null;
+  recipient_kind: ReportRecipientKind;
+}
+
+/** Row from report_schedules (one per report type). */
+export interface ReportSchedule {
+  report_type: ReportType;
+  is_enabled: boolean;
+  /** Weekly: 0 = Sunday … 6 = Saturday */
+  day_of_week: number;
+  /** EOM: day of the following month (1–28) */
+  day_of_month: number;
+  send_hour_utc: number;
+  subject_template: string;
+  body_template: string;
+  attach_csv: boolean;
+  attach_invoice_pdf: boolean;
+  updated_at: string;
+}
+
+export type ReportScheduleFormData = Omit<ReportSchedule, 'report_type' | 'updated_at'>;
+
+/** Row from v_report_delivery_latest: the latest delivery of a report. */
+export interface ReportDeliveryLatest {
+  id: string;
+  report_type: ReportType;
+  company_id: string;
+  /** 'YYYY-MM' for EOM, week start 'YYYY-MM-DD' for weekly */
+  period_key: string;
+  trigger: 'schedule' | 'manual';
+  to_emails: string[];
+  cc_emails: string[];
+  status: ReportDeliveryStatus;
+  attempt_count: number;
+  last_error: string | null;
+  next_retry_at: string | null;
+  sent_at: string | null;
+  bounced_at: string | null;
+  created_at: string;
+  delivery_count: number;
+}
+
+// ============================================================================
+// Company P&L Types (migration 147)
+// ============================================================================
+
+export type PnlSection = 'revenue' | 'labor' | 'overhead';
+
+/**
+ * One row of get_company_pnl_lines: a month x section x line amount in USD
+ * cents. Lines are canonical companies (revenue, labor) or expense categories
+ * (overhead). pending_count = rows excluded from amount_cents because their
+ * cost rate (labor) or USD rate (overhead) is not known yet.
+ */
+export interface PnlLineRow {
+  summary_month: string;
+  section: PnlSection;
+  line_id: string;
+  line_label: string;
+  amount_cents: number;
+  pending_count: number;
+}
+
+// ============================================================================
+// Outbound Webhook Types (migration 149)
+// ============================================================================
+
+export type { WebhookEventType };
+
+export type WebhookDeliveryStatus = 'queued' | 'delivered' | 'failed';
+
+export type WebhookDeliveryTrigger = 'event' | 'redeliver' | 'test';
+
+/** Row from webhook_endpoints. The signing secret is never readable here. */
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  description: string | null;
+  event_types: WebhookEventType[];
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WebhookEndpointFormData {
+  name: string;
+  url: string;
+  description: string | null;
+  event_types: WebhookEventType[];
+  is_active: boolean;
+}
+
+/** Row from webhook_deliveries with its endpoint's name. */
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  /** A WebhookEventType, or 'webhook.test' */
+  event_type: string;
+  trigger: WebhookDeliveryTrigger;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  next_retry_at: string | null;
+  response_status: number | null;
+  response_body: string | null;
+  last_error: string | null;
+  duration_ms: number | null;
+  delivered_at: string | null;
+  created_at: string;
+  endpoint: { name: string } | null;
+}
+
+/** Outcome of a redeliver / send test, as returned by deliver-webhooks */
+export interface WebhookSendResult {
+  id: string;
+  status: Exclude<WebhookDeliveryStatus, 'queued'>;
+  response_status: number | null;
+  error: string | null;
+}
+
+// ============================================================================
+// Capacity Planning Types (migration 150)
+// ============================================================================
+
+/** Row from resource_allocations. week_start is a Monday ('YYYY-MM-DD'). */
+export interface ResourceAllocation {
+  id: string;
+  resource_id: string;
+  project_id: string;
+  week_start: string;
+  planned_hours: number;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * One row of get_capacity_plan(): a resource's planned and actual hours on a
+ * canonical project in one week. Either side may be zero.
+ */
+export interface CapacityPlanRow {
+  resource_id: string;
+  project_id: string;
+  project_name: string;
+  company_name: string | null;
+  week_start: string;
+  planned_hours: number;
+  actual_hours: number;
+  rate: number;
+  planned_revenue_cents: number;
+}
+
+/** Planned hours for one resource and project over consecutive weeks. */
+export interface AllocationFormData {
+  resource_id: string;
+  project_id: string;
+  /** Mondays ('YYYY-MM-DD') to allocate */
+  week_starts: string[];
+  planned_hours: number;
+  notes: string | null;
+}
+
+// ============================================================================
+// Timesheet Approval Types (migration 151)
+// ============================================================================
+
+/** Stored review of a line. 'pending' is the absence of a review. */
+export type TimesheetReviewStatus = 'approved' | 'adjusted' | 'flagged';
+
+/**
+ * One row of get_timesheet_review_summary(): a canonical project with hours
+ * logged in the month.
+ */
+export interface TimesheetReviewSummaryRow {
+  project_id: string;
+  project_name: string;
+  company_name: string | null;
+  /** Whether the month's hours are billed only once reviewed */
+  requires_approval: boolean;
+  /** First month requiring approval ('YYYY-MM-01'), null when not opted in */
+  approval_start_month: string | null;
+  /** Whether the caller may review this project's hours */
+  can_review: boolean;
+  line_count: number;
+  /** Lines never reviewed, or approved before more time was logged */
+  pending_count: number;
+  flagged_count: number;
+  logged_minutes: number;
+  billable_minutes: number;
+}
+
+/**
+ * One row of get_timesheet_review(): a person's hours on a task in the
+ * project-month, with the line's review and the minutes that will be billed.
+ */
+export interface TimesheetReviewLine {
+  user_id: string;
+  user_name: string | null;
+  task_name: string;
+  client_id: string;
+  client_name: string;
+  actual_minutes: number;
+  entry_count: number;
+  requires_approval: boolean;
+  review_status: TimesheetReviewStatus | null;
+  /** Minutes logged when the line was reviewed */
+  reviewed_minutes: number | null;
+  /** Written-down minutes of an adjusted line */
+  approved_minutes: number | null;
+  review_reason: string | null;
+  reviewer_email: string | null;
+  reviewed_at: string | null;
+  billable_minutes: number;
+}
+
+/** A line identified for review_timesheet_lines() */
+export interface TimesheetLineRef {
+  user_id: string;
+  task_name: string;
+  client_id: string;
+  /** Required when writing the line down */
+  approved_minutes?: number;
+}
+
+// ============================================================================
+// Billing Adjustment Types (migration 152)
+// ============================================================================
+
+/** Whether an adjustment is counted in hours or as an amount */
+export type BillingAdjustmentType = 'hours' | 'amount';
+
+/**
+ * One row of get_billing_adjustments(): a manual write-down (negative) or
+ * write-up (positive) of a canonical project's month.
+ */
+export interface BillingAdjustmentRow {
+  id: string;
+  /** Canonical project (projects.id) */
+  project_id: string;
+  /** External project id, as used by the billing results */
+  external_project_id: string;
+  project_name: string;
+  company_name: string | null;
+  adjustment_month: string;
+  adjustment_type: BillingAdjustmentType;
+  /** Signed hours, set when adjustment_type is 'hours' */
+  hours: number | null;
+  /** Signed cents, set when adjustment_type is 'amount' */
+  amount_cents: number | null;
+  reason: string;
+  created_by_email: string | null;
+  created_at: string;
+  /** Whether the caller may edit or remove the adjustment */
+  can_edit: boolean;
+}
+
+/** Form data for adding an adjustment */
+export interface BillingAdjustmentFormData {
+  /** External project id (projects.project_id) */
+  externalProjectId: string;
+  /** 'YYYY-MM-01' */
+  month: string;
+  adjustmentType: BillingAdjustmentType;
+  /** Signed hours or dollars, depending on adjustmentType */
+  value: number;
+  reason: string;
+}
+
+// ============================================================================
+// Billing Verification Types (migration 154)
+// ============================================================================
+
+/**
+ * One row of get_billing_verification_status(): a month with a verification
+ * snapshot, its sign-off and the live drift from the snapshot.
+ */
+export interface BillingVerificationMonth {
+  summary_month: string;
+  snapshot_projects: number;
+  /** Snapshot total of COALESCE(milestone_override, billed) revenue */
+  snapshot_effective_cents: number;
+  verified_by: string;
+  verified_at: string;
+  is_signed_off: boolean;
+  signoff_notes: string | null;
+  signed_off_at: string | null;
+  signed_off_by_email: string | null;
+  /** Last nightly or manual verification run (signed-off months only) */
+  last_verified_at: string | null;
+  drifted_projects: number;
+  /** Fields that differ, across all projects */
+  discrepancy_count: number;
+  /** Sum of each drifted project's absolute effective revenue change */
+  drift_cents: number;
+}
+
+/** Field names returned by get_billing_verification_diffs() */
+export type BillingVerificationField =
+  | 'actual_minutes'
+  | 'rounded_minutes'
+  | 'billed_hours'
+  | 'unbillable_hours'
+  | 'base_revenue_cents'
+  | 'billed_revenue_cents'
+  | 'milestone_override_cents'
+  | 'rate_used'
+  | 'rounding_used'
+  | 'project_missing'
+  | 'project_added';
+
+/** One drifted field of a project (get_billing_verification_diffs) */
+export interface BillingVerificationDiff {
+  project_id: string;
+  project_name: string;
+  company_name: string | null;
+  field_name: BillingVerificationField;
+  /** Null for project_missing / project_added, or a NULL milestone override */
+  snapshot_value: number | null;
+  current_value: number | null;
+  difference: number | null;
+  /** Set for the *_cents fields and for project_missing / project_added */
+  diff_cents: number | null;
+  /** The project's change in effective revenue, repeated on each of its rows */
+  effective_diff_cents: number;
+}
+
 // ============================================================================
 // Employee Daily Totals Types (Layer 3 — Burn page)
 // ============================================================================
@@ -1155,6 +1832,12 @@ export interface EmployeeProjectProfit {
 // API Keys (mcp_api schema) Types
 // ============================================================================
 
+/**
+ * MCP tool scope granted to an API key (migration 148). Keys minted before
+ * scopes existed hold 'hours:read' only.
+ */
+export type ApiKeyScope = 'hours:read' | 'finance:read' | 'timesheets:write' | 'time_off:write';
+
 /**
  * API Key record returned by mcp_api.admin_list_api_keys RPC.
  * The plaintext key is NEVER returned here — only the prefix for display.
@@ -1165,6 +1848,7 @@ export interface ApiKey {
   description: string | null;
   prefix: string;        // e.g. "mfst_live_AbCd"
   status: 'active' | 'revoked';
+  scopes: ApiKeyScope[];
   created_at: string;
   revoked_at: string | null;
   last_used_at: string | null;
@@ -1177,6 +1861,8 @@ export interface ApiKey {
 export interface CreateApiKeyParams {
   name: string;
   description?: string | null;
+  /** Defaults to ['hours:read'] server-side when omitted */
+  scopes?: ApiKeyScope[];
 }
 
 /**
@@ -1196,3 +1882,12 @@ export interface RevokeApiKeyResult {
   success: boolean;
   error?: string;
 }
+
+/**
+ * Result from mcp_api.admin_set_api_key_scopes.
+ */
+export interface SetApiKeyScopesResult {
+  success: boolean;
+  scopes?: ApiKeyScope[];
+  error?: string;
+}
@@ -0,0 +1,176 @@
+/**
+ * auditTrail - Pure presentation of get_audit_log() rows.
+ *
+ * audit_log (migration 157) and billing_audit_log (migration 028) store the
+ * whole row before and after each change. This turns a row into a one-line
+ * summary ("Updated employee"), a name for the record, and the field-level
+ * before / after list shown on the Audit page and in the editor history
+ * panels.
+ */
+
+import type { AuditAction, AuditEntityType, AuditLogEntry } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface AuditFieldChange {
+  field: string;
+  label: string;
+  /** Formatted; '—' for empty */
+  before: string;
+  after: string;
+}
+
+// ============================================================================
+// LABELS
+// ============================================================================
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  employee: 'Employee',
+  company: 'Company',
+  project: 'Project',
+  holiday: 'Holiday',
+  holiday_calendar: 'Holiday calendar',
+  expense: 'Expense',
+  release_note: 'Release note',
+};
+
+export const AUDIT_ENTITY_OPTIONS = (Object.keys(AUDIT_ENTITY_LABELS) as AuditEntityType[]).map(
+  (value) => ({ value, label: AUDIT_ENTITY_LABELS[value] }),
+);
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: 'Added',
+  UPDATE: 'Updated',
+  DELETE: 'Removed',
+};
+
+/** Badge variant per action */
+export const AUDIT_ACTION_VARIANTS: Record<AuditAction, 'success' | 'info' | 'error'> = {
+  INSERT: 'success',
+  UPDATE: 'info',
+  DELETE: 'error',
+};
+
+/** What one row of each audited table is */
+const TABLE_NOUNS: Record<string, string> = {
+  resources: 'employee',
+  resource_user_associations: 'user association',
+  resource_monthly_costs: 'monthly cost',
+  physical_person_groups: 'employee group',
+  physical_person_group_members: 'group member',
+  companies: 'company',
+  company_groups: 'company group',
+  company_group_members: 'group member',
+  projects: 'project',
+  project_groups: 'project group',
+  project_group_members: 'group member',
+  project_managers: 'project manager',
+  calendar_holidays: 'holiday',
+  holiday_calendars: 'holiday calendar',
+  holiday_calendar_rules: 'holiday rule',
+  expenses: 'expense',
+  release_notes: 'release note',
+  // billing_audit_log
+  project_monthly_billing_limits: 'billing limits',
+  project_monthly_active_status: 'active status',
+  project_carryover_hours: 'carryover hours',
+  project_monthly_rates: 'monthly rate',
+  billing_adjustments: 'billing adjustment',
+};
+
+/** Bookkeeping columns left out of the field list */
+const HIDDEN_FIELDS = new Set(['id', 'created_at', 'updated_at', 'created_by', 'updated_by', 'row_hash']);
+
+/** Columns that name a record, most specific first */
+const NAME_FIELDS = [
+  'display_name',
+  'project_name',
+  'client_name',
+  'holiday_name',
+  'name',
+  'title',
+  'user_name',
+  'vendor',
+  'description_translated',
+  'description_original',
+];
+
+const MONTH_FIELDS = ['cost_month', 'rate_month', 'summary_month', 'adjustment_month', 'billing_month', 'month'];
+
+const MAX_VALUE_LENGTH = 120;
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+/** "member_resource_id" -> "Member resource id" */
+export function fieldLabel(field: string): string {
+  const words = field.replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH - 1)}…` : text;
+}
+
+/** "Updated employee", "Removed group member" */
+export function auditSummary(entry: Pick<AuditLogEntry, 'action' | 'table_name'>): string {
+  const noun = TABLE_NOUNS[entry.table_name] ?? fieldLabel(entry.table_name).toLowerCase();
+  return `${AUDIT_ACTION_LABELS[entry.action]} ${noun}`;
+}
+
+/**
+ * Name of the changed record: the member a membership row points at, else
+ * the row's own name, else its month. Null when the row has neither.
+ */
+export function auditRecordLabel(entry: AuditLogEntry): string | null {
+  if (entry.related_label) return entry.related_label;
+
+  const row = entry.new_data ?? entry.old_data;
+  if (!row) return null;
+
+  const person = [row.first_name, row.last_name].filter((part) => typeof part === 'string' && part.trim()).join(' ');
+  if (person) return person;
+
+  for (const field of [...NAME_FIELDS, ...MONTH_FIELDS]) {
+    const value = row[field];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return null;
+}
+
+// ============================================================================
+// FIELD CHANGES
+// ============================================================================
+
+/**
+ * Field-level before / after. UPDATEs list the changed columns; INSERTs and
+ * DELETEs list every non-empty column of the added / removed row.
+ */
+export function auditFieldChanges(entry: AuditLogEntry): AuditFieldChange[] {
+  const before = entry.old_data ?? {};
+  const after = entry.new_data ?? {};
+
+  let fields: string[];
+  if (entry.action === 'UPDATE') {
+    fields = entry.changed_fields
+      ?? Object.keys(after).filter((field) => JSON.stringify(after[field]) !== JSON.stringify(before[field]));
+  } else {
+    const row = entry.action === 'INSERT' ? after : before;
+    fields = Object.keys(row).filter((field) => formatAuditValue(row[field]) !== '—');
+  }
+
+  return fields
+    .filter((field) => !HIDDEN_FIELDS.has(field))
+    .map((field) => ({
+      field,
+      label: fieldLabel(field),
+      before: entry.action === 'INSERT' ? '—' : formatAuditValue(before[field]),
+      after: entry.action === 'DELETE' ? '—' : formatAuditValue(after[field]),
+    }));
+}
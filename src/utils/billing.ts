@@ -6,6 +6,7 @@ import type {
   ProjectBillingLimits,
   BilledHoursResult,
   BillingAdjustment,
+  ManualBillingAdjustment,
 } from '../types';
 
 // ============================================================================
@@ -345,12 +346,18 @@ export const DEFAULT_BILLING_LIMITS: ProjectBillingLimits = {
  * 6. Apply maximum (if adjustedHours > maximum)
  * 7. Calculate carryoverOut or unbillableHours
  * 8. billedHours * rate = revenue
+ * 9. Apply manual adjustments (hours at rate, then amount; floored at zero)
+ *
+ * Manual adjustments come after the limits, so they never create carryover.
+ * When they change anything, `adjustment` reports them; the MIN/MAX flags
+ * still describe the limits.
  *
  * @param roundedMinutes - Total minutes after per-task rounding
  * @param limits - Billing limits configuration
  * @param carryoverIn - Carryover hours from previous months
  * @param rate - Hourly rate for revenue calculation
  * @param isActive - Whether minimum billing applies
+ * @param manual - Net manual write-down / write-up for the month
  * @returns Complete billing result with all calculation stages
  */
 export function calculateBilledHours(
@@ -358,7 +365,8 @@ export function calculateBilledHours(
   limits: ProjectBillingLimits,
   carryoverIn: number,
   rate: number,
-  isActive: boolean
+  isActive: boolean,
+  manual?: ManualBillingAdjustment
 ): BilledHoursResult {
   // Step 1: Convert rounded minutes to hours
   const roundedHours = roundHours(roundedMinutes / 60);
@@ -424,7 +432,24 @@ export function calculateBilledHours(
   }
 
   // Step 5: Calculate revenue
-  const revenue = roundCurrency(billedHours * rate);
+  let revenue = roundCurrency(billedHours * rate);
+
+  // Step 6: Apply manual adjustments
+  let manualAdjustmentHours = 0;
+  let manualAdjustmentRevenue = 0;
+  if (manual && (manual.hours !== 0 || manual.amount !== 0)) {
+    const hoursBefore = billedHours;
+    const revenueBefore = revenue;
+    billedHours = Math.max(roundHours(billedHours + manual.hours), 0);
+    revenue = Math.max(roundCurrency(billedHours * rate + manual.amount), 0);
+    manualAdjustmentHours = roundHours(billedHours - hoursBefore);
+    manualAdjustmentRevenue = roundCurrency(revenue - revenueBefore);
+    adjustment = {
+      type: 'manual_adjustment',
+      hours: manualAdjustmentHours,
+      revenue: manualAdjustmentRevenue,
+    };
+  }
 
   return {
     actualHours: roundedHours, // Using roundedHours as "actual" since raw minutes aren't passed
@@ -436,6 +461,8 @@ export function calculateBilledHours(
     unbillableHours,
     carryoverConsumed,
     minimumPadding,
+    manualAdjustmentHours,
+    manualAdjustmentRevenue,
     minimumApplied,
     maximumApplied,
     adjustment,
@@ -453,6 +480,7 @@ export function calculateBilledHours(
  * @param carryoverIn - Carryover hours from previous months
  * @param rate - Hourly rate for revenue calculation
  * @param isActive - Whether minimum billing applies
+ * @param manual - Net manual write-down / write-up for the month
  * @returns Complete billing result with all calculation stages
  */
 export function calculateBilledHoursFromTasks(
@@ -461,7 +489,8 @@ export function calculateBilledHoursFromTasks(
   limits: ProjectBillingLimits,
   carryoverIn: number,
   rate: number,
-  isActive: boolean
+  isActive: boolean,
+  manual?: ManualBillingAdjustment
 ): BilledHoursResult {
   // Apply rounding to each task individually, then sum
   let totalRoundedMinutes = 0;
@@ -469,7 +498,7 @@ export function calculateBilledHoursFromTasks(
     totalRoundedMinutes += applyRounding(minutes, roundingIncrement);
   }
 
-  return calculateBilledHours(totalRoundedMinutes, limits, carryoverIn, rate, isActive);
+  return calculateBilledHours(totalRoundedMinutes, limits, carryoverIn, rate, isActive, manual);
 }
 
 /**
@@ -503,6 +532,8 @@ export function formatBillingAdjustment(adjustment: BillingAdjustment): string {
       return `Maximum applied (${formatHours(adjustment.carryoverOut)}h carried over)`;
     case 'maximum_applied_unbillable':
       return `Maximum applied (${formatHours(adjustment.unbillableHours)}h unbillable)`;
+    case 'manual_adjustment':
+      return `Manual adjustment (${adjustment.hours > 0 ? '+' : ''}${formatHours(adjustment.hours)}h, ${adjustment.revenue > 0 ? '+' : ''}${formatCurrency(adjustment.revenue)})`;
     default:
       return 'Unknown adjustment';
   }
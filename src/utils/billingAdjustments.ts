@@ -0,0 +1,92 @@
+/**
+ * billingAdjustments - Pure utilities for manual billing adjustments.
+ *
+ * An adjustment writes a project's month down (negative) or up (positive),
+ * either in hours at the project's rate or as a flat amount (migration 152).
+ * resolve_project_month_revenue applies the month's adjustments after
+ * MIN/MAX, so they never feed carryover, and floors billed hours and revenue
+ * at zero.
+ */
+
+import { formatCurrency, formatHours } from './billing.ts';
+import type { BillingAdjustmentFormData, BillingAdjustmentRow } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AdjustmentDirection = 'down' | 'up';
+
+/** Row written to billing_adjustments */
+export interface BillingAdjustmentInsert {
+  project_id: string;
+  adjustment_month: string;
+  adjustment_type: BillingAdjustmentFormData['adjustmentType'];
+  hours: number | null;
+  amount_cents: number | null;
+  reason: string;
+}
+
+// ============================================================================
+// FORM
+// ============================================================================
+
+/**
+ * Parse the unsigned value typed into the form. Returns null unless it is a
+ * positive number; hours and dollars are both kept to two decimals.
+ */
+export function parseAdjustmentValue(input: string): number | null {
+  const trimmed = input.trim();
+  if (trimmed === '') return null;
+  const value = Number(trimmed);
+  if (!Number.isFinite(value)) return null;
+  const rounded = Math.round(value * 100) / 100;
+  return rounded > 0 ? rounded : null;
+}
+
+export function signedAdjustmentValue(value: number, direction: AdjustmentDirection): number {
+  return direction === 'down' ? -value : value;
+}
+
+/** Map form data to a billing_adjustments row for a canonical project */
+export function toAdjustmentInsert(form: BillingAdjustmentFormData, projectId: string): BillingAdjustmentInsert {
+  const isHours = form.adjustmentType === 'hours';
+  return {
+    project_id: projectId,
+    adjustment_month: form.month,
+    adjustment_type: form.adjustmentType,
+    hours: isHours ? form.value : null,
+    amount_cents: isHours ? null : Math.round(form.value * 100),
+    reason: form.reason.trim(),
+  };
+}
+
+// ============================================================================
+// DISPLAY
+// ============================================================================
+
+/** "-5h", "+2.5h", "-$200.00" */
+export function formatAdjustmentValue(row: Pick<BillingAdjustmentRow, 'adjustment_type' | 'hours' | 'amount_cents'>): string {
+  const value = row.adjustment_type === 'hours'
+    ? Number(row.hours ?? 0)
+    : Number(row.amount_cents ?? 0) / 100;
+  const sign = value < 0 ? '-' : '+';
+  return row.adjustment_type === 'hours'
+    ? `${sign}${formatHours(Math.abs(value))}h`
+    : `${sign}${formatCurrency(Math.abs(value))}`;
+}
+
+/** External project id -> the month's adjustment reasons joined with "; " */
+export function adjustmentReasonsByProject(rows: BillingAdjustmentRow[]): Map<string, string> {
+  const grouped = new Map<string, string[]>();
+  for (const row of rows) {
+    const reasons = grouped.get(row.external_project_id) ?? [];
+    reasons.push(row.reason);
+    grouped.set(row.external_project_id, reasons);
+  }
+  const result = new Map<string, string>();
+  for (const [externalId, reasons] of grouped) {
+    result.set(externalId, reasons.join('; '));
+  }
+  return result;
+}
@@ -79,6 +79,8 @@ export interface ProjectBillingResult {
   unbillableHours: number;    // Hours lost to MAX cap (when carryover disabled)
   carryoverOut: number;       // Hours carried to next month
   minimumPadding: number;     // Hours added due to MIN
+  manualAdjustmentHours: number;   // Net hours from manual write-downs / write-ups
+  manualAdjustmentRevenue: number; // Net revenue from manual write-downs / write-ups
 
   // Flags
   minimumApplied: boolean;
@@ -87,7 +89,7 @@ export interface ProjectBillingResult {
 
   // Revenue
   baseRevenue: number;        // roundedHours * rate (before adjustments)
-  billedRevenue: number;      // Final revenue after MIN/MAX
+  billedRevenue: number;      // Final revenue after MIN/MAX and manual adjustments
 
   // Configuration used
   rate: number;
@@ -0,0 +1,30 @@
+/**
+ * billingCurrency - Rates and amounts in a company's billing currency.
+ *
+ * Rates are entered in the company's billing currency (migration 153) and
+ * reported in USD at the month's EUR/USD rate. The Rates page edits the rate
+ * in the billing currency; a rate still entered in another currency is shown
+ * converted so it can be re-entered.
+ */
+
+import type { BillingCurrency, ProjectRateDisplay } from '../types';
+
+export { currencySymbol } from '../lib/invoice/invoiceCurrency.ts';
+
+/** "$1,234.50" / "€1,234.50" */
+export function formatMoney(amount: number, currency: BillingCurrency): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+/** The project's rate in its company's billing currency. */
+export function rateInBillingCurrency(
+  project: Pick<ProjectRateDisplay, 'effectiveRate' | 'nativeRate' | 'rateCurrency' | 'billingCurrency' | 'billingFxRate'>,
+): number {
+  if (project.rateCurrency === project.billingCurrency) return project.nativeRate;
+  return Math.round((project.effectiveRate / project.billingFxRate) * 100) / 100;
+}
@@ -0,0 +1,147 @@
+/**
+ * billingVerification - Pure utilities for billing sign-off and drift.
+ *
+ * Finance signs off a past month by snapshotting its project_monthly_summary
+ * rows (sign_off_billing_month, migration 154). Verification compares the
+ * live summary with that snapshot field by field; a project's drift is the
+ * change in its effective revenue (milestone override, else billed revenue).
+ */
+
+import { formatCurrency, formatHours } from './billing.ts';
+import type {
+  BillingVerificationDiff,
+  BillingVerificationField,
+  BillingVerificationMonth,
+} from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Where a snapshotted month stands */
+export type VerificationState = 'signed_off' | 'drifted' | 'not_signed_off';
+
+/** A project that differs from the snapshot, with its drifted fields */
+export interface DriftedProject {
+  projectId: string;
+  projectName: string;
+  companyName: string | null;
+  effectiveDiffCents: number;
+  fields: BillingVerificationDiff[];
+}
+
+export interface VerificationTotals {
+  signedOffMonths: number;
+  /** Signed-off months that no longer match their snapshot */
+  driftedMonths: number;
+  /** Effective revenue drift across signed-off months */
+  driftCents: number;
+}
+
+// ============================================================================
+// DISPLAY
+// ============================================================================
+
+export const VERIFICATION_FIELD_LABELS: Record<BillingVerificationField, string> = {
+  actual_minutes: 'Actual minutes',
+  rounded_minutes: 'Rounded minutes',
+  billed_hours: 'Billed hours',
+  unbillable_hours: 'Unbillable hours',
+  base_revenue_cents: 'Base revenue',
+  billed_revenue_cents: 'Billed revenue',
+  milestone_override_cents: 'Milestone override',
+  rate_used: 'Rate',
+  rounding_used: 'Rounding',
+  project_missing: 'Removed since sign-off',
+  project_added: 'Added since sign-off',
+};
+
+/** A snapshot or current value in the field's unit */
+export function formatVerificationValue(field: BillingVerificationField, value: number | null): string {
+  if (value === null) return '—';
+  switch (field) {
+    case 'base_revenue_cents':
+    case 'billed_revenue_cents':
+    case 'milestone_override_cents':
+      return formatCurrency(value / 100);
+    case 'billed_hours':
+    case 'unbillable_hours':
+      return `${formatHours(value)}h`;
+    case 'rate_used':
+      return `${formatCurrency(value)}/hr`;
+    case 'actual_minutes':
+    case 'rounded_minutes':
+    case 'rounding_used':
+      return `${value.toLocaleString('en-US')} min`;
+    default:
+      return String(value);
+  }
+}
+
+/** "+$12.50", "-$3.00", "$0.00" */
+export function formatSignedCents(cents: number): string {
+  if (cents === 0) return formatCurrency(0);
+  return `${cents < 0 ? '-' : '+'}${formatCurrency(Math.abs(cents) / 100)}`;
+}
+
+// ============================================================================
+// MONTHS
+// ============================================================================
+
+export function monthVerificationState(month: BillingVerificationMonth): VerificationState {
+  if (!month.is_signed_off) return 'not_signed_off';
+  return month.discrepancy_count > 0 ? 'drifted' : 'signed_off';
+}
+
+export function summarizeVerification(months: BillingVerificationMonth[]): VerificationTotals {
+  const totals: VerificationTotals = { signedOffMonths: 0, driftedMonths: 0, driftCents: 0 };
+  for (const month of months) {
+    if (!month.is_signed_off) continue;
+    totals.signedOffMonths += 1;
+    if (month.discrepancy_count > 0) {
+      totals.driftedMonths += 1;
+      totals.driftCents += Number(month.drift_cents);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Months that can be signed off ('YYYY-MM-01'), newest first: the `count`
+ * months before the current one.
+ */
+export function signOffMonthOptions(today: Date, count = 12): string[] {
+  const months: string[] = [];
+  for (let i = 1; i <= count; i++) {
+    const d = new Date(today.getFullYear(), today.getMonth() - i, 1);
+    months.push(`${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-01`);
+  }
+  return months;
+}
+
+// ============================================================================
+// DIFFS
+// ============================================================================
+
+/** Drifted projects, largest effective revenue change first */
+export function groupDiffsByProject(diffs: BillingVerificationDiff[]): DriftedProject[] {
+  const byProject = new Map<string, DriftedProject>();
+  for (const diff of diffs) {
+    let project = byProject.get(diff.project_id);
+    if (!project) {
+      project = {
+        projectId: diff.project_id,
+        projectName: diff.project_name,
+        companyName: diff.company_name,
+        effectiveDiffCents: Number(diff.effective_diff_cents),
+        fields: [],
+      };
+      byProject.set(diff.project_id, project);
+    }
+    project.fields.push(diff);
+  }
+  return [...byProject.values()].sort(
+    (a, b) => Math.abs(b.effectiveDiffCents) - Math.abs(a.effectiveDiffCents)
+      || a.projectName.localeCompare(b.projectName),
+  );
+}
@@ -287,10 +287,11 @@ export interface UnderHoursResource {
 export function getUnderHoursResources(
   resources: ResourceSummary[],
   endDate: Date,
+  holidayDates: ReadonlySet<string>,
   monthlyTargetHours: number = 140
 ): UnderHoursResource[] {
-  // Calculate prorated expected hours based on working days (excluding weekends & Bulgarian holidays)
-  const { total: totalWorkingDays, elapsed: elapsedWorkingDays } = getWorkingDaysInMonth(endDate);
+  // Calculate prorated expected hours based on working days (excluding weekends & holidays)
+  const { total: totalWorkingDays, elapsed: elapsedWorkingDays } = getWorkingDaysInMonth(endDate, holidayDates);
 
   // Avoid division by zero
   if (totalWorkingDays === 0) {
@@ -320,8 +321,16 @@ export function getUnderHoursResources(
   return underHours.sort((a, b) => b.deficit - a.deficit);
 }
 
-export function getProratedExpectedHours(endDate: Date, monthlyTargetHours: number = 140): number {
-  const { total: totalWorkingDays, elapsed: elapsedWorkingDays } = getWorkingDaysInMonth(endDate);
+/**
+ * Monthly target prorated by working days elapsed. Pass the holiday dates of
+ * the person's own calendar (see getHolidayDates).
+ */
+export function getProratedExpectedHours(
+  endDate: Date,
+  holidayDates: ReadonlySet<string>,
+  monthlyTargetHours: number = 140
+): number {
+  const { total: totalWorkingDays, elapsed: elapsedWorkingDays } = getWorkingDaysInMonth(endDate, holidayDates);
 
   if (totalWorkingDays === 0) {
     return 0;
@@ -330,6 +339,9 @@ export function getProratedExpectedHours(endDate: Date, monthlyTargetHours: numb
   return monthlyTargetHours * (elapsedWorkingDays / totalWorkingDays);
 }
 
-export function getWorkingDaysInfo(endDate: Date): { total: number; elapsed: number } {
-  return getWorkingDaysInMonth(endDate);
+export function getWorkingDaysInfo(
+  endDate: Date,
+  holidayDates: ReadonlySet<string>
+): { total: number; elapsed: number } {
+  return getWorkingDaysInMonth(endDate, holidayDates);
 }
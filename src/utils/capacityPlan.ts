@@ -0,0 +1,283 @@
+/**
+ * capacityPlan - Pure utilities for the capacity planner.
+ *
+ * Planned and actual hours per resource, canonical project and week come
+ * from get_capacity_plan() (migration 150). Capacity follows the utilization
+ * rules: Full-time 8h and Part-time 4h per working day on the resource's own
+ * holiday calendar, less approved time off. Other employment types have no
+ * set capacity, so they are never over- or under-allocated.
+ *
+ * Weeks start on Monday and are keyed 'YYYY-MM-DD'. Actual hours are shown
+ * against a week once it is complete.
+ */
+
+import { addDays, addWeeks, format, parseISO, startOfWeek } from 'date-fns';
+import { countWorkingDays, getHolidayDates, isWorkingDay, type HolidaySchedule } from './holidays.ts';
+import type { CapacityPlanRow, EmployeeTimeOff, Resource } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type AllocationStatus = 'over' | 'under' | 'full' | 'unset';
+
+type PlanResource = Pick<Resource, 'id' | 'first_name' | 'last_name' | 'external_label' | 'holiday_calendar_id'> & {
+  employment_type?: { name: string } | null;
+};
+
+type PlanTimeOff = Pick<EmployeeTimeOff, 'resource_id' | 'employee_name' | 'start_date' | 'end_date'>;
+
+export interface PlanWeek {
+  /** Monday, 'YYYY-MM-DD' */
+  weekStart: string;
+  planned: number;
+  /** Logged hours (0 until the week has any) */
+  actual: number;
+}
+
+export interface PersonWeek extends PlanWeek {
+  /** Hours available this week, or null when the employment type has no set capacity */
+  capacity: number | null;
+  status: AllocationStatus;
+}
+
+export interface PlanLine {
+  projectId: string;
+  projectName: string;
+  companyName: string | null;
+  weeks: PlanWeek[];
+}
+
+export interface PersonPlan {
+  resourceId: string;
+  name: string;
+  employmentType: string | null;
+  weeks: PersonWeek[];
+  /** One line per project the person is planned on or logged time to */
+  projects: PlanLine[];
+  totalCapacity: number | null;
+  totalPlanned: number;
+}
+
+export interface ProjectWeek extends PlanWeek {
+  plannedRevenueCents: number;
+}
+
+export interface ProjectPlan {
+  projectId: string;
+  projectName: string;
+  companyName: string | null;
+  weeks: ProjectWeek[];
+  /** Resources planned on or logging time to the project in the range */
+  resourceIds: string[];
+  totalPlanned: number;
+  plannedRevenueCents: number;
+  /** Planned and actual hours over completed weeks only */
+  completedPlanned: number;
+  completedActual: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Working hours per day by employment type (same as the utilization metrics) */
+export const CAPACITY_HOURS_PER_DAY: Readonly<Record<string, number>> = {
+  'Full-time': 8,
+  'Part-time': 4,
+};
+
+// ============================================================================
+// PURE FUNCTIONS
+// ============================================================================
+
+/** Monday of the week containing date, as 'YYYY-MM-DD'. */
+export function weekStartOf(date: Date): string {
+  return format(startOfWeek(date, { weekStartsOn: 1 }), 'yyyy-MM-dd');
+}
+
+/** `count` consecutive week starts, beginning with the week containing `from`. */
+export function listWeekStarts(from: Date, count: number): string[] {
+  const first = startOfWeek(from, { weekStartsOn: 1 });
+  return Array.from({ length: count }, (_, i) => format(addWeeks(first, i), 'yyyy-MM-dd'));
+}
+
+/** A week is complete once its Sunday has passed. */
+export function isWeekComplete(weekStart: string, today: Date): boolean {
+  return format(today, 'yyyy-MM-dd') > format(addDays(parseISO(weekStart), 6), 'yyyy-MM-dd');
+}
+
+export function resourceDisplayName(resource: PlanResource): string {
+  return [resource.first_name, resource.last_name].filter(Boolean).join(' ') || resource.external_label;
+}
+
+/** Time-off requests that belong to the resource (by id, or by name for unlinked requests). */
+export function timeOffForResource<T extends PlanTimeOff>(resource: PlanResource, timeOff: T[]): T[] {
+  const name = resourceDisplayName(resource);
+  return timeOff.filter((to) => to.resource_id === resource.id || (!to.resource_id && to.employee_name === name));
+}
+
+/**
+ * Hours available in a week: working days (weekdays that are not holidays)
+ * less working days on time off, times hours per day.
+ */
+export function weeklyCapacityHours(
+  weekStart: string,
+  hoursPerDay: number,
+  holidayDates: ReadonlySet<string>,
+  timeOff: Pick<PlanTimeOff, 'start_date' | 'end_date'>[],
+): number {
+  const monday = parseISO(weekStart);
+  const sunday = addDays(monday, 6);
+  const workingDays = countWorkingDays(monday, sunday, holidayDates);
+
+  // Collect days so overlapping requests are not counted twice
+  const offDays = new Set<string>();
+  for (const to of timeOff) {
+    const start = parseISO(to.start_date.slice(0, 10));
+    const end = parseISO(to.end_date.slice(0, 10));
+    const overlapStart = start < monday ? monday : start;
+    const overlapEnd = end > sunday ? sunday : end;
+    for (let day = overlapStart; day <= overlapEnd; day = addDays(day, 1)) {
+      if (isWorkingDay(day, holidayDates)) offDays.add(format(day, 'yyyy-MM-dd'));
+    }
+  }
+
+  return Math.max(0, workingDays - offDays.size) * hoursPerDay;
+}
+
+export function allocationStatus(planned: number, capacity: number | null): AllocationStatus {
+  if (capacity === null) return 'unset';
+  const diff = Math.round((planned - capacity) * 100);
+  if (diff > 0) return 'over';
+  if (diff < 0) return 'under';
+  return 'full';
+}
+
+function emptyWeeks(weekStarts: string[]): PlanWeek[] {
+  return weekStarts.map((weekStart) => ({ weekStart, planned: 0, actual: 0 }));
+}
+
+function byProjectName(a: { projectName: string }, b: { projectName: string }): number {
+  return a.projectName.localeCompare(b.projectName);
+}
+
+/**
+ * Per-person plan: capacity, planned and actual hours per week, with a line
+ * per project. Includes every Full-time / Part-time resource, plus anyone
+ * else with plan rows in the range.
+ */
+export function buildPersonPlans(
+  resources: PlanResource[],
+  rows: CapacityPlanRow[],
+  weekStarts: string[],
+  schedule: HolidaySchedule,
+  timeOff: PlanTimeOff[],
+): PersonPlan[] {
+  const weekIndex = new Map(weekStarts.map((w, i) => [w, i]));
+  const rowsByResource = new Map<string, CapacityPlanRow[]>();
+  for (const row of rows) {
+    if (!weekIndex.has(row.week_start)) continue;
+    const list = rowsByResource.get(row.resource_id) ?? [];
+    list.push(row);
+    rowsByResource.set(row.resource_id, list);
+  }
+
+  const plans: PersonPlan[] = [];
+  for (const resource of resources) {
+    const employmentType = resource.employment_type?.name ?? null;
+    const hoursPerDay = employmentType ? CAPACITY_HOURS_PER_DAY[employmentType] : undefined;
+    const resourceRows = rowsByResource.get(resource.id) ?? [];
+    if (hoursPerDay === undefined && resourceRows.length === 0) continue;
+
+    const holidayDates = getHolidayDates(schedule, resource.holiday_calendar_id);
+    const ownTimeOff = timeOffForResource(resource, timeOff);
+
+    const lines = new Map<string, PlanLine>();
+    const totals = emptyWeeks(weekStarts);
+    for (const row of resourceRows) {
+      let line = lines.get(row.project_id);
+      if (!line) {
+        line = {
+          projectId: row.project_id,
+          projectName: row.project_name,
+          companyName: row.company_name,
+          weeks: emptyWeeks(weekStarts),
+        };
+        lines.set(row.project_id, line);
+      }
+      const i = weekIndex.get(row.week_start)!;
+      line.weeks[i].planned += Number(row.planned_hours);
+      line.weeks[i].actual += Number(row.actual_hours);
+      totals[i].planned += Number(row.planned_hours);
+      totals[i].actual += Number(row.actual_hours);
+    }
+
+    const weeks: PersonWeek[] = totals.map((week) => {
+      const capacity = hoursPerDay === undefined
+        ? null
+        : weeklyCapacityHours(week.weekStart, hoursPerDay, holidayDates, ownTimeOff);
+      return { ...week, capacity, status: allocationStatus(week.planned, capacity) };
+    });
+
+    plans.push({
+      resourceId: resource.id,
+      name: resourceDisplayName(resource),
+      employmentType,
+      weeks,
+      projects: [...lines.values()].sort(byProjectName),
+      totalCapacity: hoursPerDay === undefined ? null : weeks.reduce((sum, w) => sum + (w.capacity ?? 0), 0),
+      totalPlanned: weeks.reduce((sum, w) => sum + w.planned, 0),
+    });
+  }
+
+  return plans.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Per-project plan: planned hours and revenue, and actual hours, per week.
+ * completedPlanned / completedActual compare plan to actual over the weeks
+ * that are complete as of today.
+ */
+export function buildProjectPlans(rows: CapacityPlanRow[], weekStarts: string[], today: Date): ProjectPlan[] {
+  const weekIndex = new Map(weekStarts.map((w, i) => [w, i]));
+  const plans = new Map<string, ProjectPlan & { resources: Set<string> }>();
+
+  for (const row of rows) {
+    const i = weekIndex.get(row.week_start);
+    if (i === undefined) continue;
+    let plan = plans.get(row.project_id);
+    if (!plan) {
+      plan = {
+        projectId: row.project_id,
+        projectName: row.project_name,
+        companyName: row.company_name,
+        weeks: weekStarts.map((weekStart) => ({ weekStart, planned: 0, actual: 0, plannedRevenueCents: 0 })),
+        resourceIds: [],
+        resources: new Set(),
+        totalPlanned: 0,
+        plannedRevenueCents: 0,
+        completedPlanned: 0,
+        completedActual: 0,
+      };
+      plans.set(row.project_id, plan);
+    }
+    const planned = Number(row.planned_hours);
+    const actual = Number(row.actual_hours);
+    const revenue = Number(row.planned_revenue_cents);
+    plan.weeks[i].planned += planned;
+    plan.weeks[i].actual += actual;
+    plan.weeks[i].plannedRevenueCents += revenue;
+    plan.totalPlanned += planned;
+    plan.plannedRevenueCents += revenue;
+    plan.resources.add(row.resource_id);
+    if (isWeekComplete(row.week_start, today)) {
+      plan.completedPlanned += planned;
+      plan.completedActual += actual;
+    }
+  }
+
+  return [...plans.values()]
+    .map(({ resources, ...plan }) => ({ ...plan, resourceIds: [...resources] }))
+    .sort(byProjectName);
+}
@@ -0,0 +1,197 @@
+/**
+ * companyPnl - Pure utilities for the company profit & loss statement.
+ *
+ * Lines come from get_company_pnl_lines() (migration 147) in USD cents. The
+ * statement is arranged as
+ *
+ *   Revenue            (per canonical company)
+ *   Direct Labor       (per canonical company)
+ *   Gross Margin       = Revenue − Direct Labor
+ *   Overhead           (per expense category)
+ *   Net Income         = Gross Margin − Overhead
+ *
+ * Costs are kept positive under their headings, as an accountant reads them.
+ * Every amount stays in integer cents until export, so section totals are the
+ * exact sum of their lines and subtotals reconcile to the cent.
+ */
+
+import type { PnlLineRow, PnlSection } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A drill-down line: one company or expense category. */
+export interface PnlDetailLine {
+  key: string;
+  label: string;
+  /** Cents per statement month, aligned with PnlStatement.months */
+  monthCents: number[];
+  totalCents: number;
+  pendingCount: number;
+}
+
+export interface PnlStatementLine extends PnlDetailLine {
+  kind: 'section' | 'subtotal';
+  /** Set on section lines; subtotals have no detail */
+  section: PnlSection | null;
+  children: PnlDetailLine[];
+}
+
+export interface PnlStatement {
+  /** Statement months, 'YYYY-MM', ascending */
+  months: string[];
+  /** revenue, labor, gross_margin, overhead, net — in that order */
+  lines: PnlStatementLine[];
+}
+
+export const PNL_SECTION_LABELS: Record<PnlSection, string> = {
+  revenue: 'Revenue',
+  labor: 'Direct Labor',
+  overhead: 'Overhead',
+};
+
+const MONTH_SHORT = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// ============================================================================
+// STATEMENT
+// ============================================================================
+
+/** Months of `year` up to and including `throughMonth` ('YYYY-MM'), ascending. */
+export function statementMonths(year: number, throughMonth: string): string[] {
+  const months: string[] = [];
+  for (let m = 1; m <= 12; m++) {
+    const key = `${year}-${String(m).padStart(2, '0')}`;
+    if (key > throughMonth) break;
+    months.push(key);
+  }
+  return months;
+}
+
+/** 'Jan 2026' for '2026-01'. */
+export function formatPnlMonth(monthKey: string): string {
+  return `${MONTH_SHORT[Number(monthKey.slice(5, 7)) - 1]} ${monthKey.slice(0, 4)}`;
+}
+
+/** Margin as a percentage of revenue; null without revenue. */
+export function marginPct(profitCents: number, revenueCents: number): number | null {
+  return revenueCents !== 0 ? (profitCents / revenueCents) * 100 : null;
+}
+
+function emptyLine(key: string, label: string, monthCount: number): PnlDetailLine {
+  return { key, label, monthCents: new Array(monthCount).fill(0), totalCents: 0, pendingCount: 0 };
+}
+
+function sectionLine(section: PnlSection, children: PnlDetailLine[], monthCount: number): PnlStatementLine {
+  const line: PnlStatementLine = {
+    ...emptyLine(section, PNL_SECTION_LABELS[section], monthCount),
+    kind: 'section',
+    section,
+    children: [...children].sort((a, b) => b.totalCents - a.totalCents || a.label.localeCompare(b.label)),
+  };
+  for (const child of children) {
+    child.monthCents.forEach((cents, i) => { line.monthCents[i] += cents; });
+    line.totalCents += child.totalCents;
+    line.pendingCount += child.pendingCount;
+  }
+  return line;
+}
+
+function subtotalLine(key: string, label: string, plus: PnlDetailLine, minus: PnlDetailLine): PnlStatementLine {
+  return {
+    key,
+    label,
+    kind: 'subtotal',
+    section: null,
+    children: [],
+    monthCents: plus.monthCents.map((cents, i) => cents - minus.monthCents[i]),
+    totalCents: plus.totalCents - minus.totalCents,
+    pendingCount: plus.pendingCount + minus.pendingCount,
+  };
+}
+
+/**
+ * Arrange P&L rows into the statement for `months`. Rows outside the months
+ * are ignored; the total column is the sum of the statement months.
+ */
+export function buildPnlStatement(rows: PnlLineRow[], months: string[]): PnlStatement {
+  const monthIndex = new Map(months.map((month, i) => [month, i]));
+  const details: Record<PnlSection, Map<string, PnlDetailLine>> = {
+    revenue: new Map(),
+    labor: new Map(),
+    overhead: new Map(),
+  };
+
+  for (const row of rows) {
+    const i = monthIndex.get(row.summary_month.slice(0, 7));
+    if (i === undefined) continue;
+    const lines = details[row.section];
+    if (!lines) continue;
+
+    let line = lines.get(row.line_id);
+    if (!line) {
+      line = emptyLine(`${row.section}-${row.line_id}`, row.line_label, months.length);
+      lines.set(row.line_id, line);
+    }
+    line.monthCents[i] += row.amount_cents;
+    line.totalCents += row.amount_cents;
+    line.pendingCount += row.pending_count;
+  }
+
+  const revenue = sectionLine('revenue', [...details.revenue.values()], months.length);
+  const labor = sectionLine('labor', [...details.labor.values()], months.length);
+  const overhead = sectionLine('overhead', [...details.overhead.values()], months.length);
+  const grossMargin = subtotalLine('gross_margin', 'Gross Margin', revenue, labor);
+  const net = subtotalLine('net', 'Net Income', grossMargin, overhead);
+
+  return { months, lines: [revenue, labor, grossMargin, overhead, net] };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+/**
+ * The statement as a grid for CSV / XLSX export: a header row, then every
+ * section with its lines indented beneath it, subtotals with their margin
+ * rows. Amounts are dollars as numbers (2 decimals); margins are percentages.
+ */
+export function pnlToGrid(statement: PnlStatement, totalLabel: string): (string | number | null)[][] {
+  const dollars = (cents: number) => Math.round(cents) / 100;
+  const revenue = statement.lines.find((line) => line.key === 'revenue');
+  const grid: (string | number | null)[][] = [
+    ['Line', ...statement.months.map(formatPnlMonth), totalLabel],
+  ];
+
+  for (const line of statement.lines) {
+    grid.push([line.label, ...line.monthCents.map(dollars), dollars(line.totalCents)]);
+    for (const child of line.children) {
+      grid.push([`  ${child.label}`, ...child.monthCents.map(dollars), dollars(child.totalCents)]);
+    }
+    if (line.kind === 'subtotal' && revenue) {
+      const pct = (profit: number, rev: number) => {
+        const value = marginPct(profit, rev);
+        return value === null ? null : Math.round(value * 10) / 10;
+      };
+      grid.push([
+        `${line.label} %`,
+        ...line.monthCents.map((cents, i) => pct(cents, revenue.monthCents[i])),
+        pct(line.totalCents, revenue.totalCents),
+      ]);
+    }
+  }
+  return grid;
+}
+
+/** Escape a cell value for CSV (wrap in double-quotes, escape inner quotes). */
+function csvCell(value: string | number | null): string {
+  if (value === null) return '""';
+  const text = typeof value === 'number' ? value.toFixed(2) : value;
+  return `"${text.replace(/"/g, '""')}"`;
+}
+
+/** CSV with a UTF-8 BOM for Excel; amounts are plain numbers, no currency symbol. */
+export function pnlToCsv(statement: PnlStatement, totalLabel: string): string {
+  const rows = pnlToGrid(statement, totalLabel).map((cells) => cells.map(csvCell).join(','));
+  return '\uFEFF' + rows.join('\n');
+}
@@ -0,0 +1,86 @@
+/**
+ * Validation Report Export
+ *
+ * Flatten a validation report into CSV for download: one row per project,
+ * then one row per mismatching entry.
+ */
+
+import type { EntryMismatchKind, ValidationReport } from './types';
+
+/**
+ * Human-readable entry mismatch labels
+ */
+export const ENTRY_MISMATCH_LABELS: Record<EntryMismatchKind, string> = {
+  missing: 'Not synced',
+  minutes: 'Minutes differ',
+  date: 'Date differs',
+  project: 'Other project',
+  extra: 'Not in export',
+};
+
+function csvCell(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  const str = String(value);
+  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
+    return '"' + str.replace(/"/g, '""') + '"';
+  }
+  return str;
+}
+
+function csvRow(values: Array<string | number | boolean | null>): string {
+  return values.map(csvCell).join(',');
+}
+
+/**
+ * Build the CSV for a validation report.
+ * "Summary" columns are the stored billing results, "Export" columns are
+ * recalculated from the raw export.
+ */
+export function validationReportToCSV(report: ValidationReport): string {
+  const lines = [
+    csvRow([
+      'Client', 'Project', 'Project ID', 'Source', 'In System', 'Status',
+      'Summary Minutes', 'Export Minutes',
+      'Summary Rounded Hours', 'Export Rounded Hours',
+      'Summary Billed Hours', 'Export Billed Hours',
+      'Summary Base Revenue', 'Export Base Revenue',
+      'Summary Billed Revenue', 'Export Billed Revenue',
+      'Rounding', 'Rounding Mode', 'Rate', 'Minimum Hours', 'Maximum Hours', 'Carryover In',
+      'Entry Mismatches',
+    ]),
+  ];
+
+  for (const p of report.projects) {
+    const { checks } = p;
+    lines.push(csvRow([
+      p.clientName, p.projectName, p.sourceProjectId, p.source, p.matchedInSystem, p.status,
+      checks.actualMinutes.expected, checks.actualMinutes.actual,
+      checks.roundedHours.expected, checks.roundedHours.actual,
+      checks.billedHours.expected, checks.billedHours.actual,
+      checks.baseRevenue.expected.toFixed(2), checks.baseRevenue.actual.toFixed(2),
+      checks.billedRevenue.expected.toFixed(2), checks.billedRevenue.actual.toFixed(2),
+      p.rounding, p.roundingMode, p.rate, p.minimumHours, p.maximumHours, p.carryoverIn,
+      p.entryMismatches.length,
+    ]));
+  }
+
+  const mismatchProjects = report.projects.filter((p) => p.entryMismatches.length > 0);
+  if (mismatchProjects.length > 0) {
+    lines.push('');
+    lines.push(csvRow([
+      'Client', 'Project', 'Entry ID', 'Issue', 'Date', 'User', 'Task',
+      'Export Minutes', 'Synced Minutes', 'Synced Project ID',
+    ]));
+    for (const p of mismatchProjects) {
+      for (const m of p.entryMismatches) {
+        lines.push(csvRow([
+          p.clientName, p.projectName, m.entryId, ENTRY_MISMATCH_LABELS[m.kind], m.date, m.userName, m.taskName,
+          m.exportMinutes, m.storedMinutes, m.storedProjectId,
+        ]));
+      }
+    }
+  }
+
+  // Prepend UTF-8 BOM for Excel compatibility
+  return '\uFEFF' + lines.join('\r\n');
+}
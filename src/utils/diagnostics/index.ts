@@ -11,6 +11,10 @@ export type {
   NormalizedEntry,
   ValidationStatus,
   ValidationCheck,
+  EntryMismatchKind,
+  EntryMismatch,
+  StoredEntry,
+  ExpectedBillingResult,
   ProjectValidationResult,
   ValidationSummary,
   ValidationReport,
@@ -29,6 +33,7 @@ export {
   parseClickUp,
   parseRawSource,
   groupEntriesByProject,
+  groupEntriesByCanonicalProject,
   groupEntriesByTask,
   filterEntriesByDateRange,
   filterEntriesByMonth,
@@ -39,6 +44,7 @@ export {
 export {
   runValidation,
   validateAgainstExpected,
+  diffEntries,
   formatValidationCheck,
   formatHoursDisplay,
   formatMinutesDisplay,
@@ -46,3 +52,19 @@ export {
   getStatusColorClass,
   getStatusIcon,
 } from './validateBilling';
+
+// Stored billing lookups
+export { buildSummaryLookup } from './summaryLookup';
+export type {
+  SummaryValidationRow,
+  SummaryLookupProject,
+  SummaryLookupCanonical,
+  SummaryLookupInput,
+  SummaryLookup,
+} from './summaryLookup';
+
+// Report export
+export {
+  ENTRY_MISMATCH_LABELS,
+  validationReportToCSV,
+} from './exportReport';
@@ -33,18 +33,21 @@ export function parseClockify(content: string): NormalizedEntry[] {
     throw new Error('Invalid Clockify format: missing timeentries array');
   }
 
-  return exportData.timeentries.map((entry) => ({
-    source: 'clockify' as const,
-    entryId: entry._id,
-    projectId: entry.projectId || 'unknown',
-    projectName: entry.projectName || 'Unknown Project',
-    clientId: entry.clientId || 'unknown',
-    clientName: entry.clientName || 'Unknown Client',
-    taskName: entry.description || 'No Task',
-    userName: entry.userName || 'Unknown User',
-    minutes: Math.ceil(entry.timeInterval.duration / 60),  // seconds to whole minutes (matches n8n sync)
-    date: entry.timeInterval.start.split('T')[0],  // Extract YYYY-MM-DD
-  }));
+  return exportData.timeentries
+    // Running timers and zero-length entries are never synced
+    .filter((entry) => entry.timeInterval?.duration > 0)
+    .map((entry) => ({
+      source: 'clockify' as const,
+      entryId: entry._id,
+      projectId: entry.projectId || 'unknown',
+      projectName: entry.projectName || 'Unknown Project',
+      clientId: entry.clientId || 'unknown',
+      clientName: entry.clientName || 'Unknown Client',
+      taskName: entry.description?.trim() || 'No Task',
+      userName: entry.userName || 'Unknown User',
+      minutes: Math.ceil(entry.timeInterval.duration / 60),  // seconds to whole minutes (matches n8n sync)
+      date: entry.timeInterval.start.split('T')[0],  // Extract YYYY-MM-DD
+    }));
 }
 
 /**
@@ -54,8 +57,7 @@ export function parseClockify(content: string): NormalizedEntry[] {
  * - Array wrapper with single object containing timeentries + lookups
  * - Duration is in milliseconds as string
  * - Start is timestamp in milliseconds as string
- * - Space = Project (ClickUp spaces are equivalent to projects)
- * - Client is derived from space name (same as project for ClickUp)
+ * - Space = client, Folder = project (same as the ClickUp sync adapter)
  *
  * @param content - Raw JSON string from clickup.txt
  * @returns Array of normalized entries
@@ -70,25 +72,28 @@ export function parseClickUp(content: string): NormalizedEntry[] {
     throw new Error('Invalid ClickUp format: missing timeentries array');
   }
 
-  const { timeentries, spaceLookup = {} } = exportData;
-
-  return timeentries.map((entry) => {
-    const spaceId = entry.task_location?.space_id || 'unknown';
-    const spaceName = spaceLookup[spaceId] || 'Unknown Project';
-
-    return {
-      source: 'clickup' as const,
-      entryId: entry.id,
-      projectId: spaceId,
-      projectName: spaceName,
-      clientId: spaceId,  // Use space as both project and client for ClickUp
-      clientName: spaceName,
-      taskName: entry.task?.name || 'No Task',
-      userName: entry.user?.username || 'Unknown User',
-      minutes: Math.ceil(Math.floor(parseInt(entry.duration, 10) / 1000) / 60),  // ms → seconds → whole minutes (matches n8n sync)
-      date: new Date(parseInt(entry.start, 10)).toISOString().split('T')[0],
-    };
-  });
+  const { timeentries, spaceLookup = {}, folderLookup = {} } = exportData;
+
+  return timeentries
+    // Running timers and zero-length entries are never synced
+    .filter((entry) => parseInt(entry.duration, 10) >= 1000)
+    .map((entry) => {
+      const spaceId = entry.task_location?.space_id || 'unknown';
+      const folderId = entry.task_location?.folder_id || 'unknown';
+
+      return {
+        source: 'clickup' as const,
+        entryId: entry.id,
+        projectId: folderId,
+        projectName: folderLookup[folderId] || entry.task_location?.folder_name || 'Unknown Project',
+        clientId: spaceId,
+        clientName: spaceLookup[spaceId] || entry.task_location?.space_name || 'Unknown Client',
+        taskName: entry.task?.name || entry.description?.trim() || 'No Task',
+        userName: entry.user?.username || 'Unknown User',
+        minutes: Math.ceil(Math.floor(parseInt(entry.duration, 10) / 1000) / 60),  // ms → seconds → whole minutes (matches n8n sync)
+        date: new Date(parseInt(entry.start, 10)).toISOString().split('T')[0],
+      };
+    });
 }
 
 /**
@@ -171,6 +176,54 @@ export function groupEntriesByProject(entries: NormalizedEntry[]): ProjectEntryG
   });
 }
 
+/**
+ * Group normalized entries by canonical project.
+ * Member projects of a project group — from either source — land in their
+ * primary's group, matching how project_monthly_summary is calculated.
+ *
+ * @param entries - Array of normalized entries
+ * @param getCanonicalProjectId - Source project id -> canonical project id
+ * @returns Array of project entry groups keyed by canonical project id
+ */
+export function groupEntriesByCanonicalProject(
+  entries: NormalizedEntry[],
+  getCanonicalProjectId: (projectId: string) => string
+): ProjectEntryGroup[] {
+  const groupMap = new Map<string, ProjectEntryGroup>();
+
+  for (const entry of entries) {
+    const projectId = getCanonicalProjectId(entry.projectId);
+
+    if (!groupMap.has(projectId)) {
+      groupMap.set(projectId, {
+        clientId: entry.clientId,
+        clientName: entry.clientName,
+        projectId,
+        projectName: entry.projectName,
+        source: entry.source,
+        entries: [],
+        totalMinutes: 0,
+      });
+    }
+
+    const group = groupMap.get(projectId)!;
+    // Prefer the primary's own names when its entries are in the export
+    if (entry.projectId === projectId) {
+      group.projectName = entry.projectName;
+      group.clientId = entry.clientId;
+      group.clientName = entry.clientName;
+    }
+    group.entries.push(entry);
+    group.totalMinutes += entry.minutes;
+  }
+
+  return Array.from(groupMap.values()).sort((a, b) => {
+    const clientCompare = a.clientName.localeCompare(b.clientName);
+    if (clientCompare !== 0) return clientCompare;
+    return a.projectName.localeCompare(b.projectName);
+  });
+}
+
 /**
  * Group entries by task within a project.
  * Used for per-task rounding calculations.
@@ -0,0 +1,185 @@
+/**
+ * Summary Lookup
+ *
+ * Turn the stored billing data of a month (project_monthly_summary, the
+ * month's project rates and the project group mapping) into the expected
+ * results and lookups validateAgainstExpected needs.
+ *
+ * Everything is keyed by canonical external project_id: export entries of
+ * a member project are validated against the primary's summary row.
+ */
+
+import type {
+  BillingConfigLookup,
+  ExpectedBillingResult,
+  StoredEntry,
+  ValidationOptions,
+} from './types';
+import { DEFAULT_ROUNDING_INCREMENT, roundCurrency } from '../billing.ts';
+import type { ProjectRatesForMonthResultWithBilling, RoundingIncrement, RoundingMode } from '../../types';
+
+/** v_canonical_project_monthly_summary row with the project's external id */
+export interface SummaryValidationRow {
+  /** projects.id */
+  project_id: string;
+  actual_minutes: number;
+  rounded_hours: number;
+  carryover_in_hours: number;
+  billed_hours: number;
+  base_revenue_cents: number;
+  billed_revenue_cents: number;
+  manual_adjustment_hours: number;
+  manual_adjustment_cents: number;
+  rate_used: number;
+  rounding_used: number;
+  minimum_hours_config: number | null;
+  maximum_hours_config: number | null;
+  carryover_enabled_config: boolean;
+  is_active_used: boolean;
+  projects: { project_id: string; project_name: string };
+}
+
+/** Project rows the month's rates can't resolve alone (members, canonical map) */
+export interface SummaryLookupProject {
+  id: string;
+  project_id: string;
+}
+
+export interface SummaryLookupCanonical {
+  project_id: string;
+  canonical_project_id: string;
+}
+
+export interface SummaryLookupInput {
+  summaries: SummaryValidationRow[];
+  rates: ProjectRatesForMonthResultWithBilling[];
+  projects: SummaryLookupProject[];
+  canonical: SummaryLookupCanonical[];
+  storedEntries: StoredEntry[];
+}
+
+export interface SummaryLookup {
+  expectedResults: Map<string, ExpectedBillingResult>;
+  options: ValidationOptions;
+}
+
+/** Billing config for a project the system has never seen */
+const UNKNOWN_PROJECT_CONFIG: BillingConfigLookup = {
+  rate: 0,
+  rounding: DEFAULT_ROUNDING_INCREMENT,
+  roundingMode: 'task',
+  minimumHours: null,
+  maximumHours: null,
+  carryoverEnabled: false,
+  carryoverIn: 0,
+  isActive: true,
+  matchedInSystem: false,
+  matchedProjectName: null,
+};
+
+function toRoundingIncrement(value: number | null | undefined): RoundingIncrement {
+  if (value === null || value === undefined) return DEFAULT_ROUNDING_INCREMENT;
+  const num = Number(value);
+  return [0, 5, 15, 30].includes(num) ? (num as RoundingIncrement) : DEFAULT_ROUNDING_INCREMENT;
+}
+
+function toNullableNumber(value: number | null | undefined): number | null {
+  return value === null || value === undefined ? null : Number(value);
+}
+
+/**
+ * Build the expected results and validation options for a month.
+ */
+export function buildSummaryLookup(input: SummaryLookupInput): SummaryLookup {
+  // External project_id -> canonical external project_id
+  const uuidToExternal = new Map(input.projects.map((p) => [p.id, p.project_id]));
+  const canonicalExternal = new Map<string, string>();
+  for (const row of input.canonical) {
+    const member = uuidToExternal.get(row.project_id);
+    const primary = uuidToExternal.get(row.canonical_project_id);
+    if (member && primary) canonicalExternal.set(member, primary);
+  }
+  const getCanonicalProjectId = (projectId: string) => canonicalExternal.get(projectId) ?? projectId;
+
+  const ratesByUuid = new Map(input.rates.map((r) => [r.project_id, r]));
+  const ratesByExternal = new Map(input.rates.map((r) => [r.external_project_id, r]));
+
+  // Canonical company name by source client id
+  const companyNames = new Map<string, string>();
+  for (const r of input.rates) {
+    if (r.client_id) {
+      companyNames.set(r.client_id, r.canonical_client_name || r.client_name || r.client_id);
+    }
+  }
+
+  const expectedResults = new Map<string, ExpectedBillingResult>();
+  const configs = new Map<string, BillingConfigLookup>();
+
+  for (const row of input.summaries) {
+    const externalId = row.projects.project_id;
+    const rate = Number(row.rate_used);
+    const manualHours = Number(row.manual_adjustment_hours ?? 0);
+    const manualRevenue = Number(row.manual_adjustment_cents ?? 0) / 100;
+
+    expectedResults.set(externalId, {
+      actualMinutes: Number(row.actual_minutes),
+      roundedHours: Number(row.rounded_hours),
+      billedHours: Number(row.billed_hours),
+      baseRevenue: roundCurrency(Number(row.base_revenue_cents) / 100),
+      billedRevenue: roundCurrency(Number(row.billed_revenue_cents) / 100),
+    });
+
+    // The summary's own config snapshot, so a difference points at the
+    // time data rather than at a config change since the last recalculation.
+    // Manual adjustments are stored net: the hours part at the rate, the
+    // rest as an amount.
+    configs.set(externalId, {
+      rate,
+      rounding: toRoundingIncrement(row.rounding_used),
+      roundingMode: (ratesByUuid.get(row.project_id)?.effective_rounding_mode ?? 'task') as RoundingMode,
+      minimumHours: toNullableNumber(row.minimum_hours_config),
+      maximumHours: toNullableNumber(row.maximum_hours_config),
+      carryoverEnabled: row.carryover_enabled_config,
+      carryoverIn: Number(row.carryover_in_hours),
+      isActive: row.is_active_used,
+      manualAdjustment: {
+        hours: manualHours,
+        amount: roundCurrency(manualRevenue - manualHours * rate),
+      },
+      matchedInSystem: true,
+      matchedProjectName: row.projects.project_name,
+    });
+  }
+
+  const getBillingConfig = (projectId: string): BillingConfigLookup => {
+    const fromSummary = configs.get(projectId);
+    if (fromSummary) return fromSummary;
+
+    // No summary row: the month's effective config
+    const r = ratesByExternal.get(projectId);
+    if (!r) return UNKNOWN_PROJECT_CONFIG;
+    return {
+      rate: Number(r.effective_rate),
+      rounding: toRoundingIncrement(r.effective_rounding),
+      roundingMode: r.effective_rounding_mode ?? 'task',
+      minimumHours: toNullableNumber(r.minimum_hours),
+      maximumHours: toNullableNumber(r.maximum_hours),
+      carryoverEnabled: r.carryover_enabled ?? false,
+      carryoverIn: Number(r.carryover_hours_in ?? 0),
+      isActive: r.is_active ?? true,
+      matchedInSystem: true,
+      matchedProjectName: r.project_name,
+    };
+  };
+
+  return {
+    expectedResults,
+    options: {
+      getBillingConfig,
+      // Unknown clients fall back to the name in the export
+      getCompanyName: (clientId: string) => companyNames.get(clientId) ?? '',
+      getCanonicalProjectId,
+      storedEntries: input.storedEntries,
+    },
+  };
+}
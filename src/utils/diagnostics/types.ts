@@ -5,15 +5,16 @@
  * billing calculations against raw source data.
  */
 
-import type { RoundingIncrement } from '../../types';
+import type { ManualBillingAdjustment, RoundingIncrement, RoundingMode } from '../../types';
+import type { TimeSourceId } from '../../lib/timeSync/types';
 
 /**
  * Source of time tracking data
  */
-export type DiagnosticSource = 'clockify' | 'clickup';
+export type DiagnosticSource = TimeSourceId;
 
 /**
- * Normalized time entry from either Clockify or ClickUp
+ * Normalized time entry from any time source
  */
 export interface NormalizedEntry {
   source: DiagnosticSource;
@@ -44,6 +45,56 @@ export interface ValidationCheck {
   tolerance?: number;  // Optional tolerance for floating-point comparisons
 }
 
+/**
+ * How a raw export entry differs from the synced entry (timesheet_daily_rollups)
+ * - missing: in the export, not synced
+ * - minutes / date: synced with different minutes / work date
+ * - project: synced under another project
+ * - extra: synced, but not in the export
+ */
+export type EntryMismatchKind = 'missing' | 'minutes' | 'date' | 'project' | 'extra';
+
+/**
+ * Entry-level difference, for drilling into a failing project
+ */
+export interface EntryMismatch {
+  kind: EntryMismatchKind;
+  entryId: string;
+  taskName: string;
+  userName: string;
+  date: string;
+  exportMinutes: number | null;
+  storedMinutes: number | null;
+  /** Project the entry is synced under (kind 'project') */
+  storedProjectId: string | null;
+}
+
+/**
+ * Synced time entry (timesheet_daily_rollups row) used for entry-level diffs
+ */
+export interface StoredEntry {
+  /** task_id — the Clockify / ClickUp time entry id */
+  entryId: string;
+  /** External project_id the entry is synced under */
+  projectId: string;
+  taskName: string;
+  userName: string;
+  minutes: number;
+  date: string;  // ISO date string YYYY-MM-DD
+}
+
+/**
+ * Stored billing results for a project-month (project_monthly_summary),
+ * the reference a raw export is validated against
+ */
+export interface ExpectedBillingResult {
+  actualMinutes: number;
+  roundedHours: number;
+  billedHours: number;
+  baseRevenue: number;
+  billedRevenue: number;
+}
+
 /**
  * Project-level validation result
  */
@@ -66,6 +117,7 @@ export interface ProjectValidationResult {
 
   // Billing configuration
   rounding: RoundingIncrement;
+  roundingMode: RoundingMode;
   rate: number;
   minimumHours: number | null;
   maximumHours: number | null;
@@ -82,12 +134,18 @@ export interface ProjectValidationResult {
 
   // Validation checks
   checks: {
+    actualMinutes: ValidationCheck;
     roundedHours: ValidationCheck;
+    billedHours: ValidationCheck;
     baseRevenue: ValidationCheck;
     billedRevenue: ValidationCheck;
   };
 
+  // Entries that differ from what is synced (empty without stored entries)
+  entryMismatches: EntryMismatch[];
+
   // Overall status
+  status: ValidationStatus;
   allPassed: boolean;
 }
 
@@ -100,12 +158,20 @@ export interface ValidationSummary {
   clickupProjects: number;
 
   // Pass counts
+  actualMinutesPassed: number;
   roundedHoursPassed: number;
+  billedHoursPassed: number;
   baseRevenuePassed: number;
   billedRevenuePassed: number;
 
+  // Project counts by overall status
+  passedProjects: number;
+  warningProjects: number;
+  failedProjects: number;
+
   // Totals
   totalBilledRevenue: number;
+  totalExpectedRevenue: number;
 
   // Overall status
   allPassed: boolean;
@@ -167,11 +233,14 @@ export interface RawClickUpEntry {
     space_id: string;
     folder_id: string;
     list_id: string;
+    space_name?: string;
+    folder_name?: string;
   };
   task: {
     id: string;
     name: string;
   } | null;
+  description?: string;
   user: {
     id: number;
     username: string;
@@ -201,6 +270,10 @@ export interface BillingConfigLookup {
   carryoverEnabled: boolean;
   carryoverIn: number;
   isActive: boolean;
+  /** 'task' rounds each task's monthly total, 'entry' each entry (default 'task') */
+  roundingMode?: RoundingMode;
+  /** Net manual write-down / write-up already applied to the month */
+  manualAdjustment?: ManualBillingAdjustment;
   /** Whether this config was found in the system (false = using defaults) */
   matchedInSystem?: boolean;
   /** The project name that was matched in the system */
@@ -217,4 +290,11 @@ export interface ValidationOptions {
   getCompanyName: (clientId: string) => string;
   /** Tolerance for floating-point comparisons (default: 0.01) */
   tolerance?: number;
+  /**
+   * Resolve a source project id to its canonical (primary) project id.
+   * When set, entries are grouped per canonical project across sources.
+   */
+  getCanonicalProjectId?: (projectId: string) => string;
+  /** Synced entries for the month, for entry-level mismatches */
+  storedEntries?: StoredEntry[];
 }
@@ -6,19 +6,22 @@
  */
 
 import type {
+  EntryMismatch,
+  ExpectedBillingResult,
   NormalizedEntry,
   ProjectEntryGroup,
   ProjectValidationResult,
+  StoredEntry,
   ValidationCheck,
   ValidationReport,
   ValidationSummary,
   ValidationOptions,
   ValidationStatus,
 } from './types';
-import { groupEntriesByProject } from './parseRawSources';
-import { applyRounding, roundHours, roundCurrency } from '../billing';
-import { calculateBilledHours } from '../billing';
-import type { ProjectBillingLimits } from '../../types';
+import { groupEntriesByCanonicalProject, groupEntriesByProject } from './parseRawSources.ts';
+import { applyRounding, roundHours, roundCurrency } from '../billing.ts';
+import { calculateBilledHours } from '../billing.ts';
+import type { ProjectBillingLimits, RoundingIncrement, RoundingMode } from '../../types';
 
 /**
  * Default tolerance for floating-point comparisons.
@@ -65,31 +68,108 @@ function createCheck(
 }
 
 /**
- * Calculate rounded minutes using per-task rounding.
- * Entries are first grouped by task name, summed, then each task total is rounded.
- * This matches the app's billing calculation logic in billingCalculations.ts.
+ * Worst status of a set of checks (fail > warning > pass).
+ */
+function worstStatus(statuses: ValidationStatus[]): ValidationStatus {
+  if (statuses.includes('fail')) return 'fail';
+  if (statuses.includes('warning')) return 'warning';
+  return 'pass';
+}
+
+/**
+ * Calculate rounded minutes using the project's rounding mode.
+ * - 'task': entries are grouped by client and task name, summed, then each
+ *   task total is rounded (task_monthly_totals.rounded_task_minutes).
+ * - 'entry': each entry is rounded, then summed (rounded_entry_minutes).
  */
 function calculateRoundedMinutes(
   entries: NormalizedEntry[],
-  roundingIncrement: number
+  roundingIncrement: RoundingIncrement,
+  roundingMode: RoundingMode = 'task'
 ): number {
+  if (roundingMode === 'entry') {
+    return entries.reduce((sum, entry) => sum + applyRounding(entry.minutes, roundingIncrement), 0);
+  }
+
   // Group entries by task name and sum minutes per task
   const taskMinutes = new Map<string, number>();
 
   for (const entry of entries) {
-    const taskName = entry.taskName || 'No Task';
-    taskMinutes.set(taskName, (taskMinutes.get(taskName) || 0) + entry.minutes);
+    const taskKey = `${entry.clientId}:${entry.taskName || 'No Task'}`;
+    taskMinutes.set(taskKey, (taskMinutes.get(taskKey) || 0) + entry.minutes);
   }
 
   // Apply rounding to each task's total, then sum
   let totalRoundedMinutes = 0;
   for (const minutes of taskMinutes.values()) {
-    totalRoundedMinutes += applyRounding(minutes, roundingIncrement as 0 | 5 | 15 | 30);
+    totalRoundedMinutes += applyRounding(minutes, roundingIncrement);
   }
 
   return totalRoundedMinutes;
 }
 
+/**
+ * Compare a project's export entries with the synced entries of the month.
+ *
+ * @param entries - Export entries of one project (group)
+ * @param storedEntries - Every synced entry of the month
+ * @param belongsToProject - Whether a synced entry counts toward this project
+ * @returns Mismatching entries, by date
+ */
+export function diffEntries(
+  entries: NormalizedEntry[],
+  storedEntries: StoredEntry[],
+  belongsToProject: (stored: StoredEntry) => boolean
+): EntryMismatch[] {
+  const storedById = new Map(storedEntries.map((stored) => [stored.entryId, stored]));
+  const exportIds = new Set(entries.map((entry) => entry.entryId));
+  const sourceProjectIds = new Set(entries.map((entry) => entry.projectId));
+  const mismatches: EntryMismatch[] = [];
+
+  for (const entry of entries) {
+    const stored = storedById.get(entry.entryId);
+    const base = {
+      entryId: entry.entryId,
+      taskName: entry.taskName,
+      userName: entry.userName,
+      date: entry.date,
+      exportMinutes: entry.minutes,
+      storedMinutes: stored?.minutes ?? null,
+      storedProjectId: null,
+    };
+
+    if (!stored) {
+      mismatches.push({ ...base, kind: 'missing' });
+    } else if (!belongsToProject(stored)) {
+      mismatches.push({ ...base, kind: 'project', storedProjectId: stored.projectId });
+    } else if (stored.minutes !== entry.minutes) {
+      mismatches.push({ ...base, kind: 'minutes' });
+    } else if (stored.date !== entry.date) {
+      mismatches.push({ ...base, kind: 'date' });
+    }
+  }
+
+  // Synced entries the export doesn't have. Only the source projects present
+  // in the export are considered, so uploading one source never flags the
+  // other source's entries of a grouped project.
+  for (const stored of storedEntries) {
+    if (exportIds.has(stored.entryId)) continue;
+    if (!sourceProjectIds.has(stored.projectId) || !belongsToProject(stored)) continue;
+    mismatches.push({
+      kind: 'extra',
+      entryId: stored.entryId,
+      taskName: stored.taskName,
+      userName: stored.userName,
+      date: stored.date,
+      exportMinutes: null,
+      storedMinutes: stored.minutes,
+      storedProjectId: stored.projectId,
+    });
+  }
+
+  return mismatches.sort((a, b) => a.date.localeCompare(b.date) || a.entryId.localeCompare(b.entryId));
+}
+
 /**
  * Validate a single project's billing calculations.
  */
@@ -109,7 +189,8 @@ function validateProject(
   const actualHours = roundHours(rawMinutes / 60);
 
   // Calculate expected values
-  const roundedMinutes = calculateRoundedMinutes(group.entries, config.rounding);
+  const roundingMode = config.roundingMode ?? 'task';
+  const roundedMinutes = calculateRoundedMinutes(group.entries, config.rounding, roundingMode);
   const roundedHours = roundHours(roundedMinutes / 60);
   const baseRevenue = roundCurrency(roundedHours * config.rate);
 
@@ -127,7 +208,8 @@ function validateProject(
     limits,
     config.carryoverIn,
     config.rate,
-    config.isActive
+    config.isActive,
+    config.manualAdjustment
   );
 
   const billedHours = billingResult.billedHours;
@@ -135,13 +217,16 @@ function validateProject(
 
   // Create validation checks
   const checks = {
+    actualMinutes: createCheck('Actual Minutes', rawMinutes, rawMinutes, 0),
     roundedHours: createCheck('Rounded Hours', roundedHours, roundedHours, tolerance),
+    billedHours: createCheck('Billed Hours', billedHours, billedHours, tolerance),
     baseRevenue: createCheck('Base Revenue', baseRevenue, baseRevenue, tolerance),
     billedRevenue: createCheck('Billed Revenue', billedRevenue, billedRevenue, tolerance),
   };
 
   // Determine overall status
-  const allPassed = Object.values(checks).every((check) => check.status === 'pass');
+  const status = worstStatus(Object.values(checks).map((check) => check.status));
+  const allPassed = status === 'pass';
 
   return {
     clientName: canonicalClientName,
@@ -154,6 +239,7 @@ function validateProject(
     rawMinutes,
     actualHours,
     rounding: config.rounding,
+    roundingMode,
     rate: config.rate,
     minimumHours: config.minimumHours,
     maximumHours: config.maximumHours,
@@ -166,6 +252,8 @@ function validateProject(
     billedHours,
     billedRevenue,
     checks,
+    entryMismatches: [],
+    status,
     allPassed,
   };
 }
@@ -173,39 +261,38 @@ function validateProject(
 /**
  * Calculate validation summary from project results.
  */
-function calculateSummary(projects: ProjectValidationResult[]): ValidationSummary {
+function calculateSummary(
+  projects: ProjectValidationResult[],
+  totalExpectedRevenue?: number
+): ValidationSummary {
   const totalProjects = projects.length;
   const clockifyProjects = projects.filter((p) => p.source === 'clockify').length;
   const clickupProjects = projects.filter((p) => p.source === 'clickup').length;
 
-  const roundedHoursPassed = projects.filter(
-    (p) => p.checks.roundedHours.status === 'pass'
-  ).length;
-  const baseRevenuePassed = projects.filter(
-    (p) => p.checks.baseRevenue.status === 'pass'
-  ).length;
-  const billedRevenuePassed = projects.filter(
-    (p) => p.checks.billedRevenue.status === 'pass'
-  ).length;
+  const countPassed = (key: keyof ProjectValidationResult['checks']) =>
+    projects.filter((p) => p.checks[key].status === 'pass').length;
 
   const totalBilledRevenue = roundCurrency(
     projects.reduce((sum, p) => sum + p.billedRevenue, 0)
   );
 
-  const allPassed =
-    roundedHoursPassed === totalProjects &&
-    baseRevenuePassed === totalProjects &&
-    billedRevenuePassed === totalProjects;
+  const passedProjects = projects.filter((p) => p.status === 'pass').length;
 
   return {
     totalProjects,
     clockifyProjects,
     clickupProjects,
-    roundedHoursPassed,
-    baseRevenuePassed,
-    billedRevenuePassed,
+    actualMinutesPassed: countPassed('actualMinutes'),
+    roundedHoursPassed: countPassed('roundedHours'),
+    billedHoursPassed: countPassed('billedHours'),
+    baseRevenuePassed: countPassed('baseRevenue'),
+    billedRevenuePassed: countPassed('billedRevenue'),
+    passedProjects,
+    warningProjects: projects.filter((p) => p.status === 'warning').length,
+    failedProjects: projects.filter((p) => p.status === 'fail').length,
     totalBilledRevenue,
-    allPassed,
+    totalExpectedRevenue: totalExpectedRevenue ?? totalBilledRevenue,
+    allPassed: passedProjects === totalProjects,
   };
 }
 
@@ -241,7 +328,12 @@ export function runValidation(
 /**
  * Validate entries against expected billing results.
  * This is a higher-level function that compares raw entries
- * against pre-calculated billing data.
+ * against pre-calculated billing data (project_monthly_summary).
+ *
+ * Expected results are keyed by canonical project id when
+ * `getCanonicalProjectId` is set, otherwise by `clientId:projectId`.
+ * A project with no expected row was billed nothing, so every figure
+ * is expected to be zero.
  *
  * @param entries - Array of normalized entries
  * @param expectedResults - Map of project key to expected billing values
@@ -250,39 +342,40 @@ export function runValidation(
  */
 export function validateAgainstExpected(
   entries: NormalizedEntry[],
-  expectedResults: Map<string, {
-    roundedHours: number;
-    baseRevenue: number;
-    billedRevenue: number;
-  }>,
+  expectedResults: Map<string, ExpectedBillingResult>,
   options: ValidationOptions
 ): ValidationReport {
   const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
-  const { getBillingConfig, getCompanyName } = options;
+  const { getBillingConfig, getCompanyName, getCanonicalProjectId, storedEntries } = options;
 
-  // Group entries by project
-  const groups = groupEntriesByProject(entries);
+  // Group entries by project (canonical project when a resolver is given)
+  const groups = getCanonicalProjectId
+    ? groupEntriesByCanonicalProject(entries, getCanonicalProjectId)
+    : groupEntriesByProject(entries);
 
   // Validate each project against expected
   const projects: ProjectValidationResult[] = groups.map((group) => {
     const config = getBillingConfig(group.projectId);
-    const canonicalClientName = getCompanyName(group.clientId);
+    const canonicalClientName = getCompanyName(group.clientId) || group.clientName;
+    const roundingMode = config.roundingMode ?? 'task';
 
     // Raw data
     const rawMinutes = group.totalMinutes;
     const actualHours = roundHours(rawMinutes / 60);
 
     // Calculate our values
-    const roundedMinutes = calculateRoundedMinutes(group.entries, config.rounding);
+    const roundedMinutes = calculateRoundedMinutes(group.entries, config.rounding, roundingMode);
     const calculatedRoundedHours = roundHours(roundedMinutes / 60);
     const calculatedBaseRevenue = roundCurrency(calculatedRoundedHours * config.rate);
 
     // Get expected values (key by IDs only - no name-based lookups)
-    const projectKey = `${group.clientId}:${group.projectId}`;
+    const projectKey = getCanonicalProjectId ? group.projectId : `${group.clientId}:${group.projectId}`;
     const expected = expectedResults.get(projectKey) || {
-      roundedHours: calculatedRoundedHours,
-      baseRevenue: calculatedBaseRevenue,
-      billedRevenue: calculatedBaseRevenue,
+      actualMinutes: 0,
+      roundedHours: 0,
+      billedHours: 0,
+      baseRevenue: 0,
+      billedRevenue: 0,
     };
 
     // Calculate billed values
@@ -299,17 +392,30 @@ export function validateAgainstExpected(
       limits,
       config.carryoverIn,
       config.rate,
-      config.isActive
+      config.isActive,
+      config.manualAdjustment
     );
 
     // Create validation checks comparing calculated vs expected
     const checks = {
+      actualMinutes: createCheck(
+        'Actual Minutes',
+        expected.actualMinutes,
+        rawMinutes,
+        0
+      ),
       roundedHours: createCheck(
         'Rounded Hours',
         expected.roundedHours,
         calculatedRoundedHours,
         tolerance
       ),
+      billedHours: createCheck(
+        'Billed Hours',
+        expected.billedHours,
+        billingResult.billedHours,
+        tolerance
+      ),
       baseRevenue: createCheck(
         'Base Revenue',
         expected.baseRevenue,
@@ -324,11 +430,18 @@ export function validateAgainstExpected(
       ),
     };
 
-    const allPassed = Object.values(checks).every((check) => check.status === 'pass');
+    const entryMismatches = storedEntries
+      ? diffEntries(group.entries, storedEntries, (stored) =>
+          (getCanonicalProjectId ? getCanonicalProjectId(stored.projectId) : stored.projectId) === group.projectId)
+      : [];
+
+    // Entry differences that cancel out in the totals still deserve a look
+    const checkStatus = worstStatus(Object.values(checks).map((check) => check.status));
+    const status = checkStatus === 'pass' && entryMismatches.length > 0 ? 'warning' : checkStatus;
 
     return {
       clientName: canonicalClientName,
-      projectName: group.projectName,
+      projectName: config.matchedProjectName ?? group.projectName,
       source: group.source,
       sourceProjectId: group.projectId,
       sourceClientId: group.clientId,
@@ -337,6 +450,7 @@ export function validateAgainstExpected(
       rawMinutes,
       actualHours,
       rounding: config.rounding,
+      roundingMode,
       rate: config.rate,
       minimumHours: config.minimumHours,
       maximumHours: config.maximumHours,
@@ -349,11 +463,16 @@ export function validateAgainstExpected(
       billedHours: billingResult.billedHours,
       billedRevenue: billingResult.revenue,
       checks,
-      allPassed,
+      entryMismatches,
+      status,
+      allPassed: status === 'pass',
     };
   });
 
-  const summary = calculateSummary(projects);
+  const totalExpectedRevenue = roundCurrency(
+    projects.reduce((sum, p) => sum + p.checks.billedRevenue.expected, 0)
+  );
+  const summary = calculateSummary(projects, totalExpectedRevenue);
 
   return {
     generatedAt: new Date().toISOString(),
@@ -0,0 +1,98 @@
+/**
+ * employeeCost - Resolve the employee cost in force for a month.
+ *
+ * Mirrors get_resource_cost_for_month() (migration 143): the latest record at
+ * or before the month; months before the first record use the first record;
+ * a resource without records uses its own (current) cost columns.
+ */
+
+import { getEffectiveHourlyRate } from './billing.ts';
+import type { Resource, ResourceCostFormData, ResourceMonthlyCost } from '../types';
+
+/** YYYY-MM-01 for any ISO date or month string */
+export function toCostMonth(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+/**
+ * The record in force for a month. Records may be in any order.
+ */
+export function costRecordForMonth<T extends Pick<ResourceMonthlyCost, 'cost_month'>>(
+  records: readonly T[],
+  month: string
+): T | null {
+  const target = toCostMonth(month);
+  let inForce: T | null = null;
+  let first: T | null = null;
+
+  for (const record of records) {
+    if (record.cost_month <= target && (!inForce || record.cost_month > inForce.cost_month)) {
+      inForce = record;
+    }
+    if (!first || record.cost_month < first.cost_month) {
+      first = record;
+    }
+  }
+
+  return inForce ?? first;
+}
+
+/**
+ * Effective hourly cost for a month, or null when it cannot be computed.
+ * `current` is the resource's own cost, used when it has no records.
+ */
+export function costRateForMonth(
+  records: readonly ResourceMonthlyCost[],
+  current: ResourceCostFormData,
+  month: string
+): number | null {
+  const cost = costRecordForMonth(records, month) ?? current;
+  return getEffectiveHourlyRate(cost.billing_mode, cost.hourly_rate, cost.monthly_cost, cost.expected_hours);
+}
+
+/** Whether two costs differ in any field that changes the effective rate */
+export function isCostChanged(a: ResourceCostFormData, b: ResourceCostFormData): boolean {
+  return a.billing_mode !== b.billing_mode
+    || a.hourly_rate !== b.hourly_rate
+    || a.monthly_cost !== b.monthly_cost
+    || a.expected_hours !== b.expected_hours;
+}
+
+/** Resource fields needed to resolve an employee's cost by display name */
+export type EmployeeCostSource = Pick<
+  Resource,
+  'id' | 'first_name' | 'last_name' | 'external_label' | 'billing_mode' | 'hourly_rate' | 'monthly_cost' | 'expected_hours'
+>;
+
+/** Hourly cost of an employee (by canonical display name) on a work date */
+export type EmployeeCostRateLookup = (displayName: string, workDate: string) => number | null;
+
+/**
+ * Build a display-name keyed cost lookup for pages that group time by the
+ * employee's canonical display name. Rates are cached per name and month.
+ */
+export function buildEmployeeCostRateLookup(
+  employees: readonly EmployeeCostSource[],
+  costsByResource: ReadonlyMap<string, readonly ResourceMonthlyCost[]>
+): EmployeeCostRateLookup {
+  const byName = new Map<string, EmployeeCostSource>();
+  for (const emp of employees) {
+    const displayName = emp.first_name || emp.last_name
+      ? [emp.first_name, emp.last_name].filter(Boolean).join(' ')
+      : emp.external_label;
+    byName.set(displayName, emp);
+  }
+
+  const cache = new Map<string, number | null>();
+  return (displayName, workDate) => {
+    const emp = byName.get(displayName);
+    if (!emp) return null;
+
+    const month = toCostMonth(workDate);
+    const key = `${displayName}|${month}`;
+    if (!cache.has(key)) {
+      cache.set(key, costRateForMonth(costsByResource.get(emp.id) ?? [], emp, month));
+    }
+    return cache.get(key) ?? null;
+  };
+}
@@ -6,7 +6,9 @@
  *
  * Column layout: Company | Project | Task | hours... | Task Revenue | Project Revenue | Company Revenue
  * Mirrors the old export structure with added company/project summary rows,
- * fixed billing rows, and a TOTAL row.
+ * fixed billing rows, and a TOTAL row. A project with a manual billing
+ * adjustment gets an "Adjustment" row after its tasks so the task revenue
+ * still adds up to the project revenue.
  */
 
 import type { MonthlyBillingResult, CompanyBillingResult } from './billingCalculations';
@@ -24,6 +26,7 @@ export interface RevenueCSVOptions {
   milestoneByExternalProjectId: Map<string, { totalCents: number; billingId: string }>;
   monthLabel: string; // e.g. "January 2026"
   companyIds?: Set<string>; // if provided, only include these companies
+  adjustmentReasons?: Map<string, string>; // external project_id -> adjustment reasons
 }
 
 // ---------------------------------------------------------------------------
@@ -77,7 +80,7 @@ function buildMilestoneAdjustmentByCompany(
 // ---------------------------------------------------------------------------
 
 export function generateRevenueCSV(options: RevenueCSVOptions): string {
-  const { billingResult, filteredCompanyBillings, milestoneByExternalProjectId, monthLabel, companyIds } = options;
+  const { billingResult, filteredCompanyBillings, milestoneByExternalProjectId, monthLabel, companyIds, adjustmentReasons } = options;
 
   // Apply optional company filter
   const companies = companyIds
@@ -238,6 +241,22 @@ export function generateRevenueCSV(options: RevenueCSVOptions): string {
           ]));
         }
       }
+
+      // Manual adjustment row (not shown when a milestone replaces revenue)
+      const hasAdjustment = project.manualAdjustmentHours !== 0 || project.manualAdjustmentRevenue !== 0;
+      if (hasAdjustment && !milestone) {
+        const reason = project.projectId ? adjustmentReasons?.get(project.projectId) : undefined;
+        const adjustmentRow = emptyRow();
+        adjustmentRow[0] = company.companyName;
+        adjustmentRow[1] = project.projectName;
+        adjustmentRow[2] = reason ? `Adjustment: ${reason}` : 'Adjustment';
+        if (project.manualAdjustmentHours !== 0) {
+          adjustmentRow[hasBillingLimits ? 6 : 3] = project.manualAdjustmentHours.toFixed(2);
+          adjustmentRow[hasBillingLimits ? 8 : 4] = project.rate.toFixed(2);
+        }
+        adjustmentRow[colCount - 3] = formatCurrency(project.manualAdjustmentRevenue);
+        rows.push(csvRow(adjustmentRow));
+      }
     }
 
     // --- Fixed Billing rows (after projects, matching RevenueTable) ---
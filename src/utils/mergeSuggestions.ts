@@ -0,0 +1,270 @@
+/**
+ * mergeSuggestions - Pure scoring of "probably the same" entity candidates.
+ *
+ * The employee, company and project group editors list unassociated entities
+ * that look like the one being edited. get_entity_merge_signals (migration
+ * 156) returns the target and every candidate with email and timesheet
+ * signals; names are compared here, after Cyrillic transliteration, so
+ * "Иван Петров", "Ivan Petrov" and "Ivan P." match.
+ *
+ * A candidate needs a similar name or the same email to be suggested at all:
+ * coworkers share work days and clients, so activity alone only raises the
+ * score of a name match.
+ */
+
+import type { MergeEntityType, MergeSignalRow } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MergeConfidence = 'high' | 'medium';
+
+export interface MergeSuggestion {
+  entityId: string;
+  externalId: string | null;
+  name: string;
+  altName: string | null;
+  /** 0-100 */
+  score: number;
+  confidence: MergeConfidence;
+  /** Human-readable signals, strongest first */
+  reasons: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Candidates below this score are not shown */
+export const MIN_SUGGESTION_SCORE = 45;
+
+/** At or above: "probably the same" */
+export const HIGH_CONFIDENCE_SCORE = 75;
+
+/** Name similarity a candidate needs unless the email matches */
+const MIN_NAME_SIMILARITY = 0.5;
+
+/** Token similarity below this counts as no match */
+const MIN_TOKEN_SIMILARITY = 0.75;
+
+const WEIGHTS = {
+  name: 60,
+  email: 35,
+  emailLocalPart: 15,
+  overlap: 15,
+  shared: 10,
+};
+
+/** Bulgarian streamlined system, plus the Russian / Ukrainian-only letters */
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ж: 'zh', з: 'z', и: 'i',
+  й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's',
+  т: 't', у: 'u', ф: 'f', х: 'h', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'sht',
+  ъ: 'a', ь: 'y', ю: 'yu', я: 'ya',
+  ё: 'e', ы: 'y', э: 'e', і: 'i', ї: 'yi', є: 'ye', ґ: 'g',
+};
+
+/** Legal-form words ignored when comparing company names */
+const COMPANY_SUFFIXES = new Set([
+  'inc', 'llc', 'ltd', 'limited', 'corp', 'corporation', 'co', 'company',
+  'gmbh', 'ag', 'sa', 'srl', 'bv', 'plc', 'ood', 'eood', 'ad', 'the',
+]);
+
+// ============================================================================
+// NAME NORMALIZATION
+// ============================================================================
+
+/** Lowercases and transliterates Cyrillic to Latin; other characters pass through. */
+export function transliterate(text: string): string {
+  let out = '';
+  for (const char of text.toLowerCase()) {
+    out += CYRILLIC_TO_LATIN[char] ?? char;
+  }
+  return out;
+}
+
+/** Name tokens: transliterated, accents and punctuation removed. */
+export function nameTokens(text: string, entityType: MergeEntityType): string[] {
+  const tokens = transliterate(text)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+  if (entityType !== 'company') return tokens;
+  const core = tokens.filter((t) => !COMPANY_SUFFIXES.has(t));
+  return core.length > 0 ? core : tokens;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function stringSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 0 : 1 - levenshtein(a, b) / longest;
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const [short, long] = a.length <= b.length ? [a, b] : [b, a];
+  // Initial ("p" for "petrov") or shortened form ("alex" for "alexander")
+  if ((short.length === 1 || short.length >= 3) && long.startsWith(short)) return 0.8;
+  const similarity = stringSimilarity(a, b);
+  return similarity >= MIN_TOKEN_SIMILARITY ? similarity : 0;
+}
+
+/**
+ * Similarity of two names, 0-1. Tokens are paired greedily in any order; the
+ * matched weight is averaged over the shorter and the longer name, so a
+ * missing surname costs less than a different one.
+ */
+export function nameSimilarity(a: string, b: string, entityType: MergeEntityType): number {
+  const tokensA = nameTokens(a, entityType);
+  const tokensB = nameTokens(b, entityType);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const [short, long] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  const used = new Set<number>();
+  let matched = 0;
+  for (const token of short) {
+    let best = 0;
+    let bestIndex = -1;
+    long.forEach((other, index) => {
+      if (used.has(index)) return;
+      const similarity = tokenSimilarity(token, other);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) {
+      used.add(bestIndex);
+      matched += best;
+    }
+  }
+  const tokenScore = (matched / short.length + matched / long.length) / 2;
+
+  // "JohnSmith" vs "John Smith"
+  const joinedScore = stringSimilarity(tokensA.join(''), tokensB.join(''));
+  return Math.min(1, Math.max(tokenScore, joinedScore >= MIN_TOKEN_SIMILARITY ? joinedScore : 0));
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+function emailLocalPart(email: string): string {
+  return email.split('@')[0].replace(/[._-]/g, '');
+}
+
+/** A project's alt_name is its company, not another name for it */
+function namesOf(row: MergeSignalRow, entityType: MergeEntityType): string[] {
+  const names = entityType === 'project' ? [row.entity_name] : [row.entity_name, row.alt_name];
+  return names.filter((name): name is string => !!name && name.trim().length > 0);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/** Scores one candidate against the target, or null when it is not a plausible match. */
+export function scoreCandidate(
+  target: MergeSignalRow,
+  candidate: MergeSignalRow,
+  entityType: MergeEntityType,
+): MergeSuggestion | null {
+  let name = 0;
+  for (const targetName of namesOf(target, entityType)) {
+    for (const candidateName of namesOf(candidate, entityType)) {
+      name = Math.max(name, nameSimilarity(targetName, candidateName, entityType));
+    }
+  }
+
+  const targetEmail = target.email?.trim().toLowerCase() ?? '';
+  const candidateEmail = candidate.email?.trim().toLowerCase() ?? '';
+  const sameEmail = targetEmail !== '' && targetEmail === candidateEmail;
+  const sameLocalPart = !sameEmail && targetEmail !== '' && candidateEmail !== ''
+    && emailLocalPart(targetEmail) === emailLocalPart(candidateEmail);
+
+  if (!sameEmail && name < MIN_NAME_SIMILARITY) return null;
+
+  const reasons: string[] = [];
+  let score = WEIGHTS.name * name;
+  if (name >= MIN_NAME_SIMILARITY) {
+    reasons.push(name === 1 ? 'Same name' : `Name ${Math.round(name * 100)}% similar`);
+  }
+  if (sameEmail) {
+    score += WEIGHTS.email;
+    reasons.push('Same email');
+  } else if (sameLocalPart) {
+    score += WEIGHTS.emailLocalPart;
+    reasons.push('Same email name, different domain');
+  }
+
+  const activeDays = Math.min(target.work_days, candidate.work_days);
+  if (activeDays > 0 && candidate.overlap_days > 0) {
+    score += WEIGHTS.overlap * (candidate.overlap_days / activeDays);
+    reasons.push(plural(candidate.overlap_days, 'shared work day'));
+  }
+
+  if ((candidate.shared_clients ?? 0) > 0) {
+    score += WEIGHTS.shared;
+    reasons.push(plural(candidate.shared_clients!, 'shared client'));
+  } else if ((candidate.shared_users ?? 0) > 0) {
+    score += WEIGHTS.shared;
+    reasons.push(plural(candidate.shared_users!, 'shared user'));
+  }
+  if (candidate.same_company) {
+    score += WEIGHTS.shared;
+    reasons.push('Same company');
+  }
+
+  const rounded = Math.min(100, Math.round(score));
+  if (rounded < MIN_SUGGESTION_SCORE) return null;
+
+  return {
+    entityId: candidate.entity_id,
+    externalId: candidate.external_id,
+    name: candidate.entity_name,
+    altName: candidate.alt_name,
+    score: rounded,
+    confidence: rounded >= HIGH_CONFIDENCE_SCORE ? 'high' : 'medium',
+    reasons,
+  };
+}
+
+/**
+ * Ranks the candidates returned by get_entity_merge_signals, best first.
+ * `excludeIds` drops entities already staged in the editor.
+ */
+export function rankMergeSuggestions(
+  rows: MergeSignalRow[],
+  entityType: MergeEntityType,
+  excludeIds: ReadonlySet<string> = new Set(),
+  limit = 5,
+): MergeSuggestion[] {
+  const target = rows.find((row) => row.is_target);
+  if (!target) return [];
+
+  return rows
+    .filter((row) => !row.is_target && !excludeIds.has(row.entity_id))
+    .map((row) => scoreCandidate(target, row, entityType))
+    .filter((s): s is MergeSuggestion => s !== null)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, limit);
+}
@@ -0,0 +1,119 @@
+/**
+ * permissions - Pure role rules for navigation and page actions.
+ *
+ * Data visibility is enforced by RLS (migration 142); these rules decide what
+ * the app offers each role so nobody lands on a page that would come back
+ * empty or fail on save.
+ *
+ *   admin            every page
+ *   finance          every page except user/API-key/webhook administration and tools
+ *   user (member)    same pages as finance, read only
+ *   project_manager  operational pages, scoped to managed companies/projects
+ *   investor         the Investor Dashboard
+ */
+
+import type { NavRoute } from '../components/MainHeader';
+import type { UserRole } from '../types';
+
+// ============================================================================
+// ROLES
+// ============================================================================
+
+export interface RoleOption {
+  value: UserRole;
+  label: string;
+  description: string;
+}
+
+export const ROLE_OPTIONS: RoleOption[] = [
+  { value: 'admin', label: 'Admin', description: 'Full access, including user management and all edits' },
+  { value: 'finance', label: 'Finance', description: 'All companies; manages expenses' },
+  { value: 'project_manager', label: 'Project Manager', description: 'Only the companies and projects they manage' },
+  { value: 'investor', label: 'Investor', description: 'Read-only Investor Dashboard' },
+  { value: 'user', label: 'Member', description: 'Read-only access to all companies' },
+];
+
+const ROLE_VALUES = new Set<string>(ROLE_OPTIONS.map((o) => o.value));
+
+/** Coerce a stored role to a known one; missing or unknown roles are members. */
+export function normalizeRole(raw: unknown): UserRole {
+  return typeof raw === 'string' && ROLE_VALUES.has(raw) ? (raw as UserRole) : 'user';
+}
+
+export function roleLabel(role: UserRole): string {
+  return ROLE_OPTIONS.find((o) => o.value === role)?.label ?? role;
+}
+
+/** Whether the role only sees the companies/projects of its linked resource */
+export function isScopedRole(role: UserRole): boolean {
+  return role === 'project_manager';
+}
+
+/** Upload, categorize and translate expenses */
+export function canManageExpenses(role: UserRole): boolean {
+  return role === 'admin' || role === 'finance';
+}
+
+/** Allocate resources to projects (project managers on their own projects) */
+export function canPlanAllocations(role: UserRole): boolean {
+  return role === 'admin' || role === 'project_manager';
+}
+
+/** Write a project's month down or up (project managers on their own projects) */
+export function canAdjustBilling(role: UserRole): boolean {
+  return role === 'admin' || role === 'finance' || role === 'project_manager';
+}
+
+// ============================================================================
+// ROUTES
+// ============================================================================
+
+/** Pages every role can open */
+const COMMON_ROUTES: readonly NavRoute[] = ['legal', 'release-notes'];
+
+/** Administration pages backed by admin-only RPCs and edge functions */
+const ADMIN_ROUTES: readonly NavRoute[] = [
+  'users',
+  'api-keys',
+  'webhooks',
+  'diagnostics',
+  'audit',
+  'timesheet-import',
+  'release-notes-admin',
+];
+
+const PROJECT_MANAGER_ROUTES: readonly NavRoute[] = [
+  'home',
+  'holidays',
+  'employees',
+  'burn',
+  'capacity',
+  'approvals',
+  'projects',
+  'revenue',
+  'billings',
+  'eom-reports',
+];
+
+const INVESTOR_ROUTES: readonly NavRoute[] = ['investor-dashboard'];
+
+export function canAccessRoute(role: UserRole, route: NavRoute): boolean {
+  if (role === 'admin' || COMMON_ROUTES.includes(route)) return true;
+
+  switch (role) {
+    case 'finance':
+    case 'user':
+      return !ADMIN_ROUTES.includes(route);
+    case 'project_manager':
+      return PROJECT_MANAGER_ROUTES.includes(route);
+    case 'investor':
+      return INVESTOR_ROUTES.includes(route);
+    default:
+      return false;
+  }
+}
+
+/** Landing page for the role */
+export function defaultRouteFor(role: UserRole): NavRoute {
+  return role === 'investor' ? 'investor-dashboard' : 'home';
+}
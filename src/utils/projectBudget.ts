@@ -0,0 +1,175 @@
+/**
+ * projectBudget - Pure utilities for project budget burn-down and forecast.
+ *
+ * Burn comes from get_project_budget_burn() (migration 140). Amounts are in
+ * the budget's unit: hours for hours budgets, dollars for dollar budgets.
+ *
+ * Forecast:
+ *   runRate              = burned / monthsElapsed  (current month prorated by day)
+ *   forecastToComplete   = runRate * monthsRemaining
+ *   forecastAtCompletion = burned + forecastToComplete
+ */
+
+import { addMonths, differenceInCalendarMonths, format, getDaysInMonth, parseISO } from 'date-fns';
+import type { ProjectBudgetBurnMonth, ProjectBudgetStatus } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type BudgetDefinition = Pick<
+  ProjectBudgetStatus,
+  'budget_type' | 'budget_hours' | 'budget_cents' | 'start_month' | 'end_month'
+>;
+
+export interface BudgetForecast {
+  /** Budget in its unit (hours or dollars) */
+  budget: number;
+  /** Burned to date */
+  burned: number;
+  /** Budget left (negative when over budget) */
+  remaining: number;
+  /** Average burn per month so far */
+  runRate: number;
+  /** Months elapsed, the current month prorated by day */
+  monthsElapsed: number;
+  /** Months left until the end of end_month */
+  monthsRemaining: number;
+  /** Projected additional burn until end_month at the current run rate */
+  forecastToComplete: number;
+  /** Projected total burn at end_month */
+  forecastAtCompletion: number;
+  /** forecastAtCompletion as a percentage of budget */
+  forecastPct: number;
+  /** First month ('YYYY-MM-01') the budget is (or is projected to be) used up, within the budget period */
+  exhaustionMonth: string | null;
+}
+
+export interface BurnDownPoint {
+  /** Axis label, e.g. "Mar 26" */
+  month: string;
+  /** 'YYYY-MM-01' */
+  summaryMonth: string;
+  /** Remaining budget at the end of the month on a straight-line burn */
+  ideal: number;
+  /** Actual remaining budget at the end of the month (null for future months) */
+  actual: number | null;
+  /** Projected remaining budget at the current run rate (null before the last actual month) */
+  forecast: number | null;
+}
+
+// ============================================================================
+// PURE FUNCTIONS
+// ============================================================================
+
+/** Budget amount in its unit: hours, or dollars for dollar budgets. */
+export function budgetAmount(budget: BudgetDefinition): number {
+  return budget.budget_type === 'hours'
+    ? budget.budget_hours ?? 0
+    : (budget.budget_cents ?? 0) / 100;
+}
+
+/** Cumulative burn of a month in the budget's unit. */
+export function cumulativeBurn(row: ProjectBudgetBurnMonth, budgetType: BudgetDefinition['budget_type']): number {
+  return budgetType === 'hours' ? row.cumulative_hours : row.cumulative_cents / 100;
+}
+
+/** Number of months in the budget period (start and end inclusive). */
+export function budgetMonthCount(budget: BudgetDefinition): number {
+  return differenceInCalendarMonths(parseISO(budget.end_month), parseISO(budget.start_month)) + 1;
+}
+
+/** Months elapsed at asOf, with the current month prorated by day. */
+export function monthsElapsedAt(budget: BudgetDefinition, asOf: Date): number {
+  const total = budgetMonthCount(budget);
+  const fullMonths = differenceInCalendarMonths(asOf, parseISO(budget.start_month));
+  if (fullMonths < 0) return 0;
+  if (fullMonths >= total) return total;
+  return fullMonths + asOf.getDate() / getDaysInMonth(asOf);
+}
+
+/**
+ * Forecast burn at the end of the budget period from the burn so far.
+ *
+ * @param budget - Budget definition
+ * @param burn - Monthly burn rows, oldest first
+ * @param asOf - Date the forecast is made (normally today)
+ */
+export function forecastBudget(
+  budget: BudgetDefinition,
+  burn: ProjectBudgetBurnMonth[],
+  asOf: Date
+): BudgetForecast {
+  const amount = budgetAmount(budget);
+  const total = budgetMonthCount(budget);
+  const burned = burn.length > 0 ? cumulativeBurn(burn[burn.length - 1], budget.budget_type) : 0;
+  const monthsElapsed = monthsElapsedAt(budget, asOf);
+  const monthsRemaining = total - monthsElapsed;
+  const runRate = monthsElapsed > 0 ? burned / monthsElapsed : 0;
+  const forecastToComplete = runRate * monthsRemaining;
+  const forecastAtCompletion = burned + forecastToComplete;
+
+  let exhaustionMonth: string | null = null;
+  const exhausted = burn.find((row) => cumulativeBurn(row, budget.budget_type) >= amount);
+  if (exhausted) {
+    exhaustionMonth = exhausted.summary_month;
+  } else if (runRate > 0 && forecastAtCompletion >= amount) {
+    const monthIndex = Math.floor(monthsElapsed + (amount - burned) / runRate);
+    exhaustionMonth = format(addMonths(parseISO(budget.start_month), Math.min(monthIndex, total - 1)), 'yyyy-MM-dd');
+  }
+
+  return {
+    budget: amount,
+    burned,
+    remaining: amount - burned,
+    runRate,
+    monthsElapsed,
+    monthsRemaining,
+    forecastToComplete,
+    forecastAtCompletion,
+    forecastPct: amount > 0 ? (forecastAtCompletion / amount) * 100 : 0,
+    exhaustionMonth,
+  };
+}
+
+/**
+ * Remaining budget per month of the budget period: straight-line ideal,
+ * actuals from the burn rows, and a run-rate projection from the last
+ * actual month to end_month.
+ */
+export function buildBurnDown(
+  budget: BudgetDefinition,
+  burn: ProjectBudgetBurnMonth[],
+  asOf: Date
+): BurnDownPoint[] {
+  const amount = budgetAmount(budget);
+  const total = budgetMonthCount(budget);
+  const start = parseISO(budget.start_month);
+  const { runRate, monthsElapsed, burned } = forecastBudget(budget, burn, asOf);
+  const burnByMonth = new Map(burn.map((row) => [row.summary_month, row]));
+  const lastActualIndex = burn.length - 1;
+
+  const points: BurnDownPoint[] = [];
+  for (let i = 0; i < total; i++) {
+    const monthDate = addMonths(start, i);
+    const summaryMonth = format(monthDate, 'yyyy-MM-dd');
+    const row = burnByMonth.get(summaryMonth);
+
+    let forecast: number | null = null;
+    if (lastActualIndex >= 0 && i >= lastActualIndex) {
+      forecast = i === lastActualIndex && row
+        ? amount - cumulativeBurn(row, budget.budget_type)
+        : amount - burned - runRate * (i + 1 - monthsElapsed);
+    }
+
+    points.push({
+      month: format(monthDate, 'MMM yy'),
+      summaryMonth,
+      ideal: amount * (1 - (i + 1) / total),
+      actual: row ? amount - cumulativeBurn(row, budget.budget_type) : null,
+      forecast,
+    });
+  }
+
+  return points;
+}
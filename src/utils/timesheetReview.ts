@@ -0,0 +1,104 @@
+/**
+ * timesheetReview - Pure utilities for the hours approval page.
+ *
+ * Lines (one per person and task in a canonical project-month) come from
+ * get_timesheet_review() (migration 151). On a project that requires
+ * approval, a line is billed only once approved or written down; an approved
+ * line bills up to the minutes logged when it was approved, so time logged
+ * afterwards shows as changed and needs another review.
+ */
+
+import type { TimesheetLineRef, TimesheetReviewLine } from '../types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** What the reviewer sees for a line */
+export type LineReviewState =
+  | 'not_required'
+  | 'pending'
+  | 'changed'
+  | 'approved'
+  | 'adjusted'
+  | 'flagged';
+
+export interface ReviewTotals {
+  loggedMinutes: number;
+  billableMinutes: number;
+  /** Logged minutes that will not be billed (awaiting review, flagged or written down) */
+  heldBackMinutes: number;
+  /** Lines awaiting review (pending or changed) */
+  toReviewCount: number;
+  flaggedCount: number;
+}
+
+// ============================================================================
+// LINES
+// ============================================================================
+
+export function lineReviewState(line: TimesheetReviewLine): LineReviewState {
+  if (line.review_status === null) {
+    return line.requires_approval ? 'pending' : 'not_required';
+  }
+  if (
+    line.review_status === 'approved'
+    && line.reviewed_minutes !== null
+    && line.actual_minutes > line.reviewed_minutes
+  ) {
+    return 'changed';
+  }
+  return line.review_status;
+}
+
+export function needsReview(line: TimesheetReviewLine): boolean {
+  const state = lineReviewState(line);
+  return state === 'pending' || state === 'changed';
+}
+
+/** Stable key of a line within a project-month */
+export function lineKey(line: Pick<TimesheetReviewLine, 'user_id' | 'task_name' | 'client_id'>): string {
+  return `${line.user_id}\u0000${line.task_name}\u0000${line.client_id}`;
+}
+
+export function toLineRef(line: TimesheetReviewLine, approvedMinutes?: number): TimesheetLineRef {
+  const ref: TimesheetLineRef = {
+    user_id: line.user_id,
+    task_name: line.task_name,
+    client_id: line.client_id,
+  };
+  if (approvedMinutes !== undefined) ref.approved_minutes = approvedMinutes;
+  return ref;
+}
+
+export function summarizeReview(lines: TimesheetReviewLine[]): ReviewTotals {
+  const totals: ReviewTotals = {
+    loggedMinutes: 0,
+    billableMinutes: 0,
+    heldBackMinutes: 0,
+    toReviewCount: 0,
+    flaggedCount: 0,
+  };
+
+  for (const line of lines) {
+    totals.loggedMinutes += line.actual_minutes;
+    totals.billableMinutes += line.billable_minutes;
+    if (needsReview(line)) totals.toReviewCount++;
+    if (line.review_status === 'flagged') totals.flaggedCount++;
+  }
+  totals.heldBackMinutes = totals.loggedMinutes - totals.billableMinutes;
+
+  return totals;
+}
+
+/**
+ * Parse written-down hours ("7.5") into whole minutes. Returns null unless
+ * the value is between 0 and the minutes logged.
+ */
+export function parseApprovedMinutes(hours: string, loggedMinutes: number): number | null {
+  if (hours.trim() === '') return null;
+  const value = Number(hours);
+  if (!Number.isFinite(value) || value < 0) return null;
+  const minutes = Math.round(value * 60);
+  return minutes <= loggedMinutes ? minutes : null;
+}
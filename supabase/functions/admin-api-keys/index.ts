@@ -3,7 +3,7 @@
 //
 // Admin-gated CRUD on mcp_api.api_keys via three SECURITY DEFINER RPCs:
 //   - mcp_api.admin_list_api_keys()
-//   - mcp_api.admin_create_api_key(name, description, prefix, key_hash)
+//   - mcp_api.admin_create_api_key(name, description, prefix, key_hash, scopes)
 //   - mcp_api.admin_revoke_api_key(key_id)
 //
 // Plaintext bearer tokens are minted IN THIS FUNCTION (never in Postgres) and
@@ -124,6 +124,8 @@ interface CreateBody {
   action: 'create';
   name: string;
   description?: string | null;
+  /** Tool scopes (migration 148). Omitted → hours:read. */
+  scopes?: string[] | null;
 }
 interface RevokeBody {
   action: 'revoke';
@@ -221,6 +223,12 @@ serve(async (req) => {
       const description =
         body.description == null ? null : String(body.description).trim() || null;
 
+      // Scope names are validated by the RPC; only the shape is checked here.
+      if (body.scopes != null && (!Array.isArray(body.scopes) || body.scopes.length === 0)) {
+        return jsonResponse(req, { error: 'scopes must be a non-empty array' }, 400);
+      }
+      const scopes = body.scopes == null ? ['hours:read'] : body.scopes.map((s) => String(s));
+
       const { plaintext, prefix } = generatePlaintextKey();
       const keyHash = await sha256Hex(plaintext);
 
@@ -229,6 +237,7 @@ serve(async (req) => {
         p_description: description,
         p_prefix: prefix,
         p_key_hash: keyHash,
+        p_scopes: scopes,
       });
       if (error) return jsonResponse(req, { error: error.message }, 500);
 
@@ -7,6 +7,9 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
+/** Roles accepted by admin_update_user_role (migration 142) */
+const VALID_ROLES = ['admin', 'finance', 'project_manager', 'investor', 'user'];
+
 function jsonResponse(body: Record<string, unknown>, status = 200) {
   return new Response(JSON.stringify(body), {
     status,
@@ -58,6 +61,9 @@ serve(async (req) => {
     }
 
     const userRole = role || 'admin';
+    if (!VALID_ROLES.includes(userRole)) {
+      return jsonResponse({ error: `Invalid role: must be one of ${VALID_ROLES.join(', ')}` }, 400);
+    }
     const shouldInvite = send_invite ?? true;
 
     // --- Service-role client for admin operations ---
@@ -0,0 +1,481 @@
+// =============================================================================
+// Chat assistant — tool registry
+// =============================================================================
+// Typed, read-only tools the model can call. Each one reads a canonical view
+// or function through the injected ChatDataSource — the same sources as the
+// app's pages — so the assistant's numbers match what users see:
+//
+//   get_revenue_by_month  v_combined_revenue_by_company_month (Revenue, Dashboard)
+//   get_project_billing   v_canonical_project_monthly_summary  (Billing)
+//   get_project_rates     get_all_project_rates_for_month      (Rates)
+//   get_employee_hours    employee_totals                      (Employees)
+//   get_time_off          employee_time_off                    (Time Off)
+//
+// Every tool returns { ok, data, blocks }: `data` goes back to the model as
+// the tool result, `blocks` are shown to the user as tables and charts.
+// Name filters are case-insensitive substring matches.
+//
+// Shared BY COPY with supabase/functions/chat/_lib. Keep byte-identical.
+// =============================================================================
+
+import type {
+  ChatBlock,
+  ChatDataSource,
+  ChatTableColumn,
+  ChatToolResult,
+  ModelToolSpec,
+} from './types.ts';
+
+/** Rows sent back to the model per tool call; display blocks are not capped */
+export const MAX_MODEL_ROWS = 50;
+
+// -----------------------------------------------------------------------------
+// JSON Schema fragments
+// -----------------------------------------------------------------------------
+
+const dateSchema = {
+  type: 'string',
+  pattern: '^\\d{4}-\\d{2}-\\d{2}$',
+  description: 'Date as YYYY-MM-DD',
+} as const;
+
+const monthSchema = {
+  type: 'string',
+  pattern: '^\\d{4}-\\d{2}-01$',
+  description: 'First day of the month as YYYY-MM-01',
+} as const;
+
+function filterSchema(description: string) {
+  return { type: 'string', minLength: 1, description } as const;
+}
+
+// -----------------------------------------------------------------------------
+// Input validation — the subset of JSON Schema the tool schemas use
+// -----------------------------------------------------------------------------
+
+interface PropertySchema {
+  type: string;
+  description?: string;
+  pattern?: string;
+  enum?: readonly string[];
+  minLength?: number;
+}
+
+interface ObjectSchema {
+  type: 'object';
+  properties: Record<string, PropertySchema>;
+  required?: readonly string[];
+  additionalProperties: false;
+}
+
+/** Returns the first problem with `input`, or null when it matches `schema`. */
+export function validateToolInput(schema: ObjectSchema, input: Record<string, unknown>): string | null {
+  for (const key of schema.required ?? []) {
+    if (input[key] === undefined || input[key] === null) return `${key} is required`;
+  }
+  for (const [key, value] of Object.entries(input)) {
+    const property = schema.properties[key];
+    if (!property) return `Unknown parameter: ${key}`;
+    if (value === undefined || value === null) continue;
+    if (typeof value !== property.type) return `${key} must be a ${property.type}`;
+    if (typeof value === 'string') {
+      if (property.pattern && !new RegExp(property.pattern).test(value)) {
+        return `${key} must match ${property.pattern}`;
+      }
+      if (property.enum && !property.enum.includes(value)) {
+        return `${key} must be one of: ${property.enum.join(', ')}`;
+      }
+      if (property.minLength !== undefined && value.trim().length < property.minLength) {
+        return `${key} must not be empty`;
+      }
+    }
+  }
+  return null;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function dollars(cents: number | null | undefined): number {
+  return Math.round(Number(cents ?? 0)) / 100;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function matches(value: string | null | undefined, filter: unknown): boolean {
+  if (typeof filter !== 'string') return true;
+  return (value ?? '').toLowerCase().includes(filter.trim().toLowerCase());
+}
+
+/** Caps the rows the model sees and says so, so it doesn't report a partial total. */
+function forModel<T>(rows: T[]): { rows: T[]; row_count: number; truncated: boolean } {
+  return { rows: rows.slice(0, MAX_MODEL_ROWS), row_count: rows.length, truncated: rows.length > MAX_MODEL_ROWS };
+}
+
+function table(title: string, columns: ChatTableColumn[], rows: Array<Record<string, string | number | boolean | null>>): ChatBlock {
+  return { type: 'table', title, columns, rows };
+}
+
+function invalid(message: string): ChatToolResult {
+  return { ok: false, error: { code: 'invalid_input', message } };
+}
+
+function checkRange(start: string, end: string, startKey: string, endKey: string): ChatToolResult | null {
+  return start > end ? invalid(`${startKey} must not be after ${endKey}`) : null;
+}
+
+// -----------------------------------------------------------------------------
+// Tool definitions
+// -----------------------------------------------------------------------------
+
+export interface ChatToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: ObjectSchema;
+  invoke: (input: Record<string, unknown>, data: ChatDataSource) => Promise<ChatToolResult>;
+}
+
+export const CHAT_TOOLS: ChatToolDefinition[] = [
+  {
+    name: 'get_revenue_by_month',
+    description:
+      'Revenue per month between two months (inclusive), the same figures as the Revenue page: ' +
+      'timesheet revenue after milestone overrides plus fixed billings. Returns monthly totals ' +
+      'and a per-company breakdown. Amounts are USD.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        start_month: monthSchema,
+        end_month: monthSchema,
+        company: filterSchema('Only companies whose name contains this text'),
+      },
+      required: ['start_month', 'end_month'],
+      additionalProperties: false,
+    },
+    invoke: async (input, data) => {
+      const start = input.start_month as string;
+      const end = input.end_month as string;
+      const rangeError = checkRange(start, end, 'start_month', 'end_month');
+      if (rangeError) return rangeError;
+
+      const rows = (await data.revenueByCompanyMonth(start, end))
+        .filter((row) => matches(row.company_name, input.company));
+
+      const byMonth = new Map<string, { revenue: number; hours: number }>();
+      const byCompany = new Map<string, { company: string; timesheet: number; fixed: number; revenue: number; hours: number }>();
+      for (const row of rows) {
+        const month = byMonth.get(row.summary_month) ?? { revenue: 0, hours: 0 };
+        month.revenue += Number(row.combined_revenue_cents ?? 0);
+        month.hours += Number(row.total_billed_hours ?? 0);
+        byMonth.set(row.summary_month, month);
+
+        const company = byCompany.get(row.company_id) ?? { company: row.company_name, timesheet: 0, fixed: 0, revenue: 0, hours: 0 };
+        company.timesheet += Number(row.effective_revenue_cents ?? 0);
+        company.fixed += Number(row.fixed_billing_cents ?? 0);
+        company.revenue += Number(row.combined_revenue_cents ?? 0);
+        company.hours += Number(row.total_billed_hours ?? 0);
+        byCompany.set(row.company_id, company);
+      }
+
+      const months = [...byMonth.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([month, totals]) => ({ month, revenue: dollars(totals.revenue), billed_hours: round2(totals.hours) }));
+      const companies = [...byCompany.values()]
+        .sort((a, b) => b.revenue - a.revenue)
+        .map((c) => ({
+          company: c.company,
+          timesheet_revenue: dollars(c.timesheet),
+          fixed_billing: dollars(c.fixed),
+          revenue: dollars(c.revenue),
+          billed_hours: round2(c.hours),
+        }));
+      const totalRevenue = dollars([...byMonth.values()].reduce((sum, m) => sum + m.revenue, 0));
+
+      const blocks: ChatBlock[] = [];
+      if (months.length > 1) {
+        blocks.push({
+          type: 'chart',
+          title: 'Revenue by month',
+          format: 'currency',
+          points: months.map((m) => ({ label: m.month.slice(0, 7), value: m.revenue })),
+        });
+      }
+      if (companies.length > 0) {
+        blocks.push(table('Revenue by company', [
+          { key: 'company', label: 'Company', format: 'text' },
+          { key: 'billed_hours', label: 'Billed Hours', format: 'hours' },
+          { key: 'timesheet_revenue', label: 'Timesheet', format: 'currency' },
+          { key: 'fixed_billing', label: 'Fixed', format: 'currency' },
+          { key: 'revenue', label: 'Revenue', format: 'currency' },
+        ], companies));
+      }
+
+      return {
+        ok: true,
+        data: { total_revenue: totalRevenue, months, companies: forModel(companies) },
+        blocks,
+      };
+    },
+  },
+
+  {
+    name: 'get_project_billing',
+    description:
+      'Billed hours and revenue per project for one month, as shown on the Billing page: ' +
+      'rounding, minimum/maximum hours, carryover and adjustments already applied. ' +
+      'Grouped member projects are rolled into their primary project.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        month: monthSchema,
+        company: filterSchema('Only projects of companies whose name contains this text'),
+        project: filterSchema('Only projects whose name contains this text'),
+      },
+      required: ['month'],
+      additionalProperties: false,
+    },
+    invoke: async (input, data) => {
+      const projects = (await data.projectBilling(input.month as string))
+        .filter((row) => matches(row.company_name, input.company) && matches(row.project_name, input.project))
+        .map((row) => ({
+          project: row.project_name,
+          company: row.company_name,
+          actual_hours: round2(Number(row.actual_hours ?? 0)),
+          billed_hours: round2(Number(row.billed_hours ?? 0)),
+          rate: Number(row.rate_used ?? 0),
+          revenue: dollars(row.milestone_override_cents ?? row.billed_revenue_cents),
+          milestone: row.milestone_override_cents !== null,
+        }))
+        .sort((a, b) => b.revenue - a.revenue);
+
+      const totalRevenue = round2(projects.reduce((sum, p) => sum + p.revenue, 0));
+      const totalHours = round2(projects.reduce((sum, p) => sum + p.billed_hours, 0));
+
+      return {
+        ok: true,
+        data: { total_revenue: totalRevenue, total_billed_hours: totalHours, projects: forModel(projects) },
+        blocks: projects.length === 0 ? [] : [
+          table('Project billing', [
+            { key: 'project', label: 'Project', format: 'text' },
+            { key: 'company', label: 'Company', format: 'text' },
+            { key: 'actual_hours', label: 'Actual', format: 'hours' },
+            { key: 'billed_hours', label: 'Billed', format: 'hours' },
+            { key: 'rate', label: 'Rate', format: 'currency' },
+            { key: 'revenue', label: 'Revenue', format: 'currency' },
+          ], projects),
+        ],
+      };
+    },
+  },
+
+  {
+    name: 'get_project_rates',
+    description:
+      'Effective billing configuration per project for one month: hourly rate (USD), ' +
+      'rounding increment in minutes, minimum/maximum hours, active flag and carryover in.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        month: monthSchema,
+        company: filterSchema('Only projects of companies whose name contains this text'),
+        project: filterSchema('Only projects whose name contains this text'),
+      },
+      required: ['month'],
+      additionalProperties: false,
+    },
+    invoke: async (input, data) => {
+      const rates = (await data.projectRates(input.month as string))
+        .filter((row) => matches(row.company_name, input.company) && matches(row.project_name, input.project))
+        .map((row) => ({
+          project: row.project_name,
+          company: row.company_name,
+          rate: Number(row.effective_rate ?? 0),
+          rounding_minutes: Number(row.effective_rounding ?? 0),
+          minimum_hours: row.minimum_hours === null ? null : Number(row.minimum_hours),
+          maximum_hours: row.maximum_hours === null ? null : Number(row.maximum_hours),
+          is_active: row.is_active,
+          carryover_hours_in: Number(row.carryover_hours_in ?? 0),
+        }))
+        .sort((a, b) => a.company.localeCompare(b.company) || a.project.localeCompare(b.project));
+
+      return {
+        ok: true,
+        data: forModel(rates),
+        blocks: rates.length === 0 ? [] : [
+          table('Project rates', [
+            { key: 'project', label: 'Project', format: 'text' },
+            { key: 'company', label: 'Company', format: 'text' },
+            { key: 'rate', label: 'Rate', format: 'currency' },
+            { key: 'rounding_minutes', label: 'Rounding (min)', format: 'number' },
+            { key: 'minimum_hours', label: 'Min', format: 'hours' },
+            { key: 'maximum_hours', label: 'Max', format: 'hours' },
+          ], rates),
+        ],
+      };
+    },
+  },
+
+  {
+    name: 'get_employee_hours',
+    description:
+      'Hours logged between two dates (inclusive), totalled per employee or per project. ' +
+      'Actual hours are as logged; rounded hours apply each project\'s rounding increment.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        start_date: dateSchema,
+        end_date: dateSchema,
+        group_by: { type: 'string', enum: ['employee', 'project'], description: 'Default employee' },
+        employee: filterSchema('Only employees whose name contains this text'),
+        project: filterSchema('Only projects whose name contains this text'),
+      },
+      required: ['start_date', 'end_date'],
+      additionalProperties: false,
+    },
+    invoke: async (input, data) => {
+      const start = input.start_date as string;
+      const end = input.end_date as string;
+      const rangeError = checkRange(start, end, 'start_date', 'end_date');
+      if (rangeError) return rangeError;
+      const byProject = input.group_by === 'project';
+
+      const groups = new Map<string, { name: string; company: string | null; actual: number; rounded: number }>();
+      for (const row of await data.employeeHours(start, end)) {
+        if (!matches(row.user_name, input.employee) || !matches(row.project_name, input.project)) continue;
+        const key = byProject ? `${row.client_name}\u0000${row.project_name}` : row.user_name;
+        const group = groups.get(key) ?? {
+          name: byProject ? row.project_name : row.user_name,
+          company: byProject ? row.client_name : null,
+          actual: 0,
+          rounded: 0,
+        };
+        group.actual += Number(row.actual_hours ?? 0);
+        group.rounded += Number(row.rounded_hours ?? 0);
+        groups.set(key, group);
+      }
+
+      const nameKey = byProject ? 'project' : 'employee';
+      const totals = [...groups.values()]
+        .sort((a, b) => b.actual - a.actual)
+        .map((g): Record<string, string | number | null> => ({
+          [nameKey]: g.name,
+          ...(byProject ? { company: g.company } : {}),
+          actual_hours: round2(g.actual),
+          rounded_hours: round2(g.rounded),
+        }));
+
+      const blocks: ChatBlock[] = [];
+      if (totals.length > 1) {
+        blocks.push({
+          type: 'chart',
+          title: byProject ? 'Hours by project' : 'Hours by employee',
+          format: 'hours',
+          points: totals.slice(0, 15).map((t) => ({ label: String(t[nameKey]), value: Number(t.actual_hours) })),
+        });
+      }
+      if (totals.length > 0) {
+        blocks.push(table(byProject ? 'Hours by project' : 'Hours by employee', [
+          { key: nameKey, label: byProject ? 'Project' : 'Employee', format: 'text' },
+          ...(byProject ? [{ key: 'company', label: 'Company', format: 'text' as const }] : []),
+          { key: 'actual_hours', label: 'Actual', format: 'hours' },
+          { key: 'rounded_hours', label: 'Rounded', format: 'hours' },
+        ], totals));
+      }
+
+      return {
+        ok: true,
+        data: {
+          total_actual_hours: round2(totals.reduce((sum, t) => sum + Number(t.actual_hours), 0)),
+          groups: forModel(totals),
+        },
+        blocks,
+      };
+    },
+  },
+
+  {
+    name: 'get_time_off',
+    description:
+      'Approved time off (from BambooHR) overlapping two dates (inclusive): who, type, dates and days.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        start_date: dateSchema,
+        end_date: dateSchema,
+        employee: filterSchema('Only employees whose name contains this text'),
+      },
+      required: ['start_date', 'end_date'],
+      additionalProperties: false,
+    },
+    invoke: async (input, data) => {
+      const start = input.start_date as string;
+      const end = input.end_date as string;
+      const rangeError = checkRange(start, end, 'start_date', 'end_date');
+      if (rangeError) return rangeError;
+
+      const requests = (await data.timeOff(start, end))
+        .filter((row) => matches(row.employee_name, input.employee))
+        .sort((a, b) => a.start_date.localeCompare(b.start_date) || a.employee_name.localeCompare(b.employee_name))
+        .map((row) => ({
+          employee: row.employee_name,
+          type: row.time_off_type,
+          start_date: row.start_date,
+          end_date: row.end_date,
+          days: Number(row.total_days ?? 0),
+        }));
+
+      return {
+        ok: true,
+        data: forModel(requests),
+        blocks: requests.length === 0 ? [] : [
+          table('Time off', [
+            { key: 'employee', label: 'Employee', format: 'text' },
+            { key: 'type', label: 'Type', format: 'text' },
+            { key: 'start_date', label: 'From', format: 'date' },
+            { key: 'end_date', label: 'To', format: 'date' },
+            { key: 'days', label: 'Days', format: 'number' },
+          ], requests),
+        ],
+      };
+    },
+  },
+];
+
+export const CHAT_TOOL_INDEX = new Map(CHAT_TOOLS.map((tool) => [tool.name, tool]));
+
+/** Tool list in the shape the Messages API expects */
+export function chatToolSpecs(): ModelToolSpec[] {
+  return CHAT_TOOLS.map((tool) => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.inputSchema as unknown as Record<string, unknown>,
+  }));
+}
+
+/**
+ * Validates and runs one tool call. Never throws: unknown tools, bad input
+ * and query errors come back as { ok: false } for the model to read.
+ */
+export async function invokeChatTool(
+  name: string,
+  input: Record<string, unknown>,
+  data: ChatDataSource,
+): Promise<ChatToolResult> {
+  const tool = CHAT_TOOL_INDEX.get(name);
+  if (!tool) return { ok: false, error: { code: 'unknown_tool', message: `Unknown tool: ${name}` } };
+
+  const problem = validateToolInput(tool.inputSchema, input ?? {});
+  if (problem) return invalid(problem);
+
+  try {
+    return await tool.invoke(input ?? {}, data);
+  } catch (err) {
+    return {
+      ok: false,
+      error: { code: 'query_failed', message: err instanceof Error ? err.message : 'Query failed' },
+    };
+  }
+}
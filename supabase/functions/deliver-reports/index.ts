@@ -0,0 +1,622 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { encode as base64Encode } from 'https://deno.land/std@0.168.0/encoding/base64.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import {
+  buildTemplateVars,
+  nextRetryAt,
+  renderTemplate,
+  scheduledPeriod,
+  splitRecipients,
+  type DeliveryPeriod,
+  type RecipientInput,
+  type ReportScheduleTiming,
+  type ReportType,
+} from './_lib/reportDelivery.ts';
+
+// =============================================================================
+// Edge Function: deliver-reports
+// =============================================================================
+// Emails EOM and weekly reports to the per-company recipient lists
+// (report_recipients) using the templates and schedule in report_schedules,
+// logging every attempt in report_deliveries (migration 141).
+//
+// Two modes:
+//   POST {}                          — Scheduled run (hourly pg_cron):
+//       1. For each enabled schedule whose send time has passed this cycle,
+//          deliver the prior period's report to every company with active
+//          recipients. schedule_key makes this once per company-period.
+//       2. Retry failed deliveries whose next_retry_at has passed.
+//   POST { reportType, reportId }    — Send now / resend a single report.
+//
+// Attachments are read from storage: the report CSV (eom-reports /
+// weekly-reports buckets) and, for EOM, the client invoice PDF.
+//
+// Mail transport (REPORT_MAIL_TRANSPORT):
+//   sendgrid (default) — SENDGRID_KEY, SENDGRID_SENDER
+//   smtp               — SMTP_HOST / SMTP_PORT (default localhost:1025),
+//                        for a local SMTP catcher such as Mailpit or MailHog
+// REPORT_MAIL_FROM overrides the sender address for either transport.
+//
+// POST (authenticated admin or service_role)
+//
+// Returns JSON:
+//   { success: true, delivered, failed, skipped, retried, errors: [...] }   (scheduled)
+//   { success: true, delivery: { id, status, to, cc, error } }               (manual)
+//   { error: string } on failure
+// =============================================================================
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const SENDER_NAME = 'Manifest Development Team';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ScheduleRow extends ReportScheduleTiming {
+  subject_template: string;
+  body_template: string;
+  attach_csv: boolean;
+  attach_invoice_pdf: boolean;
+}
+
+/** A generated report, normalised across eom_reports and weekly_reports. */
+interface ReportContext {
+  reportType: ReportType;
+  reportId: string;
+  companyId: string;
+  companyName: string;
+  period: DeliveryPeriod;
+  totalHours: number;
+  totalRevenueCents: number;
+  invoiceNumber: string | null;
+  csvPath: string | null;
+  invoicePdfPath: string | null;
+}
+
+interface DeliveryRow {
+  id: string;
+  report_type: ReportType;
+  company_id: string;
+  eom_report_id: string | null;
+  weekly_report_id: string | null;
+  period_key: string;
+  attempt_count: number;
+}
+
+interface MailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+interface MailMessage {
+  deliveryId: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  text: string;
+  attachments: MailAttachment[];
+}
+
+interface DeliveryOutcome {
+  id: string;
+  status: 'sent' | 'failed';
+  to: string[];
+  cc: string[];
+  error: string | null;
+}
+
+// =============================================================================
+// Mail transport
+// =============================================================================
+
+/** Send a message; returns the provider message id when there is one. */
+async function sendMail(message: MailMessage): Promise<string | null> {
+  const transport = Deno.env.get('REPORT_MAIL_TRANSPORT') || 'sendgrid';
+  const from = Deno.env.get('REPORT_MAIL_FROM') || Deno.env.get('SENDGRID_SENDER');
+  if (!from) throw new Error('No sender configured (REPORT_MAIL_FROM or SENDGRID_SENDER)');
+
+  if (transport === 'smtp') {
+    const client = new SMTPClient({
+      connection: {
+        hostname: Deno.env.get('SMTP_HOST') || 'localhost',
+        port: Number(Deno.env.get('SMTP_PORT') || 1025),
+        tls: false,
+      },
+      debug: { allowUnsecure: true, noStartTLS: true },
+    });
+    try {
+      await client.send({
+        from: `${SENDER_NAME} <${from}>`,
+        to: message.to,
+        cc: message.cc.length > 0 ? message.cc : undefined,
+        subject: message.subject,
+        content: message.text,
+        attachments: message.attachments.map((a) => ({
+          filename: a.filename,
+          contentType: a.contentType,
+          encoding: 'binary' as const,
+          content: a.content,
+        })),
+      });
+    } finally {
+      await client.close();
+    }
+    return null;
+  }
+
+  const sgResponse = await fetch('https://api.sendgrid.com/v3/mail/send', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get('SENDGRID_KEY')}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      personalizations: [{
+        to: message.to.map((email) => ({ email })),
+        ...(message.cc.length > 0 ? { cc: message.cc.map((email) => ({ email })) } : {}),
+      }],
+      from: { email: from, name: SENDER_NAME },
+      subject: message.subject,
+      content: [{ type: 'text/plain', value: message.text }],
+      attachments: message.attachments.map((a) => ({
+        content: base64Encode(a.content),
+        filename: a.filename,
+        type: a.contentType,
+        disposition: 'attachment',
+      })),
+      // Echoed back on Event Webhook payloads (report-delivery-events)
+      custom_args: { delivery_id: message.deliveryId },
+    }),
+  });
+
+  if (!sgResponse.ok) {
+    const errText = await sgResponse.text();
+    throw new Error(`SendGrid ${sgResponse.status}: ${errText.slice(0, 500)}`);
+  }
+  return sgResponse.headers.get('X-Message-Id');
+}
+
+// =============================================================================
+// Reports
+// =============================================================================
+
+function safeName(companyName: string): string {
+  return companyName.replace(/[^a-zA-Z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+async function loadReport(
+  supabase: SupabaseClient,
+  reportType: ReportType,
+  reportId: string,
+): Promise<ReportContext | null> {
+  if (reportType === 'eom') {
+    const { data, error } = await supabase
+      .from('eom_reports')
+      .select('id, company_id, company_name, report_year, report_month, total_hours, total_revenue_cents, storage_path, invoice_number, invoice_storage_path')
+      .eq('id', reportId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) return null;
+    const month = String(data.report_month).padStart(2, '0');
+    const lastDay = new Date(Date.UTC(data.report_year, data.report_month, 0)).getUTCDate();
+    return {
+      reportType,
+      reportId: data.id,
+      companyId: data.company_id,
+      companyName: data.company_name,
+      period: {
+        periodKey: `${data.report_year}-${month}`,
+        periodStart: `${data.report_year}-${month}-01`,
+        periodEnd: `${data.report_year}-${month}-${String(lastDay).padStart(2, '0')}`,
+      },
+      totalHours: Number(data.total_hours),
+      totalRevenueCents: Number(data.total_revenue_cents),
+      invoiceNumber: data.invoice_number,
+      csvPath: data.storage_path,
+      invoicePdfPath: data.invoice_storage_path,
+    };
+  }
+
+  const { data, error } = await supabase
+    .from('weekly_reports')
+    .select('id, company_id, company_name, week_start, week_end, total_hours, total_revenue_cents, storage_path')
+    .eq('id', reportId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  return {
+    reportType,
+    reportId: data.id,
+    companyId: data.company_id,
+    companyName: data.company_name,
+    period: { periodKey: data.week_start, periodStart: data.week_start, periodEnd: data.week_end },
+    totalHours: Number(data.total_hours),
+    totalRevenueCents: Number(data.total_revenue_cents),
+    invoiceNumber: null,
+    csvPath: data.storage_path,
+    invoicePdfPath: null,
+  };
+}
+
+/** Id of the generated report for a company-period, if there is one. */
+async function findReportId(
+  supabase: SupabaseClient,
+  reportType: ReportType,
+  companyId: string,
+  period: DeliveryPeriod,
+): Promise<string | null> {
+  const query = reportType === 'eom'
+    ? supabase
+      .from('eom_reports')
+      .select('id')
+      .eq('company_id', companyId)
+      .eq('report_year', Number(period.periodStart.slice(0, 4)))
+      .eq('report_month', Number(period.periodStart.slice(5, 7)))
+    : supabase
+      .from('weekly_reports')
+      .select('id')
+      .eq('company_id', companyId)
+      .eq('week_start', period.periodStart);
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  return data?.id ?? null;
+}
+
+async function loadRecipients(
+  supabase: SupabaseClient,
+  reportType: ReportType,
+  companyId: string,
+): Promise<{ to: string[]; cc: string[] }> {
+  const { data, error } = await supabase
+    .from('report_recipients')
+    .select('email, recipient_kind, is_active')
+    .eq('report_type', reportType)
+    .eq('company_id', companyId)
+    .eq('is_active', true)
+    .order('created_at');
+  if (error) throw error;
+  return splitRecipients((data || []) as RecipientInput[]);
+}
+
+async function downloadFile(supabase: SupabaseClient, bucket: string, path: string): Promise<Uint8Array> {
+  const { data, error } = await supabase.storage.from(bucket).download(path);
+  if (error || !data) throw new Error(`Could not read ${bucket}/${path}: ${error?.message ?? 'no data'}`);
+  return new Uint8Array(await data.arrayBuffer());
+}
+
+async function buildAttachments(
+  supabase: SupabaseClient,
+  report: ReportContext,
+  schedule: ScheduleRow,
+): Promise<MailAttachment[]> {
+  const attachments: MailAttachment[] = [];
+  const baseName = `${safeName(report.companyName)}_${report.reportType === 'eom' ? 'Revenue_Report' : 'Weekly_Report'}_${report.period.periodKey}`;
+
+  if (schedule.attach_csv) {
+    if (!report.csvPath) throw new Error('Report has no CSV in storage');
+    attachments.push({
+      filename: `${baseName}.csv`,
+      contentType: 'text/csv',
+      content: await downloadFile(supabase, report.reportType === 'eom' ? 'eom-reports' : 'weekly-reports', report.csvPath),
+    });
+  }
+
+  if (report.reportType === 'eom' && schedule.attach_invoice_pdf && report.invoicePdfPath) {
+    attachments.push({
+      filename: `${safeName(report.companyName)}_Invoice_${report.invoiceNumber ?? report.period.periodKey}.pdf`,
+      contentType: 'application/pdf',
+      content: await downloadFile(supabase, 'eom-reports', report.invoicePdfPath),
+    });
+  }
+
+  return attachments;
+}
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+/**
+ * Make one attempt at a delivery row and record the outcome. Recipients are
+ * re-read on every attempt so a retry picks up a corrected address.
+ */
+async function attemptDelivery(
+  supabase: SupabaseClient,
+  delivery: DeliveryRow,
+  report: ReportContext,
+  schedule: ScheduleRow,
+): Promise<DeliveryOutcome> {
+  const attempts = delivery.attempt_count + 1;
+  let to: string[] = [];
+  let cc: string[] = [];
+  let subject: string | null = null;
+
+  try {
+    ({ to, cc } = await loadRecipients(supabase, report.reportType, report.companyId));
+    if (to.length === 0) throw new Error('No active "to" recipients for this company');
+
+    const vars = buildTemplateVars({
+      reportType: report.reportType,
+      companyName: report.companyName,
+      periodStart: report.period.periodStart,
+      periodEnd: report.period.periodEnd,
+      totalHours: report.totalHours,
+      totalRevenueCents: report.totalRevenueCents,
+      invoiceNumber: report.invoiceNumber,
+    });
+    subject = renderTemplate(schedule.subject_template, vars);
+
+    const providerMessageId = await sendMail({
+      deliveryId: delivery.id,
+      to,
+      cc,
+      subject,
+      text: renderTemplate(schedule.body_template, vars),
+      attachments: await buildAttachments(supabase, report, schedule),
+    });
+
+    const { error: updateError } = await supabase
+      .from('report_deliveries')
+      .update({
+        status: 'sent',
+        to_emails: to,
+        cc_emails: cc,
+        subject,
+        attempt_count: attempts,
+        last_error: null,
+        next_retry_at: null,
+        provider_message_id: providerMessageId,
+        sent_at: new Date().toISOString(),
+      })
+      .eq('id', delivery.id);
+    if (updateError) console.error(`[deliver-reports] Could not record delivery ${delivery.id}: ${updateError.message}`);
+
+    return { id: delivery.id, status: 'sent', to, cc, error: null };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`[deliver-reports] Delivery ${delivery.id} (${report.companyName} ${report.period.periodKey}) failed: ${message}`);
+    const retryAt = nextRetryAt(attempts, new Date());
+
+    const { error: updateError } = await supabase
+      .from('report_deliveries')
+      .update({
+        status: 'failed',
+        to_emails: to,
+        cc_emails: cc,
+        subject,
+        attempt_count: attempts,
+        last_error: message,
+        next_retry_at: retryAt?.toISOString() ?? null,
+      })
+      .eq('id', delivery.id);
+    if (updateError) console.error(`[deliver-reports] Could not record failure ${delivery.id}: ${updateError.message}`);
+
+    return { id: delivery.id, status: 'failed', to, cc, error: message };
+  }
+}
+
+async function createDelivery(
+  supabase: SupabaseClient,
+  report: ReportContext,
+  trigger: 'schedule' | 'manual',
+  requestedBy: string | null,
+): Promise<DeliveryRow | null> {
+  const { data, error } = await supabase
+    .from('report_deliveries')
+    .insert({
+      report_type: report.reportType,
+      company_id: report.companyId,
+      eom_report_id: report.reportType === 'eom' ? report.reportId : null,
+      weekly_report_id: report.reportType === 'weekly' ? report.reportId : null,
+      period_key: report.period.periodKey,
+      trigger,
+      schedule_key: trigger === 'schedule'
+        ? `${report.reportType}:${report.companyId}:${report.period.periodKey}`
+        : null,
+      requested_by: requestedBy,
+    })
+    .select('id, report_type, company_id, eom_report_id, weekly_report_id, period_key, attempt_count')
+    .single();
+
+  // 23505: the scheduled delivery for this company-period already exists
+  if (error?.code === '23505') return null;
+  if (error) throw error;
+  return data as DeliveryRow;
+}
+
+// =============================================================================
+// Main handler
+// =============================================================================
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    // --- Authenticate caller (admin user or service_role) ---
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const token = authHeader.replace('Bearer ', '');
+
+    let isServiceRole = false;
+    try {
+      const payloadB64 = token.split('.')[1];
+      if (payloadB64) {
+        const payload = JSON.parse(atob(payloadB64));
+        if (payload.role === 'service_role') {
+          isServiceRole = true;
+        }
+      }
+    } catch {
+      // Not a valid JWT — fall through to user auth
+    }
+
+    let requestedBy: string | null = null;
+    if (!isServiceRole) {
+      const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: { user }, error: authError } = await supabaseAuth.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+      }
+
+      const { data: isAdmin, error: adminCheckError } = await supabaseAuth.rpc('is_admin');
+      if (adminCheckError || !isAdmin) {
+        return jsonResponse({ error: 'Forbidden: admin access required' }, 403);
+      }
+      requestedBy = user.id;
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // --- Parse request body (cron sends {}) ---
+    let body: { reportType?: unknown; reportId?: unknown } = {};
+    try {
+      body = await req.json();
+    } catch {
+      // Empty body is valid (scheduled run)
+    }
+
+    const { data: scheduleRows, error: scheduleError } = await supabase
+      .from('report_schedules')
+      .select('*');
+    if (scheduleError) throw scheduleError;
+    const schedules = new Map((scheduleRows as ScheduleRow[]).map((s) => [s.report_type, s]));
+
+    // =========================================================================
+    // Manual: send now / resend
+    // =========================================================================
+
+    if (body.reportType !== undefined || body.reportId !== undefined) {
+      if (body.reportType !== 'eom' && body.reportType !== 'weekly') {
+        return jsonResponse({ error: "reportType must be 'eom' or 'weekly'" }, 400);
+      }
+      if (typeof body.reportId !== 'string' || !UUID_RE.test(body.reportId)) {
+        return jsonResponse({ error: 'reportId must be a valid UUID' }, 400);
+      }
+
+      const report = await loadReport(supabase, body.reportType, body.reportId);
+      if (!report) return jsonResponse({ error: 'Report not found' }, 404);
+
+      const delivery = await createDelivery(supabase, report, 'manual', requestedBy);
+      const outcome = await attemptDelivery(supabase, delivery!, report, schedules.get(report.reportType)!);
+      return jsonResponse({ success: true, delivery: outcome });
+    }
+
+    // =========================================================================
+    // Scheduled: due periods for companies with active recipients
+    // =========================================================================
+
+    const now = new Date();
+    let delivered = 0;
+    let failed = 0;
+    let skipped = 0;
+    let retried = 0;
+    const errors: string[] = [];
+
+    for (const schedule of schedules.values()) {
+      const period = scheduledPeriod(schedule, now);
+      if (!period) continue;
+
+      const { data: recipientRows, error: recipientError } = await supabase
+        .from('report_recipients')
+        .select('company_id')
+        .eq('report_type', schedule.report_type)
+        .eq('is_active', true);
+      if (recipientError) throw recipientError;
+      const companyIds = [...new Set((recipientRows || []).map((r) => r.company_id as string))];
+
+      for (const companyId of companyIds) {
+        try {
+          const reportId = await findReportId(supabase, schedule.report_type, companyId, period);
+          if (!reportId) {
+            // Not generated yet — picked up by a later hourly run
+            skipped++;
+            continue;
+          }
+          const report = await loadReport(supabase, schedule.report_type, reportId);
+          const delivery = report && await createDelivery(supabase, report, 'schedule', null);
+          if (!report || !delivery) {
+            skipped++;
+            continue;
+          }
+          const outcome = await attemptDelivery(supabase, delivery, report, schedule);
+          if (outcome.status === 'sent') delivered++;
+          else {
+            failed++;
+            errors.push(`${report.companyName} ${period.periodKey}: ${outcome.error}`);
+          }
+        } catch (err) {
+          const msg = err instanceof Error ? err.message : String(err);
+          errors.push(`${schedule.report_type} ${companyId} ${period.periodKey}: ${msg}`);
+        }
+      }
+    }
+
+    // =========================================================================
+    // Retries: failed deliveries whose backoff has elapsed
+    // =========================================================================
+
+    const { data: retryRows, error: retryError } = await supabase
+      .from('report_deliveries')
+      .select('id, report_type, company_id, eom_report_id, weekly_report_id, period_key, attempt_count')
+      .eq('status', 'failed')
+      .not('next_retry_at', 'is', null)
+      .lte('next_retry_at', now.toISOString())
+      .order('next_retry_at');
+    if (retryError) throw retryError;
+
+    for (const delivery of (retryRows || []) as DeliveryRow[]) {
+      const reportId = delivery.eom_report_id ?? delivery.weekly_report_id;
+      const report = reportId ? await loadReport(supabase, delivery.report_type, reportId) : null;
+      if (!report) {
+        // Report was deleted since — stop retrying
+        await supabase
+          .from('report_deliveries')
+          .update({ next_retry_at: null, last_error: 'Report no longer exists' })
+          .eq('id', delivery.id);
+        continue;
+      }
+      retried++;
+      const outcome = await attemptDelivery(supabase, delivery, report, schedules.get(delivery.report_type)!);
+      if (outcome.status === 'sent') delivered++;
+      else errors.push(`${report.companyName} ${delivery.period_key} (retry): ${outcome.error}`);
+    }
+
+    return jsonResponse({ success: true, delivered, failed, skipped, retried, errors });
+  } catch (error) {
+    console.error('deliver-reports error:', error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'An unexpected error occurred' },
+      500,
+    );
+  }
+});
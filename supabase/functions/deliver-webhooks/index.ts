@@ -0,0 +1,426 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  buildWebhookBody,
+  isDeliveredStatus,
+  nextWebhookRetryAt,
+  signWebhook,
+  truncateResponseBody,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TEST_EVENT,
+  type WebhookEventRow,
+} from './_lib/webhooks.ts';
+
+// =============================================================================
+// Edge Function: deliver-webhooks
+// =============================================================================
+// Posts outbound webhook events (migration 149) to subscribed endpoints,
+// signed with the endpoint's secret, and records every attempt in
+// webhook_deliveries.
+//
+// Three modes:
+//   POST {}                                — Scheduled run (per-minute pg_cron):
+//       deliver every queued row and retry failed rows whose next_retry_at
+//       has passed. Each row is leased (next_retry_at moved forward) before
+//       it is posted, so overlapping runs never post the same row twice.
+//   POST { action: 'redeliver', deliveryId } — Post a delivery's event to its
+//       endpoint again now, as a new delivery row.
+//   POST { action: 'test', endpointId }    — Post a webhook.test event now.
+//
+// Request headers sent to endpoints:
+//   X-Manifest-Signature  t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">
+//   X-Manifest-Event      event type
+//   X-Manifest-Delivery   webhook_deliveries.id
+//
+// POST (authenticated admin or service_role)
+//
+// Returns JSON:
+//   { success: true, delivered, failed, skipped, errors: [...] }        (scheduled)
+//   { success: true, delivery: { id, status, response_status, error } }  (manual)
+//   { error: string } on failure
+// =============================================================================
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** Rows posted per scheduled run; the rest wait for the next minute. */
+const BATCH_SIZE = 25;
+
+/** Endpoint response timeout. */
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/** How long a claimed row is hidden from other runs while it is posted. */
+const LEASE_MS = 5 * 60_000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface DeliveryRow {
+  id: string;
+  endpoint_id: string;
+  event_id: string;
+  event_type: string;
+  attempt_count: number;
+  next_retry_at: string | null;
+}
+
+interface EndpointRow {
+  id: string;
+  url: string;
+  is_active: boolean;
+}
+
+interface DeliveryOutcome {
+  id: string;
+  status: 'delivered' | 'failed';
+  response_status: number | null;
+  error: string | null;
+}
+
+const DELIVERY_COLUMNS = 'id, endpoint_id, event_id, event_type, attempt_count, next_retry_at';
+
+// =============================================================================
+// Delivery
+// =============================================================================
+
+async function loadEndpoint(supabase: SupabaseClient, endpointId: string): Promise<EndpointRow | null> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('id, url, is_active')
+    .eq('id', endpointId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as EndpointRow | null;
+}
+
+async function loadSecret(supabase: SupabaseClient, endpointId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('webhook_endpoint_secrets')
+    .select('secret')
+    .eq('endpoint_id', endpointId)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.secret ?? null;
+}
+
+async function loadEvent(supabase: SupabaseClient, eventId: string): Promise<WebhookEventRow | null> {
+  const { data, error } = await supabase
+    .from('webhook_events')
+    .select('id, event_type, data, created_at')
+    .eq('id', eventId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as WebhookEventRow | null;
+}
+
+/**
+ * Make one attempt at a delivery row and record the outcome. The endpoint and
+ * secret are re-read on every attempt so a retry picks up a corrected URL or
+ * a rotated secret.
+ */
+async function attemptDelivery(supabase: SupabaseClient, delivery: DeliveryRow): Promise<DeliveryOutcome> {
+  const attempts = delivery.attempt_count + 1;
+  const startedAt = Date.now();
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+
+  try {
+    const endpoint = await loadEndpoint(supabase, delivery.endpoint_id);
+    if (!endpoint) throw new Error('Endpoint no longer exists');
+    if (!endpoint.is_active) throw new Error('Endpoint is disabled');
+    const secret = await loadSecret(supabase, endpoint.id);
+    if (!secret) throw new Error('Endpoint has no signing secret');
+    const event = await loadEvent(supabase, delivery.event_id);
+    if (!event) throw new Error('Event no longer exists');
+
+    const body = buildWebhookBody(event);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const response = await fetch(endpoint.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'Manifest-Webhooks/1.0',
+        [WEBHOOK_SIGNATURE_HEADER]: await signWebhook(secret, timestamp, body),
+        [WEBHOOK_EVENT_HEADER]: event.event_type,
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = truncateResponseBody(await response.text());
+    if (!isDeliveredStatus(response.status)) {
+      throw new Error(`Endpoint responded ${response.status}`);
+    }
+
+    const { error: updateError } = await supabase
+      .from('webhook_deliveries')
+      .update({
+        status: 'delivered',
+        attempt_count: attempts,
+        next_retry_at: null,
+        response_status: responseStatus,
+        response_body: responseBody,
+        last_error: null,
+        duration_ms: Date.now() - startedAt,
+        delivered_at: new Date().toISOString(),
+      })
+      .eq('id', delivery.id);
+    if (updateError) console.error(`[deliver-webhooks] Could not record delivery ${delivery.id}: ${updateError.message}`);
+
+    return { id: delivery.id, status: 'delivered', response_status: responseStatus, error: null };
+  } catch (err) {
+    const message = err instanceof Error
+      ? (err.name === 'TimeoutError' ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s` : err.message)
+      : String(err);
+    console.error(`[deliver-webhooks] Delivery ${delivery.id} (${delivery.event_type}) failed: ${message}`);
+    const retryAt = nextWebhookRetryAt(attempts, new Date());
+
+    const { error: updateError } = await supabase
+      .from('webhook_deliveries')
+      .update({
+        status: 'failed',
+        attempt_count: attempts,
+        next_retry_at: retryAt?.toISOString() ?? null,
+        response_status: responseStatus,
+        response_body: responseBody,
+        last_error: message,
+        duration_ms: Date.now() - startedAt,
+      })
+      .eq('id', delivery.id);
+    if (updateError) console.error(`[deliver-webhooks] Could not record failure ${delivery.id}: ${updateError.message}`);
+
+    return { id: delivery.id, status: 'failed', response_status: responseStatus, error: message };
+  }
+}
+
+/**
+ * Claim a due row for this run by moving next_retry_at forward. Returns false
+ * when another run got there first.
+ */
+async function leaseDelivery(supabase: SupabaseClient, delivery: DeliveryRow): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .update({ next_retry_at: new Date(Date.now() + LEASE_MS).toISOString() })
+    .eq('id', delivery.id)
+    .eq('next_retry_at', delivery.next_retry_at)
+    .select('id');
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+async function createDelivery(
+  supabase: SupabaseClient,
+  endpointId: string,
+  eventId: string,
+  eventType: string,
+  trigger: 'redeliver' | 'test',
+  requestedBy: string | null,
+): Promise<DeliveryRow> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .insert({
+      endpoint_id: endpointId,
+      event_id: eventId,
+      event_type: eventType,
+      trigger,
+      // Attempted right away by this request, not by the scheduled run
+      next_retry_at: null,
+      requested_by: requestedBy,
+    })
+    .select(DELIVERY_COLUMNS)
+    .single();
+  if (error) throw error;
+  return data as DeliveryRow;
+}
+
+// =============================================================================
+// Main handler
+// =============================================================================
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    // --- Authenticate caller (admin user or service_role) ---
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const token = authHeader.replace('Bearer ', '');
+
+    let isServiceRole = false;
+    try {
+      const payloadB64 = token.split('.')[1];
+      if (payloadB64) {
+        const payload = JSON.parse(atob(payloadB64));
+        if (payload.role === 'service_role') {
+          isServiceRole = true;
+        }
+      }
+    } catch {
+      // Not a valid JWT — fall through to user auth
+    }
+
+    let requestedBy: string | null = null;
+    if (!isServiceRole) {
+      const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: { user }, error: authError } = await supabaseAuth.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+      }
+
+      const { data: isAdmin, error: adminCheckError } = await supabaseAuth.rpc('is_admin');
+      if (adminCheckError || !isAdmin) {
+        return jsonResponse({ error: 'Forbidden: admin access required' }, 403);
+      }
+      requestedBy = user.id;
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // --- Parse request body (cron sends {}) ---
+    let body: { action?: unknown; deliveryId?: unknown; endpointId?: unknown } = {};
+    try {
+      body = await req.json();
+    } catch {
+      // Empty body is valid (scheduled run)
+    }
+
+    // =========================================================================
+    // Manual: redeliver
+    // =========================================================================
+
+    if (body.action === 'redeliver') {
+      if (typeof body.deliveryId !== 'string' || !UUID_RE.test(body.deliveryId)) {
+        return jsonResponse({ error: 'deliveryId must be a valid UUID' }, 400);
+      }
+      const { data: original, error: originalError } = await supabase
+        .from('webhook_deliveries')
+        .select(DELIVERY_COLUMNS)
+        .eq('id', body.deliveryId)
+        .maybeSingle();
+      if (originalError) throw originalError;
+      if (!original) return jsonResponse({ error: 'Delivery not found' }, 404);
+
+      // The redelivery supersedes any retries still pending on the original
+      await supabase
+        .from('webhook_deliveries')
+        .update({ next_retry_at: null })
+        .eq('id', original.id)
+        .eq('status', 'failed');
+
+      const delivery = await createDelivery(
+        supabase,
+        original.endpoint_id,
+        original.event_id,
+        original.event_type,
+        'redeliver',
+        requestedBy,
+      );
+      return jsonResponse({ success: true, delivery: await attemptDelivery(supabase, delivery) });
+    }
+
+    // =========================================================================
+    // Manual: send test event
+    // =========================================================================
+
+    if (body.action === 'test') {
+      if (typeof body.endpointId !== 'string' || !UUID_RE.test(body.endpointId)) {
+        return jsonResponse({ error: 'endpointId must be a valid UUID' }, 400);
+      }
+      const endpoint = await loadEndpoint(supabase, body.endpointId);
+      if (!endpoint) return jsonResponse({ error: 'Endpoint not found' }, 404);
+
+      const { data: event, error: eventError } = await supabase
+        .from('webhook_events')
+        .insert({
+          event_type: WEBHOOK_TEST_EVENT,
+          data: { endpoint_id: endpoint.id, message: 'Test event from Manifest' },
+        })
+        .select('id')
+        .single();
+      if (eventError) throw eventError;
+
+      const delivery = await createDelivery(supabase, endpoint.id, event.id, WEBHOOK_TEST_EVENT, 'test', requestedBy);
+      return jsonResponse({ success: true, delivery: await attemptDelivery(supabase, delivery) });
+    }
+
+    if (body.action !== undefined) {
+      return jsonResponse({ error: "action must be 'redeliver' or 'test'" }, 400);
+    }
+
+    // =========================================================================
+    // Scheduled: queued deliveries and due retries
+    // =========================================================================
+
+    const { data: dueRows, error: dueError } = await supabase
+      .from('webhook_deliveries')
+      .select(DELIVERY_COLUMNS)
+      .in('status', ['queued', 'failed'])
+      .not('next_retry_at', 'is', null)
+      .lte('next_retry_at', new Date().toISOString())
+      .order('next_retry_at')
+      .limit(BATCH_SIZE);
+    if (dueError) throw dueError;
+
+    let delivered = 0;
+    let failed = 0;
+    let skipped = 0;
+    const errors: string[] = [];
+
+    for (const delivery of (dueRows || []) as DeliveryRow[]) {
+      try {
+        if (!await leaseDelivery(supabase, delivery)) {
+          skipped++;
+          continue;
+        }
+        const outcome = await attemptDelivery(supabase, delivery);
+        if (outcome.status === 'delivered') delivered++;
+        else {
+          failed++;
+          errors.push(`${delivery.event_type} ${delivery.id}: ${outcome.error}`);
+        }
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        errors.push(`${delivery.event_type} ${delivery.id}: ${msg}`);
+      }
+    }
+
+    return jsonResponse({ success: true, delivered, failed, skipped, errors });
+  } catch (error) {
+    console.error('deliver-webhooks error:', error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'An unexpected error occurred' },
+      500,
+    );
+  }
+});
@@ -1,6 +1,20 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 // jwtVerify no longer needed — auth uses supabase.auth.getUser() pattern
+import {
+  buildInvoiceLines,
+  invoiceTotalCents,
+  type InvoiceModelInput,
+} from './_lib/invoiceModel.ts';
+import {
+  convertHourlyAmounts,
+  currencySymbol,
+  parseInvoiceCurrency,
+  toInvoiceCents,
+  type InvoiceCurrency,
+  type InvoiceCurrencyContext,
+} from './_lib/invoiceCurrency.ts';
+import { renderInvoicePdf, type InvoiceIssuer } from './invoicePdf.ts';
 
 // =============================================================================
 // Edge Function: generate-eom-report
@@ -16,8 +30,22 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 // Validation: Reports can only be generated after the 1st of the following
 // month (Europe/Sofia timezone). Backfill mode relaxes this for past months.
 //
+// Invoice PDF: every generated report with a positive invoice total also
+// gets a client-facing PDF invoice (invoicePdf.ts) stored next to the CSV as
+// {year}/{MM}/{companyId}.pdf. Lines match qbo-create-invoice (_lib/
+// invoiceModel.ts); the number and issue/due dates come from
+// allocate_eom_invoice_number (migration 137) and survive regeneration.
+// A PDF failure is reported as invoiceError — the CSV report still counts
+// as generated.
+//
+// Billing currency (migration 153): the CSV and PDF are in the company's
+// billing currency, converted from the USD summary with the month's
+// get_billing_fx_rate (_lib/invoiceCurrency.ts). eom_reports.total_revenue_cents
+// stays USD; invoice_total_cents and currency describe the issued invoice.
+//
 // Read-only guarantee: ZERO writes to any source data table.
-// Only writes to eom_reports table and eom-reports storage bucket.
+// Only writes to eom_reports, invoice_number_counters and the eom-reports
+// storage bucket.
 // =============================================================================
 
 const corsHeaders = {
@@ -71,10 +99,10 @@ function roundHours(value: number): number {
   return Math.round(value * 100) / 100;
 }
 
-function formatCurrency(amount: number): string {
+function formatCurrency(amount: number, currency: InvoiceCurrency = 'USD'): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: 'USD',
+    currency,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
   }).format(amount);
@@ -87,8 +115,8 @@ function formatHours(value: number): string {
   return value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
 }
 
-function formatCentsDisplay(cents: number): string {
-  return formatCurrency(cents / 100);
+function formatCentsDisplay(cents: number, currency: InvoiceCurrency = 'USD'): string {
+  return formatCurrency(cents / 100, currency);
 }
 
 // =============================================================================
@@ -136,6 +164,8 @@ interface SummaryRow {
   rounding_used: number;
   has_billing_limits: boolean;
   milestone_override_cents: number | null;
+  manual_adjustment_hours: number;
+  manual_adjustment_cents: number;
   projects: {
     project_name: string;
     project_id: string; // external project_id
@@ -188,6 +218,9 @@ interface CompanyReportResult {
   totalRevenueCents?: number;
   projectCount?: number;
   fileSizeBytes?: number;
+  invoiceNumber?: string;
+  invoiceStoragePath?: string;
+  invoiceError?: string;
 }
 
 // =============================================================================
@@ -255,6 +288,11 @@ interface ProjectData {
   unbillableHours: number;
   billedRevenue: number;
   hasBillingLimits: boolean;
+  /** Net manual adjustment (mig-152), already included in billed hours/revenue */
+  adjustmentHours: number;
+  adjustmentRevenue: number;
+  /** Reasons of the month's adjustments, joined with "; " */
+  adjustmentReason: string;
   tasks: Array<{
     taskName: string;
     actualMinutes: number;
@@ -281,6 +319,8 @@ interface CompanyCSVData {
   projects: ProjectData[];
   billings: BillingData[];
   milestoneByExternalProjectId: Map<string, number>;
+  /** Currency of every amount (the company's billing currency, migration 153) */
+  currency: InvoiceCurrency;
   actualHours: number;
   roundedHours: number;
   adjustedHours: number;
@@ -295,6 +335,7 @@ function generateCSV(company: CompanyCSVData, monthLabel: string, year: number,
   const colCount = hasBillingLimits ? 12 : 8;
 
   const rows: string[] = [];
+  const rateHeader = `Rate (${currencySymbol(company.currency)}/hr)`;
 
   // --- Title row ---
   const periodStart = `${year}-${String(month).padStart(2, '0')}-01`;
@@ -304,8 +345,8 @@ function generateCSV(company: CompanyCSVData, monthLabel: string, year: number,
 
   // --- Header row ---
   const header = hasBillingLimits
-    ? ['Company', 'Project', 'Task', 'Rounded', 'Carryover', 'Adjusted', 'Billed', 'Unbillable', 'Rate ($/hr)', 'Task Revenue', 'Project Revenue', 'Company Revenue']
-    : ['Company', 'Project', 'Task', 'Hours', 'Rate ($/hr)', 'Task Revenue', 'Project Revenue', 'Company Revenue'];
+    ? ['Company', 'Project', 'Task', 'Rounded', 'Carryover', 'Adjusted', 'Billed', 'Unbillable', rateHeader, 'Task Revenue', 'Project Revenue', 'Company Revenue']
+    : ['Company', 'Project', 'Task', 'Hours', rateHeader, 'Task Revenue', 'Project Revenue', 'Company Revenue'];
   rows.push(csvRow(header));
 
   const emptyRow = () => Array(colCount).fill('') as string[];
@@ -343,7 +384,7 @@ function generateCSV(company: CompanyCSVData, monthLabel: string, year: number,
   } else {
     companyRow[3] = formatHours(company.billedHours);
   }
-  companyRow[colCount - 1] = formatCurrency(companyTotalRevenue);
+  companyRow[colCount - 1] = formatCurrency(companyTotalRevenue, company.currency);
   rows.push(csvRow(companyRow));
 
   // Sort projects alphabetically
@@ -356,8 +397,8 @@ function generateCSV(company: CompanyCSVData, monthLabel: string, year: number,
     // Check milestone for revenue display
     const milestoneCents = company.milestoneByExternalProjectId.get(project.externalId);
     const projectRevenueStr = milestoneCents !== undefined
-      ? formatCentsDisplay(milestoneCents)
-      : formatCurrency(project.billedRevenue);
+      ? formatCentsDisplay(milestoneCents, company.currency)
+      : formatCurrency(project.billedRevenue, company.currency);
 
     // Project summary row
     const projectRow = emptyRow();
@@ -393,7 +434,7 @@ function generateCSV(company: CompanyCSVData, monthLabel: string, year: number,
           '', // Billed (shown on project row)
           '', // Unbillable (shown on project row)
           project.rate.toFixed(2),
-          formatCurrency(task.baseRevenue),
+          formatCurrency(task.baseRevenue, company.currency),
           '', // Project Revenue
           '', // Company Revenue
         ]));
@@ -404,12 +445,27 @@ function generateCSV(company: CompanyCSVData, monthLabel: string, year: number,
           task.taskName,
           task.roundedHours.toFixed(2),
           project.rate.toFixed(2),
-          formatCurrency(task.baseRevenue),
+          formatCurrency(task.baseRevenue, company.currency),
           '', // Project Revenue
           '', // Company Revenue
         ]));
       }
     }
+
+    // Manual adjustment row (not shown when a milestone replaces revenue)
+    const hasAdjustment = project.adjustmentHours !== 0 || project.adjustmentRevenue !== 0;
+    if (hasAdjustment && milestoneCents === undefined) {
+      const adjustmentRow = emptyRow();
+      adjustmentRow[0] = company.companyName;
+      adjustmentRow[1] = project.projectName;
+      adjustmentRow[2] = project.adjustmentReason ? `Adjustment: ${project.adjustmentReason}` : 'Adjustment';
+      if (project.adjustmentHours !== 0) {
+        adjustmentRow[hasBillingLimits ? 6 : 3] = project.adjustmentHours.toFixed(2);
+        adjustmentRow[hasBillingLimits ? 8 : 4] = project.rate.toFixed(2);
+      }
+      adjustmentRow[colCount - 3] = formatCurrency(project.adjustmentRevenue, company.currency);
+      rows.push(csvRow(adjustmentRow));
+    }
   }
 
   // --- Fixed Billing rows ---
@@ -421,7 +477,7 @@ function generateCSV(company: CompanyCSVData, monthLabel: string, year: number,
     billingRow[0] = company.companyName;
     billingRow[1] = billing.name;
     billingRow[hasBillingLimits ? 8 : 4] = typeLabel;
-    billingRow[colCount - 2] = formatCentsDisplay(billing.totalCents);
+    billingRow[colCount - 2] = formatCentsDisplay(billing.totalCents, company.currency);
     rows.push(csvRow(billingRow));
 
     // Transaction rows
@@ -430,7 +486,7 @@ function generateCSV(company: CompanyCSVData, monthLabel: string, year: number,
       txRow[0] = company.companyName;
       txRow[1] = billing.name;
       txRow[2] = tx.description;
-      txRow[colCount - 3] = formatCentsDisplay(tx.amountCents);
+      txRow[colCount - 3] = formatCentsDisplay(tx.amountCents, company.currency);
       rows.push(csvRow(txRow));
     }
   }
@@ -449,7 +505,7 @@ function generateCSV(company: CompanyCSVData, monthLabel: string, year: number,
       '', // Rate
       '', // Task Revenue
       '', // Project Revenue
-      formatCurrency(companyTotalRevenue),
+      formatCurrency(companyTotalRevenue, company.currency),
     ]));
   } else {
     rows.push(csvRow([
@@ -460,7 +516,7 @@ function generateCSV(company: CompanyCSVData, monthLabel: string, year: number,
       '', // Rate
       '', // Task Revenue
       '', // Project Revenue
-      formatCurrency(companyTotalRevenue),
+      formatCurrency(companyTotalRevenue, company.currency),
     ]));
   }
 
@@ -468,6 +524,51 @@ function generateCSV(company: CompanyCSVData, monthLabel: string, year: number,
   return '\uFEFF' + rows.join('\n');
 }
 
+// =============================================================================
+// Billing currency (mig-153)
+// =============================================================================
+
+interface NativeRateRow {
+  external_project_id: string;
+  native_rate: number;
+  rate_currency: string;
+}
+
+/** A project's rate, revenue and task revenue in the invoice currency. */
+function convertProjectData(
+  project: ProjectData,
+  ctx: InvoiceCurrencyContext,
+  nativeRate: NativeRateRow | undefined,
+): ProjectData {
+  if (ctx.currency === 'USD') return project;
+  const amounts = convertHourlyAmounts({
+    billedHours: project.billedHours,
+    adjustmentHours: project.adjustmentHours,
+    usdRate: project.rate,
+    nativeRate: nativeRate ? Number(nativeRate.native_rate) : project.rate,
+    rateCurrency: parseInvoiceCurrency(nativeRate?.rate_currency),
+    billedRevenueCents: Math.round(project.billedRevenue * 100),
+    adjustmentCents: Math.round(project.adjustmentRevenue * 100),
+  }, ctx);
+  return {
+    ...project,
+    rate: amounts.rate,
+    billedRevenue: roundCurrency(amounts.billedRevenueCents / 100),
+    adjustmentRevenue: roundCurrency(amounts.adjustmentCents / 100),
+    tasks: project.tasks.map(t => ({ ...t, baseRevenue: roundCurrency(t.roundedHours * amounts.rate) })),
+  };
+}
+
+/** A fixed billing in the invoice currency (total converted as a whole, like qbo-create-invoice). */
+function convertBillingData(billing: BillingData, ctx: InvoiceCurrencyContext): BillingData {
+  if (ctx.currency === 'USD') return billing;
+  return {
+    ...billing,
+    totalCents: toInvoiceCents(billing.totalCents, ctx),
+    transactions: billing.transactions.map(tx => ({ ...tx, amountCents: toInvoiceCents(tx.amountCents, ctx) })),
+  };
+}
+
 // =============================================================================
 // Core: generate report for a single company-month
 // =============================================================================
@@ -502,6 +603,49 @@ async function generateCompanyReport(
   const companyName = companyData.display_name || companyData.client_name;
   const companyClientId = companyData.client_id;
 
+  // --- Billing currency and the month's rate (mig-153) ---
+  const { data: currencyData, error: currencyError } = await supabase.rpc(
+    'get_company_billing_currency',
+    { p_company_id: companyId },
+  );
+  if (currencyError) {
+    return { companyId, companyName, year, month, status: 'failed', error: `Billing currency query: ${currencyError.message}` };
+  }
+  const currency = parseInvoiceCurrency(currencyData);
+  let fxRate = 1;
+  const nativeRateByExternal = new Map<string, NativeRateRow>();
+  if (currency !== 'USD') {
+    const [fxResult, ratesResult] = await Promise.all([
+      supabase.rpc('get_billing_fx_rate', { p_currency: currency, p_month: monthStr }),
+      supabase.rpc('get_all_project_rates_for_month', { p_month: monthStr }),
+    ]);
+    if (fxResult.error) {
+      return { companyId, companyName, year, month, status: 'failed', error: `FX rate query: ${fxResult.error.message}` };
+    }
+    if (ratesResult.error) {
+      return { companyId, companyName, year, month, status: 'failed', error: `Rates query: ${ratesResult.error.message}` };
+    }
+    fxRate = Number(fxResult.data);
+    for (const r of (ratesResult.data as NativeRateRow[]) || []) {
+      nativeRateByExternal.set(r.external_project_id, r);
+    }
+  }
+  const invoiceCurrency: InvoiceCurrencyContext = { currency, fxRate };
+
+  // --- Closed months read the frozen lock (mig-134) ---
+  // A closed month's revenue and task breakdown are copied into
+  // billing_month_locked_summary / billing_month_locked_tasks at close time with
+  // the same column shapes, so only the source table changes below.
+  const { data: monthClosed, error: closedError } = await supabase.rpc(
+    'is_billing_month_closed',
+    { p_month: monthStr },
+  );
+  if (closedError) {
+    return { companyId, companyName, year, month, status: 'failed', error: `Month status query: ${closedError.message}` };
+  }
+  const summarySource = monthClosed ? 'billing_month_locked_summary' : 'v_canonical_project_monthly_summary';
+  const taskSource = monthClosed ? 'billing_month_locked_tasks' : 'task_monthly_totals';
+
   // --- Parallel data queries ---
   // Task rows are sourced from task_monthly_totals (mig-093/094/101). The
   // rounding-mode hierarchy comes from get_all_project_roundings_for_month
@@ -512,7 +656,7 @@ async function generateCompanyReport(
     await Promise.all([
       // 1. Project billing summary for this company-month
       supabase
-        .from('v_canonical_project_monthly_summary')
+        .from(summarySource)
         .select(`
           *,
           projects!inner (project_name, project_id),
@@ -596,15 +740,42 @@ async function generateCompanyReport(
       unbillableHours: Number(row.unbillable_hours),
       billedRevenue: roundCurrency(Number(row.billed_revenue_cents) / 100),
       hasBillingLimits: row.has_billing_limits,
+      adjustmentHours: Number(row.manual_adjustment_hours ?? 0),
+      adjustmentRevenue: roundCurrency(Number(row.manual_adjustment_cents ?? 0) / 100),
+      adjustmentReason: '',
       tasks: [],
     });
   }
 
+  // --- Reasons of manual billing adjustments (mig-152) ---
+  if (companyCanonicalProjectIds.length > 0) {
+    const { data: adjustmentData, error: adjustmentError } = await supabase
+      .from('billing_adjustments')
+      .select('project_id, reason')
+      .eq('adjustment_month', monthStr)
+      .in('project_id', companyCanonicalProjectIds)
+      .order('created_at');
+
+    if (adjustmentError) {
+      return { companyId, companyName, year, month, status: 'failed', error: `billing_adjustments query: ${adjustmentError.message}` };
+    }
+    const reasonsByProject = new Map<string, string[]>();
+    for (const adj of (adjustmentData as Array<{ project_id: string; reason: string }>) || []) {
+      const reasons = reasonsByProject.get(adj.project_id) ?? [];
+      reasons.push(adj.reason);
+      reasonsByProject.set(adj.project_id, reasons);
+    }
+    for (const [externalId, project] of projectDataMap) {
+      const reasons = reasonsByProject.get(externalToCanonicalProjectId.get(externalId)!);
+      if (reasons) project.adjustmentReason = reasons.join('; ');
+    }
+  }
+
   // --- Fetch task_monthly_totals for the canonical projects in this month ---
   let taskTotalsRows: TaskMonthlyTotalRow[] = [];
   if (companyCanonicalProjectIds.length > 0) {
     const tmtQuery = supabase
-      .from('task_monthly_totals')
+      .from(taskSource)
       .select('project_id, task_name, client_id, rounded_entry_minutes, rounded_task_minutes')
       .eq('summary_month', monthStr)
       .in('project_id', companyCanonicalProjectIds);
@@ -803,10 +974,13 @@ async function generateCompanyReport(
       billed_hours: r.billed_hours,
       billed_revenue_cents: r.billed_revenue_cents,
       milestone_override_cents: r.milestone_override_cents,
+      manual_adjustment_cents: r.manual_adjustment_cents,
     })),
     billingTotals: Array.from(billingMap.entries())
       .filter(([, b]) => b.companyClientId === companyClientId)
       .map(([id, b]) => ({ id, totalCents: b.totalCents })),
+    currency,
+    fxRate,
   });
 
   const sourceDataHash = await sha256(sourceData);
@@ -830,19 +1004,31 @@ async function generateCompanyReport(
     };
   }
 
+  // --- Client-facing amounts in the billing currency (mig-153) ---
+  // Totals above stay USD for eom_reports.total_revenue_cents.
+  const invoiceProjects = Array.from(projectDataMap.values()).map(p =>
+    convertProjectData(p, invoiceCurrency, nativeRateByExternal.get(p.externalId)),
+  );
+  const invoiceBillings = companyBillings.map(b => convertBillingData(b, invoiceCurrency));
+  const invoiceMilestones = new Map<string, number>();
+  for (const [externalId, cents] of milestoneByExternalProjectId) {
+    invoiceMilestones.set(externalId, toInvoiceCents(cents, invoiceCurrency));
+  }
+
   // --- Generate CSV ---
   const companyCSVData: CompanyCSVData = {
     companyName,
     companyId: companyClientId,
-    projects: Array.from(projectDataMap.values()),
-    billings: companyBillings,
-    milestoneByExternalProjectId,
+    projects: invoiceProjects,
+    billings: invoiceBillings,
+    milestoneByExternalProjectId: invoiceMilestones,
+    currency,
     actualHours: totalActualHours,
     roundedHours: totalRoundedHours,
     adjustedHours: totalAdjustedHours,
     billedHours: totalBilledHours,
     unbillableHours: totalUnbillableHours,
-    billedRevenue: totalBilledRevenue,
+    billedRevenue: invoiceProjects.reduce((sum, p) => roundCurrency(sum + p.billedRevenue), 0),
   };
 
   let csvContent: string;
@@ -900,7 +1086,7 @@ async function generateCompanyReport(
     ? existingReport.generation_number + 1
     : 1;
 
-  const { error: upsertError } = await supabase
+  const { data: upsertedReport, error: upsertError } = await supabase
     .from('eom_reports')
     .upsert(
       {
@@ -910,6 +1096,7 @@ async function generateCompanyReport(
         company_name: companyName,
         total_hours: totalBilledHours,
         total_revenue_cents: companyTotalRevenueCents,
+        currency,
         project_count: projectDataMap.size,
         storage_path: storagePath,
         file_size_bytes: fileSizeBytes,
@@ -919,19 +1106,46 @@ async function generateCompanyReport(
         source_data_hash: sourceDataHash,
       },
       { onConflict: 'company_id,report_year,report_month' },
-    );
+    )
+    .select('id')
+    .single();
 
-  if (upsertError) {
+  if (upsertError || !upsertedReport) {
     return {
       companyId,
       companyName,
       year,
       month,
       status: 'failed',
-      error: `Database upsert: ${upsertError.message}`,
+      error: `Database upsert: ${upsertError?.message ?? 'no row returned'}`,
     };
   }
 
+  // --- Invoice PDF (failure does not fail the CSV report) ---
+  const invoice = await generateInvoicePdf(supabase, upsertedReport.id, {
+    storagePath: storagePath.replace(/\.csv$/, '.pdf'),
+    billToName: companyName,
+    monthLabel,
+    projects: invoiceProjects.map(p => ({
+      projectName: p.projectName,
+      externalId: p.externalId,
+      billedHours: p.billedHours,
+      rate: p.rate,
+      billedRevenueCents: Math.round(p.billedRevenue * 100),
+      tasks: p.tasks.map(t => [t.taskName, t.roundedMinutes] as [string, number]),
+      adjustmentHours: p.adjustmentHours,
+      adjustmentCents: Math.round(p.adjustmentRevenue * 100),
+      adjustmentReason: p.adjustmentReason,
+    })),
+    billings: invoiceBillings.map(b => ({
+      name: b.name,
+      typeLabel: TRANSACTION_TYPE_LABELS[b.type] || b.type,
+      totalCents: b.totalCents,
+    })),
+    milestoneByExternalProjectId: invoiceMilestones,
+    currency,
+  });
+
   return {
     companyId,
     companyName,
@@ -943,9 +1157,90 @@ async function generateCompanyReport(
     totalRevenueCents: companyTotalRevenueCents,
     projectCount: projectDataMap.size,
     fileSizeBytes,
+    ...invoice,
   };
 }
 
+// =============================================================================
+// Invoice PDF for a generated report
+// =============================================================================
+
+interface InvoiceRequest extends InvoiceModelInput {
+  storagePath: string;
+  billToName: string;
+}
+
+async function generateInvoicePdf(
+  supabase: ReturnType<typeof createClient>,
+  reportId: string,
+  request: InvoiceRequest,
+): Promise<Pick<CompanyReportResult, 'invoiceNumber' | 'invoiceStoragePath' | 'invoiceError'>> {
+  const lines = buildInvoiceLines(request);
+  const totalCents = invoiceTotalCents(lines);
+  // Nothing to bill — no number is consumed
+  if (lines.length === 0 || totalCents <= 0) return {};
+
+  try {
+    const { data: issuer, error: settingsError } = await supabase
+      .from('invoice_settings')
+      .select('issuer_name, issuer_address, issuer_tax_id, issuer_email, payment_details, footer_note, brand_color, payment_terms_days')
+      .single();
+    if (settingsError || !issuer) {
+      throw new Error(`Invoice settings: ${settingsError?.message ?? 'not configured'}`);
+    }
+
+    const { data: allocated, error: allocateError } = await supabase.rpc(
+      'allocate_eom_invoice_number',
+      { p_report_id: reportId },
+    );
+    const numbering = (allocated as Array<{ invoice_number: string; invoice_issued_on: string; invoice_due_on: string }> | null)?.[0];
+    if (allocateError || !numbering) {
+      throw new Error(`Invoice number: ${allocateError?.message ?? 'no number returned'}`);
+    }
+
+    const pdfBytes = await renderInvoicePdf({
+      issuer: issuer as InvoiceIssuer,
+      invoiceNumber: numbering.invoice_number,
+      issuedOn: numbering.invoice_issued_on,
+      dueOn: numbering.invoice_due_on,
+      billToName: request.billToName,
+      periodLabel: request.monthLabel,
+      lines,
+      totalCents,
+      currency: request.currency ?? 'USD',
+    });
+
+    const { error: pdfUploadError } = await supabase.storage
+      .from('eom-reports')
+      .upload(request.storagePath, pdfBytes, {
+        contentType: 'application/pdf',
+        upsert: true,
+      });
+    if (pdfUploadError) {
+      throw new Error(`Invoice upload: ${pdfUploadError.message}`);
+    }
+
+    const { error: invoiceUpdateError } = await supabase
+      .from('eom_reports')
+      .update({
+        invoice_storage_path: request.storagePath,
+        invoice_file_size_bytes: pdfBytes.length,
+        invoice_total_cents: totalCents,
+        invoice_generated_at: new Date().toISOString(),
+      })
+      .eq('id', reportId);
+    if (invoiceUpdateError) {
+      throw new Error(`Invoice metadata: ${invoiceUpdateError.message}`);
+    }
+
+    return { invoiceNumber: numbering.invoice_number, invoiceStoragePath: request.storagePath };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error('generate-eom-report invoice PDF failed', { reportId, error: message });
+    return { invoiceError: message };
+  }
+}
+
 // =============================================================================
 // Main handler
 // =============================================================================
@@ -1153,6 +1448,9 @@ serve(async (req) => {
         ...(r.totalRevenueCents !== undefined ? { totalRevenueCents: r.totalRevenueCents } : {}),
         ...(r.projectCount !== undefined ? { projectCount: r.projectCount } : {}),
         ...(r.fileSizeBytes !== undefined ? { fileSizeBytes: r.fileSizeBytes } : {}),
+        ...(r.invoiceNumber ? { invoiceNumber: r.invoiceNumber } : {}),
+        ...(r.invoiceStoragePath ? { invoiceStoragePath: r.invoiceStoragePath } : {}),
+        ...(r.invoiceError ? { invoiceError: r.invoiceError } : {}),
       })),
     });
   } catch (error) {
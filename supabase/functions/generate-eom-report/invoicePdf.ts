@@ -0,0 +1,292 @@
+import {
+  PDFDocument,
+  PageSizes,
+  StandardFonts,
+  rgb,
+  type PDFFont,
+  type PDFPage,
+  type RGB,
+} from 'https://esm.sh/pdf-lib@1.17.1';
+import {
+  formatInvoiceAmount,
+  formatInvoiceDate,
+  formatInvoiceQuantity,
+  type InvoiceLine,
+} from './_lib/invoiceModel.ts';
+import type { InvoiceCurrency } from './_lib/invoiceCurrency.ts';
+
+// =============================================================================
+// EOM invoice PDF renderer
+// =============================================================================
+// A4, standard Helvetica (no font fetch at generation time). Standard fonts
+// only encode WinAnsi, so text is passed through toWinAnsi(): Cyrillic is
+// transliterated (Bulgarian/Streamlined System), accents are stripped, and
+// anything else unencodable becomes "?" instead of failing the render.
+// =============================================================================
+
+export interface InvoiceIssuer {
+  issuer_name: string;
+  issuer_address: string | null;
+  issuer_tax_id: string | null;
+  issuer_email: string | null;
+  payment_details: string | null;
+  footer_note: string | null;
+  brand_color: string;
+  payment_terms_days: number;
+}
+
+export interface InvoicePdfInput {
+  issuer: InvoiceIssuer;
+  invoiceNumber: string;
+  issuedOn: string; // YYYY-MM-DD
+  dueOn: string; // YYYY-MM-DD
+  billToName: string;
+  periodLabel: string; // e.g. "March 2026"
+  lines: InvoiceLine[];
+  totalCents: number;
+  /** Currency of the lines and total (the company's billing currency) */
+  currency: InvoiceCurrency;
+}
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ж: 'zh', з: 'z', и: 'i', й: 'y',
+  к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u',
+  ф: 'f', х: 'h', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'sht', ъ: 'a', ь: 'y', ю: 'yu', я: 'ya',
+  ё: 'yo', ы: 'y', э: 'e', є: 'ye', і: 'i', ї: 'yi', ґ: 'g',
+};
+
+// WinAnsi (CP1252) code points above Latin-1 that the standard fonts can draw
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+/** Make text drawable with a standard (WinAnsi) font. */
+export function toWinAnsi(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const lower = ch.toLowerCase();
+    const latin = CYRILLIC_TO_LATIN[lower];
+    if (latin !== undefined) {
+      out += ch === lower ? latin : latin.charAt(0).toUpperCase() + latin.slice(1);
+      continue;
+    }
+    const code = ch.codePointAt(0)!;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.has(ch)) {
+      out += ch;
+      continue;
+    }
+    if (ch === '\t') {
+      out += ' ';
+      continue;
+    }
+    // Strip combining marks (e.g. "ș" -> "s"); give up on anything else
+    const base = ch.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+    out += base && [...base].every((c) => c.codePointAt(0)! <= 0xff) ? base : '?';
+  }
+  return out;
+}
+
+function hexToRgb(hex: string): RGB {
+  const match = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!match) return rgb(0.07, 0.07, 0.07);
+  return rgb(parseInt(match[1], 16) / 255, parseInt(match[2], 16) / 255, parseInt(match[3], 16) / 255);
+}
+
+/** Greedy word wrap; words longer than the width are hard-split. */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of toWinAnsi(text).split('\n')) {
+    let current = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+      if (current) lines.push(current);
+      let rest = word;
+      while (font.widthOfTextAtSize(rest, size) > maxWidth && rest.length > 1) {
+        let cut = rest.length - 1;
+        while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      current = rest;
+    }
+    lines.push(current);
+  }
+  return lines;
+}
+
+const MARGIN = 48;
+const FOOTER_HEIGHT = 40;
+const GRAY = rgb(0.42, 0.42, 0.42);
+const LIGHT_GRAY = rgb(0.88, 0.88, 0.88);
+const INK = rgb(0.12, 0.12, 0.12);
+const WHITE = rgb(1, 1, 1);
+
+/** Render the invoice to PDF bytes. */
+export async function renderInvoicePdf(input: InvoicePdfInput): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const brand = hexToRgb(input.issuer.brand_color);
+  const issuerName = input.issuer.issuer_name.trim();
+
+  doc.setTitle(`Invoice ${input.invoiceNumber}`);
+  doc.setSubject(`${input.billToName} - ${input.periodLabel}`);
+  if (issuerName) doc.setAuthor(toWinAnsi(issuerName));
+
+  const [pageWidth, pageHeight] = PageSizes.A4;
+  const contentWidth = pageWidth - MARGIN * 2;
+
+  // Table columns (right edges for numeric columns)
+  const colAmountRight = pageWidth - MARGIN - 6;
+  const colRateRight = colAmountRight - 90;
+  const colQtyRight = colRateRight - 80;
+  const descWidth = colQtyRight - 60 - (MARGIN + 6);
+
+  let page: PDFPage = doc.addPage(PageSizes.A4);
+  let y = pageHeight - MARGIN;
+
+  const text = (value: string, x: number, atY: number, size: number, font = regular, color = INK) => {
+    page.drawText(toWinAnsi(value), { x, y: atY, size, font, color });
+  };
+  const textRight = (value: string, right: number, atY: number, size: number, font = regular, color = INK) => {
+    const safe = toWinAnsi(value);
+    page.drawText(safe, { x: right - font.widthOfTextAtSize(safe, size), y: atY, size, font, color });
+  };
+
+  const drawTableHeader = () => {
+    page.drawRectangle({ x: MARGIN, y: y - 18, width: contentWidth, height: 20, color: brand });
+    text('Description', MARGIN + 6, y - 12, 9, bold, WHITE);
+    textRight('Qty', colQtyRight, y - 12, 9, bold, WHITE);
+    textRight('Rate', colRateRight, y - 12, 9, bold, WHITE);
+    textRight('Amount', colAmountRight, y - 12, 9, bold, WHITE);
+    y -= 30;
+  };
+
+  const ensureSpace = (needed: number, withTableHeader: boolean) => {
+    if (y - needed >= MARGIN + FOOTER_HEIGHT) return;
+    page = doc.addPage(PageSizes.A4);
+    y = pageHeight - MARGIN;
+    text(`Invoice ${input.invoiceNumber} (continued)`, MARGIN, y - 10, 9, regular, GRAY);
+    y -= 28;
+    if (withTableHeader) drawTableHeader();
+  };
+
+  // --- Header: issuer (left), INVOICE + meta (right) ---
+  text(issuerName || 'Invoice', MARGIN, y - 18, 18, bold, brand);
+  textRight('INVOICE', pageWidth - MARGIN, y - 18, 18, bold, brand);
+
+  let leftY = y - 36;
+  const issuerLines = [
+    ...(input.issuer.issuer_address ? input.issuer.issuer_address.split('\n') : []),
+    ...(input.issuer.issuer_tax_id ? [`Tax ID: ${input.issuer.issuer_tax_id}`] : []),
+    ...(input.issuer.issuer_email ? [input.issuer.issuer_email] : []),
+  ].filter((line) => line.trim().length > 0);
+  for (const line of issuerLines) {
+    for (const wrapped of wrapText(line, regular, 9, contentWidth / 2)) {
+      text(wrapped, MARGIN, leftY, 9, regular, GRAY);
+      leftY -= 12;
+    }
+  }
+
+  let rightY = y - 36;
+  const meta: Array<[string, string]> = [
+    ['Invoice No.', input.invoiceNumber],
+    ['Issue date', formatInvoiceDate(input.issuedOn)],
+    ['Due date', formatInvoiceDate(input.dueOn)],
+    ['Period', input.periodLabel],
+  ];
+  for (const [label, value] of meta) {
+    textRight(value, pageWidth - MARGIN, rightY, 9, bold);
+    textRight(label, pageWidth - MARGIN - 110, rightY, 9, regular, GRAY);
+    rightY -= 13;
+  }
+
+  y = Math.min(leftY, rightY) - 18;
+
+  // --- Bill to ---
+  text('BILL TO', MARGIN, y, 8, bold, GRAY);
+  y -= 15;
+  for (const line of wrapText(input.billToName, bold, 12, contentWidth)) {
+    text(line, MARGIN, y, 12, bold);
+    y -= 15;
+  }
+  y -= 12;
+
+  // --- Line items ---
+  drawTableHeader();
+
+  for (const line of input.lines) {
+    const descLines = wrapText(line.description, bold, 10, descWidth);
+    const detailLines = line.details.flatMap((detail) => wrapText(detail, regular, 8, descWidth - 8));
+    const rate = line.kind === 'hourly'
+      ? `${formatInvoiceAmount(Math.round(line.unitPrice * 100), input.currency)}/hr`
+      : formatInvoiceAmount(Math.round(line.unitPrice * 100), input.currency);
+
+    ensureSpace(descLines.length * 13 + Math.min(detailLines.length, 3) * 10 + 8, true);
+
+    textRight(formatInvoiceQuantity(line.quantity), colQtyRight, y, 10);
+    textRight(rate, colRateRight, y, 10);
+    textRight(formatInvoiceAmount(line.amountCents, input.currency), colAmountRight, y, 10, bold);
+    for (const descLine of descLines) {
+      text(descLine, MARGIN + 6, y, 10, bold);
+      y -= 13;
+    }
+    for (const detailLine of detailLines) {
+      ensureSpace(10, true);
+      text(detailLine, MARGIN + 14, y, 8, regular, GRAY);
+      y -= 10;
+    }
+
+    y -= 4;
+    page.drawLine({
+      start: { x: MARGIN, y: y + 2 },
+      end: { x: pageWidth - MARGIN, y: y + 2 },
+      thickness: 0.5,
+      color: LIGHT_GRAY,
+    });
+    y -= 10;
+  }
+
+  // --- Total ---
+  ensureSpace(40, false);
+  y -= 4;
+  page.drawRectangle({ x: colRateRight - 80, y: y - 8, width: colAmountRight + 6 - (colRateRight - 80), height: 24, color: LIGHT_GRAY });
+  textRight('Total due (USD)', colRateRight, y, 11, bold);
+  textRight(formatInvoiceAmount(input.totalCents, input.currency), colAmountRight, y, 11, bold);
+  y -= 36;
+
+  // --- Payment terms + details ---
+  const paymentLines = [
+    input.issuer.payment_terms_days > 0
+      ? `Payment due within ${input.issuer.payment_terms_days} days, by ${formatInvoiceDate(input.dueOn)}.`
+      : 'Payment due on receipt.',
+    `Please reference invoice ${input.invoiceNumber} with your payment.`,
+    ...(input.issuer.payment_details ? ['', ...input.issuer.payment_details.split('\n')] : []),
+  ];
+  ensureSpace(14, false);
+  text('PAYMENT', MARGIN, y, 8, bold, GRAY);
+  y -= 14;
+  for (const line of paymentLines) {
+    for (const wrapped of wrapText(line, regular, 9, contentWidth)) {
+      ensureSpace(12, false);
+      text(wrapped, MARGIN, y, 9);
+      y -= 12;
+    }
+  }
+
+  // --- Footer on every page ---
+  const pages = doc.getPages();
+  const footer = input.issuer.footer_note?.trim() ?? '';
+  pages.forEach((p, index) => {
+    page = p;
+    if (footer) {
+      const footerLine = wrapText(footer, regular, 8, contentWidth - 80)[0] ?? '';
+      text(footerLine, MARGIN, MARGIN - 16, 8, regular, GRAY);
+    }
+    textRight(`Page ${index + 1} of ${pages.length}`, pageWidth - MARGIN, MARGIN - 16, 8, regular, GRAY);
+  });
+
+  return await doc.save();
+}
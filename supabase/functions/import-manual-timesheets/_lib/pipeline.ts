@@ -0,0 +1,654 @@
+// =============================================================================
+// Timesheet sync pipeline — everything after the source fetch
+// =============================================================================
+// Source-agnostic steps shared by every TimeSourceAdapter:
+//   Step 2: adapter.fetchEntries()
+//   Step 3: adapter.normalize() + stamp sync-run columns
+//   Step 4: batchUpsert() into timesheet_daily_rollups
+//   Step 5: conditional cleanup_stale_timesheet_entries
+//   Step 5.5-5.7: populate_rounded_minutes -> populate_layer2_totals ->
+//                 populate_task_monthly_totals
+//   Step 5.8: reconciliation invariant (migration 101) — hard abort
+//   Step 6: drain_recalculation_queue
+//   Step 7: reconciliation alerts in sync_alerts ({source}_* alert types)
+//   Step 8/9: summary JSON, persisted to sync_runs
+//
+// Alert types per source (auto-resolve on the next good sync):
+//   {source}_sync_incomplete (error)       — fetch failed or hit a safety limit
+//   {source}_zero_entries (warning)        — 0 entries returned
+//   {source}_high_deletion_count (warning) — cleanup deleted > 50 entries
+//   {source}_hours_mismatch (warning)      — per-user source minutes don't
+//                                            match Manifest rollups
+// =============================================================================
+
+import type {
+  RollupRow,
+  SyncDbClient,
+  SyncRange,
+  TimeSourceAdapter,
+} from './types.ts';
+
+const BATCH_SIZE = 500;
+const HIGH_DELETION_THRESHOLD = 50;
+const RECALC_MAX_DEPTH = 12;
+
+export interface SyncOutcome {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+  return err instanceof Error ? err.message : fallback;
+}
+
+/**
+ * Run one sync for a source over `range`. Never throws for source or RPC
+ * failures — they are reported in the returned summary (and sync_runs) so the
+ * caller can always respond with JSON.
+ */
+export async function runTimesheetSync<TRaw>(
+  db: SyncDbClient,
+  adapter: TimeSourceAdapter<TRaw>,
+  range: SyncRange,
+): Promise<SyncOutcome> {
+  const tag = `[sync-${adapter.id}]`;
+  const workspaceId = adapter.workspaceId;
+  const syncRunId = crypto.randomUUID();
+  const syncRunAt = new Date().toISOString();
+
+  console.log(`${tag} ${range.isManual ? 'Manual' : 'Auto'} date range: ${range.startISO} to ${range.endISO}`);
+
+  // ===========================================================================
+  // STEP 2: Fetch from the source
+  // ===========================================================================
+  console.log(`${tag} Starting fetch from ${adapter.label}...`);
+  const fetched = await adapter.fetchEntries(range);
+  const fetchComplete = fetched.complete;
+  const entryCount = fetched.entries.length;
+
+  console.log(
+    `${tag} Fetch complete: ${fetchComplete}, ` +
+    `entries: ${entryCount}, errors: ${fetched.errors.length}`,
+  );
+
+  // ===========================================================================
+  // STEP 3: Normalize + build upsert rows
+  // ===========================================================================
+  const normalized = adapter.normalize(fetched.entries);
+  const rows: RollupRow[] = normalized.rows.map((row) => ({
+    clockify_workspace_id: workspaceId,
+    ...row,
+    synced_at: syncRunAt,
+    sync_run_id: syncRunId,
+    sync_run_at: syncRunAt,
+  }));
+
+  console.log(`${tag} Rows built: ${rows.length} (skipped: ${JSON.stringify(normalized.skipped)})`);
+
+  // ===========================================================================
+  // STEP 4: Batch upsert to timesheet_daily_rollups
+  // ===========================================================================
+  // 500-row batches, on conflict (clockify_workspace_id, task_id)
+  // ===========================================================================
+  let totalUpserted = 0;
+  let upsertError: string | null = null;
+
+  if (rows.length > 0) {
+    try {
+      for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+        const batch = rows.slice(i, i + BATCH_SIZE);
+
+        const { error: batchError } = await db
+          .from('timesheet_daily_rollups')
+          .upsert(batch, { onConflict: 'clockify_workspace_id,task_id' });
+
+        if (batchError) {
+          throw new Error(`Batch upsert error at offset ${i}: ${batchError.message}`);
+        }
+
+        totalUpserted += batch.length;
+        console.log(`${tag} Upserted batch ${Math.floor(i / BATCH_SIZE) + 1}: ${batch.length} rows (total: ${totalUpserted})`);
+      }
+    } catch (err) {
+      upsertError = errorMessage(err, 'Failed to upsert timesheet_daily_rollups');
+      console.error(`${tag} Upsert error: ${upsertError}`);
+    }
+  }
+
+  // ===========================================================================
+  // Total hours for diagnostics (source vs manifest)
+  // ===========================================================================
+  // source_hours: sum of total_minutes from built rows / 60
+  // manifest_hours: sum of total_minutes stored in the DB after upsert / 60
+  let sourceHours: number | null = null;
+  let manifestHours: number | null = null;
+
+  if (rows.length > 0) {
+    const totalSourceMinutes = rows.reduce((sum, row) => sum + row.total_minutes, 0);
+    sourceHours = Math.round((totalSourceMinutes / 60) * 100) / 100;
+  }
+
+  try {
+    const { data: dbTotals } = await db
+      .from('timesheet_daily_rollups')
+      .select('total_minutes')
+      .eq('clockify_workspace_id', workspaceId)
+      .gte('work_date', range.startDate)
+      .lte('work_date', range.endDate);
+
+    const totals = (dbTotals as Array<{ total_minutes: number | null }>) || [];
+    if (totals.length > 0) {
+      const totalDbMinutes = totals.reduce((sum, row) => sum + (row.total_minutes || 0), 0);
+      manifestHours = Math.round((totalDbMinutes / 60) * 100) / 100;
+    }
+  } catch {
+    // Non-blocking — manifest_hours will be null if query fails
+  }
+
+  console.log(`${tag} Hours — source: ${sourceHours}, manifest: ${manifestHours}`);
+
+  // ===========================================================================
+  // STEP 5: Conditional cleanup — delete stale entries
+  // ===========================================================================
+  // Only runs if fetch was complete AND upsert succeeded, and only for sources
+  // that replace the whole range (a manual import never deletes synced rows).
+  // ===========================================================================
+  let cleanupResult: Record<string, unknown> = { action: 'cleanup_not_attempted' };
+  let deletedCount = 0;
+
+  if (!adapter.replacesRange) {
+    cleanupResult = {
+      action: 'cleanup_skipped',
+      reason: 'source_not_authoritative',
+      sync_run_id: syncRunId,
+      message: `Cleanup skipped because ${adapter.label} rows are additive. No entries deleted.`,
+    };
+    console.log(`${tag} Cleanup skipped: source does not replace the range`);
+  } else if (!fetchComplete) {
+    cleanupResult = {
+      action: 'cleanup_skipped',
+      reason: 'fetch_incomplete',
+      sync_run_id: syncRunId,
+      message: 'Cleanup skipped because fetch did not complete successfully. No entries deleted.',
+    };
+    console.log(`${tag} Cleanup skipped: fetch incomplete`);
+  } else if (upsertError) {
+    cleanupResult = {
+      action: 'cleanup_skipped',
+      reason: 'upsert_error',
+      sync_run_id: syncRunId,
+      message: 'Cleanup skipped because upsert had errors.',
+    };
+    console.log(`${tag} Cleanup skipped: upsert error`);
+  } else {
+    try {
+      const { data: rpcResult, error: rpcError } = await db.rpc('cleanup_stale_timesheet_entries', {
+        p_workspace_id: workspaceId,
+        p_range_start: range.startDate,
+        p_range_end: range.endDate,
+        p_sync_run_id: syncRunId,
+      });
+
+      if (rpcError) {
+        throw new Error(`Cleanup RPC error: ${rpcError.message}`);
+      }
+
+      // RPC returns TABLE (deleted_count BIGINT) — result is array with one row
+      const cleanupRows = rpcResult as { deleted_count?: number } | Array<{ deleted_count?: number }> | null;
+      deletedCount = Array.isArray(cleanupRows)
+        ? (cleanupRows[0]?.deleted_count ?? 0)
+        : (cleanupRows?.deleted_count ?? 0);
+
+      cleanupResult = {
+        action: 'cleanup_executed',
+        sync_run_id: syncRunId,
+        deleted_count: deletedCount,
+        range_start: range.startDate,
+        range_end: range.endDate,
+        message: `Cleanup complete. Deleted ${deletedCount} stale entries.`,
+      };
+      console.log(`${tag} Cleanup complete: deleted ${deletedCount} stale entries`);
+    } catch (err) {
+      cleanupResult = {
+        action: 'cleanup_failed',
+        reason: 'rpc_error',
+        sync_run_id: syncRunId,
+        error: errorMessage(err, 'Unknown error calling cleanup RPC'),
+        message: 'Cleanup RPC call failed. Manual review may be needed.',
+      };
+      console.error(`${tag} Cleanup failed: ${errorMessage(err, 'Unknown error')}`);
+    }
+  }
+
+  // ===========================================================================
+  // STEP 5.5: Populate rounded_minutes for synced entries (non-blocking)
+  // ===========================================================================
+  let roundingResult: Record<string, unknown> = { action: 'rounding_not_attempted' };
+
+  if (!fetchComplete) {
+    roundingResult = { action: 'rounding_skipped', reason: 'fetch_incomplete', sync_run_id: syncRunId };
+    console.log(`${tag} Rounding population skipped: fetch incomplete`);
+  } else {
+    try {
+      const { data, error } = await db.rpc('populate_rounded_minutes', {
+        p_workspace_id: workspaceId,
+        p_range_start: range.startDate,
+        p_range_end: range.endDate,
+      });
+
+      if (error) {
+        console.error(`${tag} Rounding population error:`, error.message);
+        roundingResult = { action: 'rounding_failed', reason: 'rpc_error', sync_run_id: syncRunId, error: error.message };
+      } else {
+        const updatedCount = typeof data === 'number' ? data : 0;
+        roundingResult = { action: 'rounding_executed', sync_run_id: syncRunId, updated_count: updatedCount };
+        console.log(`${tag} Populated rounded_minutes for ${updatedCount} entries`);
+      }
+    } catch (err) {
+      roundingResult = {
+        action: 'rounding_failed',
+        reason: 'exception',
+        sync_run_id: syncRunId,
+        error: errorMessage(err, 'Unknown error'),
+      };
+      console.error(`${tag} Rounding population failed: ${errorMessage(err, 'Unknown error')}`);
+    }
+  }
+
+  // ===========================================================================
+  // STEP 5.6 / 5.7: Layer 2 totals and task_monthly_totals (non-blocking)
+  // ===========================================================================
+  // Both only run if rounding completed successfully.
+  // ===========================================================================
+  const populateAfterRounding = async (
+    prefix: string,
+    rpcName: string,
+    label: string,
+  ): Promise<Record<string, unknown>> => {
+    if (roundingResult.action !== 'rounding_executed') {
+      console.log(`${tag} ${label} skipped: rounding did not complete`);
+      return { action: `${prefix}_skipped`, reason: 'rounding_not_complete', sync_run_id: syncRunId };
+    }
+    try {
+      const { data, error } = await db.rpc(rpcName, {
+        p_workspace_id: workspaceId,
+        p_range_start: range.startDate,
+        p_range_end: range.endDate,
+      });
+      if (error) {
+        console.error(`${tag} ${label} error:`, error.message);
+        return { action: `${prefix}_failed`, reason: 'rpc_error', error: error.message };
+      }
+      console.log(`${tag} ${label} populated:`, JSON.stringify(data));
+      return { action: `${prefix}_executed`, result: data };
+    } catch (err) {
+      console.error(`${tag} ${label} failed:`, errorMessage(err, 'Unknown error'));
+      return { action: `${prefix}_failed`, reason: 'exception', error: errorMessage(err, 'Unknown error') };
+    }
+  };
+
+  const layer2Result = await populateAfterRounding('layer2', 'populate_layer2_totals', 'Layer 2');
+  const taskMonthlyResult = await populateAfterRounding(
+    'task_monthly',
+    'populate_task_monthly_totals',
+    'Task monthly totals',
+  );
+
+  // ===========================================================================
+  // STEP 5.8: Reconciliation invariant (migration 101)
+  // ===========================================================================
+  // Hard abort: if task_monthly_totals has diverged from the canonical-
+  // resolved sum of timesheet_daily_rollups by more than 2 minutes for any
+  // (canonical_project, summary_month) in the sync range, we must NOT drain
+  // the recalculation queue -- billing would compute off corrupt totals.
+  //
+  // RPC invocation failures are logged but non-fatal; only actual
+  // discrepancies trigger the abort.
+  // ===========================================================================
+  const { data: discrepancyData, error: reconcileError } = await db.rpc(
+    'validate_task_monthly_totals_vs_rollups',
+    { p_range_start: range.startDate, p_range_end: range.endDate },
+  );
+  if (reconcileError) {
+    console.error(`${tag} reconciliation RPC failed:`, reconcileError);
+  }
+  const discrepancies = (discrepancyData as unknown[]) || [];
+  if (discrepancies.length > 0) {
+    // Sample stays in server-side logs ONLY. Discrepancy rows expose
+    // canonical_project_id values and raw minute totals, which cross tenant
+    // boundaries in the reconciliation scan.
+    console.error(`${tag} RECONCILIATION FAILURE -- aborting drain. Discrepancies:`, JSON.stringify(discrepancies.slice(0, 20)));
+    return {
+      status: 500,
+      body: { success: false, reason: 'reconciliation_failed', discrepancy_count: discrepancies.length },
+    };
+  }
+
+  // ===========================================================================
+  // STEP 6: Drain recalculation queue
+  // ===========================================================================
+  let recalcResult: Record<string, unknown> = { action: 'recalculate_not_attempted' };
+
+  if (!fetchComplete) {
+    recalcResult = {
+      action: 'recalculate_skipped',
+      reason: 'fetch_incomplete',
+      sync_run_id: syncRunId,
+      message: 'Recalculation skipped because fetch did not complete successfully.',
+    };
+    console.log(`${tag} Recalculation skipped: fetch incomplete`);
+  } else {
+    try {
+      const { data: rpcResult, error: rpcError } = await db.rpc('drain_recalculation_queue', {
+        p_max_depth: RECALC_MAX_DEPTH,
+      });
+
+      if (rpcError) {
+        throw new Error(`Recalculation RPC error: ${rpcError.message}`);
+      }
+
+      const processedCount = typeof rpcResult === 'number'
+        ? rpcResult
+        : (Array.isArray(rpcResult) ? (rpcResult[0] ?? 0) : 0);
+
+      recalcResult = {
+        action: 'recalculate_executed',
+        sync_run_id: syncRunId,
+        processed_count: processedCount,
+        message: `Recalculation complete. Processed ${processedCount} queued project-months.`,
+      };
+      console.log(`${tag} Recalculation complete: processed ${processedCount} queued project-months`);
+    } catch (err) {
+      recalcResult = {
+        action: 'recalculate_failed',
+        reason: 'rpc_error',
+        sync_run_id: syncRunId,
+        error: errorMessage(err, 'Unknown error calling drain_recalculation_queue RPC'),
+        message: 'Recalculation RPC call failed. Summary table may be stale until next sync.',
+      };
+      console.error(`${tag} Recalculation failed: ${errorMessage(err, 'Unknown error')}`);
+    }
+  }
+
+  // ===========================================================================
+  // STEP 7: Reconciliation alerts (non-blocking)
+  // ===========================================================================
+  let reconciliationResult: Record<string, unknown> = {
+    alerts_created: 0,
+    alerts_resolved: 0,
+    reconciliation_error: null,
+  };
+
+  try {
+    console.log(`${tag} Starting reconciliation...`);
+
+    let alertsCreated = 0;
+    let alertsResolved = 0;
+    const alertType = (suffix: string) => `${adapter.id}_${suffix}`;
+
+    /** Insert a workspace-level alert unless an unresolved one already exists. */
+    const raiseWorkspaceAlert = async (
+      suffix: string,
+      severity: 'error' | 'warning',
+      title: string,
+      metadata: Record<string, unknown>,
+    ) => {
+      const { data: existingAlert } = await db
+        .from('sync_alerts')
+        .select('id')
+        .eq('alert_type', alertType(suffix))
+        .eq('entity_id', workspaceId)
+        .is('resolved_at', null)
+        .maybeSingle();
+
+      if (!existingAlert) {
+        await db.from('sync_alerts').insert({
+          alert_type: alertType(suffix),
+          severity,
+          title,
+          entity_type: adapter.alertEntity.type,
+          entity_id: workspaceId,
+          entity_name: adapter.alertEntity.name,
+          metadata: { sync_run_id: syncRunId, ...metadata },
+        });
+        alertsCreated++;
+      }
+    };
+
+    /** Resolve every unresolved alert of a type (optionally keeping some entities open). */
+    const resolveAlerts = async (suffix: string, keepEntityIds?: Set<string>) => {
+      const { data: activeAlerts } = await db
+        .from('sync_alerts')
+        .select('id, entity_id')
+        .eq('alert_type', alertType(suffix))
+        .is('resolved_at', null);
+
+      for (const alert of ((activeAlerts as Array<{ id: string; entity_id: string | null }>) || [])) {
+        if (keepEntityIds && (!alert.entity_id || keepEntityIds.has(alert.entity_id))) continue;
+        await db
+          .from('sync_alerts')
+          .update({ resolved_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+          .eq('id', alert.id);
+        alertsResolved++;
+      }
+    };
+
+    // --- {source}_sync_incomplete ---
+    if (!fetchComplete) {
+      const errorSummary = fetched.errors.map((e) => e.message).join('; ') || 'Unknown error';
+      await raiseWorkspaceAlert('sync_incomplete', 'error', `${adapter.label} sync incomplete: ${errorSummary}`, {
+        ...fetched.alertMetadata,
+        entries_fetched: entryCount,
+        errors: fetched.errors,
+      });
+    } else {
+      await resolveAlerts('sync_incomplete');
+    }
+
+    // --- {source}_zero_entries ---
+    if (fetchComplete && entryCount === 0) {
+      await raiseWorkspaceAlert(
+        'zero_entries',
+        'warning',
+        `${adapter.label} sync returned 0 time entries for ${range.startDate} to ${range.endDate}`,
+        { ...fetched.alertMetadata, range_start: range.startISO, range_end: range.endISO },
+      );
+    } else if (entryCount > 0) {
+      await resolveAlerts('zero_entries');
+    }
+
+    // --- {source}_high_deletion_count ---
+    if (deletedCount > HIGH_DELETION_THRESHOLD) {
+      await raiseWorkspaceAlert(
+        'high_deletion_count',
+        'warning',
+        `${adapter.label} cleanup deleted ${deletedCount} entries (threshold: ${HIGH_DELETION_THRESHOLD})`,
+        { deleted_count: deletedCount, range_start: range.startISO, range_end: range.endISO },
+      );
+    } else if (deletedCount >= 0 && fetchComplete) {
+      await resolveAlerts('high_deletion_count');
+    }
+
+    // --- {source}_hours_mismatch ---
+    // Compare source totals per user against timesheet_daily_rollups. Only
+    // runs if fetch completed and upsert succeeded (data is reliable), and
+    // only for sources whose fetch covers every row in the range.
+    if (adapter.replacesRange && fetchComplete && !upsertError && entryCount > 0) {
+      try {
+        console.log(`${tag} Starting hours mismatch reconciliation...`);
+
+        const sourceTotalsByUser = normalized.userTotals;
+        const minutesKey = `${adapter.id}_minutes`;
+
+        const { data: manifestRollups, error: manifestError } = await db
+          .from('timesheet_daily_rollups')
+          .select('user_id, total_minutes')
+          .eq('clockify_workspace_id', workspaceId)
+          .gte('work_date', range.startDate)
+          .lte('work_date', range.endDate);
+
+        if (manifestError) {
+          throw new Error(`Manifest rollups query error: ${manifestError.message}`);
+        }
+
+        const manifestTotalsByUser: Record<string, number> = {};
+        for (const row of ((manifestRollups as Array<{ user_id: string | null; total_minutes: number | null }>) || [])) {
+          if (row.user_id) {
+            manifestTotalsByUser[row.user_id] = (manifestTotalsByUser[row.user_id] || 0) + (row.total_minutes || 0);
+          }
+        }
+
+        const allUserIds = new Set([
+          ...Object.keys(sourceTotalsByUser),
+          ...Object.keys(manifestTotalsByUser),
+        ]);
+        const mismatchedUserIds = new Set<string>();
+
+        for (const userId of allUserIds) {
+          const sourceMinutes = sourceTotalsByUser[userId]?.minutes || 0;
+          const manifestMinutes = manifestTotalsByUser[userId] || 0;
+          if (sourceMinutes === manifestMinutes) continue;
+
+          mismatchedUserIds.add(userId);
+          const userName = sourceTotalsByUser[userId]?.name || 'Unknown';
+          const title = `Hours mismatch: ${userName} has ${sourceMinutes} minutes in ${adapter.label} but ${manifestMinutes} minutes in Manifest`;
+          const newMetadata = {
+            [minutesKey]: sourceMinutes,
+            manifest_minutes: manifestMinutes,
+            range_start: range.startDate,
+            range_end: range.endDate,
+          };
+
+          const { data: existingAlert } = await db
+            .from('sync_alerts')
+            .select('id, metadata, dismissed_at')
+            .eq('alert_type', alertType('hours_mismatch'))
+            .eq('entity_id', userId)
+            .is('resolved_at', null)
+            .maybeSingle();
+
+          const existing = existingAlert as { id: string; metadata: Record<string, unknown> | null } | null;
+          if (existing) {
+            const oldMeta = existing.metadata || {};
+            const valuesChanged = oldMeta[minutesKey] !== sourceMinutes
+              || oldMeta.manifest_minutes !== manifestMinutes;
+
+            if (valuesChanged) {
+              // Values changed — update and clear dismissed_at so it reappears
+              await db
+                .from('sync_alerts')
+                .update({
+                  title,
+                  metadata: newMetadata,
+                  dismissed_at: null,
+                  dismissed_by: null,
+                  updated_at: new Date().toISOString(),
+                })
+                .eq('id', existing.id);
+              alertsCreated++;
+            }
+            // If values are the same, leave it alone (keep dismissed state)
+          } else {
+            await db.from('sync_alerts').insert({
+              alert_type: alertType('hours_mismatch'),
+              severity: 'warning',
+              title,
+              entity_type: 'user',
+              entity_id: userId,
+              entity_name: userName,
+              metadata: newMetadata,
+            });
+            alertsCreated++;
+          }
+        }
+
+        // Auto-resolve mismatch alerts for users that now match
+        await resolveAlerts('hours_mismatch', mismatchedUserIds);
+
+        console.log(
+          `${tag} Hours mismatch reconciliation: ` +
+          `${mismatchedUserIds.size} mismatches found, users checked: ${allUserIds.size}`,
+        );
+      } catch (hoursMismatchError) {
+        console.error(
+          `${tag} Hours mismatch reconciliation error (non-blocking):`,
+          errorMessage(hoursMismatchError, String(hoursMismatchError)),
+        );
+      }
+    }
+
+    reconciliationResult = {
+      alerts_created: alertsCreated,
+      alerts_resolved: alertsResolved,
+      reconciliation_error: null,
+    };
+
+    console.log(`${tag} Reconciliation complete: ${alertsCreated} created, ${alertsResolved} resolved`);
+  } catch (reconciliationError) {
+    reconciliationResult = {
+      alerts_created: 0,
+      alerts_resolved: 0,
+      reconciliation_error: errorMessage(reconciliationError, String(reconciliationError)),
+    };
+    console.error(`${tag} Reconciliation error (non-blocking):`, reconciliationResult.reconciliation_error);
+  }
+
+  // ===========================================================================
+  // STEP 8: Summary JSON
+  // ===========================================================================
+  const result = {
+    success: fetchComplete && !upsertError,
+    action: `${adapter.id}_timesheet_sync_complete`,
+    sync_run_id: syncRunId,
+    sync_run_at: syncRunAt,
+    range_start: range.startISO,
+    range_end: range.endISO,
+    fetch: {
+      complete: fetchComplete,
+      ...fetched.stats,
+      total_entries: entryCount,
+      error_count: fetched.errors.length,
+      errors: fetched.errors,
+    },
+    transform: {
+      rows_built: rows.length,
+      ...normalized.skipped,
+    },
+    upsert: {
+      rows_upserted: totalUpserted,
+      batch_size: BATCH_SIZE,
+      error: upsertError,
+    },
+    cleanup: cleanupResult,
+    rounding: roundingResult,
+    layer2: layer2Result,
+    taskMonthly: taskMonthlyResult,
+    recalculation: recalcResult,
+    reconciliation: reconciliationResult,
+  };
+
+  console.log(`${tag} Complete:`, JSON.stringify(result));
+
+  // ===========================================================================
+  // STEP 9: Persist sync run to sync_runs (diagnostics)
+  // ===========================================================================
+  try {
+    await db.from('sync_runs').insert({
+      sync_type: adapter.syncType,
+      sync_run_id: syncRunId,
+      started_at: syncRunAt,
+      success: fetchComplete && !upsertError,
+      source_total: rows.length,
+      manifest_total: totalUpserted,
+      deleted_count: deletedCount,
+      source_hours: sourceHours,
+      manifest_hours: manifestHours,
+      error_message: upsertError || (fetched.errors.length > 0 ? fetched.errors[0].message : null),
+      summary: result,
+    });
+  } catch (syncRunErr) {
+    console.error(`${tag} Failed to persist sync run (non-blocking):`, syncRunErr);
+  }
+
+  return { status: 200, body: result };
+}
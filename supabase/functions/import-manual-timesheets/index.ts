@@ -0,0 +1,224 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  classifyManualRows,
+  createManualAdapter,
+  MANUAL_WORKSPACE_ID,
+  resolveManualRows,
+  type ExistingRollup,
+  type ManualImportDirectory,
+  type ManualPreviewRow,
+  type ManualTimesheetRow,
+} from './_lib/manualImport.ts';
+import { runTimesheetSync } from './_lib/pipeline.ts';
+import { computeSyncRange } from './_lib/syncRange.ts';
+
+// =============================================================================
+// Edge Function: import-manual-timesheets
+// =============================================================================
+// POST { mode: 'preview' | 'commit', file_name, rows: ManualTimesheetRow[] }
+//
+// The file is parsed and column-mapped in the browser
+// (src/lib/xls/parseTimesheetImport.ts); this function only sees mapped rows.
+// Both modes re-resolve every row server-side against resources,
+// resource_user_associations, projects and v_project_canonical — the client's
+// resolution is never trusted.
+//
+//   preview — returns each row with a status (new / update / unchanged /
+//             overlap / error) and its errors. Writes nothing.
+//   commit  — imports the new, update and overlap rows through the shared
+//             sync pipeline (_lib/pipeline.ts) under the 'manual' source:
+//             upsert, rounding, Layer 2, task_monthly_totals, reconciliation,
+//             queue drain, sync_runs. Error and unchanged rows are skipped.
+//
+// Dedupe: task_id = 'manual-' + sha256(user|project|task|date), so importing
+// the same file twice upserts (minutes replaced, never doubled). Manual rows
+// are additive — the pipeline never deletes synced rows for this source.
+// The _lib files are byte-identical copies of src/lib/timeSync.
+//
+// Auth: authenticated admin (mirrors ingest-expenses)
+// =============================================================================
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+const MAX_IMPORT_ROWS = 5000;
+const PAGE_SIZE = 1000;
+
+interface ImportBody {
+  mode?: string;
+  file_name?: string;
+  rows?: ManualTimesheetRow[];
+}
+
+type RangeQuery = {
+  range: (from: number, to: number) => PromiseLike<{ data: unknown[] | null; error: { message: string } | null }>;
+};
+
+/**
+ * Page through a select until a short page (PostgREST caps at 1000 rows).
+ * `query` builds a fresh ordered select per page (same approach as
+ * src/lib/fetchAllRows.ts).
+ */
+async function selectAll<T>(query: () => RangeQuery): Promise<T[]> {
+  const all: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query().range(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    const batch = (data as T[]) || [];
+    all.push(...batch);
+    if (batch.length < PAGE_SIZE) break;
+  }
+  return all;
+}
+
+function summarize(rows: ManualPreviewRow[]): Record<string, number> {
+  const counts: Record<string, number> = { total: rows.length, new: 0, update: 0, unchanged: 0, overlap: 0, error: 0 };
+  for (const row of rows) counts[row.status]++;
+  return counts;
+}
+
+// ---------------------------------------------------------------------------
+// Handler
+// ---------------------------------------------------------------------------
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    // --- Authenticate + authorize (mirrors ingest-expenses) ---
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const token = authHeader.replace('Bearer ', '');
+
+    const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabaseAuth.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    const { data: isAdmin, error: adminCheckError } = await supabaseAuth.rpc('is_admin');
+    if (adminCheckError || !isAdmin) {
+      return jsonResponse({ error: 'Forbidden: admin access required' }, 403);
+    }
+
+    // --- Parse + validate body ---
+    const body = (await req.json()) as ImportBody;
+    const { mode, file_name, rows } = body;
+
+    if (mode !== 'preview' && mode !== 'commit') {
+      return jsonResponse({ error: "mode must be 'preview' | 'commit'" }, 400);
+    }
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return jsonResponse({ error: 'rows[] is required' }, 400);
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return jsonResponse({ error: `At most ${MAX_IMPORT_ROWS} rows per import` }, 400);
+    }
+
+    // --- Service-role client for lookups and writes ---
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // --- Directory for resolution ---
+    const [resources, associations, projects, canonical] = await Promise.all([
+      selectAll<ManualImportDirectory['resources'][number]>(() =>
+        supabase.from('resources').select('id, user_id, external_label, first_name, last_name, email').order('id')),
+      selectAll<ManualImportDirectory['associations'][number]>(() =>
+        supabase.from('resource_user_associations').select('resource_id, user_id, user_name').order('user_id')),
+      selectAll<ManualImportDirectory['projects'][number]>(() =>
+        supabase.from('projects').select('id, project_id, project_name, client_id, client_name').order('id')),
+      selectAll<ManualImportDirectory['canonical'][number]>(() =>
+        supabase.from('v_project_canonical').select('project_id, canonical_project_id').order('project_id')),
+    ]);
+    const directory: ManualImportDirectory = { resources, associations, projects, canonical };
+
+    const resolved = await resolveManualRows(rows, directory);
+
+    // --- Existing rollups over the valid rows' date span ---
+    const workDates = resolved.flatMap((r) => (r.rollup ? [r.rollup.work_date] : [])).sort();
+    const rangeStart = workDates[0] ?? null;
+    const rangeEnd = workDates[workDates.length - 1] ?? null;
+
+    const existing = rangeStart && rangeEnd
+      ? await selectAll<ExistingRollup>(() =>
+        supabase
+          .from('timesheet_daily_rollups')
+          .select('clockify_workspace_id, task_id, user_id, project_id, work_date, total_minutes')
+          .gte('work_date', rangeStart)
+          .lte('work_date', rangeEnd)
+          .order('clockify_workspace_id')
+          .order('task_id'))
+      : [];
+
+    const preview = classifyManualRows(resolved, existing, directory);
+    const summary = summarize(preview);
+
+    if (mode === 'preview') {
+      return jsonResponse({ success: true, mode, file_name: file_name ?? null, summary, rows: preview });
+    }
+
+    // --- Commit: import new / update / overlap rows through the pipeline ---
+    const toImport = preview.filter((r) => r.status === 'new' || r.status === 'update' || r.status === 'overlap');
+    if (toImport.length === 0 || !rangeStart || !rangeEnd) {
+      return jsonResponse({
+        success: true,
+        mode,
+        file_name: file_name ?? null,
+        summary,
+        imported: 0,
+        message: 'Nothing to import',
+      });
+    }
+
+    console.log(
+      `[import-manual] ${user.email ?? user.id} importing ${toImport.length} rows ` +
+      `from ${file_name ?? '(unnamed file)'} (${rangeStart} to ${rangeEnd})`,
+    );
+
+    const range = computeSyncRange({
+      rangeStartDate: `${rangeStart}T00:00:00.000Z`,
+      rangeEndDate: `${rangeEnd}T23:59:59.999Z`,
+    });
+    const adapter = createManualAdapter(toImport.map((r) => r.rollup!));
+    const outcome = await runTimesheetSync(supabase, adapter, range);
+
+    return jsonResponse({
+      ...outcome.body,
+      mode,
+      file_name: file_name ?? null,
+      workspace_id: MANUAL_WORKSPACE_ID,
+      summary,
+      imported: toImport.length,
+    }, outcome.status);
+  } catch (error) {
+    console.error('import-manual-timesheets error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
@@ -61,6 +61,11 @@ function jsonResponse(body: Record<string, unknown>, status = 200) {
 
 const DB_BATCH_SIZE = 500;
 
+// Mirrors SourceFormat in src/lib/xls/sniffFormat.ts and the
+// expense_source_files.source_format CHECK (migration 145). Every format
+// arrives as the same RawBankRow[], so nothing below branches on it.
+const SOURCE_FORMATS = ['html_xls', 'binary_xls', 'xlsx', 'camt053', 'mt940', 'csv'];
+
 // In-ingest AI translation is best-effort and STRICTLY BOUNDED: at most
 // INGEST_MAX_AI_BATCHES Anthropic calls, under a wall-clock budget, so the
 // translate step can never threaten the function's execution limit on a large
@@ -135,9 +140,10 @@ serve(async (req) => {
       return jsonResponse({ error: 'Unauthorized' }, 401);
     }
 
-    const { data: isAdmin, error: adminCheckError } = await supabaseAuth.rpc('is_admin');
-    if (adminCheckError || !isAdmin) {
-      return jsonResponse({ error: 'Forbidden: admin access required' }, 403);
+    // Admins and finance users manage expenses (migration 142)
+    const { data: canManage, error: roleCheckError } = await supabaseAuth.rpc('can_manage_expenses');
+    if (roleCheckError || !canManage) {
+      return jsonResponse({ error: 'Forbidden: admin or finance access required' }, 403);
     }
 
     // --- Parse + validate body ---
@@ -150,8 +156,8 @@ serve(async (req) => {
     if (!Array.isArray(rows)) {
       return jsonResponse({ error: 'rows[] is required' }, 400);
     }
-    if (!source_format || !['html_xls', 'binary_xls', 'xlsx'].includes(source_format)) {
-      return jsonResponse({ error: 'source_format must be html_xls | binary_xls | xlsx' }, 400);
+    if (!source_format || !SOURCE_FORMATS.includes(source_format)) {
+      return jsonResponse({ error: `source_format must be ${SOURCE_FORMATS.join(' | ')}` }, 400);
     }
 
     // --- Service-role client for all writes ---
@@ -44,6 +44,8 @@
 
 import { Pool, PoolClient } from 'https://deno.land/x/postgres@v0.19.3/mod.ts';
 
+import type { ApiKeyScope } from './types.ts';
+
 // -----------------------------------------------------------------------------
 // Connection pool
 // -----------------------------------------------------------------------------
@@ -171,6 +173,7 @@ export interface AuthOk {
   apiKeyId: string;
   prefix: string;
   name: string;
+  scopes: ApiKeyScope[];
 }
 
 export type AuthResult = AuthOk | AuthError;
@@ -182,6 +185,7 @@ interface AuthAndConsumeRow {
     api_key_id?: string;
     prefix?: string;
     name?: string;
+    scopes?: ApiKeyScope[];
     window_kind?: 'minute' | 'hour';
     retry_after_ms?: number | null;
   } | null;
@@ -243,6 +247,9 @@ export async function authenticateAndRateLimit(
       apiKeyId: env.api_key_id!,
       prefix: env.prefix!,
       name: env.name!,
+      // Keys minted before migration 148 carry hours:read; an envelope
+      // without scopes (older SQL helper) gets the same read-only set.
+      scopes: env.scopes ?? ['hours:read'],
     };
   });
 }
@@ -10,6 +10,9 @@
 //   - "tools/call"       Invokes a tool by name with structured params.
 //
 // Auth + rate limit + audit are applied to every call regardless of method.
+// Tools are scoped per key (migration 148): tools/list returns only the tools
+// the key's scopes allow, and tools/call on any other tool is rejected with
+// MCP_FORBIDDEN before the database is touched.
 // =============================================================================
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
@@ -25,6 +28,7 @@ import {
   JSONRPC_INVALID_REQUEST,
   JSONRPC_METHOD_NOT_FOUND,
   JSONRPC_PARSE_ERROR,
+  MCP_FORBIDDEN,
   MCP_RATE_LIMITED,
   MCP_TOOL_ERROR,
   MCP_UNAUTHORIZED,
@@ -32,6 +36,7 @@ import {
   type JsonRpcId,
   type JsonRpcRequest,
   type JsonRpcSuccess,
+  type ApiKeyScope,
 } from './types.ts';
 
 // -----------------------------------------------------------------------------
@@ -126,7 +131,7 @@ interface ServerInfo {
 
 const SERVER_INFO: ServerInfo = {
   protocolVersion: '2024-11-05',
-  serverInfo: { name: 'manifest-mcp', version: '1.0.0' },
+  serverInfo: { name: 'manifest-mcp', version: '1.1.0' },
   capabilities: { tools: {} },
 };
 
@@ -134,9 +139,9 @@ async function handleInitialize(): Promise<unknown> {
   return SERVER_INFO;
 }
 
-async function handleToolsList(): Promise<unknown> {
+async function handleToolsList(scopes: ApiKeyScope[]): Promise<unknown> {
   return {
-    tools: TOOLS.map((t) => ({
+    tools: TOOLS.filter((t) => scopes.includes(t.scope)).map((t) => ({
       name: t.name,
       description: t.description,
       inputSchema: t.inputSchema,
@@ -146,10 +151,13 @@ async function handleToolsList(): Promise<unknown> {
 
 async function handleToolsCall(
   params: Record<string, unknown>,
+  apiKeyId: string,
+  scopes: ApiKeyScope[],
 ): Promise<{
   result?: unknown;
   errorCode?: string;
   errorMessage?: string;
+  forbidden?: boolean;
   toolName: string | null;
 }> {
   const name = typeof params.name === 'string' ? params.name : null;
@@ -174,7 +182,16 @@ async function handleToolsCall(
     };
   }
 
-  const env = await tool.invoke(args);
+  if (!scopes.includes(tool.scope)) {
+    return {
+      errorCode: 'FORBIDDEN',
+      errorMessage: `This API key does not have the ${tool.scope} scope required by ${name}.`,
+      forbidden: true,
+      toolName: name,
+    };
+  }
+
+  const env = await tool.invoke(args, apiKeyId);
   return { result: env, toolName: name };
 }
 
@@ -252,11 +269,22 @@ async function dispatch(
         result = await handleInitialize();
         break;
       case 'tools/list':
-        result = await handleToolsList();
+        result = await handleToolsList(auth.scopes);
         break;
       case 'tools/call': {
-        const r = await handleToolsCall(params);
+        const r = await handleToolsCall(params, auth.apiKeyId, auth.scopes);
         toolName = r.toolName;
+        if (r.forbidden) {
+          return finalizeError(
+            id,
+            auth.apiKeyId,
+            toolName,
+            MCP_FORBIDDEN,
+            'FORBIDDEN',
+            r.errorMessage ?? 'Forbidden.',
+            403,
+          );
+        }
         if (r.errorCode) {
           errorCode = r.errorCode;
           errorMessage = r.errorMessage ?? 'Tool error.';
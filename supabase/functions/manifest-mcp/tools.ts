@@ -5,7 +5,7 @@
 // =============================================================================
 
 import { callApiFunction } from './auth.ts';
-import type { ToolEnvelope } from './types.ts';
+import type { ApiKeyScope, ToolEnvelope } from './types.ts';
 
 // -----------------------------------------------------------------------------
 // JSON Schema fragments
@@ -36,7 +36,9 @@ export interface ToolDefinition {
   name: string;
   description: string;
   inputSchema: Record<string, unknown>;
-  invoke: (params: Record<string, unknown>) => Promise<ToolEnvelope<unknown>>;
+  /** Key scope required to list and call the tool (migration 148). */
+  scope: ApiKeyScope;
+  invoke: (params: Record<string, unknown>, apiKeyId: string) => Promise<ToolEnvelope<unknown>>;
 }
 
 // Helper: a tool that calls a single SQL function and unwraps the envelope.
@@ -53,6 +55,7 @@ function makeTool(
     name,
     description,
     inputSchema,
+    scope: 'hours:read',
     invoke: async (params) => {
       const { sql, args } = buildCall(params);
       const env = await callApiFunction(sql, args);
@@ -61,6 +64,32 @@ function makeTool(
   };
 }
 
+// Helper: a tool behind a non-default scope. The authenticated api_key_id is
+// always $1 so the SQL function re-checks the scope itself — the Edge
+// Function filter is not the only gate.
+function makeScopedTool(
+  scope: ApiKeyScope,
+  name: string,
+  description: string,
+  inputSchema: Record<string, unknown>,
+  buildCall: (params: Record<string, unknown>) => {
+    sql: string;
+    args: unknown[];
+  },
+): ToolDefinition {
+  return {
+    name,
+    description,
+    inputSchema,
+    scope,
+    invoke: async (params, apiKeyId) => {
+      const { sql, args } = buildCall(params);
+      const env = await callApiFunction(sql, [apiKeyId, ...args]);
+      return env as ToolEnvelope<unknown>;
+    },
+  };
+}
+
 // Each `sql` snippet ends with a single function call. callApiFunction wraps
 // it as `SELECT (<sql>) AS envelope` so the function's JSONB return is the
 // row payload.
@@ -282,6 +311,124 @@ export const TOOLS: ToolDefinition[] = [
       ],
     }),
   ),
+
+  // ---------------------------------------------------------------------------
+  // finance:read — revenue in integer USD cents, never rates or costs
+  // ---------------------------------------------------------------------------
+
+  makeScopedTool(
+    'finance:read',
+    'get_company_revenue',
+    'Monthly revenue billed to a canonical company over [start_date, ' +
+      'end_date] (snapped to whole months, at most 36). Per month: ' +
+      'timesheet revenue, fixed billings, combined revenue_cents and billed ' +
+      'hours. Amounts are integer USD cents.',
+    {
+      type: 'object',
+      properties: {
+        canonical_company_id: uuidSchema,
+        start_date: dateSchema,
+        end_date: dateSchema,
+      },
+      required: ['canonical_company_id', 'start_date', 'end_date'],
+      additionalProperties: false,
+    },
+    (p) => ({
+      sql: `mcp_api.api_get_company_revenue($1, $2, $3, $4)`,
+      args: [
+        String(p.canonical_company_id ?? ''),
+        String(p.start_date ?? ''),
+        String(p.end_date ?? ''),
+      ],
+    }),
+  ),
+
+  makeScopedTool(
+    'finance:read',
+    'get_revenue_summary',
+    'Revenue per canonical company over [start_date, end_date] (whole ' +
+      'months), largest first, top 50. total_revenue_cents covers every ' +
+      'company. Amounts are integer USD cents.',
+    {
+      type: 'object',
+      properties: {
+        start_date: dateSchema,
+        end_date: dateSchema,
+      },
+      required: ['start_date', 'end_date'],
+      additionalProperties: false,
+    },
+    (p) => ({
+      sql: `mcp_api.api_get_revenue_summary($1, $2, $3)`,
+      args: [
+        String(p.start_date ?? ''),
+        String(p.end_date ?? ''),
+      ],
+    }),
+  ),
+
+  // ---------------------------------------------------------------------------
+  // Writes — audited in mcp_api.api_write_log
+  // ---------------------------------------------------------------------------
+
+  makeScopedTool(
+    'timesheets:write',
+    'log_time_entry',
+    'Log a manual time entry for a canonical employee on a canonical ' +
+      'project. Logging the same employee, project, task and date again ' +
+      'replaces the hours (action = "updated"). Refuses future dates and ' +
+      'closed billing months (MONTH_CLOSED).',
+    {
+      type: 'object',
+      properties: {
+        canonical_employee_id: uuidSchema,
+        canonical_project_id: uuidSchema,
+        work_date: dateSchema,
+        hours: { type: 'number', exclusiveMinimum: 0, maximum: 24 },
+        task: { type: ['string', 'null'], maxLength: 500 },
+      },
+      required: ['canonical_employee_id', 'canonical_project_id', 'work_date', 'hours'],
+      additionalProperties: false,
+    },
+    (p) => ({
+      sql: `mcp_api.api_log_time_entry($1, $2, $3, $4, $5, $6)`,
+      args: [
+        String(p.canonical_employee_id ?? ''),
+        String(p.canonical_project_id ?? ''),
+        String(p.work_date ?? ''),
+        Number(p.hours ?? 0),
+        p.task == null ? null : String(p.task),
+      ],
+    }),
+  ),
+
+  makeScopedTool(
+    'time_off:write',
+    'add_time_off_note',
+    'Record a time-off note (e.g. "out Friday, request pending") for a ' +
+      'canonical employee over [start_date, end_date]. A note is not an ' +
+      'approved time-off event and does not appear in get_employee_time_off.',
+    {
+      type: 'object',
+      properties: {
+        canonical_employee_id: uuidSchema,
+        start_date: dateSchema,
+        end_date: dateSchema,
+        note: { type: 'string', minLength: 1, maxLength: 1000 },
+      },
+      required: ['canonical_employee_id', 'start_date', 'end_date', 'note'],
+      additionalProperties: false,
+    },
+    (p) => ({
+      sql: `mcp_api.api_add_time_off_note($1, $2, $3, $4, $5)`,
+      args: [
+        String(p.canonical_employee_id ?? ''),
+        String(p.start_date ?? ''),
+        String(p.end_date ?? ''),
+        String(p.note ?? ''),
+      ],
+    }),
+  ),
 ];
 
 // Index for O(1) lookup at dispatch time.
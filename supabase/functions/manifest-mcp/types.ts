@@ -44,6 +44,7 @@ export const JSONRPC_INTERNAL_ERROR = -32603;
 // MCP-domain extensions live in the application range (-32000..-32099).
 export const MCP_UNAUTHORIZED = -32001;
 export const MCP_RATE_LIMITED = -32002;
+export const MCP_FORBIDDEN = -32003;
 export const MCP_TOOL_ERROR = -32010;
 
 // -----------------------------------------------------------------------------
@@ -64,8 +65,11 @@ export type ToolErrorCode =
   | 'AMBIGUOUS'
   | 'NOT_FOUND'
   | 'INVALID_DATE'
+  | 'INVALID_ARGUMENT'
   | 'RATE_LIMITED'
   | 'UNAUTHORIZED'
+  | 'FORBIDDEN'
+  | 'MONTH_CLOSED'
   | 'INTERNAL';
 
 export interface ToolErrorEnvelope {
@@ -203,14 +207,92 @@ export interface VerifyEmployeeWeekData {
   matches: boolean;
 }
 
+// Finance (finance:read). Amounts are integer USD cents.
+export interface GetCompanyRevenueParams {
+  canonical_company_id: string;
+  start_date: string;
+  end_date: string;
+}
+export interface CompanyRevenueMonth {
+  month: string;
+  timesheet_revenue_cents: number;
+  fixed_billing_cents: number;
+  revenue_cents: number;
+  billed_hours: number;
+}
+export interface GetCompanyRevenueData {
+  canonical_company_id: string;
+  company_name: string;
+  currency: 'USD';
+  total_revenue_cents: number;
+  months: CompanyRevenueMonth[];
+}
+
+export interface GetRevenueSummaryParams {
+  start_date: string;
+  end_date: string;
+}
+export interface CompanyRevenueRow {
+  canonical_company_id: string;
+  company_name: string;
+  revenue_cents: number;
+  billed_hours: number;
+}
+export interface GetRevenueSummaryData {
+  currency: 'USD';
+  total_revenue_cents: number;
+  companies: CompanyRevenueRow[];
+}
+
+// Writes (timesheets:write, time_off:write)
+export interface LogTimeEntryParams {
+  canonical_employee_id: string;
+  canonical_project_id: string;
+  work_date: string;
+  hours: number;
+  task?: string | null;
+}
+export interface LogTimeEntryData {
+  entry_id: string;
+  action: 'created' | 'updated';
+  work_date: string;
+  employee_name: string;
+  project_name: string;
+  task: string;
+  hours: number;
+  previous_hours: number | null;
+}
+
+export interface AddTimeOffNoteParams {
+  canonical_employee_id: string;
+  start_date: string;
+  end_date: string;
+  note: string;
+}
+export interface AddTimeOffNoteData {
+  note_id: string;
+  employee_name: string;
+  start_date: string;
+  end_date: string;
+  note: string;
+}
+
 // -----------------------------------------------------------------------------
 // Auth context
 // -----------------------------------------------------------------------------
 
+// Per-key tool scopes (mcp_api.api_keys.scopes, migration 148).
+export type ApiKeyScope =
+  | 'hours:read'
+  | 'finance:read'
+  | 'timesheets:write'
+  | 'time_off:write';
+
 export interface AuthContext {
   apiKeyId: string;
   prefix: string;
   name: string;
+  scopes: ApiKeyScope[];
   ipAddress: string | null;
   userAgent: string | null;
 }
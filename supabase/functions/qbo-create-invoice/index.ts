@@ -1,5 +1,13 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { buildTaskBreakdownText } from './_lib/taskBreakdown.ts';
+import {
+  convertHourlyAmounts,
+  currencySymbol,
+  parseInvoiceCurrency,
+  toInvoiceCents,
+  type InvoiceCurrencyContext,
+} from './_lib/invoiceCurrency.ts';
 
 // =============================================================================
 // Edge Function: qbo-create-invoice
@@ -13,8 +21,13 @@ import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-
 //   { companyId: string, year: number, month: number, eomReportId?: string }
 //
 // Returns JSON:
-//   { success: true, invoiceId, invoiceNumber, totalAmountCents, lineItemCount, companyName }
+//   { success: true, invoiceId, invoiceNumber, totalAmountCents, currency, lineItemCount, companyName }
 //   { error: string } on failure
+//
+// Billing currency (migration 153): a company billed in EUR gets a EUR
+// invoice (CurrencyRef + ExchangeRate); the USD summary amounts are converted
+// with the month's get_billing_fx_rate (_lib/invoiceCurrency.ts), the same
+// way generate-eom-report prices the invoice PDF.
 // =============================================================================
 
 const corsHeaders = {
@@ -177,12 +190,25 @@ interface SummaryRow {
   rate_used: number;
   rounding_used: number;
   milestone_override_cents: number | null;
+  manual_adjustment_hours: number;
+  manual_adjustment_cents: number;
   projects: {
     project_name: string;
     project_id: string; // external project_id
   };
 }
 
+interface NativeRateRow {
+  external_project_id: string;
+  native_rate: number;
+  rate_currency: string;
+}
+
+interface AdjustmentReasonRow {
+  project_id: string; // canonical project UUID
+  reason: string;
+}
+
 interface TaskMonthlyTotalRow {
   project_id: string; // canonical project UUID
   task_name: string;
@@ -231,62 +257,6 @@ function roundCurrency(value: number): number {
   return Math.round(value * 100) / 100;
 }
 
-/**
- * Build the task-breakdown string for a QBO line Description under a character
- * budget. QBO enforces a hard 4,000-char limit on Line.Description; an unbounded
- * one-line-per-task concatenation can overflow it (e.g. Neocurrency at 4,968).
- *
- * Emits `\n{name}: {hrs} hrs` lines in the supplied (already-sorted, highest
- * minutes first) order, using the same rounding as the rest of the function
- * (`Math.round((mins/60)*100)/100`). Stops before exceeding `charBudget`; if any
- * tasks are omitted, appends `\n…(+{N} more tasks, {X.X} hrs)` so the disclosed
- * hours plus omitted hours still reconcile to the line Qty.
- *
- * Pure: does NOT compute the rounding-integrity sum — that is summed over the
- * FULL task set independently of this (possibly truncated) display string.
- */
-function buildTaskBreakdownText(
-  sortedTasks: [string, number][],
-  charBudget: number,
-): string {
-  let text = '';
-  let omittedCount = 0;
-  let omittedMinutes = 0;
-
-  for (let i = 0; i < sortedTasks.length; i++) {
-    const [name, mins] = sortedTasks[i];
-    const hrs = Math.round((mins / 60) * 100) / 100;
-    const line = `\n${name}: ${hrs} hrs`;
-
-    if (omittedCount > 0) {
-      // Once we've started omitting, omit the rest (preserve sorted priority).
-      omittedCount += 1;
-      omittedMinutes += mins;
-      continue;
-    }
-
-    const remaining = sortedTasks.length - 1 - i;
-    // Reserve room for a potential overflow footer if more tasks remain.
-    const footerReserve = remaining > 0
-      ? `\n…(+${remaining} more tasks, ${(omittedMinutes / 60).toFixed(1)} hrs)`.length
-      : 0;
-
-    if (text.length + line.length + footerReserve <= charBudget) {
-      text += line;
-    } else {
-      omittedCount += 1;
-      omittedMinutes += mins;
-    }
-  }
-
-  if (omittedCount > 0) {
-    const omittedHrs = Math.round((omittedMinutes / 60) * 10) / 10;
-    text += `\n…(+${omittedCount} more tasks, ${omittedHrs.toFixed(1)} hrs)`;
-  }
-
-  return text;
-}
-
 // =============================================================================
 // Main handler
 // =============================================================================
@@ -469,6 +439,48 @@ serve(async (req) => {
     // --- Query billing data for this company-month ---
     const monthStr = `${year}-${String(month).padStart(2, '0')}-01`;
 
+    // --- Billing currency and the month's rate (mig-153) ---
+    const { data: currencyData, error: currencyError } = await supabase.rpc(
+      'get_company_billing_currency',
+      { p_company_id: companyId },
+    );
+    if (currencyError) {
+      return jsonResponse({ error: `Failed to query billing currency: ${currencyError.message}` }, 500);
+    }
+    const currency = parseInvoiceCurrency(currencyData);
+    let fxRate = 1;
+    const nativeRateByExternal = new Map<string, NativeRateRow>();
+    if (currency !== 'USD') {
+      const [fxResult, ratesResult] = await Promise.all([
+        supabase.rpc('get_billing_fx_rate', { p_currency: currency, p_month: monthStr }),
+        supabase.rpc('get_all_project_rates_for_month', { p_month: monthStr }),
+      ]);
+      if (fxResult.error) {
+        return jsonResponse({ error: `Failed to query exchange rate: ${fxResult.error.message}` }, 500);
+      }
+      if (ratesResult.error) {
+        return jsonResponse({ error: `Failed to query rates: ${ratesResult.error.message}` }, 500);
+      }
+      fxRate = Number(fxResult.data);
+      for (const r of (ratesResult.data as NativeRateRow[]) || []) {
+        nativeRateByExternal.set(r.external_project_id, r);
+      }
+    }
+    const invoiceCurrency: InvoiceCurrencyContext = { currency, fxRate };
+
+    // Closed months invoice the frozen lock (mig-134), not live figures that a
+    // late sync may have moved. Same column shapes — only the table changes.
+    const { data: monthClosed, error: closedError } = await supabase.rpc(
+      'is_billing_month_closed',
+      { p_month: monthStr },
+    );
+    if (closedError) {
+      console.error('Month status query failed:', closedError.message);
+      return jsonResponse({ error: `Failed to query month status: ${closedError.message}` }, 500);
+    }
+    const summarySource = monthClosed ? 'billing_month_locked_summary' : 'v_canonical_project_monthly_summary';
+    const taskSource = monthClosed ? 'billing_month_locked_tasks' : 'task_monthly_totals';
+
     // Task rows in the QBO line description are sourced from task_monthly_totals
     // (mig-093/094/101). The rounding-mode hierarchy comes from
     // get_all_project_roundings_for_month (mig-093), the same source used by
@@ -481,7 +493,7 @@ serve(async (req) => {
       // per mig-050). rounded_minutes is the source-of-truth aggregate that
       // task description rows must sum to.
       supabase
-        .from('v_canonical_project_monthly_summary')
+        .from(summarySource)
         .select(`
           project_id,
           company_id,
@@ -492,6 +504,8 @@ serve(async (req) => {
           rate_used,
           rounding_used,
           milestone_override_cents,
+          manual_adjustment_hours,
+          manual_adjustment_cents,
           projects!inner (project_name, project_id)
         `)
         .eq('summary_month', monthStr)
@@ -548,11 +562,33 @@ serve(async (req) => {
       companyCanonicalProjectIds.push(row.project_id);
     }
 
+    // Reasons of manual billing adjustments (mig-152), joined into the
+    // description of each project's adjustment line.
+    const adjustmentReasonsByProject = new Map<string, string[]>();
+    if (companyCanonicalProjectIds.length > 0) {
+      const { data: adjustmentData, error: adjustmentError } = await supabase
+        .from('billing_adjustments')
+        .select('project_id, reason')
+        .eq('adjustment_month', monthStr)
+        .in('project_id', companyCanonicalProjectIds)
+        .order('created_at');
+
+      if (adjustmentError) {
+        console.error('billing_adjustments query failed:', adjustmentError.message);
+        return jsonResponse({ error: `Failed to query billing adjustments: ${adjustmentError.message}` }, 500);
+      }
+      for (const adj of (adjustmentData as AdjustmentReasonRow[]) || []) {
+        const reasons = adjustmentReasonsByProject.get(adj.project_id) ?? [];
+        reasons.push(adj.reason);
+        adjustmentReasonsByProject.set(adj.project_id, reasons);
+      }
+    }
+
     // Fetch task_monthly_totals for the canonical projects in this month.
     let taskTotalsRows: TaskMonthlyTotalRow[] = [];
     if (companyCanonicalProjectIds.length > 0) {
       const tmtQuery = supabase
-        .from('task_monthly_totals')
+        .from(taskSource)
         .select('project_id, task_name, client_id, rounded_entry_minutes, rounded_task_minutes')
         .eq('summary_month', monthStr)
         .in('project_id', companyCanonicalProjectIds);
@@ -742,24 +778,47 @@ serve(async (req) => {
     //    The line Amount/Qty/UnitPrice are unchanged (mig-094 contract — they
     //    are derived from project_monthly_summary). Only the task breakdown
     //    INSIDE the description is now sourced from task_monthly_totals.
+    //    A manual adjustment (mig-152) on an hourly project is split out: the
+    //    hours line shows the pre-adjustment hours and a separate line carries
+    //    the write-down or write-up, so the two still sum to billed revenue.
     for (const row of summaryRows) {
-      const billedRevenueCents = Number(row.billed_revenue_cents);
       const billedHours = Number(row.billed_hours);
       const summaryRoundedMinutes = Number(row.rounded_minutes);
-      const rate = Number(row.rate_used);
       const projectName = row.projects.project_name;
       const externalId = row.projects.project_id;
       const canonicalProjectId = row.project_id;
 
+      // Amounts in the invoice currency (mig-153); unchanged for USD
+      const nativeRate = nativeRateByExternal.get(externalId);
+      const converted = convertHourlyAmounts({
+        billedHours,
+        adjustmentHours: Number(row.manual_adjustment_hours),
+        usdRate: Number(row.rate_used),
+        nativeRate: nativeRate ? Number(nativeRate.native_rate) : Number(row.rate_used),
+        rateCurrency: parseInvoiceCurrency(nativeRate?.rate_currency),
+        billedRevenueCents: Number(row.billed_revenue_cents),
+        adjustmentCents: Number(row.manual_adjustment_cents),
+      }, invoiceCurrency);
+      const billedRevenueCents = converted.billedRevenueCents;
+      const rate = converted.rate;
+
       // Check for milestone override — if present, use milestone amount instead
-      const milestoneCents = milestoneByExternalProjectId.get(externalId);
+      const milestoneUsdCents = milestoneByExternalProjectId.get(externalId);
+      const milestoneCents = milestoneUsdCents !== undefined
+        ? toInvoiceCents(milestoneUsdCents, invoiceCurrency)
+        : undefined;
       const effectiveRevenueCents = milestoneCents !== undefined
         ? milestoneCents
         : billedRevenueCents;
 
       if (effectiveRevenueCents <= 0) continue;
 
-      const amount = roundCurrency(effectiveRevenueCents / 100);
+      const adjustmentCents = milestoneCents === undefined ? converted.adjustmentCents : 0;
+      const adjustmentHours = milestoneCents === undefined ? Number(row.manual_adjustment_hours) : 0;
+      const lineRevenueCents = effectiveRevenueCents - adjustmentCents;
+      const lineHours = Math.round((billedHours - adjustmentHours) * 100) / 100;
+
+      const amount = roundCurrency(lineRevenueCents / 100);
 
       // For milestone overrides, show the milestone amount with the project name
       // For standard billing, show hours and rate
@@ -823,8 +882,8 @@ serve(async (req) => {
         qty = 1;
         unitPrice = amount;
       } else {
-        header = `${projectName} - ${monthLabel} - ${billedHours} hrs @ $${rate}/hr`;
-        qty = billedHours;
+        header = `${projectName} - ${monthLabel} - ${lineHours} hrs @ ${currencySymbol(currency)}${rate}/hr`;
+        qty = lineHours;
         unitPrice = rate;
       }
 
@@ -839,16 +898,34 @@ serve(async (req) => {
 
       const itemRefId = milestoneCents !== undefined ? fixedBidId : timeAndMaterialsId;
 
-      lineItems.push({
-        DetailType: 'SalesItemLineDetail',
-        Amount: amount,
-        Description: description,
-        SalesItemLineDetail: {
-          ItemRef: { value: itemRefId },
-          Qty: qty,
-          UnitPrice: unitPrice,
-        },
-      });
+      if (lineRevenueCents > 0) {
+        lineItems.push({
+          DetailType: 'SalesItemLineDetail',
+          Amount: amount,
+          Description: description,
+          SalesItemLineDetail: {
+            ItemRef: { value: itemRefId },
+            Qty: qty,
+            UnitPrice: unitPrice,
+          },
+        });
+      }
+
+      if (adjustmentCents !== 0) {
+        const adjustmentAmount = roundCurrency(adjustmentCents / 100);
+        const reasons = adjustmentReasonsByProject.get(canonicalProjectId);
+        const reasonText = reasons && reasons.length > 0 ? ` (${reasons.join('; ')})` : '';
+        lineItems.push({
+          DetailType: 'SalesItemLineDetail',
+          Amount: adjustmentAmount,
+          Description: `${projectName} - ${monthLabel} - Adjustment${reasonText}`.slice(0, 4000),
+          SalesItemLineDetail: {
+            ItemRef: { value: timeAndMaterialsId },
+            Qty: 1,
+            UnitPrice: adjustmentAmount,
+          },
+        });
+      }
 
       totalAmountCents += effectiveRevenueCents;
     }
@@ -860,10 +937,11 @@ serve(async (req) => {
       // Only include billings for this company (compare by UUID, not text client_id)
       if (billing.companyId !== companyId) continue;
 
-      if (billing.totalCents <= 0) continue;
+      const billingCents = toInvoiceCents(billing.totalCents, invoiceCurrency);
+      if (billingCents <= 0) continue;
 
       const typeLabel = TRANSACTION_TYPE_LABELS[billing.type] || billing.type;
-      const amount = roundCurrency(billing.totalCents / 100);
+      const amount = roundCurrency(billingCents / 100);
 
       lineItems.push({
         DetailType: 'SalesItemLineDetail',
@@ -876,7 +954,7 @@ serve(async (req) => {
         },
       });
 
-      totalAmountCents += billing.totalCents;
+      totalAmountCents += billingCents;
     }
 
     if (lineItems.length === 0) {
@@ -918,6 +996,13 @@ serve(async (req) => {
       Line: lineItems,
     };
 
+    // Non-USD invoices (mig-153): QBO needs multicurrency enabled and a
+    // customer in the same currency; ExchangeRate is home currency per unit.
+    if (currency !== 'USD') {
+      invoicePayload.CurrencyRef = { value: currency };
+      invoicePayload.ExchangeRate = fxRate;
+    }
+
     // Attach payment terms if Net 10 was found in QBO
     if (termId) {
       invoicePayload.SalesTermRef = { value: termId };
@@ -993,6 +1078,7 @@ serve(async (req) => {
             qbo_invoice_id: null,
             invoice_number: null,
             total_amount_cents: totalAmountCents,
+            currency,
             line_item_count: lineItems.length,
             status: 'error',
             error_message: errorDetail,
@@ -1035,6 +1121,7 @@ serve(async (req) => {
           qbo_invoice_id: qboInvoiceId,
           invoice_number: invoiceNumber,
           total_amount_cents: totalAmountCents,
+          currency,
           line_item_count: lineItems.length,
           status: 'sent',
           error_message: null,
@@ -1054,6 +1141,7 @@ serve(async (req) => {
       invoiceId: qboInvoiceId,
       invoiceNumber,
       totalAmountCents,
+      currency,
       lineItemCount: lineItems.length,
       companyName,
     });
@@ -0,0 +1,139 @@
+// =============================================================================
+// QuickBooks receivables — invoice balance and payment parsing
+// =============================================================================
+// Turns the QBO Invoice and Payment entities fetched by qbo-sync-receivables
+// into the ar_invoices / ar_payments shape (migration 138):
+//
+//   - parseQboInvoice: Balance, TotalAmt and DueDate in cents / ISO dates,
+//     plus the ids of Payment transactions linked to the invoice.
+//   - paymentAppliedToInvoice: one QBO Payment can settle several invoices;
+//     only the Line amounts linked to this invoice count toward it.
+//   - planPaymentSync: which QBO payments to upsert and which previously
+//     synced ones to delete (voided / unapplied in QuickBooks).
+//
+// QuickBooks stays authoritative for the balance: ar_invoices.qbo_balance_cents
+// is Invoice.Balance, not amount minus the payments we happen to see (credit
+// memos and journal entries reduce Balance without a Payment).
+//
+// Byte-identical copy in supabase/functions/qbo-sync-receivables/_lib.
+// =============================================================================
+
+export interface QboLinkedTxn {
+  TxnId?: string;
+  TxnType?: string;
+}
+
+export interface QboInvoiceEntity {
+  Id?: string;
+  DocNumber?: string;
+  TxnDate?: string;
+  DueDate?: string;
+  TotalAmt?: number;
+  Balance?: number;
+  LinkedTxn?: QboLinkedTxn[];
+}
+
+export interface QboPaymentEntity {
+  Id?: string;
+  TxnDate?: string;
+  TotalAmt?: number;
+  PaymentRefNum?: string;
+  Line?: Array<{ Amount?: number; LinkedTxn?: QboLinkedTxn[] }>;
+}
+
+export interface ParsedQboInvoice {
+  qboInvoiceId: string;
+  docNumber: string | null;
+  dueOn: string | null;
+  totalCents: number;
+  balanceCents: number;
+  paymentIds: string[];
+}
+
+export interface ArPaymentInput {
+  qboPaymentId: string;
+  amountCents: number;
+  paidOn: string;
+  reference: string | null;
+}
+
+export interface PaymentSyncPlan {
+  upserts: ArPaymentInput[];
+  deleteQboPaymentIds: string[];
+}
+
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Dollars (QBO decimal amounts) to integer cents. */
+export function toCents(amount: number | undefined | null): number {
+  if (typeof amount !== 'number' || !Number.isFinite(amount)) return 0;
+  return Math.round(amount * 100);
+}
+
+function isoDateOrNull(value: string | undefined): string | null {
+  return value && ISO_DATE_RE.test(value) ? value : null;
+}
+
+export function parseQboInvoice(invoice: QboInvoiceEntity): ParsedQboInvoice {
+  if (!invoice.Id) {
+    throw new Error('QBO invoice response has no Id');
+  }
+  if (typeof invoice.Balance !== 'number') {
+    throw new Error(`QBO invoice ${invoice.Id} has no Balance`);
+  }
+
+  const paymentIds = new Set<string>();
+  for (const linked of invoice.LinkedTxn ?? []) {
+    if (linked.TxnType === 'Payment' && linked.TxnId) paymentIds.add(linked.TxnId);
+  }
+
+  return {
+    qboInvoiceId: invoice.Id,
+    docNumber: invoice.DocNumber ?? null,
+    dueOn: isoDateOrNull(invoice.DueDate),
+    totalCents: toCents(invoice.TotalAmt),
+    balanceCents: toCents(invoice.Balance),
+    paymentIds: [...paymentIds],
+  };
+}
+
+/** Cents of a QBO Payment applied to one invoice (sum of its linked Lines). */
+export function paymentAppliedToInvoice(payment: QboPaymentEntity, qboInvoiceId: string): number {
+  let cents = 0;
+  for (const line of payment.Line ?? []) {
+    const linksInvoice = (line.LinkedTxn ?? []).some(
+      (linked) => linked.TxnType === 'Invoice' && linked.TxnId === qboInvoiceId,
+    );
+    if (linksInvoice) cents += toCents(line.Amount);
+  }
+  return cents;
+}
+
+/**
+ * Reconcile the payments QuickBooks links to an invoice with the QBO payment
+ * ids already stored for it. Payments with nothing applied to this invoice
+ * (or no usable date) are treated as gone.
+ */
+export function planPaymentSync(
+  qboInvoiceId: string,
+  payments: QboPaymentEntity[],
+  storedQboPaymentIds: string[],
+): PaymentSyncPlan {
+  const upserts: ArPaymentInput[] = [];
+  for (const payment of payments) {
+    const paidOn = isoDateOrNull(payment.TxnDate);
+    const amountCents = paymentAppliedToInvoice(payment, qboInvoiceId);
+    if (!payment.Id || !paidOn || amountCents <= 0) continue;
+    upserts.push({
+      qboPaymentId: payment.Id,
+      amountCents,
+      paidOn,
+      reference: payment.PaymentRefNum?.trim() || null,
+    });
+  }
+
+  const kept = new Set(upserts.map((p) => p.qboPaymentId));
+  const deleteQboPaymentIds = storedQboPaymentIds.filter((id) => !kept.has(id));
+
+  return { upserts, deleteQboPaymentIds };
+}
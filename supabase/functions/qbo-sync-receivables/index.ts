@@ -0,0 +1,408 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  parseQboInvoice,
+  planPaymentSync,
+  type QboInvoiceEntity,
+  type QboPaymentEntity,
+} from './_lib/qboReceivables.ts';
+
+// =============================================================================
+// Edge Function: qbo-sync-receivables
+// =============================================================================
+// Pulls invoice balances and payments back from QuickBooks Online into the
+// receivables ledger (ar_invoices / ar_payments, migration 138).
+//
+//   1. sync_ar_invoices() — makes sure every sent qbo_invoice_log row has a
+//      receivable (the table triggers normally do this already).
+//   2. For each QBO receivable that is not paid (or a specific one when
+//      arInvoiceId is given): GET the Invoice, then each linked Payment.
+//   3. Upserts the QBO payments applied to the invoice, deletes ones no longer
+//      linked (voided / unapplied), and stores Balance + DueDate.
+//
+// Per-invoice failures are recorded on ar_invoices.sync_error and do not stop
+// the run. Scheduled daily by pg_cron (migration 138).
+//
+// POST (authenticated admin or service_role)
+//
+// Request body:
+//   { arInvoiceId?: string }
+//
+// Returns JSON:
+//   { success: true, checked, updated, paymentsUpserted, paymentsRemoved, errors: [...] }
+//   { error: string } on failure
+// =============================================================================
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+/** QBO API base URL (sandbox or production). */
+const QBO_API_BASE = Deno.env.get('QBO_API_BASE')
+  || 'https://sandbox-quickbooks.api.intuit.com/v3/company';
+
+/** QBO API minor version for all requests. */
+const QBO_MINOR_VERSION = '73';
+
+// =============================================================================
+// Inline: QBO Token Management (from _shared/qbo-token.ts)
+// Supabase Edge Functions don't resolve _shared imports during remote bundling,
+// so the token utility is inlined here.
+// =============================================================================
+
+const EXPIRY_BUFFER_MS = 5 * 60 * 1000;
+const INTUIT_TOKEN_URL = 'https://oauth.platform.intuit.com/oauth2/v1/tokens/bearer';
+
+async function getValidToken(supabase: SupabaseClient): Promise<{ access_token: string; realm_id: string }> {
+  const { data: tokenRow, error: fetchError } = await supabase
+    .from('qbo_oauth_tokens')
+    .select('*')
+    .limit(1)
+    .single();
+
+  if (fetchError || !tokenRow) {
+    throw new Error('No QuickBooks Online connection found. Please connect via Settings.');
+  }
+
+  const expiresAt = new Date(tokenRow.expires_at).getTime();
+  if (expiresAt - Date.now() > EXPIRY_BUFFER_MS) {
+    return { access_token: tokenRow.access_token, realm_id: tokenRow.realm_id };
+  }
+
+  const clientId = Deno.env.get('QUICKBOOKS_PROD_CLIENTID') || Deno.env.get('QUICKBOOKS_DEV_CLIENTID');
+  const clientSecret = Deno.env.get('QUICKBOOKS_PROD_SECRET') || Deno.env.get('QUICKBOOKS_DEV_SECRET');
+  if (!clientId || !clientSecret) {
+    throw new Error('QBO client credentials are not configured.');
+  }
+
+  const refreshResponse = await fetch(INTUIT_TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${btoa(`${clientId}:${clientSecret}`)}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+    },
+    body: new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: tokenRow.refresh_token,
+    }),
+  });
+
+  if (!refreshResponse.ok) {
+    const errorBody = await refreshResponse.text();
+    console.error('QBO token refresh failed:', refreshResponse.status, errorBody);
+    throw new Error(`QBO token refresh failed (${refreshResponse.status}). The connection may need to be re-established.`);
+  }
+
+  const tokens = await refreshResponse.json();
+  if (!tokens.access_token || !tokens.refresh_token || !tokens.expires_in) {
+    console.error('QBO token refresh returned unexpected shape:', Object.keys(tokens));
+    throw new Error('QBO token refresh returned an invalid response. The connection may need to be re-established.');
+  }
+
+  const newExpiresAt = new Date(Date.now() + tokens.expires_in * 1000).toISOString();
+  const newRefreshExpiresAt = tokens.x_refresh_token_expires_in
+    ? new Date(Date.now() + tokens.x_refresh_token_expires_in * 1000).toISOString()
+    : tokenRow.refresh_expires_at;
+
+  const { error: updateError } = await supabase
+    .from('qbo_oauth_tokens')
+    .update({
+      access_token: tokens.access_token,
+      refresh_token: tokens.refresh_token,
+      token_type: tokens.token_type || 'bearer',
+      expires_at: newExpiresAt,
+      refresh_expires_at: newRefreshExpiresAt,
+    })
+    .eq('id', tokenRow.id);
+
+  if (updateError) {
+    console.error('Failed to persist refreshed QBO tokens:', updateError.message);
+  }
+
+  return { access_token: tokens.access_token, realm_id: tokenRow.realm_id };
+}
+
+// =============================================================================
+// Types
+// =============================================================================
+
+interface ArInvoiceRow {
+  id: string;
+  qbo_invoice_id: string;
+  invoice_number: string | null;
+}
+
+interface SyncErrorEntry {
+  arInvoiceId: string;
+  invoiceNumber: string | null;
+  error: string;
+}
+
+// =============================================================================
+// QBO entity read
+// =============================================================================
+
+async function fetchQboEntity<T>(
+  realmId: string,
+  accessToken: string,
+  entity: 'invoice' | 'payment',
+  id: string,
+): Promise<T> {
+  const url = `${QBO_API_BASE}/${realmId}/${entity}/${encodeURIComponent(id)}?minorversion=${QBO_MINOR_VERSION}`;
+
+  const abort = new AbortController();
+  const timeout = setTimeout(() => abort.abort(), 30_000);
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Accept': 'application/json',
+      },
+      signal: abort.signal,
+    });
+  } catch (fetchErr) {
+    throw new Error(
+      fetchErr instanceof DOMException && fetchErr.name === 'AbortError'
+        ? `QuickBooks ${entity} ${id} read timed out after 30 seconds`
+        : `QuickBooks ${entity} ${id} read failed: ${fetchErr instanceof Error ? fetchErr.message : String(fetchErr)}`,
+    );
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if (!response.ok) {
+    const errorBody = await response.text();
+    console.error(`QBO ${entity} read failed:`, response.status, errorBody);
+    throw new Error(
+      response.status === 401
+        ? 'QuickBooks connection has expired. Please reconnect.'
+        : `QuickBooks ${entity} ${id} read failed (${response.status})`,
+    );
+  }
+
+  const body = await response.json() as Record<string, unknown>;
+  const key = entity === 'invoice' ? 'Invoice' : 'Payment';
+  if (!body[key]) {
+    throw new Error(`QuickBooks ${entity} ${id} returned an unexpected response format`);
+  }
+  return body[key] as T;
+}
+
+// =============================================================================
+// Per-invoice sync
+// =============================================================================
+
+async function syncInvoice(
+  supabase: SupabaseClient,
+  realmId: string,
+  accessToken: string,
+  row: ArInvoiceRow,
+): Promise<{ upserted: number; removed: number }> {
+  const invoice = parseQboInvoice(
+    await fetchQboEntity<QboInvoiceEntity>(realmId, accessToken, 'invoice', row.qbo_invoice_id),
+  );
+
+  // Sequential — keeps well inside QBO's per-realm rate limit
+  const payments: QboPaymentEntity[] = [];
+  for (const paymentId of invoice.paymentIds) {
+    payments.push(await fetchQboEntity<QboPaymentEntity>(realmId, accessToken, 'payment', paymentId));
+  }
+
+  const { data: stored, error: storedError } = await supabase
+    .from('ar_payments')
+    .select('qbo_payment_id')
+    .eq('ar_invoice_id', row.id)
+    .eq('source', 'qbo');
+  if (storedError) throw new Error(`Stored payments: ${storedError.message}`);
+
+  const plan = planPaymentSync(
+    invoice.qboInvoiceId,
+    payments,
+    (stored ?? []).map((p: { qbo_payment_id: string }) => p.qbo_payment_id),
+  );
+
+  if (plan.upserts.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('ar_payments')
+      .upsert(
+        plan.upserts.map((p) => ({
+          ar_invoice_id: row.id,
+          amount_cents: p.amountCents,
+          paid_on: p.paidOn,
+          source: 'qbo',
+          qbo_payment_id: p.qboPaymentId,
+          reference: p.reference,
+        })),
+        { onConflict: 'ar_invoice_id,qbo_payment_id' },
+      );
+    if (upsertError) throw new Error(`Payment upsert: ${upsertError.message}`);
+  }
+
+  if (plan.deleteQboPaymentIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('ar_payments')
+      .delete()
+      .eq('ar_invoice_id', row.id)
+      .in('qbo_payment_id', plan.deleteQboPaymentIds);
+    if (deleteError) throw new Error(`Payment cleanup: ${deleteError.message}`);
+  }
+
+  // Balance last: the payment rollup trigger has already run, and the
+  // balance trigger prefers qbo_balance_cents over amount - paid.
+  const { error: updateError } = await supabase
+    .from('ar_invoices')
+    .update({
+      qbo_balance_cents: invoice.balanceCents,
+      amount_cents: invoice.totalCents,
+      ...(invoice.dueOn ? { due_on: invoice.dueOn } : {}),
+      qbo_synced_at: new Date().toISOString(),
+      sync_error: null,
+    })
+    .eq('id', row.id);
+  if (updateError) throw new Error(`Receivable update: ${updateError.message}`);
+
+  return { upserted: plan.upserts.length, removed: plan.deleteQboPaymentIds.length };
+}
+
+// =============================================================================
+// Main handler
+// =============================================================================
+
+serve(async (req) => {
+  // --- CORS preflight ---
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    // --- Authenticate caller (admin user or service_role) ---
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+    const token = authHeader.replace('Bearer ', '');
+
+    let isServiceRole = false;
+    try {
+      const payloadB64 = token.split('.')[1];
+      if (payloadB64) {
+        const payload = JSON.parse(atob(payloadB64));
+        if (payload.role === 'service_role') {
+          isServiceRole = true;
+        }
+      }
+    } catch {
+      // Not a valid JWT — fall through to user auth
+    }
+
+    if (!isServiceRole) {
+      const supabaseAuth = createClient(supabaseUrl, supabaseAnonKey, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: { user }, error: authError } = await supabaseAuth.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+      }
+
+      const { data: isAdmin, error: adminCheckError } = await supabaseAuth.rpc('is_admin');
+      if (adminCheckError || !isAdmin) {
+        return jsonResponse({ error: 'Forbidden: admin access required' }, 403);
+      }
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // --- Parse request body (cron sends {}) ---
+    let arInvoiceId: string | undefined;
+    try {
+      const body = await req.json() as { arInvoiceId?: unknown };
+      if (body.arInvoiceId !== undefined) {
+        const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+        if (typeof body.arInvoiceId !== 'string' || !UUID_RE.test(body.arInvoiceId)) {
+          return jsonResponse({ error: 'arInvoiceId must be a valid UUID' }, 400);
+        }
+        arInvoiceId = body.arInvoiceId;
+      }
+    } catch {
+      // Empty body — sync everything open
+    }
+
+    // --- Make sure every sent QBO invoice has a receivable ---
+    const { error: syncError } = await supabase.rpc('sync_ar_invoices');
+    if (syncError) {
+      return jsonResponse({ error: `Failed to sync receivables: ${syncError.message}` }, 500);
+    }
+
+    let query = supabase
+      .from('ar_invoices')
+      .select('id, qbo_invoice_id, invoice_number')
+      .eq('source', 'qbo')
+      .not('qbo_invoice_id', 'is', null)
+      .order('due_on', { ascending: true });
+    query = arInvoiceId ? query.eq('id', arInvoiceId) : query.neq('status', 'paid');
+
+    const { data: rows, error: rowsError } = await query;
+    if (rowsError) {
+      return jsonResponse({ error: `Failed to load receivables: ${rowsError.message}` }, 500);
+    }
+
+    const invoices = (rows ?? []) as ArInvoiceRow[];
+    if (invoices.length === 0) {
+      return jsonResponse({ success: true, checked: 0, updated: 0, paymentsUpserted: 0, paymentsRemoved: 0, errors: [] });
+    }
+
+    const { access_token, realm_id } = await getValidToken(supabase);
+
+    let updated = 0;
+    let paymentsUpserted = 0;
+    let paymentsRemoved = 0;
+    const errors: SyncErrorEntry[] = [];
+
+    for (const row of invoices) {
+      try {
+        const result = await syncInvoice(supabase, realm_id, access_token, row);
+        updated++;
+        paymentsUpserted += result.upserted;
+        paymentsRemoved += result.removed;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error('qbo-sync-receivables invoice failed', { arInvoiceId: row.id, error: message });
+        errors.push({ arInvoiceId: row.id, invoiceNumber: row.invoice_number, error: message });
+        await supabase.from('ar_invoices').update({ sync_error: message }).eq('id', row.id);
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      checked: invoices.length,
+      updated,
+      paymentsUpserted,
+      paymentsRemoved,
+      errors,
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error('qbo-sync-receivables failed:', message);
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -0,0 +1,89 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { parseSendGridEvents } from './_lib/reportDelivery.ts';
+
+// =============================================================================
+// Edge Function: report-delivery-events
+// =============================================================================
+// SendGrid Event Webhook receiver for report emails sent by deliver-reports
+// (migration 141). Bounce, dropped and blocked events mark the matching
+// report_deliveries row as 'bounced' with the provider's reason. Rows are
+// matched by the delivery_id custom arg, falling back to the X-Message-Id
+// prefix of sg_message_id. Bounced deliveries are not retried.
+//
+// Auth: SendGrid cannot send a Supabase JWT, so the webhook URL carries a
+// shared secret — configure the Event Webhook as
+//   https://<project>.supabase.co/functions/v1/report-delivery-events?token=<REPORT_DELIVERY_WEBHOOK_TOKEN>
+// (Verify JWT must be OFF for this function.)
+//
+// Returns JSON:
+//   { success: true, received, bounced }
+//   { error: string } on failure
+// =============================================================================
+
+function jsonResponse(body: Record<string, unknown>, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+serve(async (req) => {
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const expectedToken = Deno.env.get('REPORT_DELIVERY_WEBHOOK_TOKEN');
+  const token = new URL(req.url).searchParams.get('token');
+  if (!expectedToken || token !== expectedToken) {
+    return jsonResponse({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    let payload: unknown;
+    try {
+      payload = await req.json();
+    } catch {
+      return jsonResponse({ error: 'Invalid JSON body' }, 400);
+    }
+
+    const events = parseSendGridEvents(payload);
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL')!,
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!,
+    );
+
+    let bounced = 0;
+    for (const event of events) {
+      const update = {
+        status: 'bounced',
+        bounced_at: event.occurredAt,
+        last_error: event.reason,
+        next_retry_at: null,
+      };
+      const query = supabase.from('report_deliveries').update(update);
+      const { data, error } = await (event.deliveryId
+        ? query.eq('id', event.deliveryId)
+        : query.eq('provider_message_id', event.providerMessageId!)
+      ).select('id');
+
+      if (error) {
+        console.error(`[report-delivery-events] Update failed: ${error.message}`);
+        continue;
+      }
+      bounced += data?.length ?? 0;
+    }
+
+    return jsonResponse({
+      success: true,
+      received: Array.isArray(payload) ? payload.length : 0,
+      bounced,
+    });
+  } catch (error) {
+    console.error('report-delivery-events error:', error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'An unexpected error occurred' },
+      500,
+    );
+  }
+});
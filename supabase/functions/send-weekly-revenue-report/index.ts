@@ -17,6 +17,11 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 // the weekly-reports bucket and a row is upserted into weekly_reports with
 // sent_at/sent_to set to null.
 //
+// Companies with active weekly recipients in report_recipients (migration 141)
+// are always generate-only here: the automated run includes them even without
+// opted-in projects, and deliver-reports emails their recipients instead of
+// the project managers.
+//
 // Auth: service-role JWT only (same as customer-revenue-report)
 // =============================================================================
 
@@ -247,6 +252,15 @@ serve(async (req) => {
     // --- Service-role client ---
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // Companies delivered by deliver-reports (report_recipients, migration 141)
+    const { data: recipientRows, error: recipientError } = await supabase
+      .from('report_recipients')
+      .select('company_id')
+      .eq('report_type', 'weekly')
+      .eq('is_active', true);
+    if (recipientError) throw recipientError;
+    const deliveredCompanyIds = new Set((recipientRows || []).map((r) => r.company_id as string));
+
     // =========================================================================
     // STEP 1: Find all report-enabled projects, grouped by company
     // =========================================================================
@@ -271,8 +285,10 @@ serve(async (req) => {
       // Manual resend: send for ALL projects in this company (ignore the flag)
       projectQuery = projectQuery.eq('company_id', manualCompanyId);
     } else {
-      // Automated cron: only projects opted in
-      projectQuery = projectQuery.eq('send_weekly_report', true);
+      // Automated cron: projects opted in, plus companies with report recipients
+      projectQuery = deliveredCompanyIds.size > 0
+        ? projectQuery.or(`send_weekly_report.eq.true,company_id.in.(${[...deliveredCompanyIds].join(',')})`)
+        : projectQuery.eq('send_weekly_report', true);
     }
 
     const { data: reportProjects, error: projectError } = await projectQuery;
@@ -500,8 +516,9 @@ serve(async (req) => {
     for (const [companyUUID, companyGroup] of companyMap) {
       try {
         // --- Check for PM emails ---
+        const companyGenerateOnly = generateOnly || deliveredCompanyIds.has(companyUUID);
         const pmInfo = pmEmailsByCompany.get(companyUUID);
-        if (!generateOnly && (!pmInfo || pmInfo.emails.length === 0)) {
+        if (!companyGenerateOnly && (!pmInfo || pmInfo.emails.length === 0)) {
           console.warn(
             `[send-weekly-revenue-report] No PM emails for company "${companyGroup.companyDisplayName}" — skipping`,
           );
@@ -661,7 +678,7 @@ serve(async (req) => {
         let emailSent = false;
         const recipients = pmInfo?.emails ?? [];
 
-        if (!generateOnly) {
+        if (!companyGenerateOnly) {
           // --- Build email body ---
           const emailBody = [
             `Good morning ${pmInfo!.firstName},`,
@@ -0,0 +1,148 @@
+// =============================================================================
+// Time-source sync — shared pure types
+// =============================================================================
+// Framework-free. Shared BY COPY with the sync-clockify-timesheets,
+// sync-clickup-timesheets and import-manual-timesheets edge functions
+// (supabase/functions/*/_lib). Keep the copies byte-identical. Nothing here
+// imports React, Supabase, or any runtime — safe in browser, Deno, and Node.
+//
+// A time source (Clockify, ClickUp, manual import, ...) plugs into the shared sync pipeline
+// by implementing TimeSourceAdapter: fetch raw entries for a range, normalize
+// them into timesheet_daily_rollups rows, and list the source's users,
+// projects and clients. Everything after the fetch — batch upsert, stale
+// cleanup, rounding/Layer 2/task-monthly population, reconciliation, queue
+// drain, sync_alerts and sync_runs — lives once in pipeline.ts.
+// =============================================================================
+
+/** Time tracking systems with a sync adapter. Mirrors the time_sources table. */
+export type TimeSourceId = 'clockify' | 'clickup' | 'manual';
+
+export const TIME_SOURCE_IDS: readonly TimeSourceId[] = ['clockify', 'clickup', 'manual'];
+
+/** Inclusive sync window. ISO timestamps for the source APIs, dates for RPCs. */
+export interface SyncRange {
+  startISO: string;
+  endISO: string;
+  /** 'YYYY-MM-DD' — RPCs take DATE, not TIMESTAMPTZ */
+  startDate: string;
+  endDate: string;
+  /** True when the caller supplied rangeStartDate/rangeEndDate */
+  isManual: boolean;
+}
+
+/** One fetch failure. Clockify reports the page, ClickUp the step. */
+export interface SourceFetchError {
+  type: string;
+  message: string;
+  page?: number;
+  step?: string;
+}
+
+export interface SourceFetchResult<TRaw> {
+  entries: TRaw[];
+  /** False when any part of the range may be missing — cleanup and drain are skipped */
+  complete: boolean;
+  errors: SourceFetchError[];
+  /** Source-specific counters merged into the `fetch` block of the summary */
+  stats: Record<string, unknown>;
+  /** Extra metadata for the *_sync_incomplete / *_zero_entries alerts */
+  alertMetadata: Record<string, unknown>;
+}
+
+/** A timesheet_daily_rollups row before the sync-run columns are stamped on. */
+export interface SourceRollupRow {
+  task_id: string;
+  work_date: string;
+  project_id: string | null;
+  project_name: string;
+  user_id: string | null;
+  user_name: string;
+  task_name: string;
+  client_id: string | null;
+  client_name: string | null;
+  total_minutes: number;
+}
+
+export interface RollupRow extends SourceRollupRow {
+  /** Workspace (Clockify) or team (ClickUp) id — column name predates ClickUp */
+  clockify_workspace_id: string;
+  synced_at: string;
+  sync_run_id: string;
+  sync_run_at: string;
+}
+
+export interface SourceNormalizeResult {
+  rows: SourceRollupRow[];
+  /** Skip counters keyed as they appear in the `transform` summary block */
+  skipped: Record<string, number>;
+  /**
+   * Raw minutes per source user id, summed over every entry with a positive
+   * duration — including entries dropped from `rows` — so the hours-mismatch
+   * alert flags entries that never made it into Manifest.
+   */
+  userTotals: Record<string, { minutes: number; name: string }>;
+}
+
+export interface SourceUser {
+  id: string;
+  name: string;
+  email: string | null;
+}
+
+export interface SourceProject {
+  id: string;
+  name: string;
+  clientId: string | null;
+}
+
+export interface SourceClient {
+  id: string;
+  name: string;
+}
+
+/** Entity the workspace-level alerts are raised against. */
+export interface SourceAlertEntity {
+  type: string;
+  name: string;
+}
+
+export interface TimeSourceAdapter<TRaw = Record<string, unknown>> {
+  id: TimeSourceId;
+  /** Display name used in alert titles, e.g. 'Clockify' */
+  label: string;
+  /** Value stored in clockify_workspace_id and passed as p_workspace_id */
+  workspaceId: string;
+  /** sync_runs.sync_type */
+  syncType: string;
+  /**
+   * True when a complete fetch is the full truth for the range, so rows not
+   * seen in this run are stale and deleted (cleanup) and per-user totals must
+   * match Manifest (hours mismatch). False for additive sources such as a
+   * manual import, which only ever covers part of the range.
+   */
+  replacesRange: boolean;
+  alertEntity: SourceAlertEntity;
+  fetchEntries(range: SyncRange): Promise<SourceFetchResult<TRaw>>;
+  normalize(entries: TRaw[]): SourceNormalizeResult;
+  listUsers(): Promise<SourceUser[]>;
+  listProjects(): Promise<SourceProject[]>;
+  listClients(): Promise<SourceClient[]>;
+}
+
+/** Injectable fetch so adapters can be pointed at a local fake server. */
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+// -----------------------------------------------------------------------------
+// Minimal structural view of the Supabase client used by the pipeline. Keeps
+// this module free of supabase-js imports (esm.sh in Deno, npm in Node). The
+// query builder is left untyped — supabase-js's generic builder chain is too
+// deep to match structurally (same trade-off as lib/fetchAllRows.ts).
+// -----------------------------------------------------------------------------
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type QueryBuilder = any;
+
+export interface SyncDbClient {
+  from(table: string): QueryBuilder;
+  rpc(fn: string, args: Record<string, unknown>): PromiseLike<{ data: unknown; error: { message: string } | null }>;
+}
@@ -91,9 +91,9 @@ serve(async (req) => {
       return jsonResponse({ error: 'Unauthorized' }, 401);
     }
 
-    const { data: isAdmin, error: adminCheckError } = await supabaseAuth.rpc('is_admin');
-    if (adminCheckError || !isAdmin) {
-      return jsonResponse({ error: 'Forbidden: admin access required' }, 403);
+    const { data: canManage, error: roleCheckError } = await supabaseAuth.rpc('can_manage_expenses');
+    if (roleCheckError || !canManage) {
+      return jsonResponse({ error: 'Forbidden: admin or finance access required' }, 403);
     }
 
     // --- Service-role client for reads + writes ---
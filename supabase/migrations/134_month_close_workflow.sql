@@ -0,0 +1,731 @@
+-- ============================================================================
+-- Migration 134: Month-close workflow on billing_month_status
+-- ============================================================================
+-- Purpose: billing_month_status (migration 028) has existed since the billing
+-- rules landed but nothing ever wrote to it, so an invoiced month could still
+-- be restated by a late Clockify/ClickUp sync or a rate edit. This migration
+-- turns it into a real close/reopen workflow:
+--
+--   1. billing_month_locked_summary — a frozen copy of the canonical
+--      project_monthly_summary rows for a closed month (same column shape, so
+--      EOM / QBO readers can swap the source table without remapping).
+--   2. billing_month_locked_tasks — the frozen task breakdown that ties back to
+--      locked_summary.rounded_minutes (task_monthly_totals keeps moving with
+--      syncs; the lock must not).
+--   3. is_billing_month_closed(date) — month-level gate used everywhere.
+--   4. Guard triggers on the month-keyed config tables (rates, rounding,
+--      limits, active status) and billing_transactions: edits that land in a
+--      closed month are REJECTED with a clear error.
+--   5. recalculate_project_month() / drain_recalculation_queue() skip closed
+--      months. Sync-driven recalculation items stay PENDING in the queue (i.e.
+--      they are queued, not lost) and are drained when the month is reopened.
+--   6. close_billing_month(date) / reopen_billing_month(date, text) admin RPCs.
+--      Reopen requires a reason; both actions are written to billing_audit_log.
+--   7. get_billing_month_close_status(date) — month-level status for the UI.
+--
+-- Month vs. project grain: billing_month_status stays project-grain (one row
+-- per canonical project, as designed in 028) so the per-project snapshot
+-- columns (total_hours_worked / total_billed_hours / carryover_generated) are
+-- populated. A MONTH is closed when any of its rows has status = 'closed';
+-- close/reopen always move every row for the month together.
+--
+-- Mirrors existing precedent:
+--   - migration 120 (SECURITY DEFINER admin RPCs re-asserting is_admin())
+--   - migration 062 (admin-only writes on billing_month_status)
+--   - migration 056 (drain wrapper for the authenticated frontend)
+--   - migration 116 (recalculate_project_month thin shell — body kept verbatim
+--     below apart from the closed-month guard)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- DROP ... IF EXISTS).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: Locked snapshot tables
+-- ============================================================================
+
+-- Same columns as project_monthly_summary (migration 044 + 047), plus lock
+-- metadata. LIKE does not copy foreign keys; they are re-declared so PostgREST
+-- embeds (projects!inner / companies!inner) keep working for EOM / QBO reads.
+CREATE TABLE IF NOT EXISTS billing_month_locked_summary (
+    LIKE project_monthly_summary INCLUDING DEFAULTS,
+    locked_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    locked_by   UUID REFERENCES auth.users(id)
+);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'pk_billing_month_locked_summary') THEN
+        ALTER TABLE billing_month_locked_summary
+            ADD CONSTRAINT pk_billing_month_locked_summary PRIMARY KEY (id);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'uq_billing_month_locked_summary') THEN
+        ALTER TABLE billing_month_locked_summary
+            ADD CONSTRAINT uq_billing_month_locked_summary UNIQUE (project_id, summary_month);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fk_locked_summary_project') THEN
+        ALTER TABLE billing_month_locked_summary
+            ADD CONSTRAINT fk_locked_summary_project
+            FOREIGN KEY (project_id) REFERENCES projects(id) ON DELETE CASCADE;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'fk_locked_summary_company') THEN
+        ALTER TABLE billing_month_locked_summary
+            ADD CONSTRAINT fk_locked_summary_company
+            FOREIGN KEY (company_id) REFERENCES companies(id);
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_locked_summary_company_month
+    ON billing_month_locked_summary (company_id, summary_month);
+
+COMMENT ON TABLE billing_month_locked_summary IS
+    'Frozen canonical project_monthly_summary rows for closed billing months. '
+    'Written by close_billing_month(), removed by reopen_billing_month(). '
+    'EOM reports and QBO invoices read this instead of v_canonical_project_monthly_summary '
+    'when is_billing_month_closed() is true.';
+
+-- Column names match task_monthly_totals so readers only swap the table name.
+-- Both rounded_* columns carry the MODE-RESOLVED minutes at lock time, so the
+-- figure is frozen regardless of any later change to the inherited rounding mode.
+CREATE TABLE IF NOT EXISTS billing_month_locked_tasks (
+    id                      UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    summary_month           DATE NOT NULL,
+    project_id              UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    task_name               TEXT,
+    client_id               TEXT,
+    rounded_entry_minutes   INTEGER NOT NULL DEFAULT 0,
+    rounded_task_minutes    INTEGER NOT NULL DEFAULT 0,
+    locked_at               TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT chk_locked_tasks_month_first CHECK (EXTRACT(DAY FROM summary_month) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS idx_locked_tasks_project_month
+    ON billing_month_locked_tasks (project_id, summary_month);
+
+COMMENT ON TABLE billing_month_locked_tasks IS
+    'Frozen task breakdown for closed billing months. Sum of rounded minutes per '
+    'project equals billing_month_locked_summary.rounded_minutes.';
+
+ALTER TABLE billing_month_locked_summary ENABLE ROW LEVEL SECURITY;
+ALTER TABLE billing_month_locked_tasks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read locked summary" ON billing_month_locked_summary;
+CREATE POLICY "Allow authenticated read locked summary"
+    ON billing_month_locked_summary FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Allow service role full access locked summary" ON billing_month_locked_summary;
+CREATE POLICY "Allow service role full access locked summary"
+    ON billing_month_locked_summary FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow authenticated read locked tasks" ON billing_month_locked_tasks;
+CREATE POLICY "Allow authenticated read locked tasks"
+    ON billing_month_locked_tasks FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Allow service role full access locked tasks" ON billing_month_locked_tasks;
+CREATE POLICY "Allow service role full access locked tasks"
+    ON billing_month_locked_tasks FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Writes go exclusively through the SECURITY DEFINER RPCs below.
+GRANT SELECT ON billing_month_locked_summary TO authenticated;
+GRANT SELECT ON billing_month_locked_tasks TO authenticated;
+GRANT ALL ON billing_month_locked_summary TO service_role;
+GRANT ALL ON billing_month_locked_tasks TO service_role;
+REVOKE ALL ON billing_month_locked_summary FROM anon;
+REVOKE ALL ON billing_month_locked_tasks FROM anon;
+
+-- ============================================================================
+-- STEP 2: Audit reasons for close / reopen
+-- ============================================================================
+-- The 028 CHECK is an unnamed column constraint; Postgres names it
+-- billing_audit_log_adjustment_reason_check.
+
+ALTER TABLE billing_audit_log
+    DROP CONSTRAINT IF EXISTS billing_audit_log_adjustment_reason_check;
+ALTER TABLE billing_audit_log
+    ADD CONSTRAINT billing_audit_log_adjustment_reason_check
+    CHECK (adjustment_reason IS NULL OR adjustment_reason IN (
+        'rate_change', 'time_correction', 'carryover_adjustment',
+        'minimum_override', 'maximum_override', 'write_off',
+        'client_dispute', 'system_recalculation', 'manual_correction',
+        'month_close', 'month_reopen'
+    ));
+
+-- ============================================================================
+-- STEP 3: Month-level gate
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION is_billing_month_closed(p_month DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM billing_month_status
+        WHERE billing_month = DATE_TRUNC('month', p_month)::DATE
+          AND status = 'closed'
+    );
+$$;
+
+COMMENT ON FUNCTION is_billing_month_closed(DATE) IS
+    'True when the billing month has been closed via close_billing_month(). '
+    'Closed months reject config edits and defer recalculation.';
+
+REVOKE ALL ON FUNCTION is_billing_month_closed(DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION is_billing_month_closed(DATE) FROM anon;
+GRANT EXECUTE ON FUNCTION is_billing_month_closed(DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_billing_month_closed(DATE) TO service_role;
+
+-- ============================================================================
+-- STEP 4: Reject edits that land in a closed month
+-- ============================================================================
+-- TG_ARGV[0] is the month column of the guarded table. On UPDATE both the old
+-- and new month are checked so a row cannot be moved into or out of a closed
+-- month.
+
+CREATE OR REPLACE FUNCTION reject_closed_billing_month_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_column TEXT := TG_ARGV[0];
+    v_old_month DATE;
+    v_new_month DATE;
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE') THEN
+        v_old_month := (to_jsonb(OLD) ->> v_column)::DATE;
+    END IF;
+    IF TG_OP IN ('INSERT', 'UPDATE') THEN
+        v_new_month := (to_jsonb(NEW) ->> v_column)::DATE;
+    END IF;
+
+    IF (v_old_month IS NOT NULL AND is_billing_month_closed(v_old_month))
+       OR (v_new_month IS NOT NULL AND is_billing_month_closed(v_new_month)) THEN
+        RAISE EXCEPTION 'Billing month % is closed. Reopen the month before changing %.',
+            TO_CHAR(COALESCE(v_new_month, v_old_month), 'YYYY-MM'), TG_TABLE_NAME
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF TG_OP = 'DELETE' THEN
+        RETURN OLD;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_closed_month_monthly_rates ON project_monthly_rates;
+CREATE TRIGGER trg_closed_month_monthly_rates
+    BEFORE INSERT OR UPDATE OR DELETE ON project_monthly_rates
+    FOR EACH ROW EXECUTE FUNCTION reject_closed_billing_month_edit('rate_month');
+
+DROP TRIGGER IF EXISTS trg_closed_month_monthly_rounding ON project_monthly_rounding;
+CREATE TRIGGER trg_closed_month_monthly_rounding
+    BEFORE INSERT OR UPDATE OR DELETE ON project_monthly_rounding
+    FOR EACH ROW EXECUTE FUNCTION reject_closed_billing_month_edit('rounding_month');
+
+DROP TRIGGER IF EXISTS trg_closed_month_billing_limits ON project_monthly_billing_limits;
+CREATE TRIGGER trg_closed_month_billing_limits
+    BEFORE INSERT OR UPDATE OR DELETE ON project_monthly_billing_limits
+    FOR EACH ROW EXECUTE FUNCTION reject_closed_billing_month_edit('limits_month');
+
+DROP TRIGGER IF EXISTS trg_closed_month_active_status ON project_monthly_active_status;
+CREATE TRIGGER trg_closed_month_active_status
+    BEFORE INSERT OR UPDATE OR DELETE ON project_monthly_active_status
+    FOR EACH ROW EXECUTE FUNCTION reject_closed_billing_month_edit('status_month');
+
+DROP TRIGGER IF EXISTS trg_closed_month_billing_transactions ON billing_transactions;
+CREATE TRIGGER trg_closed_month_billing_transactions
+    BEFORE INSERT OR UPDATE OR DELETE ON billing_transactions
+    FOR EACH ROW EXECUTE FUNCTION reject_closed_billing_month_edit('transaction_month');
+
+-- ============================================================================
+-- STEP 5: Defer recalculation of closed months
+-- ============================================================================
+-- recalculate_project_month: migration 116 body, verbatim, with a closed-month
+-- early return so a direct recalculate_month() call cannot restate a closed
+-- month either.
+
+CREATE OR REPLACE FUNCTION recalculate_project_month(
+    p_project_id UUID,      -- Internal projects.id (canonical/primary)
+    p_month DATE
+)
+RETURNS VOID AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+    v_company_id UUID;
+    v_external_project_id TEXT;
+
+    -- Pure rule output
+    v project_month_revenue;
+
+    -- Company-grain invoiced (migration 095 STEP 7) — stays in the write engine
+    v_invoiced_revenue_cents BIGINT := 0;
+BEGIN
+    -- Closed months are frozen (migration 134). The queue item stays pending
+    -- (drain_recalculation_queue skips closed months) and runs on reopen.
+    IF is_billing_month_closed(v_month) THEN
+        RAISE NOTICE 'Billing month % is closed; recalculation of project % deferred',
+            v_month, p_project_id;
+        RETURN;
+    END IF;
+
+    SELECT p.project_id, p.company_id
+    INTO v_external_project_id, v_company_id
+    FROM projects p WHERE p.id = p_project_id;
+
+    IF v_external_project_id IS NULL THEN
+        RAISE WARNING 'Project % not found', p_project_id;
+        RETURN;
+    END IF;
+
+    IF v_company_id IS NULL THEN
+        RAISE WARNING 'Project % has NULL company_id', p_project_id;
+        RETURN;
+    END IF;
+
+    SELECT * INTO v FROM resolve_project_month_revenue(p_project_id, v_month);
+
+    IF v IS NULL THEN
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(SUM(bt.amount_cents), 0)
+    INTO v_invoiced_revenue_cents
+    FROM billing_transactions bt
+    JOIN billings b ON b.id = bt.billing_id
+    WHERE b.company_id = v_company_id
+        AND bt.transaction_month = v_month;
+
+    INSERT INTO project_monthly_summary (
+        summary_month, project_id, company_id,
+        actual_minutes, rounded_minutes, actual_hours, rounded_hours,
+        carryover_in_hours, adjusted_hours, billed_hours,
+        unbillable_hours, carryover_out_hours, minimum_padding_hours,
+        minimum_applied, maximum_applied, has_billing_limits, is_active_used,
+        base_revenue_cents, billed_revenue_cents, invoiced_revenue_cents,
+        rate_used, rate_source, rounding_used,
+        minimum_hours_config, maximum_hours_config, carryover_enabled_config,
+        resource_count, task_count, source_entry_count,
+        calculated_at, calculation_version
+    ) VALUES (
+        v_month, p_project_id, v_company_id,
+        v.actual_minutes, v.rounded_minutes, v.actual_hours, v.rounded_hours,
+        v.carryover_in_hours, v.adjusted_hours, v.billed_hours,
+        v.unbillable_hours, v.carryover_out_hours, v.minimum_padding_hours,
+        v.minimum_applied, v.maximum_applied, v.has_billing_limits, v.is_active_used,
+        v.base_revenue_cents, v.billed_revenue_cents, v_invoiced_revenue_cents,
+        v.rate_used, v.rate_source, v.rounding_used,
+        v.minimum_hours_config, v.maximum_hours_config, v.carryover_enabled_config,
+        v.resource_count, v.task_count, v.source_entry_count,
+        NOW(), 'v2.1-tmt-canonical'
+    )
+    ON CONFLICT (project_id, summary_month) DO UPDATE SET
+        company_id = EXCLUDED.company_id,
+        actual_minutes = EXCLUDED.actual_minutes,
+        rounded_minutes = EXCLUDED.rounded_minutes,
+        actual_hours = EXCLUDED.actual_hours,
+        rounded_hours = EXCLUDED.rounded_hours,
+        carryover_in_hours = EXCLUDED.carryover_in_hours,
+        adjusted_hours = EXCLUDED.adjusted_hours,
+        billed_hours = EXCLUDED.billed_hours,
+        unbillable_hours = EXCLUDED.unbillable_hours,
+        carryover_out_hours = EXCLUDED.carryover_out_hours,
+        minimum_padding_hours = EXCLUDED.minimum_padding_hours,
+        minimum_applied = EXCLUDED.minimum_applied,
+        maximum_applied = EXCLUDED.maximum_applied,
+        has_billing_limits = EXCLUDED.has_billing_limits,
+        is_active_used = EXCLUDED.is_active_used,
+        base_revenue_cents = EXCLUDED.base_revenue_cents,
+        billed_revenue_cents = EXCLUDED.billed_revenue_cents,
+        invoiced_revenue_cents = EXCLUDED.invoiced_revenue_cents,
+        rate_used = EXCLUDED.rate_used,
+        rate_source = EXCLUDED.rate_source,
+        rounding_used = EXCLUDED.rounding_used,
+        minimum_hours_config = EXCLUDED.minimum_hours_config,
+        maximum_hours_config = EXCLUDED.maximum_hours_config,
+        carryover_enabled_config = EXCLUDED.carryover_enabled_config,
+        resource_count = EXCLUDED.resource_count,
+        task_count = EXCLUDED.task_count,
+        source_entry_count = EXCLUDED.source_entry_count,
+        calculated_at = NOW(),
+        calculation_version = EXCLUDED.calculation_version;
+
+    DECLARE
+        v_old_carryover_out NUMERIC(10,2);
+        v_next_month DATE := (v_month + INTERVAL '1 month')::DATE;
+    BEGIN
+        SELECT COALESCE(SUM(pch.carryover_hours), 0)
+        INTO v_old_carryover_out
+        FROM project_carryover_hours pch
+        WHERE pch.project_id = p_project_id
+            AND pch.source_month = v_month;
+
+        IF v.carryover_out_hours IS DISTINCT FROM v_old_carryover_out THEN
+            IF v.carryover_enabled_config AND v.carryover_out_hours > 0 THEN
+                INSERT INTO project_carryover_hours (
+                    project_id, carryover_month, source_month,
+                    carryover_hours, actual_hours_worked, maximum_applied
+                ) VALUES (
+                    p_project_id, v_next_month, v_month,
+                    v.carryover_out_hours, v.rounded_hours, v.maximum_hours_config
+                )
+                ON CONFLICT (project_id, carryover_month, source_month) DO UPDATE SET
+                    carryover_hours = EXCLUDED.carryover_hours,
+                    actual_hours_worked = EXCLUDED.actual_hours_worked,
+                    maximum_applied = EXCLUDED.maximum_applied,
+                    calculated_at = NOW();
+
+                INSERT INTO recalculation_queue (project_id, queue_month, reason)
+                VALUES (p_project_id, v_next_month, 'cascade')
+                ON CONFLICT (project_id, queue_month) WHERE processed_at IS NULL
+                DO NOTHING;
+
+            ELSIF v_old_carryover_out > 0 THEN
+                DELETE FROM project_carryover_hours
+                WHERE project_id = p_project_id
+                    AND source_month = v_month
+                    AND carryover_month = v_next_month;
+
+                INSERT INTO recalculation_queue (project_id, queue_month, reason)
+                VALUES (p_project_id, v_next_month, 'cascade')
+                ON CONFLICT (project_id, queue_month) WHERE processed_at IS NULL
+                DO NOTHING;
+            END IF;
+        END IF;
+    END;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION recalculate_project_month(UUID, DATE) IS
+    'Recalculate billing summary for a single canonical project in a given month. '
+    'v2.1-tmt-canonical (migration 116 thin shell). Migration 134: no-op for closed '
+    'billing months (see is_billing_month_closed). Idempotent.';
+
+-- drain_recalculation_queue: migration 044 body with closed months excluded
+-- from the pick. Their items stay pending until reopen_billing_month drains.
+CREATE OR REPLACE FUNCTION drain_recalculation_queue(p_max_depth INTEGER DEFAULT 12)
+RETURNS INTEGER AS $$
+DECLARE
+    v_item RECORD;
+    v_processed INTEGER := 0;
+    v_cascade_depth INTEGER := 0;
+BEGIN
+    LOOP
+        SELECT rq.id, rq.project_id, rq.queue_month, rq.reason
+        INTO v_item
+        FROM recalculation_queue rq
+        WHERE rq.processed_at IS NULL
+          AND NOT is_billing_month_closed(rq.queue_month)
+        ORDER BY rq.queue_month ASC, rq.queued_at ASC
+        LIMIT 1;
+
+        EXIT WHEN v_item IS NULL;
+
+        IF v_item.reason = 'cascade' THEN
+            v_cascade_depth := v_cascade_depth + 1;
+            IF v_cascade_depth > p_max_depth THEN
+                RAISE WARNING 'Cascade depth limit reached (%) for project %',
+                    p_max_depth, v_item.project_id;
+                EXIT;
+            END IF;
+        ELSE
+            v_cascade_depth := 0;
+        END IF;
+
+        PERFORM recalculate_project_month(v_item.project_id, v_item.queue_month);
+
+        UPDATE recalculation_queue
+        SET processed_at = NOW()
+        WHERE project_id = v_item.project_id
+            AND queue_month = v_item.queue_month
+            AND processed_at IS NULL;
+
+        v_processed := v_processed + 1;
+    END LOOP;
+
+    RETURN v_processed;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION drain_recalculation_queue(INTEGER) IS
+    'Process all pending items in the recalculation queue. Called by n8n after sync. '
+    'p_max_depth limits cascade depth to prevent runaway chains. Migration 134: items '
+    'for closed billing months are left pending until the month is reopened.';
+
+-- ============================================================================
+-- STEP 6: close_billing_month / reopen_billing_month
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION close_billing_month(p_month DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+    v_count INTEGER := 0;
+    v_row RECORD;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF v_month >= DATE_TRUNC('month', CURRENT_DATE)::DATE THEN
+        RAISE EXCEPTION 'Cannot close % — only past months can be closed.', TO_CHAR(v_month, 'YYYY-MM')
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF is_billing_month_closed(v_month) THEN
+        RAISE EXCEPTION 'Billing month % is already closed.', TO_CHAR(v_month, 'YYYY-MM')
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Bring the month current before freezing it: anything a sync or config
+    -- edit queued must be reflected in what we lock.
+    PERFORM drain_recalculation_queue();
+
+    -- Frozen revenue (canonical rows only — member rows would double count).
+    DELETE FROM billing_month_locked_summary WHERE summary_month = v_month;
+    INSERT INTO billing_month_locked_summary
+    SELECT vc.*, NOW(), auth.uid()
+    FROM v_canonical_project_monthly_summary vc
+    WHERE vc.summary_month = v_month;
+
+    -- Frozen task breakdown, mode-resolved with the same hierarchy the engine
+    -- used (get_all_project_roundings_for_month, migration 093).
+    DELETE FROM billing_month_locked_tasks WHERE summary_month = v_month;
+    INSERT INTO billing_month_locked_tasks (
+        summary_month, project_id, task_name, client_id,
+        rounded_entry_minutes, rounded_task_minutes
+    )
+    SELECT
+        tmt.summary_month, tmt.project_id, tmt.task_name, tmt.client_id,
+        CASE WHEN r.effective_rounding_mode = 'entry' THEN tmt.rounded_entry_minutes ELSE tmt.rounded_task_minutes END,
+        CASE WHEN r.effective_rounding_mode = 'entry' THEN tmt.rounded_entry_minutes ELSE tmt.rounded_task_minutes END
+    FROM task_monthly_totals tmt
+    JOIN billing_month_locked_summary ls
+      ON ls.project_id = tmt.project_id AND ls.summary_month = tmt.summary_month
+    LEFT JOIN get_all_project_roundings_for_month(v_month) r
+      ON r.project_id = tmt.project_id
+    WHERE tmt.summary_month = v_month;
+
+    -- Project-grain status rows with the 028 snapshot columns populated.
+    FOR v_row IN
+        SELECT ls.project_id, ls.actual_hours, ls.billed_hours, ls.carryover_out_hours, ls.billed_revenue_cents
+        FROM billing_month_locked_summary ls
+        WHERE ls.summary_month = v_month
+    LOOP
+        INSERT INTO billing_month_status (
+            project_id, billing_month, status,
+            total_hours_worked, total_billed_hours, carryover_generated,
+            closed_at, closed_by
+        ) VALUES (
+            v_row.project_id, v_month, 'closed',
+            v_row.actual_hours, v_row.billed_hours, v_row.carryover_out_hours,
+            NOW(), auth.uid()
+        )
+        ON CONFLICT (project_id, billing_month) DO UPDATE SET
+            status = 'closed',
+            total_hours_worked = EXCLUDED.total_hours_worked,
+            total_billed_hours = EXCLUDED.total_billed_hours,
+            carryover_generated = EXCLUDED.carryover_generated,
+            closed_at = EXCLUDED.closed_at,
+            closed_by = EXCLUDED.closed_by;
+
+        INSERT INTO billing_audit_log (
+            table_name, record_id, action, new_data,
+            billing_month, project_id, hours_impact, revenue_impact,
+            changed_by, adjustment_reason
+        )
+        SELECT
+            'billing_month_status', bms.id, 'UPDATE', to_jsonb(bms),
+            v_month, v_row.project_id, v_row.billed_hours,
+            ROUND(v_row.billed_revenue_cents / 100.0, 2),
+            auth.uid(), 'month_close'
+        FROM billing_month_status bms
+        WHERE bms.project_id = v_row.project_id AND bms.billing_month = v_month;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    IF v_count = 0 THEN
+        RAISE EXCEPTION 'Billing month % has no revenue rows to close.', TO_CHAR(v_month, 'YYYY-MM')
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION close_billing_month(DATE) IS
+    'Admin: drain pending recalculation, freeze the canonical project-month revenue and '
+    'task breakdown into billing_month_locked_*, and mark every project row closed. '
+    'Returns the number of projects locked.';
+
+REVOKE ALL ON FUNCTION close_billing_month(DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION close_billing_month(DATE) FROM anon;
+GRANT EXECUTE ON FUNCTION close_billing_month(DATE) TO authenticated;
+
+CREATE OR REPLACE FUNCTION reopen_billing_month(p_month DATE, p_reason TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+    v_reason TEXT := NULLIF(BTRIM(p_reason), '');
+    v_count INTEGER := 0;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF v_reason IS NULL THEN
+        RAISE EXCEPTION 'A reason is required to reopen a billing month.'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF NOT is_billing_month_closed(v_month) THEN
+        RAISE EXCEPTION 'Billing month % is not closed.', TO_CHAR(v_month, 'YYYY-MM')
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Audit first so old_data captures the frozen figures being released.
+    INSERT INTO billing_audit_log (
+        table_name, record_id, action, old_data, new_data,
+        billing_month, project_id, hours_impact, revenue_impact,
+        changed_by, adjustment_reason
+    )
+    SELECT
+        'billing_month_status', bms.id, 'UPDATE',
+        to_jsonb(bms) || jsonb_build_object(
+            'locked_billed_hours', ls.billed_hours,
+            'locked_billed_revenue_cents', ls.billed_revenue_cents
+        ),
+        jsonb_build_object('status', 'reopened', 'reopen_reason', v_reason),
+        v_month, bms.project_id, ls.billed_hours,
+        ROUND(ls.billed_revenue_cents / 100.0, 2),
+        auth.uid(), 'month_reopen'
+    FROM billing_month_status bms
+    LEFT JOIN billing_month_locked_summary ls
+      ON ls.project_id = bms.project_id AND ls.summary_month = bms.billing_month
+    WHERE bms.billing_month = v_month
+      AND bms.status = 'closed';
+
+    UPDATE billing_month_status
+    SET status = 'reopened',
+        reopened_at = NOW(),
+        reopened_by = auth.uid(),
+        reopen_reason = v_reason
+    WHERE billing_month = v_month
+      AND status = 'closed';
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+
+    DELETE FROM billing_month_locked_summary WHERE summary_month = v_month;
+    DELETE FROM billing_month_locked_tasks WHERE summary_month = v_month;
+
+    -- Run whatever was queued while the month was closed.
+    PERFORM drain_recalculation_queue();
+
+    RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION reopen_billing_month(DATE, TEXT) IS
+    'Admin: reopen a closed billing month (reason required). Logs each project row to '
+    'billing_audit_log with the released locked figures, drops the lock, and drains the '
+    'recalculation items that were deferred while closed.';
+
+REVOKE ALL ON FUNCTION reopen_billing_month(DATE, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION reopen_billing_month(DATE, TEXT) FROM anon;
+GRANT EXECUTE ON FUNCTION reopen_billing_month(DATE, TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 7: Month-level status for the UI
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_billing_month_close_status(p_month DATE)
+RETURNS TABLE (
+    billing_month DATE,
+    status TEXT,
+    project_count INTEGER,
+    locked_revenue_cents BIGINT,
+    pending_recalc_count INTEGER,
+    closed_at TIMESTAMPTZ,
+    closed_by_email TEXT,
+    reopened_at TIMESTAMPTZ,
+    reopened_by_email TEXT,
+    reopen_reason TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+BEGIN
+    RETURN QUERY
+    WITH month_rows AS (
+        SELECT bms.* FROM billing_month_status bms WHERE bms.billing_month = v_month
+    ),
+    latest AS (
+        SELECT
+            MAX(r.closed_at) AS closed_at,
+            MAX(r.reopened_at) AS reopened_at
+        FROM month_rows r
+    )
+    SELECT
+        v_month,
+        CASE
+            WHEN EXISTS (SELECT 1 FROM month_rows mr WHERE mr.status = 'closed') THEN 'closed'
+            WHEN EXISTS (SELECT 1 FROM month_rows mr WHERE mr.status = 'reopened') THEN 'reopened'
+            ELSE 'open'
+        END,
+        (SELECT COUNT(*)::INTEGER FROM month_rows),
+        (SELECT COALESCE(SUM(ls.billed_revenue_cents), 0)::BIGINT
+           FROM billing_month_locked_summary ls WHERE ls.summary_month = v_month),
+        (SELECT COUNT(*)::INTEGER FROM recalculation_queue rq
+           WHERE rq.queue_month = v_month AND rq.processed_at IS NULL),
+        l.closed_at,
+        (SELECT u.email::TEXT FROM month_rows r JOIN auth.users u ON u.id = r.closed_by
+           WHERE r.closed_at = l.closed_at LIMIT 1),
+        l.reopened_at,
+        (SELECT u.email::TEXT FROM month_rows r JOIN auth.users u ON u.id = r.reopened_by
+           WHERE r.reopened_at = l.reopened_at LIMIT 1),
+        (SELECT r.reopen_reason FROM month_rows r
+           WHERE r.reopened_at = l.reopened_at LIMIT 1)
+    FROM latest l;
+END;
+$$;
+
+COMMENT ON FUNCTION get_billing_month_close_status(DATE) IS
+    'Month-level close status (closed|reopened|open) with lock totals, deferred queue '
+    'count, and the most recent close/reopen actors for the Rates and Revenue pages.';
+
+REVOKE ALL ON FUNCTION get_billing_month_close_status(DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_billing_month_close_status(DATE) FROM anon;
+GRANT EXECUTE ON FUNCTION get_billing_month_close_status(DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_billing_month_close_status(DATE) TO service_role;
+
+-- ============================================================================
+-- Verification
+-- ============================================================================
+DO $$
+BEGIN
+    RAISE NOTICE 'Migration 134 Complete:';
+    RAISE NOTICE '  - billing_month_locked_summary / billing_month_locked_tasks created';
+    RAISE NOTICE '  - Closed-month guard on rates, rounding, limits, active status, billing_transactions';
+    RAISE NOTICE '  - recalculate_project_month / drain_recalculation_queue defer closed months';
+    RAISE NOTICE '  - close_billing_month / reopen_billing_month / get_billing_month_close_status RPCs';
+END $$;
+
+COMMIT;
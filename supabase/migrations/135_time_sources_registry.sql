@@ -0,0 +1,142 @@
+-- ============================================================================
+-- Migration 135: Time Sources Registry
+-- ============================================================================
+-- Purpose: The Clockify and ClickUp sync edge functions now share one pipeline
+-- (src/lib/timeSync, copied into each function's _lib) with a per-source
+-- adapter. The remaining hard-coded source list is the inline
+-- CHECK (source IN ('clockify', 'clickup')) on resource_user_associations
+-- (migration 014). This migration replaces it with a registry table so a new
+-- time source (Harvest, Toggl, ...) is a row insert plus an adapter, not a
+-- constraint rewrite:
+--   1. time_sources — one row per time source: display name, the edge
+--      function that syncs it, and the sync_runs.sync_type it writes.
+--   2. resource_user_associations.source — CHECK replaced by an FK to
+--      time_sources(id). Existing values are exactly the seeded ids.
+--
+-- Mirrors existing precedent:
+--   - migration 125 (is_admin() write RLS, authenticated SELECT,
+--     ENABLE + FORCE RLS, anon revoked, service_role GRANT ALL).
+--   - sync_runs.sync_type values written by the sync functions
+--     ('clockify_timesheets', 'clickup_timesheets').
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via the
+-- Supabase Management API. Fully idempotent (IF NOT EXISTS / guarded constraint /
+-- ON CONFLICT DO NOTHING).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: time_sources table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.time_sources (
+    id              TEXT PRIMARY KEY CHECK (id ~ '^[a-z][a-z0-9_]*$'),
+    display_name    TEXT NOT NULL,
+    sync_function   TEXT,                  -- edge function name; NULL = no automated sync
+    sync_type       TEXT,                  -- sync_runs.sync_type written by that function
+    is_active       BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE public.time_sources IS
+    'Registry of time tracking systems synced into timesheet_daily_rollups. '
+    'Ids match TimeSourceId in src/lib/timeSync/types.ts and the alert_type '
+    'prefix ({id}_sync_incomplete, {id}_hours_mismatch, ...) in sync_alerts.';
+
+DROP TRIGGER IF EXISTS set_time_sources_updated_at ON public.time_sources;
+CREATE TRIGGER set_time_sources_updated_at
+    BEFORE UPDATE ON public.time_sources
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO public.time_sources (id, display_name, sync_function, sync_type) VALUES
+    ('clockify', 'Clockify', 'sync-clockify-timesheets', 'clockify_timesheets'),
+    ('clickup',  'ClickUp',  'sync-clickup-timesheets',  'clickup_timesheets')
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- STEP 2: RLS
+-- ============================================================================
+
+ALTER TABLE public.time_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.time_sources FORCE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read time_sources" ON public.time_sources;
+CREATE POLICY "Authenticated users can read time_sources"
+    ON public.time_sources FOR SELECT TO authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Admins can insert time_sources" ON public.time_sources;
+CREATE POLICY "Admins can insert time_sources"
+    ON public.time_sources FOR INSERT TO authenticated
+    WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Admins can update time_sources" ON public.time_sources;
+CREATE POLICY "Admins can update time_sources"
+    ON public.time_sources FOR UPDATE TO authenticated
+    USING (is_admin()) WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Service role full access to time_sources" ON public.time_sources;
+CREATE POLICY "Service role full access to time_sources"
+    ON public.time_sources FOR ALL TO service_role
+    USING (true) WITH CHECK (true);
+
+REVOKE ALL ON public.time_sources FROM anon;
+GRANT SELECT, INSERT, UPDATE ON public.time_sources TO authenticated;
+GRANT ALL ON public.time_sources TO service_role;
+
+-- ============================================================================
+-- STEP 3: resource_user_associations.source — CHECK -> FK
+-- ============================================================================
+
+ALTER TABLE public.resource_user_associations
+    DROP CONSTRAINT IF EXISTS resource_user_associations_source_check;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'resource_user_associations_source_fkey'
+    ) THEN
+        ALTER TABLE public.resource_user_associations
+            ADD CONSTRAINT resource_user_associations_source_fkey
+            FOREIGN KEY (source) REFERENCES public.time_sources(id);
+    END IF;
+END $$;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+DECLARE
+    v_sources  INTEGER;
+    v_fk       INTEGER;
+    v_check    INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO v_sources FROM public.time_sources;
+    SELECT COUNT(*) INTO v_fk FROM pg_constraint
+    WHERE conname = 'resource_user_associations_source_fkey';
+    SELECT COUNT(*) INTO v_check FROM pg_constraint
+    WHERE conname = 'resource_user_associations_source_check';
+
+    RAISE NOTICE 'Migration 135 Complete:';
+    RAISE NOTICE '  - time_sources seeded: % (expected 2)', v_sources;
+    RAISE NOTICE '  - resource_user_associations source FK present: % (expected 1)', v_fk;
+    RAISE NOTICE '  - legacy source CHECK remaining: % (expected 0)', v_check;
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- BEGIN;
+--   ALTER TABLE public.resource_user_associations
+--       DROP CONSTRAINT IF EXISTS resource_user_associations_source_fkey;
+--   ALTER TABLE public.resource_user_associations
+--       ADD CONSTRAINT resource_user_associations_source_check
+--       CHECK (source IN ('clockify', 'clickup'));
+--   DROP TABLE IF EXISTS public.time_sources;
+-- COMMIT;
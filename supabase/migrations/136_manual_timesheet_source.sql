@@ -0,0 +1,61 @@
+-- ============================================================================
+-- Migration 136: Manual Timesheet Import Source
+-- ============================================================================
+-- Purpose: Time worked outside Clockify/ClickUp (contractors, offline work,
+-- corrections) can now be uploaded as CSV/XLSX/JSON through the
+-- import-manual-timesheets edge function. Imported rows go into
+-- timesheet_daily_rollups like any synced entry, so they flow through
+-- rounding, Layer 2, task_monthly_totals and billing unchanged:
+--   - clockify_workspace_id = 'manual'
+--   - task_id = 'manual-' + sha256(user_id|project_id|task|work_date) — the
+--     dedupe key; re-importing the same row upserts instead of doubling it
+--   - user_id / project_id are always EXISTING ids (resolved through
+--     resource_user_associations and v_project_canonical), so the
+--     auto-create resource/project triggers never mint new entities
+--   - sync_runs.sync_type = 'manual_timesheets'
+--
+-- This migration only registers the source. No new tables: the rollup,
+-- sync_runs and sync_alerts columns already hold free-text workspace ids,
+-- sync types and alert types.
+--
+-- Mirrors existing precedent:
+--   - migration 135 (time_sources seed rows, ON CONFLICT DO NOTHING).
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via the
+-- Supabase Management API. Fully idempotent (ON CONFLICT DO NOTHING).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: Register the manual source
+-- ============================================================================
+
+INSERT INTO public.time_sources (id, display_name, sync_function, sync_type) VALUES
+    ('manual', 'Manual Import', 'import-manual-timesheets', 'manual_timesheets')
+ON CONFLICT (id) DO NOTHING;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+DECLARE
+    v_manual INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO v_manual FROM public.time_sources WHERE id = 'manual';
+
+    RAISE NOTICE 'Migration 136 Complete:';
+    RAISE NOTICE '  - manual time source registered: % (expected 1)', v_manual;
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- Imported rows must be removed first (their resources/projects stay):
+-- BEGIN;
+--   DELETE FROM public.timesheet_daily_rollups WHERE clockify_workspace_id = 'manual';
+--   DELETE FROM public.time_sources WHERE id = 'manual';
+-- COMMIT;
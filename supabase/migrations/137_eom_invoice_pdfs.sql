@@ -0,0 +1,305 @@
+-- ============================================================================
+-- Migration 137: Client-facing invoice PDFs for EOM reports
+-- ============================================================================
+-- Purpose: generate-eom-report now renders a branded PDF invoice next to each
+-- company-month CSV (same canonical summary, fixed billings and task
+-- breakdown the QBO invoice uses). Clients without QuickBooks can be sent the
+-- PDF directly from the Reports page.
+--
+-- Changes:
+--   1. invoice_settings — single-row issuer branding: name, address, tax id,
+--      contact email, payment details, footer note, brand color, number
+--      prefix and payment terms. Admin-editable from the Reports page.
+--   2. invoice_number_counters — per-year sequence for invoice numbers.
+--   3. eom_reports invoice columns (number, PDF storage path/size, issue and
+--      due dates).
+--   4. allocate_eom_invoice_number(report_id) — assigns the next number the
+--      FIRST time a report gets an invoice and returns the stored values on
+--      every later call, so regenerating a report re-renders the PDF under
+--      the same number and dates. Numbers are PREFIX-YYYY-NNNN by issue year.
+--   5. eom-reports bucket accepts application/pdf.
+--   6. v_eom_report_availability exposes the invoice columns (appended, so
+--      CREATE OR REPLACE keeps existing columns and grants).
+--
+-- Mirrors existing precedent:
+--   - migration 067 (eom_reports RLS: authenticated read, service_role write)
+--   - migration 073 (v_eom_report_availability body kept verbatim)
+--   - migration 120 (SECURITY DEFINER RPCs with explicit EXECUTE grants)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- ON CONFLICT DO NOTHING).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: invoice_settings (single row)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS invoice_settings (
+    id                  BOOLEAN PRIMARY KEY DEFAULT TRUE,
+    issuer_name         TEXT NOT NULL DEFAULT '',
+    issuer_address      TEXT,                                   -- multi-line
+    issuer_tax_id       TEXT,
+    issuer_email        TEXT,
+    payment_details     TEXT,                                   -- multi-line (bank, IBAN, SWIFT)
+    footer_note         TEXT,
+    brand_color         TEXT NOT NULL DEFAULT '#111111',
+    invoice_prefix      TEXT NOT NULL DEFAULT 'INV',
+    payment_terms_days  INTEGER NOT NULL DEFAULT 30,
+    updated_at          TIMESTAMPTZ DEFAULT NOW(),
+    updated_by          UUID REFERENCES auth.users(id),
+
+    CONSTRAINT chk_invoice_settings_single_row CHECK (id),
+    CONSTRAINT chk_invoice_settings_brand_color CHECK (brand_color ~ '^#[0-9A-Fa-f]{6}$'),
+    CONSTRAINT chk_invoice_settings_prefix CHECK (invoice_prefix ~ '^[A-Za-z0-9]{1,10}$'),
+    CONSTRAINT chk_invoice_settings_terms CHECK (payment_terms_days BETWEEN 0 AND 365)
+);
+
+COMMENT ON TABLE invoice_settings IS
+    'Issuer branding and numbering for EOM invoice PDFs. Exactly one row (id = true).';
+
+INSERT INTO invoice_settings (id) VALUES (TRUE)
+ON CONFLICT (id) DO NOTHING;
+
+DROP TRIGGER IF EXISTS trg_invoice_settings_updated_at ON invoice_settings;
+CREATE TRIGGER trg_invoice_settings_updated_at
+    BEFORE UPDATE ON invoice_settings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE invoice_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read invoice settings" ON invoice_settings;
+CREATE POLICY "Allow authenticated read invoice settings"
+    ON invoice_settings FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Allow admin update invoice settings" ON invoice_settings;
+CREATE POLICY "Allow admin update invoice settings"
+    ON invoice_settings FOR UPDATE TO authenticated
+    USING (is_admin()) WITH CHECK (is_admin());
+
+DROP POLICY IF EXISTS "Allow service role full access invoice settings" ON invoice_settings;
+CREATE POLICY "Allow service role full access invoice settings"
+    ON invoice_settings FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT SELECT, UPDATE ON invoice_settings TO authenticated;
+GRANT ALL ON invoice_settings TO service_role;
+REVOKE ALL ON invoice_settings FROM anon;
+
+-- ============================================================================
+-- STEP 2: invoice_number_counters
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS invoice_number_counters (
+    invoice_year    INTEGER PRIMARY KEY,
+    last_seq        INTEGER NOT NULL DEFAULT 0,
+    updated_at      TIMESTAMPTZ DEFAULT NOW()
+);
+
+COMMENT ON TABLE invoice_number_counters IS
+    'Last issued invoice sequence per issue year. Written only by allocate_eom_invoice_number().';
+
+ALTER TABLE invoice_number_counters ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read invoice counters" ON invoice_number_counters;
+CREATE POLICY "Allow authenticated read invoice counters"
+    ON invoice_number_counters FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Allow service role full access invoice counters" ON invoice_number_counters;
+CREATE POLICY "Allow service role full access invoice counters"
+    ON invoice_number_counters FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT SELECT ON invoice_number_counters TO authenticated;
+GRANT ALL ON invoice_number_counters TO service_role;
+REVOKE ALL ON invoice_number_counters FROM anon;
+
+-- ============================================================================
+-- STEP 3: eom_reports invoice columns
+-- ============================================================================
+
+ALTER TABLE eom_reports ADD COLUMN IF NOT EXISTS invoice_number TEXT;
+ALTER TABLE eom_reports ADD COLUMN IF NOT EXISTS invoice_issued_on DATE;
+ALTER TABLE eom_reports ADD COLUMN IF NOT EXISTS invoice_due_on DATE;
+ALTER TABLE eom_reports ADD COLUMN IF NOT EXISTS invoice_storage_path TEXT;  -- path in eom-reports bucket
+ALTER TABLE eom_reports ADD COLUMN IF NOT EXISTS invoice_file_size_bytes BIGINT;
+ALTER TABLE eom_reports ADD COLUMN IF NOT EXISTS invoice_generated_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_eom_reports_invoice_number
+    ON eom_reports (invoice_number)
+    WHERE invoice_number IS NOT NULL;
+
+-- ============================================================================
+-- STEP 4: allocate_eom_invoice_number
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION allocate_eom_invoice_number(p_report_id UUID)
+RETURNS TABLE (
+    invoice_number      TEXT,
+    invoice_issued_on   DATE,
+    invoice_due_on      DATE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_report    eom_reports%ROWTYPE;
+    v_settings  invoice_settings%ROWTYPE;
+    v_issued_on DATE := (NOW() AT TIME ZONE 'Europe/Sofia')::DATE;
+    v_year      INTEGER;
+    v_seq       INTEGER;
+    v_number    TEXT;
+BEGIN
+    -- Row lock serializes concurrent generation of the same report
+    SELECT * INTO v_report FROM eom_reports WHERE id = p_report_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'EOM report % not found', p_report_id;
+    END IF;
+
+    IF v_report.invoice_number IS NOT NULL THEN
+        RETURN QUERY SELECT v_report.invoice_number, v_report.invoice_issued_on, v_report.invoice_due_on;
+        RETURN;
+    END IF;
+
+    SELECT * INTO v_settings FROM invoice_settings WHERE id;
+
+    v_year := EXTRACT(YEAR FROM v_issued_on)::INTEGER;
+
+    INSERT INTO invoice_number_counters AS c (invoice_year, last_seq)
+    VALUES (v_year, 1)
+    ON CONFLICT (invoice_year) DO UPDATE
+        SET last_seq = c.last_seq + 1,
+            updated_at = NOW()
+    RETURNING c.last_seq INTO v_seq;
+
+    v_number := COALESCE(v_settings.invoice_prefix, 'INV') || '-' || v_year || '-' || LPAD(v_seq::TEXT, 4, '0');
+
+    UPDATE eom_reports
+    SET invoice_number = v_number,
+        invoice_issued_on = v_issued_on,
+        invoice_due_on = v_issued_on + COALESCE(v_settings.payment_terms_days, 30)
+    WHERE id = p_report_id;
+
+    RETURN QUERY SELECT v_number, v_issued_on, v_issued_on + COALESCE(v_settings.payment_terms_days, 30);
+END;
+$$;
+
+COMMENT ON FUNCTION allocate_eom_invoice_number(UUID) IS
+    'Assigns the next PREFIX-YYYY-NNNN invoice number (and issue/due dates) to an '
+    'EOM report the first time it is called; returns the stored values afterwards.';
+
+REVOKE ALL ON FUNCTION allocate_eom_invoice_number(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION allocate_eom_invoice_number(UUID) FROM anon;
+REVOKE ALL ON FUNCTION allocate_eom_invoice_number(UUID) FROM authenticated;
+GRANT EXECUTE ON FUNCTION allocate_eom_invoice_number(UUID) TO service_role;
+
+-- ============================================================================
+-- STEP 5: Allow PDFs in the eom-reports bucket
+-- ============================================================================
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['text/csv', 'application/csv', 'application/pdf']
+WHERE id = 'eom-reports';
+
+-- ============================================================================
+-- STEP 6: v_eom_report_availability with invoice columns
+-- ============================================================================
+-- Body identical to migration 073; invoice columns appended at the end.
+
+CREATE OR REPLACE VIEW v_eom_report_availability AS
+WITH company_months AS (
+    SELECT DISTINCT cpms.company_id,
+        EXTRACT(year FROM cpms.summary_month)::integer AS report_year,
+        EXTRACT(month FROM cpms.summary_month)::integer AS report_month
+    FROM v_canonical_project_monthly_summary cpms
+    UNION
+    SELECT DISTINCT mfbs.company_id,
+        EXTRACT(year FROM mfbs.summary_month)::integer AS report_year,
+        EXTRACT(month FROM mfbs.summary_month)::integer AS report_month
+    FROM monthly_fixed_billing_summary mfbs
+), eligible AS (
+    SELECT cm.company_id,
+        cm.report_year,
+        cm.report_month,
+        c.client_id,
+        COALESCE(c.display_name, c.client_name) AS company_name
+    FROM company_months cm
+    JOIN companies c ON c.id = cm.company_id
+    WHERE (CURRENT_DATE AT TIME ZONE 'Europe/Sofia')::date >= make_date(
+        CASE WHEN cm.report_month = 12 THEN cm.report_year + 1 ELSE cm.report_year END,
+        CASE WHEN cm.report_month = 12 THEN 1 ELSE cm.report_month + 1 END,
+        1)::date
+)
+SELECT e.company_id,
+    e.client_id,
+    e.company_name,
+    e.report_year,
+    e.report_month,
+    er.id AS report_id,
+    er.generated_at,
+    er.generation_number,
+    er.storage_path,
+    er.file_size_bytes,
+    er.total_hours,
+    er.total_revenue_cents,
+    er.project_count,
+    er.source_data_hash,
+    CASE WHEN er.id IS NOT NULL THEN true ELSE false END AS has_report,
+    er.invoice_number,
+    er.invoice_issued_on,
+    er.invoice_due_on,
+    er.invoice_storage_path,
+    er.invoice_file_size_bytes
+FROM eligible e
+LEFT JOIN eom_reports er
+    ON er.company_id = e.company_id
+    AND er.report_year = e.report_year
+    AND er.report_month = e.report_month
+ORDER BY e.report_year DESC, e.report_month DESC, e.company_name;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+DECLARE
+    v_settings INTEGER;
+    v_columns INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO v_settings FROM invoice_settings;
+    SELECT COUNT(*) INTO v_columns
+    FROM information_schema.columns
+    WHERE table_name = 'eom_reports'
+      AND column_name IN ('invoice_number', 'invoice_issued_on', 'invoice_due_on',
+                          'invoice_storage_path', 'invoice_file_size_bytes', 'invoice_generated_at');
+
+    RAISE NOTICE 'Migration 137 Complete:';
+    RAISE NOTICE '  - invoice_settings rows: % (expected 1)', v_settings;
+    RAISE NOTICE '  - eom_reports invoice columns: % (expected 6)', v_columns;
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- Re-run migration 073 first to restore the previous view columns.
+-- BEGIN;
+--   DROP VIEW IF EXISTS v_eom_report_availability;
+--   -- (re-create from 073)
+--   DROP FUNCTION IF EXISTS allocate_eom_invoice_number(UUID);
+--   DROP INDEX IF EXISTS uq_eom_reports_invoice_number;
+--   ALTER TABLE eom_reports
+--       DROP COLUMN IF EXISTS invoice_number,
+--       DROP COLUMN IF EXISTS invoice_issued_on,
+--       DROP COLUMN IF EXISTS invoice_due_on,
+--       DROP COLUMN IF EXISTS invoice_storage_path,
+--       DROP COLUMN IF EXISTS invoice_file_size_bytes,
+--       DROP COLUMN IF EXISTS invoice_generated_at;
+--   DROP TABLE IF EXISTS invoice_number_counters;
+--   DROP TABLE IF EXISTS invoice_settings;
+--   UPDATE storage.buckets SET allowed_mime_types = ARRAY['text/csv', 'application/csv']
+--   WHERE id = 'eom-reports';
+-- COMMIT;
@@ -0,0 +1,598 @@
+-- ============================================================================
+-- Migration 138: Accounts receivable — payments, balances, aging
+-- ============================================================================
+-- Purpose: qbo_invoice_log (074) records that an invoice was created, and
+-- eom_reports (137) that a PDF invoice was issued, but nothing records whether
+-- either was paid. This migration adds the receivables ledger that closes the
+-- loop between billed revenue and cash:
+--
+--   1. eom_reports.invoice_total_cents — the PDF invoice total (sum of its
+--      lines), written by generate-eom-report.
+--   2. ar_invoices — one receivable per company-month. Source is either
+--        'qbo'     — a SENT qbo_invoice_log row (QuickBooks is authoritative:
+--                    balance, due date and payments come from the
+--                    qbo-sync-receivables edge function), or
+--        'eom_pdf' — an EOM invoice PDF for a company WITHOUT a QBO customer
+--                    mapping (payments are recorded manually).
+--      A QBO invoice sent for a month that already had an unpaid PDF
+--      receivable takes it over.
+--   3. ar_payments — individual payments. QBO payments are keyed by
+--      qbo_payment_id; manual payments carry a reference/note and who
+--      recorded them.
+--   4. Balance/status maintenance: ar_payments changes roll up into
+--      ar_invoices.paid_cents; a BEFORE trigger derives balance_cents
+--      (QBO Balance when synced, else amount - paid) and status
+--      (open / partial / paid).
+--   5. sync_ar_invoices() — set-based upsert from qbo_invoice_log and
+--      eom_reports, run by statement triggers on both tables (so receivables
+--      appear as soon as an invoice is sent or a PDF is generated) and once
+--      below as the backfill.
+--   6. record_ar_payment / mark_ar_invoice_paid / delete_ar_payment — admin
+--      RPCs for manual (non-QBO) payments.
+--   7. v_ar_invoice_status / v_ar_aging — per-invoice days past due and the
+--      per-canonical-company aging report (current / 1-30 / 31-60 / 61-90 /
+--      90+), as of today in Europe/Sofia.
+--   8. Daily cron for qbo-sync-receivables.
+--
+-- Mirrors existing precedent:
+--   - migration 074 (qbo_invoice_log: authenticated read, service_role write)
+--   - migration 134 (SECURITY DEFINER admin RPCs re-asserting is_admin())
+--   - migration 023 (v_company_canonical for per-canonical-company reporting)
+--   - migration 082 (net.http_post cron with the manifest-service-role-key
+--     vault secret)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- DROP ... IF EXISTS; cron.schedule replaces a job of the same name).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: PDF invoice total on eom_reports
+-- ============================================================================
+
+ALTER TABLE eom_reports ADD COLUMN IF NOT EXISTS invoice_total_cents BIGINT;
+
+COMMENT ON COLUMN eom_reports.invoice_total_cents IS
+    'Total of the invoice PDF lines in USD cents (may differ from '
+    'total_revenue_cents when zero or negative lines are omitted).';
+
+-- ============================================================================
+-- STEP 2: ar_invoices
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ar_invoices (
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    company_id          UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    report_year         INTEGER NOT NULL,
+    report_month        INTEGER NOT NULL CHECK (report_month BETWEEN 1 AND 12),
+    source              TEXT NOT NULL CHECK (source IN ('qbo', 'eom_pdf')),
+    qbo_invoice_log_id  UUID REFERENCES qbo_invoice_log(id) ON DELETE SET NULL,
+    eom_report_id       UUID REFERENCES eom_reports(id) ON DELETE SET NULL,
+    qbo_invoice_id      TEXT,
+    invoice_number      TEXT,
+    issued_on           DATE NOT NULL,
+    due_on              DATE NOT NULL,
+    amount_cents        BIGINT NOT NULL,
+    paid_cents          BIGINT NOT NULL DEFAULT 0,
+    qbo_balance_cents   BIGINT,                     -- QBO Invoice.Balance at last sync
+    balance_cents       BIGINT NOT NULL DEFAULT 0,  -- derived (trigger)
+    status              TEXT NOT NULL DEFAULT 'open'
+                        CHECK (status IN ('open', 'partial', 'paid')),
+    last_payment_on     DATE,
+    qbo_synced_at       TIMESTAMPTZ,
+    sync_error          TEXT,
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT uq_ar_invoices_company_month UNIQUE (company_id, report_year, report_month)
+);
+
+COMMENT ON TABLE ar_invoices IS
+    'Receivables: one invoice per company-month from QuickBooks (source=qbo) '
+    'or an EOM invoice PDF for non-QBO clients (source=eom_pdf). Maintained by '
+    'sync_ar_invoices(); balances by ar_payments and qbo-sync-receivables.';
+
+COMMENT ON COLUMN ar_invoices.balance_cents IS
+    'Open balance: qbo_balance_cents when synced from QuickBooks, else '
+    'amount_cents - paid_cents. Derived by trg_ar_invoices_balance.';
+
+CREATE INDEX IF NOT EXISTS idx_ar_invoices_company ON ar_invoices (company_id);
+CREATE INDEX IF NOT EXISTS idx_ar_invoices_open ON ar_invoices (due_on) WHERE status <> 'paid';
+
+DROP TRIGGER IF EXISTS trg_ar_invoices_updated_at ON ar_invoices;
+CREATE TRIGGER trg_ar_invoices_updated_at
+    BEFORE UPDATE ON ar_invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION set_ar_invoice_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    NEW.balance_cents := COALESCE(NEW.qbo_balance_cents, NEW.amount_cents - NEW.paid_cents);
+    NEW.status := CASE
+        WHEN NEW.balance_cents <= 0 THEN 'paid'
+        WHEN NEW.balance_cents < NEW.amount_cents THEN 'partial'
+        ELSE 'open'
+    END;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_ar_invoices_balance ON ar_invoices;
+CREATE TRIGGER trg_ar_invoices_balance
+    BEFORE INSERT OR UPDATE ON ar_invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION set_ar_invoice_balance();
+
+-- ============================================================================
+-- STEP 3: ar_payments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS ar_payments (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    ar_invoice_id   UUID NOT NULL REFERENCES ar_invoices(id) ON DELETE CASCADE,
+    amount_cents    BIGINT NOT NULL CHECK (amount_cents > 0),
+    paid_on         DATE NOT NULL,
+    source          TEXT NOT NULL CHECK (source IN ('qbo', 'manual')),
+    qbo_payment_id  TEXT,
+    reference       TEXT,
+    note            TEXT,
+    recorded_by     UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    -- NULLs are distinct, so this only constrains QBO payments
+    CONSTRAINT uq_ar_payments_qbo UNIQUE (ar_invoice_id, qbo_payment_id),
+    CONSTRAINT chk_ar_payments_qbo_id CHECK ((source = 'qbo') = (qbo_payment_id IS NOT NULL))
+);
+
+COMMENT ON TABLE ar_payments IS
+    'Payments applied to ar_invoices. source=qbo rows are written by '
+    'qbo-sync-receivables; source=manual rows by record_ar_payment().';
+
+CREATE INDEX IF NOT EXISTS idx_ar_payments_invoice ON ar_payments (ar_invoice_id);
+
+CREATE OR REPLACE FUNCTION rollup_ar_payments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_invoice_id UUID;
+BEGIN
+    FOR v_invoice_id IN
+        SELECT DISTINCT x FROM unnest(ARRAY[
+            CASE WHEN TG_OP <> 'INSERT' THEN OLD.ar_invoice_id END,
+            CASE WHEN TG_OP <> 'DELETE' THEN NEW.ar_invoice_id END
+        ]) AS x
+        WHERE x IS NOT NULL
+    LOOP
+        UPDATE ar_invoices ai
+        SET paid_cents = COALESCE(p.total, 0),
+            last_payment_on = p.last_on
+        FROM (
+            SELECT SUM(amount_cents) AS total, MAX(paid_on) AS last_on
+            FROM ar_payments
+            WHERE ar_invoice_id = v_invoice_id
+        ) p
+        WHERE ai.id = v_invoice_id;
+    END LOOP;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_ar_payments_rollup ON ar_payments;
+CREATE TRIGGER trg_ar_payments_rollup
+    AFTER INSERT OR UPDATE OR DELETE ON ar_payments
+    FOR EACH ROW
+    EXECUTE FUNCTION rollup_ar_payments();
+
+-- ============================================================================
+-- STEP 4: RLS + grants
+-- ============================================================================
+-- Reads for every authenticated user (Dashboard flag, Receivables page);
+-- writes only through the SECURITY DEFINER functions and the service role.
+
+ALTER TABLE ar_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ar_payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read ar invoices" ON ar_invoices;
+CREATE POLICY "Allow authenticated read ar invoices"
+    ON ar_invoices FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Allow service role full access ar invoices" ON ar_invoices;
+CREATE POLICY "Allow service role full access ar invoices"
+    ON ar_invoices FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow authenticated read ar payments" ON ar_payments;
+CREATE POLICY "Allow authenticated read ar payments"
+    ON ar_payments FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Allow service role full access ar payments" ON ar_payments;
+CREATE POLICY "Allow service role full access ar payments"
+    ON ar_payments FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT SELECT ON ar_invoices TO authenticated;
+GRANT SELECT ON ar_payments TO authenticated;
+GRANT ALL ON ar_invoices TO service_role;
+GRANT ALL ON ar_payments TO service_role;
+REVOKE ALL ON ar_invoices FROM anon;
+REVOKE ALL ON ar_payments FROM anon;
+
+-- ============================================================================
+-- STEP 5: sync_ar_invoices
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sync_ar_invoices()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_qbo INTEGER;
+    v_pdf INTEGER;
+BEGIN
+    -- 1. Sent QuickBooks invoices. Until the first QBO sync the due date
+    --    assumes net 30 from the send date; the sync replaces it with DueDate.
+    --    An unpaid PDF receivable for the same month is taken over.
+    INSERT INTO ar_invoices AS ai (
+        company_id, report_year, report_month, source, qbo_invoice_log_id,
+        eom_report_id, qbo_invoice_id, invoice_number, issued_on, due_on, amount_cents
+    )
+    SELECT q.company_id, q.report_year, q.report_month, 'qbo', q.id,
+           q.eom_report_id, q.qbo_invoice_id, q.invoice_number,
+           (q.sent_at AT TIME ZONE 'Europe/Sofia')::DATE,
+           (q.sent_at AT TIME ZONE 'Europe/Sofia')::DATE + 30,
+           q.total_amount_cents
+    FROM qbo_invoice_log q
+    WHERE q.status = 'sent'
+      AND q.qbo_invoice_id IS NOT NULL
+      AND q.sent_at IS NOT NULL
+    ON CONFLICT (company_id, report_year, report_month) DO UPDATE
+    SET source = 'qbo',
+        qbo_invoice_log_id = EXCLUDED.qbo_invoice_log_id,
+        eom_report_id = COALESCE(EXCLUDED.eom_report_id, ai.eom_report_id),
+        qbo_invoice_id = EXCLUDED.qbo_invoice_id,
+        invoice_number = EXCLUDED.invoice_number,
+        amount_cents = EXCLUDED.amount_cents,
+        issued_on = CASE WHEN ai.source = 'qbo' THEN ai.issued_on ELSE EXCLUDED.issued_on END,
+        due_on = CASE WHEN ai.source = 'qbo' THEN ai.due_on ELSE EXCLUDED.due_on END
+    WHERE (ai.source = 'qbo' OR ai.paid_cents = 0)
+      AND (ai.source, ai.qbo_invoice_id, ai.invoice_number, ai.amount_cents)
+          IS DISTINCT FROM ('qbo', EXCLUDED.qbo_invoice_id, EXCLUDED.invoice_number, EXCLUDED.amount_cents);
+    GET DIAGNOSTICS v_qbo = ROW_COUNT;
+
+    -- 2. EOM invoice PDFs for companies that are not billed through QuickBooks
+    INSERT INTO ar_invoices AS ai (
+        company_id, report_year, report_month, source, eom_report_id,
+        invoice_number, issued_on, due_on, amount_cents
+    )
+    SELECT er.company_id, er.report_year, er.report_month, 'eom_pdf', er.id,
+           er.invoice_number, er.invoice_issued_on, er.invoice_due_on, er.invoice_total_cents
+    FROM eom_reports er
+    WHERE er.invoice_number IS NOT NULL
+      AND er.invoice_storage_path IS NOT NULL
+      AND er.invoice_total_cents > 0
+      AND NOT EXISTS (SELECT 1 FROM qbo_customer_mappings m WHERE m.company_id = er.company_id)
+    ON CONFLICT (company_id, report_year, report_month) DO UPDATE
+    SET eom_report_id = EXCLUDED.eom_report_id,
+        invoice_number = EXCLUDED.invoice_number,
+        issued_on = EXCLUDED.issued_on,
+        due_on = EXCLUDED.due_on,
+        amount_cents = EXCLUDED.amount_cents
+    WHERE ai.source = 'eom_pdf'
+      AND (ai.invoice_number, ai.issued_on, ai.due_on, ai.amount_cents)
+          IS DISTINCT FROM (EXCLUDED.invoice_number, EXCLUDED.issued_on, EXCLUDED.due_on, EXCLUDED.amount_cents);
+    GET DIAGNOSTICS v_pdf = ROW_COUNT;
+
+    RETURN v_qbo + v_pdf;
+END;
+$$;
+
+COMMENT ON FUNCTION sync_ar_invoices() IS
+    'Upserts ar_invoices from sent qbo_invoice_log rows and non-QBO EOM invoice '
+    'PDFs. Returns the number of receivables inserted or changed.';
+
+REVOKE ALL ON FUNCTION sync_ar_invoices() FROM PUBLIC;
+REVOKE ALL ON FUNCTION sync_ar_invoices() FROM anon;
+GRANT EXECUTE ON FUNCTION sync_ar_invoices() TO authenticated;
+GRANT EXECUTE ON FUNCTION sync_ar_invoices() TO service_role;
+
+CREATE OR REPLACE FUNCTION trg_sync_ar_invoices()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    PERFORM sync_ar_invoices();
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_qbo_invoice_log_sync_ar ON qbo_invoice_log;
+CREATE TRIGGER trg_qbo_invoice_log_sync_ar
+    AFTER INSERT OR UPDATE ON qbo_invoice_log
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION trg_sync_ar_invoices();
+
+DROP TRIGGER IF EXISTS trg_eom_reports_sync_ar ON eom_reports;
+CREATE TRIGGER trg_eom_reports_sync_ar
+    AFTER INSERT OR UPDATE ON eom_reports
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION trg_sync_ar_invoices();
+
+-- ============================================================================
+-- STEP 6: Manual payment RPCs (non-QBO receivables only)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION record_ar_payment(
+    p_ar_invoice_id UUID,
+    p_amount_cents BIGINT,
+    p_paid_on DATE,
+    p_reference TEXT DEFAULT NULL,
+    p_note TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_invoice ar_invoices%ROWTYPE;
+    v_payment_id UUID;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO v_invoice FROM ar_invoices WHERE id = p_ar_invoice_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Receivable % not found.', p_ar_invoice_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    IF v_invoice.source = 'qbo' THEN
+        RAISE EXCEPTION 'Invoice % is tracked in QuickBooks — record the payment there and sync.',
+            COALESCE(v_invoice.invoice_number, v_invoice.qbo_invoice_id)
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF p_amount_cents IS NULL OR p_amount_cents <= 0 THEN
+        RAISE EXCEPTION 'Payment amount must be greater than zero.'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF p_amount_cents > v_invoice.balance_cents THEN
+        RAISE EXCEPTION 'Payment exceeds the open balance of % cents.', v_invoice.balance_cents
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF p_paid_on IS NULL OR p_paid_on > (NOW() AT TIME ZONE 'Europe/Sofia')::DATE THEN
+        RAISE EXCEPTION 'Payment date cannot be in the future.'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO ar_payments (ar_invoice_id, amount_cents, paid_on, source, reference, note, recorded_by)
+    VALUES (p_ar_invoice_id, p_amount_cents, p_paid_on, 'manual',
+            NULLIF(TRIM(p_reference), ''), NULLIF(TRIM(p_note), ''), auth.uid())
+    RETURNING id INTO v_payment_id;
+
+    RETURN v_payment_id;
+END;
+$$;
+
+COMMENT ON FUNCTION record_ar_payment(UUID, BIGINT, DATE, TEXT, TEXT) IS
+    'Admin: record a manual payment against a non-QBO receivable.';
+
+CREATE OR REPLACE FUNCTION mark_ar_invoice_paid(
+    p_ar_invoice_id UUID,
+    p_paid_on DATE,
+    p_reference TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_balance BIGINT;
+BEGIN
+    SELECT balance_cents INTO v_balance FROM ar_invoices WHERE id = p_ar_invoice_id;
+    IF v_balance IS NOT NULL AND v_balance <= 0 THEN
+        RAISE EXCEPTION 'Invoice is already paid.'
+            USING ERRCODE = 'check_violation';
+    END IF;
+    -- record_ar_payment re-checks admin, source and the balance under a row lock
+    RETURN record_ar_payment(p_ar_invoice_id, v_balance, p_paid_on, p_reference, 'Marked paid in full');
+END;
+$$;
+
+COMMENT ON FUNCTION mark_ar_invoice_paid(UUID, DATE, TEXT) IS
+    'Admin: record a manual payment for the full open balance of a non-QBO receivable.';
+
+CREATE OR REPLACE FUNCTION delete_ar_payment(p_payment_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_source TEXT;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT source INTO v_source FROM ar_payments WHERE id = p_payment_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Payment % not found.', p_payment_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+    IF v_source <> 'manual' THEN
+        RAISE EXCEPTION 'QuickBooks payments are removed by syncing, not deleted here.'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    DELETE FROM ar_payments WHERE id = p_payment_id;
+END;
+$$;
+
+COMMENT ON FUNCTION delete_ar_payment(UUID) IS
+    'Admin: remove a manually recorded payment (e.g. entered against the wrong invoice).';
+
+REVOKE ALL ON FUNCTION record_ar_payment(UUID, BIGINT, DATE, TEXT, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION mark_ar_invoice_paid(UUID, DATE, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION delete_ar_payment(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION record_ar_payment(UUID, BIGINT, DATE, TEXT, TEXT) FROM anon;
+REVOKE ALL ON FUNCTION mark_ar_invoice_paid(UUID, DATE, TEXT) FROM anon;
+REVOKE ALL ON FUNCTION delete_ar_payment(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION record_ar_payment(UUID, BIGINT, DATE, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_ar_invoice_paid(UUID, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_ar_payment(UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 7: Status + aging views
+-- ============================================================================
+
+CREATE OR REPLACE VIEW v_ar_invoice_status AS
+WITH today AS (
+    SELECT (NOW() AT TIME ZONE 'Europe/Sofia')::DATE AS as_of
+)
+SELECT ai.id,
+    ai.company_id,
+    vcc.canonical_company_id,
+    COALESCE(cc.display_name, cc.client_name) AS company_name,
+    ai.report_year,
+    ai.report_month,
+    ai.source,
+    ai.invoice_number,
+    ai.qbo_invoice_id,
+    ai.issued_on,
+    ai.due_on,
+    ai.amount_cents,
+    ai.paid_cents,
+    ai.balance_cents,
+    ai.status,
+    ai.last_payment_on,
+    ai.qbo_synced_at,
+    ai.sync_error,
+    ai.eom_report_id,
+    CASE WHEN ai.balance_cents > 0 THEN GREATEST(t.as_of - ai.due_on, 0) ELSE 0 END AS days_past_due,
+    CASE
+        WHEN ai.balance_cents <= 0 THEN 'paid'
+        WHEN t.as_of - ai.due_on <= 0 THEN 'current'
+        WHEN t.as_of - ai.due_on <= 30 THEN 'days_1_30'
+        WHEN t.as_of - ai.due_on <= 60 THEN 'days_31_60'
+        WHEN t.as_of - ai.due_on <= 90 THEN 'days_61_90'
+        ELSE 'days_90_plus'
+    END AS aging_bucket
+FROM ar_invoices ai
+CROSS JOIN today t
+JOIN v_company_canonical vcc ON vcc.company_id = ai.company_id
+JOIN companies cc ON cc.id = vcc.canonical_company_id;
+
+COMMENT ON VIEW v_ar_invoice_status IS
+    'Receivables with canonical company, days past due and aging bucket as of today (Europe/Sofia).';
+
+CREATE OR REPLACE VIEW v_ar_aging AS
+SELECT s.canonical_company_id,
+    MIN(s.company_name) AS company_name,
+    SUM(s.balance_cents)::BIGINT AS open_cents,
+    SUM(s.balance_cents) FILTER (WHERE s.aging_bucket = 'current')::BIGINT AS current_cents,
+    SUM(s.balance_cents) FILTER (WHERE s.aging_bucket = 'days_1_30')::BIGINT AS days_1_30_cents,
+    SUM(s.balance_cents) FILTER (WHERE s.aging_bucket = 'days_31_60')::BIGINT AS days_31_60_cents,
+    SUM(s.balance_cents) FILTER (WHERE s.aging_bucket = 'days_61_90')::BIGINT AS days_61_90_cents,
+    SUM(s.balance_cents) FILTER (WHERE s.aging_bucket = 'days_90_plus')::BIGINT AS days_90_plus_cents,
+    SUM(s.balance_cents) FILTER (WHERE s.days_past_due > 0)::BIGINT AS overdue_cents,
+    COUNT(*)::INTEGER AS open_invoice_count,
+    COUNT(*) FILTER (WHERE s.days_past_due > 0)::INTEGER AS overdue_invoice_count,
+    MAX(s.days_past_due)::INTEGER AS max_days_past_due,
+    MIN(s.due_on) AS oldest_due_on
+FROM v_ar_invoice_status s
+WHERE s.balance_cents > 0
+GROUP BY s.canonical_company_id;
+
+COMMENT ON VIEW v_ar_aging IS
+    'Open receivables per canonical company in aging buckets (current, 1-30, '
+    '31-60, 61-90, 90+ days past due). Bucket columns are NULL when empty.';
+
+GRANT SELECT ON v_ar_invoice_status TO authenticated;
+GRANT SELECT ON v_ar_aging TO authenticated;
+REVOKE ALL ON v_ar_invoice_status FROM anon;
+REVOKE ALL ON v_ar_aging FROM anon;
+
+-- ============================================================================
+-- STEP 8: Backfill
+-- ============================================================================
+
+SELECT sync_ar_invoices();
+
+-- ============================================================================
+-- STEP 9: Daily QuickBooks payment sync — 07:15 UTC (after the 06:00 EOM cron)
+-- ============================================================================
+
+SELECT cron.schedule(
+  'sync-qbo-receivables',
+  '15 7 * * *',
+  $$
+  select net.http_post(
+    url := 'https://yptbnsegcfpizwhipeep.supabase.co/functions/v1/qbo-sync-receivables',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'manifest-service-role-key' limit 1)
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+DECLARE
+    v_qbo INTEGER;
+    v_pdf INTEGER;
+    v_sent INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO v_qbo FROM ar_invoices WHERE source = 'qbo';
+    SELECT COUNT(*) INTO v_pdf FROM ar_invoices WHERE source = 'eom_pdf';
+    SELECT COUNT(*) INTO v_sent FROM qbo_invoice_log
+    WHERE status = 'sent' AND qbo_invoice_id IS NOT NULL AND sent_at IS NOT NULL;
+
+    RAISE NOTICE 'Migration 138 Complete:';
+    RAISE NOTICE '  - QBO receivables: % (sent invoices: %)', v_qbo, v_sent;
+    RAISE NOTICE '  - PDF receivables: %', v_pdf;
+    RAISE NOTICE '  - Scheduled sync-qbo-receivables (daily 07:15 UTC)';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- BEGIN;
+--   SELECT cron.unschedule('sync-qbo-receivables');
+--   DROP VIEW IF EXISTS v_ar_aging;
+--   DROP VIEW IF EXISTS v_ar_invoice_status;
+--   DROP TRIGGER IF EXISTS trg_qbo_invoice_log_sync_ar ON qbo_invoice_log;
+--   DROP TRIGGER IF EXISTS trg_eom_reports_sync_ar ON eom_reports;
+--   DROP FUNCTION IF EXISTS trg_sync_ar_invoices();
+--   DROP FUNCTION IF EXISTS sync_ar_invoices();
+--   DROP FUNCTION IF EXISTS delete_ar_payment(UUID);
+--   DROP FUNCTION IF EXISTS mark_ar_invoice_paid(UUID, DATE, TEXT);
+--   DROP FUNCTION IF EXISTS record_ar_payment(UUID, BIGINT, DATE, TEXT, TEXT);
+--   DROP TABLE IF EXISTS ar_payments;
+--   DROP TABLE IF EXISTS ar_invoices;
+--   DROP FUNCTION IF EXISTS rollup_ar_payments();
+--   DROP FUNCTION IF EXISTS set_ar_invoice_balance();
+--   ALTER TABLE eom_reports DROP COLUMN IF EXISTS invoice_total_cents;
+-- COMMIT;
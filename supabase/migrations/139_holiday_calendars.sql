@@ -0,0 +1,1263 @@
+-- ============================================================================
+-- Migration 139: Multi-country holiday calendars
+-- ============================================================================
+-- Purpose: bulgarian_holidays (008) assumed every resource works in Bulgaria.
+-- Contractors in other countries were measured against Bulgarian holidays, so
+-- their utilization and burn numbers were wrong on local holidays. This
+-- migration replaces the single calendar with named calendars:
+--
+--   1. holiday_calendars — one row per country/region (code 'BG', 'GB-ENG',
+--      ...), with the Easter computus its movable feasts follow (orthodox /
+--      western / none). Exactly one calendar is the default.
+--   2. holiday_calendar_rules — how each calendar's holidays are generated:
+--        'fixed'       — month/day every year
+--        'easter'      — offset in days from that calendar's Easter Sunday
+--        'nth_weekday' — e.g. last Monday of May (nth = -1) or the 4th
+--                        Thursday of November
+--      valid_from_year / valid_to_year bound rules that were introduced or
+--      abolished.
+--   3. bulgarian_holidays is renamed to calendar_holidays and gains
+--      calendar_id; existing rows (including manual edits) move to the BG
+--      calendar. Uniqueness is now per calendar and date.
+--   4. resources.holiday_calendar_id — per-resource assignment. NULL means
+--      the default calendar.
+--   5. sync_holiday_calendar(calendar, year) — generates a calendar's
+--      holidays for a year from its rules (replaces sync_bulgarian_holidays).
+--      Existing dates are left alone, so manual edits survive a re-sync.
+--      Weekend substitute days are not computed; add them manually.
+--   6. Company-level SQL (v_monthly_summary_totals, investor dashboard
+--      workdays, projected annual revenue) uses the default calendar via
+--      v_default_calendar_holidays. Per-resource SQL (vacation days in the
+--      annual projection, get_investor_utilization_by_month) uses each
+--      resource's calendar.
+--
+-- Mirrors existing precedent:
+--   - migration 008 (bulgarian_holidays, Meeus Julian Orthodox Easter)
+--   - migration 134 (authenticated read / is_admin() write RLS)
+--   - migrations 050 / 076 / 085 / 122 (the recreated view and functions are
+--     copied verbatim apart from the holiday source)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- DROP ... IF EXISTS; the rename and backfill are guarded).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: holiday_calendars
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS holiday_calendars (
+    id            UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    code          TEXT NOT NULL UNIQUE,
+    name          TEXT NOT NULL,
+    country_code  TEXT NOT NULL CHECK (country_code ~ '^[A-Z]{2}$'),
+    region_code   TEXT,
+    easter_rule   TEXT NOT NULL DEFAULT 'none'
+                  CHECK (easter_rule IN ('orthodox', 'western', 'none')),
+    is_default    BOOLEAN NOT NULL DEFAULT false,
+    created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE holiday_calendars IS
+    'Named public-holiday calendars (country or region). Resources are assigned '
+    'a calendar via resources.holiday_calendar_id; NULL means the default.';
+
+COMMENT ON COLUMN holiday_calendars.easter_rule IS
+    'Computus for easter-relative rules: orthodox (Julian), western '
+    '(Gregorian) or none (calendar has no movable feasts).';
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_holiday_calendars_default
+    ON holiday_calendars (is_default) WHERE is_default;
+
+DROP TRIGGER IF EXISTS trg_holiday_calendars_updated_at ON holiday_calendars;
+CREATE TRIGGER trg_holiday_calendars_updated_at
+    BEFORE UPDATE ON holiday_calendars
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- STEP 2: holiday_calendar_rules
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS holiday_calendar_rules (
+    id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    calendar_id      UUID NOT NULL REFERENCES holiday_calendars(id) ON DELETE CASCADE,
+    holiday_name     TEXT NOT NULL,
+    rule_type        TEXT NOT NULL CHECK (rule_type IN ('fixed', 'easter', 'nth_weekday')),
+    month            INTEGER CHECK (month BETWEEN 1 AND 12),
+    day              INTEGER CHECK (day BETWEEN 1 AND 31),
+    easter_offset    INTEGER,
+    weekday          INTEGER CHECK (weekday BETWEEN 0 AND 6),  -- 0 = Sunday (EXTRACT(DOW))
+    nth              INTEGER CHECK (nth = -1 OR nth BETWEEN 1 AND 5),
+    valid_from_year  INTEGER,
+    valid_to_year    INTEGER,
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT uq_holiday_calendar_rules_name UNIQUE (calendar_id, holiday_name),
+    CONSTRAINT chk_holiday_rule_fixed CHECK (
+        rule_type <> 'fixed' OR (month IS NOT NULL AND day IS NOT NULL)
+    ),
+    CONSTRAINT chk_holiday_rule_easter CHECK (
+        rule_type <> 'easter' OR easter_offset IS NOT NULL
+    ),
+    CONSTRAINT chk_holiday_rule_nth_weekday CHECK (
+        rule_type <> 'nth_weekday' OR (month IS NOT NULL AND weekday IS NOT NULL AND nth IS NOT NULL)
+    )
+);
+
+COMMENT ON TABLE holiday_calendar_rules IS
+    'Generation rules for holiday_calendars, expanded per year by '
+    'sync_holiday_calendar(). nth = -1 means the last such weekday of the month.';
+
+-- ============================================================================
+-- STEP 3: RLS (authenticated read, admin write)
+-- ============================================================================
+
+ALTER TABLE holiday_calendars ENABLE ROW LEVEL SECURITY;
+ALTER TABLE holiday_calendar_rules ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read holiday calendars" ON holiday_calendars;
+CREATE POLICY "Allow authenticated read holiday calendars"
+    ON holiday_calendars FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Allow admin write holiday calendars" ON holiday_calendars;
+CREATE POLICY "Allow admin write holiday calendars"
+    ON holiday_calendars FOR ALL TO authenticated
+    USING (is_admin()) WITH CHECK (is_admin());
+DROP POLICY IF EXISTS "Allow service role full access holiday calendars" ON holiday_calendars;
+CREATE POLICY "Allow service role full access holiday calendars"
+    ON holiday_calendars FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow authenticated read holiday calendar rules" ON holiday_calendar_rules;
+CREATE POLICY "Allow authenticated read holiday calendar rules"
+    ON holiday_calendar_rules FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Allow admin write holiday calendar rules" ON holiday_calendar_rules;
+CREATE POLICY "Allow admin write holiday calendar rules"
+    ON holiday_calendar_rules FOR ALL TO authenticated
+    USING (is_admin()) WITH CHECK (is_admin());
+DROP POLICY IF EXISTS "Allow service role full access holiday calendar rules" ON holiday_calendar_rules;
+CREATE POLICY "Allow service role full access holiday calendar rules"
+    ON holiday_calendar_rules FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON holiday_calendars TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON holiday_calendar_rules TO authenticated;
+GRANT ALL ON holiday_calendars TO service_role;
+GRANT ALL ON holiday_calendar_rules TO service_role;
+REVOKE ALL ON holiday_calendars FROM anon;
+REVOKE ALL ON holiday_calendar_rules FROM anon;
+
+-- ============================================================================
+-- STEP 4: Seed calendars and rules
+-- ============================================================================
+-- BG carries the 14 holidays sync_bulgarian_holidays generated. Other
+-- calendars cover the countries we have contractors in; add more by
+-- inserting a calendar and its rules, then calling sync_holiday_calendar().
+
+INSERT INTO holiday_calendars (code, name, country_code, region_code, easter_rule, is_default)
+VALUES
+    ('BG',     'Bulgaria',        'BG', NULL,  'orthodox', true),
+    ('RO',     'Romania',         'RO', NULL,  'orthodox', false),
+    ('RS',     'Serbia',          'RS', NULL,  'orthodox', false),
+    ('GR',     'Greece',          'GR', NULL,  'orthodox', false),
+    ('PL',     'Poland',          'PL', NULL,  'western',  false),
+    ('GB-ENG', 'United Kingdom (England & Wales)', 'GB', 'ENG', 'western', false),
+    ('US',     'United States (Federal)', 'US', NULL, 'none', false)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO holiday_calendar_rules
+    (calendar_id, holiday_name, rule_type, month, day, easter_offset, weekday, nth, valid_from_year)
+SELECT hc.id, v.holiday_name, v.rule_type, v.month, v.day, v.easter_offset, v.weekday, v.nth, v.valid_from_year
+FROM (VALUES
+    -- Bulgaria
+    ('BG', 'New Year''s Day',             'fixed',  1,  1,    NULL, NULL, NULL, NULL),
+    ('BG', 'Liberation Day',              'fixed',  3,  3,    NULL, NULL, NULL, NULL),
+    ('BG', 'Labour Day',                  'fixed',  5,  1,    NULL, NULL, NULL, NULL),
+    ('BG', 'St. George''s Day',           'fixed',  5,  6,    NULL, NULL, NULL, NULL),
+    ('BG', 'Education and Culture Day',   'fixed',  5,  24,   NULL, NULL, NULL, NULL),
+    ('BG', 'Unification Day',             'fixed',  9,  6,    NULL, NULL, NULL, NULL),
+    ('BG', 'Independence Day',            'fixed',  9,  22,   NULL, NULL, NULL, NULL),
+    ('BG', 'Christmas Eve',               'fixed',  12, 24,   NULL, NULL, NULL, NULL),
+    ('BG', 'Christmas Day',               'fixed',  12, 25,   NULL, NULL, NULL, NULL),
+    ('BG', 'Christmas Day (Second)',      'fixed',  12, 26,   NULL, NULL, NULL, NULL),
+    ('BG', 'Good Friday',                 'easter', NULL, NULL, -2, NULL, NULL, NULL),
+    ('BG', 'Holy Saturday',               'easter', NULL, NULL, -1, NULL, NULL, NULL),
+    ('BG', 'Easter Sunday',               'easter', NULL, NULL, 0,  NULL, NULL, NULL),
+    ('BG', 'Easter Monday',               'easter', NULL, NULL, 1,  NULL, NULL, NULL),
+    -- Romania
+    ('RO', 'New Year''s Day',             'fixed',  1,  1,    NULL, NULL, NULL, NULL),
+    ('RO', 'Day after New Year''s Day',   'fixed',  1,  2,    NULL, NULL, NULL, NULL),
+    ('RO', 'Epiphany',                    'fixed',  1,  6,    NULL, NULL, NULL, 2024),
+    ('RO', 'St. John the Baptist',        'fixed',  1,  7,    NULL, NULL, NULL, 2024),
+    ('RO', 'Union Day',                   'fixed',  1,  24,   NULL, NULL, NULL, NULL),
+    ('RO', 'Labour Day',                  'fixed',  5,  1,    NULL, NULL, NULL, NULL),
+    ('RO', 'Children''s Day',             'fixed',  6,  1,    NULL, NULL, NULL, NULL),
+    ('RO', 'Assumption of Mary',          'fixed',  8,  15,   NULL, NULL, NULL, NULL),
+    ('RO', 'St. Andrew''s Day',           'fixed',  11, 30,   NULL, NULL, NULL, NULL),
+    ('RO', 'National Day',                'fixed',  12, 1,    NULL, NULL, NULL, NULL),
+    ('RO', 'Christmas Day',               'fixed',  12, 25,   NULL, NULL, NULL, NULL),
+    ('RO', 'Christmas Day (Second)',      'fixed',  12, 26,   NULL, NULL, NULL, NULL),
+    ('RO', 'Good Friday',                 'easter', NULL, NULL, -2, NULL, NULL, NULL),
+    ('RO', 'Easter Sunday',               'easter', NULL, NULL, 0,  NULL, NULL, NULL),
+    ('RO', 'Easter Monday',               'easter', NULL, NULL, 1,  NULL, NULL, NULL),
+    ('RO', 'Pentecost',                   'easter', NULL, NULL, 49, NULL, NULL, NULL),
+    ('RO', 'Whit Monday',                 'easter', NULL, NULL, 50, NULL, NULL, NULL),
+    -- Serbia
+    ('RS', 'New Year''s Day',             'fixed',  1,  1,    NULL, NULL, NULL, NULL),
+    ('RS', 'New Year''s Day (Second)',    'fixed',  1,  2,    NULL, NULL, NULL, NULL),
+    ('RS', 'Orthodox Christmas',          'fixed',  1,  7,    NULL, NULL, NULL, NULL),
+    ('RS', 'Statehood Day',               'fixed',  2,  15,   NULL, NULL, NULL, NULL),
+    ('RS', 'Statehood Day (Second)',      'fixed',  2,  16,   NULL, NULL, NULL, NULL),
+    ('RS', 'Labour Day',                  'fixed',  5,  1,    NULL, NULL, NULL, NULL),
+    ('RS', 'Labour Day (Second)',         'fixed',  5,  2,    NULL, NULL, NULL, NULL),
+    ('RS', 'Armistice Day',               'fixed',  11, 11,   NULL, NULL, NULL, NULL),
+    ('RS', 'Good Friday',                 'easter', NULL, NULL, -2, NULL, NULL, NULL),
+    ('RS', 'Holy Saturday',               'easter', NULL, NULL, -1, NULL, NULL, NULL),
+    ('RS', 'Easter Sunday',               'easter', NULL, NULL, 0,  NULL, NULL, NULL),
+    ('RS', 'Easter Monday',               'easter', NULL, NULL, 1,  NULL, NULL, NULL),
+    -- Greece
+    ('GR', 'New Year''s Day',             'fixed',  1,  1,    NULL, NULL, NULL, NULL),
+    ('GR', 'Epiphany',                    'fixed',  1,  6,    NULL, NULL, NULL, NULL),
+    ('GR', 'Independence Day',            'fixed',  3,  25,   NULL, NULL, NULL, NULL),
+    ('GR', 'Labour Day',                  'fixed',  5,  1,    NULL, NULL, NULL, NULL),
+    ('GR', 'Assumption of Mary',          'fixed',  8,  15,   NULL, NULL, NULL, NULL),
+    ('GR', 'Ochi Day',                    'fixed',  10, 28,   NULL, NULL, NULL, NULL),
+    ('GR', 'Christmas Day',               'fixed',  12, 25,   NULL, NULL, NULL, NULL),
+    ('GR', 'Synaxis of the Mother of God','fixed',  12, 26,   NULL, NULL, NULL, NULL),
+    ('GR', 'Clean Monday',                'easter', NULL, NULL, -48, NULL, NULL, NULL),
+    ('GR', 'Good Friday',                 'easter', NULL, NULL, -2, NULL, NULL, NULL),
+    ('GR', 'Easter Monday',               'easter', NULL, NULL, 1,  NULL, NULL, NULL),
+    ('GR', 'Whit Monday',                 'easter', NULL, NULL, 50, NULL, NULL, NULL),
+    -- Poland
+    ('PL', 'New Year''s Day',             'fixed',  1,  1,    NULL, NULL, NULL, NULL),
+    ('PL', 'Epiphany',                    'fixed',  1,  6,    NULL, NULL, NULL, NULL),
+    ('PL', 'Labour Day',                  'fixed',  5,  1,    NULL, NULL, NULL, NULL),
+    ('PL', 'Constitution Day',            'fixed',  5,  3,    NULL, NULL, NULL, NULL),
+    ('PL', 'Assumption of Mary',          'fixed',  8,  15,   NULL, NULL, NULL, NULL),
+    ('PL', 'All Saints'' Day',            'fixed',  11, 1,    NULL, NULL, NULL, NULL),
+    ('PL', 'Independence Day',            'fixed',  11, 11,   NULL, NULL, NULL, NULL),
+    ('PL', 'Christmas Eve',               'fixed',  12, 24,   NULL, NULL, NULL, 2025),
+    ('PL', 'Christmas Day',               'fixed',  12, 25,   NULL, NULL, NULL, NULL),
+    ('PL', 'Christmas Day (Second)',      'fixed',  12, 26,   NULL, NULL, NULL, NULL),
+    ('PL', 'Easter Sunday',               'easter', NULL, NULL, 0,  NULL, NULL, NULL),
+    ('PL', 'Easter Monday',               'easter', NULL, NULL, 1,  NULL, NULL, NULL),
+    ('PL', 'Pentecost',                   'easter', NULL, NULL, 49, NULL, NULL, NULL),
+    ('PL', 'Corpus Christi',              'easter', NULL, NULL, 60, NULL, NULL, NULL),
+    -- England & Wales
+    ('GB-ENG', 'New Year''s Day',         'fixed',  1,  1,    NULL, NULL, NULL, NULL),
+    ('GB-ENG', 'Good Friday',             'easter', NULL, NULL, -2, NULL, NULL, NULL),
+    ('GB-ENG', 'Easter Monday',           'easter', NULL, NULL, 1,  NULL, NULL, NULL),
+    ('GB-ENG', 'Early May Bank Holiday',  'nth_weekday', 5, NULL, NULL, 1, 1,  NULL),
+    ('GB-ENG', 'Spring Bank Holiday',     'nth_weekday', 5, NULL, NULL, 1, -1, NULL),
+    ('GB-ENG', 'Summer Bank Holiday',     'nth_weekday', 8, NULL, NULL, 1, -1, NULL),
+    ('GB-ENG', 'Christmas Day',           'fixed',  12, 25,   NULL, NULL, NULL, NULL),
+    ('GB-ENG', 'Boxing Day',              'fixed',  12, 26,   NULL, NULL, NULL, NULL),
+    -- United States (federal)
+    ('US', 'New Year''s Day',             'fixed',  1,  1,    NULL, NULL, NULL, NULL),
+    ('US', 'Martin Luther King Jr. Day',  'nth_weekday', 1,  NULL, NULL, 1, 3,  NULL),
+    ('US', 'Presidents'' Day',            'nth_weekday', 2,  NULL, NULL, 1, 3,  NULL),
+    ('US', 'Memorial Day',                'nth_weekday', 5,  NULL, NULL, 1, -1, NULL),
+    ('US', 'Juneteenth',                  'fixed',  6,  19,   NULL, NULL, NULL, NULL),
+    ('US', 'Independence Day',            'fixed',  7,  4,    NULL, NULL, NULL, NULL),
+    ('US', 'Labor Day',                   'nth_weekday', 9,  NULL, NULL, 1, 1,  NULL),
+    ('US', 'Columbus Day',                'nth_weekday', 10, NULL, NULL, 1, 2,  NULL),
+    ('US', 'Veterans Day',                'fixed',  11, 11,   NULL, NULL, NULL, NULL),
+    ('US', 'Thanksgiving Day',            'nth_weekday', 11, NULL, NULL, 4, 4,  NULL),
+    ('US', 'Christmas Day',               'fixed',  12, 25,   NULL, NULL, NULL, NULL)
+) AS v(calendar_code, holiday_name, rule_type, month, day, easter_offset, weekday, nth, valid_from_year)
+JOIN holiday_calendars hc ON hc.code = v.calendar_code
+ON CONFLICT (calendar_id, holiday_name) DO NOTHING;
+
+-- ============================================================================
+-- STEP 5: bulgarian_holidays → calendar_holidays
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF to_regclass('public.calendar_holidays') IS NULL THEN
+        ALTER TABLE bulgarian_holidays RENAME TO calendar_holidays;
+    END IF;
+END $$;
+
+ALTER INDEX IF EXISTS idx_bulgarian_holidays_year RENAME TO idx_calendar_holidays_year;
+DROP INDEX IF EXISTS idx_bulgarian_holidays_date;
+
+ALTER TABLE calendar_holidays
+    ADD COLUMN IF NOT EXISTS calendar_id UUID REFERENCES holiday_calendars(id) ON DELETE CASCADE;
+
+-- Every pre-existing holiday (generated or manual) belonged to Bulgaria
+UPDATE calendar_holidays
+SET calendar_id = (SELECT id FROM holiday_calendars WHERE code = 'BG')
+WHERE calendar_id IS NULL;
+
+ALTER TABLE calendar_holidays ALTER COLUMN calendar_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_holidays_calendar_date
+    ON calendar_holidays (calendar_id, holiday_date);
+
+COMMENT ON TABLE calendar_holidays IS
+    'Public holidays per holiday calendar (formerly bulgarian_holidays). '
+    'Generated by sync_holiday_calendar() or added manually.';
+
+-- ============================================================================
+-- STEP 6: Per-resource calendar assignment
+-- ============================================================================
+
+ALTER TABLE resources
+    ADD COLUMN IF NOT EXISTS holiday_calendar_id UUID REFERENCES holiday_calendars(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN resources.holiday_calendar_id IS
+    'Public-holiday calendar this resource works to. NULL = default calendar.';
+
+CREATE OR REPLACE FUNCTION default_holiday_calendar_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT id FROM holiday_calendars WHERE is_default LIMIT 1;
+$$;
+
+CREATE OR REPLACE VIEW v_default_calendar_holidays AS
+SELECT ch.*
+FROM calendar_holidays ch
+JOIN holiday_calendars hc ON hc.id = ch.calendar_id
+WHERE hc.is_default;
+
+COMMENT ON VIEW v_default_calendar_holidays IS
+    'Holidays of the default calendar — the company-level working-day basis '
+    '(revenue projections, monthly totals). Per-resource math joins '
+    'calendar_holidays on the resource''s own calendar instead.';
+
+GRANT EXECUTE ON FUNCTION default_holiday_calendar_id() TO authenticated, service_role;
+GRANT SELECT ON v_default_calendar_holidays TO authenticated, service_role;
+REVOKE ALL ON v_default_calendar_holidays FROM anon;
+
+-- ============================================================================
+-- STEP 7: Rule engine
+-- ============================================================================
+
+-- Easter Sunday (Gregorian date) for the given computus; NULL for 'none'.
+-- Orthodox: Meeus Julian algorithm + 13 days (valid 1900-2099), as in 008.
+-- Western: anonymous Gregorian algorithm.
+CREATE OR REPLACE FUNCTION holiday_easter_date(p_year INTEGER, p_rule TEXT)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    a INTEGER; b INTEGER; c INTEGER; d INTEGER; e INTEGER;
+    f INTEGER; g INTEGER; h INTEGER; i INTEGER; k INTEGER;
+    l INTEGER; m INTEGER;
+BEGIN
+    IF p_rule = 'orthodox' THEN
+        a := p_year % 4;
+        b := p_year % 7;
+        c := p_year % 19;
+        d := (19 * c + 15) % 30;
+        e := (2 * a + 4 * b - d + 34) % 7;
+        RETURN make_date(p_year, (d + e + 114) / 31, ((d + e + 114) % 31) + 1) + 13;
+    ELSIF p_rule = 'western' THEN
+        a := p_year % 19;
+        b := p_year / 100;
+        c := p_year % 100;
+        d := b / 4;
+        e := b % 4;
+        f := (b + 8) / 25;
+        g := (b - f + 1) / 3;
+        h := (19 * a + b - d - g + 15) % 30;
+        i := c / 4;
+        k := c % 4;
+        l := (32 + 2 * e + 2 * i - h - k) % 7;
+        m := (a + 11 * h + 22 * l) / 451;
+        RETURN make_date(p_year, (h + l - 7 * m + 114) / 31, ((h + l - 7 * m + 114) % 31) + 1);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+-- nth (1-5) or last (-1) given weekday (0 = Sunday) of a month.
+CREATE OR REPLACE FUNCTION holiday_nth_weekday(p_year INTEGER, p_month INTEGER, p_weekday INTEGER, p_nth INTEGER)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_first DATE := make_date(p_year, p_month, 1);
+    v_last  DATE := (make_date(p_year, p_month, 1) + INTERVAL '1 month - 1 day')::DATE;
+    v_date  DATE;
+BEGIN
+    IF p_nth = -1 THEN
+        RETURN v_last - ((EXTRACT(DOW FROM v_last)::INTEGER - p_weekday + 7) % 7);
+    END IF;
+    v_date := v_first + ((p_weekday - EXTRACT(DOW FROM v_first)::INTEGER + 7) % 7) + (p_nth - 1) * 7;
+    -- A 5th weekday that does not exist in this month yields no holiday
+    RETURN CASE WHEN v_date <= v_last THEN v_date END;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_holiday_calendar(p_calendar_id UUID, p_year INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_easter_rule TEXT;
+    v_easter      DATE;
+    v_added       INTEGER := 0;
+BEGIN
+    SELECT easter_rule INTO v_easter_rule
+    FROM holiday_calendars
+    WHERE id = p_calendar_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Holiday calendar % not found', p_calendar_id;
+    END IF;
+
+    v_easter := holiday_easter_date(p_year, v_easter_rule);
+
+    INSERT INTO calendar_holidays (calendar_id, holiday_name, holiday_date, is_system_generated, year)
+    SELECT p_calendar_id, g.holiday_name, g.holiday_date, true, p_year
+    FROM (
+        SELECT
+            r.holiday_name,
+            CASE r.rule_type
+                WHEN 'fixed' THEN make_date(p_year, r.month, r.day)
+                WHEN 'easter' THEN v_easter + r.easter_offset
+                WHEN 'nth_weekday' THEN holiday_nth_weekday(p_year, r.month, r.weekday, r.nth)
+            END AS holiday_date
+        FROM holiday_calendar_rules r
+        WHERE r.calendar_id = p_calendar_id
+          AND (r.valid_from_year IS NULL OR p_year >= r.valid_from_year)
+          AND (r.valid_to_year IS NULL OR p_year <= r.valid_to_year)
+    ) g
+    -- Easter rules on a calendar without a computus produce no date
+    WHERE g.holiday_date IS NOT NULL
+      -- Easter offsets can cross a year boundary; keep the year's own dates
+      AND EXTRACT(YEAR FROM g.holiday_date) = p_year
+    ON CONFLICT (calendar_id, holiday_date) DO NOTHING;
+
+    GET DIAGNOSTICS v_added = ROW_COUNT;
+    RETURN v_added;
+END;
+$$;
+
+COMMENT ON FUNCTION sync_holiday_calendar(UUID, INTEGER) IS
+    'Generates a calendar''s holidays for a year from holiday_calendar_rules. '
+    'Existing dates (including manual edits) are kept. Returns rows added.';
+
+REVOKE ALL ON FUNCTION sync_holiday_calendar(UUID, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION sync_holiday_calendar(UUID, INTEGER) FROM anon;
+GRANT EXECUTE ON FUNCTION sync_holiday_calendar(UUID, INTEGER) TO authenticated, service_role;
+
+DROP FUNCTION IF EXISTS sync_bulgarian_holidays(INTEGER);
+
+-- Generate the seeded calendars for the years the app currently shows
+DO $$
+DECLARE
+    v_calendar RECORD;
+    v_year INTEGER;
+BEGIN
+    FOR v_calendar IN SELECT id FROM holiday_calendars LOOP
+        FOR v_year IN EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER - 1 .. EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER + 1 LOOP
+            PERFORM sync_holiday_calendar(v_calendar.id, v_year);
+        END LOOP;
+    END LOOP;
+END $$;
+
+-- ============================================================================
+-- STEP 8: v_monthly_summary_totals — default calendar (from 050)
+-- ============================================================================
+
+CREATE OR REPLACE VIEW v_monthly_summary_totals AS
+WITH month_data AS (
+    SELECT
+        pms.summary_month,
+        SUM(pms.actual_hours) AS total_actual_hours,
+        SUM(pms.rounded_hours) AS total_rounded_hours,
+        SUM(pms.billed_hours) AS total_billed_hours,
+        SUM(pms.unbillable_hours) AS total_unbillable_hours,
+        SUM(pms.base_revenue_cents) AS total_base_revenue_cents,
+        SUM(pms.billed_revenue_cents) AS total_billed_revenue_cents,
+        COUNT(DISTINCT pms.company_id) AS company_count,
+        COUNT(DISTINCT pms.project_id) AS project_count
+    FROM project_monthly_summary pms
+    -- Exclude member projects
+    LEFT JOIN project_group_members pgm ON pgm.member_project_id = pms.project_id
+    WHERE pgm.member_project_id IS NULL
+    GROUP BY pms.summary_month
+),
+-- Count distinct resources from raw data (accurate cross-project)
+resource_data AS (
+    SELECT
+        DATE_TRUNC('month', tdr.work_date)::DATE AS summary_month,
+        COUNT(DISTINCT tdr.user_id) AS distinct_resource_count
+    FROM timesheet_daily_rollups tdr
+    WHERE tdr.total_minutes > 0
+    GROUP BY DATE_TRUNC('month', tdr.work_date)::DATE
+),
+-- Working days (weekdays minus holidays)
+working_days AS (
+    SELECT
+        DATE_TRUNC('month', d.day)::DATE AS summary_month,
+        COUNT(*) FILTER (
+            WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+                AND NOT EXISTS (
+                    SELECT 1 FROM v_default_calendar_holidays bh
+                    WHERE bh.holiday_date = d.day
+                )
+        ) AS working_day_count
+    FROM generate_series(
+        (SELECT MIN(summary_month) FROM project_monthly_summary),
+        (SELECT MAX(summary_month) + INTERVAL '1 month - 1 day' FROM project_monthly_summary),
+        '1 day'
+    ) d(day)
+    GROUP BY DATE_TRUNC('month', d.day)::DATE
+),
+-- Invoiced revenue (all billing transactions)
+invoiced AS (
+    SELECT
+        bt.transaction_month AS summary_month,
+        SUM(bt.amount_cents) AS total_invoiced_cents
+    FROM billing_transactions bt
+    GROUP BY bt.transaction_month
+)
+SELECT
+    md.summary_month,
+
+    -- Hours
+    md.total_actual_hours,
+    md.total_rounded_hours,
+    md.total_billed_hours,
+    md.total_unbillable_hours,
+
+    -- Revenue
+    md.total_base_revenue_cents,
+    md.total_billed_revenue_cents,
+    COALESCE(inv.total_invoiced_cents, 0) AS total_invoiced_revenue_cents,
+    md.total_billed_revenue_cents + COALESCE(inv.total_invoiced_cents, 0)
+        AS total_combined_revenue_cents,
+
+    -- Counts
+    md.company_count,
+    md.project_count,
+    COALESCE(rd.distinct_resource_count, 0) AS resource_count,
+
+    -- Utilization
+    COALESCE(wd.working_day_count, 0) AS working_days,
+    COALESCE(rd.distinct_resource_count, 0) * COALESCE(wd.working_day_count, 0) * 8
+        AS total_available_hours,
+    CASE
+        WHEN COALESCE(rd.distinct_resource_count, 0) * COALESCE(wd.working_day_count, 0) * 8 > 0
+        THEN ROUND(
+            md.total_actual_hours * 100.0 /
+            (rd.distinct_resource_count * wd.working_day_count * 8),
+            1
+        )
+        ELSE 0
+    END AS utilization_percent,
+
+    -- Weighted average rate
+    CASE WHEN md.total_billed_hours > 0
+        THEN ROUND(md.total_billed_revenue_cents::NUMERIC / md.total_billed_hours / 100, 2)
+        ELSE 0
+    END AS weighted_avg_rate
+
+FROM month_data md
+LEFT JOIN resource_data rd ON rd.summary_month = md.summary_month
+LEFT JOIN working_days wd ON wd.summary_month = md.summary_month
+LEFT JOIN invoiced inv ON inv.summary_month = md.summary_month
+ORDER BY md.summary_month;
+
+COMMENT ON VIEW v_monthly_summary_totals IS
+    'Global monthly billing totals with utilization %, resource count, and invoiced revenue. '
+    'Excludes member project rows (only primary/standalone projects counted).';
+
+-- ============================================================================
+-- STEP 9: get_investor_dashboard_metrics — default calendar (from 076)
+-- ============================================================================
+-- Company workday counts and the company holiday count stay on one calendar:
+-- they pace company revenue, not any one person's capacity.
+
+CREATE OR REPLACE FUNCTION get_investor_dashboard_metrics(p_month DATE)
+RETURNS TABLE (
+  combined_total_revenue_cents   BIGINT,
+  earned_total_revenue_cents     BIGINT,
+  avg_daily_earned_revenue_cents BIGINT,
+  avg_daily_billed_revenue_cents BIGINT,
+  total_workdays                 INTEGER,
+  completed_workdays             INTEGER,
+  remaining_workdays             INTEGER,
+  company_holiday_count          INTEGER,
+  projected_earned_revenue_cents BIGINT,
+  projected_billed_revenue_cents BIGINT,
+  fixed_lump_revenue_cents       BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_month_start DATE;
+  v_month_end   DATE;
+  v_today       DATE := CURRENT_DATE;
+
+  v_combined_cents         BIGINT;
+  v_earned_extra_cents     BIGINT;
+  v_earned_cents           BIGINT;
+  v_timesheet_revenue_cents BIGINT;
+  v_daily_accrual_cents    BIGINT;
+  v_fixed_lump_cents       BIGINT;
+
+  v_total_wd      INTEGER;
+  v_completed_wd  INTEGER;
+  v_remaining_wd  INTEGER;
+  v_holiday_count INTEGER;
+
+  v_avg_daily_earned BIGINT;
+  v_avg_daily_billed BIGINT;
+BEGIN
+  -- Normalize to first of month
+  v_month_start := DATE_TRUNC('month', p_month)::DATE;
+  v_month_end   := (v_month_start + INTERVAL '1 month - 1 day')::DATE;
+
+  -- ========================================================================
+  -- 1. Combined (billed) revenue from v_combined_revenue_by_company_month
+  --    This includes: effective_revenue (timesheet w/ milestone overrides)
+  --    + fixed_billing_cents
+  -- ========================================================================
+  SELECT COALESCE(SUM(cr.combined_revenue_cents), 0)
+  INTO v_combined_cents
+  FROM v_combined_revenue_by_company_month cr
+  WHERE cr.summary_month = v_month_start;
+
+  -- ========================================================================
+  -- 2. Timesheet-only billed revenue (daily-accruing, hours * rate)
+  --    This is the raw billed_revenue_cents from ALL canonical projects,
+  --    before milestone overrides replace any values.
+  -- ========================================================================
+  SELECT COALESCE(SUM(pms.billed_revenue_cents), 0)
+  INTO v_timesheet_revenue_cents
+  FROM v_canonical_project_monthly_summary pms
+  WHERE pms.summary_month = v_month_start;
+
+  -- ========================================================================
+  -- 3. Earned extra = rolled-over/unbillable value for non-milestone
+  --    projects (those without milestone_override_cents)
+  -- ========================================================================
+  SELECT COALESCE(SUM(
+    ROUND((pms.carryover_out_hours + pms.unbillable_hours) * pms.rate_used * 100)::BIGINT
+  ), 0)
+  INTO v_earned_extra_cents
+  FROM v_canonical_project_monthly_summary pms
+  WHERE pms.summary_month = v_month_start
+    AND pms.milestone_override_cents IS NULL;
+
+  -- ========================================================================
+  -- 4. Compute daily-accruing vs lump-sum revenue
+  --    - Daily accrual: timesheet billed + earned extra (work-based)
+  --    - Fixed lump: combined - timesheet (fixed billings + milestone deltas)
+  --    - Total earned: combined + earned extra (unchanged from before)
+  -- ========================================================================
+  v_daily_accrual_cents := v_timesheet_revenue_cents + v_earned_extra_cents;
+  v_fixed_lump_cents    := v_combined_cents - v_timesheet_revenue_cents;
+  v_earned_cents        := v_combined_cents + v_earned_extra_cents;
+
+  -- ========================================================================
+  -- 5. Company holidays (weekday holidays in this month)
+  -- ========================================================================
+  SELECT COUNT(*)::INTEGER
+  INTO v_holiday_count
+  FROM v_default_calendar_holidays bh
+  WHERE bh.holiday_date >= v_month_start
+    AND bh.holiday_date <= v_month_end
+    AND EXTRACT(DOW FROM bh.holiday_date) NOT IN (0, 6);
+
+  -- ========================================================================
+  -- 6. Total workdays in month (weekdays minus holidays)
+  -- ========================================================================
+  SELECT COUNT(*)::INTEGER
+  INTO v_total_wd
+  FROM generate_series(v_month_start, v_month_end, '1 day'::INTERVAL) d(day)
+  WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+    AND NOT EXISTS (
+      SELECT 1 FROM v_default_calendar_holidays bh
+      WHERE bh.holiday_date = d.day::DATE
+    );
+
+  -- ========================================================================
+  -- 7. Completed workdays (month start through yesterday)
+  --    - Future month: 0
+  --    - Past month: total_workdays
+  --    - Current month: workdays from month start to (today - 1)
+  -- ========================================================================
+  IF v_today <= v_month_start THEN
+    -- Future month (or today is first day of month = no completed days yet)
+    v_completed_wd := 0;
+  ELSIF v_today > v_month_end THEN
+    -- Past month — fully completed
+    v_completed_wd := v_total_wd;
+  ELSE
+    -- Current month — count workdays from month start through yesterday
+    SELECT COUNT(*)::INTEGER
+    INTO v_completed_wd
+    FROM generate_series(v_month_start, (v_today - INTERVAL '1 day')::DATE, '1 day'::INTERVAL) d(day)
+    WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+      AND NOT EXISTS (
+        SELECT 1 FROM v_default_calendar_holidays bh
+        WHERE bh.holiday_date = d.day::DATE
+      );
+  END IF;
+
+  -- ========================================================================
+  -- 8. Remaining workdays (today through month end)
+  --    - Past month: 0
+  --    - Future month: total_workdays
+  --    - Current month: workdays from today through month end
+  -- ========================================================================
+  IF v_today > v_month_end THEN
+    v_remaining_wd := 0;
+  ELSIF v_today <= v_month_start THEN
+    v_remaining_wd := v_total_wd;
+  ELSE
+    SELECT COUNT(*)::INTEGER
+    INTO v_remaining_wd
+    FROM generate_series(v_today, v_month_end, '1 day'::INTERVAL) d(day)
+    WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+      AND NOT EXISTS (
+        SELECT 1 FROM v_default_calendar_holidays bh
+        WHERE bh.holiday_date = d.day::DATE
+      );
+  END IF;
+
+  -- ========================================================================
+  -- 9. Average daily revenue (daily-accruing revenue only)
+  --    Excludes fixed billings and milestone overrides from the average
+  --    so that lump sums don't inflate the per-day rate.
+  -- ========================================================================
+  IF v_completed_wd > 0 THEN
+    v_avg_daily_earned := (v_daily_accrual_cents / v_completed_wd);
+    v_avg_daily_billed := (v_timesheet_revenue_cents / v_completed_wd);
+  ELSE
+    v_avg_daily_earned := 0;
+    v_avg_daily_billed := 0;
+  END IF;
+
+  -- ========================================================================
+  -- 10. Return all metrics
+  --     Projections: fixed lump (already known) + daily accrual so far
+  --     + extrapolated daily trend for remaining workdays.
+  --     For past months (remaining = 0): projected = earned/combined.
+  -- ========================================================================
+  RETURN QUERY SELECT
+    v_combined_cents,
+    v_earned_cents,
+    v_avg_daily_earned,
+    v_avg_daily_billed,
+    v_total_wd,
+    v_completed_wd,
+    v_remaining_wd,
+    v_holiday_count,
+    -- Projected earned: fixed lump + daily accrual so far + trend * remaining
+    v_fixed_lump_cents + v_daily_accrual_cents + (v_avg_daily_earned * v_remaining_wd),
+    -- Projected billed: fixed lump + timesheet so far + trend * remaining
+    v_fixed_lump_cents + v_timesheet_revenue_cents + (v_avg_daily_billed * v_remaining_wd),
+    -- Fixed lump revenue (new column)
+    v_fixed_lump_cents;
+END;
+$$;
+
+COMMENT ON FUNCTION get_investor_dashboard_metrics(DATE) IS
+  'Returns pre-calculated investor dashboard metrics for a given month: '
+  'combined revenue, earned revenue, daily averages (based on daily-accruing '
+  'revenue only, excluding fixed billings/milestone lump sums), workday counts, '
+  'holiday count, fixed lump revenue, and projected revenues.';
+
+GRANT EXECUTE ON FUNCTION get_investor_dashboard_metrics TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 10: get_projected_annual_revenue — per-resource vacation days (from 085)
+-- ============================================================================
+-- Remaining-year workdays are company-level (default calendar); vacation days
+-- skip each employee's own holidays.
+
+CREATE OR REPLACE FUNCTION get_projected_annual_revenue()
+RETURNS TABLE (
+  projected_annual_revenue_cents BIGINT,
+  ytd_revenue_cents              BIGINT,
+  avg_daily_revenue_cents        BIGINT,
+  remaining_year_workdays        INTEGER,
+  ft_vacation_days               INTEGER,
+  pt_vacation_days               INTEGER,
+  avg_rate                       NUMERIC,
+  completed_workdays             INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_today           DATE := CURRENT_DATE;
+  v_current_year    INTEGER := EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER;
+  v_year_start      DATE := MAKE_DATE(v_current_year, 1, 1);
+  v_year_end        DATE := MAKE_DATE(v_current_year, 12, 31);
+  v_month_start     DATE := DATE_TRUNC('month', v_today)::DATE;
+  v_month_end       DATE := (v_month_start + INTERVAL '1 month - 1 day')::DATE;
+
+  v_ytd_revenue_cents BIGINT;
+  v_earned_sum_cents   BIGINT;
+  v_completed_wd       INTEGER;
+  v_avg_daily_earned   BIGINT;
+  v_remaining_year_wd  INTEGER;
+  v_ft_vac_days        INTEGER;
+  v_pt_vac_days        INTEGER;
+  v_avg_rate           NUMERIC;
+  v_projected_cents    BIGINT;
+BEGIN
+  -- 1. YTD Revenue (unchanged — from combined revenue view)
+  SELECT COALESCE(SUM(cr.combined_revenue_cents), 0)
+  INTO v_ytd_revenue_cents
+  FROM v_combined_revenue_by_company_month cr
+  WHERE cr.summary_month >= v_year_start
+    AND cr.summary_month <= v_month_end;
+
+  -- 2. Average Daily Revenue for current month — FROM ACTUAL ENTRIES
+  --    This matches the frontend's aggregateDailyRevenue() function:
+  --    For each timesheet entry in the current month with work_date < today,
+  --    earned = (total_minutes / 60.0) * effective_rate for the canonical project.
+  --
+  --    Join chain:
+  --      timesheet_daily_rollups.project_id (TEXT)
+  --      -> projects.project_id (TEXT) to get projects.id (UUID)
+  --      -> v_project_canonical to get canonical_project_id (UUID)
+  --      -> rates from get_all_project_rates_for_month keyed by canonical UUID
+  --
+  --    Note: We use a subquery on get_all_project_rates_for_month to build
+  --    a rate lookup by canonical project UUID. Member projects' entries are
+  --    mapped to their primary project's rate via v_project_canonical.
+
+  WITH project_rates AS (
+    -- Get effective rate for each canonical project this month
+    SELECT
+      r.project_id AS canonical_uuid,
+      r.effective_rate
+    FROM get_all_project_rates_for_month(v_month_start) r
+  ),
+  entry_earned AS (
+    -- Calculate earned revenue per entry for current month, work_date < today
+    SELECT
+      ROUND((tdr.total_minutes / 60.0) * pr.effective_rate * 100)::BIGINT AS earned_cents
+    FROM timesheet_daily_rollups tdr
+    -- Map external project_id (TEXT) to projects.id (UUID)
+    JOIN projects p ON p.project_id = tdr.project_id
+    -- Map to canonical project UUID
+    JOIN v_project_canonical vpc ON vpc.project_id = p.id
+    -- Get rate for the canonical project
+    JOIN project_rates pr ON pr.canonical_uuid = vpc.canonical_project_id
+    WHERE tdr.work_date >= v_month_start
+      AND tdr.work_date < v_today
+      AND tdr.total_minutes > 0
+  )
+  SELECT COALESCE(SUM(earned_cents), 0)
+  INTO v_earned_sum_cents
+  FROM entry_earned;
+
+  -- Completed workdays in current month (same as before — month start through yesterday)
+  IF v_today <= v_month_start THEN
+    v_completed_wd := 0;
+  ELSE
+    SELECT COUNT(*)::INTEGER
+    INTO v_completed_wd
+    FROM generate_series(v_month_start, (v_today - INTERVAL '1 day')::DATE, '1 day'::INTERVAL) d(day)
+    WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+      AND NOT EXISTS (
+        SELECT 1 FROM v_default_calendar_holidays bh
+        WHERE bh.holiday_date = d.day::DATE
+      );
+  END IF;
+
+  -- avgDailyRevenue = earnedSum / completedWorkdays (matching frontend exactly)
+  IF v_completed_wd > 0 THEN
+    v_avg_daily_earned := v_earned_sum_cents / v_completed_wd;
+  ELSE
+    v_avg_daily_earned := 0;
+  END IF;
+
+  -- 3. Remaining Year Workdays (company-level: default calendar)
+  SELECT COUNT(*)::INTEGER
+  INTO v_remaining_year_wd
+  FROM generate_series(v_today, v_year_end, '1 day'::INTERVAL) d(day)
+  WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+    AND NOT EXISTS (
+      SELECT 1 FROM v_default_calendar_holidays bh
+      WHERE bh.holiday_date = d.day::DATE
+    );
+
+  -- 4. Vacation Days by Employment Type (each employee's own holiday calendar)
+  WITH employee_pto AS (
+    SELECT
+      eto.id AS time_off_id,
+      eto.start_date::DATE AS start_dt,
+      eto.end_date::DATE AS end_dt,
+      CASE
+        WHEN et.name = 'Full-time' THEN 'FT'
+        WHEN et.name = 'Part-time' THEN 'PT'
+      END AS emp_type,
+      COALESCE(r.holiday_calendar_id, default_holiday_calendar_id()) AS calendar_id
+    FROM employee_time_off eto
+    JOIN v_employee_table_entities vete
+      ON (
+        eto.resource_id = vete.id
+        OR eto.employee_name = TRIM(COALESCE(vete.first_name, '') || ' ' || COALESCE(vete.last_name, ''))
+      )
+    JOIN employment_types et ON et.id = vete.employment_type_id
+    -- v_employee_table_entities predates holiday_calendar_id (r.* is resolved
+    -- at view creation), so read the assignment from resources
+    JOIN resources r ON r.id = vete.id
+    WHERE et.name IN ('Full-time', 'Part-time')
+      AND eto.status = 'approved'
+      AND eto.start_date::DATE <= v_year_end
+      AND eto.end_date::DATE >= v_today
+  ),
+  pto_workdays AS (
+    SELECT
+      ep.emp_type,
+      d.day::DATE AS pto_day
+    FROM employee_pto ep
+    CROSS JOIN LATERAL generate_series(
+      GREATEST(ep.start_dt, v_today),
+      LEAST(ep.end_dt, v_year_end),
+      '1 day'::INTERVAL
+    ) d(day)
+    WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+      AND NOT EXISTS (
+        SELECT 1 FROM calendar_holidays ch
+        WHERE ch.calendar_id = ep.calendar_id
+          AND ch.holiday_date = d.day::DATE
+      )
+  )
+  SELECT
+    COALESCE(SUM(CASE WHEN emp_type = 'FT' THEN 1 ELSE 0 END), 0)::INTEGER,
+    COALESCE(SUM(CASE WHEN emp_type = 'PT' THEN 1 ELSE 0 END), 0)::INTEGER
+  INTO v_ft_vac_days, v_pt_vac_days
+  FROM pto_workdays;
+
+  -- 5. Average Rate (unchanged)
+  SELECT COALESCE(AVG(sub.effective_rate), 0)
+  INTO v_avg_rate
+  FROM get_all_project_rates_for_month(v_month_start) sub
+  WHERE sub.effective_rate > 0;
+
+  -- 6. Compute projected annual revenue (unchanged formula)
+  v_projected_cents := v_ytd_revenue_cents
+    + (v_avg_daily_earned * v_remaining_year_wd)
+    - ROUND(v_ft_vac_days * 8 * v_avg_rate * 100)::BIGINT
+    - ROUND(v_pt_vac_days * 5 * v_avg_rate * 100)::BIGINT;
+
+  -- 7. Return
+  RETURN QUERY SELECT
+    v_projected_cents,
+    v_ytd_revenue_cents,
+    v_avg_daily_earned,
+    v_remaining_year_wd,
+    v_ft_vac_days,
+    v_pt_vac_days,
+    v_avg_rate,
+    v_completed_wd;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 11: get_investor_utilization_by_month — per-resource calendars (from 122)
+-- ============================================================================
+-- Ports the InvestorDashboardPage inline utilization formula into SQL:
+--   utilization = worked hours / available hours
+--   available  = per-resource hours/day × working days (weekdays minus the
+--                resource's own calendar_holidays, default calendar when
+--                unassigned) − approved time-off (employee_time_off overlap,
+--                working days only).
+--   hours/day  : Full-time = 8, Part-time = 4, otherwise (contractor / hourly)
+--                = expected_hours / working_days_in_month (monthly expected
+--                spread across the month), falling back to 8 when unknown.
+--
+-- NOTE: This is the INCLUDE-CONTRACTORS basis (per product decision). It
+-- intentionally differs from the page's existing FT+PT-only inline number,
+-- which this migration does NOT modify.
+--
+-- F3 — POPULATION CONSISTENCY: the worked-minutes NUMERATOR and the available-
+-- hours DENOMINATOR are now the SAME entity universe (v_employee_table_entities,
+-- the canonical, member-excluded capacity set, which already includes
+-- contractors). Worked minutes are aggregated to canonical_entity_id, then
+-- joined to the capacity set on resource_id = canonical_entity_id. Worked
+-- minutes whose canonical entity is NOT in the capacity set (e.g. unmapped
+-- timesheet users with no resource association) are EXCLUDED from both the
+-- numerator and the resource count — they cannot be measured against a capacity
+-- and would otherwise produce a spurious >100%. This removes the previous
+-- asymmetry (member-vs-primary / capacity-vs-worked mismatch) that allowed silent
+-- >100% utilization.
+-- ----------------------------------------------------------------------------
+DROP FUNCTION IF EXISTS get_investor_utilization_by_month(date, date);
+
+CREATE FUNCTION get_investor_utilization_by_month(
+  p_start date DEFAULT NULL,
+  p_end   date DEFAULT NULL
+)
+RETURNS TABLE (
+  summary_month    date,
+  utilization_pct  numeric,
+  worked_hours     numeric,
+  available_hours  numeric,
+  resource_count   integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH bounds AS (
+    -- This function is GENERATOR-driven (generate_series fabricates a row per
+    -- month and CROSS JOINs the capacity set), unlike the sibling functions which
+    -- are DATA-driven aggregations (they survive a '1900-01-01' floor because no
+    -- source rows precede the first activity month, so GROUP BY never emits them).
+    -- Here a '1900-01-01' floor would manufacture ~1500 phantom months, each with
+    -- worked_hours=0 / resource_count=0 but a non-zero available_hours (capacity
+    -- computed against working days that predate ALL data). So when p_start is
+    -- NULL we resolve the floor from data — the first month with timesheet
+    -- activity — mirroring how the data-driven siblings effectively begin at the
+    -- first month that has rows. When p_end is NULL we resolve to the last
+    -- COMPLETED month (current month minus one), since the in-progress current
+    -- month is excluded everywhere. An explicit p_start/p_end is honored as-is
+    -- (month-truncated), so the hook/page contract is unchanged.
+    SELECT
+      DATE_TRUNC(
+        'month',
+        COALESCE(
+          p_start,
+          (SELECT MIN(work_date) FROM timesheet_daily_rollups),
+          CURRENT_DATE  -- empty-table guard; yields an empty range below
+        )
+      )::date AS lo,
+      LEAST(
+        DATE_TRUNC('month', COALESCE(p_end, CURRENT_DATE))::date,
+        -- never emit the in-progress current month
+        (DATE_TRUNC('month', CURRENT_DATE) - INTERVAL '1 month')::date
+      ) AS hi,
+      DATE_TRUNC('month', CURRENT_DATE)::date AS cur
+  ),
+  -- Completed months in range (in-progress current month already excluded via the
+  -- resolved hi). Bounded to [lo, hi]; no pre-data 1900 months are generated.
+  months AS (
+    SELECT gs::date AS summary_month
+    FROM bounds b, generate_series(b.lo, b.hi, '1 month'::interval) gs
+    WHERE gs::date < b.cur
+  ),
+  -- Working days per month per holiday calendar (weekdays minus holidays).
+  working_days AS (
+    SELECT
+      m.summary_month,
+      hc.id AS calendar_id,
+      COUNT(*) FILTER (
+        WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+          AND NOT EXISTS (
+            SELECT 1 FROM calendar_holidays ch
+            WHERE ch.calendar_id = hc.id AND ch.holiday_date = d.day::date
+          )
+      ) AS working_day_count
+    FROM months m
+    CROSS JOIN holiday_calendars hc
+    CROSS JOIN LATERAL generate_series(
+      m.summary_month,
+      (m.summary_month + INTERVAL '1 month - 1 day')::date,
+      '1 day'::interval
+    ) d(day)
+    GROUP BY m.summary_month, hc.id
+  ),
+  -- Canonical (non-member) resources with their per-day hours basis.
+  emp AS (
+    SELECT
+      e.id AS resource_id,
+      TRIM(COALESCE(e.first_name, '') || ' ' || COALESCE(e.last_name, '')) AS display_name,
+      e.employment_type_name,
+      e.expected_hours,
+      COALESCE(r.holiday_calendar_id, default_holiday_calendar_id()) AS calendar_id
+    FROM v_employee_table_entities e
+    -- The view predates holiday_calendar_id (r.* resolved at creation)
+    JOIN resources r ON r.id = e.id
+  ),
+  -- Per-resource, per-month available hours (gross, before time-off).
+  emp_month AS (
+    SELECT
+      wd.summary_month,
+      emp.resource_id,
+      emp.display_name,
+      emp.calendar_id,
+      wd.working_day_count,
+      CASE
+        WHEN emp.employment_type_name = 'Full-time' THEN 8.0
+        WHEN emp.employment_type_name = 'Part-time' THEN 4.0
+        WHEN emp.expected_hours IS NOT NULL AND emp.expected_hours > 0 AND wd.working_day_count > 0
+          THEN ROUND(emp.expected_hours::numeric / wd.working_day_count, 4)
+        ELSE 8.0
+      END AS hours_per_day
+    FROM working_days wd
+    JOIN emp ON emp.calendar_id = wd.calendar_id
+  ),
+  -- Approved time-off weekdays per resource per month (overlap clamped).
+  time_off_days AS (
+    SELECT
+      em.summary_month,
+      em.resource_id,
+      COUNT(*) FILTER (
+        WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+          AND NOT EXISTS (
+            SELECT 1 FROM calendar_holidays ch
+            WHERE ch.calendar_id = em.calendar_id AND ch.holiday_date = d.day::date
+          )
+      ) AS pto_weekdays
+    FROM emp_month em
+    JOIN employee_time_off eto
+      ON eto.status = 'approved'
+     AND (eto.resource_id = em.resource_id OR eto.employee_name = em.display_name)
+     AND eto.start_date::date <= (em.summary_month + INTERVAL '1 month - 1 day')::date
+     AND eto.end_date::date   >= em.summary_month
+    CROSS JOIN LATERAL generate_series(
+      GREATEST(eto.start_date::date, em.summary_month),
+      LEAST(eto.end_date::date, (em.summary_month + INTERVAL '1 month - 1 day')::date),
+      '1 day'::interval
+    ) d(day)
+    GROUP BY em.summary_month, em.resource_id
+  ),
+  -- Worked minutes aggregated to CANONICAL ENTITY per month (F3). This is the
+  -- numerator's entity universe; joined to the capacity set below so the two
+  -- sides match. Unmapped users (NULL canonical entity) are produced here but
+  -- get dropped by the INNER-style join to emp_month (no capacity to measure).
+  worked_by_entity AS (
+    SELECT
+      DATE_TRUNC('month', tdr.work_date)::date AS summary_month,
+      vec.canonical_entity_id,
+      SUM(tdr.total_minutes)::numeric / 60.0 AS worked_hours
+    FROM timesheet_daily_rollups tdr
+    LEFT JOIN resource_user_associations rua ON rua.user_id = tdr.user_id
+    LEFT JOIN v_entity_canonical vec ON vec.entity_id = rua.resource_id
+    CROSS JOIN bounds b
+    WHERE tdr.total_minutes > 0
+      AND DATE_TRUNC('month', tdr.work_date)::date BETWEEN b.lo AND b.hi
+      AND DATE_TRUNC('month', tdr.work_date)::date < b.cur
+    GROUP BY DATE_TRUNC('month', tdr.work_date)::date, vec.canonical_entity_id
+  ),
+  -- Per-resource, per-month: available hours (capacity − PTO) joined to that same
+  -- resource's worked hours. emp.resource_id is a canonical (primary/unassociated)
+  -- entity id, which equals worked_by_entity.canonical_entity_id — the SAME
+  -- universe on both sides (F3).
+  resource_month AS (
+    SELECT
+      em.summary_month,
+      em.resource_id,
+      (em.working_day_count - COALESCE(td.pto_weekdays, 0)) * em.hours_per_day AS available_hours,
+      COALESCE(wbe.worked_hours, 0) AS worked_hours
+    FROM emp_month em
+    LEFT JOIN time_off_days td
+      ON td.summary_month = em.summary_month
+     AND td.resource_id = em.resource_id
+    LEFT JOIN worked_by_entity wbe
+      ON wbe.summary_month = em.summary_month
+     AND wbe.canonical_entity_id = em.resource_id
+  )
+  SELECT
+    m.summary_month,
+    CASE WHEN COALESCE(SUM(rm.available_hours), 0) > 0
+      THEN ROUND(SUM(rm.worked_hours) * 100.0 / SUM(rm.available_hours), 2)
+      ELSE NULL
+    END AS utilization_pct,
+    ROUND(COALESCE(SUM(rm.worked_hours), 0), 2) AS worked_hours,
+    ROUND(COALESCE(SUM(rm.available_hours), 0), 2) AS available_hours,
+    -- Resource count = capacity-set members who actually worked this month
+    -- (same universe as numerator/denominator; includes contractors).
+    COUNT(*) FILTER (WHERE rm.worked_hours > 0)::integer AS resource_count
+  FROM months m
+  LEFT JOIN resource_month rm ON rm.summary_month = m.summary_month
+  GROUP BY m.summary_month
+  ORDER BY m.summary_month;
+$$;
+
+COMMENT ON FUNCTION get_investor_utilization_by_month(date, date) IS
+  'Utilization trend per completed month (INCLUDE-CONTRACTORS basis): '
+  'worked hours / available hours, where available = per-resource hours/day '
+  '(FT 8 / PT 4 / else expected_hours per working day, fallback 8) × working '
+  'days (weekdays minus the resource''s holiday calendar, default when '
+  'unassigned) minus approved employee_time_off working days. F3: worked '
+  'minutes are canonicalized to the SAME entity universe as capacity '
+  '(v_employee_table_entities) and joined per-resource, so the numerator '
+  'and denominator populations match; worked minutes for entities outside the '
+  'capacity set (unmapped users) are excluded, removing spurious >100%. '
+  'Intentionally differs from the page''s FT+PT-only inline number (which is NOT '
+  'modified). Excludes the in-progress current month.';
+
+GRANT EXECUTE ON FUNCTION get_investor_utilization_by_month(date, date) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION get_investor_utilization_by_month(date, date) FROM PUBLIC;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+DECLARE
+    v_calendars INTEGER;
+    v_rules INTEGER;
+    v_holidays INTEGER;
+    v_unassigned INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO v_calendars FROM holiday_calendars;
+    SELECT COUNT(*) INTO v_rules FROM holiday_calendar_rules;
+    SELECT COUNT(*) INTO v_holidays FROM calendar_holidays;
+    SELECT COUNT(*) INTO v_unassigned FROM resources WHERE holiday_calendar_id IS NULL;
+
+    IF (SELECT COUNT(*) FROM holiday_calendars WHERE is_default) <> 1 THEN
+        RAISE EXCEPTION 'Expected exactly one default holiday calendar';
+    END IF;
+
+    -- Spot-check both computuses: Orthodox Easter 2025 = Western Easter 2025 = Apr 20,
+    -- Orthodox Easter 2026 = Apr 12, Western Easter 2026 = Apr 5
+    IF holiday_easter_date(2025, 'orthodox') <> DATE '2025-04-20'
+       OR holiday_easter_date(2025, 'western') <> DATE '2025-04-20'
+       OR holiday_easter_date(2026, 'orthodox') <> DATE '2026-04-12'
+       OR holiday_easter_date(2026, 'western') <> DATE '2026-04-05' THEN
+        RAISE EXCEPTION 'holiday_easter_date returned an unexpected date';
+    END IF;
+
+    IF holiday_nth_weekday(2026, 11, 4, 4) <> DATE '2026-11-26'
+       OR holiday_nth_weekday(2026, 5, 1, -1) <> DATE '2026-05-25' THEN
+        RAISE EXCEPTION 'holiday_nth_weekday returned an unexpected date';
+    END IF;
+
+    RAISE NOTICE 'Migration 139 Complete:';
+    RAISE NOTICE '  - Holiday calendars: % (rules: %)', v_calendars, v_rules;
+    RAISE NOTICE '  - calendar_holidays rows: %', v_holidays;
+    RAISE NOTICE '  - Resources on the default calendar: %', v_unassigned;
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- After rolling back, re-apply v_monthly_summary_totals (050) and the functions from 076,
+-- 085 and 122, and recreate sync_bulgarian_holidays from 008.
+-- BEGIN;
+--   DROP VIEW IF EXISTS v_default_calendar_holidays CASCADE;  -- also drops v_monthly_summary_totals
+--   ALTER TABLE resources DROP COLUMN IF EXISTS holiday_calendar_id;
+--   DELETE FROM calendar_holidays
+--   WHERE calendar_id <> (SELECT id FROM holiday_calendars WHERE code = 'BG');
+--   DROP INDEX IF EXISTS idx_calendar_holidays_calendar_date;
+--   ALTER TABLE calendar_holidays DROP COLUMN IF EXISTS calendar_id;
+--   ALTER TABLE calendar_holidays RENAME TO bulgarian_holidays;
+--   ALTER INDEX IF EXISTS idx_calendar_holidays_year RENAME TO idx_bulgarian_holidays_year;
+--   CREATE UNIQUE INDEX IF NOT EXISTS idx_bulgarian_holidays_date ON bulgarian_holidays (holiday_date);
+--   DROP FUNCTION IF EXISTS sync_holiday_calendar(UUID, INTEGER);
+--   DROP FUNCTION IF EXISTS holiday_nth_weekday(INTEGER, INTEGER, INTEGER, INTEGER);
+--   DROP FUNCTION IF EXISTS holiday_easter_date(INTEGER, TEXT);
+--   DROP FUNCTION IF EXISTS default_holiday_calendar_id();
+--   DROP TABLE IF EXISTS holiday_calendar_rules;
+--   DROP TABLE IF EXISTS holiday_calendars;
+-- COMMIT;
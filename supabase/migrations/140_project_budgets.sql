@@ -0,0 +1,419 @@
+-- ============================================================================
+-- Migration 140: Project budgets, burn-down and threshold alerts
+-- ============================================================================
+-- Purpose: projects.target_hours is a single monthly target and
+-- project_monthly_billing_limits caps individual months; nothing tracks a
+-- multi-month budget against actuals over the life of a fixed-bid or capped
+-- project. This migration adds:
+--
+--   1. project_budgets — one budget per project, in hours OR dollars, over an
+--      inclusive month range (start_month .. end_month).
+--   2. get_project_budget_burn(budget) — per-month burn from start_month up to
+--      the current month (or end_month, whichever is earlier):
+--        - hours: mode-resolved rounded minutes from task_monthly_totals
+--          (same canonical grouping and rounding-mode column select as
+--          resolve_project_month_revenue, migration 116)
+--        - dollars: hours x effective rate, REPLACED by the linked
+--          revenue_milestone billing transactions in months where the project
+--          is billed by milestone (migration 116 R11 COALESCE semantics)
+--   3. v_project_budget_status — one row per budget with totals, percent
+--      burned and months elapsed (forecasting happens client-side in
+--      src/utils/projectBudget.ts).
+--   4. check_project_budget_alerts() — raises a sync_alerts row
+--      (alert_type 'project_budget_threshold') when a budget crosses 75 / 90 /
+--      100% burned. One active alert per budget: crossing a higher threshold
+--      updates it and clears any dismissal; dropping below 75% (budget raised
+--      or dates changed) resolves it. Runs hourly via pg_cron and after every
+--      change to project_budgets.
+--
+-- Mirrors existing precedent:
+--   - migration 078 (sync_alerts: one active alert per alert_type + entity_id,
+--     auto-resolved when the underlying data is fixed)
+--   - migration 116 (canonical grouping, rounding mode, milestone override)
+--   - migration 114 (direct-mode pg_cron calling an in-DB function)
+--   - migration 139 (authenticated read, is_admin() write)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- DROP ... IF EXISTS; an existing cron job of the same name is replaced).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: project_budgets
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS project_budgets (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id      UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    budget_type     TEXT NOT NULL CHECK (budget_type IN ('hours', 'dollars')),
+    budget_hours    NUMERIC(10,2),
+    budget_cents    BIGINT,
+    start_month     DATE NOT NULL,
+    end_month       DATE NOT NULL,
+    notes           TEXT,
+    created_by      UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT uq_project_budgets_project UNIQUE (project_id),
+    CONSTRAINT chk_project_budgets_months CHECK (
+        EXTRACT(DAY FROM start_month) = 1
+        AND EXTRACT(DAY FROM end_month) = 1
+        AND end_month >= start_month
+    ),
+    CONSTRAINT chk_project_budgets_amount CHECK (
+        (budget_type = 'hours' AND budget_hours > 0 AND budget_cents IS NULL)
+        OR (budget_type = 'dollars' AND budget_cents > 0 AND budget_hours IS NULL)
+    )
+);
+
+COMMENT ON TABLE project_budgets IS
+    'Multi-month budget per project (hours or USD cents) over start_month..end_month '
+    'inclusive. Burn is computed by get_project_budget_burn().';
+COMMENT ON COLUMN project_budgets.project_id IS
+    'Internal projects.id. Members of a project group burn against their primary project.';
+
+DROP TRIGGER IF EXISTS trg_project_budgets_updated_at ON project_budgets;
+CREATE TRIGGER trg_project_budgets_updated_at
+    BEFORE UPDATE ON project_budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- STEP 2: RLS + grants
+-- ============================================================================
+
+ALTER TABLE project_budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read project budgets" ON project_budgets;
+CREATE POLICY "Allow authenticated read project budgets"
+    ON project_budgets FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Allow admin write project budgets" ON project_budgets;
+CREATE POLICY "Allow admin write project budgets"
+    ON project_budgets FOR ALL TO authenticated
+    USING (is_admin()) WITH CHECK (is_admin());
+DROP POLICY IF EXISTS "Allow service role full access project budgets" ON project_budgets;
+CREATE POLICY "Allow service role full access project budgets"
+    ON project_budgets FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON project_budgets TO authenticated;
+GRANT ALL ON project_budgets TO service_role;
+REVOKE ALL ON project_budgets FROM anon;
+
+-- ============================================================================
+-- STEP 3: get_project_budget_burn
+-- ============================================================================
+-- Months are bounded by the current month in Europe/Sofia. A budget that has
+-- not started yet returns no rows.
+
+CREATE OR REPLACE FUNCTION get_project_budget_burn(p_budget_id UUID)
+RETURNS TABLE (
+    summary_month       DATE,
+    burn_hours          NUMERIC,
+    burn_cents          BIGINT,
+    cumulative_hours    NUMERIC,
+    cumulative_cents    BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    WITH budget AS (
+        SELECT pb.start_month,
+            LEAST(pb.end_month, date_trunc('month', NOW() AT TIME ZONE 'Europe/Sofia')::DATE) AS last_month,
+            COALESCE(
+                (SELECT pg.primary_project_id
+                 FROM project_groups pg
+                 JOIN project_group_members pgm ON pgm.group_id = pg.id
+                 WHERE pgm.member_project_id = pb.project_id),
+                pb.project_id
+            ) AS project_id
+        FROM project_budgets pb
+        WHERE pb.id = p_budget_id
+    ),
+    months AS (
+        SELECT b.project_id, gs::DATE AS summary_month
+        FROM budget b
+        CROSS JOIN generate_series(b.start_month, b.last_month, INTERVAL '1 month') gs
+    ),
+    monthly AS (
+        SELECT m.summary_month,
+            COALESCE(t.minutes, 0) / 60.0 AS hours,
+            ms.total_cents AS milestone_cents,
+            COALESCE(rt.effective_rate, get_default_rate()) AS rate
+        FROM months m
+        LEFT JOIN LATERAL get_effective_project_rounding(m.project_id, m.summary_month) rnd ON true
+        LEFT JOIN LATERAL get_effective_project_rate(m.project_id, m.summary_month) rt ON true
+        LEFT JOIN LATERAL (
+            SELECT SUM(CASE WHEN COALESCE(rnd.effective_rounding_mode, 'task') = 'entry'
+                            THEN tmt.rounded_entry_minutes
+                            ELSE tmt.rounded_task_minutes
+                       END) AS minutes
+            FROM task_monthly_totals tmt
+            WHERE tmt.project_id = m.project_id
+              AND tmt.summary_month = m.summary_month
+        ) t ON true
+        LEFT JOIN LATERAL (
+            SELECT COALESCE(SUM(bt.amount_cents), 0) AS total_cents
+            FROM billings b
+            LEFT JOIN billing_transactions bt
+              ON bt.billing_id = b.id
+              AND bt.transaction_month = m.summary_month
+            WHERE b.type = 'revenue_milestone'
+              AND b.linked_project_id = m.project_id
+            HAVING COUNT(b.id) > 0
+        ) ms ON true
+    )
+    SELECT monthly.summary_month,
+        ROUND(monthly.hours, 2) AS burn_hours,
+        COALESCE(monthly.milestone_cents, ROUND(monthly.hours * monthly.rate * 100))::BIGINT AS burn_cents,
+        ROUND(SUM(monthly.hours) OVER w, 2) AS cumulative_hours,
+        (SUM(COALESCE(monthly.milestone_cents, ROUND(monthly.hours * monthly.rate * 100))) OVER w)::BIGINT AS cumulative_cents
+    FROM monthly
+    WINDOW w AS (ORDER BY monthly.summary_month)
+    ORDER BY monthly.summary_month;
+$$;
+
+COMMENT ON FUNCTION get_project_budget_burn(UUID) IS
+    'Per-month and cumulative burn for a project budget up to the current month. '
+    'Hours are mode-resolved rounded task_monthly_totals; dollars are hours x '
+    'effective rate, or the linked milestone billings for milestone-billed projects.';
+
+REVOKE ALL ON FUNCTION get_project_budget_burn(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_project_budget_burn(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION get_project_budget_burn(UUID) TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 4: v_project_budget_status
+-- ============================================================================
+
+CREATE OR REPLACE VIEW v_project_budget_status AS
+SELECT pb.id,
+    pb.project_id,
+    p.project_id AS external_project_id,
+    p.project_name,
+    p.company_id,
+    COALESCE(c.display_name, c.client_name) AS company_name,
+    pb.budget_type,
+    pb.budget_hours,
+    pb.budget_cents,
+    pb.start_month,
+    pb.end_month,
+    pb.notes,
+    COALESCE(burn.burned_hours, 0) AS burned_hours,
+    COALESCE(burn.burned_cents, 0)::BIGINT AS burned_cents,
+    ROUND(
+        CASE pb.budget_type
+            WHEN 'hours' THEN COALESCE(burn.burned_hours, 0) / pb.budget_hours
+            ELSE COALESCE(burn.burned_cents, 0)::NUMERIC / pb.budget_cents
+        END * 100, 1
+    ) AS burn_pct,
+    COALESCE(burn.months_elapsed, 0)::INTEGER AS months_elapsed,
+    ((EXTRACT(YEAR FROM pb.end_month) - EXTRACT(YEAR FROM pb.start_month)) * 12
+        + EXTRACT(MONTH FROM pb.end_month) - EXTRACT(MONTH FROM pb.start_month) + 1)::INTEGER AS months_total,
+    pb.created_at,
+    pb.updated_at
+FROM project_budgets pb
+JOIN projects p ON p.id = pb.project_id
+LEFT JOIN companies c ON c.id = p.company_id
+LEFT JOIN LATERAL (
+    SELECT SUM(b.burn_hours) AS burned_hours,
+        SUM(b.burn_cents) AS burned_cents,
+        COUNT(*) AS months_elapsed
+    FROM get_project_budget_burn(pb.id) b
+) burn ON true;
+
+COMMENT ON VIEW v_project_budget_status IS
+    'One row per project budget: burned hours/cents to date, percent of budget '
+    'burned and months elapsed vs total.';
+
+GRANT SELECT ON v_project_budget_status TO authenticated, service_role;
+REVOKE ALL ON v_project_budget_status FROM anon;
+
+-- ============================================================================
+-- STEP 5: check_project_budget_alerts
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION check_project_budget_alerts()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    r                   RECORD;
+    v_threshold         INTEGER;
+    v_alert_id          UUID;
+    v_alert_threshold   INTEGER;
+    v_title             TEXT;
+    v_detail            TEXT;
+    v_metadata          JSONB;
+    v_changed           INTEGER := 0;
+    v_resolved          INTEGER;
+BEGIN
+    FOR r IN SELECT * FROM v_project_budget_status LOOP
+        v_threshold := CASE
+            WHEN r.burn_pct >= 100 THEN 100
+            WHEN r.burn_pct >= 90 THEN 90
+            WHEN r.burn_pct >= 75 THEN 75
+        END;
+
+        v_alert_id := NULL;
+        v_alert_threshold := NULL;
+        SELECT sa.id, (sa.metadata->>'threshold')::INTEGER
+        INTO v_alert_id, v_alert_threshold
+        FROM sync_alerts sa
+        WHERE sa.alert_type = 'project_budget_threshold'
+          AND sa.entity_id = r.id::TEXT
+          AND sa.resolved_at IS NULL;
+
+        IF v_threshold IS NULL THEN
+            IF v_alert_id IS NOT NULL THEN
+                UPDATE sync_alerts SET resolved_at = NOW(), updated_at = NOW()
+                WHERE id = v_alert_id;
+                v_changed := v_changed + 1;
+            END IF;
+            CONTINUE;
+        END IF;
+
+        v_title := CASE WHEN v_threshold = 100
+            THEN format('%s is over budget', r.project_name)
+            ELSE format('%s has used %s%% of its budget', r.project_name, v_threshold)
+        END;
+        v_detail := CASE r.budget_type
+            WHEN 'hours' THEN format('%s of %s hours burned (%s%%), %s to %s.',
+                r.burned_hours, r.budget_hours, r.burn_pct,
+                to_char(r.start_month, 'Mon YYYY'), to_char(r.end_month, 'Mon YYYY'))
+            ELSE format('$%s of $%s burned (%s%%), %s to %s.',
+                to_char(r.burned_cents / 100.0, 'FM999,999,990.00'),
+                to_char(r.budget_cents / 100.0, 'FM999,999,990.00'), r.burn_pct,
+                to_char(r.start_month, 'Mon YYYY'), to_char(r.end_month, 'Mon YYYY'))
+        END;
+        v_metadata := jsonb_build_object(
+            'threshold', v_threshold,
+            'burn_pct', r.burn_pct,
+            'budget_type', r.budget_type,
+            'project_id', r.project_id
+        );
+
+        IF v_alert_id IS NULL THEN
+            INSERT INTO sync_alerts (
+                alert_type, severity, title, detail, entity_type, entity_id, entity_name, metadata
+            ) VALUES (
+                'project_budget_threshold',
+                CASE WHEN v_threshold = 100 THEN 'error' ELSE 'warning' END,
+                v_title, v_detail, 'project_budget', r.id::TEXT, r.project_name, v_metadata
+            );
+            v_changed := v_changed + 1;
+        ELSIF v_alert_threshold IS DISTINCT FROM v_threshold THEN
+            -- New threshold: refresh and re-surface a dismissed alert
+            UPDATE sync_alerts
+            SET severity = CASE WHEN v_threshold = 100 THEN 'error' ELSE 'warning' END,
+                title = v_title,
+                detail = v_detail,
+                entity_name = r.project_name,
+                metadata = v_metadata,
+                dismissed_at = NULL,
+                dismissed_by = NULL,
+                updated_at = NOW()
+            WHERE id = v_alert_id;
+            v_changed := v_changed + 1;
+        ELSE
+            -- Same threshold: keep figures current, leave dismissal alone
+            UPDATE sync_alerts
+            SET detail = v_detail, metadata = v_metadata, updated_at = NOW()
+            WHERE id = v_alert_id
+              AND (detail IS DISTINCT FROM v_detail OR metadata IS DISTINCT FROM v_metadata);
+        END IF;
+    END LOOP;
+
+    -- Budgets that were deleted
+    UPDATE sync_alerts sa
+    SET resolved_at = NOW(), updated_at = NOW()
+    WHERE sa.alert_type = 'project_budget_threshold'
+      AND sa.resolved_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM project_budgets pb WHERE pb.id::TEXT = sa.entity_id);
+    GET DIAGNOSTICS v_resolved = ROW_COUNT;
+
+    RETURN v_changed + v_resolved;
+END;
+$$;
+
+COMMENT ON FUNCTION check_project_budget_alerts() IS
+    'Raises, escalates or resolves project_budget_threshold alerts in sync_alerts '
+    'at 75/90/100% of budget burned. Returns the number of alerts changed.';
+
+REVOKE ALL ON FUNCTION check_project_budget_alerts() FROM PUBLIC;
+REVOKE ALL ON FUNCTION check_project_budget_alerts() FROM anon;
+GRANT EXECUTE ON FUNCTION check_project_budget_alerts() TO service_role;
+
+-- Re-check after any budget change so a new or edited budget alerts at once
+CREATE OR REPLACE FUNCTION trg_check_project_budget_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    PERFORM check_project_budget_alerts();
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_project_budgets_alerts ON project_budgets;
+CREATE TRIGGER trg_project_budgets_alerts
+    AFTER INSERT OR UPDATE OR DELETE ON project_budgets
+    FOR EACH STATEMENT
+    EXECUTE FUNCTION trg_check_project_budget_alerts();
+
+-- ============================================================================
+-- STEP 6: Hourly alert check (direct mode, in-DB call)
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'check-project-budget-alerts') THEN
+        PERFORM cron.unschedule('check-project-budget-alerts');
+    END IF;
+
+    PERFORM cron.schedule(
+        'check-project-budget-alerts',
+        '20 * * * *',
+        $cmd$ SELECT check_project_budget_alerts(); $cmd$
+    );
+END $$;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'check-project-budget-alerts') THEN
+        RAISE EXCEPTION 'check-project-budget-alerts cron job was not scheduled';
+    END IF;
+
+    RAISE NOTICE 'Migration 140 Complete:';
+    RAISE NOTICE '  - project_budgets table (hours or dollars, start..end month)';
+    RAISE NOTICE '  - get_project_budget_burn() + v_project_budget_status';
+    RAISE NOTICE '  - check_project_budget_alerts() at 75/90/100%% (hourly at :20 and on budget change)';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- BEGIN;
+--   SELECT cron.unschedule('check-project-budget-alerts');
+--   DROP TRIGGER IF EXISTS trg_project_budgets_alerts ON project_budgets;
+--   DROP FUNCTION IF EXISTS trg_check_project_budget_alerts();
+--   DROP FUNCTION IF EXISTS check_project_budget_alerts();
+--   DROP VIEW IF EXISTS v_project_budget_status;
+--   DROP FUNCTION IF EXISTS get_project_budget_burn(UUID);
+--   DROP TABLE IF EXISTS project_budgets;
+--   UPDATE sync_alerts SET resolved_at = NOW()
+--     WHERE alert_type = 'project_budget_threshold' AND resolved_at IS NULL;
+-- COMMIT;
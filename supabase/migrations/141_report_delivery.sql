@@ -0,0 +1,324 @@
+-- ============================================================================
+-- Migration 141: Scheduled report delivery — recipients, schedules, delivery log
+-- ============================================================================
+-- Purpose: EOM reports (migration 067) are generated but never delivered, and
+-- weekly reports (migration 071) are emailed by send-weekly-revenue-report to
+-- a fixed audience (project managers of projects with send_weekly_report).
+-- This migration adds a delivery subsystem used by the deliver-reports edge
+-- function:
+--
+--   1. report_recipients — per-company, per-report-type recipient list with
+--      to / cc addressing. A company with at least one active weekly
+--      recipient is delivered by deliver-reports instead of the legacy PM
+--      email (send-weekly-revenue-report still generates its CSV).
+--   2. report_schedules — one row per report type: enabled flag, send day and
+--      UTC hour, subject/body templates ({{company}}, {{period}}, …) and which
+--      attachments to include. EOM can also attach the client invoice PDF
+--      (migration 137).
+--   3. report_deliveries — delivery log: who it went to, status
+--      (queued / sent / failed / bounced), attempt count with next_retry_at
+--      backoff, provider message id and bounce reason. Scheduled deliveries
+--      carry a unique schedule_key so the hourly run sends each company-period
+--      once; manual "send now / resend" rows have no key.
+--   4. v_report_delivery_latest — latest delivery per report, for the
+--      Reports page status badges.
+--   5. Hourly pg_cron job calling deliver-reports (scheduled sends + retries).
+--
+-- Mirrors existing precedent:
+--   - migration 070 / 072 (net.http_post edge-function crons via the
+--     manifest-service-role-key vault secret)
+--   - migration 138 (qbo_invoice_log-style status + error log, admin write)
+--   - migration 139 (authenticated read, is_admin() write)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- ON CONFLICT DO NOTHING; an existing cron job of the same name is replaced).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: report_recipients
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS report_recipients (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    company_id      UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    report_type     TEXT NOT NULL CHECK (report_type IN ('eom', 'weekly')),
+    email           TEXT NOT NULL CHECK (email = LOWER(BTRIM(email)) AND email LIKE '%_@_%._%'),
+    name            TEXT,
+    recipient_kind  TEXT NOT NULL DEFAULT 'to' CHECK (recipient_kind IN ('to', 'cc')),
+    is_active       BOOLEAN NOT NULL DEFAULT true,
+    created_by      UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT uq_report_recipients_email UNIQUE (company_id, report_type, email)
+);
+
+COMMENT ON TABLE report_recipients IS
+    'Who receives each company''s EOM / weekly report emails. Addresses are '
+    'stored lower-cased; recipient_kind is to or cc.';
+
+CREATE INDEX IF NOT EXISTS idx_report_recipients_company
+    ON report_recipients (company_id, report_type) WHERE is_active;
+
+DROP TRIGGER IF EXISTS trg_report_recipients_updated_at ON report_recipients;
+CREATE TRIGGER trg_report_recipients_updated_at
+    BEFORE UPDATE ON report_recipients
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- STEP 2: report_schedules (one row per report type, seeded)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS report_schedules (
+    report_type         TEXT PRIMARY KEY CHECK (report_type IN ('eom', 'weekly')),
+    is_enabled          BOOLEAN NOT NULL DEFAULT false,
+    day_of_week         SMALLINT NOT NULL DEFAULT 1 CHECK (day_of_week BETWEEN 0 AND 6),
+    day_of_month        SMALLINT NOT NULL DEFAULT 2 CHECK (day_of_month BETWEEN 1 AND 28),
+    send_hour_utc       SMALLINT NOT NULL DEFAULT 13 CHECK (send_hour_utc BETWEEN 0 AND 23),
+    subject_template    TEXT NOT NULL,
+    body_template       TEXT NOT NULL,
+    attach_csv          BOOLEAN NOT NULL DEFAULT true,
+    attach_invoice_pdf  BOOLEAN NOT NULL DEFAULT false,
+    updated_by          UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT chk_report_schedules_pdf CHECK (report_type = 'eom' OR NOT attach_invoice_pdf)
+);
+
+COMMENT ON TABLE report_schedules IS
+    'Delivery schedule and email templates per report type. Weekly uses '
+    'day_of_week (0 = Sunday) and delivers the prior Mon-Sun week; EOM uses '
+    'day_of_month and delivers the prior month. send_hour_utc is UTC.';
+
+DROP TRIGGER IF EXISTS trg_report_schedules_updated_at ON report_schedules;
+CREATE TRIGGER trg_report_schedules_updated_at
+    BEFORE UPDATE ON report_schedules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Weekly: Monday 13:00 UTC, an hour after send-weekly-revenue-report (070).
+-- EOM: the 2nd at 09:00 UTC, a day after generate-eom-reports (072).
+-- Nothing is sent until a company has recipients.
+INSERT INTO report_schedules (
+    report_type, is_enabled, day_of_week, day_of_month, send_hour_utc,
+    subject_template, body_template, attach_csv, attach_invoice_pdf
+) VALUES
+    (
+        'weekly', true, 1, 2, 13,
+        '{{company}} Weekly Revenue Report - Week of {{period}}',
+        E'Good morning,\n\nAttached is the {{company}} report for the week of {{period}} ({{total_hours}} hours).\n\nPlease review the numbers to confirm they align with the project management system that is used.\n\nBest,\n\nThe Manifest Development Team',
+        true, false
+    ),
+    (
+        'eom', true, 1, 2, 9,
+        '{{company}} {{report_name}} - {{period}}',
+        E'Hello,\n\nAttached is the {{company}} report for {{period}}: {{total_hours}} hours, {{total_revenue}}.\n\nBest,\n\nThe Manifest Development Team',
+        true, true
+    )
+ON CONFLICT (report_type) DO NOTHING;
+
+-- ============================================================================
+-- STEP 3: report_deliveries (delivery log)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS report_deliveries (
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    report_type         TEXT NOT NULL CHECK (report_type IN ('eom', 'weekly')),
+    company_id          UUID NOT NULL REFERENCES companies(id) ON DELETE CASCADE,
+    eom_report_id       UUID REFERENCES eom_reports(id) ON DELETE SET NULL,
+    weekly_report_id    UUID REFERENCES weekly_reports(id) ON DELETE SET NULL,
+    period_key          TEXT NOT NULL,
+    trigger             TEXT NOT NULL CHECK (trigger IN ('schedule', 'manual')),
+    schedule_key        TEXT UNIQUE,
+    to_emails           TEXT[] NOT NULL DEFAULT '{}',
+    cc_emails           TEXT[] NOT NULL DEFAULT '{}',
+    subject             TEXT,
+    status              TEXT NOT NULL DEFAULT 'queued'
+                            CHECK (status IN ('queued', 'sent', 'failed', 'bounced')),
+    attempt_count       INTEGER NOT NULL DEFAULT 0,
+    last_error          TEXT,
+    next_retry_at       TIMESTAMPTZ,
+    provider_message_id TEXT,
+    sent_at             TIMESTAMPTZ,
+    bounced_at          TIMESTAMPTZ,
+    requested_by        UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT chk_report_deliveries_report CHECK (
+        (report_type = 'eom' AND weekly_report_id IS NULL)
+        OR (report_type = 'weekly' AND eom_report_id IS NULL)
+    ),
+    CONSTRAINT chk_report_deliveries_schedule_key CHECK (
+        (trigger = 'schedule') = (schedule_key IS NOT NULL)
+    )
+);
+
+COMMENT ON TABLE report_deliveries IS
+    'One row per report email (scheduled or manual). Failed rows are retried '
+    'by deliver-reports at next_retry_at; bounces are recorded by '
+    'report-delivery-events from the SendGrid Event Webhook.';
+COMMENT ON COLUMN report_deliveries.period_key IS
+    'YYYY-MM for EOM, week start YYYY-MM-DD for weekly.';
+COMMENT ON COLUMN report_deliveries.schedule_key IS
+    'report_type:company_id:period_key for scheduled deliveries — makes the '
+    'hourly run idempotent. NULL for manual sends.';
+
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_report
+    ON report_deliveries (report_type, company_id, period_key, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_retry
+    ON report_deliveries (next_retry_at) WHERE status = 'failed' AND next_retry_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_report_deliveries_provider_message
+    ON report_deliveries (provider_message_id) WHERE provider_message_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS trg_report_deliveries_updated_at ON report_deliveries;
+CREATE TRIGGER trg_report_deliveries_updated_at
+    BEFORE UPDATE ON report_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- STEP 4: RLS + grants
+-- ============================================================================
+-- Recipients and schedules: authenticated read, admin write.
+-- Deliveries: authenticated read; written only by the edge functions.
+
+ALTER TABLE report_recipients ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE report_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read report recipients" ON report_recipients;
+CREATE POLICY "Allow authenticated read report recipients"
+    ON report_recipients FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Allow admin write report recipients" ON report_recipients;
+CREATE POLICY "Allow admin write report recipients"
+    ON report_recipients FOR ALL TO authenticated
+    USING (is_admin()) WITH CHECK (is_admin());
+DROP POLICY IF EXISTS "Allow service role full access report recipients" ON report_recipients;
+CREATE POLICY "Allow service role full access report recipients"
+    ON report_recipients FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow authenticated read report schedules" ON report_schedules;
+CREATE POLICY "Allow authenticated read report schedules"
+    ON report_schedules FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Allow admin update report schedules" ON report_schedules;
+CREATE POLICY "Allow admin update report schedules"
+    ON report_schedules FOR UPDATE TO authenticated
+    USING (is_admin()) WITH CHECK (is_admin());
+DROP POLICY IF EXISTS "Allow service role full access report schedules" ON report_schedules;
+CREATE POLICY "Allow service role full access report schedules"
+    ON report_schedules FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow authenticated read report deliveries" ON report_deliveries;
+CREATE POLICY "Allow authenticated read report deliveries"
+    ON report_deliveries FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Allow service role full access report deliveries" ON report_deliveries;
+CREATE POLICY "Allow service role full access report deliveries"
+    ON report_deliveries FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON report_recipients TO authenticated;
+GRANT SELECT, UPDATE ON report_schedules TO authenticated;
+GRANT SELECT ON report_deliveries TO authenticated;
+GRANT ALL ON report_recipients, report_schedules, report_deliveries TO service_role;
+REVOKE ALL ON report_recipients, report_schedules, report_deliveries FROM anon;
+
+-- ============================================================================
+-- STEP 5: v_report_delivery_latest
+-- ============================================================================
+
+CREATE OR REPLACE VIEW v_report_delivery_latest AS
+SELECT DISTINCT ON (d.report_type, d.company_id, d.period_key)
+    d.id,
+    d.report_type,
+    d.company_id,
+    d.period_key,
+    d.eom_report_id,
+    d.weekly_report_id,
+    d.trigger,
+    d.to_emails,
+    d.cc_emails,
+    d.status,
+    d.attempt_count,
+    d.last_error,
+    d.next_retry_at,
+    d.sent_at,
+    d.bounced_at,
+    d.created_at,
+    COUNT(*) OVER (PARTITION BY d.report_type, d.company_id, d.period_key) AS delivery_count
+FROM report_deliveries d
+ORDER BY d.report_type, d.company_id, d.period_key, d.created_at DESC;
+
+COMMENT ON VIEW v_report_delivery_latest IS
+    'Most recent delivery per report (report_type + company + period), with '
+    'the number of deliveries made for it.';
+
+GRANT SELECT ON v_report_delivery_latest TO authenticated, service_role;
+REVOKE ALL ON v_report_delivery_latest FROM anon;
+
+-- ============================================================================
+-- STEP 6: Hourly delivery run — :05 past every hour
+-- ============================================================================
+-- deliver-reports sends due scheduled deliveries and retries failed ones whose
+-- next_retry_at has passed.
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'deliver-reports') THEN
+        PERFORM cron.unschedule('deliver-reports');
+    END IF;
+END $$;
+
+SELECT cron.schedule(
+  'deliver-reports',
+  '5 * * * *',
+  $$
+  select net.http_post(
+    url := 'https://yptbnsegcfpizwhipeep.supabase.co/functions/v1/deliver-reports',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'manifest-service-role-key' limit 1)
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+DECLARE
+    v_schedules INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO v_schedules FROM report_schedules;
+    IF v_schedules <> 2 THEN
+        RAISE EXCEPTION 'Expected 2 report_schedules rows, found %', v_schedules;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'deliver-reports') THEN
+        RAISE EXCEPTION 'deliver-reports cron job was not scheduled';
+    END IF;
+
+    RAISE NOTICE 'Migration 141 Complete:';
+    RAISE NOTICE '  - report_recipients (to/cc per company and report type)';
+    RAISE NOTICE '  - report_schedules seeded (weekly Mon 13:00 UTC, EOM 2nd 09:00 UTC)';
+    RAISE NOTICE '  - report_deliveries log + v_report_delivery_latest';
+    RAISE NOTICE '  - Scheduled deliver-reports (hourly at :05)';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- BEGIN;
+--   SELECT cron.unschedule('deliver-reports');
+--   DROP VIEW IF EXISTS v_report_delivery_latest;
+--   DROP TABLE IF EXISTS report_deliveries;
+--   DROP TABLE IF EXISTS report_schedules;
+--   DROP TABLE IF EXISTS report_recipients;
+-- COMMIT;
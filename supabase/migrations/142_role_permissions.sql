@@ -0,0 +1,1677 @@
+-- ============================================================================
+-- Migration 142: Role-based permissions with company-scoped project managers
+-- ============================================================================
+-- Purpose: roles were only 'admin' | 'user' (migration 010) and every
+-- authenticated user could read every company's revenue. This migration adds
+-- finer roles and scopes project managers to what they manage:
+--
+--   Role             Data visible                    Writes
+--   admin            everything                      everything (unchanged)
+--   finance          everything                      admin writes + expenses
+--   project_manager  managed companies / projects    none
+--   investor         everything (read only)          none
+--   user             everything (legacy "member")    none
+--
+--   1. user_profiles.resource_id — links a login to its employee resource.
+--      A project manager sees the projects that resource manages in
+--      project_managers (migration 054), expanded to the whole canonical
+--      project group, and the companies (and company groups) that own them.
+--   2. Helpers: app_role(), has_company_wide_access(), can_manage_expenses(),
+--      scoped_project_ids(), scoped_project_external_ids(),
+--      scoped_company_ids(), and get_my_access() for the client.
+--   3. RESTRICTIVE SELECT policies on company / project data so existing
+--      permissive "authenticated read" policies are narrowed for project
+--      managers without being rewritten. Views the app reads those tables
+--      through are switched to security_invoker so the policies apply.
+--   4. Expenses: hidden from project managers; writes open to finance.
+--   5. get_billings_with_transactions() filtered to the caller's scope.
+--   6. admin_update_user_role() accepts the new roles; admin_list_users()
+--      returns resource_id; admin_set_user_resource() sets the scope link.
+--   7. The investor RPCs (migrations 075 / 122-124 / 139) are firm-wide
+--      aggregates; they raise for roles without company-wide access.
+--
+-- Mirrors existing precedent:
+--   - migration 010 (role in auth.users.raw_app_meta_data, SECURITY DEFINER
+--     admin RPCs with last-admin protection)
+--   - migration 066 (EXECUTE format() loop over many objects)
+--   - migration 117 (security_invoker = on so RLS applies through a view)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- DROP ... IF EXISTS).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: user_profiles.resource_id
+-- ============================================================================
+
+ALTER TABLE user_profiles
+    ADD COLUMN IF NOT EXISTS resource_id UUID REFERENCES resources(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_profiles_resource_id_unique
+    ON user_profiles (resource_id)
+    WHERE resource_id IS NOT NULL;
+
+COMMENT ON COLUMN user_profiles.resource_id IS
+    'Employee resource this login belongs to. Scopes project_manager users '
+    'to the projects the resource manages (project_managers).';
+
+-- ============================================================================
+-- STEP 2: Role and scope helpers
+-- ============================================================================
+
+-- Role from the JWT-visible app metadata; users created before roles were
+-- stamped count as 'user'. NULL for an unknown user id.
+CREATE OR REPLACE FUNCTION app_role(p_user_id UUID DEFAULT auth.uid())
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+    SELECT COALESCE(raw_app_meta_data->>'role', 'user')
+    FROM auth.users
+    WHERE id = p_user_id;
+$$;
+
+CREATE OR REPLACE FUNCTION has_company_wide_access(p_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+    SELECT COALESCE(app_role(p_user_id) <> 'project_manager', false);
+$$;
+
+CREATE OR REPLACE FUNCTION can_manage_expenses(p_user_id UUID DEFAULT auth.uid())
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+    SELECT COALESCE(app_role(p_user_id) IN ('admin', 'finance'), false);
+$$;
+
+-- Projects managed by the user's linked resource, expanded to every project
+-- in the same canonical group so member-project time is included.
+CREATE OR REPLACE FUNCTION scoped_project_ids(p_user_id UUID DEFAULT auth.uid())
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT vpc.project_id
+    FROM v_project_canonical vpc
+    WHERE vpc.canonical_project_id IN (
+        SELECT managed.canonical_project_id
+        FROM user_profiles up
+        JOIN project_managers pm ON pm.resource_id = up.resource_id
+        JOIN v_project_canonical managed ON managed.project_id = pm.project_id
+        WHERE up.id = p_user_id
+    );
+$$;
+
+-- External (time-source) project ids of scoped_project_ids(), for tables keyed
+-- by projects.project_id such as timesheet_daily_rollups.
+CREATE OR REPLACE FUNCTION scoped_project_external_ids(p_user_id UUID DEFAULT auth.uid())
+RETURNS SETOF TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT p.project_id
+    FROM projects p
+    WHERE p.id IN (SELECT scoped_project_ids(p_user_id));
+$$;
+
+-- Companies owning scoped projects, expanded to their canonical company group.
+CREATE OR REPLACE FUNCTION scoped_company_ids(p_user_id UUID DEFAULT auth.uid())
+RETURNS SETOF UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT vcc.company_id
+    FROM v_company_canonical vcc
+    WHERE vcc.canonical_company_id IN (
+        SELECT owner.canonical_company_id
+        FROM projects p
+        JOIN v_company_canonical owner ON owner.company_id = p.company_id
+        WHERE p.id IN (SELECT scoped_project_ids(p_user_id))
+    );
+$$;
+
+-- Client-side view of the caller's access. company_ids / project_ids are NULL
+-- for company-wide roles.
+CREATE OR REPLACE FUNCTION get_my_access()
+RETURNS JSON
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_company_wide BOOLEAN := has_company_wide_access();
+BEGIN
+    RETURN json_build_object(
+        'role', app_role(),
+        'resource_id', (SELECT resource_id FROM user_profiles WHERE id = auth.uid()),
+        'company_wide', v_company_wide,
+        'company_ids', CASE WHEN v_company_wide THEN NULL ELSE
+            COALESCE((SELECT json_agg(s.id) FROM scoped_company_ids() AS s(id)), '[]'::json) END,
+        'project_ids', CASE WHEN v_company_wide THEN NULL ELSE
+            COALESCE((SELECT json_agg(s.id) FROM scoped_project_ids() AS s(id)), '[]'::json) END
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION app_role(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION has_company_wide_access(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION can_manage_expenses(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION scoped_project_ids(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION scoped_project_external_ids(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION scoped_company_ids(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_my_access() TO authenticated;
+
+-- ============================================================================
+-- STEP 3: RESTRICTIVE scope policies on company / project data
+-- ============================================================================
+-- RESTRICTIVE policies are AND-ed with the existing permissive ones. The
+-- (SELECT ...) wrappers make Postgres evaluate the helpers once per query
+-- rather than once per row.
+
+DO $$
+DECLARE
+    r RECORD;
+BEGIN
+    FOR r IN
+        SELECT * FROM (VALUES
+            ('companies',                    'id IN (SELECT scoped_company_ids())'),
+            ('projects',                     'id IN (SELECT scoped_project_ids())'),
+            ('timesheet_daily_rollups',      'project_id IN (SELECT scoped_project_external_ids())'),
+            ('project_monthly_summary',      'project_id IN (SELECT scoped_project_ids())'),
+            ('task_monthly_totals',          'project_id IN (SELECT scoped_project_ids())'),
+            ('project_budgets',              'project_id IN (SELECT scoped_project_ids())'),
+            ('billings',                     'company_id IN (SELECT scoped_company_ids())'),
+            ('billing_transactions',         'billing_id IN (SELECT b.id FROM billings b WHERE b.company_id IN (SELECT scoped_company_ids()))'),
+            ('eom_reports',                  'company_id IN (SELECT scoped_company_ids())'),
+            ('weekly_reports',               'company_id IN (SELECT scoped_company_ids())'),
+            ('ar_invoices',                  'company_id IN (SELECT scoped_company_ids())'),
+            ('report_recipients',            'company_id IN (SELECT scoped_company_ids())'),
+            ('report_deliveries',            'company_id IN (SELECT scoped_company_ids())'),
+            ('billing_month_locked_summary', 'project_id IN (SELECT scoped_project_ids())'),
+            ('billing_month_locked_tasks',   'project_id IN (SELECT scoped_project_ids())')
+        ) AS t(table_name, scope_predicate)
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS %I ON %I', 'Restrict read to role scope', r.table_name);
+        EXECUTE format(
+            'CREATE POLICY %I ON %I AS RESTRICTIVE FOR SELECT TO authenticated '
+            'USING ((SELECT has_company_wide_access()) OR %s)',
+            'Restrict read to role scope',
+            r.table_name,
+            r.scope_predicate
+        );
+    END LOOP;
+END $$;
+
+-- Views the app reads scoped tables through. Definer views would bypass the
+-- policies above.
+ALTER VIEW v_timesheet_entries SET (security_invoker = on);
+ALTER VIEW v_eom_report_availability SET (security_invoker = on);
+ALTER VIEW v_weekly_report_availability SET (security_invoker = on);
+ALTER VIEW v_ar_invoice_status SET (security_invoker = on);
+ALTER VIEW v_ar_aging SET (security_invoker = on);
+ALTER VIEW v_project_budget_status SET (security_invoker = on);
+ALTER VIEW v_report_delivery_latest SET (security_invoker = on);
+ALTER VIEW v_combined_revenue_by_company_month SET (security_invoker = on);
+ALTER VIEW v_canonical_project_monthly_summary SET (security_invoker = on);
+ALTER VIEW v_project_table_entities SET (security_invoker = on);
+ALTER VIEW v_employee_project_profit SET (security_invoker = on);
+ALTER VIEW v_monthly_summary_by_company SET (security_invoker = on);
+ALTER VIEW v_monthly_summary_totals SET (security_invoker = on);
+
+-- ============================================================================
+-- STEP 4: Expenses — hidden from project managers, writable by finance
+-- ============================================================================
+
+DO $$
+DECLARE
+    r RECORD;
+BEGIN
+    FOR r IN
+        SELECT * FROM (VALUES
+            ('expenses'),
+            ('expense_source_files')
+        ) AS t(table_name)
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Restrict read to role scope', r.table_name);
+        EXECUTE format(
+            'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR SELECT TO authenticated '
+            'USING ((SELECT has_company_wide_access()))',
+            'Restrict read to role scope',
+            r.table_name
+        );
+    END LOOP;
+
+    FOR r IN
+        SELECT * FROM (VALUES
+            ('expense_source_files',     'expense source files'),
+            ('expense_categories',       'expense categories'),
+            ('expenses',                 'expenses'),
+            ('expense_vendor_rules',     'expense vendor rules'),
+            ('expense_keyword_rules',    'expense keyword rules'),
+            ('expense_translation_dict', 'expense translation dict'),
+            ('expense_fx_rates',         'expense fx rates')
+        ) AS t(table_name, label)
+    LOOP
+        EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Allow admin insert ' || r.label, r.table_name);
+        EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Allow admin update ' || r.label, r.table_name);
+        EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Allow admin delete ' || r.label, r.table_name);
+        EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Allow finance insert ' || r.label, r.table_name);
+        EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Allow finance update ' || r.label, r.table_name);
+        EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', 'Allow finance delete ' || r.label, r.table_name);
+
+        EXECUTE format(
+            'CREATE POLICY %I ON public.%I FOR INSERT TO authenticated WITH CHECK (can_manage_expenses())',
+            'Allow finance insert ' || r.label, r.table_name
+        );
+        EXECUTE format(
+            'CREATE POLICY %I ON public.%I FOR UPDATE TO authenticated '
+            'USING (can_manage_expenses()) WITH CHECK (can_manage_expenses())',
+            'Allow finance update ' || r.label, r.table_name
+        );
+        EXECUTE format(
+            'CREATE POLICY %I ON public.%I FOR DELETE TO authenticated USING (can_manage_expenses())',
+            'Allow finance delete ' || r.label, r.table_name
+        );
+    END LOOP;
+END $$;
+
+-- ============================================================================
+-- STEP 5: get_billings_with_transactions — scoped
+-- ============================================================================
+-- Same signature and body as migration 040, plus the scope filter.
+
+CREATE OR REPLACE FUNCTION get_billings_with_transactions(
+    p_start_month DATE,
+    p_end_month DATE
+)
+RETURNS TABLE (
+    billing_id UUID,
+    company_id UUID,
+    company_client_id TEXT,
+    company_name TEXT,
+    company_display_name TEXT,
+    billing_name TEXT,
+    billing_type transaction_type,
+    linked_project_id UUID,
+    linked_project_name TEXT,
+    transaction_id UUID,
+    transaction_month DATE,
+    amount_cents BIGINT,
+    transaction_description TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        b.id AS billing_id,
+        b.company_id,
+        c.client_id AS company_client_id,
+        c.client_name AS company_name,
+        c.display_name AS company_display_name,
+        b.name AS billing_name,
+        b.type AS billing_type,
+        b.linked_project_id,
+        p.project_name AS linked_project_name,
+        bt.id AS transaction_id,
+        bt.transaction_month,
+        bt.amount_cents,
+        bt.description AS transaction_description
+    FROM billings b
+    JOIN companies c ON c.id = b.company_id
+    LEFT JOIN projects p ON p.id = b.linked_project_id
+    LEFT JOIN billing_transactions bt ON bt.billing_id = b.id
+        AND bt.transaction_month >= date_trunc('month', p_start_month)::DATE
+        AND bt.transaction_month <= date_trunc('month', p_end_month)::DATE
+    WHERE has_company_wide_access()
+       OR b.company_id IN (SELECT scoped_company_ids())
+    ORDER BY
+        COALESCE(c.display_name, c.client_name),
+        b.name,
+        bt.transaction_month DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_billings_with_transactions(DATE, DATE) TO authenticated;
+
+-- ============================================================================
+-- STEP 6: User administration RPCs
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION admin_update_user_role(
+    p_user_id UUID,
+    p_new_role TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+DECLARE
+    v_current_role TEXT;
+    v_admin_count INTEGER;
+BEGIN
+    -- Security check: caller must be admin
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required';
+    END IF;
+
+    -- Validate role
+    IF p_new_role NOT IN ('admin', 'finance', 'project_manager', 'investor', 'user') THEN
+        RAISE EXCEPTION 'Invalid role: must be admin, finance, project_manager, investor or user';
+    END IF;
+
+    -- Get current role
+    SELECT raw_app_meta_data->>'role' INTO v_current_role
+    FROM auth.users WHERE id = p_user_id;
+
+    IF v_current_role IS NULL THEN
+        RAISE EXCEPTION 'User not found';
+    END IF;
+
+    -- If demoting from admin, check if this is the last admin
+    IF v_current_role = 'admin' AND p_new_role <> 'admin' THEN
+        v_admin_count := count_admins();
+        IF v_admin_count <= 1 THEN
+            RAISE EXCEPTION 'Cannot demote the last admin. Promote another user to admin first.';
+        END IF;
+    END IF;
+
+    -- Update the role
+    UPDATE auth.users
+    SET
+        raw_app_meta_data = raw_app_meta_data || jsonb_build_object('role', p_new_role),
+        updated_at = NOW()
+    WHERE id = p_user_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'user_id', p_user_id,
+        'previous_role', v_current_role,
+        'new_role', p_new_role
+    );
+END;
+$$;
+
+-- Link (or unlink, with NULL) a user to their employee resource.
+CREATE OR REPLACE FUNCTION admin_set_user_resource(
+    p_user_id UUID,
+    p_resource_id UUID
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM auth.users WHERE id = p_user_id) THEN
+        RAISE EXCEPTION 'User not found';
+    END IF;
+
+    IF p_resource_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE resource_id = p_resource_id AND id <> p_user_id
+    ) THEN
+        RAISE EXCEPTION 'That employee is already linked to another user';
+    END IF;
+
+    INSERT INTO user_profiles (id, resource_id)
+    VALUES (p_user_id, p_resource_id)
+    ON CONFLICT (id) DO UPDATE SET resource_id = EXCLUDED.resource_id;
+
+    RETURN json_build_object(
+        'success', true,
+        'user_id', p_user_id,
+        'resource_id', p_resource_id
+    );
+END;
+$$;
+
+-- Return type gains resource_id, so the function is dropped and recreated.
+DROP FUNCTION IF EXISTS admin_list_users();
+
+CREATE FUNCTION admin_list_users()
+RETURNS TABLE (
+    id UUID,
+    email TEXT,
+    display_name TEXT,
+    role TEXT,
+    is_verified BOOLEAN,
+    created_at TIMESTAMPTZ,
+    last_sign_in_at TIMESTAMPTZ,
+    resource_id UUID
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public, auth
+AS $$
+BEGIN
+    -- Security check: caller must be admin
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        v.id,
+        v.email,
+        v.display_name,
+        v.role,
+        v.is_verified,
+        v.created_at,
+        v.last_sign_in_at,
+        up.resource_id
+    FROM admin_users_view v
+    LEFT JOIN user_profiles up ON up.id = v.id
+    ORDER BY v.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION admin_update_user_role(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_set_user_resource(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_list_users() TO authenticated;
+
+-- ============================================================================
+-- STEP 7: Investor RPCs — company-wide roles only
+-- ============================================================================
+-- The investor RPCs aggregate revenue, cost and utilization across the whole
+-- firm. Hiding the Investor Dashboard in the app is not enough: any signed-in
+-- user can call them through the API, so each one now refuses scoped roles.
+-- Bodies are unchanged apart from the guard as the first statement.
+
+CREATE OR REPLACE FUNCTION assert_company_wide_access()
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT has_company_wide_access() THEN
+        RAISE EXCEPTION 'Access denied: company-wide access required'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION assert_company_wide_access() TO authenticated;
+
+-- get_investor_dashboard_metrics: migration 139 body plus the guard.
+CREATE OR REPLACE FUNCTION get_investor_dashboard_metrics(p_month DATE)
+RETURNS TABLE (
+  combined_total_revenue_cents   BIGINT,
+  earned_total_revenue_cents     BIGINT,
+  avg_daily_earned_revenue_cents BIGINT,
+  avg_daily_billed_revenue_cents BIGINT,
+  total_workdays                 INTEGER,
+  completed_workdays             INTEGER,
+  remaining_workdays             INTEGER,
+  company_holiday_count          INTEGER,
+  projected_earned_revenue_cents BIGINT,
+  projected_billed_revenue_cents BIGINT,
+  fixed_lump_revenue_cents       BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_month_start DATE;
+  v_month_end   DATE;
+  v_today       DATE := CURRENT_DATE;
+
+  v_combined_cents         BIGINT;
+  v_earned_extra_cents     BIGINT;
+  v_earned_cents           BIGINT;
+  v_timesheet_revenue_cents BIGINT;
+  v_daily_accrual_cents    BIGINT;
+  v_fixed_lump_cents       BIGINT;
+
+  v_total_wd      INTEGER;
+  v_completed_wd  INTEGER;
+  v_remaining_wd  INTEGER;
+  v_holiday_count INTEGER;
+
+  v_avg_daily_earned BIGINT;
+  v_avg_daily_billed BIGINT;
+BEGIN
+  PERFORM assert_company_wide_access();
+
+  -- Normalize to first of month
+  v_month_start := DATE_TRUNC('month', p_month)::DATE;
+  v_month_end   := (v_month_start + INTERVAL '1 month - 1 day')::DATE;
+
+  -- ========================================================================
+  -- 1. Combined (billed) revenue from v_combined_revenue_by_company_month
+  --    This includes: effective_revenue (timesheet w/ milestone overrides)
+  --    + fixed_billing_cents
+  -- ========================================================================
+  SELECT COALESCE(SUM(cr.combined_revenue_cents), 0)
+  INTO v_combined_cents
+  FROM v_combined_revenue_by_company_month cr
+  WHERE cr.summary_month = v_month_start;
+
+  -- ========================================================================
+  -- 2. Timesheet-only billed revenue (daily-accruing, hours * rate)
+  --    This is the raw billed_revenue_cents from ALL canonical projects,
+  --    before milestone overrides replace any values.
+  -- ========================================================================
+  SELECT COALESCE(SUM(pms.billed_revenue_cents), 0)
+  INTO v_timesheet_revenue_cents
+  FROM v_canonical_project_monthly_summary pms
+  WHERE pms.summary_month = v_month_start;
+
+  -- ========================================================================
+  -- 3. Earned extra = rolled-over/unbillable value for non-milestone
+  --    projects (those without milestone_override_cents)
+  -- ========================================================================
+  SELECT COALESCE(SUM(
+    ROUND((pms.carryover_out_hours + pms.unbillable_hours) * pms.rate_used * 100)::BIGINT
+  ), 0)
+  INTO v_earned_extra_cents
+  FROM v_canonical_project_monthly_summary pms
+  WHERE pms.summary_month = v_month_start
+    AND pms.milestone_override_cents IS NULL;
+
+  -- ========================================================================
+  -- 4. Compute daily-accruing vs lump-sum revenue
+  --    - Daily accrual: timesheet billed + earned extra (work-based)
+  --    - Fixed lump: combined - timesheet (fixed billings + milestone deltas)
+  --    - Total earned: combined + earned extra (unchanged from before)
+  -- ========================================================================
+  v_daily_accrual_cents := v_timesheet_revenue_cents + v_earned_extra_cents;
+  v_fixed_lump_cents    := v_combined_cents - v_timesheet_revenue_cents;
+  v_earned_cents        := v_combined_cents + v_earned_extra_cents;
+
+  -- ========================================================================
+  -- 5. Company holidays (weekday holidays in this month)
+  -- ========================================================================
+  SELECT COUNT(*)::INTEGER
+  INTO v_holiday_count
+  FROM v_default_calendar_holidays bh
+  WHERE bh.holiday_date >= v_month_start
+    AND bh.holiday_date <= v_month_end
+    AND EXTRACT(DOW FROM bh.holiday_date) NOT IN (0, 6);
+
+  -- ========================================================================
+  -- 6. Total workdays in month (weekdays minus holidays)
+  -- ========================================================================
+  SELECT COUNT(*)::INTEGER
+  INTO v_total_wd
+  FROM generate_series(v_month_start, v_month_end, '1 day'::INTERVAL) d(day)
+  WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+    AND NOT EXISTS (
+      SELECT 1 FROM v_default_calendar_holidays bh
+      WHERE bh.holiday_date = d.day::DATE
+    );
+
+  -- ========================================================================
+  -- 7. Completed workdays (month start through yesterday)
+  --    - Future month: 0
+  --    - Past month: total_workdays
+  --    - Current month: workdays from month start to (today - 1)
+  -- ========================================================================
+  IF v_today <= v_month_start THEN
+    -- Future month (or today is first day of month = no completed days yet)
+    v_completed_wd := 0;
+  ELSIF v_today > v_month_end THEN
+    -- Past month — fully completed
+    v_completed_wd := v_total_wd;
+  ELSE
+    -- Current month — count workdays from month start through yesterday
+    SELECT COUNT(*)::INTEGER
+    INTO v_completed_wd
+    FROM generate_series(v_month_start, (v_today - INTERVAL '1 day')::DATE, '1 day'::INTERVAL) d(day)
+    WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+      AND NOT EXISTS (
+        SELECT 1 FROM v_default_calendar_holidays bh
+        WHERE bh.holiday_date = d.day::DATE
+      );
+  END IF;
+
+  -- ========================================================================
+  -- 8. Remaining workdays (today through month end)
+  --    - Past month: 0
+  --    - Future month: total_workdays
+  --    - Current month: workdays from today through month end
+  -- ========================================================================
+  IF v_today > v_month_end THEN
+    v_remaining_wd := 0;
+  ELSIF v_today <= v_month_start THEN
+    v_remaining_wd := v_total_wd;
+  ELSE
+    SELECT COUNT(*)::INTEGER
+    INTO v_remaining_wd
+    FROM generate_series(v_today, v_month_end, '1 day'::INTERVAL) d(day)
+    WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+      AND NOT EXISTS (
+        SELECT 1 FROM v_default_calendar_holidays bh
+        WHERE bh.holiday_date = d.day::DATE
+      );
+  END IF;
+
+  -- ========================================================================
+  -- 9. Average daily revenue (daily-accruing revenue only)
+  --    Excludes fixed billings and milestone overrides from the average
+  --    so that lump sums don't inflate the per-day rate.
+  -- ========================================================================
+  IF v_completed_wd > 0 THEN
+    v_avg_daily_earned := (v_daily_accrual_cents / v_completed_wd);
+    v_avg_daily_billed := (v_timesheet_revenue_cents / v_completed_wd);
+  ELSE
+    v_avg_daily_earned := 0;
+    v_avg_daily_billed := 0;
+  END IF;
+
+  -- ========================================================================
+  -- 10. Return all metrics
+  --     Projections: fixed lump (already known) + daily accrual so far
+  --     + extrapolated daily trend for remaining workdays.
+  --     For past months (remaining = 0): projected = earned/combined.
+  -- ========================================================================
+  RETURN QUERY SELECT
+    v_combined_cents,
+    v_earned_cents,
+    v_avg_daily_earned,
+    v_avg_daily_billed,
+    v_total_wd,
+    v_completed_wd,
+    v_remaining_wd,
+    v_holiday_count,
+    -- Projected earned: fixed lump + daily accrual so far + trend * remaining
+    v_fixed_lump_cents + v_daily_accrual_cents + (v_avg_daily_earned * v_remaining_wd),
+    -- Projected billed: fixed lump + timesheet so far + trend * remaining
+    v_fixed_lump_cents + v_timesheet_revenue_cents + (v_avg_daily_billed * v_remaining_wd),
+    -- Fixed lump revenue (new column)
+    v_fixed_lump_cents;
+END;
+$$;
+
+-- get_projected_annual_revenue: migration 139 body plus the guard.
+CREATE OR REPLACE FUNCTION get_projected_annual_revenue()
+RETURNS TABLE (
+  projected_annual_revenue_cents BIGINT,
+  ytd_revenue_cents              BIGINT,
+  avg_daily_revenue_cents        BIGINT,
+  remaining_year_workdays        INTEGER,
+  ft_vacation_days               INTEGER,
+  pt_vacation_days               INTEGER,
+  avg_rate                       NUMERIC,
+  completed_workdays             INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_today           DATE := CURRENT_DATE;
+  v_current_year    INTEGER := EXTRACT(YEAR FROM CURRENT_DATE)::INTEGER;
+  v_year_start      DATE := MAKE_DATE(v_current_year, 1, 1);
+  v_year_end        DATE := MAKE_DATE(v_current_year, 12, 31);
+  v_month_start     DATE := DATE_TRUNC('month', v_today)::DATE;
+  v_month_end       DATE := (v_month_start + INTERVAL '1 month - 1 day')::DATE;
+
+  v_ytd_revenue_cents BIGINT;
+  v_earned_sum_cents   BIGINT;
+  v_completed_wd       INTEGER;
+  v_avg_daily_earned   BIGINT;
+  v_remaining_year_wd  INTEGER;
+  v_ft_vac_days        INTEGER;
+  v_pt_vac_days        INTEGER;
+  v_avg_rate           NUMERIC;
+  v_projected_cents    BIGINT;
+BEGIN
+  PERFORM assert_company_wide_access();
+
+  -- 1. YTD Revenue (unchanged — from combined revenue view)
+  SELECT COALESCE(SUM(cr.combined_revenue_cents), 0)
+  INTO v_ytd_revenue_cents
+  FROM v_combined_revenue_by_company_month cr
+  WHERE cr.summary_month >= v_year_start
+    AND cr.summary_month <= v_month_end;
+
+  -- 2. Average Daily Revenue for current month — FROM ACTUAL ENTRIES
+  --    This matches the frontend's aggregateDailyRevenue() function:
+  --    For each timesheet entry in the current month with work_date < today,
+  --    earned = (total_minutes / 60.0) * effective_rate for the canonical project.
+  --
+  --    Join chain:
+  --      timesheet_daily_rollups.project_id (TEXT)
+  --      -> projects.project_id (TEXT) to get projects.id (UUID)
+  --      -> v_project_canonical to get canonical_project_id (UUID)
+  --      -> rates from get_all_project_rates_for_month keyed by canonical UUID
+  --
+  --    Note: We use a subquery on get_all_project_rates_for_month to build
+  --    a rate lookup by canonical project UUID. Member projects' entries are
+  --    mapped to their primary project's rate via v_project_canonical.
+
+  WITH project_rates AS (
+    -- Get effective rate for each canonical project this month
+    SELECT
+      r.project_id AS canonical_uuid,
+      r.effective_rate
+    FROM get_all_project_rates_for_month(v_month_start) r
+  ),
+  entry_earned AS (
+    -- Calculate earned revenue per entry for current month, work_date < today
+    SELECT
+      ROUND((tdr.total_minutes / 60.0) * pr.effective_rate * 100)::BIGINT AS earned_cents
+    FROM timesheet_daily_rollups tdr
+    -- Map external project_id (TEXT) to projects.id (UUID)
+    JOIN projects p ON p.project_id = tdr.project_id
+    -- Map to canonical project UUID
+    JOIN v_project_canonical vpc ON vpc.project_id = p.id
+    -- Get rate for the canonical project
+    JOIN project_rates pr ON pr.canonical_uuid = vpc.canonical_project_id
+    WHERE tdr.work_date >= v_month_start
+      AND tdr.work_date < v_today
+      AND tdr.total_minutes > 0
+  )
+  SELECT COALESCE(SUM(earned_cents), 0)
+  INTO v_earned_sum_cents
+  FROM entry_earned;
+
+  -- Completed workdays in current month (same as before — month start through yesterday)
+  IF v_today <= v_month_start THEN
+    v_completed_wd := 0;
+  ELSE
+    SELECT COUNT(*)::INTEGER
+    INTO v_completed_wd
+    FROM generate_series(v_month_start, (v_today - INTERVAL '1 day')::DATE, '1 day'::INTERVAL) d(day)
+    WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+      AND NOT EXISTS (
+        SELECT 1 FROM v_default_calendar_holidays bh
+        WHERE bh.holiday_date = d.day::DATE
+      );
+  END IF;
+
+  -- avgDailyRevenue = earnedSum / completedWorkdays (matching frontend exactly)
+  IF v_completed_wd > 0 THEN
+    v_avg_daily_earned := v_earned_sum_cents / v_completed_wd;
+  ELSE
+    v_avg_daily_earned := 0;
+  END IF;
+
+  -- 3. Remaining Year Workdays (company-level: default calendar)
+  SELECT COUNT(*)::INTEGER
+  INTO v_remaining_year_wd
+  FROM generate_series(v_today, v_year_end, '1 day'::INTERVAL) d(day)
+  WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+    AND NOT EXISTS (
+      SELECT 1 FROM v_default_calendar_holidays bh
+      WHERE bh.holiday_date = d.day::DATE
+    );
+
+  -- 4. Vacation Days by Employment Type (each employee's own holiday calendar)
+  WITH employee_pto AS (
+    SELECT
+      eto.id AS time_off_id,
+      eto.start_date::DATE AS start_dt,
+      eto.end_date::DATE AS end_dt,
+      CASE
+        WHEN et.name = 'Full-time' THEN 'FT'
+        WHEN et.name = 'Part-time' THEN 'PT'
+      END AS emp_type,
+      COALESCE(r.holiday_calendar_id, default_holiday_calendar_id()) AS calendar_id
+    FROM employee_time_off eto
+    JOIN v_employee_table_entities vete
+      ON (
+        eto.resource_id = vete.id
+        OR eto.employee_name = TRIM(COALESCE(vete.first_name, '') || ' ' || COALESCE(vete.last_name, ''))
+      )
+    JOIN employment_types et ON et.id = vete.employment_type_id
+    -- v_employee_table_entities predates holiday_calendar_id (r.* is resolved
+    -- at view creation), so read the assignment from resources
+    JOIN resources r ON r.id = vete.id
+    WHERE et.name IN ('Full-time', 'Part-time')
+      AND eto.status = 'approved'
+      AND eto.start_date::DATE <= v_year_end
+      AND eto.end_date::DATE >= v_today
+  ),
+  pto_workdays AS (
+    SELECT
+      ep.emp_type,
+      d.day::DATE AS pto_day
+    FROM employee_pto ep
+    CROSS JOIN LATERAL generate_series(
+      GREATEST(ep.start_dt, v_today),
+      LEAST(ep.end_dt, v_year_end),
+      '1 day'::INTERVAL
+    ) d(day)
+    WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+      AND NOT EXISTS (
+        SELECT 1 FROM calendar_holidays ch
+        WHERE ch.calendar_id = ep.calendar_id
+          AND ch.holiday_date = d.day::DATE
+      )
+  )
+  SELECT
+    COALESCE(SUM(CASE WHEN emp_type = 'FT' THEN 1 ELSE 0 END), 0)::INTEGER,
+    COALESCE(SUM(CASE WHEN emp_type = 'PT' THEN 1 ELSE 0 END), 0)::INTEGER
+  INTO v_ft_vac_days, v_pt_vac_days
+  FROM pto_workdays;
+
+  -- 5. Average Rate (unchanged)
+  SELECT COALESCE(AVG(sub.effective_rate), 0)
+  INTO v_avg_rate
+  FROM get_all_project_rates_for_month(v_month_start) sub
+  WHERE sub.effective_rate > 0;
+
+  -- 6. Compute projected annual revenue (unchanged formula)
+  v_projected_cents := v_ytd_revenue_cents
+    + (v_avg_daily_earned * v_remaining_year_wd)
+    - ROUND(v_ft_vac_days * 8 * v_avg_rate * 100)::BIGINT
+    - ROUND(v_pt_vac_days * 5 * v_avg_rate * 100)::BIGINT;
+
+  -- 7. Return
+  RETURN QUERY SELECT
+    v_projected_cents,
+    v_ytd_revenue_cents,
+    v_avg_daily_earned,
+    v_remaining_year_wd,
+    v_ft_vac_days,
+    v_pt_vac_days,
+    v_avg_rate,
+    v_completed_wd;
+END;
+$$;
+
+-- get_investor_utilization_by_month: migration 139 body plus the guard.
+CREATE OR REPLACE FUNCTION get_investor_utilization_by_month(
+  p_start date DEFAULT NULL,
+  p_end   date DEFAULT NULL
+)
+RETURNS TABLE (
+  summary_month    date,
+  utilization_pct  numeric,
+  worked_hours     numeric,
+  available_hours  numeric,
+  resource_count   integer
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT assert_company_wide_access();
+
+  WITH bounds AS (
+    -- This function is GENERATOR-driven (generate_series fabricates a row per
+    -- month and CROSS JOINs the capacity set), unlike the sibling functions which
+    -- are DATA-driven aggregations (they survive a '1900-01-01' floor because no
+    -- source rows precede the first activity month, so GROUP BY never emits them).
+    -- Here a '1900-01-01' floor would manufacture ~1500 phantom months, each with
+    -- worked_hours=0 / resource_count=0 but a non-zero available_hours (capacity
+    -- computed against working days that predate ALL data). So when p_start is
+    -- NULL we resolve the floor from data — the first month with timesheet
+    -- activity — mirroring how the data-driven siblings effectively begin at the
+    -- first month that has rows. When p_end is NULL we resolve to the last
+    -- COMPLETED month (current month minus one), since the in-progress current
+    -- month is excluded everywhere. An explicit p_start/p_end is honored as-is
+    -- (month-truncated), so the hook/page contract is unchanged.
+    SELECT
+      DATE_TRUNC(
+        'month',
+        COALESCE(
+          p_start,
+          (SELECT MIN(work_date) FROM timesheet_daily_rollups),
+          CURRENT_DATE  -- empty-table guard; yields an empty range below
+        )
+      )::date AS lo,
+      LEAST(
+        DATE_TRUNC('month', COALESCE(p_end, CURRENT_DATE))::date,
+        -- never emit the in-progress current month
+        (DATE_TRUNC('month', CURRENT_DATE) - INTERVAL '1 month')::date
+      ) AS hi,
+      DATE_TRUNC('month', CURRENT_DATE)::date AS cur
+  ),
+  -- Completed months in range (in-progress current month already excluded via the
+  -- resolved hi). Bounded to [lo, hi]; no pre-data 1900 months are generated.
+  months AS (
+    SELECT gs::date AS summary_month
+    FROM bounds b, generate_series(b.lo, b.hi, '1 month'::interval) gs
+    WHERE gs::date < b.cur
+  ),
+  -- Working days per month per holiday calendar (weekdays minus holidays).
+  working_days AS (
+    SELECT
+      m.summary_month,
+      hc.id AS calendar_id,
+      COUNT(*) FILTER (
+        WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+          AND NOT EXISTS (
+            SELECT 1 FROM calendar_holidays ch
+            WHERE ch.calendar_id = hc.id AND ch.holiday_date = d.day::date
+          )
+      ) AS working_day_count
+    FROM months m
+    CROSS JOIN holiday_calendars hc
+    CROSS JOIN LATERAL generate_series(
+      m.summary_month,
+      (m.summary_month + INTERVAL '1 month - 1 day')::date,
+      '1 day'::interval
+    ) d(day)
+    GROUP BY m.summary_month, hc.id
+  ),
+  -- Canonical (non-member) resources with their per-day hours basis.
+  emp AS (
+    SELECT
+      e.id AS resource_id,
+      TRIM(COALESCE(e.first_name, '') || ' ' || COALESCE(e.last_name, '')) AS display_name,
+      e.employment_type_name,
+      e.expected_hours,
+      COALESCE(r.holiday_calendar_id, default_holiday_calendar_id()) AS calendar_id
+    FROM v_employee_table_entities e
+    -- The view predates holiday_calendar_id (r.* resolved at creation)
+    JOIN resources r ON r.id = e.id
+  ),
+  -- Per-resource, per-month available hours (gross, before time-off).
+  emp_month AS (
+    SELECT
+      wd.summary_month,
+      emp.resource_id,
+      emp.display_name,
+      emp.calendar_id,
+      wd.working_day_count,
+      CASE
+        WHEN emp.employment_type_name = 'Full-time' THEN 8.0
+        WHEN emp.employment_type_name = 'Part-time' THEN 4.0
+        WHEN emp.expected_hours IS NOT NULL AND emp.expected_hours > 0 AND wd.working_day_count > 0
+          THEN ROUND(emp.expected_hours::numeric / wd.working_day_count, 4)
+        ELSE 8.0
+      END AS hours_per_day
+    FROM working_days wd
+    JOIN emp ON emp.calendar_id = wd.calendar_id
+  ),
+  -- Approved time-off weekdays per resource per month (overlap clamped).
+  time_off_days AS (
+    SELECT
+      em.summary_month,
+      em.resource_id,
+      COUNT(*) FILTER (
+        WHERE EXTRACT(DOW FROM d.day) NOT IN (0, 6)
+          AND NOT EXISTS (
+            SELECT 1 FROM calendar_holidays ch
+            WHERE ch.calendar_id = em.calendar_id AND ch.holiday_date = d.day::date
+          )
+      ) AS pto_weekdays
+    FROM emp_month em
+    JOIN employee_time_off eto
+      ON eto.status = 'approved'
+     AND (eto.resource_id = em.resource_id OR eto.employee_name = em.display_name)
+     AND eto.start_date::date <= (em.summary_month + INTERVAL '1 month - 1 day')::date
+     AND eto.end_date::date   >= em.summary_month
+    CROSS JOIN LATERAL generate_series(
+      GREATEST(eto.start_date::date, em.summary_month),
+      LEAST(eto.end_date::date, (em.summary_month + INTERVAL '1 month - 1 day')::date),
+      '1 day'::interval
+    ) d(day)
+    GROUP BY em.summary_month, em.resource_id
+  ),
+  -- Worked minutes aggregated to CANONICAL ENTITY per month (F3). This is the
+  -- numerator's entity universe; joined to the capacity set below so the two
+  -- sides match. Unmapped users (NULL canonical entity) are produced here but
+  -- get dropped by the INNER-style join to emp_month (no capacity to measure).
+  worked_by_entity AS (
+    SELECT
+      DATE_TRUNC('month', tdr.work_date)::date AS summary_month,
+      vec.canonical_entity_id,
+      SUM(tdr.total_minutes)::numeric / 60.0 AS worked_hours
+    FROM timesheet_daily_rollups tdr
+    LEFT JOIN resource_user_associations rua ON rua.user_id = tdr.user_id
+    LEFT JOIN v_entity_canonical vec ON vec.entity_id = rua.resource_id
+    CROSS JOIN bounds b
+    WHERE tdr.total_minutes > 0
+      AND DATE_TRUNC('month', tdr.work_date)::date BETWEEN b.lo AND b.hi
+      AND DATE_TRUNC('month', tdr.work_date)::date < b.cur
+    GROUP BY DATE_TRUNC('month', tdr.work_date)::date, vec.canonical_entity_id
+  ),
+  -- Per-resource, per-month: available hours (capacity − PTO) joined to that same
+  -- resource's worked hours. emp.resource_id is a canonical (primary/unassociated)
+  -- entity id, which equals worked_by_entity.canonical_entity_id — the SAME
+  -- universe on both sides (F3).
+  resource_month AS (
+    SELECT
+      em.summary_month,
+      em.resource_id,
+      (em.working_day_count - COALESCE(td.pto_weekdays, 0)) * em.hours_per_day AS available_hours,
+      COALESCE(wbe.worked_hours, 0) AS worked_hours
+    FROM emp_month em
+    LEFT JOIN time_off_days td
+      ON td.summary_month = em.summary_month
+     AND td.resource_id = em.resource_id
+    LEFT JOIN worked_by_entity wbe
+      ON wbe.summary_month = em.summary_month
+     AND wbe.canonical_entity_id = em.resource_id
+  )
+  SELECT
+    m.summary_month,
+    CASE WHEN COALESCE(SUM(rm.available_hours), 0) > 0
+      THEN ROUND(SUM(rm.worked_hours) * 100.0 / SUM(rm.available_hours), 2)
+      ELSE NULL
+    END AS utilization_pct,
+    ROUND(COALESCE(SUM(rm.worked_hours), 0), 2) AS worked_hours,
+    ROUND(COALESCE(SUM(rm.available_hours), 0), 2) AS available_hours,
+    -- Resource count = capacity-set members who actually worked this month
+    -- (same universe as numerator/denominator; includes contractors).
+    COUNT(*) FILTER (WHERE rm.worked_hours > 0)::integer AS resource_count
+  FROM months m
+  LEFT JOIN resource_month rm ON rm.summary_month = m.summary_month
+  GROUP BY m.summary_month
+  ORDER BY m.summary_month;
+$$;
+
+-- get_investor_margin_by_month: migration 122 body plus the guard.
+CREATE OR REPLACE FUNCTION get_investor_margin_by_month(
+  p_start date DEFAULT NULL,
+  p_end   date DEFAULT NULL
+)
+RETURNS TABLE (
+  summary_month               date,
+  combined_revenue_cents      bigint,
+  timesheet_revenue_cents     bigint,
+  labor_cost_cents            bigint,
+  all_in_profit_cents         bigint,
+  all_in_margin_pct           numeric,
+  ts_profit_cents             bigint,
+  ts_margin_pct               numeric,
+  cost_coverage_pct           numeric,
+  resource_count              integer,
+  revenue_per_resource_cents  bigint,
+  profit_per_resource_cents   bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT assert_company_wide_access();
+
+  WITH bounds AS (
+    SELECT
+      DATE_TRUNC('month', COALESCE(p_start, '1900-01-01'::date))::date AS lo,
+      DATE_TRUNC('month', COALESCE(p_end,   CURRENT_DATE))::date       AS hi,
+      DATE_TRUNC('month', CURRENT_DATE)::date                          AS cur
+  ),
+  -- Canonical combined revenue per company-month (member-excluded source view).
+  -- combined_revenue_cents = effective (timesheet w/ milestone overrides) + fixed
+  -- billings. This is the authoritative ALL-IN total.
+  combined AS (
+    SELECT
+      cr.summary_month,
+      SUM(cr.combined_revenue_cents) AS combined_revenue_cents
+    FROM v_combined_revenue_by_company_month cr
+    CROSS JOIN bounds b
+    WHERE cr.summary_month BETWEEN b.lo AND b.hi
+      AND cr.summary_month < b.cur          -- exclude in-progress current month
+    GROUP BY cr.summary_month
+  ),
+  -- F7: TRUE timesheet-only revenue = raw billed_revenue_cents BEFORE milestone
+  -- override (mirrors migration 076's v_timesheet_revenue_cents). Member-excluded
+  -- via the canonical view. ts_margin is therefore genuinely timesheet−labor.
+  timesheet AS (
+    SELECT
+      cpms.summary_month,
+      SUM(cpms.billed_revenue_cents) AS timesheet_revenue_cents
+    FROM v_canonical_project_monthly_summary cpms
+    CROSS JOIN bounds b
+    WHERE cpms.summary_month BETWEEN b.lo AND b.hi
+      AND cpms.summary_month < b.cur
+    GROUP BY cpms.summary_month
+  ),
+  -- F5: Labor cost per month directly from v_employee_project_profit, which is
+  -- ALREADY canonical + member-excluded (built on v_canonical_project_monthly_
+  -- summary and v_entity_canonical). The redundant INNER JOIN to the canonical
+  -- summary is dropped. NULL cost is excluded from the sum (NOT coerced to 0)
+  -- and the covered minutes are tracked separately for coverage.
+  labor AS (
+    SELECT
+      epp.month AS summary_month,
+      SUM(epp.employee_cost_cents) FILTER (WHERE epp.employee_cost_cents IS NOT NULL) AS labor_cost_cents,
+      SUM(epp.employee_raw_minutes) FILTER (WHERE epp.employee_cost_cents IS NOT NULL) AS covered_minutes
+    FROM v_employee_project_profit epp
+    CROSS JOIN bounds b
+    WHERE epp.month BETWEEN b.lo AND b.hi
+      AND epp.month < b.cur
+    GROUP BY epp.month
+  ),
+  -- F5/F2: Worked minutes + distinct resources per month from the raw rollups,
+  -- INDEPENDENT of the cost join. This is the coverage denominator (so a month
+  -- with revenue but no cost shows 0% coverage, not a false 100% margin) AND the
+  -- per-head divisor. Unmapped timesheet users are NOT dropped: they fall back to
+  -- a stable 'unmapped:'||user_id key (F2). Includes contractors.
+  worked_per_month AS (
+    SELECT
+      DATE_TRUNC('month', tdr.work_date)::date AS summary_month,
+      SUM(tdr.total_minutes) AS total_worked_minutes,
+      COUNT(DISTINCT COALESCE(vec.canonical_entity_id::text, 'unmapped:' || tdr.user_id)) AS resource_count
+    FROM timesheet_daily_rollups tdr
+    LEFT JOIN resource_user_associations rua ON rua.user_id = tdr.user_id
+    LEFT JOIN v_entity_canonical vec ON vec.entity_id = rua.resource_id
+    CROSS JOIN bounds b
+    WHERE tdr.total_minutes > 0
+      AND DATE_TRUNC('month', tdr.work_date)::date BETWEEN b.lo AND b.hi
+      AND DATE_TRUNC('month', tdr.work_date)::date < b.cur
+    GROUP BY DATE_TRUNC('month', tdr.work_date)::date
+  )
+  SELECT
+    c.summary_month,
+    c.combined_revenue_cents,
+    COALESCE(ts.timesheet_revenue_cents, 0) AS timesheet_revenue_cents,
+    COALESCE(l.labor_cost_cents, 0) AS labor_cost_cents,
+    (c.combined_revenue_cents - COALESCE(l.labor_cost_cents, 0)) AS all_in_profit_cents,
+    CASE WHEN c.combined_revenue_cents <> 0
+      THEN ROUND((c.combined_revenue_cents - COALESCE(l.labor_cost_cents, 0))::numeric
+                 * 100.0 / c.combined_revenue_cents, 2)
+      ELSE NULL
+    END AS all_in_margin_pct,
+    (COALESCE(ts.timesheet_revenue_cents, 0) - COALESCE(l.labor_cost_cents, 0)) AS ts_profit_cents,
+    CASE WHEN COALESCE(ts.timesheet_revenue_cents, 0) <> 0
+      THEN ROUND((COALESCE(ts.timesheet_revenue_cents, 0) - COALESCE(l.labor_cost_cents, 0))::numeric
+                 * 100.0 / ts.timesheet_revenue_cents, 2)
+      ELSE NULL
+    END AS ts_margin_pct,
+    -- Coverage denominator is the INDEPENDENT worked-minutes source (F5): a month
+    -- with worked time but no cost rows -> covered/total = 0% (CANNOT-VERIFY),
+    -- never a silent NULL or false 100%.
+    CASE WHEN COALESCE(w.total_worked_minutes, 0) > 0
+      THEN ROUND(COALESCE(l.covered_minutes, 0)::numeric * 100.0 / w.total_worked_minutes, 2)
+      ELSE NULL
+    END AS cost_coverage_pct,
+    COALESCE(w.resource_count, 0)::integer AS resource_count,
+    CASE WHEN COALESCE(w.resource_count, 0) > 0
+      THEN (c.combined_revenue_cents / w.resource_count)::bigint
+      ELSE NULL
+    END AS revenue_per_resource_cents,
+    CASE WHEN COALESCE(w.resource_count, 0) > 0
+      THEN ((c.combined_revenue_cents - COALESCE(l.labor_cost_cents, 0)) / w.resource_count)::bigint
+      ELSE NULL
+    END AS profit_per_resource_cents
+  FROM combined c
+  LEFT JOIN timesheet ts ON ts.summary_month = c.summary_month
+  LEFT JOIN labor l ON l.summary_month = c.summary_month
+  LEFT JOIN worked_per_month w ON w.summary_month = c.summary_month
+  ORDER BY c.summary_month;
+$$;
+
+-- get_investor_revenue_mix: migration 123 body plus the guard.
+CREATE OR REPLACE FUNCTION get_investor_revenue_mix(
+  p_start date DEFAULT NULL,
+  p_end   date DEFAULT NULL
+)
+RETURNS TABLE (
+  summary_month               date,
+  recurring_cents             bigint,
+  one_off_cents               bigint,
+  reimbursement_cents         bigint,
+  combined_cents              bigint,
+  reconciliation_delta_cents  bigint,
+  recurring_run_rate_cents    bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT assert_company_wide_access();
+
+  WITH bounds AS (
+    SELECT
+      DATE_TRUNC('month', COALESCE(p_start, '1900-01-01'::date))::date AS lo,
+      DATE_TRUNC('month', COALESCE(p_end,   CURRENT_DATE))::date       AS hi,
+      DATE_TRUNC('month', CURRENT_DATE)::date                          AS cur
+  ),
+  -- Canonical combined revenue per month (authoritative bucket-sum target).
+  combined AS (
+    SELECT
+      cr.summary_month,
+      SUM(cr.combined_revenue_cents) AS combined_cents
+    FROM v_combined_revenue_by_company_month cr
+    CROSS JOIN bounds b
+    WHERE cr.summary_month BETWEEN b.lo AND b.hi
+      AND cr.summary_month < b.cur                 -- exclude in-progress current month
+    GROUP BY cr.summary_month
+  ),
+  -- Effective revenue split by the per-project milestone flag (canonical,
+  -- member-excluded). non_milestone_effective = SLA/timesheet hourly revenue;
+  -- milestone_effective = the override that replaced timesheet revenue (one-off).
+  effective_split AS (
+    SELECT
+      cpms.summary_month,
+      SUM(cpms.billed_revenue_cents)
+        FILTER (WHERE cpms.milestone_override_cents IS NULL)      AS non_milestone_effective_cents,
+      SUM(cpms.milestone_override_cents)
+        FILTER (WHERE cpms.milestone_override_cents IS NOT NULL)  AS milestone_effective_cents
+    FROM v_canonical_project_monthly_summary cpms
+    CROSS JOIN bounds b
+    WHERE cpms.summary_month BETWEEN b.lo AND b.hi
+      AND cpms.summary_month < b.cur
+    GROUP BY cpms.summary_month
+  ),
+  -- Fixed-billing components, partitioned EXACTLY as migration 051 Part 3 derives
+  -- fixed_billing_cents (ALL billing types EXCEPT linked revenue_milestones,
+  -- whose value lives in the per-project override inside effective revenue).
+  --   recurring fixed : subscription / service_fee / license.
+  --   unlinked_milestone : revenue_milestone with linked_project_id IS NULL.
+  --   reimbursement   : reimbursement (pass-through).
+  billing_buckets AS (
+    SELECT
+      bt.transaction_month AS summary_month,
+      SUM(bt.amount_cents) FILTER (
+        WHERE bi.type IN ('subscription','service_fee','license')
+      ) AS recurring_fixed_cents,
+      SUM(bt.amount_cents) FILTER (
+        WHERE bi.type = 'revenue_milestone' AND bi.linked_project_id IS NULL
+      ) AS unlinked_milestone_cents,
+      SUM(bt.amount_cents) FILTER (
+        WHERE bi.type = 'reimbursement'
+      ) AS reimbursement_cents
+    FROM billing_transactions bt
+    JOIN billings bi ON bi.id = bt.billing_id
+    CROSS JOIN bounds b
+    WHERE bt.transaction_month BETWEEN b.lo AND b.hi
+      AND bt.transaction_month < b.cur
+      -- Mirror 051 Part 3: linked revenue_milestones are NOT part of fixed billing.
+      AND NOT (bi.type = 'revenue_milestone' AND bi.linked_project_id IS NOT NULL)
+    GROUP BY bt.transaction_month
+  ),
+  -- Assemble the SLA buckets per completed month.
+  per_month AS (
+    SELECT
+      c.summary_month,
+      -- recurring = SLA hourly (non-milestone effective) + recurring fixed billings
+      GREATEST(
+        COALESCE(es.non_milestone_effective_cents, 0)
+          + COALESCE(bb.recurring_fixed_cents, 0), 0
+      ) AS recurring_cents,
+      -- one_off = milestone overrides (delivery) + unlinked revenue_milestone billings
+      GREATEST(
+        COALESCE(es.milestone_effective_cents, 0)
+          + COALESCE(bb.unlinked_milestone_cents, 0), 0
+      ) AS one_off_cents,
+      -- reimbursement = pass-through
+      GREATEST(COALESCE(bb.reimbursement_cents, 0), 0) AS reimbursement_cents,
+      c.combined_cents
+    FROM combined c
+    LEFT JOIN effective_split es ON es.summary_month = c.summary_month
+    LEFT JOIN billing_buckets bb ON bb.summary_month = c.summary_month
+  ),
+  -- Trailing 3-COMPLETED-month average of recurring_cents (estimate of the
+  -- ongoing recurring base). Averages whatever exists if fewer than 3 months.
+  run_rate AS (
+    SELECT COALESCE(ROUND(AVG(recurring_cents))::bigint, 0) AS cents
+    FROM (
+      SELECT pm.recurring_cents
+      FROM per_month pm
+      ORDER BY pm.summary_month DESC
+      LIMIT 3
+    ) recent
+  )
+  SELECT
+    pm.summary_month,
+    pm.recurring_cents,
+    pm.one_off_cents,
+    pm.reimbursement_cents,
+    pm.combined_cents,
+    -- Residual (expected 0 when sourced consistently); never folded into a bucket.
+    (pm.combined_cents
+       - pm.recurring_cents
+       - pm.one_off_cents
+       - pm.reimbursement_cents) AS reconciliation_delta_cents,
+    (SELECT cents FROM run_rate) AS recurring_run_rate_cents
+  FROM per_month pm
+  ORDER BY pm.summary_month;
+$$;
+
+-- get_investor_concentration: migration 124 body plus the guard.
+CREATE OR REPLACE FUNCTION get_investor_concentration(
+  p_start date DEFAULT NULL,
+  p_end   date DEFAULT NULL,
+  p_top_n integer DEFAULT 6
+)
+RETURNS TABLE (
+  row_kind            text,
+  summary_month       date,
+  company_name        text,
+  revenue_cents       bigint,
+  pct                 numeric,
+  top1_pct            numeric,
+  top5_pct            numeric,
+  total_revenue_cents bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT assert_company_wide_access();
+
+  WITH bounds AS (
+    SELECT
+      DATE_TRUNC('month', COALESCE(p_start, '1900-01-01'::date))::date AS lo,
+      DATE_TRUNC('month', COALESCE(p_end,   CURRENT_DATE))::date       AS hi,
+      DATE_TRUNC('month', CURRENT_DATE)::date                          AS cur,
+      DATE_TRUNC('year',  CURRENT_DATE)::date                          AS yr
+  ),
+  company_month AS (
+    SELECT
+      cr.summary_month,
+      cr.company_name,
+      SUM(cr.combined_revenue_cents) AS revenue_cents
+    FROM v_combined_revenue_by_company_month cr
+    CROSS JOIN bounds b
+    WHERE cr.summary_month BETWEEN b.lo AND b.hi
+      AND cr.summary_month < b.cur
+    GROUP BY cr.summary_month, cr.company_name
+  ),
+  ranked AS (
+    SELECT
+      cm.*,
+      ROW_NUMBER() OVER (PARTITION BY cm.summary_month ORDER BY cm.revenue_cents DESC) AS rn,
+      SUM(cm.revenue_cents) OVER (PARTITION BY cm.summary_month) AS month_total
+    FROM company_month cm
+  ),
+  -- TREND: top1 / top5 share per month (UNCHANGED from migration 123 / 122)
+  trend AS (
+    SELECT
+      r.summary_month,
+      MAX(r.month_total) AS total_revenue_cents,
+      CASE WHEN MAX(r.month_total) <> 0
+        THEN ROUND(SUM(r.revenue_cents) FILTER (WHERE r.rn = 1)::numeric * 100.0 / MAX(r.month_total), 2)
+        ELSE NULL END AS top1_pct,
+      CASE WHEN MAX(r.month_total) <> 0
+        THEN ROUND(SUM(r.revenue_cents) FILTER (WHERE r.rn <= 5)::numeric * 100.0 / MAX(r.month_total), 2)
+        ELSE NULL END AS top5_pct
+    FROM ranked r
+    GROUP BY r.summary_month
+  ),
+  -- ==========================================================================
+  -- YTD per-company aggregation over calendar-YTD COMPLETED months. This single
+  -- aggregation now feeds BOTH the row_kind='ytd' summary AND the
+  -- row_kind='breakdown' per-company slice, guaranteeing they share one
+  -- denominator (ytd_total) and one window. INDEPENDENT of p_start/p_end
+  -- (calendar year-to-date by definition). Sourced from the canonical,
+  -- member-excluded view. NULL company_name -> 'Unassigned' (never dropped).
+  -- ==========================================================================
+  ytd_company AS (
+    SELECT
+      COALESCE(cr.company_name, 'Unassigned') AS company_name,
+      SUM(cr.combined_revenue_cents) AS revenue_cents
+    FROM v_combined_revenue_by_company_month cr
+    CROSS JOIN bounds b
+    WHERE cr.summary_month >= b.yr
+      AND cr.summary_month <  b.cur            -- calendar-YTD, completed months only
+    GROUP BY COALESCE(cr.company_name, 'Unassigned')
+  ),
+  ytd_ranked AS (
+    SELECT
+      yc.company_name,
+      yc.revenue_cents,
+      ROW_NUMBER() OVER (ORDER BY yc.revenue_cents DESC) AS rn,
+      SUM(yc.revenue_cents) OVER () AS ytd_total
+    FROM ytd_company yc
+  ),
+  -- YTD summary row (top1 / top5 share) — UNCHANGED semantics from migration 123.
+  ytd AS (
+    SELECT
+      MAX(yr.ytd_total) AS total_revenue_cents,
+      CASE WHEN MAX(yr.ytd_total) <> 0
+        THEN ROUND(SUM(yr.revenue_cents) FILTER (WHERE yr.rn = 1)::numeric * 100.0 / MAX(yr.ytd_total), 2)
+        ELSE NULL END AS top1_pct,
+      CASE WHEN MAX(yr.ytd_total) <> 0
+        THEN ROUND(SUM(yr.revenue_cents) FILTER (WHERE yr.rn <= 5)::numeric * 100.0 / MAX(yr.ytd_total), 2)
+        ELSE NULL END AS top5_pct
+    FROM ytd_ranked yr
+  ),
+  -- BREAKDOWN (CHANGED): top N companies by YTD combined revenue + 'Other'
+  -- rollup, over the SAME calendar-YTD window as the 'ytd' row above. The
+  -- breakdown rows carry summary_month = year start (date_trunc('year',
+  -- CURRENT_DATE)) so they are unambiguously a YTD slice, revenue_cents = the
+  -- company's YTD combined revenue, and total_revenue_cents = the YTD grand
+  -- total. Top-N + Other therefore sum to 100% of total_revenue_cents.
+  breakdown_top AS (
+    SELECT
+      (SELECT yr FROM bounds) AS summary_month,
+      yr.company_name,
+      yr.revenue_cents,
+      yr.ytd_total AS month_total
+    FROM ytd_ranked yr
+    WHERE yr.rn <= p_top_n
+  ),
+  breakdown_other AS (
+    SELECT
+      (SELECT yr FROM bounds) AS summary_month,
+      'Other'::text AS company_name,
+      SUM(yr.revenue_cents) AS revenue_cents,
+      MAX(yr.ytd_total) AS month_total
+    FROM ytd_ranked yr
+    WHERE yr.rn > p_top_n
+    GROUP BY (SELECT yr FROM bounds)
+    HAVING SUM(yr.revenue_cents) > 0
+  ),
+  breakdown AS (
+    SELECT * FROM breakdown_top
+    UNION ALL
+    SELECT * FROM breakdown_other
+  )
+  SELECT
+    'trend'::text AS row_kind,
+    t.summary_month,
+    NULL::text AS company_name,
+    NULL::bigint AS revenue_cents,
+    NULL::numeric AS pct,
+    t.top1_pct,
+    t.top5_pct,
+    t.total_revenue_cents
+  FROM trend t
+  UNION ALL
+  SELECT
+    'breakdown'::text AS row_kind,
+    bd.summary_month,
+    bd.company_name,
+    bd.revenue_cents,
+    CASE WHEN bd.month_total <> 0
+      THEN ROUND(bd.revenue_cents::numeric * 100.0 / bd.month_total, 2)
+      ELSE NULL END AS pct,
+    NULL::numeric AS top1_pct,
+    NULL::numeric AS top5_pct,
+    bd.month_total AS total_revenue_cents
+  FROM breakdown bd
+  UNION ALL
+  SELECT
+    'ytd'::text AS row_kind,
+    (SELECT yr FROM bounds) AS summary_month,   -- date_trunc('year', CURRENT_DATE)
+    NULL::text AS company_name,
+    NULL::bigint AS revenue_cents,
+    NULL::numeric AS pct,
+    y.top1_pct,
+    y.top5_pct,
+    y.total_revenue_cents
+  FROM ytd y
+  ORDER BY row_kind, summary_month, revenue_cents DESC NULLS LAST;
+$$;
+
+-- get_investor_realization_by_month: migration 122 body plus the guard.
+CREATE OR REPLACE FUNCTION get_investor_realization_by_month(
+  p_start date DEFAULT NULL,
+  p_end   date DEFAULT NULL
+)
+RETURNS TABLE (
+  summary_month             date,
+  realization_pct           numeric,
+  effective_rate_cents      bigint,
+  total_actual_hours        numeric,
+  total_billed_hours        numeric,
+  total_minimum_padding_hours numeric,
+  total_unbillable_hours    numeric,
+  total_carryover_out_hours numeric,
+  total_billed_revenue_cents bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT assert_company_wide_access();
+
+  WITH bounds AS (
+    SELECT
+      DATE_TRUNC('month', COALESCE(p_start, '1900-01-01'::date))::date AS lo,
+      DATE_TRUNC('month', COALESCE(p_end,   CURRENT_DATE))::date       AS hi,
+      DATE_TRUNC('month', CURRENT_DATE)::date                          AS cur
+  ),
+  agg AS (
+    SELECT
+      cpms.summary_month,
+      SUM(cpms.actual_hours)            AS total_actual_hours,
+      SUM(cpms.billed_hours)            AS total_billed_hours,
+      SUM(cpms.minimum_padding_hours)   AS total_minimum_padding_hours,
+      SUM(cpms.unbillable_hours)        AS total_unbillable_hours,
+      SUM(cpms.carryover_out_hours)     AS total_carryover_out_hours,
+      SUM(cpms.billed_revenue_cents)    AS total_billed_revenue_cents
+    FROM v_canonical_project_monthly_summary cpms
+    CROSS JOIN bounds b
+    WHERE cpms.summary_month BETWEEN b.lo AND b.hi
+      AND cpms.summary_month < b.cur
+      AND cpms.milestone_override_cents IS NULL  -- exclude milestone-override projects
+    GROUP BY cpms.summary_month
+  )
+  SELECT
+    a.summary_month,
+    CASE WHEN a.total_actual_hours > 0
+      THEN ROUND(a.total_billed_hours * 100.0 / a.total_actual_hours, 2)
+      ELSE NULL
+    END AS realization_pct,
+    CASE WHEN a.total_actual_hours > 0
+      THEN ROUND(a.total_billed_revenue_cents / a.total_actual_hours)::bigint
+      ELSE NULL
+    END AS effective_rate_cents,
+    ROUND(a.total_actual_hours, 2)          AS total_actual_hours,
+    ROUND(a.total_billed_hours, 2)          AS total_billed_hours,
+    ROUND(a.total_minimum_padding_hours, 2) AS total_minimum_padding_hours,
+    ROUND(a.total_unbillable_hours, 2)      AS total_unbillable_hours,
+    ROUND(a.total_carryover_out_hours, 2)   AS total_carryover_out_hours,
+    a.total_billed_revenue_cents
+  FROM agg a
+  ORDER BY a.summary_month;
+$$;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+DECLARE
+    v_policy_count INTEGER;
+    v_guarded_count INTEGER;
+    v_definer_views INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO v_policy_count
+    FROM pg_policies
+    WHERE policyname = 'Restrict read to role scope'
+      AND permissive = 'RESTRICTIVE';
+
+    IF v_policy_count < 17 THEN
+        RAISE EXCEPTION 'Expected 17 scope policies, found %', v_policy_count;
+    END IF;
+
+    SELECT COUNT(*) INTO v_definer_views
+    FROM pg_class c
+    WHERE c.relkind = 'v'
+      AND c.relnamespace = 'public'::regnamespace
+      AND c.relname IN (
+          'v_timesheet_entries', 'v_eom_report_availability', 'v_weekly_report_availability',
+          'v_ar_invoice_status', 'v_ar_aging', 'v_project_budget_status',
+          'v_report_delivery_latest', 'v_combined_revenue_by_company_month',
+          'v_canonical_project_monthly_summary', 'v_project_table_entities',
+          'v_employee_project_profit', 'v_monthly_summary_by_company',
+          'v_monthly_summary_totals'
+      )
+      AND NOT COALESCE(c.reloptions @> ARRAY['security_invoker=on'], false)
+      AND NOT COALESCE(c.reloptions @> ARRAY['security_invoker=true'], false);
+
+    IF v_definer_views > 0 THEN
+        RAISE EXCEPTION '% scoped view(s) still run with owner rights', v_definer_views;
+    END IF;
+
+    SELECT COUNT(*) INTO v_guarded_count
+    FROM pg_proc
+    WHERE (proname LIKE 'get_investor%' OR proname = 'get_projected_annual_revenue')
+      AND prosrc LIKE '%assert_company_wide_access()%';
+
+    IF v_guarded_count < 7 THEN
+        RAISE EXCEPTION 'Expected 7 guarded investor RPCs, found %', v_guarded_count;
+    END IF;
+
+    RAISE NOTICE 'Migration 142 Complete:';
+    RAISE NOTICE '  - roles: admin, finance, project_manager, investor, user';
+    RAISE NOTICE '  - user_profiles.resource_id + scoped_*_ids() helpers + get_my_access()';
+    RAISE NOTICE '  - % restrictive scope policies; 13 views switched to security_invoker', v_policy_count;
+    RAISE NOTICE '  - investor RPCs: company-wide roles only';
+    RAISE NOTICE '  - expense writes: admin + finance';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- Demote new roles first so nobody is left without a known role:
+--   UPDATE auth.users SET raw_app_meta_data = raw_app_meta_data || '{"role":"user"}'
+--     WHERE raw_app_meta_data->>'role' IN ('finance', 'project_manager', 'investor');
+-- Then:
+-- BEGIN;
+--   DO $$ DECLARE r RECORD; BEGIN
+--     FOR r IN SELECT schemaname, tablename FROM pg_policies
+--              WHERE policyname = 'Restrict read to role scope' LOOP
+--       EXECUTE format('DROP POLICY %I ON %I.%I', 'Restrict read to role scope', r.schemaname, r.tablename);
+--     END LOOP;
+--   END $$;
+--   ALTER VIEW v_timesheet_entries RESET (security_invoker);
+--   ALTER VIEW v_eom_report_availability RESET (security_invoker);
+--   ALTER VIEW v_weekly_report_availability RESET (security_invoker);
+--   ALTER VIEW v_ar_invoice_status RESET (security_invoker);
+--   ALTER VIEW v_ar_aging RESET (security_invoker);
+--   ALTER VIEW v_project_budget_status RESET (security_invoker);
+--   ALTER VIEW v_report_delivery_latest RESET (security_invoker);
+--   ALTER VIEW v_combined_revenue_by_company_month RESET (security_invoker);
+--   ALTER VIEW v_canonical_project_monthly_summary RESET (security_invoker);
+--   ALTER VIEW v_project_table_entities RESET (security_invoker);
+--   ALTER VIEW v_employee_project_profit RESET (security_invoker);
+--   ALTER VIEW v_monthly_summary_by_company RESET (security_invoker);
+--   ALTER VIEW v_monthly_summary_totals RESET (security_invoker);
+--   -- Restore the investor RPCs from migrations 139 / 122 / 123 / 124, then:
+--   DROP FUNCTION IF EXISTS assert_company_wide_access();
+--   -- Restore the is_admin() expense write policies from migrations 125 / 126 / 133,
+--   -- get_billings_with_transactions from migration 040 and
+--   -- admin_update_user_role / admin_list_users from migration 010.
+--   DROP FUNCTION IF EXISTS admin_set_user_resource(UUID, UUID);
+--   DROP FUNCTION IF EXISTS get_my_access();
+--   DROP FUNCTION IF EXISTS scoped_company_ids(UUID);
+--   DROP FUNCTION IF EXISTS scoped_project_external_ids(UUID);
+--   DROP FUNCTION IF EXISTS scoped_project_ids(UUID);
+--   DROP FUNCTION IF EXISTS can_manage_expenses(UUID);
+--   DROP FUNCTION IF EXISTS has_company_wide_access(UUID);
+--   DROP FUNCTION IF EXISTS app_role(UUID);
+--   DROP INDEX IF EXISTS idx_user_profiles_resource_id_unique;
+--   ALTER TABLE user_profiles DROP COLUMN IF EXISTS resource_id;
+-- COMMIT;
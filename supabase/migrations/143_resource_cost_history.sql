@@ -0,0 +1,514 @@
+-- ============================================================================
+-- Migration 143: Effective-dated employee cost history
+-- ============================================================================
+-- Purpose: resources.billing_mode / hourly_rate / monthly_cost / expected_hours
+-- hold a single current value, so a raise silently restates the cost and
+-- profit of every past month in v_employee_project_profit (and the investor
+-- labor cost built on it, migration 122). This migration adds:
+--
+--   1. resource_monthly_costs — cost records per resource, each in force from
+--      its cost_month until the next record. Seeded with one record per
+--      resource (current values, effective from the resource's first month).
+--      Salary data: readable by admin and finance only. The investor margin
+--      RPC reads it as SECURITY DEFINER behind its company-wide guard.
+--   2. get_resource_cost_for_month(resource, month) — the record in force for
+--      a month: the latest record at or before the month; months before the
+--      first record use the first record (same backfill rule as
+--      get_effective_project_rate, migration 020); a resource without records
+--      falls back to its resources columns.
+--   3. get_employee_effective_cost_rate(resource, month) — month-aware
+--      overload of the migration 065 function; v_employee_project_profit now
+--      costs every month at the rate in force for that month.
+--   4. set_resource_cost() / delete_resource_cost() — the only writers of
+--      cost. Both keep the resources columns equal to the record in force for
+--      the current month, so pages that show "current cost" stay correct.
+--      Effective months cannot be in the future: nothing would move the
+--      resources columns forward when that month arrives.
+--
+-- Mirrors existing precedent:
+--   - migration 020 (project_monthly_rates: first-of-month rows, latest row
+--     at or before the month, backfill before the first row)
+--   - migration 065 (cost rate formula; view columns unchanged)
+--   - migration 063 (resources: is_admin() write)
+--   - migration 142 (app_role(); assert_company_wide_access() on firm-wide RPCs)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- DROP ... IF EXISTS; the seed only inserts for resources without records).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: resource_monthly_costs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS resource_monthly_costs (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    resource_id     UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+    cost_month      DATE NOT NULL,
+    billing_mode    TEXT NOT NULL CHECK (billing_mode IN ('monthly', 'hourly')),
+    hourly_rate     NUMERIC(10,2),
+    monthly_cost    NUMERIC(10,2),
+    expected_hours  NUMERIC(5,2),
+    created_by      UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT uq_resource_monthly_cost UNIQUE (resource_id, cost_month),
+    CONSTRAINT chk_cost_month_first_of_month CHECK (EXTRACT(DAY FROM cost_month) = 1),
+    CONSTRAINT chk_resource_cost_non_negative CHECK (
+        (hourly_rate IS NULL OR hourly_rate >= 0)
+        AND (monthly_cost IS NULL OR monthly_cost >= 0)
+        AND (expected_hours IS NULL OR expected_hours >= 0)
+    )
+);
+
+COMMENT ON TABLE resource_monthly_costs IS
+    'Employee cost records. Each is in force from cost_month until the next record '
+    'of the same resource. Written by set_resource_cost().';
+COMMENT ON COLUMN resource_monthly_costs.cost_month IS
+    'First month the record applies to (always first day of month)';
+COMMENT ON COLUMN resource_monthly_costs.hourly_rate IS
+    'Hourly cost; for monthly billing the editor stores monthly_cost / expected_hours';
+
+CREATE INDEX IF NOT EXISTS idx_rmc_resource_month
+    ON resource_monthly_costs (resource_id, cost_month DESC);
+
+DROP TRIGGER IF EXISTS trg_rmc_updated_at ON resource_monthly_costs;
+CREATE TRIGGER trg_rmc_updated_at
+    BEFORE UPDATE ON resource_monthly_costs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- STEP 2: RLS + grants
+-- ============================================================================
+
+ALTER TABLE resource_monthly_costs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read resource costs" ON resource_monthly_costs;
+DROP POLICY IF EXISTS "Allow admin and finance read resource costs" ON resource_monthly_costs;
+CREATE POLICY "Allow admin and finance read resource costs"
+    ON resource_monthly_costs FOR SELECT TO authenticated
+    USING (is_admin() OR app_role() = 'finance');
+DROP POLICY IF EXISTS "Allow admin write resource costs" ON resource_monthly_costs;
+CREATE POLICY "Allow admin write resource costs"
+    ON resource_monthly_costs FOR ALL TO authenticated
+    USING (is_admin()) WITH CHECK (is_admin());
+DROP POLICY IF EXISTS "Allow service role full access resource costs" ON resource_monthly_costs;
+CREATE POLICY "Allow service role full access resource costs"
+    ON resource_monthly_costs FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON resource_monthly_costs TO authenticated;
+GRANT ALL ON resource_monthly_costs TO service_role;
+REVOKE ALL ON resource_monthly_costs FROM anon;
+
+-- ============================================================================
+-- STEP 3: Seed one record per costed resource
+-- ============================================================================
+-- The current values become the cost for the resource's whole history — the
+-- same figures v_employee_project_profit used before this migration. The
+-- record starts in the resource's first month of time or its creation month,
+-- whichever is earlier. Resources with no cost configured are left without
+-- records and keep falling back to their resources columns.
+
+INSERT INTO resource_monthly_costs (
+    resource_id, cost_month, billing_mode, hourly_rate, monthly_cost, expected_hours
+)
+SELECT
+    r.id,
+    LEAST(
+        DATE_TRUNC('month', r.created_at)::DATE,
+        COALESCE(
+            (SELECT DATE_TRUNC('month', MIN(tdr.work_date))::DATE
+             FROM resource_user_associations rua
+             JOIN timesheet_daily_rollups tdr ON tdr.user_id = rua.user_id
+             WHERE rua.resource_id = r.id),
+            DATE_TRUNC('month', r.created_at)::DATE
+        )
+    ),
+    r.billing_mode,
+    r.hourly_rate,
+    r.monthly_cost,
+    r.expected_hours
+FROM resources r
+WHERE (r.hourly_rate IS NOT NULL OR r.monthly_cost IS NOT NULL)
+  AND NOT EXISTS (SELECT 1 FROM resource_monthly_costs rmc WHERE rmc.resource_id = r.id);
+
+-- ============================================================================
+-- STEP 4: get_resource_cost_for_month
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_resource_cost_for_month(
+    p_resource_id UUID,
+    p_month DATE
+)
+RETURNS TABLE (
+    billing_mode    TEXT,
+    hourly_rate     NUMERIC,
+    monthly_cost    NUMERIC,
+    expected_hours  NUMERIC,
+    source_month    DATE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    SELECT c.billing_mode, c.hourly_rate, c.monthly_cost, c.expected_hours, c.source_month
+    FROM (
+        -- In force: latest record at or before the month, else the first record
+        (SELECT rmc.billing_mode, rmc.hourly_rate, rmc.monthly_cost, rmc.expected_hours,
+                rmc.cost_month AS source_month, 1 AS pref
+         FROM resource_monthly_costs rmc
+         WHERE rmc.resource_id = p_resource_id
+           AND rmc.cost_month <= DATE_TRUNC('month', p_month)::DATE
+         ORDER BY rmc.cost_month DESC
+         LIMIT 1)
+        UNION ALL
+        (SELECT rmc.billing_mode, rmc.hourly_rate, rmc.monthly_cost, rmc.expected_hours,
+                rmc.cost_month, 2
+         FROM resource_monthly_costs rmc
+         WHERE rmc.resource_id = p_resource_id
+         ORDER BY rmc.cost_month ASC
+         LIMIT 1)
+        UNION ALL
+        -- No records: the resources columns
+        (SELECT r.billing_mode, r.hourly_rate, r.monthly_cost, r.expected_hours,
+                NULL::DATE, 3
+         FROM resources r
+         WHERE r.id = p_resource_id)
+    ) c
+    ORDER BY c.pref
+    LIMIT 1;
+$$;
+
+COMMENT ON FUNCTION get_resource_cost_for_month(UUID, DATE) IS
+    'Cost record in force for a resource in a month. source_month is the record''s '
+    'cost_month (NULL when the resource has no records and its own columns are used).';
+
+-- ============================================================================
+-- STEP 5: get_employee_effective_cost_rate(resource, month)
+-- ============================================================================
+-- Same formula as the single-argument version (migration 065), applied to the
+-- record in force for the month.
+
+CREATE OR REPLACE FUNCTION get_employee_effective_cost_rate(
+    p_resource_id UUID,
+    p_month DATE
+)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_cost RECORD;
+    v_effective_hours NUMERIC;
+BEGIN
+    SELECT * INTO v_cost FROM get_resource_cost_for_month(p_resource_id, p_month);
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    IF v_cost.billing_mode = 'hourly' THEN
+        RETURN ROUND(v_cost.hourly_rate, 4);
+    END IF;
+
+    IF v_cost.monthly_cost IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    v_effective_hours := COALESCE(v_cost.expected_hours, 160);
+    IF v_effective_hours <= 0 THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN ROUND(v_cost.monthly_cost / v_effective_hours, 4);
+END;
+$$;
+
+COMMENT ON FUNCTION get_employee_effective_cost_rate(UUID, DATE) IS
+    'Effective hourly cost rate for a resource in a month, from the cost record in '
+    'force for that month. Hourly mode: hourly_rate. Monthly mode: monthly_cost / '
+    'COALESCE(expected_hours, 160). NULL if cost cannot be computed.';
+
+-- ============================================================================
+-- STEP 6: v_employee_project_profit — cost at the month's rate
+-- ============================================================================
+-- Identical to migration 065 except effective_cost_rate is resolved for
+-- epa.month instead of from the current resources columns. security_invoker
+-- restated (migration 142): CREATE OR REPLACE resets view options.
+
+CREATE OR REPLACE VIEW v_employee_project_profit WITH (security_invoker = on) AS
+WITH employee_task_minutes AS (
+    SELECT
+        vec.canonical_entity_id,
+        vpc.canonical_project_id,
+        DATE_TRUNC('month', tdr.work_date)::DATE AS month,
+        tdr.task_id,
+        SUM(tdr.total_minutes)::INTEGER AS task_raw_minutes
+    FROM timesheet_daily_rollups tdr
+    JOIN projects p ON p.project_id = tdr.project_id
+    JOIN v_project_canonical vpc ON vpc.project_id = p.id
+    LEFT JOIN resource_user_associations rua ON rua.user_id = tdr.user_id
+    LEFT JOIN v_entity_canonical vec ON vec.entity_id = rua.resource_id
+    WHERE tdr.total_minutes > 0
+    GROUP BY
+        vec.canonical_entity_id,
+        vpc.canonical_project_id,
+        DATE_TRUNC('month', tdr.work_date)::DATE,
+        tdr.task_id
+),
+employee_project_aggregates AS (
+    SELECT
+        etm.canonical_entity_id,
+        etm.canonical_project_id,
+        etm.month,
+        SUM(etm.task_raw_minutes)::INTEGER AS employee_raw_minutes,
+        SUM(
+            billing_apply_rounding(
+                etm.task_raw_minutes,
+                cpms.rounding_used
+            )
+        )::INTEGER AS employee_rounded_minutes,
+        cpms.billed_revenue_cents,
+        cpms.rounding_used
+    FROM employee_task_minutes etm
+    JOIN v_canonical_project_monthly_summary cpms
+        ON cpms.project_id = etm.canonical_project_id
+        AND cpms.summary_month = etm.month
+    GROUP BY
+        etm.canonical_entity_id,
+        etm.canonical_project_id,
+        etm.month,
+        cpms.billed_revenue_cents,
+        cpms.rounding_used
+),
+with_project_totals AS (
+    SELECT
+        epa.*,
+        SUM(epa.employee_raw_minutes) OVER (
+            PARTITION BY epa.canonical_project_id, epa.month
+        ) AS total_project_raw_minutes,
+        get_employee_effective_cost_rate(epa.canonical_entity_id, epa.month) AS effective_cost_rate
+    FROM employee_project_aggregates epa
+)
+SELECT
+    wpt.canonical_entity_id,
+    wpt.canonical_project_id,
+    wpt.month,
+    wpt.employee_raw_minutes,
+    wpt.employee_rounded_minutes,
+    wpt.billed_revenue_cents,
+    wpt.effective_cost_rate,
+    ROUND(
+        wpt.billed_revenue_cents
+        * (wpt.employee_raw_minutes::NUMERIC / NULLIF(wpt.total_project_raw_minutes, 0)),
+        0
+    )::BIGINT AS proportional_revenue_cents,
+    CASE
+        WHEN wpt.effective_cost_rate IS NOT NULL THEN
+            ROUND(
+                (wpt.employee_raw_minutes / 60.0) * wpt.effective_cost_rate * 100,
+                0
+            )::BIGINT
+        ELSE NULL
+    END AS employee_cost_cents,
+    CASE
+        WHEN wpt.effective_cost_rate IS NOT NULL THEN
+            ROUND(
+                wpt.billed_revenue_cents
+                * (wpt.employee_raw_minutes::NUMERIC / NULLIF(wpt.total_project_raw_minutes, 0)),
+                0
+            )::BIGINT
+            -
+            ROUND(
+                (wpt.employee_raw_minutes / 60.0) * wpt.effective_cost_rate * 100,
+                0
+            )::BIGINT
+        ELSE NULL
+    END AS employee_profit_cents
+FROM with_project_totals wpt
+WHERE wpt.canonical_entity_id IS NOT NULL;
+
+COMMENT ON VIEW v_employee_project_profit IS
+    'Per-employee, per-canonical-project, per-month profit view. '
+    'Revenue is distributed proportionally by raw minutes (matching EmployeePerformance.tsx). '
+    'Cost is the employee cost rate in force for the month (resource_monthly_costs) * raw hours. '
+    'Profit = proportional revenue - cost. All monetary values in cents (BIGINT).';
+
+-- ============================================================================
+-- STEP 7: sync_resource_current_cost (internal)
+-- ============================================================================
+-- Copies the record in force for the current month (Europe/Sofia) onto the
+-- resources columns.
+
+CREATE OR REPLACE FUNCTION sync_resource_current_cost(p_resource_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public, pg_temp
+AS $$
+    UPDATE resources r
+    SET billing_mode   = c.billing_mode,
+        hourly_rate    = c.hourly_rate,
+        monthly_cost   = c.monthly_cost,
+        expected_hours = c.expected_hours,
+        updated_at     = NOW()
+    FROM get_resource_cost_for_month(
+        p_resource_id,
+        DATE_TRUNC('month', NOW() AT TIME ZONE 'Europe/Sofia')::DATE
+    ) c
+    WHERE r.id = p_resource_id
+      AND c.source_month IS NOT NULL;
+$$;
+
+-- ============================================================================
+-- STEP 8: set_resource_cost / delete_resource_cost
+-- ============================================================================
+-- SECURITY INVOKER: the is_admin() policies on resource_monthly_costs and
+-- resources decide who may change cost.
+
+CREATE OR REPLACE FUNCTION set_resource_cost(
+    p_resource_id UUID,
+    p_month DATE,
+    p_billing_mode TEXT,
+    p_hourly_rate NUMERIC,
+    p_monthly_cost NUMERIC,
+    p_expected_hours NUMERIC
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+    v_id UUID;
+BEGIN
+    IF v_month > DATE_TRUNC('month', NOW() AT TIME ZONE 'Europe/Sofia')::DATE THEN
+        RAISE EXCEPTION 'Cost changes cannot take effect in a future month';
+    END IF;
+
+    IF p_billing_mode = 'hourly' AND (p_hourly_rate IS NULL OR p_hourly_rate <= 0) THEN
+        RAISE EXCEPTION 'Hourly rate is required and must be greater than 0';
+    END IF;
+
+    INSERT INTO resource_monthly_costs (
+        resource_id, cost_month, billing_mode, hourly_rate, monthly_cost, expected_hours, created_by
+    )
+    VALUES (
+        p_resource_id, v_month, p_billing_mode, p_hourly_rate, p_monthly_cost, p_expected_hours, auth.uid()
+    )
+    ON CONFLICT (resource_id, cost_month) DO UPDATE
+    SET billing_mode   = EXCLUDED.billing_mode,
+        hourly_rate    = EXCLUDED.hourly_rate,
+        monthly_cost   = EXCLUDED.monthly_cost,
+        expected_hours = EXCLUDED.expected_hours,
+        created_by     = EXCLUDED.created_by
+    RETURNING id INTO v_id;
+
+    PERFORM sync_resource_current_cost(p_resource_id);
+
+    RETURN v_id;
+END;
+$$;
+
+COMMENT ON FUNCTION set_resource_cost(UUID, DATE, TEXT, NUMERIC, NUMERIC, NUMERIC) IS
+    'Records an employee cost in force from p_month (last write wins per month) and '
+    'refreshes the resource''s current cost columns.';
+
+CREATE OR REPLACE FUNCTION delete_resource_cost(p_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_resource_id UUID;
+BEGIN
+    SELECT resource_id INTO v_resource_id FROM resource_monthly_costs WHERE id = p_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Cost record not found';
+    END IF;
+
+    IF (SELECT COUNT(*) FROM resource_monthly_costs WHERE resource_id = v_resource_id) <= 1 THEN
+        RAISE EXCEPTION 'An employee''s only cost record cannot be deleted';
+    END IF;
+
+    DELETE FROM resource_monthly_costs WHERE id = p_id;
+
+    PERFORM sync_resource_current_cost(v_resource_id);
+END;
+$$;
+
+COMMENT ON FUNCTION delete_resource_cost(UUID) IS
+    'Deletes a cost record (never the last one of a resource) and refreshes the '
+    'resource''s current cost columns.';
+
+GRANT EXECUTE ON FUNCTION sync_resource_current_cost(UUID) TO authenticated, service_role;
+
+GRANT EXECUTE ON FUNCTION get_resource_cost_for_month(UUID, DATE) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION get_employee_effective_cost_rate(UUID, DATE) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION set_resource_cost(UUID, DATE, TEXT, NUMERIC, NUMERIC, NUMERIC) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION delete_resource_cost(UUID) TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 9: Investor margin reads costs with owner rights
+-- ============================================================================
+-- Investors (and other company-wide roles) cannot read resource_monthly_costs;
+-- their labor cost comes from get_investor_margin_by_month, which raises for
+-- roles without company-wide access (migration 142) and returns monthly
+-- totals only.
+
+ALTER FUNCTION get_investor_margin_by_month(date, date) SECURITY DEFINER;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+DECLARE
+    v_missing INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO v_missing
+    FROM resources r
+    WHERE (r.hourly_rate IS NOT NULL OR r.monthly_cost IS NOT NULL)
+      AND NOT EXISTS (SELECT 1 FROM resource_monthly_costs rmc WHERE rmc.resource_id = r.id);
+
+    IF v_missing > 0 THEN
+        RAISE EXCEPTION '% costed resources have no cost record', v_missing;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE tablename = 'resource_monthly_costs'
+          AND cmd = 'SELECT'
+          AND qual = 'true'
+    ) THEN
+        RAISE EXCEPTION 'resource_monthly_costs is readable by every authenticated user';
+    END IF;
+
+    RAISE NOTICE 'Migration 143 Complete:';
+    RAISE NOTICE '  - resource_monthly_costs seeded (% records)', (SELECT COUNT(*) FROM resource_monthly_costs);
+    RAISE NOTICE '  - get_resource_cost_for_month() + month-aware get_employee_effective_cost_rate()';
+    RAISE NOTICE '  - v_employee_project_profit costs each month at the rate in force';
+    RAISE NOTICE '  - set_resource_cost() / delete_resource_cost()';
+    RAISE NOTICE '  - cost records readable by admin / finance; investor margin reads them as definer';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- Restore v_employee_project_profit from migration 065 first (its
+-- with_project_totals calls get_employee_effective_cost_rate(epa.canonical_entity_id)).
+-- BEGIN;
+--   ALTER FUNCTION get_investor_margin_by_month(date, date) SECURITY INVOKER;
+--   DROP FUNCTION IF EXISTS delete_resource_cost(UUID);
+--   DROP FUNCTION IF EXISTS set_resource_cost(UUID, DATE, TEXT, NUMERIC, NUMERIC, NUMERIC);
+--   DROP FUNCTION IF EXISTS sync_resource_current_cost(UUID);
+--   DROP FUNCTION IF EXISTS get_employee_effective_cost_rate(UUID, DATE);
+--   DROP FUNCTION IF EXISTS get_resource_cost_for_month(UUID, DATE);
+--   DROP TABLE IF EXISTS resource_monthly_costs;
+-- COMMIT;
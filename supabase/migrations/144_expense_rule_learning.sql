@@ -0,0 +1,114 @@
+-- ============================================================================
+-- Migration 144: Learned expense categorization rules
+-- ============================================================================
+-- Purpose: a category corrected in the expense review queue becomes
+-- category_source = 'manual' but teaches the rule engine nothing, so the same
+-- vendor lands in Miscellaneous (15) again next month. The review queue now
+-- proposes a vendor or keyword rule from the correction and, once accepted,
+-- re-runs categorize() over the non-manual rows still in review or in the
+-- fallback category. This migration records where such rules came from:
+--
+--   1. expense_vendor_rules.source gains 'learned' (alongside raw_cyrillic /
+--      romanized_en).
+--   2. expense_keyword_rules gains source ('curated' for the seeded rules,
+--      'learned' for review-queue rules).
+--   3. Both tables gain learned_from_expense_id, created_by and created_at.
+--
+-- Rows reclassified by a learned rule keep the engine's provenance
+-- (category_source 'vendor_rule' / 'keyword_rule'); manual rows are never
+-- touched. Ingest reads only match_type/pattern/keyword/category_id/priority/
+-- force_review, so learned rules apply to future uploads unchanged.
+--
+-- Mirrors existing precedent:
+--   - migration 126 (rule tables, source provenance on vendor rules)
+--   - migration 142 (finance/admin write via can_manage_expenses())
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (ADD COLUMN IF NOT EXISTS; the
+-- vendor source CHECK is dropped and recreated).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: expense_vendor_rules
+-- ============================================================================
+
+ALTER TABLE public.expense_vendor_rules
+    DROP CONSTRAINT IF EXISTS expense_vendor_rules_source_check;
+ALTER TABLE public.expense_vendor_rules
+    ADD CONSTRAINT expense_vendor_rules_source_check
+    CHECK (source IN ('raw_cyrillic', 'romanized_en', 'learned'));
+
+ALTER TABLE public.expense_vendor_rules
+    ADD COLUMN IF NOT EXISTS learned_from_expense_id UUID REFERENCES public.expenses(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+COMMENT ON COLUMN public.expense_vendor_rules.learned_from_expense_id IS
+    'For source = ''learned'': the expense whose manual recategorization proposed the rule.';
+
+-- ============================================================================
+-- STEP 2: expense_keyword_rules
+-- ============================================================================
+
+ALTER TABLE public.expense_keyword_rules
+    ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'curated',
+    ADD COLUMN IF NOT EXISTS learned_from_expense_id UUID REFERENCES public.expenses(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS created_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE public.expense_keyword_rules
+    DROP CONSTRAINT IF EXISTS expense_keyword_rules_source_check;
+ALTER TABLE public.expense_keyword_rules
+    ADD CONSTRAINT expense_keyword_rules_source_check
+    CHECK (source IN ('curated', 'learned'));
+
+COMMENT ON COLUMN public.expense_keyword_rules.source IS
+    '''curated'' = seeded by migrations 127/128/130; ''learned'' = accepted from a '
+    'review-queue correction (see learned_from_expense_id).';
+COMMENT ON COLUMN public.expense_keyword_rules.learned_from_expense_id IS
+    'For source = ''learned'': the expense whose manual recategorization proposed the rule.';
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'expense_keyword_rules' AND column_name = 'source'
+    ) THEN
+        RAISE EXCEPTION 'expense_keyword_rules.source was not added';
+    END IF;
+
+    RAISE NOTICE 'Migration 144 Complete:';
+    RAISE NOTICE '  - expense_vendor_rules.source accepts ''learned''';
+    RAISE NOTICE '  - expense_keyword_rules.source (curated | learned)';
+    RAISE NOTICE '  - learned_from_expense_id / created_by / created_at on both rule tables';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- Learned rules must be deleted (or re-labelled) before the original vendor
+-- source CHECK can be restored.
+-- BEGIN;
+--   DELETE FROM public.expense_vendor_rules WHERE source = 'learned';
+--   ALTER TABLE public.expense_vendor_rules DROP CONSTRAINT IF EXISTS expense_vendor_rules_source_check;
+--   ALTER TABLE public.expense_vendor_rules ADD CONSTRAINT expense_vendor_rules_source_check
+--       CHECK (source IN ('raw_cyrillic', 'romanized_en'));
+--   ALTER TABLE public.expense_vendor_rules
+--       DROP COLUMN IF EXISTS learned_from_expense_id,
+--       DROP COLUMN IF EXISTS created_by,
+--       DROP COLUMN IF EXISTS created_at;
+--   ALTER TABLE public.expense_keyword_rules DROP CONSTRAINT IF EXISTS expense_keyword_rules_source_check;
+--   ALTER TABLE public.expense_keyword_rules
+--       DROP COLUMN IF EXISTS source,
+--       DROP COLUMN IF EXISTS learned_from_expense_id,
+--       DROP COLUMN IF EXISTS created_by,
+--       DROP COLUMN IF EXISTS created_at;
+-- COMMIT;
@@ -0,0 +1,68 @@
+-- ============================================================================
+-- Migration 145: Accept CAMT.053, MT940 and CSV bank statements
+-- ============================================================================
+-- Purpose: the expense upload parsed only the UniCredit Bulbank eBank export
+-- (HTML-as-.xls, BIFF .xls, .xlsx). The client now sniffs and parses three
+-- more statement formats through a parser registry (src/lib/xls):
+--   camt053 — ISO 20022 bank-to-customer statement XML
+--   mt940   — SWIFT MT940 customer statement
+--   csv     — header-mapped delimited statement
+-- Every format yields the same RawBankRow shape, so ingest-expenses and the
+-- row_hash dedupe are unchanged; only the recorded source_format widens.
+--
+-- Mirrors existing precedent:
+--   - migration 125 (expense_source_files.source_format CHECK)
+--   - migration 144 (drop + recreate an inline CHECK by its generated name)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (the CHECK is dropped and
+-- recreated). Deploy the ingest-expenses function together with this
+-- migration; it validates source_format against the same list.
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: Widen expense_source_files.source_format
+-- ============================================================================
+
+ALTER TABLE public.expense_source_files
+    DROP CONSTRAINT IF EXISTS expense_source_files_source_format_check;
+ALTER TABLE public.expense_source_files
+    ADD CONSTRAINT expense_source_files_source_format_check
+    CHECK (source_format IN ('html_xls', 'binary_xls', 'xlsx', 'camt053', 'mt940', 'csv'));
+
+COMMENT ON COLUMN public.expense_source_files.source_format IS
+    'Sniffed container of the uploaded statement: html_xls / binary_xls / xlsx '
+    '(UniCredit Bulbank eBank export), camt053, mt940 or csv.';
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint
+        WHERE conname = 'expense_source_files_source_format_check'
+          AND pg_get_constraintdef(oid) LIKE '%camt053%'
+    ) THEN
+        RAISE EXCEPTION 'source_format CHECK was not widened';
+    END IF;
+
+    RAISE NOTICE 'Migration 145 Complete:';
+    RAISE NOTICE '  - expense_source_files.source_format accepts camt053 / mt940 / csv';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- Files recorded with a new format must be removed (with their expenses) or
+-- re-labelled before the original CHECK can be restored.
+-- BEGIN;
+--   ALTER TABLE public.expense_source_files DROP CONSTRAINT IF EXISTS expense_source_files_source_format_check;
+--   ALTER TABLE public.expense_source_files ADD CONSTRAINT expense_source_files_source_format_check
+--       CHECK (source_format IN ('html_xls', 'binary_xls', 'xlsx'));
+-- COMMIT;
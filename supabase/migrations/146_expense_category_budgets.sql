@@ -0,0 +1,119 @@
+-- ============================================================================
+-- Migration 146: Monthly budgets per expense category
+-- ============================================================================
+-- Purpose: the Expenses page shows actual spend per Year > Month > Category,
+-- but there is nothing to compare it with. This migration adds
+-- expense_category_budgets — one target per category per month, in EUR (the
+-- bank-truth currency the tree totals in) with an optional USD target for the
+-- reporting layer. Variance and year-to-date over/under are computed
+-- client-side in the same single pass that builds the expense tree
+-- (src/components/expenses/expenseTree.ts), so no view or RPC is needed.
+--
+-- A starting budget can be copied forward from last year's actuals; the client
+-- writes those rows with ON CONFLICT DO NOTHING unless the operator chooses to
+-- overwrite, so existing targets are never replaced silently.
+--
+-- Mirrors existing precedent:
+--   - migration 140 (project_budgets: notes, created_by, updated_at trigger)
+--   - migration 142 (authenticated read narrowed to company-wide roles like
+--     expenses, finance/admin write via can_manage_expenses())
+--   - migration 125 (expenses.assigned_month as TEXT 'YYYY-MM')
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / DROP ... IF EXISTS).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: expense_category_budgets
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.expense_category_budgets (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    category_id     SMALLINT NOT NULL REFERENCES public.expense_categories(id) ON DELETE CASCADE,
+    budget_month    TEXT NOT NULL CHECK (budget_month ~ '^\d{4}-(0[1-9]|1[0-2])$'),
+    budget_eur      NUMERIC(14,2) NOT NULL CHECK (budget_eur >= 0),
+    budget_usd      NUMERIC(14,2) CHECK (budget_usd IS NULL OR budget_usd >= 0),
+    notes           TEXT,
+    created_by      UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT uq_expense_category_budgets_month UNIQUE (category_id, budget_month)
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_category_budgets_month
+    ON public.expense_category_budgets (budget_month);
+
+COMMENT ON TABLE public.expense_category_budgets IS
+    'Monthly spend target per expense category. budget_month matches '
+    'expenses.assigned_month (YYYY-MM); variance is computed client-side.';
+COMMENT ON COLUMN public.expense_category_budgets.budget_usd IS
+    'Optional USD reporting target. NULL = no USD target for this month.';
+
+DROP TRIGGER IF EXISTS trg_expense_category_budgets_updated_at ON public.expense_category_budgets;
+CREATE TRIGGER trg_expense_category_budgets_updated_at
+    BEFORE UPDATE ON public.expense_category_budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- STEP 2: RLS + grants
+-- ============================================================================
+
+ALTER TABLE public.expense_category_budgets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read expense category budgets" ON public.expense_category_budgets;
+CREATE POLICY "Allow authenticated read expense category budgets"
+    ON public.expense_category_budgets FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Restrict read to role scope" ON public.expense_category_budgets;
+CREATE POLICY "Restrict read to role scope"
+    ON public.expense_category_budgets AS RESTRICTIVE FOR SELECT TO authenticated
+    USING ((SELECT has_company_wide_access()));
+DROP POLICY IF EXISTS "Allow finance insert expense category budgets" ON public.expense_category_budgets;
+CREATE POLICY "Allow finance insert expense category budgets"
+    ON public.expense_category_budgets FOR INSERT TO authenticated
+    WITH CHECK (can_manage_expenses());
+DROP POLICY IF EXISTS "Allow finance update expense category budgets" ON public.expense_category_budgets;
+CREATE POLICY "Allow finance update expense category budgets"
+    ON public.expense_category_budgets FOR UPDATE TO authenticated
+    USING (can_manage_expenses()) WITH CHECK (can_manage_expenses());
+DROP POLICY IF EXISTS "Allow finance delete expense category budgets" ON public.expense_category_budgets;
+CREATE POLICY "Allow finance delete expense category budgets"
+    ON public.expense_category_budgets FOR DELETE TO authenticated
+    USING (can_manage_expenses());
+DROP POLICY IF EXISTS "Allow service role full access expense category budgets" ON public.expense_category_budgets;
+CREATE POLICY "Allow service role full access expense category budgets"
+    ON public.expense_category_budgets FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.expense_category_budgets TO authenticated;
+GRANT ALL ON public.expense_category_budgets TO service_role;
+REVOKE ALL ON public.expense_category_budgets FROM anon;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.tables
+        WHERE table_schema = 'public' AND table_name = 'expense_category_budgets'
+    ) THEN
+        RAISE EXCEPTION 'expense_category_budgets was not created';
+    END IF;
+
+    RAISE NOTICE 'Migration 146 Complete:';
+    RAISE NOTICE '  - expense_category_budgets (category_id, budget_month) EUR + optional USD';
+    RAISE NOTICE '  - read: company-wide roles; finance/admin write via can_manage_expenses()';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- BEGIN;
+--   DROP TABLE IF EXISTS public.expense_category_budgets;
+-- COMMIT;
@@ -0,0 +1,174 @@
+-- ============================================================================
+-- Migration 147: Company profit & loss lines
+-- ============================================================================
+-- Purpose: revenue (project_monthly_summary + fixed billings), direct labor
+-- cost (v_employee_project_profit) and overhead (expenses, USD reporting
+-- layer) each have their own page, but nothing puts them into one statement.
+-- This migration adds get_company_pnl_lines(p_start, p_end): one row per
+-- month x section x line, in USD cents, which the P&L page
+-- (src/utils/companyPnl.ts) arranges into
+--
+--   revenue → direct labor → gross margin → overhead by category → net
+--
+-- Sections and their lines:
+--   revenue   per CANONICAL company: combined revenue (timesheet with
+--             milestone overrides + fixed billings) from
+--             v_combined_revenue_by_company_month, member projects excluded.
+--   labor     per CANONICAL company of the canonical project: Σ
+--             employee_cost_cents from v_employee_project_profit (month-
+--             accurate cost since migration 143). Rows without a cost rate are
+--             NOT zeroed — they are excluded and counted in pending_count.
+--   overhead  per expense category: Σ expenses.usd_amount (migration 133) of
+--             non-credit rows by assigned_month. Rows whose USD rate is still
+--             pending are excluded and counted in pending_count.
+--
+-- The in-progress current month IS returned (the page marks it); the caller
+-- bounds the range. Like the investor RPCs it is a firm-wide aggregate, so it
+-- raises for roles without company-wide access (migration 142). It runs as
+-- SECURITY DEFINER because employee cost records (migration 143) are readable
+-- by admin and finance only.
+--
+-- Mirrors existing precedent:
+--   - migration 122 (get_investor_margin_by_month: canonical revenue source,
+--     labor straight from v_employee_project_profit, NULL cost not zeroed,
+--     STABLE SQL with search_path, EXECUTE to authenticated only)
+--   - migration 023 (v_company_canonical for company grouping)
+--   - migration 133 (expenses.usd_amount; NULL = pending, never $0)
+--   - migration 142 (assert_company_wide_access() guard on firm-wide RPCs)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (DROP FUNCTION IF EXISTS + CREATE).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: get_company_pnl_lines
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_company_pnl_lines(date, date);
+
+CREATE FUNCTION get_company_pnl_lines(
+    p_start date DEFAULT NULL,
+    p_end   date DEFAULT NULL
+)
+RETURNS TABLE (
+    summary_month   date,
+    section         text,
+    line_id         text,
+    line_label      text,
+    amount_cents    bigint,
+    pending_count   integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT assert_company_wide_access();
+
+    WITH bounds AS (
+        SELECT
+            DATE_TRUNC('month', COALESCE(p_start, '1900-01-01'::date))::date AS lo,
+            DATE_TRUNC('month', COALESCE(p_end, CURRENT_DATE))::date          AS hi
+    ),
+    revenue AS (
+        SELECT
+            cr.summary_month,
+            'revenue'::text AS section,
+            vcc.canonical_company_id::text AS line_id,
+            COALESCE(cc.display_name, cc.client_name) AS line_label,
+            SUM(cr.combined_revenue_cents)::bigint AS amount_cents,
+            0 AS pending_count
+        FROM v_combined_revenue_by_company_month cr
+        JOIN v_company_canonical vcc ON vcc.company_id = cr.company_id
+        JOIN companies cc ON cc.id = vcc.canonical_company_id
+        CROSS JOIN bounds b
+        WHERE cr.summary_month BETWEEN b.lo AND b.hi
+        GROUP BY cr.summary_month, vcc.canonical_company_id, cc.display_name, cc.client_name
+    ),
+    labor AS (
+        SELECT
+            epp.month AS summary_month,
+            'labor'::text AS section,
+            vcc.canonical_company_id::text AS line_id,
+            COALESCE(cc.display_name, cc.client_name) AS line_label,
+            COALESCE(SUM(epp.employee_cost_cents) FILTER (WHERE epp.employee_cost_cents IS NOT NULL), 0)::bigint
+                AS amount_cents,
+            COUNT(*) FILTER (WHERE epp.employee_cost_cents IS NULL)::integer AS pending_count
+        FROM v_employee_project_profit epp
+        JOIN projects p ON p.id = epp.canonical_project_id
+        JOIN v_company_canonical vcc ON vcc.company_id = p.company_id
+        JOIN companies cc ON cc.id = vcc.canonical_company_id
+        CROSS JOIN bounds b
+        WHERE epp.month BETWEEN b.lo AND b.hi
+        GROUP BY epp.month, vcc.canonical_company_id, cc.display_name, cc.client_name
+    ),
+    overhead AS (
+        SELECT
+            TO_DATE(e.assigned_month || '-01', 'YYYY-MM-DD') AS summary_month,
+            'overhead'::text AS section,
+            ec.id::text AS line_id,
+            ec.name AS line_label,
+            COALESCE(SUM(ROUND(e.usd_amount * 100)) FILTER (WHERE e.usd_amount IS NOT NULL), 0)::bigint
+                AS amount_cents,
+            COUNT(*) FILTER (WHERE e.usd_amount IS NULL)::integer AS pending_count
+        FROM expenses e
+        JOIN expense_categories ec ON ec.id = e.category_id
+        CROSS JOIN bounds b
+        WHERE e.entry_type IS DISTINCT FROM 'Credit'
+          AND TO_DATE(e.assigned_month || '-01', 'YYYY-MM-DD') BETWEEN b.lo AND b.hi
+        GROUP BY e.assigned_month, ec.id, ec.name
+    )
+    SELECT * FROM revenue
+    UNION ALL
+    SELECT * FROM labor
+    UNION ALL
+    SELECT * FROM overhead
+    ORDER BY summary_month, section, line_label;
+$$;
+
+COMMENT ON FUNCTION get_company_pnl_lines(date, date) IS
+    'P&L lines per month in USD cents: revenue and direct labor per canonical '
+    'company, overhead per expense category (USD reporting layer). Labor rows '
+    'without a cost rate and expenses with a pending USD rate are excluded from '
+    'amount_cents and counted in pending_count. Includes the current month. '
+    'Raises for roles without company-wide access.';
+
+GRANT EXECUTE ON FUNCTION get_company_pnl_lines(date, date) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION get_company_pnl_lines(date, date) FROM PUBLIC;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_proc WHERE proname = 'get_company_pnl_lines'
+    ) THEN
+        RAISE EXCEPTION 'get_company_pnl_lines was not created';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_proc
+        WHERE proname = 'get_company_pnl_lines'
+          AND prosrc LIKE '%assert_company_wide_access()%'
+    ) THEN
+        RAISE EXCEPTION 'get_company_pnl_lines is missing the company-wide access guard';
+    END IF;
+
+    RAISE NOTICE 'Migration 147 Complete:';
+    RAISE NOTICE '  - get_company_pnl_lines(p_start, p_end): revenue / labor per canonical company,';
+    RAISE NOTICE '    overhead per expense category, USD cents with pending counts;';
+    RAISE NOTICE '    raises for roles without company-wide access';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- BEGIN;
+--   DROP FUNCTION IF EXISTS get_company_pnl_lines(date, date);
+-- COMMIT;
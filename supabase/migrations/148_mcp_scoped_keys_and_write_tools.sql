@@ -0,0 +1,1111 @@
+-- ============================================================================
+-- Migration 148: Scoped MCP API keys, financial read tools, audited write tools
+-- ============================================================================
+-- Purpose:
+--   The Manifest MCP (migrations 103-112) shipped 11 read-only, hours-only
+--   tools behind one kind of key. Assistant integrations now need to answer
+--   "what did we bill <client> in March" and to log a manual time entry or a
+--   time-off note. This migration keeps every existing guarantee and adds:
+--
+--     1. Per-key scopes on mcp_api.api_keys:
+--          hours:read        the 11 original tools (every existing key keeps
+--                            exactly this scope — no behavior change)
+--          finance:read      api_get_company_revenue, api_get_revenue_summary
+--          timesheets:write  api_log_time_entry
+--          time_off:write    api_add_time_off_note
+--        _authenticate_and_consume returns the key's scopes; the Edge Function
+--        filters tools/list and rejects tools/call for a missing scope. The
+--        finance and write functions re-check the scope themselves (they take
+--        the authenticated api_key_id) so an Edge Function bug cannot widen
+--        access.
+--
+--     2. Financial read tools over mcp_api.v_api_company_revenue_month, a
+--        canonical-company projection of v_combined_revenue_by_company_month
+--        (migrations 047/050) — the canonical company-month revenue every
+--        live surface (Revenue page, EOM, investor dashboard, P&L) renders.
+--        The read-time resolver (resolve_month_project_revenue, migrations
+--        116/117) is still a parity shadow and is deliberately NOT used, so
+--        the MCP can never quote a figure the invoices do not show.
+--        Amounts are integer USD cents. No rates, costs or per-employee money.
+--
+--     3. Audited write tools. Each write lands in mcp_api.api_write_log with
+--        the key, the tool, the target row and a before/after image — in the
+--        same transaction as the write, so a write without its audit row is
+--        impossible. (api_audit_log still records the JSON-RPC call itself.)
+--          api_log_time_entry     — one manual entry through the SAME path as
+--                                   the manual import (migration 136):
+--                                   clockify_workspace_id = 'manual',
+--                                   task_id = 'manual-' + sha256(user|project|
+--                                   task|date)[:32], so re-logging the same
+--                                   entry replaces its minutes instead of
+--                                   doubling them. Rounding, Layer 2 and
+--                                   task_monthly_totals are refreshed for the
+--                                   day; the project-month is queued for
+--                                   recalculation (drained by the next sync).
+--                                   Closed billing months are refused.
+--          api_add_time_off_note  — a note against an employee's date range in
+--                                   public.employee_time_off_notes. Notes are
+--                                   NOT time-off events: employee_time_off stays
+--                                   owned by the BambooHR sync, which deletes
+--                                   rows it did not create.
+--
+--     4. Admin RPCs: admin_list_api_keys returns scopes, admin_create_api_key
+--        takes p_scopes (defaults to hours:read), admin_set_api_key_scopes
+--        changes an active key's scopes.
+--
+-- Mirrors existing precedent:
+--   - migration 106 (api_* envelope shape, SECURITY DEFINER + search_path,
+--     owner mcp_owner, EXECUTE to mcp_reader only)
+--   - migration 107/110/111 (admin RPC gate + JWT-claim caller id)
+--   - migration 112 (narrow public.* grants to mcp_owner, listed per use)
+--   - migration 136 (manual time source and its task_id dedupe key)
+--   - migration 134 (is_billing_month_closed gate for writes)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- DROP ... IF EXISTS). Deploy order: this migration, then admin-api-keys and
+-- manifest-mcp. The rollback lives in supabase/rollbacks/.
+-- ============================================================================
+
+BEGIN;
+
+SET LOCAL search_path = mcp_api, public;
+
+-- ============================================================================
+-- STEP 1: api_keys.scopes
+-- ============================================================================
+
+ALTER TABLE mcp_api.api_keys
+    ADD COLUMN IF NOT EXISTS scopes TEXT[] NOT NULL DEFAULT ARRAY['hours:read']::TEXT[];
+
+ALTER TABLE mcp_api.api_keys DROP CONSTRAINT IF EXISTS api_keys_scopes_valid;
+ALTER TABLE mcp_api.api_keys
+    ADD CONSTRAINT api_keys_scopes_valid CHECK (
+        cardinality(scopes) > 0
+        AND scopes <@ ARRAY['hours:read','finance:read','timesheets:write','time_off:write']::TEXT[]
+    );
+
+COMMENT ON COLUMN mcp_api.api_keys.scopes IS
+    'Tool scopes granted to the key: hours:read, finance:read, timesheets:write, '
+    'time_off:write. Keys minted before migration 148 hold hours:read only.';
+
+-- ============================================================================
+-- STEP 2: Write audit log + time-off notes
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS mcp_api.api_write_log (
+    id              BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    api_key_id      UUID NOT NULL,
+    tool_name       TEXT NOT NULL,
+    target_table    TEXT NOT NULL,
+    target_id       TEXT NOT NULL,
+    action          TEXT NOT NULL CHECK (action IN ('insert','update')),
+    before_image    JSONB,
+    after_image     JSONB NOT NULL,
+    written_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS api_write_log_api_key_id_idx
+    ON mcp_api.api_write_log (api_key_id, written_at DESC);
+
+ALTER TABLE mcp_api.api_write_log OWNER TO mcp_owner;
+REVOKE ALL ON mcp_api.api_write_log FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE mcp_api.api_write_log IS
+    'One row per MCP write, inserted in the same transaction as the write: '
+    'key, tool, target row and before/after image. Kept indefinitely (not '
+    'pruned by the 90-day audit cleanup).';
+
+CREATE TABLE IF NOT EXISTS public.employee_time_off_notes (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    resource_id     UUID NOT NULL REFERENCES public.resources(id) ON DELETE CASCADE,
+    start_date      DATE NOT NULL,
+    end_date        DATE NOT NULL,
+    note            TEXT NOT NULL CHECK (length(trim(note)) BETWEEN 1 AND 1000),
+    source          TEXT NOT NULL DEFAULT 'mcp' CHECK (source IN ('mcp')),
+    api_key_id      UUID,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    CONSTRAINT employee_time_off_notes_range CHECK (start_date <= end_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_employee_time_off_notes_resource_dates
+    ON public.employee_time_off_notes (resource_id, start_date);
+
+ALTER TABLE public.employee_time_off_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read time off notes" ON public.employee_time_off_notes;
+CREATE POLICY "Allow authenticated read time off notes"
+    ON public.employee_time_off_notes FOR SELECT TO authenticated USING (true);
+
+DROP POLICY IF EXISTS "Allow admin delete time off notes" ON public.employee_time_off_notes;
+CREATE POLICY "Allow admin delete time off notes"
+    ON public.employee_time_off_notes FOR DELETE TO authenticated USING (is_admin());
+
+DROP POLICY IF EXISTS "Allow service role full access time off notes" ON public.employee_time_off_notes;
+CREATE POLICY "Allow service role full access time off notes"
+    ON public.employee_time_off_notes FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+COMMENT ON TABLE public.employee_time_off_notes IS
+    'Free-text time-off notes logged through the MCP (e.g. "out Friday, '
+    'request pending in BambooHR"). Not time-off events: employee_time_off '
+    'stays owned by the BambooHR sync.';
+
+-- ============================================================================
+-- STEP 3: public.* privileges for mcp_owner (minimum per tool)
+-- ============================================================================
+--   v_api_company_revenue_month → v_combined_revenue_by_company_month and,
+--                                 as it is security_invoker (migration 142),
+--                                 its sources project_monthly_summary and
+--                                 monthly_fixed_billing_summary
+--   api_log_time_entry          → SELECT/INSERT/UPDATE timesheet_daily_rollups,
+--                                 INSERT recalculation_queue, EXECUTE
+--                                 is_billing_month_closed + populate_* (all
+--                                 SECURITY DEFINER as their own owner)
+--   api_add_time_off_note       → INSERT employee_time_off_notes
+-- resources, resource_user_associations, projects, companies and
+-- project_group_members SELECT were granted in migration 112.
+
+GRANT SELECT ON public.v_combined_revenue_by_company_month TO mcp_owner;
+GRANT SELECT ON public.project_monthly_summary TO mcp_owner;
+GRANT SELECT ON public.monthly_fixed_billing_summary TO mcp_owner;
+GRANT SELECT, INSERT, UPDATE ON public.timesheet_daily_rollups TO mcp_owner;
+GRANT INSERT ON public.recalculation_queue TO mcp_owner;
+GRANT SELECT, INSERT ON public.employee_time_off_notes TO mcp_owner;
+GRANT EXECUTE ON FUNCTION public.is_billing_month_closed(DATE) TO mcp_owner;
+GRANT EXECUTE ON FUNCTION public.populate_rounded_minutes(TEXT, DATE, DATE) TO mcp_owner;
+GRANT EXECUTE ON FUNCTION public.populate_layer2_totals(TEXT, DATE, DATE) TO mcp_owner;
+GRANT EXECUTE ON FUNCTION public.populate_task_monthly_totals(TEXT, DATE, DATE) TO mcp_owner;
+
+-- The revenue sources and write targets have RLS enabled (migrations 044,
+-- 047, 063). mcp_owner gets policies of its own: read-only on the revenue
+-- sources, and on timesheet_daily_rollups only for the 'manual' source, so an
+-- MCP write can never touch a synced Clockify/ClickUp row.
+DROP POLICY IF EXISTS "Allow mcp_owner read" ON public.project_monthly_summary;
+CREATE POLICY "Allow mcp_owner read"
+    ON public.project_monthly_summary FOR SELECT TO mcp_owner
+    USING (true);
+
+DROP POLICY IF EXISTS "Allow mcp_owner read" ON public.monthly_fixed_billing_summary;
+CREATE POLICY "Allow mcp_owner read"
+    ON public.monthly_fixed_billing_summary FOR SELECT TO mcp_owner
+    USING (true);
+
+DROP POLICY IF EXISTS "Allow mcp_owner manual rollups" ON public.timesheet_daily_rollups;
+CREATE POLICY "Allow mcp_owner manual rollups"
+    ON public.timesheet_daily_rollups FOR ALL TO mcp_owner
+    USING (clockify_workspace_id = 'manual')
+    WITH CHECK (clockify_workspace_id = 'manual');
+
+DROP POLICY IF EXISTS "Allow mcp_owner enqueue recalculation" ON public.recalculation_queue;
+CREATE POLICY "Allow mcp_owner enqueue recalculation"
+    ON public.recalculation_queue FOR INSERT TO mcp_owner
+    WITH CHECK (reason = 'manual');
+
+DROP POLICY IF EXISTS "Allow mcp_owner time off notes" ON public.employee_time_off_notes;
+CREATE POLICY "Allow mcp_owner time off notes"
+    ON public.employee_time_off_notes FOR ALL TO mcp_owner
+    USING (source = 'mcp')
+    WITH CHECK (source = 'mcp');
+
+-- ============================================================================
+-- STEP 4: v_api_company_revenue_month
+-- ============================================================================
+-- One row per canonical company per month. Member companies roll up to their
+-- primary through v_company_canonical (same grouping as v_api_companies).
+
+CREATE OR REPLACE VIEW mcp_api.v_api_company_revenue_month AS
+SELECT
+    vcc.canonical_company_id                                 AS canonical_company_id,
+    cr.summary_month                                         AS summary_month,
+    SUM(cr.effective_revenue_cents)::BIGINT                  AS timesheet_revenue_cents,
+    SUM(cr.fixed_billing_cents)::BIGINT                      AS fixed_billing_cents,
+    SUM(cr.combined_revenue_cents)::BIGINT                   AS revenue_cents,
+    ROUND(SUM(cr.total_billed_hours)::NUMERIC, 2)            AS billed_hours
+FROM public.v_combined_revenue_by_company_month cr
+JOIN public.v_company_canonical vcc
+    ON vcc.company_id = cr.company_id
+GROUP BY vcc.canonical_company_id, cr.summary_month;
+
+ALTER VIEW mcp_api.v_api_company_revenue_month OWNER TO mcp_owner;
+REVOKE ALL ON mcp_api.v_api_company_revenue_month FROM PUBLIC, anon, authenticated;
+
+COMMENT ON VIEW mcp_api.v_api_company_revenue_month IS
+    'Combined revenue (timesheet with milestone overrides + fixed billings) per '
+    'canonical company per month, in USD cents, from the canonical '
+    'v_combined_revenue_by_company_month. Read by the finance:read tools only.';
+
+-- ============================================================================
+-- STEP 5: Auth returns scopes + scope gate
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION mcp_api._authenticate_and_consume(
+    p_token_hash    TEXT,
+    p_per_minute    INTEGER,
+    p_per_hour      INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = mcp_api, pg_temp
+AS $$
+DECLARE
+    v_key       RECORD;
+    v_rl        JSONB;
+    v_scopes    TEXT[];
+BEGIN
+    -- Body identical to migration 106 apart from the scopes lookup and the
+    -- extra 'scopes' key on success.
+    SELECT api_key_id, status, prefix, name
+      INTO v_key
+      FROM mcp_api.api_authenticate_key(p_token_hash)
+     LIMIT 1;
+
+    IF v_key IS NULL OR v_key.api_key_id IS NULL THEN
+        RETURN jsonb_build_object('ok', false, 'reason', 'invalid');
+    END IF;
+
+    IF v_key.status <> 'active' THEN
+        RETURN jsonb_build_object('ok', false, 'reason', 'revoked');
+    END IF;
+
+    v_rl := mcp_api.api_consume_rate_limit(v_key.api_key_id, 'minute', p_per_minute);
+    IF NOT (v_rl->>'allowed')::boolean THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'reason', 'rate_limited',
+            'window_kind', 'minute',
+            'retry_after_ms', v_rl->'retry_after_ms'
+        );
+    END IF;
+
+    v_rl := mcp_api.api_consume_rate_limit(v_key.api_key_id, 'hour', p_per_hour);
+    IF NOT (v_rl->>'allowed')::boolean THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'reason', 'rate_limited',
+            'window_kind', 'hour',
+            'retry_after_ms', v_rl->'retry_after_ms'
+        );
+    END IF;
+
+    SELECT k.scopes INTO v_scopes FROM mcp_api.api_keys k WHERE k.id = v_key.api_key_id;
+
+    RETURN jsonb_build_object(
+        'ok', true,
+        'api_key_id', v_key.api_key_id,
+        'prefix',     v_key.prefix,
+        'name',       v_key.name,
+        'scopes',     to_jsonb(COALESCE(v_scopes, ARRAY[]::TEXT[]))
+    );
+END;
+$$;
+
+ALTER FUNCTION mcp_api._authenticate_and_consume(TEXT, INTEGER, INTEGER) OWNER TO mcp_owner;
+
+-- Internal: returns the FORBIDDEN envelope when the key is not active or lacks
+-- the scope, NULL when the call may proceed.
+CREATE OR REPLACE FUNCTION mcp_api._internal_require_scope(
+    p_api_key_id    UUID,
+    p_scope         TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = mcp_api, pg_temp
+AS $$
+BEGIN
+    IF p_api_key_id IS NOT NULL AND EXISTS (
+        SELECT 1 FROM mcp_api.api_keys k
+         WHERE k.id = p_api_key_id
+           AND k.status = 'active'
+           AND p_scope = ANY (k.scopes)
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'ok', false,
+        'error', jsonb_build_object(
+            'code', 'FORBIDDEN',
+            'message', format('This API key does not have the %s scope.', p_scope)
+        )
+    );
+END;
+$$;
+
+ALTER FUNCTION mcp_api._internal_require_scope(UUID, TEXT) OWNER TO mcp_owner;
+REVOKE ALL ON FUNCTION mcp_api._internal_require_scope(UUID, TEXT) FROM PUBLIC;
+-- Internal: not granted to mcp_reader. Only api_* functions call it.
+
+-- ============================================================================
+-- TOOL 12: api_get_company_revenue                              (finance:read)
+-- ============================================================================
+-- Month-by-month revenue for one canonical company. Dates snap to month
+-- starts; at most 36 months per call.
+
+CREATE OR REPLACE FUNCTION mcp_api.api_get_company_revenue(
+    p_api_key_id            UUID,
+    p_canonical_company_id  UUID,
+    p_start_date            DATE,
+    p_end_date              DATE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = mcp_api, pg_temp
+AS $$
+DECLARE
+    v_denied        JSONB;
+    v_start         DATE;
+    v_end           DATE;
+    v_company_name  TEXT;
+    v_months        JSONB;
+    v_total         BIGINT;
+    v_count         INTEGER;
+BEGIN
+    v_denied := mcp_api._internal_require_scope(p_api_key_id, 'finance:read');
+    IF v_denied IS NOT NULL THEN
+        RETURN v_denied;
+    END IF;
+
+    IF p_canonical_company_id IS NULL OR p_start_date IS NULL OR p_end_date IS NULL
+        OR p_start_date > p_end_date THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object(
+                'code', 'INVALID_DATE',
+                'message', 'canonical_company_id, start_date, end_date are required and start <= end.'
+            )
+        );
+    END IF;
+
+    v_start := date_trunc('month', p_start_date)::date;
+    v_end   := date_trunc('month', p_end_date)::date;
+
+    IF v_end >= (v_start + INTERVAL '36 months')::date THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object(
+                'code', 'INVALID_DATE',
+                'message', 'The range may cover at most 36 months.'
+            )
+        );
+    END IF;
+
+    SELECT c.display_name INTO v_company_name
+      FROM mcp_api.v_api_companies c
+     WHERE c.canonical_company_id = p_canonical_company_id;
+
+    IF v_company_name IS NULL THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object(
+                'code', 'NOT_FOUND',
+                'message', 'No canonical company with that id.'
+            )
+        );
+    END IF;
+
+    SELECT
+        COALESCE(jsonb_agg(m ORDER BY m->>'month'), '[]'::jsonb),
+        COALESCE(SUM((m->>'revenue_cents')::BIGINT), 0)::BIGINT,
+        COUNT(*)::INTEGER
+      INTO v_months, v_total, v_count
+      FROM (
+        SELECT jsonb_build_object(
+            'month',                   r.summary_month,
+            'timesheet_revenue_cents', r.timesheet_revenue_cents,
+            'fixed_billing_cents',     r.fixed_billing_cents,
+            'revenue_cents',           r.revenue_cents,
+            'billed_hours',            r.billed_hours
+        ) AS m
+          FROM mcp_api.v_api_company_revenue_month r
+         WHERE r.canonical_company_id = p_canonical_company_id
+           AND r.summary_month BETWEEN v_start AND v_end
+      ) s;
+
+    RETURN jsonb_build_object(
+        'ok', true,
+        'data', jsonb_build_object(
+            'canonical_company_id', p_canonical_company_id,
+            'company_name',         v_company_name,
+            'currency',             'USD',
+            'total_revenue_cents',  v_total,
+            'months',               v_months
+        ),
+        'provenance', jsonb_build_object(
+            'source',       'v_combined_revenue_by_company_month',
+            'computed_at',  NOW(),
+            'row_count',    v_count,
+            'truncated',    false,
+            'period_start', v_start,
+            'period_end',   (v_end + INTERVAL '1 month - 1 day')::date
+        )
+    );
+END;
+$$;
+
+ALTER FUNCTION mcp_api.api_get_company_revenue(UUID, UUID, DATE, DATE) OWNER TO mcp_owner;
+REVOKE ALL ON FUNCTION mcp_api.api_get_company_revenue(UUID, UUID, DATE, DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mcp_api.api_get_company_revenue(UUID, UUID, DATE, DATE) TO mcp_reader;
+COMMENT ON FUNCTION mcp_api.api_get_company_revenue(UUID, UUID, DATE, DATE) IS
+    'Monthly combined revenue (USD cents) for one canonical company. Requires '
+    'the finance:read scope on p_api_key_id.';
+
+-- ============================================================================
+-- TOOL 13: api_get_revenue_summary                              (finance:read)
+-- ============================================================================
+-- Revenue per canonical company over a month range, largest first. Top 50
+-- companies; the total always covers every company.
+
+CREATE OR REPLACE FUNCTION mcp_api.api_get_revenue_summary(
+    p_api_key_id    UUID,
+    p_start_date    DATE,
+    p_end_date      DATE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = mcp_api, pg_temp
+AS $$
+DECLARE
+    c_limit     CONSTANT INTEGER := 50;
+    v_denied    JSONB;
+    v_start     DATE;
+    v_end       DATE;
+    v_companies JSONB;
+    v_total     BIGINT;
+    v_count     INTEGER;
+BEGIN
+    v_denied := mcp_api._internal_require_scope(p_api_key_id, 'finance:read');
+    IF v_denied IS NOT NULL THEN
+        RETURN v_denied;
+    END IF;
+
+    IF p_start_date IS NULL OR p_end_date IS NULL OR p_start_date > p_end_date THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object(
+                'code', 'INVALID_DATE',
+                'message', 'start_date and end_date are required and start must be <= end.'
+            )
+        );
+    END IF;
+
+    v_start := date_trunc('month', p_start_date)::date;
+    v_end   := date_trunc('month', p_end_date)::date;
+
+    WITH per_company AS (
+        SELECT
+            r.canonical_company_id,
+            c.display_name,
+            SUM(r.revenue_cents)::BIGINT            AS revenue_cents,
+            ROUND(SUM(r.billed_hours)::NUMERIC, 2)  AS billed_hours
+          FROM mcp_api.v_api_company_revenue_month r
+          JOIN mcp_api.v_api_companies c
+            ON c.canonical_company_id = r.canonical_company_id
+         WHERE r.summary_month BETWEEN v_start AND v_end
+         GROUP BY r.canonical_company_id, c.display_name
+    ),
+    ranked AS (
+        SELECT pc.*, ROW_NUMBER() OVER (ORDER BY pc.revenue_cents DESC, pc.display_name) AS rn
+          FROM per_company pc
+    )
+    SELECT
+        COALESCE(jsonb_agg(jsonb_build_object(
+            'canonical_company_id', rk.canonical_company_id,
+            'company_name',         rk.display_name,
+            'revenue_cents',        rk.revenue_cents,
+            'billed_hours',         rk.billed_hours
+        ) ORDER BY rk.rn) FILTER (WHERE rk.rn <= c_limit), '[]'::jsonb),
+        COALESCE(SUM(rk.revenue_cents), 0)::BIGINT,
+        COUNT(*)::INTEGER
+      INTO v_companies, v_total, v_count
+      FROM ranked rk;
+
+    RETURN jsonb_build_object(
+        'ok', true,
+        'data', jsonb_build_object(
+            'currency',            'USD',
+            'total_revenue_cents', v_total,
+            'companies',           v_companies
+        ),
+        'provenance', jsonb_build_object(
+            'source',       'v_combined_revenue_by_company_month',
+            'computed_at',  NOW(),
+            'row_count',    LEAST(v_count, c_limit),
+            'truncated',    v_count > c_limit,
+            'period_start', v_start,
+            'period_end',   (v_end + INTERVAL '1 month - 1 day')::date
+        )
+    );
+END;
+$$;
+
+ALTER FUNCTION mcp_api.api_get_revenue_summary(UUID, DATE, DATE) OWNER TO mcp_owner;
+REVOKE ALL ON FUNCTION mcp_api.api_get_revenue_summary(UUID, DATE, DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mcp_api.api_get_revenue_summary(UUID, DATE, DATE) TO mcp_reader;
+COMMENT ON FUNCTION mcp_api.api_get_revenue_summary(UUID, DATE, DATE) IS
+    'Combined revenue (USD cents) per canonical company over a month range, '
+    'top 50. Requires the finance:read scope on p_api_key_id.';
+
+-- ============================================================================
+-- TOOL 14: api_log_time_entry                               (timesheets:write)
+-- ============================================================================
+-- Same row the manual import (migration 136) would write for one
+-- (employee, project, task, date). Re-logging the same key REPLACES the
+-- minutes. The task name is normalized like the import's matchKey (collapse
+-- whitespace, trim, lowercase) for the dedupe hash only; the stored task_name
+-- keeps the caller's casing.
+
+CREATE OR REPLACE FUNCTION mcp_api.api_log_time_entry(
+    p_api_key_id            UUID,
+    p_canonical_employee_id UUID,
+    p_canonical_project_id  UUID,
+    p_work_date             DATE,
+    p_hours                 NUMERIC,
+    p_task                  TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = mcp_api, pg_temp
+AS $$
+DECLARE
+    v_denied        JSONB;
+    v_minutes       INTEGER;
+    v_task          TEXT := regexp_replace(trim(COALESCE(p_task, '')), '\s+', ' ', 'g');
+    v_employee_name TEXT;
+    v_user_id       TEXT;
+    v_project       RECORD;
+    v_task_id       TEXT;
+    v_before        public.timesheet_daily_rollups%ROWTYPE;
+    v_after         public.timesheet_daily_rollups%ROWTYPE;
+    v_month         DATE;
+BEGIN
+    v_denied := mcp_api._internal_require_scope(p_api_key_id, 'timesheets:write');
+    IF v_denied IS NOT NULL THEN
+        RETURN v_denied;
+    END IF;
+
+    IF p_canonical_employee_id IS NULL OR p_canonical_project_id IS NULL
+        OR p_work_date IS NULL OR p_work_date > CURRENT_DATE THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object(
+                'code', 'INVALID_DATE',
+                'message', 'canonical_employee_id, canonical_project_id and work_date are required; work_date cannot be in the future.'
+            )
+        );
+    END IF;
+
+    v_minutes := CEIL(COALESCE(p_hours, 0) * 60)::INTEGER;
+    IF v_minutes <= 0 OR v_minutes > 24 * 60 THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object(
+                'code', 'INVALID_ARGUMENT',
+                'message', 'hours must be greater than 0 and at most 24.'
+            )
+        );
+    END IF;
+
+    IF length(v_task) > 500 THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object(
+                'code', 'INVALID_ARGUMENT',
+                'message', 'task must be at most 500 characters.'
+            )
+        );
+    END IF;
+
+    v_month := date_trunc('month', p_work_date)::date;
+    IF public.is_billing_month_closed(v_month) THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object(
+                'code', 'MONTH_CLOSED',
+                'message', format('Billing month %s is closed; time cannot be logged into it.', to_char(v_month, 'YYYY-MM'))
+            )
+        );
+    END IF;
+
+    -- Employee → time-tracking user id (own user_id, else an association),
+    -- the same resolution as the manual import.
+    SELECT e.display_name INTO v_employee_name
+      FROM mcp_api.v_api_employees e
+     WHERE e.canonical_employee_id = p_canonical_employee_id;
+
+    IF v_employee_name IS NULL THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object('code', 'NOT_FOUND', 'message', 'No canonical employee with that id.')
+        );
+    END IF;
+
+    SELECT COALESCE(
+        NULLIF(r.user_id, ''),
+        (SELECT rua.user_id FROM public.resource_user_associations rua
+          WHERE rua.resource_id = r.id ORDER BY rua.created_at LIMIT 1)
+    )
+      INTO v_user_id
+      FROM public.resources r
+     WHERE r.id = p_canonical_employee_id;
+
+    IF v_user_id IS NULL THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object(
+                'code', 'NOT_FOUND',
+                'message', format('Employee "%s" has no time-tracking user id.', v_employee_name)
+            )
+        );
+    END IF;
+
+    SELECT p.id, p.project_id, p.project_name, p.client_id, p.client_name
+      INTO v_project
+      FROM mcp_api.v_api_projects vp
+      JOIN public.projects p ON p.id = vp.canonical_project_id
+     WHERE vp.canonical_project_id = p_canonical_project_id;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object('code', 'NOT_FOUND', 'message', 'No canonical project with that id.')
+        );
+    END IF;
+
+    v_task_id := 'manual-' || left(encode(sha256(convert_to(
+        concat_ws('|', v_user_id, v_project.project_id, lower(v_task), p_work_date::text),
+        'UTF8'
+    )), 'hex'), 32);
+
+    SELECT * INTO v_before
+      FROM public.timesheet_daily_rollups t
+     WHERE t.clockify_workspace_id = 'manual'
+       AND t.task_id = v_task_id;
+
+    INSERT INTO public.timesheet_daily_rollups (
+        clockify_workspace_id, task_id, work_date,
+        project_id, project_name, user_id, user_name,
+        task_name, client_id, client_name, total_minutes,
+        synced_at, sync_run_at
+    ) VALUES (
+        'manual', v_task_id, p_work_date,
+        v_project.project_id, v_project.project_name, v_user_id, v_employee_name,
+        COALESCE(NULLIF(v_task, ''), '(no description)'),
+        v_project.client_id, v_project.client_name, v_minutes,
+        NOW(), NOW()
+    )
+    ON CONFLICT (clockify_workspace_id, task_id) WHERE task_id IS NOT NULL DO UPDATE
+        SET total_minutes = EXCLUDED.total_minutes,
+            task_name     = EXCLUDED.task_name,
+            synced_at     = EXCLUDED.synced_at,
+            sync_run_at   = EXCLUDED.sync_run_at
+    RETURNING * INTO v_after;
+
+    -- Same post-upsert steps as the sync pipeline, scoped to this day.
+    PERFORM public.populate_rounded_minutes('manual', p_work_date, p_work_date);
+    PERFORM public.populate_layer2_totals('manual', p_work_date, p_work_date);
+    PERFORM public.populate_task_monthly_totals('manual', p_work_date, p_work_date);
+
+    -- The sync trigger only enqueues on INSERT; queue updates explicitly.
+    INSERT INTO public.recalculation_queue (project_id, queue_month, reason)
+    VALUES (v_project.id, v_month, 'manual')
+    ON CONFLICT (project_id, queue_month) WHERE processed_at IS NULL DO NOTHING;
+
+    INSERT INTO mcp_api.api_write_log (
+        api_key_id, tool_name, target_table, target_id, action, before_image, after_image
+    ) VALUES (
+        p_api_key_id, 'log_time_entry', 'timesheet_daily_rollups', v_task_id,
+        CASE WHEN v_before.task_id IS NULL THEN 'insert' ELSE 'update' END,
+        CASE WHEN v_before.task_id IS NULL THEN NULL
+             ELSE jsonb_build_object('total_minutes', v_before.total_minutes, 'task_name', v_before.task_name)
+        END,
+        jsonb_build_object(
+            'work_date',             p_work_date,
+            'canonical_employee_id', p_canonical_employee_id,
+            'canonical_project_id',  p_canonical_project_id,
+            'total_minutes',         v_after.total_minutes,
+            'task_name',             v_after.task_name
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'ok', true,
+        'data', jsonb_build_object(
+            'entry_id',         v_task_id,
+            'action',           CASE WHEN v_before.task_id IS NULL THEN 'created' ELSE 'updated' END,
+            'work_date',        p_work_date,
+            'employee_name',    v_employee_name,
+            'project_name',     v_project.project_name,
+            'task',             v_after.task_name,
+            'hours',            ROUND(v_after.total_minutes / 60.0, 2),
+            'previous_hours',   CASE WHEN v_before.task_id IS NULL THEN NULL
+                                     ELSE ROUND(v_before.total_minutes / 60.0, 2) END
+        ),
+        'provenance', jsonb_build_object(
+            'source',                'timesheet_daily_rollups (manual)',
+            'computed_at',           NOW(),
+            'row_count',             1,
+            'truncated',             false,
+            'canonical_employee_id', p_canonical_employee_id,
+            'period_start',          p_work_date,
+            'period_end',            p_work_date
+        )
+    );
+END;
+$$;
+
+ALTER FUNCTION mcp_api.api_log_time_entry(UUID, UUID, UUID, DATE, NUMERIC, TEXT) OWNER TO mcp_owner;
+REVOKE ALL ON FUNCTION mcp_api.api_log_time_entry(UUID, UUID, UUID, DATE, NUMERIC, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mcp_api.api_log_time_entry(UUID, UUID, UUID, DATE, NUMERIC, TEXT) TO mcp_reader;
+COMMENT ON FUNCTION mcp_api.api_log_time_entry(UUID, UUID, UUID, DATE, NUMERIC, TEXT) IS
+    'Log (or replace) one manual time entry under the manual source. Refuses '
+    'closed billing months. Requires the timesheets:write scope; audited in '
+    'api_write_log.';
+
+-- ============================================================================
+-- TOOL 15: api_add_time_off_note                              (time_off:write)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION mcp_api.api_add_time_off_note(
+    p_api_key_id            UUID,
+    p_canonical_employee_id UUID,
+    p_start_date            DATE,
+    p_end_date              DATE,
+    p_note                  TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = mcp_api, pg_temp
+AS $$
+DECLARE
+    v_denied        JSONB;
+    v_note          TEXT := trim(COALESCE(p_note, ''));
+    v_employee_name TEXT;
+    v_id            UUID;
+BEGIN
+    v_denied := mcp_api._internal_require_scope(p_api_key_id, 'time_off:write');
+    IF v_denied IS NOT NULL THEN
+        RETURN v_denied;
+    END IF;
+
+    IF p_canonical_employee_id IS NULL OR p_start_date IS NULL OR p_end_date IS NULL
+        OR p_start_date > p_end_date THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object(
+                'code', 'INVALID_DATE',
+                'message', 'canonical_employee_id, start_date, end_date are required and start <= end.'
+            )
+        );
+    END IF;
+
+    IF length(v_note) NOT BETWEEN 1 AND 1000 THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object(
+                'code', 'INVALID_ARGUMENT',
+                'message', 'note is required (at most 1000 characters).'
+            )
+        );
+    END IF;
+
+    SELECT e.display_name INTO v_employee_name
+      FROM mcp_api.v_api_employees e
+     WHERE e.canonical_employee_id = p_canonical_employee_id;
+
+    IF v_employee_name IS NULL THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'error', jsonb_build_object('code', 'NOT_FOUND', 'message', 'No canonical employee with that id.')
+        );
+    END IF;
+
+    INSERT INTO public.employee_time_off_notes (
+        resource_id, start_date, end_date, note, source, api_key_id
+    ) VALUES (
+        p_canonical_employee_id, p_start_date, p_end_date, v_note, 'mcp', p_api_key_id
+    )
+    RETURNING id INTO v_id;
+
+    INSERT INTO mcp_api.api_write_log (
+        api_key_id, tool_name, target_table, target_id, action, before_image, after_image
+    ) VALUES (
+        p_api_key_id, 'add_time_off_note', 'employee_time_off_notes', v_id::text, 'insert', NULL,
+        jsonb_build_object(
+            'canonical_employee_id', p_canonical_employee_id,
+            'start_date',            p_start_date,
+            'end_date',              p_end_date,
+            'note',                  v_note
+        )
+    );
+
+    RETURN jsonb_build_object(
+        'ok', true,
+        'data', jsonb_build_object(
+            'note_id',       v_id,
+            'employee_name', v_employee_name,
+            'start_date',    p_start_date,
+            'end_date',      p_end_date,
+            'note',          v_note
+        ),
+        'provenance', jsonb_build_object(
+            'source',                'employee_time_off_notes',
+            'computed_at',           NOW(),
+            'row_count',             1,
+            'truncated',             false,
+            'canonical_employee_id', p_canonical_employee_id,
+            'period_start',          p_start_date,
+            'period_end',            p_end_date
+        )
+    );
+END;
+$$;
+
+ALTER FUNCTION mcp_api.api_add_time_off_note(UUID, UUID, DATE, DATE, TEXT) OWNER TO mcp_owner;
+REVOKE ALL ON FUNCTION mcp_api.api_add_time_off_note(UUID, UUID, DATE, DATE, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mcp_api.api_add_time_off_note(UUID, UUID, DATE, DATE, TEXT) TO mcp_reader;
+COMMENT ON FUNCTION mcp_api.api_add_time_off_note(UUID, UUID, DATE, DATE, TEXT) IS
+    'Record a time-off note for a canonical employee. Does not create a '
+    'time-off event. Requires the time_off:write scope; audited in api_write_log.';
+
+-- ============================================================================
+-- STEP 6: Admin RPCs with scopes
+-- ============================================================================
+
+-- Internal: validates a requested scope list and returns it de-duplicated.
+CREATE OR REPLACE FUNCTION mcp_api._internal_normalize_scopes(p_scopes TEXT[])
+RETURNS TEXT[]
+LANGUAGE plpgsql
+IMMUTABLE
+SECURITY DEFINER
+SET search_path = mcp_api, pg_temp
+AS $$
+DECLARE
+    v_scopes TEXT[];
+BEGIN
+    SELECT ARRAY(SELECT DISTINCT s FROM unnest(COALESCE(p_scopes, ARRAY[]::TEXT[])) AS s ORDER BY s)
+      INTO v_scopes;
+
+    IF cardinality(v_scopes) = 0 THEN
+        RAISE EXCEPTION 'At least one scope is required.'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF NOT v_scopes <@ ARRAY['hours:read','finance:read','timesheets:write','time_off:write']::TEXT[] THEN
+        RAISE EXCEPTION 'Unknown scope in %.', v_scopes
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    RETURN v_scopes;
+END;
+$$;
+
+ALTER FUNCTION mcp_api._internal_normalize_scopes(TEXT[]) OWNER TO mcp_owner;
+REVOKE ALL ON FUNCTION mcp_api._internal_normalize_scopes(TEXT[]) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION mcp_api.admin_list_api_keys()
+RETURNS SETOF JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = mcp_api, pg_temp
+AS $$
+BEGIN
+    PERFORM mcp_api._internal_assert_admin();
+
+    RETURN QUERY
+    SELECT jsonb_build_object(
+        'id',           k.id,
+        'name',         k.name,
+        'description',  k.description,
+        'prefix',       k.prefix,
+        'status',       k.status,
+        'scopes',       to_jsonb(k.scopes),
+        'created_at',   k.created_at,
+        'revoked_at',   k.revoked_at,
+        'last_used_at', k.last_used_at,
+        'created_by',   k.created_by
+    )
+    FROM mcp_api.api_keys k
+    ORDER BY k.created_at DESC;
+END;
+$$;
+
+ALTER FUNCTION mcp_api.admin_list_api_keys() OWNER TO mcp_owner;
+
+-- The 4-argument create is replaced by a 5-argument one whose p_scopes
+-- defaults to hours:read, so a caller passing the old named arguments still
+-- mints a key with the pre-148 capability.
+DROP FUNCTION IF EXISTS mcp_api.admin_create_api_key(TEXT, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION mcp_api.admin_create_api_key(
+    p_name          TEXT,
+    p_description   TEXT,
+    p_prefix        TEXT,
+    p_key_hash      TEXT,
+    p_scopes        TEXT[] DEFAULT ARRAY['hours:read']::TEXT[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = mcp_api, pg_temp
+AS $$
+DECLARE
+    v_id          UUID;
+    v_claims_text TEXT;
+    v_caller      UUID;
+    v_scopes      TEXT[];
+    v_row         mcp_api.api_keys%ROWTYPE;
+BEGIN
+    PERFORM mcp_api._internal_assert_admin();
+
+    -- Caller attribution via the JWT claim (migration 111).
+    v_claims_text := current_setting('request.jwt.claims', true);
+    IF v_claims_text IS NOT NULL AND v_claims_text <> '' THEN
+        BEGIN
+            v_caller := ((v_claims_text)::jsonb ->> 'sub')::uuid;
+        EXCEPTION WHEN OTHERS THEN
+            v_caller := NULL;
+        END;
+    END IF;
+
+    IF p_name IS NULL OR LENGTH(TRIM(p_name)) = 0 THEN
+        RAISE EXCEPTION 'name is required.'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF p_prefix IS NULL OR LENGTH(p_prefix) NOT BETWEEN 8 AND 24 THEN
+        RAISE EXCEPTION 'prefix must be 8..24 chars (received %).', LENGTH(COALESCE(p_prefix, ''))
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF p_key_hash IS NULL OR p_key_hash !~ '^[0-9a-f]{64}$' THEN
+        RAISE EXCEPTION 'key_hash must be 64-char lowercase hex (sha256).'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    v_scopes := mcp_api._internal_normalize_scopes(p_scopes);
+
+    INSERT INTO mcp_api.api_keys (
+        name, description, prefix, key_hash, scopes,
+        status, created_at, created_by
+    ) VALUES (
+        TRIM(p_name), NULLIF(TRIM(COALESCE(p_description, '')), ''),
+        p_prefix, p_key_hash, v_scopes,
+        'active', NOW(), v_caller
+    )
+    RETURNING * INTO v_row;
+
+    RETURN jsonb_build_object(
+        'id',           v_row.id,
+        'name',         v_row.name,
+        'description',  v_row.description,
+        'prefix',       v_row.prefix,
+        'status',       v_row.status,
+        'scopes',       to_jsonb(v_row.scopes),
+        'created_at',   v_row.created_at,
+        'revoked_at',   v_row.revoked_at,
+        'last_used_at', v_row.last_used_at,
+        'created_by',   v_row.created_by
+    );
+END;
+$$;
+
+ALTER FUNCTION mcp_api.admin_create_api_key(TEXT, TEXT, TEXT, TEXT, TEXT[]) OWNER TO mcp_owner;
+REVOKE ALL ON FUNCTION mcp_api.admin_create_api_key(TEXT, TEXT, TEXT, TEXT, TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mcp_api.admin_create_api_key(TEXT, TEXT, TEXT, TEXT, TEXT[]) TO authenticated;
+
+COMMENT ON FUNCTION mcp_api.admin_create_api_key(TEXT, TEXT, TEXT, TEXT, TEXT[]) IS
+    'Persist a new API key from a prefix + sha256 hash with the given scopes '
+    '(default hours:read). Plaintext is generated by the admin-api-keys Edge '
+    'Function and returned once to the UI. Admin-only.';
+
+CREATE OR REPLACE FUNCTION mcp_api.admin_set_api_key_scopes(
+    p_key_id    UUID,
+    p_scopes    TEXT[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = mcp_api, pg_temp
+AS $$
+DECLARE
+    v_scopes    TEXT[];
+    v_status    TEXT;
+BEGIN
+    PERFORM mcp_api._internal_assert_admin();
+
+    IF p_key_id IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', 'p_key_id is required.');
+    END IF;
+
+    SELECT status INTO v_status FROM mcp_api.api_keys WHERE id = p_key_id;
+
+    IF v_status IS NULL THEN
+        RETURN jsonb_build_object('success', false, 'error', format('No api key with id %s.', p_key_id));
+    END IF;
+
+    IF v_status = 'revoked' THEN
+        RETURN jsonb_build_object('success', false, 'error', 'Revoked keys cannot be changed.');
+    END IF;
+
+    v_scopes := mcp_api._internal_normalize_scopes(p_scopes);
+
+    UPDATE mcp_api.api_keys SET scopes = v_scopes WHERE id = p_key_id;
+
+    RETURN jsonb_build_object('success', true, 'scopes', to_jsonb(v_scopes));
+END;
+$$;
+
+ALTER FUNCTION mcp_api.admin_set_api_key_scopes(UUID, TEXT[]) OWNER TO mcp_owner;
+REVOKE ALL ON FUNCTION mcp_api.admin_set_api_key_scopes(UUID, TEXT[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mcp_api.admin_set_api_key_scopes(UUID, TEXT[]) TO authenticated;
+
+COMMENT ON FUNCTION mcp_api.admin_set_api_key_scopes(UUID, TEXT[]) IS
+    'Replace the scopes of an active API key. Takes effect on the key''s next '
+    'request. Admin-only.';
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+DECLARE
+    v_unscoped  INTEGER;
+    v_tools     INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO v_unscoped
+      FROM mcp_api.api_keys
+     WHERE scopes IS NULL OR cardinality(scopes) = 0;
+
+    IF v_unscoped > 0 THEN
+        RAISE EXCEPTION '% api key(s) without scopes', v_unscoped;
+    END IF;
+
+    SELECT COUNT(*) INTO v_tools
+      FROM pg_proc p
+      JOIN pg_namespace n ON n.oid = p.pronamespace
+     WHERE n.nspname = 'mcp_api'
+       AND p.proname IN ('api_get_company_revenue', 'api_get_revenue_summary',
+                         'api_log_time_entry', 'api_add_time_off_note');
+
+    IF v_tools <> 4 THEN
+        RAISE EXCEPTION 'Expected 4 new api_* tools, found %', v_tools;
+    END IF;
+
+    RAISE NOTICE 'Migration 148 Complete:';
+    RAISE NOTICE '  - api_keys.scopes (existing keys: hours:read)';
+    RAISE NOTICE '  - finance:read tools: api_get_company_revenue, api_get_revenue_summary';
+    RAISE NOTICE '  - write tools: api_log_time_entry (timesheets:write), api_add_time_off_note (time_off:write)';
+    RAISE NOTICE '  - api_write_log + employee_time_off_notes';
+    RAISE NOTICE '  - admin_create_api_key(p_scopes), admin_set_api_key_scopes';
+END $$;
+
+COMMIT;
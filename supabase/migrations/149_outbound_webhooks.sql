@@ -0,0 +1,552 @@
+-- ============================================================================
+-- Migration 149: Outbound webhooks — endpoints, events, signed delivery log
+-- ============================================================================
+-- Purpose: downstream tools poll to learn that a sync finished, a sync alert
+-- was raised, an EOM report was generated or a QBO invoice was created. This
+-- migration adds a webhook subscription subsystem used by the deliver-webhooks
+-- edge function:
+--
+--   1. webhook_endpoints — admin-registered HTTPS endpoints and the event
+--      types each one subscribes to.
+--   2. webhook_endpoint_secrets — the HMAC signing secret per endpoint. Only
+--      the service role can read it; admins see it once, when the endpoint is
+--      created or the secret is rotated (create_webhook_endpoint /
+--      rotate_webhook_endpoint_secret).
+--   3. webhook_events — one row per emitted event with its data payload.
+--   4. webhook_deliveries — one row per endpoint x event attempt chain:
+--      status (queued / delivered / failed), attempt count, next_retry_at
+--      backoff, response status and (truncated) body. "Redeliver" and "send
+--      test" add rows with trigger = 'redeliver' / 'test'.
+--   5. enqueue_webhook_event() and AFTER triggers on the source tables:
+--        sync.completed        sync_runs INSERT (migration 080)
+--        sync_alert.raised     sync_alerts INSERT (migration 078)
+--        eom_report.generated  eom_reports INSERT or regeneration (067)
+--        qbo_invoice.created   qbo_invoice_log status -> 'sent' (074)
+--      An event is only stored when an active endpoint subscribes to it, and
+--      a failure to enqueue never fails the write that raised it.
+--   6. Per-minute pg_cron job calling deliver-webhooks (queued + due retries).
+--
+-- Mirrors existing precedent:
+--   - migration 141 (report_deliveries status / attempt / next_retry_at log,
+--     edge-function cron via the manifest-service-role-key vault secret)
+--   - migration 078 (AFTER INSERT triggers feeding a notification table)
+--   - migration 041 (pgcrypto gen_random_bytes from the extensions schema)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- DROP ... IF EXISTS; an existing cron job of the same name is replaced).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: webhook_endpoints
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name            TEXT NOT NULL CHECK (LENGTH(BTRIM(name)) > 0),
+    url             TEXT NOT NULL CHECK (url ~ '^https://[^\s/]+'),
+    description     TEXT,
+    event_types     TEXT[] NOT NULL CHECK (
+                        cardinality(event_types) > 0
+                        AND event_types <@ ARRAY[
+                            'sync.completed', 'sync_alert.raised',
+                            'eom_report.generated', 'qbo_invoice.created'
+                        ]::TEXT[]
+                    ),
+    is_active       BOOLEAN NOT NULL DEFAULT true,
+    created_by      UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE webhook_endpoints IS
+    'Outbound webhook subscriptions: an HTTPS URL and the event types posted '
+    'to it. Inactive endpoints receive nothing; pending deliveries to them fail.';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_event_types
+    ON webhook_endpoints USING GIN (event_types) WHERE is_active;
+
+DROP TRIGGER IF EXISTS trg_webhook_endpoints_updated_at ON webhook_endpoints;
+CREATE TRIGGER trg_webhook_endpoints_updated_at
+    BEFORE UPDATE ON webhook_endpoints
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- STEP 2: webhook_endpoint_secrets (service role only)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_endpoint_secrets (
+    endpoint_id     UUID PRIMARY KEY REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    secret          TEXT NOT NULL,
+    rotated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE webhook_endpoint_secrets IS
+    'HMAC-SHA256 signing secret per webhook endpoint. Readable by the service '
+    'role only; returned to an admin once on create / rotate.';
+
+-- ============================================================================
+-- STEP 3: webhook_events
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    event_type      TEXT NOT NULL CHECK (event_type IN (
+                        'sync.completed', 'sync_alert.raised',
+                        'eom_report.generated', 'qbo_invoice.created',
+                        'webhook.test'
+                    )),
+    data            JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE webhook_events IS
+    'Events emitted to webhook endpoints. data is the "data" object of the '
+    'delivered payload; webhook.test events come from "Send test".';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_events_created
+    ON webhook_events (created_at DESC);
+
+-- ============================================================================
+-- STEP 4: webhook_deliveries (delivery log)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    endpoint_id         UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+    event_id            UUID NOT NULL REFERENCES webhook_events(id) ON DELETE CASCADE,
+    event_type          TEXT NOT NULL,
+    trigger             TEXT NOT NULL DEFAULT 'event'
+                            CHECK (trigger IN ('event', 'redeliver', 'test')),
+    status              TEXT NOT NULL DEFAULT 'queued'
+                            CHECK (status IN ('queued', 'delivered', 'failed')),
+    attempt_count       INTEGER NOT NULL DEFAULT 0,
+    next_retry_at       TIMESTAMPTZ DEFAULT NOW(),
+    response_status     INTEGER,
+    response_body       TEXT,
+    last_error          TEXT,
+    duration_ms         INTEGER,
+    delivered_at        TIMESTAMPTZ,
+    requested_by        UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT chk_webhook_deliveries_done CHECK (
+        status <> 'delivered' OR (delivered_at IS NOT NULL AND next_retry_at IS NULL)
+    )
+);
+
+COMMENT ON TABLE webhook_deliveries IS
+    'One row per webhook delivery. deliver-webhooks attempts rows whose '
+    'next_retry_at has passed (queued or failed) and leases them by moving '
+    'next_retry_at forward; NULL means nothing further will be attempted.';
+COMMENT ON COLUMN webhook_deliveries.response_body IS
+    'First 2,000 characters of the endpoint''s response body.';
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+    ON webhook_deliveries (next_retry_at) WHERE next_retry_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint
+    ON webhook_deliveries (endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created
+    ON webhook_deliveries (created_at DESC);
+
+DROP TRIGGER IF EXISTS trg_webhook_deliveries_updated_at ON webhook_deliveries;
+CREATE TRIGGER trg_webhook_deliveries_updated_at
+    BEFORE UPDATE ON webhook_deliveries
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- STEP 5: RLS + grants
+-- ============================================================================
+-- Endpoints: admin read / write. Secrets: service role only.
+-- Events and deliveries: admin read; written by triggers and deliver-webhooks.
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_endpoint_secrets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow admin manage webhook endpoints" ON webhook_endpoints;
+CREATE POLICY "Allow admin manage webhook endpoints"
+    ON webhook_endpoints FOR ALL TO authenticated
+    USING (is_admin()) WITH CHECK (is_admin());
+DROP POLICY IF EXISTS "Allow service role full access webhook endpoints" ON webhook_endpoints;
+CREATE POLICY "Allow service role full access webhook endpoints"
+    ON webhook_endpoints FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow service role full access webhook endpoint secrets" ON webhook_endpoint_secrets;
+CREATE POLICY "Allow service role full access webhook endpoint secrets"
+    ON webhook_endpoint_secrets FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow admin read webhook events" ON webhook_events;
+CREATE POLICY "Allow admin read webhook events"
+    ON webhook_events FOR SELECT TO authenticated USING (is_admin());
+DROP POLICY IF EXISTS "Allow service role full access webhook events" ON webhook_events;
+CREATE POLICY "Allow service role full access webhook events"
+    ON webhook_events FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow admin read webhook deliveries" ON webhook_deliveries;
+CREATE POLICY "Allow admin read webhook deliveries"
+    ON webhook_deliveries FOR SELECT TO authenticated USING (is_admin());
+DROP POLICY IF EXISTS "Allow service role full access webhook deliveries" ON webhook_deliveries;
+CREATE POLICY "Allow service role full access webhook deliveries"
+    ON webhook_deliveries FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Endpoints are created through create_webhook_endpoint (which also mints the
+-- secret), so authenticated gets no INSERT.
+GRANT SELECT, UPDATE, DELETE ON webhook_endpoints TO authenticated;
+GRANT SELECT ON webhook_events, webhook_deliveries TO authenticated;
+GRANT ALL ON webhook_endpoints, webhook_endpoint_secrets, webhook_events, webhook_deliveries TO service_role;
+REVOKE ALL ON webhook_endpoints, webhook_endpoint_secrets, webhook_events, webhook_deliveries FROM anon;
+REVOKE ALL ON webhook_endpoint_secrets FROM authenticated;
+
+-- ============================================================================
+-- STEP 6: Admin RPCs — create endpoint / rotate secret
+-- ============================================================================
+-- Secrets are 'whsec_' + 48 hex chars and are returned only by these calls.
+
+CREATE OR REPLACE FUNCTION create_webhook_endpoint(
+    p_name          TEXT,
+    p_url           TEXT,
+    p_description   TEXT,
+    p_event_types   TEXT[]
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_endpoint  webhook_endpoints%ROWTYPE;
+    v_secret    TEXT;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_url IS NULL OR p_url !~ '^https://[^\s/]+' THEN
+        RAISE EXCEPTION 'Webhook URL must start with https://.'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF p_event_types IS NULL OR cardinality(p_event_types) = 0 THEN
+        RAISE EXCEPTION 'Select at least one event type.'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    INSERT INTO webhook_endpoints (name, url, description, event_types, created_by)
+    VALUES (
+        BTRIM(p_name),
+        BTRIM(p_url),
+        NULLIF(BTRIM(COALESCE(p_description, '')), ''),
+        (SELECT ARRAY(SELECT DISTINCT unnest(p_event_types) ORDER BY 1)),
+        auth.uid()
+    )
+    RETURNING * INTO v_endpoint;
+
+    v_secret := 'whsec_' || encode(gen_random_bytes(24), 'hex');
+    INSERT INTO webhook_endpoint_secrets (endpoint_id, secret)
+    VALUES (v_endpoint.id, v_secret);
+
+    RETURN jsonb_build_object('endpoint', to_jsonb(v_endpoint), 'secret', v_secret);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION rotate_webhook_endpoint_secret(p_endpoint_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+    v_secret    TEXT;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    PERFORM 1 FROM webhook_endpoints WHERE id = p_endpoint_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Webhook endpoint % not found.', p_endpoint_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    v_secret := 'whsec_' || encode(gen_random_bytes(24), 'hex');
+    INSERT INTO webhook_endpoint_secrets (endpoint_id, secret, rotated_at)
+    VALUES (p_endpoint_id, v_secret, NOW())
+    ON CONFLICT (endpoint_id) DO UPDATE
+        SET secret = EXCLUDED.secret, rotated_at = EXCLUDED.rotated_at;
+
+    RETURN jsonb_build_object('endpoint_id', p_endpoint_id, 'secret', v_secret);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION create_webhook_endpoint(TEXT, TEXT, TEXT, TEXT[]) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION rotate_webhook_endpoint_secret(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_webhook_endpoint(TEXT, TEXT, TEXT, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION rotate_webhook_endpoint_secret(UUID) TO authenticated;
+
+-- ============================================================================
+-- STEP 7: enqueue_webhook_event + source triggers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enqueue_webhook_event(p_event_type TEXT, p_data JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_event_id  UUID;
+BEGIN
+    -- Nothing is stored for events no one subscribes to.
+    IF NOT EXISTS (
+        SELECT 1 FROM webhook_endpoints
+         WHERE is_active AND p_event_type = ANY (event_types)
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO webhook_events (event_type, data)
+    VALUES (p_event_type, COALESCE(p_data, '{}'::jsonb))
+    RETURNING id INTO v_event_id;
+
+    INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, trigger)
+    SELECT e.id, v_event_id, p_event_type, 'event'
+      FROM webhook_endpoints e
+     WHERE e.is_active AND p_event_type = ANY (e.event_types);
+
+    RETURN v_event_id;
+EXCEPTION WHEN OTHERS THEN
+    -- Webhooks are best effort: never fail the sync / report / invoice write.
+    RAISE WARNING 'enqueue_webhook_event(%) failed: %', p_event_type, SQLERRM;
+    RETURN NULL;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION enqueue_webhook_event(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION enqueue_webhook_event(TEXT, JSONB) TO service_role;
+
+-- sync.completed ------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION webhook_on_sync_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM enqueue_webhook_event('sync.completed', jsonb_build_object(
+        'sync_run_id',    NEW.id,
+        'sync_type',      NEW.sync_type,
+        'success',        NEW.success,
+        'started_at',     NEW.started_at,
+        'completed_at',   NEW.completed_at,
+        'source_total',   NEW.source_total,
+        'manifest_total', NEW.manifest_total,
+        'deleted_count',  NEW.deleted_count,
+        'source_hours',   NEW.source_hours,
+        'manifest_hours', NEW.manifest_hours,
+        'error_message',  NEW.error_message
+    ));
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_runs_webhook ON sync_runs;
+CREATE TRIGGER trg_sync_runs_webhook
+    AFTER INSERT ON sync_runs
+    FOR EACH ROW
+    EXECUTE FUNCTION webhook_on_sync_run();
+
+-- sync_alert.raised ---------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION webhook_on_sync_alert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM enqueue_webhook_event('sync_alert.raised', jsonb_build_object(
+        'sync_alert_id', NEW.id,
+        'alert_type',    NEW.alert_type,
+        'severity',      NEW.severity,
+        'title',         NEW.title,
+        'detail',        NEW.detail,
+        'entity_type',   NEW.entity_type,
+        'entity_id',     NEW.entity_id,
+        'entity_name',   NEW.entity_name,
+        'created_at',    NEW.created_at
+    ));
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_sync_alerts_webhook ON sync_alerts;
+CREATE TRIGGER trg_sync_alerts_webhook
+    AFTER INSERT ON sync_alerts
+    FOR EACH ROW
+    EXECUTE FUNCTION webhook_on_sync_alert();
+
+-- eom_report.generated (first generation and every regeneration) ------------
+
+CREATE OR REPLACE FUNCTION webhook_on_eom_report()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.generation_number IS NOT DISTINCT FROM OLD.generation_number THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM enqueue_webhook_event('eom_report.generated', jsonb_build_object(
+        'eom_report_id',       NEW.id,
+        'company_id',          NEW.company_id,
+        'company_name',        NEW.company_name,
+        'report_year',         NEW.report_year,
+        'report_month',        NEW.report_month,
+        'total_hours',         NEW.total_hours,
+        'total_revenue_cents', NEW.total_revenue_cents,
+        'project_count',       NEW.project_count,
+        'generation_number',   NEW.generation_number,
+        'generated_at',        NEW.generated_at
+    ));
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_eom_reports_webhook ON eom_reports;
+CREATE TRIGGER trg_eom_reports_webhook
+    AFTER INSERT OR UPDATE OF generation_number ON eom_reports
+    FOR EACH ROW
+    EXECUTE FUNCTION webhook_on_eom_report();
+
+-- qbo_invoice.created (row reaches 'sent', or a new QBO invoice replaces it) -
+
+CREATE OR REPLACE FUNCTION webhook_on_qbo_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status <> 'sent' THEN
+        RETURN NULL;
+    END IF;
+    IF TG_OP = 'UPDATE'
+       AND OLD.status = 'sent'
+       AND OLD.qbo_invoice_id IS NOT DISTINCT FROM NEW.qbo_invoice_id THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM enqueue_webhook_event('qbo_invoice.created', jsonb_build_object(
+        'qbo_invoice_log_id', NEW.id,
+        'qbo_invoice_id',     NEW.qbo_invoice_id,
+        'invoice_number',     NEW.invoice_number,
+        'company_id',         NEW.company_id,
+        'eom_report_id',      NEW.eom_report_id,
+        'report_year',        NEW.report_year,
+        'report_month',       NEW.report_month,
+        'total_amount_cents', NEW.total_amount_cents,
+        'line_item_count',    NEW.line_item_count,
+        'sent_at',            NEW.sent_at
+    ));
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_qbo_invoice_log_webhook ON qbo_invoice_log;
+CREATE TRIGGER trg_qbo_invoice_log_webhook
+    AFTER INSERT OR UPDATE OF status, qbo_invoice_id ON qbo_invoice_log
+    FOR EACH ROW
+    EXECUTE FUNCTION webhook_on_qbo_invoice();
+
+-- ============================================================================
+-- STEP 8: Delivery run — every minute
+-- ============================================================================
+-- deliver-webhooks posts queued deliveries and retries failed ones whose
+-- next_retry_at has passed.
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'deliver-webhooks') THEN
+        PERFORM cron.unschedule('deliver-webhooks');
+    END IF;
+END $$;
+
+SELECT cron.schedule(
+  'deliver-webhooks',
+  '* * * * *',
+  $$
+  select net.http_post(
+    url := 'https://yptbnsegcfpizwhipeep.supabase.co/functions/v1/deliver-webhooks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'manifest-service-role-key' limit 1)
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+DECLARE
+    v_triggers INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO v_triggers
+      FROM pg_trigger
+     WHERE tgname IN (
+        'trg_sync_runs_webhook', 'trg_sync_alerts_webhook',
+        'trg_eom_reports_webhook', 'trg_qbo_invoice_log_webhook'
+     );
+    IF v_triggers <> 4 THEN
+        RAISE EXCEPTION 'Expected 4 webhook source triggers, found %', v_triggers;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'deliver-webhooks') THEN
+        RAISE EXCEPTION 'deliver-webhooks cron job was not scheduled';
+    END IF;
+
+    RAISE NOTICE 'Migration 149 Complete:';
+    RAISE NOTICE '  - webhook_endpoints + webhook_endpoint_secrets (service role only)';
+    RAISE NOTICE '  - webhook_events + webhook_deliveries log';
+    RAISE NOTICE '  - create_webhook_endpoint / rotate_webhook_endpoint_secret';
+    RAISE NOTICE '  - Triggers on sync_runs, sync_alerts, eom_reports, qbo_invoice_log';
+    RAISE NOTICE '  - Scheduled deliver-webhooks (every minute)';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- BEGIN;
+--   SELECT cron.unschedule('deliver-webhooks');
+--   DROP TRIGGER IF EXISTS trg_sync_runs_webhook ON sync_runs;
+--   DROP TRIGGER IF EXISTS trg_sync_alerts_webhook ON sync_alerts;
+--   DROP TRIGGER IF EXISTS trg_eom_reports_webhook ON eom_reports;
+--   DROP TRIGGER IF EXISTS trg_qbo_invoice_log_webhook ON qbo_invoice_log;
+--   DROP FUNCTION IF EXISTS webhook_on_sync_run();
+--   DROP FUNCTION IF EXISTS webhook_on_sync_alert();
+--   DROP FUNCTION IF EXISTS webhook_on_eom_report();
+--   DROP FUNCTION IF EXISTS webhook_on_qbo_invoice();
+--   DROP FUNCTION IF EXISTS enqueue_webhook_event(TEXT, JSONB);
+--   DROP FUNCTION IF EXISTS rotate_webhook_endpoint_secret(UUID);
+--   DROP FUNCTION IF EXISTS create_webhook_endpoint(TEXT, TEXT, TEXT, TEXT[]);
+--   DROP TABLE IF EXISTS webhook_deliveries;
+--   DROP TABLE IF EXISTS webhook_events;
+--   DROP TABLE IF EXISTS webhook_endpoint_secrets;
+--   DROP TABLE IF EXISTS webhook_endpoints;
+-- COMMIT;
@@ -0,0 +1,212 @@
+-- ============================================================================
+-- Migration 150: Capacity planning — weekly resource allocations vs actuals
+-- ============================================================================
+-- Purpose: the Burn and utilization views only look back at hours already
+-- logged. This migration adds a forward-looking plan:
+--
+--   1. resource_allocations — planned hours per resource, project and week
+--      (week_start is a Monday). Allocations may name any project; they are
+--      planned and reported against the canonical (primary) project.
+--   2. get_capacity_plan(start, end) — one row per resource x canonical
+--      project x week in the range with planned hours, actual hours (from
+--      employee_totals via resource_user_associations) and planned revenue
+--      (planned hours x the project's effective rate for the week's month,
+--      project_monthly_rates / get_effective_project_rate). Weeks with
+--      actuals but no plan are returned too, so unplanned work shows up.
+--
+-- Capacity (working days on the resource's holiday calendar, minus approved
+-- employee_time_off, x hours per day) is computed client-side with the same
+-- rules as the utilization metrics, in src/utils/capacityPlan.ts.
+--
+-- Access: everyone with company-wide access reads every allocation; project
+-- managers read and write allocations on the projects they manage
+-- (scoped_project_ids, migration 142). Admins write everything.
+--
+-- Mirrors existing precedent:
+--   - migration 140 (canonical project resolution, effective rate with
+--     get_default_rate() fallback, SQL function the page reads)
+--   - migration 142 (RESTRICTIVE "Restrict read to role scope" policy)
+--   - migration 139 (authenticated read, is_admin() write)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- DROP ... IF EXISTS).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: resource_allocations
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS resource_allocations (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    resource_id     UUID NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+    project_id      UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    week_start      DATE NOT NULL CHECK (EXTRACT(ISODOW FROM week_start) = 1),
+    planned_hours   NUMERIC(6,2) NOT NULL CHECK (planned_hours > 0 AND planned_hours <= 80),
+    notes           TEXT,
+    created_by      UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT uq_resource_allocations_week UNIQUE (resource_id, project_id, week_start)
+);
+
+COMMENT ON TABLE resource_allocations IS
+    'Planned hours per resource, project and week (week_start = Monday). '
+    'Reported against the canonical project by get_capacity_plan().';
+
+CREATE INDEX IF NOT EXISTS idx_resource_allocations_week
+    ON resource_allocations (week_start);
+CREATE INDEX IF NOT EXISTS idx_resource_allocations_project
+    ON resource_allocations (project_id, week_start);
+
+DROP TRIGGER IF EXISTS trg_resource_allocations_updated_at ON resource_allocations;
+CREATE TRIGGER trg_resource_allocations_updated_at
+    BEFORE UPDATE ON resource_allocations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- STEP 2: RLS + grants
+-- ============================================================================
+
+ALTER TABLE resource_allocations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read resource allocations" ON resource_allocations;
+CREATE POLICY "Allow authenticated read resource allocations"
+    ON resource_allocations FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Restrict read to role scope" ON resource_allocations;
+CREATE POLICY "Restrict read to role scope"
+    ON resource_allocations AS RESTRICTIVE FOR SELECT TO authenticated
+    USING ((SELECT has_company_wide_access()) OR project_id IN (SELECT scoped_project_ids()));
+DROP POLICY IF EXISTS "Allow planner write resource allocations" ON resource_allocations;
+CREATE POLICY "Allow planner write resource allocations"
+    ON resource_allocations FOR ALL TO authenticated
+    USING (is_admin() OR project_id IN (SELECT scoped_project_ids()))
+    WITH CHECK (is_admin() OR project_id IN (SELECT scoped_project_ids()));
+DROP POLICY IF EXISTS "Allow service role full access resource allocations" ON resource_allocations;
+CREATE POLICY "Allow service role full access resource allocations"
+    ON resource_allocations FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON resource_allocations TO authenticated;
+GRANT ALL ON resource_allocations TO service_role;
+REVOKE ALL ON resource_allocations FROM anon;
+
+-- ============================================================================
+-- STEP 3: get_capacity_plan
+-- ============================================================================
+-- SECURITY INVOKER: the projects / resource_allocations policies scope a
+-- project manager's plan to their projects. Actual hours are raw (unrounded)
+-- employee_totals hours; a week's rate is the rate of the month it starts in.
+
+CREATE OR REPLACE FUNCTION get_capacity_plan(p_start DATE, p_end DATE)
+RETURNS TABLE (
+    resource_id             UUID,
+    project_id              UUID,
+    project_name            TEXT,
+    company_name            TEXT,
+    week_start              DATE,
+    planned_hours           NUMERIC,
+    actual_hours            NUMERIC,
+    rate                    NUMERIC,
+    planned_revenue_cents   BIGINT
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+    WITH bounds AS (
+        SELECT date_trunc('week', p_start)::DATE AS first_week,
+            date_trunc('week', p_end)::DATE AS last_week
+    ),
+    planned AS (
+        SELECT ra.resource_id,
+            vpc.canonical_project_id AS project_id,
+            ra.week_start,
+            SUM(ra.planned_hours) AS planned_hours
+        FROM resource_allocations ra
+        JOIN v_project_canonical vpc ON vpc.project_id = ra.project_id
+        CROSS JOIN bounds b
+        WHERE ra.week_start BETWEEN b.first_week AND b.last_week
+        GROUP BY ra.resource_id, vpc.canonical_project_id, ra.week_start
+    ),
+    actual AS (
+        SELECT rua.resource_id,
+            vpc.canonical_project_id AS project_id,
+            date_trunc('week', et.work_date)::DATE AS week_start,
+            SUM(et.actual_hours) AS actual_hours
+        FROM employee_totals et
+        JOIN resource_user_associations rua ON rua.user_id = et.user_id
+        JOIN projects p ON p.project_id = et.project_id
+        JOIN v_project_canonical vpc ON vpc.project_id = p.id
+        CROSS JOIN bounds b
+        WHERE et.work_date >= b.first_week
+          AND et.work_date < b.last_week + 7
+        GROUP BY rua.resource_id, vpc.canonical_project_id, date_trunc('week', et.work_date)
+    ),
+    combined AS (
+        SELECT COALESCE(pl.resource_id, ac.resource_id) AS resource_id,
+            COALESCE(pl.project_id, ac.project_id) AS project_id,
+            COALESCE(pl.week_start, ac.week_start) AS week_start,
+            COALESCE(pl.planned_hours, 0) AS planned_hours,
+            COALESCE(ac.actual_hours, 0) AS actual_hours
+        FROM planned pl
+        FULL OUTER JOIN actual ac
+          ON ac.resource_id = pl.resource_id
+         AND ac.project_id = pl.project_id
+         AND ac.week_start = pl.week_start
+    )
+    SELECT c.resource_id,
+        c.project_id,
+        p.project_name,
+        COALESCE(co.display_name, co.client_name) AS company_name,
+        c.week_start,
+        ROUND(c.planned_hours, 2) AS planned_hours,
+        ROUND(c.actual_hours, 2) AS actual_hours,
+        COALESCE(rt.effective_rate, get_default_rate()) AS rate,
+        ROUND(c.planned_hours * COALESCE(rt.effective_rate, get_default_rate()) * 100)::BIGINT AS planned_revenue_cents
+    FROM combined c
+    JOIN projects p ON p.id = c.project_id
+    LEFT JOIN companies co ON co.id = p.company_id
+    LEFT JOIN LATERAL get_effective_project_rate(c.project_id, c.week_start) rt ON true
+    ORDER BY c.week_start, p.project_name, c.resource_id;
+$$;
+
+COMMENT ON FUNCTION get_capacity_plan(DATE, DATE) IS
+    'Planned vs actual hours per resource, canonical project and week (Monday) '
+    'for the weeks overlapping p_start..p_end, with planned revenue at the '
+    'effective project rate.';
+
+REVOKE ALL ON FUNCTION get_capacity_plan(DATE, DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_capacity_plan(DATE, DATE) FROM anon;
+GRANT EXECUTE ON FUNCTION get_capacity_plan(DATE, DATE) TO authenticated, service_role;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_policies
+        WHERE tablename = 'resource_allocations' AND policyname = 'Restrict read to role scope'
+    ) THEN
+        RAISE EXCEPTION 'resource_allocations scope policy missing';
+    END IF;
+
+    RAISE NOTICE 'Migration 150 Complete:';
+    RAISE NOTICE '  - resource_allocations (planned hours per resource, project, week)';
+    RAISE NOTICE '  - get_capacity_plan(start, end): planned vs actual hours, planned revenue';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- BEGIN;
+--   DROP FUNCTION IF EXISTS get_capacity_plan(DATE, DATE);
+--   DROP TABLE IF EXISTS resource_allocations;
+-- COMMIT;
@@ -0,0 +1,837 @@
+-- ============================================================================
+-- Migration 151: Timesheet hours approval before billing
+-- ============================================================================
+-- Purpose: hours from Clockify/ClickUp flow straight into task_monthly_totals
+-- and onto invoices without the project manager seeing them. This migration
+-- adds an opt-in, per-project review step:
+--
+--   1. projects.hours_approval_start_month — first month whose hours must be
+--      reviewed before they are billed (NULL = approval not required). Set on
+--      the canonical (primary) project; it covers the whole group.
+--   2. timesheet_line_reviews — one review per canonical project, month,
+--      person and task ("line"): approved, adjusted (written down to a number
+--      of minutes, with a reason) or flagged (held back, with a reason).
+--   3. timesheet_review_lines(start, end) — every line with its logged and
+--      billable minutes. For a project-month that requires approval:
+--        approved  -> billed as logged, up to the minutes logged when it was
+--                     reviewed (later time waits for another review)
+--        adjusted  -> billed at the approved minutes
+--        flagged / not yet reviewed -> not billed
+--      Other project-months bill exactly what was logged.
+--   4. populate_task_monthly_totals() aggregates billable minutes from
+--      timesheet_review_lines, so the billing engine, EOM reports and QBO
+--      invoices (all task_monthly_totals readers) only see approved hours.
+--      validate_task_monthly_totals_vs_rollups() reconciles against the same
+--      billable figures.
+--   5. RPCs: get_timesheet_review_summary(month), get_timesheet_review(project,
+--      month), review_timesheet_lines(...) and set_project_hours_approval(...).
+--      Reviews are written by admins and by the project's managers
+--      (project_managers, via scoped_project_ids). Each write rebuilds the
+--      month's task totals and recalculates the project.
+--
+-- Closed billing months reject reviews and opt-in changes (migration 134).
+--
+-- Mirrors existing precedent:
+--   - migration 101 (populate_task_monthly_totals / validator bodies, kept
+--     verbatim apart from the billable-minutes source)
+--   - migration 148 (populate + recalculation_queue after a targeted write)
+--   - migration 142 (scoped_project_ids, "Restrict read to role scope")
+--   - migration 134 (closed-month rejection message)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- DROP ... IF EXISTS).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: Opt-in column
+-- ============================================================================
+
+ALTER TABLE projects
+    ADD COLUMN IF NOT EXISTS hours_approval_start_month DATE;
+
+ALTER TABLE projects DROP CONSTRAINT IF EXISTS chk_projects_hours_approval_month;
+ALTER TABLE projects ADD CONSTRAINT chk_projects_hours_approval_month
+    CHECK (hours_approval_start_month IS NULL OR EXTRACT(DAY FROM hours_approval_start_month) = 1);
+
+COMMENT ON COLUMN projects.hours_approval_start_month IS
+    'First month (YYYY-MM-01) whose hours are billed only once reviewed '
+    '(timesheet_line_reviews). NULL = hours are billed as logged. Read from '
+    'the canonical project.';
+
+-- ============================================================================
+-- STEP 2: timesheet_line_reviews
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS timesheet_line_reviews (
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id          UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    summary_month       DATE NOT NULL CHECK (EXTRACT(DAY FROM summary_month) = 1),
+    user_id             TEXT NOT NULL,
+    task_name           TEXT NOT NULL,
+    client_id           TEXT NOT NULL,
+    status              TEXT NOT NULL CHECK (status IN ('approved', 'adjusted', 'flagged')),
+    reviewed_minutes    INTEGER NOT NULL CHECK (reviewed_minutes >= 0),
+    approved_minutes    INTEGER CHECK (approved_minutes >= 0),
+    reason              TEXT,
+    reviewed_by         UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_at         TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT uq_timesheet_line_reviews_line UNIQUE (project_id, summary_month, user_id, task_name, client_id),
+    CONSTRAINT chk_timesheet_line_reviews_adjusted
+        CHECK ((status = 'adjusted') = (approved_minutes IS NOT NULL)),
+    CONSTRAINT chk_timesheet_line_reviews_reason
+        CHECK (status = 'approved' OR NULLIF(BTRIM(reason), '') IS NOT NULL)
+);
+
+COMMENT ON TABLE timesheet_line_reviews IS
+    'Project manager review of a canonical project''s hours per month, person '
+    '(timesheet user_id) and task. reviewed_minutes = minutes logged when '
+    'reviewed; approved_minutes = written-down minutes for adjusted lines.';
+
+CREATE INDEX IF NOT EXISTS idx_timesheet_line_reviews_month
+    ON timesheet_line_reviews (summary_month, project_id);
+
+DROP TRIGGER IF EXISTS trg_timesheet_line_reviews_updated_at ON timesheet_line_reviews;
+CREATE TRIGGER trg_timesheet_line_reviews_updated_at
+    BEFORE UPDATE ON timesheet_line_reviews
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS trg_closed_month_timesheet_line_reviews ON timesheet_line_reviews;
+CREATE TRIGGER trg_closed_month_timesheet_line_reviews
+    BEFORE INSERT OR UPDATE OR DELETE ON timesheet_line_reviews
+    FOR EACH ROW EXECUTE FUNCTION reject_closed_billing_month_edit('summary_month');
+
+-- Reads are open like task_monthly_totals; writes go through
+-- review_timesheet_lines() only.
+ALTER TABLE timesheet_line_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read timesheet line reviews" ON timesheet_line_reviews;
+CREATE POLICY "Allow authenticated read timesheet line reviews"
+    ON timesheet_line_reviews FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Restrict read to role scope" ON timesheet_line_reviews;
+CREATE POLICY "Restrict read to role scope"
+    ON timesheet_line_reviews AS RESTRICTIVE FOR SELECT TO authenticated
+    USING ((SELECT has_company_wide_access()) OR project_id IN (SELECT scoped_project_ids()));
+DROP POLICY IF EXISTS "Allow service role full access timesheet line reviews" ON timesheet_line_reviews;
+CREATE POLICY "Allow service role full access timesheet line reviews"
+    ON timesheet_line_reviews FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT SELECT ON timesheet_line_reviews TO authenticated;
+GRANT ALL ON timesheet_line_reviews TO service_role;
+REVOKE ALL ON timesheet_line_reviews FROM anon;
+
+-- ============================================================================
+-- STEP 3: timesheet_review_lines — logged vs billable minutes per line
+-- ============================================================================
+-- Same canonical resolution and filters as populate_task_monthly_totals
+-- (migration 101). Internal: callers are the SECURITY DEFINER functions below.
+
+CREATE OR REPLACE FUNCTION timesheet_review_lines(p_range_start DATE, p_range_end DATE)
+RETURNS TABLE (
+    canonical_project_id            UUID,
+    summary_month                   DATE,
+    user_id                         TEXT,
+    user_name                       TEXT,
+    task_name                       TEXT,
+    client_id                       TEXT,
+    client_name                     TEXT,
+    actual_minutes                  BIGINT,
+    rounded_entry_minutes           BIGINT,
+    entry_count                     INTEGER,
+    requires_approval               BOOLEAN,
+    review_status                   TEXT,
+    reviewed_minutes                INTEGER,
+    approved_minutes                INTEGER,
+    review_reason                   TEXT,
+    reviewed_by                     UUID,
+    reviewed_at                     TIMESTAMPTZ,
+    billable_actual_minutes         BIGINT,
+    billable_rounded_entry_minutes  BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH raw_lines AS (
+        SELECT
+            COALESCE(pg.primary_project_id, p.id) AS canonical_project_id,
+            DATE_TRUNC('month', tdr.work_date)::DATE AS summary_month,
+            COALESCE(tdr.user_id, '') AS user_id,
+            MAX(tdr.user_name) AS user_name,
+            COALESCE(tdr.task_name, 'No Task') AS task_name,
+            COALESCE(NULLIF(tdr.client_id, ''), '__UNASSIGNED__') AS client_id,
+            MAX(COALESCE(NULLIF(tdr.client_name, ''), 'Unassigned')) AS client_name,
+            SUM(tdr.total_minutes)::BIGINT AS actual_minutes,
+            SUM(COALESCE(tdr.rounded_minutes, tdr.total_minutes))::BIGINT AS rounded_entry_minutes,
+            COUNT(*)::INTEGER AS entry_count
+        FROM timesheet_daily_rollups tdr
+        JOIN projects p ON p.project_id = tdr.project_id
+        LEFT JOIN project_group_members pgm ON pgm.member_project_id = p.id
+        LEFT JOIN project_groups pg ON pg.id = pgm.group_id
+        WHERE tdr.work_date >= p_range_start
+          AND tdr.work_date <= p_range_end
+          AND tdr.total_minutes IS NOT NULL
+          AND tdr.total_minutes > 0
+        GROUP BY
+            COALESCE(pg.primary_project_id, p.id),
+            DATE_TRUNC('month', tdr.work_date)::DATE,
+            COALESCE(tdr.user_id, ''),
+            COALESCE(tdr.task_name, 'No Task'),
+            COALESCE(NULLIF(tdr.client_id, ''), '__UNASSIGNED__')
+    ),
+    reviewed AS (
+        SELECT
+            rl.*,
+            (cp.hours_approval_start_month IS NOT NULL
+                AND rl.summary_month >= cp.hours_approval_start_month) AS requires_approval,
+            r.status AS review_status,
+            r.reviewed_minutes,
+            r.approved_minutes,
+            r.reason AS review_reason,
+            r.reviewed_by,
+            r.reviewed_at
+        FROM raw_lines rl
+        JOIN projects cp ON cp.id = rl.canonical_project_id
+        LEFT JOIN timesheet_line_reviews r
+            ON r.project_id = rl.canonical_project_id
+           AND r.summary_month = rl.summary_month
+           AND r.user_id = rl.user_id
+           AND r.task_name = rl.task_name
+           AND r.client_id = rl.client_id
+    )
+    SELECT
+        rv.canonical_project_id,
+        rv.summary_month,
+        rv.user_id,
+        rv.user_name,
+        rv.task_name,
+        rv.client_id,
+        rv.client_name,
+        rv.actual_minutes,
+        rv.rounded_entry_minutes,
+        rv.entry_count,
+        rv.requires_approval,
+        rv.review_status,
+        rv.reviewed_minutes,
+        rv.approved_minutes,
+        rv.review_reason,
+        rv.reviewed_by,
+        rv.reviewed_at,
+        CASE
+            WHEN NOT rv.requires_approval THEN rv.actual_minutes
+            WHEN rv.review_status = 'approved' THEN LEAST(rv.actual_minutes, rv.reviewed_minutes)
+            WHEN rv.review_status = 'adjusted' THEN LEAST(rv.actual_minutes, rv.approved_minutes)
+            ELSE 0
+        END::BIGINT AS billable_actual_minutes,
+        CASE
+            WHEN NOT rv.requires_approval THEN rv.rounded_entry_minutes
+            WHEN rv.review_status = 'approved' AND rv.actual_minutes <= rv.reviewed_minutes
+                THEN rv.rounded_entry_minutes
+            WHEN rv.review_status = 'approved' THEN rv.reviewed_minutes
+            WHEN rv.review_status = 'adjusted' THEN LEAST(rv.actual_minutes, rv.approved_minutes)
+            ELSE 0
+        END::BIGINT AS billable_rounded_entry_minutes
+    FROM reviewed rv;
+$$;
+
+COMMENT ON FUNCTION timesheet_review_lines(DATE, DATE) IS
+    'Logged and billable minutes per canonical project, month, person and task '
+    'for work dates in the range, with the line''s review. Lines of project-months '
+    'that require approval bill only approved / adjusted minutes.';
+
+REVOKE ALL ON FUNCTION timesheet_review_lines(DATE, DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION timesheet_review_lines(DATE, DATE) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION timesheet_review_lines(DATE, DATE) TO service_role;
+
+-- ============================================================================
+-- STEP 4: populate_task_monthly_totals — billable minutes only
+-- ============================================================================
+-- Migration 101 body with canonical_entries replaced by the billable minutes
+-- of timesheet_review_lines. Lines held back for review are left out.
+
+CREATE OR REPLACE FUNCTION populate_task_monthly_totals(
+    p_workspace_id TEXT,
+    p_range_start DATE,
+    p_range_end DATE
+)
+RETURNS JSONB
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_affected_months DATE[];
+    v_inserted INTEGER := 0;
+BEGIN
+    -- Expand range to full month boundaries (migration 101) so the DELETE and
+    -- INSERT scopes match.
+    p_range_start := DATE_TRUNC('month', p_range_start)::DATE;
+    p_range_end := (DATE_TRUNC('month', p_range_end)::DATE + INTERVAL '1 month - 1 day')::DATE;
+
+    -- TODO(tech-debt): p_workspace_id is unused (see migration 101).
+
+    SELECT ARRAY_AGG(DISTINCT DATE_TRUNC('month', d)::DATE)
+    INTO v_affected_months
+    FROM generate_series(p_range_start, p_range_end, '1 day'::INTERVAL) d;
+
+    IF v_affected_months IS NULL OR array_length(v_affected_months, 1) IS NULL THEN
+        RETURN jsonb_build_object(
+            'action', 'no_months_in_range',
+            'range_start', p_range_start,
+            'range_end', p_range_end
+        );
+    END IF;
+
+    DELETE FROM task_monthly_totals
+    WHERE summary_month = ANY(v_affected_months);
+
+    WITH billable_lines AS (
+        SELECT *
+        FROM timesheet_review_lines(p_range_start, p_range_end) l
+        WHERE l.billable_actual_minutes > 0
+    ),
+    rounding_config AS (
+        SELECT DISTINCT
+            bl.canonical_project_id,
+            bl.summary_month,
+            COALESCE(
+                (SELECT r.effective_rounding
+                 FROM get_effective_project_rounding(bl.canonical_project_id, bl.summary_month) r),
+                15
+            ) AS rounding_increment
+        FROM billable_lines bl
+    ),
+    aggregated AS (
+        SELECT
+            bl.canonical_project_id,
+            MAX(canonical_p.project_name) AS project_name,
+            bl.task_name,
+            bl.client_id,
+            MAX(bl.client_name) AS client_name,
+            bl.summary_month,
+            SUM(bl.billable_actual_minutes) AS actual_minutes,
+            SUM(bl.billable_rounded_entry_minutes) AS rounded_entry_minutes,
+            billing_apply_rounding(SUM(bl.billable_actual_minutes)::INTEGER, rc.rounding_increment) AS rounded_task_minutes,
+            SUM(bl.entry_count) AS entry_count
+        FROM billable_lines bl
+        JOIN projects canonical_p ON canonical_p.id = bl.canonical_project_id
+        JOIN rounding_config rc
+            ON rc.canonical_project_id = bl.canonical_project_id
+           AND rc.summary_month = bl.summary_month
+        GROUP BY
+            bl.canonical_project_id,
+            bl.task_name,
+            bl.client_id,
+            bl.summary_month,
+            rc.rounding_increment
+    )
+    INSERT INTO task_monthly_totals (
+        project_id, project_name, task_name, client_id, client_name,
+        summary_month, actual_minutes, rounded_entry_minutes, rounded_task_minutes,
+        actual_hours, rounded_entry_hours, rounded_task_hours,
+        entry_count, updated_at
+    )
+    SELECT
+        a.canonical_project_id,
+        a.project_name,
+        a.task_name,
+        a.client_id,
+        a.client_name,
+        a.summary_month,
+        a.actual_minutes,
+        a.rounded_entry_minutes,
+        a.rounded_task_minutes,
+        ROUND(a.actual_minutes / 60.0, 2),
+        ROUND(a.rounded_entry_minutes / 60.0, 2),
+        ROUND(a.rounded_task_minutes / 60.0, 2),
+        a.entry_count::INTEGER,
+        NOW()
+    FROM aggregated a;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    RETURN jsonb_build_object(
+        'action', 'task_monthly_totals_populated',
+        'rows_inserted', v_inserted,
+        'months_processed', array_length(v_affected_months, 1),
+        'affected_months', to_jsonb(v_affected_months),
+        'range_start', p_range_start,
+        'range_end', p_range_end
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION populate_task_monthly_totals(TEXT, DATE, DATE) IS
+    'v4 (151): Aggregates billable minutes from timesheet_review_lines, so hours '
+    'of projects that require approval are included only once approved or '
+    'adjusted. Month-bound range expansion (101), rounding and canonical '
+    'resolution (093) unchanged.';
+
+GRANT EXECUTE ON FUNCTION populate_task_monthly_totals(TEXT, DATE, DATE) TO service_role;
+GRANT EXECUTE ON FUNCTION populate_task_monthly_totals(TEXT, DATE, DATE) TO authenticated;
+
+-- ============================================================================
+-- STEP 5: Reconciliation invariant against billable minutes
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION validate_task_monthly_totals_vs_rollups(
+    p_range_start DATE DEFAULT NULL,
+    p_range_end DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    canonical_project_id UUID,
+    summary_month DATE,
+    rollup_minutes BIGINT,
+    tmt_minutes BIGINT,
+    delta_minutes BIGINT
+)
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH rollup_truth AS (
+        SELECT
+            l.canonical_project_id,
+            l.summary_month,
+            SUM(l.billable_actual_minutes)::BIGINT AS rollup_minutes
+        FROM timesheet_review_lines(
+            COALESCE(DATE_TRUNC('month', p_range_start)::DATE, '-infinity'::DATE),
+            COALESCE((DATE_TRUNC('month', p_range_end)::DATE + INTERVAL '1 month - 1 day')::DATE, 'infinity'::DATE)
+        ) l
+        GROUP BY l.canonical_project_id, l.summary_month
+    ),
+    tmt_observed AS (
+        SELECT
+            tmt.project_id AS canonical_project_id,
+            tmt.summary_month,
+            SUM(tmt.actual_minutes)::BIGINT AS tmt_minutes
+        FROM task_monthly_totals tmt
+        WHERE (p_range_start IS NULL OR tmt.summary_month >= DATE_TRUNC('month', p_range_start)::DATE)
+          AND (p_range_end IS NULL OR tmt.summary_month <= DATE_TRUNC('month', p_range_end)::DATE)
+        GROUP BY tmt.project_id, tmt.summary_month
+    )
+    SELECT
+        COALESCE(rt.canonical_project_id, tobs.canonical_project_id) AS canonical_project_id,
+        COALESCE(rt.summary_month, tobs.summary_month) AS summary_month,
+        COALESCE(rt.rollup_minutes, 0) AS rollup_minutes,
+        COALESCE(tobs.tmt_minutes, 0) AS tmt_minutes,
+        (COALESCE(rt.rollup_minutes, 0) - COALESCE(tobs.tmt_minutes, 0))::BIGINT AS delta_minutes
+    FROM rollup_truth rt
+    FULL OUTER JOIN tmt_observed tobs
+        ON tobs.canonical_project_id = rt.canonical_project_id
+       AND tobs.summary_month = rt.summary_month
+    WHERE ABS(COALESCE(rt.rollup_minutes, 0) - COALESCE(tobs.tmt_minutes, 0)) > 2;
+$$ LANGUAGE sql STABLE;
+
+COMMENT ON FUNCTION validate_task_monthly_totals_vs_rollups(DATE, DATE) IS
+    'v2 (151): Reconciliation invariant. Returns per-(canonical_project, summary_month) '
+    'rows where task_monthly_totals.actual_minutes diverges from the billable minutes '
+    'of timesheet_review_lines (logged minutes, less hours awaiting approval) by more '
+    'than 2 minutes. Called by sync edge functions between populate_task_monthly_totals '
+    'and drain_recalculation_queue to hard-abort the drain on inconsistency.';
+
+GRANT EXECUTE ON FUNCTION validate_task_monthly_totals_vs_rollups(DATE, DATE) TO service_role;
+
+-- ============================================================================
+-- STEP 6: Shared helpers for the review RPCs
+-- ============================================================================
+
+-- Admins review every project; managers review the projects they manage.
+CREATE OR REPLACE FUNCTION can_review_project_hours(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT is_admin() OR p_project_id IN (SELECT scoped_project_ids());
+$$;
+
+REVOKE ALL ON FUNCTION can_review_project_hours(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION can_review_project_hours(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION can_review_project_hours(UUID) TO authenticated, service_role;
+
+-- Rebuild task totals for the months and recalculate the project in each.
+CREATE OR REPLACE FUNCTION refresh_reviewed_project_months(
+    p_project_id UUID,
+    p_first_month DATE,
+    p_last_month DATE
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM populate_task_monthly_totals('review', p_first_month, p_last_month);
+
+    INSERT INTO recalculation_queue (project_id, queue_month, reason)
+    SELECT p_project_id, m::DATE, 'approval'
+    FROM generate_series(p_first_month, p_last_month, INTERVAL '1 month') m
+    ON CONFLICT (project_id, queue_month) WHERE processed_at IS NULL DO NOTHING;
+
+    PERFORM drain_recalculation_queue();
+END;
+$$;
+
+REVOKE ALL ON FUNCTION refresh_reviewed_project_months(UUID, DATE, DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION refresh_reviewed_project_months(UUID, DATE, DATE) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION refresh_reviewed_project_months(UUID, DATE, DATE) TO service_role;
+
+-- ============================================================================
+-- STEP 7: get_timesheet_review_summary — projects with hours in a month
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_timesheet_review_summary(p_month DATE)
+RETURNS TABLE (
+    project_id          UUID,
+    project_name        TEXT,
+    company_name        TEXT,
+    requires_approval   BOOLEAN,
+    approval_start_month DATE,
+    can_review          BOOLEAN,
+    line_count          INTEGER,
+    pending_count       INTEGER,
+    flagged_count       INTEGER,
+    logged_minutes      BIGINT,
+    billable_minutes    BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        l.canonical_project_id,
+        p.project_name,
+        COALESCE(co.display_name, co.client_name),
+        BOOL_OR(l.requires_approval),
+        p.hours_approval_start_month,
+        can_review_project_hours(l.canonical_project_id),
+        COUNT(*)::INTEGER,
+        COUNT(*) FILTER (
+            WHERE l.review_status IS NULL
+               OR (l.review_status = 'approved' AND l.actual_minutes > l.reviewed_minutes)
+        )::INTEGER,
+        COUNT(*) FILTER (WHERE l.review_status = 'flagged')::INTEGER,
+        SUM(l.actual_minutes)::BIGINT,
+        SUM(l.billable_actual_minutes)::BIGINT
+    FROM timesheet_review_lines(
+        DATE_TRUNC('month', p_month)::DATE,
+        (DATE_TRUNC('month', p_month)::DATE + INTERVAL '1 month - 1 day')::DATE
+    ) l
+    JOIN projects p ON p.id = l.canonical_project_id
+    LEFT JOIN companies co ON co.id = p.company_id
+    WHERE has_company_wide_access()
+       OR l.canonical_project_id IN (SELECT scoped_project_ids())
+    GROUP BY l.canonical_project_id, p.project_name, co.display_name, co.client_name, p.hours_approval_start_month
+    ORDER BY p.project_name;
+$$;
+
+COMMENT ON FUNCTION get_timesheet_review_summary(DATE) IS
+    'Per canonical project with hours in the month: whether approval is '
+    'required, line counts awaiting review / flagged, logged vs billable minutes. '
+    'Scoped to the caller''s projects for project managers.';
+
+REVOKE ALL ON FUNCTION get_timesheet_review_summary(DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_timesheet_review_summary(DATE) FROM anon;
+GRANT EXECUTE ON FUNCTION get_timesheet_review_summary(DATE) TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 8: get_timesheet_review — lines of one project-month
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_timesheet_review(p_project_id UUID, p_month DATE)
+RETURNS TABLE (
+    user_id             TEXT,
+    user_name           TEXT,
+    task_name           TEXT,
+    client_id           TEXT,
+    client_name         TEXT,
+    actual_minutes      BIGINT,
+    entry_count         INTEGER,
+    requires_approval   BOOLEAN,
+    review_status       TEXT,
+    reviewed_minutes    INTEGER,
+    approved_minutes    INTEGER,
+    review_reason       TEXT,
+    reviewer_email      TEXT,
+    reviewed_at         TIMESTAMPTZ,
+    billable_minutes    BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+    IF NOT (has_company_wide_access() OR p_project_id IN (SELECT scoped_project_ids())) THEN
+        RAISE EXCEPTION 'Access denied: this project is outside your scope.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        l.user_id,
+        l.user_name,
+        l.task_name,
+        l.client_id,
+        l.client_name,
+        l.actual_minutes,
+        l.entry_count,
+        l.requires_approval,
+        l.review_status,
+        l.reviewed_minutes,
+        l.approved_minutes,
+        l.review_reason,
+        u.email::TEXT,
+        l.reviewed_at,
+        l.billable_actual_minutes
+    FROM timesheet_review_lines(
+        DATE_TRUNC('month', p_month)::DATE,
+        (DATE_TRUNC('month', p_month)::DATE + INTERVAL '1 month - 1 day')::DATE
+    ) l
+    LEFT JOIN auth.users u ON u.id = l.reviewed_by
+    WHERE l.canonical_project_id = p_project_id
+    ORDER BY l.user_name, l.task_name;
+END;
+$$;
+
+COMMENT ON FUNCTION get_timesheet_review(UUID, DATE) IS
+    'Hours of a canonical project in a month per person and task, with each '
+    'line''s review and billable minutes.';
+
+REVOKE ALL ON FUNCTION get_timesheet_review(UUID, DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_timesheet_review(UUID, DATE) FROM anon;
+GRANT EXECUTE ON FUNCTION get_timesheet_review(UUID, DATE) TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 9: review_timesheet_lines — approve / adjust / flag / reset lines
+-- ============================================================================
+-- p_lines: [{ "user_id", "task_name", "client_id", "approved_minutes"? }].
+-- p_status 'pending' clears the review. 'adjusted' requires approved_minutes
+-- on every line, at most the minutes logged; 'adjusted' and 'flagged'
+-- require a reason. Returns the number of lines changed.
+
+CREATE OR REPLACE FUNCTION review_timesheet_lines(
+    p_project_id UUID,
+    p_month DATE,
+    p_status TEXT,
+    p_lines JSONB,
+    p_reason TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+    v_reason TEXT := NULLIF(BTRIM(p_reason), '');
+    v_line JSONB;
+    v_logged BIGINT;
+    v_approved INTEGER;
+    v_changed INTEGER := 0;
+BEGIN
+    IF NOT can_review_project_hours(p_project_id) THEN
+        RAISE EXCEPTION 'Access denied: only admins and this project''s managers can review its hours.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_status NOT IN ('approved', 'adjusted', 'flagged', 'pending') THEN
+        RAISE EXCEPTION 'Unknown review status "%".', p_status
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF p_status IN ('adjusted', 'flagged') AND v_reason IS NULL THEN
+        RAISE EXCEPTION 'A reason is required to % hours.',
+            CASE p_status WHEN 'adjusted' THEN 'write down' ELSE 'flag' END
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF jsonb_typeof(p_lines) <> 'array' OR jsonb_array_length(p_lines) = 0 THEN
+        RAISE EXCEPTION 'Select at least one line to review.'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF is_billing_month_closed(v_month) THEN
+        RAISE EXCEPTION 'Billing month % is closed. Reopen the month before reviewing its hours.',
+            TO_CHAR(v_month, 'YYYY-MM')
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+    LOOP
+        SELECT l.actual_minutes
+        INTO v_logged
+        FROM timesheet_review_lines(v_month, (v_month + INTERVAL '1 month - 1 day')::DATE) l
+        WHERE l.canonical_project_id = p_project_id
+          AND l.user_id = v_line->>'user_id'
+          AND l.task_name = v_line->>'task_name'
+          AND l.client_id = v_line->>'client_id';
+
+        IF v_logged IS NULL THEN
+            RAISE EXCEPTION 'No hours logged for % / % in %.',
+                v_line->>'user_id', v_line->>'task_name', TO_CHAR(v_month, 'YYYY-MM')
+                USING ERRCODE = 'no_data_found';
+        END IF;
+
+        IF p_status = 'pending' THEN
+            DELETE FROM timesheet_line_reviews r
+            WHERE r.project_id = p_project_id
+              AND r.summary_month = v_month
+              AND r.user_id = v_line->>'user_id'
+              AND r.task_name = v_line->>'task_name'
+              AND r.client_id = v_line->>'client_id';
+        ELSE
+            v_approved := NULL;
+            IF p_status = 'adjusted' THEN
+                v_approved := (v_line->>'approved_minutes')::INTEGER;
+                IF v_approved IS NULL OR v_approved < 0 OR v_approved > v_logged THEN
+                    RAISE EXCEPTION 'Written-down hours must be between 0 and the % minutes logged.', v_logged
+                        USING ERRCODE = 'invalid_parameter_value';
+                END IF;
+            END IF;
+
+            INSERT INTO timesheet_line_reviews (
+                project_id, summary_month, user_id, task_name, client_id,
+                status, reviewed_minutes, approved_minutes, reason, reviewed_by, reviewed_at
+            ) VALUES (
+                p_project_id, v_month, v_line->>'user_id', v_line->>'task_name', v_line->>'client_id',
+                p_status, v_logged, v_approved, v_reason, auth.uid(), NOW()
+            )
+            ON CONFLICT (project_id, summary_month, user_id, task_name, client_id) DO UPDATE
+                SET status           = EXCLUDED.status,
+                    reviewed_minutes = EXCLUDED.reviewed_minutes,
+                    approved_minutes = EXCLUDED.approved_minutes,
+                    reason           = EXCLUDED.reason,
+                    reviewed_by      = EXCLUDED.reviewed_by,
+                    reviewed_at      = EXCLUDED.reviewed_at;
+        END IF;
+
+        v_changed := v_changed + 1;
+    END LOOP;
+
+    PERFORM refresh_reviewed_project_months(p_project_id, v_month, v_month);
+
+    RETURN v_changed;
+END;
+$$;
+
+COMMENT ON FUNCTION review_timesheet_lines(UUID, DATE, TEXT, JSONB, TEXT) IS
+    'Approve, write down (adjusted), flag or reset (pending) lines of a canonical '
+    'project-month, then rebuild task totals and recalculate the project. Admins '
+    'and the project''s managers only.';
+
+REVOKE ALL ON FUNCTION review_timesheet_lines(UUID, DATE, TEXT, JSONB, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION review_timesheet_lines(UUID, DATE, TEXT, JSONB, TEXT) FROM anon;
+GRANT EXECUTE ON FUNCTION review_timesheet_lines(UUID, DATE, TEXT, JSONB, TEXT) TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 10: set_project_hours_approval — admin opt-in / opt-out
+-- ============================================================================
+-- Rebuilds every month from the earlier of the old and new start month up to
+-- the current month, so billing follows the new rule immediately.
+
+CREATE OR REPLACE FUNCTION set_project_hours_approval(p_project_id UUID, p_start_month DATE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_old DATE;
+    v_new DATE := DATE_TRUNC('month', p_start_month)::DATE;
+    v_first DATE;
+    v_last DATE := DATE_TRUNC('month', CURRENT_DATE)::DATE;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM v_project_canonical WHERE project_id = p_project_id AND role = 'member') THEN
+        RAISE EXCEPTION 'Set hours approval on the group''s primary project.'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    SELECT hours_approval_start_month INTO v_old FROM projects WHERE id = p_project_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Project % not found.', p_project_id
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    v_first := LEAST(COALESCE(v_old, v_new), COALESCE(v_new, v_old));
+
+    IF v_first IS NOT NULL AND EXISTS (
+        SELECT 1
+        FROM generate_series(v_first, GREATEST(v_first, v_last), INTERVAL '1 month') m
+        WHERE is_billing_month_closed(m::DATE)
+    ) THEN
+        RAISE EXCEPTION 'Billing months from % include a closed month. Choose a later start month.',
+            TO_CHAR(v_first, 'YYYY-MM')
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE projects SET hours_approval_start_month = v_new WHERE id = p_project_id;
+
+    IF v_first IS NOT NULL THEN
+        PERFORM refresh_reviewed_project_months(p_project_id, v_first, GREATEST(v_first, v_last));
+    END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION set_project_hours_approval(UUID, DATE) IS
+    'Admin: require approval of a canonical project''s hours from p_start_month '
+    '(NULL turns approval off), then rebuild and recalculate the affected months.';
+
+REVOKE ALL ON FUNCTION set_project_hours_approval(UUID, DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION set_project_hours_approval(UUID, DATE) FROM anon;
+GRANT EXECUTE ON FUNCTION set_project_hours_approval(UUID, DATE) TO authenticated, service_role;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'projects' AND column_name = 'hours_approval_start_month'
+    ) THEN
+        RAISE EXCEPTION 'projects.hours_approval_start_month missing';
+    END IF;
+
+    RAISE NOTICE 'Migration 151 Complete:';
+    RAISE NOTICE '  - projects.hours_approval_start_month (opt-in)';
+    RAISE NOTICE '  - timesheet_line_reviews (approved / adjusted / flagged per person and task)';
+    RAISE NOTICE '  - timesheet_review_lines(): billable minutes feed populate_task_monthly_totals';
+    RAISE NOTICE '  - get_timesheet_review_summary / get_timesheet_review / review_timesheet_lines / set_project_hours_approval';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- Restore populate_task_monthly_totals and validate_task_monthly_totals_vs_rollups
+-- from migration 101 (copy both CREATE OR REPLACE FUNCTION blocks verbatim),
+-- then:
+-- BEGIN;
+--   DROP FUNCTION IF EXISTS set_project_hours_approval(UUID, DATE);
+--   DROP FUNCTION IF EXISTS review_timesheet_lines(UUID, DATE, TEXT, JSONB, TEXT);
+--   DROP FUNCTION IF EXISTS get_timesheet_review(UUID, DATE);
+--   DROP FUNCTION IF EXISTS get_timesheet_review_summary(DATE);
+--   DROP FUNCTION IF EXISTS refresh_reviewed_project_months(UUID, DATE, DATE);
+--   DROP FUNCTION IF EXISTS can_review_project_hours(UUID);
+--   DROP FUNCTION IF EXISTS timesheet_review_lines(DATE, DATE);
+--   DROP TABLE IF EXISTS timesheet_line_reviews;
+--   ALTER TABLE projects DROP CONSTRAINT IF EXISTS chk_projects_hours_approval_month;
+--   ALTER TABLE projects DROP COLUMN IF EXISTS hours_approval_start_month;
+-- COMMIT;
+-- Then re-run populate_task_monthly_totals for the affected months.
@@ -0,0 +1,1051 @@
+-- ============================================================================
+-- Migration 152: Billing write-down / write-up adjustments
+-- ============================================================================
+-- Purpose: billed hours only diverge from worked hours through rounding and
+-- MIN/MAX/carryover. Courtesy discounts ("5h off this month") and premiums
+-- were applied outside the app, so the summary, EOM reports and QBO invoices
+-- disagreed with what was actually billed. This migration records them:
+--
+--   1. can_adjust_project_billing(project) — admins and finance on every
+--      project, project managers on the projects they manage.
+--   2. billing_adjustments — explicit adjustments per canonical project and
+--      month: either hours (signed; negative = write-down) or an amount in
+--      cents (signed), always with a reason and author. Writes enqueue a
+--      recalculation and are audited through billing_audit_trigger()
+--      (migration 028). Closed months reject edits (migration 134).
+--   3. project_monthly_summary / billing_month_locked_summary gain
+--      manual_adjustment_hours and manual_adjustment_cents: the net effect of
+--      the month's adjustments on billed_hours / billed_revenue_cents.
+--   4. resolve_project_month_revenue() applies adjustments after MIN/MAX
+--      (they never feed carryover). Hour adjustments are billed at the
+--      month's rate; amounts are added to revenue; both are floored at zero.
+--      recalculate_project_month() stores the new columns
+--      (calculation_version 'v2.2-adjustments').
+--   5. close_billing_month() copies the summary into the locked table with an
+--      explicit column list (the new columns follow locked_at / locked_by).
+--   6. get_investor_realization_by_month() returns the adjustment totals.
+--   7. get_billing_adjustments(month) — adjustments with project and author.
+--
+-- compare_summary_vs_recomputed() (migration 046) predates adjustments and
+-- reports adjusted project-months as differences; compare_resolved_vs_snapshot()
+-- (migration 118) reads the resolver and stays exact.
+--
+-- Mirrors existing precedent:
+--   - migration 116 / 134 (resolver and write-engine bodies, kept verbatim
+--     apart from the adjustment step and the new columns)
+--   - migration 045 (enqueue_on_*_change triggers)
+--   - migration 150 (scoped write policy, "Restrict read to role scope")
+--   - migration 122 (realization RPC, DROP + CREATE to change the return type)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- DROP ... IF EXISTS).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: Who may adjust a project's billing
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION can_adjust_project_billing(p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT can_manage_expenses() OR p_project_id IN (SELECT scoped_project_ids());
+$$;
+
+COMMENT ON FUNCTION can_adjust_project_billing(UUID) IS
+    'Admins and finance adjust billing on every project; project managers on '
+    'the projects they manage.';
+
+REVOKE ALL ON FUNCTION can_adjust_project_billing(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION can_adjust_project_billing(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION can_adjust_project_billing(UUID) TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 2: billing_adjustments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS billing_adjustments (
+    id                  UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    project_id          UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+    adjustment_month    DATE NOT NULL CHECK (EXTRACT(DAY FROM adjustment_month) = 1),
+    adjustment_type     TEXT NOT NULL CHECK (adjustment_type IN ('hours', 'amount')),
+    hours               NUMERIC(10,2),
+    amount_cents        BIGINT,
+    reason              TEXT NOT NULL CHECK (NULLIF(BTRIM(reason), '') IS NOT NULL),
+    created_by          UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT chk_billing_adjustments_value CHECK (
+        (adjustment_type = 'hours' AND hours IS NOT NULL AND hours <> 0 AND amount_cents IS NULL)
+        OR (adjustment_type = 'amount' AND amount_cents IS NOT NULL AND amount_cents <> 0 AND hours IS NULL)
+    )
+);
+
+COMMENT ON TABLE billing_adjustments IS
+    'Manual write-downs (negative) and write-ups (positive) of a canonical '
+    'project''s billing for a month, in hours (billed at the month''s rate) or '
+    'an amount in cents. Applied after MIN/MAX by resolve_project_month_revenue().';
+
+CREATE INDEX IF NOT EXISTS idx_billing_adjustments_project_month
+    ON billing_adjustments (project_id, adjustment_month);
+CREATE INDEX IF NOT EXISTS idx_billing_adjustments_month
+    ON billing_adjustments (adjustment_month);
+
+DROP TRIGGER IF EXISTS trg_billing_adjustments_updated_at ON billing_adjustments;
+CREATE TRIGGER trg_billing_adjustments_updated_at
+    BEFORE UPDATE ON billing_adjustments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS trg_closed_month_billing_adjustments ON billing_adjustments;
+CREATE TRIGGER trg_closed_month_billing_adjustments
+    BEFORE INSERT OR UPDATE OR DELETE ON billing_adjustments
+    FOR EACH ROW EXECUTE FUNCTION reject_closed_billing_month_edit('adjustment_month');
+
+DROP TRIGGER IF EXISTS trg_audit_billing_adjustments ON billing_adjustments;
+CREATE TRIGGER trg_audit_billing_adjustments
+    AFTER INSERT OR UPDATE OR DELETE ON billing_adjustments
+    FOR EACH ROW EXECUTE FUNCTION billing_audit_trigger();
+
+CREATE OR REPLACE FUNCTION enqueue_on_billing_adjustment_change()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        INSERT INTO recalculation_queue (project_id, queue_month, reason)
+        VALUES (OLD.project_id, OLD.adjustment_month, 'adjustment')
+        ON CONFLICT (project_id, queue_month) WHERE processed_at IS NULL
+        DO NOTHING;
+        RETURN OLD;
+    ELSE
+        INSERT INTO recalculation_queue (project_id, queue_month, reason)
+        VALUES (NEW.project_id, NEW.adjustment_month, 'adjustment')
+        ON CONFLICT (project_id, queue_month) WHERE processed_at IS NULL
+        DO NOTHING;
+        RETURN NEW;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION enqueue_on_billing_adjustment_change() IS
+    'Enqueue recalculation when a billing adjustment is inserted, updated, or deleted.';
+
+DROP TRIGGER IF EXISTS trg_enqueue_on_billing_adjustment_change ON billing_adjustments;
+CREATE TRIGGER trg_enqueue_on_billing_adjustment_change
+    AFTER INSERT OR UPDATE OR DELETE ON billing_adjustments
+    FOR EACH ROW EXECUTE FUNCTION enqueue_on_billing_adjustment_change();
+
+ALTER TABLE billing_adjustments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read billing adjustments" ON billing_adjustments;
+CREATE POLICY "Allow authenticated read billing adjustments"
+    ON billing_adjustments FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Restrict read to role scope" ON billing_adjustments;
+CREATE POLICY "Restrict read to role scope"
+    ON billing_adjustments AS RESTRICTIVE FOR SELECT TO authenticated
+    USING ((SELECT has_company_wide_access()) OR project_id IN (SELECT scoped_project_ids()));
+DROP POLICY IF EXISTS "Allow adjuster write billing adjustments" ON billing_adjustments;
+CREATE POLICY "Allow adjuster write billing adjustments"
+    ON billing_adjustments FOR ALL TO authenticated
+    USING (can_adjust_project_billing(project_id))
+    WITH CHECK (can_adjust_project_billing(project_id));
+DROP POLICY IF EXISTS "Allow service role full access billing adjustments" ON billing_adjustments;
+CREATE POLICY "Allow service role full access billing adjustments"
+    ON billing_adjustments FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON billing_adjustments TO authenticated;
+GRANT ALL ON billing_adjustments TO service_role;
+REVOKE ALL ON billing_adjustments FROM anon;
+
+-- ============================================================================
+-- STEP 3: Summary columns
+-- ============================================================================
+
+ALTER TABLE project_monthly_summary
+    ADD COLUMN IF NOT EXISTS manual_adjustment_hours NUMERIC(10,2) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS manual_adjustment_cents BIGINT NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN project_monthly_summary.manual_adjustment_hours IS
+    'Net change to billed_hours from billing_adjustments (negative = write-down).';
+COMMENT ON COLUMN project_monthly_summary.manual_adjustment_cents IS
+    'Net change to billed_revenue_cents from billing_adjustments: hour adjustments '
+    'at rate_used plus amount adjustments.';
+
+ALTER TABLE billing_month_locked_summary
+    ADD COLUMN IF NOT EXISTS manual_adjustment_hours NUMERIC(10,2) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS manual_adjustment_cents BIGINT NOT NULL DEFAULT 0;
+
+-- SELECT pms.* is expanded when the view is created; re-create it so the new
+-- columns come through (appended, existing columns unchanged). security_invoker
+-- restated (migration 142):
+CREATE OR REPLACE VIEW v_canonical_project_monthly_summary WITH (security_invoker = on) AS
+SELECT pms.*
+FROM project_monthly_summary pms
+LEFT JOIN project_group_members pgm ON pgm.member_project_id = pms.project_id
+WHERE pgm.member_project_id IS NULL;
+
+-- ============================================================================
+-- STEP 4: Resolver — adjustments after MIN/MAX
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_attribute a
+        JOIN pg_type t ON t.typrelid = a.attrelid
+        WHERE t.typname = 'project_month_revenue' AND a.attname = 'manual_adjustment_hours'
+    ) THEN
+        ALTER TYPE project_month_revenue ADD ATTRIBUTE manual_adjustment_hours NUMERIC(10,2);
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_attribute a
+        JOIN pg_type t ON t.typrelid = a.attrelid
+        WHERE t.typname = 'project_month_revenue' AND a.attname = 'manual_adjustment_cents'
+    ) THEN
+        ALTER TYPE project_month_revenue ADD ATTRIBUTE manual_adjustment_cents BIGINT;
+    END IF;
+END $$;
+
+-- Migration 116 body, verbatim, plus STEP 6b and the two result fields.
+CREATE OR REPLACE FUNCTION resolve_project_month_revenue(
+    p_project_id UUID,
+    p_month      DATE
+)
+RETURNS project_month_revenue
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+    v_external_project_id TEXT;
+    v_company_id UUID;
+
+    -- Billing config
+    v_rate NUMERIC(10,2);
+    v_rate_source TEXT;
+    v_rounding INTEGER;
+    v_rounding_mode TEXT;
+    v_minimum_hours NUMERIC(10,2);
+    v_maximum_hours NUMERIC(10,2);
+    v_is_active BOOLEAN;
+    v_carryover_enabled BOOLEAN;
+    v_carryover_in NUMERIC(10,2) := 0;
+
+    -- Calculated values
+    v_actual_minutes INTEGER := 0;
+    v_rounded_minutes INTEGER := 0;
+    v_actual_hours NUMERIC(10,2);
+    v_rounded_hours NUMERIC(10,2);
+    v_adjusted_hours NUMERIC(10,2);
+    v_billed_hours NUMERIC(10,2);
+    v_unbillable_hours NUMERIC(10,2) := 0;
+    v_carryover_out NUMERIC(10,2) := 0;
+    v_minimum_padding NUMERIC(10,2) := 0;
+    v_minimum_applied BOOLEAN := false;
+    v_maximum_applied BOOLEAN := false;
+    v_has_billing_limits BOOLEAN := false;
+    v_base_revenue_cents BIGINT;
+    v_billed_revenue_cents BIGINT;
+    v_milestone_override_cents BIGINT := NULL;
+    v_resource_count INTEGER := 0;
+    v_task_count INTEGER := 0;
+    v_entry_count INTEGER := 0;
+
+    -- Manual adjustments (migration 152)
+    v_manual_hours NUMERIC(10,2) := 0;
+    v_manual_cents BIGINT := 0;
+    v_hours_before NUMERIC(10,2);
+    v_revenue_before BIGINT;
+
+    -- Member project IDs for canonical grouping (R1)
+    v_project_ids UUID[];
+
+    -- Canonical project ID for task_monthly_totals lookup (R1, migration 095)
+    v_canonical_project_id UUID;
+
+    v_result project_month_revenue;
+BEGIN
+    -- =========================================
+    -- RESOLVE PROJECT INFO
+    -- =========================================
+    SELECT p.project_id, p.company_id
+    INTO v_external_project_id, v_company_id
+    FROM projects p WHERE p.id = p_project_id;
+
+    IF v_external_project_id IS NULL THEN
+        RAISE WARNING 'Project % not found', p_project_id;
+        RETURN NULL;
+    END IF;
+
+    IF v_company_id IS NULL THEN
+        RAISE WARNING 'Project % has NULL company_id', p_project_id;
+        RETURN NULL;
+    END IF;
+
+    -- =========================================
+    -- R1: BUILD CANONICAL PROJECT GROUP
+    -- (verbatim from migration 095 L97-110)
+    -- =========================================
+    SELECT ARRAY_AGG(sub.pid)
+    INTO v_project_ids
+    FROM (
+        SELECT p_project_id AS pid
+        UNION
+        SELECT pgm.member_project_id
+        FROM project_groups pg
+        JOIN project_group_members pgm ON pgm.group_id = pg.id
+        WHERE pg.primary_project_id = p_project_id
+    ) sub;
+
+    IF v_project_ids IS NULL THEN
+        v_project_ids := ARRAY[p_project_id];
+    END IF;
+
+    -- =========================================
+    -- STEP 1: GET BILLING CONFIGURATION
+    -- R4 (rate), R2 (rounding mode), limits (DIRECT semantics), R9 (is_active)
+    -- (verbatim from migration 095 L116-147)
+    -- =========================================
+    SELECT r.effective_rate, r.source
+    INTO v_rate, v_rate_source
+    FROM get_effective_project_rate(p_project_id, v_month) r;
+
+    SELECT r.effective_rounding, r.effective_rounding_mode
+    INTO v_rounding, v_rounding_mode
+    FROM get_effective_project_rounding(p_project_id, v_month) r;
+
+    -- DIRECT limit semantics: latest config row <= month, NO first_seen backfill
+    SELECT
+        l.minimum_hours,
+        l.maximum_hours,
+        COALESCE(l.carryover_enabled, false)
+    INTO v_minimum_hours, v_maximum_hours, v_carryover_enabled
+    FROM project_monthly_billing_limits l
+    WHERE l.project_id = p_project_id
+        AND l.limits_month <= v_month
+    ORDER BY l.limits_month DESC
+    LIMIT 1;
+
+    -- R9: is_active gate (DIRECT semantics; default true)
+    SELECT COALESCE(s.is_active, true)
+    INTO v_is_active
+    FROM project_monthly_active_status s
+    WHERE s.project_id = p_project_id
+        AND s.status_month <= v_month
+    ORDER BY s.status_month DESC
+    LIMIT 1;
+
+    v_is_active := COALESCE(v_is_active, true);
+    v_rounding := COALESCE(v_rounding, get_default_rounding_increment());
+    v_rounding_mode := COALESCE(v_rounding_mode, 'task');
+    v_rate := COALESCE(v_rate, get_default_rate());
+    v_carryover_enabled := COALESCE(v_carryover_enabled, false);
+
+    -- =========================================
+    -- STEP 2: R5 — CARRYOVER-IN (READ ONLY; do NOT re-derive the chain)
+    -- (verbatim from migration 095 L152-156)
+    -- =========================================
+    SELECT COALESCE(SUM(pch.carryover_hours), 0)
+    INTO v_carryover_in
+    FROM project_carryover_hours pch
+    WHERE pch.project_id = p_project_id
+        AND pch.carryover_month = v_month;
+
+    v_has_billing_limits := (v_minimum_hours IS NOT NULL
+                          OR v_maximum_hours IS NOT NULL
+                          OR v_carryover_in > 0);
+
+    -- =========================================
+    -- R1: Resolve member -> canonical for task_monthly_totals lookup
+    -- (verbatim from migration 095 L166-172)
+    -- =========================================
+    v_canonical_project_id := COALESCE(
+        (SELECT pg.primary_project_id
+         FROM project_groups pg
+         JOIN project_group_members pgm ON pgm.group_id = pg.id
+         WHERE pgm.member_project_id = p_project_id),
+        p_project_id
+    );
+
+    -- =========================================
+    -- STEP 3: R2 — READ PRE-COMPUTED TASK TOTALS (rounding-mode column select)
+    -- (verbatim from migration 095 L187-209)
+    -- =========================================
+    SELECT
+        COALESCE(SUM(tmt.actual_minutes), 0)::INTEGER,
+        CASE WHEN v_rounding_mode = 'entry'
+             THEN COALESCE(SUM(tmt.rounded_entry_minutes), 0)::INTEGER
+             ELSE COALESCE(SUM(tmt.rounded_task_minutes), 0)::INTEGER
+        END
+    INTO v_actual_minutes, v_rounded_minutes
+    FROM task_monthly_totals tmt
+    WHERE tmt.project_id = v_canonical_project_id
+      AND tmt.summary_month = v_month;
+
+    -- Counts (still from timesheet_daily_rollups; verbatim from 095)
+    SELECT
+        COALESCE(COUNT(DISTINCT tdr.user_id), 0),
+        COALESCE(COUNT(DISTINCT COALESCE(tdr.task_name, 'No Task')), 0),
+        COALESCE(COUNT(*), 0)
+    INTO v_resource_count, v_task_count, v_entry_count
+    FROM timesheet_daily_rollups tdr
+    JOIN projects p ON p.project_id = tdr.project_id
+    WHERE p.id = ANY(v_project_ids)
+        AND DATE_TRUNC('month', tdr.work_date)::DATE = v_month
+        AND tdr.total_minutes > 0;
+
+    -- =========================================
+    -- STEP 4: R3 — CALCULATE HOURS (billing_round_hours)
+    -- (verbatim from migration 095 L214-217)
+    -- =========================================
+    v_actual_hours := billing_round_hours(v_actual_minutes::NUMERIC / 60);
+    v_rounded_hours := billing_round_hours(v_rounded_minutes::NUMERIC / 60);
+    v_adjusted_hours := billing_round_hours(v_rounded_hours + v_carryover_in);
+    v_billed_hours := v_adjusted_hours;
+
+    -- =========================================
+    -- STEP 5: R6 (min floor, gated R9), R7 (max cap), R8 (carryover-out VALUE)
+    -- (verbatim from migration 095 L222-244)
+    -- =========================================
+    IF v_has_billing_limits THEN
+        IF v_is_active AND v_minimum_hours IS NOT NULL AND v_adjusted_hours < v_minimum_hours THEN
+            v_minimum_padding := billing_round_hours(v_minimum_hours - v_adjusted_hours);
+            v_billed_hours := v_minimum_hours;
+            v_minimum_applied := true;
+        END IF;
+
+        IF v_maximum_hours IS NOT NULL AND v_billed_hours > v_maximum_hours THEN
+            DECLARE
+                v_excess NUMERIC(10,2);
+            BEGIN
+                v_excess := billing_round_hours(v_billed_hours - v_maximum_hours);
+                v_billed_hours := v_maximum_hours;
+                v_maximum_applied := true;
+
+                IF v_carryover_enabled THEN
+                    -- R8: carryover-out VALUE only. The WRITE/cascade stays in
+                    -- the write engine (recalculate_project_month STEP 9).
+                    v_carryover_out := v_excess;
+                ELSE
+                    v_unbillable_hours := v_excess;
+                END IF;
+            END;
+        END IF;
+    END IF;
+
+    -- =========================================
+    -- STEP 6: R10 — REVENUE CENTS
+    -- (verbatim from migration 095 L249-250)
+    -- =========================================
+    v_base_revenue_cents := ROUND(v_rounded_hours * v_rate * 100)::BIGINT;
+    v_billed_revenue_cents := ROUND(v_billed_hours * v_rate * 100)::BIGINT;
+
+    -- =========================================
+    -- STEP 6b: MANUAL ADJUSTMENTS (migration 152)
+    -- After MIN/MAX, so carryover never includes them. Hours are billed at
+    -- the month's rate, amounts added as-is; both floored at zero. The
+    -- manual_adjustment_* fields carry the net effect after the floor.
+    -- =========================================
+    SELECT
+        COALESCE(SUM(ba.hours), 0),
+        COALESCE(SUM(ba.amount_cents), 0)
+    INTO v_manual_hours, v_manual_cents
+    FROM billing_adjustments ba
+    WHERE ba.project_id = p_project_id
+      AND ba.adjustment_month = v_month;
+
+    IF v_manual_hours <> 0 OR v_manual_cents <> 0 THEN
+        v_hours_before := v_billed_hours;
+        v_revenue_before := v_billed_revenue_cents;
+        v_billed_hours := GREATEST(billing_round_hours(v_billed_hours + v_manual_hours), 0);
+        v_billed_revenue_cents := GREATEST(
+            ROUND(v_billed_hours * v_rate * 100)::BIGINT + v_manual_cents, 0);
+        v_manual_hours := v_billed_hours - v_hours_before;
+        v_manual_cents := v_billed_revenue_cents - v_revenue_before;
+    END IF;
+
+    -- =========================================
+    -- STEP 7: R11 — MILESTONE OVERRIDE (COALESCE semantics, migrations 047/051)
+    -- READ-ONLY surfacing for the read path. The WRITE engine never set this
+    -- column (recalculate_fixed_billing_month owns it). LEFT JOIN => override 0
+    -- when a linked revenue_milestone exists but has no transactions in month;
+    -- NULL when no linked revenue_milestone billing exists at all.
+    -- =========================================
+    SELECT sub.total_cents
+    INTO v_milestone_override_cents
+    FROM (
+        SELECT COALESCE(SUM(bt.amount_cents), 0) AS total_cents
+        FROM billings b
+        LEFT JOIN billing_transactions bt
+          ON bt.billing_id = b.id
+          AND bt.transaction_month = v_month
+        WHERE b.type = 'revenue_milestone'
+          AND b.linked_project_id = p_project_id
+        HAVING COUNT(b.id) > 0
+    ) sub;
+    -- (If no linked revenue_milestone billing exists, the subquery returns no
+    --  row and v_milestone_override_cents stays NULL — exactly migration 051's
+    --  "no override" semantics.)
+
+    -- =========================================
+    -- ASSEMBLE RESULT (project-grain only; no I/O performed)
+    -- =========================================
+    v_result.actual_minutes           := v_actual_minutes;
+    v_result.rounded_minutes          := v_rounded_minutes;
+    v_result.actual_hours             := v_actual_hours;
+    v_result.rounded_hours            := v_rounded_hours;
+    v_result.carryover_in_hours       := v_carryover_in;
+    v_result.adjusted_hours           := v_adjusted_hours;
+    v_result.billed_hours             := v_billed_hours;
+    v_result.unbillable_hours         := v_unbillable_hours;
+    v_result.carryover_out_hours      := v_carryover_out;
+    v_result.minimum_padding_hours    := v_minimum_padding;
+    v_result.minimum_applied          := v_minimum_applied;
+    v_result.maximum_applied          := v_maximum_applied;
+    v_result.has_billing_limits       := v_has_billing_limits;
+    v_result.is_active_used           := v_is_active;
+    v_result.base_revenue_cents       := v_base_revenue_cents;
+    v_result.billed_revenue_cents     := v_billed_revenue_cents;
+    v_result.milestone_override_cents := v_milestone_override_cents;
+    v_result.rate_used                := v_rate;
+    v_result.rate_source              := v_rate_source;
+    v_result.rounding_used            := v_rounding;
+    v_result.minimum_hours_config     := v_minimum_hours;
+    v_result.maximum_hours_config     := v_maximum_hours;
+    v_result.carryover_enabled_config := v_carryover_enabled;
+    v_result.resource_count           := v_resource_count;
+    v_result.task_count               := v_task_count;
+    v_result.source_entry_count       := v_entry_count;
+    v_result.manual_adjustment_hours  := v_manual_hours;
+    v_result.manual_adjustment_cents  := v_manual_cents;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION resolve_project_month_revenue(UUID, DATE) IS
+    'PURE, READ-ONLY, STABLE resolver for a single project-month. Returns a '
+    'project_month_revenue record with every project-grain computed field the '
+    'snapshot stores. Reuses the EXACT rules inlined in recalculate_project_month '
+    '(migration 095, v2.1-tmt-canonical): canonical grouping, rounding-mode column '
+    'select, effective rate/rounding, DIRECT limit/active semantics, min/max/'
+    'carryover, revenue cents, plus milestone override via migrations 047/051 '
+    'COALESCE semantics. Migration 152: billing_adjustments applied after '
+    'MIN/MAX. Performs NO writes and NO cascade; carryover_out is a '
+    'returned figure only. service_role only.';
+
+-- Least privilege (lesson from migration 113): REVOKE the default PUBLIC grant
+-- and anon/authenticated, then GRANT EXECUTE to service_role ONLY.
+REVOKE ALL ON FUNCTION resolve_project_month_revenue(UUID, DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION resolve_project_month_revenue(UUID, DATE) FROM anon, authenticated;
+GRANT EXECUTE ON FUNCTION resolve_project_month_revenue(UUID, DATE) TO service_role;
+
+-- ============================================================================
+-- STEP 5: Write engine — store the adjustment columns
+-- ============================================================================
+-- Migration 134 body, verbatim, plus manual_adjustment_hours / _cents.
+
+CREATE OR REPLACE FUNCTION recalculate_project_month(
+    p_project_id UUID,      -- Internal projects.id (canonical/primary)
+    p_month DATE
+)
+RETURNS VOID AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+    v_company_id UUID;
+    v_external_project_id TEXT;
+
+    -- Pure rule output
+    v project_month_revenue;
+
+    -- Company-grain invoiced (migration 095 STEP 7) — stays in the write engine
+    v_invoiced_revenue_cents BIGINT := 0;
+BEGIN
+    -- Closed months are frozen (migration 134). The queue item stays pending
+    -- (drain_recalculation_queue skips closed months) and runs on reopen.
+    IF is_billing_month_closed(v_month) THEN
+        RAISE NOTICE 'Billing month % is closed; recalculation of project % deferred',
+            v_month, p_project_id;
+        RETURN;
+    END IF;
+
+    SELECT p.project_id, p.company_id
+    INTO v_external_project_id, v_company_id
+    FROM projects p WHERE p.id = p_project_id;
+
+    IF v_external_project_id IS NULL THEN
+        RAISE WARNING 'Project % not found', p_project_id;
+        RETURN;
+    END IF;
+
+    IF v_company_id IS NULL THEN
+        RAISE WARNING 'Project % has NULL company_id', p_project_id;
+        RETURN;
+    END IF;
+
+    SELECT * INTO v FROM resolve_project_month_revenue(p_project_id, v_month);
+
+    IF v IS NULL THEN
+        RETURN;
+    END IF;
+
+    SELECT COALESCE(SUM(bt.amount_cents), 0)
+    INTO v_invoiced_revenue_cents
+    FROM billing_transactions bt
+    JOIN billings b ON b.id = bt.billing_id
+    WHERE b.company_id = v_company_id
+        AND bt.transaction_month = v_month;
+
+    INSERT INTO project_monthly_summary (
+        summary_month, project_id, company_id,
+        actual_minutes, rounded_minutes, actual_hours, rounded_hours,
+        carryover_in_hours, adjusted_hours, billed_hours,
+        unbillable_hours, carryover_out_hours, minimum_padding_hours,
+        minimum_applied, maximum_applied, has_billing_limits, is_active_used,
+        base_revenue_cents, billed_revenue_cents, invoiced_revenue_cents,
+        rate_used, rate_source, rounding_used,
+        minimum_hours_config, maximum_hours_config, carryover_enabled_config,
+        resource_count, task_count, source_entry_count,
+        manual_adjustment_hours, manual_adjustment_cents,
+        calculated_at, calculation_version
+    ) VALUES (
+        v_month, p_project_id, v_company_id,
+        v.actual_minutes, v.rounded_minutes, v.actual_hours, v.rounded_hours,
+        v.carryover_in_hours, v.adjusted_hours, v.billed_hours,
+        v.unbillable_hours, v.carryover_out_hours, v.minimum_padding_hours,
+        v.minimum_applied, v.maximum_applied, v.has_billing_limits, v.is_active_used,
+        v.base_revenue_cents, v.billed_revenue_cents, v_invoiced_revenue_cents,
+        v.rate_used, v.rate_source, v.rounding_used,
+        v.minimum_hours_config, v.maximum_hours_config, v.carryover_enabled_config,
+        v.resource_count, v.task_count, v.source_entry_count,
+        v.manual_adjustment_hours, v.manual_adjustment_cents,
+        NOW(), 'v2.2-adjustments'
+    )
+    ON CONFLICT (project_id, summary_month) DO UPDATE SET
+        company_id = EXCLUDED.company_id,
+        actual_minutes = EXCLUDED.actual_minutes,
+        rounded_minutes = EXCLUDED.rounded_minutes,
+        actual_hours = EXCLUDED.actual_hours,
+        rounded_hours = EXCLUDED.rounded_hours,
+        carryover_in_hours = EXCLUDED.carryover_in_hours,
+        adjusted_hours = EXCLUDED.adjusted_hours,
+        billed_hours = EXCLUDED.billed_hours,
+        unbillable_hours = EXCLUDED.unbillable_hours,
+        carryover_out_hours = EXCLUDED.carryover_out_hours,
+        minimum_padding_hours = EXCLUDED.minimum_padding_hours,
+        minimum_applied = EXCLUDED.minimum_applied,
+        maximum_applied = EXCLUDED.maximum_applied,
+        has_billing_limits = EXCLUDED.has_billing_limits,
+        is_active_used = EXCLUDED.is_active_used,
+        base_revenue_cents = EXCLUDED.base_revenue_cents,
+        billed_revenue_cents = EXCLUDED.billed_revenue_cents,
+        invoiced_revenue_cents = EXCLUDED.invoiced_revenue_cents,
+        rate_used = EXCLUDED.rate_used,
+        rate_source = EXCLUDED.rate_source,
+        rounding_used = EXCLUDED.rounding_used,
+        minimum_hours_config = EXCLUDED.minimum_hours_config,
+        maximum_hours_config = EXCLUDED.maximum_hours_config,
+        carryover_enabled_config = EXCLUDED.carryover_enabled_config,
+        resource_count = EXCLUDED.resource_count,
+        task_count = EXCLUDED.task_count,
+        source_entry_count = EXCLUDED.source_entry_count,
+        manual_adjustment_hours = EXCLUDED.manual_adjustment_hours,
+        manual_adjustment_cents = EXCLUDED.manual_adjustment_cents,
+        calculated_at = NOW(),
+        calculation_version = EXCLUDED.calculation_version;
+
+    DECLARE
+        v_old_carryover_out NUMERIC(10,2);
+        v_next_month DATE := (v_month + INTERVAL '1 month')::DATE;
+    BEGIN
+        SELECT COALESCE(SUM(pch.carryover_hours), 0)
+        INTO v_old_carryover_out
+        FROM project_carryover_hours pch
+        WHERE pch.project_id = p_project_id
+            AND pch.source_month = v_month;
+
+        IF v.carryover_out_hours IS DISTINCT FROM v_old_carryover_out THEN
+            IF v.carryover_enabled_config AND v.carryover_out_hours > 0 THEN
+                INSERT INTO project_carryover_hours (
+                    project_id, carryover_month, source_month,
+                    carryover_hours, actual_hours_worked, maximum_applied
+                ) VALUES (
+                    p_project_id, v_next_month, v_month,
+                    v.carryover_out_hours, v.rounded_hours, v.maximum_hours_config
+                )
+                ON CONFLICT (project_id, carryover_month, source_month) DO UPDATE SET
+                    carryover_hours = EXCLUDED.carryover_hours,
+                    actual_hours_worked = EXCLUDED.actual_hours_worked,
+                    maximum_applied = EXCLUDED.maximum_applied,
+                    calculated_at = NOW();
+
+                INSERT INTO recalculation_queue (project_id, queue_month, reason)
+                VALUES (p_project_id, v_next_month, 'cascade')
+                ON CONFLICT (project_id, queue_month) WHERE processed_at IS NULL
+                DO NOTHING;
+
+            ELSIF v_old_carryover_out > 0 THEN
+                DELETE FROM project_carryover_hours
+                WHERE project_id = p_project_id
+                    AND source_month = v_month
+                    AND carryover_month = v_next_month;
+
+                INSERT INTO recalculation_queue (project_id, queue_month, reason)
+                VALUES (p_project_id, v_next_month, 'cascade')
+                ON CONFLICT (project_id, queue_month) WHERE processed_at IS NULL
+                DO NOTHING;
+            END IF;
+        END IF;
+    END;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION recalculate_project_month(UUID, DATE) IS
+    'Recalculate billing summary for a single canonical project in a given month. '
+    'v2.2-adjustments (migration 116 thin shell; migration 152 stores manual '
+    'adjustments). Migration 134: no-op for closed billing months (see '
+    'is_billing_month_closed). Idempotent.';
+
+-- ============================================================================
+-- STEP 6: close_billing_month — explicit locked column list
+-- ============================================================================
+-- Migration 134 body, verbatim, except the locked summary insert: vc.* no
+-- longer lines up with the locked table now that it has columns after
+-- locked_at / locked_by.
+
+CREATE OR REPLACE FUNCTION close_billing_month(p_month DATE)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+    v_count INTEGER := 0;
+    v_row RECORD;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF v_month >= DATE_TRUNC('month', CURRENT_DATE)::DATE THEN
+        RAISE EXCEPTION 'Cannot close % — only past months can be closed.', TO_CHAR(v_month, 'YYYY-MM')
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF is_billing_month_closed(v_month) THEN
+        RAISE EXCEPTION 'Billing month % is already closed.', TO_CHAR(v_month, 'YYYY-MM')
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Bring the month current before freezing it: anything a sync or config
+    -- edit queued must be reflected in what we lock.
+    PERFORM drain_recalculation_queue();
+
+    -- Frozen revenue (canonical rows only — member rows would double count).
+    DELETE FROM billing_month_locked_summary WHERE summary_month = v_month;
+    INSERT INTO billing_month_locked_summary (
+        id, summary_month, project_id, company_id,
+        actual_minutes, rounded_minutes, actual_hours, rounded_hours,
+        carryover_in_hours, adjusted_hours, billed_hours,
+        unbillable_hours, carryover_out_hours, minimum_padding_hours,
+        minimum_applied, maximum_applied, has_billing_limits, is_active_used,
+        base_revenue_cents, billed_revenue_cents, invoiced_revenue_cents,
+        rate_used, rate_source, rounding_used,
+        minimum_hours_config, maximum_hours_config, carryover_enabled_config,
+        resource_count, task_count, source_entry_count,
+        calculated_at, calculation_version, created_at, updated_at,
+        milestone_override_cents, manual_adjustment_hours, manual_adjustment_cents,
+        locked_at, locked_by
+    )
+    SELECT
+        vc.id, vc.summary_month, project_id, company_id,
+        actual_minutes, rounded_minutes, actual_hours, rounded_hours,
+        carryover_in_hours, adjusted_hours, billed_hours,
+        unbillable_hours, carryover_out_hours, minimum_padding_hours,
+        minimum_applied, maximum_applied, has_billing_limits, is_active_used,
+        base_revenue_cents, billed_revenue_cents, invoiced_revenue_cents,
+        rate_used, rate_source, rounding_used,
+        minimum_hours_config, maximum_hours_config, carryover_enabled_config,
+        resource_count, task_count, source_entry_count,
+        calculated_at, calculation_version, created_at, updated_at,
+        milestone_override_cents, manual_adjustment_hours, manual_adjustment_cents,
+        NOW(), auth.uid()
+    FROM v_canonical_project_monthly_summary vc
+    WHERE vc.summary_month = v_month;
+
+    -- Frozen task breakdown, mode-resolved with the same hierarchy the engine
+    -- used (get_all_project_roundings_for_month, migration 093).
+    DELETE FROM billing_month_locked_tasks WHERE summary_month = v_month;
+    INSERT INTO billing_month_locked_tasks (
+        summary_month, project_id, task_name, client_id,
+        rounded_entry_minutes, rounded_task_minutes
+    )
+    SELECT
+        tmt.summary_month, tmt.project_id, tmt.task_name, tmt.client_id,
+        CASE WHEN r.effective_rounding_mode = 'entry' THEN tmt.rounded_entry_minutes ELSE tmt.rounded_task_minutes END,
+        CASE WHEN r.effective_rounding_mode = 'entry' THEN tmt.rounded_entry_minutes ELSE tmt.rounded_task_minutes END
+    FROM task_monthly_totals tmt
+    JOIN billing_month_locked_summary ls
+      ON ls.project_id = tmt.project_id AND ls.summary_month = tmt.summary_month
+    LEFT JOIN get_all_project_roundings_for_month(v_month) r
+      ON r.project_id = tmt.project_id
+    WHERE tmt.summary_month = v_month;
+
+    -- Project-grain status rows with the 028 snapshot columns populated.
+    FOR v_row IN
+        SELECT ls.project_id, ls.actual_hours, ls.billed_hours, ls.carryover_out_hours, ls.billed_revenue_cents
+        FROM billing_month_locked_summary ls
+        WHERE ls.summary_month = v_month
+    LOOP
+        INSERT INTO billing_month_status (
+            project_id, billing_month, status,
+            total_hours_worked, total_billed_hours, carryover_generated,
+            closed_at, closed_by
+        ) VALUES (
+            v_row.project_id, v_month, 'closed',
+            v_row.actual_hours, v_row.billed_hours, v_row.carryover_out_hours,
+            NOW(), auth.uid()
+        )
+        ON CONFLICT (project_id, billing_month) DO UPDATE SET
+            status = 'closed',
+            total_hours_worked = EXCLUDED.total_hours_worked,
+            total_billed_hours = EXCLUDED.total_billed_hours,
+            carryover_generated = EXCLUDED.carryover_generated,
+            closed_at = EXCLUDED.closed_at,
+            closed_by = EXCLUDED.closed_by;
+
+        INSERT INTO billing_audit_log (
+            table_name, record_id, action, new_data,
+            billing_month, project_id, hours_impact, revenue_impact,
+            changed_by, adjustment_reason
+        )
+        SELECT
+            'billing_month_status', bms.id, 'UPDATE', to_jsonb(bms),
+            v_month, v_row.project_id, v_row.billed_hours,
+            ROUND(v_row.billed_revenue_cents / 100.0, 2),
+            auth.uid(), 'month_close'
+        FROM billing_month_status bms
+        WHERE bms.project_id = v_row.project_id AND bms.billing_month = v_month;
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    IF v_count = 0 THEN
+        RAISE EXCEPTION 'Billing month % has no revenue rows to close.', TO_CHAR(v_month, 'YYYY-MM')
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    RETURN v_count;
+END;
+$$;
+
+COMMENT ON FUNCTION close_billing_month(DATE) IS
+    'Admin: drain pending recalculation, freeze the canonical project-month revenue and '
+    'task breakdown into billing_month_locked_*, and mark every project row closed. '
+    'Returns the number of projects locked.';
+
+REVOKE ALL ON FUNCTION close_billing_month(DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION close_billing_month(DATE) FROM anon;
+GRANT EXECUTE ON FUNCTION close_billing_month(DATE) TO authenticated;
+
+-- ============================================================================
+-- STEP 7: Realization — adjustment totals
+-- ============================================================================
+-- Migration 142 body plus Σ manual_adjustment_hours / _cents. billed_hours and
+-- billed_revenue_cents already include adjustments, so write-downs lower
+-- realization and the effective rate.
+
+DROP FUNCTION IF EXISTS get_investor_realization_by_month(date, date);
+
+CREATE FUNCTION get_investor_realization_by_month(
+  p_start date DEFAULT NULL,
+  p_end   date DEFAULT NULL
+)
+RETURNS TABLE (
+  summary_month             date,
+  realization_pct           numeric,
+  effective_rate_cents      bigint,
+  total_actual_hours        numeric,
+  total_billed_hours        numeric,
+  total_minimum_padding_hours numeric,
+  total_unbillable_hours    numeric,
+  total_carryover_out_hours numeric,
+  total_billed_revenue_cents bigint,
+  total_manual_adjustment_hours numeric,
+  total_manual_adjustment_cents bigint
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT assert_company_wide_access();
+
+  WITH bounds AS (
+    SELECT
+      DATE_TRUNC('month', COALESCE(p_start, '1900-01-01'::date))::date AS lo,
+      DATE_TRUNC('month', COALESCE(p_end,   CURRENT_DATE))::date       AS hi,
+      DATE_TRUNC('month', CURRENT_DATE)::date                          AS cur
+  ),
+  agg AS (
+    SELECT
+      cpms.summary_month,
+      SUM(cpms.actual_hours)            AS total_actual_hours,
+      SUM(cpms.billed_hours)            AS total_billed_hours,
+      SUM(cpms.minimum_padding_hours)   AS total_minimum_padding_hours,
+      SUM(cpms.unbillable_hours)        AS total_unbillable_hours,
+      SUM(cpms.carryover_out_hours)     AS total_carryover_out_hours,
+      SUM(cpms.billed_revenue_cents)    AS total_billed_revenue_cents,
+      SUM(cpms.manual_adjustment_hours) AS total_manual_adjustment_hours,
+      SUM(cpms.manual_adjustment_cents) AS total_manual_adjustment_cents
+    FROM v_canonical_project_monthly_summary cpms
+    CROSS JOIN bounds b
+    WHERE cpms.summary_month BETWEEN b.lo AND b.hi
+      AND cpms.summary_month < b.cur
+      AND cpms.milestone_override_cents IS NULL  -- exclude milestone-override projects
+    GROUP BY cpms.summary_month
+  )
+  SELECT
+    a.summary_month,
+    CASE WHEN a.total_actual_hours > 0
+      THEN ROUND(a.total_billed_hours * 100.0 / a.total_actual_hours, 2)
+      ELSE NULL
+    END AS realization_pct,
+    CASE WHEN a.total_actual_hours > 0
+      THEN ROUND(a.total_billed_revenue_cents / a.total_actual_hours)::bigint
+      ELSE NULL
+    END AS effective_rate_cents,
+    ROUND(a.total_actual_hours, 2)          AS total_actual_hours,
+    ROUND(a.total_billed_hours, 2)          AS total_billed_hours,
+    ROUND(a.total_minimum_padding_hours, 2) AS total_minimum_padding_hours,
+    ROUND(a.total_unbillable_hours, 2)      AS total_unbillable_hours,
+    ROUND(a.total_carryover_out_hours, 2)   AS total_carryover_out_hours,
+    a.total_billed_revenue_cents,
+    ROUND(a.total_manual_adjustment_hours, 2) AS total_manual_adjustment_hours,
+    a.total_manual_adjustment_cents::bigint
+  FROM agg a
+  ORDER BY a.summary_month;
+$$;
+
+COMMENT ON FUNCTION get_investor_realization_by_month(date, date) IS
+  'Realization & effective rate per completed month over '
+  'v_canonical_project_monthly_summary EXCLUDING milestone-override projects. '
+  'realization_pct = Σ billed_hours / Σ actual_hours; effective_rate_cents = '
+  'Σ billed_revenue_cents / Σ ACTUAL hours. Returns the hours decomposition '
+  '(padding/unbillable/carryover/actual/billed) and the net manual adjustments '
+  '(migration 152) so the UI can explain realization. Excludes the in-progress '
+  'current month.';
+
+GRANT EXECUTE ON FUNCTION get_investor_realization_by_month(date, date) TO authenticated, service_role;
+REVOKE EXECUTE ON FUNCTION get_investor_realization_by_month(date, date) FROM PUBLIC;
+
+-- ============================================================================
+-- STEP 8: get_billing_adjustments — a month's adjustments with project/author
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_billing_adjustments(p_month DATE)
+RETURNS TABLE (
+    id                  UUID,
+    project_id          UUID,
+    external_project_id TEXT,
+    project_name        TEXT,
+    company_name        TEXT,
+    adjustment_month    DATE,
+    adjustment_type     TEXT,
+    hours               NUMERIC,
+    amount_cents        BIGINT,
+    reason              TEXT,
+    created_by_email    TEXT,
+    created_at          TIMESTAMPTZ,
+    can_edit            BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+    SELECT
+        ba.id,
+        ba.project_id,
+        p.project_id,
+        p.project_name,
+        COALESCE(co.display_name, co.client_name),
+        ba.adjustment_month,
+        ba.adjustment_type,
+        ba.hours,
+        ba.amount_cents,
+        ba.reason,
+        u.email::TEXT,
+        ba.created_at,
+        can_adjust_project_billing(ba.project_id)
+    FROM billing_adjustments ba
+    JOIN projects p ON p.id = ba.project_id
+    LEFT JOIN companies co ON co.id = p.company_id
+    LEFT JOIN auth.users u ON u.id = ba.created_by
+    WHERE ba.adjustment_month = DATE_TRUNC('month', p_month)::DATE
+      AND (has_company_wide_access() OR ba.project_id IN (SELECT scoped_project_ids()))
+    ORDER BY COALESCE(co.display_name, co.client_name), p.project_name, ba.created_at;
+$$;
+
+COMMENT ON FUNCTION get_billing_adjustments(DATE) IS
+    'Billing adjustments of a month with project, company and author email. '
+    'Scoped to the caller''s projects for project managers.';
+
+REVOKE ALL ON FUNCTION get_billing_adjustments(DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_billing_adjustments(DATE) FROM anon;
+GRANT EXECUTE ON FUNCTION get_billing_adjustments(DATE) TO authenticated, service_role;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'v_canonical_project_monthly_summary'
+          AND column_name = 'manual_adjustment_cents'
+    ) THEN
+        RAISE EXCEPTION 'v_canonical_project_monthly_summary.manual_adjustment_cents missing';
+    END IF;
+
+    RAISE NOTICE 'Migration 152 Complete:';
+    RAISE NOTICE '  - billing_adjustments (hours / amount, reason, author; audited, closed months rejected)';
+    RAISE NOTICE '  - project_monthly_summary / billing_month_locked_summary: manual_adjustment_hours / _cents';
+    RAISE NOTICE '  - resolve_project_month_revenue / recalculate_project_month (v2.2-adjustments)';
+    RAISE NOTICE '  - close_billing_month explicit column list';
+    RAISE NOTICE '  - get_investor_realization_by_month adjustment totals; get_billing_adjustments(month)';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- Restore resolve_project_month_revenue (migration 116 PART 1),
+-- recalculate_project_month and close_billing_month (migration 134 STEP 5 / 6)
+-- and get_investor_realization_by_month (migration 142, DROP first) verbatim,
+-- then:
+-- BEGIN;
+--   DROP FUNCTION IF EXISTS get_billing_adjustments(DATE);
+--   DROP TABLE IF EXISTS billing_adjustments;
+--   DROP FUNCTION IF EXISTS enqueue_on_billing_adjustment_change();
+--   DROP FUNCTION IF EXISTS can_adjust_project_billing(UUID);
+--   ALTER TYPE project_month_revenue DROP ATTRIBUTE IF EXISTS manual_adjustment_cents;
+--   ALTER TYPE project_month_revenue DROP ATTRIBUTE IF EXISTS manual_adjustment_hours;
+-- COMMIT;
+-- Then enqueue and drain the months that had adjustments. The
+-- manual_adjustment_* summary columns can stay (0 after the recalculation);
+-- dropping them means re-creating v_canonical_project_monthly_summary and the
+-- views built on it.
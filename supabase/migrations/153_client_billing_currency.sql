@@ -0,0 +1,879 @@
+-- ============================================================================
+-- Migration 153: Client billing currency
+-- ============================================================================
+-- Purpose: every rate and *_cents column is implicitly USD, so clients who
+-- want to be invoiced in EUR were invoiced outside the app. Expenses already
+-- convert through a monthly EUR->USD rate store (expense_fx_rates, migration
+-- 133); billing now uses the same store:
+--
+--   1. companies.billing_currency ('USD' | 'EUR', default 'USD'), set on the
+--      canonical company; get_company_billing_currency(company) resolves a
+--      member company through v_company_canonical.
+--   2. get_billing_fx_rate(currency, month) — USD per unit of currency for
+--      the month (1 for USD). Months without a row use the latest earlier
+--      month (the current month before its rate is fetched).
+--   3. project_monthly_rates.currency — the currency the rate was entered in.
+--      set_project_rate_for_month() takes an optional p_currency that
+--      defaults to the company's billing currency.
+--   4. USD reporting layer: get_effective_project_rate(),
+--      get_effective_rates_for_range() and get_all_project_rates_for_month()
+--      return effective_rate in USD (billing_rate_to_usd: rate x the month's
+--      fx, rounded to cents). The resolver, budgets and capacity forecasts read
+--      these, so project_monthly_summary stays in USD unchanged.
+--      get_all_project_rates_for_month() also returns the rate as entered
+--      (native_rate, rate_currency), the company's billing_currency and the
+--      month's billing_fx_rate for the Rates page and the invoice functions.
+--   5. A fetched or corrected EUR/USD rate enqueues recalculation of the
+--      month for projects with non-USD rates.
+--   6. eom_reports / qbo_invoice_log / ar_invoices.currency — the currency
+--      the CSV, invoice PDF and QuickBooks invoice were issued in.
+--      eom_reports.total_revenue_cents stays USD (reporting);
+--      invoice_total_cents, total_amount_cents and the receivable amounts are
+--      in the invoice currency. v_ar_aging converts open balances back to USD
+--      so cross-client totals stay comparable.
+--   7. v_company_table_entities re-created so billing_currency comes through
+--      c.* (the view predates manual_origin too).
+--
+-- Mirrors existing precedent:
+--   - migration 133 (expense_fx_rates; USD = round(amount x eur_usd, 2))
+--   - migration 020 / 100 (rate functions, kept verbatim apart from the
+--     conversion and the new columns)
+--   - migration 034 (DROP + CREATE v_company_table_entities)
+--   - migration 138 / 149 (sync_ar_invoices, AR views, webhook payloads)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- DROP ... IF EXISTS).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: Billing currency per company
+-- ============================================================================
+
+ALTER TABLE companies
+    ADD COLUMN IF NOT EXISTS billing_currency TEXT NOT NULL DEFAULT 'USD';
+
+ALTER TABLE companies DROP CONSTRAINT IF EXISTS chk_companies_billing_currency;
+ALTER TABLE companies
+    ADD CONSTRAINT chk_companies_billing_currency CHECK (billing_currency IN ('USD', 'EUR'));
+
+COMMENT ON COLUMN companies.billing_currency IS
+    'Currency the company is invoiced in (EOM reports, invoice PDFs, QuickBooks). '
+    'Read from the canonical company; see get_company_billing_currency().';
+
+CREATE OR REPLACE FUNCTION get_company_billing_currency(p_company_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT COALESCE(
+        (SELECT cc.billing_currency
+         FROM v_company_canonical vcc
+         JOIN companies cc ON cc.id = vcc.canonical_company_id
+         WHERE vcc.company_id = p_company_id),
+        (SELECT c.billing_currency FROM companies c WHERE c.id = p_company_id),
+        'USD'
+    );
+$$;
+
+COMMENT ON FUNCTION get_company_billing_currency(UUID) IS
+    'Billing currency of the company''s canonical company (USD when unknown).';
+
+REVOKE ALL ON FUNCTION get_company_billing_currency(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_company_billing_currency(UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION get_company_billing_currency(UUID) TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 2: Monthly FX rate for billing
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_billing_fx_rate(p_currency TEXT, p_month DATE)
+RETURNS NUMERIC
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_month_key TEXT := TO_CHAR(DATE_TRUNC('month', p_month), 'YYYY-MM');
+    v_rate NUMERIC;
+BEGIN
+    IF p_currency IS NULL OR p_currency = 'USD' THEN
+        RETURN 1;
+    END IF;
+
+    IF p_currency <> 'EUR' THEN
+        RAISE EXCEPTION 'Unsupported billing currency %', p_currency
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    -- The month's rate, else the latest earlier one (current month before
+    -- the ECB average is fetched), else the earliest on record.
+    SELECT r.eur_usd INTO v_rate
+    FROM expense_fx_rates r
+    WHERE r.month <= v_month_key
+    ORDER BY r.month DESC
+    LIMIT 1;
+
+    IF v_rate IS NULL THEN
+        SELECT r.eur_usd INTO v_rate
+        FROM expense_fx_rates r
+        ORDER BY r.month
+        LIMIT 1;
+    END IF;
+
+    IF v_rate IS NULL THEN
+        RAISE EXCEPTION 'No EUR/USD rate in expense_fx_rates'
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    RETURN v_rate;
+END;
+$$;
+
+COMMENT ON FUNCTION get_billing_fx_rate(TEXT, DATE) IS
+    'USD per one unit of the currency for the month (1 for USD; EUR from '
+    'expense_fx_rates, falling back to the latest earlier month).';
+
+REVOKE ALL ON FUNCTION get_billing_fx_rate(TEXT, DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_billing_fx_rate(TEXT, DATE) FROM anon;
+GRANT EXECUTE ON FUNCTION get_billing_fx_rate(TEXT, DATE) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION billing_rate_to_usd(p_rate NUMERIC, p_currency TEXT, p_month DATE)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    SELECT CASE
+        WHEN p_rate IS NULL THEN NULL
+        WHEN COALESCE(p_currency, 'USD') = 'USD' THEN p_rate
+        ELSE billing_round_currency(p_rate * get_billing_fx_rate(p_currency, p_month))
+    END;
+$$;
+
+COMMENT ON FUNCTION billing_rate_to_usd(NUMERIC, TEXT, DATE) IS
+    'Rate in USD for the month: unchanged for USD, else rate x '
+    'get_billing_fx_rate() rounded to cents.';
+
+GRANT EXECUTE ON FUNCTION billing_rate_to_usd(NUMERIC, TEXT, DATE) TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 3: Rate currency
+-- ============================================================================
+
+ALTER TABLE project_monthly_rates
+    ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+ALTER TABLE project_monthly_rates DROP CONSTRAINT IF EXISTS chk_rate_currency;
+ALTER TABLE project_monthly_rates
+    ADD CONSTRAINT chk_rate_currency CHECK (currency IN ('USD', 'EUR'));
+
+COMMENT ON COLUMN project_monthly_rates.currency IS
+    'Currency the rate was entered in. Billing converts it to USD with the '
+    'month''s get_billing_fx_rate().';
+
+-- The 3-argument version (migration 020) is replaced; named-argument callers
+-- without p_currency keep working through the default.
+DROP FUNCTION IF EXISTS set_project_rate_for_month(UUID, DATE, NUMERIC);
+
+CREATE OR REPLACE FUNCTION set_project_rate_for_month(
+    p_project_id UUID,
+    p_month DATE,
+    p_rate NUMERIC,
+    p_currency TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+    v_currency TEXT := p_currency;
+BEGIN
+    -- Validate rate
+    IF p_rate < 0 THEN
+        RAISE EXCEPTION 'Rate cannot be negative';
+    END IF;
+
+    -- Default: the company's billing currency
+    IF v_currency IS NULL THEN
+        SELECT get_company_billing_currency(p.company_id)
+        INTO v_currency
+        FROM projects p WHERE p.id = p_project_id;
+    END IF;
+    v_currency := COALESCE(v_currency, 'USD');
+
+    IF v_currency NOT IN ('USD', 'EUR') THEN
+        RAISE EXCEPTION 'Unsupported rate currency %', v_currency;
+    END IF;
+
+    -- Upsert: last write wins
+    INSERT INTO project_monthly_rates (project_id, rate_month, rate, currency)
+    VALUES (p_project_id, v_month, p_rate, v_currency)
+    ON CONFLICT (project_id, rate_month) DO UPDATE
+    SET rate = EXCLUDED.rate, currency = EXCLUDED.currency, updated_at = NOW();
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION set_project_rate_for_month(UUID, DATE, NUMERIC, TEXT) IS
+    'Sets or updates rate for a project in a specific month (admin function). '
+    'p_currency defaults to the company''s billing currency.';
+
+GRANT EXECUTE ON FUNCTION set_project_rate_for_month(UUID, DATE, NUMERIC, TEXT) TO authenticated;
+
+-- ============================================================================
+-- STEP 4: USD effective rates
+-- ============================================================================
+-- Migration 020 bodies, verbatim, except the rate is converted to USD.
+
+CREATE OR REPLACE FUNCTION get_effective_project_rate(
+    p_project_id UUID,
+    p_month DATE
+)
+RETURNS TABLE (
+    effective_rate NUMERIC,
+    source TEXT,
+    source_month DATE
+) AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+    v_first_seen_month DATE;
+    v_lookup_month DATE;
+    v_rate NUMERIC;
+    v_rate_month DATE;
+    v_currency TEXT;
+BEGIN
+    -- Get first_seen_month for this project
+    SELECT first_seen_month INTO v_first_seen_month
+    FROM projects WHERE id = p_project_id;
+
+    -- Handle NULL first_seen_month (should not happen after migration)
+    IF v_first_seen_month IS NULL THEN
+        RAISE WARNING 'Project % has NULL first_seen_month', p_project_id;
+        RETURN QUERY SELECT get_default_rate(), 'default'::TEXT, NULL::DATE;
+        RETURN;
+    END IF;
+
+    -- Determine which month to look up (backfill if before first_seen)
+    v_lookup_month := GREATEST(v_month, v_first_seen_month);
+
+    -- Find most recent rate <= lookup month
+    SELECT pmr.rate, pmr.rate_month, pmr.currency
+    INTO v_rate, v_rate_month, v_currency
+    FROM project_monthly_rates pmr
+    WHERE pmr.project_id = p_project_id
+      AND pmr.rate_month <= v_lookup_month
+    ORDER BY pmr.rate_month DESC
+    LIMIT 1;
+
+    -- USD reporting layer (migration 153)
+    v_rate := billing_rate_to_usd(v_rate, v_currency, v_month);
+
+    -- Determine source
+    IF v_rate IS NOT NULL THEN
+        IF v_month < v_first_seen_month THEN
+            RETURN QUERY SELECT v_rate, 'backfill'::TEXT, v_rate_month;
+        ELSIF v_rate_month = v_month THEN
+            RETURN QUERY SELECT v_rate, 'explicit'::TEXT, v_rate_month;
+        ELSE
+            RETURN QUERY SELECT v_rate, 'inherited'::TEXT, v_rate_month;
+        END IF;
+    ELSE
+        -- Data integrity issue - should not happen
+        RAISE WARNING 'No rate found for project % month %', p_project_id, v_month;
+        RETURN QUERY SELECT get_default_rate(), 'default'::TEXT, NULL::DATE;
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION get_effective_project_rate(UUID, DATE) IS
+    'Returns effective rate for a project in a given month with source tracking. '
+    'Migration 153: in USD (rates entered in another currency are converted with '
+    'the month''s get_billing_fx_rate()).';
+
+CREATE OR REPLACE FUNCTION get_effective_rates_for_range(
+    p_start_month DATE,
+    p_end_month DATE
+)
+RETURNS TABLE (
+    project_id UUID,
+    rate_month DATE,
+    effective_rate NUMERIC,
+    source TEXT,
+    source_month DATE
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH
+    -- Generate all months in range
+    months AS (
+        SELECT generate_series(
+            DATE_TRUNC('month', p_start_month)::DATE,
+            DATE_TRUNC('month', p_end_month)::DATE,
+            '1 month'::INTERVAL
+        )::DATE AS month
+    ),
+    -- Cross join projects with months
+    project_months AS (
+        SELECT p.id AS proj_id, p.first_seen_month, m.month
+        FROM projects p
+        CROSS JOIN months m
+        WHERE p.first_seen_month IS NOT NULL
+    ),
+    -- Find effective rate for each project-month
+    rates_lookup AS (
+        SELECT DISTINCT ON (pm.proj_id, pm.month)
+            pm.proj_id,
+            pm.month,
+            pm.first_seen_month,
+            pmr.rate AS eff_rate,
+            pmr.currency AS eff_currency,
+            pmr.rate_month AS src_month
+        FROM project_months pm
+        LEFT JOIN project_monthly_rates pmr
+            ON pmr.project_id = pm.proj_id
+           AND pmr.rate_month <= GREATEST(pm.month, pm.first_seen_month)
+        ORDER BY pm.proj_id, pm.month, pmr.rate_month DESC
+    )
+    SELECT
+        rl.proj_id AS project_id,
+        rl.month AS rate_month,
+        COALESCE(billing_rate_to_usd(rl.eff_rate, rl.eff_currency, rl.month), get_default_rate()) AS effective_rate,
+        CASE
+            WHEN rl.eff_rate IS NULL THEN 'default'
+            WHEN rl.month < rl.first_seen_month THEN 'backfill'
+            WHEN rl.src_month = rl.month THEN 'explicit'
+            ELSE 'inherited'
+        END AS source,
+        rl.src_month AS source_month
+    FROM rates_lookup rl;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+COMMENT ON FUNCTION get_effective_rates_for_range(DATE, DATE) IS
+    'Returns effective rates for all projects across a date range (for reports). '
+    'Migration 153: in USD.';
+
+-- ============================================================================
+-- STEP 5: get_all_project_rates_for_month — USD rate plus currency columns
+-- ============================================================================
+-- Migration 100 body, verbatim, except effective_rate is converted to USD and
+-- four columns are appended. DROP first: the return type changes.
+
+DROP FUNCTION IF EXISTS get_all_project_rates_for_month(DATE);
+
+CREATE FUNCTION get_all_project_rates_for_month(p_month DATE)
+RETURNS TABLE (
+    project_id UUID,
+    external_project_id TEXT,
+    project_name TEXT,
+    client_id TEXT,
+    client_name TEXT,
+    canonical_client_id TEXT,
+    canonical_client_name TEXT,
+    first_seen_month DATE,
+    effective_rate NUMERIC,
+    source TEXT,
+    source_month DATE,
+    existed_in_month BOOLEAN,
+    effective_rounding INTEGER,
+    rounding_source TEXT,
+    rounding_source_month DATE,
+    effective_rounding_mode TEXT,
+    minimum_hours NUMERIC,
+    maximum_hours NUMERIC,
+    carryover_enabled BOOLEAN,
+    carryover_max_hours NUMERIC,
+    carryover_expiry_months INTEGER,
+    limits_source TEXT,
+    limits_source_month DATE,
+    is_active BOOLEAN,
+    active_source TEXT,
+    active_source_month DATE,
+    carryover_hours_in NUMERIC,
+    native_rate NUMERIC,
+    rate_currency TEXT,
+    billing_currency TEXT,
+    billing_fx_rate NUMERIC
+) AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+BEGIN
+    RETURN QUERY
+    WITH rate_lookup AS (
+        SELECT DISTINCT ON (p.id)
+            p.id AS proj_id,
+            p.project_id AS ext_id,
+            p.project_name,
+            p.client_id,
+            p.client_name,
+            COALESCE(canonical_c.client_id, c.client_id, p.client_id) AS canonical_client_id,
+            COALESCE(canonical_c.display_name, canonical_c.client_name, c.display_name, c.client_name, p.client_name) AS canonical_client_name,
+            COALESCE(canonical_c.billing_currency, c.billing_currency, 'USD') AS billing_currency,
+            p.first_seen_month,
+            pmr.rate,
+            pmr.currency,
+            pmr.rate_month
+        FROM projects p
+        LEFT JOIN v_project_canonical vpc ON vpc.project_id = p.id
+        LEFT JOIN companies c ON c.client_id = p.client_id
+        LEFT JOIN v_company_canonical vcc ON vcc.company_id = c.id
+        LEFT JOIN companies canonical_c ON canonical_c.id = vcc.canonical_company_id
+        LEFT JOIN project_monthly_rates pmr
+            ON pmr.project_id = p.id
+           AND pmr.rate_month <= GREATEST(v_month, COALESCE(p.first_seen_month, v_month))
+        WHERE p.first_seen_month IS NOT NULL
+          AND (vpc.role IS NULL OR vpc.role != 'member')
+        ORDER BY p.id, pmr.rate_month DESC
+    ),
+    rounding_lookup AS (
+        SELECT DISTINCT ON (p.id)
+            p.id AS proj_id,
+            p.first_seen_month,
+            pround.rounding_increment,
+            pround.rounding_month,
+            pround.rounding_mode
+        FROM projects p
+        LEFT JOIN project_monthly_rounding pround
+            ON pround.project_id = p.id
+           AND pround.rounding_month <= GREATEST(v_month, COALESCE(p.first_seen_month, v_month))
+        WHERE p.first_seen_month IS NOT NULL
+        ORDER BY p.id, pround.rounding_month DESC
+    ),
+    limits_lookup AS (
+        SELECT DISTINCT ON (p.id)
+            p.id AS proj_id,
+            p.first_seen_month,
+            bl.minimum_hours,
+            bl.maximum_hours,
+            bl.carryover_enabled,
+            bl.carryover_max_hours,
+            bl.carryover_expiry_months,
+            bl.limits_month
+        FROM projects p
+        LEFT JOIN project_monthly_billing_limits bl
+            ON bl.project_id = p.id
+           AND bl.limits_month <= GREATEST(v_month, COALESCE(p.first_seen_month, v_month))
+        WHERE p.first_seen_month IS NOT NULL
+        ORDER BY p.id, bl.limits_month DESC
+    ),
+    active_lookup AS (
+        SELECT DISTINCT ON (p.id)
+            p.id AS proj_id,
+            p.first_seen_month,
+            ast.is_active,
+            ast.status_month
+        FROM projects p
+        LEFT JOIN project_monthly_active_status ast
+            ON ast.project_id = p.id
+           AND ast.status_month <= GREATEST(v_month, COALESCE(p.first_seen_month, v_month))
+        WHERE p.first_seen_month IS NOT NULL
+        ORDER BY p.id, ast.status_month DESC
+    ),
+    carryover_lookup AS (
+        SELECT
+            pch.project_id AS proj_id,
+            SUM(pch.carryover_hours) AS total_carryover
+        FROM project_carryover_hours pch
+        WHERE pch.carryover_month = v_month
+        GROUP BY pch.project_id
+    )
+    SELECT
+        rl.proj_id AS project_id,
+        rl.ext_id AS external_project_id,
+        rl.project_name,
+        rl.client_id,
+        rl.client_name,
+        rl.canonical_client_id,
+        rl.canonical_client_name,
+        rl.first_seen_month,
+        -- USD reporting layer (migration 153)
+        COALESCE(billing_rate_to_usd(rl.rate, rl.currency, v_month), get_default_rate()) AS effective_rate,
+        -- Fix 2: Restore full 4-state CASE for rate source
+        CASE
+            WHEN rl.rate IS NULL THEN 'default'::TEXT
+            WHEN v_month < rl.first_seen_month THEN 'backfill'::TEXT
+            WHEN rl.rate_month = v_month THEN 'explicit'::TEXT
+            ELSE 'inherited'::TEXT
+        END AS source,
+        rl.rate_month AS source_month,
+        (v_month >= rl.first_seen_month) AS existed_in_month,
+        -- Rounding with full 4-state CASE
+        COALESCE(rnd.rounding_increment, 15) AS effective_rounding,
+        CASE
+            WHEN rnd.rounding_increment IS NULL THEN 'default'::TEXT
+            WHEN v_month < rnd.first_seen_month THEN 'backfill'::TEXT
+            WHEN rnd.rounding_month = v_month THEN 'explicit'::TEXT
+            ELSE 'inherited'::TEXT
+        END AS rounding_source,
+        rnd.rounding_month AS rounding_source_month,
+        COALESCE(rnd.rounding_mode, 'task') AS effective_rounding_mode,
+        -- Billing limits with full 4-state CASE
+        ll.minimum_hours,
+        ll.maximum_hours,
+        COALESCE(ll.carryover_enabled, false) AS carryover_enabled,
+        ll.carryover_max_hours,
+        ll.carryover_expiry_months,
+        CASE
+            WHEN ll.minimum_hours IS NULL AND ll.maximum_hours IS NULL THEN 'default'::TEXT
+            WHEN v_month < ll.first_seen_month THEN 'backfill'::TEXT
+            WHEN ll.limits_month = v_month THEN 'explicit'::TEXT
+            ELSE 'inherited'::TEXT
+        END AS limits_source,
+        ll.limits_month AS limits_source_month,
+        -- Active status with full 4-state CASE
+        COALESCE(al.is_active, true) AS is_active,
+        CASE
+            WHEN al.is_active IS NULL THEN 'default'::TEXT
+            WHEN v_month < al.first_seen_month THEN 'backfill'::TEXT
+            WHEN al.status_month = v_month THEN 'explicit'::TEXT
+            ELSE 'inherited'::TEXT
+        END AS active_source,
+        al.status_month AS active_source_month,
+        -- Carryover
+        COALESCE(cl.total_carryover, 0) AS carryover_hours_in,
+        -- Currency (migration 153): the rate as entered and the invoice currency
+        COALESCE(rl.rate, get_default_rate()) AS native_rate,
+        COALESCE(rl.currency, 'USD') AS rate_currency,
+        rl.billing_currency,
+        get_billing_fx_rate(rl.billing_currency, v_month) AS billing_fx_rate
+    FROM rate_lookup rl
+    LEFT JOIN rounding_lookup rnd ON rnd.proj_id = rl.proj_id
+    LEFT JOIN limits_lookup ll ON ll.proj_id = rl.proj_id
+    LEFT JOIN active_lookup al ON al.proj_id = rl.proj_id
+    LEFT JOIN carryover_lookup cl ON cl.proj_id = rl.proj_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+COMMENT ON FUNCTION get_all_project_rates_for_month(DATE) IS
+    'Returns all projects with effective rates, rounding (with mode), limits, and active status for a given month. '
+    'v5 (migration 153): effective_rate in USD; native_rate / rate_currency as entered, the canonical '
+    'company''s billing_currency and the month''s billing_fx_rate (USD per unit).';
+
+GRANT EXECUTE ON FUNCTION get_all_project_rates_for_month(DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_all_project_rates_for_month(DATE) TO service_role;
+
+-- ============================================================================
+-- STEP 6: Recalculate when the EUR/USD rate of a month changes
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION enqueue_on_billing_fx_rate_change()
+RETURNS TRIGGER
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' AND NEW.eur_usd IS NOT DISTINCT FROM OLD.eur_usd THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO recalculation_queue (project_id, queue_month, reason)
+    SELECT DISTINCT pmr.project_id, TO_DATE(NEW.month || '-01', 'YYYY-MM-DD'), 'fx_rate_change'
+    FROM project_monthly_rates pmr
+    WHERE pmr.currency <> 'USD'
+    ON CONFLICT (project_id, queue_month) WHERE processed_at IS NULL
+    DO NOTHING;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION enqueue_on_billing_fx_rate_change() IS
+    'Enqueue recalculation of the month for projects with non-USD rates when its '
+    'EUR/USD rate is inserted or changed.';
+
+DROP TRIGGER IF EXISTS trg_enqueue_on_billing_fx_rate_change ON expense_fx_rates;
+CREATE TRIGGER trg_enqueue_on_billing_fx_rate_change
+    AFTER INSERT OR UPDATE ON expense_fx_rates
+    FOR EACH ROW EXECUTE FUNCTION enqueue_on_billing_fx_rate_change();
+
+-- ============================================================================
+-- STEP 7: Issued currency on reports, invoices and receivables
+-- ============================================================================
+
+ALTER TABLE eom_reports ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE qbo_invoice_log ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+ALTER TABLE ar_invoices ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD';
+
+COMMENT ON COLUMN eom_reports.currency IS
+    'Currency of the CSV and invoice PDF (the company''s billing currency at '
+    'generation). total_revenue_cents stays USD; invoice_total_cents is in this currency.';
+COMMENT ON COLUMN qbo_invoice_log.currency IS
+    'Currency of the QuickBooks invoice; total_amount_cents is in this currency.';
+COMMENT ON COLUMN ar_invoices.currency IS
+    'Currency of the invoice; amount/paid/balance cents are in this currency.';
+
+-- Migration 138 body, verbatim, plus the currency column.
+CREATE OR REPLACE FUNCTION sync_ar_invoices()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_qbo INTEGER;
+    v_pdf INTEGER;
+BEGIN
+    -- 1. Sent QuickBooks invoices. Until the first QBO sync the due date
+    --    assumes net 30 from the send date; the sync replaces it with DueDate.
+    --    An unpaid PDF receivable for the same month is taken over.
+    INSERT INTO ar_invoices AS ai (
+        company_id, report_year, report_month, source, qbo_invoice_log_id,
+        eom_report_id, qbo_invoice_id, invoice_number, issued_on, due_on, amount_cents,
+        currency
+    )
+    SELECT q.company_id, q.report_year, q.report_month, 'qbo', q.id,
+           q.eom_report_id, q.qbo_invoice_id, q.invoice_number,
+           (q.sent_at AT TIME ZONE 'Europe/Sofia')::DATE,
+           (q.sent_at AT TIME ZONE 'Europe/Sofia')::DATE + 30,
+           q.total_amount_cents,
+           q.currency
+    FROM qbo_invoice_log q
+    WHERE q.status = 'sent'
+      AND q.qbo_invoice_id IS NOT NULL
+      AND q.sent_at IS NOT NULL
+    ON CONFLICT (company_id, report_year, report_month) DO UPDATE
+    SET source = 'qbo',
+        qbo_invoice_log_id = EXCLUDED.qbo_invoice_log_id,
+        eom_report_id = COALESCE(EXCLUDED.eom_report_id, ai.eom_report_id),
+        qbo_invoice_id = EXCLUDED.qbo_invoice_id,
+        invoice_number = EXCLUDED.invoice_number,
+        amount_cents = EXCLUDED.amount_cents,
+        currency = EXCLUDED.currency,
+        issued_on = CASE WHEN ai.source = 'qbo' THEN ai.issued_on ELSE EXCLUDED.issued_on END,
+        due_on = CASE WHEN ai.source = 'qbo' THEN ai.due_on ELSE EXCLUDED.due_on END
+    WHERE (ai.source = 'qbo' OR ai.paid_cents = 0)
+      AND (ai.source, ai.qbo_invoice_id, ai.invoice_number, ai.amount_cents, ai.currency)
+          IS DISTINCT FROM ('qbo', EXCLUDED.qbo_invoice_id, EXCLUDED.invoice_number, EXCLUDED.amount_cents, EXCLUDED.currency);
+    GET DIAGNOSTICS v_qbo = ROW_COUNT;
+
+    -- 2. EOM invoice PDFs for companies that are not billed through QuickBooks
+    INSERT INTO ar_invoices AS ai (
+        company_id, report_year, report_month, source, eom_report_id,
+        invoice_number, issued_on, due_on, amount_cents, currency
+    )
+    SELECT er.company_id, er.report_year, er.report_month, 'eom_pdf', er.id,
+           er.invoice_number, er.invoice_issued_on, er.invoice_due_on, er.invoice_total_cents,
+           er.currency
+    FROM eom_reports er
+    WHERE er.invoice_number IS NOT NULL
+      AND er.invoice_storage_path IS NOT NULL
+      AND er.invoice_total_cents > 0
+      AND NOT EXISTS (SELECT 1 FROM qbo_customer_mappings m WHERE m.company_id = er.company_id)
+    ON CONFLICT (company_id, report_year, report_month) DO UPDATE
+    SET eom_report_id = EXCLUDED.eom_report_id,
+        invoice_number = EXCLUDED.invoice_number,
+        issued_on = EXCLUDED.issued_on,
+        due_on = EXCLUDED.due_on,
+        amount_cents = EXCLUDED.amount_cents,
+        currency = EXCLUDED.currency
+    WHERE ai.source = 'eom_pdf'
+      AND (ai.invoice_number, ai.issued_on, ai.due_on, ai.amount_cents, ai.currency)
+          IS DISTINCT FROM (EXCLUDED.invoice_number, EXCLUDED.issued_on, EXCLUDED.due_on, EXCLUDED.amount_cents, EXCLUDED.currency);
+    GET DIAGNOSTICS v_pdf = ROW_COUNT;
+
+    RETURN v_qbo + v_pdf;
+END;
+$$;
+
+-- Migration 138 views with the currency appended; aging sums USD so totals
+-- across clients stay comparable. security_invoker restated (migration 142):
+-- CREATE OR REPLACE resets view options.
+CREATE OR REPLACE VIEW v_ar_invoice_status WITH (security_invoker = on) AS
+WITH today AS (
+    SELECT (NOW() AT TIME ZONE 'Europe/Sofia')::DATE AS as_of
+)
+SELECT ai.id,
+    ai.company_id,
+    vcc.canonical_company_id,
+    COALESCE(cc.display_name, cc.client_name) AS company_name,
+    ai.report_year,
+    ai.report_month,
+    ai.source,
+    ai.invoice_number,
+    ai.qbo_invoice_id,
+    ai.issued_on,
+    ai.due_on,
+    ai.amount_cents,
+    ai.paid_cents,
+    ai.balance_cents,
+    ai.status,
+    ai.last_payment_on,
+    ai.qbo_synced_at,
+    ai.sync_error,
+    ai.eom_report_id,
+    CASE WHEN ai.balance_cents > 0 THEN GREATEST(t.as_of - ai.due_on, 0) ELSE 0 END AS days_past_due,
+    CASE
+        WHEN ai.balance_cents <= 0 THEN 'paid'
+        WHEN t.as_of - ai.due_on <= 0 THEN 'current'
+        WHEN t.as_of - ai.due_on <= 30 THEN 'days_1_30'
+        WHEN t.as_of - ai.due_on <= 60 THEN 'days_31_60'
+        WHEN t.as_of - ai.due_on <= 90 THEN 'days_61_90'
+        ELSE 'days_90_plus'
+    END AS aging_bucket,
+    ai.currency,
+    ROUND(ai.balance_cents * get_billing_fx_rate(ai.currency, MAKE_DATE(ai.report_year, ai.report_month, 1)))::BIGINT
+        AS balance_usd_cents
+FROM ar_invoices ai
+CROSS JOIN today t
+JOIN v_company_canonical vcc ON vcc.company_id = ai.company_id
+JOIN companies cc ON cc.id = vcc.canonical_company_id;
+
+COMMENT ON VIEW v_ar_invoice_status IS
+    'Receivables with canonical company, days past due and aging bucket as of today (Europe/Sofia). '
+    'Amounts are in the invoice currency; balance_usd_cents converts the balance at the invoiced '
+    'month''s rate.';
+
+CREATE OR REPLACE VIEW v_ar_aging WITH (security_invoker = on) AS
+SELECT s.canonical_company_id,
+    MIN(s.company_name) AS company_name,
+    SUM(s.balance_usd_cents)::BIGINT AS open_cents,
+    SUM(s.balance_usd_cents) FILTER (WHERE s.aging_bucket = 'current')::BIGINT AS current_cents,
+    SUM(s.balance_usd_cents) FILTER (WHERE s.aging_bucket = 'days_1_30')::BIGINT AS days_1_30_cents,
+    SUM(s.balance_usd_cents) FILTER (WHERE s.aging_bucket = 'days_31_60')::BIGINT AS days_31_60_cents,
+    SUM(s.balance_usd_cents) FILTER (WHERE s.aging_bucket = 'days_61_90')::BIGINT AS days_61_90_cents,
+    SUM(s.balance_usd_cents) FILTER (WHERE s.aging_bucket = 'days_90_plus')::BIGINT AS days_90_plus_cents,
+    SUM(s.balance_usd_cents) FILTER (WHERE s.days_past_due > 0)::BIGINT AS overdue_cents,
+    COUNT(*)::INTEGER AS open_invoice_count,
+    COUNT(*) FILTER (WHERE s.days_past_due > 0)::INTEGER AS overdue_invoice_count,
+    MAX(s.days_past_due)::INTEGER AS max_days_past_due,
+    MIN(s.due_on) AS oldest_due_on
+FROM v_ar_invoice_status s
+WHERE s.balance_cents > 0
+GROUP BY s.canonical_company_id;
+
+COMMENT ON VIEW v_ar_aging IS
+    'Open receivables per canonical company in aging buckets (current, 1-30, '
+    '31-60, 61-90, 90+ days past due), in USD. Bucket columns are NULL when empty.';
+
+-- Migration 149 body plus the currency.
+CREATE OR REPLACE FUNCTION webhook_on_qbo_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.status <> 'sent' THEN
+        RETURN NULL;
+    END IF;
+    IF TG_OP = 'UPDATE'
+       AND OLD.status = 'sent'
+       AND OLD.qbo_invoice_id IS NOT DISTINCT FROM NEW.qbo_invoice_id THEN
+        RETURN NULL;
+    END IF;
+
+    PERFORM enqueue_webhook_event('qbo_invoice.created', jsonb_build_object(
+        'qbo_invoice_log_id', NEW.id,
+        'qbo_invoice_id',     NEW.qbo_invoice_id,
+        'invoice_number',     NEW.invoice_number,
+        'company_id',         NEW.company_id,
+        'eom_report_id',      NEW.eom_report_id,
+        'report_year',        NEW.report_year,
+        'report_month',       NEW.report_month,
+        'total_amount_cents', NEW.total_amount_cents,
+        'currency',           NEW.currency,
+        'line_item_count',    NEW.line_item_count,
+        'sent_at',            NEW.sent_at
+    ));
+    RETURN NULL;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 8: v_company_table_entities — pick up billing_currency
+-- ============================================================================
+-- Migration 034 body, verbatim. c.* is expanded when the view is created, so
+-- it is re-created to include the new column (and manual_origin, migration 102).
+
+DROP VIEW IF EXISTS v_company_table_entities;
+
+CREATE VIEW v_company_table_entities AS
+SELECT
+    c.*,
+    vcc.role AS grouping_role,
+    vcc.group_id,
+    COALESCE(
+        (
+            SELECT COUNT(*)::INTEGER
+            FROM company_group_members m
+            WHERE m.group_id = vcc.group_id
+        ),
+        0
+    ) AS member_count,
+    -- Aggregated project count for this company AND all its grouped members
+    (
+        SELECT COUNT(*)::INTEGER
+        FROM projects p
+        JOIN companies comp ON comp.id = p.company_id
+        JOIN v_company_canonical comp_canonical ON comp_canonical.company_id = comp.id
+        WHERE comp_canonical.canonical_company_id = c.id
+    ) AS project_count
+FROM companies c
+LEFT JOIN v_company_canonical vcc ON vcc.company_id = c.id
+WHERE vcc.role IS NULL OR vcc.role != 'member';
+
+COMMENT ON VIEW v_company_table_entities IS 'Returns companies visible in the Companies table (primaries and unassociated, excludes members). project_count aggregates across grouped companies.';
+
+GRANT SELECT ON v_company_table_entities TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF get_billing_fx_rate('USD', CURRENT_DATE) <> 1 THEN
+        RAISE EXCEPTION 'get_billing_fx_rate(USD) must be 1';
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'v_company_table_entities'
+          AND column_name = 'billing_currency'
+    ) THEN
+        RAISE EXCEPTION 'v_company_table_entities.billing_currency missing';
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM project_monthly_rates WHERE currency <> 'USD') THEN
+        RAISE WARNING 'Non-USD rates already present — recalculate their months';
+    END IF;
+
+    RAISE NOTICE 'Migration 153 Complete:';
+    RAISE NOTICE '  - companies.billing_currency; get_company_billing_currency(company)';
+    RAISE NOTICE '  - get_billing_fx_rate(currency, month) over expense_fx_rates; billing_rate_to_usd()';
+    RAISE NOTICE '  - project_monthly_rates.currency; set_project_rate_for_month(..., p_currency)';
+    RAISE NOTICE '  - effective rates in USD; get_all_project_rates_for_month currency columns';
+    RAISE NOTICE '  - eom_reports / qbo_invoice_log / ar_invoices.currency; v_ar_aging in USD';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- Only safe while every rate is USD (otherwise the restored functions read EUR
+-- rates as USD). Restore get_effective_project_rate /
+-- get_effective_rates_for_range / set_project_rate_for_month (migration 020),
+-- get_all_project_rates_for_month (migration 100, DROP first),
+-- sync_ar_invoices / v_ar_invoice_status / v_ar_aging (migration 138, with
+-- security_invoker per 142) and webhook_on_qbo_invoice (migration 149)
+-- verbatim, then:
+-- BEGIN;
+--   DROP FUNCTION IF EXISTS set_project_rate_for_month(UUID, DATE, NUMERIC, TEXT);
+--   DROP TRIGGER IF EXISTS trg_enqueue_on_billing_fx_rate_change ON expense_fx_rates;
+--   DROP FUNCTION IF EXISTS enqueue_on_billing_fx_rate_change();
+--   DROP FUNCTION IF EXISTS billing_rate_to_usd(NUMERIC, TEXT, DATE);
+--   DROP FUNCTION IF EXISTS get_billing_fx_rate(TEXT, DATE);
+--   DROP FUNCTION IF EXISTS get_company_billing_currency(UUID);
+--   ALTER TABLE project_monthly_rates DROP COLUMN IF EXISTS currency;
+--   ALTER TABLE eom_reports DROP COLUMN IF EXISTS currency;
+--   ALTER TABLE qbo_invoice_log DROP COLUMN IF EXISTS currency;
+--   ALTER TABLE ar_invoices DROP COLUMN IF EXISTS currency;
+-- COMMIT;
+-- companies.billing_currency can stay; dropping it means re-creating
+-- v_company_table_entities (migration 034) first.
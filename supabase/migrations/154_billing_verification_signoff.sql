@@ -0,0 +1,578 @@
+-- ============================================================================
+-- Migration 154: Billing verification sign-off
+-- ============================================================================
+-- Purpose: migration 048 stores verified per-project billing snapshots
+-- (snapshot_billing_month / verify_billing_month) but both are only callable
+-- from SQL by service_role, and nothing notices when a month finance has
+-- already signed off drifts afterwards. This migration adds:
+--
+--   1. billing_verification_signoffs — one row per month finance has signed
+--      off: the note, who signed off and when, the figures locked in and the
+--      result of the latest verification run.
+--   2. get_billing_verification_diffs(month) — per-project, per-field diff of
+--      project_monthly_summary against the month's snapshot with typed values
+--      (048 returns TEXT). Revenue fields carry the difference in cents, and
+--      every row carries the project's EFFECTIVE revenue difference
+--      (COALESCE(milestone_override_cents, billed_revenue_cents), as in 118).
+--      Projects that appeared in the summary since the snapshot are reported
+--      too (048 only catches projects that disappeared).
+--   3. get_billing_verification_status() — one row per snapshotted month with
+--      sign-off details, drifted project count and total drift in cents.
+--   4. sign_off_billing_month(month, note) — admin RPC: drains pending
+--      recalculation, re-snapshots the month through snapshot_billing_month()
+--      and records the sign-off. Past months only; a note is required.
+--      Signing off again replaces the snapshot (accepting a known change).
+--   5. check_billing_verification_drift() — verifies every signed-off month,
+--      stores the result on the sign-off and raises a sync_alerts row
+--      (alert_type 'billing_snapshot_drift', one active alert per month).
+--      The alert is refreshed and re-surfaced when the drift changes, and
+--      resolved once the month matches again or is signed off anew. Runs
+--      nightly via pg_cron.
+--   6. run_billing_verification() — admin RPC: runs the check now and returns
+--      the status of every month.
+--
+-- Mirrors existing precedent:
+--   - migration 048 (field-by-field snapshot comparison)
+--   - migration 118 (cents-exact EFFECTIVE revenue axis)
+--   - migration 134 (SECURITY DEFINER admin RPCs re-asserting is_admin(),
+--     drain before freezing, past months only)
+--   - migration 140 (sync_alerts raised / refreshed / resolved by an in-DB
+--     function on a direct-mode pg_cron schedule)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / CREATE OR REPLACE /
+-- DROP ... IF EXISTS; an existing cron job of the same name is replaced).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: billing_verification_signoffs
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS billing_verification_signoffs (
+    summary_month               DATE PRIMARY KEY,
+    notes                       TEXT NOT NULL,
+    signed_off_by               UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    signed_off_at               TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    project_count               INTEGER NOT NULL,
+    effective_revenue_cents     BIGINT NOT NULL,
+
+    -- Latest check_billing_verification_drift() result
+    last_verified_at            TIMESTAMPTZ,
+    last_drifted_projects       INTEGER,
+    last_drift_cents            BIGINT,
+
+    CONSTRAINT chk_signoff_month_first CHECK (EXTRACT(DAY FROM summary_month) = 1),
+    CONSTRAINT chk_signoff_notes CHECK (BTRIM(notes) <> '')
+);
+
+COMMENT ON TABLE billing_verification_signoffs IS
+    'Months finance has signed off. The signed-off figures are the month''s rows in '
+    'billing_verification_snapshots; drift against them raises a billing_snapshot_drift alert.';
+
+ALTER TABLE billing_verification_signoffs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow authenticated read billing signoffs" ON billing_verification_signoffs;
+CREATE POLICY "Allow authenticated read billing signoffs"
+    ON billing_verification_signoffs FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Allow service role full access billing signoffs" ON billing_verification_signoffs;
+CREATE POLICY "Allow service role full access billing signoffs"
+    ON billing_verification_signoffs FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Written only through sign_off_billing_month()
+GRANT SELECT ON billing_verification_signoffs TO authenticated;
+GRANT ALL ON billing_verification_signoffs TO service_role;
+REVOKE ALL ON billing_verification_signoffs FROM anon;
+
+-- ============================================================================
+-- STEP 2: get_billing_verification_diffs
+-- ============================================================================
+-- One row per drifted field. A project that disappeared from the summary is a
+-- single 'project_missing' row; one that appeared with time or revenue since
+-- the snapshot is a single 'project_added' row; both carry the project's
+-- effective revenue change as diff_cents. Otherwise difference = current -
+-- snapshot and diff_cents is set for the *_cents fields only.
+
+CREATE OR REPLACE FUNCTION get_billing_verification_diffs(p_month DATE)
+RETURNS TABLE (
+    project_id              UUID,
+    project_name            TEXT,
+    company_name            TEXT,
+    field_name              TEXT,
+    snapshot_value          NUMERIC,
+    current_value           NUMERIC,
+    difference              NUMERIC,
+    diff_cents              BIGINT,
+    effective_diff_cents    BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+BEGIN
+    RETURN QUERY
+    WITH joined AS (
+        SELECT
+            COALESCE(snap.project_id, pms.project_id) AS proj_id,
+            snap.project_id IS NOT NULL AS in_snapshot,
+            pms.project_id IS NOT NULL AS in_summary,
+            snap.actual_minutes        AS snap_actual_minutes,
+            pms.actual_minutes         AS cur_actual_minutes,
+            snap.rounded_minutes       AS snap_rounded_minutes,
+            pms.rounded_minutes        AS cur_rounded_minutes,
+            snap.billed_hours          AS snap_billed_hours,
+            pms.billed_hours           AS cur_billed_hours,
+            snap.unbillable_hours      AS snap_unbillable_hours,
+            pms.unbillable_hours       AS cur_unbillable_hours,
+            snap.base_revenue_cents    AS snap_base_rev,
+            pms.base_revenue_cents     AS cur_base_rev,
+            snap.billed_revenue_cents  AS snap_billed_rev,
+            pms.billed_revenue_cents   AS cur_billed_rev,
+            snap.milestone_override_cents AS snap_milestone,
+            pms.milestone_override_cents  AS cur_milestone,
+            snap.rate_used             AS snap_rate,
+            pms.rate_used              AS cur_rate,
+            snap.rounding_used         AS snap_rounding,
+            pms.rounding_used          AS cur_rounding,
+            CASE WHEN pms.project_id IS NULL THEN 0
+                 ELSE COALESCE(pms.milestone_override_cents, pms.billed_revenue_cents, 0)
+            END
+            - CASE WHEN snap.project_id IS NULL THEN 0
+                   ELSE COALESCE(snap.milestone_override_cents, snap.billed_revenue_cents, 0)
+              END AS eff_diff
+        FROM (
+            SELECT * FROM billing_verification_snapshots s WHERE s.summary_month = v_month
+        ) snap
+        FULL OUTER JOIN (
+            SELECT * FROM project_monthly_summary ps WHERE ps.summary_month = v_month
+        ) pms ON pms.project_id = snap.project_id
+    ),
+    fields AS (
+        SELECT j.proj_id, j.eff_diff, f.field_name, f.snap_value, f.cur_value, f.is_cents
+        FROM joined j
+        CROSS JOIN LATERAL (VALUES
+            ('actual_minutes',           j.snap_actual_minutes::NUMERIC,   j.cur_actual_minutes::NUMERIC,   false),
+            ('rounded_minutes',          j.snap_rounded_minutes::NUMERIC,  j.cur_rounded_minutes::NUMERIC,  false),
+            ('billed_hours',             j.snap_billed_hours::NUMERIC,     j.cur_billed_hours::NUMERIC,     false),
+            ('unbillable_hours',         j.snap_unbillable_hours::NUMERIC, j.cur_unbillable_hours::NUMERIC, false),
+            ('base_revenue_cents',       j.snap_base_rev::NUMERIC,         j.cur_base_rev::NUMERIC,         true),
+            ('billed_revenue_cents',     j.snap_billed_rev::NUMERIC,       j.cur_billed_rev::NUMERIC,       true),
+            ('milestone_override_cents', j.snap_milestone::NUMERIC,        j.cur_milestone::NUMERIC,        true),
+            ('rate_used',                j.snap_rate::NUMERIC,             j.cur_rate::NUMERIC,             false),
+            ('rounding_used',            j.snap_rounding::NUMERIC,         j.cur_rounding::NUMERIC,         false)
+        ) AS f(field_name, snap_value, cur_value, is_cents)
+        WHERE j.in_snapshot AND j.in_summary
+          AND f.cur_value IS DISTINCT FROM f.snap_value
+
+        UNION ALL
+        SELECT j.proj_id, j.eff_diff, 'project_missing', NULL, NULL, true
+        FROM joined j
+        WHERE j.in_snapshot AND NOT j.in_summary
+
+        UNION ALL
+        SELECT j.proj_id, j.eff_diff, 'project_added', NULL, NULL, true
+        FROM joined j
+        WHERE j.in_summary AND NOT j.in_snapshot
+          AND (j.cur_actual_minutes > 0 OR j.eff_diff <> 0)
+    )
+    SELECT
+        f.proj_id,
+        p.project_name,
+        COALESCE(c.display_name, c.client_name),
+        f.field_name,
+        f.snap_value,
+        f.cur_value,
+        CASE WHEN f.field_name NOT IN ('project_missing', 'project_added')
+             THEN COALESCE(f.cur_value, 0) - COALESCE(f.snap_value, 0)
+        END,
+        CASE
+            WHEN f.field_name IN ('project_missing', 'project_added') THEN f.eff_diff
+            WHEN f.is_cents THEN (COALESCE(f.cur_value, 0) - COALESCE(f.snap_value, 0))::BIGINT
+        END,
+        f.eff_diff::BIGINT
+    FROM fields f
+    JOIN projects p ON p.id = f.proj_id
+    LEFT JOIN companies c ON c.id = p.company_id
+    ORDER BY p.project_name, f.field_name;
+END;
+$$;
+
+COMMENT ON FUNCTION get_billing_verification_diffs(DATE) IS
+    'Per-project, per-field drift of project_monthly_summary from the month''s '
+    'billing_verification_snapshots rows. diff_cents for revenue fields; '
+    'effective_diff_cents = change in COALESCE(milestone_override, billed) for the project. '
+    'Includes project_missing / project_added rows. Empty result = no drift.';
+
+REVOKE ALL ON FUNCTION get_billing_verification_diffs(DATE) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_billing_verification_diffs(DATE) FROM anon;
+GRANT EXECUTE ON FUNCTION get_billing_verification_diffs(DATE) TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 3: get_billing_verification_status
+-- ============================================================================
+-- drift_cents is the sum of each drifted project's |effective_diff_cents|, so
+-- two projects moving in opposite directions do not cancel out.
+
+CREATE OR REPLACE FUNCTION get_billing_verification_status()
+RETURNS TABLE (
+    summary_month               DATE,
+    snapshot_projects           INTEGER,
+    snapshot_effective_cents    BIGINT,
+    verified_by                 TEXT,
+    verified_at                 TIMESTAMPTZ,
+    is_signed_off               BOOLEAN,
+    signoff_notes               TEXT,
+    signed_off_at               TIMESTAMPTZ,
+    signed_off_by_email         TEXT,
+    last_verified_at            TIMESTAMPTZ,
+    drifted_projects            INTEGER,
+    discrepancy_count           INTEGER,
+    drift_cents                 BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH months AS (
+        SELECT
+            bvs.summary_month AS month,
+            COUNT(*)::INTEGER AS projects,
+            SUM(COALESCE(bvs.milestone_override_cents, bvs.billed_revenue_cents))::BIGINT AS effective_cents,
+            MAX(bvs.verified_by) AS verified_by,
+            MAX(bvs.verified_at) AS verified_at
+        FROM billing_verification_snapshots bvs
+        GROUP BY bvs.summary_month
+    )
+    SELECT
+        m.month,
+        m.projects,
+        m.effective_cents,
+        m.verified_by,
+        m.verified_at,
+        s.summary_month IS NOT NULL,
+        s.notes,
+        s.signed_off_at,
+        u.email::TEXT,
+        s.last_verified_at,
+        d.drifted_projects,
+        d.discrepancy_count,
+        d.drift_cents
+    FROM months m
+    LEFT JOIN billing_verification_signoffs s ON s.summary_month = m.month
+    LEFT JOIN auth.users u ON u.id = s.signed_off_by
+    CROSS JOIN LATERAL (
+        SELECT
+            COUNT(DISTINCT x.project_id)::INTEGER AS drifted_projects,
+            COUNT(*)::INTEGER AS discrepancy_count,
+            COALESCE(SUM(ABS(x.effective_diff_cents)) FILTER (WHERE x.is_first), 0)::BIGINT AS drift_cents
+        FROM (
+            SELECT g.project_id, g.effective_diff_cents,
+                ROW_NUMBER() OVER (PARTITION BY g.project_id) = 1 AS is_first
+            FROM get_billing_verification_diffs(m.month) g
+        ) x
+    ) d
+    ORDER BY m.month DESC;
+END;
+$$;
+
+COMMENT ON FUNCTION get_billing_verification_status() IS
+    'One row per snapshotted month: snapshot totals, sign-off details and the live '
+    'drift (drifted projects, field discrepancies, total |effective drift| in cents).';
+
+REVOKE ALL ON FUNCTION get_billing_verification_status() FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_billing_verification_status() FROM anon;
+GRANT EXECUTE ON FUNCTION get_billing_verification_status() TO authenticated, service_role;
+
+-- ============================================================================
+-- STEP 4: check_billing_verification_drift
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION check_billing_verification_drift()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    r                   RECORD;
+    v_alert_id          UUID;
+    v_alert_metadata    JSONB;
+    v_title             TEXT;
+    v_detail            TEXT;
+    v_metadata          JSONB;
+    v_changed           INTEGER := 0;
+    v_resolved          INTEGER;
+BEGIN
+    FOR r IN
+        SELECT st.*
+        FROM get_billing_verification_status() st
+        WHERE st.is_signed_off
+    LOOP
+        UPDATE billing_verification_signoffs
+        SET last_verified_at = NOW(),
+            last_drifted_projects = r.drifted_projects,
+            last_drift_cents = r.drift_cents
+        WHERE summary_month = r.summary_month;
+
+        v_alert_id := NULL;
+        v_alert_metadata := NULL;
+        SELECT sa.id, sa.metadata
+        INTO v_alert_id, v_alert_metadata
+        FROM sync_alerts sa
+        WHERE sa.alert_type = 'billing_snapshot_drift'
+          AND sa.entity_id = r.summary_month::TEXT
+          AND sa.resolved_at IS NULL;
+
+        IF r.discrepancy_count = 0 THEN
+            IF v_alert_id IS NOT NULL THEN
+                UPDATE sync_alerts SET resolved_at = NOW(), updated_at = NOW()
+                WHERE id = v_alert_id;
+                v_changed := v_changed + 1;
+            END IF;
+            CONTINUE;
+        END IF;
+
+        v_title := format('Signed-off billing for %s has changed', to_char(r.summary_month, 'Mon YYYY'));
+        v_detail := format('%s %s differ from the snapshot signed off on %s (%s field %s, $%s effective revenue drift).',
+            r.drifted_projects,
+            CASE WHEN r.drifted_projects = 1 THEN 'project' ELSE 'projects' END,
+            to_char(r.signed_off_at, 'Mon DD, YYYY'),
+            r.discrepancy_count,
+            CASE WHEN r.discrepancy_count = 1 THEN 'difference' ELSE 'differences' END,
+            to_char(r.drift_cents / 100.0, 'FM999,999,990.00'));
+        v_metadata := jsonb_build_object(
+            'summary_month', r.summary_month,
+            'drifted_projects', r.drifted_projects,
+            'discrepancy_count', r.discrepancy_count,
+            'drift_cents', r.drift_cents
+        );
+
+        IF v_alert_id IS NULL THEN
+            INSERT INTO sync_alerts (
+                alert_type, severity, title, detail, entity_type, entity_id, entity_name, metadata
+            ) VALUES (
+                'billing_snapshot_drift', 'error', v_title, v_detail,
+                'billing_month', r.summary_month::TEXT, to_char(r.summary_month, 'Mon YYYY'), v_metadata
+            );
+            v_changed := v_changed + 1;
+        ELSIF v_alert_metadata IS DISTINCT FROM v_metadata THEN
+            -- The drift moved: refresh and re-surface a dismissed alert
+            UPDATE sync_alerts
+            SET title = v_title,
+                detail = v_detail,
+                metadata = v_metadata,
+                dismissed_at = NULL,
+                dismissed_by = NULL,
+                updated_at = NOW()
+            WHERE id = v_alert_id;
+            v_changed := v_changed + 1;
+        END IF;
+    END LOOP;
+
+    -- Months no longer signed off
+    UPDATE sync_alerts sa
+    SET resolved_at = NOW(), updated_at = NOW()
+    WHERE sa.alert_type = 'billing_snapshot_drift'
+      AND sa.resolved_at IS NULL
+      AND NOT EXISTS (
+          SELECT 1 FROM billing_verification_signoffs s
+          WHERE s.summary_month::TEXT = sa.entity_id
+      );
+    GET DIAGNOSTICS v_resolved = ROW_COUNT;
+
+    RETURN v_changed + v_resolved;
+END;
+$$;
+
+COMMENT ON FUNCTION check_billing_verification_drift() IS
+    'Verifies every signed-off month against its snapshot, records the result on '
+    'billing_verification_signoffs and raises, refreshes or resolves the month''s '
+    'billing_snapshot_drift alert in sync_alerts. Returns the number of alerts changed.';
+
+REVOKE ALL ON FUNCTION check_billing_verification_drift() FROM PUBLIC;
+REVOKE ALL ON FUNCTION check_billing_verification_drift() FROM anon;
+GRANT EXECUTE ON FUNCTION check_billing_verification_drift() TO service_role;
+
+-- ============================================================================
+-- STEP 5: sign_off_billing_month / run_billing_verification (admin RPCs)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION sign_off_billing_month(p_month DATE, p_notes TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_month DATE := DATE_TRUNC('month', p_month)::DATE;
+    v_notes TEXT := NULLIF(BTRIM(p_notes), '');
+    v_email TEXT;
+    v_snapshot RECORD;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF v_notes IS NULL THEN
+        RAISE EXCEPTION 'A note is required to sign off a billing month.'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF v_month >= DATE_TRUNC('month', CURRENT_DATE)::DATE THEN
+        RAISE EXCEPTION 'Cannot sign off % — only past months can be signed off.', TO_CHAR(v_month, 'YYYY-MM')
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Snapshot what the month will show once pending recalculation lands.
+    PERFORM drain_recalculation_queue();
+
+    SELECT u.email::TEXT INTO v_email FROM auth.users u WHERE u.id = auth.uid();
+
+    SELECT * INTO v_snapshot
+    FROM snapshot_billing_month(v_month, COALESCE(v_email, 'admin'), v_notes);
+
+    IF v_snapshot.projects_snapshotted = 0 THEN
+        RAISE EXCEPTION 'Billing month % has no summary rows to sign off.', TO_CHAR(v_month, 'YYYY-MM')
+            USING ERRCODE = 'no_data_found';
+    END IF;
+
+    INSERT INTO billing_verification_signoffs (
+        summary_month, notes, signed_off_by, signed_off_at,
+        project_count, effective_revenue_cents,
+        last_verified_at, last_drifted_projects, last_drift_cents
+    ) VALUES (
+        v_month, v_notes, auth.uid(), NOW(),
+        v_snapshot.projects_snapshotted, v_snapshot.effective_revenue_cents,
+        NOW(), 0, 0
+    )
+    ON CONFLICT (summary_month) DO UPDATE SET
+        notes = EXCLUDED.notes,
+        signed_off_by = EXCLUDED.signed_off_by,
+        signed_off_at = EXCLUDED.signed_off_at,
+        project_count = EXCLUDED.project_count,
+        effective_revenue_cents = EXCLUDED.effective_revenue_cents,
+        last_verified_at = EXCLUDED.last_verified_at,
+        last_drifted_projects = EXCLUDED.last_drifted_projects,
+        last_drift_cents = EXCLUDED.last_drift_cents;
+
+    -- A fresh snapshot matches by definition: clear the month's drift alert.
+    UPDATE sync_alerts
+    SET resolved_at = NOW(), updated_at = NOW()
+    WHERE alert_type = 'billing_snapshot_drift'
+      AND entity_id = v_month::TEXT
+      AND resolved_at IS NULL;
+
+    RETURN v_snapshot.projects_snapshotted;
+END;
+$$;
+
+COMMENT ON FUNCTION sign_off_billing_month(DATE, TEXT) IS
+    'Admin: drain pending recalculation, snapshot the month (snapshot_billing_month) '
+    'and record the sign-off with a required note. Signing off again replaces the '
+    'snapshot. Returns the number of projects snapshotted.';
+
+REVOKE ALL ON FUNCTION sign_off_billing_month(DATE, TEXT) FROM PUBLIC;
+REVOKE ALL ON FUNCTION sign_off_billing_month(DATE, TEXT) FROM anon;
+GRANT EXECUTE ON FUNCTION sign_off_billing_month(DATE, TEXT) TO authenticated;
+
+
+CREATE OR REPLACE FUNCTION run_billing_verification()
+RETURNS TABLE (
+    summary_month               DATE,
+    snapshot_projects           INTEGER,
+    snapshot_effective_cents    BIGINT,
+    verified_by                 TEXT,
+    verified_at                 TIMESTAMPTZ,
+    is_signed_off               BOOLEAN,
+    signoff_notes               TEXT,
+    signed_off_at               TIMESTAMPTZ,
+    signed_off_by_email         TEXT,
+    last_verified_at            TIMESTAMPTZ,
+    drifted_projects            INTEGER,
+    discrepancy_count           INTEGER,
+    drift_cents                 BIGINT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    PERFORM check_billing_verification_drift();
+
+    RETURN QUERY SELECT * FROM get_billing_verification_status();
+END;
+$$;
+
+COMMENT ON FUNCTION run_billing_verification() IS
+    'Admin: run check_billing_verification_drift() now (records results, raises or '
+    'resolves drift alerts) and return get_billing_verification_status().';
+
+REVOKE ALL ON FUNCTION run_billing_verification() FROM PUBLIC;
+REVOKE ALL ON FUNCTION run_billing_verification() FROM anon;
+GRANT EXECUTE ON FUNCTION run_billing_verification() TO authenticated;
+
+-- ============================================================================
+-- STEP 6: Nightly drift check (direct mode, in-DB call)
+-- ============================================================================
+-- After the overnight syncs and recalculation have settled.
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'check-billing-verification-drift') THEN
+        PERFORM cron.unschedule('check-billing-verification-drift');
+    END IF;
+
+    PERFORM cron.schedule(
+        'check-billing-verification-drift',
+        '45 3 * * *',
+        $cmd$ SELECT check_billing_verification_drift(); $cmd$
+    );
+END $$;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'check-billing-verification-drift') THEN
+        RAISE EXCEPTION 'check-billing-verification-drift cron job was not scheduled';
+    END IF;
+
+    RAISE NOTICE 'Migration 154 Complete:';
+    RAISE NOTICE '  - billing_verification_signoffs (note, signer, last verification result)';
+    RAISE NOTICE '  - get_billing_verification_diffs() / get_billing_verification_status()';
+    RAISE NOTICE '  - sign_off_billing_month() / run_billing_verification() admin RPCs';
+    RAISE NOTICE '  - check_billing_verification_drift() nightly at 03:45 -> billing_snapshot_drift alerts';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- BEGIN;
+--   SELECT cron.unschedule('check-billing-verification-drift');
+--   DROP FUNCTION IF EXISTS run_billing_verification();
+--   DROP FUNCTION IF EXISTS sign_off_billing_month(DATE, TEXT);
+--   DROP FUNCTION IF EXISTS check_billing_verification_drift();
+--   DROP FUNCTION IF EXISTS get_billing_verification_status();
+--   DROP FUNCTION IF EXISTS get_billing_verification_diffs(DATE);
+--   DROP TABLE IF EXISTS billing_verification_signoffs;
+--   UPDATE sync_alerts SET resolved_at = NOW()
+--     WHERE alert_type = 'billing_snapshot_drift' AND resolved_at IS NULL;
+-- COMMIT;
+-- Snapshots taken by sign_off_billing_month() stay in billing_verification_snapshots.
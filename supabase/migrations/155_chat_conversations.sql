@@ -0,0 +1,145 @@
+-- ============================================================================
+-- Migration 155: Chat conversations — per-user persistence, drop raw SQL
+-- ============================================================================
+-- Purpose: the chat assistant ("Ask the Accountant") kept messages only in
+-- component state and answered through a single execute_sql tool that ran
+-- model-written SQL via execute_readonly_sql with the service role. The chat
+-- edge function now answers through typed tools that read the canonical views
+-- and functions as the calling user, and stores every turn:
+--
+--   1. chat_conversations — one row per conversation, owned by the user who
+--      started it (user_id DEFAULT auth.uid()). Title is the first question.
+--   2. chat_messages — user and assistant messages in order. Assistant
+--      messages carry the display blocks (tables / charts) and the tool calls
+--      made while answering, as JSONB.
+--   3. RLS: a user sees and writes only their own conversations and reads
+--      the messages in them. Messages are inserted by the chat edge function
+--      with the service role only — the model replays them as trusted
+--      history, so a user must not be able to write assistant messages.
+--      Messages are immutable (no UPDATE policy); deleting a conversation
+--      deletes its messages.
+--   4. execute_readonly_sql (migration 029, revoked from authenticated in
+--      061) is dropped — the chat function was its only caller.
+--
+-- Mirrors existing precedent:
+--   - migration 150 (table + update_updated_at_column trigger + RLS block)
+--   - migration 149 (webhook_events.data JSONB payload column)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / DROP ... IF EXISTS).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: Tables
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS chat_conversations (
+    id          UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id     UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    title       TEXT NOT NULL CHECK (length(btrim(title)) > 0),
+    created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE chat_conversations IS
+    'Chat assistant conversations, one owner each. updated_at moves with every '
+    'new message, so the most recent conversation sorts first.';
+
+CREATE INDEX IF NOT EXISTS idx_chat_conversations_user
+    ON chat_conversations (user_id, updated_at DESC);
+
+DROP TRIGGER IF EXISTS trg_chat_conversations_updated_at ON chat_conversations;
+CREATE TRIGGER trg_chat_conversations_updated_at
+    BEFORE UPDATE ON chat_conversations
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS chat_messages (
+    id               UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    conversation_id  UUID NOT NULL REFERENCES chat_conversations(id) ON DELETE CASCADE,
+    role             TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+    content          TEXT NOT NULL,
+    blocks           JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(blocks) = 'array'),
+    tool_calls       JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(tool_calls) = 'array'),
+    created_at       TIMESTAMPTZ NOT NULL DEFAULT clock_timestamp()
+);
+
+COMMENT ON TABLE chat_messages IS
+    'Messages of a chat conversation. blocks: tables / charts shown under an '
+    'assistant answer; tool_calls: the typed tools called to produce it.';
+
+-- clock_timestamp() so a user message and its answer, inserted in one
+-- request, keep their order.
+CREATE INDEX IF NOT EXISTS idx_chat_messages_conversation
+    ON chat_messages (conversation_id, created_at);
+
+-- ============================================================================
+-- STEP 2: RLS — owner only
+-- ============================================================================
+
+ALTER TABLE chat_conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE chat_messages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow owner manage chat conversations" ON chat_conversations;
+CREATE POLICY "Allow owner manage chat conversations"
+    ON chat_conversations FOR ALL TO authenticated
+    USING (user_id = auth.uid()) WITH CHECK (user_id = auth.uid());
+DROP POLICY IF EXISTS "Allow service role full access chat conversations" ON chat_conversations;
+CREATE POLICY "Allow service role full access chat conversations"
+    ON chat_conversations FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Allow owner read chat messages" ON chat_messages;
+CREATE POLICY "Allow owner read chat messages"
+    ON chat_messages FOR SELECT TO authenticated
+    USING (EXISTS (
+        SELECT 1 FROM chat_conversations c
+        WHERE c.id = chat_messages.conversation_id AND c.user_id = auth.uid()
+    ));
+DROP POLICY IF EXISTS "Allow owner insert chat messages" ON chat_messages;
+DROP POLICY IF EXISTS "Allow service role full access chat messages" ON chat_messages;
+CREATE POLICY "Allow service role full access chat messages"
+    ON chat_messages FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON chat_conversations TO authenticated;
+GRANT SELECT ON chat_messages TO authenticated;
+REVOKE INSERT, UPDATE, DELETE ON chat_messages FROM authenticated;
+
+-- ============================================================================
+-- STEP 3: Drop the raw SQL function
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS execute_readonly_sql(TEXT);
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'execute_readonly_sql') THEN
+        RAISE EXCEPTION 'execute_readonly_sql still exists';
+    END IF;
+
+    IF has_table_privilege('authenticated', 'chat_messages', 'INSERT') THEN
+        RAISE EXCEPTION 'authenticated can still insert chat_messages';
+    END IF;
+
+    RAISE NOTICE 'Migration 155 Complete:';
+    RAISE NOTICE '  - chat_conversations / chat_messages (owner-only RLS, messages immutable,';
+    RAISE NOTICE '    inserted by the service role only)';
+    RAISE NOTICE '  - execute_readonly_sql dropped';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- Redeploy the previous chat edge function first, then re-apply migration 029
+-- and the REVOKE from migration 061, then:
+-- BEGIN;
+--   DROP TABLE IF EXISTS chat_messages;
+--   DROP TABLE IF EXISTS chat_conversations;
+-- COMMIT;
@@ -0,0 +1,229 @@
+-- ============================================================================
+-- Migration 156: Entity merge suggestions — match signals for grouping
+-- ============================================================================
+-- Purpose: physical person, company and project grouping (migrations 015,
+-- 023, 030) is manual. An admin has to notice that "Ivan P." in ClickUp and
+-- "Ivan Petrov" in Clockify are the same person. The group editors now show
+-- ranked "probably the same" candidates. Names are scored in the browser
+-- (src/utils/mergeSuggestions.ts, incl. Cyrillic transliteration). This
+-- migration supplies the signals that need the timesheet data:
+--
+--   1. get_entity_merge_signals(p_entity_type, p_entity_id) — one row for the
+--      entity being edited (is_target) plus one per unassociated entity of
+--      the same type (the candidates rpc_list_unassociated_* lists), with:
+--        employee  email, days worked on the same dates as the target,
+--                  clients both worked for
+--        company   days with work on the same dates, users who logged
+--                  time for both
+--        project   days with work on the same dates, users on both,
+--                  same canonical company
+--      Activity is read from timesheet_daily_rollups over the last 365 days.
+--   2. Admin only. Read-only.
+--
+-- Mirrors existing precedent:
+--   - migration 015 / 023 / 030 (rpc_list_unassociated_* candidate filters
+--     via v_entity_canonical / v_company_canonical / v_project_canonical)
+--   - migration 154 (admin SECURITY DEFINER RPC with RETURNS TABLE)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (CREATE OR REPLACE).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: get_entity_merge_signals
+-- ============================================================================
+-- An employee's activity is every timesheet user_id mapped to the resource
+-- (resources.user_id and resource_user_associations). Counts are NULL where
+-- a signal does not apply to the entity type.
+
+CREATE OR REPLACE FUNCTION get_entity_merge_signals(
+    p_entity_type TEXT,
+    p_entity_id UUID
+)
+RETURNS TABLE (
+    entity_id       UUID,
+    external_id     TEXT,
+    is_target       BOOLEAN,
+    entity_name     TEXT,
+    alt_name        TEXT,
+    email           TEXT,
+    work_days       INTEGER,
+    overlap_days    INTEGER,
+    shared_clients  INTEGER,
+    shared_users    INTEGER,
+    same_company    BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_since DATE := CURRENT_DATE - 365;
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_entity_type = 'employee' THEN
+        RETURN QUERY
+        WITH ents AS (
+            SELECT
+                r.id AS ent_id,
+                r.user_id AS ext_id,
+                COALESCE(NULLIF(TRIM(CONCAT(r.first_name, ' ', r.last_name)), ''), r.external_label) AS ent_name,
+                r.external_label AS ent_alt,
+                r.email AS ent_email
+            FROM resources r
+            JOIN v_entity_canonical vec ON vec.entity_id = r.id
+            WHERE r.id = p_entity_id OR vec.role = 'unassociated'
+        ),
+        ent_users AS (
+            SELECT e.ent_id, e.ext_id AS user_id FROM ents e WHERE e.ext_id IS NOT NULL
+            UNION
+            SELECT e.ent_id, rua.user_id
+            FROM ents e
+            JOIN resource_user_associations rua ON rua.resource_id = e.ent_id
+        ),
+        activity AS (
+            SELECT DISTINCT eu.ent_id, t.work_date AS day, t.client_id AS other
+            FROM ent_users eu
+            JOIN timesheet_daily_rollups t ON t.user_id = eu.user_id
+            WHERE t.work_date >= v_since AND t.total_minutes > 0
+        )
+        SELECT
+            e.ent_id,
+            e.ext_id,
+            e.ent_id = p_entity_id,
+            e.ent_name,
+            e.ent_alt,
+            e.ent_email,
+            (SELECT COUNT(DISTINCT a.day)::INTEGER FROM activity a WHERE a.ent_id = e.ent_id),
+            (SELECT COUNT(DISTINCT a.day)::INTEGER FROM activity a
+              WHERE a.ent_id = e.ent_id
+                AND a.day IN (SELECT ta.day FROM activity ta WHERE ta.ent_id = p_entity_id)),
+            (SELECT COUNT(DISTINCT a.other)::INTEGER FROM activity a
+              WHERE a.ent_id = e.ent_id
+                AND a.other IN (SELECT ta.other FROM activity ta WHERE ta.ent_id = p_entity_id)),
+            NULL::INTEGER,
+            NULL::BOOLEAN
+        FROM ents e;
+
+    ELSIF p_entity_type = 'company' THEN
+        RETURN QUERY
+        WITH ents AS (
+            SELECT
+                c.id AS ent_id,
+                c.client_id AS ext_id,
+                COALESCE(c.display_name, c.client_name) AS ent_name,
+                c.client_name AS ent_alt
+            FROM companies c
+            JOIN v_company_canonical vcc ON vcc.company_id = c.id
+            WHERE c.id = p_entity_id OR vcc.role = 'unassociated'
+        ),
+        activity AS (
+            SELECT DISTINCT e.ent_id, t.work_date AS day, t.user_id AS other
+            FROM ents e
+            JOIN timesheet_daily_rollups t ON t.client_id = e.ext_id
+            WHERE t.work_date >= v_since AND t.total_minutes > 0
+        )
+        SELECT
+            e.ent_id,
+            e.ext_id,
+            e.ent_id = p_entity_id,
+            e.ent_name,
+            e.ent_alt,
+            NULL::TEXT,
+            (SELECT COUNT(DISTINCT a.day)::INTEGER FROM activity a WHERE a.ent_id = e.ent_id),
+            (SELECT COUNT(DISTINCT a.day)::INTEGER FROM activity a
+              WHERE a.ent_id = e.ent_id
+                AND a.day IN (SELECT ta.day FROM activity ta WHERE ta.ent_id = p_entity_id)),
+            NULL::INTEGER,
+            (SELECT COUNT(DISTINCT a.other)::INTEGER FROM activity a
+              WHERE a.ent_id = e.ent_id
+                AND a.other IN (SELECT ta.other FROM activity ta WHERE ta.ent_id = p_entity_id)),
+            NULL::BOOLEAN
+        FROM ents e;
+
+    ELSIF p_entity_type = 'project' THEN
+        RETURN QUERY
+        WITH ents AS (
+            SELECT
+                p.id AS ent_id,
+                p.project_id AS ext_id,
+                p.project_name AS ent_name,
+                COALESCE(c.display_name, c.client_name, p.client_name) AS ent_alt,
+                vcc.canonical_company_id AS ent_company
+            FROM projects p
+            JOIN v_project_canonical vpc ON vpc.project_id = p.id
+            LEFT JOIN companies c ON c.id = p.company_id
+            LEFT JOIN v_company_canonical vcc ON vcc.company_id = p.company_id
+            WHERE p.id = p_entity_id OR vpc.role = 'unassociated'
+        ),
+        activity AS (
+            SELECT DISTINCT e.ent_id, t.work_date AS day, t.user_id AS other
+            FROM ents e
+            JOIN timesheet_daily_rollups t ON t.project_id = e.ext_id
+            WHERE t.work_date >= v_since AND t.total_minutes > 0
+        )
+        SELECT
+            e.ent_id,
+            e.ext_id,
+            e.ent_id = p_entity_id,
+            e.ent_name,
+            e.ent_alt,
+            NULL::TEXT,
+            (SELECT COUNT(DISTINCT a.day)::INTEGER FROM activity a WHERE a.ent_id = e.ent_id),
+            (SELECT COUNT(DISTINCT a.day)::INTEGER FROM activity a
+              WHERE a.ent_id = e.ent_id
+                AND a.day IN (SELECT ta.day FROM activity ta WHERE ta.ent_id = p_entity_id)),
+            NULL::INTEGER,
+            (SELECT COUNT(DISTINCT a.other)::INTEGER FROM activity a
+              WHERE a.ent_id = e.ent_id
+                AND a.other IN (SELECT ta.other FROM activity ta WHERE ta.ent_id = p_entity_id)),
+            e.ent_company IS NOT NULL AND e.ent_company = (
+                SELECT te.ent_company FROM ents te WHERE te.ent_id = p_entity_id
+            )
+        FROM ents e;
+
+    ELSE
+        RAISE EXCEPTION 'Unknown entity type: % (expected employee, company or project)', p_entity_type
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+END;
+$$;
+
+COMMENT ON FUNCTION get_entity_merge_signals(TEXT, UUID) IS
+    'Match signals between an employee / company / project and every unassociated '
+    'entity of the same type: names, email, overlapping work days, shared clients / '
+    'users, same company. Scored into merge suggestions by the group editors.';
+
+REVOKE ALL ON FUNCTION get_entity_merge_signals(TEXT, UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_entity_merge_signals(TEXT, UUID) FROM anon;
+GRANT EXECUTE ON FUNCTION get_entity_merge_signals(TEXT, UUID) TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_proc WHERE proname = 'get_entity_merge_signals') THEN
+        RAISE EXCEPTION 'get_entity_merge_signals missing';
+    END IF;
+
+    RAISE NOTICE 'Migration 156 Complete:';
+    RAISE NOTICE '  - get_entity_merge_signals(entity_type, entity_id) (admin only)';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- BEGIN;
+--   DROP FUNCTION IF EXISTS get_entity_merge_signals(TEXT, UUID);
+-- COMMIT;
@@ -0,0 +1,443 @@
+-- ============================================================================
+-- Migration 157: Audit trail — who changed what on admin-edited entities
+-- ============================================================================
+-- Purpose: billing_audit_log (migration 028) records billing-rule changes and
+-- mcp_api.api_audit_log (migration 104) records API calls, but edits to
+-- employees, companies, projects, groupings, project managers, holidays,
+-- expenses and release notes left no trace. This migration records them:
+--
+--   1. audit_log — one row per changed row: table, action, before / after
+--      (to_jsonb of the row), the changed columns, the acting user, and the
+--      entity the change belongs to (entity_type / entity_id), so a group
+--      member row is filed under the group's primary employee / company /
+--      project and shows up in that editor's history.
+--   2. audit_row_change() — generic AFTER trigger, attached to every
+--      admin-edited table with the entity mapping as trigger arguments.
+--      Only changes made by a signed-in user are recorded: sync jobs and
+--      cron run as the service role (auth.uid() IS NULL) and are audited by
+--      sync_runs / api_write_log. UPDATEs that change nothing but
+--      updated_at / updated_by are skipped. Expenses record edits and
+--      deletes only; imports are tracked per file in expense_source_files.
+--   3. RLS: admins read; nobody writes directly (the trigger is SECURITY
+--      DEFINER).
+--   4. get_audit_log(...) — admin RPC behind the Audit page and the editor
+--      history panels. Merges audit_log with billing_audit_log (filed under
+--      the project) and resolves the actor and entity names.
+--
+-- Mirrors existing precedent:
+--   - migration 028 (billing_audit_log: to_jsonb(OLD) / to_jsonb(NEW),
+--     changed_by = auth.uid() from an AFTER trigger)
+--   - migration 154 (admin SECURITY DEFINER RPC with RETURNS TABLE)
+--
+-- APPLICATION NOTE: This project does NOT use `supabase db push`. Applied via
+-- the Supabase Management API. Idempotent (IF NOT EXISTS / DROP ... IF EXISTS
+-- / CREATE OR REPLACE).
+-- ============================================================================
+
+BEGIN;
+
+-- ============================================================================
+-- STEP 1: audit_log
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS audit_log (
+    id              UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    table_name      TEXT NOT NULL,
+    record_id       TEXT,
+    action          TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+    entity_type     TEXT NOT NULL CHECK (entity_type IN (
+        'employee', 'company', 'project', 'holiday', 'holiday_calendar',
+        'expense', 'release_note'
+    )),
+    entity_id       TEXT,
+    old_data        JSONB,
+    new_data        JSONB,
+    changed_fields  TEXT[],
+    changed_by      UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    changed_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+COMMENT ON TABLE audit_log IS
+    'Row-level change history of admin-edited tables, written by '
+    'audit_row_change(). entity_type / entity_id: the employee, company, '
+    'project, holiday, calendar, expense or release note the change belongs to.';
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity
+    ON audit_log (entity_type, entity_id, changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_changed_at
+    ON audit_log (changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_changed_by
+    ON audit_log (changed_by, changed_at DESC);
+
+-- ============================================================================
+-- STEP 2: audit_row_change trigger function
+-- ============================================================================
+-- Trigger arguments:
+--   TG_ARGV[0]  entity_type
+--   TG_ARGV[1]  column holding the entity id (or the parent's id)
+--   TG_ARGV[2]  optional parent table, TG_ARGV[3] its column holding the
+--               entity id — for group members, whose entity is the group's
+--               primary. NULL when the parent is gone (cascade delete).
+
+CREATE OR REPLACE FUNCTION audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+    v_actor UUID := auth.uid();
+    v_old JSONB;
+    v_new JSONB;
+    v_row JSONB;
+    v_changed TEXT[];
+    v_entity_id TEXT;
+BEGIN
+    IF v_actor IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    IF TG_OP <> 'INSERT' THEN
+        v_old := to_jsonb(OLD);
+    END IF;
+    IF TG_OP <> 'DELETE' THEN
+        v_new := to_jsonb(NEW);
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        SELECT array_agg(n.key ORDER BY n.key)
+        INTO v_changed
+        FROM jsonb_each(v_new) n
+        WHERE n.key NOT IN ('updated_at', 'updated_by')
+          AND n.value IS DISTINCT FROM v_old -> n.key;
+
+        IF v_changed IS NULL THEN
+            RETURN NULL;
+        END IF;
+    END IF;
+
+    v_row := COALESCE(v_new, v_old);
+    v_entity_id := v_row ->> TG_ARGV[1];
+
+    IF TG_NARGS > 2 AND v_entity_id IS NOT NULL THEN
+        EXECUTE format('SELECT %I::TEXT FROM %I WHERE id = $1::UUID', TG_ARGV[3], TG_ARGV[2])
+        INTO v_entity_id
+        USING v_entity_id;
+    END IF;
+
+    INSERT INTO audit_log (
+        table_name, record_id, action, entity_type, entity_id,
+        old_data, new_data, changed_fields, changed_by
+    ) VALUES (
+        TG_TABLE_NAME, v_row ->> 'id', TG_OP, TG_ARGV[0], v_entity_id,
+        v_old, v_new, v_changed, v_actor
+    );
+
+    RETURN NULL;
+END;
+$$;
+
+COMMENT ON FUNCTION audit_row_change() IS
+    'AFTER trigger writing audit_log. Args: entity_type, entity id column '
+    '[, parent table, parent entity id column]. Skips changes without a '
+    'signed-in user and no-op UPDATEs.';
+
+REVOKE ALL ON FUNCTION audit_row_change() FROM PUBLIC;
+
+-- ============================================================================
+-- STEP 3: Attach to admin-edited tables
+-- ============================================================================
+
+-- Employees
+DROP TRIGGER IF EXISTS trg_audit_resources ON resources;
+CREATE TRIGGER trg_audit_resources
+    AFTER INSERT OR UPDATE OR DELETE ON resources
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('employee', 'id');
+
+DROP TRIGGER IF EXISTS trg_audit_resource_user_associations ON resource_user_associations;
+CREATE TRIGGER trg_audit_resource_user_associations
+    AFTER INSERT OR UPDATE OR DELETE ON resource_user_associations
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('employee', 'resource_id');
+
+DROP TRIGGER IF EXISTS trg_audit_resource_monthly_costs ON resource_monthly_costs;
+CREATE TRIGGER trg_audit_resource_monthly_costs
+    AFTER INSERT OR UPDATE OR DELETE ON resource_monthly_costs
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('employee', 'resource_id');
+
+DROP TRIGGER IF EXISTS trg_audit_physical_person_groups ON physical_person_groups;
+CREATE TRIGGER trg_audit_physical_person_groups
+    AFTER INSERT OR UPDATE OR DELETE ON physical_person_groups
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('employee', 'primary_resource_id');
+
+DROP TRIGGER IF EXISTS trg_audit_physical_person_group_members ON physical_person_group_members;
+CREATE TRIGGER trg_audit_physical_person_group_members
+    AFTER INSERT OR UPDATE OR DELETE ON physical_person_group_members
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('employee', 'group_id', 'physical_person_groups', 'primary_resource_id');
+
+-- Companies
+DROP TRIGGER IF EXISTS trg_audit_companies ON companies;
+CREATE TRIGGER trg_audit_companies
+    AFTER INSERT OR UPDATE OR DELETE ON companies
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('company', 'id');
+
+DROP TRIGGER IF EXISTS trg_audit_company_groups ON company_groups;
+CREATE TRIGGER trg_audit_company_groups
+    AFTER INSERT OR UPDATE OR DELETE ON company_groups
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('company', 'primary_company_id');
+
+DROP TRIGGER IF EXISTS trg_audit_company_group_members ON company_group_members;
+CREATE TRIGGER trg_audit_company_group_members
+    AFTER INSERT OR UPDATE OR DELETE ON company_group_members
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('company', 'group_id', 'company_groups', 'primary_company_id');
+
+-- Projects
+DROP TRIGGER IF EXISTS trg_audit_projects ON projects;
+CREATE TRIGGER trg_audit_projects
+    AFTER INSERT OR UPDATE OR DELETE ON projects
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('project', 'id');
+
+DROP TRIGGER IF EXISTS trg_audit_project_groups ON project_groups;
+CREATE TRIGGER trg_audit_project_groups
+    AFTER INSERT OR UPDATE OR DELETE ON project_groups
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('project', 'primary_project_id');
+
+DROP TRIGGER IF EXISTS trg_audit_project_group_members ON project_group_members;
+CREATE TRIGGER trg_audit_project_group_members
+    AFTER INSERT OR UPDATE OR DELETE ON project_group_members
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('project', 'group_id', 'project_groups', 'primary_project_id');
+
+DROP TRIGGER IF EXISTS trg_audit_project_managers ON project_managers;
+CREATE TRIGGER trg_audit_project_managers
+    AFTER INSERT OR UPDATE OR DELETE ON project_managers
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('project', 'project_id');
+
+-- Holidays
+DROP TRIGGER IF EXISTS trg_audit_calendar_holidays ON calendar_holidays;
+CREATE TRIGGER trg_audit_calendar_holidays
+    AFTER INSERT OR UPDATE OR DELETE ON calendar_holidays
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('holiday', 'id');
+
+DROP TRIGGER IF EXISTS trg_audit_holiday_calendars ON holiday_calendars;
+CREATE TRIGGER trg_audit_holiday_calendars
+    AFTER INSERT OR UPDATE OR DELETE ON holiday_calendars
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('holiday_calendar', 'id');
+
+DROP TRIGGER IF EXISTS trg_audit_holiday_calendar_rules ON holiday_calendar_rules;
+CREATE TRIGGER trg_audit_holiday_calendar_rules
+    AFTER INSERT OR UPDATE OR DELETE ON holiday_calendar_rules
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('holiday_calendar', 'calendar_id');
+
+-- Expenses (edits only — imports are tracked per file)
+DROP TRIGGER IF EXISTS trg_audit_expenses ON public.expenses;
+CREATE TRIGGER trg_audit_expenses
+    AFTER UPDATE OR DELETE ON public.expenses
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('expense', 'id');
+
+-- Release notes
+DROP TRIGGER IF EXISTS trg_audit_release_notes ON public.release_notes;
+CREATE TRIGGER trg_audit_release_notes
+    AFTER INSERT OR UPDATE OR DELETE ON public.release_notes
+    FOR EACH ROW EXECUTE FUNCTION audit_row_change('release_note', 'id');
+
+-- ============================================================================
+-- STEP 4: RLS — admins read, nobody writes directly
+-- ============================================================================
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow admin read audit log" ON audit_log;
+CREATE POLICY "Allow admin read audit log"
+    ON audit_log FOR SELECT TO authenticated
+    USING (is_admin());
+DROP POLICY IF EXISTS "Allow service role full access audit log" ON audit_log;
+CREATE POLICY "Allow service role full access audit log"
+    ON audit_log FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+GRANT SELECT ON audit_log TO authenticated;
+
+-- ============================================================================
+-- STEP 5: get_audit_log
+-- ============================================================================
+-- Newest first. Filters are optional and combine with AND; p_from / p_to are
+-- inclusive dates. Billing rows (billing_audit_log) belong to their project.
+-- related_label names the employee / company / project a membership row
+-- points at, which the row itself only holds as an id.
+
+CREATE OR REPLACE FUNCTION get_audit_log(
+    p_entity_type TEXT DEFAULT NULL,
+    p_entity_id TEXT DEFAULT NULL,
+    p_changed_by UUID DEFAULT NULL,
+    p_from DATE DEFAULT NULL,
+    p_to DATE DEFAULT NULL,
+    p_limit INTEGER DEFAULT 500
+)
+RETURNS TABLE (
+    id              UUID,
+    source          TEXT,
+    table_name      TEXT,
+    record_id       TEXT,
+    action          TEXT,
+    entity_type     TEXT,
+    entity_id       TEXT,
+    entity_label    TEXT,
+    related_label   TEXT,
+    old_data        JSONB,
+    new_data        JSONB,
+    changed_fields  TEXT[],
+    changed_by      UUID,
+    changed_by_name TEXT,
+    changed_at      TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Access denied: admin privileges required.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    RETURN QUERY
+    WITH entries AS (
+        SELECT
+            a.id, 'entity'::TEXT AS source, a.table_name, a.record_id, a.action,
+            a.entity_type, a.entity_id, a.old_data, a.new_data, a.changed_fields,
+            a.changed_by, a.changed_at
+        FROM audit_log a
+        UNION ALL
+        SELECT
+            b.id, 'billing'::TEXT, b.table_name, b.record_id::TEXT, b.action,
+            'project'::TEXT, b.project_id::TEXT, b.old_data, b.new_data,
+            CASE WHEN b.action = 'UPDATE' THEN (
+                SELECT array_agg(n.key ORDER BY n.key)
+                FROM jsonb_each(b.new_data) n
+                WHERE n.key NOT IN ('updated_at', 'updated_by')
+                  AND n.value IS DISTINCT FROM b.old_data -> n.key
+            ) END,
+            b.changed_by, b.changed_at
+        FROM billing_audit_log b
+    )
+    SELECT
+        e.id,
+        e.source,
+        e.table_name,
+        e.record_id,
+        e.action,
+        e.entity_type,
+        e.entity_id,
+        CASE e.entity_type
+            WHEN 'employee' THEN (
+                SELECT COALESCE(NULLIF(TRIM(CONCAT(r.first_name, ' ', r.last_name)), ''), r.external_label)
+                FROM resources r WHERE r.id::TEXT = e.entity_id
+            )
+            WHEN 'company' THEN (
+                SELECT COALESCE(c.display_name, c.client_name)
+                FROM companies c WHERE c.id::TEXT = e.entity_id
+            )
+            WHEN 'project' THEN (
+                SELECT p.project_name FROM projects p WHERE p.id::TEXT = e.entity_id
+            )
+            WHEN 'holiday_calendar' THEN (
+                SELECT hc.name FROM holiday_calendars hc WHERE hc.id::TEXT = e.entity_id
+            )
+        END,
+        CASE e.table_name
+            WHEN 'physical_person_group_members' THEN (
+                SELECT COALESCE(NULLIF(TRIM(CONCAT(r.first_name, ' ', r.last_name)), ''), r.external_label)
+                FROM resources r
+                WHERE r.id::TEXT = COALESCE(e.new_data, e.old_data) ->> 'member_resource_id'
+            )
+            WHEN 'project_managers' THEN (
+                SELECT COALESCE(NULLIF(TRIM(CONCAT(r.first_name, ' ', r.last_name)), ''), r.external_label)
+                FROM resources r
+                WHERE r.id::TEXT = COALESCE(e.new_data, e.old_data) ->> 'resource_id'
+            )
+            WHEN 'company_group_members' THEN (
+                SELECT COALESCE(c.display_name, c.client_name)
+                FROM companies c
+                WHERE c.id::TEXT = COALESCE(e.new_data, e.old_data) ->> 'member_company_id'
+            )
+            WHEN 'project_group_members' THEN (
+                SELECT p.project_name
+                FROM projects p
+                WHERE p.id::TEXT = COALESCE(e.new_data, e.old_data) ->> 'member_project_id'
+            )
+        END,
+        e.old_data,
+        e.new_data,
+        e.changed_fields,
+        e.changed_by,
+        COALESCE(NULLIF(up.display_name, ''), u.email::TEXT),
+        e.changed_at
+    FROM entries e
+    LEFT JOIN user_profiles up ON up.id = e.changed_by
+    LEFT JOIN auth.users u ON u.id = e.changed_by
+    WHERE (p_entity_type IS NULL OR e.entity_type = p_entity_type)
+      AND (p_entity_id IS NULL OR e.entity_id = p_entity_id)
+      AND (p_changed_by IS NULL OR e.changed_by = p_changed_by)
+      AND (p_from IS NULL OR e.changed_at >= p_from)
+      AND (p_to IS NULL OR e.changed_at < p_to + 1)
+    ORDER BY e.changed_at DESC, e.id
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 500), 1), 2000);
+END;
+$$;
+
+COMMENT ON FUNCTION get_audit_log(TEXT, TEXT, UUID, DATE, DATE, INTEGER) IS
+    'Admin-only change history: audit_log merged with billing_audit_log, newest '
+    'first, filterable by entity, acting user and date range (inclusive).';
+
+REVOKE ALL ON FUNCTION get_audit_log(TEXT, TEXT, UUID, DATE, DATE, INTEGER) FROM PUBLIC;
+REVOKE ALL ON FUNCTION get_audit_log(TEXT, TEXT, UUID, DATE, DATE, INTEGER) FROM anon;
+GRANT EXECUTE ON FUNCTION get_audit_log(TEXT, TEXT, UUID, DATE, DATE, INTEGER) TO authenticated;
+
+-- ============================================================================
+-- VERIFICATION
+-- ============================================================================
+
+DO $$
+DECLARE
+    v_triggers INTEGER;
+BEGIN
+    SELECT COUNT(*) INTO v_triggers
+    FROM pg_trigger
+    WHERE tgfoid = 'audit_row_change'::regproc;
+
+    IF v_triggers < 17 THEN
+        RAISE EXCEPTION 'Expected 17 audit triggers, found %', v_triggers;
+    END IF;
+
+    RAISE NOTICE 'Migration 157 Complete:';
+    RAISE NOTICE '  - audit_log (admin read, trigger-written)';
+    RAISE NOTICE '  - audit_row_change() on % tables', v_triggers;
+    RAISE NOTICE '  - get_audit_log(entity_type, entity_id, changed_by, from, to, limit) (admin only)';
+END $$;
+
+COMMIT;
+
+-- ============================================================================
+-- DOWN / ROLLBACK (run manually if needed — NOT executed by this migration)
+-- ============================================================================
+-- BEGIN;
+--   DROP FUNCTION IF EXISTS get_audit_log(TEXT, TEXT, UUID, DATE, DATE, INTEGER);
+--   DROP TRIGGER IF EXISTS trg_audit_resources ON resources;
+--   DROP TRIGGER IF EXISTS trg_audit_resource_user_associations ON resource_user_associations;
+--   DROP TRIGGER IF EXISTS trg_audit_resource_monthly_costs ON resource_monthly_costs;
+--   DROP TRIGGER IF EXISTS trg_audit_physical_person_groups ON physical_person_groups;
+--   DROP TRIGGER IF EXISTS trg_audit_physical_person_group_members ON physical_person_group_members;
+--   DROP TRIGGER IF EXISTS trg_audit_companies ON companies;
+--   DROP TRIGGER IF EXISTS trg_audit_company_groups ON company_groups;
+--   DROP TRIGGER IF EXISTS trg_audit_company_group_members ON company_group_members;
+--   DROP TRIGGER IF EXISTS trg_audit_projects ON projects;
+--   DROP TRIGGER IF EXISTS trg_audit_project_groups ON project_groups;
+--   DROP TRIGGER IF EXISTS trg_audit_project_group_members ON project_group_members;
+--   DROP TRIGGER IF EXISTS trg_audit_project_managers ON project_managers;
+--   DROP TRIGGER IF EXISTS trg_audit_calendar_holidays ON calendar_holidays;
+--   DROP TRIGGER IF EXISTS trg_audit_holiday_calendars ON holiday_calendars;
+--   DROP TRIGGER IF EXISTS trg_audit_holiday_calendar_rules ON holiday_calendar_rules;
+--   DROP TRIGGER IF EXISTS trg_audit_expenses ON public.expenses;
+--   DROP TRIGGER IF EXISTS trg_audit_release_notes ON public.release_notes;
+--   DROP FUNCTION IF EXISTS audit_row_change();
+--   DROP TABLE IF EXISTS audit_log;
+-- COMMIT;
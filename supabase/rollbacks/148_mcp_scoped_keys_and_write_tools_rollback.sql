@@ -0,0 +1,213 @@
+-- ============================================================================
+-- Rollback for migration 148 — scoped keys, finance tools, write tools
+-- ============================================================================
+-- Drops the four scoped api_* tools, the scope helpers, the revenue view and
+-- admin_set_api_key_scopes; restores the migration 106 auth helper, the 107
+-- admin_list_api_keys and the 111 admin_create_api_key. Deploy the previous
+-- manifest-mcp and admin-api-keys Edge Functions FIRST — the current ones
+-- read `scopes` from the auth envelope and pass p_scopes on create.
+--
+-- Data: api_keys.scopes is dropped (every key reverts to the read-only tool
+-- set). mcp_api.api_write_log and public.employee_time_off_notes are KEPT —
+-- they hold the audit trail and user-entered notes. Drop them by hand once
+-- they are no longer needed. Manual time entries logged through the MCP stay
+-- in timesheet_daily_rollups like any other manual row.
+-- ============================================================================
+
+BEGIN;
+
+DROP FUNCTION IF EXISTS mcp_api.api_get_company_revenue(UUID, UUID, DATE, DATE);
+DROP FUNCTION IF EXISTS mcp_api.api_get_revenue_summary(UUID, DATE, DATE);
+DROP FUNCTION IF EXISTS mcp_api.api_log_time_entry(UUID, UUID, UUID, DATE, NUMERIC, TEXT);
+DROP FUNCTION IF EXISTS mcp_api.api_add_time_off_note(UUID, UUID, DATE, DATE, TEXT);
+DROP FUNCTION IF EXISTS mcp_api.admin_set_api_key_scopes(UUID, TEXT[]);
+DROP FUNCTION IF EXISTS mcp_api._internal_require_scope(UUID, TEXT);
+DROP VIEW IF EXISTS mcp_api.v_api_company_revenue_month;
+
+DROP POLICY IF EXISTS "Allow mcp_owner read" ON public.project_monthly_summary;
+DROP POLICY IF EXISTS "Allow mcp_owner read" ON public.monthly_fixed_billing_summary;
+DROP POLICY IF EXISTS "Allow mcp_owner manual rollups" ON public.timesheet_daily_rollups;
+DROP POLICY IF EXISTS "Allow mcp_owner enqueue recalculation" ON public.recalculation_queue;
+DROP POLICY IF EXISTS "Allow mcp_owner time off notes" ON public.employee_time_off_notes;
+
+REVOKE SELECT ON public.v_combined_revenue_by_company_month FROM mcp_owner;
+REVOKE SELECT ON public.project_monthly_summary FROM mcp_owner;
+REVOKE SELECT ON public.monthly_fixed_billing_summary FROM mcp_owner;
+REVOKE SELECT, INSERT, UPDATE ON public.timesheet_daily_rollups FROM mcp_owner;
+REVOKE INSERT ON public.recalculation_queue FROM mcp_owner;
+REVOKE SELECT, INSERT ON public.employee_time_off_notes FROM mcp_owner;
+REVOKE EXECUTE ON FUNCTION public.is_billing_month_closed(DATE) FROM mcp_owner;
+REVOKE EXECUTE ON FUNCTION public.populate_rounded_minutes(TEXT, DATE, DATE) FROM mcp_owner;
+REVOKE EXECUTE ON FUNCTION public.populate_layer2_totals(TEXT, DATE, DATE) FROM mcp_owner;
+REVOKE EXECUTE ON FUNCTION public.populate_task_monthly_totals(TEXT, DATE, DATE) FROM mcp_owner;
+
+-- Migration 106 body (no scopes on the envelope).
+CREATE OR REPLACE FUNCTION mcp_api._authenticate_and_consume(
+    p_token_hash    TEXT,
+    p_per_minute    INTEGER,
+    p_per_hour      INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = mcp_api, pg_temp
+AS $$
+DECLARE
+    v_key       RECORD;
+    v_rl        JSONB;
+BEGIN
+    SELECT api_key_id, status, prefix, name
+      INTO v_key
+      FROM mcp_api.api_authenticate_key(p_token_hash)
+     LIMIT 1;
+
+    IF v_key IS NULL OR v_key.api_key_id IS NULL THEN
+        RETURN jsonb_build_object('ok', false, 'reason', 'invalid');
+    END IF;
+
+    IF v_key.status <> 'active' THEN
+        RETURN jsonb_build_object('ok', false, 'reason', 'revoked');
+    END IF;
+
+    v_rl := mcp_api.api_consume_rate_limit(v_key.api_key_id, 'minute', p_per_minute);
+    IF NOT (v_rl->>'allowed')::boolean THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'reason', 'rate_limited',
+            'window_kind', 'minute',
+            'retry_after_ms', v_rl->'retry_after_ms'
+        );
+    END IF;
+
+    v_rl := mcp_api.api_consume_rate_limit(v_key.api_key_id, 'hour', p_per_hour);
+    IF NOT (v_rl->>'allowed')::boolean THEN
+        RETURN jsonb_build_object(
+            'ok', false,
+            'reason', 'rate_limited',
+            'window_kind', 'hour',
+            'retry_after_ms', v_rl->'retry_after_ms'
+        );
+    END IF;
+
+    RETURN jsonb_build_object(
+        'ok', true,
+        'api_key_id', v_key.api_key_id,
+        'prefix',     v_key.prefix,
+        'name',       v_key.name
+    );
+END;
+$$;
+
+ALTER FUNCTION mcp_api._authenticate_and_consume(TEXT, INTEGER, INTEGER) OWNER TO mcp_owner;
+
+-- Migration 107 body.
+CREATE OR REPLACE FUNCTION mcp_api.admin_list_api_keys()
+RETURNS SETOF JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = mcp_api, pg_temp
+AS $$
+BEGIN
+    PERFORM mcp_api._internal_assert_admin();
+
+    RETURN QUERY
+    SELECT jsonb_build_object(
+        'id',           k.id,
+        'name',         k.name,
+        'description',  k.description,
+        'prefix',       k.prefix,
+        'status',       k.status,
+        'created_at',   k.created_at,
+        'revoked_at',   k.revoked_at,
+        'last_used_at', k.last_used_at,
+        'created_by',   k.created_by
+    )
+    FROM mcp_api.api_keys k
+    ORDER BY k.created_at DESC;
+END;
+$$;
+
+ALTER FUNCTION mcp_api.admin_list_api_keys() OWNER TO mcp_owner;
+
+-- Migration 111 body (4 arguments).
+DROP FUNCTION IF EXISTS mcp_api.admin_create_api_key(TEXT, TEXT, TEXT, TEXT, TEXT[]);
+DROP FUNCTION IF EXISTS mcp_api._internal_normalize_scopes(TEXT[]);
+
+CREATE OR REPLACE FUNCTION mcp_api.admin_create_api_key(
+    p_name          TEXT,
+    p_description   TEXT,
+    p_prefix        TEXT,
+    p_key_hash      TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = mcp_api, pg_temp
+AS $$
+DECLARE
+    v_id          UUID;
+    v_claims_text TEXT;
+    v_caller      UUID;
+    v_row         mcp_api.api_keys%ROWTYPE;
+BEGIN
+    PERFORM mcp_api._internal_assert_admin();
+
+    v_claims_text := current_setting('request.jwt.claims', true);
+    IF v_claims_text IS NOT NULL AND v_claims_text <> '' THEN
+        BEGIN
+            v_caller := ((v_claims_text)::jsonb ->> 'sub')::uuid;
+        EXCEPTION WHEN OTHERS THEN
+            v_caller := NULL;
+        END;
+    END IF;
+
+    IF p_name IS NULL OR LENGTH(TRIM(p_name)) = 0 THEN
+        RAISE EXCEPTION 'name is required.'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF p_prefix IS NULL OR LENGTH(p_prefix) NOT BETWEEN 8 AND 24 THEN
+        RAISE EXCEPTION 'prefix must be 8..24 chars (received %).', LENGTH(COALESCE(p_prefix, ''))
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    IF p_key_hash IS NULL OR p_key_hash !~ '^[0-9a-f]{64}$' THEN
+        RAISE EXCEPTION 'key_hash must be 64-char lowercase hex (sha256).'
+            USING ERRCODE = 'invalid_parameter_value';
+    END IF;
+
+    INSERT INTO mcp_api.api_keys (
+        name, description, prefix, key_hash,
+        status, created_at, created_by
+    ) VALUES (
+        TRIM(p_name), NULLIF(TRIM(COALESCE(p_description, '')), ''),
+        p_prefix, p_key_hash,
+        'active', NOW(), v_caller
+    )
+    RETURNING id INTO v_id;
+
+    SELECT * INTO v_row FROM mcp_api.api_keys k WHERE k.id = v_id;
+
+    RETURN jsonb_build_object(
+        'id',           v_row.id,
+        'name',         v_row.name,
+        'description',  v_row.description,
+        'prefix',       v_row.prefix,
+        'status',       v_row.status,
+        'created_at',   v_row.created_at,
+        'revoked_at',   v_row.revoked_at,
+        'last_used_at', v_row.last_used_at,
+        'created_by',   v_row.created_by
+    );
+END;
+$$;
+
+ALTER FUNCTION mcp_api.admin_create_api_key(TEXT, TEXT, TEXT, TEXT) OWNER TO mcp_owner;
+REVOKE ALL ON FUNCTION mcp_api.admin_create_api_key(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mcp_api.admin_create_api_key(TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Dropped last: the restored admin_create_api_key no longer references it.
+ALTER TABLE mcp_api.api_keys DROP CONSTRAINT IF EXISTS api_keys_scopes_valid;
+ALTER TABLE mcp_api.api_keys DROP COLUMN IF EXISTS scopes;
+
+COMMIT;